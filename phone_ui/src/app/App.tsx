@@ -11,6 +11,7 @@ import { AuthCallback } from "@/app/pages/AuthCallback";
 import { AuthDebug } from "@/app/components/AuthDebug";
 import { MyTickets } from "@/app/pages/MyTickets";
 import { TicketDetail } from "@/app/pages/TicketDetail";
+import { EditRegistration } from "@/app/pages/EditRegistration";
 import { PendingTransfers } from "@/app/pages/PendingTransfers";
 import { supabase } from "@/lib/supabase";
 
@@ -137,6 +138,11 @@ export default function App() {
                   <TicketDetail />
                 </ProtectedRoute>
               } />
+              <Route path="/tickets/:ticketId/edit" element={
+                <ProtectedRoute>
+                  <EditRegistration />
+                </ProtectedRoute>
+              } />
               <Route path="/transfers/pending" element={
                 <ProtectedRoute>
                   <PendingTransfers />
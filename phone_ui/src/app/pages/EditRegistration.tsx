@@ -0,0 +1,357 @@
+import { useState, useEffect } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { ArrowLeft, Loader2, Lock, Clock, Check } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+
+type Answers = Record<string, unknown>;
+
+interface Question {
+    id: string;
+    ticket_type_id: string | null;
+    question_type: 'text' | 'textarea' | 'number' | 'select' | 'checkbox' | 'date' | 'file';
+    label: string;
+    description: string | null;
+    options: string[] | null;
+    is_required: boolean;
+    show_if: { question_id: string; operator: string; value?: string } | null;
+}
+
+interface AnswerSet {
+    ticket_instance_id: string | null;
+    ticket_type_id: string | null;
+    answers: Answers;
+}
+
+interface Registration {
+    id: string;
+    ticket_type_id: string | null;
+    participant: Record<string, string | null>;
+    answer_sets: AnswerSet[];
+}
+
+interface SelfService {
+    enabled: boolean;
+    cutoff_at: string | null;
+    fields: string[];
+    answers: boolean;
+    locked_reason: 'SELF_SERVICE_DISABLED' | 'CUTOFF_PASSED' | null;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    first_name: 'First name',
+    last_name: 'Last name',
+    phone: 'Phone',
+    birth_date: 'Date of birth',
+    gender: 'Gender',
+    address: 'Address',
+    city: 'City',
+    country: 'Country (e.g. NL)',
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+    NOT_REGISTERED: 'No registration found for this ticket',
+    SELF_SERVICE_DISABLED: 'The organizer does not allow changes for this event',
+    CUTOFF_PASSED: 'Changes are no longer possible, please contact the organizer',
+    INVALID_FIELD: 'Please check your details',
+    MISSING_REQUIRED_ANSWER: 'Please answer all required questions',
+    INVALID_ANSWER: 'Please check your answers',
+};
+
+// Same show-if rules as the checkout (registration_question_visible)
+function isVisible(question: Question, answers: Answers): boolean {
+    const rule = question.show_if;
+    if (!rule) return true;
+
+    const answer = answers[rule.question_id];
+    const text = answer === null || answer === undefined ? '' : String(answer).toLowerCase();
+    const value = (rule.value ?? '').toLowerCase();
+
+    switch (rule.operator) {
+        case 'equals': return text !== '' && text === value;
+        case 'not_equals': return !(text !== '' && text === value);
+        case 'contains': return text !== '' && text.includes(value);
+        case 'is_set': return text !== '';
+        case 'is_not_set': return text === '';
+        default: return true;
+    }
+}
+
+export function EditRegistration() {
+    const navigate = useNavigate();
+    const { state } = useLocation();
+    const ticket = state?.ticket;
+
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [selfService, setSelfService] = useState<SelfService | null>(null);
+    const [registration, setRegistration] = useState<Registration | null>(null);
+    const [answerSet, setAnswerSet] = useState<AnswerSet | null>(null);
+    const [questions, setQuestions] = useState<Question[]>([]);
+    const [profile, setProfile] = useState<Record<string, string>>({});
+    const [answers, setAnswers] = useState<Answers>({});
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        if (!ticket) return;
+
+        async function fetchRegistration() {
+            try {
+                const { data: event, error: eventError } = await supabase
+                    .from('events')
+                    .select('slug')
+                    .eq('id', ticket.event_id)
+                    .single();
+
+                if (eventError) throw eventError;
+
+                const { data, error: rpcError } = await supabase.rpc('get_self_service_registrations', {
+                    _event_slug: event.slug
+                });
+
+                if (rpcError) throw rpcError;
+                if (data?.error) throw new Error(ERROR_MESSAGES[data.error] || data.error);
+
+                // The registration that holds this ticket's answers
+                const registrations: Registration[] = data.registrations || [];
+                const match = registrations.find(r =>
+                    r.answer_sets.some(s => s.ticket_instance_id === ticket.ticket_instance_id)
+                ) ?? registrations[0];
+                if (!match) throw new Error(ERROR_MESSAGES.NOT_REGISTERED);
+
+                const set = match.answer_sets.find(s => s.ticket_instance_id === ticket.ticket_instance_id)
+                    ?? match.answer_sets[0]
+                    ?? null;
+                const ticketTypeId = set?.ticket_type_id ?? match.ticket_type_id;
+
+                setSelfService(data.self_service);
+                setRegistration(match);
+                setAnswerSet(set);
+                setQuestions((data.questions || []).filter((q: Question) =>
+                    !q.ticket_type_id || q.ticket_type_id === ticketTypeId
+                ));
+                setProfile(Object.fromEntries(
+                    data.self_service.fields.map((field: string) => [field, match.participant[field] ?? ''])
+                ));
+                setAnswers(set?.answers ?? {});
+            } catch (err) {
+                console.error('Error fetching registration:', err);
+                setError(err instanceof Error ? err.message : 'Could not load your registration');
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        fetchRegistration();
+    }, [ticket]);
+
+    const handleSave = async () => {
+        if (!registration || !selfService) return;
+        setSaving(true);
+        setSaved(false);
+        setError(null);
+
+        // Patch: visible answers, answers of hidden questions are cleared
+        const shown: Answers = {};
+        const patch: Answers = {};
+        for (const question of questions) {
+            if (!isVisible(question, shown)) continue;
+            shown[question.id] = answers[question.id];
+            if (question.question_type !== 'file' && answers[question.id] !== undefined) {
+                patch[question.id] = answers[question.id] === '' ? null : answers[question.id];
+            }
+        }
+        for (const questionId of Object.keys(answerSet?.answers ?? {})) {
+            if (!(questionId in shown)) patch[questionId] = null;
+        }
+
+        try {
+            const { data, error: rpcError } = await supabase.rpc('update_self_service_registration', {
+                _registration_id: registration.id,
+                _profile: selfService.fields.length > 0
+                    ? Object.fromEntries(Object.entries(profile).map(([field, value]) => [field, value.trim() || null]))
+                    : null,
+                _answers: selfService.answers && answerSet ? patch : null,
+                _ticket_instance_id: answerSet?.ticket_instance_id ?? null
+            });
+
+            if (rpcError) throw rpcError;
+            if (data?.error) throw new Error(ERROR_MESSAGES[data.error] || data.error);
+
+            setSaved(true);
+        } catch (err) {
+            console.error('Error saving registration:', err);
+            setError(err instanceof Error ? err.message : 'Could not save your changes');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!ticket) {
+        return (
+            <div className="h-full flex items-center justify-center">
+                <p>Ticket not found</p>
+                <button onClick={() => navigate('/tickets')} className="text-blue-500 ml-2">Go back</button>
+            </div>
+        );
+    }
+
+    const locked = selfService?.locked_reason != null;
+    const shownAnswers: Answers = {};
+    const visibleQuestions = questions.filter(question => {
+        if (!isVisible(question, shownAnswers)) return false;
+        shownAnswers[question.id] = answers[question.id];
+        return true;
+    });
+
+    return (
+        <div className="h-full flex flex-col bg-gray-50">
+            {/* Header */}
+            <div className="sticky top-0 bg-white border-b border-gray-200 z-10">
+                <div className="flex items-center justify-between px-5 py-4">
+                    <button
+                        onClick={() => navigate(-1)}
+                        className="flex items-center justify-center w-10 h-10 rounded-full hover:bg-gray-100"
+                    >
+                        <ArrowLeft className="w-5 h-5" />
+                    </button>
+                    <h1 className="text-lg font-semibold">My Details</h1>
+                    <div className="w-10" />
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-5 space-y-4">
+                {loading ? (
+                    <div className="flex justify-center py-12">
+                        <Loader2 className="w-8 h-8 animate-spin text-[#0047FF]" />
+                    </div>
+                ) : !registration || !selfService ? (
+                    <p className="text-center text-red-600 py-12">{error}</p>
+                ) : (
+                    <>
+                        <div>
+                            <p className="text-sm text-gray-500">{ticket.event_name}</p>
+                            <p className="font-semibold text-gray-900">{ticket.ticket_name}</p>
+                        </div>
+
+                        {locked ? (
+                            <div className="flex items-start gap-3 bg-gray-100 rounded-2xl p-4">
+                                <Lock className="w-5 h-5 text-gray-500 mt-0.5" />
+                                <p className="text-sm text-gray-700">{ERROR_MESSAGES[selfService.locked_reason!]}</p>
+                            </div>
+                        ) : selfService.cutoff_at && (
+                            <div className="flex items-start gap-3 bg-blue-50 rounded-2xl p-4">
+                                <Clock className="w-5 h-5 text-[#0047FF] mt-0.5" />
+                                <p className="text-sm text-gray-900">
+                                    You can change your details until{' '}
+                                    <span className="font-semibold">
+                                        {new Date(selfService.cutoff_at).toLocaleString('en-US', {
+                                            weekday: 'long',
+                                            month: 'long',
+                                            day: 'numeric',
+                                            hour: '2-digit',
+                                            minute: '2-digit'
+                                        })}
+                                    </span>
+                                </p>
+                            </div>
+                        )}
+
+                        {!locked && (
+                            <div className="bg-white rounded-3xl shadow-sm p-6 space-y-4">
+                                {selfService.fields.map(field => (
+                                    <div key={field}>
+                                        <label className="block text-xs text-gray-400 uppercase tracking-wider mb-1">
+                                            {FIELD_LABELS[field] ?? field}
+                                        </label>
+                                        {field === 'gender' ? (
+                                            <select
+                                                value={profile.gender ?? ''}
+                                                onChange={(e) => setProfile({ ...profile, gender: e.target.value })}
+                                                className="w-full px-4 py-3 border border-gray-200 rounded-xl"
+                                            >
+                                                <option value="">-</option>
+                                                <option value="M">Male</option>
+                                                <option value="F">Female</option>
+                                                <option value="X">X</option>
+                                                <option value="O">Other</option>
+                                            </select>
+                                        ) : (
+                                            <input
+                                                type={field === 'birth_date' ? 'date' : field === 'phone' ? 'tel' : 'text'}
+                                                value={profile[field] ?? ''}
+                                                onChange={(e) => setProfile({ ...profile, [field]: e.target.value })}
+                                                className="w-full px-4 py-3 border border-gray-200 rounded-xl"
+                                            />
+                                        )}
+                                    </div>
+                                ))}
+
+                                {selfService.answers && answerSet && visibleQuestions.map(question => (
+                                    <div key={question.id}>
+                                        <label className="block text-xs text-gray-400 uppercase tracking-wider mb-1">
+                                            {question.label}{question.is_required && ' *'}
+                                        </label>
+                                        {question.question_type === 'file' ? (
+                                            <p className="text-sm text-gray-500">Files can be changed on the event website</p>
+                                        ) : question.question_type === 'select' ? (
+                                            <select
+                                                value={String(answers[question.id] ?? '')}
+                                                onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.value })}
+                                                className="w-full px-4 py-3 border border-gray-200 rounded-xl"
+                                            >
+                                                <option value="">-</option>
+                                                {(question.options || []).map(option => (
+                                                    <option key={option} value={option}>{option}</option>
+                                                ))}
+                                            </select>
+                                        ) : question.question_type === 'checkbox' ? (
+                                            <input
+                                                type="checkbox"
+                                                checked={answers[question.id] === true}
+                                                onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.checked })}
+                                                className="w-5 h-5"
+                                            />
+                                        ) : question.question_type === 'textarea' ? (
+                                            <textarea
+                                                value={String(answers[question.id] ?? '')}
+                                                onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.value })}
+                                                rows={3}
+                                                className="w-full px-4 py-3 border border-gray-200 rounded-xl"
+                                            />
+                                        ) : (
+                                            <input
+                                                type={question.question_type === 'number' ? 'number' : question.question_type === 'date' ? 'date' : 'text'}
+                                                value={String(answers[question.id] ?? '')}
+                                                onChange={(e) => setAnswers({
+                                                    ...answers,
+                                                    [question.id]: question.question_type === 'number' && e.target.value !== ''
+                                                        ? Number(e.target.value)
+                                                        : e.target.value
+                                                })}
+                                                className="w-full px-4 py-3 border border-gray-200 rounded-xl"
+                                            />
+                                        )}
+                                    </div>
+                                ))}
+
+                                {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+                                <button
+                                    onClick={handleSave}
+                                    disabled={saving}
+                                    className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-[#0047FF] text-white rounded-xl font-semibold disabled:opacity-50"
+                                >
+                                    {saving
+                                        ? <Loader2 className="w-5 h-5 animate-spin" />
+                                        : saved && <Check className="w-5 h-5" />}
+                                    {saved ? 'Saved' : 'Save Changes'}
+                                </button>
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,11 +1,12 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { ArrowLeft, Ticket, Calendar, MapPin, Loader2 } from "lucide-react";
+import { ArrowLeft, Ticket, Calendar, MapPin, Loader2, Clock, Trophy } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/app/context/AuthContext";
 
 interface MyTicket {
     ticket_id: string;
+    ticket_instance_id: string;
     barcode: string;
     status: 'valid' | 'pending';
     created_at: string;
@@ -16,12 +17,51 @@ interface MyTicket {
     event_name: string;
     starts_at: string;
     location_name: string;
+    time_slot_id: string | null;
+    time_slot_label: string | null;
+    time_slot_time: string | null;
+    time_slot_date: string | null;
+}
+
+interface MyRaceResult {
+    ticket_instance_id: string | null;
+    status: 'finished' | 'dnf' | 'dns' | 'dsq';
+    net_time_ms: number | null;
+    gun_time_ms: number | null;
+    overall_rank: number | null;
+    overall_count: number;
+    gender: string | null;
+    gender_rank: number | null;
+    gender_count: number;
+    age_group: string | null;
+    age_group_rank: number | null;
+    age_group_count: number;
+}
+
+function formatResultTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${Number(minutes)}:${seconds}`;
+}
+
+function resultSummary(result: MyRaceResult): string {
+    const time = result.net_time_ms ?? result.gun_time_ms;
+    if (result.status !== 'finished' || time == null) return result.status.toUpperCase();
+
+    const parts = [formatResultTime(time)];
+    if (result.overall_rank != null) parts.push(`#${result.overall_rank} / ${result.overall_count}`);
+    if (result.gender_rank != null) parts.push(`${result.gender} #${result.gender_rank}`);
+    if (result.age_group_rank != null) parts.push(`${result.age_group} #${result.age_group_rank}`);
+    return parts.join(' · ');
 }
 
 export function MyTickets() {
     const navigate = useNavigate();
     const { user } = useAuth();
     const [tickets, setTickets] = useState<MyTicket[]>([]);
+    const [results, setResults] = useState<MyRaceResult[]>([]);
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
@@ -41,6 +81,10 @@ export function MyTickets() {
 
                 if (error) throw error;
                 setTickets(data || []);
+
+                // Published race results; a missing result just hides the line
+                const { data: resultData } = await supabase.rpc('get_my_race_results');
+                setResults(resultData?.results || []);
             } catch (err) {
                 console.error('Error fetching tickets:', err);
             } finally {
@@ -51,6 +95,9 @@ export function MyTickets() {
         fetchTickets();
     }, [user]);
 
+    const resultFor = (ticket: MyTicket) =>
+        results.find(result => result.ticket_instance_id === ticket.ticket_instance_id);
+
     if (!user) {
         return (
             <div className="h-full flex flex-col items-center justify-center p-6 text-center">
@@ -138,12 +185,27 @@ export function MyTickets() {
                                             })}
                                         </span>
                                     </div>
+                                    {ticket.time_slot_time && (
+                                        <div className="flex items-center gap-2">
+                                            <Clock className="w-4 h-4" />
+                                            <span>
+                                                {ticket.time_slot_label ? `${ticket.time_slot_label} · ` : 'Start '}
+                                                {ticket.time_slot_time.slice(0, 5)}
+                                            </span>
+                                        </div>
+                                    )}
                                     {ticket.location_name && (
                                         <div className="flex items-center gap-2">
                                             <MapPin className="w-4 h-4" />
                                             <span className="truncate">{ticket.location_name}</span>
                                         </div>
                                     )}
+                                    {resultFor(ticket) && (
+                                        <div className="flex items-center gap-2 text-gray-900 font-medium">
+                                            <Trophy className="w-4 h-4 text-[#0047FF]" />
+                                            <span>{resultSummary(resultFor(ticket)!)}</span>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         ))}
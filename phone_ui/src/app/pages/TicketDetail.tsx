@@ -1,14 +1,99 @@
 import { useState } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
-import { ArrowLeft, Calendar, MapPin, Share2, ArrowRightLeft } from "lucide-react";
+import { ArrowLeft, Calendar, MapPin, Share2, ArrowRightLeft, Clock, Wallet, Loader2, FileDown, UserPen } from "lucide-react";
 import { QRCodeSVG } from "qrcode.react";
 import { TransferModal } from "@/app/components/TransferModal";
+import { supabase } from "@/lib/supabase";
+
+type WalletPlatform = 'apple' | 'google';
 
 export function TicketDetail() {
     const navigate = useNavigate();
     const { state } = useLocation();
     const ticket = state?.ticket;
     const [showTransferModal, setShowTransferModal] = useState(false);
+    const [walletLoading, setWalletLoading] = useState<WalletPlatform | null>(null);
+    const [walletError, setWalletError] = useState<string | null>(null);
+    const [pdfLoading, setPdfLoading] = useState(false);
+
+    const addToWallet = async (platform: WalletPlatform) => {
+        setWalletLoading(platform);
+        setWalletError(null);
+
+        try {
+            const { data: { session } } = await supabase.auth.getSession();
+            if (!session) throw new Error('You must be logged in');
+
+            // Direct fetch: the .pkpass is binary, functions.invoke would read it as text
+            const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/wallet-pass`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${session.access_token}`,
+                    'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ ticket_instance_id: ticket.ticket_instance_id, platform }),
+            });
+
+            if (!response.ok) {
+                const body = await response.json().catch(() => null);
+                throw new Error(body?.error || 'Could not create wallet pass');
+            }
+
+            if (platform === 'apple') {
+                const blob = await response.blob();
+                window.location.href = URL.createObjectURL(blob);
+            } else {
+                const { save_url } = await response.json();
+                window.location.href = save_url;
+            }
+        } catch (err) {
+            console.error('Wallet pass error:', err);
+            setWalletError(err instanceof Error ? err.message : 'Could not create wallet pass');
+        } finally {
+            setWalletLoading(null);
+        }
+    };
+
+    const downloadPdf = async () => {
+        setPdfLoading(true);
+        setWalletError(null);
+
+        try {
+            const { data: { session } } = await supabase.auth.getSession();
+            if (!session) throw new Error('You must be logged in');
+
+            const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ticket-pdf`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${session.access_token}`,
+                    'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ ticket_instance_id: ticket.ticket_instance_id }),
+            });
+
+            if (!response.ok) {
+                const body = await response.json().catch(() => null);
+                throw new Error(body?.code === 'TICKETS_NOT_AVAILABLE'
+                    ? 'Your ticket PDF is not available yet'
+                    : body?.error || 'Could not download ticket PDF');
+            }
+
+            const blob = await response.blob();
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `ticket-${ticket.ticket_instance_id.slice(0, 8)}.pdf`;
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+        } catch (err) {
+            console.error('Ticket PDF error:', err);
+            setWalletError(err instanceof Error ? err.message : 'Could not download ticket PDF');
+        } finally {
+            setPdfLoading(false);
+        }
+    };
 
     if (!ticket) {
         return (
@@ -88,6 +173,23 @@ export function TicketDetail() {
                             <p className="font-semibold text-gray-900">{ticket.ticket_name}</p>
                         </div>
 
+                        {ticket.time_slot_time && (
+                            <div>
+                                <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Start Wave</p>
+                                <div className="flex items-start gap-2">
+                                    <Clock className="w-4 h-4 text-gray-400 mt-0.5" />
+                                    <p className="font-semibold text-gray-900">
+                                        {ticket.time_slot_label ? `${ticket.time_slot_label} · ` : ''}
+                                        {ticket.time_slot_time.slice(0, 5)}
+                                        {ticket.time_slot_date && ` (${new Date(ticket.time_slot_date).toLocaleDateString('en-US', {
+                                            month: 'short',
+                                            day: 'numeric'
+                                        })})`}
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+
                         <div>
                             <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Location</p>
                             <div className="flex items-start gap-2">
@@ -96,11 +198,54 @@ export function TicketDetail() {
                             </div>
                         </div>
 
-                        <div>
-                            <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Attendee</p>
-                            <p className="font-medium text-gray-900">Me</p>
+                        <div className="flex items-end justify-between">
+                            <div>
+                                <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Attendee</p>
+                                <p className="font-medium text-gray-900">Me</p>
+                            </div>
+                            <button
+                                onClick={() => navigate(`/tickets/${ticket.ticket_id}/edit`, { state: { ticket } })}
+                                className="flex items-center gap-1 text-sm font-semibold text-[#0047FF]"
+                            >
+                                <UserPen className="w-4 h-4" />
+                                Edit my details
+                            </button>
                         </div>
 
+                        {/* Wallet + PDF Buttons - Only show for valid tickets */}
+                        {ticket.status === 'valid' && (
+                            <div className="pt-4 border-t border-gray-200 space-y-2">
+                                <div className="grid grid-cols-2 gap-2">
+                                    {(['apple', 'google'] as WalletPlatform[]).map(platform => (
+                                        <button
+                                            key={platform}
+                                            onClick={() => addToWallet(platform)}
+                                            disabled={walletLoading !== null}
+                                            className="flex items-center justify-center gap-2 px-4 py-3 bg-black text-white rounded-xl text-sm font-semibold disabled:opacity-50"
+                                        >
+                                            {walletLoading === platform
+                                                ? <Loader2 className="w-4 h-4 animate-spin" />
+                                                : <Wallet className="w-4 h-4" />}
+                                            {platform === 'apple' ? 'Apple Wallet' : 'Google Wallet'}
+                                        </button>
+                                    ))}
+                                </div>
+                                <button
+                                    onClick={downloadPdf}
+                                    disabled={pdfLoading}
+                                    className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-900 rounded-xl text-sm font-semibold disabled:opacity-50"
+                                >
+                                    {pdfLoading
+                                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                                        : <FileDown className="w-4 h-4" />}
+                                    Download PDF
+                                </button>
+                                {walletError && (
+                                    <p className="text-sm text-red-600 text-center">{walletError}</p>
+                                )}
+                            </div>
+                        )}
+
                         {/* Transfer Button - Only show for valid tickets */}
                         {ticket.status === 'valid' && (
                             <div className="pt-4 border-t border-gray-200">
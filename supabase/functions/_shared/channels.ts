@@ -0,0 +1,349 @@
+/**
+ * Notification Channel Adapters
+ *
+ * One adapter per delivery channel, used by process-outbox for email_outbox
+ * (email) and notification_outbox (sms, push). The adapter per channel is
+ * chosen with EMAIL_ADAPTER, SMS_ADAPTER and PUSH_ADAPTER:
+ * - email: 'resend' (default, RESEND_API_KEY) or 'local'
+ * - sms: 'twilio' (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM) or
+ *   'local' (default)
+ * - push: 'webpush' (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT) or
+ *   'local' (default)
+ *
+ * The local adapter writes every message to notification_local_deliveries
+ * instead of sending it, so the whole flow can be tested offline.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import webpush from 'https://esm.sh/web-push@3.6.7'
+
+const RESEND_API_URL = 'https://api.resend.com/emails'
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type NotificationChannel = 'email' | 'sms' | 'push'
+
+export interface PushSubscriptionKeys {
+    id: string
+    endpoint: string
+    p256dh: string
+    auth: string
+}
+
+export interface OutgoingMessage {
+    /** email_outbox.id or notification_outbox.id */
+    outboxId: string
+    orgId: string
+    channel: NotificationChannel
+    /** Email address, E.164 phone number or user id (push) */
+    to: string
+    from?: string
+    replyTo?: string | null
+    /** Email subject or push title */
+    subject?: string | null
+    body: string
+    html?: string
+    /** Push click target */
+    url?: string | null
+    attachments?: Array<{ filename: string; content: string }>
+    /** Push only: subscriptions of the recipient */
+    subscriptions?: PushSubscriptionKeys[]
+}
+
+export interface SendResult {
+    providerMessageId: string
+    /** Raw provider response, logged in email_outbox_events */
+    response?: unknown
+}
+
+export interface ChannelAdapter {
+    name: string
+    channel: NotificationChannel
+    send(message: OutgoingMessage): Promise<SendResult>
+}
+
+/**
+ * Error from an adapter
+ *
+ * retryable = false means retrying will not help (e.g. invalid number),
+ * the message is then marked failed immediately. code is stored as
+ * error_code (HTTP status of the provider when available).
+ */
+export class ChannelAdapterError extends Error {
+    constructor(
+        message: string,
+        public retryable: boolean = true,
+        public code?: string,
+        public response?: unknown
+    ) {
+        super(message)
+        this.name = 'ChannelAdapterError'
+    }
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status >= 500 || status === 429
+}
+
+// ============================================================
+// EMAIL: RESEND
+// ============================================================
+
+export class ResendEmailAdapter implements ChannelAdapter {
+    name = 'resend'
+    channel: NotificationChannel = 'email'
+
+    constructor(private apiKey: string) {}
+
+    async send(message: OutgoingMessage): Promise<SendResult> {
+        const payload: Record<string, unknown> = {
+            from: message.from,
+            to: [message.to],
+            subject: message.subject,
+            html: message.html ?? message.body
+        }
+
+        if (message.html) {
+            payload.text = message.body || undefined
+        }
+
+        if (message.replyTo) {
+            payload.reply_to = message.replyTo
+        }
+
+        if (message.attachments && message.attachments.length > 0) {
+            payload.attachments = message.attachments
+        }
+
+        const response = await fetch(RESEND_API_URL, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${this.apiKey}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(payload)
+        })
+
+        const data = await response.json().catch(() => ({}))
+
+        if (!response.ok || !data.id) {
+            throw new ChannelAdapterError(
+                data.message || data.error || 'Unknown error',
+                isRetryableStatus(response.status),
+                String(response.status),
+                data
+            )
+        }
+
+        return { providerMessageId: data.id, response: data }
+    }
+}
+
+// ============================================================
+// SMS: TWILIO
+// ============================================================
+
+export class TwilioSmsAdapter implements ChannelAdapter {
+    name = 'twilio'
+    channel: NotificationChannel = 'sms'
+
+    constructor(private accountSid: string, private authToken: string, private from: string) {}
+
+    async send(message: OutgoingMessage): Promise<SendResult> {
+        const response = await fetch(`${TWILIO_API_URL}/Accounts/${this.accountSid}/Messages.json`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: new URLSearchParams({
+                To: message.to,
+                From: message.from || this.from,
+                Body: message.body
+            })
+        })
+
+        const data = await response.json().catch(() => ({}))
+
+        if (!response.ok || !data.sid) {
+            throw new ChannelAdapterError(
+                data.message || `Twilio API error (${response.status})`,
+                isRetryableStatus(response.status),
+                String(data.code ?? response.status),
+                data
+            )
+        }
+
+        return { providerMessageId: data.sid, response: data }
+    }
+}
+
+// ============================================================
+// PUSH: WEB PUSH (VAPID)
+// ============================================================
+
+/**
+ * Sends to every subscription of the recipient. Subscriptions the push
+ * service reports as gone (404/410) are deleted; the message counts as sent
+ * when at least one subscription accepted it.
+ */
+export class WebPushAdapter implements ChannelAdapter {
+    name = 'webpush'
+    channel: NotificationChannel = 'push'
+
+    constructor(
+        private client: SupabaseClient,
+        publicKey: string,
+        privateKey: string,
+        subject: string
+    ) {
+        webpush.setVapidDetails(subject, publicKey, privateKey)
+    }
+
+    async send(message: OutgoingMessage): Promise<SendResult> {
+        const subscriptions = message.subscriptions ?? []
+        if (subscriptions.length === 0) {
+            throw new ChannelAdapterError('Recipient has no push subscriptions', false, 'NO_SUBSCRIPTIONS')
+        }
+
+        const payload = JSON.stringify({
+            title: message.subject ?? '',
+            body: message.body,
+            url: message.url ?? null,
+            tag: message.outboxId
+        })
+
+        const delivered: string[] = []
+        const expired: string[] = []
+        let lastError: { message: string; statusCode?: number } | null = null
+
+        for (const subscription of subscriptions) {
+            try {
+                await webpush.sendNotification(
+                    { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+                    payload,
+                    { TTL: 3600 }
+                )
+                delivered.push(subscription.id)
+            } catch (error: any) {
+                if (error?.statusCode === 404 || error?.statusCode === 410) {
+                    expired.push(subscription.id)
+                } else {
+                    lastError = { message: error?.message ?? String(error), statusCode: error?.statusCode }
+                }
+            }
+        }
+
+        if (expired.length > 0) {
+            await this.client.from('push_subscriptions').delete().in('id', expired)
+        }
+
+        if (delivered.length > 0) {
+            await this.client
+                .from('push_subscriptions')
+                .update({ last_used_at: new Date().toISOString() })
+                .in('id', delivered)
+            return { providerMessageId: `${message.outboxId}:${delivered.length}`, response: { delivered, expired } }
+        }
+
+        if (!lastError) {
+            throw new ChannelAdapterError('All push subscriptions expired', false, '410')
+        }
+
+        throw new ChannelAdapterError(
+            lastError.message,
+            lastError.statusCode === undefined || isRetryableStatus(lastError.statusCode),
+            lastError.statusCode !== undefined ? String(lastError.statusCode) : undefined
+        )
+    }
+}
+
+// ============================================================
+// LOCAL (development / tests)
+// ============================================================
+
+export class LocalChannelAdapter implements ChannelAdapter {
+    name = 'local'
+
+    constructor(private client: SupabaseClient, public channel: NotificationChannel) {}
+
+    async send(message: OutgoingMessage): Promise<SendResult> {
+        const { data, error } = await this.client
+            .from('notification_local_deliveries')
+            .insert({
+                org_id: message.orgId,
+                channel: this.channel,
+                outbox_id: message.outboxId,
+                recipient: message.to,
+                subject: message.subject ?? null,
+                body: message.html ?? message.body,
+                payload: {
+                    from: message.from ?? null,
+                    reply_to: message.replyTo ?? null,
+                    url: message.url ?? null,
+                    attachments: (message.attachments ?? []).map(a => a.filename),
+                    subscriptions: (message.subscriptions ?? []).map(s => s.id)
+                }
+            })
+            .select('id')
+            .single()
+
+        if (error || !data) {
+            throw new ChannelAdapterError(error?.message || 'Local delivery failed', true, 'DB_ERROR')
+        }
+
+        return { providerMessageId: `local_${data.id}` }
+    }
+}
+
+// ============================================================
+// FACTORY
+// ============================================================
+
+/**
+ * Build the configured adapter for a channel
+ *
+ * @throws Error when a real adapter is selected without credentials
+ */
+export function getChannelAdapter(channel: NotificationChannel, client: SupabaseClient): ChannelAdapter {
+    if (channel === 'email') {
+        const adapterName = Deno.env.get('EMAIL_ADAPTER') || 'resend'
+        if (adapterName === 'local') {
+            return new LocalChannelAdapter(client, 'email')
+        }
+        const apiKey = Deno.env.get('RESEND_API_KEY')
+        if (!apiKey) {
+            throw new Error('Missing RESEND_API_KEY')
+        }
+        return new ResendEmailAdapter(apiKey)
+    }
+
+    if (channel === 'sms') {
+        const adapterName = Deno.env.get('SMS_ADAPTER') || 'local'
+        if (adapterName === 'twilio') {
+            const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID')
+            const authToken = Deno.env.get('TWILIO_AUTH_TOKEN')
+            const from = Deno.env.get('TWILIO_FROM')
+            if (!accountSid || !authToken || !from) {
+                throw new Error('Missing TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN or TWILIO_FROM')
+            }
+            return new TwilioSmsAdapter(accountSid, authToken, from)
+        }
+        return new LocalChannelAdapter(client, 'sms')
+    }
+
+    const adapterName = Deno.env.get('PUSH_ADAPTER') || 'local'
+    if (adapterName === 'webpush') {
+        const publicKey = Deno.env.get('VAPID_PUBLIC_KEY')
+        const privateKey = Deno.env.get('VAPID_PRIVATE_KEY')
+        const subject = Deno.env.get('VAPID_SUBJECT')
+        if (!publicKey || !privateKey || !subject) {
+            throw new Error('Missing VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY or VAPID_SUBJECT')
+        }
+        return new WebPushAdapter(client, publicKey, privateKey, subject)
+    }
+    return new LocalChannelAdapter(client, 'push')
+}
@@ -109,6 +109,92 @@ export function addUnsubscribeFooter(htmlBody: string, unsubscribeUrl: string):
     return htmlBody + footer
 }
 
+/**
+ * Sign a tracked link for one recipient
+ *
+ * HMAC-SHA256 over "{linkId}.{emailId}", base64url encoded. track-link only
+ * counts a click when the signature matches, so clicks cannot be attributed
+ * to other recipients by editing the URL.
+ *
+ * @param linkId - email_tracked_links.id
+ * @param emailId - email_outbox.id of the recipient
+ * @param secret - The signing secret (SERVICE_ROLE_KEY)
+ * @returns Base64url signature
+ */
+export async function signTrackedLink(linkId: string, emailId: string, secret: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    )
+
+    const signatureBytes = await crypto.subtle.sign(
+        'HMAC',
+        key,
+        new TextEncoder().encode(`${linkId}.${emailId}`)
+    )
+
+    return btoa(String.fromCharCode(...new Uint8Array(signatureBytes)))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '')
+}
+
+/**
+ * Build a tracked link URL
+ *
+ * @param baseUrl - The Supabase functions URL (e.g., https://xxx.supabase.co/functions/v1)
+ * @param linkId - email_tracked_links.id
+ * @param emailId - email_outbox.id of the recipient
+ * @param signature - Result of signTrackedLink
+ * @returns Redirect URL via the track-link function
+ */
+export function buildTrackedLinkUrl(baseUrl: string, linkId: string, emailId: string, signature: string): string {
+    return `${baseUrl}/track-link?l=${linkId}&e=${emailId}&s=${signature}`
+}
+
+const HREF_PATTERN = /href\s*=\s*(["'])(https?:\/\/[^"']+)\1/gi
+
+/** Unsubscribe links are never tracked (they must keep working as-is) */
+function isTrackableUrl(url: string): boolean {
+    return !/\/unsubscribe\?/.test(url) && !/\/track-link\?/.test(url)
+}
+
+function decodeHref(href: string): string {
+    return href.replace(/&amp;/g, '&')
+}
+
+/**
+ * Collect the http(s) links in an HTML body that should be tracked
+ *
+ * @param htmlBody - The HTML email body
+ * @returns Unique target URLs (HTML entities in href decoded)
+ */
+export function extractTrackableLinks(htmlBody: string): string[] {
+    const urls = new Set<string>()
+    for (const match of htmlBody.matchAll(HREF_PATTERN)) {
+        const url = decodeHref(match[2])
+        if (isTrackableUrl(url)) urls.add(url)
+    }
+    return Array.from(urls)
+}
+
+/**
+ * Replace link targets in an HTML body
+ *
+ * @param htmlBody - The HTML email body
+ * @param trackedUrls - Map of original URL → tracked URL (from extractTrackableLinks)
+ * @returns HTML body with tracked links; unknown links are left untouched
+ */
+export function rewriteTrackedLinks(htmlBody: string, trackedUrls: Record<string, string>): string {
+    return htmlBody.replace(HREF_PATTERN, (full, quote: string, href: string) => {
+        const tracked = trackedUrls[decodeHref(href)]
+        return tracked ? `href=${quote}${tracked.replace(/&/g, '&amp;')}${quote}` : full
+    })
+}
+
 /**
  * Validate email format
  *
@@ -0,0 +1,136 @@
+/**
+ * Fundraising Providers
+ *
+ * Abstraction over the external fundraising partner (Supporta) that hosts
+ * the action pages. The provider is chosen with FUNDRAISING_PROVIDER:
+ * - 'mock' (default): local provider for development and tests
+ * - 'supporta': HTTP API, needs SUPPORTA_API_URL and SUPPORTA_API_KEY
+ */
+
+export interface CreatePageInput {
+    participationId: string
+    charityExternalId: string
+    charityName: string
+    eventName: string
+    firstName: string | null
+    lastName: string | null
+    email: string
+    returnUrl: string | null
+}
+
+export interface CreatePageResult {
+    externalPageId: string
+    externalPageUrl: string
+}
+
+export interface FundraisingProvider {
+    name: string
+    createPage(input: CreatePageInput): Promise<CreatePageResult>
+}
+
+/**
+ * Error from a provider call
+ *
+ * retryable = false means retrying will not help (e.g. unknown charity),
+ * the worker then marks the participation as failed immediately.
+ */
+export class FundraisingProviderError extends Error {
+    constructor(message: string, public retryable: boolean = true) {
+        super(message)
+        this.name = 'FundraisingProviderError'
+    }
+}
+
+/**
+ * Mock provider
+ *
+ * Returns a deterministic page per participation. Set
+ * FUNDRAISING_MOCK_FAIL=1 to simulate an unavailable partner.
+ */
+export class MockFundraisingProvider implements FundraisingProvider {
+    name = 'mock'
+
+    constructor(private baseUrl: string, private fail: boolean = false) {}
+
+    createPage(input: CreatePageInput): Promise<CreatePageResult> {
+        if (this.fail) {
+            return Promise.reject(new FundraisingProviderError('Mock provider failure (FUNDRAISING_MOCK_FAIL)'))
+        }
+
+        const externalPageId = `mock_${input.participationId}`
+        return Promise.resolve({
+            externalPageId,
+            externalPageUrl: `${this.baseUrl.replace(/\/$/, '')}/${input.charityExternalId}/${externalPageId}`
+        })
+    }
+}
+
+/**
+ * Supporta provider
+ *
+ * POST {SUPPORTA_API_URL}/action-pages. 4xx (except 429) is permanent.
+ */
+export class SupportaFundraisingProvider implements FundraisingProvider {
+    name = 'supporta'
+
+    constructor(private apiUrl: string, private apiKey: string) {}
+
+    async createPage(input: CreatePageInput): Promise<CreatePageResult> {
+        const response = await fetch(`${this.apiUrl.replace(/\/$/, '')}/action-pages`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${this.apiKey}`,
+                'Content-Type': 'application/json',
+                // Partner dedupliceert op deze key bij retries
+                'Idempotency-Key': input.participationId
+            },
+            body: JSON.stringify({
+                charity_id: input.charityExternalId,
+                title: `${input.firstName ?? ''} voor ${input.charityName}`.trim(),
+                event_name: input.eventName,
+                owner: {
+                    email: input.email,
+                    first_name: input.firstName,
+                    last_name: input.lastName
+                },
+                return_url: input.returnUrl,
+                reference: input.participationId
+            })
+        })
+
+        const data = await response.json().catch(() => ({}))
+
+        if (!response.ok || !data.id || !data.url) {
+            const retryable = response.ok || response.status >= 500 || response.status === 429
+            throw new FundraisingProviderError(
+                data.message || data.error || `Supporta API error (${response.status})`,
+                retryable
+            )
+        }
+
+        return { externalPageId: String(data.id), externalPageUrl: data.url }
+    }
+}
+
+/**
+ * Build the configured provider
+ *
+ * @throws Error when the supporta provider is selected without credentials
+ */
+export function getFundraisingProvider(): FundraisingProvider {
+    const providerName = Deno.env.get('FUNDRAISING_PROVIDER') || 'mock'
+
+    if (providerName === 'supporta') {
+        const apiUrl = Deno.env.get('SUPPORTA_API_URL')
+        const apiKey = Deno.env.get('SUPPORTA_API_KEY')
+        if (!apiUrl || !apiKey) {
+            throw new Error('Missing SUPPORTA_API_URL or SUPPORTA_API_KEY')
+        }
+        return new SupportaFundraisingProvider(apiUrl, apiKey)
+    }
+
+    return new MockFundraisingProvider(
+        Deno.env.get('FUNDRAISING_MOCK_BASE_URL') || 'https://fundraising.mock.local/p',
+        Deno.env.get('FUNDRAISING_MOCK_FAIL') === '1'
+    )
+}
@@ -0,0 +1,201 @@
+/**
+ * Payment Webhook Processing
+ *
+ * Provider-independent webhook pipeline, shared by payment-webhook,
+ * mollie-webhook and simulate-payment:
+ * 1. Parse notification (provider.parseWebhook, signature check for Stripe)
+ * 2. Re-fetch the payment/refund from the provider (never trust the payload)
+ * 3. Idempotency via payment_events (unique provider + provider_event_id)
+ * 4. handle_payment_webhook / handle_refund_webhook RPC
+ * 5. Mark event as processed
+ *
+ * Status codes follow the Mollie best practices: 200 for unknown ids and
+ * duplicates (stops retries, no information leakage), 502 when the provider
+ * is unreachable and 500 for database errors (provider retries).
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { Logger } from './logger.ts'
+import { PaymentProviderError } from './payments.ts'
+import type { PaymentProvider, WebhookNotification } from './payments.ts'
+
+export interface WebhookOutcome {
+    httpStatus: number
+    message: string
+    result?: any
+}
+
+/**
+ * Parse and process a webhook request
+ */
+export async function handlePaymentWebhook(
+    req: Request,
+    provider: PaymentProvider,
+    supabaseAdmin: SupabaseClient,
+    logger: Logger
+): Promise<Response> {
+    let notification: WebhookNotification | null
+
+    try {
+        notification = await provider.parseWebhook(req)
+    } catch (parseError) {
+        if (parseError instanceof PaymentProviderError && parseError.code === 'INVALID_SIGNATURE') {
+            logger.warn('Webhook signature rejected', { provider: provider.name, error: parseError.message })
+            return new Response('Invalid signature', { status: 400 })
+        }
+        logger.warn('Failed to parse webhook', parseError)
+        // Return 200 per Mollie best practice (no info leakage)
+        return new Response('OK', { status: 200 })
+    }
+
+    if (!notification) {
+        logger.warn('No payment or refund in webhook payload', { provider: provider.name })
+        return new Response('OK', { status: 200 })
+    }
+
+    const outcome = await processPaymentNotification(notification, provider, supabaseAdmin, logger)
+    return new Response(outcome.message, { status: outcome.httpStatus })
+}
+
+/**
+ * Process a parsed notification against the authoritative provider status
+ */
+export async function processPaymentNotification(
+    notification: WebhookNotification,
+    provider: PaymentProvider,
+    supabaseAdmin: SupabaseClient,
+    logger: Logger
+): Promise<WebhookOutcome> {
+    const startTime = Date.now()
+    logger.info('Processing webhook', { provider: provider.name, type: notification.type, id: notification.id })
+
+    if (provider.testMode) {
+        logger.info(`🧪 ${provider.name.toUpperCase()} TEST MODE`)
+    }
+
+    // 1. FETCH FROM PROVIDER (verification + authoritative status)
+    let providerObject
+    try {
+        providerObject = notification.type === 'refund'
+            ? await provider.getRefund(notification.id)
+            : await provider.getPayment(notification.id)
+    } catch (fetchErr) {
+        logger.error('Provider API error', {
+            provider: provider.name,
+            id: notification.id,
+            error: fetchErr instanceof Error ? fetchErr.message : String(fetchErr)
+        })
+        // Return 502 so the provider retries
+        return { httpStatus: 502, message: 'Provider API Error' }
+    }
+
+    // Return 200 for unknown IDs (security: no info leakage)
+    if (!providerObject) {
+        logger.warn('Unknown id at provider (returning 200)', { provider: provider.name, id: notification.id })
+        return { httpStatus: 200, message: 'OK' }
+    }
+
+    const status = providerObject.status
+    const orderId = 'metadata' in providerObject ? providerObject.metadata.order_id : null
+
+    if (notification.type === 'payment' && !orderId) {
+        logger.warn('No order_id in payment metadata', { paymentId: notification.id, status })
+        // Return 200 to stop retries (this payment has no order association in our system)
+        return { httpStatus: 200, message: 'OK' }
+    }
+
+    // 2. IDEMPOTENCY CHECK (payment_events table)
+    // provider_event_id = "id:status" ensures status changes are tracked separately.
+    const eventKey = notification.type === 'refund'
+        ? `refund:${notification.id}:${status}`
+        : `${notification.id}:${status}`
+
+    const { error: eventError } = await supabaseAdmin
+        .from('payment_events')
+        .insert({
+            provider: provider.name,
+            provider_event_id: eventKey,
+            provider_payment_id: notification.id,
+            event_type: `${notification.type}.${status}`,
+            payload: providerObject.raw,
+            processed_at: null
+        })
+
+    if (eventError) {
+        // Unique constraint violation (23505) = already processed
+        if (eventError.code === '23505') {
+            logger.info('Event already processed (idempotent)', { eventKey })
+            return { httpStatus: 200, message: 'OK' }
+        }
+        logger.error('DB Error inserting payment_event', {
+            error: eventError.message,
+            code: eventError.code,
+            eventKey
+        })
+        return { httpStatus: 500, message: 'Database Error' }
+    }
+
+    // 3. CALL RPC
+    const { data: result, error: rpcError } = notification.type === 'refund'
+        ? await supabaseAdmin.rpc('handle_refund_webhook', {
+            _mollie_refund_id: notification.id,
+            _status: status,
+            _refunded_at: status === 'refunded' ? new Date().toISOString() : null
+        })
+        : await supabaseAdmin.rpc('handle_payment_webhook', {
+            _order_id: orderId,
+            _payment_id: notification.id,
+            _status: status,
+            _amount: providerObject.amountCents / 100,
+            _currency: 'currency' in providerObject ? providerObject.currency : 'EUR'
+        })
+
+    if (rpcError) {
+        logger.error('Webhook RPC failed', {
+            type: notification.type,
+            error: rpcError.message,
+            code: rpcError.code,
+            id: notification.id,
+            status
+        })
+        // Return 500 so the provider retries — idempotency check will catch duplicates
+        return { httpStatus: 500, message: 'Transaction Failed' }
+    }
+
+    // Log result
+    if (notification.type === 'refund') {
+        if (result?.success && status === 'refunded') {
+            logger.info('✅ Refund COMPLETED', { refundId: notification.id, ticketsVoided: result.tickets_voided })
+        } else {
+            logger.info('ℹ️ Refund webhook processed', { refundId: notification.id, status, result })
+        }
+    } else if (result?.overbooked) {
+        logger.warn('⚠️ OVERBOOKED — order cancelled, refund required', {
+            orderId,
+            available: result.available,
+            requested: result.requested,
+            ticketType: result.ticket_type
+        })
+    } else if (result?.paid) {
+        logger.info('✅ Order PAID', {
+            orderId,
+            ticketsIssued: result.tickets_issued,
+            emailQueued: result.email_queued
+        })
+    } else if (result?.cancelled) {
+        logger.info('❌ Order CANCELLED', { orderId, reason: result.reason })
+    } else {
+        logger.info('ℹ️ Webhook processed', { orderId, status, result })
+    }
+
+    // 4. MARK EVENT AS PROCESSED
+    await supabaseAdmin
+        .from('payment_events')
+        .update({ processed_at: new Date().toISOString() })
+        .eq('provider', provider.name)
+        .eq('provider_event_id', eventKey)
+
+    logger.info('Webhook completed', { eventKey, status, durationMs: Date.now() - startTime })
+
+    return { httpStatus: 200, message: 'OK', result }
+}
@@ -0,0 +1,676 @@
+/**
+ * Payment Providers
+ *
+ * Abstraction over the payment service provider. Edge functions never call a
+ * provider API directly; they resolve a provider and use this interface to
+ * create payments and refunds, fetch the authoritative status and parse
+ * webhooks.
+ *
+ * The provider is chosen per event with the payments.payment_profile_id
+ * setting (payment_profiles row: provider + secret_name). Without a profile
+ * PAYMENT_PROVIDER is used (default 'mollie'). Providers:
+ * - 'mollie': MOLLIE_API_KEY
+ * - 'stripe': STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET (Checkout Sessions)
+ * - 'fake': deterministic local provider for development and tests, only
+ *   available with SIMULATE_PAYMENTS_ENABLED=true
+ *
+ * A profile with secret_name 'ACME' reads MOLLIE_API_KEY_ACME etc.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type PaymentProviderName = 'mollie' | 'stripe' | 'fake'
+
+/** Normalized payment status, passed as-is to handle_payment_webhook */
+export type ProviderPaymentStatus =
+    | 'open'
+    | 'pending'
+    | 'authorized'
+    | 'paid'
+    | 'failed'
+    | 'canceled'
+    | 'expired'
+
+/** Normalized refund status, matches refunds.status */
+export type ProviderRefundStatus =
+    | 'pending'
+    | 'queued'
+    | 'processing'
+    | 'refunded'
+    | 'failed'
+    | 'canceled'
+
+export interface CreatePaymentInput {
+    amountCents: number
+    currency: string
+    description: string
+    redirectUrl: string
+    webhookUrl: string
+    metadata: Record<string, string>
+    idempotencyKey?: string
+}
+
+export interface ProviderPayment {
+    id: string
+    status: ProviderPaymentStatus
+    checkoutUrl: string | null
+    amountCents: number
+    currency: string
+    metadata: Record<string, string>
+    raw: unknown
+}
+
+export interface CreateRefundInput {
+    paymentId: string
+    amountCents: number
+    currency: string
+    description: string
+    metadata: Record<string, string>
+}
+
+export interface ProviderRefund {
+    id: string
+    status: ProviderRefundStatus
+    amountCents: number
+    raw: unknown
+}
+
+export interface WebhookNotification {
+    type: 'payment' | 'refund'
+    id: string
+}
+
+export interface PaymentProvider {
+    name: PaymentProviderName
+    testMode: boolean
+    createPayment(input: CreatePaymentInput): Promise<ProviderPayment>
+    /** Authoritative status; null = unknown at the provider */
+    getPayment(paymentId: string): Promise<ProviderPayment | null>
+    createRefund(input: CreateRefundInput): Promise<ProviderRefund>
+    /** Authoritative status; null = unknown at the provider */
+    getRefund(refundId: string): Promise<ProviderRefund | null>
+    /** null = nothing to process (unknown format, irrelevant event) */
+    parseWebhook(req: Request): Promise<WebhookNotification | null>
+}
+
+/**
+ * Error from a provider call
+ *
+ * code: PROVIDER_ERROR (API rejected the request), PROVIDER_UNREACHABLE
+ * (network/timeout, safe to retry), INVALID_SIGNATURE (webhook not signed by
+ * the provider).
+ */
+export class PaymentProviderError extends Error {
+    constructor(message: string, public code: string = 'PROVIDER_ERROR', public details?: unknown) {
+        super(message)
+        this.name = 'PaymentProviderError'
+    }
+}
+
+const PROVIDER_FETCH_TIMEOUT_MS = 10000  // 10 seconds (Mollie times out webhooks at 15s)
+
+/**
+ * Fetch with timeout; network errors become PROVIDER_UNREACHABLE
+ */
+async function providerFetch(url: string, options: RequestInit): Promise<Response> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), PROVIDER_FETCH_TIMEOUT_MS)
+
+    try {
+        return await fetch(url, { ...options, signal: controller.signal })
+    } catch (error) {
+        const reason = error instanceof Error && error.name === 'AbortError'
+            ? 'timeout'
+            : String(error)
+        throw new PaymentProviderError(`Provider unreachable (${reason})`, 'PROVIDER_UNREACHABLE')
+    } finally {
+        clearTimeout(timeoutId)
+    }
+}
+
+function centsToDecimal(cents: number): string {
+    return (cents / 100).toFixed(2)
+}
+
+function decimalToCents(value: string | undefined): number {
+    return Math.round(parseFloat(value || '0') * 100)
+}
+
+// ============================================================
+// MOLLIE
+// ============================================================
+
+const MOLLIE_API_URL = 'https://api.mollie.com/v2'
+
+/**
+ * Mollie provider
+ *
+ * Payments API with hosted checkout. Webhooks only contain the id
+ * (tr_ payment, re_ refund); the status is always re-fetched.
+ */
+export class MolliePaymentProvider implements PaymentProvider {
+    name = 'mollie' as const
+    testMode: boolean
+
+    constructor(private apiKey: string) {
+        this.testMode = apiKey.startsWith('test_')
+    }
+
+    private async request(path: string, init: RequestInit = {}): Promise<Response> {
+        return await providerFetch(`${MOLLIE_API_URL}${path}`, {
+            ...init,
+            headers: {
+                'Authorization': `Bearer ${this.apiKey}`,
+                'Content-Type': 'application/json',
+            },
+        })
+    }
+
+    private async fail(response: Response): Promise<never> {
+        const data = await response.json().catch(() => ({}))
+        throw new PaymentProviderError(
+            data.detail || `Mollie API error (${response.status})`,
+            'PROVIDER_ERROR',
+            data
+        )
+    }
+
+    private toPayment(data: any): ProviderPayment {
+        return {
+            id: data.id,
+            status: data.status,
+            checkoutUrl: data._links?.checkout?.href ?? null,
+            amountCents: decimalToCents(data.amount?.value),
+            currency: data.amount?.currency || 'EUR',
+            metadata: data.metadata ?? {},
+            raw: data,
+        }
+    }
+
+    private toRefund(data: any): ProviderRefund {
+        return {
+            id: data.id,
+            status: data.status,
+            amountCents: decimalToCents(data.amount?.value),
+            raw: data,
+        }
+    }
+
+    async createPayment(input: CreatePaymentInput): Promise<ProviderPayment> {
+        const response = await this.request('/payments', {
+            method: 'POST',
+            body: JSON.stringify({
+                amount: { currency: input.currency, value: centsToDecimal(input.amountCents) },
+                description: input.description,
+                redirectUrl: input.redirectUrl,
+                webhookUrl: input.webhookUrl,
+                metadata: input.metadata,
+            }),
+        })
+        if (!response.ok) await this.fail(response)
+        return this.toPayment(await response.json())
+    }
+
+    async getPayment(paymentId: string): Promise<ProviderPayment | null> {
+        const response = await this.request(`/payments/${paymentId}`)
+        if (response.status === 404) return null
+        if (!response.ok) await this.fail(response)
+        return this.toPayment(await response.json())
+    }
+
+    async createRefund(input: CreateRefundInput): Promise<ProviderRefund> {
+        const response = await this.request(`/payments/${input.paymentId}/refunds`, {
+            method: 'POST',
+            body: JSON.stringify({
+                amount: { currency: input.currency, value: centsToDecimal(input.amountCents) },
+                description: input.description,
+                metadata: input.metadata,
+            }),
+        })
+        if (!response.ok) await this.fail(response)
+        return this.toRefund(await response.json())
+    }
+
+    async getRefund(refundId: string): Promise<ProviderRefund | null> {
+        const response = await this.request(`/refunds/${refundId}`)
+        if (response.status === 404) return null
+        if (!response.ok) await this.fail(response)
+        return this.toRefund(await response.json())
+    }
+
+    async parseWebhook(req: Request): Promise<WebhookNotification | null> {
+        // Form-encoded body with only 'id'
+        let id: FormDataEntryValue | null
+        try {
+            id = (await req.formData()).get('id')
+        } catch {
+            return null
+        }
+        if (!id) return null
+
+        const idStr = String(id)
+        return { type: idStr.startsWith('re_') ? 'refund' : 'payment', id: idStr }
+    }
+}
+
+// ============================================================
+// STRIPE
+// ============================================================
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1'
+const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 300
+
+/**
+ * Stripe provider
+ *
+ * Payment = Checkout Session (cs_), refunds go via its payment_intent.
+ * Webhooks are verified with the Stripe-Signature header and only used for
+ * the id; the status is re-fetched like with Mollie.
+ */
+export class StripePaymentProvider implements PaymentProvider {
+    name = 'stripe' as const
+    testMode: boolean
+
+    constructor(private secretKey: string, private webhookSecret: string | null) {
+        this.testMode = secretKey.startsWith('sk_test_')
+    }
+
+    private async request(path: string, init: RequestInit = {}, idempotencyKey?: string): Promise<Response> {
+        const headers: Record<string, string> = {
+            'Authorization': `Bearer ${this.secretKey}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+        }
+        if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey
+
+        return await providerFetch(`${STRIPE_API_URL}${path}`, { ...init, headers })
+    }
+
+    private async fail(response: Response): Promise<never> {
+        const data = await response.json().catch(() => ({}))
+        throw new PaymentProviderError(
+            data.error?.message || `Stripe API error (${response.status})`,
+            'PROVIDER_ERROR',
+            data
+        )
+    }
+
+    private toPayment(session: any): ProviderPayment {
+        let status: ProviderPaymentStatus = 'open'
+        if (session.payment_status === 'paid') {
+            status = 'paid'
+        } else if (session.status === 'expired') {
+            status = 'expired'
+        } else if (session.status === 'complete') {
+            // Afgerond maar (nog) niet betaald: asynchrone betaalmethode
+            const intentStatus = session.payment_intent?.status
+            status = intentStatus === 'canceled'
+                ? 'canceled'
+                : intentStatus === 'requires_payment_method' ? 'failed' : 'pending'
+        }
+
+        return {
+            id: session.id,
+            status,
+            checkoutUrl: session.url ?? null,
+            amountCents: session.amount_total ?? 0,
+            currency: (session.currency || 'eur').toUpperCase(),
+            metadata: session.metadata ?? {},
+            raw: session,
+        }
+    }
+
+    private toRefund(refund: any): ProviderRefund {
+        const statusMap: Record<string, ProviderRefundStatus> = {
+            pending: 'pending',
+            requires_action: 'processing',
+            succeeded: 'refunded',
+            failed: 'failed',
+            canceled: 'canceled',
+        }
+        return {
+            id: refund.id,
+            status: statusMap[refund.status] ?? 'processing',
+            amountCents: refund.amount ?? 0,
+            raw: refund,
+        }
+    }
+
+    async createPayment(input: CreatePaymentInput): Promise<ProviderPayment> {
+        const form = new URLSearchParams({
+            'mode': 'payment',
+            'success_url': input.redirectUrl,
+            'cancel_url': input.redirectUrl,
+            'line_items[0][quantity]': '1',
+            'line_items[0][price_data][currency]': input.currency.toLowerCase(),
+            'line_items[0][price_data][unit_amount]': String(input.amountCents),
+            'line_items[0][price_data][product_data][name]': input.description,
+        })
+        for (const [key, value] of Object.entries(input.metadata)) {
+            form.set(`metadata[${key}]`, value)
+            form.set(`payment_intent_data[metadata][${key}]`, value)
+        }
+        if (input.metadata.order_id) form.set('client_reference_id', input.metadata.order_id)
+
+        const response = await this.request('/checkout/sessions', {
+            method: 'POST',
+            body: form,
+        }, input.idempotencyKey)
+        if (!response.ok) await this.fail(response)
+        return this.toPayment(await response.json())
+    }
+
+    async getPayment(paymentId: string): Promise<ProviderPayment | null> {
+        const response = await this.request(`/checkout/sessions/${paymentId}?expand[]=payment_intent`)
+        if (response.status === 404) return null
+        if (!response.ok) await this.fail(response)
+        return this.toPayment(await response.json())
+    }
+
+    async createRefund(input: CreateRefundInput): Promise<ProviderRefund> {
+        const payment = await this.getPayment(input.paymentId)
+        const intent = (payment?.raw as { payment_intent?: { id?: string } } | undefined)?.payment_intent
+        if (!intent?.id) {
+            throw new PaymentProviderError('Checkout session has no payment_intent', 'PROVIDER_ERROR')
+        }
+
+        const form = new URLSearchParams({
+            'payment_intent': intent.id,
+            'amount': String(input.amountCents),
+        })
+        for (const [key, value] of Object.entries(input.metadata)) {
+            form.set(`metadata[${key}]`, value)
+        }
+
+        const response = await this.request('/refunds', {
+            method: 'POST',
+            body: form,
+        }, input.metadata.refund_id)
+        if (!response.ok) await this.fail(response)
+        return this.toRefund(await response.json())
+    }
+
+    async getRefund(refundId: string): Promise<ProviderRefund | null> {
+        const response = await this.request(`/refunds/${refundId}`)
+        if (response.status === 404) return null
+        if (!response.ok) await this.fail(response)
+        return this.toRefund(await response.json())
+    }
+
+    async parseWebhook(req: Request): Promise<WebhookNotification | null> {
+        if (!this.webhookSecret) {
+            throw new PaymentProviderError('Missing STRIPE_WEBHOOK_SECRET', 'PROVIDER_ERROR')
+        }
+
+        const payload = await req.text()
+        await this.verifySignature(payload, req.headers.get('Stripe-Signature'))
+
+        const event = JSON.parse(payload)
+        const object = event.data?.object
+        if (!object?.id) return null
+
+        if (String(event.type).startsWith('checkout.session.')) {
+            return { type: 'payment', id: object.id }
+        }
+        if (String(event.type).startsWith('refund.') || event.type === 'charge.refund.updated') {
+            return { type: 'refund', id: object.id }
+        }
+        return null
+    }
+
+    /**
+     * Stripe-Signature: t=<timestamp>,v1=<hex hmac of "t.payload">
+     */
+    private async verifySignature(payload: string, header: string | null): Promise<void> {
+        const parts = (header || '').split(',').map(part => part.split('=', 2))
+        const timestamp = parts.find(([key]) => key === 't')?.[1]
+        const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value)
+
+        if (!timestamp || signatures.length === 0) {
+            throw new PaymentProviderError('Missing Stripe-Signature', 'INVALID_SIGNATURE')
+        }
+        if (Math.abs(Date.now() / 1000 - Number(timestamp)) > STRIPE_SIGNATURE_TOLERANCE_SECONDS) {
+            throw new PaymentProviderError('Stripe signature expired', 'INVALID_SIGNATURE')
+        }
+
+        const key = await crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(this.webhookSecret!),
+            { name: 'HMAC', hash: 'SHA-256' },
+            false,
+            ['sign']
+        )
+        const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${payload}`))
+        const expected = Array.from(new Uint8Array(mac))
+            .map(byte => byte.toString(16).padStart(2, '0'))
+            .join('')
+
+        if (!signatures.some(signature => timingSafeEqual(signature, expected))) {
+            throw new PaymentProviderError('Invalid Stripe signature', 'INVALID_SIGNATURE')
+        }
+    }
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false
+    let diff = 0
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+    }
+    return diff === 0
+}
+
+// ============================================================
+// FAKE
+// ============================================================
+
+/**
+ * Fake provider
+ *
+ * Deterministic and offline: payment id fake_tr_<order_id>, the checkout URL
+ * is the redirect URL, refunds are refunded immediately (fake_re_<refund_id>).
+ * Status changes come from simulate() or a JSON webhook
+ * { id, status, amount_cents?, currency? } that is trusted as-is, which is
+ * why this provider only exists with SIMULATE_PAYMENTS_ENABLED=true.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+    name = 'fake' as const
+    testMode = true
+
+    private payments = new Map<string, ProviderPayment>()
+
+    static paymentIdForOrder(orderId: string): string {
+        return `fake_tr_${orderId}`
+    }
+
+    createPayment(input: CreatePaymentInput): Promise<ProviderPayment> {
+        const id = FakePaymentProvider.paymentIdForOrder(input.metadata.order_id ?? crypto.randomUUID())
+        const payment: ProviderPayment = {
+            id,
+            status: 'open',
+            checkoutUrl: input.redirectUrl,
+            amountCents: input.amountCents,
+            currency: input.currency,
+            metadata: input.metadata,
+            raw: { id, fake: true },
+        }
+        this.payments.set(id, payment)
+        return Promise.resolve(payment)
+    }
+
+    getPayment(paymentId: string): Promise<ProviderPayment | null> {
+        if (!paymentId.startsWith('fake_tr_')) return Promise.resolve(null)
+
+        return Promise.resolve(this.payments.get(paymentId) ?? {
+            id: paymentId,
+            status: 'open',
+            checkoutUrl: null,
+            amountCents: 0,
+            currency: 'EUR',
+            metadata: { order_id: paymentId.slice('fake_tr_'.length) },
+            raw: { id: paymentId, fake: true },
+        })
+    }
+
+    /**
+     * Set the status the provider reports for a payment (test hook)
+     */
+    async simulate(
+        paymentId: string,
+        status: ProviderPaymentStatus,
+        amountCents?: number,
+        currency?: string
+    ): Promise<void> {
+        const current = await this.getPayment(paymentId)
+        if (!current) {
+            throw new PaymentProviderError(`Unknown fake payment ${paymentId}`, 'PROVIDER_ERROR')
+        }
+        this.payments.set(paymentId, {
+            ...current,
+            status,
+            amountCents: amountCents ?? current.amountCents,
+            currency: currency ?? current.currency,
+        })
+    }
+
+    createRefund(input: CreateRefundInput): Promise<ProviderRefund> {
+        const id = `fake_re_${input.metadata.refund_id ?? crypto.randomUUID()}`
+        return Promise.resolve({
+            id,
+            status: 'refunded',
+            amountCents: input.amountCents,
+            raw: { id, payment_id: input.paymentId, fake: true },
+        })
+    }
+
+    getRefund(refundId: string): Promise<ProviderRefund | null> {
+        if (!refundId.startsWith('fake_re_')) return Promise.resolve(null)
+        return Promise.resolve({ id: refundId, status: 'refunded', amountCents: 0, raw: { id: refundId, fake: true } })
+    }
+
+    async parseWebhook(req: Request): Promise<WebhookNotification | null> {
+        const body = await req.json().catch(() => null)
+        if (!body?.id) return null
+
+        const id = String(body.id)
+        if (id.startsWith('fake_re_')) return { type: 'refund', id }
+
+        if (body.status) {
+            await this.simulate(id, body.status, body.amount_cents, body.currency)
+        }
+        return { type: 'payment', id }
+    }
+}
+
+// ============================================================
+// FACTORY
+// ============================================================
+
+export function getDefaultPaymentProviderName(): PaymentProviderName {
+    return (Deno.env.get('PAYMENT_PROVIDER') as PaymentProviderName | undefined) || 'mollie'
+}
+
+/**
+ * Build a provider; secretName selects suffixed secrets (MOLLIE_API_KEY_<NAME>)
+ *
+ * @throws PaymentProviderError (PROVIDER_NOT_CONFIGURED) when secrets are missing
+ */
+export function getPaymentProvider(
+    name: PaymentProviderName = getDefaultPaymentProviderName(),
+    secretName: string | null = null
+): PaymentProvider {
+    const secret = (key: string) => Deno.env.get(secretName ? `${key}_${secretName}` : key)
+
+    if (name === 'mollie') {
+        const apiKey = secret('MOLLIE_API_KEY')
+        if (!apiKey) {
+            throw new PaymentProviderError('Missing MOLLIE_API_KEY', 'PROVIDER_NOT_CONFIGURED')
+        }
+        return new MolliePaymentProvider(apiKey)
+    }
+
+    if (name === 'stripe') {
+        const secretKey = secret('STRIPE_SECRET_KEY')
+        if (!secretKey) {
+            throw new PaymentProviderError('Missing STRIPE_SECRET_KEY', 'PROVIDER_NOT_CONFIGURED')
+        }
+        return new StripePaymentProvider(secretKey, secret('STRIPE_WEBHOOK_SECRET') ?? null)
+    }
+
+    if (name === 'fake') {
+        if (Deno.env.get('SIMULATE_PAYMENTS_ENABLED') !== 'true') {
+            throw new PaymentProviderError('Fake payments require SIMULATE_PAYMENTS_ENABLED=true', 'PROVIDER_NOT_CONFIGURED')
+        }
+        return new FakePaymentProvider()
+    }
+
+    throw new PaymentProviderError(`Unknown payment provider: ${name}`, 'PROVIDER_NOT_CONFIGURED')
+}
+
+export interface ResolvedPaymentProvider {
+    provider: PaymentProvider
+    profileId: string | null
+}
+
+/**
+ * Provider of an event (payments.payment_profile_id setting)
+ *
+ * @throws PaymentProviderError (PAYMENT_PROFILE_NOT_FOUND, PROVIDER_NOT_CONFIGURED)
+ */
+export async function resolveEventPaymentProvider(
+    client: SupabaseClient,
+    eventId: string
+): Promise<ResolvedPaymentProvider> {
+    const { data, error } = await client.rpc('get_event_payment_profile', { _event_id: eventId })
+
+    if (error) {
+        throw new PaymentProviderError(error.message, 'DB_ERROR')
+    }
+    if (data?.error) {
+        throw new PaymentProviderError(`Payment profile not available: ${data.error}`, data.error)
+    }
+
+    return {
+        provider: getPaymentProvider(data.provider ?? getDefaultPaymentProviderName(), data.secret_name),
+        profileId: data.profile_id,
+    }
+}
+
+/**
+ * Provider of an existing payment (refunds, webhooks) via its profile
+ *
+ * @throws PaymentProviderError (PAYMENT_PROFILE_NOT_FOUND, PROVIDER_NOT_CONFIGURED)
+ */
+export async function resolvePaymentProfileProvider(
+    client: SupabaseClient,
+    providerName: PaymentProviderName,
+    profileId: string | null
+): Promise<PaymentProvider> {
+    if (!profileId) {
+        return getPaymentProvider(providerName)
+    }
+
+    const { data: profile, error } = await client
+        .from('payment_profiles')
+        .select('provider, secret_name')
+        .eq('id', profileId)
+        .maybeSingle()
+
+    if (error) {
+        throw new PaymentProviderError(error.message, 'DB_ERROR')
+    }
+    if (!profile || profile.provider !== providerName) {
+        throw new PaymentProviderError(`Unknown ${providerName} payment profile ${profileId}`, 'PAYMENT_PROFILE_NOT_FOUND')
+    }
+
+    return getPaymentProvider(providerName, profile.secret_name)
+}
+
+/**
+ * Webhook URL for payments of a provider/profile (payment-webhook function)
+ */
+export function getPaymentWebhookUrl(provider: PaymentProviderName, profileId: string | null): string {
+    const url = new URL(`${Deno.env.get('SUPABASE_URL')}/functions/v1/payment-webhook`)
+    url.searchParams.set('provider', provider)
+    if (profileId) url.searchParams.set('profile', profileId)
+    return url.toString()
+}
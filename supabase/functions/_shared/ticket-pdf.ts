@@ -0,0 +1,336 @@
+/**
+ * Ticket PDF Helpers
+ *
+ * Renders the ticket PDF (one page per ticket) from get_ticket_pdf_data:
+ * banner from the ticket_pdf settings domain, QR code, time slot and the
+ * participant fields that passed sanitize_ticket_data.
+ *
+ * Used by ticket-pdf (download), get-order-public (format: 'pdf') and
+ * process-outbox (order confirmation attachment).
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { PDFDocument, StandardFonts, rgb } from 'https://esm.sh/pdf-lib@1.17.1'
+import type { PDFFont, PDFImage, PDFPage } from 'https://esm.sh/pdf-lib@1.17.1'
+import qrcode from 'https://esm.sh/qrcode-generator@1.4.4'
+import { encode as encodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts'
+import type { Logger } from './logger.ts'
+
+// A4 in points
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 48
+const BANNER_MAX_HEIGHT = 180
+const QR_SIZE = 220
+
+const TEXT_COLOR = rgb(0.07, 0.09, 0.15)
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5)
+
+// Labels op de PDF (zelfde taal als de orderbevestiging)
+const HOLDER_LABELS: Record<string, string> = {
+    name: 'Naam',
+    email: 'E-mail',
+    birthdate: 'Geboortedatum',
+    gender: 'Geslacht',
+    phone: 'Telefoon',
+    address: 'Adres',
+}
+
+const STATUS_LABELS: Record<string, string> = {
+    checked_in: 'Al ingecheckt',
+    void: 'Ongeldig',
+}
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface TicketPdfTicket {
+    id: string
+    qr_code: string
+    status: 'issued' | 'void' | 'checked_in'
+    owner_user_id: string | null
+    name: string
+    bib_number: number | null
+    time_slot: { label: string | null; slot_time: string; slot_date: string | null } | null
+    transferred: boolean
+    /** Only the fields allowed by sanitize_ticket_data */
+    holder: Record<string, string>
+}
+
+export interface TicketPdfData {
+    order: { id: string; user_id: string | null; email: string; status: string }
+    event: {
+        id: string
+        org_id: string
+        name: string
+        slug: string
+        start_time: string
+        end_time: string | null
+        location_name: string | null
+        org_name: string
+    }
+    tickets: TicketPdfTicket[]
+    banner: { bucket_id: string; path: string; mimetype: string | null } | null
+    available_from: string | null
+    tickets_available: boolean
+}
+
+// ============================================================
+// DATA
+// ============================================================
+
+/**
+ * Load PDF data for an order or a single ticket + banner bytes (PNG/JPEG)
+ */
+export async function loadTicketPdfData(
+    client: SupabaseClient,
+    target: { orderId?: string; ticketInstanceId?: string }
+): Promise<{ data: TicketPdfData | null; banner: Uint8Array | null; error: string | null }> {
+    const { data, error } = await client.rpc('get_ticket_pdf_data', {
+        _order_id: target.orderId ?? null,
+        _ticket_instance_id: target.ticketInstanceId ?? null,
+    })
+
+    if (error) {
+        return { data: null, banner: null, error: error.message }
+    }
+    if (data?.error) {
+        return { data: null, banner: null, error: data.error }
+    }
+
+    const pdfData = data as TicketPdfData
+    let banner: Uint8Array | null = null
+    const bannerRef = pdfData.banner
+
+    if (bannerRef && (bannerRef.mimetype === 'image/png' || bannerRef.mimetype === 'image/jpeg')) {
+        const { data: file } = await client.storage.from(bannerRef.bucket_id).download(bannerRef.path)
+        if (file) {
+            banner = new Uint8Array(await file.arrayBuffer())
+        }
+    }
+
+    return { data: pdfData, banner, error: null }
+}
+
+/**
+ * File name for the PDF of an order or a single ticket
+ */
+export function getTicketPdfFilename(data: TicketPdfData, ticketInstanceId?: string): string {
+    return ticketInstanceId
+        ? `ticket-${ticketInstanceId.slice(0, 8)}.pdf`
+        : `tickets-${data.event.slug}-${data.order.id.slice(0, 8)}.pdf`
+}
+
+/**
+ * Ticket PDF as email attachment (Resend format), or null when it cannot
+ * be sent (yet): not paid, before available_from, no tickets
+ *
+ * Never throws: the email goes out without the attachment instead.
+ */
+export async function buildTicketPdfAttachment(
+    client: SupabaseClient,
+    orderId: string,
+    logger: Logger
+): Promise<{ filename: string; content: string } | null> {
+    try {
+        const { data, banner, error } = await loadTicketPdfData(client, { orderId })
+
+        if (error || !data) {
+            logger.warn('Ticket PDF attachment: data not found', { orderId, error })
+            return null
+        }
+        if (data.order.status !== 'paid' || !data.tickets_available || data.tickets.length === 0) {
+            logger.info('Ticket PDF attachment skipped', {
+                orderId,
+                status: data.order.status,
+                tickets_available: data.tickets_available,
+                tickets: data.tickets.length
+            })
+            return null
+        }
+
+        const pdf = await renderTicketPdf(data, banner)
+        return { filename: getTicketPdfFilename(data), content: encodeBase64(pdf) }
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        logger.error('Ticket PDF attachment failed', { orderId, error: message })
+        return null
+    }
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+/**
+ * Render the ticket PDF: one A4 page per ticket
+ */
+export async function renderTicketPdf(data: TicketPdfData, banner: Uint8Array | null): Promise<Uint8Array> {
+    const doc = await PDFDocument.create()
+    doc.setTitle(`${toPdfText(data.event.name)} - tickets`)
+    doc.setAuthor(toPdfText(data.event.org_name))
+
+    const regular = await doc.embedFont(StandardFonts.Helvetica)
+    const bold = await doc.embedFont(StandardFonts.HelveticaBold)
+
+    let bannerImage: PDFImage | null = null
+    if (banner) {
+        try {
+            bannerImage = data.banner?.mimetype === 'image/png'
+                ? await doc.embedPng(banner)
+                : await doc.embedJpg(banner)
+        } catch {
+            // Kapotte banner: PDF zonder banner is beter dan geen PDF
+            bannerImage = null
+        }
+    }
+
+    for (const ticket of data.tickets) {
+        const page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+        let y = PAGE_HEIGHT - MARGIN
+
+        if (bannerImage) {
+            const contentWidth = PAGE_WIDTH - MARGIN * 2
+            const scale = Math.min(contentWidth / bannerImage.width, BANNER_MAX_HEIGHT / bannerImage.height)
+            const width = bannerImage.width * scale
+            const height = bannerImage.height * scale
+            page.drawImage(bannerImage, { x: (PAGE_WIDTH - width) / 2, y: y - height, width, height })
+            y -= height + 28
+        }
+
+        y = drawLine(page, data.event.name, { x: MARGIN, y, font: bold, size: 22 })
+        y = drawLine(page, data.event.org_name, { x: MARGIN, y: y - 4, font: regular, size: 11, color: MUTED_COLOR })
+
+        const when = formatDateTime(data.event.start_time)
+        const where = data.event.location_name ? ` - ${data.event.location_name}` : ''
+        y = drawLine(page, `${when}${where}`, { x: MARGIN, y: y - 8, font: regular, size: 12 })
+
+        y -= 20
+        y = drawLine(page, ticket.name, { x: MARGIN, y, font: bold, size: 16 })
+
+        if (ticket.bib_number != null) {
+            y = drawLine(page, `Startnummer: ${ticket.bib_number}`, { x: MARGIN, y: y - 4, font: bold, size: 14 })
+        }
+
+        if (ticket.time_slot) {
+            const slotTime = ticket.time_slot.slot_time.slice(0, 5)
+            const slotDate = ticket.time_slot.slot_date ? `${formatDate(ticket.time_slot.slot_date)} ` : ''
+            const label = ticket.time_slot.label ? ` (${ticket.time_slot.label})` : ''
+            y = drawLine(page, `Tijdslot: ${slotDate}${slotTime}${label}`, { x: MARGIN, y: y - 4, font: regular, size: 12 })
+        }
+
+        const statusLabel = STATUS_LABELS[ticket.status]
+        if (statusLabel) {
+            y = drawLine(page, statusLabel, { x: MARGIN, y: y - 4, font: bold, size: 12, color: rgb(0.8, 0.1, 0.1) })
+        }
+
+        // QR code, gecentreerd
+        y -= 24
+        drawQrCode(page, ticket.qr_code, (PAGE_WIDTH - QR_SIZE) / 2, y - QR_SIZE, QR_SIZE)
+        y -= QR_SIZE + 12
+
+        const code = toPdfText(ticket.qr_code)
+        const codeSize = 9
+        page.drawText(code, {
+            x: (PAGE_WIDTH - regular.widthOfTextAtSize(code, codeSize)) / 2,
+            y: y - codeSize,
+            size: codeSize,
+            font: regular,
+            color: MUTED_COLOR,
+        })
+        y -= codeSize + 28
+
+        // Deelnemervelden (al gefilterd door sanitize_ticket_data)
+        for (const [key, label] of Object.entries(HOLDER_LABELS)) {
+            const value = ticket.holder[key]
+            if (!value) continue
+            page.drawText(`${label}:`, { x: MARGIN, y: y - 12, size: 12, font: bold, color: TEXT_COLOR })
+            y = drawLine(page, key === 'birthdate' ? formatDate(value) : value, { x: MARGIN + 110, y, font: regular, size: 12 })
+            y -= 4
+        }
+
+        page.drawText(toPdfText(`Ticket ${ticket.id} - bestelling ${data.order.id.slice(0, 8)}`), {
+            x: MARGIN,
+            y: MARGIN / 2,
+            size: 8,
+            font: regular,
+            color: MUTED_COLOR,
+        })
+    }
+
+    return await doc.save()
+}
+
+/**
+ * Draw one line of text and return the y below it
+ */
+function drawLine(
+    page: PDFPage,
+    text: string,
+    options: { x: number; y: number; font: PDFFont; size: number; color?: ReturnType<typeof rgb> }
+): number {
+    page.drawText(toPdfText(text), {
+        x: options.x,
+        y: options.y - options.size,
+        size: options.size,
+        font: options.font,
+        color: options.color ?? TEXT_COLOR,
+        maxWidth: PAGE_WIDTH - options.x - MARGIN,
+    })
+    return options.y - options.size - 4
+}
+
+/**
+ * Draw a QR code as vector modules (no image encoding needed)
+ */
+function drawQrCode(page: PDFPage, value: string, x: number, y: number, size: number): void {
+    const qr = qrcode(0, 'M')
+    qr.addData(value)
+    qr.make()
+
+    const count = qr.getModuleCount()
+    // 4 modules quiet zone
+    const moduleSize = size / (count + 8)
+    const offset = moduleSize * 4
+
+    for (let row = 0; row < count; row++) {
+        for (let col = 0; col < count; col++) {
+            if (!qr.isDark(row, col)) continue
+            page.drawRectangle({
+                x: x + offset + col * moduleSize,
+                y: y + size - offset - (row + 1) * moduleSize,
+                width: moduleSize,
+                height: moduleSize,
+                color: rgb(0, 0, 0),
+            })
+        }
+    }
+}
+
+/**
+ * Standard PDF fonts only support WinAnsi; replace anything else
+ */
+function toPdfText(value: string): string {
+    return value.normalize('NFC').replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+function formatDateTime(value: string): string {
+    return new Date(value).toLocaleString('nl-NL', {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZone: 'Europe/Amsterdam',
+    })
+}
+
+function formatDate(value: string): string {
+    return new Date(value).toLocaleDateString('nl-NL', {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+        timeZone: 'Europe/Amsterdam',
+    })
+}
@@ -0,0 +1,606 @@
+/**
+ * Wallet Pass Helpers
+ *
+ * Builds Apple Wallet (.pkpass) and Google Wallet passes for a ticket
+ * instance from get_wallet_pass_data, and pushes updates to passes that
+ * are already in a wallet (after a transfer).
+ *
+ * Environment:
+ * - Apple: APPLE_PASS_TYPE_ID, APPLE_TEAM_ID, APPLE_PASS_CERT, APPLE_PASS_KEY
+ *   (PEM), optional APPLE_PASS_KEY_PASSWORD, APPLE_WWDR_CERT (PEM)
+ * - Google: GOOGLE_WALLET_ISSUER_ID, GOOGLE_WALLET_SERVICE_ACCOUNT (JSON key)
+ * - WALLET_AUTH_SECRET (optional, defaults to the service role key) signs
+ *   the PassKit web service authentication tokens
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import JSZip from 'https://esm.sh/jszip@3.10.1'
+import forge from 'https://esm.sh/node-forge@1.3.1'
+import type { Logger } from './logger.ts'
+
+const GOOGLE_WALLET_API_URL = 'https://walletobjects.googleapis.com/walletobjects/v1'
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token'
+const APNS_URL = 'https://api.push.apple.com/3/device'
+
+// Fallback icon (58x58, indigo) - icon.png is required in every pkpass
+const DEFAULT_ICON_BASE64 =
+    'iVBORw0KGgoAAAANSUhEUgAAADoAAAA6CAIAAABu2d1/AAAARklEQVR42u3OQQkAAAgEsEvn1/4B7GGOg8ECLDtXJLq6urq6urq6urq6urq6urq6urq6urq6urq6urq6urq6urq6urq6PR79EmhGLk0nPQAAAABJRU5ErkJggg=='
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface WalletPassData {
+    ticket: {
+        id: string
+        qr_code: string
+        status: 'issued' | 'void' | 'checked_in'
+        order_id: string
+        owner_user_id: string | null
+        name: string
+        time_slot: { label: string | null; slot_time: string; slot_date: string | null } | null
+        transferred: boolean
+    }
+    event: {
+        id: string
+        org_id: string
+        name: string
+        slug: string
+        start_time: string
+        end_time: string | null
+        location_name: string | null
+        org_name: string
+    }
+    /** Only the fields enabled in ticket_privacy.show */
+    holder: {
+        name?: string
+        email?: string
+        birthdate?: string
+        gender?: string
+        phone?: string
+        address?: string
+    }
+    branding: {
+        primary_color: string
+        logo: { bucket_id: string; path: string; mimetype: string | null } | null
+    }
+    tickets_available: boolean
+    pass: { pass_version: number; google_object_id: string | null; updated_at: string } | null
+}
+
+export interface AppleWalletConfig {
+    passTypeIdentifier: string
+    teamIdentifier: string
+    certificatePem: string
+    privateKeyPem: string
+    privateKeyPassword: string | null
+    wwdrPem: string
+    webServiceUrl: string
+}
+
+export interface GoogleWalletConfig {
+    issuerId: string
+    clientEmail: string
+    privateKeyPem: string
+}
+
+// ============================================================
+// CONFIG
+// ============================================================
+
+/**
+ * Apple Wallet config from env, or null when not configured
+ */
+export function getAppleWalletConfig(): AppleWalletConfig | null {
+    const passTypeIdentifier = Deno.env.get('APPLE_PASS_TYPE_ID')
+    const teamIdentifier = Deno.env.get('APPLE_TEAM_ID')
+    const certificatePem = Deno.env.get('APPLE_PASS_CERT')
+    const privateKeyPem = Deno.env.get('APPLE_PASS_KEY')
+    const wwdrPem = Deno.env.get('APPLE_WWDR_CERT')
+
+    if (!passTypeIdentifier || !teamIdentifier || !certificatePem || !privateKeyPem || !wwdrPem) {
+        return null
+    }
+
+    return {
+        passTypeIdentifier,
+        teamIdentifier,
+        certificatePem,
+        privateKeyPem,
+        privateKeyPassword: Deno.env.get('APPLE_PASS_KEY_PASSWORD') || null,
+        wwdrPem,
+        webServiceUrl: `${Deno.env.get('SUPABASE_URL')}/functions/v1/wallet-pass-service`
+    }
+}
+
+/**
+ * Google Wallet config from env, or null when not configured
+ */
+export function getGoogleWalletConfig(): GoogleWalletConfig | null {
+    const issuerId = Deno.env.get('GOOGLE_WALLET_ISSUER_ID')
+    const serviceAccount = Deno.env.get('GOOGLE_WALLET_SERVICE_ACCOUNT')
+
+    if (!issuerId || !serviceAccount) {
+        return null
+    }
+
+    const { client_email, private_key } = JSON.parse(serviceAccount)
+    return { issuerId, clientEmail: client_email, privateKeyPem: private_key }
+}
+
+// ============================================================
+// DATA
+// ============================================================
+
+/**
+ * Load pass data + logo bytes (PNG only, as required by Apple Wallet)
+ */
+export async function loadWalletPassData(
+    client: SupabaseClient,
+    ticketInstanceId: string
+): Promise<{ data: WalletPassData | null; logo: Uint8Array | null; error: string | null }> {
+    const { data, error } = await client.rpc('get_wallet_pass_data', { _ticket_instance_id: ticketInstanceId })
+
+    if (error) {
+        return { data: null, logo: null, error: error.message }
+    }
+    if (data?.error) {
+        return { data: null, logo: null, error: data.error }
+    }
+
+    const passData = data as WalletPassData
+    let logo: Uint8Array | null = null
+    const logoRef = passData.branding.logo
+
+    if (logoRef && logoRef.mimetype === 'image/png') {
+        const { data: file } = await client.storage.from(logoRef.bucket_id).download(logoRef.path)
+        if (file) {
+            logo = new Uint8Array(await file.arrayBuffer())
+        }
+    }
+
+    return { data: passData, logo, error: null }
+}
+
+/**
+ * PassKit web service authentication token for a pass (HMAC of the serial)
+ *
+ * Deterministic, so regenerated passes keep the token devices registered with.
+ */
+export async function getAppleAuthToken(serialNumber: string): Promise<string> {
+    const secret = Deno.env.get('WALLET_AUTH_SECRET') ??
+        Deno.env.get('SERVICE_ROLE_KEY') ??
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+    const key = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    )
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`wallet:${serialNumber}`))
+    return toHex(new Uint8Array(signature))
+}
+
+// ============================================================
+// APPLE WALLET
+// ============================================================
+
+/**
+ * Build a signed .pkpass (zip with pass.json, images, manifest, signature)
+ */
+export async function buildApplePass(
+    data: WalletPassData,
+    config: AppleWalletConfig,
+    logo: Uint8Array | null
+): Promise<Uint8Array> {
+    const color = hexToRgb(data.branding.primary_color)
+
+    const auxiliaryFields: Record<string, unknown>[] = [
+        { key: 'ticket_type', label: 'TICKET', value: data.ticket.name }
+    ]
+    if (data.ticket.time_slot) {
+        auxiliaryFields.push({ key: 'wave', label: 'STARTVAK', value: formatTimeSlot(data.ticket.time_slot) })
+    }
+    if (data.holder.name) {
+        auxiliaryFields.push({ key: 'holder', label: 'NAAM', value: data.holder.name })
+    }
+
+    const backFields: Record<string, unknown>[] = []
+    const holderLabels: Record<string, string> = {
+        email: 'E-mail',
+        phone: 'Telefoon',
+        birthdate: 'Geboortedatum',
+        gender: 'Geslacht',
+        address: 'Adres',
+    }
+    for (const [key, label] of Object.entries(holderLabels)) {
+        const value = data.holder[key as keyof WalletPassData['holder']]
+        if (value) {
+            backFields.push({ key, label, value })
+        }
+    }
+    backFields.push({ key: 'organizer', label: 'Organisatie', value: data.event.org_name })
+
+    const pass = {
+        formatVersion: 1,
+        passTypeIdentifier: config.passTypeIdentifier,
+        teamIdentifier: config.teamIdentifier,
+        serialNumber: data.ticket.id,
+        authenticationToken: await getAppleAuthToken(data.ticket.id),
+        webServiceURL: config.webServiceUrl,
+        organizationName: data.event.org_name,
+        description: `${data.event.name} - ${data.ticket.name}`,
+        logoText: data.event.org_name,
+        backgroundColor: color,
+        foregroundColor: 'rgb(255, 255, 255)',
+        labelColor: 'rgb(255, 255, 255)',
+        relevantDate: data.event.start_time,
+        voided: data.ticket.status === 'void',
+        barcodes: [{
+            format: 'PKBarcodeFormatQR',
+            message: data.ticket.qr_code,
+            messageEncoding: 'iso-8859-1',
+            altText: data.ticket.qr_code.slice(0, 8).toUpperCase()
+        }],
+        eventTicket: {
+            primaryFields: [{ key: 'event', label: 'EVENEMENT', value: data.event.name }],
+            secondaryFields: [
+                {
+                    key: 'date',
+                    label: 'DATUM',
+                    value: data.event.start_time,
+                    dateStyle: 'PKDateStyleMedium',
+                    timeStyle: 'PKDateStyleShort'
+                },
+                ...(data.event.location_name
+                    ? [{ key: 'location', label: 'LOCATIE', value: data.event.location_name }]
+                    : [])
+            ],
+            auxiliaryFields,
+            backFields
+        }
+    }
+
+    const icon = logo ?? base64ToBytes(DEFAULT_ICON_BASE64)
+    const files: Record<string, Uint8Array> = {
+        'pass.json': new TextEncoder().encode(JSON.stringify(pass)),
+        'icon.png': icon,
+        'icon@2x.png': icon,
+    }
+    if (logo) {
+        files['logo.png'] = logo
+        files['logo@2x.png'] = logo
+    }
+
+    // manifest.json: SHA-1 per bestand, daarna PKCS#7 handtekening over het manifest
+    const manifest: Record<string, string> = {}
+    for (const [name, bytes] of Object.entries(files)) {
+        manifest[name] = toHex(new Uint8Array(await crypto.subtle.digest('SHA-1', bytes)))
+    }
+    const manifestJson = JSON.stringify(manifest)
+
+    const zip = new JSZip()
+    for (const [name, bytes] of Object.entries(files)) {
+        zip.file(name, bytes)
+    }
+    zip.file('manifest.json', manifestJson)
+    zip.file('signature', signManifest(manifestJson, config))
+
+    return await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+}
+
+/**
+ * Detached PKCS#7 signature with the pass type certificate + Apple WWDR
+ */
+function signManifest(manifestJson: string, config: AppleWalletConfig): Uint8Array {
+    const certificate = forge.pki.certificateFromPem(config.certificatePem)
+    const wwdr = forge.pki.certificateFromPem(config.wwdrPem)
+
+    const p7 = forge.pkcs7.createSignedData()
+    p7.content = forge.util.createBuffer(manifestJson, 'utf8')
+    p7.addCertificate(certificate)
+    p7.addCertificate(wwdr)
+    p7.addSigner({
+        key: getApplePrivateKey(config),
+        certificate,
+        digestAlgorithm: forge.pki.oids.sha256,
+        authenticatedAttributes: [
+            { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+            { type: forge.pki.oids.messageDigest },
+            { type: forge.pki.oids.signingTime, value: new Date() }
+        ]
+    })
+    p7.sign({ detached: true })
+
+    const der = forge.asn1.toDer(p7.toAsn1()).getBytes()
+    return Uint8Array.from(der, (c: string) => c.charCodeAt(0))
+}
+
+function getApplePrivateKey(config: AppleWalletConfig) {
+    return config.privateKeyPassword
+        ? forge.pki.decryptRsaPrivateKey(config.privateKeyPem, config.privateKeyPassword)
+        : forge.pki.privateKeyFromPem(config.privateKeyPem)
+}
+
+/**
+ * Notify devices that a pass changed (empty APNs push, topic = pass type).
+ * The device then fetches the new version from wallet-pass-service.
+ *
+ * @returns number of devices that accepted the push
+ */
+export async function pushApplePassUpdate(
+    config: AppleWalletConfig,
+    pushTokens: string[],
+    logger: Logger
+): Promise<number> {
+    if (pushTokens.length === 0) return 0
+
+    // APNs voor Wallet werkt met het pass type certificaat (geen token auth)
+    const httpClient = Deno.createHttpClient({
+        cert: config.certificatePem,
+        key: forge.pki.privateKeyToPem(getApplePrivateKey(config)),
+    })
+
+    let delivered = 0
+    try {
+        for (const pushToken of pushTokens) {
+            const response = await fetch(`${APNS_URL}/${pushToken}`, {
+                method: 'POST',
+                headers: { 'apns-topic': config.passTypeIdentifier },
+                body: '{}',
+                client: httpClient,
+            } as RequestInit)
+
+            if (response.ok) {
+                delivered++
+            } else {
+                logger.warn('APNs push failed', { status: response.status, body: await response.text() })
+            }
+        }
+    } finally {
+        httpClient.close()
+    }
+
+    return delivered
+}
+
+// ============================================================
+// GOOGLE WALLET
+// ============================================================
+
+export function getGoogleObjectId(config: GoogleWalletConfig, ticketInstanceId: string): string {
+    return `${config.issuerId}.ticket_${ticketInstanceId}`
+}
+
+/**
+ * Event ticket class (one per event)
+ */
+export function buildGoogleClass(data: WalletPassData, config: GoogleWalletConfig, logoUrl: string | null) {
+    return {
+        id: `${config.issuerId}.event_${data.event.id}`,
+        issuerName: data.event.org_name,
+        reviewStatus: 'UNDER_REVIEW',
+        eventName: localized(data.event.name),
+        hexBackgroundColor: data.branding.primary_color,
+        dateTime: {
+            start: data.event.start_time,
+            ...(data.event.end_time ? { end: data.event.end_time } : {})
+        },
+        ...(data.event.location_name
+            ? { venue: { name: localized(data.event.location_name), address: localized(data.event.location_name) } }
+            : {}),
+        ...(logoUrl ? { logo: { sourceUri: { uri: logoUrl } } } : {})
+    }
+}
+
+/**
+ * Event ticket object (one per ticket instance)
+ */
+export function buildGoogleObject(data: WalletPassData, config: GoogleWalletConfig) {
+    const textModulesData: Record<string, string>[] = []
+    if (data.ticket.time_slot) {
+        textModulesData.push({ id: 'wave', header: 'Startvak', body: formatTimeSlot(data.ticket.time_slot) })
+    }
+
+    return {
+        id: getGoogleObjectId(config, data.ticket.id),
+        classId: `${config.issuerId}.event_${data.event.id}`,
+        state: data.ticket.status === 'void' ? 'INACTIVE' : 'ACTIVE',
+        barcode: {
+            type: 'QR_CODE',
+            value: data.ticket.qr_code,
+            alternateText: data.ticket.qr_code.slice(0, 8).toUpperCase()
+        },
+        ticketType: localized(data.ticket.name),
+        hexBackgroundColor: data.branding.primary_color,
+        ...(data.holder.name ? { ticketHolderName: data.holder.name } : {}),
+        textModulesData
+    }
+}
+
+/**
+ * "Save to Google Wallet" link: signed JWT with class + object inline
+ */
+export async function buildGoogleSaveUrl(
+    data: WalletPassData,
+    config: GoogleWalletConfig,
+    logoUrl: string | null
+): Promise<string> {
+    const jwt = await signJwt(config, {
+        iss: config.clientEmail,
+        aud: 'google',
+        typ: 'savetowallet',
+        iat: Math.floor(Date.now() / 1000),
+        origins: [],
+        payload: {
+            eventTicketClasses: [buildGoogleClass(data, config, logoUrl)],
+            eventTicketObjects: [buildGoogleObject(data, config)]
+        }
+    })
+
+    return `https://pay.google.com/gp/v/save/${jwt}`
+}
+
+/**
+ * Replace a saved object (e.g. new holder after a transfer)
+ */
+export async function updateGoogleObject(data: WalletPassData, config: GoogleWalletConfig): Promise<void> {
+    const accessToken = await getGoogleAccessToken(config)
+    const object = buildGoogleObject(data, config)
+
+    const response = await fetch(`${GOOGLE_WALLET_API_URL}/eventTicketObject/${encodeURIComponent(object.id)}`, {
+        method: 'PUT',
+        headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(object)
+    })
+
+    if (!response.ok) {
+        throw new Error(`Google Wallet update failed (${response.status}): ${await response.text()}`)
+    }
+}
+
+async function getGoogleAccessToken(config: GoogleWalletConfig): Promise<string> {
+    const now = Math.floor(Date.now() / 1000)
+    const assertion = await signJwt(config, {
+        iss: config.clientEmail,
+        scope: 'https://www.googleapis.com/auth/wallet_object.issuer',
+        aud: GOOGLE_TOKEN_URL,
+        iat: now,
+        exp: now + 3600
+    })
+
+    const response = await fetch(GOOGLE_TOKEN_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+            assertion
+        })
+    })
+
+    const result = await response.json()
+    if (!response.ok || !result.access_token) {
+        throw new Error(`Google OAuth failed: ${result.error_description || result.error || response.status}`)
+    }
+    return result.access_token
+}
+
+/**
+ * RS256 JWT signed with the service account key
+ */
+async function signJwt(config: GoogleWalletConfig, payload: Record<string, unknown>): Promise<string> {
+    const keyData = base64ToBytes(
+        config.privateKeyPem
+            .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '')
+            .replace(/\s/g, '')
+    )
+    const key = await crypto.subtle.importKey(
+        'pkcs8',
+        keyData,
+        { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['sign']
+    )
+
+    const encoder = new TextEncoder()
+    const signingInput = `${base64Url(encoder.encode(JSON.stringify({ alg: 'RS256', typ: 'JWT' })))}.${base64Url(encoder.encode(JSON.stringify(payload)))}`
+    const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, encoder.encode(signingInput))
+
+    return `${signingInput}.${base64Url(new Uint8Array(signature))}`
+}
+
+// ============================================================
+// REFRESH (after a change)
+// ============================================================
+
+/**
+ * Bump the pass version and update passes that are already in a wallet.
+ *
+ * Never throws: wallet updates must not fail the calling flow.
+ */
+export async function refreshWalletPass(
+    client: SupabaseClient,
+    ticketInstanceId: string,
+    logger: Logger
+): Promise<void> {
+    try {
+        const { data: touched, error: touchError } = await client
+            .rpc('touch_wallet_pass', { _ticket_instance_id: ticketInstanceId })
+
+        if (touchError || touched?.error) {
+            logger.warn('Wallet pass could not be bumped', touchError || touched?.error)
+            return
+        }
+        if (!touched.issued) {
+            return
+        }
+
+        const appleConfig = getAppleWalletConfig()
+        const devices = (touched.apple_devices ?? []) as { pass_type_identifier: string; push_token: string }[]
+        if (appleConfig && devices.length > 0) {
+            const delivered = await pushApplePassUpdate(
+                appleConfig,
+                devices
+                    .filter(d => d.pass_type_identifier === appleConfig.passTypeIdentifier)
+                    .map(d => d.push_token),
+                logger
+            )
+            logger.info('Apple Wallet update pushed', { ticketInstanceId, delivered })
+        }
+
+        const googleConfig = getGoogleWalletConfig()
+        if (googleConfig && touched.google_object_id) {
+            const { data, error } = await loadWalletPassData(client, ticketInstanceId)
+            if (error || !data) {
+                logger.warn('Wallet pass data unavailable for Google update', error)
+                return
+            }
+            await updateGoogleObject(data, googleConfig)
+            logger.info('Google Wallet object updated', { ticketInstanceId })
+        }
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        logger.warn('Wallet pass refresh failed (non-fatal)', message)
+    }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function localized(value: string) {
+    return { defaultValue: { language: 'nl', value } }
+}
+
+function formatTimeSlot(slot: { label: string | null; slot_time: string }): string {
+    const time = slot.slot_time.slice(0, 5)
+    return slot.label ? `${slot.label} · ${time}` : time
+}
+
+function hexToRgb(hex: string): string {
+    const value = hex.replace('#', '')
+    const r = parseInt(value.slice(0, 2), 16)
+    const g = parseInt(value.slice(2, 4), 16)
+    const b = parseInt(value.slice(4, 6), 16)
+    return `rgb(${r}, ${g}, ${b})`
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function base64ToBytes(value: string): Uint8Array {
+    return Uint8Array.from(atob(value), c => c.charCodeAt(0))
+}
+
+function base64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '')
+}
@@ -10,6 +10,7 @@
  * 3. Check transfer status (pending) and expiry
  * 4. Resolve or create recipient participant
  * 5. Call RPC to atomically complete transfer
+ * 6. Refresh wallet passes of the ticket (new holder; non-fatal)
  *
  * Security: Token-based verification with expiry
  */
@@ -20,6 +21,7 @@ import { jsonResponse, errorResponse } from '../_shared/response.ts'
 import { authenticateUser } from '../_shared/auth.ts'
 import { getServiceClient } from '../_shared/supabase.ts'
 import { createLogger } from '../_shared/logger.ts'
+import { refreshWalletPass } from '../_shared/wallet.ts'
 
 interface AcceptRequest {
     transfer_token: string
@@ -167,6 +169,9 @@ serve(async (req: Request) => {
 
         logger.info('Transfer completed successfully')
 
+        // 9. WALLET PASSES: push the pass with the new holder to devices / Google
+        await refreshWalletPass(supabaseAdmin, transfer.ticket_instance_id, logger)
+
         return jsonResponse({
             success: true,
             transfer_id: transfer.id,
@@ -1,13 +1,23 @@
 /**
  * bulk-email Edge Function
  *
- * Starts a bulk email campaign by creating a message batch and queuing recipients.
- * Filters out unsubscribed/bounced emails before adding to the batch.
+ * Starts a campaign by creating a message batch and queuing recipients.
+ * A campaign targets one or more channels (email, sms, push); every
+ * recipient gets one batch item per channel they can be reached on.
+ * process-outbox turns the items into outbox messages (dispatch_message_batches).
  *
  * Features:
  * - JWT authentication with org role verification (owner/admin only)
- * - Recipient filtering by ticket type or custom list
+ * - Recipient filtering by ticket type, custom list or saved segment
  * - Automatic filtering of unsubscribed/bounced emails via is_email_deliverable()
+ * - SMS/push only to participants who opted in (is_channel_deliverable())
+ * - Merge variables ({{first_name}}, {{#if time_slot}}...{{/if}}) validated
+ *   before queueing (validate_template_content), rendered per recipient
+ * - Stored templates (template_id) with locale variants per recipient
+ * - Scheduling: fixed time (scheduled_at) or relative triggers
+ *   (trigger_type event_start / check_in + trigger_offset_minutes); recipients
+ *   of relative triggers are resolved when the trigger fires
+ * - Optional send window per campaign (e.g. 09:00-21:00)
  * - Batch tracking with progress monitoring
  *
  * Security: Requires JWT with owner/admin role on the org
@@ -19,6 +29,7 @@ import { jsonResponse, errorResponse } from '../_shared/response.ts'
 import { authenticateUser, isOrgMember } from '../_shared/auth.ts'
 import { getServiceClient } from '../_shared/supabase.ts'
 import { createLogger } from '../_shared/logger.ts'
+import type { NotificationChannel } from '../_shared/channels.ts'
 
 // Input types
 interface RecipientFilterAll {
@@ -35,16 +46,54 @@ interface RecipientFilterCustom {
     participant_ids: string[]
 }
 
-type RecipientFilter = RecipientFilterAll | RecipientFilterTicketType | RecipientFilterCustom
+interface RecipientFilterSegment {
+    type: 'segment'
+    segment_id: string
+}
+
+type RecipientFilter =
+    | RecipientFilterAll
+    | RecipientFilterTicketType
+    | RecipientFilterCustom
+    | RecipientFilterSegment
+
+type CampaignTrigger = 'scheduled' | 'event_start' | 'check_in'
+
+interface SendWindow {
+    /** HH:MM, local time in timezone */
+    start: string
+    end: string
+    /** IANA timezone, default Europe/Amsterdam */
+    timezone?: string
+}
 
 interface BulkEmailRequest {
     event_id: string
     name: string
-    subject: string
-    html_body: string
+    /** Default ['email'] */
+    channels?: NotificationChannel[]
+    /** Stored template (message_templates) instead of subject/html_body */
+    template_id?: string
+    /** Required for email (without template_id) */
+    subject?: string
+    html_body?: string
     text_body?: string
+    /** Required for sms */
+    sms_body?: string
+    /** push_body required for push */
+    push_title?: string
+    push_body?: string
+    push_url?: string
     recipient_filter: RecipientFilter
+    /** Only for trigger_type 'scheduled' (default: send immediately) */
     scheduled_at?: string
+    /** Default 'scheduled' */
+    trigger_type?: CampaignTrigger
+    /** Minutes relative to the trigger, e.g. -10080 = 7 days before event start */
+    trigger_offset_minutes?: number
+    send_window?: SendWindow
+    /** Origin of the app, used for {{event_link}} / {{order_link}} */
+    site_origin?: string
 }
 
 interface Recipient {
@@ -55,6 +104,20 @@ interface Recipient {
 }
 
 const MAX_RECIPIENTS_PER_CAMPAIGN = 10000
+const CHANNELS: NotificationChannel[] = ['email', 'sms', 'push']
+const MAX_SMS_LENGTH = 1600
+const TRIGGERS: CampaignTrigger[] = ['scheduled', 'event_start', 'check_in']
+const MAX_TRIGGER_OFFSET_MINUTES = 525600 // 1 year
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+        return true
+    } catch {
+        return false
+    }
+}
 
 serve(async (req: Request) => {
     // Handle CORS preflight
@@ -81,22 +144,81 @@ serve(async (req: Request) => {
             return errorResponse('Invalid JSON', 'INVALID_JSON', 400)
         }
 
-        const { event_id, name, subject, html_body, text_body, recipient_filter, scheduled_at } = body
+        const {
+            event_id, name, template_id,
+            sms_body, push_title, push_body, push_url,
+            recipient_filter, scheduled_at, site_origin, send_window
+        } = body
+        const trigger_type = body.trigger_type ?? 'scheduled'
+        const trigger_offset_minutes = body.trigger_offset_minutes ?? 0
+        let { subject, html_body, text_body } = body
+        const channels = Array.from(new Set(body.channels ?? ['email']))
 
         // Validate required fields
-        if (!event_id || !name || !subject || !html_body || !recipient_filter) {
+        if (!event_id || !name || !recipient_filter) {
             return errorResponse(
-                'Missing required fields: event_id, name, subject, html_body, recipient_filter',
+                'Missing required fields: event_id, name, recipient_filter',
                 'MISSING_FIELDS',
                 400
             )
         }
 
+        // Validate channels + content per channel
+        if (channels.length === 0 || channels.some(c => !CHANNELS.includes(c))) {
+            return errorResponse('channels must be a non-empty list of email, sms, push', 'INVALID_CHANNELS', 400)
+        }
+
+        if (channels.includes('email') && !template_id && (!subject || !html_body)) {
+            return errorResponse('Missing required fields for email: subject, html_body or template_id', 'MISSING_FIELDS', 400)
+        }
+
+        if (channels.includes('sms') && !sms_body) {
+            return errorResponse('Missing required field for sms: sms_body', 'MISSING_FIELDS', 400)
+        }
+
+        if (sms_body && sms_body.length > MAX_SMS_LENGTH) {
+            return errorResponse(`sms_body exceeds ${MAX_SMS_LENGTH} characters`, 'SMS_TOO_LONG', 400)
+        }
+
+        if (channels.includes('push') && !push_body) {
+            return errorResponse('Missing required field for push: push_body', 'MISSING_FIELDS', 400)
+        }
+
         // Validate recipient filter
-        if (!['all', 'ticket_type', 'custom'].includes(recipient_filter.type)) {
+        if (!['all', 'ticket_type', 'custom', 'segment'].includes(recipient_filter.type)) {
             return errorResponse('Invalid recipient_filter type', 'INVALID_FILTER_TYPE', 400)
         }
 
+        if (recipient_filter.type === 'segment' && !recipient_filter.segment_id) {
+            return errorResponse('Missing required field for segment: segment_id', 'MISSING_FIELDS', 400)
+        }
+
+        // Validate trigger + send window
+        if (!TRIGGERS.includes(trigger_type)) {
+            return errorResponse('trigger_type must be scheduled, event_start or check_in', 'INVALID_TRIGGER', 400)
+        }
+
+        if (
+            !Number.isInteger(trigger_offset_minutes) ||
+            Math.abs(trigger_offset_minutes) > MAX_TRIGGER_OFFSET_MINUTES ||
+            (trigger_type === 'check_in' && trigger_offset_minutes < 0)
+        ) {
+            return errorResponse('Invalid trigger_offset_minutes', 'INVALID_TRIGGER_OFFSET', 400)
+        }
+
+        if (scheduled_at && (trigger_type !== 'scheduled' || isNaN(Date.parse(scheduled_at)))) {
+            return errorResponse('scheduled_at must be a valid date and requires trigger_type scheduled', 'INVALID_SCHEDULED_AT', 400)
+        }
+
+        if (send_window && (
+            !TIME_PATTERN.test(send_window.start) ||
+            !TIME_PATTERN.test(send_window.end) ||
+            send_window.start === send_window.end ||
+            (send_window.timezone !== undefined && !isValidTimezone(send_window.timezone))
+        )) {
+            return errorResponse('send_window needs start/end as HH:MM and a valid timezone', 'INVALID_SEND_WINDOW', 400)
+        }
+
         // 3. SETUP ADMIN CLIENT
         const supabaseAdmin = getServiceClient()
 
@@ -123,6 +245,120 @@ serve(async (req: Request) => {
 
         logger.info('Authorization verified', { orgId, role: 'owner/admin' })
 
+        // 5a. VERIFY SEGMENT (must belong to this event)
+        if (recipient_filter.type === 'segment') {
+            const { data: segment, error: segmentError } = await supabaseAdmin
+                .from('participant_segments')
+                .select('id')
+                .eq('id', recipient_filter.segment_id)
+                .eq('event_id', event_id)
+                .maybeSingle()
+
+            if (segmentError || !segment) {
+                return errorResponse('Segment not found', 'SEGMENT_NOT_FOUND', 404)
+            }
+        }
+
+        // 5b. RESOLVE TEMPLATE (batch keeps the default locale for the audit trail)
+        if (template_id && channels.includes('email')) {
+            const { data: template, error: templateError } = await supabaseAdmin
+                .from('message_templates')
+                .select('id, subject, html_body, text_body, default_locale, is_active')
+                .eq('id', template_id)
+                .eq('org_id', orgId)
+                .maybeSingle()
+
+            if (templateError || !template || !template.is_active) {
+                return errorResponse('Template not found', 'TEMPLATE_NOT_FOUND', 404)
+            }
+
+            subject = template.subject?.[template.default_locale]
+            html_body = template.html_body?.[template.default_locale]
+            text_body = template.text_body?.[template.default_locale] ?? undefined
+        }
+
+        // 5c. VALIDATE MERGE VARIABLES (fail before anything is queued)
+        const { data: validation, error: validationError } = await supabaseAdmin
+            .rpc('validate_template_content', {
+                _content: {
+                    subject: channels.includes('email') ? subject : null,
+                    html_body: channels.includes('email') ? html_body : null,
+                    text_body: channels.includes('email') ? text_body ?? null : null,
+                    sms_body: channels.includes('sms') ? sms_body : null,
+                    push_title: channels.includes('push') ? push_title ?? null : null,
+                    push_body: channels.includes('push') ? push_body : null
+                }
+            })
+
+        if (validationError) {
+            logger.error('Failed to validate template content', validationError)
+            return errorResponse('Failed to validate template', 'TEMPLATE_VALIDATION_FAILED', 500)
+        }
+
+        if (validation.unknown_variables.length > 0) {
+            return errorResponse(
+                `Unknown template variables: ${validation.unknown_variables.join(', ')}`,
+                'UNKNOWN_TEMPLATE_VARIABLE',
+                400,
+                validation
+            )
+        }
+
+        if (!validation.valid) {
+            return errorResponse('Invalid template syntax', 'INVALID_TEMPLATE', 400, validation)
+        }
+
+        const batchFields = {
+            org_id: orgId,
+            event_id: event_id,
+            name: name,
+            email_type: 'marketing',
+            template_id: channels.includes('email') ? template_id || null : null,
+            channels: channels,
+            subject: subject || null,
+            html_body: html_body || null,
+            text_body: text_body || null,
+            sms_body: sms_body || null,
+            push_title: push_title || null,
+            push_body: push_body || null,
+            push_url: push_url || null,
+            recipient_filter: recipient_filter,
+            status: 'queued',
+            scheduled_at: scheduled_at || null,
+            trigger_type: trigger_type,
+            trigger_offset_minutes: trigger_offset_minutes,
+            send_window_start: send_window?.start ?? null,
+            send_window_end: send_window?.end ?? null,
+            send_window_timezone: send_window?.timezone ?? 'Europe/Amsterdam',
+            site_origin: site_origin || null,
+            created_by: user.id
+        }
+
+        // 5d. RELATIVE TRIGGERS: recipients are resolved by dispatch_message_batches
+        if (trigger_type !== 'scheduled') {
+            const { data: batch, error: batchError } = await supabaseAdmin
+                .from('message_batches')
+                .insert({ ...batchFields, total_recipients: 0 })
+                .select()
+                .single()
+
+            if (batchError || !batch) {
+                logger.error('Failed to create batch', batchError)
+                return errorResponse('Failed to create batch', 'BATCH_CREATION_FAILED', 500)
+            }
+
+            logger.info('Triggered campaign created', { batchId: batch.id, trigger_type, trigger_offset_minutes, channels })
+
+            return jsonResponse({
+                success: true,
+                batch_id: batch.id,
+                channels: channels,
+                trigger_type: trigger_type,
+                trigger_offset_minutes: trigger_offset_minutes,
+                message: 'Campaign scheduled; recipients are selected when the trigger fires'
+            }, 200)
+        }
+
         // 6. FETCH RECIPIENTS BASED ON FILTER
         let recipients: Recipient[] = []
 
@@ -207,48 +443,95 @@ serve(async (req: Request) => {
                 first_name: p.first_name,
                 last_name: p.last_name
             }))
+
+        } else if (recipient_filter.type === 'segment') {
+            // Current members of a saved segment (conditions evaluated now)
+            const { data, error } = await supabaseAdmin
+                .rpc('get_segment_members', { _segment_id: recipient_filter.segment_id })
+
+            if (error) {
+                logger.error('Failed to fetch segment recipients', error)
+                return errorResponse('Failed to fetch recipients', 'FETCH_RECIPIENTS_FAILED', 500)
+            }
+
+            recipients = (data || []).map((m: any) => ({
+                participant_id: m.participant_id,
+                email: m.email,
+                first_name: m.first_name,
+                last_name: m.last_name
+            }))
         }
 
-        // Deduplicate by email
+        // Deduplicate by participant (one message per channel per person)
         const uniqueRecipients = Array.from(
-            new Map(recipients.map(r => [r.email.toLowerCase(), r])).values()
+            new Map(recipients.map(r => [r.participant_id, r])).values()
         )
 
-        logger.info(`Found ${uniqueRecipients.length} unique recipients before filtering`)
-
-        // 7. FILTER OUT UNSUBSCRIBED/BOUNCED EMAILS
-        // Check deliverability for each email
-        const deliverableRecipients: Recipient[] = []
-
-        for (const recipient of uniqueRecipients) {
-            // Call is_email_deliverable function
-            const { data: isDeliverable, error: deliverabilityError } = await supabaseAdmin
-                .rpc('is_email_deliverable', {
-                    _email: recipient.email.toLowerCase(),
-                    _org_id: orgId,
-                    _email_type: 'marketing'
-                })
-
-            if (deliverabilityError) {
-                logger.warn(`Failed to check deliverability for ${recipient.email}`, deliverabilityError)
-                // Include recipient if we can't check (fail open for deliverability check only)
-                deliverableRecipients.push(recipient)
-            } else if (isDeliverable) {
-                deliverableRecipients.push(recipient)
-            } else {
-                logger.debug(`Skipping undeliverable email: ${recipient.email}`)
+        logger.info(`Found ${uniqueRecipients.length} unique recipients before filtering`, { channels })
+
+        // 7. FILTER PER CHANNEL
+        // email: unsubscribed/bounced; sms/push: opt-in + phone/push subscription
+        const deliveries: Array<{ channel: NotificationChannel; recipient: Recipient }> = []
+        const perChannel: Record<string, number> = {}
+
+        for (const channel of channels) {
+            perChannel[channel] = 0
+            const seenEmails = new Set<string>()
+
+            for (const recipient of uniqueRecipients) {
+                if (channel === 'email') {
+                    // Deduplicate by email (shared family addresses)
+                    const email = recipient.email.toLowerCase()
+                    if (seenEmails.has(email)) continue
+                    seenEmails.add(email)
+
+                    // Call is_email_deliverable function
+                    const { data: isDeliverable, error: deliverabilityError } = await supabaseAdmin
+                        .rpc('is_email_deliverable', {
+                            _email: email,
+                            _org_id: orgId,
+                            _email_type: 'marketing'
+                        })
+
+                    if (deliverabilityError) {
+                        logger.warn(`Failed to check deliverability for ${recipient.email}`, deliverabilityError)
+                        // Include recipient if we can't check (fail open for deliverability check only)
+                    } else if (!isDeliverable) {
+                        logger.debug(`Skipping undeliverable email: ${recipient.email}`)
+                        continue
+                    }
+
+                } else {
+                    // Opt-in is required for sms/push: fail closed
+                    const { data: isReachable, error: reachableError } = await supabaseAdmin
+                        .rpc('is_channel_deliverable', {
+                            _participant_id: recipient.participant_id,
+                            _org_id: orgId,
+                            _channel: channel,
+                            _message_type: 'marketing'
+                        })
+
+                    if (reachableError) {
+                        logger.warn(`Failed to check ${channel} opt-in for ${recipient.participant_id}`, reachableError)
+                        continue
+                    }
+                    if (!isReachable) continue
+                }
+
+                deliveries.push({ channel, recipient })
+                perChannel[channel]++
             }
         }
 
-        const filteredCount = uniqueRecipients.length - deliverableRecipients.length
-        logger.info(`Filtered out ${filteredCount} undeliverable emails`)
+        const filteredCount = uniqueRecipients.length * channels.length - deliveries.length
+        logger.info(`Filtered out ${filteredCount} undeliverable messages`, perChannel)
 
         // 8. CHECK LIMITS
-        if (deliverableRecipients.length === 0) {
+        if (deliveries.length === 0) {
             return errorResponse('No deliverable recipients found', 'NO_RECIPIENTS', 400)
         }
 
-        if (deliverableRecipients.length > MAX_RECIPIENTS_PER_CAMPAIGN) {
+        if (deliveries.length > MAX_RECIPIENTS_PER_CAMPAIGN) {
             return errorResponse(
                 `Too many recipients. Maximum is ${MAX_RECIPIENTS_PER_CAMPAIGN}`,
                 'TOO_MANY_RECIPIENTS',
@@ -259,21 +542,7 @@ serve(async (req: Request) => {
         // 9. CREATE MESSAGE BATCH
         const { data: batch, error: batchError } = await supabaseAdmin
             .from('message_batches')
-            .insert({
-                org_id: orgId,
-                event_id: event_id,
-                name: name,
-                email_type: 'marketing',
-                subject: subject,
-                html_body: html_body,
-                text_body: text_body || null,
-                recipient_filter: recipient_filter,
-                status: 'queued',
-                total_recipients: deliverableRecipients.length,
-                queued_count: deliverableRecipients.length,
-                scheduled_at: scheduled_at || null,
-                created_by: user.id
-            })
+            .insert({ ...batchFields, total_recipients: deliveries.length })
             .select()
             .single()
 
@@ -282,13 +551,14 @@ serve(async (req: Request) => {
             return errorResponse('Failed to create batch', 'BATCH_CREATION_FAILED', 500)
         }
 
-        logger.info('Batch created', { batchId: batch.id, recipients: deliverableRecipients.length })
+        logger.info('Batch created', { batchId: batch.id, recipients: deliveries.length, channels })
 
         // 10. INSERT BATCH ITEMS
-        const batchItems = deliverableRecipients.map(recipient => ({
+        const batchItems = deliveries.map(({ channel, recipient }) => ({
             batch_id: batch.id,
+            channel: channel,
             participant_id: recipient.participant_id,
-            email: recipient.email.toLowerCase(),
+            email: channel === 'email' ? recipient.email.toLowerCase() : null,
             variables: {
                 first_name: recipient.first_name || '',
                 last_name: recipient.last_name || '',
@@ -323,9 +593,11 @@ serve(async (req: Request) => {
         return jsonResponse({
             success: true,
             batch_id: batch.id,
-            total_recipients: deliverableRecipients.length,
+            channels: channels,
+            total_recipients: deliveries.length,
+            recipients_per_channel: perChannel,
             filtered_out: filteredCount,
-            message: `Bulk email campaign queued with ${deliverableRecipients.length} recipients`
+            message: `Campaign queued with ${deliveries.length} messages`
         }, 200)
 
     } catch (error: unknown) {
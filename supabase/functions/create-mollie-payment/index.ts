@@ -1,13 +1,14 @@
 /**
  * create-mollie-payment Edge Function
  *
- * Creates a Mollie payment for an order
+ * Creates a payment for an order at the event's payment provider
+ * (payments.payment_profile_id: Mollie, Stripe or fake)
  *
  * Flow:
  * 1. Authenticate user
  * 2. Validate order (exists, belongs to user, not already paid, total > 0)
  * 3. Check for existing active payment (idempotency)
- * 4. Create Mollie payment
+ * 4. Create provider payment
  * 5. Store payment record in DB
  * 6. Return checkout URL
  *
@@ -20,8 +21,13 @@ import { jsonResponse, errorResponse } from '../_shared/response.ts'
 import { authenticateUser, isOrgMember } from '../_shared/auth.ts'
 import { getServiceClient } from '../_shared/supabase.ts'
 import { createLogger } from '../_shared/logger.ts'
-
-const MOLLIE_API_URL = "https://api.mollie.com/v2/payments"
+import {
+    getPaymentWebhookUrl,
+    PaymentProviderError,
+    resolveEventPaymentProvider,
+    resolvePaymentProfileProvider,
+} from '../_shared/payments.ts'
+import type { ProviderPayment, ResolvedPaymentProvider } from '../_shared/payments.ts'
 
 interface CreatePaymentRequest {
     order_id: string
@@ -103,7 +109,7 @@ serve(async (req: Request) => {
         // =================================================================
         const { data: existingPayment } = await supabaseAdmin
             .from('payments')
-            .select('id, provider_payment_id, status')
+            .select('id, provider, payment_profile_id, provider_payment_id, status')
             .eq('order_id', order_id)
             .in('status', ['created', 'open', 'pending'])
             .order('created_at', { ascending: false })
@@ -113,75 +119,69 @@ serve(async (req: Request) => {
         if (existingPayment) {
             logger.info('Existing active payment found', existingPayment.provider_payment_id)
 
-            // Fetch from Mollie to get latest checkout URL
-            const mollieApiKey = Deno.env.get('MOLLIE_API_KEY')
-            if (!mollieApiKey) {
-                return errorResponse('Server misconfiguration', 'MISSING_MOLLIE_KEY', 500)
-            }
-
-            const mollieResponse = await fetch(`${MOLLIE_API_URL}/${existingPayment.provider_payment_id}`, {
-                headers: { 'Authorization': `Bearer ${mollieApiKey}` }
-            })
-
-            if (mollieResponse.ok) {
-                const mollieData = await mollieResponse.json()
-                return jsonResponse({
-                    checkoutUrl: mollieData._links?.checkout?.href,
-                    paymentId: existingPayment.provider_payment_id,
-                    existing: true
-                }, 200)
+            // Fetch from the provider to get latest checkout URL
+            try {
+                const existingProvider = await resolvePaymentProfileProvider(
+                    supabaseAdmin,
+                    existingPayment.provider,
+                    existingPayment.payment_profile_id
+                )
+                const providerPayment = await existingProvider.getPayment(existingPayment.provider_payment_id)
+
+                if (providerPayment?.checkoutUrl) {
+                    return jsonResponse({
+                        checkoutUrl: providerPayment.checkoutUrl,
+                        paymentId: existingPayment.provider_payment_id,
+                        existing: true
+                    }, 200)
+                }
+            } catch (providerErr) {
+                logger.warn('Could not fetch existing payment, creating a new one', providerErr)
             }
         }
 
         // =================================================================
-        // 5. CREATE MOLLIE PAYMENT
+        // 5. CREATE PAYMENT (provider of the event)
         // =================================================================
-        const mollieApiKey = Deno.env.get('MOLLIE_API_KEY')
-        if (!mollieApiKey) {
-            logger.error('Missing MOLLIE_API_KEY')
-            return errorResponse('Server misconfiguration', 'MISSING_MOLLIE_KEY', 500)
+        let resolved: ResolvedPaymentProvider
+        try {
+            resolved = await resolveEventPaymentProvider(supabaseAdmin, order.event_id)
+        } catch (providerErr) {
+            logger.error('Payment provider not configured', providerErr)
+            return errorResponse('Server misconfiguration', 'PAYMENT_PROVIDER_NOT_CONFIGURED', 500)
         }
 
-        // Format amount for Mollie (string, 2 decimals)
-        const amountString = (order.total_amount / 100).toFixed(2)
+        const { provider, profileId } = resolved
+        const amountCents = Math.round(order.total_amount * 100)
 
-        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        logger.info('Creating payment', { provider: provider.name, amountCents, currency: order.currency })
 
-        const molliePayload = {
-            amount: {
+        let providerPayment: ProviderPayment
+        try {
+            providerPayment = await provider.createPayment({
+                amountCents,
                 currency: order.currency || 'EUR',
-                value: amountString,
-            },
-            description: `Order ${order.id}`,
-            redirectUrl: redirect_url || `${req.headers.get('origin')}/orders/${order.id}`,
-            webhookUrl: `${supabaseUrl}/functions/v1/mollie-webhook`,
-            metadata: {
-                order_id: order.id,
-                org_id: order.org_id,
-                event_id: order.event_id,
-                user_id: user!.id,
-            },
-        }
-
-        logger.info('Creating Mollie payment', { amount: amountString, currency: order.currency })
-
-        const mollieResponse = await fetch(MOLLIE_API_URL, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${mollieApiKey}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(molliePayload),
-        })
-
-        const mollieData = await mollieResponse.json()
-
-        if (!mollieResponse.ok) {
-            logger.error('Mollie API error', mollieData)
-            return errorResponse('Payment provider error', 'MOLLIE_ERROR', 502, mollieData)
+                description: `Order ${order.id}`,
+                redirectUrl: redirect_url || `${req.headers.get('origin')}/orders/${order.id}`,
+                webhookUrl: getPaymentWebhookUrl(provider.name, profileId),
+                metadata: {
+                    order_id: order.id,
+                    org_id: order.org_id,
+                    event_id: order.event_id,
+                    user_id: user!.id,
+                },
+            })
+        } catch (providerErr) {
+            logger.error('Payment provider error', providerErr)
+            return errorResponse(
+                'Payment provider error',
+                'PAYMENT_PROVIDER_ERROR',
+                502,
+                providerErr instanceof PaymentProviderError ? providerErr.details ?? providerErr.message : String(providerErr)
+            )
         }
 
-        logger.info('Mollie payment created', mollieData.id)
+        logger.info('Payment created', providerPayment.id)
 
         // =================================================================
         // 6. STORE PAYMENT RECORD
@@ -191,19 +191,20 @@ serve(async (req: Request) => {
             .insert({
                 org_id: order.org_id,
                 order_id: order.id,
-                provider: 'mollie',
-                provider_payment_id: mollieData.id,
-                amount: order.total_amount,
+                provider: provider.name,
+                payment_profile_id: profileId,
+                provider_payment_id: providerPayment.id,
+                amount: amountCents,
                 currency: order.currency || 'EUR',
-                status: mollieData.status, // Usually 'open'
+                status: providerPayment.status, // Usually 'open'
             })
             .select('id')
             .single()
 
         if (insertError) {
             logger.error('Failed to store payment', insertError)
-            // Critical: Payment created at Mollie but not in DB
-            // In production, you might want to cancel the Mollie payment or alert
+            // Critical: Payment created at the provider but not in DB
+            // In production, you might want to cancel the provider payment or alert
             return errorResponse('Failed to record payment', 'PAYMENT_STORAGE_FAILED', 500)
         }
 
@@ -216,7 +217,7 @@ serve(async (req: Request) => {
                 action: 'PAYMENT_CREATED',
                 entity_type: 'payment',
                 entity_id: payment.id,
-                after_state: { provider_payment_id: mollieData.id, status: mollieData.status },
+                after_state: { provider: provider.name, provider_payment_id: providerPayment.id, status: providerPayment.status },
                 metadata: { order_id: order.id }
             })
 
@@ -226,8 +227,8 @@ serve(async (req: Request) => {
         // 7. RETURN CHECKOUT URL
         // =================================================================
         return jsonResponse({
-            checkoutUrl: mollieData._links.checkout.href,
-            paymentId: mollieData.id
+            checkoutUrl: providerPayment.checkoutUrl,
+            paymentId: providerPayment.id
         }, 200)
 
     } catch (error: unknown) {
@@ -5,15 +5,27 @@
  *
  * Flow:
  * 1. Parse & validate input (event_id, items, email, purchaser_name)
+ *    Items zijn ticketregels ({ticket_type_id, time_slot_id?}) of productregels ({product_id, product_variant_id?})
  * 2. Resolve user_id from optional Bearer token
  * 3. Verify event is published + within sales window
- * 4. Atomic capacity pre-check via RPC (FOR UPDATE SKIP LOCKED)
+ * 3a. Resale purchase (resale_listing_id, logged in): no items, the price is the
+ *     listing price; the listing is reserved for the order after it is created
+ * 3b. Optional waitlist offer (waitlist_offer_token): verify pending + email match
+ * 3c. Team tickets (ticket_team_config): team_required types need a team name
+ * 3d. Fundraising: charity choice validated against event mode + ticket overrides
+ * 3e. Registration questions: answers per ticket (items[].attendees[i].answers)
+ *     validated via validate_registration_answers (show-if, required, rules)
+ * 4. Atomic capacity + stock pre-check via RPC (FOR UPDATE SKIP LOCKED)
+ *    Places held for other waitlist offers are not available
+ *    Ticket types with time slots (waves) need a time_slot_id with free slot capacity
  * 5. Server-side price calculation (never trust client prices)
  * 6. Derive org_id from event (never from client)
  * 7. Generate public_token → SHA-256 hash → store in order
- * 8. INSERT order + order_items
+ * 8. INSERT order + order_items (+ accept waitlist offer, + create team,
+ *    + store fundraising choice, + reserve resale listing, + store attendee answers)
  * 9. If total == 0 (free): issue tickets immediately
- * 10. If total > 0: create Mollie payment → return checkout_url + public_token
+ * 10. If total > 0: create payment at the event's provider (payments.payment_profile_id:
+ *     Mollie, Stripe or fake) → return checkout_url + public_token
  *
  * Security:
  * - Uses SERVICE_ROLE for all DB writes (bypasses RLS for creation)
@@ -28,12 +40,33 @@ import { handleCors } from '../_shared/cors.ts'
 import { jsonResponse, errorResponse } from '../_shared/response.ts'
 import { getServiceClient } from '../_shared/supabase.ts'
 import { createLogger } from '../_shared/logger.ts'
-
-const MOLLIE_API_URL = "https://api.mollie.com/v2/payments"
+import {
+    getPaymentWebhookUrl,
+    PaymentProviderError,
+    resolveEventPaymentProvider,
+} from '../_shared/payments.ts'
+import type { ProviderPayment, ResolvedPaymentProvider } from '../_shared/payments.ts'
+
+interface AttendeeDetails {
+    answers: Record<string, unknown>  // { "<question_id>": <value> }
+}
 
 interface OrderItem {
-    ticket_type_id: string
+    ticket_type_id?: string
+    time_slot_id?: string   // Chosen wave (ticket_time_slots) for a ticket line
+    product_id?: string
+    product_variant_id?: string
     quantity: number
+    attendees?: AttendeeDetails[]  // Registration answers per ticket (index = position in the line)
+}
+
+interface TeamRequest {
+    ticket_type_id: string
+    name: string
+}
+
+interface FundraisingRequest {
+    charity_id: string | null  // null = opt out (only when mode is optional)
 }
 
 interface CreateOrderPublicRequest {
@@ -41,6 +74,10 @@ interface CreateOrderPublicRequest {
     items: OrderItem[]
     email: string
     purchaser_name?: string
+    waitlist_offer_token?: string  // Raw token from the waitlist offer email
+    team?: TeamRequest             // Captain creates a team for a team ticket type
+    fundraising?: FundraisingRequest
+    resale_listing_id?: string     // Buy a ticket offered for resale (items must be empty)
     // Optional: Bearer token in Authorization header for authenticated users
 }
 
@@ -91,12 +128,29 @@ serve(async (req: Request) => {
             return errorResponse('Invalid JSON', 'INVALID_JSON', 400)
         }
 
-        const { event_id, items, email, purchaser_name } = body
+        const {
+            event_id,
+            items = [],
+            email,
+            purchaser_name,
+            waitlist_offer_token,
+            team,
+            fundraising,
+            resale_listing_id
+        } = body
 
         if (!event_id) {
             return errorResponse('Missing event_id', 'MISSING_EVENT_ID', 400)
         }
-        if (!items || !Array.isArray(items) || items.length === 0) {
+        if (!Array.isArray(items)) {
+            return errorResponse('Missing or empty items array', 'MISSING_ITEMS', 400)
+        }
+        if (resale_listing_id) {
+            // Doorverkoop: alleen het aangeboden ticket, niets erbij
+            if (items.length > 0 || waitlist_offer_token || team || fundraising) {
+                return errorResponse('A resale purchase cannot be combined with other items', 'INVALID_RESALE_ORDER', 400)
+            }
+        } else if (items.length === 0) {
             return errorResponse('Missing or empty items array', 'MISSING_ITEMS', 400)
         }
         if (!email || !email.includes('@')) {
@@ -105,12 +159,32 @@ serve(async (req: Request) => {
 
         // Validate items structure
         for (const item of items) {
-            if (!item.ticket_type_id) {
-                return errorResponse('Each item must have ticket_type_id', 'INVALID_ITEM', 400)
+            if (!item.ticket_type_id && !item.product_id) {
+                return errorResponse('Each item must have ticket_type_id or product_id', 'INVALID_ITEM', 400)
+            }
+            if (item.ticket_type_id && item.product_id) {
+                return errorResponse('Item cannot be both a ticket and a product', 'INVALID_ITEM', 400)
+            }
+            if (item.time_slot_id && !item.ticket_type_id) {
+                return errorResponse('Only ticket items can have a time slot', 'INVALID_ITEM', 400)
             }
             if (!Number.isInteger(item.quantity) || item.quantity < 1) {
                 return errorResponse('Each item must have quantity >= 1', 'INVALID_QUANTITY', 400)
             }
+            if (item.attendees !== undefined && (
+                !Array.isArray(item.attendees) || !item.ticket_type_id || item.attendees.length > item.quantity
+            )) {
+                return errorResponse('Attendees must match the ticket quantity', 'INVALID_ATTENDEES', 400)
+            }
+        }
+
+        if (team) {
+            if (!team.ticket_type_id || !team.name || !team.name.trim()) {
+                return errorResponse('Team needs ticket_type_id and name', 'INVALID_TEAM', 400)
+            }
+            if (!items.some(item => item.ticket_type_id === team.ticket_type_id)) {
+                return errorResponse('Team ticket type is not in the order', 'INVALID_TEAM', 400)
+            }
         }
 
         // Limit items per request (anti-spam)
@@ -118,7 +192,7 @@ serve(async (req: Request) => {
             return errorResponse('Too many items (max 20)', 'TOO_MANY_ITEMS', 400)
         }
 
-        logger.info('Input validated', { event_id, itemCount: items.length, email })
+        logger.info('Input validated', { event_id, itemCount: items.length, email, resale_listing_id })
 
         // =================================================================
         // 2. RESOLVE USER (optional — works for both guest and authenticated)
@@ -149,6 +223,11 @@ serve(async (req: Request) => {
             }
         }
 
+        // Doorverkochte tickets gaan op naam van een account (owner_user_id)
+        if (resale_listing_id && !userId) {
+            return errorResponse('Log in to buy a resale ticket', 'LOGIN_REQUIRED', 401)
+        }
+
         // =================================================================
         // 3. VERIFY EVENT IS PUBLISHED + WITHIN SALES WINDOW
         // =================================================================
@@ -170,36 +249,224 @@ serve(async (req: Request) => {
         logger.info('Event verified', { name: event.name, org_id: event.org_id })
 
         // =================================================================
-        // 4. ATOMIC CAPACITY + PRICE VALIDATION (via RPC)
+        // 3a. RESALE LISTING (optional — buy a ticket offered for resale)
         // =================================================================
-        const itemsJsonb = items.map(item => ({
-            ticket_type_id: item.ticket_type_id,
-            quantity: item.quantity
-        }))
+        // Geen order_items: het bestaande ticket gaat na betaling naar de koper
+        // (complete_ticket_resale). Beschikbaarheid wordt na het aanmaken van
+        // de order definitief vastgelegd met reserve_resale_listing.
+        let resaleListing: { id: string; price_cents: number } | null = null
+
+        if (resale_listing_id) {
+            const { data: listing } = await supabaseAdmin
+                .from('ticket_resale_listings')
+                .select('id, event_id, price_cents, status, reserved_until')
+                .eq('id', resale_listing_id)
+                .maybeSingle()
+
+            if (!listing || listing.event_id !== event_id) {
+                return errorResponse('Resale listing not found', 'LISTING_NOT_FOUND', 404)
+            }
 
-        const { data: capacityResult, error: capacityError } = await supabaseAdmin
-            .rpc('validate_checkout_capacity', {
-                _event_id: event_id,
-                _items: itemsJsonb
-            })
+            const available = listing.status === 'active' ||
+                (listing.status === 'reserved' && new Date(listing.reserved_until) <= new Date())
 
-        if (capacityError) {
-            logger.error('Capacity validation RPC failed', capacityError)
-            return errorResponse('Capacity validation failed', 'CAPACITY_CHECK_ERROR', 500, capacityError.message)
+            if (!available) {
+                return errorResponse('Resale listing is no longer available', 'LISTING_NOT_AVAILABLE', 409)
+            }
+
+            resaleListing = { id: listing.id, price_cents: listing.price_cents }
+            logger.info('Resale listing verified', { listingId: listing.id })
         }
 
-        if (!capacityResult || !capacityResult.valid) {
-            logger.warn('Capacity validation failed', capacityResult)
-            return errorResponse(
-                'Checkout validation failed',
-                'VALIDATION_FAILED',
-                409,
-                capacityResult?.details || 'Capacity or sales window check failed'
-            )
+        // =================================================================
+        // 3b. WAITLIST OFFER (optional — reserved checkout)
+        // =================================================================
+        let waitlistOffer: { id: string; ticket_type_id: string; quantity: number } | null = null
+
+        if (waitlist_offer_token) {
+            const { data: offer } = await supabaseAdmin
+                .from('waitlist_offers')
+                .select('id, event_id, ticket_type_id, quantity, status, expires_at, waitlist_entries(email)')
+                .eq('token_hash', await hashToken(waitlist_offer_token))
+                .maybeSingle()
+
+            if (!offer || offer.event_id !== event_id) {
+                return errorResponse('Waitlist offer not found', 'OFFER_NOT_FOUND', 404)
+            }
+
+            if (offer.status !== 'pending' || new Date(offer.expires_at) <= new Date()) {
+                return errorResponse('Waitlist offer is no longer available', 'OFFER_NOT_AVAILABLE', 409)
+            }
+
+            const offerEmail = (offer.waitlist_entries as any)?.email as string | undefined
+            if (!offerEmail || offerEmail.toLowerCase() !== email.trim().toLowerCase()) {
+                return errorResponse('Email does not match the waitlist offer', 'OFFER_EMAIL_MISMATCH', 403)
+            }
+
+            const offeredQuantity = items
+                .filter(item => item.ticket_type_id === offer.ticket_type_id)
+                .reduce((sum, item) => sum + item.quantity, 0)
+
+            if (offeredQuantity > offer.quantity) {
+                return errorResponse('Quantity exceeds the waitlist offer', 'EXCEEDS_OFFER_QUANTITY', 400)
+            }
+
+            waitlistOffer = { id: offer.id, ticket_type_id: offer.ticket_type_id, quantity: offer.quantity }
+            logger.info('Waitlist offer verified', { offerId: offer.id })
         }
 
-        const serverPrice: number = parseFloat(capacityResult.total_price.toString())
-        logger.info('Capacity & pricing validated', { total_price: serverPrice, items: capacityResult.details })
+        let serverPrice: number
+        let capacityDetails: any[] = []
+        let fundraisingCharityId: string | null = null
+        // Validated answers per ticket line ("<ticket_type_id>:<time_slot_id>"), one entry per ticket
+        const attendeeAnswers = new Map<string, Record<string, unknown>[]>()
+
+        if (resaleListing) {
+            // Prijs van de aanbieding (binnen het plafond bij create_resale_listing)
+            serverPrice = resaleListing.price_cents / 100
+        } else {
+            // =================================================================
+            // 3c. TEAM TICKETS
+            // =================================================================
+            // Tickettypes met team_required kunnen alleen als team besteld worden
+            // (één team per bestelling). Teamgrootte wordt gecontroleerd in
+            // create_team_for_order.
+            const ticketTypeIds = items
+                .filter(item => item.ticket_type_id)
+                .map(item => item.ticket_type_id as string)
+
+            const { data: teamConfigs } = await supabaseAdmin
+                .from('ticket_team_config')
+                .select('ticket_type_id, team_required')
+                .in('ticket_type_id', ticketTypeIds)
+
+            for (const config of teamConfigs || []) {
+                if (config.team_required && team?.ticket_type_id !== config.ticket_type_id) {
+                    return errorResponse('This ticket can only be ordered as a team', 'TEAM_REQUIRED', 400)
+                }
+            }
+
+            if (team && !(teamConfigs || []).some(config => config.ticket_type_id === team.ticket_type_id)) {
+                return errorResponse('Ticket type has no team configuration', 'TEAM_CONFIG_NOT_FOUND', 400)
+            }
+
+            // =================================================================
+            // 3d. FUNDRAISING CHOICE
+            // =================================================================
+            // Modus per event, ticket overrides gaan voor. Bij 'required' zonder
+            // keuze en zonder vast doel wordt de bestelling geweigerd.
+            const { data: fundraisingResult, error: fundraisingError } = await supabaseAdmin
+                .rpc('validate_fundraising_choice', {
+                    _event_id: event_id,
+                    _ticket_type_ids: ticketTypeIds,
+                    _charity_id: fundraising?.charity_id ?? null
+                })
+
+            if (fundraisingError) {
+                logger.error('Fundraising validation RPC failed', fundraisingError)
+                return errorResponse('Fundraising validation failed', 'FUNDRAISING_CHECK_ERROR', 500, fundraisingError.message)
+            }
+
+            if (fundraisingResult?.error) {
+                return errorResponse('Invalid fundraising choice', fundraisingResult.error, 400)
+            }
+
+            fundraisingCharityId = fundraisingResult?.charity_id ?? null
+
+            // =================================================================
+            // 3e. REGISTRATION QUESTIONS (per ticket)
+            // =================================================================
+            // Elke loper vult eigen gegevens in. Teamtickets worden niet
+            // gevraagd: teamleden beantwoorden de vragen bij join_team.
+            const { data: questions } = await supabaseAdmin
+                .from('registration_questions')
+                .select('ticket_type_id')
+                .eq('event_id', event_id)
+
+            for (const item of items) {
+                if (!item.ticket_type_id || item.ticket_type_id === team?.ticket_type_id) continue
+
+                const applies = (questions || []).some(question =>
+                    question.ticket_type_id === null || question.ticket_type_id === item.ticket_type_id)
+                if (!applies) continue
+
+                const key = `${item.ticket_type_id}:${item.time_slot_id ?? ''}`
+                const lineAnswers = attendeeAnswers.get(key) ?? []
+
+                for (let i = 0; i < item.quantity; i++) {
+                    const { data: answersResult, error: answersError } = await supabaseAdmin
+                        .rpc('validate_registration_answers', {
+                            _event_id: event_id,
+                            _ticket_type_id: item.ticket_type_id,
+                            _answers: item.attendees?.[i]?.answers ?? {}
+                        })
+
+                    if (answersError) {
+                        logger.error('Answer validation RPC failed', answersError)
+                        return errorResponse('Answer validation failed', 'ANSWERS_CHECK_ERROR', 500, answersError.message)
+                    }
+
+                    if (answersResult?.error) {
+                        return errorResponse(
+                            'Invalid registration answers',
+                            answersResult.error,
+                            400,
+                            {
+                                ticket_type_id: item.ticket_type_id,
+                                position: i,
+                                question_id: answersResult.question_id,
+                                reason: answersResult.reason ?? null
+                            }
+                        )
+                    }
+
+                    lineAnswers.push(answersResult.answers)
+                }
+
+                attendeeAnswers.set(key, lineAnswers)
+            }
+
+            // =================================================================
+            // 4. ATOMIC CAPACITY + PRICE VALIDATION (via RPC)
+            // =================================================================
+            const itemsJsonb = items.map(item => item.product_id
+                ? {
+                    product_id: item.product_id,
+                    product_variant_id: item.product_variant_id ?? null,
+                    quantity: item.quantity
+                }
+                : {
+                    ticket_type_id: item.ticket_type_id,
+                    time_slot_id: item.time_slot_id ?? null,
+                    quantity: item.quantity
+                })
+
+            const { data: capacityResult, error: capacityError } = await supabaseAdmin
+                .rpc('validate_checkout_capacity', {
+                    _event_id: event_id,
+                    _items: itemsJsonb,
+                    _waitlist_offer_id: waitlistOffer?.id ?? null
+                })
+
+            if (capacityError) {
+                logger.error('Capacity validation RPC failed', capacityError)
+                return errorResponse('Capacity validation failed', 'CAPACITY_CHECK_ERROR', 500, capacityError.message)
+            }
+
+            if (!capacityResult || !capacityResult.valid) {
+                logger.warn('Capacity validation failed', capacityResult)
+                return errorResponse(
+                    'Checkout validation failed',
+                    'VALIDATION_FAILED',
+                    409,
+                    capacityResult?.details || 'Capacity or sales window check failed'
+                )
+            }
+
+            serverPrice = parseFloat(capacityResult.total_price.toString())
+            capacityDetails = capacityResult.details
+            logger.info('Capacity & pricing validated', { total_price: serverPrice, items: capacityResult.details })
+        }
 
         // =================================================================
         // 5. GENERATE PUBLIC TOKEN
@@ -225,6 +492,7 @@ serve(async (req: Request) => {
                 currency: 'EUR',
                 public_token_hash: publicTokenHash,
                 public_token_created_at: new Date().toISOString(),
+                resale_listing_id: resaleListing?.id ?? null,
             })
             .select('id, status, total_amount, created_at')
             .single()
@@ -237,32 +505,171 @@ serve(async (req: Request) => {
         logger.info('Order created', { orderId: order.id, total: order.total_amount })
 
         // =================================================================
-        // 7. CREATE ORDER ITEMS
+        // 6b. RESERVE RESALE LISTING
         // =================================================================
-        const orderItemsPayload = capacityResult.details.map((detail: any) => ({
+        // Atomisch (FOR UPDATE): een gelijktijdige koper krijgt LISTING_NOT_AVAILABLE.
+        // Na betaling zet handle_resale_order_status het ticket over.
+        if (resaleListing) {
+            const { data: reserveResult, error: reserveError } = await supabaseAdmin
+                .rpc('reserve_resale_listing', {
+                    _listing_id: resaleListing.id,
+                    _order_id: order.id
+                })
+
+            if (reserveError || reserveResult?.error) {
+                logger.warn('Resale listing could not be reserved', reserveError || reserveResult)
+                await supabaseAdmin
+                    .from('orders')
+                    .update({ status: 'cancelled' })
+                    .eq('id', order.id)
+
+                const code = reserveResult?.error || 'LISTING_RESERVE_FAILED'
+                return errorResponse(
+                    'Resale listing is no longer available',
+                    code,
+                    code === 'SELF_PURCHASE' ? 400 : 409,
+                    reserveError?.message
+                )
+            }
+
+            logger.info('Resale listing reserved', { listingId: resaleListing.id, until: reserveResult.reserved_until })
+        }
+
+        // =================================================================
+        // 7. CREATE ORDER ITEMS (ticket + product lines)
+        // =================================================================
+        const orderItemsPayload = capacityDetails.map((detail: any) => ({
             order_id: order.id,
-            ticket_type_id: detail.ticket_type_id,
+            ticket_type_id: detail.line_type === 'product' ? null : detail.ticket_type_id,
+            product_id: detail.line_type === 'product' ? detail.product_id : null,
+            product_variant_id: detail.line_type === 'product' ? detail.product_variant_id : null,
+            time_slot_id: detail.line_type === 'product' ? null : (detail.time_slot_id ?? null),
             quantity: detail.quantity,
             unit_price: parseFloat(detail.price.toString()),
             total_price: parseFloat(detail.line_total.toString()),
         }))
 
-        const { error: itemsError } = await supabaseAdmin
-            .from('order_items')
-            .insert(orderItemsPayload)
+        if (orderItemsPayload.length > 0) {
+            const { data: createdItems, error: itemsError } = await supabaseAdmin
+                .from('order_items')
+                .insert(orderItemsPayload)
+                .select('id, ticket_type_id, time_slot_id, quantity')
 
-        if (itemsError) {
-            logger.error('Failed to create order items', itemsError)
-            // Rollback: mark order as failed
-            await supabaseAdmin
-                .from('orders')
-                .update({ status: 'failed' })
-                .eq('id', order.id)
+            if (itemsError) {
+                logger.error('Failed to create order items', itemsError)
+                // Rollback: mark order as failed
+                await supabaseAdmin
+                    .from('orders')
+                    .update({ status: 'failed' })
+                    .eq('id', order.id)
+
+                // Slot capacity trigger: a concurrent checkout filled the wave
+                if (itemsError.message?.includes('SLOT_FULL')) {
+                    return errorResponse('Time slot is full', 'SLOT_FULL', 409)
+                }
+
+                return errorResponse('Failed to create order items', 'ITEMS_CREATE_FAILED', 500, itemsError.message)
+            }
+
+            logger.info('Order items created', { count: orderItemsPayload.length })
+
+            // Answers per ticket position; they become registration_answers when the tickets are issued
+            const attendeeRows = (createdItems || []).flatMap((orderItem: any) => {
+                const lineAnswers = attendeeAnswers.get(`${orderItem.ticket_type_id}:${orderItem.time_slot_id ?? ''}`)
+                if (!lineAnswers) return []
+
+                return lineAnswers.splice(0, orderItem.quantity).map((answers, index) => ({
+                    order_item_id: orderItem.id,
+                    sequence_no: index + 1,
+                    answers,
+                }))
+            })
+
+            if (attendeeRows.length > 0) {
+                const { error: attendeesError } = await supabaseAdmin
+                    .from('order_attendee_answers')
+                    .insert(attendeeRows)
+
+                if (attendeesError) {
+                    logger.error('Failed to store attendee answers', attendeesError)
+                    await supabaseAdmin
+                        .from('orders')
+                        .update({ status: 'failed' })
+                        .eq('id', order.id)
+
+                    return errorResponse('Failed to store registration answers', 'ANSWERS_CREATE_FAILED', 500, attendeesError.message)
+                }
+
+                logger.info('Attendee answers stored', { count: attendeeRows.length })
+            }
+        }
+
+        // Claim the waitlist offer: from now on the pending order holds the places
+        if (waitlistOffer) {
+            const { data: acceptResult, error: acceptError } = await supabaseAdmin
+                .rpc('accept_waitlist_offer', {
+                    _offer_id: waitlistOffer.id,
+                    _order_id: order.id
+                })
+
+            if (acceptError || acceptResult?.error) {
+                logger.warn('Waitlist offer could not be accepted', acceptError || acceptResult)
+                await supabaseAdmin
+                    .from('orders')
+                    .update({ status: 'cancelled' })
+                    .eq('id', order.id)
+
+                return errorResponse('Waitlist offer is no longer available', 'OFFER_NOT_AVAILABLE', 409)
+            }
 
-            return errorResponse('Failed to create order items', 'ITEMS_CREATE_FAILED', 500, itemsError.message)
+            logger.info('Waitlist offer accepted', { offerId: waitlistOffer.id })
         }
 
-        logger.info('Order items created', { count: orderItemsPayload.length })
+        // Create the (pending) team; it becomes active when the order is paid
+        if (team) {
+            const { data: teamResult, error: teamError } = await supabaseAdmin
+                .rpc('create_team_for_order', {
+                    _order_id: order.id,
+                    _ticket_type_id: team.ticket_type_id,
+                    _name: team.name,
+                    _site_origin: req.headers.get('origin')
+                })
+
+            if (teamError || teamResult?.error) {
+                logger.warn('Team could not be created', teamError || teamResult)
+                await supabaseAdmin
+                    .from('orders')
+                    .update({ status: 'cancelled' })
+                    .eq('id', order.id)
+
+                return errorResponse(
+                    'Team could not be created',
+                    teamResult?.error || 'TEAM_CREATE_FAILED',
+                    teamResult?.error === 'TEAM_NAME_TAKEN' ? 409 : 400,
+                    teamError?.message
+                )
+            }
+
+            logger.info('Team created', { teamId: teamResult.team_id })
+        }
+
+        // Store the charity choice; the participation is created with the registration
+        if (fundraisingCharityId) {
+            const { error: choiceError } = await supabaseAdmin
+                .from('fundraising_order_choices')
+                .insert({
+                    order_id: order.id,
+                    charity_id: fundraisingCharityId,
+                    site_origin: req.headers.get('origin')
+                })
+
+            if (choiceError) {
+                // Non-fatal: fundraising must never block the order
+                logger.warn('Fundraising choice could not be stored (non-fatal)', choiceError)
+            } else {
+                logger.info('Fundraising choice stored', { charityId: fundraisingCharityId })
+            }
+        }
 
         // =================================================================
         // 8. AUDIT LOG
@@ -282,7 +689,11 @@ serve(async (req: Request) => {
                         item_count: orderItemsPayload.length,
                         is_guest: !userId
                     },
-                    metadata: { event_id, source: 'create-order-public' }
+                    metadata: {
+                        event_id,
+                        source: 'create-order-public',
+                        ...(resaleListing ? { resale_listing_id: resaleListing.id } : {})
+                    }
                 })
         } catch {
             // Non-fatal: audit log failure should not block the flow
@@ -343,71 +754,54 @@ serve(async (req: Request) => {
             }, 200)
 
         } else {
-            // PAID ORDER: create Mollie payment session
-            logger.info('Paid order — creating Mollie payment', { amount: serverPrice })
-
-            const mollieApiKey = Deno.env.get('MOLLIE_API_KEY')
-            if (!mollieApiKey) {
-                logger.error('Missing MOLLIE_API_KEY')
-                return errorResponse('Payment provider not configured', 'MISSING_MOLLIE_KEY', 500)
+            // PAID ORDER: create payment at the event's provider
+            let resolved: ResolvedPaymentProvider
+            try {
+                resolved = await resolveEventPaymentProvider(supabaseAdmin, event_id)
+            } catch (providerErr) {
+                logger.error('Payment provider not configured', providerErr)
+                return errorResponse('Payment provider not configured', 'PAYMENT_PROVIDER_NOT_CONFIGURED', 500)
             }
 
-            // Detect test mode (key starts with 'test_')
-            const isTestMode = mollieApiKey.startsWith('test_')
-            if (isTestMode) {
-                logger.info('🧪 MOLLIE TEST MODE ACTIVE')
+            const { provider, profileId } = resolved
+            logger.info('Paid order — creating payment', { amount: serverPrice, provider: provider.name })
+
+            if (provider.testMode) {
+                logger.info(`🧪 ${provider.name.toUpperCase()} TEST MODE ACTIVE`)
             }
 
-            const supabaseUrl = Deno.env.get('SUPABASE_URL')!
             const origin = req.headers.get('origin') || 'https://localhost:3000'
 
-            // Format amount for Mollie: EUR value as string with 2 decimals
-            const amountString = serverPrice.toFixed(2)
-
-            const molliePayload = {
-                amount: {
-                    currency: 'EUR',
-                    value: amountString,
-                },
-                description: `Bestelling ${order.id.slice(0, 8)}`,
-                redirectUrl: `${origin}/checkout/success?token=${publicToken}`,
-                webhookUrl: `${supabaseUrl}/functions/v1/mollie-webhook`,
-                metadata: {
-                    order_id: order.id,
-                    org_id: event.org_id,
-                    event_id: event_id,
-                    user_id: userId,
-                },
-            }
-
-            let mollieData: any
+            let providerPayment: ProviderPayment
             try {
-                const mollieResponse = await fetch(MOLLIE_API_URL, {
-                    method: 'POST',
-                    headers: {
-                        'Authorization': `Bearer ${mollieApiKey}`,
-                        'Content-Type': 'application/json',
+                providerPayment = await provider.createPayment({
+                    amountCents: Math.round(serverPrice * 100),
+                    currency: 'EUR',
+                    description: `Bestelling ${order.id.slice(0, 8)}`,
+                    redirectUrl: `${origin}/checkout/success?token=${publicToken}`,
+                    webhookUrl: getPaymentWebhookUrl(provider.name, profileId),
+                    metadata: {
+                        order_id: order.id,
+                        org_id: event.org_id,
+                        event_id: event_id,
+                        ...(userId ? { user_id: userId } : {}),
                     },
-                    body: JSON.stringify(molliePayload),
+                    idempotencyKey: order.id,
                 })
-
-                mollieData = await mollieResponse.json()
-
-                if (!mollieResponse.ok) {
-                    logger.error('Mollie API error', mollieData)
-                    return errorResponse(
-                        'Payment provider error',
-                        'MOLLIE_ERROR',
-                        502,
-                        mollieData.detail || 'Mollie API returned an error'
-                    )
+            } catch (providerErr) {
+                logger.error('Payment provider call failed', providerErr)
+                if (providerErr instanceof PaymentProviderError && providerErr.code === 'PROVIDER_UNREACHABLE') {
+                    return errorResponse('Payment provider unreachable', 'PAYMENT_PROVIDER_UNREACHABLE', 502)
                 }
-            } catch (mollieErr) {
-                logger.error('Mollie API call failed', mollieErr)
-                return errorResponse('Payment provider unreachable', 'MOLLIE_UNREACHABLE', 502)
+                return errorResponse(
+                    'Payment provider error',
+                    'PAYMENT_PROVIDER_ERROR',
+                    502,
+                    providerErr instanceof Error ? providerErr.message : String(providerErr)
+                )
             }
 
-            logger.info('Mollie payment created', { mollieId: mollieData.id })
+            logger.info('Payment created', { provider: provider.name, paymentId: providerPayment.id })
 
             // Store payment record
             const { error: paymentInsertError } = await supabaseAdmin
@@ -415,16 +809,17 @@ serve(async (req: Request) => {
                 .insert({
                     org_id: event.org_id,
                     order_id: order.id,
-                    provider: 'mollie',
-                    provider_payment_id: mollieData.id,
-                    amount: Math.round(serverPrice * 100),  // Store in cents
-                    currency: 'EUR',
-                    status: mollieData.status || 'open',
+                    provider: provider.name,
+                    payment_profile_id: profileId,
+                    provider_payment_id: providerPayment.id,
+                    amount: providerPayment.amountCents,  // Store in cents
+                    currency: providerPayment.currency,
+                    status: providerPayment.status,
                 })
 
             if (paymentInsertError) {
                 logger.error('Failed to store payment record', paymentInsertError)
-                // Critical: payment created at Mollie but not in DB
+                // Critical: payment created at the provider but not in DB
                 // Return success anyway — webhook will reconcile
             }
 
@@ -438,7 +833,7 @@ serve(async (req: Request) => {
                         action: 'PAYMENT_CREATED',
                         entity_type: 'payment',
                         entity_id: order.id,
-                        after_state: { provider_payment_id: mollieData.id, status: mollieData.status },
+                        after_state: { provider: provider.name, provider_payment_id: providerPayment.id, status: providerPayment.status },
                         metadata: { order_id: order.id }
                     })
             } catch {
@@ -455,11 +850,11 @@ serve(async (req: Request) => {
                     created_at: order.created_at,
                 },
                 payment: {
-                    provider: 'mollie',
-                    payment_id: mollieData.id,
-                    test_mode: isTestMode,
+                    provider: provider.name,
+                    payment_id: providerPayment.id,
+                    test_mode: provider.testMode,
                 },
-                checkout_url: mollieData._links?.checkout?.href,
+                checkout_url: providerPayment.checkoutUrl,
                 public_token: publicToken
             }, 200)
         }
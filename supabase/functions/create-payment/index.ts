@@ -1,14 +1,14 @@
 /**
  * create-payment Edge Function
  *
- * Creates a Mollie payment for an order (simplified version).
+ * Creates a payment for an order at the event's payment provider (simplified version).
  * Similar to create-mollie-payment but with stricter ownership (user must own order).
  *
  * Flow:
  * 1. Authenticate user
  * 2. Validate order (exists, belongs to user, not paid, total > 0)
  * 3. Check for existing active payment (idempotency)
- * 4. Create Mollie payment
+ * 4. Create provider payment
  * 5. Store payment record
  * 6. Return checkout URL
  *
@@ -21,8 +21,13 @@ import { jsonResponse, errorResponse } from '../_shared/response.ts'
 import { authenticateUser } from '../_shared/auth.ts'
 import { getServiceClient } from '../_shared/supabase.ts'
 import { createLogger } from '../_shared/logger.ts'
-
-const MOLLIE_API_URL = "https://api.mollie.com/v2/payments"
+import {
+    getPaymentWebhookUrl,
+    PaymentProviderError,
+    resolveEventPaymentProvider,
+    resolvePaymentProfileProvider,
+} from '../_shared/payments.ts'
+import type { ProviderPayment, ResolvedPaymentProvider } from '../_shared/payments.ts'
 
 interface CreatePaymentRequest {
     order_id: string
@@ -93,7 +98,7 @@ serve(async (req: Request) => {
         // 4. CHECK EXISTING PAYMENT (Idempotency)
         const { data: existingPayment } = await supabaseAdmin
             .from('payments')
-            .select('id, provider_payment_id, status')
+            .select('id, provider, payment_profile_id, provider_payment_id, status')
             .eq('order_id', order_id)
             .in('status', ['open', 'pending'])
             .order('created_at', { ascending: false })
@@ -103,68 +108,64 @@ serve(async (req: Request) => {
         if (existingPayment) {
             logger.info('Existing payment found', existingPayment.provider_payment_id)
 
-            // Fetch from Mollie to get checkout URL
-            const mollieApiKey = Deno.env.get('MOLLIE_API_KEY')
-            if (!mollieApiKey) {
-                return errorResponse('Server misconfiguration', 'MISSING_MOLLIE_KEY', 500)
-            }
-
-            const mollieResponse = await fetch(`${MOLLIE_API_URL}/${existingPayment.provider_payment_id}`, {
-                headers: { 'Authorization': `Bearer ${mollieApiKey}` }
-            })
-
-            if (mollieResponse.ok) {
-                const mollieData = await mollieResponse.json()
-                return jsonResponse({
-                    checkout_url: mollieData._links?.checkout?.href,
-                    payment_id: existingPayment.provider_payment_id
-                }, 200)
+            // Fetch from the provider to get checkout URL
+            try {
+                const existingProvider = await resolvePaymentProfileProvider(
+                    supabaseAdmin,
+                    existingPayment.provider,
+                    existingPayment.payment_profile_id
+                )
+                const providerPayment = await existingProvider.getPayment(existingPayment.provider_payment_id)
+
+                if (providerPayment?.checkoutUrl) {
+                    return jsonResponse({
+                        checkout_url: providerPayment.checkoutUrl,
+                        payment_id: existingPayment.provider_payment_id
+                    }, 200)
+                }
+            } catch (providerErr) {
+                logger.warn('Could not fetch existing payment, creating a new one', providerErr)
             }
         }
 
-        // 5. CREATE MOLLIE PAYMENT
-        const mollieApiKey = Deno.env.get('MOLLIE_API_KEY')
-        if (!mollieApiKey) {
-            logger.error('Missing MOLLIE_API_KEY')
-            return errorResponse('Server misconfiguration', 'MISSING_MOLLIE_KEY', 500)
-        }
-
-        const amountString = order.total_amount.toFixed(2)
-        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-
-        const molliePayload = {
-            amount: {
-                currency: order.currency || 'EUR',
-                value: amountString,
-            },
-            description: `Order ${order.id}`,
-            redirectUrl: redirect_url || `${req.headers.get('origin')}/orders/${order.id}`,
-            webhookUrl: `${supabaseUrl}/functions/v1/mollie-webhook`,
-            metadata: {
-                order_id: order.id,
-                org_id: order.org_id
-            },
+        // 5. CREATE PAYMENT (provider of the event)
+        let resolved: ResolvedPaymentProvider
+        try {
+            resolved = await resolveEventPaymentProvider(supabaseAdmin, order.event_id)
+        } catch (providerErr) {
+            logger.error('Payment provider not configured', providerErr)
+            return errorResponse('Server misconfiguration', 'PAYMENT_PROVIDER_NOT_CONFIGURED', 500)
         }
 
-        logger.info('Creating Mollie payment', { amount: amountString })
-
-        const mollieResponse = await fetch(MOLLIE_API_URL, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${mollieApiKey}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(molliePayload),
-        })
+        const { provider, profileId } = resolved
+        const amountCents = Math.round(order.total_amount * 100)
 
-        const mollieData = await mollieResponse.json()
+        logger.info('Creating payment', { provider: provider.name, amountCents })
 
-        if (!mollieResponse.ok) {
-            logger.error('Mollie API error', mollieData)
-            return errorResponse('Payment provider error', 'MOLLIE_ERROR', 502, mollieData)
+        let providerPayment: ProviderPayment
+        try {
+            providerPayment = await provider.createPayment({
+                amountCents,
+                currency: order.currency || 'EUR',
+                description: `Order ${order.id}`,
+                redirectUrl: redirect_url || `${req.headers.get('origin')}/orders/${order.id}`,
+                webhookUrl: getPaymentWebhookUrl(provider.name, profileId),
+                metadata: {
+                    order_id: order.id,
+                    org_id: order.org_id
+                },
+            })
+        } catch (providerErr) {
+            logger.error('Payment provider error', providerErr)
+            return errorResponse(
+                'Payment provider error',
+                'PAYMENT_PROVIDER_ERROR',
+                502,
+                providerErr instanceof PaymentProviderError ? providerErr.details ?? providerErr.message : String(providerErr)
+            )
         }
 
-        logger.info('Mollie payment created', mollieData.id)
+        logger.info('Payment created', providerPayment.id)
 
         // 6. STORE PAYMENT
         const { error: insertError } = await supabaseAdmin
@@ -172,11 +173,12 @@ serve(async (req: Request) => {
             .insert({
                 org_id: order.org_id,
                 order_id: order.id,
-                provider: 'mollie',
-                provider_payment_id: mollieData.id,
-                amount: order.total_amount,
+                provider: provider.name,
+                payment_profile_id: profileId,
+                provider_payment_id: providerPayment.id,
+                amount: amountCents,
                 currency: order.currency || 'EUR',
-                status: mollieData.status,
+                status: providerPayment.status,
             })
 
         if (insertError) {
@@ -187,8 +189,8 @@ serve(async (req: Request) => {
         logger.info('Payment stored')
 
         return jsonResponse({
-            checkout_url: mollieData._links.checkout.href,
-            payment_id: mollieData.id
+            checkout_url: providerPayment.checkoutUrl,
+            payment_id: providerPayment.id
         }, 200)
 
     } catch (error: unknown) {
@@ -1,37 +1,49 @@
 /**
  * create-refund Edge Function
  *
- * Creates a refund for an order via Mollie Refunds API.
+ * Creates a refund for an order at the payment provider of the order's
+ * payment (Mollie, Stripe or fake, same payment profile).
  *
  * Features:
  * - Full or partial refunds
+ * - Ticket refunds: ticket_instance_ids → amount per ticket via
+ *   calculate_ticket_refund, one refund_items row per ticket; the webhook
+ *   voids exactly those tickets (void_tickets_for_refund)
+ * - Resale payouts: resale_listing_id → payout_cents of a sold listing back
+ *   onto the seller's payment (partial, no refund_items: the ticket now
+ *   belongs to the buyer and stays valid). Sent by process-outbox with the
+ *   service role key, or by an org admin as a retry
  * - Idempotency via idempotency_key
- * - Mollie API integration
+ * - Provider refunds via _shared/payments.ts; refunds that are refunded
+ *   immediately (fake provider) go through the webhook pipeline right away
  * - Audit logging
  *
  * Security:
- * - Only org admins/owners can create refunds
+ * - Only org admins/owners can create refunds (the service role only resale payouts)
  * - Validates refund amount doesn't exceed remaining
  * - Idempotent: same key returns same result
  *
  * @endpoint POST /functions/v1/create-refund
- * @auth Required (org admin/owner)
+ * @auth Required (org admin/owner, or service role for resale payouts)
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders, handleCors } from "../_shared/cors.ts";
 import { createLogger } from "../_shared/logger.ts";
-
-const MOLLIE_API_URL = "https://api.mollie.com/v2";
+import { PaymentProviderError, resolvePaymentProfileProvider } from "../_shared/payments.ts";
+import type { PaymentProvider, ProviderRefund } from "../_shared/payments.ts";
+import { processPaymentNotification } from "../_shared/payment-webhook.ts";
 
 interface CreateRefundRequest {
-  order_id: string;
+  order_id?: string;
+  resale_listing_id?: string; // Seller payout of a sold resale listing (instead of order_id)
   amount_cents?: number;
   items?: { order_item_id: string; quantity: number }[];
+  ticket_instance_ids?: string[];
   reason?: string;
   internal_note?: string;
-  idempotency_key: string;
+  idempotency_key?: string; // Not used for resale payouts (resale_payout:<listing_id>)
 }
 
 serve(async (req: Request) => {
@@ -54,15 +66,6 @@ serve(async (req: Request) => {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
-    const mollieApiKey = Deno.env.get("MOLLIE_API_KEY");
-
-    if (!mollieApiKey) {
-      logger.error("Missing MOLLIE_API_KEY");
-      return new Response(
-        JSON.stringify({ error: "MOLLIE_NOT_CONFIGURED" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
 
     // Service client for DB operations
     const supabase = createClient(supabaseUrl, supabaseServiceKey, {
@@ -78,24 +81,74 @@ serve(async (req: Request) => {
       );
     }
 
-    // Get user from token
-    const userClient = createClient(supabaseUrl, anonKey, {
-      global: { headers: { Authorization: authHeader } },
-    });
-    const { data: { user } } = await userClient.auth.getUser();
+    // Service role (process-outbox): resale payouts only
+    const serviceRoleKey = Deno.env.get("SERVICE_ROLE_KEY") ?? supabaseServiceKey;
+    const isServiceRole = authHeader === `Bearer ${serviceRoleKey}`;
+    let userId: string | null = null;
 
-    if (!user) {
-      return new Response(
-        JSON.stringify({ error: "UNAUTHORIZED", message: "Invalid token" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    if (!isServiceRole) {
+      // Get user from token
+      const userClient = createClient(supabaseUrl, anonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user } } = await userClient.auth.getUser();
 
-    logger.info("User authenticated", { userId: user.id });
+      if (!user) {
+        return new Response(
+          JSON.stringify({ error: "UNAUTHORIZED", message: "Invalid token" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      userId = user.id;
+      logger.info("User authenticated", { userId });
+    }
 
     // Parse request
     const body: CreateRefundRequest = await req.json();
-    const { order_id, amount_cents, reason, internal_note, idempotency_key } = body;
+    const { resale_listing_id, amount_cents, ticket_instance_ids, internal_note } = body;
+    let { order_id, reason, idempotency_key } = body;
+
+    // Resale payout: order, amount and key follow from the listing
+    let resaleListing: { id: string; seller_order_id: string; payout_cents: number } | null = null;
+
+    if (resale_listing_id) {
+      if (order_id || amount_cents !== undefined || ticket_instance_ids !== undefined) {
+        return new Response(
+          JSON.stringify({ error: "INVALID_PARAMS", message: "resale_listing_id cannot be combined with order_id, amount_cents or ticket_instance_ids" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: listing } = await supabase
+        .from("ticket_resale_listings")
+        .select("id, status, seller_order_id, payout_cents")
+        .eq("id", resale_listing_id)
+        .maybeSingle();
+
+      if (!listing) {
+        return new Response(
+          JSON.stringify({ error: "LISTING_NOT_FOUND" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (listing.status !== "sold") {
+        return new Response(
+          JSON.stringify({ error: "LISTING_NOT_SOLD", message: `Listing status is ${listing.status}` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      resaleListing = listing;
+      order_id = listing.seller_order_id;
+      idempotency_key = `resale_payout:${listing.id}`;
+      reason = reason || "Doorverkoop ticket";
+    } else if (isServiceRole) {
+      return new Response(
+        JSON.stringify({ error: "FORBIDDEN", message: "Service role can only create resale payouts" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
     if (!order_id || !idempotency_key) {
       return new Response(
@@ -104,6 +157,13 @@ serve(async (req: Request) => {
       );
     }
 
+    if (ticket_instance_ids !== undefined && amount_cents !== undefined) {
+      return new Response(
+        JSON.stringify({ error: "INVALID_PARAMS", message: "Use either amount_cents or ticket_instance_ids" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Check for existing refund with same idempotency key
     const { data: existingRefund } = await supabase
       .from("refunds")
@@ -113,6 +173,15 @@ serve(async (req: Request) => {
 
     if (existingRefund) {
       logger.info("Idempotent request - returning existing refund", { refundId: existingRefund.id });
+
+      if (resaleListing) {
+        await supabase
+          .from("ticket_resale_listings")
+          .update({ payout_refund_id: existingRefund.id })
+          .eq("id", resaleListing.id)
+          .is("payout_refund_id", null);
+      }
+
       return new Response(
         JSON.stringify({
           success: true,
@@ -134,7 +203,7 @@ serve(async (req: Request) => {
       .from("orders")
       .select(`
         id, org_id, status, total_amount, email,
-        payments!inner(id, provider_payment_id, status)
+        payments!inner(id, provider, payment_profile_id, provider_payment_id, status)
       `)
       .eq("id", order_id)
       .single();
@@ -148,18 +217,20 @@ serve(async (req: Request) => {
     }
 
     // Check user has permission (org admin/owner)
-    const { data: membership } = await supabase
-      .from("org_members")
-      .select("role")
-      .eq("org_id", order.org_id)
-      .eq("user_id", user.id)
-      .single();
-
-    if (!membership || !["owner", "admin"].includes(membership.role)) {
-      return new Response(
-        JSON.stringify({ error: "FORBIDDEN", message: "Must be org admin or owner" }),
-        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (!isServiceRole) {
+      const { data: membership } = await supabase
+        .from("org_members")
+        .select("role")
+        .eq("org_id", order.org_id)
+        .eq("user_id", userId)
+        .single();
+
+      if (!membership || !["owner", "admin"].includes(membership.role)) {
+        return new Response(
+          JSON.stringify({ error: "FORBIDDEN", message: "Must be org admin or owner" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
     }
 
     // Check order is paid
@@ -170,16 +241,29 @@ serve(async (req: Request) => {
       );
     }
 
-    const payment = Array.isArray(order.payments) ? order.payments[0] : order.payments;
-    const molliePaymentId = payment?.provider_payment_id;
+    const payments = Array.isArray(order.payments) ? order.payments : [order.payments];
+    const payment = payments.find((p) => p.status === "paid") ?? payments[0];
+    const providerPaymentId = payment?.provider_payment_id;
 
-    if (!molliePaymentId) {
+    if (!providerPaymentId) {
       return new Response(
-        JSON.stringify({ error: "NO_PAYMENT", message: "No Mollie payment found" }),
+        JSON.stringify({ error: "NO_PAYMENT", message: "No provider payment found" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    // Refund at the provider + profile of the payment
+    let provider: PaymentProvider;
+    try {
+      provider = await resolvePaymentProfileProvider(supabase, payment.provider, payment.payment_profile_id);
+    } catch (providerErr) {
+      logger.error("Payment provider not configured", providerErr);
+      return new Response(
+        JSON.stringify({ error: "PAYMENT_PROVIDER_NOT_CONFIGURED" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Calculate refundable amount
     const orderTotalCents = Math.round(order.total_amount * 100);
 
@@ -199,8 +283,49 @@ serve(async (req: Request) => {
     // Determine refund amount
     let refundAmountCents: number;
     let isFullRefund: boolean;
+    let ticketItems: { ticket_instance_id: string; order_item_id: string; amount_cents: number }[] = [];
+
+    if (resaleListing) {
+      // Resale payout: the ticket is not voided (it belongs to the buyer now)
+      refundAmountCents = Math.min(resaleListing.payout_cents, remainingRefundableCents);
+      if (refundAmountCents <= 0) {
+        return new Response(
+          JSON.stringify({ error: "ALREADY_REFUNDED", message: "Seller payment has no refundable amount left" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      isFullRefund = false;
+    } else if (ticket_instance_ids !== undefined) {
+      // Ticket refund: amount per ticket (net after discounts)
+      const { data: calculation, error: calcError } = await supabase.rpc("calculate_ticket_refund", {
+        _order_id: order_id,
+        _ticket_instance_ids: ticket_instance_ids,
+      });
 
-    if (amount_cents !== undefined) {
+      if (calcError) {
+        logger.error("Ticket refund calculation failed", calcError);
+        return new Response(
+          JSON.stringify({ error: "DB_ERROR", message: calcError.message }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (calculation?.error) {
+        return new Response(
+          JSON.stringify(calculation),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (calculation.amount_cents <= 0) {
+        return new Response(
+          JSON.stringify({ error: "INVALID_AMOUNT", message: "Selected tickets have no refundable amount" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      refundAmountCents = calculation.amount_cents;
+      isFullRefund = calculation.is_full_refund;
+      ticketItems = calculation.items;
+    } else if (amount_cents !== undefined) {
       // Partial refund
       if (amount_cents <= 0) {
         return new Response(
@@ -245,16 +370,18 @@ serve(async (req: Request) => {
         org_id: order.org_id,
         order_id: order_id,
         payment_id: payment.id,
-        mollie_payment_id: molliePaymentId,
+        mollie_payment_id: providerPaymentId,
         amount_cents: refundAmountCents,
         currency: "EUR",
         status: "pending",
         reason: reason || null,
         internal_note: internal_note || null,
-        description: `Refund for order ${order_id.substring(0, 8)}`,
+        description: resaleListing
+          ? `Resale payout for order ${order_id.substring(0, 8)}`
+          : `Refund for order ${order_id.substring(0, 8)}`,
         idempotency_key: idempotency_key,
         is_full_refund: isFullRefund,
-        created_by: user.id,
+        created_by: userId, // null = system (resale payout)
       })
       .select()
       .single();
@@ -267,86 +394,120 @@ serve(async (req: Request) => {
       );
     }
 
-    // Call Mollie Refunds API
-    const mollieAmount = (refundAmountCents / 100).toFixed(2);
-    let mollieRefund: any;
-
-    try {
-      const mollieResponse = await fetch(
-        `${MOLLIE_API_URL}/payments/${molliePaymentId}/refunds`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${mollieApiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            amount: {
-              currency: "EUR",
-              value: mollieAmount,
-            },
-            description: reason || `Refund for order ${order_id.substring(0, 8)}`,
-            metadata: {
-              refund_id: refund.id,
-              order_id: order_id,
-              org_id: order.org_id,
-            },
-          }),
-        }
-      );
-
-      if (!mollieResponse.ok) {
-        const errorData = await mollieResponse.json();
-        logger.error("Mollie API error", errorData);
+    // Link the payout to the listing (process-outbox stops retrying it)
+    if (resaleListing) {
+      await supabase
+        .from("ticket_resale_listings")
+        .update({ payout_refund_id: refund.id })
+        .eq("id", resaleListing.id);
+    }
 
-        // Update refund as failed
+    // Refund items per ticket (before the provider call, so the webhook always sees them)
+    if (ticketItems.length > 0) {
+      const { error: itemsError } = await supabase
+        .from("refund_items")
+        .insert(ticketItems.map((item) => ({
+          refund_id: refund.id,
+          order_item_id: item.order_item_id,
+          ticket_instance_id: item.ticket_instance_id,
+          quantity: 1,
+          amount_cents: item.amount_cents,
+        })));
+
+      if (itemsError) {
+        logger.error("Failed to create refund items", itemsError);
         await supabase
           .from("refunds")
           .update({ status: "failed" })
           .eq("id", refund.id);
 
+        return new Response(
+          JSON.stringify({ error: "DB_ERROR", message: itemsError.message }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // Call provider refund API
+    const refundAmount = (refundAmountCents / 100).toFixed(2);
+    let providerRefund: ProviderRefund;
+
+    try {
+      providerRefund = await provider.createRefund({
+        paymentId: providerPaymentId,
+        amountCents: refundAmountCents,
+        currency: "EUR",
+        description: reason || `Refund for order ${order_id.substring(0, 8)}`,
+        metadata: {
+          refund_id: refund.id,
+          order_id: order_id,
+          org_id: order.org_id,
+          ...(resaleListing ? { resale_listing_id: resaleListing.id } : {}),
+        },
+      });
+      logger.info("Provider refund created", { provider: provider.name, providerRefundId: providerRefund.id });
+    } catch (providerErr) {
+      if (providerErr instanceof PaymentProviderError && providerErr.code === "PROVIDER_UNREACHABLE") {
+        logger.error("Provider API call failed", providerErr);
+
+        // Keep refund as pending - can be retried or handled manually
         return new Response(
           JSON.stringify({
-            error: "MOLLIE_ERROR",
-            message: errorData.detail || "Mollie API error",
-            mollie_error: errorData,
+            error: "PAYMENT_PROVIDER_UNREACHABLE",
+            message: "Could not reach payment provider",
+            refund_id: refund.id,
           }),
           { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      mollieRefund = await mollieResponse.json();
-      logger.info("Mollie refund created", { mollieRefundId: mollieRefund.id });
-    } catch (mollieErr) {
-      logger.error("Mollie API call failed", mollieErr);
+      logger.error("Provider API error", providerErr);
+
+      // Update refund as failed
+      await supabase
+        .from("refunds")
+        .update({ status: "failed" })
+        .eq("id", refund.id);
 
-      // Keep refund as pending - can be retried or handled manually
       return new Response(
         JSON.stringify({
-          error: "MOLLIE_UNREACHABLE",
-          message: "Could not reach Mollie API",
-          refund_id: refund.id,
+          error: "PAYMENT_PROVIDER_ERROR",
+          message: providerErr instanceof Error ? providerErr.message : "Payment provider error",
+          provider_error: providerErr instanceof PaymentProviderError ? providerErr.details : undefined,
         }),
         { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Update refund with Mollie ID and initial status
-    const mollieStatus = mollieRefund.status || "pending";
+    // Update refund with provider ID and initial status
+    const refundStatus = providerRefund.status;
     await supabase
       .from("refunds")
       .update({
-        mollie_refund_id: mollieRefund.id,
-        status: mollieStatus === "refunded" ? "refunded" : mollieStatus === "queued" ? "queued" : "processing",
-        refunded_at: mollieStatus === "refunded" ? new Date().toISOString() : null,
+        mollie_refund_id: providerRefund.id,
+        status: refundStatus === "queued" ? "queued" : "processing",
       })
       .eq("id", refund.id);
 
+    // Already refunded (fake provider, some Stripe refunds): run the webhook
+    // pipeline now so tickets are voided and the email is queued
+    if (refundStatus === "refunded") {
+      const outcome = await processPaymentNotification(
+        { type: "refund", id: providerRefund.id },
+        provider,
+        supabase,
+        logger
+      );
+      if (outcome.httpStatus !== 200) {
+        logger.warn("Immediate refund processing failed, waiting for webhook", { refundId: refund.id });
+      }
+    }
+
     // Audit log
     try {
       await supabase.from("audit_log").insert({
         org_id: order.org_id,
-        user_id: user.id,
+        user_id: userId,
         action: "refund_created",
         resource_type: "refund",
         resource_id: refund.id,
@@ -356,7 +517,10 @@ serve(async (req: Request) => {
           order_id: order_id,
           amount_cents: refundAmountCents,
           is_full_refund: isFullRefund,
-          mollie_refund_id: mollieRefund.id,
+          ticket_instance_ids: ticketItems.map((item) => item.ticket_instance_id),
+          resale_listing_id: resaleListing?.id,
+          provider: provider.name,
+          mollie_refund_id: providerRefund.id,
           reason: reason,
         },
       });
@@ -366,8 +530,8 @@ serve(async (req: Request) => {
 
     logger.info("Refund created successfully", {
       refundId: refund.id,
-      mollieRefundId: mollieRefund.id,
-      status: mollieStatus,
+      providerRefundId: providerRefund.id,
+      status: refundStatus,
     });
 
     return new Response(
@@ -375,14 +539,15 @@ serve(async (req: Request) => {
         success: true,
         refund: {
           id: refund.id,
-          status: mollieStatus,
+          status: refundStatus,
           amount_cents: refundAmountCents,
-          mollie_refund_id: mollieRefund.id,
+          mollie_refund_id: providerRefund.id,
           is_full_refund: isFullRefund,
+          items: ticketItems,
         },
         message: isFullRefund
           ? "Full refund initiated"
-          : `Partial refund of €${mollieAmount} initiated`,
+          : `Partial refund of €${refundAmount} initiated`,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
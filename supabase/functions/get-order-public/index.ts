@@ -7,16 +7,21 @@
  * 1. Hash incoming token
  * 2. Lookup order by public_token_hash
  * 3. Return safe public data (no org internals)
- * 4. Include ticket instances if issued
+ * 4. Include ticket instances if issued (only the tickets this order still
+ *    holds: not transferred or resold; a resale order holds the bought ticket)
+ *
+ * With format: 'pdf' the order's ticket PDF is returned instead (refused
+ * before ticket_pdf.available_from).
  *
  * Security: Only returns minimal safe data, token must match hash
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { handleCors } from '../_shared/cors.ts'
+import { handleCors, corsHeaders } from '../_shared/cors.ts'
 import { jsonResponse, errorResponse } from '../_shared/response.ts'
 import { getServiceClient } from '../_shared/supabase.ts'
 import { createLogger } from '../_shared/logger.ts'
+import { loadTicketPdfData, renderTicketPdf, getTicketPdfFilename } from '../_shared/ticket-pdf.ts'
 
 /**
  * Hash token using SHA-256
@@ -42,7 +47,7 @@ serve(async (req: Request) => {
         // ===========================================================
         // 1. PARSE INPUT
         // ===========================================================
-        let body: { public_token?: string }
+        let body: { public_token?: string; format?: 'json' | 'pdf' }
 
         try {
             body = await req.json()
@@ -50,7 +55,7 @@ serve(async (req: Request) => {
             return errorResponse('Invalid JSON', 'INVALID_JSON', 400)
         }
 
-        const { public_token } = body
+        const { public_token, format = 'json' } = body
 
         if (!public_token) {
             return errorResponse('Missing public_token', 'MISSING_TOKEN', 400)
@@ -82,6 +87,7 @@ serve(async (req: Request) => {
         total_amount,
         currency,
         created_at,
+        resale_listing_id,
         events!inner(
           id,
           slug,
@@ -105,6 +111,62 @@ serve(async (req: Request) => {
 
         logger.info('Found order', { orderId: order.id })
 
+        // Resale order (F035): no order_items, the bought ticket comes from the listing
+        let resaleTicketId: string | null = null
+
+        if (order.resale_listing_id) {
+            const { data: listing } = await supabaseAdmin
+                .from('ticket_resale_listings')
+                .select('ticket_instance_id, status, buyer_order_id')
+                .eq('id', order.resale_listing_id)
+                .maybeSingle()
+
+            if (listing?.status === 'sold' && listing.buyer_order_id === order.id) {
+                resaleTicketId = listing.ticket_instance_id
+            }
+        }
+
+        // ===========================================================
+        // 4b. TICKET PDF (format: 'pdf')
+        // ===========================================================
+        if (format === 'pdf') {
+            if (order.status !== 'paid') {
+                return errorResponse('Order is not paid', 'ORDER_NOT_PAID', 409)
+            }
+
+            const { data: pdfData, banner, error: pdfError } = await loadTicketPdfData(
+                supabaseAdmin,
+                resaleTicketId ? { ticketInstanceId: resaleTicketId } : { orderId: order.id }
+            )
+            if (pdfError || !pdfData) {
+                logger.error('PDF data not found', pdfError)
+                return errorResponse('Order not found', 'ORDER_NOT_FOUND', 404)
+            }
+            if (!pdfData.tickets_available) {
+                return errorResponse(
+                    'Tickets are not available yet',
+                    'TICKETS_NOT_AVAILABLE',
+                    403,
+                    { available_from: pdfData.available_from }
+                )
+            }
+            if (pdfData.tickets.length === 0) {
+                return errorResponse('No tickets in this order', 'NO_TICKETS', 404)
+            }
+
+            const pdf = await renderTicketPdf(pdfData, banner)
+            logger.info('Ticket PDF generated', { orderId: order.id, tickets: pdfData.tickets.length })
+
+            return new Response(pdf, {
+                status: 200,
+                headers: {
+                    ...corsHeaders,
+                    'Content-Type': 'application/pdf',
+                    'Content-Disposition': `attachment; filename="${getTicketPdfFilename(pdfData)}"`
+                }
+            })
+        }
+
         // ===========================================================
         // 5. FETCH ORDER ITEMS
         // ===========================================================
@@ -132,8 +194,9 @@ serve(async (req: Request) => {
         // ===========================================================
         let ticketInstances = null
 
-        if (order.status === 'paid') {
-            const { data: tickets, error: ticketsError } = await supabaseAdmin
+        // A resale order whose listing was not completed has no ticket
+        if (order.status === 'paid' && (!order.resale_listing_id || resaleTicketId)) {
+            const ticketsQuery = supabaseAdmin
                 .from('ticket_instances')
                 .select(`
           id,
@@ -144,10 +207,21 @@ serve(async (req: Request) => {
             name
           )
         `)
-                .eq('order_id', order.id)
+
+            const { data: tickets, error: ticketsError } = resaleTicketId
+                ? await ticketsQuery.eq('id', resaleTicketId)
+                : await ticketsQuery.eq('order_id', order.id)
 
             if (!ticketsError && tickets) {
-                ticketInstances = tickets.map(t => ({
+                // Transferred or resold tickets belong to someone else now (new QR code)
+                const held = []
+                for (const t of tickets) {
+                    const { data: holderOrderId } = await supabaseAdmin
+                        .rpc('resale_holder_order_id', { _ticket_instance_id: t.id })
+                    if (holderOrderId === order.id) held.push(t)
+                }
+
+                ticketInstances = held.map(t => ({
                     id: t.id,
                     qr_code: t.qr_code,
                     status: t.status,
@@ -179,13 +253,21 @@ serve(async (req: Request) => {
                 start_time: order.events.start_time,
                 location_name: order.events.location_name,
             },
-            items: orderItems?.map(item => ({
-                ticket_name: item.ticket_types.name,
-                ticket_description: item.ticket_types.description,
-                quantity: item.quantity,
-                unit_price: item.unit_price,
-                total_price: item.total_price,
-            })) || [],
+            items: order.resale_listing_id
+                ? [{
+                    ticket_name: ticketInstances?.[0]?.ticket_name ?? 'Doorverkocht ticket',
+                    ticket_description: null,
+                    quantity: 1,
+                    unit_price: order.total_amount,
+                    total_price: order.total_amount,
+                }]
+                : orderItems?.map(item => ({
+                    ticket_name: item.ticket_types.name,
+                    ticket_description: item.ticket_types.description,
+                    quantity: item.quantity,
+                    unit_price: item.unit_price,
+                    total_price: item.total_price,
+                })) || [],
             tickets: ticketInstances?.map(t => ({
                 ...t,
                 // Mask QR code if tickets are not yet available
@@ -6,12 +6,23 @@
  *
  * Flow:
  * 1. Authenticate user
- * 2. Validate ticket ownership
- * 3. Validate ticket can be transferred (status = valid)
- * 4. Create transfer record
- * 5. Send email notification to recipient (TODO)
+ * 2. Create the transfer via create_ticket_transfer (see F034):
+ *    ownership, ticket status (issued), transfers_enabled setting,
+ *    expiry from transfer_expiry_hours
+ * 3. Email the recipient a claim link (/transfer/:id/:token) via queue_email;
+ *    recipients without an account sign up on the claim page
  *
- * Security: Only ticket owner can initiate transfer
+ * Reminders before expiry and the sender notifications (accepted, rejected,
+ * expired) are handled by process-outbox and a trigger on ticket_transfers.
+ *
+ * Environment:
+ * - SITE_ORIGINS: comma separated origins allowed in the claim link
+ *   (e.g. "https://app.coloss.nl,https://tickets.example.com"). The request
+ *   Origin is used when it is on the list, otherwise the first entry.
+ *
+ * Security: Only ticket owner can initiate transfer. The claim link origin
+ * never comes from the caller unless it is allowlisted, so the platform
+ * cannot be made to mail links to another host.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
@@ -22,10 +33,40 @@ import { getServiceClient } from '../_shared/supabase.ts'
 import { createLogger } from '../_shared/logger.ts'
 
 interface InitiateTransferRequest {
+    /** ticket_instances.id */
     ticket_id: string
     to_email: string
 }
 
+// create_ticket_transfer error → HTTP status
+const ERROR_STATUS: Record<string, number> = {
+    INVALID_EMAIL: 400,
+    SELF_TRANSFER: 400,
+    INVALID_TICKET_STATUS: 400,
+    TICKET_NOT_FOUND: 404,
+    FORBIDDEN: 403,
+    TRANSFERS_DISABLED: 403,
+    TRANSFER_PENDING: 409,
+    NO_PARTICIPANT: 409,
+}
+
+/**
+ * Origin for the claim link: the request Origin if it is in SITE_ORIGINS,
+ * otherwise the first configured origin (null when none is configured)
+ */
+function resolveSiteOrigin(req: Request): string | null {
+    const allowed = (Deno.env.get('SITE_ORIGINS') ?? '')
+        .split(',')
+        .map(origin => origin.trim().replace(/\/+$/, ''))
+        .filter(Boolean)
+
+    const requestOrigin = req.headers.get('origin')
+    if (requestOrigin && allowed.includes(requestOrigin)) {
+        return requestOrigin
+    }
+    return allowed[0] ?? null
+}
+
 serve(async (req: Request) => {
     // Handle CORS preflight
     const corsResponse = handleCors(req)
@@ -57,93 +98,38 @@ serve(async (req: Request) => {
             return errorResponse('Missing ticket_id or to_email', 'MISSING_FIELDS', 400)
         }
 
-        // 3. VALIDATE TICKET OWNERSHIP
+        // 3. CREATE TRANSFER + QUEUE CLAIM EMAIL
         const supabaseAdmin = getServiceClient()
-
-        const { data: ticket, error: ticketError } = await supabaseAdmin
-            .from('tickets')
-            .select(`
-                id,
-                barcode,
-                status,
-                ticket_type_id,
-                registration_id,
-                registrations!inner(
-                    participant_id,
-                    participants!inner(
-                        user_id,
-                        email
-                    )
-                )
-            `)
-            .eq('id', ticket_id)
-            .single()
-
-        if (ticketError || !ticket) {
-            logger.error('Ticket not found', ticketError)
-            return errorResponse('Ticket not found', 'TICKET_NOT_FOUND', 404)
+        const siteOrigin = resolveSiteOrigin(req)
+        if (!siteOrigin) {
+            logger.warn('SITE_ORIGINS not configured, claim link has no origin')
         }
 
-        // Check ownership
-        const ownerUserId = (ticket.registrations as any).participants.user_id
-        if (ownerUserId !== user!.id) {
-            logger.warn('User does not own ticket', { userId: user!.id, ownerId: ownerUserId })
-            return errorResponse('You do not own this ticket', 'FORBIDDEN', 403)
-        }
-
-        // Check if ticket can be transferred
-        if (ticket.status !== 'valid') {
-            return errorResponse(
-                'Only valid tickets can be transferred',
-                'INVALID_TICKET_STATUS',
-                400
-            )
-        }
-
-        logger.info('Ticket validated', { ticketId: ticket.id, status: ticket.status })
-
-        // 4. GET EVENT AND ORG INFO
-        const { data: ticketType } = await supabaseAdmin
-            .from('ticket_types')
-            .select('event_id, events!inner(org_id)')
-            .eq('id', ticket.ticket_type_id)
-            .single()
-
-        if (!ticketType) {
-            logger.error('Ticket type not found')
-            return errorResponse('Ticket type not found', 'TICKET_TYPE_NOT_FOUND', 404)
-        }
-
-        const eventId = ticketType.event_id
-        const orgId = (ticketType.events as any).org_id
-
-        // 5. CREATE TRANSFER RECORD
-        const { data: transfer, error: transferError } = await supabaseAdmin
-            .from('ticket_transfers')
-            .insert({
-                org_id: orgId,
-                event_id: eventId,
-                ticket_id: ticket_id,
-                from_user_id: user!.id,
-                to_email: to_email.toLowerCase().trim(),
-                status: 'pending',
-                initiated_by_user_id: user!.id
+        const { data: result, error: rpcError } = await supabaseAdmin
+            .rpc('create_ticket_transfer', {
+                _ticket_instance_id: ticket_id,
+                _user_id: user!.id,
+                _to_email: to_email,
+                _site_origin: siteOrigin
             })
-            .select()
-            .single()
 
-        if (transferError) {
-            logger.error('Transfer creation failed', transferError)
-            return errorResponse(transferError.message, 'TRANSFER_CREATION_FAILED', 500)
+        if (rpcError) {
+            logger.error('Transfer creation failed', rpcError)
+            return errorResponse(rpcError.message, 'TRANSFER_CREATION_FAILED', 500)
         }
 
-        logger.info('Transfer created', transfer.id)
+        if (result?.error) {
+            logger.warn('Transfer rejected', { ticketId: ticket_id, error: result.error })
+            return errorResponse(result.error, result.error, ERROR_STATUS[result.error] ?? 400)
+        }
 
-        // TODO: Send email notification to recipient
+        logger.info('Transfer created', { transferId: result.transfer_id, emailQueued: result.email_queued })
 
         return jsonResponse({
             success: true,
-            transfer_id: transfer.id,
+            transfer_id: result.transfer_id,
+            expires_at: result.expires_at,
+            email_queued: result.email_queued,
             message: `Transfer request sent to ${to_email}`
         }, 200)
 
@@ -0,0 +1,68 @@
+/**
+ * payment-webhook Edge Function
+ *
+ * Processes payment AND refund webhooks of every payment provider.
+ * The webhook URL selects the provider and payment profile:
+ *   /functions/v1/payment-webhook?provider=stripe&profile=<payment_profile_id>
+ * (set as webhookUrl per Mollie payment, configured in the Stripe dashboard)
+ *
+ * Processing is shared with mollie-webhook (_shared/payment-webhook.ts):
+ * re-fetch from the provider, idempotency via payment_events, then the
+ * handle_payment_webhook / handle_refund_webhook RPC.
+ *
+ * Flow:
+ * 1. Resolve provider from query (profile → secret_name)
+ * 2. Parse + verify webhook (Stripe-Signature for Stripe)
+ * 3. Process notification
+ * 4. Return 200 OK (502/500 make the provider retry)
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { getServiceClient } from '../_shared/supabase.ts'
+import { createLogger } from '../_shared/logger.ts'
+import { resolvePaymentProfileProvider } from '../_shared/payments.ts'
+import type { PaymentProvider, PaymentProviderName } from '../_shared/payments.ts'
+import { handlePaymentWebhook } from '../_shared/payment-webhook.ts'
+
+const PROVIDERS: PaymentProviderName[] = ['mollie', 'stripe', 'fake']
+
+serve(async (req: Request) => {
+    const logger = createLogger('payment-webhook')
+    logger.info('Webhook invoked', { method: req.method })
+
+    try {
+        // 1. RESOLVE PROVIDER
+        const url = new URL(req.url)
+        const providerName = url.searchParams.get('provider') as PaymentProviderName | null
+        const profileId = url.searchParams.get('profile')
+
+        if (!providerName || !PROVIDERS.includes(providerName)) {
+            logger.warn('Unknown provider in webhook URL', { provider: providerName })
+            // Return 200 (no info leakage)
+            return new Response('OK', { status: 200 })
+        }
+
+        const supabaseAdmin = getServiceClient()
+
+        let provider: PaymentProvider
+        try {
+            provider = await resolvePaymentProfileProvider(supabaseAdmin, providerName, profileId)
+        } catch (configError) {
+            logger.error('Payment provider not configured', {
+                provider: providerName,
+                profileId,
+                error: configError instanceof Error ? configError.message : String(configError)
+            })
+            // Return 500 so the provider retries when we fix config
+            return new Response('Server Configuration Error', { status: 500 })
+        }
+
+        // 2-3. PARSE + PROCESS
+        return await handlePaymentWebhook(req, provider, supabaseAdmin, logger)
+
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        logger.error('Unexpected error in webhook', { error: message })
+        return new Response('Internal Server Error', { status: 500 })
+    }
+})
@@ -0,0 +1,157 @@
+/**
+ * process-fundraising Edge Function
+ *
+ * Cron job that creates fundraising action pages at the external partner.
+ * Runs every minute, claims pending fundraising_participations and creates
+ * a page per participation via the configured provider (see
+ * _shared/fundraising.ts; FUNDRAISING_PROVIDER=mock for local testing).
+ *
+ * Features:
+ * - Batch processing (25 participations per run)
+ * - Claiming via claim_fundraising_jobs (SKIP LOCKED, safe to run concurrently)
+ * - Exponential backoff via fail_fundraising_page, failed after MAX_ATTEMPTS
+ * - Participant gets an email with the page link (complete_fundraising_page)
+ *
+ * Runs fully decoupled from checkout: a partner outage never blocks orders
+ * or fulfillment, the participation just stays pending.
+ *
+ * Security: System-only (cron), no external input
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { getServiceClient } from '../_shared/supabase.ts'
+import { createLogger } from '../_shared/logger.ts'
+import { getFundraisingProvider, FundraisingProviderError } from '../_shared/fundraising.ts'
+
+const BATCH_SIZE = 25
+const MAX_ATTEMPTS = 5
+
+interface ProcessFundraisingResult {
+    processed_count: number
+    created_count: number
+    failed_count: number
+}
+
+interface FundraisingJob {
+    participation_id: string
+    attempt_count: number
+    charity_external_id: string
+    charity_name: string
+    event_name: string
+    participant_email: string
+    participant_first_name: string | null
+    participant_last_name: string | null
+    site_origin: string | null
+}
+
+serve(async (_req: Request) => {
+    const logger = createLogger('process-fundraising')
+    logger.info('Cron job started')
+
+    const result: ProcessFundraisingResult = {
+        processed_count: 0,
+        created_count: 0,
+        failed_count: 0
+    }
+
+    try {
+        // 1. SETUP
+        const supabaseAdmin = getServiceClient()
+        const provider = getFundraisingProvider()
+
+        // 2. CLAIM DUE PARTICIPATIONS (status → processing)
+        const { data: claimResult, error: claimError } = await supabaseAdmin
+            .rpc('claim_fundraising_jobs', { _limit: BATCH_SIZE })
+
+        if (claimError || claimResult?.error) {
+            logger.error('Failed to claim fundraising jobs', claimError || claimResult?.error)
+            return new Response(JSON.stringify({ error: 'Database error' }), {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' }
+            })
+        }
+
+        const jobs = (claimResult?.jobs ?? []) as FundraisingJob[]
+
+        if (jobs.length === 0) {
+            logger.info('No fundraising pages to create')
+            return new Response(JSON.stringify(result), {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' }
+            })
+        }
+
+        logger.info(`Claimed ${jobs.length} participations`, { provider: provider.name })
+
+        // 3. CREATE PAGE PER PARTICIPATION
+        for (const job of jobs) {
+            result.processed_count++
+
+            try {
+                const page = await provider.createPage({
+                    participationId: job.participation_id,
+                    charityExternalId: job.charity_external_id,
+                    charityName: job.charity_name,
+                    eventName: job.event_name,
+                    firstName: job.participant_first_name,
+                    lastName: job.participant_last_name,
+                    email: job.participant_email,
+                    returnUrl: job.site_origin
+                })
+
+                // 3a. SUCCESS: activate + email link
+                const { data: completeResult, error: completeError } = await supabaseAdmin
+                    .rpc('complete_fundraising_page', {
+                        _participation_id: job.participation_id,
+                        _provider: provider.name,
+                        _external_page_id: page.externalPageId,
+                        _external_page_url: page.externalPageUrl
+                    })
+
+                if (completeError || completeResult?.error) {
+                    throw new Error(completeError?.message || completeResult.error)
+                }
+
+                logger.info('Fundraising page created', {
+                    participationId: job.participation_id,
+                    externalPageId: page.externalPageId
+                })
+                result.created_count++
+
+            } catch (jobError: unknown) {
+                // 3b. FAILURE: schedule retry (or fail permanently)
+                const message = jobError instanceof Error ? jobError.message : String(jobError)
+                const retryable = !(jobError instanceof FundraisingProviderError) || jobError.retryable
+
+                const { data: failResult } = await supabaseAdmin
+                    .rpc('fail_fundraising_page', {
+                        _participation_id: job.participation_id,
+                        _error: message,
+                        _max_attempts: retryable ? MAX_ATTEMPTS : job.attempt_count
+                    })
+
+                logger.warn('Fundraising page creation failed', {
+                    participationId: job.participation_id,
+                    attempt: job.attempt_count,
+                    status: failResult?.participation_status,
+                    error: message
+                })
+                result.failed_count++
+            }
+        }
+
+        logger.info('Cron job completed', result)
+        return new Response(JSON.stringify(result), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        })
+
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        logger.error('Cron job failed', message)
+        return new Response(JSON.stringify({ error: message }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        })
+    }
+})
@@ -1,25 +1,49 @@
 /**
  * process-outbox Edge Function
  *
- * Cron job that processes the email outbox queue.
- * Runs every minute, picks up queued/soft_bounced emails and sends them via Resend.
+ * Cron job that processes the outbox queues.
+ * Runs every minute:
+ * 1. dispatch_message_batches: due campaigns (bulk-email) → outbox messages,
+ *    including relative triggers (event start, check-in) and progress
+ * 2. email_outbox: claimed via claim_outbox_emails (per-org rate limits,
+ *    campaign send windows, paused campaigns), sent via the email adapter
+ * 3. notification_outbox: SMS and push, claimed via claim_notifications
+ * 4. process_transfer_notifications: reminders for pending ticket transfers
+ *    and expiry (the emails go through email_outbox on the next run)
+ * 5. Resale payouts: sold ticket_resale_listings without payout refund →
+ *    create-refund (service role) on the seller's payment (see F035)
+ * Channel adapters live in _shared/channels.ts (local adapter for testing).
  *
  * Features:
- * - Batch processing (100 emails per run)
+ * - Batch processing (max 100 emails per run, throttled per org)
  * - Exponential backoff for retries
  * - Status tracking via email_outbox_events
- * - Exactly-once delivery via status locking
+ * - Exactly-once delivery via claim_outbox_emails (SKIP LOCKED)
+ * - Attachments rendered at send time (ticket PDF, see F026)
+ * - Click tracking: links in campaign emails go via track-link (see F033)
  *
  * Security: System-only (cron), no external input
- * Environment: RESEND_API_KEY required
+ * Environment: RESEND_API_KEY (EMAIL_ADAPTER=resend), see _shared/channels.ts
+ * for the SMS and push adapters
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { getServiceClient } from '../_shared/supabase.ts'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { createLogger } from '../_shared/logger.ts'
+import type { Logger } from '../_shared/logger.ts'
+import { buildTicketPdfAttachment } from '../_shared/ticket-pdf.ts'
+import { getChannelAdapter, ChannelAdapterError } from '../_shared/channels.ts'
+import {
+    buildTrackedLinkUrl,
+    extractTrackableLinks,
+    rewriteTrackedLinks,
+    signTrackedLink
+} from '../_shared/email.ts'
+import type { ChannelAdapter, NotificationChannel, PushSubscriptionKeys } from '../_shared/channels.ts'
 
-const RESEND_API_URL = "https://api.resend.com/emails"
 const BATCH_SIZE = 100
+const RESALE_PAYOUT_BATCH_SIZE = 10
 
 // Retry configuration
 const INITIAL_DELAY_MS = 60000      // 1 minute
@@ -31,6 +55,15 @@ interface ProcessOutboxResult {
     sent_count: number
     failed_count: number
     skipped_count: number
+    /** Marketing emails held back by throttling / send windows */
+    deferred_count: number
+    batches_dispatched: number
+    transfer_reminders: number
+    transfers_expired: number
+    resale_payouts: number
+    resale_payouts_failed: number
+    notifications_sent: number
+    notifications_failed: number
 }
 
 interface EmailRecord {
@@ -45,6 +78,21 @@ interface EmailRecord {
     text_body: string | null
     attempt_count: number
     max_attempts: number
+    batch_id: string | null
+    attachments: Array<{ type: string; order_id?: string }>
+}
+
+interface NotificationJob {
+    id: string
+    org_id: string
+    channel: Exclude<NotificationChannel, 'email'>
+    attempt_count: number
+    to_phone: string | null
+    to_user_id: string | null
+    title: string | null
+    body: string
+    url: string | null
+    subscriptions: PushSubscriptionKeys[] | null
 }
 
 serve(async (_req: Request) => {
@@ -55,105 +103,173 @@ serve(async (_req: Request) => {
         processed_count: 0,
         sent_count: 0,
         failed_count: 0,
-        skipped_count: 0
+        skipped_count: 0,
+        deferred_count: 0,
+        batches_dispatched: 0,
+        transfer_reminders: 0,
+        transfers_expired: 0,
+        resale_payouts: 0,
+        resale_payouts_failed: 0,
+        notifications_sent: 0,
+        notifications_failed: 0
     }
 
     try {
         // 1. SETUP
         const supabaseAdmin = getServiceClient()
-        const resendApiKey = Deno.env.get('RESEND_API_KEY')
 
-        if (!resendApiKey) {
-            logger.error('Missing RESEND_API_KEY')
-            return new Response(JSON.stringify({ error: 'Missing RESEND_API_KEY' }), {
+        let emailAdapter: ChannelAdapter
+        try {
+            emailAdapter = getChannelAdapter('email', supabaseAdmin)
+        } catch (configError) {
+            const message = configError instanceof Error ? configError.message : String(configError)
+            logger.error('Email adapter not configured', message)
+            return new Response(JSON.stringify({ error: message }), {
                 status: 500,
                 headers: { 'Content-Type': 'application/json' }
             })
         }
 
-        // 2. FETCH PENDING EMAILS
-        // SELECT emails WHERE status IN ('queued', 'soft_bounced') AND next_attempt_at <= now()
-        const { data: emails, error: fetchError } = await supabaseAdmin
-            .from('email_outbox')
-            .select('id, org_id, from_name, from_email, reply_to, to_email, subject, html_body, text_body, attempt_count, max_attempts')
-            .in('status', ['queued', 'soft_bounced'])
-            .or('next_attempt_at.is.null,next_attempt_at.lte.now()')
-            .order('created_at', { ascending: true })
-            .limit(BATCH_SIZE)
-
-        if (fetchError) {
-            logger.error('Failed to fetch emails', fetchError)
+        // 1b. DISPATCH DUE CAMPAIGNS (batch items → email/notification outbox)
+        const { data: dispatchResult, error: dispatchError } = await supabaseAdmin
+            .rpc('dispatch_message_batches')
+
+        if (dispatchError) {
+            // Campagnes blokkeren de transactionele emails niet
+            logger.error('Failed to dispatch message batches', dispatchError)
+        } else if (dispatchResult?.batches > 0) {
+            result.batches_dispatched = dispatchResult.batches
+            logger.info('Message batches dispatched', dispatchResult)
+        }
+
+        // 1c. TICKET TRANSFERS: reminder before expiry, expire overdue (see F034)
+        const { data: transferResult, error: transferError } = await supabaseAdmin
+            .rpc('process_transfer_notifications')
+
+        if (transferError) {
+            logger.error('Failed to process transfer notifications', transferError)
+        } else if (transferResult?.reminders > 0 || transferResult?.expired > 0) {
+            result.transfer_reminders = transferResult.reminders
+            result.transfers_expired = transferResult.expired
+            logger.info('Transfer notifications processed', transferResult)
+        }
+
+        // 1d. RESALE PAYOUTS: refund the seller of a sold ticket (see F035)
+        // create-refund links payout_refund_id, so a listing is paid out once;
+        // rejected payouts (payout_failed_at) wait for the organizer
+        const { data: soldListings, error: soldError } = await supabaseAdmin
+            .from('ticket_resale_listings')
+            .select('id')
+            .eq('status', 'sold')
+            .is('payout_refund_id', null)
+            .is('payout_failed_at', null)
+            .order('sold_at', { ascending: true })
+            .limit(RESALE_PAYOUT_BATCH_SIZE)
+
+        if (soldError) {
+            logger.error('Failed to fetch resale payouts', soldError)
+        }
+
+        for (const listing of soldListings ?? []) {
+            try {
+                const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/create-refund`, {
+                    method: 'POST',
+                    headers: {
+                        'Authorization': `Bearer ${Deno.env.get('SERVICE_ROLE_KEY') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({ resale_listing_id: listing.id })
+                })
+
+                if (response.ok) {
+                    result.resale_payouts++
+                } else if (response.status === 400 || response.status === 404) {
+                    // Rejected (ALREADY_REFUNDED, ORDER_NOT_PAID, ...): retrying gives the same answer
+                    const body = await response.json().catch(() => null)
+                    const { error: markError } = await supabaseAdmin.rpc('mark_resale_payout_failed', {
+                        _listing_id: listing.id,
+                        _error: body?.error ?? `HTTP_${response.status}`
+                    })
+                    if (markError) {
+                        logger.error('Failed to mark resale payout as failed', { listingId: listing.id, error: markError })
+                    }
+                    result.resale_payouts_failed++
+                    logger.error('Resale payout rejected, needs organizer action', { listingId: listing.id, body })
+                } else {
+                    logger.warn('Resale payout failed, retrying next run', { listingId: listing.id, body: await response.text() })
+                }
+            } catch (payoutError: unknown) {
+                const message = payoutError instanceof Error ? payoutError.message : String(payoutError)
+                logger.warn('Resale payout call failed, retrying next run', { listingId: listing.id, error: message })
+            }
+        }
+
+        // 2. CLAIM PENDING EMAILS (status → processing)
+        // Per org throttled on communication.rate_limits; marketing emails of
+        // paused campaigns or outside the send window stay queued
+        const { data: claimResult, error: claimError } = await supabaseAdmin
+            .rpc('claim_outbox_emails', { _limit: BATCH_SIZE })
+
+        if (claimError || claimResult?.error) {
+            logger.error('Failed to claim emails', claimError || claimResult?.error)
             return new Response(JSON.stringify({ error: 'Database error' }), {
                 status: 500,
                 headers: { 'Content-Type': 'application/json' }
             })
         }
 
-        if (!emails || emails.length === 0) {
-            logger.info('No emails to process')
-            return new Response(JSON.stringify(result), {
-                status: 200,
-                headers: { 'Content-Type': 'application/json' }
-            })
-        }
+        const emails = (claimResult?.jobs ?? []) as EmailRecord[]
+        result.deferred_count = claimResult?.deferred ?? 0
 
-        logger.info(`Found ${emails.length} emails to process`)
+        if (emails.length === 0) {
+            logger.info('No emails to process', { deferred: result.deferred_count })
+        } else {
+            logger.info(`Claimed ${emails.length} emails to process`, { adapter: emailAdapter.name, deferred: result.deferred_count })
+        }
 
         // 3. PROCESS EACH EMAIL
-        for (const email of emails as EmailRecord[]) {
+        // Tracked links per campaign (url → link_id), shared within this run
+        const trackedLinks = new Map<string, Record<string, string>>()
+
+        for (const email of emails) {
             result.processed_count++
 
             try {
-                // 3a. Lock the email by setting status to 'processing'
-                const { error: lockError } = await supabaseAdmin
-                    .from('email_outbox')
-                    .update({
-                        status: 'processing',
-                        last_attempt_at: new Date().toISOString()
-                    })
-                    .eq('id', email.id)
-                    .in('status', ['queued', 'soft_bounced']) // Ensure we only lock if still pending
-
-                if (lockError) {
-                    logger.warn(`Failed to lock email ${email.id}`, lockError)
-                    result.skipped_count++
-                    continue
-                }
-
-                // 3b. Send via Resend API
-                const resendPayload: Record<string, unknown> = {
-                    from: `${email.from_name} <${email.from_email}>`,
-                    to: [email.to_email],
-                    subject: email.subject,
-                    html: email.html_body
-                }
-
-                if (email.text_body) {
-                    resendPayload.text = email.text_body
-                }
-
-                if (email.reply_to) {
-                    resendPayload.reply_to = email.reply_to
+                // 3a. Send via the email adapter
+                // Bijlagen: ontbrekende PDF (bv. voor available_from) blokkeert de email niet
+                const attachments: Array<{ filename: string; content: string }> = []
+                for (const attachment of email.attachments || []) {
+                    if (attachment.type === 'ticket_pdf' && attachment.order_id) {
+                        const pdf = await buildTicketPdfAttachment(supabaseAdmin, attachment.order_id, logger)
+                        if (pdf) attachments.push(pdf)
+                    }
                 }
 
-                const resendResponse = await fetch(RESEND_API_URL, {
-                    method: 'POST',
-                    headers: {
-                        'Authorization': `Bearer ${resendApiKey}`,
-                        'Content-Type': 'application/json'
-                    },
-                    body: JSON.stringify(resendPayload)
-                })
-
-                const resendData = await resendResponse.json()
+                // Campagnes: links via track-link (clicks per link en ontvanger)
+                const html = email.batch_id
+                    ? await addLinkTracking(supabaseAdmin, email, trackedLinks, logger)
+                    : email.html_body
+
+                try {
+                    const sendResult = await emailAdapter.send({
+                        outboxId: email.id,
+                        orgId: email.org_id,
+                        channel: 'email',
+                        to: email.to_email,
+                        from: `${email.from_name} <${email.from_email}>`,
+                        replyTo: email.reply_to,
+                        subject: email.subject,
+                        html,
+                        body: email.text_body || '',
+                        attachments
+                    })
 
-                if (resendResponse.ok && resendData.id) {
-                    // 3c. SUCCESS: Update status to 'sent'
+                    // 3b. SUCCESS: Update status to 'sent'
                     await supabaseAdmin
                         .from('email_outbox')
                         .update({
                             status: 'sent',
-                            provider_message_id: resendData.id,
+                            provider_message_id: sendResult.providerMessageId,
                             sent_at: new Date().toISOString(),
                             attempt_count: email.attempt_count + 1
                         })
@@ -167,20 +283,23 @@ serve(async (_req: Request) => {
                             event_type: 'sent',
                             previous_status: 'processing',
                             new_status: 'sent',
-                            metadata: { provider_response: resendData }
+                            metadata: { adapter: emailAdapter.name, provider_response: sendResult.response ?? null }
                         })
 
-                    logger.info(`Email sent successfully`, { emailId: email.id, providerMessageId: resendData.id })
+                    logger.info(`Email sent successfully`, { emailId: email.id, providerMessageId: sendResult.providerMessageId })
                     result.sent_count++
 
-                } else {
-                    // 3d. FAILURE: Handle error with retry logic
+                } catch (sendError: unknown) {
+                    // Unexpected (non-adapter) errors are handled by the outer catch
+                    if (!(sendError instanceof ChannelAdapterError)) throw sendError
+
+                    // 3c. FAILURE: Handle error with retry logic
                     const newAttemptCount = email.attempt_count + 1
-                    const errorMessage = resendData.message || resendData.error || 'Unknown error'
-                    const errorCode = String(resendResponse.status)
+                    const errorMessage = sendError.message
+                    const errorCode = sendError.code ?? null
 
                     // Determine if this is a retryable error
-                    const isRetryable = resendResponse.status >= 500 || resendResponse.status === 429
+                    const isRetryable = sendError.retryable
                     const hasMoreAttempts = newAttemptCount < email.max_attempts
 
                     let newStatus: string
@@ -219,7 +338,7 @@ serve(async (_req: Request) => {
                             new_status: newStatus,
                             error_message: errorMessage,
                             error_code: errorCode,
-                            metadata: { provider_response: resendData }
+                            metadata: { adapter: emailAdapter.name, provider_response: sendError.response ?? null }
                         })
 
                     result.failed_count++
@@ -243,6 +362,9 @@ serve(async (_req: Request) => {
             }
         }
 
+        // 4. SMS + PUSH NOTIFICATIONS (status → processing via claim_notifications)
+        await processNotifications(supabaseAdmin, logger, result)
+
         logger.info('Cron job completed', result)
         return new Response(JSON.stringify(result), {
             status: 200,
@@ -258,3 +380,142 @@ serve(async (_req: Request) => {
         })
     }
 })
+
+/**
+ * Rewrite the links of a campaign email to the track-link redirect.
+ * Tracking never blocks sending: on any error the original HTML is used.
+ */
+async function addLinkTracking(
+    supabaseAdmin: SupabaseClient,
+    email: EmailRecord,
+    trackedLinks: Map<string, Record<string, string>>,
+    logger: Logger
+): Promise<string> {
+    const secret = Deno.env.get('SERVICE_ROLE_KEY') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const urls = extractTrackableLinks(email.html_body)
+    if (!secret || !email.batch_id || urls.length === 0) return email.html_body
+
+    try {
+        const known = trackedLinks.get(email.batch_id) ?? {}
+        const missing = urls.filter(url => !known[url])
+
+        if (missing.length > 0) {
+            const { data, error } = await supabaseAdmin
+                .rpc('register_tracked_links', { _batch_id: email.batch_id, _urls: missing })
+
+            if (error) throw new Error(error.message)
+            Object.assign(known, data?.links ?? {})
+            trackedLinks.set(email.batch_id, known)
+        }
+
+        const baseUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1`
+        const rewritten: Record<string, string> = {}
+        for (const url of urls) {
+            const linkId = known[url]
+            if (!linkId) continue
+            const signature = await signTrackedLink(linkId, email.id, secret)
+            rewritten[url] = buildTrackedLinkUrl(baseUrl, linkId, email.id, signature)
+        }
+
+        return rewriteTrackedLinks(email.html_body, rewritten)
+    } catch (trackingError: unknown) {
+        const message = trackingError instanceof Error ? trackingError.message : String(trackingError)
+        logger.warn('Link tracking skipped', { emailId: email.id, error: message })
+        return email.html_body
+    }
+}
+
+/**
+ * Send claimed SMS/push notifications via their channel adapter.
+ * A channel without a configured adapter is treated like a provider outage:
+ * the job goes back via fail_notification with backoff.
+ */
+async function processNotifications(
+    supabaseAdmin: SupabaseClient,
+    logger: Logger,
+    result: ProcessOutboxResult
+): Promise<void> {
+    const { data: claimResult, error: claimError } = await supabaseAdmin
+        .rpc('claim_notifications', { _limit: BATCH_SIZE })
+
+    if (claimError || claimResult?.error) {
+        logger.error('Failed to claim notifications', claimError || claimResult?.error)
+        return
+    }
+
+    const jobs = (claimResult?.jobs ?? []) as NotificationJob[]
+    if (jobs.length === 0) {
+        logger.info('No notifications to process')
+        return
+    }
+
+    logger.info(`Claimed ${jobs.length} notifications`)
+
+    const adapters = new Map<NotificationChannel, ChannelAdapter | Error>()
+    const adapterFor = (channel: NotificationChannel): ChannelAdapter | Error => {
+        if (!adapters.has(channel)) {
+            try {
+                adapters.set(channel, getChannelAdapter(channel, supabaseAdmin))
+            } catch (configError) {
+                adapters.set(channel, configError instanceof Error ? configError : new Error(String(configError)))
+            }
+        }
+        return adapters.get(channel)!
+    }
+
+    for (const job of jobs) {
+        const adapter = adapterFor(job.channel)
+
+        try {
+            if (adapter instanceof Error) {
+                throw new ChannelAdapterError(adapter.message, true, 'ADAPTER_NOT_CONFIGURED')
+            }
+
+            const sendResult = await adapter.send({
+                outboxId: job.id,
+                orgId: job.org_id,
+                channel: job.channel,
+                to: job.channel === 'sms' ? job.to_phone! : job.to_user_id!,
+                subject: job.title,
+                body: job.body,
+                url: job.url,
+                subscriptions: job.subscriptions ?? []
+            })
+
+            const { data: completeResult, error: completeError } = await supabaseAdmin
+                .rpc('complete_notification', {
+                    _notification_id: job.id,
+                    _adapter: adapter.name,
+                    _provider_message_id: sendResult.providerMessageId
+                })
+
+            if (completeError || completeResult?.error) {
+                throw new Error(completeError?.message || completeResult.error)
+            }
+
+            logger.info('Notification sent', { notificationId: job.id, channel: job.channel, adapter: adapter.name })
+            result.notifications_sent++
+
+        } catch (jobError: unknown) {
+            const message = jobError instanceof Error ? jobError.message : String(jobError)
+            const adapterError = jobError instanceof ChannelAdapterError ? jobError : null
+
+            const { data: failResult } = await supabaseAdmin
+                .rpc('fail_notification', {
+                    _notification_id: job.id,
+                    _error: message,
+                    _error_code: adapterError?.code ?? null,
+                    _retryable: adapterError ? adapterError.retryable : true
+                })
+
+            logger.warn('Notification failed', {
+                notificationId: job.id,
+                channel: job.channel,
+                attempt: job.attempt_count,
+                status: failResult?.notification_status,
+                error: message
+            })
+            result.notifications_failed++
+        }
+    }
+}
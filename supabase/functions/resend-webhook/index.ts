@@ -2,16 +2,20 @@
  * resend-webhook Edge Function
  *
  * Webhook handler for Resend email delivery events.
- * Updates email status based on delivery notifications (sent, delivered, bounced, complained).
+ * Updates email status based on delivery notifications (sent, delivered, bounced, complained)
+ * and records engagement (opened, clicked) for campaign analytics.
  *
  * Features:
  * - Svix signature verification for security
  * - Idempotency via provider_event_id in email_outbox_events
- * - Bounce tracking in email_bounces table
+ * - Bounce tracking in email_bounces table; a hard bounce suppresses the
+ *   address org-wide via is_email_deliverable()
  * - Auto-unsubscribe on complaints
+ * - First open/click per email (opened_at, clicked_at), status unchanged
  *
  * Security: Webhook signature verification via RESEND_WEBHOOK_SECRET
- * Expected events: email.sent, email.delivered, email.bounced, email.complained
+ * Expected events: email.sent, email.delivered, email.bounced, email.complained,
+ * email.opened, email.clicked
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
@@ -19,7 +23,13 @@ import { getServiceClient } from '../_shared/supabase.ts'
 import { createLogger } from '../_shared/logger.ts'
 
 // Resend webhook event types
-type ResendEventType = 'email.sent' | 'email.delivered' | 'email.bounced' | 'email.complained'
+type ResendEventType =
+    | 'email.sent'
+    | 'email.delivered'
+    | 'email.bounced'
+    | 'email.complained'
+    | 'email.opened'
+    | 'email.clicked'
 
 interface ResendWebhookPayload {
     type: ResendEventType
@@ -33,17 +43,27 @@ interface ResendWebhookPayload {
             type: 'hard' | 'soft'
             message?: string
         }
+        click?: {
+            link: string
+            timestamp?: string
+        }
     }
 }
 
 // Map Resend event types to our email_status enum
-const EVENT_STATUS_MAP: Record<ResendEventType, string> = {
+const EVENT_STATUS_MAP: Partial<Record<ResendEventType, string>> = {
     'email.sent': 'sent',
     'email.delivered': 'delivered',
     'email.bounced': 'bounced',
     'email.complained': 'complained'
 }
 
+// Engagement events only set the first-occurrence timestamp
+const ENGAGEMENT_COLUMN_MAP: Partial<Record<ResendEventType, 'opened_at' | 'clicked_at'>> = {
+    'email.opened': 'opened_at',
+    'email.clicked': 'clicked_at'
+}
+
 /**
  * Verify Svix webhook signature
  * Resend uses Svix for webhook delivery
@@ -174,7 +194,38 @@ serve(async (req: Request) => {
             return new Response('OK', { status: 200 })
         }
 
-        // 7. DETERMINE NEW STATUS
+        // 7. ENGAGEMENT (opened/clicked): status stays as it is
+        const engagementColumn = ENGAGEMENT_COLUMN_MAP[type]
+        if (engagementColumn) {
+            const { error: engagementError } = await supabaseAdmin
+                .from('email_outbox')
+                .update({ [engagementColumn]: created_at })
+                .eq('id', email.id)
+                .is(engagementColumn, null)
+
+            if (engagementError) {
+                logger.error('Failed to record engagement', engagementError)
+                return new Response('Database error', { status: 500 })
+            }
+
+            await supabaseAdmin
+                .from('email_outbox_events')
+                .insert({
+                    email_id: email.id,
+                    event_type: type.replace('email.', ''),
+                    previous_status: email.status,
+                    new_status: email.status,
+                    provider_event_id: providerEventId,
+                    provider_timestamp: created_at,
+                    metadata: data.click ? { link: data.click.link } : {},
+                    raw_payload: payload
+                })
+
+            logger.info('Engagement recorded', { emailId: email.id, type })
+            return new Response('OK', { status: 200 })
+        }
+
+        // 7b. DETERMINE NEW STATUS
         const newStatus = EVENT_STATUS_MAP[type]
         if (!newStatus) {
             logger.warn('Unknown event type', type)
@@ -2,7 +2,10 @@
  * simulate-payment Edge Function
  *
  * Development/testing tool to simulate a successful payment.
- * This bypasses Mollie and directly marks an order as paid.
+ * Uses the fake payment provider: creates (or reuses) the fake payment of the
+ * order and processes a 'paid' notification through the same webhook
+ * pipeline as Mollie/Stripe, so the order is paid and tickets are issued by
+ * handle_payment_webhook.
  *
  * Security: Only enabled via feature flag (SIMULATE_PAYMENTS_ENABLED=true)
  * WARNING: NEVER enable this in production!
@@ -14,6 +17,8 @@ import { jsonResponse, errorResponse } from '../_shared/response.ts'
 import { authenticateUser } from '../_shared/auth.ts'
 import { getServiceClient } from '../_shared/supabase.ts'
 import { createLogger } from '../_shared/logger.ts'
+import { FakePaymentProvider, getPaymentProvider } from '../_shared/payments.ts'
+import { processPaymentNotification } from '../_shared/payment-webhook.ts'
 
 serve(async (req: Request) => {
     // Handle CORS preflight
@@ -53,52 +58,67 @@ serve(async (req: Request) => {
             return errorResponse('Missing order_id', 'MISSING_ORDER_ID', 400)
         }
 
-        // 4. EXECUTE ADMIN ACTION (RPC)
+        // 4. LOAD ORDER
         // Use Service Role to bypass RLS restrictions
         const adminClient = getServiceClient()
 
-        const { error: rpcError } = await adminClient.rpc('simulate_payment_success', {
-            _order_id: order_id
-        })
+        const { data: order, error: orderError } = await adminClient
+            .from('orders')
+            .select('id, org_id, event_id, total_amount, currency, status')
+            .eq('id', order_id)
+            .single()
 
-        if (rpcError) {
-            logger.error('RPC failed', rpcError)
-            return errorResponse(rpcError.message, 'RPC_ERROR', 400)
+        if (orderError || !order) {
+            return errorResponse('Order not found', 'ORDER_NOT_FOUND', 404)
         }
 
-        logger.info('Payment simulated successfully')
-
-        // 5. TRIGGER TICKET ISSUANCE
-        // In a real webhook flow, this happens automatically.
-        // Here we do it explicitly to complete the simulation.
-        logger.info('Triggering ticket issuance')
-
-        const serviceRoleKey = Deno.env.get('SERVICE_ROLE_KEY') ??
-                               Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-
-        const issueResponse = await fetch(`${supabaseUrl}/functions/v1/issue-tickets`, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${serviceRoleKey}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ order_id: order_id })
-        })
-
-        let issueResult = null
-        if (issueResponse.ok) {
-            issueResult = await issueResponse.json()
-            logger.info('Tickets issued', issueResult.count || 0)
-        } else {
-            logger.error('Failed to issue tickets', await issueResponse.text())
+        // 5. FAKE PAYMENT (same row a real checkout would create)
+        const provider = getPaymentProvider('fake') as FakePaymentProvider
+        const paymentId = FakePaymentProvider.paymentIdForOrder(order.id)
+        const amountCents = Math.round(order.total_amount * 100)
+
+        const { error: paymentError } = await adminClient
+            .from('payments')
+            .upsert({
+                org_id: order.org_id,
+                order_id: order.id,
+                provider: 'fake',
+                provider_payment_id: paymentId,
+                amount: amountCents,
+                currency: order.currency || 'EUR',
+                status: 'open',
+            }, { onConflict: 'provider,provider_payment_id', ignoreDuplicates: true })
+
+        if (paymentError) {
+            logger.error('Failed to store fake payment', paymentError)
+            return errorResponse(paymentError.message, 'PAYMENT_STORAGE_FAILED', 500)
         }
 
-        // 6. SUCCESS
+        // 6. PROCESS 'PAID' THROUGH THE WEBHOOK PIPELINE
+        // payment_events + handle_payment_webhook, exactly like a provider
+        // webhook: order paid, tickets issued, confirmation email queued.
+        await provider.simulate(paymentId, 'paid', amountCents, order.currency || 'EUR')
+
+        const outcome = await processPaymentNotification(
+            { type: 'payment', id: paymentId },
+            provider,
+            adminClient,
+            logger
+        )
+
+        if (outcome.httpStatus !== 200) {
+            logger.error('Simulated webhook failed', outcome.message)
+            return errorResponse(outcome.message, 'SIMULATION_FAILED', outcome.httpStatus)
+        }
+
+        logger.info('Payment simulated successfully', { orderId: order.id, result: outcome.result })
+
+        // 7. SUCCESS
         return jsonResponse({
             success: true,
             message: 'Payment simulated successfully',
-            tickets_issued: issueResult?.count || 0
+            payment_id: paymentId,
+            tickets_issued: outcome.result?.tickets_issued || 0
         }, 200)
 
     } catch (error: unknown) {
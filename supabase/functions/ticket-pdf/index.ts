@@ -0,0 +1,148 @@
+/**
+ * ticket-pdf Edge Function
+ *
+ * Renders the ticket PDF for one ticket instance or a whole order.
+ *
+ * Flow:
+ * 1. Parse input (ticket_instance_id or order_id, optional public_token)
+ * 2. Load PDF data (get_ticket_pdf_data: banner + sanitize_ticket_data)
+ * 3. Authorize: ticket owner / order buyer (Bearer token) or the order's
+ *    public_token (guest checkout; not for a transferred ticket)
+ * 4. Check order status, ticket delivery (ticket_pdf.available_from) and
+ *    ticket status
+ * 5. Return application/pdf
+ *
+ * Security:
+ * - Uses SERVICE_ROLE for reads (ownership checked here)
+ * - Public token hashed before lookup, like get-order-public
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { handleCors, corsHeaders } from '../_shared/cors.ts'
+import { errorResponse } from '../_shared/response.ts'
+import { authenticateUser } from '../_shared/auth.ts'
+import { getServiceClient } from '../_shared/supabase.ts'
+import { createLogger } from '../_shared/logger.ts'
+import { loadTicketPdfData, renderTicketPdf, getTicketPdfFilename } from '../_shared/ticket-pdf.ts'
+
+interface TicketPdfRequest {
+    ticket_instance_id?: string
+    order_id?: string
+    public_token?: string
+}
+
+serve(async (req: Request) => {
+    // Handle CORS preflight
+    const corsResponse = handleCors(req)
+    if (corsResponse) return corsResponse
+
+    const logger = createLogger('ticket-pdf')
+    logger.info('Function invoked')
+
+    try {
+        if (req.method !== 'POST') {
+            return errorResponse('Method not allowed', 'METHOD_NOT_ALLOWED', 405)
+        }
+
+        // 1. PARSE & VALIDATE INPUT
+        let body: TicketPdfRequest
+        try {
+            body = await req.json()
+        } catch {
+            return errorResponse('Invalid JSON', 'INVALID_JSON', 400)
+        }
+
+        const { ticket_instance_id, order_id, public_token } = body
+
+        if (!ticket_instance_id === !order_id) {
+            return errorResponse('Provide either ticket_instance_id or order_id', 'MISSING_TARGET', 400)
+        }
+
+        // 2. LOAD PDF DATA
+        const supabaseAdmin = getServiceClient()
+        const { data: pdfData, banner, error: dataError } = await loadTicketPdfData(supabaseAdmin, {
+            orderId: order_id,
+            ticketInstanceId: ticket_instance_id,
+        })
+
+        if (dataError || !pdfData) {
+            logger.warn('PDF data not found', { ticket_instance_id, order_id, error: dataError })
+            return errorResponse('Ticket not found', dataError || 'TICKET_NOT_FOUND', 404)
+        }
+
+        // 3. AUTHORIZE
+        const ticket = ticket_instance_id ? pdfData.tickets[0] : null
+
+        if (public_token) {
+            const tokenHash = Array.from(new Uint8Array(
+                await crypto.subtle.digest('SHA-256', new TextEncoder().encode(public_token))
+            )).map(b => b.toString(16).padStart(2, '0')).join('')
+
+            const { data: order } = await supabaseAdmin
+                .from('orders')
+                .select('id')
+                .eq('public_token_hash', tokenHash)
+                .maybeSingle()
+
+            // Na een transfer is het ticket niet meer van de koper
+            if (!order || order.id !== pdfData.order.id || ticket?.transferred) {
+                return errorResponse('Not allowed to access this ticket', 'FORBIDDEN', 403)
+            }
+        } else {
+            const { user, error: authError } = await authenticateUser(req)
+            if (authError) {
+                return errorResponse('Unauthorized', authError, 401)
+            }
+
+            const allowed = ticket
+                ? ticket.owner_user_id === user!.id
+                : pdfData.order.user_id === user!.id
+            if (!allowed) {
+                return errorResponse('Not allowed to access this ticket', 'FORBIDDEN', 403)
+            }
+        }
+
+        // 4. ORDER STATUS + DELIVERY + TICKET STATUS
+        if (pdfData.order.status !== 'paid') {
+            return errorResponse('Order is not paid', 'ORDER_NOT_PAID', 409)
+        }
+        if (!pdfData.tickets_available) {
+            return errorResponse(
+                'Tickets are not available yet',
+                'TICKETS_NOT_AVAILABLE',
+                403,
+                { available_from: pdfData.available_from }
+            )
+        }
+        if (ticket?.status === 'void') {
+            return errorResponse('Ticket is no longer valid', 'TICKET_VOID', 410)
+        }
+        if (pdfData.tickets.length === 0) {
+            return errorResponse('No tickets in this order', 'NO_TICKETS', 404)
+        }
+
+        // 5. RENDER
+        const pdf = await renderTicketPdf(pdfData, banner)
+
+        logger.info('Ticket PDF generated', {
+            order_id: pdfData.order.id,
+            ticket_instance_id,
+            tickets: pdfData.tickets.length,
+            bytes: pdf.length
+        })
+
+        return new Response(pdf, {
+            status: 200,
+            headers: {
+                ...corsHeaders,
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="${getTicketPdfFilename(pdfData, ticket_instance_id)}"`
+            }
+        })
+
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        logger.error('Unexpected error', message)
+        return errorResponse('Internal server error', 'UNEXPECTED_ERROR', 500, message)
+    }
+})
@@ -0,0 +1,129 @@
+/**
+ * track-link Edge Function
+ *
+ * Redirect for tracked links in campaign emails (see process-outbox).
+ * Records the click per link and recipient, then redirects to the target URL.
+ *
+ * Features:
+ * - No login required (opened from the email client)
+ * - Click only counted with a valid HMAC signature for link + email
+ *   (signTrackedLink in _shared/email.ts); otherwise just redirects
+ * - Target URL comes from email_tracked_links, never from the query string
+ *   (no open redirect)
+ *
+ * Query: ?l=<link_id>&e=<email_id>&s=<signature>
+ * Security: Signature verification with SERVICE_ROLE_KEY
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { getServiceClient } from '../_shared/supabase.ts'
+import { createLogger } from '../_shared/logger.ts'
+import { signTrackedLink } from '../_shared/email.ts'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Generate the "link not found" page
+ */
+function notFoundResponse(): Response {
+    const html = `<!DOCTYPE html>
+<html lang="nl">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Link niet gevonden</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+            background-color: #f9fafb;
+            min-height: 100vh;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            margin: 0;
+            padding: 20px;
+        }
+        .container {
+            background: white;
+            border-radius: 12px;
+            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+            padding: 40px;
+            max-width: 500px;
+            text-align: center;
+        }
+        h1 { color: #111827; margin-bottom: 16px; font-size: 24px; }
+        p { color: #4b5563; line-height: 1.6; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h1>Link niet gevonden</h1>
+        <p>Deze link is ongeldig of verlopen. Neem contact op met de organisatie als je de pagina niet kunt vinden.</p>
+    </div>
+</body>
+</html>`
+
+    return new Response(html, {
+        status: 404,
+        headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    })
+}
+
+serve(async (req: Request) => {
+    const logger = createLogger('track-link')
+
+    try {
+        // 1. PARSE QUERY
+        const url = new URL(req.url)
+        const linkId = url.searchParams.get('l') ?? ''
+        const emailId = url.searchParams.get('e') ?? ''
+        const signature = url.searchParams.get('s') ?? ''
+
+        if (!UUID_PATTERN.test(linkId)) {
+            return notFoundResponse()
+        }
+
+        // 2. VERIFY SIGNATURE (invalid = redirect without counting)
+        const secret = Deno.env.get('SERVICE_ROLE_KEY') ??
+                       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+        let verifiedEmailId: string | null = null
+        if (secret && UUID_PATTERN.test(emailId) && signature) {
+            const expected = await signTrackedLink(linkId, emailId, secret)
+            if (expected === signature) {
+                verifiedEmailId = emailId
+            } else {
+                logger.warn('Invalid link signature', { linkId })
+            }
+        }
+
+        // 3. RECORD CLICK + RESOLVE TARGET
+        const supabaseAdmin = getServiceClient()
+        const { data, error } = await supabaseAdmin.rpc('record_link_click', {
+            _link_id: linkId,
+            _email_id: verifiedEmailId,
+            _user_agent: req.headers.get('user-agent')
+        })
+
+        if (error || data?.error || !data?.url) {
+            logger.warn('Tracked link not found', { linkId, error: error?.message ?? data?.error })
+            return notFoundResponse()
+        }
+
+        logger.info('Link click', { linkId, recorded: data.recorded })
+
+        // 4. REDIRECT
+        return new Response(null, {
+            status: 302,
+            headers: {
+                'Location': data.url,
+                'Cache-Control': 'no-store'
+            }
+        })
+
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        logger.error('Unexpected error', message)
+        return notFoundResponse()
+    }
+})
@@ -0,0 +1,200 @@
+/**
+ * wallet-pass-service Edge Function
+ *
+ * Apple PassKit web service (webServiceURL of every issued .pkpass).
+ * Called by Apple Wallet on devices, not by our apps.
+ *
+ * Routes (relative to /functions/v1/wallet-pass-service):
+ * - POST   /v1/devices/:device/registrations/:passType/:serial  register for updates
+ * - DELETE /v1/devices/:device/registrations/:passType/:serial  unregister
+ * - GET    /v1/devices/:device/registrations/:passType?passesUpdatedSince=tag
+ * - GET    /v1/passes/:passType/:serial                         latest pass version
+ * - POST   /v1/log                                              device error logs
+ *
+ * Security:
+ * - Pass routes require "Authorization: ApplePass <token>" (HMAC of the serial)
+ * - Deployed without JWT verification (see config.toml)
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { getServiceClient } from '../_shared/supabase.ts'
+import { createLogger } from '../_shared/logger.ts'
+import {
+    loadWalletPassData,
+    getAppleWalletConfig,
+    getAppleAuthToken,
+    buildApplePass,
+} from '../_shared/wallet.ts'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function emptyResponse(status: number, headers: Record<string, string> = {}): Response {
+    return new Response(null, { status, headers })
+}
+
+async function isAuthorized(req: Request, serialNumber: string): Promise<boolean> {
+    const header = req.headers.get('Authorization') || ''
+    return header === `ApplePass ${await getAppleAuthToken(serialNumber)}`
+}
+
+serve(async (req: Request) => {
+    const logger = createLogger('wallet-pass-service')
+
+    try {
+        const config = getAppleWalletConfig()
+        if (!config) {
+            logger.error('Apple Wallet is not configured')
+            return emptyResponse(503)
+        }
+
+        // Pad na de functienaam: /v1/...
+        const url = new URL(req.url)
+        const path = url.pathname.split('/wallet-pass-service')[1] || ''
+        const segments = path.split('/').filter(Boolean)
+
+        logger.info('Request', { method: req.method, path })
+
+        const supabaseAdmin = getServiceClient()
+
+        // POST /v1/log
+        if (req.method === 'POST' && segments[1] === 'log') {
+            const body = await req.json().catch(() => ({}))
+            logger.warn('Wallet device log', body.logs)
+            return emptyResponse(200)
+        }
+
+        // /v1/devices/:device/registrations/:passType[/:serial]
+        if (segments[0] === 'v1' && segments[1] === 'devices' && segments[3] === 'registrations') {
+            const deviceId = segments[2]
+            const passTypeIdentifier = segments[4]
+            const serialNumber = segments[5]
+
+            if (passTypeIdentifier !== config.passTypeIdentifier) {
+                return emptyResponse(404)
+            }
+
+            // GET: welke passes van dit device zijn gewijzigd?
+            if (req.method === 'GET' && !serialNumber) {
+                const since = url.searchParams.get('passesUpdatedSince')
+
+                const { data: registrations } = await supabaseAdmin
+                    .from('wallet_pass_devices')
+                    .select('ticket_instance_id, wallet_passes!inner(updated_at)')
+                    .eq('device_library_identifier', deviceId)
+                    .eq('pass_type_identifier', passTypeIdentifier)
+
+                const updated = (registrations || [])
+                    .map(r => ({
+                        serial: r.ticket_instance_id as string,
+                        updatedAt: new Date((r.wallet_passes as unknown as { updated_at: string }).updated_at).getTime()
+                    }))
+                    .filter(r => !since || r.updatedAt > Number(since))
+
+                if (updated.length === 0) {
+                    return emptyResponse(204)
+                }
+
+                return new Response(JSON.stringify({
+                    serialNumbers: updated.map(r => r.serial),
+                    lastUpdated: String(Math.max(...updated.map(r => r.updatedAt)))
+                }), { status: 200, headers: { 'Content-Type': 'application/json' } })
+            }
+
+            if (!serialNumber || !UUID_PATTERN.test(serialNumber)) {
+                return emptyResponse(404)
+            }
+            if (!(await isAuthorized(req, serialNumber))) {
+                return emptyResponse(401)
+            }
+
+            if (req.method === 'POST') {
+                const { pushToken } = await req.json().catch(() => ({ pushToken: null }))
+                if (!pushToken) {
+                    return emptyResponse(400)
+                }
+
+                const { data: existing } = await supabaseAdmin
+                    .from('wallet_pass_devices')
+                    .select('push_token')
+                    .eq('device_library_identifier', deviceId)
+                    .eq('pass_type_identifier', passTypeIdentifier)
+                    .eq('ticket_instance_id', serialNumber)
+                    .maybeSingle()
+
+                const { error: upsertError } = await supabaseAdmin
+                    .from('wallet_pass_devices')
+                    .upsert({
+                        device_library_identifier: deviceId,
+                        pass_type_identifier: passTypeIdentifier,
+                        ticket_instance_id: serialNumber,
+                        push_token: pushToken
+                    }, { onConflict: 'device_library_identifier,pass_type_identifier,ticket_instance_id' })
+
+                if (upsertError) {
+                    logger.error('Device registration failed', upsertError)
+                    return emptyResponse(500)
+                }
+
+                logger.info('Device registered', { serialNumber, isNew: !existing })
+                return emptyResponse(existing ? 200 : 201)
+            }
+
+            if (req.method === 'DELETE') {
+                await supabaseAdmin
+                    .from('wallet_pass_devices')
+                    .delete()
+                    .eq('device_library_identifier', deviceId)
+                    .eq('pass_type_identifier', passTypeIdentifier)
+                    .eq('ticket_instance_id', serialNumber)
+
+                logger.info('Device unregistered', { serialNumber })
+                return emptyResponse(200)
+            }
+
+            return emptyResponse(405)
+        }
+
+        // GET /v1/passes/:passType/:serial
+        if (req.method === 'GET' && segments[0] === 'v1' && segments[1] === 'passes') {
+            const passTypeIdentifier = segments[2]
+            const serialNumber = segments[3]
+
+            if (passTypeIdentifier !== config.passTypeIdentifier || !serialNumber || !UUID_PATTERN.test(serialNumber)) {
+                return emptyResponse(404)
+            }
+            if (!(await isAuthorized(req, serialNumber))) {
+                return emptyResponse(401)
+            }
+
+            const { data: passData, logo, error } = await loadWalletPassData(supabaseAdmin, serialNumber)
+            if (error || !passData) {
+                return emptyResponse(404)
+            }
+
+            const lastModified = new Date(passData.pass?.updated_at ?? Date.now())
+            const ifModifiedSince = req.headers.get('If-Modified-Since')
+            if (ifModifiedSince && new Date(ifModifiedSince).getTime() >= Math.floor(lastModified.getTime() / 1000) * 1000) {
+                return emptyResponse(304)
+            }
+
+            // Nieuwe houder / status na bv. een transfer zit in de verse pass
+            const pkpass = await buildApplePass(passData, config, logo)
+
+            logger.info('Updated pass served', { serialNumber, version: passData.pass?.pass_version })
+            return new Response(pkpass, {
+                status: 200,
+                headers: {
+                    'Content-Type': 'application/vnd.apple.pkpass',
+                    'Last-Modified': lastModified.toUTCString()
+                }
+            })
+        }
+
+        return emptyResponse(404)
+
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        logger.error('Unexpected error', message)
+        return emptyResponse(500)
+    }
+})
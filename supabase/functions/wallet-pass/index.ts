@@ -0,0 +1,182 @@
+/**
+ * wallet-pass Edge Function
+ *
+ * Generates an Apple Wallet pass (.pkpass) or a Google Wallet save link
+ * for a ticket instance.
+ *
+ * Flow:
+ * 1. Parse input (ticket_instance_id, platform, optional public_token)
+ * 2. Load pass data (get_wallet_pass_data: branding + ticket_privacy applied)
+ * 3. Authorize: ticket owner (Bearer token) or the order's public_token
+ *    (guest checkout; not after the ticket has been transferred)
+ * 4. Check ticket delivery (are_tickets_available) and status
+ * 5. apple: signed .pkpass (binary response)
+ *    google: { save_url } (signed JWT with class + object)
+ * 6. Record the issued pass in wallet_passes (for updates after transfers)
+ *
+ * Security:
+ * - Uses SERVICE_ROLE for reads (ownership checked here)
+ * - Public token hashed before lookup, like get-order-public
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { handleCors, corsHeaders } from '../_shared/cors.ts'
+import { jsonResponse, errorResponse } from '../_shared/response.ts'
+import { authenticateUser } from '../_shared/auth.ts'
+import { getServiceClient } from '../_shared/supabase.ts'
+import { createLogger } from '../_shared/logger.ts'
+import {
+    loadWalletPassData,
+    getAppleWalletConfig,
+    getGoogleWalletConfig,
+    buildApplePass,
+    buildGoogleSaveUrl,
+    getGoogleObjectId,
+} from '../_shared/wallet.ts'
+
+// Google haalt het logo op bij het opslaan; de link blijft een jaar geldig
+const LOGO_URL_TTL_SECONDS = 60 * 60 * 24 * 365
+
+interface WalletPassRequest {
+    ticket_instance_id: string
+    platform: 'apple' | 'google'
+    public_token?: string
+}
+
+serve(async (req: Request) => {
+    // Handle CORS preflight
+    const corsResponse = handleCors(req)
+    if (corsResponse) return corsResponse
+
+    const logger = createLogger('wallet-pass')
+    logger.info('Function invoked')
+
+    try {
+        if (req.method !== 'POST') {
+            return errorResponse('Method not allowed', 'METHOD_NOT_ALLOWED', 405)
+        }
+
+        // 1. PARSE & VALIDATE INPUT
+        let body: Partial<WalletPassRequest>
+        try {
+            body = await req.json()
+        } catch {
+            return errorResponse('Invalid JSON', 'INVALID_JSON', 400)
+        }
+
+        const { ticket_instance_id, platform, public_token } = body
+
+        if (!ticket_instance_id) {
+            return errorResponse('Missing ticket_instance_id', 'MISSING_TICKET_ID', 400)
+        }
+        if (platform !== 'apple' && platform !== 'google') {
+            return errorResponse('Platform must be apple or google', 'INVALID_PLATFORM', 400)
+        }
+
+        // 2. LOAD PASS DATA
+        const supabaseAdmin = getServiceClient()
+        const { data: passData, logo, error: dataError } = await loadWalletPassData(supabaseAdmin, ticket_instance_id)
+
+        if (dataError || !passData) {
+            logger.warn('Pass data not found', { ticket_instance_id, error: dataError })
+            return errorResponse('Ticket not found', 'TICKET_NOT_FOUND', 404)
+        }
+
+        // 3. AUTHORIZE
+        if (public_token) {
+            const tokenHash = Array.from(new Uint8Array(
+                await crypto.subtle.digest('SHA-256', new TextEncoder().encode(public_token))
+            )).map(b => b.toString(16).padStart(2, '0')).join('')
+
+            const { data: order } = await supabaseAdmin
+                .from('orders')
+                .select('id')
+                .eq('public_token_hash', tokenHash)
+                .maybeSingle()
+
+            // Na een transfer is het ticket niet meer van de koper
+            if (!order || order.id !== passData.ticket.order_id || passData.ticket.transferred) {
+                return errorResponse('Not allowed to access this ticket', 'FORBIDDEN', 403)
+            }
+        } else {
+            const { user, error: authError } = await authenticateUser(req)
+            if (authError) {
+                return errorResponse('Unauthorized', authError, 401)
+            }
+            if (passData.ticket.owner_user_id !== user!.id) {
+                return errorResponse('Not allowed to access this ticket', 'FORBIDDEN', 403)
+            }
+        }
+
+        // 4. DELIVERY + STATUS
+        if (!passData.tickets_available) {
+            return errorResponse('Tickets are not available yet', 'TICKETS_NOT_AVAILABLE', 403)
+        }
+        if (passData.ticket.status === 'void') {
+            return errorResponse('Ticket is no longer valid', 'TICKET_VOID', 410)
+        }
+
+        // 5. BUILD PASS
+        if (platform === 'apple') {
+            const appleConfig = getAppleWalletConfig()
+            if (!appleConfig) {
+                logger.error('Apple Wallet is not configured')
+                return errorResponse('Apple Wallet is not configured', 'WALLET_NOT_CONFIGURED', 501)
+            }
+
+            const pkpass = await buildApplePass(passData, appleConfig, logo)
+
+            await supabaseAdmin
+                .from('wallet_passes')
+                .upsert({
+                    ticket_instance_id,
+                    apple_issued_at: new Date().toISOString()
+                }, { onConflict: 'ticket_instance_id' })
+
+            logger.info('Apple Wallet pass generated', { ticket_instance_id, bytes: pkpass.length })
+
+            return new Response(pkpass, {
+                status: 200,
+                headers: {
+                    ...corsHeaders,
+                    'Content-Type': 'application/vnd.apple.pkpass',
+                    'Content-Disposition': `attachment; filename="ticket-${ticket_instance_id.slice(0, 8)}.pkpass"`
+                }
+            })
+        }
+
+        const googleConfig = getGoogleWalletConfig()
+        if (!googleConfig) {
+            logger.error('Google Wallet is not configured')
+            return errorResponse('Google Wallet is not configured', 'WALLET_NOT_CONFIGURED', 501)
+        }
+
+        let logoUrl: string | null = null
+        if (passData.branding.logo) {
+            const { data: signed } = await supabaseAdmin.storage
+                .from(passData.branding.logo.bucket_id)
+                .createSignedUrl(passData.branding.logo.path, LOGO_URL_TTL_SECONDS)
+            logoUrl = signed?.signedUrl ?? null
+        }
+
+        const saveUrl = await buildGoogleSaveUrl(passData, googleConfig, logoUrl)
+
+        // 6. RECORD ISSUED PASS
+        await supabaseAdmin
+            .from('wallet_passes')
+            .upsert({
+                ticket_instance_id,
+                google_object_id: getGoogleObjectId(googleConfig, ticket_instance_id),
+                google_issued_at: new Date().toISOString()
+            }, { onConflict: 'ticket_instance_id' })
+
+        logger.info('Google Wallet save link generated', { ticket_instance_id })
+
+        return jsonResponse({ save_url: saveUrl }, 200)
+
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        logger.error('Unexpected error', message)
+        return errorResponse('Internal server error', 'UNEXPECTED_ERROR', 500, message)
+    }
+})
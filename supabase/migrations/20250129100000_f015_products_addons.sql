@@ -0,0 +1,1206 @@
+-- ===========================================================================
+-- F015: Products & Add-ons
+-- Migration: 20250129100000_f015_products_addons.sql
+--
+-- Purpose:
+-- - Productcatalogus per event (t-shirts, parkeren, medailles, ...)
+-- - Varianten per product (bv. maten) met eigen voorraad
+-- - order_items kan nu ook productregels bevatten (naast tickets)
+-- - Checkout valideert voorraad + prijs server-side (validate_checkout_capacity)
+-- - Betaalde orders leveren een picklijst op i.p.v. ticket_instances
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: products
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS products (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+
+  -- Content
+  name TEXT NOT NULL,
+  description TEXT,
+  category TEXT NOT NULL DEFAULT 'merchandise',
+  image_url TEXT,
+
+  -- Financieel
+  price NUMERIC(10,2) NOT NULL DEFAULT 0.00,
+  vat_percentage NUMERIC(4,2) NOT NULL DEFAULT 21.00,
+
+  -- Voorraad (alleen gebruikt als het product geen varianten heeft)
+  stock_total INTEGER,               -- NULL = onbeperkt
+  max_per_order INTEGER,             -- NULL = geen limiet
+
+  -- Zichtbaarheid
+  status TEXT NOT NULL DEFAULT 'draft',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+
+  -- Metadata
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ,            -- Soft delete
+
+  -- Constraints
+  CONSTRAINT products_price_check CHECK (price >= 0),
+  CONSTRAINT products_stock_check CHECK (stock_total IS NULL OR stock_total >= 0),
+  CONSTRAINT products_max_per_order_check CHECK (max_per_order IS NULL OR max_per_order > 0),
+  CONSTRAINT products_status_check CHECK (status IN ('draft', 'published', 'closed')),
+  CONSTRAINT products_category_check CHECK (category IN ('merchandise', 'parking', 'medal', 'other'))
+);
+
+COMMENT ON TABLE products IS
+  'Add-on products per event (merchandise, parking, medals), sold alongside tickets';
+
+COMMENT ON COLUMN products.stock_total IS 'Stock for products without variants (NULL = unlimited)';
+COMMENT ON COLUMN products.max_per_order IS 'Max quantity of this product per order (NULL = no limit)';
+COMMENT ON COLUMN products.status IS 'draft=alleen admins, published=zichtbaar in checkout, closed=niet meer verkrijgbaar';
+
+-- ===========================================================================
+-- 2. TABLE: product_variants
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+
+  -- Variant definition
+  name TEXT NOT NULL,                -- "S", "M", "XL", "Dames M"
+  sku TEXT,
+  price_adjustment NUMERIC(10,2) NOT NULL DEFAULT 0.00,  -- Bovenop products.price
+
+  -- Voorraad per variant
+  stock_total INTEGER,               -- NULL = onbeperkt
+
+  -- UI ordering
+  sort_order INTEGER NOT NULL DEFAULT 0,
+
+  -- Metadata
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ,
+
+  CONSTRAINT product_variants_stock_check CHECK (stock_total IS NULL OR stock_total >= 0)
+);
+
+COMMENT ON TABLE product_variants IS
+  'Variants of a product (e.g. shirt sizes), each with its own stock limit';
+
+COMMENT ON COLUMN product_variants.price_adjustment IS 'Added to products.price (may be negative, final price never below 0)';
+
+-- ===========================================================================
+-- 3. ORDER_ITEMS: productregels
+-- ===========================================================================
+-- Een order_item is óf een ticketregel (ticket_type_id) óf een productregel
+-- (product_id, optioneel product_variant_id). Nooit beide.
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS product_id UUID REFERENCES products(id);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS product_variant_id UUID REFERENCES product_variants(id);
+
+COMMENT ON COLUMN order_items.product_id IS 'Set for add-on product lines (ticket_type_id is then NULL)';
+COMMENT ON COLUMN order_items.product_variant_id IS 'Chosen variant for product lines (e.g. size)';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'order_items_line_type_check'
+  ) THEN
+    ALTER TABLE order_items
+      ADD CONSTRAINT order_items_line_type_check CHECK (
+        NOT (ticket_type_id IS NOT NULL AND product_id IS NOT NULL)
+        AND (product_variant_id IS NULL OR product_id IS NOT NULL)
+      );
+  END IF;
+END $$;
+
+-- ===========================================================================
+-- 4. TABLE: order_pick_list_items
+-- ===========================================================================
+-- Productregels worden niet als ticket uitgegeven maar als picklijst-regel:
+-- de organisatie pakt de items in / geeft ze uit bij de afhaalbalie.
+
+CREATE TABLE IF NOT EXISTS order_pick_list_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  product_variant_id UUID REFERENCES product_variants(id),
+
+  quantity INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  picked_at TIMESTAMPTZ,
+  picked_by UUID REFERENCES auth.users(id),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT order_pick_list_items_quantity_check CHECK (quantity > 0),
+  CONSTRAINT order_pick_list_items_status_check CHECK (status IN ('pending', 'picked', 'cancelled')),
+  -- Idempotency: één picklijst-regel per order_item
+  CONSTRAINT order_pick_list_items_order_item_unique UNIQUE (order_item_id)
+);
+
+COMMENT ON TABLE order_pick_list_items IS
+  'Pick list for paid product lines. Produced by fulfill_order instead of ticket_instances.';
+
+-- ===========================================================================
+-- 5. INDEXES
+-- ===========================================================================
+
+CREATE INDEX IF NOT EXISTS idx_products_event_active
+  ON products(event_id, sort_order)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_active
+  ON product_variants(product_id, sort_order)
+  WHERE deleted_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_name_unique
+  ON product_variants(product_id, lower(name))
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_product
+  ON order_items(product_id)
+  WHERE product_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_product_variant
+  ON order_items(product_variant_id)
+  WHERE product_variant_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_pick_list_items_event
+  ON order_pick_list_items(event_id, status);
+
+-- ===========================================================================
+-- 6. RLS POLICIES
+-- ===========================================================================
+
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_pick_list_items ENABLE ROW LEVEL SECURITY;
+
+-- products --------------------------------------------------------------
+
+CREATE POLICY "Org admins can manage products"
+  ON products
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = products.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = products.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view products"
+  ON products
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = products.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Public can read published products"
+  ON products
+  FOR SELECT
+  USING (
+    status = 'published'
+    AND deleted_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = products.event_id
+      AND e.status = 'published'
+    )
+  );
+
+-- product_variants ------------------------------------------------------
+
+CREATE POLICY "Org admins can manage product_variants"
+  ON product_variants
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM products p
+      JOIN events e ON e.id = p.event_id
+      WHERE p.id = product_variants.product_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM products p
+      JOIN events e ON e.id = p.event_id
+      WHERE p.id = product_variants.product_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view product_variants"
+  ON product_variants
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM products p
+      JOIN events e ON e.id = p.event_id
+      WHERE p.id = product_variants.product_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Public can read variants of published products"
+  ON product_variants
+  FOR SELECT
+  USING (
+    deleted_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM products p
+      JOIN events e ON e.id = p.event_id
+      WHERE p.id = product_variants.product_id
+      AND p.status = 'published'
+      AND p.deleted_at IS NULL
+      AND e.status = 'published'
+    )
+  );
+
+-- order_pick_list_items -------------------------------------------------
+-- Geen INSERT policy: regels worden alleen door fulfill_order aangemaakt.
+
+CREATE POLICY "Org members can view pick list"
+  ON order_pick_list_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = order_pick_list_items.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Org members can update pick list status"
+  ON order_pick_list_items
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = order_pick_list_items.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = order_pick_list_items.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+-- ===========================================================================
+-- 7. TRIGGERS FOR UPDATED_AT
+-- ===========================================================================
+
+CREATE TRIGGER handle_updated_at_products
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+CREATE TRIGGER handle_updated_at_product_variants
+  BEFORE UPDATE ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+CREATE TRIGGER handle_updated_at_order_pick_list_items
+  BEFORE UPDATE ON order_pick_list_items
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+-- ===========================================================================
+-- 8. RPC: get_product_availability (public)
+-- ===========================================================================
+-- Gepubliceerde producten van een event met varianten en resterende voorraad.
+-- Verkocht = som van productregels in pending/paid orders (zelfde regel als
+-- de ticket capacity in validate_checkout_capacity).
+
+CREATE OR REPLACE FUNCTION public.get_product_availability(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_products JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM events
+    WHERE id = _event_id
+      AND status = 'published'
+      AND deleted_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(product_row ORDER BY sort_order, name), '[]'::jsonb)
+  INTO v_products
+  FROM (
+    SELECT
+      p.sort_order,
+      p.name,
+      jsonb_build_object(
+        'id', p.id,
+        'name', p.name,
+        'description', p.description,
+        'category', p.category,
+        'image_url', p.image_url,
+        'price', p.price,
+        'vat_percentage', p.vat_percentage,
+        'max_per_order', p.max_per_order,
+        'stock_total', p.stock_total,
+        'available_count', CASE
+          WHEN p.stock_total IS NULL THEN NULL
+          ELSE GREATEST(p.stock_total - COALESCE(sold.qty, 0), 0)
+        END,
+        'is_sold_out', p.stock_total IS NOT NULL AND p.stock_total <= COALESCE(sold.qty, 0),
+        'variants', COALESCE(variants.list, '[]'::jsonb)
+      ) AS product_row
+    FROM products p
+    LEFT JOIN LATERAL (
+      SELECT SUM(oi.quantity) AS qty
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE oi.product_id = p.id
+        AND o.status IN ('pending', 'paid')
+    ) sold ON true
+    LEFT JOIN LATERAL (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', pv.id,
+          'name', pv.name,
+          'price', GREATEST(p.price + pv.price_adjustment, 0),
+          'stock_total', pv.stock_total,
+          'available_count', CASE
+            WHEN pv.stock_total IS NULL THEN NULL
+            ELSE GREATEST(pv.stock_total - COALESCE(vsold.qty, 0), 0)
+          END,
+          'is_sold_out', pv.stock_total IS NOT NULL AND pv.stock_total <= COALESCE(vsold.qty, 0)
+        ) ORDER BY pv.sort_order, pv.name
+      ) AS list
+      FROM product_variants pv
+      LEFT JOIN LATERAL (
+        SELECT SUM(oi.quantity) AS qty
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.product_variant_id = pv.id
+          AND o.status IN ('pending', 'paid')
+      ) vsold ON true
+      WHERE pv.product_id = p.id
+        AND pv.deleted_at IS NULL
+    ) variants ON true
+    WHERE p.event_id = _event_id
+      AND p.status = 'published'
+      AND p.deleted_at IS NULL
+  ) sub;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'event_id', _event_id,
+    'products', v_products
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_product_availability(UUID) IS
+  'Returns published add-on products for an event with variants and remaining stock.';
+
+GRANT EXECUTE ON FUNCTION public.get_product_availability(UUID) TO anon, authenticated;
+
+-- ===========================================================================
+-- 9. RPC: validate_checkout_capacity (EXTENDED)
+-- ===========================================================================
+-- Items kunnen nu ticketregels OF productregels zijn:
+--   {ticket_type_id, quantity}
+--   {product_id, product_variant_id?, quantity}
+-- Productregels locken product/variant rij (FOR UPDATE SKIP LOCKED) zodat
+-- voorraad net als ticket capacity atomisch gecontroleerd wordt.
+
+DROP FUNCTION IF EXISTS public.validate_checkout_capacity(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.validate_checkout_capacity(
+  _event_id UUID,
+  _items JSONB  -- Array: [{ticket_type_id: uuid, quantity: int} | {product_id: uuid, product_variant_id?: uuid, quantity: int}]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_ticket_type_id UUID;
+  v_product_id UUID;
+  v_variant_id UUID;
+  v_quantity INT;
+  v_ticket_type RECORD;
+  v_product RECORD;
+  v_variant RECORD;
+  v_has_variants BOOLEAN;
+  v_stock_total INT;
+  v_unit_price NUMERIC(10,2);
+  v_sold_count INT;
+  v_available INT;
+  v_details JSONB := '[]'::JSONB;
+  v_is_valid BOOLEAN := TRUE;
+  v_total_price NUMERIC(10,2) := 0;
+BEGIN
+  -- Iterate over requested items
+  FOR v_item IN SELECT jsonb_array_elements(_items)
+  LOOP
+    v_ticket_type_id := (v_item->>'ticket_type_id')::UUID;
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_variant_id := (v_item->>'product_variant_id')::UUID;
+    v_quantity := (v_item->>'quantity')::INT;
+
+    IF v_quantity < 1 THEN
+      RETURN jsonb_build_object(
+        'valid', false,
+        'error', 'INVALID_QUANTITY',
+        'details', jsonb_build_array(
+          jsonb_build_object(
+            'ticket_type_id', v_ticket_type_id,
+            'product_id', v_product_id,
+            'reason', 'Quantity must be >= 1'
+          )
+        )
+      );
+    END IF;
+
+    -- -----------------------------------------------------------------
+    -- PRODUCT LINE
+    -- -----------------------------------------------------------------
+    IF v_product_id IS NOT NULL THEN
+      SELECT p.id, p.name, p.price, p.status, p.stock_total, p.max_per_order
+      INTO v_product
+      FROM public.products p
+      WHERE p.id = v_product_id
+        AND p.event_id = _event_id
+        AND p.deleted_at IS NULL
+      FOR UPDATE SKIP LOCKED;
+
+      IF NOT FOUND THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'reason', 'Product not found or locked by concurrent request'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      IF v_product.status != 'published' THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_name', v_product.name,
+            'reason', 'Product is not available'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      IF v_product.max_per_order IS NOT NULL AND v_quantity > v_product.max_per_order THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_name', v_product.name,
+            'max_per_order', v_product.max_per_order,
+            'requested', v_quantity,
+            'reason', 'Exceeds max per order'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      SELECT EXISTS (
+        SELECT 1 FROM public.product_variants pv
+        WHERE pv.product_id = v_product_id AND pv.deleted_at IS NULL
+      ) INTO v_has_variants;
+
+      IF v_has_variants THEN
+        -- Variant verplicht als het product varianten heeft
+        SELECT pv.id, pv.name, pv.price_adjustment, pv.stock_total
+        INTO v_variant
+        FROM public.product_variants pv
+        WHERE pv.id = v_variant_id
+          AND pv.product_id = v_product_id
+          AND pv.deleted_at IS NULL
+        FOR UPDATE SKIP LOCKED;
+
+        IF NOT FOUND THEN
+          v_is_valid := FALSE;
+          v_details := v_details || jsonb_build_array(
+            jsonb_build_object(
+              'product_id', v_product_id,
+              'product_variant_id', v_variant_id,
+              'product_name', v_product.name,
+              'reason', 'Variant required, not found or locked by concurrent request'
+            )
+          );
+          CONTINUE;
+        END IF;
+
+        v_stock_total := v_variant.stock_total;
+        v_unit_price := GREATEST(v_product.price + v_variant.price_adjustment, 0);
+
+        SELECT COALESCE(SUM(oi.quantity), 0) INTO v_sold_count
+        FROM public.order_items oi
+        JOIN public.orders o ON oi.order_id = o.id
+        WHERE oi.product_variant_id = v_variant_id
+          AND o.status IN ('pending', 'paid');
+      ELSE
+        IF v_variant_id IS NOT NULL THEN
+          v_is_valid := FALSE;
+          v_details := v_details || jsonb_build_array(
+            jsonb_build_object(
+              'product_id', v_product_id,
+              'product_variant_id', v_variant_id,
+              'reason', 'Product has no variants'
+            )
+          );
+          CONTINUE;
+        END IF;
+
+        v_stock_total := v_product.stock_total;
+        v_unit_price := v_product.price;
+
+        SELECT COALESCE(SUM(oi.quantity), 0) INTO v_sold_count
+        FROM public.order_items oi
+        JOIN public.orders o ON oi.order_id = o.id
+        WHERE oi.product_id = v_product_id
+          AND o.status IN ('pending', 'paid');
+      END IF;
+
+      -- NULL stock = onbeperkt
+      v_available := CASE WHEN v_stock_total IS NULL THEN NULL ELSE v_stock_total - v_sold_count END;
+
+      IF v_available IS NOT NULL AND v_available < v_quantity THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_variant_id', v_variant_id,
+            'product_name', v_product.name,
+            'variant_name', CASE WHEN v_has_variants THEN v_variant.name END,
+            'stock_total', v_stock_total,
+            'sold_count', v_sold_count,
+            'available', v_available,
+            'requested', v_quantity,
+            'reason', 'Insufficient stock'
+          )
+        );
+      ELSE
+        v_total_price := v_total_price + (v_unit_price * v_quantity);
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'line_type', 'product',
+            'product_id', v_product_id,
+            'product_variant_id', CASE WHEN v_has_variants THEN v_variant_id END,
+            'product_name', v_product.name,
+            'variant_name', CASE WHEN v_has_variants THEN v_variant.name END,
+            'price', v_unit_price,
+            'quantity', v_quantity,
+            'line_total', v_unit_price * v_quantity,
+            'available', v_available,
+            'status', 'OK'
+          )
+        );
+      END IF;
+
+      CONTINUE;
+    END IF;
+
+    -- -----------------------------------------------------------------
+    -- TICKET LINE
+    -- -----------------------------------------------------------------
+
+    -- Lock ticket_type row for atomic capacity check
+    SELECT tt.id, tt.name, tt.price, tt.capacity_total, tt.sales_start, tt.sales_end
+    INTO v_ticket_type
+    FROM public.ticket_types tt
+    WHERE tt.id = v_ticket_type_id
+      AND tt.event_id = _event_id
+      AND tt.deleted_at IS NULL
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'reason', 'Ticket type not found or locked by concurrent request'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    -- Sales window check
+    IF v_ticket_type.sales_start IS NOT NULL AND NOW() < v_ticket_type.sales_start THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'reason', 'Sales have not started yet'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    IF v_ticket_type.sales_end IS NOT NULL AND NOW() > v_ticket_type.sales_end THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'reason', 'Sales have ended'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    -- Count sold tickets (issued + checked_in, not void)
+    SELECT COALESCE(SUM(oi.quantity), 0) INTO v_sold_count
+    FROM public.order_items oi
+    JOIN public.orders o ON oi.order_id = o.id
+    WHERE oi.ticket_type_id = v_ticket_type_id
+      AND o.status IN ('pending', 'paid');
+
+    v_available := v_ticket_type.capacity_total - v_sold_count;
+
+    IF v_available < v_quantity THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'capacity_total', v_ticket_type.capacity_total,
+          'sold_count', v_sold_count,
+          'available', v_available,
+          'requested', v_quantity,
+          'reason', 'Insufficient capacity'
+        )
+      );
+    ELSE
+      -- Accumulate price
+      v_total_price := v_total_price + (v_ticket_type.price * v_quantity);
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'line_type', 'ticket',
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'price', v_ticket_type.price,
+          'quantity', v_quantity,
+          'line_total', v_ticket_type.price * v_quantity,
+          'available', v_available,
+          'status', 'OK'
+        )
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'valid', v_is_valid,
+    'total_price', v_total_price,
+    'details', v_details
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_checkout_capacity(UUID, JSONB) TO service_role;
+
+-- ===========================================================================
+-- 10. RPC: calculate_order_pricing (EXTENDED)
+-- ===========================================================================
+-- Productregels worden opnieuw geprijsd vanuit de catalogus (nooit client
+-- prijzen vertrouwen). Kortingen gelden alleen voor ticketregels: de
+-- discount-engine werkt per ticket_type.
+
+CREATE OR REPLACE FUNCTION calculate_order_pricing(
+    _order_id UUID,
+    _invitation_code TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    v_order RECORD;
+    v_subtotal NUMERIC := 0;
+    v_ticket_subtotal NUMERIC := 0;
+    v_products_subtotal NUMERIC := 0;
+    v_discount_id UUID;
+    v_discount_amount NUMERIC := 0;
+    v_discount_type discount_type_enum;
+    v_discount_value NUMERIC;
+    v_invitation_code_id UUID;
+    v_ticket_quantity INTEGER := 0;
+    v_validation_result JSONB;
+BEGIN
+    -- 1. FETCH ORDER
+    SELECT o.*, e.org_id INTO v_order
+    FROM orders o
+    JOIN events e ON e.id = o.event_id
+    WHERE o.id = _order_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'ORDER_NOT_FOUND'
+        );
+    END IF;
+
+    -- 2. REPRICE PRODUCT LINES FROM CATALOGUE
+    UPDATE order_items oi SET
+        unit_price = GREATEST(p.price + pv.price_adjustment, 0),
+        total_price = GREATEST(p.price + pv.price_adjustment, 0) * oi.quantity
+    FROM products p
+    JOIN product_variants pv ON pv.product_id = p.id
+    WHERE oi.order_id = _order_id
+      AND oi.product_id = p.id
+      AND oi.product_variant_id = pv.id;
+
+    UPDATE order_items oi SET
+        unit_price = p.price,
+        total_price = p.price * oi.quantity
+    FROM products p
+    WHERE oi.order_id = _order_id
+      AND oi.product_id = p.id
+      AND oi.product_variant_id IS NULL;
+
+    -- 3. CALCULATE SUBTOTALS (tickets vs products)
+    SELECT
+        COALESCE(SUM(total_price) FILTER (WHERE ticket_type_id IS NOT NULL), 0),
+        COALESCE(SUM(quantity) FILTER (WHERE ticket_type_id IS NOT NULL), 0),
+        COALESCE(SUM(total_price) FILTER (WHERE ticket_type_id IS NULL), 0)
+    INTO v_ticket_subtotal, v_ticket_quantity, v_products_subtotal
+    FROM order_items
+    WHERE order_id = _order_id;
+
+    v_subtotal := v_ticket_subtotal + v_products_subtotal;
+
+    -- 4. VALIDATE INVITATION CODE (if provided)
+    IF _invitation_code IS NOT NULL THEN
+        SELECT validate_invitation_code_usage(
+            _invitation_code,
+            v_order.event_id,
+            v_order.email
+        ) INTO v_validation_result;
+
+        IF NOT (v_validation_result->>'valid')::boolean THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'INVALID_INVITATION_CODE',
+                'details', v_validation_result
+            );
+        END IF;
+
+        v_invitation_code_id := (v_validation_result->>'code_id')::uuid;
+
+        -- Record invitation code use (idempotent)
+        PERFORM record_invitation_code_use(
+            v_invitation_code_id,
+            _order_id,
+            v_order.user_id,
+            v_order.email
+        );
+    END IF;
+
+    -- 5. FIND BEST APPLICABLE DISCOUNT (ticket lines only)
+    IF v_ticket_quantity > 0 THEN
+        SELECT
+            discount_id,
+            discount_type,
+            discount_value
+        INTO v_discount_id, v_discount_type, v_discount_value
+        FROM get_applicable_discounts(
+            v_order.event_id,
+            (SELECT ticket_type_id FROM order_items
+             WHERE order_id = _order_id AND ticket_type_id IS NOT NULL
+             LIMIT 1),
+            v_ticket_quantity,
+            v_ticket_subtotal,
+            v_invitation_code_id
+        )
+        LIMIT 1; -- Best discount (highest tier, highest value)
+    END IF;
+
+    -- 6. CALCULATE DISCOUNT AMOUNT
+    IF v_discount_id IS NOT NULL THEN
+        v_discount_amount := calculate_discount_amount(
+            v_discount_type,
+            v_discount_value,
+            v_ticket_subtotal
+        );
+
+        -- Record discount application (idempotent)
+        PERFORM record_discount_application(
+            v_discount_id,
+            _order_id,
+            NULL, -- order-level discount
+            v_order.user_id,
+            v_discount_type,
+            v_discount_value,
+            v_discount_amount
+        );
+    END IF;
+
+    -- 7. UPDATE ORDER
+    UPDATE orders SET
+        org_id = v_order.org_id,
+        invitation_code_id = v_invitation_code_id,
+        discount_id = v_discount_id,
+        subtotal_amount = v_subtotal,
+        discount_amount = v_discount_amount,
+        total_amount = v_subtotal - v_discount_amount,
+        updated_at = NOW()
+    WHERE id = _order_id;
+
+    -- 8. RETURN PRICING BREAKDOWN
+    RETURN jsonb_build_object(
+        'success', true,
+        'order_id', _order_id,
+        'subtotal', v_subtotal,
+        'tickets_subtotal', v_ticket_subtotal,
+        'products_subtotal', v_products_subtotal,
+        'discount_amount', v_discount_amount,
+        'total_amount', v_subtotal - v_discount_amount,
+        'currency', v_order.currency,
+        'discount_id', v_discount_id,
+        'invitation_code_id', v_invitation_code_id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION calculate_order_pricing IS 'Calculates order pricing with discounts and invitation codes. Reprices product lines from the catalogue; discounts apply to ticket lines only. Updates order record.';
+
+-- ===========================================================================
+-- 11. FUNCTION: create_order_pick_list
+-- ===========================================================================
+-- Idempotent: één picklijst-regel per productregel (UNIQUE order_item_id).
+
+CREATE OR REPLACE FUNCTION public.create_order_pick_list(_order_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created INTEGER := 0;
+BEGIN
+  INSERT INTO public.order_pick_list_items (
+    event_id,
+    order_id,
+    order_item_id,
+    product_id,
+    product_variant_id,
+    quantity
+  )
+  SELECT
+    o.event_id,
+    o.id,
+    oi.id,
+    oi.product_id,
+    oi.product_variant_id,
+    oi.quantity
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  WHERE oi.order_id = _order_id
+    AND oi.product_id IS NOT NULL
+    AND o.status = 'paid'
+  ON CONFLICT (order_item_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_order_pick_list(UUID) IS
+  'Creates pick list rows for the product lines of a paid order. Idempotent.';
+
+REVOKE ALL ON FUNCTION public.create_order_pick_list(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_order_pick_list(UUID) TO service_role;
+
+-- ===========================================================================
+-- 12. RPC: fulfill_order (EXTENDED)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. 20240122164500_add_fulfill_order_rpc behalve de aanroep
+-- van create_order_pick_list: productregels → order_pick_list_items.
+
+drop function if exists public.fulfill_order(uuid);
+
+create or replace function public.fulfill_order(_order_id uuid)
+returns table (ticket_instance_id uuid, order_item_id uuid, ticket_type_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order record;
+begin
+  -- Lock order row (avoid concurrent double-fulfillment)
+  select *
+    into v_order
+  from public.orders
+  where id = _order_id
+  for update;
+
+  if not found then
+    raise exception 'Order % not found', _order_id;
+  end if;
+
+  if v_order.status <> 'paid' then
+    raise exception 'Order % is not paid (status=%)', _order_id, v_order.status;
+  end if;
+
+  -- Productregels: picklijst i.p.v. ticket_instances
+  perform public.create_order_pick_list(_order_id);
+
+  /*
+    Idempotency strategy:
+    - For each order_item: we count existing ticket_instances linked to that order_item_id
+    - If less than quantity, we insert the remaining number
+  */
+  return query
+  with oi as (
+    select
+      i.id as order_item_id,
+      i.ticket_type_id,
+      i.quantity,
+      o.id as order_id,
+      o.event_id,
+      o.user_id as owner_user_id
+    from public.order_items i
+    join public.orders o on o.id = i.order_id
+    where i.order_id = _order_id
+      and i.ticket_type_id is not null
+  ),
+  checks as (
+    select
+      oi.*,
+      tt.status as ticket_type_status,
+      tt.deleted_at as ticket_type_deleted_at,
+      tt.sales_start,
+      tt.sales_end,
+      tt.capacity_total,
+      -- current issued count for capacity (ignores deleted)
+      (select count(*) from public.ticket_instances ti
+        where ti.ticket_type_id = oi.ticket_type_id
+          and ti.deleted_at is null
+      ) as currently_issued,
+      -- existing count for this order_item (idempotency)
+      (select count(*) from public.ticket_instances ti
+        where ti.order_item_id = oi.order_item_id
+          and ti.deleted_at is null
+      ) as already_for_item
+    from oi
+    join public.ticket_types tt on tt.id = oi.ticket_type_id
+  ),
+  validated as (
+    select *
+    from checks
+    where ticket_type_deleted_at is null
+      and ticket_type_status = 'published'
+      -- We skip sales window check for fulfillment because the order was already created validly
+      -- and we must honor paid orders even if window closed in the meantime.
+  ),
+  to_insert as (
+    select
+      v.*,
+      greatest(v.quantity - v.already_for_item, 0) as remaining
+    from validated v
+  ),
+  enforce as (
+    select *
+    from to_insert
+  )
+  select
+    ti.id as ticket_instance_id,
+    ti.order_item_id,
+    ti.ticket_type_id
+  from enforce e
+  join lateral (
+    select *
+    from generate_series(1, e.remaining)
+  ) gs(n) on true
+  join lateral (
+    insert into public.ticket_instances (
+        event_id, 
+        ticket_type_id, 
+        order_id, 
+        owner_user_id, 
+        order_item_id,
+        status,
+        qr_code
+    )
+    values (
+        e.event_id, 
+        e.ticket_type_id, 
+        e.order_id, 
+        e.owner_user_id, 
+        e.order_item_id,
+        'valid', -- Default to valid upon fulfillment
+        encode(gen_random_bytes(16), 'hex') -- Generate a random QR code
+    )
+    returning *
+  ) ti on true;
+
+end;
+$$;
+
+revoke all on function public.fulfill_order(uuid) from public;
+grant execute on function public.fulfill_order(uuid) to service_role;
+
+-- ===========================================================================
+-- 13. TRIGGER: create_pick_list_on_order_paid
+-- ===========================================================================
+-- handle_payment_webhook en de gratis flow in create-order-public geven
+-- tickets zelf uit en roepen fulfill_order niet aan. Deze trigger zorgt dat
+-- de picklijst ook op die paden ontstaat (zelfde patroon als
+-- sync_registration_on_order_paid).
+
+CREATE OR REPLACE FUNCTION create_pick_list_on_order_paid()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'paid' AND (OLD IS NULL OR OLD.status IS DISTINCT FROM 'paid') THEN
+    PERFORM public.create_order_pick_list(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS create_pick_list_on_order_paid_trigger ON orders;
+CREATE TRIGGER create_pick_list_on_order_paid_trigger
+AFTER UPDATE ON orders
+FOR EACH ROW
+EXECUTE FUNCTION create_pick_list_on_order_paid();
+
+-- ===========================================================================
+-- 14. RPC: get_event_pick_list (org members)
+-- ===========================================================================
+-- Overzicht per product/variant (totalen) + regels per order.
+
+CREATE OR REPLACE FUNCTION public.get_event_pick_list(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_summary JSONB;
+  v_lines JSONB;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id AND deleted_at IS NULL;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(row_data ORDER BY product_name, variant_name NULLS FIRST), '[]'::jsonb)
+  INTO v_summary
+  FROM (
+    SELECT
+      p.name AS product_name,
+      pv.name AS variant_name,
+      jsonb_build_object(
+        'product_id', p.id,
+        'product_name', p.name,
+        'product_variant_id', pv.id,
+        'variant_name', pv.name,
+        'total_quantity', COALESCE(SUM(pli.quantity) FILTER (WHERE pli.status <> 'cancelled'), 0),
+        'picked_quantity', COALESCE(SUM(pli.quantity) FILTER (WHERE pli.status = 'picked'), 0),
+        'pending_quantity', COALESCE(SUM(pli.quantity) FILTER (WHERE pli.status = 'pending'), 0)
+      ) AS row_data
+    FROM order_pick_list_items pli
+    JOIN products p ON p.id = pli.product_id
+    LEFT JOIN product_variants pv ON pv.id = pli.product_variant_id
+    WHERE pli.event_id = _event_id
+    GROUP BY p.id, p.name, pv.id, pv.name
+  ) s;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', pli.id,
+      'order_id', pli.order_id,
+      'order_email', o.email,
+      'purchaser_name', o.purchaser_name,
+      'product_id', pli.product_id,
+      'product_name', p.name,
+      'product_variant_id', pli.product_variant_id,
+      'variant_name', pv.name,
+      'quantity', pli.quantity,
+      'status', pli.status,
+      'picked_at', pli.picked_at,
+      'created_at', pli.created_at
+    ) ORDER BY pli.created_at
+  ), '[]'::jsonb)
+  INTO v_lines
+  FROM order_pick_list_items pli
+  JOIN orders o ON o.id = pli.order_id
+  JOIN products p ON p.id = pli.product_id
+  LEFT JOIN product_variants pv ON pv.id = pli.product_variant_id
+  WHERE pli.event_id = _event_id;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'event_id', _event_id,
+    'summary', v_summary,
+    'lines', v_lines
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_event_pick_list(UUID) IS
+  'Returns the product pick list for an event: totals per product/variant and lines per order.';
+
+GRANT EXECUTE ON FUNCTION public.get_event_pick_list(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 15. GRANT PERMISSIONS
+-- ===========================================================================
+
+GRANT SELECT ON products TO authenticated, anon;
+GRANT INSERT, UPDATE, DELETE ON products TO authenticated;
+GRANT SELECT ON product_variants TO authenticated, anon;
+GRANT INSERT, UPDATE, DELETE ON product_variants TO authenticated;
+GRANT SELECT, UPDATE ON order_pick_list_items TO authenticated;
+
+-- ===========================================================================
+-- 16. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_name = 'order_items' AND column_name = 'product_id') THEN
+    RAISE EXCEPTION 'order_items.product_id not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'create_order_pick_list') THEN
+    RAISE EXCEPTION 'create_order_pick_list not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_product_availability') THEN
+    RAISE EXCEPTION 'get_product_availability not created';
+  END IF;
+  RAISE NOTICE 'F015: Products & add-ons created successfully';
+END $$;
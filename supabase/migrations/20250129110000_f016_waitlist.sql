@@ -0,0 +1,1322 @@
+-- ===========================================================================
+-- F016: Waitlist
+-- Migration: 20250129110000_f016_waitlist.sql
+--
+-- Purpose:
+-- - Wachtlijst per uitverkocht tickettype (waitlist_entries)
+-- - Vrijgekomen capaciteit (refund / geannuleerde order / hogere capaciteit)
+--   gaat als tijdelijk aanbod naar de volgende in de rij (waitlist_offers)
+-- - Aanbod wordt gemaild via queue_email met een link naar een
+--   gereserveerde checkout (/e/:slug?offer=<token>)
+-- - Capaciteit van openstaande aanbiedingen wordt vastgehouden in
+--   validate_checkout_capacity en get_ticket_availability
+-- - Fix: is_waitlist_enabled las een genest pad dat set_event_config nooit schrijft
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: waitlist_entries
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  ticket_type_id UUID NOT NULL REFERENCES ticket_types(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  email TEXT NOT NULL,
+  name TEXT,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'waiting',
+  -- Origin van de checkout waar iemand zich aanmeldde (voor de link in de aanbod-mail)
+  site_origin TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT waitlist_entries_quantity_check CHECK (quantity BETWEEN 1 AND 10),
+  CONSTRAINT waitlist_entries_status_check CHECK (status IN ('waiting', 'offered', 'converted', 'expired', 'cancelled'))
+);
+
+COMMENT ON TABLE waitlist_entries IS
+  'Queue of people waiting for a sold-out ticket type. Position = created_at order within the ticket type.';
+COMMENT ON COLUMN waitlist_entries.status IS 'waiting=in de rij, offered=aanbod loopt, converted=order geplaatst, expired=aanbod verlopen, cancelled=afgemeld';
+
+-- ===========================================================================
+-- 2. TABLE: waitlist_offers
+-- ===========================================================================
+-- Een aanbod reserveert `quantity` plekken tot expires_at. Alleen de hash van
+-- het token wordt opgeslagen; het ruwe token staat alleen in de e-mail.
+
+CREATE TABLE IF NOT EXISTS waitlist_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  ticket_type_id UUID NOT NULL REFERENCES ticket_types(id) ON DELETE CASCADE,
+
+  quantity INTEGER NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending',
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  email_id UUID REFERENCES email_outbox(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT waitlist_offers_quantity_check CHECK (quantity > 0),
+  CONSTRAINT waitlist_offers_status_check CHECK (status IN ('pending', 'accepted', 'expired', 'cancelled'))
+);
+
+COMMENT ON TABLE waitlist_offers IS
+  'Time-limited offer to a waitlist entry. Pending offers hold capacity until expires_at.';
+
+-- ===========================================================================
+-- 3. INDEXES
+-- ===========================================================================
+
+-- Eén actieve inschrijving per e-mailadres per tickettype
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_entries_active_unique
+  ON waitlist_entries(ticket_type_id, lower(email))
+  WHERE status IN ('waiting', 'offered');
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_queue
+  ON waitlist_entries(ticket_type_id, created_at)
+  WHERE status = 'waiting';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_event
+  ON waitlist_entries(event_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_pending
+  ON waitlist_offers(ticket_type_id, expires_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_entry
+  ON waitlist_offers(entry_id);
+
+-- ===========================================================================
+-- 4. RLS POLICIES
+-- ===========================================================================
+-- Geen public policies: aanmelden en aanbod opvragen gaat via RPCs.
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+-- waitlist_entries ------------------------------------------------------
+
+CREATE POLICY "Org admins can manage waitlist entries"
+  ON waitlist_entries
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = waitlist_entries.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = waitlist_entries.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view waitlist entries"
+  ON waitlist_entries
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = waitlist_entries.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+-- waitlist_offers -------------------------------------------------------
+-- Geen INSERT policy: aanbiedingen worden alleen door process_waitlist gemaakt.
+
+CREATE POLICY "Org members can view waitlist offers"
+  ON waitlist_offers
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = waitlist_offers.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Org admins can cancel waitlist offers"
+  ON waitlist_offers
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = waitlist_offers.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = waitlist_offers.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+-- ===========================================================================
+-- 5. TRIGGERS FOR UPDATED_AT
+-- ===========================================================================
+
+CREATE TRIGGER handle_updated_at_waitlist_entries
+  BEFORE UPDATE ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+CREATE TRIGGER handle_updated_at_waitlist_offers
+  BEFORE UPDATE ON waitlist_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+-- ===========================================================================
+-- 6. FIX: is_waitlist_enabled
+-- ===========================================================================
+-- set_event_config / set_org_setting slaan het domein plat op ({"enabled": true}),
+-- de sprint 9 versie las setting_value->'waitlist'->>'enabled' en gaf dus
+-- altijd false terug.
+
+CREATE OR REPLACE FUNCTION public.is_waitlist_enabled(_event_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _org_id uuid;
+    _val boolean;
+BEGIN
+    SELECT org_id INTO _org_id FROM public.events WHERE id = _event_id;
+
+    -- 1. Event Override
+    SELECT (setting_value->>'enabled')::boolean INTO _val
+    FROM public.event_settings
+    WHERE event_id = _event_id AND domain = 'waitlist';
+
+    IF _val IS NOT NULL THEN
+        RETURN _val;
+    END IF;
+
+    -- 2. Org Override
+    SELECT (setting_value->>'enabled')::boolean INTO _val
+    FROM public.org_settings
+    WHERE org_id = _org_id AND domain = 'waitlist';
+
+    IF _val IS NOT NULL THEN
+        RETURN _val;
+    END IF;
+
+    -- 3. Default
+    RETURN false;
+END;
+$$;
+
+COMMENT ON FUNCTION public.is_waitlist_enabled IS 'Returns true if waitlist is enabled for this event. Public-safe.';
+
+-- ===========================================================================
+-- 7. HELPER: get_ticket_type_free_capacity
+-- ===========================================================================
+-- Vrije plekken = capacity_total
+--   - tickets in pending/paid orders (zelfde regel als validate_checkout_capacity)
+--   - plekken vastgehouden door lopende waitlist aanbiedingen
+-- _exclude_offer_id: het aanbod dat nu verzilverd wordt telt niet mee.
+
+CREATE OR REPLACE FUNCTION public.get_ticket_type_free_capacity(
+  _ticket_type_id UUID,
+  _exclude_offer_id UUID DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT tt.capacity_total
+    - COALESCE((
+        SELECT SUM(oi.quantity)
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.ticket_type_id = tt.id
+          AND o.status IN ('pending', 'paid')
+      ), 0)::INT
+    - COALESCE((
+        SELECT SUM(wo.quantity)
+        FROM waitlist_offers wo
+        WHERE wo.ticket_type_id = tt.id
+          AND wo.status = 'pending'
+          AND wo.expires_at > NOW()
+          AND (_exclude_offer_id IS NULL OR wo.id != _exclude_offer_id)
+      ), 0)::INT
+  FROM ticket_types tt
+  WHERE tt.id = _ticket_type_id;
+$$;
+
+COMMENT ON FUNCTION public.get_ticket_type_free_capacity(UUID, UUID) IS
+  'Free places for a ticket type: capacity minus pending/paid order lines minus held waitlist offers.';
+
+GRANT EXECUTE ON FUNCTION public.get_ticket_type_free_capacity(UUID, UUID) TO anon, authenticated;
+
+-- ===========================================================================
+-- 8. RPC: join_waitlist (public)
+-- ===========================================================================
+-- Alleen voor uitverkochte tickettypes van gepubliceerde events met wachtlijst aan.
+-- De origin van het request (PostgREST request.headers) wordt bewaard zodat de
+-- aanbod-mail naar dezelfde checkout linkt, net als create-order-public doet
+-- voor de Mollie redirect.
+
+CREATE OR REPLACE FUNCTION public.join_waitlist(
+  _ticket_type_id UUID,
+  _email TEXT,
+  _name TEXT DEFAULT NULL,
+  _quantity INT DEFAULT 1
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket RECORD;
+  v_email TEXT;
+  v_free INT;
+  v_origin TEXT;
+  v_entry_id UUID;
+  v_position INT;
+BEGIN
+  v_email := lower(trim(_email));
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN jsonb_build_object('error', 'INVALID_EMAIL');
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 OR _quantity > 10 THEN
+    RETURN jsonb_build_object('error', 'INVALID_QUANTITY');
+  END IF;
+
+  SELECT tt.id, tt.event_id, tt.name, tt.max_per_participant
+  INTO v_ticket
+  FROM ticket_types tt
+  JOIN events e ON e.id = tt.event_id
+  WHERE tt.id = _ticket_type_id
+    AND tt.deleted_at IS NULL
+    AND tt.status = 'published'
+    AND tt.visibility = 'visible'
+    AND e.status = 'published'
+    AND e.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TICKET_TYPE_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_waitlist_enabled(v_ticket.event_id) THEN
+    RETURN jsonb_build_object('error', 'WAITLIST_DISABLED');
+  END IF;
+
+  IF v_ticket.max_per_participant IS NOT NULL AND _quantity > v_ticket.max_per_participant THEN
+    RETURN jsonb_build_object('error', 'EXCEEDS_MAX_PER_PARTICIPANT', 'max_allowed', v_ticket.max_per_participant);
+  END IF;
+
+  v_free := public.get_ticket_type_free_capacity(_ticket_type_id);
+  IF v_free >= _quantity THEN
+    RETURN jsonb_build_object('error', 'NOT_SOLD_OUT', 'available', v_free);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM waitlist_entries we
+    WHERE we.ticket_type_id = _ticket_type_id
+      AND lower(we.email) = v_email
+      AND we.status IN ('waiting', 'offered')
+  ) THEN
+    RETURN jsonb_build_object('error', 'ALREADY_ON_WAITLIST');
+  END IF;
+
+  v_origin := NULLIF(current_setting('request.headers', true), '')::jsonb->>'origin';
+  IF v_origin IS NOT NULL AND v_origin !~ '^https?://[A-Za-z0-9.-]+(:[0-9]+)?$' THEN
+    v_origin := NULL;
+  END IF;
+
+  INSERT INTO waitlist_entries (event_id, ticket_type_id, user_id, email, name, quantity, site_origin)
+  VALUES (v_ticket.event_id, _ticket_type_id, auth.uid(), v_email, NULLIF(trim(_name), ''), _quantity, v_origin)
+  RETURNING id INTO v_entry_id;
+
+  SELECT COUNT(*) INTO v_position
+  FROM waitlist_entries we
+  WHERE we.ticket_type_id = _ticket_type_id
+    AND we.status = 'waiting'
+    AND we.created_at <= (SELECT created_at FROM waitlist_entries WHERE id = v_entry_id);
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'entry_id', v_entry_id,
+    'ticket_type_id', _ticket_type_id,
+    'ticket_name', v_ticket.name,
+    'position', v_position
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.join_waitlist(UUID, TEXT, TEXT, INT) IS
+  'Public: join the waitlist of a sold-out ticket type. Returns queue position.';
+
+GRANT EXECUTE ON FUNCTION public.join_waitlist(UUID, TEXT, TEXT, INT) TO anon, authenticated;
+
+-- ===========================================================================
+-- 9. FUNCTION: process_waitlist (system)
+-- ===========================================================================
+-- Geeft vrije plekken als aanbod aan de wachtenden, strikt in volgorde:
+-- past de eerste in de rij niet, dan krijgt niemand achter hem/haar voorrang.
+-- Aangeroepen na refunds, geannuleerde orders, verlopen aanbiedingen en
+-- capaciteitsverhoging. Idempotent: zonder vrije plekken gebeurt er niets.
+
+CREATE OR REPLACE FUNCTION public.process_waitlist(
+  _ticket_type_id UUID,
+  _offer_hours INT DEFAULT 24
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket RECORD;
+  v_entry RECORD;
+  v_free INT;
+  v_token TEXT;
+  v_offer_id UUID;
+  v_expires_at TIMESTAMPTZ;
+  v_link TEXT;
+  v_email_id UUID;
+  v_count INT := 0;
+BEGIN
+  -- Lock tickettype zodat twee processen niet dezelfde plek aanbieden
+  SELECT tt.id, tt.name, tt.event_id, e.org_id, e.slug, e.name AS event_name, e.status AS event_status
+  INTO v_ticket
+  FROM ticket_types tt
+  JOIN events e ON e.id = tt.event_id
+  WHERE tt.id = _ticket_type_id
+    AND tt.deleted_at IS NULL
+    AND e.deleted_at IS NULL
+  FOR UPDATE OF tt;
+
+  IF NOT FOUND OR v_ticket.event_status != 'published' THEN
+    RETURN 0;
+  END IF;
+
+  IF NOT public.is_waitlist_enabled(v_ticket.event_id) THEN
+    RETURN 0;
+  END IF;
+
+  v_free := public.get_ticket_type_free_capacity(_ticket_type_id);
+
+  FOR v_entry IN
+    SELECT we.id, we.email, we.quantity, we.site_origin
+    FROM waitlist_entries we
+    WHERE we.ticket_type_id = _ticket_type_id
+      AND we.status = 'waiting'
+    ORDER BY we.created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    EXIT WHEN v_entry.quantity > v_free;
+
+    v_token := encode(extensions.gen_random_bytes(32), 'hex');
+    v_expires_at := NOW() + make_interval(hours => _offer_hours);
+
+    INSERT INTO waitlist_offers (entry_id, event_id, ticket_type_id, quantity, token_hash, expires_at)
+    VALUES (
+      v_entry.id,
+      v_ticket.event_id,
+      _ticket_type_id,
+      v_entry.quantity,
+      encode(extensions.digest(v_token, 'sha256'), 'hex'),
+      v_expires_at
+    )
+    RETURNING id INTO v_offer_id;
+
+    UPDATE waitlist_entries SET status = 'offered' WHERE id = v_entry.id;
+
+    v_link := COALESCE(v_entry.site_origin, '') || '/e/' || v_ticket.slug || '?offer=' || v_token;
+
+    v_email_id := public.queue_email(
+      _org_id => v_ticket.org_id,
+      _event_id => v_ticket.event_id,
+      _idempotency_key => 'waitlist_offer:' || v_offer_id::TEXT,
+      _to_email => v_entry.email,
+      _subject => 'Er is een plek vrij: ' || v_ticket.event_name,
+      _html_body =>
+        '<p>Goed nieuws! Er is een plek vrijgekomen voor <strong>' || v_ticket.name
+        || '</strong> bij ' || v_ticket.event_name || '.</p>'
+        || '<p>We houden ' || v_entry.quantity || ' ticket(s) voor je vast tot '
+        || to_char(v_expires_at AT TIME ZONE 'Europe/Amsterdam', 'DD-MM-YYYY HH24:MI') || '.</p>'
+        || '<p><a href="' || v_link || '">Rond je bestelling af</a></p>'
+        || '<p>Daarna gaat de plek naar de volgende op de wachtlijst.</p>',
+      _text_body =>
+        'Er is een plek vrijgekomen voor ' || v_ticket.name || ' bij ' || v_ticket.event_name || '. '
+        || 'Rond je bestelling af via: ' || v_link,
+      _template_variables => jsonb_build_object(
+        'event_name', v_ticket.event_name,
+        'ticket_name', v_ticket.name,
+        'quantity', v_entry.quantity,
+        'expires_at', v_expires_at,
+        'offer_url', v_link
+      ),
+      _metadata => jsonb_build_object('waitlist_offer_id', v_offer_id, 'waitlist_entry_id', v_entry.id)
+    );
+
+    -- Niet afleverbaar (bounce / uitgeschreven): plek gaat door naar de volgende
+    IF v_email_id IS NULL THEN
+      UPDATE waitlist_offers SET status = 'cancelled' WHERE id = v_offer_id;
+      UPDATE waitlist_entries SET status = 'cancelled' WHERE id = v_entry.id;
+      CONTINUE;
+    END IF;
+
+    UPDATE waitlist_offers SET email_id = v_email_id WHERE id = v_offer_id;
+
+    v_free := v_free - v_entry.quantity;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.process_waitlist(UUID, INT) IS
+  'System: offer freed capacity to the next waitlist entries (FIFO) and email them via queue_email. Returns offers created.';
+
+REVOKE ALL ON FUNCTION public.process_waitlist(UUID, INT) FROM public;
+GRANT EXECUTE ON FUNCTION public.process_waitlist(UUID, INT) TO service_role;
+
+-- ===========================================================================
+-- 10. FUNCTION: expire_waitlist_offers (system)
+-- ===========================================================================
+-- Verlopen aanbiedingen geven hun plek door aan de volgende in de rij.
+
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers()
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+  v_ticket_type_ids UUID[];
+  v_ticket_type_id UUID;
+BEGIN
+  WITH expired AS (
+    UPDATE waitlist_offers
+    SET status = 'expired'
+    WHERE status = 'pending'
+      AND expires_at <= NOW()
+    RETURNING entry_id, ticket_type_id
+  ), expired_entries AS (
+    UPDATE waitlist_entries we
+    SET status = 'expired'
+    FROM expired
+    WHERE we.id = expired.entry_id
+      AND we.status = 'offered'
+  )
+  SELECT COUNT(*), array_agg(DISTINCT ticket_type_id)
+  INTO v_count, v_ticket_type_ids
+  FROM expired;
+
+  IF v_ticket_type_ids IS NOT NULL THEN
+    FOREACH v_ticket_type_id IN ARRAY v_ticket_type_ids
+    LOOP
+      PERFORM public.process_waitlist(v_ticket_type_id);
+    END LOOP;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.expire_waitlist_offers() IS
+  'System: expire overdue waitlist offers and pass their places to the next in line. Returns offers expired.';
+
+REVOKE ALL ON FUNCTION public.expire_waitlist_offers() FROM public;
+GRANT EXECUTE ON FUNCTION public.expire_waitlist_offers() TO service_role;
+
+-- ===========================================================================
+-- 11. RPC: get_waitlist_offer (public)
+-- ===========================================================================
+-- Opzoeken van een aanbod via het token uit de mail (gereserveerde checkout).
+
+CREATE OR REPLACE FUNCTION public.get_waitlist_offer(_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer RECORD;
+BEGIN
+  IF _token IS NULL OR length(_token) < 32 THEN
+    RETURN jsonb_build_object('error', 'OFFER_NOT_FOUND');
+  END IF;
+
+  SELECT
+    wo.id, wo.event_id, wo.ticket_type_id, wo.quantity, wo.status, wo.expires_at,
+    we.email, we.name,
+    tt.name AS ticket_name, tt.price, COALESCE(tt.currency, 'EUR') AS currency,
+    e.slug AS event_slug
+  INTO v_offer
+  FROM waitlist_offers wo
+  JOIN waitlist_entries we ON we.id = wo.entry_id
+  JOIN ticket_types tt ON tt.id = wo.ticket_type_id
+  JOIN events e ON e.id = wo.event_id
+  WHERE wo.token_hash = encode(extensions.digest(_token, 'sha256'), 'hex');
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'OFFER_NOT_FOUND');
+  END IF;
+
+  IF v_offer.status = 'accepted' THEN
+    RETURN jsonb_build_object('error', 'OFFER_ALREADY_USED');
+  END IF;
+
+  IF v_offer.status = 'cancelled' THEN
+    RETURN jsonb_build_object('error', 'OFFER_CANCELLED');
+  END IF;
+
+  IF v_offer.status = 'expired' OR v_offer.expires_at <= NOW() THEN
+    RETURN jsonb_build_object('error', 'OFFER_EXPIRED', 'expires_at', v_offer.expires_at);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'offer', jsonb_build_object(
+      'id', v_offer.id,
+      'event_id', v_offer.event_id,
+      'event_slug', v_offer.event_slug,
+      'ticket_type_id', v_offer.ticket_type_id,
+      'ticket_name', v_offer.ticket_name,
+      'price', v_offer.price,
+      'currency', v_offer.currency,
+      'quantity', v_offer.quantity,
+      'email', v_offer.email,
+      'name', v_offer.name,
+      'expires_at', v_offer.expires_at
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_waitlist_offer(TEXT) IS
+  'Public: look up a pending waitlist offer by its raw token (from the offer email).';
+
+GRANT EXECUTE ON FUNCTION public.get_waitlist_offer(TEXT) TO anon, authenticated;
+
+-- ===========================================================================
+-- 12. FUNCTION: accept_waitlist_offer (service_role)
+-- ===========================================================================
+-- Aangeroepen door create-order-public nadat de order is aangemaakt.
+-- Vanaf dan telt de pending order de plek, niet meer het aanbod.
+
+CREATE OR REPLACE FUNCTION public.accept_waitlist_offer(
+  _offer_id UUID,
+  _order_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+BEGIN
+  UPDATE waitlist_offers
+  SET status = 'accepted',
+      accepted_at = NOW(),
+      order_id = _order_id
+  WHERE id = _offer_id
+    AND status = 'pending'
+    AND expires_at > NOW()
+  RETURNING entry_id INTO v_entry_id;
+
+  IF v_entry_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'OFFER_NOT_AVAILABLE');
+  END IF;
+
+  UPDATE waitlist_entries
+  SET status = 'converted'
+  WHERE id = v_entry_id;
+
+  RETURN jsonb_build_object('success', true, 'offer_id', _offer_id, 'entry_id', v_entry_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.accept_waitlist_offer(UUID, UUID) IS
+  'Service: mark a waitlist offer accepted for an order and its entry converted.';
+
+REVOKE ALL ON FUNCTION public.accept_waitlist_offer(UUID, UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.accept_waitlist_offer(UUID, UUID) TO service_role;
+
+-- ===========================================================================
+-- 13. FUNCTION: can_join_waitlist (sold-out check)
+-- ===========================================================================
+-- Vult de TODO uit sprint 4 in: er moet minstens één uitverkocht tickettype zijn.
+
+CREATE OR REPLACE FUNCTION public.can_join_waitlist(_event_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _event_status text;
+BEGIN
+    SELECT status INTO _event_status
+    FROM public.events
+    WHERE id = _event_id AND deleted_at IS NULL;
+
+    IF NOT FOUND OR _event_status != 'published' THEN
+        RETURN false;
+    END IF;
+
+    IF NOT public.is_waitlist_enabled(_event_id) THEN
+        RETURN false;
+    END IF;
+
+    RETURN EXISTS (
+        SELECT 1 FROM public.ticket_types tt
+        WHERE tt.event_id = _event_id
+          AND tt.deleted_at IS NULL
+          AND tt.status = 'published'
+          AND tt.visibility = 'visible'
+          AND public.get_ticket_type_free_capacity(tt.id) <= 0
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.can_join_waitlist IS 'Returns true if user can join waitlist. Requires: published event, waitlist enabled, sold out. Enforcement function for checkout flow.';
+
+-- ===========================================================================
+-- 14. RPC: validate_checkout_capacity (EXTENDED)
+-- ===========================================================================
+-- Ticketregels houden nu rekening met plekken die voor lopende waitlist
+-- aanbiedingen vastgehouden worden. _waitlist_offer_id = het aanbod dat in
+-- deze checkout verzilverd wordt; die plekken zijn voor deze koper.
+
+DROP FUNCTION IF EXISTS public.validate_checkout_capacity(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.validate_checkout_capacity(
+  _event_id UUID,
+  _items JSONB,  -- Array: [{ticket_type_id: uuid, quantity: int} | {product_id: uuid, product_variant_id?: uuid, quantity: int}]
+  _waitlist_offer_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_ticket_type_id UUID;
+  v_product_id UUID;
+  v_variant_id UUID;
+  v_quantity INT;
+  v_ticket_type RECORD;
+  v_product RECORD;
+  v_variant RECORD;
+  v_has_variants BOOLEAN;
+  v_stock_total INT;
+  v_unit_price NUMERIC(10,2);
+  v_sold_count INT;
+  v_held_count INT;
+  v_available INT;
+  v_details JSONB := '[]'::JSONB;
+  v_is_valid BOOLEAN := TRUE;
+  v_total_price NUMERIC(10,2) := 0;
+BEGIN
+  -- Iterate over requested items
+  FOR v_item IN SELECT jsonb_array_elements(_items)
+  LOOP
+    v_ticket_type_id := (v_item->>'ticket_type_id')::UUID;
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_variant_id := (v_item->>'product_variant_id')::UUID;
+    v_quantity := (v_item->>'quantity')::INT;
+
+    IF v_quantity < 1 THEN
+      RETURN jsonb_build_object(
+        'valid', false,
+        'error', 'INVALID_QUANTITY',
+        'details', jsonb_build_array(
+          jsonb_build_object(
+            'ticket_type_id', v_ticket_type_id,
+            'product_id', v_product_id,
+            'reason', 'Quantity must be >= 1'
+          )
+        )
+      );
+    END IF;
+
+    -- -----------------------------------------------------------------
+    -- PRODUCT LINE
+    -- -----------------------------------------------------------------
+    IF v_product_id IS NOT NULL THEN
+      SELECT p.id, p.name, p.price, p.status, p.stock_total, p.max_per_order
+      INTO v_product
+      FROM public.products p
+      WHERE p.id = v_product_id
+        AND p.event_id = _event_id
+        AND p.deleted_at IS NULL
+      FOR UPDATE SKIP LOCKED;
+
+      IF NOT FOUND THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'reason', 'Product not found or locked by concurrent request'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      IF v_product.status != 'published' THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_name', v_product.name,
+            'reason', 'Product is not available'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      IF v_product.max_per_order IS NOT NULL AND v_quantity > v_product.max_per_order THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_name', v_product.name,
+            'max_per_order', v_product.max_per_order,
+            'requested', v_quantity,
+            'reason', 'Exceeds max per order'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      SELECT EXISTS (
+        SELECT 1 FROM public.product_variants pv
+        WHERE pv.product_id = v_product_id AND pv.deleted_at IS NULL
+      ) INTO v_has_variants;
+
+      IF v_has_variants THEN
+        -- Variant verplicht als het product varianten heeft
+        SELECT pv.id, pv.name, pv.price_adjustment, pv.stock_total
+        INTO v_variant
+        FROM public.product_variants pv
+        WHERE pv.id = v_variant_id
+          AND pv.product_id = v_product_id
+          AND pv.deleted_at IS NULL
+        FOR UPDATE SKIP LOCKED;
+
+        IF NOT FOUND THEN
+          v_is_valid := FALSE;
+          v_details := v_details || jsonb_build_array(
+            jsonb_build_object(
+              'product_id', v_product_id,
+              'product_variant_id', v_variant_id,
+              'product_name', v_product.name,
+              'reason', 'Variant required, not found or locked by concurrent request'
+            )
+          );
+          CONTINUE;
+        END IF;
+
+        v_stock_total := v_variant.stock_total;
+        v_unit_price := GREATEST(v_product.price + v_variant.price_adjustment, 0);
+
+        SELECT COALESCE(SUM(oi.quantity), 0) INTO v_sold_count
+        FROM public.order_items oi
+        JOIN public.orders o ON oi.order_id = o.id
+        WHERE oi.product_variant_id = v_variant_id
+          AND o.status IN ('pending', 'paid');
+      ELSE
+        IF v_variant_id IS NOT NULL THEN
+          v_is_valid := FALSE;
+          v_details := v_details || jsonb_build_array(
+            jsonb_build_object(
+              'product_id', v_product_id,
+              'product_variant_id', v_variant_id,
+              'reason', 'Product has no variants'
+            )
+          );
+          CONTINUE;
+        END IF;
+
+        v_stock_total := v_product.stock_total;
+        v_unit_price := v_product.price;
+
+        SELECT COALESCE(SUM(oi.quantity), 0) INTO v_sold_count
+        FROM public.order_items oi
+        JOIN public.orders o ON oi.order_id = o.id
+        WHERE oi.product_id = v_product_id
+          AND o.status IN ('pending', 'paid');
+      END IF;
+
+      -- NULL stock = onbeperkt
+      v_available := CASE WHEN v_stock_total IS NULL THEN NULL ELSE v_stock_total - v_sold_count END;
+
+      IF v_available IS NOT NULL AND v_available < v_quantity THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_variant_id', v_variant_id,
+            'product_name', v_product.name,
+            'variant_name', CASE WHEN v_has_variants THEN v_variant.name END,
+            'stock_total', v_stock_total,
+            'sold_count', v_sold_count,
+            'available', v_available,
+            'requested', v_quantity,
+            'reason', 'Insufficient stock'
+          )
+        );
+      ELSE
+        v_total_price := v_total_price + (v_unit_price * v_quantity);
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'line_type', 'product',
+            'product_id', v_product_id,
+            'product_variant_id', CASE WHEN v_has_variants THEN v_variant_id END,
+            'product_name', v_product.name,
+            'variant_name', CASE WHEN v_has_variants THEN v_variant.name END,
+            'price', v_unit_price,
+            'quantity', v_quantity,
+            'line_total', v_unit_price * v_quantity,
+            'available', v_available,
+            'status', 'OK'
+          )
+        );
+      END IF;
+
+      CONTINUE;
+    END IF;
+
+    -- -----------------------------------------------------------------
+    -- TICKET LINE
+    -- -----------------------------------------------------------------
+
+    -- Lock ticket_type row for atomic capacity check
+    SELECT tt.id, tt.name, tt.price, tt.capacity_total, tt.sales_start, tt.sales_end
+    INTO v_ticket_type
+    FROM public.ticket_types tt
+    WHERE tt.id = v_ticket_type_id
+      AND tt.event_id = _event_id
+      AND tt.deleted_at IS NULL
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'reason', 'Ticket type not found or locked by concurrent request'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    -- Sales window check
+    IF v_ticket_type.sales_start IS NOT NULL AND NOW() < v_ticket_type.sales_start THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'reason', 'Sales have not started yet'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    IF v_ticket_type.sales_end IS NOT NULL AND NOW() > v_ticket_type.sales_end THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'reason', 'Sales have ended'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    -- Count sold tickets (issued + checked_in, not void)
+    SELECT COALESCE(SUM(oi.quantity), 0) INTO v_sold_count
+    FROM public.order_items oi
+    JOIN public.orders o ON oi.order_id = o.id
+    WHERE oi.ticket_type_id = v_ticket_type_id
+      AND o.status IN ('pending', 'paid');
+
+    -- Plekken vastgehouden voor andere waitlist aanbiedingen
+    SELECT COALESCE(SUM(wo.quantity), 0) INTO v_held_count
+    FROM public.waitlist_offers wo
+    WHERE wo.ticket_type_id = v_ticket_type_id
+      AND wo.status = 'pending'
+      AND wo.expires_at > NOW()
+      AND (_waitlist_offer_id IS NULL OR wo.id != _waitlist_offer_id);
+
+    v_available := v_ticket_type.capacity_total - v_sold_count - v_held_count;
+
+    IF v_available < v_quantity THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'capacity_total', v_ticket_type.capacity_total,
+          'sold_count', v_sold_count,
+          'held_count', v_held_count,
+          'available', v_available,
+          'requested', v_quantity,
+          'reason', 'Insufficient capacity'
+        )
+      );
+    ELSE
+      -- Accumulate price
+      v_total_price := v_total_price + (v_ticket_type.price * v_quantity);
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'line_type', 'ticket',
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'price', v_ticket_type.price,
+          'quantity', v_quantity,
+          'line_total', v_ticket_type.price * v_quantity,
+          'available', v_available,
+          'status', 'OK'
+        )
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'valid', v_is_valid,
+    'total_price', v_total_price,
+    'details', v_details
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_checkout_capacity(UUID, JSONB, UUID) TO service_role;
+
+-- ===========================================================================
+-- 15. RPC: get_ticket_availability (EXTENDED)
+-- ===========================================================================
+-- available_count / is_sold_out volgen nu get_ticket_type_free_capacity
+-- (pending orders + vastgehouden aanbiedingen), zodat de checkout dezelfde
+-- regel toont als validate_checkout_capacity afdwingt. waitlist_enabled
+-- bepaalt of de checkout een wachtlijst-knop toont.
+
+CREATE OR REPLACE FUNCTION public.get_ticket_availability(_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+  v_waitlist_enabled boolean;
+BEGIN
+  -- Check event exists
+  IF NOT EXISTS (
+    SELECT 1 FROM events
+    WHERE id = _event_id
+      AND status = 'published'
+      AND deleted_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  v_waitlist_enabled := public.is_waitlist_enabled(_event_id);
+
+  SELECT jsonb_build_object(
+    'status', 'OK',
+    'event_id', _event_id,
+    'waitlist_enabled', v_waitlist_enabled,
+    'ticket_types', COALESCE(jsonb_agg(ticket_row ORDER BY sort_order NULLS LAST, price), '[]'::jsonb)
+  ) INTO v_result
+  FROM (
+    SELECT jsonb_build_object(
+      'id', tt.id,
+      'name', tt.name,
+      'description', tt.description,
+      'price', tt.price,
+      'currency', COALESCE(tt.currency, 'EUR'),
+      'vat_percentage', tt.vat_percentage,
+      'capacity_total', tt.capacity_total,
+      'sold_count', COALESCE(sold.count, 0),
+      'available_count', GREATEST(free.capacity, 0),
+      'is_sold_out', free.capacity <= 0,
+      'distance_value', tt.distance_value,
+      'distance_unit', tt.distance_unit,
+      'ticket_category', tt.ticket_category,
+      'max_per_participant', tt.max_per_participant,
+      'image_url', tt.image_url,
+      'sales_start', tt.sales_start,
+      'sales_end', tt.sales_end,
+      'on_sale', (
+        (tt.sales_start IS NULL OR tt.sales_start <= now())
+        AND (tt.sales_end IS NULL OR tt.sales_end > now())
+      ),
+      'sort_order', tt.sort_order,
+      'time_slots', COALESCE(slots.slots, '[]'::jsonb)
+    ) as ticket_row,
+    tt.sort_order,
+    tt.price
+    FROM ticket_types tt
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) as count
+      FROM ticket_instances ti
+      WHERE ti.ticket_type_id = tt.id
+        AND ti.status != 'void'
+    ) sold ON true
+    CROSS JOIN LATERAL (
+      SELECT public.get_ticket_type_free_capacity(tt.id) AS capacity
+    ) free
+    LEFT JOIN LATERAL (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', ts.id,
+          'slot_time', ts.slot_time,
+          'slot_date', ts.slot_date,
+          'label', ts.label,
+          'capacity', ts.capacity,
+          'sort_order', ts.sort_order
+        ) ORDER BY ts.sort_order NULLS LAST, ts.slot_date NULLS FIRST, ts.slot_time
+      ) as slots
+      FROM ticket_time_slots ts
+      WHERE ts.ticket_type_id = tt.id
+        AND ts.deleted_at IS NULL
+    ) slots ON true
+    WHERE tt.event_id = _event_id
+      AND tt.deleted_at IS NULL
+      AND tt.status = 'published'
+      AND tt.visibility = 'visible'
+  ) sub;
+
+  IF v_result IS NULL THEN
+    v_result := jsonb_build_object('status', 'OK', 'event_id', _event_id, 'waitlist_enabled', v_waitlist_enabled, 'ticket_types', '[]'::jsonb);
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_ticket_availability(uuid) IS
+  'Returns all visible ticket types for an event with real-time availability counts (held waitlist offers excluded) and waitlist_enabled.';
+
+GRANT EXECUTE ON FUNCTION public.get_ticket_availability(uuid) TO anon, authenticated;
+
+-- ===========================================================================
+-- 16. FUNCTION: void_tickets_for_refund (EXTENDED)
+-- ===========================================================================
+-- Een volledige refund zet de order nu op 'refunded', waardoor de plekken
+-- niet meer meetellen in de capaciteit, en biedt ze aan de wachtlijst aan.
+
+CREATE OR REPLACE FUNCTION public.void_tickets_for_refund(_refund_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_refund RECORD;
+    v_voided_count INTEGER := 0;
+    v_ticket_type_id UUID;
+    v_offers_created INTEGER := 0;
+BEGIN
+    -- Get refund
+    SELECT r.*, o.org_id
+    INTO v_refund
+    FROM refunds r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.id = _refund_id;
+
+    IF v_refund.id IS NULL THEN
+        RETURN jsonb_build_object('error', 'REFUND_NOT_FOUND');
+    END IF;
+
+    -- Only void for completed full refunds
+    IF v_refund.status != 'refunded' THEN
+        RETURN jsonb_build_object('error', 'REFUND_NOT_COMPLETED', 'status', v_refund.status);
+    END IF;
+
+    IF NOT v_refund.is_full_refund THEN
+        RETURN jsonb_build_object('success', true, 'voided_count', 0, 'reason', 'PARTIAL_REFUND');
+    END IF;
+
+    IF v_refund.tickets_voided THEN
+        RETURN jsonb_build_object('success', true, 'voided_count', 0, 'reason', 'ALREADY_VOIDED');
+    END IF;
+
+    -- Void all tickets for this order
+    UPDATE ticket_instances
+    SET status = 'voided',
+        voided_at = NOW(),
+        voided_reason = 'Full refund: ' || _refund_id::TEXT
+    WHERE order_id = v_refund.order_id
+      AND status IN ('valid', 'issued');
+
+    GET DIAGNOSTICS v_voided_count = ROW_COUNT;
+
+    -- Order telt niet meer mee in de capaciteit
+    UPDATE orders
+    SET status = 'refunded',
+        updated_at = NOW()
+    WHERE id = v_refund.order_id
+      AND status = 'paid';
+
+    -- Mark refund as tickets voided
+    UPDATE refunds
+    SET tickets_voided = true
+    WHERE id = _refund_id;
+
+    -- Vrijgekomen plekken naar de wachtlijst
+    FOR v_ticket_type_id IN
+        SELECT DISTINCT oi.ticket_type_id
+        FROM order_items oi
+        WHERE oi.order_id = v_refund.order_id
+          AND oi.ticket_type_id IS NOT NULL
+    LOOP
+        v_offers_created := v_offers_created + public.process_waitlist(v_ticket_type_id);
+    END LOOP;
+
+    -- Audit log
+    INSERT INTO audit_log (org_id, action, resource_type, resource_id, entity_type, entity_id, details)
+    VALUES (
+        v_refund.org_id,
+        'tickets_voided_for_refund',
+        'refund',
+        _refund_id,
+        'refund',
+        _refund_id,
+        jsonb_build_object(
+            'refund_id', _refund_id,
+            'order_id', v_refund.order_id,
+            'voided_count', v_voided_count,
+            'waitlist_offers_created', v_offers_created
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'voided_count', v_voided_count,
+        'waitlist_offers_created', v_offers_created,
+        'refund_id', _refund_id
+    );
+END;
+$$;
+
+-- ===========================================================================
+-- 17. FUNCTION: cleanup_stale_pending_orders (EXTENDED)
+-- ===========================================================================
+-- Naast het annuleren van verlopen pending orders: verlopen aanbiedingen
+-- afsluiten en de vrijgekomen plekken aan de wachtlijst aanbieden.
+-- Blijft het aantal geannuleerde orders teruggeven.
+
+CREATE OR REPLACE FUNCTION public.cleanup_stale_pending_orders()
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+  v_order_ids UUID[];
+  v_ticket_type_id UUID;
+BEGIN
+  -- Mark orders as cancelled if pending for > 1 hour
+  WITH cancelled AS (
+    UPDATE public.orders
+    SET status = 'cancelled', updated_at = NOW()
+    WHERE status = 'pending'
+      AND created_at < NOW() - INTERVAL '1 hour'
+    RETURNING id
+  )
+  SELECT COUNT(*), array_agg(id) INTO v_count, v_order_ids FROM cancelled;
+
+  -- Verlopen aanbiedingen schuiven zelf door naar de volgende
+  PERFORM public.expire_waitlist_offers();
+
+  IF v_order_ids IS NOT NULL THEN
+    FOR v_ticket_type_id IN
+      SELECT DISTINCT oi.ticket_type_id
+      FROM public.order_items oi
+      WHERE oi.order_id = ANY(v_order_ids)
+        AND oi.ticket_type_id IS NOT NULL
+    LOOP
+      PERFORM public.process_waitlist(v_ticket_type_id);
+    END LOOP;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cleanup_stale_pending_orders() TO service_role;
+
+-- ===========================================================================
+-- 18. TRIGGER: process_waitlist_on_capacity_increase
+-- ===========================================================================
+-- Verhoogt een organisator de capaciteit, dan gaan de nieuwe plekken eerst
+-- naar de wachtlijst.
+
+CREATE OR REPLACE FUNCTION process_waitlist_on_capacity_increase()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.process_waitlist(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS process_waitlist_on_capacity_increase_trigger ON ticket_types;
+CREATE TRIGGER process_waitlist_on_capacity_increase_trigger
+  AFTER UPDATE OF capacity_total ON ticket_types
+  FOR EACH ROW
+  WHEN (NEW.capacity_total > OLD.capacity_total)
+  EXECUTE FUNCTION process_waitlist_on_capacity_increase();
+
+-- ===========================================================================
+-- 19. GRANT PERMISSIONS
+-- ===========================================================================
+
+GRANT SELECT, UPDATE, DELETE ON waitlist_entries TO authenticated;
+GRANT SELECT, UPDATE ON waitlist_offers TO authenticated;
+
+-- ===========================================================================
+-- 20. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.tables
+                 WHERE table_schema = 'public' AND table_name = 'waitlist_offers') THEN
+    RAISE EXCEPTION 'waitlist_offers not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'process_waitlist') THEN
+    RAISE EXCEPTION 'process_waitlist not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'join_waitlist') THEN
+    RAISE EXCEPTION 'join_waitlist not created';
+  END IF;
+  RAISE NOTICE 'F016: Waitlist created successfully';
+END $$;
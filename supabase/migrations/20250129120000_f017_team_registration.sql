@@ -0,0 +1,1346 @@
+-- ===========================================================================
+-- F017: Team / Relay Registration
+-- Migration: 20250129120000_f017_team_registration.sql
+--
+-- Purpose:
+-- - Teams op basis van ticket_team_config (teams, team_members)
+-- - Captain maakt het team aan tijdens de checkout en koopt de plekken
+--   van het team; na betaling krijgt de captain een uitnodigingslink
+-- - Teamleden melden zich aan via /e/:slug/team/:code met hun eigen
+--   gegevens en registratievragen en krijgen een ticket uit de teamorder
+-- - Volledigheid (min/max/captain) wordt gecontroleerd tegen de config;
+--   onvolledige teams krijgen vóór het event een herinnering
+-- - scan_ticket en registrations_list_v tonen het team en het teamlid
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: teams
+-- ===========================================================================
+-- Eén team per order. `slots` is het aantal gekochte plekken (tickets) van
+-- het teamtickettype; elk teamlid krijgt één van die tickets.
+-- De uitnodigingscode is (net als invitation_codes) een korte leesbare code.
+
+CREATE TABLE IF NOT EXISTS teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  ticket_type_id UUID NOT NULL REFERENCES ticket_types(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+
+  name TEXT NOT NULL,
+  invite_code VARCHAR(12) NOT NULL UNIQUE,
+  slots INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  captain_email TEXT NOT NULL,
+  -- Origin van de checkout (voor de link in de uitnodigingsmail)
+  site_origin TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT teams_name_check CHECK (length(trim(name)) BETWEEN 1 AND 100),
+  CONSTRAINT teams_slots_check CHECK (slots > 0),
+  CONSTRAINT teams_status_check CHECK (status IN ('pending', 'active', 'cancelled'))
+);
+
+COMMENT ON TABLE teams IS
+  'Team registered for a team ticket type. Created at checkout by the captain, active once the order is paid.';
+COMMENT ON COLUMN teams.status IS 'pending=order nog niet betaald, active=leden kunnen zich aanmelden, cancelled=order geannuleerd/terugbetaald';
+COMMENT ON COLUMN teams.slots IS 'Aantal gekochte plekken (tickets) voor dit team';
+
+-- ===========================================================================
+-- 2. TABLE: team_members
+-- ===========================================================================
+-- Elk teamlid heeft een eigen registratie (en dus eigen antwoorden).
+-- ticket_instance_id wordt gezet zodra het ticket van de teamorder bestaat.
+
+CREATE TABLE IF NOT EXISTS team_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  registration_id UUID NOT NULL REFERENCES registrations(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  ticket_instance_id UUID REFERENCES ticket_instances(id) ON DELETE SET NULL,
+
+  role TEXT NOT NULL DEFAULT 'member',
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT team_members_role_check CHECK (role IN ('captain', 'member')),
+  CONSTRAINT team_members_registration_unique UNIQUE (registration_id),
+  CONSTRAINT team_members_participant_unique UNIQUE (team_id, participant_id),
+  CONSTRAINT team_members_ticket_unique UNIQUE (ticket_instance_id)
+);
+
+COMMENT ON TABLE team_members IS
+  'Member of a team. Each member has an own registration and one ticket from the team order.';
+
+-- ===========================================================================
+-- 3. INDEXES
+-- ===========================================================================
+
+-- Teamnaam uniek per event (geannuleerde teams tellen niet mee)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_teams_event_name_unique
+  ON teams(event_id, lower(trim(name)))
+  WHERE status <> 'cancelled';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_teams_order_unique
+  ON teams(order_id)
+  WHERE order_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_teams_event
+  ON teams(event_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_team
+  ON team_members(team_id);
+
+-- Maximaal één captain per team
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_members_one_captain
+  ON team_members(team_id)
+  WHERE role = 'captain';
+
+-- ===========================================================================
+-- 4. RLS POLICIES
+-- ===========================================================================
+-- Geen public policies: uitnodiging ophalen en aanmelden gaat via RPCs.
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org admins can manage teams"
+  ON teams
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = teams.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = teams.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view teams"
+  ON teams
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = teams.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Org admins can manage team members"
+  ON team_members
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams t
+      JOIN events e ON e.id = t.event_id
+      WHERE t.id = team_members.team_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM teams t
+      JOIN events e ON e.id = t.event_id
+      WHERE t.id = team_members.team_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view team members"
+  ON team_members
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams t
+      JOIN events e ON e.id = t.event_id
+      WHERE t.id = team_members.team_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+-- ===========================================================================
+-- 5. TRIGGERS: updated_at
+-- ===========================================================================
+
+DROP TRIGGER IF EXISTS handle_updated_at_teams ON teams;
+CREATE TRIGGER handle_updated_at_teams
+  BEFORE UPDATE ON teams
+  FOR EACH ROW EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+-- ===========================================================================
+-- 6. FUNCTION: get_team_completeness
+-- ===========================================================================
+-- Vergelijkt de huidige leden met ticket_team_config.
+-- Issues: TOO_FEW_MEMBERS (tenzij allow_incomplete_teams), TOO_MANY_MEMBERS,
+-- NO_CAPTAIN (alleen bij captain_required).
+
+CREATE OR REPLACE FUNCTION public.get_team_completeness(_team_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+  v_member_count INT;
+  v_has_captain BOOLEAN;
+  v_issues JSONB := '[]'::jsonb;
+BEGIN
+  SELECT t.id, t.slots,
+         COALESCE(c.team_min_size, 1) AS team_min_size,
+         COALESCE(c.team_max_size, t.slots) AS team_max_size,
+         COALESCE(c.allow_incomplete_teams, FALSE) AS allow_incomplete_teams,
+         COALESCE(c.captain_required, FALSE) AS captain_required
+  INTO v_team
+  FROM teams t
+  LEFT JOIN ticket_team_config c ON c.ticket_type_id = t.ticket_type_id
+  WHERE t.id = _team_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TEAM_NOT_FOUND');
+  END IF;
+
+  SELECT COUNT(*), COALESCE(bool_or(tm.role = 'captain'), FALSE)
+  INTO v_member_count, v_has_captain
+  FROM team_members tm
+  WHERE tm.team_id = _team_id;
+
+  IF v_member_count < v_team.team_min_size AND NOT v_team.allow_incomplete_teams THEN
+    v_issues := v_issues || jsonb_build_array('TOO_FEW_MEMBERS');
+  END IF;
+
+  IF v_member_count > v_team.team_max_size THEN
+    v_issues := v_issues || jsonb_build_array('TOO_MANY_MEMBERS');
+  END IF;
+
+  IF v_team.captain_required AND NOT v_has_captain THEN
+    v_issues := v_issues || jsonb_build_array('NO_CAPTAIN');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_complete', jsonb_array_length(v_issues) = 0,
+    'issues', v_issues,
+    'member_count', v_member_count,
+    'slots', v_team.slots,
+    'has_captain', v_has_captain,
+    'min_size', v_team.team_min_size,
+    'max_size', v_team.team_max_size,
+    'allow_incomplete_teams', v_team.allow_incomplete_teams,
+    'captain_required', v_team.captain_required
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_team_completeness(UUID) IS
+  'Check team members against ticket_team_config (min/max size, captain). Returns is_complete + issues.';
+
+-- ===========================================================================
+-- 7. RPC: create_team_for_order (system)
+-- ===========================================================================
+-- Aangeroepen door create-order-public nadat de order_items bestaan.
+-- Het aantal gekochte plekken moet binnen de teamgrootte van de config passen.
+
+CREATE OR REPLACE FUNCTION public.create_team_for_order(
+  _order_id UUID,
+  _ticket_type_id UUID,
+  _name TEXT,
+  _site_origin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_config RECORD;
+  v_slots INT;
+  v_name TEXT;
+  v_code TEXT;
+  v_team_id UUID;
+BEGIN
+  v_name := trim(_name);
+  IF v_name IS NULL OR length(v_name) = 0 OR length(v_name) > 100 THEN
+    RETURN jsonb_build_object('error', 'INVALID_TEAM_NAME');
+  END IF;
+
+  SELECT o.id, o.event_id, o.email, o.status
+  INTO v_order
+  FROM orders o
+  WHERE o.id = _order_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND');
+  END IF;
+
+  SELECT * INTO v_config
+  FROM ticket_team_config
+  WHERE ticket_type_id = _ticket_type_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TEAM_CONFIG_NOT_FOUND');
+  END IF;
+
+  SELECT COALESCE(SUM(oi.quantity), 0) INTO v_slots
+  FROM order_items oi
+  WHERE oi.order_id = _order_id
+    AND oi.ticket_type_id = _ticket_type_id;
+
+  IF v_slots = 0 THEN
+    RETURN jsonb_build_object('error', 'ORDER_ITEM_NOT_FOUND');
+  END IF;
+
+  IF v_slots > v_config.team_max_size THEN
+    RETURN jsonb_build_object('error', 'TEAM_TOO_LARGE', 'max_size', v_config.team_max_size);
+  END IF;
+
+  IF v_slots < v_config.team_min_size AND NOT v_config.allow_incomplete_teams THEN
+    RETURN jsonb_build_object('error', 'TEAM_TOO_SMALL', 'min_size', v_config.team_min_size);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM teams t
+    WHERE t.event_id = v_order.event_id
+      AND lower(trim(t.name)) = lower(v_name)
+      AND t.status <> 'cancelled'
+  ) THEN
+    RETURN jsonb_build_object('error', 'TEAM_NAME_TAKEN');
+  END IF;
+
+  IF _site_origin IS NOT NULL AND _site_origin !~ '^https?://[A-Za-z0-9.-]+(:[0-9]+)?$' THEN
+    _site_origin := NULL;
+  END IF;
+
+  -- Unieke code (8 tekens, zoals invitation codes)
+  LOOP
+    v_code := upper(substr(md5(gen_random_uuid()::text), 1, 8));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM teams WHERE invite_code = v_code);
+  END LOOP;
+
+  INSERT INTO teams (event_id, ticket_type_id, order_id, name, invite_code, slots, captain_email, site_origin)
+  VALUES (v_order.event_id, _ticket_type_id, _order_id, v_name, v_code, v_slots, lower(v_order.email), _site_origin)
+  RETURNING id INTO v_team_id;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'team_id', v_team_id,
+    'invite_code', v_code,
+    'slots', v_slots
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_team_for_order(UUID, UUID, TEXT, TEXT) IS
+  'System: create a pending team for a checkout order. Validates team size against ticket_team_config.';
+
+REVOKE ALL ON FUNCTION public.create_team_for_order(UUID, UUID, TEXT, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_team_for_order(UUID, UUID, TEXT, TEXT) TO service_role;
+
+-- ===========================================================================
+-- 8. FUNCTION: assign_team_tickets (system)
+-- ===========================================================================
+-- Koppelt teamleden zonder ticket aan een vrij ticket uit de teamorder
+-- (captain eerst, daarna op volgorde van aanmelden). Tickets worden pas
+-- na betaling uitgegeven, dus dit draait zowel bij aanmelden als bij uitgifte.
+
+CREATE OR REPLACE FUNCTION public.assign_team_tickets(_team_id UUID)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+  v_member RECORD;
+  v_ticket_id UUID;
+  v_count INT := 0;
+BEGIN
+  SELECT id, order_id, ticket_type_id INTO v_team
+  FROM teams
+  WHERE id = _team_id AND status = 'active';
+
+  IF NOT FOUND OR v_team.order_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_member IN
+    SELECT tm.id, tm.participant_id, tm.registration_id
+    FROM team_members tm
+    WHERE tm.team_id = _team_id
+      AND tm.ticket_instance_id IS NULL
+    ORDER BY (tm.role = 'captain') DESC, tm.created_at
+  LOOP
+    SELECT ti.id INTO v_ticket_id
+    FROM ticket_instances ti
+    WHERE ti.order_id = v_team.order_id
+      AND ti.ticket_type_id = v_team.ticket_type_id
+      AND ti.status = 'issued'
+      AND NOT EXISTS (SELECT 1 FROM team_members x WHERE x.ticket_instance_id = ti.id)
+    ORDER BY ti.sequence_no
+    LIMIT 1
+    FOR UPDATE;
+
+    EXIT WHEN v_ticket_id IS NULL;
+
+    UPDATE team_members SET ticket_instance_id = v_ticket_id WHERE id = v_member.id;
+    UPDATE ticket_instances SET participant_id = v_member.participant_id WHERE id = v_ticket_id;
+
+    v_count := v_count + 1;
+    v_ticket_id := NULL;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.assign_team_tickets(UUID) IS
+  'System: link team members without a ticket to free tickets of the team order. Returns tickets assigned.';
+
+REVOKE ALL ON FUNCTION public.assign_team_tickets(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.assign_team_tickets(UUID) TO service_role;
+
+-- ===========================================================================
+-- 9. TRIGGER: team_activation_on_order_paid
+-- ===========================================================================
+-- Betaald: team actief, captain wordt lid (registratie komt uit
+-- sync_registration_on_order_paid) en krijgt de uitnodigingslink per mail.
+-- Geannuleerd/terugbetaald: team vervalt.
+-- Let op: triggers vuren op alfabetische volgorde; deze naam moet ná
+-- sync_registration_on_order_paid_trigger komen zodat de registratie bestaat.
+
+CREATE OR REPLACE FUNCTION public.team_activation_on_order_paid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+  v_registration RECORD;
+  v_link TEXT;
+BEGIN
+  IF NEW.status IN ('cancelled', 'refunded') THEN
+    UPDATE teams SET status = 'cancelled'
+    WHERE order_id = NEW.id AND status <> 'cancelled';
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status <> 'paid' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT t.*, e.org_id, e.name AS event_name, e.slug AS event_slug, tt.name AS ticket_name
+  INTO v_team
+  FROM teams t
+  JOIN events e ON e.id = t.event_id
+  JOIN ticket_types tt ON tt.id = t.ticket_type_id
+  WHERE t.order_id = NEW.id
+    AND t.status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE teams SET status = 'active' WHERE id = v_team.id;
+
+  -- Registratie van de koper voor het teamtickettype
+  SELECT r.id, r.participant_id INTO v_registration
+  FROM registrations r
+  JOIN order_items oi ON oi.id = r.order_item_id
+  WHERE oi.order_id = NEW.id
+    AND oi.ticket_type_id = v_team.ticket_type_id
+    AND r.deleted_at IS NULL
+  LIMIT 1;
+
+  IF FOUND THEN
+    INSERT INTO team_members (team_id, registration_id, participant_id, role)
+    VALUES (v_team.id, v_registration.id, v_registration.participant_id, 'captain')
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  PERFORM public.assign_team_tickets(v_team.id);
+
+  v_link := COALESCE(v_team.site_origin, '') || '/e/' || v_team.event_slug || '/team/' || v_team.invite_code;
+
+  PERFORM public.queue_email(
+    _org_id => v_team.org_id,
+    _event_id => v_team.event_id,
+    _idempotency_key => 'team_invite:' || v_team.id::TEXT,
+    _to_email => v_team.captain_email,
+    _subject => 'Nodig je team uit: ' || v_team.name,
+    _html_body =>
+      '<p>Je team <strong>' || v_team.name || '</strong> is ingeschreven voor '
+      || v_team.event_name || ' (' || v_team.ticket_name || ', ' || v_team.slots || ' plekken).</p>'
+      || '<p>Stuur deze link naar je teamgenoten zodat ze zich met hun eigen gegevens kunnen aanmelden:</p>'
+      || '<p><a href="' || v_link || '">' || v_link || '</a></p>'
+      || '<p>Teamcode: <strong>' || v_team.invite_code || '</strong></p>',
+    _text_body =>
+      'Je team ' || v_team.name || ' is ingeschreven voor ' || v_team.event_name || '. '
+      || 'Teamgenoten melden zich aan via: ' || v_link,
+    _template_variables => jsonb_build_object(
+      'event_name', v_team.event_name,
+      'team_name', v_team.name,
+      'slots', v_team.slots,
+      'invite_code', v_team.invite_code,
+      'invite_url', v_link
+    ),
+    _metadata => jsonb_build_object('team_id', v_team.id, 'order_id', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS team_activation_on_order_paid_trigger ON orders;
+CREATE TRIGGER team_activation_on_order_paid_trigger
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION team_activation_on_order_paid();
+
+COMMENT ON FUNCTION public.team_activation_on_order_paid() IS
+  'Activate team + add captain + email invite link when the team order is paid; cancel team on cancel/refund.';
+
+-- ===========================================================================
+-- 10. TRIGGER: assign team tickets on issue
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.assign_team_tickets_on_issue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_id UUID;
+BEGIN
+  SELECT id INTO v_team_id
+  FROM teams
+  WHERE order_id = NEW.order_id
+    AND ticket_type_id = NEW.ticket_type_id
+    AND status = 'active';
+
+  IF v_team_id IS NOT NULL THEN
+    PERFORM public.assign_team_tickets(v_team_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_team_tickets_on_issue_trigger ON ticket_instances;
+CREATE TRIGGER assign_team_tickets_on_issue_trigger
+  AFTER INSERT ON ticket_instances
+  FOR EACH ROW
+  WHEN (NEW.order_id IS NOT NULL)
+  EXECUTE FUNCTION assign_team_tickets_on_issue();
+
+-- ===========================================================================
+-- 11. RPC: get_team_invite (public)
+-- ===========================================================================
+-- Gegevens voor de aanmeldpagina: team, event en de registratievragen die
+-- voor het teamtickettype gelden.
+
+CREATE OR REPLACE FUNCTION public.get_team_invite(_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+  v_member_count INT;
+  v_captain_name TEXT;
+  v_questions JSONB;
+BEGIN
+  SELECT t.id, t.name, t.status, t.slots, t.event_id, t.ticket_type_id,
+         e.name AS event_name, e.slug AS event_slug, e.start_time AS event_start,
+         tt.name AS ticket_name
+  INTO v_team
+  FROM teams t
+  JOIN events e ON e.id = t.event_id
+  JOIN ticket_types tt ON tt.id = t.ticket_type_id
+  WHERE t.invite_code = upper(trim(_code))
+    AND e.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TEAM_NOT_FOUND');
+  END IF;
+
+  IF v_team.status <> 'active' THEN
+    RETURN jsonb_build_object('error', 'TEAM_NOT_ACTIVE');
+  END IF;
+
+  SELECT COUNT(*) INTO v_member_count
+  FROM team_members WHERE team_id = v_team.id;
+
+  SELECT p.first_name INTO v_captain_name
+  FROM team_members tm
+  JOIN participants p ON p.id = tm.participant_id
+  WHERE tm.team_id = v_team.id AND tm.role = 'captain';
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', q.id,
+    'question_type', q.question_type,
+    'label', q.label,
+    'description', q.description,
+    'options', q.options,
+    'is_required', q.is_required
+  ) ORDER BY q.sort_order), '[]'::jsonb)
+  INTO v_questions
+  FROM registration_questions q
+  WHERE q.event_id = v_team.event_id
+    AND (q.ticket_type_id IS NULL OR q.ticket_type_id = v_team.ticket_type_id);
+
+  RETURN jsonb_build_object(
+    'team', jsonb_build_object(
+      'id', v_team.id,
+      'name', v_team.name,
+      'event_id', v_team.event_id,
+      'event_name', v_team.event_name,
+      'event_slug', v_team.event_slug,
+      'event_start', v_team.event_start,
+      'ticket_name', v_team.ticket_name,
+      'captain_name', v_captain_name,
+      'member_count', v_member_count,
+      'slots', v_team.slots,
+      'is_full', v_member_count >= v_team.slots,
+      'registration_closed', v_team.event_start IS NOT NULL AND v_team.event_start <= NOW()
+    ),
+    'questions', v_questions
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_team_invite(TEXT) IS
+  'Public: team + registration questions for the team join page.';
+
+GRANT EXECUTE ON FUNCTION public.get_team_invite(TEXT) TO anon, authenticated;
+
+-- ===========================================================================
+-- 12. RPC: join_team (public)
+-- ===========================================================================
+-- Maakt (of hergebruikt) de deelnemer op e-mail, een eigen registratie met
+-- antwoorden en het teamlidmaatschap, en koppelt een ticket uit de teamorder.
+-- _answers: { "<question_id>": <waarde>, ... }
+
+CREATE OR REPLACE FUNCTION public.join_team(
+  _code TEXT,
+  _email TEXT,
+  _first_name TEXT,
+  _last_name TEXT,
+  _answers JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+  v_email TEXT;
+  v_member_count INT;
+  v_question RECORD;
+  v_participant_id UUID;
+  v_registration_id UUID;
+  v_member_id UUID;
+BEGIN
+  v_email := lower(trim(_email));
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN jsonb_build_object('error', 'INVALID_EMAIL');
+  END IF;
+
+  IF NULLIF(trim(_first_name), '') IS NULL OR NULLIF(trim(_last_name), '') IS NULL THEN
+    RETURN jsonb_build_object('error', 'MISSING_NAME');
+  END IF;
+
+  SELECT t.id, t.name, t.status, t.slots, t.event_id, t.ticket_type_id,
+         e.org_id, e.name AS event_name, e.start_time
+  INTO v_team
+  FROM teams t
+  JOIN events e ON e.id = t.event_id
+  WHERE t.invite_code = upper(trim(_code))
+    AND e.deleted_at IS NULL
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TEAM_NOT_FOUND');
+  END IF;
+
+  IF v_team.status <> 'active' THEN
+    RETURN jsonb_build_object('error', 'TEAM_NOT_ACTIVE');
+  END IF;
+
+  IF v_team.start_time IS NOT NULL AND v_team.start_time <= NOW() THEN
+    RETURN jsonb_build_object('error', 'REGISTRATION_CLOSED');
+  END IF;
+
+  SELECT COUNT(*) INTO v_member_count
+  FROM team_members WHERE team_id = v_team.id;
+
+  IF v_member_count >= v_team.slots THEN
+    RETURN jsonb_build_object('error', 'TEAM_FULL');
+  END IF;
+
+  -- Verplichte vragen
+  FOR v_question IN
+    SELECT q.id FROM registration_questions q
+    WHERE q.event_id = v_team.event_id
+      AND (q.ticket_type_id IS NULL OR q.ticket_type_id = v_team.ticket_type_id)
+      AND q.is_required
+  LOOP
+    IF COALESCE(_answers->>(v_question.id::TEXT), '') = '' THEN
+      RETURN jsonb_build_object('error', 'MISSING_REQUIRED_ANSWER', 'question_id', v_question.id);
+    END IF;
+  END LOOP;
+
+  -- Deelnemer op e-mail (zelfde sleutel als sync_registration_on_order_paid)
+  SELECT id INTO v_participant_id
+  FROM participants
+  WHERE lower(email) = v_email AND deleted_at IS NULL
+  LIMIT 1;
+
+  IF v_participant_id IS NULL THEN
+    INSERT INTO participants (email, first_name, last_name, user_id)
+    VALUES (v_email, trim(_first_name), trim(_last_name), auth.uid())
+    RETURNING id INTO v_participant_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM team_members tm
+    JOIN teams t ON t.id = tm.team_id
+    WHERE tm.participant_id = v_participant_id
+      AND t.event_id = v_team.event_id
+      AND t.status <> 'cancelled'
+  ) THEN
+    RETURN jsonb_build_object('error', 'ALREADY_IN_TEAM');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM registrations r
+    WHERE r.event_id = v_team.event_id
+      AND r.participant_id = v_participant_id
+      AND r.ticket_type_id = v_team.ticket_type_id
+      AND r.deleted_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('error', 'ALREADY_REGISTERED');
+  END IF;
+
+  INSERT INTO registrations (event_id, participant_id, ticket_type_id, status)
+  VALUES (v_team.event_id, v_participant_id, v_team.ticket_type_id, 'confirmed')
+  RETURNING id INTO v_registration_id;
+
+  INSERT INTO registration_answers (registration_id, question_id, answer_value)
+  SELECT v_registration_id, q.id, _answers->(q.id::TEXT)
+  FROM registration_questions q
+  WHERE q.event_id = v_team.event_id
+    AND (q.ticket_type_id IS NULL OR q.ticket_type_id = v_team.ticket_type_id)
+    AND _answers ? q.id::TEXT
+    AND _answers->(q.id::TEXT) <> 'null'::jsonb;
+
+  INSERT INTO team_members (team_id, registration_id, participant_id, role)
+  VALUES (v_team.id, v_registration_id, v_participant_id, 'member')
+  RETURNING id INTO v_member_id;
+
+  PERFORM public.assign_team_tickets(v_team.id);
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_team.org_id,
+    auth.uid(),
+    'TEAM_MEMBER_JOINED',
+    'team',
+    v_team.id,
+    jsonb_build_object('team_member_id', v_member_id, 'registration_id', v_registration_id, 'participant_email', v_email)
+  );
+
+  PERFORM public.queue_email(
+    _org_id => v_team.org_id,
+    _event_id => v_team.event_id,
+    _idempotency_key => 'team_member_joined:' || v_member_id::TEXT,
+    _to_email => v_email,
+    _subject => 'Je doet mee met ' || v_team.name,
+    _html_body =>
+      '<p>Je bent aangemeld als lid van team <strong>' || v_team.name || '</strong> voor '
+      || v_team.event_name || '.</p>'
+      || '<p>Je ticket staat op jouw naam en is te vinden onder je tickets.</p>',
+    _text_body =>
+      'Je bent aangemeld als lid van team ' || v_team.name || ' voor ' || v_team.event_name || '.',
+    _template_variables => jsonb_build_object(
+      'event_name', v_team.event_name,
+      'team_name', v_team.name
+    ),
+    _metadata => jsonb_build_object('team_id', v_team.id, 'team_member_id', v_member_id)
+  );
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'team_member_id', v_member_id,
+    'registration_id', v_registration_id,
+    'team_name', v_team.name,
+    'member_count', v_member_count + 1,
+    'slots', v_team.slots
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.join_team(TEXT, TEXT, TEXT, TEXT, JSONB) IS
+  'Public: join a team via its invite code with own participant data and registration answers.';
+
+GRANT EXECUTE ON FUNCTION public.join_team(TEXT, TEXT, TEXT, TEXT, JSONB) TO anon, authenticated;
+
+-- ===========================================================================
+-- 13. RPC: get_event_teams (organizer)
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.get_event_teams(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_teams JSONB;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', t.id,
+      'name', t.name,
+      'status', t.status,
+      'ticket_type_id', t.ticket_type_id,
+      'ticket_name', tt.name,
+      'invite_code', t.invite_code,
+      'captain_email', t.captain_email,
+      'order_id', t.order_id,
+      'created_at', t.created_at,
+      'completeness', public.get_team_completeness(t.id),
+      'members', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+          'id', tm.id,
+          'role', tm.role,
+          'registration_id', tm.registration_id,
+          'participant_id', tm.participant_id,
+          'first_name', p.first_name,
+          'last_name', p.last_name,
+          'email', p.email,
+          'ticket_instance_id', tm.ticket_instance_id,
+          'checked_in_at', ti.checked_in_at,
+          'joined_at', tm.created_at
+        ) ORDER BY (tm.role = 'captain') DESC, tm.created_at), '[]'::jsonb)
+        FROM team_members tm
+        JOIN participants p ON p.id = tm.participant_id
+        LEFT JOIN ticket_instances ti ON ti.id = tm.ticket_instance_id
+        WHERE tm.team_id = t.id
+      )
+    ) ORDER BY t.created_at
+  ), '[]'::jsonb)
+  INTO v_teams
+  FROM teams t
+  JOIN ticket_types tt ON tt.id = t.ticket_type_id
+  WHERE t.event_id = _event_id;
+
+  RETURN jsonb_build_object('teams', v_teams);
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_event_teams(UUID) IS
+  'Organizer: teams of an event with members and completeness against ticket_team_config.';
+
+GRANT EXECUTE ON FUNCTION public.get_event_teams(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 14. FUNCTION: check_team_completeness (system)
+-- ===========================================================================
+-- Voor events die binnen _days_before dagen starten: onvolledige actieve
+-- teams krijgen een herinnering aan de captain (max. één per team per dag).
+
+CREATE OR REPLACE FUNCTION public.check_team_completeness(
+  _event_id UUID DEFAULT NULL,
+  _days_before INT DEFAULT 7
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+  v_check JSONB;
+  v_link TEXT;
+  v_count INT := 0;
+BEGIN
+  FOR v_team IN
+    SELECT t.*, e.org_id, e.name AS event_name, e.slug AS event_slug, e.start_time
+    FROM teams t
+    JOIN events e ON e.id = t.event_id
+    WHERE t.status = 'active'
+      AND (_event_id IS NULL OR t.event_id = _event_id)
+      AND e.start_time > NOW()
+      AND e.start_time <= NOW() + make_interval(days => _days_before)
+      AND e.deleted_at IS NULL
+  LOOP
+    v_check := public.get_team_completeness(v_team.id);
+
+    CONTINUE WHEN (v_check->>'is_complete')::boolean;
+
+    v_link := COALESCE(v_team.site_origin, '') || '/e/' || v_team.event_slug || '/team/' || v_team.invite_code;
+
+    PERFORM public.queue_email(
+      _org_id => v_team.org_id,
+      _event_id => v_team.event_id,
+      _idempotency_key => 'team_incomplete:' || v_team.id::TEXT || ':' || to_char(NOW(), 'YYYY-MM-DD'),
+      _to_email => v_team.captain_email,
+      _subject => 'Je team is nog niet compleet: ' || v_team.name,
+      _html_body =>
+        '<p>Team <strong>' || v_team.name || '</strong> heeft ' || (v_check->>'member_count')
+        || ' van minimaal ' || (v_check->>'min_size') || ' leden voor ' || v_team.event_name
+        || ' (start ' || to_char(v_team.start_time AT TIME ZONE 'Europe/Amsterdam', 'DD-MM-YYYY HH24:MI') || ').</p>'
+        || '<p>Teamgenoten kunnen zich nog aanmelden via <a href="' || v_link || '">' || v_link || '</a>.</p>',
+      _text_body =>
+        'Team ' || v_team.name || ' is nog niet compleet. Teamgenoten melden zich aan via: ' || v_link,
+      _template_variables => jsonb_build_object(
+        'event_name', v_team.event_name,
+        'team_name', v_team.name,
+        'member_count', v_check->'member_count',
+        'min_size', v_check->'min_size',
+        'issues', v_check->'issues',
+        'invite_url', v_link
+      ),
+      _metadata => jsonb_build_object('team_id', v_team.id)
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.check_team_completeness(UUID, INT) IS
+  'System: remind captains of incomplete teams for events starting within _days_before days. Returns teams reminded.';
+
+REVOKE ALL ON FUNCTION public.check_team_completeness(UUID, INT) FROM public;
+GRANT EXECUTE ON FUNCTION public.check_team_completeness(UUID, INT) TO service_role;
+
+-- ===========================================================================
+-- 15. VIEW: registrations_list_v (team members)
+-- ===========================================================================
+-- Teamleden hebben geen eigen order_item: order en ticket komen via het team.
+-- Kolommen team_id / team_name / team_role zijn achteraan toegevoegd.
+
+CREATE OR REPLACE VIEW registrations_list_v AS
+SELECT
+  r.id,
+  r.event_id,
+  r.participant_id,
+  r.status as registration_status,
+  r.ticket_type_id,
+  r.order_item_id,
+  r.bib_number,
+  r.created_at,
+  r.updated_at,
+  -- Participant data
+  p.email,
+  p.first_name,
+  p.last_name,
+  p.phone,
+  p.birth_date,
+  p.gender,
+  p.country,
+  -- Ticket Type
+  tt.name as ticket_type_name,
+  tt.price as ticket_type_price,
+  -- Order via order_item (of via het team)
+  COALESCE(oi.order_id, t.order_id) as order_id,
+  o.status as order_status,
+  o.total_amount as order_total,
+  COALESCE(o.discount_amount, 0) as discount_amount,
+  CASE
+    WHEN o.status = 'paid' THEN 'paid'
+    WHEN o.status = 'refunded' THEN 'refunded'
+    WHEN o.status = 'cancelled' THEN 'cancelled'
+    ELSE 'unpaid'
+  END as payment_status,
+  COALESCE(o.discount_amount > 0, false) as has_discount,
+  -- Ticket Instance
+  ti.id as ticket_instance_id,
+  ti.qr_code,
+  ti.status as ticket_status,
+  ti.checked_in_at,
+  CASE WHEN ti.id IS NOT NULL THEN 'assigned' ELSE 'unassigned' END as assignment_status,
+  -- Event org_id for RLS
+  e.org_id,
+  -- Team
+  t.id as team_id,
+  t.name as team_name,
+  tm.role as team_role
+FROM registrations r
+JOIN participants p ON p.id = r.participant_id
+JOIN events e ON e.id = r.event_id
+LEFT JOIN ticket_types tt ON tt.id = r.ticket_type_id
+LEFT JOIN team_members tm ON tm.registration_id = r.id
+LEFT JOIN teams t ON t.id = tm.team_id
+LEFT JOIN order_items oi ON oi.id = r.order_item_id
+LEFT JOIN orders o ON o.id = COALESCE(oi.order_id, t.order_id)
+LEFT JOIN ticket_instances ti ON ti.deleted_at IS NULL
+  AND CASE
+    WHEN tm.id IS NOT NULL THEN ti.id = tm.ticket_instance_id
+    ELSE ti.order_item_id = r.order_item_id
+  END
+WHERE r.deleted_at IS NULL;
+
+ALTER VIEW registrations_list_v SET (security_invoker = true);
+
+-- ===========================================================================
+-- 16. RPC: scan_ticket (team info)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F007 behalve:
+-- - deelnemer komt van het teamlid als het ticket aan een teamlid hangt
+-- - ticket.team = { name, role, member_count, slots } voor tickets uit een teamorder
+
+CREATE OR REPLACE FUNCTION public.scan_ticket(
+  _event_id UUID,
+  _token TEXT,
+  _device_id TEXT DEFAULT NULL,
+  _ip_address INET DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket_id UUID;
+  v_ticket_type_id UUID;
+  v_ticket_status TEXT;
+  v_ticket RECORD;
+  v_token_hash TEXT;
+  v_org_id UUID;
+  v_settings JSONB;
+  v_rate_limit_per_minute INT;
+  v_rate_limit_per_device INT;
+  v_require_device_id BOOLEAN;
+  v_pii_level TEXT;
+  v_user_count INT;
+  v_device_count INT;
+  v_result TEXT;
+  v_participant_name TEXT;
+  v_participant_email TEXT;
+  v_found_via_fallback BOOLEAN := FALSE;
+  v_team RECORD;
+  v_team_info JSONB;
+BEGIN
+  -- Hash the token
+  v_token_hash := encode(
+    extensions.digest(_token::bytea, 'sha256'::text),
+    'hex'
+  );
+
+  -- STRATEGY 1: Find ticket by token_hash (fast, indexed lookup)
+  SELECT
+    ti.id,
+    ti.ticket_type_id,
+    ti.event_id,
+    ti.status,
+    ti.order_id,
+    e.org_id
+  INTO v_ticket
+  FROM ticket_instances ti
+  JOIN events e ON e.id = ti.event_id
+  WHERE ti.token_hash = v_token_hash
+    AND ti.event_id = _event_id
+  FOR UPDATE SKIP LOCKED;
+
+  -- STRATEGY 2: Fallback to plaintext qr_code for legacy tickets
+  IF NOT FOUND THEN
+    SELECT
+      ti.id,
+      ti.ticket_type_id,
+      ti.event_id,
+      ti.status,
+      ti.order_id,
+      e.org_id
+    INTO v_ticket
+    FROM ticket_instances ti
+    JOIN events e ON e.id = ti.event_id
+    WHERE ti.qr_code = _token
+      AND ti.event_id = _event_id
+      AND ti.token_hash IS NULL  -- Only legacy tickets
+    FOR UPDATE SKIP LOCKED;
+
+    IF FOUND THEN
+      -- Auto-fix: Update token_hash for future scans
+      UPDATE ticket_instances
+      SET token_hash = v_token_hash
+      WHERE id = v_ticket.id;
+
+      v_found_via_fallback := TRUE;
+      RAISE NOTICE 'Legacy ticket % auto-fixed with token_hash', v_ticket.id;
+    END IF;
+  END IF;
+
+  -- Still not found? Token is invalid
+  IF NOT FOUND THEN
+    -- Log failed scan
+    INSERT INTO ticket_scans (
+      event_id, scanner_user_id, device_id, ip_address, user_agent,
+      scan_result, reason_code
+    ) VALUES (
+      _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+      'INVALID', 'TOKEN_NOT_FOUND'
+    );
+
+    RETURN jsonb_build_object(
+      'result', 'INVALID',
+      'message', 'Invalid ticket token'
+    );
+  END IF;
+
+  v_ticket_id := v_ticket.id;
+  v_org_id := v_ticket.org_id;
+
+  -- Auth check
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED', 'message', 'Authentication required');
+  END IF;
+
+  -- Check org membership (scanner permission)
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED', 'message', 'Must be org member to scan tickets');
+  END IF;
+
+  -- Get scanning settings
+  SELECT setting_value INTO v_settings
+  FROM event_settings
+  WHERE event_id = _event_id AND domain = 'scanning';
+
+  IF v_settings IS NULL THEN
+    v_settings := (SELECT get_default_settings()->'scanning');
+  END IF;
+
+  -- Check if scanning enabled
+  IF (v_settings->>'enabled')::boolean = false THEN
+    RETURN jsonb_build_object('error', 'SCANNING_DISABLED', 'message', 'Scanning is disabled for this event');
+  END IF;
+
+  -- Get rate limits
+  v_rate_limit_per_minute := COALESCE((v_settings->'rate_limit'->>'per_minute')::integer, 60);
+  v_rate_limit_per_device := COALESCE((v_settings->'rate_limit'->>'per_device_per_minute')::integer, 30);
+  v_require_device_id := COALESCE((v_settings->>'require_device_id')::boolean, false);
+  v_pii_level := COALESCE(v_settings->'response'->>'pii_level', 'masked');
+
+  -- Check device_id requirement
+  IF v_require_device_id AND _device_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'DEVICE_ID_REQUIRED', 'message', 'Device ID is required for scanning');
+  END IF;
+
+  -- Rate limiting (per user)
+  SELECT COUNT(*) INTO v_user_count
+  FROM ticket_scans
+  WHERE scanner_user_id = auth.uid()
+    AND event_id = _event_id
+    AND scanned_at > NOW() - INTERVAL '1 minute';
+
+  IF v_user_count >= v_rate_limit_per_minute THEN
+    INSERT INTO ticket_scans (
+      ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+      scan_result, reason_code
+    ) VALUES (
+      v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+      'RATE_LIMIT_EXCEEDED', 'USER_RATE_LIMIT'
+    );
+
+    RETURN jsonb_build_object(
+      'result', 'RATE_LIMIT_EXCEEDED',
+      'message', 'Too many scans. Please wait.'
+    );
+  END IF;
+
+  -- Rate limiting (per device)
+  IF _device_id IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_device_count
+    FROM ticket_scans
+    WHERE device_id = _device_id
+      AND event_id = _event_id
+      AND scanned_at > NOW() - INTERVAL '1 minute';
+
+    IF v_device_count >= v_rate_limit_per_device THEN
+      INSERT INTO ticket_scans (
+        ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+        scan_result, reason_code
+      ) VALUES (
+        v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+        'RATE_LIMIT_EXCEEDED', 'DEVICE_RATE_LIMIT'
+      );
+
+      RETURN jsonb_build_object(
+        'result', 'RATE_LIMIT_EXCEEDED',
+        'message', 'Device scan limit exceeded.'
+      );
+    END IF;
+  END IF;
+
+  -- Check ticket status
+  v_result := CASE v_ticket.status
+    WHEN 'issued' THEN 'VALID'
+    WHEN 'checked_in' THEN 'ALREADY_USED'
+    WHEN 'cancelled' THEN 'CANCELLED'
+    WHEN 'refunded' THEN 'REFUNDED'
+    ELSE 'INVALID'
+  END;
+
+  -- Get participant info (for response)
+  SELECT o.customer_name, o.email
+  INTO v_participant_name, v_participant_email
+  FROM orders o
+  WHERE o.id = v_ticket.order_id;
+
+  -- Team ticket: teamlid (indien gekoppeld) i.p.v. de besteller
+  SELECT
+    t.name,
+    t.slots,
+    tm.role,
+    p.first_name || ' ' || p.last_name AS member_name,
+    p.email AS member_email,
+    (SELECT COUNT(*) FROM team_members x WHERE x.team_id = t.id) AS member_count
+  INTO v_team
+  FROM teams t
+  LEFT JOIN team_members tm ON tm.team_id = t.id AND tm.ticket_instance_id = v_ticket_id
+  LEFT JOIN participants p ON p.id = tm.participant_id
+  WHERE t.order_id = v_ticket.order_id
+    AND t.ticket_type_id = v_ticket.ticket_type_id
+    AND t.status <> 'cancelled';
+
+  IF FOUND THEN
+    IF v_team.role IS NOT NULL THEN
+      v_participant_name := v_team.member_name;
+      v_participant_email := v_team.member_email;
+    END IF;
+
+    v_team_info := jsonb_build_object(
+      'name', v_team.name,
+      'role', v_team.role,
+      'member_count', v_team.member_count,
+      'slots', v_team.slots
+    );
+  END IF;
+
+  -- Apply PII masking
+  IF v_pii_level = 'masked' THEN
+    v_participant_name := mask_participant_name(v_participant_name);
+    v_participant_email := mask_email(v_participant_email);
+  ELSIF v_pii_level = 'none' THEN
+    v_participant_name := NULL;
+    v_participant_email := NULL;
+  END IF;
+
+  -- Atomic update if valid
+  IF v_result = 'VALID' THEN
+    UPDATE ticket_instances
+    SET status = 'checked_in',
+        checked_in_at = NOW()
+    WHERE id = v_ticket_id;
+  END IF;
+
+  -- Log scan
+  INSERT INTO ticket_scans (
+    ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+    scan_result, reason_code
+  ) VALUES (
+    v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+    v_result, CASE WHEN v_found_via_fallback THEN 'LEGACY_TICKET_AUTO_FIXED' ELSE NULL END
+  );
+
+  -- Get ticket type name
+  SELECT tt.name INTO v_ticket_type_id
+  FROM ticket_types tt
+  WHERE tt.id = v_ticket.ticket_type_id;
+
+  -- Return result
+  RETURN jsonb_build_object(
+    'result', v_result,
+    'ticket', jsonb_build_object(
+      'id', v_ticket_id,
+      'type_name', v_ticket_type_id,
+      'participant_name', v_participant_name,
+      'participant_email', v_participant_email,
+      'checked_in_at', CASE WHEN v_result = 'VALID' THEN NOW() ELSE NULL END,
+      'team', v_team_info
+    ),
+    'message', CASE
+      WHEN v_result = 'ALREADY_USED' THEN 'Ticket already scanned'
+      WHEN v_result = 'CANCELLED' THEN 'Ticket has been cancelled'
+      WHEN v_result = 'REFUNDED' THEN 'Ticket has been refunded'
+      WHEN v_found_via_fallback THEN 'Legacy ticket (auto-fixed)'
+      ELSE NULL
+    END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error
+    INSERT INTO ticket_scans (
+      ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+      scan_result, reason_code
+    ) VALUES (
+      v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+      'ERROR', SQLERRM
+    );
+
+    RETURN jsonb_build_object('error', 'ERROR', 'message', SQLERRM);
+END;
+$$;
+
+COMMENT ON FUNCTION public.scan_ticket IS
+  'F007: Professional ticket scanning with fallback for legacy tickets. F017: includes team membership.';
+
+-- ===========================================================================
+-- 17. GRANT PERMISSIONS
+-- ===========================================================================
+
+GRANT SELECT, UPDATE ON teams TO authenticated;
+GRANT SELECT, DELETE ON team_members TO authenticated;
+
+-- ===========================================================================
+-- 18. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.tables
+                 WHERE table_schema = 'public' AND table_name = 'teams') THEN
+    RAISE EXCEPTION 'teams not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.tables
+                 WHERE table_schema = 'public' AND table_name = 'team_members') THEN
+    RAISE EXCEPTION 'team_members not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'join_team') THEN
+    RAISE EXCEPTION 'join_team not created';
+  END IF;
+  RAISE NOTICE 'F017: Team registration created successfully';
+END $$;
@@ -0,0 +1,1104 @@
+-- ===========================================================================
+-- F018: Time Slot (Wave) Checkout
+-- Migration: 20250129130000_f018_time_slot_checkout.sql
+--
+-- Purpose:
+-- - Koper kiest in de checkout een startvak/wave (ticket_time_slots) per
+--   ticketregel; verplicht als het tickettype actieve slots heeft
+-- - validate_checkout_capacity lockt het slot en controleert de slotcapaciteit
+-- - order_items.time_slot_id + ticket_instances.time_slot_id (was alleen
+--   order_items.metadata->>'time_slot_id'); een BEFORE INSERT trigger op
+--   order_items bewaakt de slotcapaciteit atomair onder row lock
+-- - Tickets erven het slot van hun order item
+-- - scan_ticket en my_tickets_view (phone app) tonen het slot
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. COLUMNS: time_slot_id
+-- ===========================================================================
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS time_slot_id UUID REFERENCES ticket_time_slots(id) ON DELETE SET NULL;
+
+ALTER TABLE ticket_instances
+  ADD COLUMN IF NOT EXISTS time_slot_id UUID REFERENCES ticket_time_slots(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN order_items.time_slot_id IS 'Chosen start time slot (wave) for this ticket line';
+COMMENT ON COLUMN ticket_instances.time_slot_id IS 'Start time slot (wave) of this ticket, inherited from the order item';
+
+CREATE INDEX IF NOT EXISTS idx_order_items_time_slot
+  ON order_items(time_slot_id)
+  WHERE time_slot_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ticket_instances_time_slot
+  ON ticket_instances(time_slot_id)
+  WHERE time_slot_id IS NOT NULL;
+
+-- Backfill: slots die eerder in metadata zijn opgeslagen
+UPDATE order_items oi
+SET time_slot_id = (oi.metadata->>'time_slot_id')::UUID
+WHERE oi.time_slot_id IS NULL
+  AND oi.metadata->>'time_slot_id' IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM ticket_time_slots ts
+    WHERE ts.id::text = oi.metadata->>'time_slot_id'
+  );
+
+UPDATE ticket_instances ti
+SET time_slot_id = oi.time_slot_id
+FROM order_items oi
+WHERE oi.id = ti.order_item_id
+  AND oi.time_slot_id IS NOT NULL
+  AND ti.time_slot_id IS NULL;
+
+-- ===========================================================================
+-- 2. HELPER: get_time_slot_free_capacity
+-- ===========================================================================
+-- Vrije plekken in een slot = capacity - ticketregels in pending/paid orders.
+-- NULL = onbeperkt (geen slotcapaciteit ingesteld).
+
+CREATE OR REPLACE FUNCTION public.get_time_slot_free_capacity(
+  _time_slot_id UUID
+)
+RETURNS INT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ts.capacity
+    - COALESCE((
+        SELECT SUM(oi.quantity)
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.time_slot_id = ts.id
+          AND o.status IN ('pending', 'paid')
+      ), 0)::INT
+  FROM ticket_time_slots ts
+  WHERE ts.id = _time_slot_id;
+$$;
+
+COMMENT ON FUNCTION public.get_time_slot_free_capacity(UUID) IS
+  'Free places in a time slot: capacity minus pending/paid order lines. NULL = unlimited.';
+
+GRANT EXECUTE ON FUNCTION public.get_time_slot_free_capacity(UUID) TO anon, authenticated;
+
+-- ===========================================================================
+-- 3. TRIGGER: enforce time slot capacity on order_items
+-- ===========================================================================
+-- validate_checkout_capacity is een pre-check; tussen de RPC en de INSERT
+-- van de order items kan een andere checkout hetzelfde slot vullen. Deze
+-- trigger lockt het slot en telt opnieuw binnen de INSERT transactie, zodat
+-- twee gelijktijdige orders nooit samen over de slotcapaciteit gaan.
+
+CREATE OR REPLACE FUNCTION public.enforce_time_slot_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot RECORD;
+  v_taken INT;
+BEGIN
+  -- Lock slot row (wacht op gelijktijdige checkouts voor hetzelfde slot)
+  SELECT ts.id, ts.ticket_type_id, ts.capacity, ts.deleted_at
+  INTO v_slot
+  FROM ticket_time_slots ts
+  WHERE ts.id = NEW.time_slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+     OR v_slot.deleted_at IS NOT NULL
+     OR v_slot.ticket_type_id IS DISTINCT FROM NEW.ticket_type_id THEN
+    RAISE EXCEPTION 'INVALID_TIME_SLOT' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_slot.capacity IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(oi.quantity), 0) INTO v_taken
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.time_slot_id = NEW.time_slot_id
+    AND oi.id IS DISTINCT FROM NEW.id
+    AND o.status IN ('pending', 'paid');
+
+  IF v_taken + NEW.quantity > v_slot.capacity THEN
+    RAISE EXCEPTION 'SLOT_FULL' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_time_slot_capacity_trigger ON order_items;
+CREATE TRIGGER enforce_time_slot_capacity_trigger
+  BEFORE INSERT OR UPDATE OF time_slot_id, quantity ON order_items
+  FOR EACH ROW
+  WHEN (NEW.time_slot_id IS NOT NULL)
+  EXECUTE FUNCTION enforce_time_slot_capacity();
+
+COMMENT ON FUNCTION public.enforce_time_slot_capacity() IS
+  'Locks the time slot and rejects order items that would exceed its capacity (SLOT_FULL) or do not belong to the ticket type (INVALID_TIME_SLOT).';
+
+-- ===========================================================================
+-- 4. TRIGGER: ticket inherits time slot from order item
+-- ===========================================================================
+-- Werkt voor alle uitgifte-paden (handle_payment_webhook, issue-tickets).
+
+CREATE OR REPLACE FUNCTION public.set_ticket_time_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.time_slot_id IS NULL THEN
+    SELECT oi.time_slot_id INTO NEW.time_slot_id
+    FROM order_items oi
+    WHERE oi.id = NEW.order_item_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_ticket_time_slot_trigger ON ticket_instances;
+CREATE TRIGGER set_ticket_time_slot_trigger
+  BEFORE INSERT ON ticket_instances
+  FOR EACH ROW
+  WHEN (NEW.order_item_id IS NOT NULL)
+  EXECUTE FUNCTION set_ticket_time_slot();
+
+COMMENT ON FUNCTION public.set_ticket_time_slot() IS
+  'Copies order_items.time_slot_id to a newly issued ticket instance.';
+
+-- ===========================================================================
+-- 5. RPC: get_ticket_time_slots (column based)
+-- ===========================================================================
+-- Telt nu via order_items.time_slot_id en op aantal tickets (quantity)
+-- i.p.v. aantal orderregels.
+
+CREATE OR REPLACE FUNCTION get_ticket_time_slots(
+  _ticket_type_id UUID
+)
+RETURNS TABLE (
+  id UUID,
+  slot_time TIME,
+  slot_date DATE,
+  label TEXT,
+  capacity INTEGER,
+  sold INTEGER,
+  available INTEGER,
+  sort_order INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ts.id,
+    ts.slot_time,
+    ts.slot_date,
+    ts.label,
+    ts.capacity,
+    COALESCE(
+      (SELECT SUM(oi.quantity)::integer FROM order_items oi
+       JOIN orders o ON o.id = oi.order_id
+       WHERE oi.time_slot_id = ts.id
+       AND o.status IN ('pending', 'paid')),
+      0
+    ) as sold,
+    public.get_time_slot_free_capacity(ts.id) as available,
+    ts.sort_order
+  FROM ticket_time_slots ts
+  WHERE ts.ticket_type_id = _ticket_type_id
+  AND ts.deleted_at IS NULL
+  ORDER BY ts.sort_order, ts.slot_time;
+END;
+$$;
+
+COMMENT ON FUNCTION get_ticket_time_slots IS
+  'Returns available time slots for a ticket type with current availability';
+
+-- ===========================================================================
+-- 6. RPC: validate_checkout_capacity (time slots)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F016 behalve voor ticketregels:
+-- - time_slot_id is verplicht als het tickettype actieve slots heeft
+-- - het slot wordt gelockt (FOR UPDATE SKIP LOCKED) en de slotcapaciteit
+--   gecontroleerd naast de capaciteit van het tickettype
+-- - details bevat time_slot_id + time_slot_label voor de order items
+
+CREATE OR REPLACE FUNCTION public.validate_checkout_capacity(
+  _event_id UUID,
+  _items JSONB,  -- Array: [{ticket_type_id: uuid, time_slot_id?: uuid, quantity: int} | {product_id: uuid, product_variant_id?: uuid, quantity: int}]
+  _waitlist_offer_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_ticket_type_id UUID;
+  v_product_id UUID;
+  v_variant_id UUID;
+  v_time_slot_id UUID;
+  v_quantity INT;
+  v_ticket_type RECORD;
+  v_slot_label TEXT;
+  v_slot_capacity INT;
+  v_slot_available INT;
+  v_product RECORD;
+  v_variant RECORD;
+  v_has_variants BOOLEAN;
+  v_stock_total INT;
+  v_unit_price NUMERIC(10,2);
+  v_sold_count INT;
+  v_held_count INT;
+  v_available INT;
+  v_details JSONB := '[]'::JSONB;
+  v_is_valid BOOLEAN := TRUE;
+  v_total_price NUMERIC(10,2) := 0;
+BEGIN
+  -- Iterate over requested items
+  FOR v_item IN SELECT jsonb_array_elements(_items)
+  LOOP
+    v_ticket_type_id := (v_item->>'ticket_type_id')::UUID;
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_variant_id := (v_item->>'product_variant_id')::UUID;
+    v_time_slot_id := (v_item->>'time_slot_id')::UUID;
+    v_quantity := (v_item->>'quantity')::INT;
+
+    IF v_quantity < 1 THEN
+      RETURN jsonb_build_object(
+        'valid', false,
+        'error', 'INVALID_QUANTITY',
+        'details', jsonb_build_array(
+          jsonb_build_object(
+            'ticket_type_id', v_ticket_type_id,
+            'product_id', v_product_id,
+            'reason', 'Quantity must be >= 1'
+          )
+        )
+      );
+    END IF;
+
+    -- -----------------------------------------------------------------
+    -- PRODUCT LINE
+    -- -----------------------------------------------------------------
+    IF v_product_id IS NOT NULL THEN
+      SELECT p.id, p.name, p.price, p.status, p.stock_total, p.max_per_order
+      INTO v_product
+      FROM public.products p
+      WHERE p.id = v_product_id
+        AND p.event_id = _event_id
+        AND p.deleted_at IS NULL
+      FOR UPDATE SKIP LOCKED;
+
+      IF NOT FOUND THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'reason', 'Product not found or locked by concurrent request'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      IF v_product.status != 'published' THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_name', v_product.name,
+            'reason', 'Product is not available'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      IF v_product.max_per_order IS NOT NULL AND v_quantity > v_product.max_per_order THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_name', v_product.name,
+            'max_per_order', v_product.max_per_order,
+            'requested', v_quantity,
+            'reason', 'Exceeds max per order'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      SELECT EXISTS (
+        SELECT 1 FROM public.product_variants pv
+        WHERE pv.product_id = v_product_id AND pv.deleted_at IS NULL
+      ) INTO v_has_variants;
+
+      IF v_has_variants THEN
+        -- Variant verplicht als het product varianten heeft
+        SELECT pv.id, pv.name, pv.price_adjustment, pv.stock_total
+        INTO v_variant
+        FROM public.product_variants pv
+        WHERE pv.id = v_variant_id
+          AND pv.product_id = v_product_id
+          AND pv.deleted_at IS NULL
+        FOR UPDATE SKIP LOCKED;
+
+        IF NOT FOUND THEN
+          v_is_valid := FALSE;
+          v_details := v_details || jsonb_build_array(
+            jsonb_build_object(
+              'product_id', v_product_id,
+              'product_variant_id', v_variant_id,
+              'product_name', v_product.name,
+              'reason', 'Variant required, not found or locked by concurrent request'
+            )
+          );
+          CONTINUE;
+        END IF;
+
+        v_stock_total := v_variant.stock_total;
+        v_unit_price := GREATEST(v_product.price + v_variant.price_adjustment, 0);
+
+        SELECT COALESCE(SUM(oi.quantity), 0) INTO v_sold_count
+        FROM public.order_items oi
+        JOIN public.orders o ON oi.order_id = o.id
+        WHERE oi.product_variant_id = v_variant_id
+          AND o.status IN ('pending', 'paid');
+      ELSE
+        IF v_variant_id IS NOT NULL THEN
+          v_is_valid := FALSE;
+          v_details := v_details || jsonb_build_array(
+            jsonb_build_object(
+              'product_id', v_product_id,
+              'product_variant_id', v_variant_id,
+              'reason', 'Product has no variants'
+            )
+          );
+          CONTINUE;
+        END IF;
+
+        v_stock_total := v_product.stock_total;
+        v_unit_price := v_product.price;
+
+        SELECT COALESCE(SUM(oi.quantity), 0) INTO v_sold_count
+        FROM public.order_items oi
+        JOIN public.orders o ON oi.order_id = o.id
+        WHERE oi.product_id = v_product_id
+          AND o.status IN ('pending', 'paid');
+      END IF;
+
+      -- NULL stock = onbeperkt
+      v_available := CASE WHEN v_stock_total IS NULL THEN NULL ELSE v_stock_total - v_sold_count END;
+
+      IF v_available IS NOT NULL AND v_available < v_quantity THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_variant_id', v_variant_id,
+            'product_name', v_product.name,
+            'variant_name', CASE WHEN v_has_variants THEN v_variant.name END,
+            'stock_total', v_stock_total,
+            'sold_count', v_sold_count,
+            'available', v_available,
+            'requested', v_quantity,
+            'reason', 'Insufficient stock'
+          )
+        );
+      ELSE
+        v_total_price := v_total_price + (v_unit_price * v_quantity);
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'line_type', 'product',
+            'product_id', v_product_id,
+            'product_variant_id', CASE WHEN v_has_variants THEN v_variant_id END,
+            'product_name', v_product.name,
+            'variant_name', CASE WHEN v_has_variants THEN v_variant.name END,
+            'price', v_unit_price,
+            'quantity', v_quantity,
+            'line_total', v_unit_price * v_quantity,
+            'available', v_available,
+            'status', 'OK'
+          )
+        );
+      END IF;
+
+      CONTINUE;
+    END IF;
+
+    -- -----------------------------------------------------------------
+    -- TICKET LINE
+    -- -----------------------------------------------------------------
+
+    -- Lock ticket_type row for atomic capacity check
+    SELECT tt.id, tt.name, tt.price, tt.capacity_total, tt.sales_start, tt.sales_end
+    INTO v_ticket_type
+    FROM public.ticket_types tt
+    WHERE tt.id = v_ticket_type_id
+      AND tt.event_id = _event_id
+      AND tt.deleted_at IS NULL
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'reason', 'Ticket type not found or locked by concurrent request'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    -- Sales window check
+    IF v_ticket_type.sales_start IS NOT NULL AND NOW() < v_ticket_type.sales_start THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'reason', 'Sales have not started yet'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    IF v_ticket_type.sales_end IS NOT NULL AND NOW() > v_ticket_type.sales_end THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'reason', 'Sales have ended'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    -- Time slot (wave): verplicht als het tickettype actieve slots heeft
+    v_slot_label := NULL;
+    v_slot_available := NULL;
+
+    IF v_time_slot_id IS NOT NULL THEN
+      -- Lock slot row for atomic slot capacity check
+      SELECT ts.label, ts.capacity
+      INTO v_slot_label, v_slot_capacity
+      FROM public.ticket_time_slots ts
+      WHERE ts.id = v_time_slot_id
+        AND ts.ticket_type_id = v_ticket_type_id
+        AND ts.deleted_at IS NULL
+      FOR UPDATE SKIP LOCKED;
+
+      IF NOT FOUND THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'ticket_type_id', v_ticket_type_id,
+            'time_slot_id', v_time_slot_id,
+            'ticket_name', v_ticket_type.name,
+            'reason', 'Time slot not found or locked by concurrent request'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      v_slot_available := public.get_time_slot_free_capacity(v_time_slot_id);
+
+      IF v_slot_available IS NOT NULL AND v_slot_available < v_quantity THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'ticket_type_id', v_ticket_type_id,
+            'time_slot_id', v_time_slot_id,
+            'ticket_name', v_ticket_type.name,
+            'time_slot_label', v_slot_label,
+            'slot_capacity', v_slot_capacity,
+            'available', v_slot_available,
+            'requested', v_quantity,
+            'reason', 'Insufficient time slot capacity'
+          )
+        );
+        CONTINUE;
+      END IF;
+    ELSIF EXISTS (
+      SELECT 1 FROM public.ticket_time_slots ts
+      WHERE ts.ticket_type_id = v_ticket_type_id
+        AND ts.deleted_at IS NULL
+    ) THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'reason', 'Time slot required'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    -- Count sold tickets (issued + checked_in, not void)
+    SELECT COALESCE(SUM(oi.quantity), 0) INTO v_sold_count
+    FROM public.order_items oi
+    JOIN public.orders o ON oi.order_id = o.id
+    WHERE oi.ticket_type_id = v_ticket_type_id
+      AND o.status IN ('pending', 'paid');
+
+    -- Plekken vastgehouden voor andere waitlist aanbiedingen
+    SELECT COALESCE(SUM(wo.quantity), 0) INTO v_held_count
+    FROM public.waitlist_offers wo
+    WHERE wo.ticket_type_id = v_ticket_type_id
+      AND wo.status = 'pending'
+      AND wo.expires_at > NOW()
+      AND (_waitlist_offer_id IS NULL OR wo.id != _waitlist_offer_id);
+
+    v_available := v_ticket_type.capacity_total - v_sold_count - v_held_count;
+
+    IF v_available < v_quantity THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'capacity_total', v_ticket_type.capacity_total,
+          'sold_count', v_sold_count,
+          'held_count', v_held_count,
+          'available', v_available,
+          'requested', v_quantity,
+          'reason', 'Insufficient capacity'
+        )
+      );
+    ELSE
+      -- Accumulate price
+      v_total_price := v_total_price + (v_ticket_type.price * v_quantity);
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'line_type', 'ticket',
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'time_slot_id', v_time_slot_id,
+          'time_slot_label', v_slot_label,
+          'price', v_ticket_type.price,
+          'quantity', v_quantity,
+          'line_total', v_ticket_type.price * v_quantity,
+          'available', v_available,
+          'status', 'OK'
+        )
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'valid', v_is_valid,
+    'total_price', v_total_price,
+    'details', v_details
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_checkout_capacity(UUID, JSONB, UUID) TO service_role;
+
+-- ===========================================================================
+-- 7. RPC: get_ticket_availability (slot availability)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F016 behalve: time_slots[] bevat per slot
+-- available_count (NULL = onbeperkt) en is_sold_out, zodat de checkout
+-- volle waves niet meer aanbiedt.
+
+CREATE OR REPLACE FUNCTION public.get_ticket_availability(_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+  v_waitlist_enabled boolean;
+BEGIN
+  -- Check event exists
+  IF NOT EXISTS (
+    SELECT 1 FROM events
+    WHERE id = _event_id
+      AND status = 'published'
+      AND deleted_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  v_waitlist_enabled := public.is_waitlist_enabled(_event_id);
+
+  SELECT jsonb_build_object(
+    'status', 'OK',
+    'event_id', _event_id,
+    'waitlist_enabled', v_waitlist_enabled,
+    'ticket_types', COALESCE(jsonb_agg(ticket_row ORDER BY sort_order NULLS LAST, price), '[]'::jsonb)
+  ) INTO v_result
+  FROM (
+    SELECT jsonb_build_object(
+      'id', tt.id,
+      'name', tt.name,
+      'description', tt.description,
+      'price', tt.price,
+      'currency', COALESCE(tt.currency, 'EUR'),
+      'vat_percentage', tt.vat_percentage,
+      'capacity_total', tt.capacity_total,
+      'sold_count', COALESCE(sold.count, 0),
+      'available_count', GREATEST(free.capacity, 0),
+      'is_sold_out', free.capacity <= 0,
+      'distance_value', tt.distance_value,
+      'distance_unit', tt.distance_unit,
+      'ticket_category', tt.ticket_category,
+      'max_per_participant', tt.max_per_participant,
+      'image_url', tt.image_url,
+      'sales_start', tt.sales_start,
+      'sales_end', tt.sales_end,
+      'on_sale', (
+        (tt.sales_start IS NULL OR tt.sales_start <= now())
+        AND (tt.sales_end IS NULL OR tt.sales_end > now())
+      ),
+      'sort_order', tt.sort_order,
+      'time_slots', COALESCE(slots.slots, '[]'::jsonb)
+    ) as ticket_row,
+    tt.sort_order,
+    tt.price
+    FROM ticket_types tt
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) as count
+      FROM ticket_instances ti
+      WHERE ti.ticket_type_id = tt.id
+        AND ti.status != 'void'
+    ) sold ON true
+    CROSS JOIN LATERAL (
+      SELECT public.get_ticket_type_free_capacity(tt.id) AS capacity
+    ) free
+    LEFT JOIN LATERAL (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', ts.id,
+          'slot_time', ts.slot_time,
+          'slot_date', ts.slot_date,
+          'label', ts.label,
+          'capacity', ts.capacity,
+          'available_count', CASE WHEN ts.capacity IS NULL THEN NULL
+                                  ELSE GREATEST(public.get_time_slot_free_capacity(ts.id), 0) END,
+          'is_sold_out', COALESCE(public.get_time_slot_free_capacity(ts.id) <= 0, false),
+          'sort_order', ts.sort_order
+        ) ORDER BY ts.sort_order NULLS LAST, ts.slot_date NULLS FIRST, ts.slot_time
+      ) as slots
+      FROM ticket_time_slots ts
+      WHERE ts.ticket_type_id = tt.id
+        AND ts.deleted_at IS NULL
+    ) slots ON true
+    WHERE tt.event_id = _event_id
+      AND tt.deleted_at IS NULL
+      AND tt.status = 'published'
+      AND tt.visibility = 'visible'
+  ) sub;
+
+  IF v_result IS NULL THEN
+    v_result := jsonb_build_object('status', 'OK', 'event_id', _event_id, 'waitlist_enabled', v_waitlist_enabled, 'ticket_types', '[]'::jsonb);
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_ticket_availability(uuid) IS
+  'Returns all visible ticket types for an event with real-time availability counts (held waitlist offers excluded), time slot availability and waitlist_enabled.';
+
+GRANT EXECUTE ON FUNCTION public.get_ticket_availability(uuid) TO anon, authenticated;
+
+-- ===========================================================================
+-- 8. RPC: scan_ticket (time slot)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F017 behalve:
+-- - ticket.time_slot = { id, label, slot_time, slot_date } zodat de
+--   startvak-controle mensen in de verkeerde wave kan weigeren
+
+CREATE OR REPLACE FUNCTION public.scan_ticket(
+  _event_id UUID,
+  _token TEXT,
+  _device_id TEXT DEFAULT NULL,
+  _ip_address INET DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket_id UUID;
+  v_ticket_type_id UUID;
+  v_ticket_status TEXT;
+  v_ticket RECORD;
+  v_token_hash TEXT;
+  v_org_id UUID;
+  v_settings JSONB;
+  v_rate_limit_per_minute INT;
+  v_rate_limit_per_device INT;
+  v_require_device_id BOOLEAN;
+  v_pii_level TEXT;
+  v_user_count INT;
+  v_device_count INT;
+  v_result TEXT;
+  v_participant_name TEXT;
+  v_participant_email TEXT;
+  v_found_via_fallback BOOLEAN := FALSE;
+  v_team RECORD;
+  v_team_info JSONB;
+  v_time_slot_info JSONB;
+BEGIN
+  -- Hash the token
+  v_token_hash := encode(
+    extensions.digest(_token::bytea, 'sha256'::text),
+    'hex'
+  );
+
+  -- STRATEGY 1: Find ticket by token_hash (fast, indexed lookup)
+  SELECT
+    ti.id,
+    ti.ticket_type_id,
+    ti.event_id,
+    ti.status,
+    ti.order_id,
+    ti.time_slot_id,
+    e.org_id
+  INTO v_ticket
+  FROM ticket_instances ti
+  JOIN events e ON e.id = ti.event_id
+  WHERE ti.token_hash = v_token_hash
+    AND ti.event_id = _event_id
+  FOR UPDATE SKIP LOCKED;
+
+  -- STRATEGY 2: Fallback to plaintext qr_code for legacy tickets
+  IF NOT FOUND THEN
+    SELECT
+      ti.id,
+      ti.ticket_type_id,
+      ti.event_id,
+      ti.status,
+      ti.order_id,
+      ti.time_slot_id,
+      e.org_id
+    INTO v_ticket
+    FROM ticket_instances ti
+    JOIN events e ON e.id = ti.event_id
+    WHERE ti.qr_code = _token
+      AND ti.event_id = _event_id
+      AND ti.token_hash IS NULL  -- Only legacy tickets
+    FOR UPDATE SKIP LOCKED;
+
+    IF FOUND THEN
+      -- Auto-fix: Update token_hash for future scans
+      UPDATE ticket_instances
+      SET token_hash = v_token_hash
+      WHERE id = v_ticket.id;
+
+      v_found_via_fallback := TRUE;
+      RAISE NOTICE 'Legacy ticket % auto-fixed with token_hash', v_ticket.id;
+    END IF;
+  END IF;
+
+  -- Still not found? Token is invalid
+  IF NOT FOUND THEN
+    -- Log failed scan
+    INSERT INTO ticket_scans (
+      event_id, scanner_user_id, device_id, ip_address, user_agent,
+      scan_result, reason_code
+    ) VALUES (
+      _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+      'INVALID', 'TOKEN_NOT_FOUND'
+    );
+
+    RETURN jsonb_build_object(
+      'result', 'INVALID',
+      'message', 'Invalid ticket token'
+    );
+  END IF;
+
+  v_ticket_id := v_ticket.id;
+  v_org_id := v_ticket.org_id;
+
+  -- Auth check
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED', 'message', 'Authentication required');
+  END IF;
+
+  -- Check org membership (scanner permission)
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED', 'message', 'Must be org member to scan tickets');
+  END IF;
+
+  -- Get scanning settings
+  SELECT setting_value INTO v_settings
+  FROM event_settings
+  WHERE event_id = _event_id AND domain = 'scanning';
+
+  IF v_settings IS NULL THEN
+    v_settings := (SELECT get_default_settings()->'scanning');
+  END IF;
+
+  -- Check if scanning enabled
+  IF (v_settings->>'enabled')::boolean = false THEN
+    RETURN jsonb_build_object('error', 'SCANNING_DISABLED', 'message', 'Scanning is disabled for this event');
+  END IF;
+
+  -- Get rate limits
+  v_rate_limit_per_minute := COALESCE((v_settings->'rate_limit'->>'per_minute')::integer, 60);
+  v_rate_limit_per_device := COALESCE((v_settings->'rate_limit'->>'per_device_per_minute')::integer, 30);
+  v_require_device_id := COALESCE((v_settings->>'require_device_id')::boolean, false);
+  v_pii_level := COALESCE(v_settings->'response'->>'pii_level', 'masked');
+
+  -- Check device_id requirement
+  IF v_require_device_id AND _device_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'DEVICE_ID_REQUIRED', 'message', 'Device ID is required for scanning');
+  END IF;
+
+  -- Rate limiting (per user)
+  SELECT COUNT(*) INTO v_user_count
+  FROM ticket_scans
+  WHERE scanner_user_id = auth.uid()
+    AND event_id = _event_id
+    AND scanned_at > NOW() - INTERVAL '1 minute';
+
+  IF v_user_count >= v_rate_limit_per_minute THEN
+    INSERT INTO ticket_scans (
+      ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+      scan_result, reason_code
+    ) VALUES (
+      v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+      'RATE_LIMIT_EXCEEDED', 'USER_RATE_LIMIT'
+    );
+
+    RETURN jsonb_build_object(
+      'result', 'RATE_LIMIT_EXCEEDED',
+      'message', 'Too many scans. Please wait.'
+    );
+  END IF;
+
+  -- Rate limiting (per device)
+  IF _device_id IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_device_count
+    FROM ticket_scans
+    WHERE device_id = _device_id
+      AND event_id = _event_id
+      AND scanned_at > NOW() - INTERVAL '1 minute';
+
+    IF v_device_count >= v_rate_limit_per_device THEN
+      INSERT INTO ticket_scans (
+        ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+        scan_result, reason_code
+      ) VALUES (
+        v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+        'RATE_LIMIT_EXCEEDED', 'DEVICE_RATE_LIMIT'
+      );
+
+      RETURN jsonb_build_object(
+        'result', 'RATE_LIMIT_EXCEEDED',
+        'message', 'Device scan limit exceeded.'
+      );
+    END IF;
+  END IF;
+
+  -- Check ticket status
+  v_result := CASE v_ticket.status
+    WHEN 'issued' THEN 'VALID'
+    WHEN 'checked_in' THEN 'ALREADY_USED'
+    WHEN 'cancelled' THEN 'CANCELLED'
+    WHEN 'refunded' THEN 'REFUNDED'
+    ELSE 'INVALID'
+  END;
+
+  -- Get participant info (for response)
+  SELECT o.customer_name, o.email
+  INTO v_participant_name, v_participant_email
+  FROM orders o
+  WHERE o.id = v_ticket.order_id;
+
+  -- Team ticket: teamlid (indien gekoppeld) i.p.v. de besteller
+  SELECT
+    t.name,
+    t.slots,
+    tm.role,
+    p.first_name || ' ' || p.last_name AS member_name,
+    p.email AS member_email,
+    (SELECT COUNT(*) FROM team_members x WHERE x.team_id = t.id) AS member_count
+  INTO v_team
+  FROM teams t
+  LEFT JOIN team_members tm ON tm.team_id = t.id AND tm.ticket_instance_id = v_ticket_id
+  LEFT JOIN participants p ON p.id = tm.participant_id
+  WHERE t.order_id = v_ticket.order_id
+    AND t.ticket_type_id = v_ticket.ticket_type_id
+    AND t.status <> 'cancelled';
+
+  IF FOUND THEN
+    IF v_team.role IS NOT NULL THEN
+      v_participant_name := v_team.member_name;
+      v_participant_email := v_team.member_email;
+    END IF;
+
+    v_team_info := jsonb_build_object(
+      'name', v_team.name,
+      'role', v_team.role,
+      'member_count', v_team.member_count,
+      'slots', v_team.slots
+    );
+  END IF;
+
+  -- Time slot (wave) van het ticket
+  IF v_ticket.time_slot_id IS NOT NULL THEN
+    SELECT jsonb_build_object(
+      'id', ts.id,
+      'label', ts.label,
+      'slot_time', ts.slot_time,
+      'slot_date', ts.slot_date
+    )
+    INTO v_time_slot_info
+    FROM ticket_time_slots ts
+    WHERE ts.id = v_ticket.time_slot_id;
+  END IF;
+
+  -- Apply PII masking
+  IF v_pii_level = 'masked' THEN
+    v_participant_name := mask_participant_name(v_participant_name);
+    v_participant_email := mask_email(v_participant_email);
+  ELSIF v_pii_level = 'none' THEN
+    v_participant_name := NULL;
+    v_participant_email := NULL;
+  END IF;
+
+  -- Atomic update if valid
+  IF v_result = 'VALID' THEN
+    UPDATE ticket_instances
+    SET status = 'checked_in',
+        checked_in_at = NOW()
+    WHERE id = v_ticket_id;
+  END IF;
+
+  -- Log scan
+  INSERT INTO ticket_scans (
+    ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+    scan_result, reason_code
+  ) VALUES (
+    v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+    v_result, CASE WHEN v_found_via_fallback THEN 'LEGACY_TICKET_AUTO_FIXED' ELSE NULL END
+  );
+
+  -- Get ticket type name
+  SELECT tt.name INTO v_ticket_type_id
+  FROM ticket_types tt
+  WHERE tt.id = v_ticket.ticket_type_id;
+
+  -- Return result
+  RETURN jsonb_build_object(
+    'result', v_result,
+    'ticket', jsonb_build_object(
+      'id', v_ticket_id,
+      'type_name', v_ticket_type_id,
+      'participant_name', v_participant_name,
+      'participant_email', v_participant_email,
+      'checked_in_at', CASE WHEN v_result = 'VALID' THEN NOW() ELSE NULL END,
+      'team', v_team_info,
+      'time_slot', v_time_slot_info
+    ),
+    'message', CASE
+      WHEN v_result = 'ALREADY_USED' THEN 'Ticket already scanned'
+      WHEN v_result = 'CANCELLED' THEN 'Ticket has been cancelled'
+      WHEN v_result = 'REFUNDED' THEN 'Ticket has been refunded'
+      WHEN v_found_via_fallback THEN 'Legacy ticket (auto-fixed)'
+      ELSE NULL
+    END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error
+    INSERT INTO ticket_scans (
+      ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+      scan_result, reason_code
+    ) VALUES (
+      v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+      'ERROR', SQLERRM
+    );
+
+    RETURN jsonb_build_object('error', 'ERROR', 'message', SQLERRM);
+END;
+$$;
+
+COMMENT ON FUNCTION public.scan_ticket IS
+  'F007: Professional ticket scanning with fallback for legacy tickets. F017: includes team membership. F018: includes time slot.';
+
+-- ===========================================================================
+-- 9. VIEW: my_tickets_view (time slot, phone app)
+-- ===========================================================================
+-- Kolommen toegevoegd aan het eind (CREATE OR REPLACE VIEW); het slot komt
+-- via de registratie van het ticket uit het order item.
+
+create or replace view public.my_tickets_view as
+select
+  t.id as ticket_id,
+  t.id as ticket_instance_id, -- Alias for future compatibility
+  t.barcode,
+  t.status,
+  t.created_at,
+
+  tt.id as ticket_type_id,
+  tt.name as ticket_name,
+  tt.price,
+  tt.currency,
+
+  e.id as event_id,
+  e.name as event_name,
+  e.start_time as starts_at, -- Alias to match UI expectation
+  e.location_name,
+
+  p.user_id as owner_user_id,
+
+  ts.id as time_slot_id,
+  ts.label as time_slot_label,
+  ts.slot_time as time_slot_time,
+  ts.slot_date as time_slot_date
+
+from public.tickets t
+join public.registrations r on t.registration_id = r.id
+join public.participants p on r.participant_id = p.id
+join public.ticket_types tt on t.ticket_type_id = tt.id
+join public.events e on tt.event_id = e.id
+left join public.order_items oi on oi.id = r.order_item_id
+left join public.ticket_time_slots ts on ts.id = oi.time_slot_id
+where t.status in ('valid', 'pending'); -- Only show relevant tickets
+
+alter view public.my_tickets_view set (security_invoker = true);
+
+-- ===========================================================================
+-- 10. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_schema = 'public' AND table_name = 'order_items'
+                   AND column_name = 'time_slot_id') THEN
+    RAISE EXCEPTION 'order_items.time_slot_id not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_schema = 'public' AND table_name = 'ticket_instances'
+                   AND column_name = 'time_slot_id') THEN
+    RAISE EXCEPTION 'ticket_instances.time_slot_id not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_time_slot_free_capacity') THEN
+    RAISE EXCEPTION 'get_time_slot_free_capacity not created';
+  END IF;
+  RAISE NOTICE 'F018: Time slot checkout created successfully';
+END $$;
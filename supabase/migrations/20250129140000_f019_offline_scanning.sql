@@ -0,0 +1,259 @@
+-- ===========================================================================
+-- F019: Offline Scanning
+-- Migration: 20250129140000_f019_offline_scanning.sql
+--
+-- Purpose:
+-- - Scanner downloadt vooraf de gehashte tokens van een event
+--   (get_offline_scan_snapshot) en valideert lokaal als het netwerk wegvalt
+-- - Offline scans worden bij reconnect opnieuw via scan_ticket verstuurd;
+--   resolve_offline_scan legt het resultaat naast de ticket_scans log:
+--   wie was er eerst, is het ticket twee keer binnengelaten?
+-- - checked_in_at volgt het werkelijke (offline) scanmoment
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. RPC: get_offline_scan_snapshot (scanner)
+-- ===========================================================================
+-- Alleen hashes + status, geen PII: een gestolen scanner geeft geen
+-- bruikbare tokens of deelnemersgegevens prijs. Legacy tickets zonder
+-- token_hash krijgen de hash van hun qr_code (zelfde regel als scan_ticket).
+
+CREATE OR REPLACE FUNCTION public.get_offline_scan_snapshot(
+  _event_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_settings JSONB;
+  v_tickets JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT org_id INTO v_org_id
+  FROM events
+  WHERE id = _event_id
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT setting_value INTO v_settings
+  FROM event_settings
+  WHERE event_id = _event_id AND domain = 'scanning';
+
+  IF v_settings IS NULL THEN
+    v_settings := (SELECT get_default_settings()->'scanning');
+  END IF;
+
+  IF (v_settings->>'enabled')::boolean = false THEN
+    RETURN jsonb_build_object('error', 'SCANNING_DISABLED');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'token_hash', COALESCE(
+      ti.token_hash,
+      encode(extensions.digest(ti.qr_code::bytea, 'sha256'::text), 'hex')
+    ),
+    'ticket_id', ti.id,
+    'status', ti.status,
+    'type_name', tt.name,
+    'checked_in_at', ti.checked_in_at,
+    'time_slot', CASE WHEN ts.id IS NOT NULL THEN jsonb_build_object(
+      'id', ts.id,
+      'label', ts.label,
+      'slot_time', ts.slot_time,
+      'slot_date', ts.slot_date
+    ) END
+  )), '[]'::jsonb)
+  INTO v_tickets
+  FROM ticket_instances ti
+  JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+  LEFT JOIN ticket_time_slots ts ON ts.id = ti.time_slot_id
+  WHERE ti.event_id = _event_id
+    AND (ti.token_hash IS NOT NULL OR ti.qr_code IS NOT NULL);
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'event_id', _event_id,
+    'generated_at', NOW(),
+    'tickets', v_tickets
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_offline_scan_snapshot(UUID) IS
+  'F019: Hashed ticket tokens + status for offline validation by scanners (org members, no PII).';
+
+GRANT EXECUTE ON FUNCTION public.get_offline_scan_snapshot(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 2. RPC: resolve_offline_scan (scanner)
+-- ===========================================================================
+-- Aangeroepen nadat een offline scan opnieuw via scan_ticket is verstuurd
+-- (result VALID of ALREADY_USED). De geregistreerde check-in is de eerste
+-- VALID scan na de laatste UNDO in ticket_scans.
+--
+-- Resolutions:
+-- - SYNCED          de check-in komt van (een eerdere replay van) dit apparaat;
+--                   checked_in_at = offline scanmoment
+-- - OFFLINE_FIRST   offline scan was eerder dan de check-in van een ander
+--                   apparaat; checked_in_at gecorrigeerd, ticket 2x binnengelaten
+-- - DUPLICATE_ENTRY check-in op een ander apparaat was eerder, maar offline
+--                   is het ticket ook goedgekeurd: ticket 2x binnengelaten
+-- - CONSISTENT      offline ook al als gebruikt afgewezen
+-- Dubbele toegang (OFFLINE_FIRST, DUPLICATE_ENTRY) komt in audit_log.
+
+CREATE OR REPLACE FUNCTION public.resolve_offline_scan(
+  _event_id UUID,
+  _ticket_id UUID,
+  _device_id TEXT,
+  _scanned_at TIMESTAMPTZ,
+  _local_result TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket RECORD;
+  v_last_undo TIMESTAMPTZ;
+  v_recorded RECORD;
+  v_checked_in_at TIMESTAMPTZ;
+  v_resolution TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _local_result NOT IN ('VALID', 'ALREADY_USED') THEN
+    RETURN jsonb_build_object('error', 'INVALID_LOCAL_RESULT');
+  END IF;
+
+  -- Offline scans kunnen niet uit de toekomst komen
+  IF _scanned_at IS NULL OR _scanned_at > NOW() + INTERVAL '5 minutes' THEN
+    RETURN jsonb_build_object('error', 'INVALID_SCANNED_AT');
+  END IF;
+
+  SELECT ti.id, ti.status, ti.checked_in_at, e.org_id
+  INTO v_ticket
+  FROM ticket_instances ti
+  JOIN events e ON e.id = ti.event_id
+  WHERE ti.id = _ticket_id
+    AND ti.event_id = _event_id
+  FOR UPDATE OF ti;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TICKET_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_ticket.org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF v_ticket.status <> 'checked_in' THEN
+    RETURN jsonb_build_object('error', 'NOT_CHECKED_IN');
+  END IF;
+
+  SELECT MAX(scanned_at) INTO v_last_undo
+  FROM ticket_scans
+  WHERE ticket_id = _ticket_id
+    AND scan_result = 'UNDO';
+
+  SELECT ts.scanned_at, ts.device_id, ts.scanner_user_id
+  INTO v_recorded
+  FROM ticket_scans ts
+  WHERE ts.ticket_id = _ticket_id
+    AND ts.scan_result = 'VALID'
+    AND ts.scanned_at > COALESCE(v_last_undo, '-infinity'::timestamptz)
+  ORDER BY ts.scanned_at ASC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'NO_RECORDED_CHECKIN');
+  END IF;
+
+  -- Eerder gesynchroniseerde offline scans kunnen checked_in_at al naar
+  -- voren hebben gezet; dat is het werkelijke check-in moment
+  v_checked_in_at := LEAST(v_recorded.scanned_at, COALESCE(v_ticket.checked_in_at, v_recorded.scanned_at));
+
+  IF v_recorded.device_id IS NOT DISTINCT FROM _device_id
+     AND v_recorded.scanned_at >= _scanned_at THEN
+    -- De geregistreerde check-in komt van de replay van dit apparaat
+    v_resolution := 'SYNCED';
+  ELSIF v_checked_in_at > _scanned_at THEN
+    v_resolution := CASE WHEN _local_result = 'VALID' THEN 'OFFLINE_FIRST' ELSE 'CONSISTENT' END;
+  ELSE
+    v_resolution := CASE WHEN _local_result = 'VALID' THEN 'DUPLICATE_ENTRY' ELSE 'CONSISTENT' END;
+  END IF;
+
+  -- Check-in moment = eerste keer dat het ticket werkelijk is goedgekeurd
+  IF v_resolution IN ('SYNCED', 'OFFLINE_FIRST') AND _scanned_at < v_checked_in_at THEN
+    UPDATE ticket_instances
+    SET checked_in_at = _scanned_at
+    WHERE id = _ticket_id;
+  END IF;
+
+  IF v_resolution IN ('OFFLINE_FIRST', 'DUPLICATE_ENTRY') THEN
+    INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (
+      v_ticket.org_id,
+      auth.uid(),
+      'OFFLINE_SCAN_CONFLICT',
+      'ticket_instance',
+      _ticket_id,
+      jsonb_build_object(
+        'resolution', v_resolution,
+        'event_id', _event_id,
+        'offline_device_id', _device_id,
+        'offline_scanned_at', _scanned_at,
+        'recorded_device_id', v_recorded.device_id,
+        'recorded_scanned_at', v_recorded.scanned_at,
+        'recorded_checked_in_at', v_checked_in_at
+      )
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'ticket_id', _ticket_id,
+    'resolution', v_resolution,
+    'recorded_scan', jsonb_build_object(
+      'scanned_at', v_recorded.scanned_at,
+      'device_id', v_recorded.device_id,
+      'checked_in_at', v_checked_in_at
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.resolve_offline_scan(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT) IS
+  'F019: Resolve a replayed offline scan against the ticket_scans log (SYNCED, OFFLINE_FIRST, DUPLICATE_ENTRY, CONSISTENT).';
+
+GRANT EXECUTE ON FUNCTION public.resolve_offline_scan(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT) TO authenticated;
+
+-- ===========================================================================
+-- 3. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_offline_scan_snapshot') THEN
+    RAISE EXCEPTION 'get_offline_scan_snapshot not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'resolve_offline_scan') THEN
+    RAISE EXCEPTION 'resolve_offline_scan not created';
+  END IF;
+  RAISE NOTICE 'F019: Offline scanning created successfully';
+END $$;
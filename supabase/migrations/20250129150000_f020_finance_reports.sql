@@ -0,0 +1,396 @@
+-- ===========================================================================
+-- F020: Finance Reports
+-- Migration: 20250129150000_f020_finance_reports.sql
+--
+-- Purpose:
+-- - Org-brede financiële rapportage over orders, payments, refunds en
+--   discount_applications: bruto omzet, kortingen, terugbetalingen,
+--   netto omzet en btw, per event en per tickettype, voor een periode
+-- - Btw volgt de payments.vat_rate setting (event override → org → 21%)
+-- - Export regels (per orderregel) voor de boekhouding, alleen voor
+--   owner en finance
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. HELPER: finance_report_lines (intern)
+-- ===========================================================================
+-- Eén regel per orderregel per boeking:
+-- - 'sale'   orderregel van een betaalde (of later terugbetaalde) order,
+--            geboekt op orders.created_at
+-- - 'refund' terugbetaling, geboekt op refunds.refunded_at
+--
+-- Kortingen op orderniveau (discount_applications zonder order_item_id,
+-- of orders.discount_amount als er geen ledger regels zijn) worden naar
+-- rato van total_price over de orderregels verdeeld. Refunds zonder
+-- refund_items worden op dezelfde manier verdeeld.
+-- Bedragen zijn incl. btw (consumentenprijzen).
+
+CREATE OR REPLACE FUNCTION public.finance_report_lines(
+  _org_id UUID,
+  _from DATE,
+  _to DATE
+)
+RETURNS TABLE (
+  line_type TEXT,
+  booked_at TIMESTAMPTZ,
+  order_id UUID,
+  event_id UUID,
+  event_name TEXT,
+  order_item_id UUID,
+  ticket_type_id UUID,
+  item_name TEXT,
+  quantity INTEGER,
+  gross NUMERIC,
+  discount NUMERIC,
+  refund NUMERIC,
+  vat_rate NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH event_vat AS (
+    SELECT
+      e.id AS event_id,
+      e.name AS event_name,
+      COALESCE(
+        (es.setting_value->>'vat_rate')::numeric,
+        (os.setting_value->>'vat_rate')::numeric,
+        21
+      ) AS vat_rate
+    FROM events e
+    LEFT JOIN event_settings es ON es.event_id = e.id AND es.domain = 'payments'
+    LEFT JOIN org_settings os ON os.org_id = e.org_id AND os.domain = 'payments'
+    WHERE e.org_id = _org_id
+  ),
+  items AS (
+    SELECT
+      o.id AS order_id,
+      o.created_at,
+      o.discount_amount AS order_discount_amount,
+      ev.event_id,
+      ev.event_name,
+      ev.vat_rate,
+      oi.id AS order_item_id,
+      oi.ticket_type_id,
+      COALESCE(tt.name, p.name, 'Overig') AS item_name,
+      oi.quantity,
+      oi.total_price,
+      SUM(oi.total_price) OVER (PARTITION BY o.id) AS order_items_total
+    FROM orders o
+    JOIN event_vat ev ON ev.event_id = o.event_id
+    JOIN order_items oi ON oi.order_id = o.id
+    LEFT JOIN ticket_types tt ON tt.id = oi.ticket_type_id
+    LEFT JOIN products p ON p.id = oi.product_id
+    WHERE o.status IN ('paid', 'refunded')
+  ),
+  item_discounts AS (
+    SELECT da.order_item_id, SUM(da.discount_amount) AS amount
+    FROM discount_applications da
+    WHERE da.order_item_id IS NOT NULL
+    GROUP BY da.order_item_id
+  ),
+  order_discounts AS (
+    SELECT da.order_id, SUM(da.discount_amount) AS amount
+    FROM discount_applications da
+    WHERE da.order_item_id IS NULL
+    GROUP BY da.order_id
+  ),
+  refund_totals AS (
+    SELECT
+      r.id AS refund_id,
+      r.order_id,
+      COALESCE(r.refunded_at, r.created_at) AS refunded_at,
+      r.amount_cents / 100.0 AS amount,
+      EXISTS (SELECT 1 FROM refund_items ri WHERE ri.refund_id = r.id) AS has_items
+    FROM refunds r
+    WHERE r.org_id = _org_id
+      AND r.status = 'refunded'
+      AND (_from IS NULL OR COALESCE(r.refunded_at, r.created_at) >= _from)
+      AND (_to IS NULL OR COALESCE(r.refunded_at, r.created_at) < _to + 1)
+  )
+  -- Verkopen
+  SELECT
+    'sale',
+    i.created_at,
+    i.order_id,
+    i.event_id,
+    i.event_name,
+    i.order_item_id,
+    i.ticket_type_id,
+    i.item_name,
+    i.quantity,
+    i.total_price,
+    COALESCE(idc.amount, 0)
+      + CASE WHEN i.order_items_total > 0
+          THEN ROUND(COALESCE(odc.amount, i.order_discount_amount, 0) * i.total_price / i.order_items_total, 2)
+          ELSE 0
+        END,
+    0::numeric,
+    i.vat_rate
+  FROM items i
+  LEFT JOIN item_discounts idc ON idc.order_item_id = i.order_item_id
+  LEFT JOIN order_discounts odc ON odc.order_id = i.order_id
+  WHERE (_from IS NULL OR i.created_at >= _from)
+    AND (_to IS NULL OR i.created_at < _to + 1)
+
+  UNION ALL
+
+  -- Terugbetalingen
+  SELECT
+    'refund',
+    rt.refunded_at,
+    i.order_id,
+    i.event_id,
+    i.event_name,
+    i.order_item_id,
+    i.ticket_type_id,
+    i.item_name,
+    CASE WHEN rt.has_items THEN COALESCE(ri.quantity, 0) ELSE 0 END,
+    0::numeric,
+    0::numeric,
+    CASE
+      WHEN rt.has_items THEN COALESCE(ri.amount_cents, 0) / 100.0
+      WHEN i.order_items_total > 0 THEN ROUND(rt.amount * i.total_price / i.order_items_total, 2)
+      ELSE 0
+    END,
+    i.vat_rate
+  FROM refund_totals rt
+  JOIN items i ON i.order_id = rt.order_id
+  LEFT JOIN refund_items ri ON ri.refund_id = rt.refund_id AND ri.order_item_id = i.order_item_id
+  WHERE NOT rt.has_items OR ri.id IS NOT NULL;
+$$;
+
+COMMENT ON FUNCTION public.finance_report_lines(UUID, DATE, DATE) IS
+  'F020: Internal - sale and refund lines per order item for finance reports (amounts incl. VAT).';
+
+REVOKE ALL ON FUNCTION public.finance_report_lines(UUID, DATE, DATE) FROM public;
+GRANT EXECUTE ON FUNCTION public.finance_report_lines(UUID, DATE, DATE) TO service_role;
+
+-- ===========================================================================
+-- 2. RPC: get_finance_report (owner, admin, finance)
+-- ===========================================================================
+-- Totalen, per event, per tickettype en ontvangen betalingen per provider.
+-- net_revenue = gross_sales - discounts - refunds (incl. btw);
+-- vat = net_revenue * vat_rate / (100 + vat_rate), per regel afgerond.
+
+CREATE OR REPLACE FUNCTION public.get_finance_report(
+  _org_id UUID,
+  _from DATE DEFAULT NULL,
+  _to DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+  v_totals JSONB;
+  v_by_event JSONB;
+  v_by_ticket_type JSONB;
+  v_by_provider JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT role::text INTO v_role
+  FROM org_members
+  WHERE org_id = _org_id AND user_id = auth.uid();
+
+  IF v_role IS NULL OR v_role NOT IN ('owner', 'admin', 'finance') THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _from IS NOT NULL AND _to IS NOT NULL AND _from > _to THEN
+    RETURN jsonb_build_object('error', 'INVALID_DATE_RANGE');
+  END IF;
+
+  WITH lines AS (
+    SELECT *, ROUND((gross - discount - refund) * vat_rate / (100 + vat_rate), 2) AS vat
+    FROM public.finance_report_lines(_org_id, _from, _to)
+  )
+  SELECT
+    (
+      SELECT jsonb_build_object(
+        'gross_sales', COALESCE(SUM(gross), 0),
+        'discounts', COALESCE(SUM(discount), 0),
+        'refunds', COALESCE(SUM(refund), 0),
+        'net_revenue', COALESCE(SUM(gross - discount - refund), 0),
+        'vat', COALESCE(SUM(vat), 0),
+        'order_count', COUNT(DISTINCT order_id) FILTER (WHERE line_type = 'sale')
+      )
+      FROM lines
+    ),
+    (
+      SELECT COALESCE(jsonb_agg(row_to_json(t) ORDER BY t.event_name), '[]'::jsonb)
+      FROM (
+        SELECT
+          event_id,
+          event_name,
+          MAX(vat_rate) AS vat_rate,
+          SUM(gross) AS gross_sales,
+          SUM(discount) AS discounts,
+          SUM(refund) AS refunds,
+          SUM(gross - discount - refund) AS net_revenue,
+          SUM(vat) AS vat,
+          COUNT(DISTINCT order_id) FILTER (WHERE line_type = 'sale') AS order_count
+        FROM lines
+        GROUP BY event_id, event_name
+      ) t
+    ),
+    (
+      SELECT COALESCE(jsonb_agg(row_to_json(t) ORDER BY t.event_name, t.item_name), '[]'::jsonb)
+      FROM (
+        SELECT
+          event_id,
+          event_name,
+          ticket_type_id,
+          item_name,
+          COALESCE(SUM(quantity) FILTER (WHERE line_type = 'sale'), 0) AS quantity_sold,
+          COALESCE(SUM(quantity) FILTER (WHERE line_type = 'refund'), 0) AS quantity_refunded,
+          SUM(gross) AS gross_sales,
+          SUM(discount) AS discounts,
+          SUM(refund) AS refunds,
+          SUM(gross - discount - refund) AS net_revenue,
+          SUM(vat) AS vat
+        FROM lines
+        GROUP BY event_id, event_name, ticket_type_id, item_name
+      ) t
+    )
+  INTO v_totals, v_by_event, v_by_ticket_type;
+
+  -- Ontvangen via betaalprovider (orderbedrag; payments.amount is niet
+  -- overal in dezelfde eenheid opgeslagen)
+  SELECT COALESCE(jsonb_agg(row_to_json(t) ORDER BY t.provider), '[]'::jsonb)
+  INTO v_by_provider
+  FROM (
+    SELECT
+      pay.provider,
+      COUNT(*) AS payment_count,
+      SUM(o.total_amount) AS amount
+    FROM payments pay
+    JOIN orders o ON o.id = pay.order_id
+    JOIN events e ON e.id = o.event_id
+    WHERE e.org_id = _org_id
+      AND pay.status = 'paid'
+      AND (_from IS NULL OR o.created_at >= _from)
+      AND (_to IS NULL OR o.created_at < _to + 1)
+    GROUP BY pay.provider
+  ) t;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'org_id', _org_id,
+    'period', jsonb_build_object('from', _from, 'to', _to),
+    'currency', 'EUR',
+    'can_export', v_role IN ('owner', 'finance'),
+    'totals', v_totals,
+    'by_event', v_by_event,
+    'by_ticket_type', v_by_ticket_type,
+    'by_provider', v_by_provider
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_finance_report(UUID, DATE, DATE) IS
+  'F020: Org finance report (gross sales, discounts, refunds, net revenue, VAT) per event and ticket type. Owner/admin/finance.';
+
+GRANT EXECUTE ON FUNCTION public.get_finance_report(UUID, DATE, DATE) TO authenticated;
+
+-- ===========================================================================
+-- 3. RPC: get_finance_export (owner, finance)
+-- ===========================================================================
+-- Eén rij per boeking per orderregel, in boekingsvolgorde. Geen PII: de
+-- boekhouding krijgt order-id's, geen namen of e-mailadressen.
+
+CREATE OR REPLACE FUNCTION public.get_finance_export(
+  _org_id UUID,
+  _from DATE DEFAULT NULL,
+  _to DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+  v_rows JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT role::text INTO v_role
+  FROM org_members
+  WHERE org_id = _org_id AND user_id = auth.uid();
+
+  IF v_role IS NULL OR v_role NOT IN ('owner', 'finance') THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _from IS NOT NULL AND _to IS NOT NULL AND _from > _to THEN
+    RETURN jsonb_build_object('error', 'INVALID_DATE_RANGE');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'booked_at', l.booked_at,
+    'line_type', l.line_type,
+    'order_id', l.order_id,
+    'event_name', l.event_name,
+    'item_name', l.item_name,
+    'quantity', l.quantity,
+    'gross', l.gross,
+    'discount', l.discount,
+    'refund', l.refund,
+    'net_revenue', l.gross - l.discount - l.refund,
+    'vat_rate', l.vat_rate,
+    'vat', ROUND((l.gross - l.discount - l.refund) * l.vat_rate / (100 + l.vat_rate), 2)
+  ) ORDER BY l.booked_at, l.order_id, l.line_type DESC), '[]'::jsonb)
+  INTO v_rows
+  FROM public.finance_report_lines(_org_id, _from, _to) l;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    _org_id,
+    auth.uid(),
+    'FINANCE_EXPORT',
+    'org',
+    _org_id,
+    jsonb_build_object('from', _from, 'to', _to, 'row_count', jsonb_array_length(v_rows))
+  );
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'period', jsonb_build_object('from', _from, 'to', _to),
+    'currency', 'EUR',
+    'rows', v_rows
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_finance_export(UUID, DATE, DATE) IS
+  'F020: Finance export rows per booking per order line for accounting. Owner/finance only, audited.';
+
+GRANT EXECUTE ON FUNCTION public.get_finance_export(UUID, DATE, DATE) TO authenticated;
+
+-- ===========================================================================
+-- 4. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'finance_report_lines') THEN
+    RAISE EXCEPTION 'finance_report_lines not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_finance_report') THEN
+    RAISE EXCEPTION 'get_finance_report not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_finance_export') THEN
+    RAISE EXCEPTION 'get_finance_export not created';
+  END IF;
+  RAISE NOTICE 'F020: Finance reports created successfully';
+END $$;
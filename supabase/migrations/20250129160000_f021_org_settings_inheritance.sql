@@ -0,0 +1,608 @@
+-- ===========================================================================
+-- F021: Org Settings Inheritance
+-- Migration: 20250129160000_f021_org_settings_inheritance.sql
+--
+-- Purpose:
+-- - Org-brede defaults beheren in dezelfde domeinen als de event settings
+--   (get_org_config / set_org_config / reset_org_config_domain)
+-- - Per event zichtbaar maken welke waarden van de org komen en welke op
+--   het event overschreven zijn (get_event_config_sources)
+-- - Event overrides per veld wissen (clear_event_config_override) en org
+--   waarden naar alle events pushen (push_org_config_to_events)
+-- - get_event_config weer over alle org/event domeinen (20250127000002
+--   liet branding, waitlist, interest_list, ticket_pdf en ticket_privacy vallen)
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. HELPERS: config_domains, can_edit_config_domain
+-- ===========================================================================
+-- Eén lijst van domeinen die zowel op org als event niveau bestaan
+-- (org_settings_domain_check), en één plek voor de RBAC regels die
+-- set_event_config / get_event_config_permissions ook hanteren.
+
+CREATE OR REPLACE FUNCTION public.config_domains()
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY[
+    'payments', 'transfers', 'communication', 'governance', 'legal',
+    'basic_info', 'content_communication', 'branding', 'waitlist',
+    'interest_list', 'ticket_pdf', 'ticket_privacy'
+  ];
+$$;
+
+COMMENT ON FUNCTION public.config_domains() IS
+  'F021: Settings domains available at both org and event level.';
+
+CREATE OR REPLACE FUNCTION public.can_edit_config_domain(_role TEXT, _domain TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _domain = 'payments' THEN _role IN ('owner', 'admin', 'finance')
+    WHEN _domain IN ('transfers', 'communication') THEN _role IN ('owner', 'admin', 'support')
+    WHEN _domain = ANY (public.config_domains()) THEN _role IN ('owner', 'admin')
+    ELSE false
+  END;
+$$;
+
+COMMENT ON FUNCTION public.can_edit_config_domain(TEXT, TEXT) IS
+  'F021: RBAC rule per settings domain (same rules as set_event_config).';
+
+-- ===========================================================================
+-- 2. FUNCTION: get_event_config (alle domeinen)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. 20250127000002 behalve: domeinen uit config_domains().
+
+CREATE OR REPLACE FUNCTION public.get_event_config(_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _org_id uuid;
+    _result jsonb := '{}'::jsonb;
+    _domain text;
+    _defaults jsonb;
+    _org_val jsonb;
+    _event_val jsonb;
+    _merged jsonb;
+BEGIN
+    SELECT org_id INTO _org_id FROM public.events WHERE id = _event_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event not found: %', _event_id;
+    END IF;
+
+    IF NOT public.is_org_member(_org_id) THEN
+        RAISE EXCEPTION 'Not authorized to view this event config';
+    END IF;
+
+    FOREACH _domain IN ARRAY public.config_domains()
+    LOOP
+        _defaults := public.get_default_settings(_domain);
+
+        SELECT setting_value INTO _org_val
+        FROM public.org_settings
+        WHERE org_id = _org_id AND domain = _domain;
+
+        IF _org_val IS NULL THEN _org_val := '{}'::jsonb; END IF;
+
+        SELECT setting_value INTO _event_val
+        FROM public.event_settings
+        WHERE event_id = _event_id AND domain = _domain;
+
+        IF _event_val IS NULL THEN _event_val := '{}'::jsonb; END IF;
+
+        _merged := public.jsonb_deep_merge(
+            public.jsonb_deep_merge(_defaults, _org_val),
+            _event_val
+        );
+
+        _result := jsonb_set(_result, ARRAY[_domain], _merged);
+    END LOOP;
+
+    RETURN _result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_event_config IS 'Returns merged event config (system defaults || org defaults || event overrides)';
+
+-- ===========================================================================
+-- 3. RPC: get_org_config / get_org_config_permissions
+-- ===========================================================================
+-- Zelfde vorm als get_event_config / get_event_config_permissions zodat de
+-- settings UI beide scopes met dezelfde formulieren kan tonen.
+
+CREATE OR REPLACE FUNCTION public.get_org_config(_org_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result jsonb := '{}'::jsonb;
+    _domain text;
+    _org_val jsonb;
+BEGIN
+    IF NOT public.is_org_member(_org_id) THEN
+        RAISE EXCEPTION 'Not authorized to view this organization config';
+    END IF;
+
+    FOREACH _domain IN ARRAY public.config_domains()
+    LOOP
+        SELECT setting_value INTO _org_val
+        FROM public.org_settings
+        WHERE org_id = _org_id AND domain = _domain;
+
+        _result := jsonb_set(
+            _result,
+            ARRAY[_domain],
+            public.jsonb_deep_merge(public.get_default_settings(_domain), COALESCE(_org_val, '{}'::jsonb))
+        );
+    END LOOP;
+
+    RETURN _result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_org_config(uuid) IS
+  'F021: Returns merged org config (system defaults || org defaults) for all settings domains.';
+
+GRANT EXECUTE ON FUNCTION public.get_org_config(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_org_config_permissions(_org_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _role text;
+    _result jsonb;
+    _domain text;
+BEGIN
+    SELECT role INTO _role
+    FROM public.org_members
+    WHERE org_id = _org_id AND user_id = auth.uid();
+
+    IF _role IS NULL THEN RETURN NULL; END IF;
+
+    _result := jsonb_build_object('role', _role);
+
+    FOREACH _domain IN ARRAY public.config_domains()
+    LOOP
+        _result := _result || jsonb_build_object('can_edit_' || _domain, public.can_edit_config_domain(_role, _domain));
+    END LOOP;
+
+    RETURN _result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_org_config_permissions(uuid) IS
+  'F021: Returns user permissions for editing each org config domain.';
+
+GRANT EXECUTE ON FUNCTION public.get_org_config_permissions(uuid) TO authenticated;
+
+-- ===========================================================================
+-- 4. RPC: set_org_config / reset_org_config_domain
+-- ===========================================================================
+-- set_org_config merget de patch in org_settings (zoals set_event_config);
+-- het oude set_org_setting vervangt het hele domein.
+
+CREATE OR REPLACE FUNCTION public.set_org_config(
+    _org_id uuid,
+    _domain text,
+    _patch jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _role text;
+    _current jsonb;
+    _new jsonb;
+BEGIN
+    SELECT role INTO _role
+    FROM public.org_members
+    WHERE org_id = _org_id AND user_id = auth.uid();
+
+    IF _role IS NULL THEN
+        RAISE EXCEPTION 'Not authorized: not a member of this organization';
+    END IF;
+
+    IF NOT (_domain = ANY (public.config_domains())) THEN
+        RAISE EXCEPTION 'Unknown domain: %', _domain;
+    END IF;
+
+    IF NOT public.can_edit_config_domain(_role, _domain) THEN
+        RAISE EXCEPTION 'Permission denied: % cannot edit % settings', _role, _domain;
+    END IF;
+
+    PERFORM public.validate_setting_domain(_domain, _patch);
+
+    SELECT setting_value INTO _current
+    FROM public.org_settings
+    WHERE org_id = _org_id AND domain = _domain;
+
+    _new := COALESCE(_current, '{}'::jsonb) || _patch;
+
+    INSERT INTO public.org_settings (org_id, domain, setting_value, updated_by, updated_at)
+    VALUES (_org_id, _domain, _new, auth.uid(), now())
+    ON CONFLICT (org_id, domain)
+    DO UPDATE SET
+        setting_value = EXCLUDED.setting_value,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = EXCLUDED.updated_at;
+
+    INSERT INTO public.audit_log (
+        org_id, actor_user_id, action, resource_type, resource_id,
+        entity_type, entity_id, before_state, after_state, metadata
+    ) VALUES (
+        _org_id,
+        auth.uid(),
+        'ORG_CONFIG_UPDATED',
+        'org',
+        _org_id,
+        'org_config',
+        _org_id,
+        jsonb_build_object('value', _current),
+        jsonb_build_object('value', _new, 'patch', _patch),
+        jsonb_build_object('domain', _domain)
+    );
+
+    RETURN public.get_org_config(_org_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_org_config(uuid, text, jsonb) IS
+  'F021: Merges a patch into the org defaults of a settings domain (RBAC per domain, audited).';
+
+GRANT EXECUTE ON FUNCTION public.set_org_config(uuid, text, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.reset_org_config_domain(
+    _org_id uuid,
+    _domain text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _role text;
+    _old jsonb;
+BEGIN
+    SELECT role INTO _role
+    FROM public.org_members
+    WHERE org_id = _org_id AND user_id = auth.uid();
+
+    IF _role IS NULL THEN
+        RAISE EXCEPTION 'Not authorized: not a member of this organization';
+    END IF;
+
+    IF NOT public.can_edit_config_domain(_role, _domain) THEN
+        RAISE EXCEPTION 'Permission denied: % cannot reset % settings', _role, _domain;
+    END IF;
+
+    DELETE FROM public.org_settings
+    WHERE org_id = _org_id AND domain = _domain
+    RETURNING setting_value INTO _old;
+
+    IF _old IS NOT NULL THEN
+        INSERT INTO public.audit_log (
+            org_id, actor_user_id, action, resource_type, resource_id,
+            entity_type, entity_id, before_state, after_state, metadata
+        ) VALUES (
+            _org_id,
+            auth.uid(),
+            'ORG_CONFIG_RESET',
+            'org',
+            _org_id,
+            'org_config',
+            _org_id,
+            jsonb_build_object('value', _old),
+            NULL,
+            jsonb_build_object('domain', _domain)
+        );
+    END IF;
+
+    RETURN public.get_org_config(_org_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.reset_org_config_domain(uuid, text) IS
+  'F021: Clears the org defaults of a settings domain, reverting to system defaults.';
+
+GRANT EXECUTE ON FUNCTION public.reset_org_config_domain(uuid, text) TO authenticated;
+
+-- ===========================================================================
+-- 5. RPC: get_event_config_sources
+-- ===========================================================================
+-- Ruwe waarden per laag, zodat de UI per veld kan tonen of het van het
+-- systeem, de org of het event komt: { domain: { defaults, org, event } }
+
+CREATE OR REPLACE FUNCTION public.get_event_config_sources(_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _org_id uuid;
+    _result jsonb := '{}'::jsonb;
+    _domain text;
+BEGIN
+    SELECT org_id INTO _org_id FROM public.events WHERE id = _event_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event not found: %', _event_id;
+    END IF;
+
+    IF NOT public.is_org_member(_org_id) THEN
+        RAISE EXCEPTION 'Not authorized to view this event config';
+    END IF;
+
+    FOREACH _domain IN ARRAY public.config_domains()
+    LOOP
+        _result := jsonb_set(_result, ARRAY[_domain], jsonb_build_object(
+            'defaults', public.get_default_settings(_domain),
+            'org', COALESCE(
+                (SELECT setting_value FROM public.org_settings WHERE org_id = _org_id AND domain = _domain),
+                '{}'::jsonb
+            ),
+            'event', COALESCE(
+                (SELECT setting_value FROM public.event_settings WHERE event_id = _event_id AND domain = _domain),
+                '{}'::jsonb
+            )
+        ));
+    END LOOP;
+
+    RETURN _result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_event_config_sources(uuid) IS
+  'F021: Returns per settings domain the system defaults, org defaults and event overrides separately.';
+
+GRANT EXECUTE ON FUNCTION public.get_event_config_sources(uuid) TO authenticated;
+
+-- ===========================================================================
+-- 6. RPC: clear_event_config_override
+-- ===========================================================================
+-- Wist één (top-level) veld uit de event override; het event erft daarna
+-- weer de org of systeem waarde. Lege overrides worden verwijderd.
+
+CREATE OR REPLACE FUNCTION public.clear_event_config_override(
+    _event_id uuid,
+    _domain text,
+    _key text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _org_id uuid;
+    _role text;
+    _current jsonb;
+    _new jsonb;
+BEGIN
+    SELECT org_id INTO _org_id FROM public.events WHERE id = _event_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event not found: %', _event_id;
+    END IF;
+
+    SELECT role INTO _role
+    FROM public.org_members
+    WHERE org_id = _org_id AND user_id = auth.uid();
+
+    IF _role IS NULL THEN
+        RAISE EXCEPTION 'Not authorized: not a member of this organization';
+    END IF;
+
+    IF NOT public.can_edit_config_domain(_role, _domain) THEN
+        RAISE EXCEPTION 'Permission denied: % cannot edit % settings', _role, _domain;
+    END IF;
+
+    SELECT setting_value INTO _current
+    FROM public.event_settings
+    WHERE event_id = _event_id AND domain = _domain
+    FOR UPDATE;
+
+    IF _current IS NOT NULL AND _current ? _key THEN
+        _new := _current - _key;
+
+        IF _new = '{}'::jsonb THEN
+            DELETE FROM public.event_settings
+            WHERE event_id = _event_id AND domain = _domain;
+        ELSE
+            UPDATE public.event_settings
+            SET setting_value = _new,
+                updated_by = auth.uid(),
+                updated_at = now()
+            WHERE event_id = _event_id AND domain = _domain;
+        END IF;
+
+        INSERT INTO public.audit_log (
+            org_id, actor_user_id, action, resource_type, resource_id,
+            entity_type, entity_id, before_state, after_state, metadata
+        ) VALUES (
+            _org_id,
+            auth.uid(),
+            'CONFIG_OVERRIDE_CLEARED',
+            'event',
+            _event_id,
+            'event_config',
+            _event_id,
+            jsonb_build_object('override', _current),
+            jsonb_build_object('override', _new),
+            jsonb_build_object('domain', _domain, 'key', _key)
+        );
+    END IF;
+
+    RETURN public.get_event_config(_event_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.clear_event_config_override(uuid, text, text) IS
+  'F021: Removes one key from an event settings override so the event inherits the org/system value again.';
+
+GRANT EXECUTE ON FUNCTION public.clear_event_config_override(uuid, text, text) TO authenticated;
+
+-- ===========================================================================
+-- 7. RPC: get_org_config_overrides / push_org_config_to_events
+-- ===========================================================================
+-- Overzicht welke events van de org afwijken, per domein, en de actie om
+-- die overrides (hele domein of één veld) bij alle events te wissen zodat
+-- alle events de org waarde gebruiken.
+
+CREATE OR REPLACE FUNCTION public.get_org_config_overrides(_org_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result jsonb;
+BEGIN
+    IF NOT public.is_org_member(_org_id) THEN
+        RAISE EXCEPTION 'Not authorized to view this organization config';
+    END IF;
+
+    SELECT COALESCE(jsonb_object_agg(domain, events), '{}'::jsonb)
+    INTO _result
+    FROM (
+        SELECT
+            es.domain,
+            jsonb_agg(jsonb_build_object(
+                'event_id', e.id,
+                'event_name', e.name,
+                'keys', (SELECT jsonb_agg(k ORDER BY k) FROM jsonb_object_keys(es.setting_value) k)
+            ) ORDER BY e.name) AS events
+        FROM public.event_settings es
+        JOIN public.events e ON e.id = es.event_id
+        WHERE e.org_id = _org_id
+          AND e.deleted_at IS NULL
+          AND es.domain = ANY (public.config_domains())
+          AND es.setting_value <> '{}'::jsonb
+        GROUP BY es.domain
+    ) t;
+
+    RETURN _result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_org_config_overrides(uuid) IS
+  'F021: Returns per settings domain the events that override org defaults, with the overridden keys.';
+
+GRANT EXECUTE ON FUNCTION public.get_org_config_overrides(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.push_org_config_to_events(
+    _org_id uuid,
+    _domain text,
+    _key text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _role text;
+    _updated integer := 0;
+    _deleted integer := 0;
+BEGIN
+    SELECT role INTO _role
+    FROM public.org_members
+    WHERE org_id = _org_id AND user_id = auth.uid();
+
+    IF _role IS NULL THEN
+        RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+    END IF;
+
+    IF NOT public.can_edit_config_domain(_role, _domain) THEN
+        RETURN jsonb_build_object('error', 'PERMISSION_DENIED');
+    END IF;
+
+    IF _key IS NULL THEN
+        DELETE FROM public.event_settings es
+        USING public.events e
+        WHERE e.id = es.event_id
+          AND e.org_id = _org_id
+          AND es.domain = _domain;
+        GET DIAGNOSTICS _deleted = ROW_COUNT;
+    ELSE
+        UPDATE public.event_settings es
+        SET setting_value = es.setting_value - _key,
+            updated_by = auth.uid(),
+            updated_at = now()
+        FROM public.events e
+        WHERE e.id = es.event_id
+          AND e.org_id = _org_id
+          AND es.domain = _domain
+          AND es.setting_value ? _key;
+        GET DIAGNOSTICS _updated = ROW_COUNT;
+
+        -- Overrides zonder velden hebben geen betekenis meer
+        DELETE FROM public.event_settings es
+        USING public.events e
+        WHERE e.id = es.event_id
+          AND e.org_id = _org_id
+          AND es.domain = _domain
+          AND es.setting_value = '{}'::jsonb;
+    END IF;
+
+    INSERT INTO public.audit_log (
+        org_id, actor_user_id, action, resource_type, resource_id,
+        entity_type, entity_id, before_state, after_state, metadata
+    ) VALUES (
+        _org_id,
+        auth.uid(),
+        'ORG_CONFIG_PUSHED',
+        'org',
+        _org_id,
+        'org_config',
+        _org_id,
+        NULL,
+        NULL,
+        jsonb_build_object('domain', _domain, 'key', _key, 'events_updated', _updated + _deleted)
+    );
+
+    RETURN jsonb_build_object(
+        'status', 'OK',
+        'domain', _domain,
+        'key', _key,
+        'events_updated', _updated + _deleted
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.push_org_config_to_events(uuid, text, text) IS
+  'F021: Clears event overrides of a domain (or one key) for all events of the org so they inherit the org value.';
+
+GRANT EXECUTE ON FUNCTION public.push_org_config_to_events(uuid, text, text) TO authenticated;
+
+-- ===========================================================================
+-- 8. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF array_length(public.config_domains(), 1) <> 12 THEN
+    RAISE EXCEPTION 'config_domains should list 12 domains';
+  END IF;
+  IF NOT public.can_edit_config_domain('finance', 'payments')
+     OR public.can_edit_config_domain('finance', 'branding')
+     OR NOT public.can_edit_config_domain('support', 'communication') THEN
+    RAISE EXCEPTION 'can_edit_config_domain does not match set_event_config RBAC';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'push_org_config_to_events') THEN
+    RAISE EXCEPTION 'push_org_config_to_events not created';
+  END IF;
+  RAISE NOTICE 'F021: Org settings inheritance created successfully';
+END $$;
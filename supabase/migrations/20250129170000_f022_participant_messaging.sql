@@ -0,0 +1,731 @@
+-- ===========================================================================
+-- F022: Participant Messaging
+-- Migration: 20250129170000_f022_participant_messaging.sql
+--
+-- Purpose:
+-- - Gesprekken (threads) tussen een ingeschreven deelnemer en het
+--   organisatieteam van een event (message_threads, thread_messages)
+-- - RLS: deelnemers zien alleen hun eigen threads, org members die van
+--   hun events; schrijven gaat via RPCs
+-- - Realtime: beide tabellen in de supabase_realtime publicatie
+-- - Ongelezen tellers per kant (deelnemer / organisator) + org totaal
+-- - Antwoord van de organisator wordt gemaild via queue_email
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: message_threads
+-- ===========================================================================
+-- Eén gesprek per onderwerp; een deelnemer kan meerdere threads per event
+-- hebben. Gelezen-status wordt per kant bijgehouden: het organisatieteam
+-- deelt één leesmarkering.
+
+CREATE TABLE IF NOT EXISTS message_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+
+  subject TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  last_message_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  participant_last_read_at TIMESTAMPTZ,
+  organizer_last_read_at TIMESTAMPTZ,
+  -- Origin van de chatpagina (voor de link in de notificatiemail)
+  site_origin TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT message_threads_subject_check CHECK (length(trim(subject)) BETWEEN 1 AND 200),
+  CONSTRAINT message_threads_status_check CHECK (status IN ('open', 'closed'))
+);
+
+COMMENT ON TABLE message_threads IS
+  'Conversation between a participant and the organizer team of an event.';
+COMMENT ON COLUMN message_threads.organizer_last_read_at IS 'Gedeelde leesmarkering van het organisatieteam';
+
+-- ===========================================================================
+-- 2. TABLE: thread_messages
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS thread_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID NOT NULL REFERENCES message_threads(id) ON DELETE CASCADE,
+
+  sender_type TEXT NOT NULL,
+  sender_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT thread_messages_sender_type_check CHECK (sender_type IN ('participant', 'organizer')),
+  CONSTRAINT thread_messages_body_check CHECK (length(trim(body)) BETWEEN 1 AND 5000)
+);
+
+COMMENT ON TABLE thread_messages IS
+  'Message in a participant/organizer thread. Inserted via post_thread_message / start_message_thread.';
+
+-- ===========================================================================
+-- 3. INDEXES
+-- ===========================================================================
+
+CREATE INDEX IF NOT EXISTS idx_message_threads_event
+  ON message_threads(event_id, last_message_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_message_threads_participant
+  ON message_threads(participant_id);
+
+CREATE INDEX IF NOT EXISTS idx_thread_messages_thread
+  ON thread_messages(thread_id, created_at);
+
+-- ===========================================================================
+-- 4. RLS POLICIES
+-- ===========================================================================
+-- Alleen SELECT policies: berichten plaatsen, lezen markeren en status
+-- wijzigen gaan via RPCs. Realtime levert alleen rijen die de gebruiker
+-- via deze policies mag zien.
+
+ALTER TABLE message_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE thread_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view own threads"
+  ON message_threads
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM participants p
+      WHERE p.id = message_threads.participant_id
+      AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Org members can view event threads"
+  ON message_threads
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = message_threads.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Participants can view own thread messages"
+  ON thread_messages
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM message_threads t
+      JOIN participants p ON p.id = t.participant_id
+      WHERE t.id = thread_messages.thread_id
+      AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Org members can view event thread messages"
+  ON thread_messages
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM message_threads t
+      JOIN events e ON e.id = t.event_id
+      WHERE t.id = thread_messages.thread_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+-- ===========================================================================
+-- 5. TRIGGERS: updated_at
+-- ===========================================================================
+
+DROP TRIGGER IF EXISTS handle_updated_at_message_threads ON message_threads;
+CREATE TRIGGER handle_updated_at_message_threads
+  BEFORE UPDATE ON message_threads
+  FOR EACH ROW EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+-- ===========================================================================
+-- 6. REALTIME
+-- ===========================================================================
+-- Nieuwe berichten en leesmarkeringen live naar chat, inbox en Layout.
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'message_threads'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE public.message_threads;
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'thread_messages'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE public.thread_messages;
+    END IF;
+  END IF;
+END $$;
+
+-- ===========================================================================
+-- 7. FUNCTION: thread_viewer_role (internal)
+-- ===========================================================================
+-- Bepaalt namens welke kant de huidige gebruiker een thread bekijkt:
+-- 'participant' (eigen thread), 'organizer' (owner/admin/support van de
+-- org), 'viewer' (overige org members, alleen lezen) of NULL.
+
+CREATE OR REPLACE FUNCTION public.thread_viewer_role(_thread_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM message_threads t
+    JOIN participants p ON p.id = t.participant_id
+    WHERE t.id = _thread_id
+      AND p.user_id = auth.uid()
+  ) THEN
+    RETURN 'participant';
+  END IF;
+
+  SELECT om.role::text INTO v_role
+  FROM message_threads t
+  JOIN events e ON e.id = t.event_id
+  JOIN org_members om ON om.org_id = e.org_id AND om.user_id = auth.uid()
+  WHERE t.id = _thread_id;
+
+  IF v_role IN ('owner', 'admin', 'support') THEN
+    RETURN 'organizer';
+  ELSIF v_role IS NOT NULL THEN
+    RETURN 'viewer';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.thread_viewer_role(UUID) IS
+  'F022: Side of the current user on a thread: participant, organizer, viewer (read-only org member) or NULL.';
+
+REVOKE ALL ON FUNCTION public.thread_viewer_role(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.thread_viewer_role(UUID) TO service_role;
+
+-- ===========================================================================
+-- 8. RPC: get_my_event_threads (participant)
+-- ===========================================================================
+-- Chatpagina /e/:slug/chat. Slugs zijn uniek per org; bij dubbele slugs
+-- wint het event waarvoor de gebruiker ingeschreven is.
+
+CREATE OR REPLACE FUNCTION public.get_my_event_threads(_event_slug TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event RECORD;
+  v_participant_id UUID;
+  v_threads JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT * INTO v_event
+  FROM (
+    SELECT e.id, e.slug, e.name, e.start_time, o.name AS org_name,
+           (
+             SELECT p.id FROM registrations r
+             JOIN participants p ON p.id = r.participant_id
+             WHERE r.event_id = e.id
+               AND p.user_id = auth.uid()
+               AND r.status <> 'cancelled'
+               AND r.deleted_at IS NULL
+             LIMIT 1
+           ) AS participant_id
+    FROM events e
+    JOIN orgs o ON o.id = e.org_id
+    WHERE e.slug = _event_slug
+      AND e.status <> 'draft'
+      AND e.deleted_at IS NULL
+  ) candidates
+  ORDER BY (candidates.participant_id IS NULL), candidates.start_time DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  v_participant_id := v_event.participant_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', t.id,
+    'subject', t.subject,
+    'status', t.status,
+    'last_message_at', t.last_message_at,
+    'unread_count', (
+      SELECT COUNT(*) FROM thread_messages m
+      WHERE m.thread_id = t.id
+        AND m.sender_type = 'organizer'
+        AND m.created_at > COALESCE(t.participant_last_read_at, '-infinity'::timestamptz)
+    ),
+    'last_message_preview', (
+      SELECT left(m.body, 120) FROM thread_messages m
+      WHERE m.thread_id = t.id
+      ORDER BY m.created_at DESC
+      LIMIT 1
+    )
+  ) ORDER BY t.last_message_at DESC), '[]'::jsonb)
+  INTO v_threads
+  FROM message_threads t
+  JOIN participants p ON p.id = t.participant_id
+  WHERE t.event_id = v_event.id
+    AND p.user_id = auth.uid();
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'event', jsonb_build_object(
+      'id', v_event.id,
+      'slug', v_event.slug,
+      'name', v_event.name,
+      'start_time', v_event.start_time,
+      'org_name', v_event.org_name
+    ),
+    'can_start_thread', v_participant_id IS NOT NULL,
+    'threads', v_threads
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_my_event_threads(TEXT) IS
+  'F022: Threads of the current user for an event (by slug), with unread counts. can_start_thread = registered for the event.';
+
+GRANT EXECUTE ON FUNCTION public.get_my_event_threads(TEXT) TO authenticated;
+
+-- ===========================================================================
+-- 9. RPC: start_message_thread (participant)
+-- ===========================================================================
+-- Alleen deelnemers met een (niet geannuleerde) inschrijving.
+
+CREATE OR REPLACE FUNCTION public.start_message_thread(
+  _event_id UUID,
+  _subject TEXT,
+  _body TEXT,
+  _site_origin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_participant_id UUID;
+  v_thread_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF length(trim(COALESCE(_subject, ''))) NOT BETWEEN 1 AND 200 THEN
+    RETURN jsonb_build_object('error', 'INVALID_SUBJECT');
+  END IF;
+
+  IF length(trim(COALESCE(_body, ''))) NOT BETWEEN 1 AND 5000 THEN
+    RETURN jsonb_build_object('error', 'INVALID_BODY');
+  END IF;
+
+  SELECT p.id INTO v_participant_id
+  FROM registrations r
+  JOIN participants p ON p.id = r.participant_id
+  WHERE r.event_id = _event_id
+    AND p.user_id = auth.uid()
+    AND r.status <> 'cancelled'
+    AND r.deleted_at IS NULL
+  LIMIT 1;
+
+  IF v_participant_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'NOT_REGISTERED');
+  END IF;
+
+  INSERT INTO message_threads (event_id, participant_id, subject, participant_last_read_at, site_origin)
+  VALUES (_event_id, v_participant_id, trim(_subject), NOW(), _site_origin)
+  RETURNING id INTO v_thread_id;
+
+  INSERT INTO thread_messages (thread_id, sender_type, sender_user_id, body)
+  VALUES (v_thread_id, 'participant', auth.uid(), trim(_body));
+
+  RETURN jsonb_build_object('status', 'OK', 'thread_id', v_thread_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.start_message_thread(UUID, TEXT, TEXT, TEXT) IS
+  'F022: Participant starts a thread with the organizer team (requires a registration for the event).';
+
+GRANT EXECUTE ON FUNCTION public.start_message_thread(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- ===========================================================================
+-- 10. RPC: get_thread / mark_thread_read
+-- ===========================================================================
+-- get_thread markeert de thread als gelezen voor de kant van de gebruiker
+-- (niet voor read-only org members).
+
+CREATE OR REPLACE FUNCTION public.mark_thread_read(_thread_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_viewer TEXT;
+BEGIN
+  v_viewer := public.thread_viewer_role(_thread_id);
+
+  IF v_viewer IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF v_viewer = 'participant' THEN
+    UPDATE message_threads SET participant_last_read_at = NOW() WHERE id = _thread_id;
+  ELSIF v_viewer = 'organizer' THEN
+    UPDATE message_threads SET organizer_last_read_at = NOW() WHERE id = _thread_id;
+  END IF;
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_thread_read(UUID) IS
+  'F022: Mark a thread as read for the side (participant/organizer) of the current user.';
+
+GRANT EXECUTE ON FUNCTION public.mark_thread_read(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_thread(_thread_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_viewer TEXT;
+  v_thread RECORD;
+  v_messages JSONB;
+BEGIN
+  v_viewer := public.thread_viewer_role(_thread_id);
+
+  IF v_viewer IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  PERFORM public.mark_thread_read(_thread_id);
+
+  SELECT t.id, t.event_id, t.subject, t.status, t.created_at, t.last_message_at,
+         p.first_name || ' ' || p.last_name AS participant_name,
+         p.email AS participant_email
+  INTO v_thread
+  FROM message_threads t
+  JOIN participants p ON p.id = t.participant_id
+  WHERE t.id = _thread_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', m.id,
+    'sender_type', m.sender_type,
+    'sender_name', CASE
+      WHEN m.sender_type = 'participant' THEN v_thread.participant_name
+      ELSE 'Organisatie'
+    END,
+    'body', m.body,
+    'created_at', m.created_at
+  ) ORDER BY m.created_at), '[]'::jsonb)
+  INTO v_messages
+  FROM thread_messages m
+  WHERE m.thread_id = _thread_id;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'viewer', v_viewer,
+    'thread', jsonb_build_object(
+      'id', v_thread.id,
+      'event_id', v_thread.event_id,
+      'subject', v_thread.subject,
+      'status', v_thread.status,
+      'created_at', v_thread.created_at,
+      'last_message_at', v_thread.last_message_at,
+      'participant_name', v_thread.participant_name,
+      -- E-mail alleen voor de organisatorkant
+      'participant_email', CASE WHEN v_viewer <> 'participant' THEN v_thread.participant_email END
+    ),
+    'messages', v_messages
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_thread(UUID) IS
+  'F022: Thread with all messages for the participant or org member; marks it read for the caller side.';
+
+GRANT EXECUTE ON FUNCTION public.get_thread(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 11. RPC: post_thread_message
+-- ===========================================================================
+-- Deelnemer: alleen in open threads. Organisator (owner/admin/support):
+-- altijd; een antwoord heropent de thread en wordt naar de deelnemer
+-- gemaild (idempotent per bericht).
+
+CREATE OR REPLACE FUNCTION public.post_thread_message(
+  _thread_id UUID,
+  _body TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_viewer TEXT;
+  v_thread RECORD;
+  v_message_id UUID;
+  v_link TEXT;
+  v_body_html TEXT;
+BEGIN
+  v_viewer := public.thread_viewer_role(_thread_id);
+
+  IF v_viewer IS NULL OR v_viewer = 'viewer' THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF length(trim(COALESCE(_body, ''))) NOT BETWEEN 1 AND 5000 THEN
+    RETURN jsonb_build_object('error', 'INVALID_BODY');
+  END IF;
+
+  SELECT t.id, t.subject, t.status, t.site_origin, t.event_id,
+         e.org_id, e.name AS event_name, e.slug AS event_slug,
+         p.email AS participant_email, p.first_name
+  INTO v_thread
+  FROM message_threads t
+  JOIN events e ON e.id = t.event_id
+  JOIN participants p ON p.id = t.participant_id
+  WHERE t.id = _thread_id
+  FOR UPDATE OF t;
+
+  IF v_viewer = 'participant' AND v_thread.status = 'closed' THEN
+    RETURN jsonb_build_object('error', 'THREAD_CLOSED');
+  END IF;
+
+  INSERT INTO thread_messages (thread_id, sender_type, sender_user_id, body)
+  VALUES (_thread_id, v_viewer, auth.uid(), trim(_body))
+  RETURNING id INTO v_message_id;
+
+  IF v_viewer = 'participant' THEN
+    UPDATE message_threads
+    SET last_message_at = NOW(), participant_last_read_at = NOW()
+    WHERE id = _thread_id;
+  ELSE
+    UPDATE message_threads
+    SET last_message_at = NOW(), organizer_last_read_at = NOW(), status = 'open'
+    WHERE id = _thread_id;
+
+    v_link := COALESCE(v_thread.site_origin, '') || '/e/' || v_thread.event_slug || '/chat?thread=' || _thread_id::TEXT;
+    v_body_html := replace(replace(replace(replace(trim(_body), '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), E'\n', '<br>');
+
+    PERFORM public.queue_email(
+      _org_id => v_thread.org_id,
+      _event_id => v_thread.event_id,
+      _idempotency_key => 'thread_reply:' || v_message_id::TEXT,
+      _to_email => v_thread.participant_email,
+      _subject => 'Nieuw antwoord: ' || v_thread.subject,
+      _html_body =>
+        '<p>Hoi ' || COALESCE(v_thread.first_name, '') || ',</p>'
+        || '<p>De organisatie van ' || v_thread.event_name || ' heeft gereageerd op je bericht "'
+        || v_thread.subject || '":</p>'
+        || '<blockquote>' || v_body_html || '</blockquote>'
+        || '<p><a href="' || v_link || '">Bekijk het gesprek en reageer</a></p>',
+      _text_body =>
+        'De organisatie van ' || v_thread.event_name || ' heeft gereageerd op "' || v_thread.subject || '": '
+        || trim(_body) || E'\n\nReageren: ' || v_link,
+      _template_variables => jsonb_build_object(
+        'event_name', v_thread.event_name,
+        'subject', v_thread.subject,
+        'thread_url', v_link
+      ),
+      _metadata => jsonb_build_object('thread_id', _thread_id, 'message_id', v_message_id)
+    );
+  END IF;
+
+  RETURN jsonb_build_object('status', 'OK', 'message_id', v_message_id, 'sender_type', v_viewer);
+END;
+$$;
+
+COMMENT ON FUNCTION public.post_thread_message(UUID, TEXT) IS
+  'F022: Post a message in a thread as participant or organizer. Organizer replies reopen the thread and are emailed.';
+
+GRANT EXECUTE ON FUNCTION public.post_thread_message(UUID, TEXT) TO authenticated;
+
+-- ===========================================================================
+-- 12. RPC: get_event_threads / set_thread_status (organizer)
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.get_event_threads(
+  _event_id UUID,
+  _status TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_role TEXT;
+  v_threads JSONB;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  SELECT role::text INTO v_role
+  FROM org_members
+  WHERE org_id = v_org_id AND user_id = auth.uid();
+
+  IF v_role IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', t.id,
+    'subject', t.subject,
+    'status', t.status,
+    'participant_id', t.participant_id,
+    'participant_name', p.first_name || ' ' || p.last_name,
+    'participant_email', p.email,
+    'created_at', t.created_at,
+    'last_message_at', t.last_message_at,
+    'message_count', (SELECT COUNT(*) FROM thread_messages m WHERE m.thread_id = t.id),
+    'unread_count', (
+      SELECT COUNT(*) FROM thread_messages m
+      WHERE m.thread_id = t.id
+        AND m.sender_type = 'participant'
+        AND m.created_at > COALESCE(t.organizer_last_read_at, '-infinity'::timestamptz)
+    ),
+    'last_message_preview', last_msg.body,
+    'last_sender_type', last_msg.sender_type
+  ) ORDER BY t.last_message_at DESC), '[]'::jsonb)
+  INTO v_threads
+  FROM message_threads t
+  JOIN participants p ON p.id = t.participant_id
+  LEFT JOIN LATERAL (
+    SELECT left(m.body, 120) AS body, m.sender_type
+    FROM thread_messages m
+    WHERE m.thread_id = t.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_msg ON TRUE
+  WHERE t.event_id = _event_id
+    AND (_status IS NULL OR t.status = _status);
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'can_reply', v_role IN ('owner', 'admin', 'support'),
+    'threads', v_threads
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_event_threads(UUID, TEXT) IS
+  'F022: Organizer inbox for an event: threads with participant, unread count and last message.';
+
+GRANT EXECUTE ON FUNCTION public.get_event_threads(UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_thread_status(
+  _thread_id UUID,
+  _status TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.thread_viewer_role(_thread_id) IS DISTINCT FROM 'organizer' THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _status NOT IN ('open', 'closed') THEN
+    RETURN jsonb_build_object('error', 'INVALID_STATUS');
+  END IF;
+
+  UPDATE message_threads SET status = _status WHERE id = _thread_id;
+
+  RETURN jsonb_build_object('status', 'OK', 'thread_status', _status);
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_thread_status(UUID, TEXT) IS
+  'F022: Close or reopen a thread (owner/admin/support).';
+
+GRANT EXECUTE ON FUNCTION public.set_thread_status(UUID, TEXT) TO authenticated;
+
+-- ===========================================================================
+-- 13. RPC: get_org_unread_message_count
+-- ===========================================================================
+-- Teller in de Layout: ongelezen deelnemersberichten over alle events.
+
+CREATE OR REPLACE FUNCTION public.get_org_unread_message_count(_org_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_unread_messages INT;
+  v_unread_threads INT;
+BEGIN
+  IF NOT public.is_org_member(_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT COUNT(*), COUNT(DISTINCT t.id)
+  INTO v_unread_messages, v_unread_threads
+  FROM message_threads t
+  JOIN events e ON e.id = t.event_id
+  JOIN thread_messages m ON m.thread_id = t.id
+  WHERE e.org_id = _org_id
+    AND e.deleted_at IS NULL
+    AND m.sender_type = 'participant'
+    AND m.created_at > COALESCE(t.organizer_last_read_at, '-infinity'::timestamptz);
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'unread_messages', v_unread_messages,
+    'unread_threads', v_unread_threads
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_org_unread_message_count(UUID) IS
+  'F022: Unread participant messages (and threads) across all events of the org.';
+
+GRANT EXECUTE ON FUNCTION public.get_org_unread_message_count(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 14. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'message_threads') THEN
+    RAISE EXCEPTION 'message_threads table not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'thread_messages') THEN
+    RAISE EXCEPTION 'thread_messages table not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'post_thread_message') THEN
+    RAISE EXCEPTION 'post_thread_message not created';
+  END IF;
+  RAISE NOTICE 'F022: Participant messaging created successfully';
+END $$;
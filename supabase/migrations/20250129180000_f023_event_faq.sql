@@ -0,0 +1,1155 @@
+-- ===========================================================================
+-- F023: Event FAQ
+-- Migration: 20250129180000_f023_event_faq.sql
+--
+-- Purpose:
+-- - Veelgestelde vragen per event, gegroepeerd in categorieën met eigen
+--   volgorde (event_faq_categories, event_faqs)
+-- - Vertalingen in dezelfde vorm als ticket_type_i18n
+--   (event_faq_i18n, event_faq_category_i18n)
+-- - Draft/published status per vraag; alleen published is publiek
+-- - Publieke FAQ met zoeken (get_public_event_faq)
+-- - FAQ-blok in de orderbevestiging (render_event_faq_html); de bevestiging
+--   zelf gaat nu via queue_email
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: event_faq_categories
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS event_faq_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT event_faq_categories_name_check CHECK (length(trim(name)) BETWEEN 1 AND 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_faq_categories_event
+  ON event_faq_categories(event_id, sort_order);
+
+COMMENT ON TABLE event_faq_categories IS
+  'FAQ categories of an event (default locale name + ordering).';
+
+-- ===========================================================================
+-- 2. TABLE: event_faqs
+-- ===========================================================================
+-- Vraag en antwoord in de standaardtaal van het event; vertalingen staan in
+-- event_faq_i18n. Zonder categorie valt een vraag onder "Algemeen".
+
+CREATE TABLE IF NOT EXISTS event_faqs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES event_faq_categories(id) ON DELETE SET NULL,
+
+  question TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'draft',
+  -- Meesturen in de orderbevestiging
+  include_in_email BOOLEAN NOT NULL DEFAULT false,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT event_faqs_question_check CHECK (length(trim(question)) BETWEEN 1 AND 300),
+  CONSTRAINT event_faqs_answer_check CHECK (length(trim(answer)) BETWEEN 1 AND 5000),
+  CONSTRAINT event_faqs_status_check CHECK (status IN ('draft', 'published'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_faqs_event
+  ON event_faqs(event_id, sort_order);
+
+CREATE INDEX IF NOT EXISTS idx_event_faqs_category
+  ON event_faqs(category_id)
+  WHERE category_id IS NOT NULL;
+
+COMMENT ON TABLE event_faqs IS
+  'Frequently asked questions of an event (default locale content, draft/published).';
+COMMENT ON COLUMN event_faqs.include_in_email IS 'Opnemen in het FAQ-blok van de orderbevestiging';
+
+-- ===========================================================================
+-- 3. TABLES: event_faq_i18n / event_faq_category_i18n
+-- ===========================================================================
+-- Zelfde vorm als ticket_type_i18n: één rij per locale per parent.
+
+CREATE TABLE IF NOT EXISTS event_faq_i18n (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  faq_id UUID NOT NULL REFERENCES event_faqs(id) ON DELETE CASCADE,
+
+  -- Locale identifier
+  locale TEXT NOT NULL,  -- 'nl', 'en', 'de', 'fr', etc.
+
+  -- Translated content
+  question TEXT NOT NULL,
+  answer TEXT NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- One translation per locale per FAQ
+  CONSTRAINT event_faq_i18n_unique UNIQUE (faq_id, locale)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_faq_i18n_locale
+  ON event_faq_i18n(locale);
+
+COMMENT ON TABLE event_faq_i18n IS
+  'Internationalized content for event FAQs (question, answer per locale)';
+
+CREATE TABLE IF NOT EXISTS event_faq_category_i18n (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id UUID NOT NULL REFERENCES event_faq_categories(id) ON DELETE CASCADE,
+
+  locale TEXT NOT NULL,
+  name TEXT NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT event_faq_category_i18n_unique UNIQUE (category_id, locale)
+);
+
+COMMENT ON TABLE event_faq_category_i18n IS
+  'Internationalized names for event FAQ categories';
+
+-- ===========================================================================
+-- 4. RLS POLICIES
+-- ===========================================================================
+-- Beheer via RPCs; policies voor directe reads (en admins, zoals bij
+-- ticket_type_i18n).
+
+ALTER TABLE event_faq_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_faqs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_faq_i18n ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_faq_category_i18n ENABLE ROW LEVEL SECURITY;
+
+-- event_faq_categories
+CREATE POLICY "Org admins can manage event_faq_categories"
+  ON event_faq_categories
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = event_faq_categories.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = event_faq_categories.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view event_faq_categories"
+  ON event_faq_categories
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = event_faq_categories.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Public can read event_faq_categories of published events"
+  ON event_faq_categories
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = event_faq_categories.event_id
+      AND e.status = 'published'
+      AND e.deleted_at IS NULL
+    )
+  );
+
+-- event_faqs
+CREATE POLICY "Org admins can manage event_faqs"
+  ON event_faqs
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = event_faqs.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = event_faqs.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view event_faqs"
+  ON event_faqs
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = event_faqs.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Public can read published event_faqs"
+  ON event_faqs
+  FOR SELECT
+  USING (
+    event_faqs.status = 'published'
+    AND EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = event_faqs.event_id
+      AND e.status = 'published'
+      AND e.deleted_at IS NULL
+    )
+  );
+
+-- event_faq_i18n
+CREATE POLICY "Org admins can manage event_faq_i18n"
+  ON event_faq_i18n
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM event_faqs f
+      JOIN events e ON e.id = f.event_id
+      WHERE f.id = event_faq_i18n.faq_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM event_faqs f
+      JOIN events e ON e.id = f.event_id
+      WHERE f.id = event_faq_i18n.faq_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view event_faq_i18n"
+  ON event_faq_i18n
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM event_faqs f
+      JOIN events e ON e.id = f.event_id
+      WHERE f.id = event_faq_i18n.faq_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Public can read event_faq_i18n of published faqs"
+  ON event_faq_i18n
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM event_faqs f
+      JOIN events e ON e.id = f.event_id
+      WHERE f.id = event_faq_i18n.faq_id
+      AND f.status = 'published'
+      AND e.status = 'published'
+      AND e.deleted_at IS NULL
+    )
+  );
+
+-- event_faq_category_i18n
+CREATE POLICY "Org admins can manage event_faq_category_i18n"
+  ON event_faq_category_i18n
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM event_faq_categories c
+      JOIN events e ON e.id = c.event_id
+      WHERE c.id = event_faq_category_i18n.category_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM event_faq_categories c
+      JOIN events e ON e.id = c.event_id
+      WHERE c.id = event_faq_category_i18n.category_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view event_faq_category_i18n"
+  ON event_faq_category_i18n
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM event_faq_categories c
+      JOIN events e ON e.id = c.event_id
+      WHERE c.id = event_faq_category_i18n.category_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Public can read event_faq_category_i18n of published events"
+  ON event_faq_category_i18n
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM event_faq_categories c
+      JOIN events e ON e.id = c.event_id
+      WHERE c.id = event_faq_category_i18n.category_id
+      AND e.status = 'published'
+      AND e.deleted_at IS NULL
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON event_faq_categories, event_faqs, event_faq_i18n, event_faq_category_i18n TO authenticated;
+
+-- ===========================================================================
+-- 5. TRIGGERS FOR UPDATED_AT
+-- ===========================================================================
+
+CREATE TRIGGER handle_updated_at_event_faq_categories
+  BEFORE UPDATE ON event_faq_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+CREATE TRIGGER handle_updated_at_event_faqs
+  BEFORE UPDATE ON event_faqs
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+CREATE TRIGGER handle_updated_at_event_faq_i18n
+  BEFORE UPDATE ON event_faq_i18n
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+CREATE TRIGGER handle_updated_at_event_faq_category_i18n
+  BEFORE UPDATE ON event_faq_category_i18n
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+-- ===========================================================================
+-- 6. FUNCTION: can_manage_event_faq (internal)
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.can_manage_event_faq(_event_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = _event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+  );
+$$;
+
+COMMENT ON FUNCTION public.can_manage_event_faq(UUID) IS
+  'F023: True if the current user is admin/owner of the event org.';
+
+GRANT EXECUTE ON FUNCTION public.can_manage_event_faq(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 7. RPC: get_event_faq_admin
+-- ===========================================================================
+-- Alles voor de editor: categorieën en vragen (alle statussen) met hun
+-- vertalingen als { locale: {...} }.
+
+CREATE OR REPLACE FUNCTION public.get_event_faq_admin(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id AND deleted_at IS NULL;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'can_edit', public.can_manage_event_faq(_event_id),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', c.id,
+        'name', c.name,
+        'sort_order', c.sort_order,
+        'i18n', COALESCE((
+          SELECT jsonb_object_agg(ci.locale, jsonb_build_object('name', ci.name))
+          FROM event_faq_category_i18n ci
+          WHERE ci.category_id = c.id
+        ), '{}'::jsonb)
+      ) ORDER BY c.sort_order, c.created_at)
+      FROM event_faq_categories c
+      WHERE c.event_id = _event_id
+    ), '[]'::jsonb),
+    'faqs', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', f.id,
+        'category_id', f.category_id,
+        'question', f.question,
+        'answer', f.answer,
+        'sort_order', f.sort_order,
+        'status', f.status,
+        'include_in_email', f.include_in_email,
+        'updated_at', f.updated_at,
+        'i18n', COALESCE((
+          SELECT jsonb_object_agg(fi.locale, jsonb_build_object(
+            'question', fi.question,
+            'answer', fi.answer
+          ))
+          FROM event_faq_i18n fi
+          WHERE fi.faq_id = f.id
+        ), '{}'::jsonb)
+      ) ORDER BY f.sort_order, f.created_at)
+      FROM event_faqs f
+      WHERE f.event_id = _event_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_event_faq_admin(UUID) IS
+  'F023: All FAQ categories and items of an event (incl. drafts and translations) for org members.';
+
+GRANT EXECUTE ON FUNCTION public.get_event_faq_admin(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 8. RPC: upsert_event_faq_category / delete_event_faq_category
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.upsert_event_faq_category(
+  _event_id UUID,
+  _name TEXT,
+  _id UUID DEFAULT NULL  -- Pass existing ID to update
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF NOT public.can_manage_event_faq(_event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _name IS NULL OR length(trim(_name)) NOT BETWEEN 1 AND 100 THEN
+    RETURN jsonb_build_object('error', 'INVALID_NAME');
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO event_faq_categories (event_id, name, sort_order)
+    VALUES (
+      _event_id,
+      trim(_name),
+      COALESCE((SELECT MAX(sort_order) + 1 FROM event_faq_categories WHERE event_id = _event_id), 0)
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE event_faq_categories SET name = trim(_name)
+    WHERE id = _id AND event_id = _event_id
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      RETURN jsonb_build_object('error', 'CATEGORY_NOT_FOUND');
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('status', 'OK', 'category_id', v_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.upsert_event_faq_category(UUID, TEXT, UUID) IS
+  'F023: Create (appended at the end) or rename an FAQ category (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.upsert_event_faq_category(UUID, TEXT, UUID) TO authenticated;
+
+-- Vragen in de categorie blijven bestaan zonder categorie (ON DELETE SET NULL)
+CREATE OR REPLACE FUNCTION public.delete_event_faq_category(_category_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id UUID;
+BEGIN
+  SELECT event_id INTO v_event_id FROM event_faq_categories WHERE id = _category_id;
+
+  IF v_event_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'CATEGORY_NOT_FOUND');
+  END IF;
+
+  IF NOT public.can_manage_event_faq(v_event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  DELETE FROM event_faq_categories WHERE id = _category_id;
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.delete_event_faq_category(UUID) IS
+  'F023: Delete an FAQ category; its questions become uncategorized (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.delete_event_faq_category(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 9. RPC: upsert_event_faq / delete_event_faq
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.upsert_event_faq(
+  _event_id UUID,
+  _question TEXT,
+  _answer TEXT,
+  _category_id UUID DEFAULT NULL,
+  _status TEXT DEFAULT 'draft',
+  _include_in_email BOOLEAN DEFAULT false,
+  _id UUID DEFAULT NULL  -- Pass existing ID to update
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_org_id UUID;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id AND deleted_at IS NULL;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.can_manage_event_faq(_event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _question IS NULL OR length(trim(_question)) NOT BETWEEN 1 AND 300 THEN
+    RETURN jsonb_build_object('error', 'INVALID_QUESTION');
+  END IF;
+
+  IF _answer IS NULL OR length(trim(_answer)) NOT BETWEEN 1 AND 5000 THEN
+    RETURN jsonb_build_object('error', 'INVALID_ANSWER');
+  END IF;
+
+  IF _status NOT IN ('draft', 'published') THEN
+    RETURN jsonb_build_object('error', 'INVALID_STATUS');
+  END IF;
+
+  IF _category_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM event_faq_categories WHERE id = _category_id AND event_id = _event_id
+  ) THEN
+    RETURN jsonb_build_object('error', 'CATEGORY_NOT_FOUND');
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO event_faqs (event_id, category_id, question, answer, status, include_in_email, sort_order)
+    VALUES (
+      _event_id,
+      _category_id,
+      trim(_question),
+      trim(_answer),
+      _status,
+      COALESCE(_include_in_email, false),
+      COALESCE((SELECT MAX(sort_order) + 1 FROM event_faqs WHERE event_id = _event_id), 0)
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE event_faqs SET
+      category_id = _category_id,
+      question = trim(_question),
+      answer = trim(_answer),
+      status = _status,
+      include_in_email = COALESCE(_include_in_email, false)
+    WHERE id = _id AND event_id = _event_id
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      RETURN jsonb_build_object('error', 'FAQ_NOT_FOUND');
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_org_id,
+    auth.uid(),
+    CASE WHEN _id IS NULL THEN 'EVENT_FAQ_CREATED' ELSE 'EVENT_FAQ_UPDATED' END,
+    'event_faq',
+    v_id,
+    jsonb_build_object('event_id', _event_id, 'status', _status)
+  );
+
+  RETURN jsonb_build_object('status', 'OK', 'faq_id', v_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.upsert_event_faq(UUID, TEXT, TEXT, UUID, TEXT, BOOLEAN, UUID) IS
+  'F023: Create (appended at the end) or update an FAQ item (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.upsert_event_faq(UUID, TEXT, TEXT, UUID, TEXT, BOOLEAN, UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.delete_event_faq(_faq_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_faq RECORD;
+BEGIN
+  SELECT f.id, f.event_id, f.question, e.org_id INTO v_faq
+  FROM event_faqs f
+  JOIN events e ON e.id = f.event_id
+  WHERE f.id = _faq_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'FAQ_NOT_FOUND');
+  END IF;
+
+  IF NOT public.can_manage_event_faq(v_faq.event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  DELETE FROM event_faqs WHERE id = _faq_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_faq.org_id,
+    auth.uid(),
+    'EVENT_FAQ_DELETED',
+    'event_faq',
+    _faq_id,
+    jsonb_build_object('event_id', v_faq.event_id, 'question', v_faq.question)
+  );
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.delete_event_faq(UUID) IS
+  'F023: Delete an FAQ item incl. translations (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.delete_event_faq(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 10. RPC: reorder_event_faq
+-- ===========================================================================
+-- De editor stuurt de volledige volgorde; sort_order = positie in de array.
+-- Ids van andere events worden genegeerd.
+
+CREATE OR REPLACE FUNCTION public.reorder_event_faq(
+  _event_id UUID,
+  _category_ids UUID[] DEFAULT NULL,
+  _faq_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_event_faq(_event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _category_ids IS NOT NULL THEN
+    UPDATE event_faq_categories c
+    SET sort_order = o.position - 1
+    FROM unnest(_category_ids) WITH ORDINALITY AS o(id, position)
+    WHERE c.id = o.id AND c.event_id = _event_id;
+  END IF;
+
+  IF _faq_ids IS NOT NULL THEN
+    UPDATE event_faqs f
+    SET sort_order = o.position - 1
+    FROM unnest(_faq_ids) WITH ORDINALITY AS o(id, position)
+    WHERE f.id = o.id AND f.event_id = _event_id;
+  END IF;
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.reorder_event_faq(UUID, UUID[], UUID[]) IS
+  'F023: Set the order of FAQ categories and/or items (array position = sort_order).';
+
+GRANT EXECUTE ON FUNCTION public.reorder_event_faq(UUID, UUID[], UUID[]) TO authenticated;
+
+-- ===========================================================================
+-- 11. RPC: upsert_event_faq_i18n / upsert_event_faq_category_i18n
+-- ===========================================================================
+-- Lege vertaling verwijdert de rij: de standaardtaal is dan weer zichtbaar.
+
+CREATE OR REPLACE FUNCTION public.upsert_event_faq_i18n(
+  _faq_id UUID,
+  _locale TEXT,
+  _question TEXT,
+  _answer TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_event_id UUID;
+BEGIN
+  SELECT event_id INTO v_event_id FROM event_faqs WHERE id = _faq_id;
+
+  IF v_event_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'FAQ_NOT_FOUND');
+  END IF;
+
+  IF NOT public.can_manage_event_faq(v_event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _locale IS NULL OR _locale !~ '^[a-z]{2}(-[A-Z]{2})?$' THEN
+    RETURN jsonb_build_object('error', 'INVALID_LOCALE');
+  END IF;
+
+  IF COALESCE(trim(_question), '') = '' AND COALESCE(trim(_answer), '') = '' THEN
+    DELETE FROM event_faq_i18n WHERE faq_id = _faq_id AND locale = _locale;
+    RETURN jsonb_build_object('status', 'OK', 'deleted', true);
+  END IF;
+
+  IF COALESCE(trim(_question), '') = '' OR length(trim(_question)) > 300 THEN
+    RETURN jsonb_build_object('error', 'INVALID_QUESTION');
+  END IF;
+
+  IF COALESCE(trim(_answer), '') = '' OR length(trim(_answer)) > 5000 THEN
+    RETURN jsonb_build_object('error', 'INVALID_ANSWER');
+  END IF;
+
+  INSERT INTO event_faq_i18n (faq_id, locale, question, answer)
+  VALUES (_faq_id, _locale, trim(_question), trim(_answer))
+  ON CONFLICT (faq_id, locale) DO UPDATE SET
+    question = EXCLUDED.question,
+    answer = EXCLUDED.answer,
+    updated_at = NOW()
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('status', 'OK', 'id', v_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.upsert_event_faq_i18n(UUID, TEXT, TEXT, TEXT) IS
+  'F023: Create, update or (when empty) remove the translation of an FAQ item.';
+
+GRANT EXECUTE ON FUNCTION public.upsert_event_faq_i18n(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.upsert_event_faq_category_i18n(
+  _category_id UUID,
+  _locale TEXT,
+  _name TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_event_id UUID;
+BEGIN
+  SELECT event_id INTO v_event_id FROM event_faq_categories WHERE id = _category_id;
+
+  IF v_event_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'CATEGORY_NOT_FOUND');
+  END IF;
+
+  IF NOT public.can_manage_event_faq(v_event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _locale IS NULL OR _locale !~ '^[a-z]{2}(-[A-Z]{2})?$' THEN
+    RETURN jsonb_build_object('error', 'INVALID_LOCALE');
+  END IF;
+
+  IF COALESCE(trim(_name), '') = '' THEN
+    DELETE FROM event_faq_category_i18n WHERE category_id = _category_id AND locale = _locale;
+    RETURN jsonb_build_object('status', 'OK', 'deleted', true);
+  END IF;
+
+  IF length(trim(_name)) > 100 THEN
+    RETURN jsonb_build_object('error', 'INVALID_NAME');
+  END IF;
+
+  INSERT INTO event_faq_category_i18n (category_id, locale, name)
+  VALUES (_category_id, _locale, trim(_name))
+  ON CONFLICT (category_id, locale) DO UPDATE SET
+    name = EXCLUDED.name,
+    updated_at = NOW()
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('status', 'OK', 'id', v_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.upsert_event_faq_category_i18n(UUID, TEXT, TEXT) IS
+  'F023: Create, update or (when empty) remove the translated name of an FAQ category.';
+
+GRANT EXECUTE ON FUNCTION public.upsert_event_faq_category_i18n(UUID, TEXT, TEXT) TO authenticated;
+
+-- ===========================================================================
+-- 12. RPC: get_public_event_faq
+-- ===========================================================================
+-- Published vragen van een published event, vertaald naar _locale met
+-- terugval op de standaardtaal. _search filtert (hoofdletterongevoelig) op
+-- vraag en antwoord in de getoonde taal. Vragen zonder categorie komen in
+-- een categorie met id null (als eerste).
+
+CREATE OR REPLACE FUNCTION public.get_public_event_faq(
+  _event_slug TEXT,
+  _locale TEXT DEFAULT NULL,
+  _search TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event RECORD;
+  v_search TEXT := NULLIF(lower(trim(COALESCE(_search, ''))), '');
+BEGIN
+  SELECT e.id, e.slug, e.name, o.name AS org_name
+  INTO v_event
+  FROM events e
+  JOIN orgs o ON o.id = e.org_id
+  WHERE e.slug = _event_slug
+    AND e.status = 'published'
+    AND e.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'event', jsonb_build_object(
+      'id', v_event.id,
+      'slug', v_event.slug,
+      'name', v_event.name,
+      'org_name', v_event.org_name
+    ),
+    'locale', _locale,
+    -- Talen waarin minstens één published vraag vertaald is
+    'available_locales', COALESCE((
+      SELECT jsonb_agg(DISTINCT fi.locale)
+      FROM event_faq_i18n fi
+      JOIN event_faqs f ON f.id = fi.faq_id
+      WHERE f.event_id = v_event.id AND f.status = 'published'
+    ), '[]'::jsonb),
+    'total_count', (
+      SELECT COUNT(*) FROM event_faqs f
+      WHERE f.event_id = v_event.id AND f.status = 'published'
+    ),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', grouped.category_id,
+        'name', grouped.category_name,
+        'faqs', grouped.faqs
+      ) ORDER BY grouped.category_id IS NOT NULL, grouped.category_sort)
+      FROM (
+        SELECT
+          items.category_id,
+          MIN(items.category_name) AS category_name,
+          MIN(items.category_sort) AS category_sort,
+          jsonb_agg(jsonb_build_object(
+            'id', items.id,
+            'question', items.question,
+            'answer', items.answer
+          ) ORDER BY items.sort_order, items.created_at) AS faqs
+        FROM (
+          SELECT
+            f.id,
+            f.category_id,
+            f.sort_order,
+            f.created_at,
+            COALESCE(fi.question, f.question) AS question,
+            COALESCE(fi.answer, f.answer) AS answer,
+            COALESCE(ci.name, c.name) AS category_name,
+            c.sort_order AS category_sort
+          FROM event_faqs f
+          LEFT JOIN event_faq_i18n fi ON fi.faq_id = f.id AND fi.locale = _locale
+          LEFT JOIN event_faq_categories c ON c.id = f.category_id
+          LEFT JOIN event_faq_category_i18n ci ON ci.category_id = c.id AND ci.locale = _locale
+          WHERE f.event_id = v_event.id
+            AND f.status = 'published'
+        ) items
+        WHERE v_search IS NULL
+          OR position(v_search IN lower(items.question)) > 0
+          OR position(v_search IN lower(items.answer)) > 0
+        GROUP BY items.category_id
+      ) grouped
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_public_event_faq(TEXT, TEXT, TEXT) IS
+  'F023: Public: published FAQ of a published event, localized with fallback, optional search.';
+
+GRANT EXECUTE ON FUNCTION public.get_public_event_faq(TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- ===========================================================================
+-- 13. FUNCTION: render_event_faq_html (internal)
+-- ===========================================================================
+-- HTML-blok met de published vragen die include_in_email hebben, voor in
+-- e-mails. Leeg ('') als er niets te tonen is, zodat het blok zonder
+-- controle achter een body geplakt kan worden.
+
+CREATE OR REPLACE FUNCTION public.render_event_faq_html(
+  _event_id UUID,
+  _locale TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_items TEXT;
+BEGIN
+  SELECT string_agg(
+    '<p><strong>'
+      || replace(replace(replace(COALESCE(fi.question, f.question), '&', '&amp;'), '<', '&lt;'), '>', '&gt;')
+      || '</strong><br>'
+      || replace(replace(replace(replace(COALESCE(fi.answer, f.answer), '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), E'\n', '<br>')
+      || '</p>',
+    ''
+    ORDER BY c.sort_order NULLS FIRST, f.sort_order, f.created_at
+  )
+  INTO v_items
+  FROM event_faqs f
+  LEFT JOIN event_faq_categories c ON c.id = f.category_id
+  LEFT JOIN event_faq_i18n fi ON fi.faq_id = f.id AND fi.locale = _locale
+  WHERE f.event_id = _event_id
+    AND f.status = 'published'
+    AND f.include_in_email;
+
+  IF v_items IS NULL THEN
+    RETURN '';
+  END IF;
+
+  RETURN '<h3>Veelgestelde vragen</h3>' || v_items;
+END;
+$$;
+
+COMMENT ON FUNCTION public.render_event_faq_html(UUID, TEXT) IS
+  'F023: System: HTML block of published FAQ items flagged include_in_email ('''' when none).';
+
+REVOKE ALL ON FUNCTION public.render_event_faq_html(UUID, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.render_event_faq_html(UUID, TEXT) TO service_role;
+
+-- ===========================================================================
+-- 14. TRIGGER: sync_registration_on_order_paid (confirmation via queue_email)
+-- ===========================================================================
+-- Stap 1-4 ongewijzigd t.o.v. F001. Stap 5 schreef naar kolommen die
+-- email_outbox niet heeft (to_name, template_key, priority); de bevestiging
+-- gaat nu via queue_email, met het FAQ-blok van het event erin. Locale uit
+-- orders.metadata->>'locale' (anders standaardtaal).
+
+CREATE OR REPLACE FUNCTION sync_registration_on_order_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_item RECORD;
+  v_participant_id UUID;
+  v_registration_id UUID;
+  v_event_id UUID;
+  v_org_id UUID;
+  v_event_name TEXT;
+  v_ticket_count INTEGER := 0;
+  v_first_registration_id UUID;
+  v_first_name TEXT;
+BEGIN
+  -- Only trigger on status change to 'paid'
+  IF NEW.status = 'paid' AND (OLD IS NULL OR OLD.status IS DISTINCT FROM 'paid') THEN
+
+    -- Loop through order items with ticket types
+    FOR v_item IN
+      SELECT
+        oi.id as order_item_id,
+        oi.ticket_type_id,
+        oi.quantity,
+        tt.event_id
+      FROM order_items oi
+      JOIN ticket_types tt ON tt.id = oi.ticket_type_id
+      WHERE oi.order_id = NEW.id
+        AND oi.ticket_type_id IS NOT NULL
+    LOOP
+      v_event_id := v_item.event_id;
+
+      -- Get org_id and event name for outbox
+      SELECT e.org_id, e.name INTO v_org_id, v_event_name
+      FROM events e WHERE e.id = v_event_id;
+
+      -- 1. Upsert participant by email (idempotent)
+      INSERT INTO participants (email, first_name, last_name, user_id)
+      VALUES (
+        NEW.email,
+        COALESCE((NEW.metadata->>'first_name')::text, split_part(NEW.email, '@', 1)),
+        COALESCE((NEW.metadata->>'last_name')::text, ''),
+        NEW.user_id
+      )
+      ON CONFLICT ON CONSTRAINT idx_participants_email_unique
+      DO UPDATE SET
+        user_id = COALESCE(participants.user_id, EXCLUDED.user_id),
+        first_name = CASE
+          WHEN participants.first_name = '' OR participants.first_name IS NULL
+          THEN EXCLUDED.first_name
+          ELSE participants.first_name
+        END,
+        updated_at = NOW()
+      RETURNING id INTO v_participant_id;
+
+      -- If participant wasn't found/created, try to get existing
+      IF v_participant_id IS NULL THEN
+        SELECT id INTO v_participant_id
+        FROM participants
+        WHERE email = NEW.email AND deleted_at IS NULL;
+      END IF;
+
+      -- 2. Upsert registration (idempotent by order_item_id)
+      INSERT INTO registrations (
+        event_id,
+        participant_id,
+        ticket_type_id,
+        order_item_id,
+        status
+      )
+      VALUES (
+        v_event_id,
+        v_participant_id,
+        v_item.ticket_type_id,
+        v_item.order_item_id,
+        'confirmed'
+      )
+      ON CONFLICT ON CONSTRAINT idx_registrations_order_item_unique
+      DO UPDATE SET
+        status = 'confirmed',
+        updated_at = NOW()
+      RETURNING id INTO v_registration_id;
+
+      -- Track first registration for outbox
+      IF v_first_registration_id IS NULL THEN
+        v_first_registration_id := v_registration_id;
+      END IF;
+
+      -- 3. Link ticket instances to participant
+      UPDATE ticket_instances
+      SET participant_id = v_participant_id
+      WHERE order_id = NEW.id
+        AND ticket_type_id = v_item.ticket_type_id
+        AND participant_id IS NULL;
+
+      v_ticket_count := v_ticket_count + v_item.quantity;
+
+      -- 4. Audit log (idempotent via unique or ON CONFLICT)
+      INSERT INTO audit_log (
+        org_id,
+        actor_user_id,
+        action,
+        entity_type,
+        entity_id,
+        metadata
+      )
+      VALUES (
+        v_org_id,
+        COALESCE(NEW.user_id, '00000000-0000-0000-0000-000000000000'::uuid),
+        'REGISTRATION_CREATED_FROM_ORDER',
+        'registration',
+        v_registration_id,
+        jsonb_build_object(
+          'order_id', NEW.id,
+          'order_item_id', v_item.order_item_id,
+          'participant_id', v_participant_id,
+          'participant_email', NEW.email
+        )
+      )
+      ON CONFLICT DO NOTHING;
+
+    END LOOP;
+
+    -- 5. Queue confirmation email (once per order, not per item) + FAQ block
+    IF v_first_registration_id IS NOT NULL AND v_org_id IS NOT NULL THEN
+      v_first_name := COALESCE((NEW.metadata->>'first_name')::text, split_part(NEW.email, '@', 1));
+
+      PERFORM public.queue_email(
+        _org_id => v_org_id,
+        _event_id => v_event_id,
+        _idempotency_key => 'order_confirmation_' || NEW.id::text,
+        _to_email => NEW.email,
+        _subject => 'Bevestiging van je inschrijving: ' || v_event_name,
+        _html_body =>
+          '<p>Hoi ' || v_first_name || ',</p>'
+          || '<p>Je bestelling voor <strong>' || v_event_name || '</strong> is betaald. '
+          || 'Je hebt ' || v_ticket_count || ' ticket(s); je vindt ze onder je tickets.</p>'
+          || public.render_event_faq_html(v_event_id, NEW.metadata->>'locale'),
+        _text_body =>
+          'Je bestelling voor ' || v_event_name || ' is betaald. '
+          || 'Je hebt ' || v_ticket_count || ' ticket(s).',
+        _template_variables => jsonb_build_object(
+          'order_id', NEW.id,
+          'registration_id', v_first_registration_id,
+          'event_name', v_event_name,
+          'ticket_count', v_ticket_count,
+          'total_amount', NEW.total_amount,
+          'currency', NEW.currency
+        ),
+        _metadata => jsonb_build_object('order_id', NEW.id, 'template', 'order_confirmation')
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION sync_registration_on_order_paid IS
+  'Automatically creates participant, registration records, links tickets, and queues confirmation email (incl. event FAQ) when order is paid. Idempotent.';
+
+-- ===========================================================================
+-- 15. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'event_faqs') THEN
+    RAISE EXCEPTION 'event_faqs table not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'event_faq_i18n') THEN
+    RAISE EXCEPTION 'event_faq_i18n table not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_public_event_faq') THEN
+    RAISE EXCEPTION 'get_public_event_faq not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'render_event_faq_html') THEN
+    RAISE EXCEPTION 'render_event_faq_html not created';
+  END IF;
+  RAISE NOTICE 'F023: Event FAQ created successfully';
+END $$;
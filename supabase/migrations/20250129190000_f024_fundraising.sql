@@ -0,0 +1,765 @@
+-- ===========================================================================
+-- F024: Fundraising
+-- Migration: 20250129190000_f024_fundraising.sql
+--
+-- Purpose (zie docs/ARCHITECT_FUNDRAISING.md):
+-- - Sidecar tabellen uit laag 7 afmaken: keuze in de checkout
+--   (fundraising_order_choices), wachtrij-kolommen op
+--   fundraising_participations, actief-vlag op charities
+-- - RLS volgens het ontwerp: config publiek leesbaar bij published events,
+--   beheer alleen owner/admin, participations niet meer publiek
+-- - Checkout: publieke config + validatie van de keuze (modus per event,
+--   ticket overrides gaan voor)
+-- - Participation ontstaat bij het aanmaken van de registratie (trigger);
+--   fouten worden ingeslikt zodat betaling/fulfillment nooit blokkeert
+-- - Actiepagina's worden async aangemaakt door de process-fundraising
+--   edge function (claim / complete / fail met backoff)
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE CHANGES: fundraising_charities / fundraising_participations
+-- ===========================================================================
+-- De participation is zelf de wachtrij voor het aanmaken van de actiepagina
+-- (zoals email_outbox): status + pogingen + volgende poging.
+
+ALTER TABLE fundraising_charities
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE fundraising_participations
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS provider TEXT,
+  -- Origin van de checkout (voor links in de mail)
+  ADD COLUMN IF NOT EXISTS site_origin TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'fundraising_participations_status_check'
+  ) THEN
+    ALTER TABLE fundraising_participations
+      ADD CONSTRAINT fundraising_participations_status_check
+      CHECK (status IN ('pending', 'processing', 'active', 'failed', 'closed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_fundraising_participations_queue
+  ON fundraising_participations(next_attempt_at)
+  WHERE status = 'pending';
+
+COMMENT ON COLUMN fundraising_participations.status IS
+  'pending (wacht op actiepagina) → processing → active; failed na max pogingen; closed handmatig';
+
+-- ===========================================================================
+-- 2. TABLE: fundraising_order_choices
+-- ===========================================================================
+-- Keuze uit de checkout; de registratie bestaat pas na betaling. Eén doel
+-- per bestelling, geldt voor alle registraties van die bestelling.
+
+CREATE TABLE IF NOT EXISTS fundraising_order_choices (
+  order_id UUID PRIMARY KEY REFERENCES orders(id) ON DELETE CASCADE,
+  charity_id UUID NOT NULL REFERENCES fundraising_charities(id),
+  site_origin TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE fundraising_order_choices IS
+  'Charity chosen in the checkout; turned into fundraising_participations when registrations are created.';
+
+ALTER TABLE fundraising_order_choices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view fundraising order choices"
+  ON fundraising_order_choices
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = fundraising_order_choices.order_id
+      AND public.is_org_member(o.org_id)
+    )
+  );
+-- Geen INSERT policy: keuzes worden alleen door create-order-public (service role) opgeslagen.
+
+-- ===========================================================================
+-- 3. RLS POLICIES (herzien)
+-- ===========================================================================
+-- Laag 7 liet elk org member beheren en iedereen alle participations lezen.
+
+DROP POLICY IF EXISTS "Org members can manage charities" ON fundraising_charities;
+DROP POLICY IF EXISTS "Public can view charities" ON fundraising_charities;
+DROP POLICY IF EXISTS "Org members can manage fundraising settings" ON fundraising_event_settings;
+DROP POLICY IF EXISTS "Public can view fundraising settings" ON fundraising_event_settings;
+DROP POLICY IF EXISTS "Org members can manage event charities" ON fundraising_event_charities;
+DROP POLICY IF EXISTS "Public can view event charities" ON fundraising_event_charities;
+DROP POLICY IF EXISTS "Org members can manage ticket overrides" ON fundraising_ticket_overrides;
+DROP POLICY IF EXISTS "Public can view ticket overrides" ON fundraising_ticket_overrides;
+DROP POLICY IF EXISTS "Public can view fundraising participations" ON fundraising_participations;
+DROP POLICY IF EXISTS "Users can create fundraising participation" ON fundraising_participations;
+DROP POLICY IF EXISTS "Users can update own pending participation" ON fundraising_participations;
+
+-- fundraising_charities
+CREATE POLICY "Org admins can manage fundraising_charities"
+  ON fundraising_charities
+  FOR ALL
+  USING (public.has_role(org_id, 'admin') OR public.has_role(org_id, 'owner'))
+  WITH CHECK (public.has_role(org_id, 'admin') OR public.has_role(org_id, 'owner'));
+
+CREATE POLICY "Org members can view fundraising_charities"
+  ON fundraising_charities
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Public can view active charities of published events"
+  ON fundraising_charities
+  FOR SELECT
+  USING (
+    is_active
+    AND EXISTS (
+      SELECT 1 FROM fundraising_event_charities ec
+      JOIN events e ON e.id = ec.event_id
+      WHERE ec.charity_id = fundraising_charities.id
+      AND e.status = 'published'
+      AND e.deleted_at IS NULL
+    )
+  );
+
+-- fundraising_event_settings
+CREATE POLICY "Org admins can manage fundraising_event_settings"
+  ON fundraising_event_settings
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = fundraising_event_settings.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = fundraising_event_settings.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view fundraising_event_settings"
+  ON fundraising_event_settings
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = fundraising_event_settings.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Public can view fundraising_event_settings of published events"
+  ON fundraising_event_settings
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = fundraising_event_settings.event_id
+      AND e.status = 'published'
+      AND e.deleted_at IS NULL
+    )
+  );
+
+-- fundraising_event_charities
+CREATE POLICY "Org admins can manage fundraising_event_charities"
+  ON fundraising_event_charities
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = fundraising_event_charities.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = fundraising_event_charities.event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view fundraising_event_charities"
+  ON fundraising_event_charities
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = fundraising_event_charities.event_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Public can view fundraising_event_charities of published events"
+  ON fundraising_event_charities
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM events e
+      WHERE e.id = fundraising_event_charities.event_id
+      AND e.status = 'published'
+      AND e.deleted_at IS NULL
+    )
+  );
+
+-- fundraising_ticket_overrides
+CREATE POLICY "Org admins can manage fundraising_ticket_overrides"
+  ON fundraising_ticket_overrides
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM ticket_types tt
+      JOIN events e ON e.id = tt.event_id
+      WHERE tt.id = fundraising_ticket_overrides.ticket_type_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM ticket_types tt
+      JOIN events e ON e.id = tt.event_id
+      WHERE tt.id = fundraising_ticket_overrides.ticket_type_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+    )
+  );
+
+CREATE POLICY "Org members can view fundraising_ticket_overrides"
+  ON fundraising_ticket_overrides
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM ticket_types tt
+      JOIN events e ON e.id = tt.event_id
+      WHERE tt.id = fundraising_ticket_overrides.ticket_type_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+CREATE POLICY "Public can view fundraising_ticket_overrides of published events"
+  ON fundraising_ticket_overrides
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM ticket_types tt
+      JOIN events e ON e.id = tt.event_id
+      WHERE tt.id = fundraising_ticket_overrides.ticket_type_id
+      AND e.status = 'published'
+      AND e.deleted_at IS NULL
+    )
+  );
+
+-- fundraising_participations: schrijven alleen via triggers/service role
+CREATE POLICY "Participants can view own fundraising participations"
+  ON fundraising_participations
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM registrations r
+      JOIN participants p ON p.id = r.participant_id
+      WHERE r.id = fundraising_participations.registration_id
+      AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Org members can view fundraising participations"
+  ON fundraising_participations
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM registrations r
+      JOIN events e ON e.id = r.event_id
+      WHERE r.id = fundraising_participations.registration_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+-- ===========================================================================
+-- 4. FUNCTION: resolve_fundraising_mode (internal)
+-- ===========================================================================
+-- Modus voor een set tickettypes: een override gaat voor de eventmodus;
+-- de strengste wint (required > optional > disabled). forced_charity_id
+-- van een override met required ligt het doel vast.
+
+CREATE OR REPLACE FUNCTION public.resolve_fundraising_mode(
+  _event_id UUID,
+  _ticket_type_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_mode fundraising_mode;
+  v_mode fundraising_mode;
+  v_forced_charity_id UUID;
+BEGIN
+  SELECT mode INTO v_event_mode
+  FROM fundraising_event_settings
+  WHERE event_id = _event_id;
+
+  v_event_mode := COALESCE(v_event_mode, 'disabled');
+
+  -- Per tickettype: override of eventmodus
+  SELECT
+    MAX(COALESCE(o.mode, v_event_mode)),
+    (array_agg(o.forced_charity_id) FILTER (WHERE o.forced_charity_id IS NOT NULL AND o.mode = 'required'))[1]
+  INTO v_mode, v_forced_charity_id
+  FROM unnest(COALESCE(_ticket_type_ids, ARRAY[]::UUID[])) AS t(id)
+  LEFT JOIN fundraising_ticket_overrides o ON o.ticket_type_id = t.id;
+
+  RETURN jsonb_build_object(
+    'mode', COALESCE(v_mode, v_event_mode),
+    'forced_charity_id', v_forced_charity_id
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.resolve_fundraising_mode(UUID, UUID[]) IS
+  'F024: Effective fundraising mode (strictest of ticket overrides / event mode) and forced charity for a set of ticket types.';
+
+REVOKE ALL ON FUNCTION public.resolve_fundraising_mode(UUID, UUID[]) FROM public;
+GRANT EXECUTE ON FUNCTION public.resolve_fundraising_mode(UUID, UUID[]) TO service_role;
+
+-- ===========================================================================
+-- 5. RPC: get_public_fundraising_config
+-- ===========================================================================
+-- Voor de checkout: eventmodus, teksten, kiesbare doelen en overrides per
+-- tickettype. De checkout berekent hiermee de modus van de selectie.
+
+CREATE OR REPLACE FUNCTION public.get_public_fundraising_config(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM events
+    WHERE id = _event_id AND status = 'published' AND deleted_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  SELECT * INTO v_settings FROM fundraising_event_settings WHERE event_id = _event_id;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'mode', COALESCE(v_settings.mode, 'disabled'),
+    'title', v_settings.title,
+    'description', v_settings.description,
+    'allow_charity_selection', COALESCE(v_settings.allow_charity_selection, true),
+    'charities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', c.id,
+        'name', c.name,
+        'description', c.description,
+        'logo_url', c.logo_url,
+        'is_default', ec.is_default
+      ) ORDER BY ec.is_default DESC, c.name)
+      FROM fundraising_event_charities ec
+      JOIN fundraising_charities c ON c.id = ec.charity_id
+      WHERE ec.event_id = _event_id
+        AND c.is_active
+        -- Exclusief doel: alleen dat doel is kiesbaar
+        AND (ec.is_exclusive OR NOT EXISTS (
+          SELECT 1 FROM fundraising_event_charities x
+          WHERE x.event_id = _event_id AND x.is_exclusive
+        ))
+    ), '[]'::jsonb),
+    'ticket_overrides', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'ticket_type_id', o.ticket_type_id,
+        'mode', o.mode,
+        'forced_charity_id', o.forced_charity_id
+      ))
+      FROM fundraising_ticket_overrides o
+      JOIN ticket_types tt ON tt.id = o.ticket_type_id
+      WHERE tt.event_id = _event_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_public_fundraising_config(UUID) IS
+  'F024: Public: fundraising mode, texts, selectable charities and ticket overrides of a published event.';
+
+GRANT EXECUTE ON FUNCTION public.get_public_fundraising_config(UUID) TO anon, authenticated;
+
+-- ===========================================================================
+-- 6. RPC: validate_fundraising_choice (service role, checkout)
+-- ===========================================================================
+-- Gebruikt door create-order-public vóór het aanmaken van de bestelling.
+-- Geeft het doel terug dat opgeslagen moet worden (NULL = geen fundraising).
+
+CREATE OR REPLACE FUNCTION public.validate_fundraising_choice(
+  _event_id UUID,
+  _ticket_type_ids UUID[],
+  _charity_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_resolved JSONB;
+  v_mode TEXT;
+  v_forced UUID;
+  v_allow_selection BOOLEAN;
+  v_default UUID;
+  v_charity_id UUID;
+BEGIN
+  v_resolved := public.resolve_fundraising_mode(_event_id, _ticket_type_ids);
+  v_mode := v_resolved->>'mode';
+  v_forced := (v_resolved->>'forced_charity_id')::UUID;
+
+  IF v_mode = 'disabled' THEN
+    IF _charity_id IS NOT NULL THEN
+      RETURN jsonb_build_object('error', 'FUNDRAISING_DISABLED');
+    END IF;
+    RETURN jsonb_build_object('status', 'OK', 'mode', v_mode, 'charity_id', NULL);
+  END IF;
+
+  SELECT COALESCE(allow_charity_selection, true) INTO v_allow_selection
+  FROM fundraising_event_settings WHERE event_id = _event_id;
+
+  SELECT ec.charity_id INTO v_default
+  FROM fundraising_event_charities ec
+  JOIN fundraising_charities c ON c.id = ec.charity_id
+  WHERE ec.event_id = _event_id AND c.is_active
+  ORDER BY ec.is_exclusive DESC, ec.is_default DESC, c.name
+  LIMIT 1;
+
+  IF v_forced IS NOT NULL THEN
+    v_charity_id := v_forced;
+  ELSIF COALESCE(v_allow_selection, true) = false THEN
+    -- Deelnemer kiest niet: standaarddoel (alleen als er meegedaan wordt)
+    v_charity_id := CASE WHEN v_mode = 'required' OR _charity_id IS NOT NULL THEN v_default END;
+  ELSE
+    v_charity_id := _charity_id;
+  END IF;
+
+  IF v_charity_id IS NULL THEN
+    IF v_mode = 'required' THEN
+      RETURN jsonb_build_object('error', 'FUNDRAISING_CHARITY_REQUIRED');
+    END IF;
+    RETURN jsonb_build_object('status', 'OK', 'mode', v_mode, 'charity_id', NULL);
+  END IF;
+
+  -- Forced doelen hoeven niet in de eventlijst te staan
+  IF v_charity_id IS DISTINCT FROM v_forced AND NOT EXISTS (
+    SELECT 1 FROM fundraising_event_charities ec
+    JOIN fundraising_charities c ON c.id = ec.charity_id
+    WHERE ec.event_id = _event_id
+      AND ec.charity_id = v_charity_id
+      AND c.is_active
+      AND (ec.is_exclusive OR NOT EXISTS (
+        SELECT 1 FROM fundraising_event_charities x
+        WHERE x.event_id = _event_id AND x.is_exclusive
+      ))
+  ) THEN
+    RETURN jsonb_build_object('error', 'INVALID_CHARITY');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'OK', 'mode', v_mode, 'charity_id', v_charity_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.validate_fundraising_choice(UUID, UUID[], UUID) IS
+  'F024: System: validate the checkout charity choice against event mode, overrides and selectable charities.';
+
+REVOKE ALL ON FUNCTION public.validate_fundraising_choice(UUID, UUID[], UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.validate_fundraising_choice(UUID, UUID[], UUID) TO service_role;
+
+-- ===========================================================================
+-- 7. TRIGGER: create_fundraising_participation
+-- ===========================================================================
+-- Na het aanmaken (of van tickettype wisselen) van een registratie:
+-- participation met status pending als de bestelling een doel koos of het
+-- tickettype fundraising verplicht (dan forced doel of standaarddoel).
+-- Non-blocking: elke fout wordt als WARNING gelogd en de registratie
+-- (en daarmee sync/fulfillment van de bestelling) gaat gewoon door.
+
+CREATE OR REPLACE FUNCTION public.create_fundraising_participation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_choice RECORD;
+  v_resolved JSONB;
+  v_charity_id UUID;
+BEGIN
+  BEGIN
+    IF NEW.deleted_at IS NOT NULL OR NEW.status = 'cancelled' THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT fc.charity_id, fc.site_origin INTO v_choice
+    FROM order_items oi
+    JOIN fundraising_order_choices fc ON fc.order_id = oi.order_id
+    WHERE oi.id = NEW.order_item_id;
+
+    v_charity_id := v_choice.charity_id;
+
+    IF v_charity_id IS NULL THEN
+      v_resolved := public.resolve_fundraising_mode(NEW.event_id, ARRAY[NEW.ticket_type_id]);
+
+      IF v_resolved->>'mode' <> 'required' THEN
+        RETURN NEW;
+      END IF;
+
+      v_charity_id := COALESCE(
+        (v_resolved->>'forced_charity_id')::UUID,
+        (SELECT ec.charity_id
+         FROM fundraising_event_charities ec
+         JOIN fundraising_charities c ON c.id = ec.charity_id
+         WHERE ec.event_id = NEW.event_id AND c.is_active
+         ORDER BY ec.is_exclusive DESC, ec.is_default DESC, c.name
+         LIMIT 1)
+      );
+
+      IF v_charity_id IS NULL THEN
+        RAISE WARNING 'F024: registration % requires fundraising but event % has no charity', NEW.id, NEW.event_id;
+        RETURN NEW;
+      END IF;
+    END IF;
+
+    INSERT INTO fundraising_participations (registration_id, charity_id, status, site_origin)
+    VALUES (NEW.id, v_charity_id, 'pending', v_choice.site_origin)
+    ON CONFLICT (registration_id) DO NOTHING;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'F024: fundraising participation for registration % failed: %', NEW.id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_fundraising_participation_trigger ON registrations;
+CREATE TRIGGER create_fundraising_participation_trigger
+  AFTER INSERT OR UPDATE OF ticket_type_id ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION create_fundraising_participation();
+
+COMMENT ON FUNCTION public.create_fundraising_participation() IS
+  'F024: Create a pending fundraising participation for a registration (checkout choice or required ticket). Never raises.';
+
+-- ===========================================================================
+-- 8. RPC: claim_fundraising_jobs (service role)
+-- ===========================================================================
+-- Pakt pending participations waarvan de volgende poging verstreken is en
+-- zet ze op processing (SKIP LOCKED: meerdere workers tegelijk kunnen).
+
+CREATE OR REPLACE FUNCTION public.claim_fundraising_jobs(_limit INTEGER DEFAULT 25)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_jobs JSONB;
+BEGIN
+  WITH claimed AS (
+    UPDATE fundraising_participations fp
+    SET status = 'processing',
+        attempt_count = fp.attempt_count + 1
+    WHERE fp.id IN (
+      SELECT id FROM fundraising_participations
+      WHERE status = 'pending' AND next_attempt_at <= NOW()
+      ORDER BY next_attempt_at
+      LIMIT _limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING fp.*
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'participation_id', c.id,
+    'attempt_count', c.attempt_count,
+    'registration_id', c.registration_id,
+    'charity_id', ch.id,
+    'charity_external_id', ch.external_id,
+    'charity_name', ch.name,
+    'event_id', e.id,
+    'event_name', e.name,
+    'event_start', e.start_time,
+    'org_id', e.org_id,
+    'participant_email', p.email,
+    'participant_first_name', p.first_name,
+    'participant_last_name', p.last_name,
+    'site_origin', c.site_origin
+  )), '[]'::jsonb)
+  INTO v_jobs
+  FROM claimed c
+  JOIN fundraising_charities ch ON ch.id = c.charity_id
+  JOIN registrations r ON r.id = c.registration_id
+  JOIN events e ON e.id = r.event_id
+  JOIN participants p ON p.id = r.participant_id;
+
+  RETURN jsonb_build_object('status', 'OK', 'jobs', v_jobs);
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_fundraising_jobs(INTEGER) IS
+  'F024: System: claim due pending fundraising participations for page creation (SKIP LOCKED).';
+
+REVOKE ALL ON FUNCTION public.claim_fundraising_jobs(INTEGER) FROM public;
+GRANT EXECUTE ON FUNCTION public.claim_fundraising_jobs(INTEGER) TO service_role;
+
+-- ===========================================================================
+-- 9. RPC: complete_fundraising_page / fail_fundraising_page (service role)
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.complete_fundraising_page(
+  _participation_id UUID,
+  _provider TEXT,
+  _external_page_id TEXT,
+  _external_page_url TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job RECORD;
+BEGIN
+  UPDATE fundraising_participations
+  SET status = 'active',
+      provider = _provider,
+      external_page_id = _external_page_id,
+      external_page_url = _external_page_url,
+      last_error = NULL
+  WHERE id = _participation_id
+    AND status = 'processing'
+  RETURNING id, registration_id INTO v_job;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'NOT_PROCESSING');
+  END IF;
+
+  SELECT e.org_id, e.id AS event_id, e.name AS event_name, p.email, p.first_name, ch.name AS charity_name
+  INTO v_job
+  FROM fundraising_participations fp
+  JOIN registrations r ON r.id = fp.registration_id
+  JOIN events e ON e.id = r.event_id
+  JOIN participants p ON p.id = r.participant_id
+  JOIN fundraising_charities ch ON ch.id = fp.charity_id
+  WHERE fp.id = _participation_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_job.org_id,
+    NULL,
+    'FUNDRAISING_PAGE_CREATED',
+    'fundraising_participation',
+    _participation_id,
+    jsonb_build_object('provider', _provider, 'external_page_id', _external_page_id)
+  );
+
+  PERFORM public.queue_email(
+    _org_id => v_job.org_id,
+    _event_id => v_job.event_id,
+    _idempotency_key => 'fundraising_page:' || _participation_id::TEXT,
+    _to_email => v_job.email,
+    _subject => 'Je actiepagina voor ' || v_job.charity_name || ' staat klaar',
+    _html_body =>
+      '<p>Hoi ' || COALESCE(v_job.first_name, '') || ',</p>'
+      || '<p>Je actiepagina voor <strong>' || v_job.charity_name || '</strong> bij '
+      || v_job.event_name || ' is aangemaakt. Deel de link met vrienden en familie:</p>'
+      || '<p><a href="' || _external_page_url || '">' || _external_page_url || '</a></p>',
+    _text_body =>
+      'Je actiepagina voor ' || v_job.charity_name || ' bij ' || v_job.event_name
+      || ' is aangemaakt: ' || _external_page_url,
+    _template_variables => jsonb_build_object(
+      'event_name', v_job.event_name,
+      'charity_name', v_job.charity_name,
+      'page_url', _external_page_url
+    ),
+    _metadata => jsonb_build_object('participation_id', _participation_id)
+  );
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.complete_fundraising_page(UUID, TEXT, TEXT, TEXT) IS
+  'F024: System: store the created action page, activate the participation and email the link.';
+
+REVOKE ALL ON FUNCTION public.complete_fundraising_page(UUID, TEXT, TEXT, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.complete_fundraising_page(UUID, TEXT, TEXT, TEXT) TO service_role;
+
+-- Exponentiële backoff: 1, 2, 4, 8 ... minuten; na _max_attempts → failed
+CREATE OR REPLACE FUNCTION public.fail_fundraising_page(
+  _participation_id UUID,
+  _error TEXT,
+  _max_attempts INTEGER DEFAULT 5
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempts INTEGER;
+  v_status TEXT;
+BEGIN
+  SELECT attempt_count INTO v_attempts
+  FROM fundraising_participations
+  WHERE id = _participation_id AND status = 'processing';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'NOT_PROCESSING');
+  END IF;
+
+  v_status := CASE WHEN v_attempts >= _max_attempts THEN 'failed' ELSE 'pending' END;
+
+  UPDATE fundraising_participations
+  SET status = v_status,
+      last_error = left(_error, 1000),
+      next_attempt_at = NOW() + make_interval(mins => power(2, v_attempts - 1)::INTEGER)
+  WHERE id = _participation_id;
+
+  RETURN jsonb_build_object('status', 'OK', 'participation_status', v_status, 'attempt_count', v_attempts);
+END;
+$$;
+
+COMMENT ON FUNCTION public.fail_fundraising_page(UUID, TEXT, INTEGER) IS
+  'F024: System: record a failed page creation; retry with exponential backoff or mark failed.';
+
+REVOKE ALL ON FUNCTION public.fail_fundraising_page(UUID, TEXT, INTEGER) FROM public;
+GRANT EXECUTE ON FUNCTION public.fail_fundraising_page(UUID, TEXT, INTEGER) TO service_role;
+
+-- ===========================================================================
+-- 10. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'fundraising_order_choices') THEN
+    RAISE EXCEPTION 'fundraising_order_choices table not created';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'fundraising_participations' AND column_name = 'next_attempt_at'
+  ) THEN
+    RAISE EXCEPTION 'fundraising_participations queue columns not added';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'claim_fundraising_jobs') THEN
+    RAISE EXCEPTION 'claim_fundraising_jobs not created';
+  END IF;
+  RAISE NOTICE 'F024: Fundraising created successfully';
+END $$;
@@ -0,0 +1,323 @@
+-- ===========================================================================
+-- F025: Wallet Passes
+-- Migration: 20250129200000_f025_wallet_passes.sql
+--
+-- Purpose:
+-- - Apple Wallet (.pkpass) en Google Wallet passes voor ticket_instances,
+--   gegenereerd door de wallet-pass edge function
+-- - wallet_passes: versie per ticket (Apple updates, Google object id)
+-- - wallet_pass_devices: Apple devices die een pass volgen (PassKit web
+--   service, wallet-pass-service) voor push updates
+-- - resolve_event_setting: effectieve settings van een domein zonder
+--   membership check (get_event_config is alleen voor org members)
+-- - get_wallet_pass_data: alles wat op de pass komt, met branding en de
+--   ticket_privacy show-flags toegepast
+-- - touch_wallet_pass: versie ophogen na een transfer (accept-transfer)
+--   en push tokens teruggeven
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: wallet_passes
+-- ===========================================================================
+-- Eén rij per ticket zodra er een pass is uitgegeven. Het serienummer van de
+-- Apple pass is het ticket_instance_id; pass_version wordt opgehoogd bij elke
+-- wijziging zodat devices de nieuwe versie ophalen.
+
+CREATE TABLE IF NOT EXISTS wallet_passes (
+  ticket_instance_id UUID PRIMARY KEY REFERENCES ticket_instances(id) ON DELETE CASCADE,
+  pass_version INTEGER NOT NULL DEFAULT 1,
+  apple_issued_at TIMESTAMPTZ,
+  google_object_id TEXT UNIQUE,
+  google_issued_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE wallet_passes IS
+  'Issued Apple/Google Wallet passes per ticket instance; pass_version bumps on every change (e.g. transfer).';
+
+CREATE TRIGGER wallet_passes_updated_at
+  BEFORE UPDATE ON wallet_passes
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+-- ===========================================================================
+-- 2. TABLE: wallet_pass_devices
+-- ===========================================================================
+-- Registraties uit de PassKit web service: welk device (push token) volgt
+-- welke pass.
+
+CREATE TABLE IF NOT EXISTS wallet_pass_devices (
+  device_library_identifier TEXT NOT NULL,
+  pass_type_identifier TEXT NOT NULL,
+  -- Alleen passes die zijn uitgegeven kunnen geregistreerd worden
+  ticket_instance_id UUID NOT NULL REFERENCES wallet_passes(ticket_instance_id) ON DELETE CASCADE,
+  push_token TEXT NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (device_library_identifier, pass_type_identifier, ticket_instance_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_pass_devices_ticket
+  ON wallet_pass_devices(ticket_instance_id);
+
+COMMENT ON TABLE wallet_pass_devices IS
+  'Apple Wallet device registrations (PassKit web service) used to push pass updates.';
+
+-- Alleen service role (edge functions): RLS aan, geen policies
+ALTER TABLE wallet_passes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_pass_devices ENABLE ROW LEVEL SECURITY;
+
+-- ===========================================================================
+-- 3. HELPER: resolve_event_setting (service role)
+-- ===========================================================================
+-- Zelfde merge als get_event_config (defaults < org < event) voor één domein.
+-- Edge functions draaien zonder auth.uid(), dus get_event_config faalt daar
+-- op de is_org_member check.
+
+CREATE OR REPLACE FUNCTION public.resolve_event_setting(_event_id UUID, _domain TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_org_val JSONB;
+  v_event_val JSONB;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id;
+
+  SELECT setting_value INTO v_org_val
+  FROM org_settings
+  WHERE org_id = v_org_id AND domain = _domain;
+
+  SELECT setting_value INTO v_event_val
+  FROM event_settings
+  WHERE event_id = _event_id AND domain = _domain;
+
+  RETURN public.jsonb_deep_merge(
+    public.jsonb_deep_merge(
+      COALESCE(public.get_default_settings(_domain), '{}'::jsonb),
+      COALESCE(v_org_val, '{}'::jsonb)
+    ),
+    COALESCE(v_event_val, '{}'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.resolve_event_setting(UUID, TEXT) IS
+  'F025: System: effective settings of one domain for an event (defaults < org < event), without membership check.';
+
+REVOKE ALL ON FUNCTION public.resolve_event_setting(UUID, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.resolve_event_setting(UUID, TEXT) TO service_role;
+
+-- ===========================================================================
+-- 4. RPC: get_wallet_pass_data (service role)
+-- ===========================================================================
+-- Houder: laatste geaccepteerde transfer, anders de deelnemer van het ticket,
+-- anders de deelnemer van de eigenaar. Persoonsgegevens alleen als de
+-- ticket_privacy show-flag aan staat. Branding uit het branding domein; het
+-- logo wordt als storage object (bucket + pad) teruggegeven.
+
+CREATE OR REPLACE FUNCTION public.get_wallet_pass_data(_ticket_instance_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket RECORD;
+  v_transfer_participant_id UUID;
+  v_participant RECORD;
+  v_branding JSONB;
+  v_show JSONB;
+  v_logo JSONB;
+  v_holder JSONB := '{}'::jsonb;
+BEGIN
+  SELECT
+    ti.id, ti.qr_code, ti.status, ti.order_id, ti.owner_user_id, ti.participant_id,
+    e.id AS event_id, e.org_id, e.name AS event_name, e.slug AS event_slug,
+    e.start_time, e.end_time, e.location_name,
+    o.name AS org_name,
+    tt.name AS ticket_name,
+    ts.label AS slot_label, ts.slot_time, ts.slot_date
+  INTO v_ticket
+  FROM ticket_instances ti
+  JOIN events e ON e.id = ti.event_id
+  JOIN orgs o ON o.id = e.org_id
+  JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+  LEFT JOIN ticket_time_slots ts ON ts.id = ti.time_slot_id
+  WHERE ti.id = _ticket_instance_id
+    AND ti.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TICKET_NOT_FOUND');
+  END IF;
+
+  SELECT to_participant_id INTO v_transfer_participant_id
+  FROM ticket_transfers
+  WHERE ticket_instance_id = _ticket_instance_id
+    AND status = 'accepted'
+    AND to_participant_id IS NOT NULL
+  ORDER BY accepted_at DESC
+  LIMIT 1;
+
+  SELECT p.* INTO v_participant
+  FROM participants p
+  WHERE p.id = COALESCE(
+    v_transfer_participant_id,
+    v_ticket.participant_id,
+    (SELECT id FROM participants
+     WHERE user_id = v_ticket.owner_user_id AND v_ticket.owner_user_id IS NOT NULL
+     ORDER BY created_at DESC
+     LIMIT 1)
+  );
+
+  v_branding := public.resolve_event_setting(v_ticket.event_id, 'branding');
+  v_show := public.get_ticket_privacy(v_ticket.event_id);
+
+  IF v_participant.id IS NOT NULL THEN
+    v_holder := jsonb_strip_nulls(jsonb_build_object(
+      'name', CASE WHEN COALESCE((v_show->>'name')::BOOLEAN, true)
+        THEN trim(v_participant.first_name || ' ' || v_participant.last_name) END,
+      'email', CASE WHEN (v_show->>'email')::BOOLEAN THEN v_participant.email END,
+      'birthdate', CASE WHEN (v_show->>'birthdate')::BOOLEAN THEN v_participant.birth_date END,
+      'gender', CASE WHEN (v_show->>'gender')::BOOLEAN THEN v_participant.gender END,
+      'phone', CASE WHEN (v_show->>'phone')::BOOLEAN THEN v_participant.phone END,
+      'address', CASE WHEN (v_show->>'address')::BOOLEAN
+        THEN NULLIF(concat_ws(', ', v_participant.address, v_participant.city), '') END
+    ));
+  END IF;
+
+  -- Logo: alleen als het storage object bestaat
+  IF COALESCE(v_branding->>'logo_image_id', '') <> '' THEN
+    SELECT jsonb_build_object(
+      'bucket_id', so.bucket_id,
+      'path', so.name,
+      'mimetype', so.metadata->>'mimetype'
+    ) INTO v_logo
+    FROM storage.objects so
+    WHERE so.id = (v_branding->>'logo_image_id')::UUID;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'ticket', jsonb_build_object(
+      'id', v_ticket.id,
+      'qr_code', v_ticket.qr_code,
+      'status', v_ticket.status,
+      'order_id', v_ticket.order_id,
+      'owner_user_id', v_ticket.owner_user_id,
+      'name', v_ticket.ticket_name,
+      'time_slot', CASE WHEN v_ticket.slot_time IS NOT NULL THEN jsonb_build_object(
+        'label', v_ticket.slot_label,
+        'slot_time', v_ticket.slot_time,
+        'slot_date', v_ticket.slot_date
+      ) END,
+      'transferred', v_transfer_participant_id IS NOT NULL
+    ),
+    'event', jsonb_build_object(
+      'id', v_ticket.event_id,
+      'org_id', v_ticket.org_id,
+      'name', v_ticket.event_name,
+      'slug', v_ticket.event_slug,
+      'start_time', v_ticket.start_time,
+      'end_time', v_ticket.end_time,
+      'location_name', v_ticket.location_name,
+      'org_name', v_ticket.org_name
+    ),
+    'holder', v_holder,
+    'branding', jsonb_build_object(
+      'primary_color', COALESCE(NULLIF(v_branding->>'primary_color', ''), '#4F46E5'),
+      'logo', v_logo
+    ),
+    'tickets_available', public.are_tickets_available(v_ticket.event_id),
+    'pass', (
+      SELECT jsonb_build_object(
+        'pass_version', wp.pass_version,
+        'google_object_id', wp.google_object_id,
+        'updated_at', wp.updated_at
+      )
+      FROM wallet_passes wp
+      WHERE wp.ticket_instance_id = _ticket_instance_id
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_wallet_pass_data(UUID) IS
+  'F025: System: ticket, event, branding and privacy-filtered holder data for Apple/Google Wallet passes.';
+
+REVOKE ALL ON FUNCTION public.get_wallet_pass_data(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_wallet_pass_data(UUID) TO service_role;
+
+-- ===========================================================================
+-- 5. RPC: touch_wallet_pass (service role)
+-- ===========================================================================
+-- Na een wijziging (transfer): versie ophogen en teruggeven wie gepusht moet
+-- worden. Geen rij = nooit een pass uitgegeven, niets te doen.
+
+CREATE OR REPLACE FUNCTION public.touch_wallet_pass(_ticket_instance_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pass RECORD;
+BEGIN
+  UPDATE wallet_passes
+  SET pass_version = pass_version + 1
+  WHERE ticket_instance_id = _ticket_instance_id
+  RETURNING * INTO v_pass;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'OK', 'issued', false);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'issued', true,
+    'pass_version', v_pass.pass_version,
+    'apple_issued', v_pass.apple_issued_at IS NOT NULL,
+    'google_object_id', v_pass.google_object_id,
+    'apple_devices', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'pass_type_identifier', d.pass_type_identifier,
+        'push_token', d.push_token
+      ))
+      FROM wallet_pass_devices d
+      WHERE d.ticket_instance_id = _ticket_instance_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.touch_wallet_pass(UUID) IS
+  'F025: System: bump the wallet pass version after a change and return Apple push tokens / Google object id.';
+
+REVOKE ALL ON FUNCTION public.touch_wallet_pass(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.touch_wallet_pass(UUID) TO service_role;
+
+-- ===========================================================================
+-- 6. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'wallet_passes') THEN
+    RAISE EXCEPTION 'wallet_passes table not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'wallet_pass_devices') THEN
+    RAISE EXCEPTION 'wallet_pass_devices table not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_wallet_pass_data') THEN
+    RAISE EXCEPTION 'get_wallet_pass_data not created';
+  END IF;
+  RAISE NOTICE 'F025: Wallet passes created successfully';
+END $$;
@@ -0,0 +1,301 @@
+-- ===========================================================================
+-- F026: Ticket PDFs
+-- Migration: 20250129210000_f026_ticket_pdfs.sql
+--
+-- Purpose:
+-- - PDF per ticket en per order, gerenderd door de ticket-pdf edge function
+--   (banner uit ticket_pdf, QR, tijdslot, deelnemervelden via
+--   sanitize_ticket_data)
+-- - are_tickets_available las available_from op het verkeerde pad
+--   (setting_value->'ticket_pdf'); nu via resolve_event_setting
+-- - email_outbox.attachments: bijlagen die process-outbox bij verzending
+--   rendert; de orderbevestiging krijgt automatisch de ticket PDF
+-- - get_ticket_pdf_data: alles wat op de PDF komt (service role)
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. FIX: are_tickets_available
+-- ===========================================================================
+-- setting_value bevat de domeinwaarde zelf ({"available_from": ...}), niet
+-- {"ticket_pdf": {...}}. Het oude pad gaf altijd NULL, dus tickets waren
+-- altijd beschikbaar. Het oude pad blijft als fallback voor bestaande rijen.
+-- Ongeldige datum = blokkeren (ongewijzigd).
+
+CREATE OR REPLACE FUNCTION public.are_tickets_available(_event_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _setting jsonb;
+    _val text;
+    _available_from timestamptz;
+BEGIN
+    _setting := public.resolve_event_setting(_event_id, 'ticket_pdf');
+    _val := COALESCE(_setting->>'available_from', _setting->'ticket_pdf'->>'available_from');
+
+    -- NULL = Always Available (Backward Compatible)
+    IF _val IS NULL OR _val = '' THEN
+        RETURN true;
+    END IF;
+
+    BEGIN
+        _available_from := _val::timestamptz;
+    EXCEPTION WHEN OTHERS THEN
+        RETURN false; -- Invalid date = block
+    END;
+
+    RETURN now() >= _available_from;
+END;
+$$;
+
+COMMENT ON FUNCTION public.are_tickets_available IS
+  'Returns true if tickets are available (delivery/pdf) based on ticket_pdf.available_from (event > org). NULL means available.';
+
+-- ===========================================================================
+-- 2. COLUMN: email_outbox.attachments
+-- ===========================================================================
+-- Beschrijvingen, geen bestanden: process-outbox rendert ze bij verzending
+-- zodat de PDF de actuele status heeft. Vorm: [{"type": "ticket_pdf",
+-- "order_id": "..."}].
+
+ALTER TABLE public.email_outbox
+  ADD COLUMN IF NOT EXISTS attachments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.email_outbox
+  DROP CONSTRAINT IF EXISTS email_outbox_attachments_array;
+ALTER TABLE public.email_outbox
+  ADD CONSTRAINT email_outbox_attachments_array CHECK (jsonb_typeof(attachments) = 'array');
+
+COMMENT ON COLUMN public.email_outbox.attachments IS
+  'F026: Attachment descriptors rendered at send time by process-outbox, e.g. [{"type":"ticket_pdf","order_id":"..."}].';
+
+-- ===========================================================================
+-- 3. TRIGGER: attach_ticket_pdf_to_confirmation
+-- ===========================================================================
+-- De orderbevestiging wordt in sync_registration_on_order_paid via
+-- queue_email gequeued (template 'order_confirmation' in metadata). Hier
+-- komt de ticket PDF erbij, zonder die trigger opnieuw te definiëren.
+
+CREATE OR REPLACE FUNCTION public.attach_ticket_pdf_to_confirmation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.metadata->>'template' = 'order_confirmation'
+     AND COALESCE(NEW.metadata->>'order_id', '') <> ''
+     AND NOT EXISTS (
+       SELECT 1 FROM jsonb_array_elements(NEW.attachments) a
+       WHERE a->>'type' = 'ticket_pdf'
+     ) THEN
+    NEW.attachments := NEW.attachments || jsonb_build_array(jsonb_build_object(
+      'type', 'ticket_pdf',
+      'order_id', NEW.metadata->>'order_id'
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS attach_ticket_pdf_to_confirmation ON public.email_outbox;
+CREATE TRIGGER attach_ticket_pdf_to_confirmation
+  BEFORE INSERT ON public.email_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION public.attach_ticket_pdf_to_confirmation();
+
+COMMENT ON FUNCTION public.attach_ticket_pdf_to_confirmation() IS
+  'F026: Adds the ticket PDF attachment to order confirmation emails.';
+
+-- ===========================================================================
+-- 4. RPC: get_ticket_pdf_data (service role)
+-- ===========================================================================
+-- Eén ticket (_ticket_instance_id) of alle tickets van een order
+-- (_order_id). In de order-PDF ontbreken tickets die zijn overgedragen; de
+-- houder bepalen we zoals get_wallet_pass_data (transfer > deelnemer >
+-- eigenaar). Persoonsgegevens gaan door sanitize_ticket_data. Toegang
+-- (eigenaar / public token) checkt de edge function.
+
+CREATE OR REPLACE FUNCTION public.get_ticket_pdf_data(
+  _order_id UUID DEFAULT NULL,
+  _ticket_instance_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_event RECORD;
+  v_ticket RECORD;
+  v_ticket_pdf JSONB;
+  v_banner JSONB;
+  v_participant RECORD;
+  v_tickets JSONB := '[]'::jsonb;
+BEGIN
+  IF (_order_id IS NULL) = (_ticket_instance_id IS NULL) THEN
+    RETURN jsonb_build_object('error', 'ORDER_OR_TICKET_REQUIRED');
+  END IF;
+
+  IF _ticket_instance_id IS NOT NULL THEN
+    SELECT order_id INTO _order_id
+    FROM ticket_instances
+    WHERE id = _ticket_instance_id AND deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('error', 'TICKET_NOT_FOUND');
+    END IF;
+  END IF;
+
+  SELECT o.id, o.event_id, o.user_id, o.email, o.status
+  INTO v_order
+  FROM orders o
+  WHERE o.id = _order_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND');
+  END IF;
+
+  SELECT e.id, e.org_id, e.name, e.slug, e.start_time, e.end_time, e.location_name,
+         org.name AS org_name
+  INTO v_event
+  FROM events e
+  JOIN orgs org ON org.id = e.org_id
+  WHERE e.id = v_order.event_id;
+
+  FOR v_ticket IN
+    SELECT
+      ti.id, ti.qr_code, ti.status, ti.owner_user_id, ti.participant_id,
+      tt.name AS ticket_name,
+      ts.label AS slot_label, ts.slot_time, ts.slot_date,
+      tr.to_participant_id AS transfer_participant_id
+    FROM ticket_instances ti
+    JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+    LEFT JOIN ticket_time_slots ts ON ts.id = ti.time_slot_id
+    LEFT JOIN LATERAL (
+      SELECT t.to_participant_id
+      FROM ticket_transfers t
+      WHERE t.ticket_instance_id = ti.id
+        AND t.status = 'accepted'
+        AND t.to_participant_id IS NOT NULL
+      ORDER BY t.accepted_at DESC
+      LIMIT 1
+    ) tr ON true
+    WHERE ti.order_id = _order_id
+      AND ti.deleted_at IS NULL
+      AND (_ticket_instance_id IS NULL OR ti.id = _ticket_instance_id)
+    ORDER BY tt.name, ti.id
+  LOOP
+    -- Order-PDF: overgedragen en ongeldige tickets horen niet meer bij de koper
+    CONTINUE WHEN _ticket_instance_id IS NULL
+      AND (v_ticket.transfer_participant_id IS NOT NULL OR v_ticket.status = 'void');
+
+    SELECT p.* INTO v_participant
+    FROM participants p
+    WHERE p.id = COALESCE(
+      v_ticket.transfer_participant_id,
+      v_ticket.participant_id,
+      (SELECT id FROM participants
+       WHERE user_id = v_ticket.owner_user_id AND v_ticket.owner_user_id IS NOT NULL
+       ORDER BY created_at DESC
+       LIMIT 1)
+    );
+
+    v_tickets := v_tickets || jsonb_build_array(jsonb_build_object(
+      'id', v_ticket.id,
+      'qr_code', v_ticket.qr_code,
+      'status', v_ticket.status,
+      'owner_user_id', v_ticket.owner_user_id,
+      'name', v_ticket.ticket_name,
+      'time_slot', CASE WHEN v_ticket.slot_time IS NOT NULL THEN jsonb_build_object(
+        'label', v_ticket.slot_label,
+        'slot_time', v_ticket.slot_time,
+        'slot_date', v_ticket.slot_date
+      ) END,
+      'transferred', v_ticket.transfer_participant_id IS NOT NULL,
+      'holder', CASE WHEN v_participant.id IS NOT NULL THEN
+        public.sanitize_ticket_data(v_event.id, jsonb_strip_nulls(jsonb_build_object(
+          'name', NULLIF(trim(v_participant.first_name || ' ' || v_participant.last_name), ''),
+          'email', v_participant.email,
+          'birthdate', v_participant.birth_date,
+          'gender', v_participant.gender,
+          'phone', v_participant.phone,
+          'address', NULLIF(concat_ws(', ', v_participant.address, v_participant.city), '')
+        )))
+        ELSE '{}'::jsonb END
+    ));
+  END LOOP;
+
+  IF _ticket_instance_id IS NOT NULL AND jsonb_array_length(v_tickets) = 0 THEN
+    RETURN jsonb_build_object('error', 'TICKET_NOT_FOUND');
+  END IF;
+
+  -- Banner: alleen als het storage object bestaat
+  v_ticket_pdf := public.resolve_event_setting(v_event.id, 'ticket_pdf');
+  IF COALESCE(v_ticket_pdf->>'banner_image_id', '') <> '' THEN
+    SELECT jsonb_build_object(
+      'bucket_id', so.bucket_id,
+      'path', so.name,
+      'mimetype', so.metadata->>'mimetype'
+    ) INTO v_banner
+    FROM storage.objects so
+    WHERE so.id = (v_ticket_pdf->>'banner_image_id')::UUID;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'order', jsonb_build_object(
+      'id', v_order.id,
+      'user_id', v_order.user_id,
+      'email', v_order.email,
+      'status', v_order.status
+    ),
+    'event', jsonb_build_object(
+      'id', v_event.id,
+      'org_id', v_event.org_id,
+      'name', v_event.name,
+      'slug', v_event.slug,
+      'start_time', v_event.start_time,
+      'end_time', v_event.end_time,
+      'location_name', v_event.location_name,
+      'org_name', v_event.org_name
+    ),
+    'tickets', v_tickets,
+    'banner', v_banner,
+    'available_from', NULLIF(v_ticket_pdf->>'available_from', ''),
+    'tickets_available', public.are_tickets_available(v_event.id)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_ticket_pdf_data(UUID, UUID) IS
+  'F026: System: event, banner and privacy-filtered ticket data for the ticket PDF (one ticket or a whole order).';
+
+REVOKE ALL ON FUNCTION public.get_ticket_pdf_data(UUID, UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_ticket_pdf_data(UUID, UUID) TO service_role;
+
+-- ===========================================================================
+-- 5. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'email_outbox' AND column_name = 'attachments'
+  ) THEN
+    RAISE EXCEPTION 'email_outbox.attachments not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'attach_ticket_pdf_to_confirmation') THEN
+    RAISE EXCEPTION 'attach_ticket_pdf_to_confirmation trigger not created';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_ticket_pdf_data') THEN
+    RAISE EXCEPTION 'get_ticket_pdf_data not created';
+  END IF;
+  RAISE NOTICE 'F026: Ticket PDFs created successfully';
+END $$;
@@ -0,0 +1,1327 @@
+-- ===========================================================================
+-- F027: Partial Ticket Refunds
+-- Migration: 20250129220000_f027_partial_refunds.sql
+--
+-- Purpose:
+-- - Support kan per ticket instance terugbetalen (refund_items met
+--   ticket_instance_id); het bedrag per ticket is het nettobedrag van de
+--   orderregel na korting, verdeeld zoals F020 kortingen toerekent
+-- - void_tickets_for_refund voidt precies die tickets en geeft de plekken
+--   terug (order_items.refunded_quantity telt niet meer mee in de capaciteit
+--   van ticket_types en time slots)
+-- - get_order_refund_summary toont per order de tickets en een refund
+--   ledger met de terugbetaalde tickets
+-- - Fix: void_tickets_for_refund gebruikte niet bestaande statussen
+--   ('voided'/'valid') en kolommen; handle_refund_webhook schreef naar niet
+--   bestaande email_outbox kolommen
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. COLUMNS: voided_at / voided_reason / refunded_quantity
+-- ===========================================================================
+
+ALTER TABLE ticket_instances
+  ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS voided_reason TEXT;
+
+COMMENT ON COLUMN ticket_instances.voided_at IS 'When the ticket was voided (refund)';
+COMMENT ON COLUMN ticket_instances.voided_reason IS 'Why the ticket was voided, e.g. "Refund: <refund_id>"';
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS refunded_quantity INT NOT NULL DEFAULT 0;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'order_items_refunded_quantity_check') THEN
+    ALTER TABLE order_items
+      ADD CONSTRAINT order_items_refunded_quantity_check
+      CHECK (refunded_quantity >= 0 AND refunded_quantity <= quantity);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN order_items.refunded_quantity IS
+  'Tickets of this line voided by a completed ticket refund; no longer counted in ticket type / time slot capacity';
+
+-- ===========================================================================
+-- 2. CONSTRAINT: refund_items per ticket instance
+-- ===========================================================================
+-- UNIQUE(refund_id, order_item_id) liet maar één regel per orderregel toe;
+-- bij een ticket refund krijgt elk ticket een eigen regel (quantity 1).
+
+ALTER TABLE refund_items
+  DROP CONSTRAINT IF EXISTS refund_items_refund_id_order_item_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refund_items_refund_ticket
+  ON refund_items(refund_id, ticket_instance_id)
+  WHERE ticket_instance_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refund_items_refund_order_item
+  ON refund_items(refund_id, order_item_id)
+  WHERE ticket_instance_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_refund_items_ticket_instance
+  ON refund_items(ticket_instance_id)
+  WHERE ticket_instance_id IS NOT NULL;
+
+-- ===========================================================================
+-- 3. HELPER: get_order_item_net_amounts (service role)
+-- ===========================================================================
+-- Nettobedrag per orderregel = total_price - regelkorting - aandeel in de
+-- orderkorting (pro rata op total_price). Zelfde toerekening als
+-- finance_report_lines (F020), zodat refund en rapportage gelijk lopen.
+
+CREATE OR REPLACE FUNCTION public.get_order_item_net_amounts(_order_id UUID)
+RETURNS TABLE (
+  order_item_id UUID,
+  quantity INT,
+  total_price NUMERIC,
+  discount NUMERIC,
+  net_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH items AS (
+    SELECT
+      oi.id,
+      oi.quantity,
+      oi.total_price,
+      o.discount_amount AS order_discount_amount,
+      SUM(oi.total_price) OVER () AS order_items_total
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.order_id = _order_id
+  ),
+  item_discounts AS (
+    SELECT da.order_item_id, SUM(da.discount_amount) AS amount
+    FROM discount_applications da
+    WHERE da.order_id = _order_id
+      AND da.order_item_id IS NOT NULL
+    GROUP BY da.order_item_id
+  ),
+  order_discount AS (
+    SELECT SUM(da.discount_amount) AS amount
+    FROM discount_applications da
+    WHERE da.order_id = _order_id
+      AND da.order_item_id IS NULL
+  ),
+  allocated AS (
+    SELECT
+      i.id,
+      i.quantity,
+      i.total_price,
+      COALESCE(idc.amount, 0)
+        + CASE WHEN i.order_items_total > 0
+            THEN ROUND(COALESCE(od.amount, i.order_discount_amount, 0) * i.total_price / i.order_items_total, 2)
+            ELSE 0
+          END AS discount
+    FROM items i
+    CROSS JOIN order_discount od
+    LEFT JOIN item_discounts idc ON idc.order_item_id = i.id
+  )
+  SELECT a.id, a.quantity, a.total_price, a.discount, GREATEST(a.total_price - a.discount, 0)
+  FROM allocated a;
+$$;
+
+COMMENT ON FUNCTION public.get_order_item_net_amounts(UUID) IS
+  'F027: Internal - net amount per order item after item and pro rata order discounts (same allocation as finance_report_lines).';
+
+REVOKE ALL ON FUNCTION public.get_order_item_net_amounts(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_order_item_net_amounts(UUID) TO service_role;
+
+-- ===========================================================================
+-- 4. RPC: calculate_ticket_refund (service role)
+-- ===========================================================================
+-- Bedrag per gekozen ticket. Het nettobedrag van een regel wordt cumulatief
+-- afgerond over de tickets (ticket k van n krijgt round(net*k/n) -
+-- round(net*(k-1)/n)), zodat alle tickets van een regel samen exact het
+-- nettobedrag opleveren, ook over meerdere refunds heen.
+
+CREATE OR REPLACE FUNCTION public.calculate_ticket_refund(
+  _order_id UUID,
+  _ticket_instance_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_ids UUID[];
+  v_found INT;
+  v_line RECORD;
+  v_position INT;
+  v_ticket_cents INT;
+  v_items JSONB := '[]'::jsonb;
+  v_total_cents INT := 0;
+  v_refundable_cents INT;
+  v_open_tickets INT;
+BEGIN
+  SELECT o.id, o.status, o.total_amount
+  INTO v_order
+  FROM orders o
+  WHERE o.id = _order_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND');
+  END IF;
+
+  IF v_order.status != 'paid' THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_PAID', 'status', v_order.status);
+  END IF;
+
+  v_ids := ARRAY(SELECT DISTINCT unnest(COALESCE(_ticket_instance_ids, '{}'::UUID[])));
+
+  IF cardinality(v_ids) = 0 THEN
+    RETURN jsonb_build_object('error', 'NO_TICKETS_SELECTED');
+  END IF;
+
+  SELECT COUNT(*) INTO v_found
+  FROM ticket_instances ti
+  WHERE ti.id = ANY(v_ids)
+    AND ti.order_id = _order_id
+    AND ti.order_item_id IS NOT NULL
+    AND ti.deleted_at IS NULL;
+
+  IF v_found != cardinality(v_ids) THEN
+    RETURN jsonb_build_object('error', 'TICKET_NOT_IN_ORDER');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ticket_instances ti
+    WHERE ti.id = ANY(v_ids) AND ti.status = 'void'
+  ) THEN
+    RETURN jsonb_build_object('error', 'TICKET_ALREADY_VOID');
+  END IF;
+
+  -- Ticket zit al in een lopende of voltooide refund
+  IF EXISTS (
+    SELECT 1
+    FROM refund_items ri
+    JOIN refunds r ON r.id = ri.refund_id
+    WHERE ri.ticket_instance_id = ANY(v_ids)
+      AND r.status NOT IN ('failed', 'canceled')
+  ) THEN
+    RETURN jsonb_build_object('error', 'TICKET_ALREADY_REFUNDED');
+  END IF;
+
+  FOR v_line IN
+    SELECT
+      n.order_item_id,
+      n.quantity,
+      ROUND(n.net_amount * 100)::INT AS net_cents,
+      (
+        SELECT COUNT(*)
+        FROM refund_items ri
+        JOIN refunds r ON r.id = ri.refund_id
+        WHERE ri.order_item_id = n.order_item_id
+          AND ri.ticket_instance_id IS NOT NULL
+          AND r.status NOT IN ('failed', 'canceled')
+      )::INT AS prev_count,
+      array_agg(ti.id ORDER BY ti.id) AS ticket_ids
+    FROM public.get_order_item_net_amounts(_order_id) n
+    JOIN ticket_instances ti ON ti.order_item_id = n.order_item_id
+    WHERE ti.id = ANY(v_ids)
+    GROUP BY n.order_item_id, n.quantity, n.net_amount
+  LOOP
+    FOR v_position IN 1..cardinality(v_line.ticket_ids) LOOP
+      v_ticket_cents :=
+        ROUND(v_line.net_cents::NUMERIC * LEAST(v_line.prev_count + v_position, v_line.quantity) / v_line.quantity)::INT
+        - ROUND(v_line.net_cents::NUMERIC * LEAST(v_line.prev_count + v_position - 1, v_line.quantity) / v_line.quantity)::INT;
+
+      v_items := v_items || jsonb_build_array(jsonb_build_object(
+        'ticket_instance_id', (v_line.ticket_ids)[v_position],
+        'order_item_id', v_line.order_item_id,
+        'amount_cents', v_ticket_cents
+      ));
+      v_total_cents := v_total_cents + v_ticket_cents;
+    END LOOP;
+  END LOOP;
+
+  -- Zelfde berekening als get_order_refund_summary / create-refund
+  SELECT ROUND(v_order.total_amount * 100)::INT - COALESCE(SUM(r.amount_cents), 0)::INT
+  INTO v_refundable_cents
+  FROM refunds r
+  WHERE r.order_id = _order_id
+    AND r.status IN ('pending', 'queued', 'processing', 'refunded');
+
+  IF v_total_cents > v_refundable_cents THEN
+    RETURN jsonb_build_object(
+      'error', 'EXCEEDS_REFUNDABLE',
+      'amount_cents', v_total_cents,
+      'remaining_refundable_cents', v_refundable_cents
+    );
+  END IF;
+
+  -- Overige tickets die nog niet void of terugbetaald zijn
+  SELECT COUNT(*) INTO v_open_tickets
+  FROM ticket_instances ti
+  WHERE ti.order_id = _order_id
+    AND ti.deleted_at IS NULL
+    AND ti.status != 'void'
+    AND NOT (ti.id = ANY(v_ids))
+    AND NOT EXISTS (
+      SELECT 1
+      FROM refund_items ri
+      JOIN refunds r ON r.id = ri.refund_id
+      WHERE ri.ticket_instance_id = ti.id
+        AND r.status NOT IN ('failed', 'canceled')
+    );
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'amount_cents', v_total_cents,
+    'remaining_refundable_cents', v_refundable_cents,
+    'is_full_refund', v_open_tickets = 0 AND v_total_cents = v_refundable_cents,
+    'items', v_items
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.calculate_ticket_refund(UUID, UUID[]) IS
+  'F027: Internal - refund amount per selected ticket instance (net after discounts, cumulative rounding per order item).';
+
+REVOKE ALL ON FUNCTION public.calculate_ticket_refund(UUID, UUID[]) FROM public;
+GRANT EXECUTE ON FUNCTION public.calculate_ticket_refund(UUID, UUID[]) TO service_role;
+
+-- ===========================================================================
+-- 5. RPC: preview_ticket_refund (owner, admin)
+-- ===========================================================================
+-- Bedrag tonen in de refund dialog voordat support bevestigt.
+
+CREATE OR REPLACE FUNCTION public.preview_ticket_refund(
+  _order_id UUID,
+  _ticket_instance_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM orders o
+    JOIN org_members om ON om.org_id = o.org_id
+      AND om.user_id = auth.uid()
+      AND om.role IN ('owner', 'admin')
+    WHERE o.id = _order_id
+  ) THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND_OR_UNAUTHORIZED');
+  END IF;
+
+  RETURN public.calculate_ticket_refund(_order_id, _ticket_instance_ids);
+END;
+$$;
+
+COMMENT ON FUNCTION public.preview_ticket_refund(UUID, UUID[]) IS
+  'F027: Refund amount for the selected tickets of an order (owner/admin), without creating a refund.';
+
+GRANT EXECUTE ON FUNCTION public.preview_ticket_refund(UUID, UUID[]) TO authenticated;
+
+-- ===========================================================================
+-- 6. RPC: get_order_refund_summary (EXTENDED)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F009 behalve:
+-- - ook voor terugbetaalde orders (ledger blijft zichtbaar, can_refund false)
+-- - tickets[]: per ticket instance status en lopende/voltooide refund
+-- - refunds[] bevat is_full_refund, tickets_voided en items (per ticket)
+
+CREATE OR REPLACE FUNCTION public.get_order_refund_summary(_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_order RECORD;
+    v_user_id UUID;
+    v_total_paid_cents INTEGER;
+    v_total_refunded_cents INTEGER;
+    v_pending_refunds_cents INTEGER;
+    v_refundable_cents INTEGER;
+    v_refunds JSONB;
+    v_tickets JSONB;
+BEGIN
+    -- Get current user
+    v_user_id := auth.uid();
+
+    -- Get order with permission check
+    SELECT o.id, o.org_id, o.status, o.total_amount,
+           p.id as payment_id, p.provider_payment_id, p.status as payment_status
+    INTO v_order
+    FROM orders o
+    LEFT JOIN payments p ON p.order_id = o.id AND p.status = 'paid'
+    JOIN org_members om ON om.org_id = o.org_id
+        AND om.user_id = v_user_id
+        AND om.role IN ('owner', 'admin')
+    WHERE o.id = _order_id;
+
+    IF v_order.id IS NULL THEN
+        RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND_OR_UNAUTHORIZED');
+    END IF;
+
+    IF v_order.status NOT IN ('paid', 'refunded') THEN
+        RETURN jsonb_build_object('error', 'ORDER_NOT_PAID', 'status', v_order.status);
+    END IF;
+
+    -- Calculate amounts
+    v_total_paid_cents := ROUND(v_order.total_amount * 100)::INTEGER;
+
+    -- Get completed refunds
+    SELECT COALESCE(SUM(amount_cents), 0)::INTEGER INTO v_total_refunded_cents
+    FROM refunds
+    WHERE order_id = _order_id AND status = 'refunded';
+
+    -- Get pending refunds (not yet completed)
+    SELECT COALESCE(SUM(amount_cents), 0)::INTEGER INTO v_pending_refunds_cents
+    FROM refunds
+    WHERE order_id = _order_id AND status IN ('pending', 'queued', 'processing');
+
+    -- Calculate refundable
+    v_refundable_cents := v_total_paid_cents - v_total_refunded_cents - v_pending_refunds_cents;
+
+    -- Get refund history (ledger)
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'amount_cents', r.amount_cents,
+        'status', r.status,
+        'reason', r.reason,
+        'is_full_refund', r.is_full_refund,
+        'tickets_voided', r.tickets_voided,
+        'created_at', r.created_at,
+        'refunded_at', r.refunded_at,
+        'mollie_refund_id', r.mollie_refund_id,
+        'items', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'ticket_instance_id', ri.ticket_instance_id,
+                'order_item_id', ri.order_item_id,
+                'ticket_name', tt.name,
+                'quantity', ri.quantity,
+                'amount_cents', ri.amount_cents
+            ) ORDER BY tt.name, ri.ticket_instance_id)
+            FROM refund_items ri
+            LEFT JOIN order_items oi ON oi.id = ri.order_item_id
+            LEFT JOIN ticket_types tt ON tt.id = oi.ticket_type_id
+            WHERE ri.refund_id = r.id
+        ), '[]'::jsonb)
+    ) ORDER BY r.created_at DESC), '[]'::jsonb)
+    INTO v_refunds
+    FROM refunds r
+    WHERE r.order_id = _order_id;
+
+    -- Tickets met hun refund status
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', ti.id,
+        'order_item_id', ti.order_item_id,
+        'ticket_type_id', ti.ticket_type_id,
+        'ticket_name', tt.name,
+        'time_slot_label', COALESCE(ts.label, left(ts.slot_time::TEXT, 5)),
+        'participant_name', NULLIF(TRIM(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')), ''),
+        'status', ti.status,
+        'voided_at', ti.voided_at,
+        'refund_id', ar.refund_id,
+        'refund_status', ar.status,
+        'can_refund', v_order.status = 'paid'
+            AND ti.status != 'void'
+            AND ti.order_item_id IS NOT NULL
+            AND ar.refund_id IS NULL
+    ) ORDER BY tt.name, ti.id), '[]'::jsonb)
+    INTO v_tickets
+    FROM ticket_instances ti
+    LEFT JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+    LEFT JOIN ticket_time_slots ts ON ts.id = ti.time_slot_id
+    LEFT JOIN participants p ON p.id = ti.participant_id
+    LEFT JOIN LATERAL (
+        SELECT r.id AS refund_id, r.status
+        FROM refund_items ri
+        JOIN refunds r ON r.id = ri.refund_id
+        WHERE ri.ticket_instance_id = ti.id
+          AND r.status NOT IN ('failed', 'canceled')
+        ORDER BY r.created_at DESC
+        LIMIT 1
+    ) ar ON true
+    WHERE ti.order_id = _order_id
+      AND ti.deleted_at IS NULL;
+
+    RETURN jsonb_build_object(
+        'order_id', _order_id,
+        'order_status', v_order.status,
+        'payment_id', v_order.payment_id,
+        'mollie_payment_id', v_order.provider_payment_id,
+        'total_paid_cents', v_total_paid_cents,
+        'total_refunded_cents', v_total_refunded_cents,
+        'pending_refunds_cents', v_pending_refunds_cents,
+        'refundable_cents', v_refundable_cents,
+        'can_refund', v_order.status = 'paid' AND v_refundable_cents > 0,
+        'refunds', v_refunds,
+        'tickets', v_tickets
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_order_refund_summary(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 7. FUNCTION: void_tickets_for_refund (EXTENDED)
+-- ===========================================================================
+-- Refund met ticket items: precies die tickets void, refunded_quantity van
+-- hun orderregels bijwerken en die tickettypes aan de wachtlijst aanbieden.
+-- De order wordt pas 'refunded' als er geen geldige tickets meer over zijn.
+-- Volledige refund zonder items: ongewijzigd t.o.v. F016.
+-- Bedrag-only deelrefund: geen tickets (ongewijzigd).
+-- Fix: ticket_instance_status kent alleen 'issued'/'void'/'checked_in'.
+
+CREATE OR REPLACE FUNCTION public.void_tickets_for_refund(_refund_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_refund RECORD;
+    v_has_items BOOLEAN;
+    v_voided_count INTEGER := 0;
+    v_ticket_type_id UUID;
+    v_offers_created INTEGER := 0;
+BEGIN
+    -- Get refund
+    SELECT r.*, o.org_id
+    INTO v_refund
+    FROM refunds r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.id = _refund_id;
+
+    IF v_refund.id IS NULL THEN
+        RETURN jsonb_build_object('error', 'REFUND_NOT_FOUND');
+    END IF;
+
+    -- Only void for completed refunds
+    IF v_refund.status != 'refunded' THEN
+        RETURN jsonb_build_object('error', 'REFUND_NOT_COMPLETED', 'status', v_refund.status);
+    END IF;
+
+    IF v_refund.tickets_voided THEN
+        RETURN jsonb_build_object('success', true, 'voided_count', 0, 'reason', 'ALREADY_VOIDED');
+    END IF;
+
+    SELECT EXISTS (
+        SELECT 1 FROM refund_items ri
+        WHERE ri.refund_id = _refund_id
+          AND ri.ticket_instance_id IS NOT NULL
+    ) INTO v_has_items;
+
+    IF NOT v_refund.is_full_refund AND NOT v_has_items THEN
+        RETURN jsonb_build_object('success', true, 'voided_count', 0, 'reason', 'PARTIAL_REFUND');
+    END IF;
+
+    IF v_has_items THEN
+        -- Void exactly the refunded tickets
+        UPDATE ticket_instances ti
+        SET status = 'void',
+            voided_at = NOW(),
+            voided_reason = 'Refund: ' || _refund_id::TEXT
+        FROM refund_items ri
+        WHERE ri.refund_id = _refund_id
+          AND ri.ticket_instance_id = ti.id
+          AND ti.status != 'void';
+
+        GET DIAGNOSTICS v_voided_count = ROW_COUNT;
+
+        -- Plekken terug naar ticket_types en time slots
+        UPDATE order_items oi
+        SET refunded_quantity = LEAST(oi.quantity, t.refunded)
+        FROM (
+            SELECT ri.order_item_id, COUNT(DISTINCT ri.ticket_instance_id)::INT AS refunded
+            FROM refund_items ri
+            JOIN refunds r ON r.id = ri.refund_id
+            WHERE r.order_id = v_refund.order_id
+              AND r.status = 'refunded'
+              AND ri.ticket_instance_id IS NOT NULL
+            GROUP BY ri.order_item_id
+        ) t
+        WHERE oi.id = t.order_item_id;
+
+        -- Laatste geldige ticket terugbetaald: order telt niet meer mee
+        UPDATE orders o
+        SET status = 'refunded',
+            updated_at = NOW()
+        WHERE o.id = v_refund.order_id
+          AND o.status = 'paid'
+          AND NOT EXISTS (
+              SELECT 1 FROM ticket_instances ti
+              WHERE ti.order_id = o.id
+                AND ti.deleted_at IS NULL
+                AND ti.status != 'void'
+          );
+    ELSE
+        -- Void all tickets for this order
+        UPDATE ticket_instances
+        SET status = 'void',
+            voided_at = NOW(),
+            voided_reason = 'Full refund: ' || _refund_id::TEXT
+        WHERE order_id = v_refund.order_id
+          AND status = 'issued';
+
+        GET DIAGNOSTICS v_voided_count = ROW_COUNT;
+
+        -- Order telt niet meer mee in de capaciteit
+        UPDATE orders
+        SET status = 'refunded',
+            updated_at = NOW()
+        WHERE id = v_refund.order_id
+          AND status = 'paid';
+    END IF;
+
+    -- Mark refund as tickets voided
+    UPDATE refunds
+    SET tickets_voided = true
+    WHERE id = _refund_id;
+
+    -- Vrijgekomen plekken naar de wachtlijst
+    FOR v_ticket_type_id IN
+        SELECT DISTINCT oi.ticket_type_id
+        FROM order_items oi
+        WHERE oi.order_id = v_refund.order_id
+          AND oi.ticket_type_id IS NOT NULL
+          AND (
+              NOT v_has_items
+              OR EXISTS (
+                  SELECT 1 FROM refund_items ri
+                  WHERE ri.refund_id = _refund_id
+                    AND ri.order_item_id = oi.id
+              )
+          )
+    LOOP
+        v_offers_created := v_offers_created + public.process_waitlist(v_ticket_type_id);
+    END LOOP;
+
+    -- Audit log
+    INSERT INTO audit_log (org_id, action, resource_type, resource_id, entity_type, entity_id, details)
+    VALUES (
+        v_refund.org_id,
+        'tickets_voided_for_refund',
+        'refund',
+        _refund_id,
+        'refund',
+        _refund_id,
+        jsonb_build_object(
+            'refund_id', _refund_id,
+            'order_id', v_refund.order_id,
+            'ticket_refund', v_has_items,
+            'voided_count', v_voided_count,
+            'waitlist_offers_created', v_offers_created
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'voided_count', v_voided_count,
+        'waitlist_offers_created', v_offers_created,
+        'refund_id', _refund_id
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.void_tickets_for_refund(UUID) TO service_role;
+
+-- ===========================================================================
+-- 8. FUNCTION: handle_refund_webhook (FIX)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F009 behalve:
+-- - void_tickets_for_refund ook voor ticket refunds (deelrefund met items);
+--   bedrag-only deelrefunds blijven een no-op in void_tickets_for_refund
+-- - bevestigingsmail via queue_email (de oude INSERT gebruikte kolommen die
+--   email_outbox niet heeft)
+
+CREATE OR REPLACE FUNCTION public.handle_refund_webhook(
+    _mollie_refund_id TEXT,
+    _status TEXT,
+    _refunded_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_refund RECORD;
+    v_new_status refund_status;
+    v_void_result JSONB;
+    v_amount TEXT;
+BEGIN
+    -- Find refund by Mollie ID
+    SELECT r.*, o.org_id, o.event_id, o.email as order_email, e.name as event_name
+    INTO v_refund
+    FROM refunds r
+    JOIN orders o ON o.id = r.order_id
+    LEFT JOIN events e ON e.id = o.event_id
+    WHERE r.mollie_refund_id = _mollie_refund_id;
+
+    IF v_refund.id IS NULL THEN
+        RETURN jsonb_build_object('error', 'REFUND_NOT_FOUND');
+    END IF;
+
+    -- Map Mollie status to our status
+    v_new_status := CASE _status
+        WHEN 'queued' THEN 'queued'::refund_status
+        WHEN 'pending' THEN 'processing'::refund_status
+        WHEN 'processing' THEN 'processing'::refund_status
+        WHEN 'refunded' THEN 'refunded'::refund_status
+        WHEN 'failed' THEN 'failed'::refund_status
+        WHEN 'canceled' THEN 'canceled'::refund_status
+        ELSE 'processing'::refund_status
+    END;
+
+    -- Update refund status
+    UPDATE refunds
+    SET status = v_new_status,
+        refunded_at = CASE WHEN v_new_status = 'refunded' THEN COALESCE(_refunded_at, NOW()) ELSE refunded_at END
+    WHERE id = v_refund.id;
+
+    -- If refunded, void tickets (full refund or refunded ticket items)
+    IF v_new_status = 'refunded' THEN
+        v_void_result := void_tickets_for_refund(v_refund.id);
+    END IF;
+
+    -- Queue email notification for completed refund
+    IF v_new_status = 'refunded' AND NOT v_refund.email_sent THEN
+        v_amount := to_char(v_refund.amount_cents / 100.0, 'FM999999990.00');
+
+        PERFORM public.queue_email(
+            _org_id => v_refund.org_id,
+            _event_id => v_refund.event_id,
+            _idempotency_key => 'refund_confirmation:' || v_refund.id::TEXT,
+            _to_email => v_refund.order_email,
+            _subject => 'Je terugbetaling voor ' || COALESCE(v_refund.event_name, 'je bestelling') || ' is verwerkt',
+            _html_body =>
+                '<p>We hebben € ' || v_amount || ' teruggestort voor je bestelling'
+                || COALESCE(' voor <strong>' || v_refund.event_name || '</strong>', '') || '.</p>'
+                || CASE WHEN (v_void_result->>'voided_count')::INTEGER > 0
+                    THEN '<p>' || (v_void_result->>'voided_count') || ' ticket(s) zijn hierdoor ongeldig geworden.</p>'
+                    ELSE ''
+                   END
+                || '<p>Het kan enkele werkdagen duren voordat het bedrag op je rekening staat.</p>',
+            _text_body =>
+                'We hebben € ' || v_amount || ' teruggestort voor je bestelling'
+                || COALESCE(' voor ' || v_refund.event_name, '') || '. '
+                || 'Het kan enkele werkdagen duren voordat het bedrag op je rekening staat.',
+            _template_variables => jsonb_build_object(
+                'event_name', v_refund.event_name,
+                'amount', v_amount,
+                'voided_count', COALESCE((v_void_result->>'voided_count')::INTEGER, 0)
+            ),
+            _metadata => jsonb_build_object(
+                'template', 'refund_confirmation',
+                'refund_id', v_refund.id,
+                'order_id', v_refund.order_id,
+                'is_full_refund', v_refund.is_full_refund
+            )
+        );
+
+        UPDATE refunds SET email_sent = true WHERE id = v_refund.id;
+    END IF;
+
+    -- Audit log
+    INSERT INTO audit_log (org_id, action, resource_type, resource_id, entity_type, entity_id, details)
+    VALUES (
+        v_refund.org_id,
+        'refund_status_updated',
+        'refund',
+        v_refund.id,
+        'refund',
+        v_refund.id,
+        jsonb_build_object(
+            'mollie_refund_id', _mollie_refund_id,
+            'old_status', v_refund.status,
+            'new_status', v_new_status,
+            'void_result', v_void_result
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'refund_id', v_refund.id,
+        'old_status', v_refund.status,
+        'new_status', v_new_status,
+        'tickets_voided', COALESCE((v_void_result->>'voided_count')::INTEGER, 0) > 0
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.handle_refund_webhook(TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+
+-- ===========================================================================
+-- 9. HELPER: get_ticket_type_free_capacity (refunded tickets)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F016 behalve: terugbetaalde tickets
+-- (order_items.refunded_quantity) tellen niet meer mee.
+
+CREATE OR REPLACE FUNCTION public.get_ticket_type_free_capacity(
+  _ticket_type_id UUID,
+  _exclude_offer_id UUID DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT tt.capacity_total
+    - COALESCE((
+        SELECT SUM(oi.quantity - oi.refunded_quantity)
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.ticket_type_id = tt.id
+          AND o.status IN ('pending', 'paid')
+      ), 0)::INT
+    - COALESCE((
+        SELECT SUM(wo.quantity)
+        FROM waitlist_offers wo
+        WHERE wo.ticket_type_id = tt.id
+          AND wo.status = 'pending'
+          AND wo.expires_at > NOW()
+          AND (_exclude_offer_id IS NULL OR wo.id != _exclude_offer_id)
+      ), 0)::INT
+  FROM ticket_types tt
+  WHERE tt.id = _ticket_type_id;
+$$;
+
+-- ===========================================================================
+-- 10. HELPER: get_time_slot_free_capacity (refunded tickets)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F018 behalve refunded_quantity.
+
+CREATE OR REPLACE FUNCTION public.get_time_slot_free_capacity(
+  _time_slot_id UUID
+)
+RETURNS INT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ts.capacity
+    - COALESCE((
+        SELECT SUM(oi.quantity - oi.refunded_quantity)
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.time_slot_id = ts.id
+          AND o.status IN ('pending', 'paid')
+      ), 0)::INT
+  FROM ticket_time_slots ts
+  WHERE ts.id = _time_slot_id;
+$$;
+
+-- ===========================================================================
+-- 11. TRIGGER: enforce_time_slot_capacity (refunded tickets)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F018 behalve refunded_quantity.
+
+CREATE OR REPLACE FUNCTION public.enforce_time_slot_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot RECORD;
+  v_taken INT;
+BEGIN
+  -- Lock slot row (wacht op gelijktijdige checkouts voor hetzelfde slot)
+  SELECT ts.id, ts.ticket_type_id, ts.capacity, ts.deleted_at
+  INTO v_slot
+  FROM ticket_time_slots ts
+  WHERE ts.id = NEW.time_slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+     OR v_slot.deleted_at IS NOT NULL
+     OR v_slot.ticket_type_id IS DISTINCT FROM NEW.ticket_type_id THEN
+    RAISE EXCEPTION 'INVALID_TIME_SLOT' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_slot.capacity IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(oi.quantity - oi.refunded_quantity), 0) INTO v_taken
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.time_slot_id = NEW.time_slot_id
+    AND oi.id IS DISTINCT FROM NEW.id
+    AND o.status IN ('pending', 'paid');
+
+  IF v_taken + NEW.quantity - NEW.refunded_quantity > v_slot.capacity THEN
+    RAISE EXCEPTION 'SLOT_FULL' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ===========================================================================
+-- 12. RPC: get_ticket_time_slots (refunded tickets)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F018 behalve refunded_quantity.
+
+CREATE OR REPLACE FUNCTION get_ticket_time_slots(
+  _ticket_type_id UUID
+)
+RETURNS TABLE (
+  id UUID,
+  slot_time TIME,
+  slot_date DATE,
+  label TEXT,
+  capacity INTEGER,
+  sold INTEGER,
+  available INTEGER,
+  sort_order INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ts.id,
+    ts.slot_time,
+    ts.slot_date,
+    ts.label,
+    ts.capacity,
+    COALESCE(
+      (SELECT SUM(oi.quantity - oi.refunded_quantity)::integer FROM order_items oi
+       JOIN orders o ON o.id = oi.order_id
+       WHERE oi.time_slot_id = ts.id
+       AND o.status IN ('pending', 'paid')),
+      0
+    ) as sold,
+    public.get_time_slot_free_capacity(ts.id) as available,
+    ts.sort_order
+  FROM ticket_time_slots ts
+  WHERE ts.ticket_type_id = _ticket_type_id
+  AND ts.deleted_at IS NULL
+  ORDER BY ts.sort_order, ts.slot_time;
+END;
+$$;
+
+-- ===========================================================================
+-- 13. RPC: validate_checkout_capacity (refunded tickets)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F018 behalve: verkochte tickets per tickettype tellen
+-- zonder refunded_quantity.
+
+CREATE OR REPLACE FUNCTION public.validate_checkout_capacity(
+  _event_id UUID,
+  _items JSONB,  -- Array: [{ticket_type_id: uuid, time_slot_id?: uuid, quantity: int} | {product_id: uuid, product_variant_id?: uuid, quantity: int}]
+  _waitlist_offer_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_ticket_type_id UUID;
+  v_product_id UUID;
+  v_variant_id UUID;
+  v_time_slot_id UUID;
+  v_quantity INT;
+  v_ticket_type RECORD;
+  v_slot_label TEXT;
+  v_slot_capacity INT;
+  v_slot_available INT;
+  v_product RECORD;
+  v_variant RECORD;
+  v_has_variants BOOLEAN;
+  v_stock_total INT;
+  v_unit_price NUMERIC(10,2);
+  v_sold_count INT;
+  v_held_count INT;
+  v_available INT;
+  v_details JSONB := '[]'::JSONB;
+  v_is_valid BOOLEAN := TRUE;
+  v_total_price NUMERIC(10,2) := 0;
+BEGIN
+  -- Iterate over requested items
+  FOR v_item IN SELECT jsonb_array_elements(_items)
+  LOOP
+    v_ticket_type_id := (v_item->>'ticket_type_id')::UUID;
+    v_product_id := (v_item->>'product_id')::UUID;
+    v_variant_id := (v_item->>'product_variant_id')::UUID;
+    v_time_slot_id := (v_item->>'time_slot_id')::UUID;
+    v_quantity := (v_item->>'quantity')::INT;
+
+    IF v_quantity < 1 THEN
+      RETURN jsonb_build_object(
+        'valid', false,
+        'error', 'INVALID_QUANTITY',
+        'details', jsonb_build_array(
+          jsonb_build_object(
+            'ticket_type_id', v_ticket_type_id,
+            'product_id', v_product_id,
+            'reason', 'Quantity must be >= 1'
+          )
+        )
+      );
+    END IF;
+
+    -- -----------------------------------------------------------------
+    -- PRODUCT LINE
+    -- -----------------------------------------------------------------
+    IF v_product_id IS NOT NULL THEN
+      SELECT p.id, p.name, p.price, p.status, p.stock_total, p.max_per_order
+      INTO v_product
+      FROM public.products p
+      WHERE p.id = v_product_id
+        AND p.event_id = _event_id
+        AND p.deleted_at IS NULL
+      FOR UPDATE SKIP LOCKED;
+
+      IF NOT FOUND THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'reason', 'Product not found or locked by concurrent request'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      IF v_product.status != 'published' THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_name', v_product.name,
+            'reason', 'Product is not available'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      IF v_product.max_per_order IS NOT NULL AND v_quantity > v_product.max_per_order THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_name', v_product.name,
+            'max_per_order', v_product.max_per_order,
+            'requested', v_quantity,
+            'reason', 'Exceeds max per order'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      SELECT EXISTS (
+        SELECT 1 FROM public.product_variants pv
+        WHERE pv.product_id = v_product_id AND pv.deleted_at IS NULL
+      ) INTO v_has_variants;
+
+      IF v_has_variants THEN
+        -- Variant verplicht als het product varianten heeft
+        SELECT pv.id, pv.name, pv.price_adjustment, pv.stock_total
+        INTO v_variant
+        FROM public.product_variants pv
+        WHERE pv.id = v_variant_id
+          AND pv.product_id = v_product_id
+          AND pv.deleted_at IS NULL
+        FOR UPDATE SKIP LOCKED;
+
+        IF NOT FOUND THEN
+          v_is_valid := FALSE;
+          v_details := v_details || jsonb_build_array(
+            jsonb_build_object(
+              'product_id', v_product_id,
+              'product_variant_id', v_variant_id,
+              'product_name', v_product.name,
+              'reason', 'Variant required, not found or locked by concurrent request'
+            )
+          );
+          CONTINUE;
+        END IF;
+
+        v_stock_total := v_variant.stock_total;
+        v_unit_price := GREATEST(v_product.price + v_variant.price_adjustment, 0);
+
+        SELECT COALESCE(SUM(oi.quantity), 0) INTO v_sold_count
+        FROM public.order_items oi
+        JOIN public.orders o ON oi.order_id = o.id
+        WHERE oi.product_variant_id = v_variant_id
+          AND o.status IN ('pending', 'paid');
+      ELSE
+        IF v_variant_id IS NOT NULL THEN
+          v_is_valid := FALSE;
+          v_details := v_details || jsonb_build_array(
+            jsonb_build_object(
+              'product_id', v_product_id,
+              'product_variant_id', v_variant_id,
+              'reason', 'Product has no variants'
+            )
+          );
+          CONTINUE;
+        END IF;
+
+        v_stock_total := v_product.stock_total;
+        v_unit_price := v_product.price;
+
+        SELECT COALESCE(SUM(oi.quantity), 0) INTO v_sold_count
+        FROM public.order_items oi
+        JOIN public.orders o ON oi.order_id = o.id
+        WHERE oi.product_id = v_product_id
+          AND o.status IN ('pending', 'paid');
+      END IF;
+
+      -- NULL stock = onbeperkt
+      v_available := CASE WHEN v_stock_total IS NULL THEN NULL ELSE v_stock_total - v_sold_count END;
+
+      IF v_available IS NOT NULL AND v_available < v_quantity THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'product_id', v_product_id,
+            'product_variant_id', v_variant_id,
+            'product_name', v_product.name,
+            'variant_name', CASE WHEN v_has_variants THEN v_variant.name END,
+            'stock_total', v_stock_total,
+            'sold_count', v_sold_count,
+            'available', v_available,
+            'requested', v_quantity,
+            'reason', 'Insufficient stock'
+          )
+        );
+      ELSE
+        v_total_price := v_total_price + (v_unit_price * v_quantity);
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'line_type', 'product',
+            'product_id', v_product_id,
+            'product_variant_id', CASE WHEN v_has_variants THEN v_variant_id END,
+            'product_name', v_product.name,
+            'variant_name', CASE WHEN v_has_variants THEN v_variant.name END,
+            'price', v_unit_price,
+            'quantity', v_quantity,
+            'line_total', v_unit_price * v_quantity,
+            'available', v_available,
+            'status', 'OK'
+          )
+        );
+      END IF;
+
+      CONTINUE;
+    END IF;
+
+    -- -----------------------------------------------------------------
+    -- TICKET LINE
+    -- -----------------------------------------------------------------
+
+    -- Lock ticket_type row for atomic capacity check
+    SELECT tt.id, tt.name, tt.price, tt.capacity_total, tt.sales_start, tt.sales_end
+    INTO v_ticket_type
+    FROM public.ticket_types tt
+    WHERE tt.id = v_ticket_type_id
+      AND tt.event_id = _event_id
+      AND tt.deleted_at IS NULL
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'reason', 'Ticket type not found or locked by concurrent request'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    -- Sales window check
+    IF v_ticket_type.sales_start IS NOT NULL AND NOW() < v_ticket_type.sales_start THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'reason', 'Sales have not started yet'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    IF v_ticket_type.sales_end IS NOT NULL AND NOW() > v_ticket_type.sales_end THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'reason', 'Sales have ended'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    -- Time slot (wave): verplicht als het tickettype actieve slots heeft
+    v_slot_label := NULL;
+    v_slot_available := NULL;
+
+    IF v_time_slot_id IS NOT NULL THEN
+      -- Lock slot row for atomic slot capacity check
+      SELECT ts.label, ts.capacity
+      INTO v_slot_label, v_slot_capacity
+      FROM public.ticket_time_slots ts
+      WHERE ts.id = v_time_slot_id
+        AND ts.ticket_type_id = v_ticket_type_id
+        AND ts.deleted_at IS NULL
+      FOR UPDATE SKIP LOCKED;
+
+      IF NOT FOUND THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'ticket_type_id', v_ticket_type_id,
+            'time_slot_id', v_time_slot_id,
+            'ticket_name', v_ticket_type.name,
+            'reason', 'Time slot not found or locked by concurrent request'
+          )
+        );
+        CONTINUE;
+      END IF;
+
+      v_slot_available := public.get_time_slot_free_capacity(v_time_slot_id);
+
+      IF v_slot_available IS NOT NULL AND v_slot_available < v_quantity THEN
+        v_is_valid := FALSE;
+        v_details := v_details || jsonb_build_array(
+          jsonb_build_object(
+            'ticket_type_id', v_ticket_type_id,
+            'time_slot_id', v_time_slot_id,
+            'ticket_name', v_ticket_type.name,
+            'time_slot_label', v_slot_label,
+            'slot_capacity', v_slot_capacity,
+            'available', v_slot_available,
+            'requested', v_quantity,
+            'reason', 'Insufficient time slot capacity'
+          )
+        );
+        CONTINUE;
+      END IF;
+    ELSIF EXISTS (
+      SELECT 1 FROM public.ticket_time_slots ts
+      WHERE ts.ticket_type_id = v_ticket_type_id
+        AND ts.deleted_at IS NULL
+    ) THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'reason', 'Time slot required'
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    -- Count sold tickets (issued + checked_in, not void)
+    SELECT COALESCE(SUM(oi.quantity - oi.refunded_quantity), 0) INTO v_sold_count
+    FROM public.order_items oi
+    JOIN public.orders o ON oi.order_id = o.id
+    WHERE oi.ticket_type_id = v_ticket_type_id
+      AND o.status IN ('pending', 'paid');
+
+    -- Plekken vastgehouden voor andere waitlist aanbiedingen
+    SELECT COALESCE(SUM(wo.quantity), 0) INTO v_held_count
+    FROM public.waitlist_offers wo
+    WHERE wo.ticket_type_id = v_ticket_type_id
+      AND wo.status = 'pending'
+      AND wo.expires_at > NOW()
+      AND (_waitlist_offer_id IS NULL OR wo.id != _waitlist_offer_id);
+
+    v_available := v_ticket_type.capacity_total - v_sold_count - v_held_count;
+
+    IF v_available < v_quantity THEN
+      v_is_valid := FALSE;
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'capacity_total', v_ticket_type.capacity_total,
+          'sold_count', v_sold_count,
+          'held_count', v_held_count,
+          'available', v_available,
+          'requested', v_quantity,
+          'reason', 'Insufficient capacity'
+        )
+      );
+    ELSE
+      -- Accumulate price
+      v_total_price := v_total_price + (v_ticket_type.price * v_quantity);
+      v_details := v_details || jsonb_build_array(
+        jsonb_build_object(
+          'line_type', 'ticket',
+          'ticket_type_id', v_ticket_type_id,
+          'ticket_name', v_ticket_type.name,
+          'time_slot_id', v_time_slot_id,
+          'time_slot_label', v_slot_label,
+          'price', v_ticket_type.price,
+          'quantity', v_quantity,
+          'line_total', v_ticket_type.price * v_quantity,
+          'available', v_available,
+          'status', 'OK'
+        )
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'valid', v_is_valid,
+    'total_price', v_total_price,
+    'details', v_details
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_checkout_capacity(UUID, JSONB, UUID) TO service_role;
+
+-- ===========================================================================
+-- 14. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'order_items' AND column_name = 'refunded_quantity'
+  ) THEN
+    RAISE EXCEPTION 'order_items.refunded_quantity not created';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'ticket_instances' AND column_name = 'voided_at'
+  ) THEN
+    RAISE EXCEPTION 'ticket_instances.voided_at not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_order_item_net_amounts') THEN
+    RAISE EXCEPTION 'get_order_item_net_amounts not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'calculate_ticket_refund') THEN
+    RAISE EXCEPTION 'calculate_ticket_refund not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'preview_ticket_refund') THEN
+    RAISE EXCEPTION 'preview_ticket_refund not created';
+  END IF;
+
+  RAISE NOTICE 'F027: Partial ticket refunds created successfully';
+END $$;
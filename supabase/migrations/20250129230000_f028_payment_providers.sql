@@ -0,0 +1,395 @@
+-- ===========================================================================
+-- F028: Payment Providers
+-- Migration: 20250129230000_f028_payment_providers.sql
+--
+-- Purpose:
+-- - payment_profiles: per org een betaalprovider (mollie, stripe, fake);
+--   de settings key payments.payment_profile_id kiest het profiel per event
+--   (org default, event override via de settings hierarchy)
+-- - Credentials staan niet in de database: secret_name kiest de env secrets
+--   van de edge functions (bijv. MOLLIE_API_KEY_<SECRET_NAME>)
+-- - payments.payment_profile_id: refunds en webhooks gebruiken hetzelfde
+--   profiel als de betaling
+-- - handle_payment_webhook is niet meer aan Mollie gekoppeld
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: payment_profiles
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS payment_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('mollie', 'stripe', 'fake')),
+  -- Suffix van de env secrets; NULL = standaard secrets (MOLLIE_API_KEY, ...)
+  secret_name TEXT CHECK (secret_name ~ '^[A-Z0-9_]+$'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_profiles_org ON payment_profiles(org_id);
+
+COMMENT ON TABLE payment_profiles IS
+  'Payment provider per org (mollie/stripe/fake), selected per event via the payments.payment_profile_id setting.';
+COMMENT ON COLUMN payment_profiles.secret_name IS
+  'Suffix of the edge function secrets, e.g. ACME -> MOLLIE_API_KEY_ACME. NULL = default secrets.';
+
+CREATE TRIGGER payment_profiles_updated_at
+  BEFORE UPDATE ON payment_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+ALTER TABLE payment_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org admins can manage payment_profiles"
+  ON payment_profiles
+  FOR ALL
+  USING (public.has_role(org_id, 'admin') OR public.has_role(org_id, 'owner'))
+  WITH CHECK (public.has_role(org_id, 'admin') OR public.has_role(org_id, 'owner'));
+
+CREATE POLICY "Org members can view payment_profiles"
+  ON payment_profiles
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+-- ===========================================================================
+-- 2. COLUMNS: payments.payment_profile_id + provider check
+-- ===========================================================================
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS payment_profile_id UUID REFERENCES payment_profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN payments.payment_profile_id IS
+  'Payment profile used for this payment (NULL = default provider secrets); refunds use the same profile';
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_provider_check;
+ALTER TABLE payments
+  ADD CONSTRAINT payments_provider_check
+  CHECK (provider::text IN ('mollie', 'stripe', 'fake'));
+
+-- refunds.mollie_refund_id / mollie_payment_id blijven de kolomnamen (o.a.
+-- handle_refund_webhook zoekt erop), maar bevatten nu de ids van de provider
+-- van de betaling.
+COMMENT ON COLUMN refunds.mollie_refund_id IS
+  'Refund id at the payment provider of the payment (Mollie re_, Stripe re_, fake_re_)';
+
+COMMENT ON TABLE payments IS
+  'Payment records linked to a payment provider (Mollie, Stripe, fake). One payment per order attempt.';
+
+-- ===========================================================================
+-- 3. RPC: get_event_payment_profile (service role)
+-- ===========================================================================
+-- Effectieve payments.payment_profile_id van het event (org < event).
+-- Geen profiel ingesteld: provider NULL, de edge function kiest dan de
+-- standaard provider (PAYMENT_PROVIDER, default mollie). Een profiel van een
+-- andere org of een inactief profiel is een fout: nooit stil terugvallen op
+-- een ander betaalaccount.
+
+CREATE OR REPLACE FUNCTION public.get_event_payment_profile(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_profile_id TEXT;
+  v_profile RECORD;
+BEGIN
+  SELECT e.org_id INTO v_org_id
+  FROM events e
+  WHERE e.id = _event_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  v_profile_id := public.resolve_event_setting(_event_id, 'payments')->>'payment_profile_id';
+
+  IF v_profile_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'status', 'OK',
+      'profile_id', NULL,
+      'provider', NULL,
+      'secret_name', NULL
+    );
+  END IF;
+
+  SELECT pp.id, pp.provider, pp.secret_name
+  INTO v_profile
+  FROM payment_profiles pp
+  WHERE pp.id = v_profile_id::UUID
+    AND pp.org_id = v_org_id
+    AND pp.is_active;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'PAYMENT_PROFILE_NOT_FOUND', 'profile_id', v_profile_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'profile_id', v_profile.id,
+    'provider', v_profile.provider,
+    'secret_name', v_profile.secret_name
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_event_payment_profile(UUID) IS
+  'F028: System: effective payment profile (provider + secret_name) of an event from the payments settings.';
+
+REVOKE ALL ON FUNCTION public.get_event_payment_profile(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_event_payment_profile(UUID) TO service_role;
+
+-- ===========================================================================
+-- 4. RPC: handle_payment_webhook (provider agnostic)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F006 behalve stap 1: de payment wordt gevonden op
+-- order + provider_payment_id i.p.v. provider = 'mollie', en de status wordt
+-- naar payments_status_check vertaald (provider 'canceled' → 'cancelled',
+-- 'authorized' → 'pending'); 'cancelled' telt ook als mislukte betaling.
+
+CREATE OR REPLACE FUNCTION public.handle_payment_webhook(
+  _order_id UUID,
+  _payment_id TEXT,
+  _status TEXT,
+  _amount NUMERIC,
+  _currency TEXT DEFAULT 'EUR'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_order RECORD;
+  v_order_item RECORD;
+  v_ticket_type RECORD;
+  v_sold_count INTEGER;
+  v_available INTEGER;
+  v_is_overbooked BOOLEAN := FALSE;
+  v_tickets_issued INTEGER := 0;
+  v_result JSONB;
+BEGIN
+  -- 1. Update payments table (elke provider; status naar payments_status_check)
+  UPDATE public.payments
+  SET
+    status = CASE _status
+      WHEN 'canceled' THEN 'cancelled'
+      WHEN 'authorized' THEN 'pending'
+      ELSE _status
+    END,
+    updated_at = NOW()
+  WHERE order_id = _order_id AND provider_payment_id = _payment_id;
+
+  -- 2. Fetch order details
+  SELECT id, event_id, org_id, status, total_amount, email, user_id, purchaser_name
+  INTO v_order
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;  -- Lock order row for atomic update
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND', 'paid', false);
+  END IF;
+
+  -- 3. Status transition logic
+  IF _status = 'paid' THEN
+    -- Skip if already paid (idempotent)
+    IF v_order.status = 'paid' THEN
+      RETURN jsonb_build_object('paid', false, 'message', 'Order already paid');
+    END IF;
+
+    -- Update order to paid
+    UPDATE public.orders
+    SET status = 'paid', updated_at = NOW()
+    WHERE id = _order_id;
+
+    -- Also update legacy tickets table (backward compat)
+    UPDATE public.tickets
+    SET status = 'valid', updated_at = NOW()
+    WHERE order_id = _order_id AND status = 'pending';
+
+    -- Update linked registrations
+    UPDATE public.registrations
+    SET status = 'confirmed', updated_at = NOW()
+    WHERE id IN (
+      SELECT registration_id FROM public.tickets WHERE order_id = _order_id
+    ) AND status = 'pending';
+
+    -- 4. Issue ticket_instances (new model)
+    FOR v_order_item IN
+      SELECT oi.id, oi.ticket_type_id, oi.quantity
+      FROM public.order_items oi
+      WHERE oi.order_id = _order_id AND oi.ticket_type_id IS NOT NULL
+    LOOP
+      -- Final capacity check (critical for concurrency)
+      SELECT tt.id, tt.name, tt.capacity_total
+      INTO v_ticket_type
+      FROM public.ticket_types tt
+      WHERE tt.id = v_order_item.ticket_type_id
+      FOR UPDATE;
+
+      IF FOUND THEN
+        -- Count currently issued tickets
+        SELECT COALESCE(COUNT(*), 0) INTO v_sold_count
+        FROM public.ticket_instances ti
+        WHERE ti.ticket_type_id = v_order_item.ticket_type_id
+          AND ti.status IN ('issued', 'checked_in', 'valid');
+
+        v_available := COALESCE(v_ticket_type.capacity_total, 999999) - v_sold_count;
+
+        IF v_available < v_order_item.quantity THEN
+          -- OVERBOOKED FAILSAFE
+          v_is_overbooked := TRUE;
+
+          UPDATE public.orders
+          SET status = 'cancelled', updated_at = NOW()
+          WHERE id = _order_id;
+
+          RETURN jsonb_build_object(
+            'paid', false,
+            'overbooked', true,
+            'message', 'Capacity exceeded. Order cancelled. Refund required.',
+            'ticket_type', v_ticket_type.name,
+            'available', v_available,
+            'requested', v_order_item.quantity
+          );
+        END IF;
+
+        -- Issue ticket_instances
+        WITH ticket_numbers AS (
+          SELECT generate_series(1, v_order_item.quantity) AS seq
+        )
+        INSERT INTO public.ticket_instances (
+          event_id,
+          ticket_type_id,
+          order_id,
+          order_item_id,
+          sequence_no,
+          owner_user_id,
+          token_hash,
+          qr_code,
+          status
+        )
+        SELECT
+          v_order.event_id,
+          v_order_item.ticket_type_id,
+          _order_id,
+          v_order_item.id,
+          ticket_numbers.seq,
+          v_order.user_id,
+          encode(digest(gen_random_uuid()::text::bytea, 'sha256'), 'hex'),
+          gen_random_uuid()::text,
+          'issued'
+        FROM ticket_numbers
+        ON CONFLICT (order_item_id, sequence_no) DO NOTHING;
+
+        GET DIAGNOSTICS v_tickets_issued = ROW_COUNT;
+      END IF;
+    END LOOP;
+
+    -- 5. Queue confirmation email
+    IF EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'email_outbox') THEN
+      BEGIN
+        INSERT INTO public.email_outbox (
+          org_id,
+          recipient_email,
+          email_type,
+          subject,
+          template_key,
+          template_data,
+          status
+        ) VALUES (
+          v_order.org_id,
+          v_order.email,
+          'transactional',
+          'Bestelling bevestigd',
+          'order_confirmation',
+          jsonb_build_object(
+            'order_id', _order_id,
+            'purchaser_name', v_order.purchaser_name,
+            'total_amount', _amount,
+            'currency', _currency,
+            'tickets_issued', v_tickets_issued
+          ),
+          'queued'
+        );
+      EXCEPTION WHEN OTHERS THEN
+        -- Non-fatal: email queue failure should not block payment
+        NULL;
+      END;
+    END IF;
+
+    RETURN jsonb_build_object(
+      'paid', true,
+      'order_id', _order_id,
+      'tickets_issued', v_tickets_issued,
+      'email_queued', true
+    );
+
+  ELSIF _status IN ('failed', 'expired', 'canceled', 'cancelled') THEN
+    -- Payment failed/cancelled
+    IF v_order.status = 'pending' THEN
+      UPDATE public.orders
+      SET status = 'cancelled', updated_at = NOW()
+      WHERE id = _order_id;
+
+      UPDATE public.tickets
+      SET status = 'cancelled', updated_at = NOW()
+      WHERE order_id = _order_id;
+    END IF;
+
+    RETURN jsonb_build_object(
+      'paid', false,
+      'cancelled', true,
+      'reason', _status
+    );
+
+  ELSE
+    -- Other status (open, pending, etc.) - no action needed
+    RETURN jsonb_build_object(
+      'paid', false,
+      'status', _status,
+      'message', 'No action for this status'
+    );
+  END IF;
+END;
+$$;
+
+
+COMMENT ON FUNCTION public.handle_payment_webhook(UUID, TEXT, TEXT, NUMERIC, TEXT) IS
+  'F028: System: apply a normalized provider payment status to payment + order (Mollie, Stripe, fake).';
+
+GRANT EXECUTE ON FUNCTION public.handle_payment_webhook(UUID, TEXT, TEXT, NUMERIC, TEXT) TO service_role;
+
+-- ===========================================================================
+-- 5. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'payment_profiles'
+  ) THEN
+    RAISE EXCEPTION 'payment_profiles not created';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'payments' AND column_name = 'payment_profile_id'
+  ) THEN
+    RAISE EXCEPTION 'payments.payment_profile_id not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_event_payment_profile') THEN
+    RAISE EXCEPTION 'get_event_payment_profile not created';
+  END IF;
+
+  RAISE NOTICE 'F028: Payment providers created successfully';
+END $$;
@@ -0,0 +1,780 @@
+-- ===========================================================================
+-- F029: Notification Channels (SMS + Push)
+-- Migration: 20250130000000_f029_notification_channels.sql
+--
+-- Purpose:
+-- - Naast email (email_outbox) ook SMS en web push, bijv. startvertraging of
+--   weerbericht op de wedstrijddag
+-- - notification_outbox: wachtrij voor sms/push met dezelfde semantiek als
+--   email_outbox (idempotency_key, pogingen, backoff); process-outbox
+--   verstuurt per kanaal via een adapter (_shared/channels.ts)
+-- - Opt-in per deelnemer en kanaal (participant_channel_optins); SMS en push
+--   alleen na expliciete opt-in, email blijft via email_unsubscribes
+-- - push_subscriptions: web push endpoints per gebruiker (browser)
+-- - notification_local_deliveries: de 'local' adapter schrijft berichten
+--   hierheen zodat de flow offline te testen is
+-- - Campagnes (bulk-email) op één of meer kanalen; dispatch_message_batches
+--   zet batch items om in outbox berichten
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: participant_channel_optins
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS participant_channel_optins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'push')),
+  opted_in BOOLEAN NOT NULL DEFAULT true,
+  -- Herkomst voor compliance (checkout, profile, admin_action)
+  source TEXT NOT NULL DEFAULT 'profile',
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT participant_channel_optins_unique UNIQUE (participant_id, channel)
+);
+
+COMMENT ON TABLE participant_channel_optins IS
+  'F029: Opt-in per participant for SMS and push notifications (email uses email_unsubscribes).';
+
+CREATE TRIGGER participant_channel_optins_updated_at
+  BEFORE UPDATE ON participant_channel_optins
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+ALTER TABLE participant_channel_optins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view own channel optins"
+  ON participant_channel_optins
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM participants p
+      WHERE p.id = participant_channel_optins.participant_id
+      AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Org members can view channel optins of their participants"
+  ON participant_channel_optins
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM registrations r
+      JOIN events e ON e.id = r.event_id
+      WHERE r.participant_id = participant_channel_optins.participant_id
+      AND public.is_org_member(e.org_id)
+    )
+  );
+
+-- ===========================================================================
+-- 2. TABLE: push_subscriptions
+-- ===========================================================================
+-- Web Push subscription (PushSubscription.toJSON()) per browser van een
+-- gebruiker; push naar een deelnemer gaat naar alle subscriptions van
+-- participants.user_id.
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+COMMENT ON TABLE push_subscriptions IS
+  'F029: Web push subscriptions per user; removed when the push service reports them gone (404/410).';
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions"
+  ON push_subscriptions
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own push subscriptions"
+  ON push_subscriptions
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+-- ===========================================================================
+-- 3. TABLE: notification_outbox
+-- ===========================================================================
+-- Zelfde levenscyclus als email_outbox: queued → processing → sent, bij
+-- tijdelijke fouten soft_bounced met next_attempt_at, daarna failed.
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES orgs(id) ON DELETE RESTRICT,
+  event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'push')),
+  participant_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+  idempotency_key TEXT NOT NULL UNIQUE,
+
+  -- Recipient: telefoonnummer (sms) of gebruiker met push subscriptions
+  to_phone TEXT,
+  to_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Content: title alleen voor push, url = klikdoel van de push
+  title TEXT,
+  body TEXT NOT NULL CHECK (char_length(body) <= 1600),
+  url TEXT,
+
+  message_type TEXT NOT NULL DEFAULT 'transactional'
+    CHECK (message_type IN ('transactional', 'marketing', 'system')),
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'processing', 'sent', 'soft_bounced', 'failed', 'cancelled')),
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  scheduled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ,
+
+  adapter TEXT,
+  provider_message_id TEXT,
+  error_message TEXT,
+  error_code TEXT,
+
+  batch_id UUID REFERENCES message_batches(id),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+
+  CONSTRAINT notification_outbox_recipient CHECK (
+    (channel = 'sms' AND to_phone IS NOT NULL)
+    OR (channel = 'push' AND to_user_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_processing
+  ON notification_outbox(next_attempt_at)
+  WHERE status IN ('queued', 'soft_bounced');
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_event
+  ON notification_outbox(event_id, channel, status)
+  WHERE event_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_batch
+  ON notification_outbox(batch_id, status)
+  WHERE batch_id IS NOT NULL;
+
+COMMENT ON TABLE notification_outbox IS
+  'F029: Queue for SMS and push notifications, sent by process-outbox via channel adapters.';
+
+CREATE TRIGGER notification_outbox_updated_at
+  BEFORE UPDATE ON notification_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view outbox notifications"
+  ON notification_outbox
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+-- ===========================================================================
+-- 4. TABLE: notification_local_deliveries
+-- ===========================================================================
+-- 'Verzonden' berichten van de local adapter (EMAIL_ADAPTER / SMS_ADAPTER /
+-- PUSH_ADAPTER = local). Alleen voor ontwikkeling en tests.
+
+CREATE TABLE IF NOT EXISTS notification_local_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID REFERENCES orgs(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms', 'push')),
+  -- email_outbox.id of notification_outbox.id
+  outbox_id UUID NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT,
+  body TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_local_deliveries_outbox
+  ON notification_local_deliveries(outbox_id);
+
+COMMENT ON TABLE notification_local_deliveries IS
+  'F029: Messages delivered by the local channel adapter (offline testing), one row per recipient.';
+
+ALTER TABLE notification_local_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view local deliveries"
+  ON notification_local_deliveries
+  FOR SELECT
+  USING (org_id IS NOT NULL AND public.is_org_member(org_id));
+
+-- ===========================================================================
+-- 5. COLUMNS: message_batches / message_batch_items (kanalen)
+-- ===========================================================================
+-- Een campagne kiest één of meer kanalen; subject/html_body zijn alleen
+-- verplicht als email een van de kanalen is. Batch items worden per kanaal
+-- aangemaakt.
+
+ALTER TABLE message_batches
+  ADD COLUMN IF NOT EXISTS channels TEXT[] NOT NULL DEFAULT ARRAY['email'],
+  ADD COLUMN IF NOT EXISTS sms_body TEXT,
+  ADD COLUMN IF NOT EXISTS push_title TEXT,
+  ADD COLUMN IF NOT EXISTS push_body TEXT,
+  ADD COLUMN IF NOT EXISTS push_url TEXT;
+
+ALTER TABLE message_batches ALTER COLUMN subject DROP NOT NULL;
+ALTER TABLE message_batches ALTER COLUMN html_body DROP NOT NULL;
+
+ALTER TABLE message_batches
+  ADD CONSTRAINT message_batches_valid_channels CHECK (
+    cardinality(channels) > 0
+    AND channels <@ ARRAY['email', 'sms', 'push']
+    AND (NOT 'email' = ANY(channels) OR (subject IS NOT NULL AND html_body IS NOT NULL))
+    AND (NOT 'sms' = ANY(channels) OR sms_body IS NOT NULL)
+    AND (NOT 'push' = ANY(channels) OR push_body IS NOT NULL)
+  );
+
+ALTER TABLE message_batch_items
+  ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'email'
+    CHECK (channel IN ('email', 'sms', 'push')),
+  ADD COLUMN IF NOT EXISTS notification_id UUID REFERENCES notification_outbox(id);
+
+-- Email alleen voor het email kanaal (valid_email check laat NULL toe)
+ALTER TABLE message_batch_items ALTER COLUMN email DROP NOT NULL;
+
+ALTER TABLE message_batch_items
+  ADD CONSTRAINT message_batch_items_recipient CHECK (
+    (channel = 'email' AND email IS NOT NULL)
+    OR (channel <> 'email' AND participant_id IS NOT NULL)
+  );
+
+DROP INDEX IF EXISTS idx_message_batch_items_unique_recipient;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_batch_items_unique_recipient
+  ON message_batch_items(batch_id, email)
+  WHERE channel = 'email';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_batch_items_unique_channel_participant
+  ON message_batch_items(batch_id, channel, participant_id)
+  WHERE channel <> 'email';
+
+COMMENT ON COLUMN message_batches.channels IS
+  'F029: Channels of the campaign (email, sms, push); one batch item per recipient and channel.';
+
+-- ===========================================================================
+-- 6. HELPER: is_channel_deliverable (service role)
+-- ===========================================================================
+-- email: is_email_deliverable (unsubscribes, bounces)
+-- sms: opt-in + telefoonnummer in E.164 (+31612345678)
+-- push: opt-in + gebruiker met minstens één push subscription
+
+CREATE OR REPLACE FUNCTION public.is_channel_deliverable(
+  _participant_id UUID,
+  _org_id UUID,
+  _channel TEXT,
+  _message_type TEXT DEFAULT 'transactional'
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_participant RECORD;
+BEGIN
+  SELECT p.id, p.email, p.phone, p.user_id
+  INTO v_participant
+  FROM participants p
+  WHERE p.id = _participant_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF _channel = 'email' THEN
+    RETURN public.is_email_deliverable(lower(v_participant.email), _org_id, _message_type);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM participant_channel_optins o
+    WHERE o.participant_id = _participant_id
+      AND o.channel = _channel
+      AND o.opted_in
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF _channel = 'sms' THEN
+    RETURN COALESCE(v_participant.phone ~ '^\+[1-9][0-9]{6,14}$', false);
+  END IF;
+
+  IF _channel = 'push' THEN
+    RETURN v_participant.user_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM push_subscriptions s WHERE s.user_id = v_participant.user_id
+    );
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+COMMENT ON FUNCTION public.is_channel_deliverable(UUID, UUID, TEXT, TEXT) IS
+  'F029: System: may a participant be reached on a channel (opt-in, phone, push subscription, email unsubscribes).';
+
+REVOKE ALL ON FUNCTION public.is_channel_deliverable(UUID, UUID, TEXT, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.is_channel_deliverable(UUID, UUID, TEXT, TEXT) TO service_role;
+
+-- ===========================================================================
+-- 7. RPC: queue_notification (service role)
+-- ===========================================================================
+-- Tegenhanger van queue_email voor sms/push: idempotent op
+-- _idempotency_key, NULL als de deelnemer niet bereikbaar is op het kanaal.
+
+CREATE OR REPLACE FUNCTION public.queue_notification(
+  _org_id UUID,
+  _event_id UUID,
+  _channel TEXT,
+  _participant_id UUID,
+  _idempotency_key TEXT,
+  _body TEXT,
+  _title TEXT DEFAULT NULL,
+  _url TEXT DEFAULT NULL,
+  _message_type TEXT DEFAULT 'transactional',
+  _scheduled_at TIMESTAMPTZ DEFAULT NULL,
+  _batch_id UUID DEFAULT NULL,
+  _metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_notification_id UUID;
+  v_participant RECORD;
+  v_scheduled_at TIMESTAMPTZ := COALESCE(_scheduled_at, NOW());
+BEGIN
+  IF _channel NOT IN ('sms', 'push') THEN
+    RAISE EXCEPTION 'Invalid notification channel: % (use queue_email for email)', _channel;
+  END IF;
+
+  -- Idempotency: bestaande notificatie teruggeven
+  SELECT id INTO v_notification_id
+  FROM notification_outbox
+  WHERE idempotency_key = _idempotency_key;
+
+  IF v_notification_id IS NOT NULL THEN
+    RETURN v_notification_id;
+  END IF;
+
+  IF NOT public.is_channel_deliverable(_participant_id, _org_id, _channel, _message_type) THEN
+    RAISE NOTICE 'Participant % is not reachable via %', _participant_id, _channel;
+    RETURN NULL;
+  END IF;
+
+  SELECT p.phone, p.user_id INTO v_participant
+  FROM participants p
+  WHERE p.id = _participant_id;
+
+  INSERT INTO notification_outbox (
+    org_id, event_id, channel, participant_id, idempotency_key,
+    to_phone, to_user_id, title, body, url,
+    message_type, scheduled_at, next_attempt_at, batch_id, metadata
+  ) VALUES (
+    _org_id, _event_id, _channel, _participant_id, _idempotency_key,
+    CASE WHEN _channel = 'sms' THEN v_participant.phone END,
+    CASE WHEN _channel = 'push' THEN v_participant.user_id END,
+    _title, _body, _url,
+    _message_type, v_scheduled_at, v_scheduled_at, _batch_id, COALESCE(_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_notification_id;
+
+  RETURN v_notification_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.queue_notification(UUID, UUID, TEXT, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, UUID, JSONB) IS
+  'F029: System: queue an SMS or push notification (idempotent, NULL when the participant is not reachable).';
+
+REVOKE ALL ON FUNCTION public.queue_notification(UUID, UUID, TEXT, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, UUID, JSONB) FROM public;
+GRANT EXECUTE ON FUNCTION public.queue_notification(UUID, UUID, TEXT, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, UUID, JSONB) TO service_role;
+
+-- ===========================================================================
+-- 8. RPC: set_notification_optin / register_push_subscription (participant)
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.set_notification_optin(
+  _participant_id UUID,
+  _channel TEXT,
+  _opted_in BOOLEAN,
+  _source TEXT DEFAULT 'profile'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _channel NOT IN ('sms', 'push') THEN
+    RETURN jsonb_build_object('error', 'INVALID_CHANNEL');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM participants p
+    WHERE p.id = _participant_id AND p.user_id = auth.uid()
+  ) THEN
+    RETURN jsonb_build_object('error', 'PARTICIPANT_NOT_FOUND');
+  END IF;
+
+  INSERT INTO participant_channel_optins (participant_id, channel, opted_in, source)
+  VALUES (_participant_id, _channel, _opted_in, COALESCE(_source, 'profile'))
+  ON CONFLICT (participant_id, channel) DO UPDATE
+  SET opted_in = EXCLUDED.opted_in,
+      source = EXCLUDED.source;
+
+  RETURN jsonb_build_object('status', 'OK', 'channel', _channel, 'opted_in', _opted_in);
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_notification_optin(UUID, TEXT, BOOLEAN, TEXT) IS
+  'F029: Participant opts in or out of SMS/push notifications for one of their participant profiles.';
+
+GRANT EXECUTE ON FUNCTION public.set_notification_optin(UUID, TEXT, BOOLEAN, TEXT) TO authenticated;
+
+-- Endpoint hoort bij één gebruiker: opnieuw registreren verhuist hem
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+  _endpoint TEXT,
+  _p256dh TEXT,
+  _auth TEXT,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _endpoint IS NULL OR _endpoint !~ '^https://' OR _p256dh IS NULL OR _auth IS NULL THEN
+    RETURN jsonb_build_object('error', 'INVALID_SUBSCRIPTION');
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), _endpoint, _p256dh, _auth, _user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('status', 'OK', 'subscription_id', v_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.register_push_subscription(TEXT, TEXT, TEXT, TEXT) IS
+  'F029: Store the web push subscription of the current browser for the current user.';
+
+GRANT EXECUTE ON FUNCTION public.register_push_subscription(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- ===========================================================================
+-- 9. RPC: claim_notifications / complete_notification / fail_notification
+-- ===========================================================================
+-- Zelfde patroon als claim_fundraising_jobs (SKIP LOCKED). Push jobs krijgen
+-- de subscriptions van de gebruiker mee.
+
+CREATE OR REPLACE FUNCTION public.claim_notifications(_limit INTEGER DEFAULT 100)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_jobs JSONB;
+BEGIN
+  WITH claimed AS (
+    UPDATE notification_outbox n
+    SET status = 'processing',
+        attempt_count = n.attempt_count + 1,
+        last_attempt_at = NOW()
+    WHERE n.id IN (
+      SELECT id FROM notification_outbox
+      WHERE status IN ('queued', 'soft_bounced') AND next_attempt_at <= NOW()
+      ORDER BY next_attempt_at
+      LIMIT _limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING n.*
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', c.id,
+    'org_id', c.org_id,
+    'channel', c.channel,
+    'attempt_count', c.attempt_count,
+    'max_attempts', c.max_attempts,
+    'to_phone', c.to_phone,
+    'to_user_id', c.to_user_id,
+    'title', c.title,
+    'body', c.body,
+    'url', c.url,
+    'subscriptions', CASE WHEN c.channel = 'push' THEN (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', s.id, 'endpoint', s.endpoint, 'p256dh', s.p256dh, 'auth', s.auth
+      )), '[]'::jsonb)
+      FROM push_subscriptions s
+      WHERE s.user_id = c.to_user_id
+    ) END
+  )), '[]'::jsonb)
+  INTO v_jobs
+  FROM claimed c;
+
+  RETURN jsonb_build_object('status', 'OK', 'jobs', v_jobs);
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_notifications(INTEGER) IS
+  'F029: System: claim due SMS/push notifications for sending (SKIP LOCKED).';
+
+REVOKE ALL ON FUNCTION public.claim_notifications(INTEGER) FROM public;
+GRANT EXECUTE ON FUNCTION public.claim_notifications(INTEGER) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.complete_notification(
+  _notification_id UUID,
+  _adapter TEXT,
+  _provider_message_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE notification_outbox
+  SET status = 'sent',
+      adapter = _adapter,
+      provider_message_id = _provider_message_id,
+      error_message = NULL,
+      error_code = NULL,
+      sent_at = NOW()
+  WHERE id = _notification_id
+    AND status = 'processing';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'NOT_PROCESSING');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.complete_notification(UUID, TEXT, TEXT) IS
+  'F029: System: mark a claimed notification as sent.';
+
+REVOKE ALL ON FUNCTION public.complete_notification(UUID, TEXT, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.complete_notification(UUID, TEXT, TEXT) TO service_role;
+
+-- Backoff zoals email_outbox: 1, 2, 4 ... minuten; niet-herhaalbare fouten
+-- (bv. ongeldig nummer) gaan direct naar failed
+CREATE OR REPLACE FUNCTION public.fail_notification(
+  _notification_id UUID,
+  _error TEXT,
+  _error_code TEXT DEFAULT NULL,
+  _retryable BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_notification RECORD;
+  v_status TEXT;
+BEGIN
+  SELECT attempt_count, max_attempts INTO v_notification
+  FROM notification_outbox
+  WHERE id = _notification_id AND status = 'processing';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'NOT_PROCESSING');
+  END IF;
+
+  v_status := CASE
+    WHEN _retryable AND v_notification.attempt_count < v_notification.max_attempts THEN 'soft_bounced'
+    ELSE 'failed'
+  END;
+
+  UPDATE notification_outbox
+  SET status = v_status,
+      error_message = left(_error, 1000),
+      error_code = _error_code,
+      next_attempt_at = NOW() + make_interval(mins => power(2, v_notification.attempt_count - 1)::INTEGER)
+  WHERE id = _notification_id;
+
+  RETURN jsonb_build_object('status', 'OK', 'notification_status', v_status);
+END;
+$$;
+
+COMMENT ON FUNCTION public.fail_notification(UUID, TEXT, TEXT, BOOLEAN) IS
+  'F029: System: record a failed send; retry with exponential backoff or mark failed.';
+
+REVOKE ALL ON FUNCTION public.fail_notification(UUID, TEXT, TEXT, BOOLEAN) FROM public;
+GRANT EXECUTE ON FUNCTION public.fail_notification(UUID, TEXT, TEXT, BOOLEAN) TO service_role;
+
+-- ===========================================================================
+-- 10. RPC: dispatch_message_batches (service role)
+-- ===========================================================================
+-- Zet pending batch items van due campagnes (status queued, scheduled_at
+-- verstreken) om in outbox berichten per kanaal. Idempotent per item
+-- ('batch:<batch>:<item>'); niet meer bereikbare ontvangers → skipped.
+
+CREATE OR REPLACE FUNCTION public.dispatch_message_batches(_limit INTEGER DEFAULT 5)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch RECORD;
+  v_item RECORD;
+  v_message_id UUID;
+  v_batches INTEGER := 0;
+  v_queued INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  FOR v_batch IN
+    SELECT b.*
+    FROM message_batches b
+    WHERE b.status = 'queued'
+      AND (b.scheduled_at IS NULL OR b.scheduled_at <= NOW())
+    ORDER BY COALESCE(b.scheduled_at, b.created_at)
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE message_batches
+    SET status = 'processing', started_at = COALESCE(started_at, NOW())
+    WHERE id = v_batch.id;
+
+    FOR v_item IN
+      SELECT i.*
+      FROM message_batch_items i
+      WHERE i.batch_id = v_batch.id AND i.status = 'pending'
+    LOOP
+      v_message_id := NULL;
+
+      IF v_item.channel = 'email' THEN
+        v_message_id := public.queue_email(
+          _org_id => v_batch.org_id,
+          _event_id => v_batch.event_id,
+          _idempotency_key => 'batch:' || v_batch.id::TEXT || ':' || v_item.id::TEXT,
+          _to_email => v_item.email,
+          _subject => v_batch.subject,
+          _html_body => v_batch.html_body,
+          _email_type => v_batch.email_type,
+          _text_body => v_batch.text_body,
+          _template_id => v_batch.template_id,
+          _template_variables => v_item.variables,
+          _batch_id => v_batch.id
+        );
+      ELSE
+        v_message_id := public.queue_notification(
+          _org_id => v_batch.org_id,
+          _event_id => v_batch.event_id,
+          _channel => v_item.channel,
+          _participant_id => v_item.participant_id,
+          _idempotency_key => 'batch:' || v_batch.id::TEXT || ':' || v_item.id::TEXT,
+          _body => CASE WHEN v_item.channel = 'sms' THEN v_batch.sms_body ELSE v_batch.push_body END,
+          _title => CASE WHEN v_item.channel = 'push' THEN v_batch.push_title END,
+          _url => CASE WHEN v_item.channel = 'push' THEN v_batch.push_url END,
+          _message_type => v_batch.email_type,
+          _batch_id => v_batch.id,
+          _metadata => jsonb_build_object('batch_item_id', v_item.id)
+        );
+      END IF;
+
+      UPDATE message_batch_items
+      SET status = CASE WHEN v_message_id IS NULL THEN 'skipped' ELSE 'queued' END::batch_item_status,
+          email_id = CASE WHEN v_item.channel = 'email' THEN v_message_id END,
+          notification_id = CASE WHEN v_item.channel <> 'email' THEN v_message_id END,
+          processed_at = NOW()
+      WHERE id = v_item.id;
+
+      IF v_message_id IS NULL THEN
+        v_skipped := v_skipped + 1;
+      ELSE
+        v_queued := v_queued + 1;
+      END IF;
+    END LOOP;
+
+    UPDATE message_batches b
+    SET status = 'sending',
+        queued_count = (
+          SELECT COUNT(*) FROM message_batch_items i
+          WHERE i.batch_id = b.id AND i.status = 'queued'
+        )
+    WHERE b.id = v_batch.id;
+
+    v_batches := v_batches + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'batches', v_batches,
+    'queued', v_queued,
+    'skipped', v_skipped
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.dispatch_message_batches(INTEGER) IS
+  'F029: System: turn pending batch items of due campaigns into email/SMS/push outbox messages.';
+
+REVOKE ALL ON FUNCTION public.dispatch_message_batches(INTEGER) FROM public;
+GRANT EXECUTE ON FUNCTION public.dispatch_message_batches(INTEGER) TO service_role;
+
+-- ===========================================================================
+-- 11. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'notification_outbox') THEN
+    RAISE EXCEPTION 'notification_outbox table not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'participant_channel_optins') THEN
+    RAISE EXCEPTION 'participant_channel_optins table not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'notification_local_deliveries') THEN
+    RAISE EXCEPTION 'notification_local_deliveries table not created';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'message_batches' AND column_name = 'channels'
+  ) THEN
+    RAISE EXCEPTION 'message_batches.channels not added';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'queue_notification') THEN
+    RAISE EXCEPTION 'queue_notification not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'dispatch_message_batches') THEN
+    RAISE EXCEPTION 'dispatch_message_batches not created';
+  END IF;
+
+  RAISE NOTICE 'F029: Notification channels created successfully';
+END $$;
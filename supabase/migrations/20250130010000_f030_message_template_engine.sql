@@ -0,0 +1,847 @@
+-- ===========================================================================
+-- F030: Message Template Engine
+-- Migration: 20250130010000_f030_message_template_engine.sql
+--
+-- Purpose:
+-- - Templates met merge variabelen ({{first_name}}, {{ticket_type}},
+--   {{time_slot}}, {{order_link}}, ...) en conditionele blokken
+--   ({{#if time_slot}}...{{else}}...{{/if}})
+-- - Vaste catalogus van variabelen met type (message_template_variables);
+--   onbekende variabelen worden geweigerd vóór opslaan en vóór het queuen
+--   van een campagne
+-- - Locale varianten per template (subject/html_body/text_body zijn al
+--   {"nl": "...", "en": "..."}), sleutels via is_valid_locale, plus een
+--   default_locale als fallback
+-- - Live preview met een voorbeeld deelnemer (preview_message_template)
+-- - Campagnes worden per ontvanger gerenderd in dispatch_message_batches
+--   (email, sms en push)
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: message_template_variables (catalogus)
+-- ===========================================================================
+-- Alleen deze variabelen mogen in templates voorkomen. sample_value wordt
+-- gebruikt in de preview als het event nog geen deelnemers heeft.
+
+CREATE TABLE IF NOT EXISTS message_template_variables (
+  key TEXT PRIMARY KEY CHECK (key ~ '^[a-z_][a-z0-9_]*$' AND key <> 'else'),
+  value_type TEXT NOT NULL CHECK (value_type IN ('text', 'email', 'date', 'time', 'url')),
+  description TEXT NOT NULL,
+  sample_value TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+COMMENT ON TABLE message_template_variables IS
+  'F030: Catalogue of merge variables allowed in message templates, with type and preview sample.';
+
+INSERT INTO message_template_variables (key, value_type, description, sample_value, sort_order) VALUES
+  ('first_name', 'text', 'Voornaam van de deelnemer', 'Sanne', 10),
+  ('last_name', 'text', 'Achternaam van de deelnemer', 'de Vries', 20),
+  ('full_name', 'text', 'Volledige naam van de deelnemer', 'Sanne de Vries', 30),
+  ('email', 'email', 'Emailadres van de deelnemer', 'sanne@example.com', 40),
+  ('event_name', 'text', 'Naam van het event', 'Stadsloop', 50),
+  ('event_date', 'date', 'Startdatum van het event (dd-mm-jjjj)', '14-09-2025', 60),
+  ('event_location', 'text', 'Locatie van het event', 'Amsterdam', 70),
+  ('org_name', 'text', 'Naam van de organisatie', 'COLOSS Events', 80),
+  ('ticket_type', 'text', 'Tickettype van de deelnemer', '10 km', 90),
+  ('time_slot', 'time', 'Startvak / starttijd van de deelnemer (leeg zonder tijdslot)', 'Wave A', 100),
+  ('event_link', 'url', 'Link naar de eventpagina', 'https://coloss.nl/e/stadsloop', 110),
+  ('order_link', 'url', 'Link naar de bestelling (in campagnes zonder publieke token: de eventpagina)', 'https://coloss.nl/e/stadsloop', 120)
+ON CONFLICT (key) DO UPDATE
+SET value_type = EXCLUDED.value_type,
+    description = EXCLUDED.description,
+    sample_value = EXCLUDED.sample_value,
+    sort_order = EXCLUDED.sort_order;
+
+ALTER TABLE message_template_variables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view template variables"
+  ON message_template_variables
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ===========================================================================
+-- 2. COLUMNS: message_templates.default_locale, message_batches.site_origin
+-- ===========================================================================
+
+ALTER TABLE message_templates
+  ADD COLUMN IF NOT EXISTS default_locale TEXT NOT NULL DEFAULT 'nl'
+    CHECK (public.is_valid_locale(default_locale));
+
+COMMENT ON COLUMN message_templates.default_locale IS
+  'F030: Locale used when the recipient locale has no variant.';
+
+-- Origin van de beheeromgeving, voor {{event_link}} / {{order_link}}
+ALTER TABLE message_batches
+  ADD COLUMN IF NOT EXISTS site_origin TEXT;
+
+-- ===========================================================================
+-- 3. FUNCTION: render_template_text
+-- ===========================================================================
+-- 1. Conditionele blokken, binnenste eerst: {{#if var}}..{{else}}..{{/if}}
+--    (var is waar als hij bestaat en niet leeg/false/0 is)
+-- 2. Variabelen in één pass: {{var}} → waarde (HTML-escaped voor html),
+--    zodat waarden zelf nooit als template worden gelezen
+-- Syntaxfouten geven een exception met prefix TEMPLATE_SYNTAX.
+
+CREATE OR REPLACE FUNCTION public.render_template_text(
+  _template TEXT,
+  _variables JSONB,
+  _escape_html BOOLEAN DEFAULT false
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_out TEXT := COALESCE(_template, '');
+  v_vars JSONB := COALESCE(_variables, '{}'::jsonb);
+  v_end INTEGER;
+  v_start INTEGER;
+  v_prefix TEXT;
+  v_tag_end INTEGER;
+  v_name TEXT;
+  v_block TEXT;
+  v_else INTEGER;
+  v_value TEXT;
+  v_parts TEXT[];
+  v_names TEXT[];
+  v_result TEXT;
+  i INTEGER;
+BEGIN
+  IF _template IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- 1. CONDITIONAL BLOCKS
+  LOOP
+    v_end := strpos(v_out, '{{/if}}');
+    EXIT WHEN v_end = 0;
+
+    -- Laatste {{#if voor de eerste {{/if}} = binnenste blok
+    v_prefix := left(v_out, v_end - 1);
+    v_start := strpos(reverse(v_prefix), reverse('{{#if '));
+    IF v_start = 0 THEN
+      RAISE EXCEPTION 'TEMPLATE_SYNTAX: {{/if}} without {{#if ...}}';
+    END IF;
+    v_start := length(v_prefix) - v_start - length('{{#if ') + 2;
+
+    v_tag_end := strpos(substr(v_prefix, v_start), '}}');
+    IF v_tag_end = 0 THEN
+      RAISE EXCEPTION 'TEMPLATE_SYNTAX: unterminated {{#if tag';
+    END IF;
+
+    v_name := substr(v_prefix, v_start + 6, v_tag_end - 7);
+    IF v_name !~ '^[a-z_][a-z0-9_]*$' OR v_name = 'else' THEN
+      RAISE EXCEPTION 'TEMPLATE_SYNTAX: invalid condition "%"', v_name;
+    END IF;
+
+    v_block := substr(v_prefix, v_start + v_tag_end + 1);
+    v_else := strpos(v_block, '{{else}}');
+    v_value := v_vars->>v_name;
+
+    IF v_value IS NOT NULL AND v_value NOT IN ('', 'false', '0') THEN
+      v_block := CASE WHEN v_else > 0 THEN left(v_block, v_else - 1) ELSE v_block END;
+    ELSE
+      v_block := CASE WHEN v_else > 0 THEN substr(v_block, v_else + length('{{else}}')) ELSE '' END;
+    END IF;
+
+    v_out := left(v_out, v_start - 1) || v_block || substr(v_out, v_end + length('{{/if}}'));
+  END LOOP;
+
+  IF strpos(v_out, '{{#if') > 0 THEN
+    RAISE EXCEPTION 'TEMPLATE_SYNTAX: {{#if ...}} without {{/if}}';
+  END IF;
+
+  IF strpos(v_out, '{{else}}') > 0 THEN
+    RAISE EXCEPTION 'TEMPLATE_SYNTAX: {{else}} outside {{#if ...}}';
+  END IF;
+
+  -- 2. VARIABLES (single pass)
+  v_parts := regexp_split_to_array(v_out, '\{\{\s*[a-z_][a-z0-9_]*\s*\}\}');
+  SELECT array_agg(m[1] ORDER BY n) INTO v_names
+  FROM regexp_matches(v_out, '\{\{\s*([a-z_][a-z0-9_]*)\s*\}\}', 'g') WITH ORDINALITY AS t(m, n);
+
+  v_result := v_parts[1];
+  FOR i IN 1 .. COALESCE(array_length(v_names, 1), 0) LOOP
+    v_value := COALESCE(v_vars->>v_names[i], '');
+    IF _escape_html THEN
+      v_value := replace(replace(replace(replace(replace(v_value,
+        '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;');
+    END IF;
+    v_result := v_result || v_value || v_parts[i + 1];
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.render_template_text(TEXT, JSONB, BOOLEAN) IS
+  'F030: Render {{var}} and {{#if var}}..{{else}}..{{/if}}; raises TEMPLATE_SYNTAX on unbalanced blocks.';
+
+GRANT EXECUTE ON FUNCTION public.render_template_text(TEXT, JSONB, BOOLEAN) TO authenticated;
+
+-- ===========================================================================
+-- 4. FUNCTION: validate_template_content
+-- ===========================================================================
+-- _content: {"subject": ..., "html_body": ..., "sms_body": ...}; elke waarde
+-- is een string of een locale object {"nl": "...", "en": "..."}.
+-- Resultaat: { valid, variables, unknown_variables, errors: [{field, locale, error}] }
+
+CREATE OR REPLACE FUNCTION public.validate_template_content(_content JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_field RECORD;
+  v_variant RECORD;
+  v_text TEXT;
+  v_used TEXT[] := ARRAY[]::TEXT[];
+  v_errors JSONB := '[]'::jsonb;
+  v_unknown TEXT[];
+  v_tag_count INTEGER;
+  v_valid_tag_count INTEGER;
+BEGIN
+  FOR v_field IN SELECT key, value FROM jsonb_each(COALESCE(_content, '{}'::jsonb)) LOOP
+    CONTINUE WHEN jsonb_typeof(v_field.value) = 'null';
+
+    IF jsonb_typeof(v_field.value) NOT IN ('string', 'object') THEN
+      v_errors := v_errors || jsonb_build_object('field', v_field.key, 'locale', NULL, 'error', 'INVALID_VALUE');
+      CONTINUE;
+    END IF;
+
+    FOR v_variant IN
+      SELECT NULL::TEXT AS locale, v_field.value AS value
+      WHERE jsonb_typeof(v_field.value) = 'string'
+      UNION ALL
+      SELECT e.key, e.value FROM jsonb_each(v_field.value) e
+      WHERE jsonb_typeof(v_field.value) = 'object'
+    LOOP
+      IF v_variant.locale IS NOT NULL AND NOT public.is_valid_locale(v_variant.locale) THEN
+        v_errors := v_errors || jsonb_build_object('field', v_field.key, 'locale', v_variant.locale, 'error', 'INVALID_LOCALE');
+        CONTINUE;
+      END IF;
+
+      IF jsonb_typeof(v_variant.value) <> 'string' THEN
+        v_errors := v_errors || jsonb_build_object('field', v_field.key, 'locale', v_variant.locale, 'error', 'INVALID_VALUE');
+        CONTINUE;
+      END IF;
+
+      v_text := v_variant.value #>> '{}';
+
+      -- Variabelen + condities
+      v_used := v_used || ARRAY(
+        SELECT m[1] FROM regexp_matches(v_text, '\{\{\s*(?:#if )?([a-z_][a-z0-9_]*)\s*\}\}', 'g') AS m
+        WHERE m[1] <> 'else'
+      );
+
+      -- Tags die niet herkend worden (bv. {{ First Name }} of {{#each}})
+      v_tag_count := (length(v_text) - length(replace(v_text, '{{', ''))) / 2;
+      SELECT COUNT(*) INTO v_valid_tag_count
+      FROM regexp_matches(v_text, '\{\{(?:#if [a-z_][a-z0-9_]*|/if|else|\s*[a-z_][a-z0-9_]*\s*)\}\}', 'g');
+
+      IF v_tag_count <> v_valid_tag_count THEN
+        v_errors := v_errors || jsonb_build_object('field', v_field.key, 'locale', v_variant.locale, 'error', 'INVALID_TAG');
+      END IF;
+
+      BEGIN
+        PERFORM public.render_template_text(v_text, '{}'::jsonb);
+      EXCEPTION WHEN OTHERS THEN
+        v_errors := v_errors || jsonb_build_object('field', v_field.key, 'locale', v_variant.locale, 'error', SQLERRM);
+      END;
+    END LOOP;
+  END LOOP;
+
+  SELECT COALESCE(array_agg(DISTINCT u ORDER BY u), ARRAY[]::TEXT[]) INTO v_unknown
+  FROM unnest(v_used) u
+  WHERE NOT EXISTS (SELECT 1 FROM message_template_variables v WHERE v.key = u);
+
+  RETURN jsonb_build_object(
+    'valid', jsonb_array_length(v_errors) = 0 AND cardinality(v_unknown) = 0,
+    'variables', to_jsonb(COALESCE(ARRAY(SELECT DISTINCT u FROM unnest(v_used) u ORDER BY u), ARRAY[]::TEXT[])),
+    'unknown_variables', to_jsonb(v_unknown),
+    'errors', v_errors
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.validate_template_content(JSONB) IS
+  'F030: Validate template fields (string or locale object): unknown variables, invalid tags, unbalanced blocks.';
+
+GRANT EXECUTE ON FUNCTION public.validate_template_content(JSONB) TO authenticated;
+
+-- ===========================================================================
+-- 5. FUNCTION: pick_template_locale
+-- ===========================================================================
+-- Variant voor _locale, anders _default_locale, anders nl, anders de eerste.
+
+CREATE OR REPLACE FUNCTION public.pick_template_locale(
+  _value JSONB,
+  _locale TEXT,
+  _default_locale TEXT DEFAULT 'nl'
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _value IS NULL OR jsonb_typeof(_value) = 'null' THEN NULL
+    WHEN jsonb_typeof(_value) = 'string' THEN _value #>> '{}'
+    ELSE COALESCE(
+      _value->>_locale,
+      _value->>_default_locale,
+      _value->>'nl',
+      (SELECT e.value FROM jsonb_each_text(_value) e ORDER BY e.key LIMIT 1)
+    )
+  END;
+$$;
+
+COMMENT ON FUNCTION public.pick_template_locale(JSONB, TEXT, TEXT) IS
+  'F030: Pick the locale variant of a template field (requested, default, nl, first).';
+
+GRANT EXECUTE ON FUNCTION public.pick_template_locale(JSONB, TEXT, TEXT) TO authenticated;
+
+-- ===========================================================================
+-- 6. FUNCTION: get_template_variables / get_participant_locale (internal)
+-- ===========================================================================
+-- Waarden voor één deelnemer bij een event. Ticket en tijdslot van het
+-- eerste geldige ticket. Zonder participant alleen de event variabelen.
+
+CREATE OR REPLACE FUNCTION public.get_template_variables(
+  _event_id UUID,
+  _participant_id UUID,
+  _site_origin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event RECORD;
+  v_participant RECORD;
+  v_ticket RECORD;
+  v_origin TEXT := CASE
+    WHEN _site_origin ~ '^https?://[A-Za-z0-9.-]+(:[0-9]+)?$' THEN _site_origin
+    ELSE ''
+  END;
+  v_vars JSONB := '{}'::jsonb;
+BEGIN
+  SELECT e.id, e.name, e.slug, e.start_time, e.location_name, o.name AS org_name
+  INTO v_event
+  FROM events e
+  JOIN orgs o ON o.id = e.org_id
+  WHERE e.id = _event_id;
+
+  IF FOUND THEN
+    v_vars := jsonb_build_object(
+      'event_name', v_event.name,
+      'event_date', to_char(v_event.start_time AT TIME ZONE 'Europe/Amsterdam', 'DD-MM-YYYY'),
+      'event_location', COALESCE(v_event.location_name, ''),
+      'org_name', v_event.org_name,
+      'event_link', v_origin || '/e/' || v_event.slug,
+      'order_link', v_origin || '/e/' || v_event.slug
+    );
+  END IF;
+
+  SELECT p.id, p.first_name, p.last_name, p.email
+  INTO v_participant
+  FROM participants p
+  WHERE p.id = _participant_id;
+
+  IF NOT FOUND THEN
+    RETURN v_vars;
+  END IF;
+
+  v_vars := v_vars || jsonb_build_object(
+    'first_name', COALESCE(v_participant.first_name, ''),
+    'last_name', COALESCE(v_participant.last_name, ''),
+    'full_name', trim(COALESCE(v_participant.first_name, '') || ' ' || COALESCE(v_participant.last_name, '')),
+    'email', v_participant.email
+  );
+
+  SELECT tt.name AS ticket_type, COALESCE(ts.label, to_char(ts.slot_time, 'HH24:MI')) AS time_slot
+  INTO v_ticket
+  FROM ticket_instances ti
+  JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+  LEFT JOIN ticket_time_slots ts ON ts.id = ti.time_slot_id
+  WHERE ti.event_id = _event_id
+    AND ti.participant_id = _participant_id
+    AND ti.status <> 'void'
+    AND ti.deleted_at IS NULL
+  ORDER BY ti.created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    SELECT tt.name AS ticket_type, NULL::TEXT AS time_slot
+    INTO v_ticket
+    FROM registrations r
+    JOIN ticket_types tt ON tt.id = r.ticket_type_id
+    WHERE r.event_id = _event_id
+      AND r.participant_id = _participant_id
+    ORDER BY r.created_at
+    LIMIT 1;
+  END IF;
+
+  RETURN v_vars || jsonb_build_object(
+    'ticket_type', COALESCE(v_ticket.ticket_type, ''),
+    'time_slot', COALESCE(v_ticket.time_slot, '')
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_template_variables(UUID, UUID, TEXT) IS
+  'F030: System: merge variable values for a participant at an event.';
+
+REVOKE ALL ON FUNCTION public.get_template_variables(UUID, UUID, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_template_variables(UUID, UUID, TEXT) TO service_role;
+
+-- Locale van de laatste bestelling van de deelnemer voor dit event
+CREATE OR REPLACE FUNCTION public.get_participant_locale(_participant_id UUID, _event_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.metadata->>'locale'
+  FROM orders o
+  JOIN participants p ON lower(p.email) = lower(o.email)
+  WHERE p.id = _participant_id
+    AND o.event_id = _event_id
+    AND public.is_valid_locale(o.metadata->>'locale')
+  ORDER BY o.created_at DESC
+  LIMIT 1;
+$$;
+
+COMMENT ON FUNCTION public.get_participant_locale(UUID, UUID) IS
+  'F030: System: locale of the latest order of a participant for an event (NULL if unknown).';
+
+REVOKE ALL ON FUNCTION public.get_participant_locale(UUID, UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_participant_locale(UUID, UUID) TO service_role;
+
+-- ===========================================================================
+-- 7. FUNCTION: render_message_template (service role)
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.render_message_template(
+  _template_id UUID,
+  _locale TEXT,
+  _variables JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_template RECORD;
+  v_locale TEXT;
+BEGIN
+  SELECT * INTO v_template FROM message_templates WHERE id = _template_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TEMPLATE_NOT_FOUND');
+  END IF;
+
+  v_locale := CASE
+    WHEN v_template.html_body ? _locale THEN _locale
+    WHEN v_template.html_body ? v_template.default_locale THEN v_template.default_locale
+    ELSE 'nl'
+  END;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'locale', v_locale,
+    'subject', public.render_template_text(
+      public.pick_template_locale(v_template.subject, v_locale, v_template.default_locale), _variables),
+    'html_body', public.render_template_text(
+      public.pick_template_locale(v_template.html_body, v_locale, v_template.default_locale), _variables, true),
+    'text_body', public.render_template_text(
+      public.pick_template_locale(v_template.text_body, v_locale, v_template.default_locale), _variables)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.render_message_template(UUID, TEXT, JSONB) IS
+  'F030: System: render a stored template in the best matching locale.';
+
+REVOKE ALL ON FUNCTION public.render_message_template(UUID, TEXT, JSONB) FROM public;
+GRANT EXECUTE ON FUNCTION public.render_message_template(UUID, TEXT, JSONB) TO service_role;
+
+-- ===========================================================================
+-- 8. RPC: upsert_message_template (admin/owner)
+-- ===========================================================================
+-- subject en html_body zijn verplicht locale objecten met minstens de
+-- default_locale; system templates zijn read-only.
+
+CREATE OR REPLACE FUNCTION public.upsert_message_template(
+  _org_id UUID,
+  _name TEXT,
+  _subject JSONB,
+  _html_body JSONB,
+  _text_body JSONB DEFAULT NULL,
+  _description TEXT DEFAULT NULL,
+  _default_locale TEXT DEFAULT 'nl',
+  _is_active BOOLEAN DEFAULT true,
+  _id UUID DEFAULT NULL  -- Pass existing ID to update
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_validation JSONB;
+BEGIN
+  IF NOT (public.has_role(_org_id, 'admin') OR public.has_role(_org_id, 'owner')) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _name IS NULL OR length(trim(_name)) NOT BETWEEN 1 AND 100 THEN
+    RETURN jsonb_build_object('error', 'INVALID_NAME');
+  END IF;
+
+  IF _default_locale IS NULL OR NOT public.is_valid_locale(_default_locale) THEN
+    RETURN jsonb_build_object('error', 'INVALID_LOCALE');
+  END IF;
+
+  IF jsonb_typeof(_subject) IS DISTINCT FROM 'object' OR jsonb_typeof(_html_body) IS DISTINCT FROM 'object'
+     OR (_text_body IS NOT NULL AND jsonb_typeof(_text_body) <> 'object') THEN
+    RETURN jsonb_build_object('error', 'INVALID_CONTENT');
+  END IF;
+
+  IF COALESCE(_subject->>_default_locale, '') = '' OR COALESCE(_html_body->>_default_locale, '') = '' THEN
+    RETURN jsonb_build_object('error', 'DEFAULT_LOCALE_MISSING');
+  END IF;
+
+  v_validation := public.validate_template_content(jsonb_build_object(
+    'subject', _subject,
+    'html_body', _html_body,
+    'text_body', _text_body
+  ));
+
+  IF NOT (v_validation->>'valid')::BOOLEAN THEN
+    RETURN jsonb_build_object('error', 'INVALID_TEMPLATE', 'validation', v_validation);
+  END IF;
+
+  IF _id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM message_templates WHERE id = _id AND template_type = 'system'
+  ) THEN
+    RETURN jsonb_build_object('error', 'SYSTEM_TEMPLATE_READ_ONLY');
+  END IF;
+
+  BEGIN
+    IF _id IS NULL THEN
+      INSERT INTO message_templates (
+        org_id, name, description, subject, html_body, text_body,
+        variables_schema, default_locale, is_active, created_by
+      ) VALUES (
+        _org_id, trim(_name), _description, _subject, _html_body, _text_body,
+        jsonb_build_object('variables', v_validation->'variables'),
+        _default_locale, COALESCE(_is_active, true), auth.uid()
+      )
+      RETURNING id INTO v_id;
+    ELSE
+      UPDATE message_templates SET
+        name = trim(_name),
+        description = _description,
+        subject = _subject,
+        html_body = _html_body,
+        text_body = _text_body,
+        variables_schema = jsonb_build_object('variables', v_validation->'variables'),
+        default_locale = _default_locale,
+        is_active = COALESCE(_is_active, true)
+      WHERE id = _id AND org_id = _org_id
+      RETURNING id INTO v_id;
+
+      IF v_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'TEMPLATE_NOT_FOUND');
+      END IF;
+    END IF;
+  EXCEPTION WHEN unique_violation THEN
+    RETURN jsonb_build_object('error', 'NAME_TAKEN');
+  END;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    _org_id,
+    auth.uid(),
+    CASE WHEN _id IS NULL THEN 'MESSAGE_TEMPLATE_CREATED' ELSE 'MESSAGE_TEMPLATE_UPDATED' END,
+    'message_template',
+    v_id,
+    jsonb_build_object('name', trim(_name), 'locales', (SELECT jsonb_agg(k) FROM jsonb_object_keys(_html_body) k))
+  );
+
+  RETURN jsonb_build_object('status', 'OK', 'template_id', v_id, 'variables', v_validation->'variables');
+END;
+$$;
+
+COMMENT ON FUNCTION public.upsert_message_template(UUID, TEXT, JSONB, JSONB, JSONB, TEXT, TEXT, BOOLEAN, UUID) IS
+  'F030: Create or update a custom message template after validation (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.upsert_message_template(UUID, TEXT, JSONB, JSONB, JSONB, TEXT, TEXT, BOOLEAN, UUID) TO authenticated;
+
+-- ===========================================================================
+-- 9. RPC: preview_message_template (org members)
+-- ===========================================================================
+-- Rendert niet-opgeslagen content met een voorbeeld deelnemer: de gekozen
+-- deelnemer, anders de eerste inschrijving van het event, anders de
+-- sample_value uit de catalogus.
+
+CREATE OR REPLACE FUNCTION public.preview_message_template(
+  _event_id UUID,
+  _content JSONB,
+  _locale TEXT DEFAULT NULL,
+  _participant_id UUID DEFAULT NULL,
+  _site_origin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_participant_id UUID;
+  v_sample JSONB;
+  v_variables JSONB;
+  v_validation JSONB;
+  v_locale TEXT := COALESCE(_locale, 'nl');
+  v_default_locale TEXT := COALESCE(_content->>'default_locale', 'nl');
+  v_rendered JSONB := '{}'::jsonb;
+  v_field TEXT;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id AND deleted_at IS NULL;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF NOT public.is_valid_locale(v_locale) THEN
+    RETURN jsonb_build_object('error', 'INVALID_LOCALE');
+  END IF;
+
+  SELECT r.participant_id INTO v_participant_id
+  FROM registrations r
+  WHERE r.event_id = _event_id
+    AND (_participant_id IS NULL OR r.participant_id = _participant_id)
+  ORDER BY r.created_at
+  LIMIT 1;
+
+  SELECT jsonb_object_agg(v.key, v.sample_value) INTO v_sample
+  FROM message_template_variables v;
+
+  -- Catalogus samples als basis: lege deelnemer velden blijven zichtbaar
+  v_variables := COALESCE(v_sample, '{}'::jsonb)
+    || public.get_template_variables(_event_id, v_participant_id, _site_origin);
+
+  v_validation := public.validate_template_content(_content - 'default_locale');
+
+  FOREACH v_field IN ARRAY ARRAY['subject', 'html_body', 'text_body', 'sms_body', 'push_title', 'push_body'] LOOP
+    CONTINUE WHEN NOT _content ? v_field;
+    BEGIN
+      v_rendered := v_rendered || jsonb_build_object(v_field, public.render_template_text(
+        public.pick_template_locale(_content->v_field, v_locale, v_default_locale),
+        v_variables,
+        v_field = 'html_body'
+      ));
+    EXCEPTION WHEN OTHERS THEN
+      v_rendered := v_rendered || jsonb_build_object(v_field, NULL);
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'locale', v_locale,
+    'rendered', v_rendered,
+    'sample_participant', (
+      SELECT jsonb_build_object('id', p.id, 'name', trim(p.first_name || ' ' || COALESCE(p.last_name, '')))
+      FROM participants p WHERE p.id = v_participant_id
+    ),
+    'variables', v_variables,
+    'validation', v_validation
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.preview_message_template(UUID, JSONB, TEXT, UUID, TEXT) IS
+  'F030: Render template content with a sample participant of the event, including validation.';
+
+GRANT EXECUTE ON FUNCTION public.preview_message_template(UUID, JSONB, TEXT, UUID, TEXT) TO authenticated;
+
+-- ===========================================================================
+-- 10. RPC: dispatch_message_batches (render per recipient)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F029 behalve de content: merge variabelen per
+-- ontvanger (get_template_variables + variables van het batch item), bij
+-- template_id de locale variant van de deelnemer (get_participant_locale).
+
+CREATE OR REPLACE FUNCTION public.dispatch_message_batches(_limit INTEGER DEFAULT 5)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch RECORD;
+  v_item RECORD;
+  v_message_id UUID;
+  v_variables JSONB;
+  v_rendered JSONB;
+  v_batches INTEGER := 0;
+  v_queued INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  FOR v_batch IN
+    SELECT b.*
+    FROM message_batches b
+    WHERE b.status = 'queued'
+      AND (b.scheduled_at IS NULL OR b.scheduled_at <= NOW())
+    ORDER BY COALESCE(b.scheduled_at, b.created_at)
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE message_batches
+    SET status = 'processing', started_at = COALESCE(started_at, NOW())
+    WHERE id = v_batch.id;
+
+    FOR v_item IN
+      SELECT i.*
+      FROM message_batch_items i
+      WHERE i.batch_id = v_batch.id AND i.status = 'pending'
+    LOOP
+      v_message_id := NULL;
+      v_variables := public.get_template_variables(v_batch.event_id, v_item.participant_id, v_batch.site_origin)
+        || COALESCE(v_item.variables, '{}'::jsonb);
+
+      IF v_item.channel = 'email' THEN
+        IF v_batch.template_id IS NOT NULL THEN
+          v_rendered := public.render_message_template(
+            v_batch.template_id,
+            public.get_participant_locale(v_item.participant_id, v_batch.event_id),
+            v_variables
+          );
+        ELSE
+          v_rendered := jsonb_build_object(
+            'subject', public.render_template_text(v_batch.subject, v_variables),
+            'html_body', public.render_template_text(v_batch.html_body, v_variables, true),
+            'text_body', public.render_template_text(v_batch.text_body, v_variables)
+          );
+        END IF;
+
+        v_message_id := public.queue_email(
+          _org_id => v_batch.org_id,
+          _event_id => v_batch.event_id,
+          _idempotency_key => 'batch:' || v_batch.id::TEXT || ':' || v_item.id::TEXT,
+          _to_email => v_item.email,
+          _subject => v_rendered->>'subject',
+          _html_body => v_rendered->>'html_body',
+          _email_type => v_batch.email_type,
+          _text_body => v_rendered->>'text_body',
+          _template_id => v_batch.template_id,
+          _template_variables => v_variables,
+          _batch_id => v_batch.id
+        );
+      ELSE
+        v_message_id := public.queue_notification(
+          _org_id => v_batch.org_id,
+          _event_id => v_batch.event_id,
+          _channel => v_item.channel,
+          _participant_id => v_item.participant_id,
+          _idempotency_key => 'batch:' || v_batch.id::TEXT || ':' || v_item.id::TEXT,
+          _body => public.render_template_text(
+            CASE WHEN v_item.channel = 'sms' THEN v_batch.sms_body ELSE v_batch.push_body END,
+            v_variables
+          ),
+          _title => CASE WHEN v_item.channel = 'push' THEN public.render_template_text(v_batch.push_title, v_variables) END,
+          _url => CASE WHEN v_item.channel = 'push' THEN v_batch.push_url END,
+          _message_type => v_batch.email_type,
+          _batch_id => v_batch.id,
+          _metadata => jsonb_build_object('batch_item_id', v_item.id)
+        );
+      END IF;
+
+      UPDATE message_batch_items
+      SET status = CASE WHEN v_message_id IS NULL THEN 'skipped' ELSE 'queued' END::batch_item_status,
+          email_id = CASE WHEN v_item.channel = 'email' THEN v_message_id END,
+          notification_id = CASE WHEN v_item.channel <> 'email' THEN v_message_id END,
+          processed_at = NOW()
+      WHERE id = v_item.id;
+
+      IF v_message_id IS NULL THEN
+        v_skipped := v_skipped + 1;
+      ELSE
+        v_queued := v_queued + 1;
+      END IF;
+    END LOOP;
+
+    UPDATE message_batches b
+    SET status = 'sending',
+        queued_count = (
+          SELECT COUNT(*) FROM message_batch_items i
+          WHERE i.batch_id = b.id AND i.status = 'queued'
+        )
+    WHERE b.id = v_batch.id;
+
+    v_batches := v_batches + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'batches', v_batches,
+    'queued', v_queued,
+    'skipped', v_skipped
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.dispatch_message_batches(INTEGER) IS
+  'F030: System: turn pending batch items of due campaigns into rendered email/SMS/push outbox messages.';
+
+REVOKE ALL ON FUNCTION public.dispatch_message_batches(INTEGER) FROM public;
+GRANT EXECUTE ON FUNCTION public.dispatch_message_batches(INTEGER) TO service_role;
+
+-- ===========================================================================
+-- 11. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'message_template_variables') THEN
+    RAISE EXCEPTION 'message_template_variables table not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'render_template_text') THEN
+    RAISE EXCEPTION 'render_template_text not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'preview_message_template') THEN
+    RAISE EXCEPTION 'preview_message_template not created';
+  END IF;
+
+  IF public.render_template_text(
+    'Hoi {{first_name}}{{#if time_slot}}, start {{time_slot}}{{else}}, geen slot{{/if}}',
+    '{"first_name": "Sanne", "time_slot": "Wave A"}'::jsonb
+  ) <> 'Hoi Sanne, start Wave A' THEN
+    RAISE EXCEPTION 'render_template_text renders incorrectly';
+  END IF;
+
+  IF (public.validate_template_content('{"subject": "{{unknown_var}}"}'::jsonb)->>'valid')::BOOLEAN THEN
+    RAISE EXCEPTION 'validate_template_content accepts unknown variables';
+  END IF;
+
+  RAISE NOTICE 'F030: Message template engine created successfully';
+END $$;
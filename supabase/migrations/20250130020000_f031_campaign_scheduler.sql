@@ -0,0 +1,916 @@
+-- ===========================================================================
+-- F031: Campaign Scheduler & Send-Window Throttling
+-- Migration: 20250130020000_f031_campaign_scheduler.sql
+--
+-- Purpose:
+-- - Campagnes met een trigger: vast tijdstip (scheduled_at), relatief t.o.v.
+--   de start van het event ("7 dagen voor de start") of per deelnemer na
+--   check-in ("1 dag na check-in", doorlopend tot na het event)
+-- - Verzendvenster per campagne (bv. 09:00-21:00, tijdzone per campagne)
+-- - Throttling per organisatie op basis van communication.rate_limits
+--   (emails_per_minute / emails_per_hour uit de org settings)
+-- - Voortgang, pauzeren, hervatten en annuleren van campagnes
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. COLUMNS: message_batches (trigger + verzendvenster)
+-- ===========================================================================
+-- trigger_type:
+-- - scheduled:   ontvangers bij aanmaken vastgelegd, verzending op
+--                scheduled_at (of direct)
+-- - event_start: ontvangers bepaald op events.start_time + offset
+--                (negatief = ervoor)
+-- - check_in:    per deelnemer op eerste check-in + offset; de campagne blijft
+--                open tot het einde van het event + offset
+
+ALTER TABLE message_batches
+  ADD COLUMN IF NOT EXISTS trigger_type TEXT NOT NULL DEFAULT 'scheduled',
+  ADD COLUMN IF NOT EXISTS trigger_offset_minutes INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS send_window_start TIME,
+  ADD COLUMN IF NOT EXISTS send_window_end TIME,
+  ADD COLUMN IF NOT EXISTS send_window_timezone TEXT NOT NULL DEFAULT 'Europe/Amsterdam',
+  ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+  ALTER TABLE message_batches DROP CONSTRAINT IF EXISTS message_batches_valid_trigger;
+  ALTER TABLE message_batches ADD CONSTRAINT message_batches_valid_trigger CHECK (
+    trigger_type IN ('scheduled', 'event_start', 'check_in')
+    AND (trigger_type = 'scheduled' OR event_id IS NOT NULL)
+    AND (trigger_type <> 'check_in' OR trigger_offset_minutes >= 0)
+    AND abs(trigger_offset_minutes) <= 525600
+  );
+
+  ALTER TABLE message_batches DROP CONSTRAINT IF EXISTS message_batches_valid_send_window;
+  ALTER TABLE message_batches ADD CONSTRAINT message_batches_valid_send_window CHECK (
+    (send_window_start IS NULL) = (send_window_end IS NULL)
+    AND (send_window_start IS NULL OR send_window_start <> send_window_end)
+  );
+END $$;
+
+COMMENT ON COLUMN message_batches.trigger_type IS
+  'F031: scheduled (scheduled_at), event_start (start_time + offset) or check_in (per participant, check-in + offset).';
+COMMENT ON COLUMN message_batches.trigger_offset_minutes IS
+  'F031: Offset in minutes relative to the trigger; negative = before event start.';
+COMMENT ON COLUMN message_batches.send_window_start IS
+  'F031: Messages of this campaign are only sent between send_window_start and send_window_end (send_window_timezone); may wrap midnight.';
+
+-- Throttling telt pogingen per org in het laatste uur
+CREATE INDEX IF NOT EXISTS idx_email_outbox_org_attempts
+  ON email_outbox(org_id, last_attempt_at)
+  WHERE last_attempt_at IS NOT NULL;
+
+-- ===========================================================================
+-- 2. HELPERS: is_within_send_window, get_org_email_rate_limits
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.is_within_send_window(
+  _start TIME,
+  _end TIME,
+  _timezone TEXT,
+  _at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN _start IS NULL OR _end IS NULL THEN true
+    WHEN _start < _end THEN (_at AT TIME ZONE _timezone)::TIME >= _start
+                        AND (_at AT TIME ZONE _timezone)::TIME < _end
+    -- Venster over middernacht, bv. 22:00-02:00
+    ELSE (_at AT TIME ZONE _timezone)::TIME >= _start
+      OR (_at AT TIME ZONE _timezone)::TIME < _end
+  END;
+$$;
+
+COMMENT ON FUNCTION public.is_within_send_window(TIME, TIME, TEXT, TIMESTAMPTZ) IS
+  'F031: True when _at falls inside the [start, end) window in _timezone (no window = always).';
+
+-- Org defaults over de systeem defaults; event overrides tellen niet mee
+-- omdat de limiet voor de hele organisatie geldt.
+CREATE OR REPLACE FUNCTION public.get_org_email_rate_limits(_org_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.jsonb_deep_merge(
+    public.get_default_settings('communication'),
+    COALESCE(
+      (SELECT setting_value FROM org_settings WHERE org_id = _org_id AND domain = 'communication'),
+      '{}'::jsonb
+    )
+  )->'rate_limits';
+$$;
+
+COMMENT ON FUNCTION public.get_org_email_rate_limits(UUID) IS
+  'F031: System: effective communication.rate_limits of an organisation (system defaults || org settings).';
+
+REVOKE ALL ON FUNCTION public.get_org_email_rate_limits(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_org_email_rate_limits(UUID) TO service_role;
+
+-- ===========================================================================
+-- 3. FUNCTIONS: get_message_batch_run_at, get_campaign_recipients
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.get_message_batch_run_at(_batch_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE b.trigger_type
+    WHEN 'event_start' THEN e.start_time + make_interval(mins => b.trigger_offset_minutes)
+    WHEN 'check_in' THEN COALESCE(b.started_at, b.created_at)
+    ELSE COALESCE(b.scheduled_at, b.created_at)
+  END
+  FROM message_batches b
+  LEFT JOIN events e ON e.id = b.event_id
+  WHERE b.id = _batch_id;
+$$;
+
+COMMENT ON FUNCTION public.get_message_batch_run_at(UUID) IS
+  'F031: System: moment a campaign becomes due (scheduled_at, event start + offset, or immediately for check-in triggers).';
+
+-- Zelfde filters als bulk-email (all / ticket_type / custom), voor
+-- campagnes waarvan de ontvangers pas bij verzending bepaald worden.
+CREATE OR REPLACE FUNCTION public.get_campaign_recipients(_event_id UUID, _filter JSONB)
+RETURNS TABLE (participant_id UUID, email TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, lower(p.email)
+  FROM participants p
+  WHERE p.id IN (
+    SELECT value::UUID
+    FROM jsonb_array_elements_text(COALESCE(_filter->'participant_ids', '[]'::jsonb))
+    WHERE _filter->>'type' = 'custom'
+    UNION
+    SELECT r.participant_id
+    FROM registrations r
+    WHERE _filter->>'type' IN ('all', 'ticket_type')
+      AND r.event_id = _event_id
+      AND r.status IN ('pending', 'confirmed')
+      AND (_filter->>'type' = 'all' OR r.ticket_type_id = (_filter->>'ticket_type_id')::UUID)
+    UNION
+    SELECT ti.participant_id
+    FROM ticket_instances ti
+    WHERE _filter->>'type' IN ('all', 'ticket_type')
+      AND ti.event_id = _event_id
+      AND ti.participant_id IS NOT NULL
+      AND ti.status <> 'void'
+      AND ti.deleted_at IS NULL
+      AND (_filter->>'type' = 'all' OR ti.ticket_type_id = (_filter->>'ticket_type_id')::UUID)
+  );
+$$;
+
+COMMENT ON FUNCTION public.get_campaign_recipients(UUID, JSONB) IS
+  'F031: System: participants matching a campaign recipient_filter (all, ticket_type, custom).';
+
+REVOKE ALL ON FUNCTION public.get_campaign_recipients(UUID, JSONB) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_campaign_recipients(UUID, JSONB) TO service_role;
+
+-- ===========================================================================
+-- 4. FUNCTION: refresh_message_batch_progress
+-- ===========================================================================
+-- Tellers uit de items en de outbox berekenen. Een campagne in 'sending' is
+-- klaar als er niets meer pending of onderweg is (check-in triggers pas
+-- nadat het venster na het event gesloten is).
+
+CREATE OR REPLACE FUNCTION public.refresh_message_batch_progress(_batch_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_items RECORD;
+  v_emails RECORD;
+  v_notifications RECORD;
+  v_open BOOLEAN;
+  v_status TEXT;
+BEGIN
+  SELECT
+    COUNT(*) AS total,
+    COUNT(*) FILTER (WHERE status = 'pending') AS pending,
+    COUNT(*) FILTER (WHERE status = 'queued') AS queued
+  INTO v_items
+  FROM message_batch_items
+  WHERE batch_id = _batch_id;
+
+  SELECT
+    COUNT(*) FILTER (WHERE status IN ('sent', 'delivered')) AS sent,
+    COUNT(*) FILTER (WHERE status = 'delivered') AS delivered,
+    COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+    COUNT(*) FILTER (WHERE status IN ('bounced', 'complained')) AS bounced,
+    COUNT(*) FILTER (WHERE status IN ('queued', 'processing', 'soft_bounced')) AS in_flight
+  INTO v_emails
+  FROM email_outbox
+  WHERE batch_id = _batch_id;
+
+  SELECT
+    COUNT(*) FILTER (WHERE status = 'sent') AS sent,
+    COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+    COUNT(*) FILTER (WHERE status IN ('queued', 'processing', 'soft_bounced')) AS in_flight
+  INTO v_notifications
+  FROM notification_outbox
+  WHERE batch_id = _batch_id;
+
+  SELECT b.trigger_type = 'check_in'
+    AND NOW() < COALESCE(e.end_time, e.start_time + INTERVAL '1 day') + make_interval(mins => b.trigger_offset_minutes)
+  INTO v_open
+  FROM message_batches b
+  LEFT JOIN events e ON e.id = b.event_id
+  WHERE b.id = _batch_id;
+
+  UPDATE message_batches
+  SET total_recipients = v_items.total,
+      queued_count = v_items.queued,
+      sent_count = v_emails.sent + v_notifications.sent,
+      delivered_count = v_emails.delivered,
+      failed_count = v_emails.failed + v_notifications.failed,
+      bounced_count = v_emails.bounced,
+      status = CASE
+        WHEN status = 'sending' AND v_items.pending = 0
+          AND v_emails.in_flight + v_notifications.in_flight = 0
+          AND NOT COALESCE(v_open, false)
+        THEN 'completed'::batch_status
+        ELSE status
+      END,
+      completed_at = CASE
+        WHEN status = 'sending' AND v_items.pending = 0
+          AND v_emails.in_flight + v_notifications.in_flight = 0
+          AND NOT COALESCE(v_open, false)
+        THEN NOW()
+        ELSE completed_at
+      END
+  WHERE id = _batch_id
+  RETURNING status::TEXT INTO v_status;
+
+  RETURN v_status;
+END;
+$$;
+
+COMMENT ON FUNCTION public.refresh_message_batch_progress(UUID) IS
+  'F031: System: recompute campaign counters from items/outbox and complete finished campaigns.';
+
+REVOKE ALL ON FUNCTION public.refresh_message_batch_progress(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.refresh_message_batch_progress(UUID) TO service_role;
+
+-- ===========================================================================
+-- 5. RPC: dispatch_message_batches (triggers)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F030 in het renderen en queuen van items. Nieuw:
+-- - due = get_message_batch_run_at (scheduled_at / event start + offset)
+-- - event_start: ontvangers worden bij de eerste run vastgelegd
+-- - check_in: elke run items voor nieuw ingecheckte deelnemers
+--   (check-in + offset verstreken); de campagne blijft in 'sending'
+-- - voortgang en afronding via refresh_message_batch_progress
+
+CREATE OR REPLACE FUNCTION public.dispatch_message_batches(_limit INTEGER DEFAULT 5)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch RECORD;
+  v_item RECORD;
+  v_message_id UUID;
+  v_variables JSONB;
+  v_rendered JSONB;
+  v_batch_id UUID;
+  v_batches INTEGER := 0;
+  v_queued INTEGER := 0;
+  v_skipped INTEGER := 0;
+  v_completed INTEGER := 0;
+BEGIN
+  FOR v_batch IN
+    SELECT b.*
+    FROM message_batches b
+    WHERE (b.status = 'queued' AND public.get_message_batch_run_at(b.id) <= NOW())
+       OR (b.status = 'sending' AND b.trigger_type = 'check_in')
+    ORDER BY public.get_message_batch_run_at(b.id)
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE message_batches
+    SET status = 'processing', started_at = COALESCE(started_at, NOW())
+    WHERE id = v_batch.id;
+
+    -- Relatieve triggers: ontvangers nu bepalen (dedupe via de unieke indexen)
+    IF v_batch.trigger_type = 'event_start' AND v_batch.started_at IS NULL THEN
+      INSERT INTO message_batch_items (batch_id, channel, participant_id, email, status)
+      SELECT v_batch.id, ch.channel, r.participant_id,
+             CASE WHEN ch.channel = 'email' THEN r.email END, 'pending'
+      FROM public.get_campaign_recipients(v_batch.event_id, v_batch.recipient_filter) r
+      CROSS JOIN unnest(v_batch.channels) AS ch(channel)
+      WHERE ch.channel <> 'email' OR r.email ~ '^[^@\s]+@[^@\s]+\.[^@\s]+$'
+      ON CONFLICT DO NOTHING;
+
+    ELSIF v_batch.trigger_type = 'check_in' THEN
+      INSERT INTO message_batch_items (batch_id, channel, participant_id, email, status)
+      SELECT v_batch.id, ch.channel, r.participant_id,
+             CASE WHEN ch.channel = 'email' THEN r.email END, 'pending'
+      FROM public.get_campaign_recipients(v_batch.event_id, v_batch.recipient_filter) r
+      JOIN LATERAL (
+        SELECT MIN(ti.checked_in_at) AS checked_in_at
+        FROM ticket_instances ti
+        WHERE ti.event_id = v_batch.event_id
+          AND ti.participant_id = r.participant_id
+          AND ti.checked_in_at IS NOT NULL
+      ) c ON c.checked_in_at + make_interval(mins => v_batch.trigger_offset_minutes) <= NOW()
+      CROSS JOIN unnest(v_batch.channels) AS ch(channel)
+      WHERE ch.channel <> 'email' OR r.email ~ '^[^@\s]+@[^@\s]+\.[^@\s]+$'
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    FOR v_item IN
+      SELECT i.*
+      FROM message_batch_items i
+      WHERE i.batch_id = v_batch.id AND i.status = 'pending'
+    LOOP
+      v_message_id := NULL;
+      v_variables := public.get_template_variables(v_batch.event_id, v_item.participant_id, v_batch.site_origin)
+        || COALESCE(v_item.variables, '{}'::jsonb);
+
+      IF v_item.channel = 'email' THEN
+        IF v_batch.template_id IS NOT NULL THEN
+          v_rendered := public.render_message_template(
+            v_batch.template_id,
+            public.get_participant_locale(v_item.participant_id, v_batch.event_id),
+            v_variables
+          );
+        ELSE
+          v_rendered := jsonb_build_object(
+            'subject', public.render_template_text(v_batch.subject, v_variables),
+            'html_body', public.render_template_text(v_batch.html_body, v_variables, true),
+            'text_body', public.render_template_text(v_batch.text_body, v_variables)
+          );
+        END IF;
+
+        v_message_id := public.queue_email(
+          _org_id => v_batch.org_id,
+          _event_id => v_batch.event_id,
+          _idempotency_key => 'batch:' || v_batch.id::TEXT || ':' || v_item.id::TEXT,
+          _to_email => v_item.email,
+          _subject => v_rendered->>'subject',
+          _html_body => v_rendered->>'html_body',
+          _email_type => v_batch.email_type,
+          _text_body => v_rendered->>'text_body',
+          _template_id => v_batch.template_id,
+          _template_variables => v_variables,
+          _batch_id => v_batch.id
+        );
+      ELSE
+        v_message_id := public.queue_notification(
+          _org_id => v_batch.org_id,
+          _event_id => v_batch.event_id,
+          _channel => v_item.channel,
+          _participant_id => v_item.participant_id,
+          _idempotency_key => 'batch:' || v_batch.id::TEXT || ':' || v_item.id::TEXT,
+          _body => public.render_template_text(
+            CASE WHEN v_item.channel = 'sms' THEN v_batch.sms_body ELSE v_batch.push_body END,
+            v_variables
+          ),
+          _title => CASE WHEN v_item.channel = 'push' THEN public.render_template_text(v_batch.push_title, v_variables) END,
+          _url => CASE WHEN v_item.channel = 'push' THEN v_batch.push_url END,
+          _message_type => v_batch.email_type,
+          _batch_id => v_batch.id,
+          _metadata => jsonb_build_object('batch_item_id', v_item.id)
+        );
+      END IF;
+
+      UPDATE message_batch_items
+      SET status = CASE WHEN v_message_id IS NULL THEN 'skipped' ELSE 'queued' END::batch_item_status,
+          email_id = CASE WHEN v_item.channel = 'email' THEN v_message_id END,
+          notification_id = CASE WHEN v_item.channel <> 'email' THEN v_message_id END,
+          processed_at = NOW()
+      WHERE id = v_item.id;
+
+      IF v_message_id IS NULL THEN
+        v_skipped := v_skipped + 1;
+      ELSE
+        v_queued := v_queued + 1;
+      END IF;
+    END LOOP;
+
+    UPDATE message_batches
+    SET status = 'sending'
+    WHERE id = v_batch.id;
+
+    v_batches := v_batches + 1;
+  END LOOP;
+
+  -- Voortgang van lopende (en gepauzeerde) campagnes bijwerken
+  FOR v_batch_id IN
+    SELECT id FROM message_batches WHERE status IN ('sending', 'paused')
+  LOOP
+    IF public.refresh_message_batch_progress(v_batch_id) = 'completed' THEN
+      v_completed := v_completed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'batches', v_batches,
+    'queued', v_queued,
+    'skipped', v_skipped,
+    'completed', v_completed
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.dispatch_message_batches(INTEGER) IS
+  'F031: System: release due campaigns (scheduled, event_start, check_in), render pending items into outbox messages and refresh progress.';
+
+REVOKE ALL ON FUNCTION public.dispatch_message_batches(INTEGER) FROM public;
+GRANT EXECUTE ON FUNCTION public.dispatch_message_batches(INTEGER) TO service_role;
+
+-- ===========================================================================
+-- 6. RPC: claim_outbox_emails (throttling per org)
+-- ===========================================================================
+-- Vervangt de select + lock in process-outbox. Per org:
+-- - transactionele/system emails altijd (tellen wel mee in het budget)
+-- - marketing emails tot emails_per_minute / emails_per_hour, alleen als de
+--   campagne niet gepauzeerd/geannuleerd is en binnen het verzendvenster valt
+-- Budget = pogingen (last_attempt_at) in de laatste minuut / het laatste uur.
+
+CREATE OR REPLACE FUNCTION public.claim_outbox_emails(_limit INTEGER DEFAULT 100)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org RECORD;
+  v_limits JSONB;
+  v_budget INTEGER;
+  v_ids UUID[];
+  v_claimed UUID[] := ARRAY[]::UUID[];
+  v_jobs JSONB;
+  v_deferred INTEGER := 0;
+BEGIN
+  FOR v_org IN
+    SELECT e.org_id
+    FROM email_outbox e
+    WHERE e.status IN ('queued', 'soft_bounced')
+      AND e.scheduled_at <= NOW()
+      AND (e.next_attempt_at IS NULL OR e.next_attempt_at <= NOW())
+    GROUP BY e.org_id
+    ORDER BY MIN(e.created_at)
+  LOOP
+    EXIT WHEN cardinality(v_claimed) >= _limit;
+
+    -- 6a. Transactioneel: nooit tegenhouden
+    SELECT COALESCE(array_agg(t.id), ARRAY[]::UUID[]) INTO v_ids
+    FROM (
+      SELECT e.id
+      FROM email_outbox e
+      WHERE e.org_id = v_org.org_id
+        AND e.email_type <> 'marketing'
+        AND e.status IN ('queued', 'soft_bounced')
+        AND e.scheduled_at <= NOW()
+        AND (e.next_attempt_at IS NULL OR e.next_attempt_at <= NOW())
+      ORDER BY e.created_at
+      LIMIT _limit - cardinality(v_claimed)
+      FOR UPDATE SKIP LOCKED
+    ) t;
+
+    v_claimed := v_claimed || v_ids;
+
+    -- 6b. Marketing: binnen het resterende budget van de org
+    v_limits := public.get_org_email_rate_limits(v_org.org_id);
+
+    SELECT LEAST(
+      COALESCE((v_limits->>'emails_per_minute')::INTEGER, 100)
+        - COUNT(*) FILTER (WHERE e.last_attempt_at > NOW() - INTERVAL '1 minute'),
+      COALESCE((v_limits->>'emails_per_hour')::INTEGER, 5000)
+        - COUNT(*)
+    ) - cardinality(v_ids)
+    INTO v_budget
+    FROM email_outbox e
+    WHERE e.org_id = v_org.org_id
+      AND e.last_attempt_at > NOW() - INTERVAL '1 hour';
+
+    v_budget := LEAST(v_budget, _limit - cardinality(v_claimed));
+    CONTINUE WHEN v_budget <= 0;
+
+    SELECT COALESCE(array_agg(t.id), ARRAY[]::UUID[]) INTO v_ids
+    FROM (
+      SELECT e.id
+      FROM email_outbox e
+      LEFT JOIN message_batches b ON b.id = e.batch_id
+      WHERE e.org_id = v_org.org_id
+        AND e.email_type = 'marketing'
+        AND e.status IN ('queued', 'soft_bounced')
+        AND e.scheduled_at <= NOW()
+        AND (e.next_attempt_at IS NULL OR e.next_attempt_at <= NOW())
+        AND (b.id IS NULL OR (
+          b.status NOT IN ('paused', 'cancelled')
+          AND public.is_within_send_window(b.send_window_start, b.send_window_end, b.send_window_timezone)
+        ))
+      ORDER BY e.created_at
+      LIMIT v_budget
+      FOR UPDATE OF e SKIP LOCKED
+    ) t;
+
+    v_claimed := v_claimed || v_ids;
+  END LOOP;
+
+  WITH claimed AS (
+    UPDATE email_outbox
+    SET status = 'processing',
+        last_attempt_at = NOW()
+    WHERE id = ANY (v_claimed)
+    RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', c.id,
+    'org_id', c.org_id,
+    'from_name', c.from_name,
+    'from_email', c.from_email,
+    'reply_to', c.reply_to,
+    'to_email', c.to_email,
+    'subject', c.subject,
+    'html_body', c.html_body,
+    'text_body', c.text_body,
+    'attempt_count', c.attempt_count,
+    'max_attempts', c.max_attempts,
+    'attachments', c.attachments
+  ) ORDER BY c.created_at), '[]'::jsonb)
+  INTO v_jobs
+  FROM claimed c;
+
+  SELECT COUNT(*) INTO v_deferred
+  FROM email_outbox e
+  WHERE e.status IN ('queued', 'soft_bounced')
+    AND e.email_type = 'marketing'
+    AND e.scheduled_at <= NOW()
+    AND (e.next_attempt_at IS NULL OR e.next_attempt_at <= NOW());
+
+  RETURN jsonb_build_object('status', 'OK', 'jobs', v_jobs, 'deferred', v_deferred);
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_outbox_emails(INTEGER) IS
+  'F031: System: claim due emails (SKIP LOCKED), throttling marketing per org by rate_limits, send window and campaign status.';
+
+REVOKE ALL ON FUNCTION public.claim_outbox_emails(INTEGER) FROM public;
+GRANT EXECUTE ON FUNCTION public.claim_outbox_emails(INTEGER) TO service_role;
+
+-- ===========================================================================
+-- 7. RPC: claim_notifications (verzendvenster + campagnestatus)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F029 behalve: berichten van gepauzeerde/geannuleerde
+-- campagnes en buiten het verzendvenster blijven staan.
+
+CREATE OR REPLACE FUNCTION public.claim_notifications(_limit INTEGER DEFAULT 100)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_jobs JSONB;
+BEGIN
+  WITH claimed AS (
+    UPDATE notification_outbox n
+    SET status = 'processing',
+        attempt_count = n.attempt_count + 1,
+        last_attempt_at = NOW()
+    WHERE n.id IN (
+      SELECT o.id
+      FROM notification_outbox o
+      LEFT JOIN message_batches b ON b.id = o.batch_id
+      WHERE o.status IN ('queued', 'soft_bounced') AND o.next_attempt_at <= NOW()
+        AND (b.id IS NULL OR (
+          b.status NOT IN ('paused', 'cancelled')
+          AND public.is_within_send_window(b.send_window_start, b.send_window_end, b.send_window_timezone)
+        ))
+      ORDER BY o.next_attempt_at
+      LIMIT _limit
+      FOR UPDATE OF o SKIP LOCKED
+    )
+    RETURNING n.*
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', c.id,
+    'org_id', c.org_id,
+    'channel', c.channel,
+    'attempt_count', c.attempt_count,
+    'max_attempts', c.max_attempts,
+    'to_phone', c.to_phone,
+    'to_user_id', c.to_user_id,
+    'title', c.title,
+    'body', c.body,
+    'url', c.url,
+    'subscriptions', CASE WHEN c.channel = 'push' THEN (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', s.id, 'endpoint', s.endpoint, 'p256dh', s.p256dh, 'auth', s.auth
+      )), '[]'::jsonb)
+      FROM push_subscriptions s
+      WHERE s.user_id = c.to_user_id
+    ) END
+  )), '[]'::jsonb)
+  INTO v_jobs
+  FROM claimed c;
+
+  RETURN jsonb_build_object('status', 'OK', 'jobs', v_jobs);
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_notifications(INTEGER) IS
+  'F031: System: claim due SMS/push notifications (SKIP LOCKED), respecting campaign status and send window.';
+
+REVOKE ALL ON FUNCTION public.claim_notifications(INTEGER) FROM public;
+GRANT EXECUTE ON FUNCTION public.claim_notifications(INTEGER) TO service_role;
+
+-- ===========================================================================
+-- 8. RPC: get_event_campaigns
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.get_event_campaigns(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_campaigns JSONB;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id;
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', b.id,
+    'name', b.name,
+    'status', b.status,
+    'channels', b.channels,
+    'trigger_type', b.trigger_type,
+    'trigger_offset_minutes', b.trigger_offset_minutes,
+    'run_at', public.get_message_batch_run_at(b.id),
+    'send_window_start', to_char(b.send_window_start, 'HH24:MI'),
+    'send_window_end', to_char(b.send_window_end, 'HH24:MI'),
+    'send_window_timezone', b.send_window_timezone,
+    'total_recipients', b.total_recipients,
+    'pending_count', (
+      SELECT COUNT(*) FROM message_batch_items i
+      WHERE i.batch_id = b.id AND i.status = 'pending'
+    ),
+    'skipped_count', (
+      SELECT COUNT(*) FROM message_batch_items i
+      WHERE i.batch_id = b.id AND i.status = 'skipped'
+    ),
+    'queued_count', b.queued_count,
+    'sent_count', b.sent_count,
+    'delivered_count', b.delivered_count,
+    'failed_count', b.failed_count,
+    'bounced_count', b.bounced_count,
+    'created_at', b.created_at,
+    'started_at', b.started_at,
+    'paused_at', b.paused_at,
+    'completed_at', b.completed_at,
+    'cancelled_at', b.cancelled_at
+  ) ORDER BY b.created_at DESC), '[]'::jsonb)
+  INTO v_campaigns
+  FROM message_batches b
+  WHERE b.event_id = _event_id
+    AND b.status <> 'draft';
+
+  RETURN jsonb_build_object('status', 'OK', 'campaigns', v_campaigns);
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_event_campaigns(UUID) IS
+  'F031: Campaigns of an event with trigger, send window and progress counters (org members).';
+
+GRANT EXECUTE ON FUNCTION public.get_event_campaigns(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 9. RPC: pause_message_batch / resume_message_batch / cancel_message_batch
+-- ===========================================================================
+-- Pauzeren houdt zowel het vrijgeven van items als het verzenden van al
+-- gequeuede berichten tegen (claim_outbox_emails / claim_notifications).
+-- Annuleren slaat pending items over en annuleert berichten die nog niet
+-- verzonden zijn; wat al verstuurd is blijft staan.
+
+CREATE OR REPLACE FUNCTION public.pause_message_batch(_batch_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch RECORD;
+BEGIN
+  SELECT id, org_id, status INTO v_batch
+  FROM message_batches
+  WHERE id = _batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'BATCH_NOT_FOUND');
+  END IF;
+
+  IF NOT (public.has_role(v_batch.org_id, 'admin') OR public.has_role(v_batch.org_id, 'owner')) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF v_batch.status NOT IN ('queued', 'processing', 'sending') THEN
+    RETURN jsonb_build_object('error', 'INVALID_STATUS', 'batch_status', v_batch.status);
+  END IF;
+
+  UPDATE message_batches
+  SET status = 'paused', paused_at = NOW()
+  WHERE id = _batch_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_batch.org_id, auth.uid(), 'MESSAGE_BATCH_PAUSED', 'message_batch', _batch_id,
+          jsonb_build_object('previous_status', v_batch.status));
+
+  RETURN jsonb_build_object('status', 'OK', 'batch_status', 'paused');
+END;
+$$;
+
+COMMENT ON FUNCTION public.pause_message_batch(UUID) IS
+  'F031: Pause a campaign (admin/owner); queued messages are held until resume.';
+
+GRANT EXECUTE ON FUNCTION public.pause_message_batch(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.resume_message_batch(_batch_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch RECORD;
+  v_status batch_status;
+BEGIN
+  SELECT id, org_id, status, started_at INTO v_batch
+  FROM message_batches
+  WHERE id = _batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'BATCH_NOT_FOUND');
+  END IF;
+
+  IF NOT (public.has_role(v_batch.org_id, 'admin') OR public.has_role(v_batch.org_id, 'owner')) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF v_batch.status <> 'paused' THEN
+    RETURN jsonb_build_object('error', 'INVALID_STATUS', 'batch_status', v_batch.status);
+  END IF;
+
+  -- Nog niet gestart of items over → terug naar de scheduler
+  v_status := CASE
+    WHEN v_batch.started_at IS NULL
+      OR EXISTS (SELECT 1 FROM message_batch_items WHERE batch_id = _batch_id AND status = 'pending')
+    THEN 'queued'
+    ELSE 'sending'
+  END;
+
+  UPDATE message_batches
+  SET status = v_status, paused_at = NULL
+  WHERE id = _batch_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_batch.org_id, auth.uid(), 'MESSAGE_BATCH_RESUMED', 'message_batch', _batch_id,
+          jsonb_build_object('new_status', v_status));
+
+  RETURN jsonb_build_object('status', 'OK', 'batch_status', v_status);
+END;
+$$;
+
+COMMENT ON FUNCTION public.resume_message_batch(UUID) IS
+  'F031: Resume a paused campaign (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.resume_message_batch(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_message_batch(_batch_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch RECORD;
+  v_skipped INTEGER;
+  v_emails INTEGER;
+  v_notifications INTEGER;
+BEGIN
+  SELECT id, org_id, status INTO v_batch
+  FROM message_batches
+  WHERE id = _batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'BATCH_NOT_FOUND');
+  END IF;
+
+  IF NOT (public.has_role(v_batch.org_id, 'admin') OR public.has_role(v_batch.org_id, 'owner')) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF v_batch.status IN ('completed', 'cancelled', 'failed') THEN
+    RETURN jsonb_build_object('error', 'INVALID_STATUS', 'batch_status', v_batch.status);
+  END IF;
+
+  UPDATE message_batch_items
+  SET status = 'skipped', processed_at = NOW()
+  WHERE batch_id = _batch_id AND status = 'pending';
+  GET DIAGNOSTICS v_skipped = ROW_COUNT;
+
+  WITH cancelled AS (
+    UPDATE email_outbox
+    SET status = 'cancelled', next_attempt_at = NULL
+    WHERE batch_id = _batch_id AND status IN ('queued', 'soft_bounced')
+    RETURNING id, status
+  ), logged AS (
+    INSERT INTO email_outbox_events (email_id, event_type, new_status, metadata)
+    SELECT id, 'cancelled', 'cancelled', jsonb_build_object('batch_id', _batch_id)
+    FROM cancelled
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO v_emails FROM logged;
+
+  UPDATE notification_outbox
+  SET status = 'cancelled'
+  WHERE batch_id = _batch_id AND status IN ('queued', 'soft_bounced');
+  GET DIAGNOSTICS v_notifications = ROW_COUNT;
+
+  UPDATE message_batches
+  SET status = 'cancelled', cancelled_at = NOW(), paused_at = NULL
+  WHERE id = _batch_id;
+
+  PERFORM public.refresh_message_batch_progress(_batch_id);
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_batch.org_id, auth.uid(), 'MESSAGE_BATCH_CANCELLED', 'message_batch', _batch_id,
+          jsonb_build_object(
+            'previous_status', v_batch.status,
+            'items_skipped', v_skipped,
+            'emails_cancelled', v_emails,
+            'notifications_cancelled', v_notifications
+          ));
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'batch_status', 'cancelled',
+    'items_skipped', v_skipped,
+    'emails_cancelled', v_emails,
+    'notifications_cancelled', v_notifications
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.cancel_message_batch(UUID) IS
+  'F031: Cancel a campaign (admin/owner): skip pending items and cancel unsent outbox messages.';
+
+GRANT EXECUTE ON FUNCTION public.cancel_message_batch(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 10. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'message_batches' AND column_name = 'trigger_type'
+  ) THEN
+    RAISE EXCEPTION 'message_batches.trigger_type not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'claim_outbox_emails') THEN
+    RAISE EXCEPTION 'claim_outbox_emails not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'cancel_message_batch') THEN
+    RAISE EXCEPTION 'cancel_message_batch not created';
+  END IF;
+
+  IF NOT public.is_within_send_window('22:00', '02:00', 'UTC', '2025-01-01 23:30:00+00')
+     OR public.is_within_send_window('09:00', '21:00', 'UTC', '2025-01-01 21:00:00+00') THEN
+    RAISE EXCEPTION 'is_within_send_window evaluates incorrectly';
+  END IF;
+
+  RAISE NOTICE 'F031: Campaign scheduler created successfully';
+END $$;
@@ -0,0 +1,898 @@
+-- ===========================================================================
+-- F032: Participant Segments
+-- Migration: 20250130030000_f032_participant_segments.sql
+--
+-- Purpose:
+-- - Opgeslagen segmenten per event: een combinatie van voorwaarden
+--   (alle / een van) op tickettype, tijdslot, antwoorden op registratievragen,
+--   orderstatus, registratiestatus, check-in, gebruikte korting, ontvangen
+--   transfer en "gekocht in de laatste N dagen"
+-- - Live telling (preview) van het aantal deelnemers tijdens het bouwen
+-- - Herbruikbaar: campagnes (recipient_filter type 'segment'), de
+--   deelnemerslijst en de CSV export filteren op segment_id
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: participant_segments
+-- ===========================================================================
+-- definition:
+--   { "match": "all" | "any",
+--     "conditions": [ { "type": "ticket_type", "ticket_type_ids": [...] }, ... ] }
+--
+-- Voorwaarden:
+-- - ticket_type             { ticket_type_ids: [uuid] }
+-- - time_slot               { time_slot_ids: [uuid] }
+-- - registration_answer     { question_id, operator: equals | not_equals |
+--                             contains | is_set | is_not_set, value }
+-- - order_status            { statuses: [order_status] }
+-- - registration_status     { statuses: [registration_status] }
+-- - check_in                { checked_in: bool }
+-- - discount_code           { discount_ids: [uuid] }  (leeg = elke korting)
+-- - transfer_received       { received: bool }
+-- - purchased_within_days   { days: 1..3650 }
+--
+-- Segmenten zijn dynamisch: de voorwaarden worden bij elk gebruik opnieuw
+-- geevalueerd, er wordt geen ledenlijst opgeslagen.
+
+CREATE TABLE IF NOT EXISTS participant_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 100),
+  description TEXT,
+  definition JSONB NOT NULL DEFAULT '{"match": "all", "conditions": []}'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT participant_segments_definition_shape CHECK (
+    jsonb_typeof(definition) = 'object'
+    AND definition->>'match' IN ('all', 'any')
+    AND jsonb_typeof(definition->'conditions') = 'array'
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_participant_segments_event_name
+  ON participant_segments(event_id, lower(name));
+
+COMMENT ON TABLE participant_segments IS
+  'F032: Saved, dynamic participant segments per event (combined conditions), reusable in campaigns, participant list and export.';
+COMMENT ON COLUMN participant_segments.definition IS
+  'F032: { match: all|any, conditions: [...] }; validated by validate_segment_definition.';
+
+CREATE TRIGGER handle_updated_at_participant_segments
+  BEFORE UPDATE ON participant_segments
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+ALTER TABLE participant_segments ENABLE ROW LEVEL SECURITY;
+
+-- Schrijven alleen via upsert/delete RPCs (validatie + audit)
+CREATE POLICY "Org members can view participant_segments"
+  ON participant_segments
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+-- ===========================================================================
+-- 2. FUNCTION: validate_segment_definition
+-- ===========================================================================
+-- Controleert de vorm van de definitie en of alle verwijzingen (tickettypes,
+-- tijdsloten, vragen, kortingen) bij het event horen. Evaluatie gebeurt
+-- alleen op gevalideerde definities, zodat casts daar niet kunnen falen.
+
+CREATE OR REPLACE FUNCTION public.validate_segment_definition(_event_id UUID, _definition JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uuid_pattern CONSTANT TEXT := '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$';
+  v_errors JSONB := '[]'::jsonb;
+  v_condition JSONB;
+  v_index INTEGER := 0;
+  v_type TEXT;
+  v_ids JSONB;
+  v_ids_key TEXT;
+  v_valid_count INTEGER;
+  v_operator TEXT;
+BEGIN
+  IF _definition IS NULL OR jsonb_typeof(_definition) <> 'object' THEN
+    RETURN jsonb_build_object('valid', false, 'errors', jsonb_build_array(
+      jsonb_build_object('index', NULL, 'error', 'INVALID_DEFINITION')));
+  END IF;
+
+  IF COALESCE(_definition->>'match', '') NOT IN ('all', 'any') THEN
+    v_errors := v_errors || jsonb_build_object('index', NULL, 'error', 'INVALID_MATCH');
+  END IF;
+
+  IF jsonb_typeof(_definition->'conditions') IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object('valid', false, 'errors',
+      v_errors || jsonb_build_object('index', NULL, 'error', 'INVALID_CONDITIONS'));
+  END IF;
+
+  IF jsonb_array_length(_definition->'conditions') > 20 THEN
+    v_errors := v_errors || jsonb_build_object('index', NULL, 'error', 'TOO_MANY_CONDITIONS');
+  END IF;
+
+  FOR v_condition IN SELECT value FROM jsonb_array_elements(_definition->'conditions')
+  LOOP
+    v_type := CASE WHEN jsonb_typeof(v_condition) = 'object' THEN v_condition->>'type' END;
+    v_ids := NULL;
+
+    -- Lijsten met ids: allemaal geldige uuids die bij het event horen
+    v_ids_key := CASE v_type
+      WHEN 'ticket_type' THEN 'ticket_type_ids'
+      WHEN 'time_slot' THEN 'time_slot_ids'
+      WHEN 'discount_code' THEN 'discount_ids'
+    END;
+
+    IF v_ids_key IS NOT NULL THEN
+      v_ids := COALESCE(v_condition->v_ids_key, '[]'::jsonb);
+
+      IF jsonb_typeof(v_ids) <> 'array'
+         OR (v_type <> 'discount_code' AND jsonb_array_length(v_ids) = 0)
+         OR EXISTS (SELECT 1 FROM jsonb_array_elements(v_ids) x
+                    WHERE jsonb_typeof(x.value) <> 'string' OR NOT (x.value #>> '{}') ~ v_uuid_pattern) THEN
+        v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'INVALID_IDS');
+      ELSE
+        SELECT COUNT(*) INTO v_valid_count
+        FROM jsonb_array_elements_text(v_ids) x
+        WHERE CASE v_type
+          WHEN 'ticket_type' THEN EXISTS (
+            SELECT 1 FROM ticket_types tt
+            WHERE tt.id = x.value::UUID AND tt.event_id = _event_id)
+          WHEN 'time_slot' THEN EXISTS (
+            SELECT 1 FROM ticket_time_slots ts
+            JOIN ticket_types tt ON tt.id = ts.ticket_type_id
+            WHERE ts.id = x.value::UUID AND tt.event_id = _event_id)
+          ELSE EXISTS (
+            SELECT 1 FROM discounts d
+            WHERE d.id = x.value::UUID AND d.event_id = _event_id)
+        END;
+
+        IF v_valid_count <> jsonb_array_length(v_ids) THEN
+          v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'UNKNOWN_REFERENCE');
+        END IF;
+      END IF;
+
+    ELSIF v_type = 'registration_answer' THEN
+      v_operator := v_condition->>'operator';
+
+      IF NOT COALESCE(v_condition->>'question_id', '') ~ v_uuid_pattern THEN
+        v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'INVALID_IDS');
+      ELSIF NOT EXISTS (
+        SELECT 1 FROM registration_questions rq
+        WHERE rq.id = (v_condition->>'question_id')::UUID AND rq.event_id = _event_id
+      ) THEN
+        v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'UNKNOWN_REFERENCE');
+      END IF;
+
+      IF COALESCE(v_operator, '') NOT IN ('equals', 'not_equals', 'contains', 'is_set', 'is_not_set') THEN
+        v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'INVALID_OPERATOR');
+      ELSIF v_operator IN ('equals', 'not_equals', 'contains')
+            AND COALESCE(trim(v_condition->>'value'), '') = '' THEN
+        v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'VALUE_REQUIRED');
+      END IF;
+
+    ELSIF v_type IN ('order_status', 'registration_status') THEN
+      v_ids := COALESCE(v_condition->'statuses', '[]'::jsonb);
+
+      IF jsonb_typeof(v_ids) <> 'array'
+         OR jsonb_array_length(v_ids) = 0
+         OR EXISTS (
+           SELECT 1 FROM jsonb_array_elements(v_ids) x
+           WHERE jsonb_typeof(x.value) <> 'string'
+              OR (x.value #>> '{}') NOT IN (
+                SELECT unnest(enum_range(NULL::order_status))::TEXT WHERE v_type = 'order_status'
+                UNION ALL
+                SELECT unnest(enum_range(NULL::registration_status))::TEXT WHERE v_type = 'registration_status'
+              )
+         ) THEN
+        v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'INVALID_STATUSES');
+      END IF;
+
+    ELSIF v_type IN ('check_in', 'transfer_received') THEN
+      IF jsonb_typeof(v_condition->(CASE v_type WHEN 'check_in' THEN 'checked_in' ELSE 'received' END))
+         IS DISTINCT FROM 'boolean' THEN
+        v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'INVALID_VALUE');
+      END IF;
+
+    ELSIF v_type = 'purchased_within_days' THEN
+      IF jsonb_typeof(v_condition->'days') IS DISTINCT FROM 'number' THEN
+        v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'INVALID_DAYS');
+      ELSIF (v_condition->>'days')::NUMERIC <> floor((v_condition->>'days')::NUMERIC)
+            OR (v_condition->>'days')::NUMERIC NOT BETWEEN 1 AND 3650 THEN
+        v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'INVALID_DAYS');
+      END IF;
+
+    ELSE
+      v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'UNKNOWN_CONDITION_TYPE');
+    END IF;
+
+    v_index := v_index + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('valid', jsonb_array_length(v_errors) = 0, 'errors', v_errors);
+END;
+$$;
+
+COMMENT ON FUNCTION public.validate_segment_definition(UUID, JSONB) IS
+  'F032: System: validates a segment definition against the event; returns { valid, errors: [{ index, error }] }.';
+
+REVOKE ALL ON FUNCTION public.validate_segment_definition(UUID, JSONB) FROM public;
+GRANT EXECUTE ON FUNCTION public.validate_segment_definition(UUID, JSONB) TO service_role;
+
+-- ===========================================================================
+-- 3. FUNCTIONS: segment evaluatie
+-- ===========================================================================
+
+-- Antwoord als tekst: meerkeuze (array) wordt kommagescheiden
+CREATE OR REPLACE FUNCTION public.registration_answer_text(_answer JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE jsonb_typeof(_answer)
+    WHEN 'array' THEN (SELECT string_agg(x.value, ', ') FROM jsonb_array_elements_text(_answer) x)
+    WHEN 'null' THEN NULL
+    ELSE _answer #>> '{}'
+  END;
+$$;
+
+-- equals / contains / is_set op een enkel antwoord (hoofdletterongevoelig);
+-- bij meerkeuze matcht equals op een van de gekozen opties
+CREATE OR REPLACE FUNCTION public.registration_answer_matches(_answer JSONB, _operator TEXT, _value TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _operator
+    WHEN 'is_set' THEN COALESCE(public.registration_answer_text(_answer), '') <> ''
+    WHEN 'contains' THEN public.registration_answer_text(_answer) ILIKE '%' || _value || '%'
+    WHEN 'equals' THEN
+      lower(public.registration_answer_text(_answer)) = lower(_value)
+      OR (jsonb_typeof(_answer) = 'array' AND EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(_answer) x WHERE lower(x.value) = lower(_value)))
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.segment_condition_matches(_condition JSONB, _rl registrations_list_v)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(CASE _condition->>'type'
+    WHEN 'ticket_type' THEN
+      _rl.ticket_type_id::TEXT IN (SELECT jsonb_array_elements_text(_condition->'ticket_type_ids'))
+    WHEN 'time_slot' THEN EXISTS (
+      SELECT 1 FROM ticket_instances ti
+      WHERE ti.id = _rl.ticket_instance_id
+        AND ti.time_slot_id::TEXT IN (SELECT jsonb_array_elements_text(_condition->'time_slot_ids')))
+    WHEN 'registration_answer' THEN
+      CASE WHEN _condition->>'operator' IN ('not_equals', 'is_not_set') THEN NOT EXISTS (
+        SELECT 1 FROM registration_answers ra
+        WHERE ra.registration_id = _rl.id
+          AND ra.question_id = (_condition->>'question_id')::UUID
+          AND public.registration_answer_matches(
+            ra.answer_value,
+            CASE _condition->>'operator' WHEN 'not_equals' THEN 'equals' ELSE 'is_set' END,
+            _condition->>'value'))
+      ELSE EXISTS (
+        SELECT 1 FROM registration_answers ra
+        WHERE ra.registration_id = _rl.id
+          AND ra.question_id = (_condition->>'question_id')::UUID
+          AND public.registration_answer_matches(ra.answer_value, _condition->>'operator', _condition->>'value'))
+      END
+    WHEN 'order_status' THEN
+      _rl.order_status::TEXT IN (SELECT jsonb_array_elements_text(_condition->'statuses'))
+    WHEN 'registration_status' THEN
+      _rl.registration_status::TEXT IN (SELECT jsonb_array_elements_text(_condition->'statuses'))
+    WHEN 'check_in' THEN
+      (_rl.checked_in_at IS NOT NULL) = (_condition->>'checked_in')::BOOLEAN
+    WHEN 'discount_code' THEN EXISTS (
+      SELECT 1 FROM discount_applications da
+      WHERE da.order_id = _rl.order_id
+        AND (jsonb_array_length(COALESCE(_condition->'discount_ids', '[]'::jsonb)) = 0
+             OR da.discount_id::TEXT IN (SELECT jsonb_array_elements_text(_condition->'discount_ids'))))
+    WHEN 'transfer_received' THEN EXISTS (
+      SELECT 1 FROM ticket_transfers tt
+      WHERE tt.event_id = _rl.event_id
+        AND tt.to_participant_id = _rl.participant_id
+        AND tt.status = 'accepted') = (_condition->>'received')::BOOLEAN
+    WHEN 'purchased_within_days' THEN EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = _rl.order_id
+        AND o.created_at >= NOW() - make_interval(days => (_condition->>'days')::INTEGER))
+  END, false);
+$$;
+
+COMMENT ON FUNCTION public.segment_condition_matches(JSONB, registrations_list_v) IS
+  'F032: System: whether one registration row matches a single (validated) segment condition.';
+
+REVOKE ALL ON FUNCTION public.segment_condition_matches(JSONB, registrations_list_v) FROM public;
+GRANT EXECUTE ON FUNCTION public.segment_condition_matches(JSONB, registrations_list_v) TO service_role;
+
+-- Registraties (en deelnemers) die aan een gevalideerde definitie voldoen.
+-- Zonder voorwaarden valt elke registratie van het event in het segment.
+CREATE OR REPLACE FUNCTION public.get_segment_registrations(_event_id UUID, _definition JSONB)
+RETURNS TABLE (registration_id UUID, participant_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT rl.id, rl.participant_id
+  FROM registrations_list_v rl
+  WHERE rl.event_id = _event_id
+    AND CASE WHEN _definition->>'match' = 'any' AND jsonb_array_length(_definition->'conditions') > 0
+      THEN EXISTS (
+        SELECT 1 FROM jsonb_array_elements(_definition->'conditions') c
+        WHERE public.segment_condition_matches(c.value, rl))
+      ELSE NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(_definition->'conditions') c
+        WHERE NOT public.segment_condition_matches(c.value, rl))
+    END;
+$$;
+
+COMMENT ON FUNCTION public.get_segment_registrations(UUID, JSONB) IS
+  'F032: System: registrations and participants of an event matching a validated segment definition.';
+
+REVOKE ALL ON FUNCTION public.get_segment_registrations(UUID, JSONB) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_segment_registrations(UUID, JSONB) TO service_role;
+
+-- Leden van een opgeslagen segment, voor bulk-email
+CREATE OR REPLACE FUNCTION public.get_segment_members(_segment_id UUID)
+RETURNS TABLE (participant_id UUID, email TEXT, first_name TEXT, last_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, lower(p.email), p.first_name, p.last_name
+  FROM participants p
+  WHERE p.id IN (
+    SELECT m.participant_id
+    FROM participant_segments s
+    CROSS JOIN LATERAL public.get_segment_registrations(s.event_id, s.definition) m
+    WHERE s.id = _segment_id
+  );
+$$;
+
+COMMENT ON FUNCTION public.get_segment_members(UUID) IS
+  'F032: System: distinct participants currently in a saved segment.';
+
+REVOKE ALL ON FUNCTION public.get_segment_members(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_segment_members(UUID) TO service_role;
+
+-- ===========================================================================
+-- 4. RPCs: preview, lijst, opslaan, verwijderen
+-- ===========================================================================
+
+-- Live telling tijdens het bouwen (org member): aantallen + voorbeeld
+CREATE OR REPLACE FUNCTION public.preview_participant_segment(_event_id UUID, _definition JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_validation JSONB;
+  v_registration_count INTEGER;
+  v_participant_count INTEGER;
+  v_sample JSONB;
+BEGIN
+  SELECT e.org_id INTO v_org_id FROM events e WHERE e.id = _event_id;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  v_validation := public.validate_segment_definition(_event_id, _definition);
+
+  IF NOT (v_validation->>'valid')::BOOLEAN THEN
+    RETURN jsonb_build_object('error', 'INVALID_SEGMENT', 'validation', v_validation);
+  END IF;
+
+  SELECT COUNT(*)::INTEGER, COUNT(DISTINCT m.participant_id)::INTEGER
+  INTO v_registration_count, v_participant_count
+  FROM public.get_segment_registrations(_event_id, _definition) m;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'participant_id', p.id,
+    'email', p.email,
+    'first_name', p.first_name,
+    'last_name', p.last_name
+  ) ORDER BY p.last_name, p.first_name), '[]'::jsonb)
+  INTO v_sample
+  FROM (
+    SELECT p.id, p.email, p.first_name, p.last_name
+    FROM participants p
+    WHERE p.id IN (SELECT m.participant_id FROM public.get_segment_registrations(_event_id, _definition) m)
+    ORDER BY p.last_name, p.first_name
+    LIMIT 5
+  ) p;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'participant_count', v_participant_count,
+    'registration_count', v_registration_count,
+    'sample', v_sample
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.preview_participant_segment(UUID, JSONB) IS
+  'F032: Live count and sample of participants matching an (unsaved) segment definition. Requires org membership.';
+
+GRANT EXECUTE ON FUNCTION public.preview_participant_segment(UUID, JSONB) TO authenticated;
+
+-- Opgeslagen segmenten van een event met actueel aantal deelnemers
+CREATE OR REPLACE FUNCTION public.get_event_segments(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_segments JSONB;
+BEGIN
+  SELECT e.org_id INTO v_org_id FROM events e WHERE e.id = _event_id;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'name', s.name,
+    'description', s.description,
+    'definition', s.definition,
+    'participant_count', (
+      SELECT COUNT(DISTINCT m.participant_id)
+      FROM public.get_segment_registrations(s.event_id, s.definition) m
+    ),
+    'created_at', s.created_at,
+    'updated_at', s.updated_at
+  ) ORDER BY lower(s.name)), '[]'::jsonb)
+  INTO v_segments
+  FROM participant_segments s
+  WHERE s.event_id = _event_id;
+
+  RETURN jsonb_build_object('status', 'OK', 'segments', v_segments);
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_event_segments(UUID) IS
+  'F032: Saved segments of an event with current participant count. Requires org membership.';
+
+GRANT EXECUTE ON FUNCTION public.get_event_segments(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.upsert_participant_segment(
+  _event_id UUID,
+  _name TEXT,
+  _definition JSONB,
+  _description TEXT DEFAULT NULL,
+  _segment_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_validation JSONB;
+  v_segment_id UUID;
+BEGIN
+  SELECT e.org_id INTO v_org_id FROM events e WHERE e.id = _event_id;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT (public.has_role(v_org_id, 'admin') OR public.has_role(v_org_id, 'owner')) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF COALESCE(length(trim(_name)), 0) NOT BETWEEN 1 AND 100 THEN
+    RETURN jsonb_build_object('error', 'INVALID_NAME');
+  END IF;
+
+  v_validation := public.validate_segment_definition(_event_id, _definition);
+
+  IF NOT (v_validation->>'valid')::BOOLEAN THEN
+    RETURN jsonb_build_object('error', 'INVALID_SEGMENT', 'validation', v_validation);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM participant_segments s
+    WHERE s.event_id = _event_id
+      AND lower(s.name) = lower(trim(_name))
+      AND s.id IS DISTINCT FROM _segment_id
+  ) THEN
+    RETURN jsonb_build_object('error', 'NAME_TAKEN');
+  END IF;
+
+  IF _segment_id IS NULL THEN
+    INSERT INTO participant_segments (org_id, event_id, name, description, definition, created_by)
+    VALUES (v_org_id, _event_id, trim(_name), NULLIF(trim(_description), ''), _definition, auth.uid())
+    RETURNING id INTO v_segment_id;
+  ELSE
+    UPDATE participant_segments
+    SET name = trim(_name),
+        description = NULLIF(trim(_description), ''),
+        definition = _definition
+    WHERE id = _segment_id AND event_id = _event_id
+    RETURNING id INTO v_segment_id;
+
+    IF v_segment_id IS NULL THEN
+      RETURN jsonb_build_object('error', 'SEGMENT_NOT_FOUND');
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_org_id,
+    auth.uid(),
+    CASE WHEN _segment_id IS NULL THEN 'SEGMENT_CREATED' ELSE 'SEGMENT_UPDATED' END,
+    'participant_segment',
+    v_segment_id,
+    jsonb_build_object('event_id', _event_id, 'name', trim(_name), 'definition', _definition)
+  );
+
+  RETURN jsonb_build_object('status', 'OK', 'segment_id', v_segment_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.upsert_participant_segment(UUID, TEXT, JSONB, TEXT, UUID) IS
+  'F032: Create or update a participant segment (validated). Requires admin/owner. Audited.';
+
+GRANT EXECUTE ON FUNCTION public.upsert_participant_segment(UUID, TEXT, JSONB, TEXT, UUID) TO authenticated;
+
+-- Niet verwijderen zolang een campagne die nog moet versturen het gebruikt
+CREATE OR REPLACE FUNCTION public.delete_participant_segment(_segment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_segment participant_segments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_segment FROM participant_segments WHERE id = _segment_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'SEGMENT_NOT_FOUND');
+  END IF;
+
+  IF NOT (public.has_role(v_segment.org_id, 'admin') OR public.has_role(v_segment.org_id, 'owner')) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM message_batches b
+    WHERE b.event_id = v_segment.event_id
+      AND b.status IN ('draft', 'queued', 'processing', 'sending', 'paused')
+      AND b.recipient_filter->>'type' = 'segment'
+      AND b.recipient_filter->>'segment_id' = _segment_id::TEXT
+  ) THEN
+    RETURN jsonb_build_object('error', 'SEGMENT_IN_USE');
+  END IF;
+
+  DELETE FROM participant_segments WHERE id = _segment_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_segment.org_id,
+    auth.uid(),
+    'SEGMENT_DELETED',
+    'participant_segment',
+    _segment_id,
+    jsonb_build_object('event_id', v_segment.event_id, 'name', v_segment.name)
+  );
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.delete_participant_segment(UUID) IS
+  'F032: Delete a participant segment unless an unfinished campaign uses it. Requires admin/owner. Audited.';
+
+GRANT EXECUTE ON FUNCTION public.delete_participant_segment(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 5. FUNCTION: get_campaign_recipients (recipient_filter type 'segment')
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F031 behalve: type 'segment' met segment_id (segment moet
+-- bij het event horen). Relatieve campagnes bepalen zo de leden pas op het
+-- moment van verzending.
+
+CREATE OR REPLACE FUNCTION public.get_campaign_recipients(_event_id UUID, _filter JSONB)
+RETURNS TABLE (participant_id UUID, email TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, lower(p.email)
+  FROM participants p
+  WHERE p.id IN (
+    SELECT value::UUID
+    FROM jsonb_array_elements_text(COALESCE(_filter->'participant_ids', '[]'::jsonb))
+    WHERE _filter->>'type' = 'custom'
+    UNION
+    SELECT r.participant_id
+    FROM registrations r
+    WHERE _filter->>'type' IN ('all', 'ticket_type')
+      AND r.event_id = _event_id
+      AND r.status IN ('pending', 'confirmed')
+      AND (_filter->>'type' = 'all' OR r.ticket_type_id = (_filter->>'ticket_type_id')::UUID)
+    UNION
+    SELECT ti.participant_id
+    FROM ticket_instances ti
+    WHERE _filter->>'type' IN ('all', 'ticket_type')
+      AND ti.event_id = _event_id
+      AND ti.participant_id IS NOT NULL
+      AND ti.status <> 'void'
+      AND ti.deleted_at IS NULL
+      AND (_filter->>'type' = 'all' OR ti.ticket_type_id = (_filter->>'ticket_type_id')::UUID)
+    UNION
+    SELECT m.participant_id
+    FROM participant_segments s
+    CROSS JOIN LATERAL public.get_segment_registrations(s.event_id, s.definition) m
+    WHERE _filter->>'type' = 'segment'
+      AND s.id = (_filter->>'segment_id')::UUID
+      AND s.event_id = _event_id
+  );
+$$;
+
+COMMENT ON FUNCTION public.get_campaign_recipients(UUID, JSONB) IS
+  'F032: System: participants matching a campaign recipient_filter (all, ticket_type, custom, segment).';
+
+-- ===========================================================================
+-- 6. RPCs: get_registrations_list / export_registrations_csv (segment_id)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. 20250127100001 behalve: _filters->>'segment_id'
+-- beperkt tot de registraties in het segment. Een segment van een ander
+-- event geeft SEGMENT_NOT_FOUND.
+
+CREATE OR REPLACE FUNCTION get_registrations_list(
+  _event_id UUID,
+  _filters JSONB DEFAULT '{}',
+  _page INTEGER DEFAULT 1,
+  _page_size INTEGER DEFAULT 50,
+  _sort_by TEXT DEFAULT 'created_at',
+  _sort_order TEXT DEFAULT 'desc'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_offset INTEGER;
+  v_total INTEGER;
+  v_data JSONB;
+  v_segment_definition JSONB;
+BEGIN
+  -- 1. Verify org membership
+  SELECT e.org_id INTO v_org_id
+  FROM events e
+  WHERE e.id = _event_id;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  -- Segment filter (F032)
+  IF (_filters->>'segment_id') IS NOT NULL THEN
+    SELECT s.definition INTO v_segment_definition
+    FROM participant_segments s
+    WHERE s.id = (_filters->>'segment_id')::uuid AND s.event_id = _event_id;
+
+    IF v_segment_definition IS NULL THEN
+      RETURN jsonb_build_object('error', 'SEGMENT_NOT_FOUND');
+    END IF;
+  END IF;
+
+  -- 2. Calculate offset
+  v_offset := GREATEST((_page - 1) * _page_size, 0);
+
+  -- Ensure valid page_size
+  _page_size := LEAST(GREATEST(_page_size, 1), 200);
+
+  -- 3. Query with filters
+  WITH filtered AS (
+    SELECT *
+    FROM registrations_list_v
+    WHERE event_id = _event_id
+      -- Filters
+      AND ((_filters->>'ticket_type_id') IS NULL
+           OR ticket_type_id = (_filters->>'ticket_type_id')::uuid)
+      AND ((_filters->>'registration_status') IS NULL
+           OR registration_status::text = (_filters->>'registration_status'))
+      AND ((_filters->>'payment_status') IS NULL
+           OR payment_status = (_filters->>'payment_status'))
+      AND ((_filters->>'assignment_status') IS NULL
+           OR assignment_status = (_filters->>'assignment_status'))
+      AND ((_filters->>'search') IS NULL OR (
+           email ILIKE '%' || (_filters->>'search') || '%'
+           OR first_name ILIKE '%' || (_filters->>'search') || '%'
+           OR last_name ILIKE '%' || (_filters->>'search') || '%'))
+      AND (v_segment_definition IS NULL OR id IN (
+           SELECT m.registration_id
+           FROM public.get_segment_registrations(_event_id, v_segment_definition) m))
+  ),
+  counted AS (
+    SELECT COUNT(*)::integer as total FROM filtered
+  ),
+  sorted AS (
+    SELECT * FROM filtered
+    ORDER BY
+      CASE WHEN _sort_order = 'asc' AND _sort_by = 'created_at' THEN filtered.created_at END ASC NULLS LAST,
+      CASE WHEN _sort_order = 'desc' AND _sort_by = 'created_at' THEN filtered.created_at END DESC NULLS LAST,
+      CASE WHEN _sort_order = 'asc' AND _sort_by = 'email' THEN filtered.email END ASC NULLS LAST,
+      CASE WHEN _sort_order = 'desc' AND _sort_by = 'email' THEN filtered.email END DESC NULLS LAST,
+      CASE WHEN _sort_order = 'asc' AND _sort_by = 'last_name' THEN filtered.last_name END ASC NULLS LAST,
+      CASE WHEN _sort_order = 'desc' AND _sort_by = 'last_name' THEN filtered.last_name END DESC NULLS LAST,
+      filtered.created_at DESC -- Default fallback
+    LIMIT _page_size
+    OFFSET v_offset
+  )
+  SELECT
+    c.total,
+    COALESCE(jsonb_agg(to_jsonb(s)), '[]'::jsonb)
+  INTO v_total, v_data
+  FROM counted c
+  LEFT JOIN sorted s ON true
+  GROUP BY c.total;
+
+  RETURN jsonb_build_object(
+    'total', COALESCE(v_total, 0),
+    'page', _page,
+    'page_size', _page_size,
+    'pages', CEIL(COALESCE(v_total, 0)::numeric / _page_size),
+    'data', COALESCE(v_data, '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION get_registrations_list IS
+  'Returns paginated and filtered list of registrations for an event (F032: optional segment_id filter). Requires org membership.';
+
+CREATE OR REPLACE FUNCTION export_registrations_csv(
+  _event_id UUID,
+  _filters JSONB DEFAULT '{}'
+)
+RETURNS TABLE (csv_row TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_role TEXT;
+  v_max_rows INTEGER;
+  v_segment_definition JSONB;
+BEGIN
+  -- 1. Verify org membership + role
+  SELECT e.org_id INTO v_org_id FROM events e WHERE e.id = _event_id;
+
+  SELECT om.role INTO v_role
+  FROM org_members om
+  WHERE om.org_id = v_org_id AND om.user_id = auth.uid();
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: not an org member';
+  END IF;
+
+  IF v_role NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: admin role required for export';
+  END IF;
+
+  -- Segment filter (F032)
+  IF (_filters->>'segment_id') IS NOT NULL THEN
+    SELECT s.definition INTO v_segment_definition
+    FROM participant_segments s
+    WHERE s.id = (_filters->>'segment_id')::uuid AND s.event_id = _event_id;
+
+    IF v_segment_definition IS NULL THEN
+      RAISE EXCEPTION 'SEGMENT_NOT_FOUND: segment does not belong to this event';
+    END IF;
+  END IF;
+
+  -- 2. Get max rows from config (default 10000)
+  v_max_rows := 10000;
+
+  -- 3. Return CSV header
+  RETURN QUERY SELECT 'email,first_name,last_name,ticket_type,registration_status,payment_status,assignment_status,has_discount,created_at'::text;
+
+  -- 4. Return data rows
+  RETURN QUERY
+  SELECT
+    format('%s,%s,%s,%s,%s,%s,%s,%s,%s',
+      COALESCE(quote_literal(rl.email), ''),
+      COALESCE(quote_literal(rl.first_name), ''),
+      COALESCE(quote_literal(rl.last_name), ''),
+      COALESCE(quote_literal(rl.ticket_type_name), ''),
+      COALESCE(rl.registration_status::text, ''),
+      COALESCE(rl.payment_status, ''),
+      COALESCE(rl.assignment_status, ''),
+      COALESCE(rl.has_discount::text, 'false'),
+      COALESCE(to_char(rl.created_at, 'YYYY-MM-DD HH24:MI:SS'), '')
+    )
+  FROM registrations_list_v rl
+  WHERE rl.event_id = _event_id
+    AND ((_filters->>'ticket_type_id') IS NULL
+         OR rl.ticket_type_id = (_filters->>'ticket_type_id')::uuid)
+    AND ((_filters->>'registration_status') IS NULL
+         OR rl.registration_status::text = (_filters->>'registration_status'))
+    AND ((_filters->>'payment_status') IS NULL
+         OR rl.payment_status = (_filters->>'payment_status'))
+    AND ((_filters->>'search') IS NULL
+         OR rl.email ILIKE '%' || (_filters->>'search') || '%')
+    AND (v_segment_definition IS NULL OR rl.id IN (
+         SELECT m.registration_id
+         FROM public.get_segment_registrations(_event_id, v_segment_definition) m))
+  ORDER BY rl.created_at DESC
+  LIMIT v_max_rows;
+END;
+$$;
+
+COMMENT ON FUNCTION export_registrations_csv IS
+  'Exports registrations as CSV rows (F032: optional segment_id filter). Requires admin role.';
+
+-- ===========================================================================
+-- 7. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'participant_segments'
+  ) THEN
+    RAISE EXCEPTION 'F032: participant_segments table not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'preview_participant_segment') THEN
+    RAISE EXCEPTION 'F032: preview_participant_segment not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_segment_members') THEN
+    RAISE EXCEPTION 'F032: get_segment_members not created';
+  END IF;
+
+  IF (public.validate_segment_definition(
+        gen_random_uuid(),
+        '{"match": "all", "conditions": [{"type": "unknown"}]}'::jsonb
+      )->>'valid')::BOOLEAN THEN
+    RAISE EXCEPTION 'F032: unknown condition type accepted';
+  END IF;
+
+  RAISE NOTICE 'F032: participant segments created successfully';
+END $$;
@@ -0,0 +1,612 @@
+-- ===========================================================================
+-- F033: Email Engagement Analytics
+-- Migration: 20250130040000_f033_email_engagement_analytics.sql
+--
+-- Purpose:
+-- - Opens en clicks uit de Resend webhook (email.opened / email.clicked) per
+--   email vastleggen (eerste open/click) naast delivered/bounced/complained
+-- - Getrackte links in campagnes: process-outbox herschrijft links naar de
+--   track-link redirect; clicks per link en per email
+-- - Campagne analytics: delivered/bounced/complained/opened/clicked rates,
+--   clicks per link en een tijdlijn (get_campaign_analytics)
+-- - Hard bounces onderdrukken het adres direct binnen de hele organisatie
+--   (is_email_deliverable), op te heffen door een admin
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. COLUMNS: email_outbox (engagement), email_bounces (opheffen)
+-- ===========================================================================
+
+ALTER TABLE email_outbox
+  ADD COLUMN IF NOT EXISTS opened_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS clicked_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN email_outbox.opened_at IS
+  'F033: First open reported by the provider (email.opened).';
+COMMENT ON COLUMN email_outbox.clicked_at IS
+  'F033: First click, via a tracked link or the provider (email.clicked).';
+
+ALTER TABLE email_bounces
+  ADD COLUMN IF NOT EXISTS cleared_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cleared_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN email_bounces.cleared_at IS
+  'F033: Hard bounce no longer suppresses the address for the org (clear_email_suppression).';
+
+-- Onderdrukking per org: alleen actieve hard bounces
+CREATE INDEX IF NOT EXISTS idx_email_bounces_org_hard
+  ON email_bounces(org_id, lower(email))
+  WHERE bounce_type = 'hard' AND cleared_at IS NULL;
+
+-- Opens en clicks als events (status van de email verandert niet)
+DO $$
+BEGIN
+  ALTER TABLE email_outbox_events DROP CONSTRAINT IF EXISTS email_outbox_events_valid_type;
+  ALTER TABLE email_outbox_events ADD CONSTRAINT email_outbox_events_valid_type CHECK (
+    event_type IN (
+      'created', 'queued', 'processing', 'sent', 'delivered',
+      'bounced', 'soft_bounced', 'complained', 'failed', 'cancelled', 'retry_scheduled',
+      'opened', 'clicked'
+    )
+  );
+END $$;
+
+-- ===========================================================================
+-- 2. TABLES: email_tracked_links, email_link_clicks
+-- ===========================================================================
+-- Een link per (campagne, url); de redirect-URL bevat link_id + email_id en
+-- een HMAC handtekening (process-outbox / track-link), zodat clicks niet
+-- zonder geldige link op naam van een ontvanger gezet kunnen worden.
+
+CREATE TABLE IF NOT EXISTS email_tracked_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES message_batches(id) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url ~ '^https?://' AND length(url) <= 2048),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT email_tracked_links_batch_url UNIQUE (batch_id, url)
+);
+
+COMMENT ON TABLE email_tracked_links IS
+  'F033: Links in campaign emails, rewritten to the track-link redirect at send time.';
+
+CREATE TABLE IF NOT EXISTS email_link_clicks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  link_id UUID NOT NULL REFERENCES email_tracked_links(id) ON DELETE CASCADE,
+  email_id UUID NOT NULL REFERENCES email_outbox(id) ON DELETE CASCADE,
+  user_agent TEXT,
+  clicked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_link_clicks_link
+  ON email_link_clicks(link_id, clicked_at);
+CREATE INDEX IF NOT EXISTS idx_email_link_clicks_email
+  ON email_link_clicks(email_id);
+
+COMMENT ON TABLE email_link_clicks IS
+  'F033: Every click on a tracked link, per recipient email.';
+
+ALTER TABLE email_tracked_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_link_clicks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view tracked links"
+  ON email_tracked_links
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Access via parent link"
+  ON email_link_clicks
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM email_tracked_links l
+    WHERE l.id = email_link_clicks.link_id
+      AND public.is_org_member(l.org_id)
+  ));
+
+-- ===========================================================================
+-- 3. RPCs: register_tracked_links, record_link_click (service role)
+-- ===========================================================================
+
+-- Links van een campagne registreren; geeft { url: link_id } terug
+CREATE OR REPLACE FUNCTION public.register_tracked_links(_batch_id UUID, _urls TEXT[])
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_links JSONB;
+BEGIN
+  INSERT INTO email_tracked_links (org_id, batch_id, url)
+  SELECT b.org_id, b.id, u.url
+  FROM message_batches b
+  CROSS JOIN (SELECT DISTINCT unnest(_urls) AS url) u
+  WHERE b.id = _batch_id
+    AND u.url ~ '^https?://'
+    AND length(u.url) <= 2048
+  ON CONFLICT (batch_id, url) DO NOTHING;
+
+  SELECT COALESCE(jsonb_object_agg(l.url, l.id), '{}'::jsonb)
+  INTO v_links
+  FROM email_tracked_links l
+  WHERE l.batch_id = _batch_id
+    AND l.url = ANY (_urls);
+
+  RETURN jsonb_build_object('status', 'OK', 'links', v_links);
+END;
+$$;
+
+COMMENT ON FUNCTION public.register_tracked_links(UUID, TEXT[]) IS
+  'F033: System: register the links of a campaign email for click tracking; returns { links: { url: link_id } }.';
+
+REVOKE ALL ON FUNCTION public.register_tracked_links(UUID, TEXT[]) FROM public;
+GRANT EXECUTE ON FUNCTION public.register_tracked_links(UUID, TEXT[]) TO service_role;
+
+-- Click vastleggen en de doel-URL teruggeven. Zonder (geldige) email wordt
+-- wel doorgestuurd maar niets geteld.
+CREATE OR REPLACE FUNCTION public.record_link_click(
+  _link_id UUID,
+  _email_id UUID DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link email_tracked_links%ROWTYPE;
+  v_recorded BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_link FROM email_tracked_links WHERE id = _link_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'LINK_NOT_FOUND');
+  END IF;
+
+  IF _email_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM email_outbox e
+    WHERE e.id = _email_id AND e.batch_id = v_link.batch_id
+  ) THEN
+    INSERT INTO email_link_clicks (link_id, email_id, user_agent)
+    VALUES (_link_id, _email_id, left(_user_agent, 500));
+
+    UPDATE email_outbox
+    SET clicked_at = NOW()
+    WHERE id = _email_id AND clicked_at IS NULL;
+
+    v_recorded := true;
+  END IF;
+
+  RETURN jsonb_build_object('status', 'OK', 'url', v_link.url, 'recorded', v_recorded);
+END;
+$$;
+
+COMMENT ON FUNCTION public.record_link_click(UUID, UUID, TEXT) IS
+  'F033: System: record a click on a tracked link (track-link) and return the target URL.';
+
+REVOKE ALL ON FUNCTION public.record_link_click(UUID, UUID, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.record_link_click(UUID, UUID, TEXT) TO service_role;
+
+-- ===========================================================================
+-- 4. FUNCTION: is_email_deliverable (hard bounces per org)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. 20250127000001 behalve: een actieve hard bounce binnen
+-- de org onderdrukt het adres direct, voor alle email types (ook
+-- transactioneel). De globale drempel (3 hard bounces in 30 dagen, alle
+-- orgs) blijft bestaan.
+
+CREATE OR REPLACE FUNCTION public.is_email_deliverable(
+    _email text,
+    _org_id uuid,
+    _email_type text DEFAULT 'transactional'
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+DECLARE
+    _unsubscribed boolean;
+    _hard_bounce_count integer;
+    _bounce_threshold integer := 3;
+BEGIN
+    -- Transactional emails worden altijd verzonden (behalve bij hard bounces)
+    -- Marketing emails respecteren unsubscribe status
+
+    IF _email_type != 'transactional' THEN
+        -- Check global unsubscribe (org_id IS NULL)
+        SELECT EXISTS (
+            SELECT 1 FROM public.email_unsubscribes
+            WHERE email = _email
+            AND org_id IS NULL
+            AND email_type IN (_email_type, 'all')
+        ) INTO _unsubscribed;
+
+        IF _unsubscribed THEN
+            RETURN false;
+        END IF;
+
+        -- Check org-specific unsubscribe
+        SELECT EXISTS (
+            SELECT 1 FROM public.email_unsubscribes
+            WHERE email = _email
+            AND org_id = _org_id
+            AND email_type IN (_email_type, 'all')
+        ) INTO _unsubscribed;
+
+        IF _unsubscribed THEN
+            RETURN false;
+        END IF;
+    END IF;
+
+    -- Hard bounce binnen deze org: direct onderdrukt (F033)
+    IF _org_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.email_bounces
+        WHERE org_id = _org_id
+        AND lower(email) = lower(_email)
+        AND bounce_type = 'hard'
+        AND cleared_at IS NULL
+    ) THEN
+        RETURN false;
+    END IF;
+
+    -- Check hard bounce count (applies to ALL email types)
+    SELECT COUNT(*) INTO _hard_bounce_count
+    FROM public.email_bounces
+    WHERE email = _email
+    AND bounce_type = 'hard'
+    AND created_at > now() - interval '30 days';
+
+    IF _hard_bounce_count >= _bounce_threshold THEN
+        RETURN false;
+    END IF;
+
+    RETURN true;
+END;
+$$;
+
+-- ===========================================================================
+-- 5. RPC: clear_email_suppression (admin/owner)
+-- ===========================================================================
+-- Bijvoorbeeld nadat een deelnemer een typfout in het adres heeft hersteld
+-- bij de provider of de mailbox weer bestaat.
+
+CREATE OR REPLACE FUNCTION public.clear_email_suppression(_org_id UUID, _email TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cleared INTEGER;
+BEGIN
+  IF NOT (public.has_role(_org_id, 'admin') OR public.has_role(_org_id, 'owner')) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  UPDATE email_bounces
+  SET cleared_at = NOW(),
+      cleared_by = auth.uid()
+  WHERE org_id = _org_id
+    AND lower(email) = lower(trim(_email))
+    AND bounce_type = 'hard'
+    AND cleared_at IS NULL;
+
+  GET DIAGNOSTICS v_cleared = ROW_COUNT;
+
+  IF v_cleared = 0 THEN
+    RETURN jsonb_build_object('error', 'NOT_SUPPRESSED');
+  END IF;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    _org_id,
+    auth.uid(),
+    'EMAIL_SUPPRESSION_CLEARED',
+    'email_bounce',
+    NULL,
+    jsonb_build_object('email', lower(trim(_email)), 'bounces_cleared', v_cleared)
+  );
+
+  RETURN jsonb_build_object('status', 'OK', 'bounces_cleared', v_cleared);
+END;
+$$;
+
+COMMENT ON FUNCTION public.clear_email_suppression(UUID, TEXT) IS
+  'F033: Lift the org-wide suppression of a hard-bounced address. Requires admin/owner. Audited.';
+
+GRANT EXECUTE ON FUNCTION public.clear_email_suppression(UUID, TEXT) TO authenticated;
+
+-- ===========================================================================
+-- 6. RPC: claim_outbox_emails (batch_id in jobs)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F031 behalve: de jobs bevatten batch_id, zodat
+-- process-outbox de links van campagne-emails kan herschrijven.
+
+CREATE OR REPLACE FUNCTION public.claim_outbox_emails(_limit INTEGER DEFAULT 100)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org RECORD;
+  v_limits JSONB;
+  v_budget INTEGER;
+  v_ids UUID[];
+  v_claimed UUID[] := ARRAY[]::UUID[];
+  v_jobs JSONB;
+  v_deferred INTEGER := 0;
+BEGIN
+  FOR v_org IN
+    SELECT e.org_id
+    FROM email_outbox e
+    WHERE e.status IN ('queued', 'soft_bounced')
+      AND e.scheduled_at <= NOW()
+      AND (e.next_attempt_at IS NULL OR e.next_attempt_at <= NOW())
+    GROUP BY e.org_id
+    ORDER BY MIN(e.created_at)
+  LOOP
+    EXIT WHEN cardinality(v_claimed) >= _limit;
+
+    -- 6a. Transactioneel: nooit tegenhouden
+    SELECT COALESCE(array_agg(t.id), ARRAY[]::UUID[]) INTO v_ids
+    FROM (
+      SELECT e.id
+      FROM email_outbox e
+      WHERE e.org_id = v_org.org_id
+        AND e.email_type <> 'marketing'
+        AND e.status IN ('queued', 'soft_bounced')
+        AND e.scheduled_at <= NOW()
+        AND (e.next_attempt_at IS NULL OR e.next_attempt_at <= NOW())
+      ORDER BY e.created_at
+      LIMIT _limit - cardinality(v_claimed)
+      FOR UPDATE SKIP LOCKED
+    ) t;
+
+    v_claimed := v_claimed || v_ids;
+
+    -- 6b. Marketing: binnen het resterende budget van de org
+    v_limits := public.get_org_email_rate_limits(v_org.org_id);
+
+    SELECT LEAST(
+      COALESCE((v_limits->>'emails_per_minute')::INTEGER, 100)
+        - COUNT(*) FILTER (WHERE e.last_attempt_at > NOW() - INTERVAL '1 minute'),
+      COALESCE((v_limits->>'emails_per_hour')::INTEGER, 5000)
+        - COUNT(*)
+    ) - cardinality(v_ids)
+    INTO v_budget
+    FROM email_outbox e
+    WHERE e.org_id = v_org.org_id
+      AND e.last_attempt_at > NOW() - INTERVAL '1 hour';
+
+    v_budget := LEAST(v_budget, _limit - cardinality(v_claimed));
+    CONTINUE WHEN v_budget <= 0;
+
+    SELECT COALESCE(array_agg(t.id), ARRAY[]::UUID[]) INTO v_ids
+    FROM (
+      SELECT e.id
+      FROM email_outbox e
+      LEFT JOIN message_batches b ON b.id = e.batch_id
+      WHERE e.org_id = v_org.org_id
+        AND e.email_type = 'marketing'
+        AND e.status IN ('queued', 'soft_bounced')
+        AND e.scheduled_at <= NOW()
+        AND (e.next_attempt_at IS NULL OR e.next_attempt_at <= NOW())
+        AND (b.id IS NULL OR (
+          b.status NOT IN ('paused', 'cancelled')
+          AND public.is_within_send_window(b.send_window_start, b.send_window_end, b.send_window_timezone)
+        ))
+      ORDER BY e.created_at
+      LIMIT v_budget
+      FOR UPDATE OF e SKIP LOCKED
+    ) t;
+
+    v_claimed := v_claimed || v_ids;
+  END LOOP;
+
+  WITH claimed AS (
+    UPDATE email_outbox
+    SET status = 'processing',
+        last_attempt_at = NOW()
+    WHERE id = ANY (v_claimed)
+    RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', c.id,
+    'org_id', c.org_id,
+    'from_name', c.from_name,
+    'from_email', c.from_email,
+    'reply_to', c.reply_to,
+    'to_email', c.to_email,
+    'subject', c.subject,
+    'html_body', c.html_body,
+    'text_body', c.text_body,
+    'attempt_count', c.attempt_count,
+    'max_attempts', c.max_attempts,
+    'batch_id', c.batch_id,
+    'attachments', c.attachments
+  ) ORDER BY c.created_at), '[]'::jsonb)
+  INTO v_jobs
+  FROM claimed c;
+
+  SELECT COUNT(*) INTO v_deferred
+  FROM email_outbox e
+  WHERE e.status IN ('queued', 'soft_bounced')
+    AND e.email_type = 'marketing'
+    AND e.scheduled_at <= NOW()
+    AND (e.next_attempt_at IS NULL OR e.next_attempt_at <= NOW());
+
+  RETURN jsonb_build_object('status', 'OK', 'jobs', v_jobs, 'deferred', v_deferred);
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_outbox_emails(INTEGER) IS
+  'F033: System: claim due emails (SKIP LOCKED), throttling marketing per org by rate_limits, send window and campaign status.';
+
+REVOKE ALL ON FUNCTION public.claim_outbox_emails(INTEGER) FROM public;
+GRANT EXECUTE ON FUNCTION public.claim_outbox_emails(INTEGER) TO service_role;
+
+-- ===========================================================================
+-- 7. RPC: get_campaign_analytics (org member)
+-- ===========================================================================
+-- Rates t.o.v. verzonden (delivered, bounced) of afgeleverd (complained,
+-- opened, clicked); opens zijn een ondergrens/indicatie (beeldblokkering,
+-- privacy proxies). Tijdlijn per uur, per dag als de campagne langer dan
+-- 72 uur loopt.
+
+CREATE OR REPLACE FUNCTION public.get_campaign_analytics(_batch_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch message_batches%ROWTYPE;
+  v_sent INTEGER;
+  v_delivered INTEGER;
+  v_bounced INTEGER;
+  v_complained INTEGER;
+  v_opened INTEGER;
+  v_clicked INTEGER;
+  v_first_sent TIMESTAMPTZ;
+  v_bucket TEXT;
+  v_links JSONB;
+  v_timeline JSONB;
+BEGIN
+  SELECT * INTO v_batch FROM message_batches WHERE id = _batch_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'BATCH_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_batch.org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE e.sent_at IS NOT NULL),
+    COUNT(*) FILTER (WHERE e.delivered_at IS NOT NULL OR e.status IN ('delivered', 'complained')),
+    COUNT(*) FILTER (WHERE e.status IN ('bounced', 'soft_bounced')),
+    COUNT(*) FILTER (WHERE e.status = 'complained'),
+    COUNT(*) FILTER (WHERE e.opened_at IS NOT NULL),
+    COUNT(*) FILTER (WHERE e.clicked_at IS NOT NULL),
+    MIN(e.sent_at)
+  INTO v_sent, v_delivered, v_bounced, v_complained, v_opened, v_clicked, v_first_sent
+  FROM email_outbox e
+  WHERE e.batch_id = _batch_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'link_id', l.id,
+    'url', l.url,
+    'clicks', c.clicks,
+    'unique_clicks', c.unique_clicks
+  ) ORDER BY c.clicks DESC, l.url), '[]'::jsonb)
+  INTO v_links
+  FROM email_tracked_links l
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*)::INTEGER AS clicks, COUNT(DISTINCT k.email_id)::INTEGER AS unique_clicks
+    FROM email_link_clicks k
+    WHERE k.link_id = l.id
+  ) c
+  WHERE l.batch_id = _batch_id;
+
+  v_bucket := CASE
+    WHEN v_first_sent IS NULL OR NOW() - v_first_sent <= INTERVAL '72 hours' THEN 'hour'
+    ELSE 'day'
+  END;
+
+  WITH activity AS (
+    SELECT date_trunc(v_bucket, COALESCE(ev.provider_timestamp, ev.created_at)) AS bucket_start,
+           ev.event_type AS kind
+    FROM email_outbox_events ev
+    JOIN email_outbox e ON e.id = ev.email_id
+    WHERE e.batch_id = _batch_id
+      AND ev.event_type IN ('delivered', 'opened', 'bounced', 'complained')
+    UNION ALL
+    SELECT date_trunc(v_bucket, k.clicked_at), 'clicked'
+    FROM email_link_clicks k
+    JOIN email_tracked_links l ON l.id = k.link_id
+    WHERE l.batch_id = _batch_id
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'bucket_start', t.bucket_start,
+    'delivered', t.delivered,
+    'opened', t.opened,
+    'clicked', t.clicked,
+    'bounced', t.bounced,
+    'complained', t.complained
+  ) ORDER BY t.bucket_start), '[]'::jsonb)
+  INTO v_timeline
+  FROM (
+    SELECT a.bucket_start,
+           COUNT(*) FILTER (WHERE a.kind = 'delivered')::INTEGER AS delivered,
+           COUNT(*) FILTER (WHERE a.kind = 'opened')::INTEGER AS opened,
+           COUNT(*) FILTER (WHERE a.kind = 'clicked')::INTEGER AS clicked,
+           COUNT(*) FILTER (WHERE a.kind = 'bounced')::INTEGER AS bounced,
+           COUNT(*) FILTER (WHERE a.kind = 'complained')::INTEGER AS complained
+    FROM activity a
+    GROUP BY a.bucket_start
+  ) t;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'batch_id', _batch_id,
+    'totals', jsonb_build_object(
+      'sent', v_sent,
+      'delivered', v_delivered,
+      'bounced', v_bounced,
+      'complained', v_complained,
+      'opened', v_opened,
+      'clicked', v_clicked
+    ),
+    'rates', jsonb_build_object(
+      'delivery_rate', ROUND(100.0 * v_delivered / NULLIF(v_sent, 0), 1),
+      'bounce_rate', ROUND(100.0 * v_bounced / NULLIF(v_sent, 0), 1),
+      'complaint_rate', ROUND(100.0 * v_complained / NULLIF(v_delivered, 0), 2),
+      'open_rate', ROUND(100.0 * v_opened / NULLIF(v_delivered, 0), 1),
+      'click_rate', ROUND(100.0 * v_clicked / NULLIF(v_delivered, 0), 1),
+      'click_to_open_rate', ROUND(100.0 * v_clicked / NULLIF(v_opened, 0), 1)
+    ),
+    'links', v_links,
+    'bucket', v_bucket,
+    'timeline', v_timeline
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_campaign_analytics(UUID) IS
+  'F033: Engagement of a campaign: totals, rates, clicks per tracked link and an hourly/daily timeline. Requires org membership.';
+
+GRANT EXECUTE ON FUNCTION public.get_campaign_analytics(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 8. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'email_outbox' AND column_name = 'opened_at'
+  ) THEN
+    RAISE EXCEPTION 'F033: email_outbox.opened_at not created';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'email_link_clicks'
+  ) THEN
+    RAISE EXCEPTION 'F033: email_link_clicks table not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_campaign_analytics') THEN
+    RAISE EXCEPTION 'F033: get_campaign_analytics not created';
+  END IF;
+
+  RAISE NOTICE 'F033: email engagement analytics created successfully';
+END $$;
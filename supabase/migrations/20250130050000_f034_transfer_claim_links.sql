@@ -0,0 +1,751 @@
+-- ===========================================================================
+-- F034: Transfer Claim Links
+-- Migration: 20250130050000_f034_transfer_claim_links.sql
+--
+-- Purpose:
+-- - initiate-transfer maakt de transfer aan via create_ticket_transfer en
+--   mailt de ontvanger een claim link (/transfer/:id/:token) via queue_email
+-- - Ontvanger zonder account maakt op de claim pagina een account aan en
+--   accepteert in dezelfde flow (accept_ticket_transfer(_transfer_id, _token))
+-- - Weigeren kan met alleen de link (reject_ticket_transfer(_transfer_id, _token))
+-- - Vervaltermijn uit de transfers setting transfer_expiry_hours
+-- - Claim token is een HMAC van de transfer id met een server-side secret
+--   (transfer_claim_token): één geldige link voor de hele looptijd
+-- - Herinnering aan de ontvanger voordat de transfer verloopt (zelfde link),
+--   verlopen transfers worden afgesloten (process_transfer_notifications,
+--   process-outbox)
+-- - Afzender krijgt een mail bij accepteren, weigeren of verlopen
+-- - Fix: validate_transfer_state_transition stond pending → rejected niet toe
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. COLUMNS: ticket_transfers
+-- ===========================================================================
+-- site_origin: origin van de app waar de transfer gestart is (voor de link
+-- in de mails), zoals teams.site_origin in F017.
+
+ALTER TABLE public.ticket_transfers
+  ADD COLUMN IF NOT EXISTS site_origin TEXT,
+  ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.ticket_transfers.site_origin IS
+  'F034: Origin of the app that started the transfer, used for the claim link in emails.';
+COMMENT ON COLUMN public.ticket_transfers.reminder_sent_at IS
+  'F034: When the recipient was reminded before expiry (process_transfer_notifications).';
+
+CREATE INDEX IF NOT EXISTS idx_transfers_pending_reminder
+  ON public.ticket_transfers(expires_at)
+  WHERE status = 'pending' AND reminder_sent_at IS NULL;
+
+-- ===========================================================================
+-- 2. TABLE: transfer_claim_secret
+-- ===========================================================================
+-- Eén rij met het secret voor transfer_claim_token. Geen policies: alleen
+-- SECURITY DEFINER functies lezen het. Roteren maakt openstaande claim links
+-- ongeldig.
+
+CREATE TABLE IF NOT EXISTS public.transfer_claim_secret (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.transfer_claim_secret IS
+  'F034: Server-side secret for transfer claim tokens (single row, no client access).';
+
+INSERT INTO public.transfer_claim_secret DEFAULT VALUES
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.transfer_claim_secret ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE public.transfer_claim_secret FROM anon, authenticated;
+
+-- ===========================================================================
+-- 3. FUNCTION: transfer_claim_token (system)
+-- ===========================================================================
+-- Het token in de claim link: HMAC-SHA256 van de transfer id. Het staat niet
+-- in de database (alleen de hash in transfer_token_hash), maar is altijd
+-- opnieuw af te leiden, zodat de herinnering dezelfde link meestuurt en de
+-- link uit de eerste mail (en de bevestigingslink na aanmelden) blijft werken.
+
+CREATE OR REPLACE FUNCTION public.transfer_claim_token(_transfer_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT encode(extensions.hmac(_transfer_id::TEXT, s.secret, 'sha256'), 'hex')
+  FROM transfer_claim_secret s;
+$$;
+
+COMMENT ON FUNCTION public.transfer_claim_token(UUID) IS
+  'F034: System: claim token for a transfer (HMAC of the transfer id with the server-side secret).';
+
+REVOKE ALL ON FUNCTION public.transfer_claim_token(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.transfer_claim_token(UUID) TO service_role;
+
+-- ===========================================================================
+-- 4. FUNCTION: validate_transfer_state_transition
+-- ===========================================================================
+-- Ongewijzigd t.o.v. 20240120000020 behalve: 'rejected' (toegevoegd in
+-- 20240120000029) is een geldige eindstatus vanuit pending. Zonder deze fix
+-- faalde elke weigering op de trigger.
+
+CREATE OR REPLACE FUNCTION public.validate_transfer_state_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Prevent modification of completed transfers
+    IF (TG_OP = 'UPDATE' AND OLD.status IN ('accepted', 'expired', 'cancelled', 'rejected')) THEN
+        IF NEW.status != OLD.status THEN
+            RAISE EXCEPTION 'Cannot change status of completed transfer (current: %, attempted: %)',
+                OLD.status, NEW.status
+                USING ERRCODE = '23514'; -- check_violation
+        END IF;
+    END IF;
+
+    -- Validate status transitions
+    IF (TG_OP = 'UPDATE' AND OLD.status != NEW.status) THEN
+        -- pending → accepted|expired|cancelled|rejected (valid)
+        -- Any other transition is invalid
+        IF OLD.status = 'pending' THEN
+            IF NEW.status NOT IN ('accepted', 'expired', 'cancelled', 'rejected') THEN
+                RAISE EXCEPTION 'Invalid status transition: % → %', OLD.status, NEW.status
+                    USING ERRCODE = '23514';
+            END IF;
+        ELSE
+            RAISE EXCEPTION 'Invalid status transition: % → %', OLD.status, NEW.status
+                USING ERRCODE = '23514';
+        END IF;
+    END IF;
+
+    -- Set timestamp on status change
+    IF (TG_OP = 'UPDATE' AND OLD.status != NEW.status) THEN
+        IF NEW.status = 'accepted' THEN
+            NEW.accepted_at := now();
+        ELSIF NEW.status = 'cancelled' THEN
+            NEW.cancelled_at := now();
+        ELSIF NEW.status = 'rejected' THEN
+            NEW.rejected_at := COALESCE(NEW.rejected_at, now());
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===========================================================================
+-- 5. FUNCTION: queue_transfer_claim_email (system)
+-- ===========================================================================
+-- Claim mail aan de ontvanger, bij aanmaken en als herinnering. Beide mails
+-- bevatten dezelfde link (transfer_claim_token).
+
+CREATE OR REPLACE FUNCTION public.queue_transfer_claim_email(
+  _transfer_id UUID,
+  _reminder BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer RECORD;
+  v_link TEXT;
+  v_expires TEXT;
+BEGIN
+  SELECT t.id, t.org_id, t.event_id, t.to_email, t.expires_at, t.site_origin,
+         e.name AS event_name, e.start_time,
+         tt.name AS ticket_name,
+         p.first_name AS sender_name
+  INTO v_transfer
+  FROM ticket_transfers t
+  JOIN events e ON e.id = t.event_id
+  JOIN ticket_instances ti ON ti.id = t.ticket_instance_id
+  JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+  LEFT JOIN participants p ON p.id = t.from_participant_id
+  WHERE t.id = _transfer_id;
+
+  IF NOT FOUND OR v_transfer.to_email IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_link := COALESCE(v_transfer.site_origin, '') || '/transfer/' || v_transfer.id || '/'
+    || public.transfer_claim_token(v_transfer.id);
+  v_expires := to_char(v_transfer.expires_at AT TIME ZONE 'Europe/Amsterdam', 'DD-MM-YYYY HH24:MI');
+
+  RETURN public.queue_email(
+    _org_id => v_transfer.org_id,
+    _event_id => v_transfer.event_id,
+    _idempotency_key => CASE WHEN _reminder THEN 'transfer_reminder:' ELSE 'transfer_claim:' END
+      || v_transfer.id::TEXT,
+    _to_email => v_transfer.to_email,
+    _subject => CASE WHEN _reminder
+      THEN 'Herinnering: er staat een ticket voor je klaar voor ' || v_transfer.event_name
+      ELSE COALESCE(v_transfer.sender_name, 'Iemand') || ' stuurt je een ticket voor ' || v_transfer.event_name
+    END,
+    _html_body =>
+      '<p>' || COALESCE(v_transfer.sender_name, 'Iemand') || ' wil een ticket <strong>' || v_transfer.ticket_name
+      || '</strong> voor ' || v_transfer.event_name || ' aan je overdragen.</p>'
+      || CASE WHEN _reminder
+        THEN '<p>Je hebt het ticket nog niet geaccepteerd. Dit kan nog tot ' || v_expires || '.</p>'
+        ELSE '<p>Accepteer het ticket voor ' || v_expires || '. Heb je nog geen account? Dat maak je aan op dezelfde pagina.</p>'
+      END
+      || '<p><a href="' || v_link || '">Ticket bekijken en accepteren</a></p>'
+      || '<p>Wil je het ticket niet? Dan kun je het via dezelfde link weigeren.</p>',
+    _text_body =>
+      COALESCE(v_transfer.sender_name, 'Iemand') || ' wil een ticket ' || v_transfer.ticket_name
+      || ' voor ' || v_transfer.event_name || ' aan je overdragen. '
+      || 'Accepteren kan tot ' || v_expires || ' via: ' || v_link,
+    _template_variables => jsonb_build_object(
+      'event_name', v_transfer.event_name,
+      'ticket_name', v_transfer.ticket_name,
+      'sender_name', v_transfer.sender_name,
+      'expires_at', v_transfer.expires_at,
+      'claim_url', v_link
+    ),
+    _metadata => jsonb_build_object('transfer_id', v_transfer.id, 'reminder', _reminder)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.queue_transfer_claim_email(UUID, BOOLEAN) IS
+  'F034: System: email the transfer recipient a claim link (initial or reminder) via queue_email.';
+
+REVOKE ALL ON FUNCTION public.queue_transfer_claim_email(UUID, BOOLEAN) FROM public;
+GRANT EXECUTE ON FUNCTION public.queue_transfer_claim_email(UUID, BOOLEAN) TO service_role;
+
+-- ===========================================================================
+-- 6. RPC: create_ticket_transfer (service role, initiate-transfer)
+-- ===========================================================================
+-- Eigenaar: ticket_instances.owner_user_id, of de koper van de order zolang
+-- er nog geen eigenaar is. Afzender-deelnemer: ontvanger van de laatste
+-- geaccepteerde transfer, anders de deelnemer van de gebruiker (zoals de
+-- houder in F025).
+
+CREATE OR REPLACE FUNCTION public.create_ticket_transfer(
+  _ticket_instance_id UUID,
+  _user_id UUID,
+  _to_email TEXT,
+  _site_origin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket RECORD;
+  v_settings JSONB;
+  v_to_email TEXT := lower(trim(_to_email));
+  v_from_participant_id UUID;
+  v_expires_at TIMESTAMPTZ;
+  v_transfer_id UUID;
+  v_email_id UUID;
+BEGIN
+  IF v_to_email IS NULL OR v_to_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN jsonb_build_object('error', 'INVALID_EMAIL');
+  END IF;
+
+  IF _site_origin IS NOT NULL AND _site_origin !~ '^https?://[A-Za-z0-9.-]+(:[0-9]+)?$' THEN
+    _site_origin := NULL;
+  END IF;
+
+  SELECT ti.id, ti.status, ti.event_id, ti.owner_user_id, e.org_id, o.user_id AS order_user_id
+  INTO v_ticket
+  FROM ticket_instances ti
+  JOIN events e ON e.id = ti.event_id
+  JOIN orders o ON o.id = ti.order_id
+  WHERE ti.id = _ticket_instance_id
+    AND ti.deleted_at IS NULL
+  FOR UPDATE OF ti;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TICKET_NOT_FOUND');
+  END IF;
+
+  IF COALESCE(v_ticket.owner_user_id, v_ticket.order_user_id) IS DISTINCT FROM _user_id THEN
+    RETURN jsonb_build_object('error', 'FORBIDDEN');
+  END IF;
+
+  IF v_ticket.status != 'issued' THEN
+    RETURN jsonb_build_object('error', 'INVALID_TICKET_STATUS');
+  END IF;
+
+  v_settings := public.resolve_event_setting(v_ticket.event_id, 'transfers');
+
+  IF (v_settings->>'transfers_enabled')::BOOLEAN IS FALSE THEN
+    RETURN jsonb_build_object('error', 'TRANSFERS_DISABLED');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM auth.users WHERE id = _user_id AND lower(email) = v_to_email) THEN
+    RETURN jsonb_build_object('error', 'SELF_TRANSFER');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ticket_transfers
+    WHERE ticket_instance_id = _ticket_instance_id AND status = 'pending'
+  ) THEN
+    RETURN jsonb_build_object('error', 'TRANSFER_PENDING');
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT t.to_participant_id
+     FROM ticket_transfers t
+     JOIN participants p ON p.id = t.to_participant_id
+     WHERE t.ticket_instance_id = _ticket_instance_id
+       AND t.status = 'accepted'
+       AND p.user_id = _user_id
+     ORDER BY t.accepted_at DESC
+     LIMIT 1),
+    (SELECT p.id
+     FROM participants p
+     JOIN registrations r ON r.participant_id = p.id
+     WHERE p.user_id = _user_id
+       AND r.event_id = v_ticket.event_id
+     ORDER BY r.created_at DESC
+     LIMIT 1),
+    (SELECT p.id
+     FROM participants p
+     WHERE p.user_id = _user_id
+     ORDER BY p.created_at DESC
+     LIMIT 1)
+  )
+  INTO v_from_participant_id;
+
+  IF v_from_participant_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'NO_PARTICIPANT');
+  END IF;
+
+  -- Id vooraf, want het token is ervan afgeleid
+  v_transfer_id := gen_random_uuid();
+  v_expires_at := NOW() + make_interval(
+    hours => GREATEST(COALESCE((v_settings->>'transfer_expiry_hours')::INT, 48), 1)
+  );
+
+  INSERT INTO ticket_transfers (
+    id, event_id, org_id, ticket_instance_id, from_participant_id, to_email,
+    transfer_token_hash, expires_at, initiated_by_user_id, status, site_origin
+  ) VALUES (
+    v_transfer_id, v_ticket.event_id, v_ticket.org_id, _ticket_instance_id, v_from_participant_id, v_to_email,
+    encode(extensions.digest(public.transfer_claim_token(v_transfer_id), 'sha256'), 'hex'),
+    v_expires_at, _user_id, 'pending', _site_origin
+  );
+
+  v_email_id := public.queue_transfer_claim_email(v_transfer_id);
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'transfer_id', v_transfer_id,
+    'expires_at', v_expires_at,
+    -- NULL = adres niet afleverbaar (bounce / uitgeschreven)
+    'email_queued', v_email_id IS NOT NULL
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_ticket_transfer(UUID, UUID, TEXT, TEXT) IS
+  'F034: System: start a transfer for the ticket owner (expiry from transfer_expiry_hours) and email the recipient a claim link.';
+
+REVOKE ALL ON FUNCTION public.create_ticket_transfer(UUID, UUID, TEXT, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_ticket_transfer(UUID, UUID, TEXT, TEXT) TO service_role;
+
+-- ===========================================================================
+-- 7. RPC: get_transfer_claim (public)
+-- ===========================================================================
+-- Gegevens voor de claim pagina; alleen met het token uit de mail.
+
+CREATE OR REPLACE FUNCTION public.get_transfer_claim(_transfer_id UUID, _token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer RECORD;
+BEGIN
+  SELECT t.id, t.status, t.to_email, t.expires_at, t.transfer_token_hash,
+         e.name AS event_name, e.slug AS event_slug, e.start_time, e.location_name,
+         tt.name AS ticket_name,
+         p.first_name AS sender_name
+  INTO v_transfer
+  FROM ticket_transfers t
+  JOIN events e ON e.id = t.event_id
+  JOIN ticket_instances ti ON ti.id = t.ticket_instance_id
+  JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+  LEFT JOIN participants p ON p.id = t.from_participant_id
+  WHERE t.id = _transfer_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TRANSFER_NOT_FOUND');
+  END IF;
+
+  IF _token IS NULL OR v_transfer.transfer_token_hash != encode(extensions.digest(_token, 'sha256'), 'hex') THEN
+    RETURN jsonb_build_object('error', 'INVALID_TOKEN');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'transfer', jsonb_build_object(
+      'id', v_transfer.id,
+      -- Verlopen maar nog niet door process_transfer_notifications afgesloten
+      'status', CASE
+        WHEN v_transfer.status = 'pending' AND v_transfer.expires_at <= NOW() THEN 'expired'
+        ELSE v_transfer.status::TEXT
+      END,
+      'to_email', v_transfer.to_email,
+      'expires_at', v_transfer.expires_at,
+      'sender_name', v_transfer.sender_name,
+      'event_name', v_transfer.event_name,
+      'event_slug', v_transfer.event_slug,
+      'event_start', v_transfer.start_time,
+      'location_name', v_transfer.location_name,
+      'ticket_name', v_transfer.ticket_name
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_transfer_claim(UUID, TEXT) IS
+  'F034: Public: transfer details for the claim page, requires the token from the claim email.';
+
+GRANT EXECUTE ON FUNCTION public.get_transfer_claim(UUID, TEXT) TO anon, authenticated;
+
+-- ===========================================================================
+-- 8. RPC: accept_ticket_transfer(_transfer_id, _token) (authenticated)
+-- ===========================================================================
+-- Vervangt de versie uit 20240120000025 (die een bestaande registratie voor
+-- het event eiste en nergens werd aangeroepen). Het token is het bewijs dat
+-- de gebruiker de claim mail heeft; de ingelogde gebruiker wordt eigenaar.
+-- Zonder deelnemer wordt er een aangemaakt (nieuw account uit de claim flow).
+-- accept_ticket_transfer(_transfer_id) blijft de variant voor ingelogde
+-- ontvangers en org admins zonder token.
+
+CREATE OR REPLACE FUNCTION public.accept_ticket_transfer(_transfer_id UUID, _token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer ticket_transfers%ROWTYPE;
+  v_user auth.users%ROWTYPE;
+  v_owner_user_id UUID;
+  v_participant_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT * INTO v_transfer FROM ticket_transfers WHERE id = _transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TRANSFER_NOT_FOUND');
+  END IF;
+
+  IF _token IS NULL OR v_transfer.transfer_token_hash != encode(extensions.digest(_token, 'sha256'), 'hex') THEN
+    RETURN jsonb_build_object('error', 'INVALID_TOKEN');
+  END IF;
+
+  -- Idempotent: nogmaals op de link klikken na accepteren
+  IF v_transfer.status = 'accepted' AND v_transfer.accepted_by_user_id = auth.uid() THEN
+    RETURN jsonb_build_object('status', 'OK', 'transfer_id', _transfer_id,
+      'ticket_instance_id', v_transfer.ticket_instance_id, 'updated', 0);
+  END IF;
+
+  IF v_transfer.status != 'pending' THEN
+    RETURN jsonb_build_object('error', 'TRANSFER_NOT_PENDING', 'transfer_status', v_transfer.status);
+  END IF;
+
+  IF v_transfer.expires_at <= NOW() THEN
+    UPDATE ticket_transfers SET status = 'expired', updated_at = NOW() WHERE id = _transfer_id;
+    RETURN jsonb_build_object('error', 'TRANSFER_EXPIRED');
+  END IF;
+
+  SELECT owner_user_id INTO v_owner_user_id
+  FROM ticket_instances
+  WHERE id = v_transfer.ticket_instance_id;
+
+  IF v_owner_user_id = auth.uid() OR EXISTS (
+    SELECT 1 FROM participants WHERE id = v_transfer.from_participant_id AND user_id = auth.uid()
+  ) THEN
+    RETURN jsonb_build_object('error', 'SELF_TRANSFER');
+  END IF;
+
+  SELECT * INTO v_user FROM auth.users WHERE id = auth.uid();
+
+  SELECT COALESCE(
+    (SELECT p.id
+     FROM participants p
+     JOIN registrations r ON r.participant_id = p.id
+     WHERE p.user_id = auth.uid()
+       AND r.event_id = v_transfer.event_id
+     ORDER BY r.created_at DESC
+     LIMIT 1),
+    (SELECT p.id
+     FROM participants p
+     WHERE p.user_id = auth.uid()
+     ORDER BY p.created_at DESC
+     LIMIT 1)
+  )
+  INTO v_participant_id;
+
+  IF v_participant_id IS NULL THEN
+    INSERT INTO participants (user_id, email, first_name, last_name)
+    VALUES (
+      auth.uid(),
+      lower(COALESCE(v_user.email, v_transfer.to_email)),
+      COALESCE(NULLIF(trim(v_user.raw_user_meta_data->>'first_name'), ''),
+               split_part(COALESCE(v_user.email, v_transfer.to_email), '@', 1)),
+      COALESCE(NULLIF(trim(v_user.raw_user_meta_data->>'last_name'), ''), '')
+    )
+    RETURNING id INTO v_participant_id;
+  END IF;
+
+  UPDATE ticket_instances
+  SET owner_user_id = auth.uid(),
+      updated_at = NOW()
+  WHERE id = v_transfer.ticket_instance_id;
+
+  UPDATE ticket_transfers
+  SET status = 'accepted',
+      accepted_by_user_id = auth.uid(),
+      to_participant_id = v_participant_id,
+      updated_at = NOW()
+  WHERE id = _transfer_id;
+
+  -- Wallet pass met de nieuwe houder (push gebeurt bij de volgende update)
+  PERFORM public.touch_wallet_pass(v_transfer.ticket_instance_id);
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'transfer_id', _transfer_id,
+    'ticket_instance_id', v_transfer.ticket_instance_id,
+    'updated', 1
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.accept_ticket_transfer(UUID, TEXT) IS
+  'F034: Accept a pending transfer with the token from the claim email; the signed-in user becomes owner (participant created when missing).';
+
+REVOKE ALL ON FUNCTION public.accept_ticket_transfer(UUID, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.accept_ticket_transfer(UUID, TEXT) TO authenticated;
+
+-- ===========================================================================
+-- 9. RPC: reject_ticket_transfer(_transfer_id, _token) (public)
+-- ===========================================================================
+-- Vervangt de versie uit 20240120000025. Weigeren kan zonder account: het
+-- token uit de mail volstaat.
+
+CREATE OR REPLACE FUNCTION public.reject_ticket_transfer(_transfer_id UUID, _token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer ticket_transfers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transfer FROM ticket_transfers WHERE id = _transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TRANSFER_NOT_FOUND');
+  END IF;
+
+  IF _token IS NULL OR v_transfer.transfer_token_hash != encode(extensions.digest(_token, 'sha256'), 'hex') THEN
+    RETURN jsonb_build_object('error', 'INVALID_TOKEN');
+  END IF;
+
+  IF v_transfer.status = 'rejected' THEN
+    RETURN jsonb_build_object('status', 'OK', 'transfer_id', _transfer_id, 'updated', 0);
+  END IF;
+
+  IF v_transfer.status != 'pending' THEN
+    RETURN jsonb_build_object('error', 'TRANSFER_NOT_PENDING', 'transfer_status', v_transfer.status);
+  END IF;
+
+  UPDATE ticket_transfers
+  SET status = 'rejected',
+      rejected_at = NOW(),
+      rejected_by_user_id = auth.uid(),
+      updated_at = NOW()
+  WHERE id = _transfer_id;
+
+  RETURN jsonb_build_object('status', 'OK', 'transfer_id', _transfer_id, 'updated', 1);
+END;
+$$;
+
+COMMENT ON FUNCTION public.reject_ticket_transfer(UUID, TEXT) IS
+  'F034: Public: reject a pending transfer with the token from the claim email.';
+
+REVOKE ALL ON FUNCTION public.reject_ticket_transfer(UUID, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.reject_ticket_transfer(UUID, TEXT) TO anon, authenticated;
+
+-- ===========================================================================
+-- 10. TRIGGER: notify_transfer_sender
+-- ===========================================================================
+-- Afzender krijgt een mail zodra een openstaande transfer geaccepteerd,
+-- geweigerd of verlopen is, ongeacht de route (claim link, PendingTransfers,
+-- org admin, accept-transfer of process_transfer_notifications).
+
+CREATE OR REPLACE FUNCTION public.notify_transfer_sender()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sender RECORD;
+  v_event_name TEXT;
+  v_outcome TEXT;
+BEGIN
+  SELECT p.email, p.first_name INTO v_sender
+  FROM participants p
+  WHERE p.id = NEW.from_participant_id;
+
+  IF NOT FOUND OR v_sender.email IS NULL OR v_sender.email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_event_name FROM events WHERE id = NEW.event_id;
+
+  v_outcome := CASE NEW.status
+    WHEN 'accepted' THEN 'is geaccepteerd door ' || NEW.to_email || '. Het ticket staat nu op hun naam.'
+    WHEN 'rejected' THEN 'is geweigerd door ' || NEW.to_email || '. Het ticket blijft van jou.'
+    ELSE 'is verlopen: ' || NEW.to_email || ' heeft het ticket niet op tijd geaccepteerd. Het ticket blijft van jou.'
+  END;
+
+  PERFORM public.queue_email(
+    _org_id => NEW.org_id,
+    _event_id => NEW.event_id,
+    _idempotency_key => 'transfer_outcome:' || NEW.id::TEXT,
+    _to_email => v_sender.email,
+    _subject => CASE NEW.status
+      WHEN 'accepted' THEN 'Je ticket voor ' || v_event_name || ' is overgedragen'
+      WHEN 'rejected' THEN 'Je ticketoverdracht voor ' || v_event_name || ' is geweigerd'
+      ELSE 'Je ticketoverdracht voor ' || v_event_name || ' is verlopen'
+    END,
+    _html_body =>
+      '<p>Hoi ' || COALESCE(v_sender.first_name, '') || ',</p>'
+      || '<p>De overdracht van je ticket voor ' || v_event_name || ' ' || v_outcome || '</p>',
+    _text_body => 'De overdracht van je ticket voor ' || v_event_name || ' ' || v_outcome,
+    _template_variables => jsonb_build_object(
+      'event_name', v_event_name,
+      'to_email', NEW.to_email,
+      'outcome', NEW.status
+    ),
+    _metadata => jsonb_build_object('transfer_id', NEW.id, 'outcome', NEW.status)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.notify_transfer_sender() IS
+  'F034: Trigger: email the sender when a pending transfer is accepted, rejected or expired.';
+
+DROP TRIGGER IF EXISTS notify_transfer_sender ON public.ticket_transfers;
+CREATE TRIGGER notify_transfer_sender
+  AFTER UPDATE OF status ON public.ticket_transfers
+  FOR EACH ROW
+  WHEN (OLD.status = 'pending' AND NEW.status IN ('accepted', 'rejected', 'expired'))
+  EXECUTE FUNCTION public.notify_transfer_sender();
+
+-- ===========================================================================
+-- 11. RPC: process_transfer_notifications (service role, process-outbox)
+-- ===========================================================================
+-- Herinnering halverwege de termijn, maar hooguit 24 uur voor het verlopen.
+-- De herinnering bevat dezelfde link als de eerste mail (transfer_claim_token).
+-- Verlopen transfers worden afgesloten; de afzender hoort dat via
+-- notify_transfer_sender.
+
+CREATE OR REPLACE FUNCTION public.process_transfer_notifications(_limit INTEGER DEFAULT 100)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer RECORD;
+  v_reminders INTEGER := 0;
+  v_expired INTEGER;
+BEGIN
+  FOR v_transfer IN
+    SELECT t.id
+    FROM ticket_transfers t
+    WHERE t.status = 'pending'
+      AND t.reminder_sent_at IS NULL
+      AND t.to_email IS NOT NULL
+      AND t.expires_at > NOW()
+      AND NOW() >= t.expires_at - LEAST(INTERVAL '24 hours', (t.expires_at - t.initiated_at) / 2)
+    ORDER BY t.expires_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE ticket_transfers
+    SET reminder_sent_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_transfer.id;
+
+    PERFORM public.queue_transfer_claim_email(v_transfer.id, true);
+    v_reminders := v_reminders + 1;
+  END LOOP;
+
+  WITH expired AS (
+    UPDATE ticket_transfers
+    SET status = 'expired',
+        updated_at = NOW()
+    WHERE id IN (
+      SELECT id FROM ticket_transfers
+      WHERE status = 'pending'
+        AND expires_at <= NOW()
+      ORDER BY expires_at
+      LIMIT _limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  )
+  SELECT COUNT(*) INTO v_expired FROM expired;
+
+  RETURN jsonb_build_object('status', 'OK', 'reminders', v_reminders, 'expired', v_expired);
+END;
+$$;
+
+COMMENT ON FUNCTION public.process_transfer_notifications(INTEGER) IS
+  'F034: System: remind recipients of pending transfers before expiry and expire overdue transfers.';
+
+REVOKE ALL ON FUNCTION public.process_transfer_notifications(INTEGER) FROM public;
+GRANT EXECUTE ON FUNCTION public.process_transfer_notifications(INTEGER) TO service_role;
+
+-- ===========================================================================
+-- 12. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'ticket_transfers' AND column_name = 'reminder_sent_at'
+  ) THEN
+    RAISE EXCEPTION 'F034: ticket_transfers.reminder_sent_at not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transfer_claim_secret) THEN
+    RAISE EXCEPTION 'F034: transfer_claim_secret not initialised';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'create_ticket_transfer') THEN
+    RAISE EXCEPTION 'F034: create_ticket_transfer not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'process_transfer_notifications') THEN
+    RAISE EXCEPTION 'F034: process_transfer_notifications not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'notify_transfer_sender') THEN
+    RAISE EXCEPTION 'F034: notify_transfer_sender trigger not created';
+  END IF;
+
+  RAISE NOTICE 'F034: transfer claim links created successfully';
+END $$;
@@ -0,0 +1,2067 @@
+-- ===========================================================================
+-- F035: Ticket Resale Marketplace
+-- Migration: 20250130060000_f035_ticket_resale.sql
+--
+-- Purpose:
+-- - Doorverkoop via de organisator naast gratis transfers: de houder biedt
+--   een ticket aan (ticket_resale_listings), kopers betalen via de gewone
+--   checkout (create-order-public met resale_listing_id)
+-- - Prijsplafond en servicekosten in het transfers settings domein
+--   (resale_enabled, resale_max_price_pct van de nominale prijs, resale_fee_pct)
+-- - Na betaling gaat het ticket via complete_ticket_transfer naar de koper
+--   (nieuwe QR code); de verkoper krijgt de verkoopprijs min de
+--   servicekosten terug op zijn betaling (create-refund via process-outbox)
+-- - Een uitbetaling die create-refund weigert (bijv. al volledig terugbetaald)
+--   gaat uit de wachtrij met de fout erbij; de organisator lost hem op en
+--   zet hem terug met retry_resale_payout
+-- - Alleen wie voor het ticket betaald heeft kan doorverkopen: de
+--   oorspronkelijke koper of een eerdere doorverkoop koper (niet na een
+--   gratis transfer), anders is er geen betaling om op terug te storten
+-- - Financiële rapportage boekt de betaling van de koper als 'resale' en
+--   de uitbetaling aan de verkoper als 'resale_payout' (finance_report_lines)
+-- - Elke stap staat in audit_log
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: ticket_resale_listings
+-- ===========================================================================
+-- Bedragen in centen, zoals refunds. active → reserved (koper in de
+-- checkout) → sold, of cancelled. Een reservering die verlopen is
+-- (reserved_until) telt weer als beschikbaar.
+
+CREATE TABLE IF NOT EXISTS public.ticket_resale_listings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  ticket_instance_id UUID NOT NULL REFERENCES ticket_instances(id) ON DELETE RESTRICT,
+
+  -- Betaling van de verkoper waarop de uitbetaling teruggestort wordt
+  seller_order_id UUID NOT NULL REFERENCES orders(id) ON DELETE RESTRICT,
+  seller_email TEXT NOT NULL,
+
+  price_cents INTEGER NOT NULL CHECK (price_cents > 0),
+  face_value_cents INTEGER NOT NULL CHECK (face_value_cents > 0),
+  fee_cents INTEGER NOT NULL DEFAULT 0 CHECK (fee_cents >= 0),
+  payout_cents INTEGER NOT NULL CHECK (payout_cents > 0),
+
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'reserved', 'sold', 'cancelled')),
+  buyer_order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  reserved_until TIMESTAMPTZ,
+  transfer_id UUID REFERENCES ticket_transfers(id) ON DELETE SET NULL,
+  payout_refund_id UUID REFERENCES refunds(id) ON DELETE SET NULL,
+  payout_failed_at TIMESTAMPTZ,
+  payout_error TEXT,
+
+  sold_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Eén open aanbieding per ticket
+CREATE UNIQUE INDEX IF NOT EXISTS idx_resale_listings_open_ticket
+  ON public.ticket_resale_listings(ticket_instance_id)
+  WHERE status IN ('active', 'reserved');
+
+CREATE INDEX IF NOT EXISTS idx_resale_listings_event_status
+  ON public.ticket_resale_listings(event_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_resale_listings_seller_order
+  ON public.ticket_resale_listings(seller_order_id);
+
+CREATE INDEX IF NOT EXISTS idx_resale_listings_buyer_order
+  ON public.ticket_resale_listings(buyer_order_id)
+  WHERE buyer_order_id IS NOT NULL;
+
+-- process-outbox: verkocht, nog niet uitbetaald en niet definitief mislukt
+CREATE INDEX IF NOT EXISTS idx_resale_listings_pending_payout
+  ON public.ticket_resale_listings(sold_at)
+  WHERE status = 'sold' AND payout_refund_id IS NULL AND payout_failed_at IS NULL;
+
+COMMENT ON TABLE public.ticket_resale_listings IS
+  'F035: Tickets offered for resale via the organizer. Buyers pay through create-order-public; the seller is refunded the price minus the fee.';
+COMMENT ON COLUMN public.ticket_resale_listings.seller_order_id IS
+  'F035: Order whose payment receives the payout (original order, or the resale order of a previous buyer).';
+COMMENT ON COLUMN public.ticket_resale_listings.payout_cents IS
+  'F035: price_cents - fee_cents, capped at what the seller paid for the ticket.';
+COMMENT ON COLUMN public.ticket_resale_listings.payout_error IS
+  'F035: create-refund error code of a payout that cannot succeed (e.g. ALREADY_REFUNDED); process-outbox skips it until retry_resale_payout.';
+
+CREATE TRIGGER ticket_resale_listings_updated_at
+  BEFORE UPDATE ON public.ticket_resale_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+ALTER TABLE public.ticket_resale_listings ENABLE ROW LEVEL SECURITY;
+
+-- Schrijven alleen via de RPCs hieronder
+CREATE POLICY "Org members can view resale listings"
+  ON public.ticket_resale_listings
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+-- ===========================================================================
+-- 2. COLUMNS: orders.resale_listing_id, refunds.created_by
+-- ===========================================================================
+-- Een doorverkoop order heeft geen order_items: er wordt geen nieuw ticket
+-- uitgegeven en de capaciteit telt niet dubbel. De order wijst naar de
+-- aanbieding; handle_resale_order_status handelt betaling en annulering af.
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS resale_listing_id UUID REFERENCES public.ticket_resale_listings(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.orders.resale_listing_id IS
+  'F035: Resale listing bought with this order (no order_items; the ticket is transferred when paid).';
+
+-- Uitbetalingen aan verkopers worden door het systeem aangemaakt
+ALTER TABLE public.refunds ALTER COLUMN created_by DROP NOT NULL;
+
+COMMENT ON COLUMN public.refunds.created_by IS
+  'User who created the refund. NULL = system (resale payout, F035).';
+
+-- ===========================================================================
+-- 3. SETTINGS: transfers.resale_*
+-- ===========================================================================
+-- Ongewijzigd t.o.v. 20250127000002 behalve het transfers domein:
+-- resale_enabled (boolean, standaard uit), resale_max_price_pct (1-100,
+-- plafond als percentage van de nominale prijs) en resale_fee_pct (0-50,
+-- servicekosten over de verkoopprijs, ingehouden op de uitbetaling).
+
+CREATE OR REPLACE FUNCTION public.validate_setting_domain(_domain text, _value jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    _emails jsonb;
+    _email text;
+    _email_count int;
+    _sender jsonb;
+    _provider jsonb;
+    _resend jsonb;
+    _bulk jsonb;
+    _compliance jsonb;
+    _rate_limits jsonb;
+    _retry jsonb;
+BEGIN
+    CASE _domain
+        -- Existing domains (unchanged)
+        WHEN 'payments' THEN
+            IF (_value ? 'payment_profile_id') AND (_value->>'payment_profile_id' IS NOT NULL) THEN
+                IF NOT (_value->>'payment_profile_id' ~ '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$') THEN
+                    RAISE EXCEPTION 'Invalid payment_profile_id format';
+                END IF;
+            END IF;
+            IF (_value ? 'vat_rate') AND NOT (jsonb_typeof(_value->'vat_rate') = 'number') THEN
+                RAISE EXCEPTION 'vat_rate must be a number';
+            END IF;
+
+        WHEN 'transfers' THEN
+            IF (_value ? 'transfers_enabled') AND NOT (jsonb_typeof(_value->'transfers_enabled') = 'boolean') THEN
+                RAISE EXCEPTION 'transfers_enabled must be a boolean';
+            END IF;
+            IF (_value ? 'transfer_expiry_hours') AND NOT (jsonb_typeof(_value->'transfer_expiry_hours') = 'number') THEN
+                RAISE EXCEPTION 'transfer_expiry_hours must be a number';
+            END IF;
+            IF (_value ? 'cancel_roles') AND NOT (jsonb_typeof(_value->'cancel_roles') = 'array') THEN
+                RAISE EXCEPTION 'cancel_roles must be an array';
+            END IF;
+            -- F035: doorverkoop
+            IF (_value ? 'resale_enabled') AND NOT (jsonb_typeof(_value->'resale_enabled') = 'boolean') THEN
+                RAISE EXCEPTION 'resale_enabled must be a boolean';
+            END IF;
+            IF (_value ? 'resale_max_price_pct') THEN
+                PERFORM public.validate_number_range(_value->'resale_max_price_pct', 'resale_max_price_pct', 1, 100);
+            END IF;
+            IF (_value ? 'resale_fee_pct') THEN
+                PERFORM public.validate_number_range(_value->'resale_fee_pct', 'resale_fee_pct', 0, 50);
+            END IF;
+
+        -- UPDATED: communication domain with extended settings
+        WHEN 'communication' THEN
+            -- Legacy settings (backward compatible)
+            IF (_value ? 'reply_to_email') AND (_value->>'reply_to_email' IS NOT NULL) AND (_value->>'reply_to_email' != '') THEN
+                IF NOT public.is_valid_email_format(_value->>'reply_to_email') THEN
+                    RAISE EXCEPTION 'reply_to_email must be a valid email address';
+                END IF;
+            END IF;
+            IF (_value ? 'default_locale') AND NOT (_value->>'default_locale' IN ('nl', 'en', 'fr')) THEN
+                RAISE EXCEPTION 'default_locale must be nl, en, or fr';
+            END IF;
+
+            -- NEW: sender settings (nested object)
+            IF _value ? 'sender' THEN
+                _sender := _value->'sender';
+
+                IF jsonb_typeof(_sender) != 'object' THEN
+                    RAISE EXCEPTION 'sender must be an object';
+                END IF;
+
+                -- sender.default_from_name (string, optional)
+                IF (_sender ? 'default_from_name') AND (_sender->>'default_from_name' IS NOT NULL) THEN
+                    IF jsonb_typeof(_sender->'default_from_name') != 'string' THEN
+                        RAISE EXCEPTION 'sender.default_from_name must be a string';
+                    END IF;
+                END IF;
+
+                -- sender.default_from_email (string, email format, optional)
+                IF (_sender ? 'default_from_email') AND (_sender->>'default_from_email' IS NOT NULL) AND (_sender->>'default_from_email' != '') THEN
+                    IF NOT public.is_valid_email_format(_sender->>'default_from_email') THEN
+                        RAISE EXCEPTION 'sender.default_from_email must be a valid email address';
+                    END IF;
+                END IF;
+
+                -- sender.default_reply_to (string, email format, optional)
+                IF (_sender ? 'default_reply_to') AND (_sender->>'default_reply_to' IS NOT NULL) AND (_sender->>'default_reply_to' != '') THEN
+                    IF NOT public.is_valid_email_format(_sender->>'default_reply_to') THEN
+                        RAISE EXCEPTION 'sender.default_reply_to must be a valid email address';
+                    END IF;
+                END IF;
+            END IF;
+
+            -- NEW: provider settings (nested object)
+            IF _value ? 'provider' THEN
+                _provider := _value->'provider';
+
+                IF jsonb_typeof(_provider) != 'object' THEN
+                    RAISE EXCEPTION 'provider must be an object';
+                END IF;
+
+                -- provider.resend (nested object)
+                IF _provider ? 'resend' THEN
+                    _resend := _provider->'resend';
+
+                    IF jsonb_typeof(_resend) != 'object' THEN
+                        RAISE EXCEPTION 'provider.resend must be an object';
+                    END IF;
+
+                    -- provider.resend.enabled (boolean)
+                    IF (_resend ? 'enabled') AND (jsonb_typeof(_resend->'enabled') != 'boolean') THEN
+                        RAISE EXCEPTION 'provider.resend.enabled must be a boolean';
+                    END IF;
+
+                    -- provider.resend.api_key_ref (string)
+                    IF (_resend ? 'api_key_ref') AND (_resend->>'api_key_ref' IS NOT NULL) THEN
+                        IF jsonb_typeof(_resend->'api_key_ref') != 'string' THEN
+                            RAISE EXCEPTION 'provider.resend.api_key_ref must be a string';
+                        END IF;
+                    END IF;
+                END IF;
+            END IF;
+
+            -- NEW: bulk settings (nested object)
+            IF _value ? 'bulk' THEN
+                _bulk := _value->'bulk';
+
+                IF jsonb_typeof(_bulk) != 'object' THEN
+                    RAISE EXCEPTION 'bulk must be an object';
+                END IF;
+
+                -- bulk.batch_size (number, 1-500)
+                IF _bulk ? 'batch_size' THEN
+                    PERFORM public.validate_number_range(_bulk->'batch_size', 'bulk.batch_size', 1, 500);
+                END IF;
+
+                -- bulk.delay_between_batches_ms (number, 100-10000)
+                IF _bulk ? 'delay_between_batches_ms' THEN
+                    PERFORM public.validate_number_range(_bulk->'delay_between_batches_ms', 'bulk.delay_between_batches_ms', 100, 10000);
+                END IF;
+
+                -- bulk.max_recipients_per_campaign (number, 1-100000)
+                IF _bulk ? 'max_recipients_per_campaign' THEN
+                    PERFORM public.validate_number_range(_bulk->'max_recipients_per_campaign', 'bulk.max_recipients_per_campaign', 1, 100000);
+                END IF;
+            END IF;
+
+            -- NEW: compliance settings (nested object)
+            IF _value ? 'compliance' THEN
+                _compliance := _value->'compliance';
+
+                IF jsonb_typeof(_compliance) != 'object' THEN
+                    RAISE EXCEPTION 'compliance must be an object';
+                END IF;
+
+                -- compliance.unsubscribe_enabled (boolean)
+                IF (_compliance ? 'unsubscribe_enabled') AND (jsonb_typeof(_compliance->'unsubscribe_enabled') != 'boolean') THEN
+                    RAISE EXCEPTION 'compliance.unsubscribe_enabled must be a boolean';
+                END IF;
+
+                -- compliance.bounce_threshold (number, 1-10)
+                IF _compliance ? 'bounce_threshold' THEN
+                    PERFORM public.validate_number_range(_compliance->'bounce_threshold', 'compliance.bounce_threshold', 1, 10);
+                END IF;
+
+                -- compliance.complaint_threshold (number, 1-5)
+                IF _compliance ? 'complaint_threshold' THEN
+                    PERFORM public.validate_number_range(_compliance->'complaint_threshold', 'compliance.complaint_threshold', 1, 5);
+                END IF;
+            END IF;
+
+            -- NEW: rate_limits settings (nested object)
+            IF _value ? 'rate_limits' THEN
+                _rate_limits := _value->'rate_limits';
+
+                IF jsonb_typeof(_rate_limits) != 'object' THEN
+                    RAISE EXCEPTION 'rate_limits must be an object';
+                END IF;
+
+                -- rate_limits.emails_per_minute (number, 1-1000)
+                IF _rate_limits ? 'emails_per_minute' THEN
+                    PERFORM public.validate_number_range(_rate_limits->'emails_per_minute', 'rate_limits.emails_per_minute', 1, 1000);
+                END IF;
+
+                -- rate_limits.emails_per_hour (number, 1-50000)
+                IF _rate_limits ? 'emails_per_hour' THEN
+                    PERFORM public.validate_number_range(_rate_limits->'emails_per_hour', 'rate_limits.emails_per_hour', 1, 50000);
+                END IF;
+            END IF;
+
+            -- NEW: retry settings (nested object)
+            IF _value ? 'retry' THEN
+                _retry := _value->'retry';
+
+                IF jsonb_typeof(_retry) != 'object' THEN
+                    RAISE EXCEPTION 'retry must be an object';
+                END IF;
+
+                -- retry.max_attempts (number, 1-10)
+                IF _retry ? 'max_attempts' THEN
+                    PERFORM public.validate_number_range(_retry->'max_attempts', 'retry.max_attempts', 1, 10);
+                END IF;
+
+                -- retry.initial_delay_ms (number, 1000-600000)
+                IF _retry ? 'initial_delay_ms' THEN
+                    PERFORM public.validate_number_range(_retry->'initial_delay_ms', 'retry.initial_delay_ms', 1000, 600000);
+                END IF;
+
+                -- retry.backoff_multiplier (number, 1-5)
+                IF _retry ? 'backoff_multiplier' THEN
+                    PERFORM public.validate_number_range(_retry->'backoff_multiplier', 'retry.backoff_multiplier', 1, 5);
+                END IF;
+            END IF;
+
+        WHEN 'governance' THEN
+            IF (_value ? 'is_private') AND NOT (jsonb_typeof(_value->'is_private') = 'boolean') THEN
+                RAISE EXCEPTION 'is_private must be a boolean';
+            END IF;
+
+        WHEN 'legal' THEN
+            IF (_value ? 'mode') THEN
+                IF NOT (_value->>'mode' IN ('none', 'pdf', 'url', 'inline_text')) THEN
+                    RAISE EXCEPTION 'terms mode must be none, pdf, url, or inline_text';
+                END IF;
+            END IF;
+            IF (_value ? 'pdf_file_id') AND (_value->>'pdf_file_id' IS NOT NULL) AND (_value->>'pdf_file_id' != '') THEN
+                IF NOT (_value->>'pdf_file_id' ~ '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$') THEN
+                    RAISE EXCEPTION 'pdf_file_id must be a valid UUID';
+                END IF;
+            END IF;
+            IF (_value ? 'url') AND (_value->>'url' IS NOT NULL) AND NOT (jsonb_typeof(_value->'url') = 'string') THEN
+                RAISE EXCEPTION 'url must be a string';
+            END IF;
+            IF (_value ? 'inline_text') AND (_value->'inline_text' IS NOT NULL) AND NOT (jsonb_typeof(_value->'inline_text') = 'object') THEN
+                RAISE EXCEPTION 'inline_text must be an object with locale keys';
+            END IF;
+
+        WHEN 'basic_info' THEN
+            IF _value ? 'name' THEN
+                PERFORM public.validate_locale_object(_value->'name', 'name', false);
+            END IF;
+            IF _value ? 'description' THEN
+                PERFORM public.validate_locale_object(_value->'description', 'description', false);
+            END IF;
+            IF (_value ? 'contact_email') AND (_value->>'contact_email' IS NOT NULL) AND (_value->>'contact_email' != '') THEN
+                IF NOT public.is_valid_email_format(_value->>'contact_email') THEN
+                    RAISE EXCEPTION 'contact_email must be a valid email address';
+                END IF;
+            END IF;
+            IF (_value ? 'website') AND NOT (jsonb_typeof(_value->'website') IN ('string', 'null')) THEN
+                RAISE EXCEPTION 'website must be a string';
+            END IF;
+
+        WHEN 'content_communication' THEN
+            IF _value ? 'checkout_message' THEN
+                PERFORM public.validate_locale_object(_value->'checkout_message', 'checkout_message', false);
+            END IF;
+            IF _value ? 'email_subject' THEN
+                PERFORM public.validate_locale_object(_value->'email_subject', 'email_subject', false);
+            END IF;
+            IF _value ? 'email_body' THEN
+                PERFORM public.validate_locale_object(_value->'email_body', 'email_body', false);
+            END IF;
+            IF _value ? 'extra_recipients' THEN
+                _emails := _value->'extra_recipients';
+
+                IF jsonb_typeof(_emails) != 'array' THEN
+                    RAISE EXCEPTION 'extra_recipients must be an array';
+                END IF;
+
+                _email_count := jsonb_array_length(_emails);
+
+                IF _email_count > 5 THEN
+                    RAISE EXCEPTION 'extra_recipients cannot exceed 5 addresses (got %)', _email_count;
+                END IF;
+
+                FOR _email IN SELECT jsonb_array_elements_text(_emails)
+                LOOP
+                    IF NOT public.is_valid_email_format(_email) THEN
+                        RAISE EXCEPTION 'Invalid email in extra_recipients: %', _email;
+                    END IF;
+                END LOOP;
+
+                IF (SELECT COUNT(*) FROM (SELECT DISTINCT jsonb_array_elements_text(_emails)) t) != _email_count THEN
+                    RAISE EXCEPTION 'extra_recipients contains duplicates';
+                END IF;
+            END IF;
+
+        ELSE
+            RAISE EXCEPTION 'Unknown domain: %', _domain;
+    END CASE;
+
+    RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_default_settings(_domain text)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    CASE _domain
+        WHEN 'payments' THEN
+            RETURN jsonb_build_object(
+                'payment_profile_id', null,
+                'invoice_prefix', '',
+                'vat_number', '',
+                'vat_rate', 21
+            );
+        WHEN 'transfers' THEN
+            RETURN jsonb_build_object(
+                'transfers_enabled', true,
+                'transfer_expiry_hours', 48,
+                'cancel_roles', jsonb_build_array('owner', 'admin', 'support'),
+                -- F035: doorverkoop
+                'resale_enabled', false,
+                'resale_max_price_pct', 100,
+                'resale_fee_pct', 5
+            );
+        -- UPDATED: communication domain with extended defaults
+        WHEN 'communication' THEN
+            RETURN jsonb_build_object(
+                -- Legacy fields (backward compatible)
+                'reply_to_email', '',
+                'default_locale', 'nl',
+                'confirmation_message', '',
+                -- NEW: sender configuration
+                'sender', jsonb_build_object(
+                    'default_from_name', '',
+                    'default_from_email', 'noreply@coloss.nl',
+                    'default_reply_to', null
+                ),
+                -- NEW: provider configuration
+                'provider', jsonb_build_object(
+                    'resend', jsonb_build_object(
+                        'enabled', true,
+                        'api_key_ref', 'env:RESEND_API_KEY'
+                    )
+                ),
+                -- NEW: bulk processing settings
+                'bulk', jsonb_build_object(
+                    'batch_size', 100,
+                    'delay_between_batches_ms', 1000,
+                    'max_recipients_per_campaign', 10000
+                ),
+                -- NEW: compliance settings (GDPR)
+                'compliance', jsonb_build_object(
+                    'unsubscribe_enabled', true,
+                    'bounce_threshold', 3,
+                    'complaint_threshold', 1
+                ),
+                -- NEW: rate limiting
+                'rate_limits', jsonb_build_object(
+                    'emails_per_minute', 100,
+                    'emails_per_hour', 5000
+                ),
+                -- NEW: retry configuration
+                'retry', jsonb_build_object(
+                    'max_attempts', 3,
+                    'initial_delay_ms', 60000,
+                    'backoff_multiplier', 2
+                )
+            );
+        WHEN 'governance' THEN
+            RETURN jsonb_build_object(
+                'is_private', false
+            );
+        WHEN 'legal' THEN
+            RETURN jsonb_build_object(
+                'mode', 'none',
+                'pdf_file_id', null,
+                'url', null,
+                'inline_text', null
+            );
+        WHEN 'basic_info' THEN
+            RETURN jsonb_build_object(
+                'name', jsonb_build_object('nl', ''),
+                'description', jsonb_build_object('nl', ''),
+                'contact_email', null,
+                'website', null
+            );
+        WHEN 'content_communication' THEN
+            RETURN jsonb_build_object(
+                'checkout_message', jsonb_build_object('nl', 'Bedankt voor je inschrijving!', 'en', 'Thank you for registering!'),
+                'email_subject', jsonb_build_object('nl', 'Bevestiging inschrijving', 'en', 'Registration confirmation'),
+                'email_body', jsonb_build_object('nl', '', 'en', ''),
+                'extra_recipients', jsonb_build_array()
+            );
+        ELSE
+            RETURN '{}'::jsonb;
+    END CASE;
+END;
+$$;
+
+COMMENT ON FUNCTION public.validate_setting_domain IS 'Validates setting values for a given domain. Extended in 20250127000002 with communication email system settings and in F035 with the transfers resale settings.';
+COMMENT ON FUNCTION public.get_default_settings(text) IS 'Returns default settings for a given domain. Extended in 20250127000002 with communication email system defaults and in F035 with the transfers resale defaults.';
+
+-- ===========================================================================
+-- 4. HELPER: resale_holder_order_id
+-- ===========================================================================
+-- De order waarmee de huidige houder voor het ticket betaald heeft: de
+-- oorspronkelijke order, of de doorverkoop order van de laatste
+-- geaccepteerde transfer. Na een gratis transfer NULL.
+
+CREATE OR REPLACE FUNCTION public.resale_holder_order_id(_ticket_instance_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last RECORD;
+BEGIN
+  SELECT t.id, l.buyer_order_id
+  INTO v_last
+  FROM ticket_transfers t
+  LEFT JOIN ticket_resale_listings l ON l.transfer_id = t.id AND l.status = 'sold'
+  WHERE t.ticket_instance_id = _ticket_instance_id
+    AND t.status = 'accepted'
+  ORDER BY COALESCE(t.accepted_at, t.updated_at) DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN (SELECT order_id FROM ticket_instances WHERE id = _ticket_instance_id);
+  END IF;
+
+  RETURN v_last.buyer_order_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.resale_holder_order_id(UUID) IS
+  'F035: System: order through which the current holder paid for the ticket (NULL after a free transfer).';
+
+REVOKE ALL ON FUNCTION public.resale_holder_order_id(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.resale_holder_order_id(UUID) TO service_role;
+
+-- ===========================================================================
+-- 5. HELPER: get_resale_quote
+-- ===========================================================================
+-- Kan dit ticket nu doorverkocht worden, en tegen welk plafond. De
+-- nominale prijs is de stukprijs van de oorspronkelijke order regel;
+-- seller_paid_cents is wat de houder betaald heeft (netto, na kortingen en
+-- eerdere refunds) en begrenst de uitbetaling.
+
+CREATE OR REPLACE FUNCTION public.get_resale_quote(_ticket_instance_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket RECORD;
+  v_settings JSONB;
+  v_seller_order_id UUID;
+  v_refund JSONB;
+  v_paid_cents INTEGER;
+  v_max_pct NUMERIC;
+BEGIN
+  SELECT ti.id, ti.status, ti.event_id, ti.order_id,
+         e.start_time,
+         ROUND(oi.unit_price * 100)::INTEGER AS face_value_cents
+  INTO v_ticket
+  FROM ticket_instances ti
+  JOIN events e ON e.id = ti.event_id
+  LEFT JOIN order_items oi ON oi.id = ti.order_item_id
+  WHERE ti.id = _ticket_instance_id
+    AND ti.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TICKET_NOT_FOUND');
+  END IF;
+
+  IF v_ticket.status != 'issued' THEN
+    RETURN jsonb_build_object('error', 'INVALID_TICKET_STATUS');
+  END IF;
+
+  v_settings := public.resolve_event_setting(v_ticket.event_id, 'transfers');
+
+  IF NOT COALESCE((v_settings->>'resale_enabled')::BOOLEAN, false) THEN
+    RETURN jsonb_build_object('error', 'RESALE_DISABLED');
+  END IF;
+
+  IF v_ticket.start_time IS NOT NULL AND v_ticket.start_time <= NOW() THEN
+    RETURN jsonb_build_object('error', 'EVENT_STARTED');
+  END IF;
+
+  v_seller_order_id := public.resale_holder_order_id(_ticket_instance_id);
+
+  IF v_seller_order_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'NOT_PAID_BY_HOLDER');
+  END IF;
+
+  IF COALESCE(v_ticket.face_value_cents, 0) <= 0 THEN
+    RETURN jsonb_build_object('error', 'NOT_RESALABLE');
+  END IF;
+
+  IF v_seller_order_id = v_ticket.order_id THEN
+    v_refund := public.calculate_ticket_refund(v_seller_order_id, ARRAY[_ticket_instance_id]);
+
+    IF v_refund ? 'error' THEN
+      RETURN jsonb_build_object('error', v_refund->>'error');
+    END IF;
+
+    v_paid_cents := (v_refund->>'amount_cents')::INTEGER;
+  ELSE
+    -- Doorverkoop order: één ticket, het hele orderbedrag
+    SELECT ROUND(o.total_amount * 100)::INTEGER - COALESCE((
+      SELECT SUM(r.amount_cents)
+      FROM refunds r
+      WHERE r.order_id = o.id
+        AND r.status IN ('pending', 'queued', 'processing', 'refunded')
+    ), 0)::INTEGER
+    INTO v_paid_cents
+    FROM orders o
+    WHERE o.id = v_seller_order_id
+      AND o.status = 'paid';
+  END IF;
+
+  IF COALESCE(v_paid_cents, 0) <= 0 THEN
+    RETURN jsonb_build_object('error', 'NOT_RESALABLE');
+  END IF;
+
+  v_max_pct := LEAST(GREATEST(COALESCE((v_settings->>'resale_max_price_pct')::NUMERIC, 100), 1), 100);
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'seller_order_id', v_seller_order_id,
+    'face_value_cents', v_ticket.face_value_cents,
+    'max_price_cents', FLOOR(v_ticket.face_value_cents * v_max_pct / 100)::INTEGER,
+    'fee_pct', LEAST(GREATEST(COALESCE((v_settings->>'resale_fee_pct')::NUMERIC, 0), 0), 50),
+    'seller_paid_cents', v_paid_cents
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_resale_quote(UUID) IS
+  'F035: System: whether a ticket can be resold now, with face value, price cap, fee percentage and what the holder paid.';
+
+REVOKE ALL ON FUNCTION public.get_resale_quote(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_resale_quote(UUID) TO service_role;
+
+-- ===========================================================================
+-- 6. RPC: get_order_resale (public)
+-- ===========================================================================
+-- Doorverkoop overzicht op de bevestigingspagina van de bestelling; het
+-- public token van de bestelling is het bewijs dat je de koper bent.
+
+CREATE OR REPLACE FUNCTION public.get_order_resale(_public_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_settings JSONB;
+  v_ticket RECORD;
+  v_quote JSONB;
+  v_tickets JSONB := '[]'::jsonb;
+  v_sold JSONB;
+BEGIN
+  SELECT o.id, o.event_id, o.status
+  INTO v_order
+  FROM orders o
+  WHERE o.public_token_hash = encode(extensions.digest(COALESCE(_public_token, ''), 'sha256'), 'hex');
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND');
+  END IF;
+
+  v_settings := public.resolve_event_setting(v_order.event_id, 'transfers');
+
+  -- Tickets die de koper van deze bestelling nog heeft
+  FOR v_ticket IN
+    SELECT ti.id, tt.name AS ticket_name, ts.label AS slot_label,
+           l.id AS listing_id, l.status AS listing_status, l.price_cents, l.fee_cents,
+           l.payout_cents, l.reserved_until, l.created_at AS listed_at
+    FROM ticket_instances ti
+    JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+    LEFT JOIN ticket_time_slots ts ON ts.id = ti.time_slot_id
+    LEFT JOIN ticket_resale_listings l
+      ON l.ticket_instance_id = ti.id AND l.status IN ('active', 'reserved')
+    WHERE ti.deleted_at IS NULL
+      AND (
+        ti.order_id = v_order.id
+        OR ti.id IN (
+          SELECT sl.ticket_instance_id
+          FROM ticket_resale_listings sl
+          WHERE sl.buyer_order_id = v_order.id AND sl.status = 'sold'
+        )
+      )
+      AND public.resale_holder_order_id(ti.id) = v_order.id
+    ORDER BY tt.name, ti.id
+  LOOP
+    v_quote := public.get_resale_quote(v_ticket.id);
+
+    v_tickets := v_tickets || jsonb_build_array(jsonb_build_object(
+      'ticket_instance_id', v_ticket.id,
+      'ticket_name', v_ticket.ticket_name,
+      'slot_label', v_ticket.slot_label,
+      'face_value_cents', v_quote->'face_value_cents',
+      'max_price_cents', v_quote->'max_price_cents',
+      'seller_paid_cents', v_quote->'seller_paid_cents',
+      -- Reden waarom het ticket niet aangeboden kan worden (quote error)
+      'unavailable_reason', v_quote->>'error',
+      'listing', CASE WHEN v_ticket.listing_id IS NOT NULL THEN jsonb_build_object(
+        'id', v_ticket.listing_id,
+        'status', CASE
+          WHEN v_ticket.listing_status = 'reserved' AND v_ticket.reserved_until <= NOW() THEN 'active'
+          ELSE v_ticket.listing_status
+        END,
+        'price_cents', v_ticket.price_cents,
+        'fee_cents', v_ticket.fee_cents,
+        'payout_cents', v_ticket.payout_cents,
+        'created_at', v_ticket.listed_at
+      ) END
+    ));
+  END LOOP;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'listing_id', l.id,
+    'ticket_name', tt.name,
+    'price_cents', l.price_cents,
+    'fee_cents', l.fee_cents,
+    'payout_cents', l.payout_cents,
+    'sold_at', l.sold_at,
+    'payout_status', CASE WHEN r.id IS NULL AND l.payout_failed_at IS NOT NULL THEN 'failed' ELSE r.status END
+  ) ORDER BY l.sold_at DESC), '[]'::jsonb)
+  INTO v_sold
+  FROM ticket_resale_listings l
+  JOIN ticket_instances ti ON ti.id = l.ticket_instance_id
+  JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+  LEFT JOIN refunds r ON r.id = l.payout_refund_id
+  WHERE l.seller_order_id = v_order.id
+    AND l.status = 'sold';
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'resale_enabled', COALESCE((v_settings->>'resale_enabled')::BOOLEAN, false),
+    'max_price_pct', COALESCE((v_settings->>'resale_max_price_pct')::NUMERIC, 100),
+    'fee_pct', COALESCE((v_settings->>'resale_fee_pct')::NUMERIC, 0),
+    'tickets', v_tickets,
+    'sold', v_sold
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_order_resale(TEXT) IS
+  'F035: Public: resale state of the tickets of an order (price caps, open listings, sold listings with payout status), requires the order public token.';
+
+GRANT EXECUTE ON FUNCTION public.get_order_resale(TEXT) TO anon, authenticated;
+
+-- ===========================================================================
+-- 7. RPC: create_resale_listing (public)
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.create_resale_listing(
+  _public_token TEXT,
+  _ticket_instance_id UUID,
+  _price_cents INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_ticket RECORD;
+  v_quote JSONB;
+  v_fee_cents INTEGER;
+  v_payout_cents INTEGER;
+  v_listing_id UUID;
+BEGIN
+  SELECT o.id, o.org_id, o.event_id, o.email
+  INTO v_order
+  FROM orders o
+  WHERE o.public_token_hash = encode(extensions.digest(COALESCE(_public_token, ''), 'sha256'), 'hex');
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND');
+  END IF;
+
+  SELECT ti.id, ti.event_id
+  INTO v_ticket
+  FROM ticket_instances ti
+  WHERE ti.id = _ticket_instance_id
+    AND ti.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TICKET_NOT_FOUND');
+  END IF;
+
+  IF public.resale_holder_order_id(_ticket_instance_id) IS DISTINCT FROM v_order.id THEN
+    RETURN jsonb_build_object('error', 'FORBIDDEN');
+  END IF;
+
+  v_quote := public.get_resale_quote(_ticket_instance_id);
+
+  IF v_quote ? 'error' THEN
+    RETURN v_quote;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ticket_resale_listings
+    WHERE ticket_instance_id = _ticket_instance_id AND status IN ('active', 'reserved')
+  ) THEN
+    RETURN jsonb_build_object('error', 'ALREADY_LISTED');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ticket_transfers
+    WHERE ticket_instance_id = _ticket_instance_id AND status = 'pending'
+  ) THEN
+    RETURN jsonb_build_object('error', 'TRANSFER_PENDING');
+  END IF;
+
+  IF _price_cents IS NULL OR _price_cents <= 0 THEN
+    RETURN jsonb_build_object('error', 'INVALID_PRICE');
+  END IF;
+
+  IF _price_cents > (v_quote->>'max_price_cents')::INTEGER THEN
+    RETURN jsonb_build_object(
+      'error', 'PRICE_ABOVE_CAP',
+      'max_price_cents', (v_quote->>'max_price_cents')::INTEGER
+    );
+  END IF;
+
+  v_fee_cents := ROUND(_price_cents * (v_quote->>'fee_pct')::NUMERIC / 100)::INTEGER;
+  v_payout_cents := LEAST(_price_cents - v_fee_cents, (v_quote->>'seller_paid_cents')::INTEGER);
+
+  IF v_payout_cents <= 0 THEN
+    RETURN jsonb_build_object('error', 'INVALID_PRICE');
+  END IF;
+
+  INSERT INTO ticket_resale_listings (
+    org_id, event_id, ticket_instance_id, seller_order_id, seller_email,
+    price_cents, face_value_cents, fee_cents, payout_cents
+  ) VALUES (
+    v_order.org_id, v_ticket.event_id, _ticket_instance_id, v_order.id, lower(v_order.email),
+    _price_cents, (v_quote->>'face_value_cents')::INTEGER, v_fee_cents, v_payout_cents
+  )
+  RETURNING id INTO v_listing_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_order.org_id,
+    auth.uid(),
+    'RESALE_LISTED',
+    'ticket_resale_listing',
+    v_listing_id,
+    jsonb_build_object(
+      'ticket_instance_id', _ticket_instance_id,
+      'seller_order_id', v_order.id,
+      'price_cents', _price_cents,
+      'fee_cents', v_fee_cents,
+      'payout_cents', v_payout_cents,
+      'max_price_cents', (v_quote->>'max_price_cents')::INTEGER
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'listing_id', v_listing_id,
+    'price_cents', _price_cents,
+    'fee_cents', v_fee_cents,
+    'payout_cents', v_payout_cents
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_resale_listing(TEXT, UUID, INTEGER) IS
+  'F035: Public: offer a ticket for resale at or below the price cap, requires the public token of the order that paid for it.';
+
+GRANT EXECUTE ON FUNCTION public.create_resale_listing(TEXT, UUID, INTEGER) TO anon, authenticated;
+
+-- ===========================================================================
+-- 8. RPC: cancel_resale_listing (public: verkoper met token, of org admin)
+-- ===========================================================================
+-- Een lopende reservering (koper is aan het betalen) kan niet ingetrokken
+-- worden; na reserved_until weer wel.
+
+CREATE OR REPLACE FUNCTION public.cancel_resale_listing(
+  _listing_id UUID,
+  _public_token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing ticket_resale_listings%ROWTYPE;
+  v_is_seller BOOLEAN;
+  v_is_admin BOOLEAN;
+BEGIN
+  SELECT * INTO v_listing FROM ticket_resale_listings WHERE id = _listing_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'LISTING_NOT_FOUND');
+  END IF;
+
+  v_is_seller := _public_token IS NOT NULL AND EXISTS (
+    SELECT 1 FROM orders
+    WHERE id = v_listing.seller_order_id
+      AND public_token_hash = encode(extensions.digest(_public_token, 'sha256'), 'hex')
+  );
+  v_is_admin := public.has_role(v_listing.org_id, 'admin') OR public.has_role(v_listing.org_id, 'owner');
+
+  IF NOT v_is_seller AND NOT v_is_admin THEN
+    RETURN jsonb_build_object('error', 'FORBIDDEN');
+  END IF;
+
+  IF v_listing.status = 'cancelled' THEN
+    RETURN jsonb_build_object('status', 'OK', 'listing_id', _listing_id, 'updated', 0);
+  END IF;
+
+  IF v_listing.status = 'sold' THEN
+    RETURN jsonb_build_object('error', 'LISTING_SOLD');
+  END IF;
+
+  IF v_listing.status = 'reserved' AND v_listing.reserved_until > NOW() THEN
+    RETURN jsonb_build_object('error', 'LISTING_RESERVED', 'reserved_until', v_listing.reserved_until);
+  END IF;
+
+  UPDATE ticket_resale_listings
+  SET status = 'cancelled',
+      cancelled_at = NOW()
+  WHERE id = _listing_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_listing.org_id,
+    auth.uid(),
+    'RESALE_CANCELLED',
+    'ticket_resale_listing',
+    _listing_id,
+    jsonb_build_object(
+      'ticket_instance_id', v_listing.ticket_instance_id,
+      'cancelled_by', CASE WHEN v_is_seller THEN 'seller' ELSE 'admin' END
+    )
+  );
+
+  RETURN jsonb_build_object('status', 'OK', 'listing_id', _listing_id, 'updated', 1);
+END;
+$$;
+
+COMMENT ON FUNCTION public.cancel_resale_listing(UUID, TEXT) IS
+  'F035: Withdraw an open resale listing (seller with the order public token, or org admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.cancel_resale_listing(UUID, TEXT) TO anon, authenticated;
+
+-- ===========================================================================
+-- 9. RPC: get_public_resale_listings (public)
+-- ===========================================================================
+-- Beschikbare aanbiedingen op de event pagina, zonder gegevens van de
+-- verkoper.
+
+CREATE OR REPLACE FUNCTION public.get_public_resale_listings(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+  v_listings JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM events WHERE id = _event_id AND status = 'published') THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  v_settings := public.resolve_event_setting(_event_id, 'transfers');
+
+  IF NOT COALESCE((v_settings->>'resale_enabled')::BOOLEAN, false) THEN
+    RETURN jsonb_build_object('status', 'OK', 'resale_enabled', false, 'listings', '[]'::jsonb);
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', l.id,
+    'ticket_type_id', tt.id,
+    'ticket_name', tt.name,
+    'slot_label', ts.label,
+    'price_cents', l.price_cents,
+    'face_value_cents', l.face_value_cents,
+    'listed_at', l.created_at
+  ) ORDER BY l.price_cents, l.created_at), '[]'::jsonb)
+  INTO v_listings
+  FROM ticket_resale_listings l
+  JOIN ticket_instances ti ON ti.id = l.ticket_instance_id
+  JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+  LEFT JOIN ticket_time_slots ts ON ts.id = ti.time_slot_id
+  WHERE l.event_id = _event_id
+    AND (l.status = 'active' OR (l.status = 'reserved' AND l.reserved_until <= NOW()));
+
+  RETURN jsonb_build_object('status', 'OK', 'resale_enabled', true, 'listings', v_listings);
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_public_resale_listings(UUID) IS
+  'F035: Public: available resale listings of a published event (no seller details).';
+
+GRANT EXECUTE ON FUNCTION public.get_public_resale_listings(UUID) TO anon, authenticated;
+
+-- ===========================================================================
+-- 10. RPC: reserve_resale_listing (service role, create-order-public)
+-- ===========================================================================
+-- Houdt de aanbieding 30 minuten vast voor de (pending) order van de koper.
+-- Een verlopen reservering van een andere koper wordt overgenomen; diens
+-- order wordt geannuleerd. Is het ticket niet meer van de verkoper (gratis
+-- transfer, ingecheckt, ongeldig) dan wordt de aanbieding ingetrokken.
+
+CREATE OR REPLACE FUNCTION public.reserve_resale_listing(_listing_id UUID, _order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_listing ticket_resale_listings%ROWTYPE;
+  v_quote JSONB;
+  v_reserved_until TIMESTAMPTZ := NOW() + INTERVAL '30 minutes';
+BEGIN
+  SELECT o.id, o.event_id, o.email, o.user_id, o.status, o.total_amount
+  INTO v_order
+  FROM orders o
+  WHERE o.id = _order_id;
+
+  IF NOT FOUND OR v_order.status != 'pending' THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND');
+  END IF;
+
+  SELECT * INTO v_listing FROM ticket_resale_listings WHERE id = _listing_id FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.event_id != v_order.event_id THEN
+    RETURN jsonb_build_object('error', 'LISTING_NOT_FOUND');
+  END IF;
+
+  IF NOT (
+    v_listing.status = 'active'
+    OR (v_listing.status = 'reserved' AND v_listing.reserved_until <= NOW())
+  ) THEN
+    RETURN jsonb_build_object('error', 'LISTING_NOT_AVAILABLE');
+  END IF;
+
+  IF ROUND(v_order.total_amount * 100)::INTEGER != v_listing.price_cents THEN
+    RETURN jsonb_build_object('error', 'PRICE_MISMATCH');
+  END IF;
+
+  IF lower(v_order.email) = v_listing.seller_email OR EXISTS (
+    SELECT 1 FROM orders
+    WHERE id = v_listing.seller_order_id AND user_id = v_order.user_id
+  ) THEN
+    RETURN jsonb_build_object('error', 'SELF_PURCHASE');
+  END IF;
+
+  v_quote := public.get_resale_quote(v_listing.ticket_instance_id);
+
+  IF v_quote->>'error' IN ('RESALE_DISABLED', 'EVENT_STARTED') THEN
+    RETURN jsonb_build_object('error', v_quote->>'error');
+  END IF;
+
+  IF v_quote ? 'error' OR (v_quote->>'seller_order_id')::UUID != v_listing.seller_order_id THEN
+    UPDATE ticket_resale_listings
+    SET status = 'cancelled',
+        cancelled_at = NOW()
+    WHERE id = _listing_id;
+
+    INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (
+      v_listing.org_id,
+      NULL,
+      'RESALE_CANCELLED',
+      'ticket_resale_listing',
+      _listing_id,
+      jsonb_build_object(
+        'ticket_instance_id', v_listing.ticket_instance_id,
+        'cancelled_by', 'system',
+        'reason', COALESCE(v_quote->>'error', 'HOLDER_CHANGED')
+      )
+    );
+
+    RETURN jsonb_build_object('error', 'LISTING_NOT_AVAILABLE');
+  END IF;
+
+  -- Verlopen reservering overnemen (handle_resale_order_status geeft de
+  -- aanbieding daarbij eerst vrij)
+  IF v_listing.status = 'reserved' AND v_listing.buyer_order_id IS NOT NULL THEN
+    UPDATE orders
+    SET status = 'cancelled', updated_at = NOW()
+    WHERE id = v_listing.buyer_order_id AND status = 'pending';
+  END IF;
+
+  UPDATE ticket_resale_listings
+  SET status = 'reserved',
+      buyer_order_id = _order_id,
+      reserved_until = v_reserved_until
+  WHERE id = _listing_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_listing.org_id,
+    v_order.user_id,
+    'RESALE_RESERVED',
+    'ticket_resale_listing',
+    _listing_id,
+    jsonb_build_object('buyer_order_id', _order_id, 'reserved_until', v_reserved_until)
+  );
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'listing_id', _listing_id,
+    'reserved_until', v_reserved_until
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.reserve_resale_listing(UUID, UUID) IS
+  'F035: System: reserve a resale listing for 30 minutes for the pending order of a buyer.';
+
+REVOKE ALL ON FUNCTION public.reserve_resale_listing(UUID, UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.reserve_resale_listing(UUID, UUID) TO service_role;
+
+-- ===========================================================================
+-- 11. FUNCTION: complete_ticket_resale (service role)
+-- ===========================================================================
+-- Betaalde doorverkoop order: het ticket gaat via een transfer en
+-- complete_ticket_transfer naar de koper en krijgt een nieuwe QR code (de
+-- verkoper kan zijn oude ticket niet meer gebruiken). De uitbetaling volgt
+-- via process-outbox (create-refund op de order van de verkoper).
+-- Is de reservering intussen overgenomen of het ticket niet meer van de
+-- verkoper, dan blijft de betaalde order zonder ticket: RESALE_PAYMENT_UNMATCHED
+-- in audit_log, de org refundt de koper handmatig.
+
+CREATE OR REPLACE FUNCTION public.complete_ticket_resale(_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_listing ticket_resale_listings%ROWTYPE;
+  v_ticket RECORD;
+  v_event_name TEXT;
+  v_seller_participant_id UUID;
+  v_buyer_participant_id UUID;
+  v_transfer_id UUID;
+  v_qr_token TEXT;
+  v_result JSONB;
+  v_price TEXT;
+  v_fee TEXT;
+  v_payout TEXT;
+BEGIN
+  SELECT o.id, o.org_id, o.event_id, o.email, o.user_id, o.purchaser_name, o.status, o.resale_listing_id
+  INTO v_order
+  FROM orders o
+  WHERE o.id = _order_id;
+
+  IF NOT FOUND OR v_order.resale_listing_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND');
+  END IF;
+
+  SELECT * INTO v_listing FROM ticket_resale_listings WHERE id = v_order.resale_listing_id FOR UPDATE;
+
+  -- Idempotent
+  IF v_listing.status = 'sold' AND v_listing.buyer_order_id = _order_id THEN
+    RETURN jsonb_build_object('status', 'OK', 'listing_id', v_listing.id, 'updated', 0);
+  END IF;
+
+  SELECT ti.id, ti.status, ti.participant_id, tt.name AS ticket_name
+  INTO v_ticket
+  FROM ticket_instances ti
+  JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+  WHERE ti.id = v_listing.ticket_instance_id
+    AND ti.deleted_at IS NULL
+  FOR UPDATE OF ti;
+
+  IF v_order.status != 'paid'
+     OR v_listing.status != 'reserved'
+     OR v_listing.buyer_order_id IS DISTINCT FROM _order_id
+     OR v_ticket.id IS NULL
+     OR v_ticket.status != 'issued'
+     OR public.resale_holder_order_id(v_listing.ticket_instance_id) IS DISTINCT FROM v_listing.seller_order_id
+  THEN
+    INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (
+      v_order.org_id,
+      v_order.user_id,
+      'RESALE_PAYMENT_UNMATCHED',
+      'order',
+      _order_id,
+      jsonb_build_object(
+        'listing_id', v_listing.id,
+        'listing_status', v_listing.status,
+        'listing_buyer_order_id', v_listing.buyer_order_id,
+        'order_status', v_order.status,
+        'refund_required', v_order.status = 'paid'
+      )
+    );
+
+    RETURN jsonb_build_object('error', 'LISTING_NOT_RESERVED', 'refund_required', v_order.status = 'paid');
+  END IF;
+
+  -- Deelnemers: houder van het ticket → koper
+  v_seller_participant_id := COALESCE(
+    (SELECT t.to_participant_id
+     FROM ticket_transfers t
+     WHERE t.ticket_instance_id = v_ticket.id
+       AND t.status = 'accepted'
+       AND t.to_participant_id IS NOT NULL
+     ORDER BY COALESCE(t.accepted_at, t.updated_at) DESC
+     LIMIT 1),
+    v_ticket.participant_id,
+    (SELECT p.id
+     FROM participants p
+     WHERE lower(p.email) = v_listing.seller_email AND p.deleted_at IS NULL
+     ORDER BY p.created_at
+     LIMIT 1)
+  );
+
+  IF v_seller_participant_id IS NULL THEN
+    INSERT INTO participants (email, first_name, last_name, user_id)
+    VALUES (
+      v_listing.seller_email,
+      split_part(v_listing.seller_email, '@', 1),
+      '',
+      (SELECT user_id FROM orders WHERE id = v_listing.seller_order_id)
+    )
+    RETURNING id INTO v_seller_participant_id;
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT p.id
+     FROM participants p
+     WHERE p.user_id = v_order.user_id AND v_order.user_id IS NOT NULL
+     ORDER BY p.created_at DESC
+     LIMIT 1),
+    (SELECT p.id
+     FROM participants p
+     WHERE lower(p.email) = lower(v_order.email) AND p.deleted_at IS NULL
+     ORDER BY p.created_at
+     LIMIT 1)
+  )
+  INTO v_buyer_participant_id;
+
+  IF v_buyer_participant_id IS NULL THEN
+    INSERT INTO participants (email, first_name, last_name, user_id)
+    VALUES (
+      lower(v_order.email),
+      COALESCE(NULLIF(trim(v_order.purchaser_name), ''), split_part(v_order.email, '@', 1)),
+      '',
+      v_order.user_id
+    )
+    RETURNING id INTO v_buyer_participant_id;
+  END IF;
+
+  -- Een openstaande gratis transfer vervalt: er is voor het ticket betaald
+  UPDATE ticket_transfers
+  SET status = 'cancelled',
+      cancelled_at = NOW(),
+      updated_at = NOW()
+  WHERE ticket_instance_id = v_ticket.id
+    AND status = 'pending';
+
+  INSERT INTO ticket_transfers (
+    event_id, org_id, ticket_instance_id, from_participant_id, to_email,
+    transfer_token_hash, expires_at, status
+  ) VALUES (
+    v_listing.event_id, v_listing.org_id, v_ticket.id, v_seller_participant_id, lower(v_order.email),
+    encode(extensions.digest(encode(extensions.gen_random_bytes(32), 'hex'), 'sha256'), 'hex'),
+    NOW() + INTERVAL '1 hour', 'pending'
+  )
+  RETURNING id INTO v_transfer_id;
+
+  -- Eerst koppelen: notify_transfer_sender slaat doorverkoop transfers over
+  UPDATE ticket_resale_listings
+  SET transfer_id = v_transfer_id
+  WHERE id = v_listing.id;
+
+  v_result := public.complete_ticket_transfer(v_transfer_id, v_ticket.id, v_buyer_participant_id, v_order.user_id);
+
+  IF v_result ? 'error' THEN
+    RAISE EXCEPTION 'F035: resale transfer % failed: %', v_transfer_id, v_result->>'code';
+  END IF;
+
+  -- Nieuwe QR code: het ticket van de verkoper is niet meer geldig. qr_code
+  -- (PDF, bestelpagina, wallet) en token_hash (scan_ticket) komen uit
+  -- hetzelfde token, anders is het ticket van de koper niet te scannen
+  v_qr_token := encode(extensions.gen_random_bytes(32), 'hex');
+
+  UPDATE ticket_instances
+  SET participant_id = v_buyer_participant_id,
+      qr_code = v_qr_token,
+      token_hash = encode(extensions.digest(v_qr_token, 'sha256'), 'hex'),
+      updated_at = NOW()
+  WHERE id = v_ticket.id;
+
+  PERFORM public.touch_wallet_pass(v_ticket.id);
+
+  UPDATE ticket_resale_listings
+  SET status = 'sold',
+      sold_at = NOW(),
+      reserved_until = NULL
+  WHERE id = v_listing.id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_listing.org_id,
+    v_order.user_id,
+    'RESALE_SOLD',
+    'ticket_resale_listing',
+    v_listing.id,
+    jsonb_build_object(
+      'ticket_instance_id', v_ticket.id,
+      'seller_order_id', v_listing.seller_order_id,
+      'buyer_order_id', _order_id,
+      'transfer_id', v_transfer_id,
+      'price_cents', v_listing.price_cents,
+      'fee_cents', v_listing.fee_cents,
+      'payout_cents', v_listing.payout_cents
+    )
+  );
+
+  SELECT name INTO v_event_name FROM events WHERE id = v_listing.event_id;
+  v_price := to_char(v_listing.price_cents / 100.0, 'FM999999990.00');
+  v_fee := to_char(v_listing.fee_cents / 100.0, 'FM999999990.00');
+  v_payout := to_char(v_listing.payout_cents / 100.0, 'FM999999990.00');
+
+  PERFORM public.queue_email(
+    _org_id => v_listing.org_id,
+    _event_id => v_listing.event_id,
+    _idempotency_key => 'resale_sold:' || v_listing.id::TEXT,
+    _to_email => v_listing.seller_email,
+    _subject => 'Je ticket voor ' || v_event_name || ' is verkocht',
+    _html_body =>
+      '<p>Je ticket (' || v_ticket.ticket_name || ') voor <strong>' || v_event_name || '</strong> is doorverkocht '
+      || 'voor € ' || v_price || '.</p>'
+      || '<p>We storten € ' || v_payout || ' terug op je oorspronkelijke betaling'
+      || CASE WHEN v_listing.fee_cents > 0 THEN ' (na € ' || v_fee || ' servicekosten)' ELSE '' END
+      || '. Je oude ticket is niet meer geldig.</p>',
+    _text_body =>
+      'Je ticket voor ' || v_event_name || ' is doorverkocht voor € ' || v_price || '. '
+      || 'We storten € ' || v_payout || ' terug op je oorspronkelijke betaling. Je oude ticket is niet meer geldig.',
+    _template_variables => jsonb_build_object(
+      'event_name', v_event_name,
+      'ticket_name', v_ticket.ticket_name,
+      'price', v_price,
+      'fee', v_fee,
+      'payout', v_payout
+    ),
+    _metadata => jsonb_build_object('template', 'resale_sold', 'listing_id', v_listing.id)
+  );
+
+  PERFORM public.queue_email(
+    _org_id => v_listing.org_id,
+    _event_id => v_listing.event_id,
+    _idempotency_key => 'resale_bought:' || v_listing.id::TEXT,
+    _to_email => lower(v_order.email),
+    _subject => 'Je ticket voor ' || v_event_name,
+    _html_body =>
+      '<p>Bedankt voor je aankoop. Het doorverkochte ticket (' || v_ticket.ticket_name || ') voor <strong>'
+      || v_event_name || '</strong> staat nu op jouw naam.</p>'
+      || '<p>Je vindt het ticket bij je bestelling en in je account.</p>',
+    _text_body =>
+      'Het doorverkochte ticket (' || v_ticket.ticket_name || ') voor ' || v_event_name
+      || ' staat nu op jouw naam. Je vindt het bij je bestelling en in je account.',
+    _template_variables => jsonb_build_object(
+      'event_name', v_event_name,
+      'ticket_name', v_ticket.ticket_name
+    ),
+    _metadata => jsonb_build_object('template', 'resale_bought', 'listing_id', v_listing.id, 'order_id', _order_id)
+  );
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'listing_id', v_listing.id,
+    'transfer_id', v_transfer_id,
+    'ticket_instance_id', v_ticket.id,
+    'updated', 1
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.complete_ticket_resale(UUID) IS
+  'F035: System: transfer the ticket of a paid resale order to the buyer (new QR code) and notify buyer and seller.';
+
+REVOKE ALL ON FUNCTION public.complete_ticket_resale(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.complete_ticket_resale(UUID) TO service_role;
+
+-- ===========================================================================
+-- 12. TRIGGER: handle_resale_order_status
+-- ===========================================================================
+-- Betaald → complete_ticket_resale (in de transactie van
+-- handle_payment_webhook). Geannuleerd of mislukt → reservering vrijgeven.
+
+CREATE OR REPLACE FUNCTION public.handle_resale_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing_id UUID;
+BEGIN
+  IF NEW.status = 'paid' THEN
+    PERFORM public.complete_ticket_resale(NEW.id);
+
+  ELSIF NEW.status IN ('cancelled', 'failed') THEN
+    UPDATE ticket_resale_listings
+    SET status = 'active',
+        buyer_order_id = NULL,
+        reserved_until = NULL
+    WHERE id = NEW.resale_listing_id
+      AND buyer_order_id = NEW.id
+      AND status = 'reserved'
+    RETURNING id INTO v_listing_id;
+
+    IF v_listing_id IS NOT NULL THEN
+      INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (
+        NEW.org_id,
+        NULL,
+        'RESALE_RESERVATION_RELEASED',
+        'ticket_resale_listing',
+        v_listing_id,
+        jsonb_build_object('buyer_order_id', NEW.id, 'order_status', NEW.status)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.handle_resale_order_status() IS
+  'F035: Trigger: complete a paid resale order, release the listing when the order is cancelled or failed.';
+
+DROP TRIGGER IF EXISTS handle_resale_order_status ON public.orders;
+CREATE TRIGGER handle_resale_order_status
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.resale_listing_id IS NOT NULL AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.handle_resale_order_status();
+
+-- ===========================================================================
+-- 13. TRIGGER FUNCTION: notify_transfer_sender
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F034 behalve: doorverkoop transfers worden
+-- overgeslagen; de verkoper krijgt de verkoopmail uit complete_ticket_resale
+-- (zonder het adres van de koper).
+
+CREATE OR REPLACE FUNCTION public.notify_transfer_sender()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sender RECORD;
+  v_event_name TEXT;
+  v_outcome TEXT;
+BEGIN
+  IF EXISTS (SELECT 1 FROM ticket_resale_listings WHERE transfer_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.email, p.first_name INTO v_sender
+  FROM participants p
+  WHERE p.id = NEW.from_participant_id;
+
+  IF NOT FOUND OR v_sender.email IS NULL OR v_sender.email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_event_name FROM events WHERE id = NEW.event_id;
+
+  v_outcome := CASE NEW.status
+    WHEN 'accepted' THEN 'is geaccepteerd door ' || NEW.to_email || '. Het ticket staat nu op hun naam.'
+    WHEN 'rejected' THEN 'is geweigerd door ' || NEW.to_email || '. Het ticket blijft van jou.'
+    ELSE 'is verlopen: ' || NEW.to_email || ' heeft het ticket niet op tijd geaccepteerd. Het ticket blijft van jou.'
+  END;
+
+  PERFORM public.queue_email(
+    _org_id => NEW.org_id,
+    _event_id => NEW.event_id,
+    _idempotency_key => 'transfer_outcome:' || NEW.id::TEXT,
+    _to_email => v_sender.email,
+    _subject => CASE NEW.status
+      WHEN 'accepted' THEN 'Je ticket voor ' || v_event_name || ' is overgedragen'
+      WHEN 'rejected' THEN 'Je ticketoverdracht voor ' || v_event_name || ' is geweigerd'
+      ELSE 'Je ticketoverdracht voor ' || v_event_name || ' is verlopen'
+    END,
+    _html_body =>
+      '<p>Hoi ' || COALESCE(v_sender.first_name, '') || ',</p>'
+      || '<p>De overdracht van je ticket voor ' || v_event_name || ' ' || v_outcome || '</p>',
+    _text_body => 'De overdracht van je ticket voor ' || v_event_name || ' ' || v_outcome,
+    _template_variables => jsonb_build_object(
+      'event_name', v_event_name,
+      'to_email', NEW.to_email,
+      'outcome', NEW.status
+    ),
+    _metadata => jsonb_build_object('transfer_id', NEW.id, 'outcome', NEW.status)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- ===========================================================================
+-- 14. FUNCTION: mark_resale_payout_failed (service role, process-outbox)
+-- ===========================================================================
+-- create-refund weigerde de uitbetaling met een fout die bij opnieuw
+-- proberen niet verandert (ALREADY_REFUNDED, ORDER_NOT_PAID, ...). De
+-- aanbieding gaat uit de wachtrij, zodat nieuwere uitbetalingen niet blijven
+-- hangen; de organisator ziet de fout in het doorverkoop overzicht.
+
+CREATE OR REPLACE FUNCTION public.mark_resale_payout_failed(_listing_id UUID, _error TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing ticket_resale_listings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_listing FROM ticket_resale_listings WHERE id = _listing_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'LISTING_NOT_FOUND');
+  END IF;
+
+  -- Intussen toch uitbetaald of al gemarkeerd
+  IF v_listing.payout_refund_id IS NOT NULL OR v_listing.payout_failed_at IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'OK', 'listing_id', _listing_id, 'updated', 0);
+  END IF;
+
+  UPDATE ticket_resale_listings
+  SET payout_failed_at = NOW(),
+      payout_error = COALESCE(NULLIF(trim(_error), ''), 'UNKNOWN')
+  WHERE id = _listing_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_listing.org_id,
+    NULL,
+    'RESALE_PAYOUT_FAILED',
+    'ticket_resale_listing',
+    _listing_id,
+    jsonb_build_object(
+      'seller_order_id', v_listing.seller_order_id,
+      'payout_cents', v_listing.payout_cents,
+      'error', _error
+    )
+  );
+
+  RETURN jsonb_build_object('status', 'OK', 'listing_id', _listing_id, 'updated', 1);
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_resale_payout_failed(UUID, TEXT) IS
+  'F035: System: take a resale payout that create-refund rejected out of the process-outbox queue and record the reason.';
+
+REVOKE ALL ON FUNCTION public.mark_resale_payout_failed(UUID, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.mark_resale_payout_failed(UUID, TEXT) TO service_role;
+
+-- ===========================================================================
+-- 15. RPC: retry_resale_payout (org admin)
+-- ===========================================================================
+-- Na handmatig oplossen (bijv. betaling van de verkoper hersteld) zet de
+-- organisator een mislukte uitbetaling terug in de wachtrij. Is de verkoper
+-- buiten het systeem om betaald, dan blijft de fout staan als notitie.
+
+CREATE OR REPLACE FUNCTION public.retry_resale_payout(_listing_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing ticket_resale_listings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_listing FROM ticket_resale_listings WHERE id = _listing_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'LISTING_NOT_FOUND');
+  END IF;
+
+  IF NOT (public.has_role(v_listing.org_id, 'admin') OR public.has_role(v_listing.org_id, 'owner')) THEN
+    RETURN jsonb_build_object('error', 'FORBIDDEN');
+  END IF;
+
+  IF v_listing.payout_failed_at IS NULL OR v_listing.payout_refund_id IS NOT NULL THEN
+    RETURN jsonb_build_object('error', 'PAYOUT_NOT_FAILED');
+  END IF;
+
+  UPDATE ticket_resale_listings
+  SET payout_failed_at = NULL,
+      payout_error = NULL
+  WHERE id = _listing_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_listing.org_id,
+    auth.uid(),
+    'RESALE_PAYOUT_RETRY',
+    'ticket_resale_listing',
+    _listing_id,
+    jsonb_build_object('previous_error', v_listing.payout_error)
+  );
+
+  RETURN jsonb_build_object('status', 'OK', 'listing_id', _listing_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.retry_resale_payout(UUID) IS
+  'F035: Put a failed resale payout back in the process-outbox queue (org admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.retry_resale_payout(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 16. HELPER: finance_report_lines (doorverkoop)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F020 behalve: doorverkoop wordt apart geboekt.
+-- - 'resale'        betaling van de koper (order zonder order_items), als
+--                   regel '<tickettype> (doorverkoop)'
+-- - 'resale_payout' uitbetaling aan de verkoper (refund met payout_refund_id),
+--                   in de refund kolom maar niet als terugbetaling over de
+--                   ticketregels van de verkoper verdeeld
+-- - terugbetalingen van een doorverkoop order worden een 'refund' regel op
+--   de doorverkoop regel
+-- Netto blijft gross - discount - refund: per doorverkoop de servicekosten
+-- (en een eventueel verschil als de uitbetaling begrensd werd).
+
+CREATE OR REPLACE FUNCTION public.finance_report_lines(
+  _org_id UUID,
+  _from DATE,
+  _to DATE
+)
+RETURNS TABLE (
+  line_type TEXT,
+  booked_at TIMESTAMPTZ,
+  order_id UUID,
+  event_id UUID,
+  event_name TEXT,
+  order_item_id UUID,
+  ticket_type_id UUID,
+  item_name TEXT,
+  quantity INTEGER,
+  gross NUMERIC,
+  discount NUMERIC,
+  refund NUMERIC,
+  vat_rate NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH event_vat AS (
+    SELECT
+      e.id AS event_id,
+      e.name AS event_name,
+      COALESCE(
+        (es.setting_value->>'vat_rate')::numeric,
+        (os.setting_value->>'vat_rate')::numeric,
+        21
+      ) AS vat_rate
+    FROM events e
+    LEFT JOIN event_settings es ON es.event_id = e.id AND es.domain = 'payments'
+    LEFT JOIN org_settings os ON os.org_id = e.org_id AND os.domain = 'payments'
+    WHERE e.org_id = _org_id
+  ),
+  items AS (
+    SELECT
+      o.id AS order_id,
+      o.created_at,
+      o.discount_amount AS order_discount_amount,
+      ev.event_id,
+      ev.event_name,
+      ev.vat_rate,
+      oi.id AS order_item_id,
+      oi.ticket_type_id,
+      COALESCE(tt.name, p.name, 'Overig') AS item_name,
+      oi.quantity,
+      oi.total_price,
+      SUM(oi.total_price) OVER (PARTITION BY o.id) AS order_items_total
+    FROM orders o
+    JOIN event_vat ev ON ev.event_id = o.event_id
+    JOIN order_items oi ON oi.order_id = o.id
+    LEFT JOIN ticket_types tt ON tt.id = oi.ticket_type_id
+    LEFT JOIN products p ON p.id = oi.product_id
+    WHERE o.status IN ('paid', 'refunded')
+  ),
+  item_discounts AS (
+    SELECT da.order_item_id, SUM(da.discount_amount) AS amount
+    FROM discount_applications da
+    WHERE da.order_item_id IS NOT NULL
+    GROUP BY da.order_item_id
+  ),
+  order_discounts AS (
+    SELECT da.order_id, SUM(da.discount_amount) AS amount
+    FROM discount_applications da
+    WHERE da.order_item_id IS NULL
+    GROUP BY da.order_id
+  ),
+  refund_totals AS (
+    SELECT
+      r.id AS refund_id,
+      r.order_id,
+      COALESCE(r.refunded_at, r.created_at) AS refunded_at,
+      r.amount_cents / 100.0 AS amount,
+      EXISTS (SELECT 1 FROM refund_items ri WHERE ri.refund_id = r.id) AS has_items,
+      rl.id AS payout_listing_id
+    FROM refunds r
+    LEFT JOIN ticket_resale_listings rl ON rl.payout_refund_id = r.id
+    WHERE r.org_id = _org_id
+      AND r.status = 'refunded'
+      AND (_from IS NULL OR COALESCE(r.refunded_at, r.created_at) >= _from)
+      AND (_to IS NULL OR COALESCE(r.refunded_at, r.created_at) < _to + 1)
+  ),
+  resale_items AS (
+    -- Doorverkocht ticket per aanbieding; de koper order heeft geen order_items
+    SELECT
+      l.id AS listing_id,
+      l.buyer_order_id,
+      ev.event_id,
+      ev.event_name,
+      ev.vat_rate,
+      ti.ticket_type_id,
+      COALESCE(tt.name, 'Ticket') || ' (doorverkoop)' AS item_name
+    FROM ticket_resale_listings l
+    JOIN event_vat ev ON ev.event_id = l.event_id
+    JOIN ticket_instances ti ON ti.id = l.ticket_instance_id
+    LEFT JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+  )
+  -- Verkopen
+  SELECT
+    'sale',
+    i.created_at,
+    i.order_id,
+    i.event_id,
+    i.event_name,
+    i.order_item_id,
+    i.ticket_type_id,
+    i.item_name,
+    i.quantity,
+    i.total_price,
+    COALESCE(idc.amount, 0)
+      + CASE WHEN i.order_items_total > 0
+          THEN ROUND(COALESCE(odc.amount, i.order_discount_amount, 0) * i.total_price / i.order_items_total, 2)
+          ELSE 0
+        END,
+    0::numeric,
+    i.vat_rate
+  FROM items i
+  LEFT JOIN item_discounts idc ON idc.order_item_id = i.order_item_id
+  LEFT JOIN order_discounts odc ON odc.order_id = i.order_id
+  WHERE (_from IS NULL OR i.created_at >= _from)
+    AND (_to IS NULL OR i.created_at < _to + 1)
+
+  UNION ALL
+
+  -- Terugbetalingen
+  SELECT
+    'refund',
+    rt.refunded_at,
+    i.order_id,
+    i.event_id,
+    i.event_name,
+    i.order_item_id,
+    i.ticket_type_id,
+    i.item_name,
+    CASE WHEN rt.has_items THEN COALESCE(ri.quantity, 0) ELSE 0 END,
+    0::numeric,
+    0::numeric,
+    CASE
+      WHEN rt.has_items THEN COALESCE(ri.amount_cents, 0) / 100.0
+      WHEN i.order_items_total > 0 THEN ROUND(rt.amount * i.total_price / i.order_items_total, 2)
+      ELSE 0
+    END,
+    i.vat_rate
+  FROM refund_totals rt
+  JOIN items i ON i.order_id = rt.order_id
+  LEFT JOIN refund_items ri ON ri.refund_id = rt.refund_id AND ri.order_item_id = i.order_item_id
+  WHERE rt.payout_listing_id IS NULL
+    AND (NOT rt.has_items OR ri.id IS NOT NULL)
+
+  UNION ALL
+
+  -- Doorverkoop: betaling van de koper
+  SELECT
+    'resale',
+    o.created_at,
+    o.id,
+    ri.event_id,
+    ri.event_name,
+    NULL::uuid,
+    ri.ticket_type_id,
+    ri.item_name,
+    1,
+    o.total_amount,
+    0::numeric,
+    0::numeric,
+    ri.vat_rate
+  FROM orders o
+  JOIN resale_items ri ON ri.listing_id = o.resale_listing_id
+  WHERE o.status IN ('paid', 'refunded')
+    AND (_from IS NULL OR o.created_at >= _from)
+    AND (_to IS NULL OR o.created_at < _to + 1)
+
+  UNION ALL
+
+  -- Doorverkoop: terugbetaling aan de koper (bijv. RESALE_PAYMENT_UNMATCHED)
+  SELECT
+    'refund',
+    rt.refunded_at,
+    o.id,
+    ri.event_id,
+    ri.event_name,
+    NULL::uuid,
+    ri.ticket_type_id,
+    ri.item_name,
+    CASE WHEN rt.amount >= o.total_amount THEN 1 ELSE 0 END,
+    0::numeric,
+    0::numeric,
+    rt.amount,
+    ri.vat_rate
+  FROM refund_totals rt
+  JOIN orders o ON o.id = rt.order_id
+  JOIN resale_items ri ON ri.listing_id = o.resale_listing_id
+  WHERE rt.payout_listing_id IS NULL
+
+  UNION ALL
+
+  -- Doorverkoop: uitbetaling aan de verkoper, geboekt op de order van de verkoper
+  SELECT
+    'resale_payout',
+    rt.refunded_at,
+    rt.order_id,
+    ri.event_id,
+    ri.event_name,
+    NULL::uuid,
+    ri.ticket_type_id,
+    ri.item_name,
+    0,
+    0::numeric,
+    0::numeric,
+    rt.amount,
+    ri.vat_rate
+  FROM refund_totals rt
+  JOIN resale_items ri ON ri.listing_id = rt.payout_listing_id;
+$$;
+
+COMMENT ON FUNCTION public.finance_report_lines(UUID, DATE, DATE) IS
+  'F035: Internal - sale, refund, resale and resale_payout lines per order item for finance reports (amounts incl. VAT).';
+
+REVOKE ALL ON FUNCTION public.finance_report_lines(UUID, DATE, DATE) FROM public;
+GRANT EXECUTE ON FUNCTION public.finance_report_lines(UUID, DATE, DATE) TO service_role;
+
+-- ===========================================================================
+-- 17. RPC: get_finance_report (doorverkoop)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F020 behalve: refunds zonder uitbetalingen aan
+-- doorverkopers (apart als resale_payouts); doorverkoop orders tellen mee
+-- in order_count en quantity_sold. get_finance_export neemt line_type over.
+
+CREATE OR REPLACE FUNCTION public.get_finance_report(
+  _org_id UUID,
+  _from DATE DEFAULT NULL,
+  _to DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+  v_totals JSONB;
+  v_by_event JSONB;
+  v_by_ticket_type JSONB;
+  v_by_provider JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT role::text INTO v_role
+  FROM org_members
+  WHERE org_id = _org_id AND user_id = auth.uid();
+
+  IF v_role IS NULL OR v_role NOT IN ('owner', 'admin', 'finance') THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _from IS NOT NULL AND _to IS NOT NULL AND _from > _to THEN
+    RETURN jsonb_build_object('error', 'INVALID_DATE_RANGE');
+  END IF;
+
+  WITH lines AS (
+    SELECT *, ROUND((gross - discount - refund) * vat_rate / (100 + vat_rate), 2) AS vat
+    FROM public.finance_report_lines(_org_id, _from, _to)
+  )
+  SELECT
+    (
+      SELECT jsonb_build_object(
+        'gross_sales', COALESCE(SUM(gross), 0),
+        'discounts', COALESCE(SUM(discount), 0),
+        'refunds', COALESCE(SUM(refund) FILTER (WHERE line_type <> 'resale_payout'), 0),
+        'resale_payouts', COALESCE(SUM(refund) FILTER (WHERE line_type = 'resale_payout'), 0),
+        'net_revenue', COALESCE(SUM(gross - discount - refund), 0),
+        'vat', COALESCE(SUM(vat), 0),
+        'order_count', COUNT(DISTINCT order_id) FILTER (WHERE line_type IN ('sale', 'resale'))
+      )
+      FROM lines
+    ),
+    (
+      SELECT COALESCE(jsonb_agg(row_to_json(t) ORDER BY t.event_name), '[]'::jsonb)
+      FROM (
+        SELECT
+          event_id,
+          event_name,
+          MAX(vat_rate) AS vat_rate,
+          SUM(gross) AS gross_sales,
+          SUM(discount) AS discounts,
+          COALESCE(SUM(refund) FILTER (WHERE line_type <> 'resale_payout'), 0) AS refunds,
+          COALESCE(SUM(refund) FILTER (WHERE line_type = 'resale_payout'), 0) AS resale_payouts,
+          SUM(gross - discount - refund) AS net_revenue,
+          SUM(vat) AS vat,
+          COUNT(DISTINCT order_id) FILTER (WHERE line_type IN ('sale', 'resale')) AS order_count
+        FROM lines
+        GROUP BY event_id, event_name
+      ) t
+    ),
+    (
+      SELECT COALESCE(jsonb_agg(row_to_json(t) ORDER BY t.event_name, t.item_name), '[]'::jsonb)
+      FROM (
+        SELECT
+          event_id,
+          event_name,
+          ticket_type_id,
+          item_name,
+          COALESCE(SUM(quantity) FILTER (WHERE line_type IN ('sale', 'resale')), 0) AS quantity_sold,
+          COALESCE(SUM(quantity) FILTER (WHERE line_type = 'refund'), 0) AS quantity_refunded,
+          SUM(gross) AS gross_sales,
+          SUM(discount) AS discounts,
+          COALESCE(SUM(refund) FILTER (WHERE line_type <> 'resale_payout'), 0) AS refunds,
+          COALESCE(SUM(refund) FILTER (WHERE line_type = 'resale_payout'), 0) AS resale_payouts,
+          SUM(gross - discount - refund) AS net_revenue,
+          SUM(vat) AS vat
+        FROM lines
+        GROUP BY event_id, event_name, ticket_type_id, item_name
+      ) t
+    )
+  INTO v_totals, v_by_event, v_by_ticket_type;
+
+  -- Ontvangen via betaalprovider (orderbedrag; payments.amount is niet
+  -- overal in dezelfde eenheid opgeslagen)
+  SELECT COALESCE(jsonb_agg(row_to_json(t) ORDER BY t.provider), '[]'::jsonb)
+  INTO v_by_provider
+  FROM (
+    SELECT
+      pay.provider,
+      COUNT(*) AS payment_count,
+      SUM(o.total_amount) AS amount
+    FROM payments pay
+    JOIN orders o ON o.id = pay.order_id
+    JOIN events e ON e.id = o.event_id
+    WHERE e.org_id = _org_id
+      AND pay.status = 'paid'
+      AND (_from IS NULL OR o.created_at >= _from)
+      AND (_to IS NULL OR o.created_at < _to + 1)
+    GROUP BY pay.provider
+  ) t;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'org_id', _org_id,
+    'period', jsonb_build_object('from', _from, 'to', _to),
+    'currency', 'EUR',
+    'can_export', v_role IN ('owner', 'finance'),
+    'totals', v_totals,
+    'by_event', v_by_event,
+    'by_ticket_type', v_by_ticket_type,
+    'by_provider', v_by_provider
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_finance_report(UUID, DATE, DATE) IS
+  'F035: Org finance report (gross sales, discounts, refunds, resale payouts, net revenue, VAT) per event and ticket type. Owner/admin/finance.';
+
+GRANT EXECUTE ON FUNCTION public.get_finance_report(UUID, DATE, DATE) TO authenticated;
+
+-- ===========================================================================
+-- 18. VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'ticket_resale_listings'
+  ) THEN
+    RAISE EXCEPTION 'F035: ticket_resale_listings not created';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'resale_listing_id'
+  ) THEN
+    RAISE EXCEPTION 'F035: orders.resale_listing_id not created';
+  END IF;
+
+  IF NOT (public.get_default_settings('transfers') ? 'resale_max_price_pct') THEN
+    RAISE EXCEPTION 'F035: transfers resale defaults missing';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'complete_ticket_resale') THEN
+    RAISE EXCEPTION 'F035: complete_ticket_resale not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'handle_resale_order_status') THEN
+    RAISE EXCEPTION 'F035: handle_resale_order_status trigger not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'mark_resale_payout_failed') THEN
+    RAISE EXCEPTION 'F035: mark_resale_payout_failed not created';
+  END IF;
+
+  RAISE NOTICE 'F035: ticket resale marketplace created successfully';
+END $$;
@@ -0,0 +1,1057 @@
+-- ===========================================================================
+-- F036: Registration Question Builder
+-- Migration: 20250130070000_f036_registration_question_builder.sql
+--
+-- Purpose:
+-- - Vragenbouwer voor organisatoren: registratievragen aanmaken, bewerken,
+--   ordenen en verwijderen per event of per tickettype (owner/admin)
+-- - Validatieregels per vraag (min/max, lengte, regex, datumbereik,
+--   bestandsgrootte) en show-if regels op eerdere antwoorden; zelfde
+--   operators als de segmentvoorwaarden van F032
+-- - Bestandsantwoorden in de private bucket registration-uploads
+-- - Checkout vraagt de gegevens per ticket; create-order-public valideert
+--   (validate_registration_answers) en bewaart ze per ticketpositie
+--   (order_attendee_answers). Bij het uitgeven van het ticket worden ze
+--   registration_answers met ticket_instance_id
+-- - Teamleden (join_team) worden met dezelfde regels gevalideerd
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. COLUMNS: registration_questions
+-- ===========================================================================
+-- validation: regels per vraagtype, bv. {"min": 12, "max": 99} of
+--   {"pattern": "^[0-9]{4}$", "max_length": 4}
+-- show_if: {"question_id", "operator", "value"}; de bronvraag staat eerder
+--   in de volgorde, zodat de checkout de vragen van boven naar beneden kan
+--   evalueren.
+
+ALTER TABLE public.registration_questions
+  ADD COLUMN IF NOT EXISTS validation JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS show_if JSONB,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE public.registration_questions
+  DROP CONSTRAINT IF EXISTS registration_questions_validation_check;
+ALTER TABLE public.registration_questions
+  ADD CONSTRAINT registration_questions_validation_check CHECK (jsonb_typeof(validation) = 'object');
+
+ALTER TABLE public.registration_questions
+  DROP CONSTRAINT IF EXISTS registration_questions_show_if_check;
+ALTER TABLE public.registration_questions
+  ADD CONSTRAINT registration_questions_show_if_check CHECK (show_if IS NULL OR jsonb_typeof(show_if) = 'object');
+
+COMMENT ON COLUMN public.registration_questions.validation IS
+  'F036: Validation rules (min, max, min_length, max_length, pattern, min_date, max_date, max_size_mb).';
+COMMENT ON COLUMN public.registration_questions.show_if IS
+  'F036: Show the question only if an earlier answer matches ({question_id, operator, value}).';
+
+DROP TRIGGER IF EXISTS registration_questions_updated_at ON public.registration_questions;
+CREATE TRIGGER registration_questions_updated_at
+  BEFORE UPDATE ON public.registration_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+-- ===========================================================================
+-- 2. COLUMN: registration_answers.ticket_instance_id
+-- ===========================================================================
+-- Eén registratie per orderregel, maar elke loper in een groepsbestelling
+-- vult eigen gegevens in: antwoorden uit de checkout horen bij een ticket.
+-- Antwoorden zonder ticket (teamleden) blijven uniek per registratie.
+
+ALTER TABLE public.registration_answers
+  ADD COLUMN IF NOT EXISTS ticket_instance_id UUID REFERENCES public.ticket_instances(id);
+
+ALTER TABLE public.registration_answers
+  DROP CONSTRAINT IF EXISTS answers_unique_per_registration;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_answers_unique_per_registration
+  ON public.registration_answers(registration_id, question_id)
+  WHERE ticket_instance_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_answers_unique_per_ticket
+  ON public.registration_answers(ticket_instance_id, question_id)
+  WHERE ticket_instance_id IS NOT NULL;
+
+COMMENT ON COLUMN public.registration_answers.ticket_instance_id IS
+  'F036: Ticket the answer belongs to (per-ticket checkout answers); NULL for registration-level answers.';
+
+-- ===========================================================================
+-- 3. TABLE: order_attendee_answers
+-- ===========================================================================
+-- Antwoorden uit de checkout; registratie en tickets bestaan pas na
+-- betaling (zoals fundraising_order_choices). Sleutel = orderregel +
+-- ticketpositie, dezelfde als ticket_instances(order_item_id, sequence_no).
+
+CREATE TABLE IF NOT EXISTS order_attendee_answers (
+  order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  sequence_no INTEGER NOT NULL,
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (order_item_id, sequence_no),
+  CONSTRAINT order_attendee_answers_sequence_check CHECK (sequence_no >= 1),
+  CONSTRAINT order_attendee_answers_answers_check CHECK (jsonb_typeof(answers) = 'object')
+);
+
+COMMENT ON TABLE order_attendee_answers IS
+  'F036: Validated checkout answers per ticket position; turned into registration_answers when the ticket is issued.';
+
+ALTER TABLE order_attendee_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view attendee answers"
+  ON order_attendee_answers
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE oi.id = order_attendee_answers.order_item_id
+      AND public.is_org_member(o.org_id)
+    )
+  );
+-- Geen INSERT policy: antwoorden worden alleen door create-order-public (service role) opgeslagen.
+
+-- ===========================================================================
+-- 4. STORAGE BUCKET: registration-uploads
+-- ===========================================================================
+-- Pad: <event_id>/<random>/<bestandsnaam>. Uploaden mag iedereen bij een
+-- gepubliceerd event (ook gasten in de checkout); lezen alleen
+-- owner/admin/support, zoals de medische antwoorden.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'registration-uploads',
+  'registration-uploads',
+  false,
+  10485760,  -- 10MB
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Checkout can upload registration files" ON storage.objects;
+DROP POLICY IF EXISTS "Org members can read registration files" ON storage.objects;
+
+CREATE POLICY "Checkout can upload registration files"
+ON storage.objects FOR INSERT
+TO anon, authenticated
+WITH CHECK (
+  bucket_id = 'registration-uploads'
+  AND (storage.foldername(name))[1] IN (
+    SELECT e.id::text FROM public.events e
+    WHERE e.status = 'published'
+    AND e.deleted_at IS NULL
+  )
+);
+
+CREATE POLICY "Org members can read registration files"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'registration-uploads'
+  AND (storage.foldername(name))[1] IN (
+    SELECT e.id::text FROM public.events e
+    JOIN public.org_members om ON om.org_id = e.org_id
+    WHERE om.user_id = auth.uid()
+    AND om.role IN ('owner', 'admin', 'support')
+  )
+);
+
+-- ===========================================================================
+-- 5. FUNCTION: registration_question_visible
+-- ===========================================================================
+-- not_equals / is_not_set zijn waar zonder antwoord, net als bij de
+-- segmentvoorwaarden (segment_condition_matches).
+
+CREATE OR REPLACE FUNCTION public.registration_question_visible(_show_if JSONB, _answers JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _show_if IS NULL THEN true
+    WHEN _show_if->>'operator' = 'not_equals' THEN NOT COALESCE(public.registration_answer_matches(
+      _answers->(_show_if->>'question_id'), 'equals', _show_if->>'value'), false)
+    WHEN _show_if->>'operator' = 'is_not_set' THEN NOT COALESCE(public.registration_answer_matches(
+      _answers->(_show_if->>'question_id'), 'is_set', NULL), false)
+    ELSE COALESCE(public.registration_answer_matches(
+      _answers->(_show_if->>'question_id'), _show_if->>'operator', _show_if->>'value'), false)
+  END;
+$$;
+
+COMMENT ON FUNCTION public.registration_question_visible(JSONB, JSONB) IS
+  'F036: Whether a question with this show_if rule is shown, given the answers so far.';
+
+-- ===========================================================================
+-- 6. FUNCTION: validate_registration_answers
+-- ===========================================================================
+-- Loopt de vragen van het tickettype in volgorde af. Antwoorden op
+-- verborgen vragen vervallen (en tellen niet mee voor latere show_if).
+-- Resultaat: {status: OK, answers: <opgeschoonde antwoorden>} of
+-- {error: MISSING_REQUIRED_ANSWER | INVALID_ANSWER, question_id, reason}.
+
+CREATE OR REPLACE FUNCTION public.validate_registration_answers(
+  _event_id UUID,
+  _ticket_type_id UUID,
+  _answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_question RECORD;
+  v_answer JSONB;
+  v_text TEXT;
+  v_rules JSONB;
+  v_date DATE;
+  v_size BIGINT;
+  v_reason TEXT;
+  v_clean JSONB := '{}'::jsonb;
+BEGIN
+  IF _answers IS NULL OR jsonb_typeof(_answers) <> 'object' THEN
+    _answers := '{}'::jsonb;
+  END IF;
+
+  FOR v_question IN
+    SELECT q.id, q.question_type, q.options, q.is_required, q.validation, q.show_if
+    FROM registration_questions q
+    WHERE q.event_id = _event_id
+      AND (q.ticket_type_id IS NULL OR q.ticket_type_id = _ticket_type_id)
+    ORDER BY q.sort_order, q.created_at
+  LOOP
+    IF NOT public.registration_question_visible(v_question.show_if, v_clean) THEN
+      CONTINUE;
+    END IF;
+
+    v_answer := _answers->(v_question.id::TEXT);
+    v_rules := v_question.validation;
+    v_text := CASE WHEN jsonb_typeof(v_answer) = 'object' THEN v_answer->>'path'
+                   ELSE public.registration_answer_text(v_answer) END;
+
+    -- Leeg (een niet aangevinkte checkbox is ook leeg)
+    IF COALESCE(trim(v_text), '') = '' OR v_answer = 'false'::jsonb THEN
+      IF v_question.is_required THEN
+        RETURN jsonb_build_object('error', 'MISSING_REQUIRED_ANSWER', 'question_id', v_question.id);
+      END IF;
+      CONTINUE;
+    END IF;
+
+    v_reason := NULL;
+
+    CASE v_question.question_type::TEXT
+      WHEN 'text', 'textarea' THEN
+        IF jsonb_typeof(v_answer) <> 'string' THEN
+          v_reason := 'INVALID_TYPE';
+        ELSIF length(v_text) < COALESCE((v_rules->>'min_length')::INTEGER, 0) THEN
+          v_reason := 'MIN_LENGTH';
+        ELSIF length(v_text) > COALESCE((v_rules->>'max_length')::INTEGER, 5000) THEN
+          v_reason := 'MAX_LENGTH';
+        ELSIF COALESCE(v_rules->>'pattern', '') <> '' AND v_text !~ (v_rules->>'pattern') THEN
+          v_reason := 'PATTERN';
+        END IF;
+
+      WHEN 'number' THEN
+        IF jsonb_typeof(v_answer) <> 'number' THEN
+          v_reason := 'INVALID_TYPE';
+        ELSIF v_rules ? 'min' AND v_answer::TEXT::NUMERIC < (v_rules->>'min')::NUMERIC THEN
+          v_reason := 'MIN';
+        ELSIF v_rules ? 'max' AND v_answer::TEXT::NUMERIC > (v_rules->>'max')::NUMERIC THEN
+          v_reason := 'MAX';
+        END IF;
+
+      WHEN 'date' THEN
+        BEGIN
+          v_date := v_text::DATE;
+        EXCEPTION WHEN others THEN
+          v_date := NULL;
+        END;
+
+        IF jsonb_typeof(v_answer) <> 'string' OR v_date IS NULL THEN
+          v_reason := 'INVALID_TYPE';
+        ELSIF v_rules ? 'min_date' AND v_date < (v_rules->>'min_date')::DATE THEN
+          v_reason := 'MIN_DATE';
+        ELSIF v_rules ? 'max_date' AND v_date > (v_rules->>'max_date')::DATE THEN
+          v_reason := 'MAX_DATE';
+        END IF;
+
+      WHEN 'select' THEN
+        IF jsonb_typeof(v_answer) <> 'string'
+           OR NOT COALESCE(v_question.options, '[]'::jsonb) ? v_text THEN
+          v_reason := 'INVALID_OPTION';
+        END IF;
+
+      WHEN 'checkbox' THEN
+        IF v_answer <> 'true'::jsonb THEN
+          v_reason := 'INVALID_TYPE';
+        END IF;
+
+      WHEN 'file' THEN
+        -- {path, name, size, mime_type}; het object moet in de bucket van dit event staan
+        SELECT (so.metadata->>'size')::BIGINT INTO v_size
+        FROM storage.objects so
+        WHERE so.bucket_id = 'registration-uploads'
+          AND so.name = v_text;
+
+        IF jsonb_typeof(v_answer) <> 'object'
+           OR split_part(v_text, '/', 1) <> _event_id::TEXT
+           OR v_size IS NULL THEN
+          v_reason := 'INVALID_FILE';
+        ELSIF v_size > COALESCE((v_rules->>'max_size_mb')::NUMERIC, 10) * 1024 * 1024 THEN
+          v_reason := 'FILE_TOO_LARGE';
+        END IF;
+    END CASE;
+
+    IF v_reason IS NOT NULL THEN
+      RETURN jsonb_build_object('error', 'INVALID_ANSWER', 'question_id', v_question.id, 'reason', v_reason);
+    END IF;
+
+    v_clean := v_clean || jsonb_build_object(v_question.id::TEXT, v_answer);
+  END LOOP;
+
+  RETURN jsonb_build_object('status', 'OK', 'answers', v_clean);
+END;
+$$;
+
+COMMENT ON FUNCTION public.validate_registration_answers(UUID, UUID, JSONB) IS
+  'F036: System: validate answers for a ticket type (show_if, required, validation rules, uploaded files).';
+
+REVOKE ALL ON FUNCTION public.validate_registration_answers(UUID, UUID, JSONB) FROM public;
+GRANT EXECUTE ON FUNCTION public.validate_registration_answers(UUID, UUID, JSONB) TO service_role;
+
+-- ===========================================================================
+-- 7. RPC: get_registration_questions_admin
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.can_manage_registration_questions(_event_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = _event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+  );
+$$;
+
+COMMENT ON FUNCTION public.can_manage_registration_questions(UUID) IS
+  'F036: True if the current user is admin/owner of the event org.';
+
+GRANT EXECUTE ON FUNCTION public.can_manage_registration_questions(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_registration_questions_admin(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id AND deleted_at IS NULL;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'can_edit', public.can_manage_registration_questions(_event_id),
+    'ticket_types', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', tt.id, 'name', tt.name) ORDER BY tt.sort_order, tt.name)
+      FROM ticket_types tt
+      WHERE tt.event_id = _event_id AND tt.deleted_at IS NULL
+    ), '[]'::jsonb),
+    'questions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', q.id,
+        'ticket_type_id', q.ticket_type_id,
+        'question_type', q.question_type,
+        'label', q.label,
+        'description', q.description,
+        'options', q.options,
+        'is_required', q.is_required,
+        'is_medical', q.is_medical,
+        'validation', q.validation,
+        'show_if', q.show_if,
+        'sort_order', q.sort_order,
+        'answer_count', (SELECT COUNT(*) FROM registration_answers ra WHERE ra.question_id = q.id)
+      ) ORDER BY q.sort_order, q.created_at)
+      FROM registration_questions q
+      WHERE q.event_id = _event_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_registration_questions_admin(UUID) IS
+  'F036: Registration questions of an event (with answer counts) and its ticket types, for org members.';
+
+GRANT EXECUTE ON FUNCTION public.get_registration_questions_admin(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 8. RPC: upsert_registration_question
+-- ===========================================================================
+-- Alleen regels die bij het vraagtype horen worden bewaard. Een show_if
+-- verwijst naar een eerdere vraag die voor hetzelfde tickettype geldt.
+
+CREATE OR REPLACE FUNCTION public.upsert_registration_question(
+  _event_id UUID,
+  _question_type TEXT,
+  _label TEXT,
+  _description TEXT DEFAULT NULL,
+  _options JSONB DEFAULT NULL,
+  _ticket_type_id UUID DEFAULT NULL,
+  _is_required BOOLEAN DEFAULT false,
+  _is_medical BOOLEAN DEFAULT false,
+  _validation JSONB DEFAULT '{}'::jsonb,
+  _show_if JSONB DEFAULT NULL,
+  _id UUID DEFAULT NULL  -- Pass existing ID to update
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_org_id UUID;
+  v_existing registration_questions%ROWTYPE;
+  v_source registration_questions%ROWTYPE;
+  v_validation JSONB := '{}'::jsonb;
+  v_rules JSONB := COALESCE(_validation, '{}'::jsonb);
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id AND deleted_at IS NULL;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.can_manage_registration_questions(_event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _id IS NOT NULL THEN
+    SELECT * INTO v_existing FROM registration_questions WHERE id = _id AND event_id = _event_id;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('error', 'QUESTION_NOT_FOUND');
+    END IF;
+  END IF;
+
+  IF _question_type IS NULL
+     OR _question_type NOT IN ('text', 'textarea', 'number', 'select', 'checkbox', 'date', 'file') THEN
+    RETURN jsonb_build_object('error', 'INVALID_TYPE');
+  END IF;
+
+  -- Bestaande antwoorden zijn onveranderlijk: het type ligt dan vast
+  IF _id IS NOT NULL AND v_existing.question_type::TEXT <> _question_type
+     AND EXISTS (SELECT 1 FROM registration_answers WHERE question_id = _id) THEN
+    RETURN jsonb_build_object('error', 'QUESTION_HAS_ANSWERS');
+  END IF;
+
+  IF _label IS NULL OR length(trim(_label)) NOT BETWEEN 1 AND 300 THEN
+    RETURN jsonb_build_object('error', 'INVALID_LABEL');
+  END IF;
+
+  IF _question_type = 'select' AND (
+    jsonb_typeof(_options) IS DISTINCT FROM 'array'
+    OR jsonb_array_length(_options) = 0
+    OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_options) o
+      WHERE jsonb_typeof(o.value) <> 'string' OR trim(o.value #>> '{}') = ''
+    )
+  ) THEN
+    RETURN jsonb_build_object('error', 'INVALID_OPTIONS');
+  END IF;
+
+  IF _ticket_type_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM ticket_types WHERE id = _ticket_type_id AND event_id = _event_id
+  ) THEN
+    RETURN jsonb_build_object('error', 'TICKET_TYPE_NOT_FOUND');
+  END IF;
+
+  -- Validatieregels per type
+  BEGIN
+    IF jsonb_typeof(v_rules) <> 'object' THEN
+      RETURN jsonb_build_object('error', 'INVALID_VALIDATION');
+    END IF;
+
+    v_validation := jsonb_strip_nulls(CASE _question_type
+      WHEN 'number' THEN jsonb_build_object(
+        'min', (v_rules->>'min')::NUMERIC,
+        'max', (v_rules->>'max')::NUMERIC)
+      WHEN 'text' THEN jsonb_build_object(
+        'min_length', (v_rules->>'min_length')::INTEGER,
+        'max_length', (v_rules->>'max_length')::INTEGER,
+        'pattern', NULLIF(v_rules->>'pattern', ''))
+      WHEN 'textarea' THEN jsonb_build_object(
+        'min_length', (v_rules->>'min_length')::INTEGER,
+        'max_length', (v_rules->>'max_length')::INTEGER)
+      WHEN 'date' THEN jsonb_build_object(
+        'min_date', ((v_rules->>'min_date')::DATE)::TEXT,
+        'max_date', ((v_rules->>'max_date')::DATE)::TEXT)
+      WHEN 'file' THEN jsonb_build_object(
+        'max_size_mb', (v_rules->>'max_size_mb')::NUMERIC)
+      ELSE '{}'::jsonb
+    END);
+
+    -- Regex moet compileren
+    IF v_validation ? 'pattern' THEN
+      PERFORM '' ~ (v_validation->>'pattern');
+    END IF;
+  EXCEPTION WHEN others THEN
+    RETURN jsonb_build_object('error', 'INVALID_VALIDATION');
+  END;
+
+  IF (v_validation->>'min')::NUMERIC > (v_validation->>'max')::NUMERIC
+     OR (v_validation->>'min_length')::INTEGER < 0
+     OR (v_validation->>'min_length')::INTEGER > (v_validation->>'max_length')::INTEGER
+     OR (v_validation->>'min_date')::DATE > (v_validation->>'max_date')::DATE
+     OR (v_validation->>'max_size_mb')::NUMERIC NOT BETWEEN 0.1 AND 10 THEN
+    RETURN jsonb_build_object('error', 'INVALID_VALIDATION');
+  END IF;
+
+  -- Show-if regel
+  IF _show_if IS NOT NULL AND _show_if <> 'null'::jsonb THEN
+    IF jsonb_typeof(_show_if) <> 'object'
+       OR COALESCE(_show_if->>'operator', '') NOT IN ('equals', 'not_equals', 'contains', 'is_set', 'is_not_set')
+       OR (_show_if->>'operator' IN ('equals', 'not_equals', 'contains') AND COALESCE(trim(_show_if->>'value'), '') = '')
+       OR NOT COALESCE(_show_if->>'question_id', '') ~ '^[0-9a-fA-F-]{36}$' THEN
+      RETURN jsonb_build_object('error', 'INVALID_CONDITION');
+    END IF;
+
+    SELECT * INTO v_source
+    FROM registration_questions
+    WHERE id = (_show_if->>'question_id')::UUID AND event_id = _event_id;
+
+    IF NOT FOUND
+       OR v_source.id = _id
+       OR (_id IS NOT NULL AND (v_source.sort_order, v_source.created_at) >= (v_existing.sort_order, v_existing.created_at))
+       OR (v_source.ticket_type_id IS NOT NULL AND v_source.ticket_type_id IS DISTINCT FROM _ticket_type_id) THEN
+      RETURN jsonb_build_object('error', 'INVALID_CONDITION');
+    END IF;
+
+    _show_if := jsonb_strip_nulls(jsonb_build_object(
+      'question_id', v_source.id,
+      'operator', _show_if->>'operator',
+      'value', CASE WHEN _show_if->>'operator' IN ('is_set', 'is_not_set') THEN NULL ELSE trim(_show_if->>'value') END
+    ));
+  ELSE
+    _show_if := NULL;
+  END IF;
+
+  -- Vragen die hierop voortbouwen moeten binnen het tickettype blijven
+  IF _id IS NOT NULL AND _ticket_type_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM registration_questions d
+    WHERE d.event_id = _event_id
+      AND d.show_if->>'question_id' = _id::TEXT
+      AND d.ticket_type_id IS DISTINCT FROM _ticket_type_id
+  ) THEN
+    RETURN jsonb_build_object('error', 'QUESTION_IN_USE');
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO registration_questions (
+      event_id, ticket_type_id, question_type, label, description, options,
+      is_required, is_medical, validation, show_if, sort_order
+    )
+    VALUES (
+      _event_id,
+      _ticket_type_id,
+      _question_type::question_type,
+      trim(_label),
+      NULLIF(trim(_description), ''),
+      CASE WHEN _question_type = 'select' THEN _options END,
+      COALESCE(_is_required, false),
+      COALESCE(_is_medical, false),
+      v_validation,
+      _show_if,
+      COALESCE((SELECT MAX(sort_order) + 1 FROM registration_questions WHERE event_id = _event_id), 0)
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE registration_questions SET
+      ticket_type_id = _ticket_type_id,
+      question_type = _question_type::question_type,
+      label = trim(_label),
+      description = NULLIF(trim(_description), ''),
+      options = CASE WHEN _question_type = 'select' THEN _options END,
+      is_required = COALESCE(_is_required, false),
+      is_medical = COALESCE(_is_medical, false),
+      validation = v_validation,
+      show_if = _show_if
+    WHERE id = _id
+    RETURNING id INTO v_id;
+  END IF;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_org_id,
+    auth.uid(),
+    CASE WHEN _id IS NULL THEN 'REGISTRATION_QUESTION_CREATED' ELSE 'REGISTRATION_QUESTION_UPDATED' END,
+    'registration_question',
+    v_id,
+    jsonb_build_object('event_id', _event_id, 'question_type', _question_type, 'ticket_type_id', _ticket_type_id)
+  );
+
+  RETURN jsonb_build_object('status', 'OK', 'question_id', v_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.upsert_registration_question(UUID, TEXT, TEXT, TEXT, JSONB, UUID, BOOLEAN, BOOLEAN, JSONB, JSONB, UUID) IS
+  'F036: Create (appended at the end) or update a registration question with validation and show-if rules (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.upsert_registration_question(UUID, TEXT, TEXT, TEXT, JSONB, UUID, BOOLEAN, BOOLEAN, JSONB, JSONB, UUID) TO authenticated;
+
+-- ===========================================================================
+-- 9. RPC: delete_registration_question / reorder_registration_questions
+-- ===========================================================================
+-- Vragen met antwoorden blijven bestaan (registration_answers is
+-- append-only en verwijst met ON DELETE RESTRICT).
+
+CREATE OR REPLACE FUNCTION public.delete_registration_question(_question_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_question registration_questions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_question FROM registration_questions WHERE id = _question_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'QUESTION_NOT_FOUND');
+  END IF;
+
+  IF NOT public.can_manage_registration_questions(v_question.event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM registration_answers WHERE question_id = _question_id) THEN
+    RETURN jsonb_build_object('error', 'QUESTION_HAS_ANSWERS');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM registration_questions
+    WHERE event_id = v_question.event_id AND show_if->>'question_id' = _question_id::TEXT
+  ) THEN
+    RETURN jsonb_build_object('error', 'QUESTION_IN_USE');
+  END IF;
+
+  DELETE FROM registration_questions WHERE id = _question_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  SELECT e.org_id, auth.uid(), 'REGISTRATION_QUESTION_DELETED', 'registration_question', _question_id,
+         jsonb_build_object('event_id', v_question.event_id, 'label', v_question.label)
+  FROM events e WHERE e.id = v_question.event_id;
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.delete_registration_question(UUID) IS
+  'F036: Delete a registration question without answers or dependent show-if rules (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.delete_registration_question(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.reorder_registration_questions(
+  _event_id UUID,
+  _question_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_registration_questions(_event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  -- Een vraag met show-if blijft na zijn bronvraag staan
+  IF EXISTS (
+    SELECT 1
+    FROM registration_questions q
+    JOIN unnest(_question_ids) WITH ORDINALITY AS o(id, position) ON o.id = q.id
+    JOIN unnest(_question_ids) WITH ORDINALITY AS s(id, position) ON s.id::TEXT = q.show_if->>'question_id'
+    WHERE q.event_id = _event_id
+      AND s.position >= o.position
+  ) THEN
+    RETURN jsonb_build_object('error', 'CONDITION_ORDER');
+  END IF;
+
+  UPDATE registration_questions q
+  SET sort_order = o.position - 1
+  FROM unnest(_question_ids) WITH ORDINALITY AS o(id, position)
+  WHERE q.id = o.id AND q.event_id = _event_id;
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.reorder_registration_questions(UUID, UUID[]) IS
+  'F036: Set the order of registration questions (array position = sort_order); show-if sources stay first.';
+
+GRANT EXECUTE ON FUNCTION public.reorder_registration_questions(UUID, UUID[]) TO authenticated;
+
+-- ===========================================================================
+-- 10. RPC: get_team_invite / join_team
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F017 behalve: get_team_invite geeft validation en
+-- show_if mee; join_team valideert via validate_registration_answers en
+-- bewaart alleen de antwoorden op zichtbare vragen.
+
+CREATE OR REPLACE FUNCTION public.get_team_invite(_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+  v_member_count INT;
+  v_captain_name TEXT;
+  v_questions JSONB;
+BEGIN
+  SELECT t.id, t.name, t.status, t.slots, t.event_id, t.ticket_type_id,
+         e.name AS event_name, e.slug AS event_slug, e.start_time AS event_start,
+         tt.name AS ticket_name
+  INTO v_team
+  FROM teams t
+  JOIN events e ON e.id = t.event_id
+  JOIN ticket_types tt ON tt.id = t.ticket_type_id
+  WHERE t.invite_code = upper(trim(_code))
+    AND e.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TEAM_NOT_FOUND');
+  END IF;
+
+  IF v_team.status <> 'active' THEN
+    RETURN jsonb_build_object('error', 'TEAM_NOT_ACTIVE');
+  END IF;
+
+  SELECT COUNT(*) INTO v_member_count
+  FROM team_members WHERE team_id = v_team.id;
+
+  SELECT p.first_name INTO v_captain_name
+  FROM team_members tm
+  JOIN participants p ON p.id = tm.participant_id
+  WHERE tm.team_id = v_team.id AND tm.role = 'captain';
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', q.id,
+    'question_type', q.question_type,
+    'label', q.label,
+    'description', q.description,
+    'options', q.options,
+    'is_required', q.is_required,
+    'validation', q.validation,
+    'show_if', q.show_if
+  ) ORDER BY q.sort_order, q.created_at), '[]'::jsonb)
+  INTO v_questions
+  FROM registration_questions q
+  WHERE q.event_id = v_team.event_id
+    AND (q.ticket_type_id IS NULL OR q.ticket_type_id = v_team.ticket_type_id);
+
+  RETURN jsonb_build_object(
+    'team', jsonb_build_object(
+      'id', v_team.id,
+      'name', v_team.name,
+      'event_id', v_team.event_id,
+      'event_name', v_team.event_name,
+      'event_slug', v_team.event_slug,
+      'event_start', v_team.event_start,
+      'ticket_name', v_team.ticket_name,
+      'captain_name', v_captain_name,
+      'member_count', v_member_count,
+      'slots', v_team.slots,
+      'is_full', v_member_count >= v_team.slots,
+      'registration_closed', v_team.event_start IS NOT NULL AND v_team.event_start <= NOW()
+    ),
+    'questions', v_questions
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_team_invite(TEXT) IS
+  'Public: team + registration questions for the team join page.';
+
+CREATE OR REPLACE FUNCTION public.join_team(
+  _code TEXT,
+  _email TEXT,
+  _first_name TEXT,
+  _last_name TEXT,
+  _answers JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+  v_email TEXT;
+  v_member_count INT;
+  v_validation JSONB;
+  v_answers JSONB;
+  v_participant_id UUID;
+  v_registration_id UUID;
+  v_member_id UUID;
+BEGIN
+  v_email := lower(trim(_email));
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN jsonb_build_object('error', 'INVALID_EMAIL');
+  END IF;
+
+  IF NULLIF(trim(_first_name), '') IS NULL OR NULLIF(trim(_last_name), '') IS NULL THEN
+    RETURN jsonb_build_object('error', 'MISSING_NAME');
+  END IF;
+
+  SELECT t.id, t.name, t.status, t.slots, t.event_id, t.ticket_type_id,
+         e.org_id, e.name AS event_name, e.start_time
+  INTO v_team
+  FROM teams t
+  JOIN events e ON e.id = t.event_id
+  WHERE t.invite_code = upper(trim(_code))
+    AND e.deleted_at IS NULL
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TEAM_NOT_FOUND');
+  END IF;
+
+  IF v_team.status <> 'active' THEN
+    RETURN jsonb_build_object('error', 'TEAM_NOT_ACTIVE');
+  END IF;
+
+  IF v_team.start_time IS NOT NULL AND v_team.start_time <= NOW() THEN
+    RETURN jsonb_build_object('error', 'REGISTRATION_CLOSED');
+  END IF;
+
+  SELECT COUNT(*) INTO v_member_count
+  FROM team_members WHERE team_id = v_team.id;
+
+  IF v_member_count >= v_team.slots THEN
+    RETURN jsonb_build_object('error', 'TEAM_FULL');
+  END IF;
+
+  -- Antwoorden: verplicht, show-if en validatieregels
+  v_validation := public.validate_registration_answers(v_team.event_id, v_team.ticket_type_id, _answers);
+
+  IF v_validation ? 'error' THEN
+    RETURN v_validation;
+  END IF;
+
+  v_answers := v_validation->'answers';
+
+  -- Deelnemer op e-mail (zelfde sleutel als sync_registration_on_order_paid)
+  SELECT id INTO v_participant_id
+  FROM participants
+  WHERE lower(email) = v_email AND deleted_at IS NULL
+  LIMIT 1;
+
+  IF v_participant_id IS NULL THEN
+    INSERT INTO participants (email, first_name, last_name, user_id)
+    VALUES (v_email, trim(_first_name), trim(_last_name), auth.uid())
+    RETURNING id INTO v_participant_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM team_members tm
+    JOIN teams t ON t.id = tm.team_id
+    WHERE tm.participant_id = v_participant_id
+      AND t.event_id = v_team.event_id
+      AND t.status <> 'cancelled'
+  ) THEN
+    RETURN jsonb_build_object('error', 'ALREADY_IN_TEAM');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM registrations r
+    WHERE r.event_id = v_team.event_id
+      AND r.participant_id = v_participant_id
+      AND r.ticket_type_id = v_team.ticket_type_id
+      AND r.deleted_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('error', 'ALREADY_REGISTERED');
+  END IF;
+
+  INSERT INTO registrations (event_id, participant_id, ticket_type_id, status)
+  VALUES (v_team.event_id, v_participant_id, v_team.ticket_type_id, 'confirmed')
+  RETURNING id INTO v_registration_id;
+
+  INSERT INTO registration_answers (registration_id, question_id, answer_value)
+  SELECT v_registration_id, q.id, v_answers->(q.id::TEXT)
+  FROM registration_questions q
+  WHERE q.event_id = v_team.event_id
+    AND v_answers ? q.id::TEXT;
+
+  INSERT INTO team_members (team_id, registration_id, participant_id, role)
+  VALUES (v_team.id, v_registration_id, v_participant_id, 'member')
+  RETURNING id INTO v_member_id;
+
+  PERFORM public.assign_team_tickets(v_team.id);
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_team.org_id,
+    auth.uid(),
+    'TEAM_MEMBER_JOINED',
+    'team',
+    v_team.id,
+    jsonb_build_object('team_member_id', v_member_id, 'registration_id', v_registration_id, 'participant_email', v_email)
+  );
+
+  PERFORM public.queue_email(
+    _org_id => v_team.org_id,
+    _event_id => v_team.event_id,
+    _idempotency_key => 'team_member_joined:' || v_member_id::TEXT,
+    _to_email => v_email,
+    _subject => 'Je doet mee met ' || v_team.name,
+    _html_body =>
+      '<p>Je bent aangemeld als lid van team <strong>' || v_team.name || '</strong> voor '
+      || v_team.event_name || '.</p>'
+      || '<p>Je ticket staat op jouw naam en is te vinden onder je tickets.</p>',
+    _text_body =>
+      'Je bent aangemeld als lid van team ' || v_team.name || ' voor ' || v_team.event_name || '.',
+    _template_variables => jsonb_build_object(
+      'event_name', v_team.event_name,
+      'team_name', v_team.name
+    ),
+    _metadata => jsonb_build_object('team_id', v_team.id, 'team_member_id', v_member_id)
+  );
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'team_member_id', v_member_id,
+    'registration_id', v_registration_id,
+    'team_name', v_team.name,
+    'member_count', v_member_count + 1,
+    'slots', v_team.slots
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.join_team(TEXT, TEXT, TEXT, TEXT, JSONB) IS
+  'Public: join a team via its invite code with own participant data and registration answers.';
+
+GRANT EXECUTE ON FUNCTION public.join_team(TEXT, TEXT, TEXT, TEXT, JSONB) TO anon, authenticated;
+
+-- ===========================================================================
+-- 11. TRIGGER: store_attendee_answers_on_issue
+-- ===========================================================================
+-- Bij het uitgeven van een ticket (webhook of issue-tickets) worden de
+-- checkoutantwoorden van die ticketpositie registration_answers van de
+-- registratie van de orderregel. Fouten mogen het uitgeven niet blokkeren.
+
+CREATE OR REPLACE FUNCTION public.store_attendee_answers_on_issue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_answers JSONB;
+  v_registration_id UUID;
+BEGIN
+  SELECT a.answers INTO v_answers
+  FROM order_attendee_answers a
+  WHERE a.order_item_id = NEW.order_item_id
+    AND a.sequence_no = NEW.sequence_no;
+
+  IF v_answers IS NULL OR v_answers = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT r.id INTO v_registration_id
+  FROM registrations r
+  WHERE r.order_item_id = NEW.order_item_id
+    AND r.deleted_at IS NULL
+  LIMIT 1;
+
+  IF v_registration_id IS NULL THEN
+    RAISE WARNING 'F036: no registration for order item % (ticket %)', NEW.order_item_id, NEW.id;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO registration_answers (registration_id, question_id, answer_value, ticket_instance_id)
+  SELECT v_registration_id, q.id, v_answers->(q.id::TEXT), NEW.id
+  FROM registration_questions q
+  WHERE q.event_id = NEW.event_id
+    AND v_answers ? q.id::TEXT
+  ON CONFLICT (ticket_instance_id, question_id) WHERE ticket_instance_id IS NOT NULL DO NOTHING;
+
+  RETURN NEW;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'F036: storing attendee answers failed for ticket %: %', NEW.id, SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.store_attendee_answers_on_issue() IS
+  'F036: System: copy staged checkout answers of a ticket position into registration_answers.';
+
+DROP TRIGGER IF EXISTS store_attendee_answers_on_issue_trigger ON ticket_instances;
+CREATE TRIGGER store_attendee_answers_on_issue_trigger
+  AFTER INSERT ON ticket_instances
+  FOR EACH ROW
+  WHEN (NEW.order_item_id IS NOT NULL)
+  EXECUTE FUNCTION store_attendee_answers_on_issue();
+
+-- ===========================================================================
+-- VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'registration_questions' AND column_name = 'show_if'
+  ) THEN
+    RAISE EXCEPTION 'F036: registration_questions.show_if not created';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'registration_answers' AND column_name = 'ticket_instance_id'
+  ) THEN
+    RAISE EXCEPTION 'F036: registration_answers.ticket_instance_id not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'order_attendee_answers') THEN
+    RAISE EXCEPTION 'F036: order_attendee_answers table not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM storage.buckets WHERE id = 'registration-uploads') THEN
+    RAISE EXCEPTION 'F036: registration-uploads bucket not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'validate_registration_answers') THEN
+    RAISE EXCEPTION 'F036: validate_registration_answers not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'upsert_registration_question') THEN
+    RAISE EXCEPTION 'F036: upsert_registration_question not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'store_attendee_answers_on_issue_trigger') THEN
+    RAISE EXCEPTION 'F036: store_attendee_answers_on_issue_trigger not created';
+  END IF;
+
+  RAISE NOTICE 'F036: Registration question builder created successfully';
+END $$;
@@ -0,0 +1,1318 @@
+-- ===========================================================================
+-- F037: Participant Self-Service
+-- Migration: 20250130080000_f037_participant_self_service.sql
+--
+-- Purpose:
+-- - Deelnemers passen zelf hun gegevens (naam, telefoon, ...) en
+--   registratieantwoorden aan tot een instelbare deadline vóór de start,
+--   via het public token van hun bestelling of ingelogd (web en phone app)
+-- - Instellingen in het participants domein (self_service_*), nu ook als
+--   org/event config domein (config_domains, set_event_config)
+-- - prevent_answer_mutation laat wijzigingen alleen toe vanuit
+--   update_self_service_registration; elke wijziging komt in audit_log
+--   (PARTICIPANT_SELF_EDIT) met de oude en nieuwe waarden
+-- - Organisatoren zien de wijzigingen per tickettype (get_self_service_changes)
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. SETTINGS: participants als config domein
+-- ===========================================================================
+-- Het participants domein bestond alleen als event_settings domein (F011)
+-- zonder defaults in get_default_settings(text) en zonder RPC om het te
+-- zetten. Nu org- en eventbreed, met de zelfbedieningsinstellingen:
+-- self_service_enabled, self_service_cutoff_hours (uren vóór de start),
+-- self_service_fields (aanpasbare deelnemervelden) en self_service_answers.
+
+CREATE OR REPLACE FUNCTION public.config_domains()
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY[
+    'payments', 'transfers', 'communication', 'governance', 'legal',
+    'basic_info', 'content_communication', 'branding', 'waitlist',
+    'interest_list', 'ticket_pdf', 'ticket_privacy', 'participants'
+  ];
+$$;
+
+COMMENT ON FUNCTION public.config_domains() IS
+  'F021: Settings domains available at both org and event level. F037: includes participants.';
+
+ALTER TABLE public.org_settings DROP CONSTRAINT IF EXISTS org_settings_domain_check;
+
+ALTER TABLE public.org_settings
+  ADD CONSTRAINT org_settings_domain_check
+  CHECK (domain IN (
+    'payments', 'transfers', 'communication', 'governance', 'legal', 'basic_info',
+    'content_communication', 'branding', 'waitlist', 'interest_list', 'ticket_pdf',
+    'ticket_privacy', 'participants'
+  ));
+
+-- Velden van participants die een deelnemer zelf mag aanpassen
+CREATE OR REPLACE FUNCTION public.self_service_profile_fields()
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY['first_name', 'last_name', 'phone', 'birth_date', 'gender', 'address', 'city', 'country'];
+$$;
+
+COMMENT ON FUNCTION public.self_service_profile_fields() IS
+  'F037: Participant fields that can be allowed in participants.self_service_fields.';
+
+-- Ongewijzigd t.o.v. F035 behalve het participants domein (zie boven).
+
+CREATE OR REPLACE FUNCTION public.validate_setting_domain(_domain text, _value jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    _emails jsonb;
+    _email text;
+    _email_count int;
+    _sender jsonb;
+    _provider jsonb;
+    _resend jsonb;
+    _bulk jsonb;
+    _compliance jsonb;
+    _rate_limits jsonb;
+    _retry jsonb;
+BEGIN
+    CASE _domain
+        -- Existing domains (unchanged)
+        WHEN 'payments' THEN
+            IF (_value ? 'payment_profile_id') AND (_value->>'payment_profile_id' IS NOT NULL) THEN
+                IF NOT (_value->>'payment_profile_id' ~ '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$') THEN
+                    RAISE EXCEPTION 'Invalid payment_profile_id format';
+                END IF;
+            END IF;
+            IF (_value ? 'vat_rate') AND NOT (jsonb_typeof(_value->'vat_rate') = 'number') THEN
+                RAISE EXCEPTION 'vat_rate must be a number';
+            END IF;
+
+        WHEN 'transfers' THEN
+            IF (_value ? 'transfers_enabled') AND NOT (jsonb_typeof(_value->'transfers_enabled') = 'boolean') THEN
+                RAISE EXCEPTION 'transfers_enabled must be a boolean';
+            END IF;
+            IF (_value ? 'transfer_expiry_hours') AND NOT (jsonb_typeof(_value->'transfer_expiry_hours') = 'number') THEN
+                RAISE EXCEPTION 'transfer_expiry_hours must be a number';
+            END IF;
+            IF (_value ? 'cancel_roles') AND NOT (jsonb_typeof(_value->'cancel_roles') = 'array') THEN
+                RAISE EXCEPTION 'cancel_roles must be an array';
+            END IF;
+            -- F035: doorverkoop
+            IF (_value ? 'resale_enabled') AND NOT (jsonb_typeof(_value->'resale_enabled') = 'boolean') THEN
+                RAISE EXCEPTION 'resale_enabled must be a boolean';
+            END IF;
+            IF (_value ? 'resale_max_price_pct') THEN
+                PERFORM public.validate_number_range(_value->'resale_max_price_pct', 'resale_max_price_pct', 1, 100);
+            END IF;
+            IF (_value ? 'resale_fee_pct') THEN
+                PERFORM public.validate_number_range(_value->'resale_fee_pct', 'resale_fee_pct', 0, 50);
+            END IF;
+
+        -- UPDATED: communication domain with extended settings
+        WHEN 'communication' THEN
+            -- Legacy settings (backward compatible)
+            IF (_value ? 'reply_to_email') AND (_value->>'reply_to_email' IS NOT NULL) AND (_value->>'reply_to_email' != '') THEN
+                IF NOT public.is_valid_email_format(_value->>'reply_to_email') THEN
+                    RAISE EXCEPTION 'reply_to_email must be a valid email address';
+                END IF;
+            END IF;
+            IF (_value ? 'default_locale') AND NOT (_value->>'default_locale' IN ('nl', 'en', 'fr')) THEN
+                RAISE EXCEPTION 'default_locale must be nl, en, or fr';
+            END IF;
+
+            -- NEW: sender settings (nested object)
+            IF _value ? 'sender' THEN
+                _sender := _value->'sender';
+
+                IF jsonb_typeof(_sender) != 'object' THEN
+                    RAISE EXCEPTION 'sender must be an object';
+                END IF;
+
+                -- sender.default_from_name (string, optional)
+                IF (_sender ? 'default_from_name') AND (_sender->>'default_from_name' IS NOT NULL) THEN
+                    IF jsonb_typeof(_sender->'default_from_name') != 'string' THEN
+                        RAISE EXCEPTION 'sender.default_from_name must be a string';
+                    END IF;
+                END IF;
+
+                -- sender.default_from_email (string, email format, optional)
+                IF (_sender ? 'default_from_email') AND (_sender->>'default_from_email' IS NOT NULL) AND (_sender->>'default_from_email' != '') THEN
+                    IF NOT public.is_valid_email_format(_sender->>'default_from_email') THEN
+                        RAISE EXCEPTION 'sender.default_from_email must be a valid email address';
+                    END IF;
+                END IF;
+
+                -- sender.default_reply_to (string, email format, optional)
+                IF (_sender ? 'default_reply_to') AND (_sender->>'default_reply_to' IS NOT NULL) AND (_sender->>'default_reply_to' != '') THEN
+                    IF NOT public.is_valid_email_format(_sender->>'default_reply_to') THEN
+                        RAISE EXCEPTION 'sender.default_reply_to must be a valid email address';
+                    END IF;
+                END IF;
+            END IF;
+
+            -- NEW: provider settings (nested object)
+            IF _value ? 'provider' THEN
+                _provider := _value->'provider';
+
+                IF jsonb_typeof(_provider) != 'object' THEN
+                    RAISE EXCEPTION 'provider must be an object';
+                END IF;
+
+                -- provider.resend (nested object)
+                IF _provider ? 'resend' THEN
+                    _resend := _provider->'resend';
+
+                    IF jsonb_typeof(_resend) != 'object' THEN
+                        RAISE EXCEPTION 'provider.resend must be an object';
+                    END IF;
+
+                    -- provider.resend.enabled (boolean)
+                    IF (_resend ? 'enabled') AND (jsonb_typeof(_resend->'enabled') != 'boolean') THEN
+                        RAISE EXCEPTION 'provider.resend.enabled must be a boolean';
+                    END IF;
+
+                    -- provider.resend.api_key_ref (string)
+                    IF (_resend ? 'api_key_ref') AND (_resend->>'api_key_ref' IS NOT NULL) THEN
+                        IF jsonb_typeof(_resend->'api_key_ref') != 'string' THEN
+                            RAISE EXCEPTION 'provider.resend.api_key_ref must be a string';
+                        END IF;
+                    END IF;
+                END IF;
+            END IF;
+
+            -- NEW: bulk settings (nested object)
+            IF _value ? 'bulk' THEN
+                _bulk := _value->'bulk';
+
+                IF jsonb_typeof(_bulk) != 'object' THEN
+                    RAISE EXCEPTION 'bulk must be an object';
+                END IF;
+
+                -- bulk.batch_size (number, 1-500)
+                IF _bulk ? 'batch_size' THEN
+                    PERFORM public.validate_number_range(_bulk->'batch_size', 'bulk.batch_size', 1, 500);
+                END IF;
+
+                -- bulk.delay_between_batches_ms (number, 100-10000)
+                IF _bulk ? 'delay_between_batches_ms' THEN
+                    PERFORM public.validate_number_range(_bulk->'delay_between_batches_ms', 'bulk.delay_between_batches_ms', 100, 10000);
+                END IF;
+
+                -- bulk.max_recipients_per_campaign (number, 1-100000)
+                IF _bulk ? 'max_recipients_per_campaign' THEN
+                    PERFORM public.validate_number_range(_bulk->'max_recipients_per_campaign', 'bulk.max_recipients_per_campaign', 1, 100000);
+                END IF;
+            END IF;
+
+            -- NEW: compliance settings (nested object)
+            IF _value ? 'compliance' THEN
+                _compliance := _value->'compliance';
+
+                IF jsonb_typeof(_compliance) != 'object' THEN
+                    RAISE EXCEPTION 'compliance must be an object';
+                END IF;
+
+                -- compliance.unsubscribe_enabled (boolean)
+                IF (_compliance ? 'unsubscribe_enabled') AND (jsonb_typeof(_compliance->'unsubscribe_enabled') != 'boolean') THEN
+                    RAISE EXCEPTION 'compliance.unsubscribe_enabled must be a boolean';
+                END IF;
+
+                -- compliance.bounce_threshold (number, 1-10)
+                IF _compliance ? 'bounce_threshold' THEN
+                    PERFORM public.validate_number_range(_compliance->'bounce_threshold', 'compliance.bounce_threshold', 1, 10);
+                END IF;
+
+                -- compliance.complaint_threshold (number, 1-5)
+                IF _compliance ? 'complaint_threshold' THEN
+                    PERFORM public.validate_number_range(_compliance->'complaint_threshold', 'compliance.complaint_threshold', 1, 5);
+                END IF;
+            END IF;
+
+            -- NEW: rate_limits settings (nested object)
+            IF _value ? 'rate_limits' THEN
+                _rate_limits := _value->'rate_limits';
+
+                IF jsonb_typeof(_rate_limits) != 'object' THEN
+                    RAISE EXCEPTION 'rate_limits must be an object';
+                END IF;
+
+                -- rate_limits.emails_per_minute (number, 1-1000)
+                IF _rate_limits ? 'emails_per_minute' THEN
+                    PERFORM public.validate_number_range(_rate_limits->'emails_per_minute', 'rate_limits.emails_per_minute', 1, 1000);
+                END IF;
+
+                -- rate_limits.emails_per_hour (number, 1-50000)
+                IF _rate_limits ? 'emails_per_hour' THEN
+                    PERFORM public.validate_number_range(_rate_limits->'emails_per_hour', 'rate_limits.emails_per_hour', 1, 50000);
+                END IF;
+            END IF;
+
+            -- NEW: retry settings (nested object)
+            IF _value ? 'retry' THEN
+                _retry := _value->'retry';
+
+                IF jsonb_typeof(_retry) != 'object' THEN
+                    RAISE EXCEPTION 'retry must be an object';
+                END IF;
+
+                -- retry.max_attempts (number, 1-10)
+                IF _retry ? 'max_attempts' THEN
+                    PERFORM public.validate_number_range(_retry->'max_attempts', 'retry.max_attempts', 1, 10);
+                END IF;
+
+                -- retry.initial_delay_ms (number, 1000-600000)
+                IF _retry ? 'initial_delay_ms' THEN
+                    PERFORM public.validate_number_range(_retry->'initial_delay_ms', 'retry.initial_delay_ms', 1000, 600000);
+                END IF;
+
+                -- retry.backoff_multiplier (number, 1-5)
+                IF _retry ? 'backoff_multiplier' THEN
+                    PERFORM public.validate_number_range(_retry->'backoff_multiplier', 'retry.backoff_multiplier', 1, 5);
+                END IF;
+            END IF;
+
+        WHEN 'governance' THEN
+            IF (_value ? 'is_private') AND NOT (jsonb_typeof(_value->'is_private') = 'boolean') THEN
+                RAISE EXCEPTION 'is_private must be a boolean';
+            END IF;
+
+        WHEN 'legal' THEN
+            IF (_value ? 'mode') THEN
+                IF NOT (_value->>'mode' IN ('none', 'pdf', 'url', 'inline_text')) THEN
+                    RAISE EXCEPTION 'terms mode must be none, pdf, url, or inline_text';
+                END IF;
+            END IF;
+            IF (_value ? 'pdf_file_id') AND (_value->>'pdf_file_id' IS NOT NULL) AND (_value->>'pdf_file_id' != '') THEN
+                IF NOT (_value->>'pdf_file_id' ~ '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$') THEN
+                    RAISE EXCEPTION 'pdf_file_id must be a valid UUID';
+                END IF;
+            END IF;
+            IF (_value ? 'url') AND (_value->>'url' IS NOT NULL) AND NOT (jsonb_typeof(_value->'url') = 'string') THEN
+                RAISE EXCEPTION 'url must be a string';
+            END IF;
+            IF (_value ? 'inline_text') AND (_value->'inline_text' IS NOT NULL) AND NOT (jsonb_typeof(_value->'inline_text') = 'object') THEN
+                RAISE EXCEPTION 'inline_text must be an object with locale keys';
+            END IF;
+
+        WHEN 'basic_info' THEN
+            IF _value ? 'name' THEN
+                PERFORM public.validate_locale_object(_value->'name', 'name', false);
+            END IF;
+            IF _value ? 'description' THEN
+                PERFORM public.validate_locale_object(_value->'description', 'description', false);
+            END IF;
+            IF (_value ? 'contact_email') AND (_value->>'contact_email' IS NOT NULL) AND (_value->>'contact_email' != '') THEN
+                IF NOT public.is_valid_email_format(_value->>'contact_email') THEN
+                    RAISE EXCEPTION 'contact_email must be a valid email address';
+                END IF;
+            END IF;
+            IF (_value ? 'website') AND NOT (jsonb_typeof(_value->'website') IN ('string', 'null')) THEN
+                RAISE EXCEPTION 'website must be a string';
+            END IF;
+
+        WHEN 'content_communication' THEN
+            IF _value ? 'checkout_message' THEN
+                PERFORM public.validate_locale_object(_value->'checkout_message', 'checkout_message', false);
+            END IF;
+            IF _value ? 'email_subject' THEN
+                PERFORM public.validate_locale_object(_value->'email_subject', 'email_subject', false);
+            END IF;
+            IF _value ? 'email_body' THEN
+                PERFORM public.validate_locale_object(_value->'email_body', 'email_body', false);
+            END IF;
+            IF _value ? 'extra_recipients' THEN
+                _emails := _value->'extra_recipients';
+
+                IF jsonb_typeof(_emails) != 'array' THEN
+                    RAISE EXCEPTION 'extra_recipients must be an array';
+                END IF;
+
+                _email_count := jsonb_array_length(_emails);
+
+                IF _email_count > 5 THEN
+                    RAISE EXCEPTION 'extra_recipients cannot exceed 5 addresses (got %)', _email_count;
+                END IF;
+
+                FOR _email IN SELECT jsonb_array_elements_text(_emails)
+                LOOP
+                    IF NOT public.is_valid_email_format(_email) THEN
+                        RAISE EXCEPTION 'Invalid email in extra_recipients: %', _email;
+                    END IF;
+                END LOOP;
+
+                IF (SELECT COUNT(*) FROM (SELECT DISTINCT jsonb_array_elements_text(_emails)) t) != _email_count THEN
+                    RAISE EXCEPTION 'extra_recipients contains duplicates';
+                END IF;
+            END IF;
+
+        -- F037: zelfbediening van deelnemers
+        WHEN 'participants' THEN
+            IF (_value ? 'self_service_enabled') AND NOT (jsonb_typeof(_value->'self_service_enabled') = 'boolean') THEN
+                RAISE EXCEPTION 'self_service_enabled must be a boolean';
+            END IF;
+            IF (_value ? 'self_service_cutoff_hours') THEN
+                PERFORM public.validate_number_range(_value->'self_service_cutoff_hours', 'self_service_cutoff_hours', 0, 720);
+            END IF;
+            IF (_value ? 'self_service_fields') THEN
+                IF jsonb_typeof(_value->'self_service_fields') != 'array' THEN
+                    RAISE EXCEPTION 'self_service_fields must be an array';
+                END IF;
+                IF EXISTS (
+                    SELECT 1 FROM jsonb_array_elements_text(_value->'self_service_fields') f
+                    WHERE NOT (f = ANY (public.self_service_profile_fields()))
+                ) THEN
+                    RAISE EXCEPTION 'self_service_fields may only contain: %', array_to_string(public.self_service_profile_fields(), ', ');
+                END IF;
+            END IF;
+            IF (_value ? 'self_service_answers') AND NOT (jsonb_typeof(_value->'self_service_answers') = 'boolean') THEN
+                RAISE EXCEPTION 'self_service_answers must be a boolean';
+            END IF;
+
+        ELSE
+            RAISE EXCEPTION 'Unknown domain: %', _domain;
+    END CASE;
+
+    RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_default_settings(_domain text)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    CASE _domain
+        WHEN 'payments' THEN
+            RETURN jsonb_build_object(
+                'payment_profile_id', null,
+                'invoice_prefix', '',
+                'vat_number', '',
+                'vat_rate', 21
+            );
+        WHEN 'transfers' THEN
+            RETURN jsonb_build_object(
+                'transfers_enabled', true,
+                'transfer_expiry_hours', 48,
+                'cancel_roles', jsonb_build_array('owner', 'admin', 'support'),
+                -- F035: doorverkoop
+                'resale_enabled', false,
+                'resale_max_price_pct', 100,
+                'resale_fee_pct', 5
+            );
+        -- UPDATED: communication domain with extended defaults
+        WHEN 'communication' THEN
+            RETURN jsonb_build_object(
+                -- Legacy fields (backward compatible)
+                'reply_to_email', '',
+                'default_locale', 'nl',
+                'confirmation_message', '',
+                -- NEW: sender configuration
+                'sender', jsonb_build_object(
+                    'default_from_name', '',
+                    'default_from_email', 'noreply@coloss.nl',
+                    'default_reply_to', null
+                ),
+                -- NEW: provider configuration
+                'provider', jsonb_build_object(
+                    'resend', jsonb_build_object(
+                        'enabled', true,
+                        'api_key_ref', 'env:RESEND_API_KEY'
+                    )
+                ),
+                -- NEW: bulk processing settings
+                'bulk', jsonb_build_object(
+                    'batch_size', 100,
+                    'delay_between_batches_ms', 1000,
+                    'max_recipients_per_campaign', 10000
+                ),
+                -- NEW: compliance settings (GDPR)
+                'compliance', jsonb_build_object(
+                    'unsubscribe_enabled', true,
+                    'bounce_threshold', 3,
+                    'complaint_threshold', 1
+                ),
+                -- NEW: rate limiting
+                'rate_limits', jsonb_build_object(
+                    'emails_per_minute', 100,
+                    'emails_per_hour', 5000
+                ),
+                -- NEW: retry configuration
+                'retry', jsonb_build_object(
+                    'max_attempts', 3,
+                    'initial_delay_ms', 60000,
+                    'backoff_multiplier', 2
+                )
+            );
+        WHEN 'governance' THEN
+            RETURN jsonb_build_object(
+                'is_private', false
+            );
+        WHEN 'legal' THEN
+            RETURN jsonb_build_object(
+                'mode', 'none',
+                'pdf_file_id', null,
+                'url', null,
+                'inline_text', null
+            );
+        WHEN 'basic_info' THEN
+            RETURN jsonb_build_object(
+                'name', jsonb_build_object('nl', ''),
+                'description', jsonb_build_object('nl', ''),
+                'contact_email', null,
+                'website', null
+            );
+        WHEN 'content_communication' THEN
+            RETURN jsonb_build_object(
+                'checkout_message', jsonb_build_object('nl', 'Bedankt voor je inschrijving!', 'en', 'Thank you for registering!'),
+                'email_subject', jsonb_build_object('nl', 'Bevestiging inschrijving', 'en', 'Registration confirmation'),
+                'email_body', jsonb_build_object('nl', '', 'en', ''),
+                'extra_recipients', jsonb_build_array()
+            );
+        -- F037: zelfbediening van deelnemers
+        WHEN 'participants' THEN
+            RETURN jsonb_build_object(
+                'self_service_enabled', false,
+                'self_service_cutoff_hours', 48,
+                'self_service_fields', jsonb_build_array('first_name', 'last_name', 'phone'),
+                'self_service_answers', true
+            );
+        ELSE
+            RETURN '{}'::jsonb;
+    END CASE;
+END;
+$$;
+
+
+COMMENT ON FUNCTION public.validate_setting_domain IS 'Validates setting values for a given domain. Extended in 20250127000002 with communication email system settings, in F035 with the transfers resale settings and in F037 with the participants self-service settings.';
+COMMENT ON FUNCTION public.get_default_settings(text) IS 'Returns default settings for a given domain. Extended in 20250127000002 with communication email system defaults, in F035 with the transfers resale defaults and in F037 with the participants self-service defaults.';
+
+-- ===========================================================================
+-- 2. RPC: set_event_config / reset_event_config_domain / get_event_config_permissions
+-- ===========================================================================
+-- Ongewijzigd t.o.v. 20240121000009 behalve: de RBAC check per domein via
+-- config_domains() en can_edit_config_domain (F021) in plaats van een eigen
+-- CASE, zodat participants (owner/admin) een bekend domein is.
+
+CREATE OR REPLACE FUNCTION public.set_event_config(
+    _event_id uuid,
+    _domain text,
+    _patch jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _org_id uuid;
+    _role text;
+    _current_override jsonb;
+    _new_override jsonb;
+    _merged_config jsonb;
+BEGIN
+    SELECT org_id INTO _org_id FROM public.events WHERE id = _event_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event not found: %', _event_id;
+    END IF;
+
+    SELECT role INTO _role
+    FROM public.org_members
+    WHERE org_id = _org_id AND user_id = auth.uid();
+
+    IF _role IS NULL THEN
+        RAISE EXCEPTION 'Not authorized: not a member of this organization';
+    END IF;
+
+    IF NOT (_domain = ANY (public.config_domains())) THEN
+        RAISE EXCEPTION 'Unknown domain: %', _domain;
+    END IF;
+
+    IF NOT public.can_edit_config_domain(_role, _domain) THEN
+        RAISE EXCEPTION 'Permission denied: % cannot edit % settings', _role, _domain;
+    END IF;
+
+    PERFORM public.validate_setting_domain(_domain, _patch);
+
+    SELECT setting_value INTO _current_override
+    FROM public.event_settings
+    WHERE event_id = _event_id AND domain = _domain;
+
+    IF _current_override IS NULL THEN
+        _current_override := '{}'::jsonb;
+    END IF;
+
+    _new_override := _current_override || _patch;
+
+    INSERT INTO public.event_settings (event_id, domain, setting_value, updated_by, updated_at)
+    VALUES (_event_id, _domain, _new_override, auth.uid(), now())
+    ON CONFLICT (event_id, domain)
+    DO UPDATE SET
+        setting_value = EXCLUDED.setting_value,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = EXCLUDED.updated_at;
+
+    INSERT INTO public.audit_log (
+        org_id, actor_user_id, action, resource_type, resource_id,
+        entity_type, entity_id, before_state, after_state, metadata
+    ) VALUES (
+        _org_id,
+        auth.uid(),
+        'CONFIG_UPDATED',
+        'event',
+        _event_id,
+        'event_config',
+        _event_id,
+        jsonb_build_object('override', _current_override),
+        jsonb_build_object('override', _new_override, 'patch', _patch),
+        jsonb_build_object('domain', _domain)
+    );
+
+    SELECT public.get_event_config(_event_id) INTO _merged_config;
+    RETURN _merged_config;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_event_config_domain(
+    _event_id uuid,
+    _domain text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _org_id uuid;
+    _role text;
+    _old_override jsonb;
+    _merged_config jsonb;
+BEGIN
+    SELECT org_id INTO _org_id FROM public.events WHERE id = _event_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Event not found: %', _event_id;
+    END IF;
+
+    SELECT role INTO _role
+    FROM public.org_members
+    WHERE org_id = _org_id AND user_id = auth.uid();
+
+    IF _role IS NULL THEN
+        RAISE EXCEPTION 'Not authorized: not a member of this organization';
+    END IF;
+
+    IF NOT (_domain = ANY (public.config_domains())) THEN
+        RAISE EXCEPTION 'Unknown domain: %', _domain;
+    END IF;
+
+    IF NOT public.can_edit_config_domain(_role, _domain) THEN
+        RAISE EXCEPTION 'Permission denied: % cannot reset % settings', _role, _domain;
+    END IF;
+
+    SELECT setting_value INTO _old_override
+    FROM public.event_settings
+    WHERE event_id = _event_id AND domain = _domain;
+
+    DELETE FROM public.event_settings
+    WHERE event_id = _event_id AND domain = _domain;
+
+    IF _old_override IS NOT NULL THEN
+        INSERT INTO public.audit_log (
+            org_id, actor_user_id, action, resource_type, resource_id,
+            entity_type, entity_id, before_state, after_state, metadata
+        ) VALUES (
+            _org_id,
+            auth.uid(),
+            'CONFIG_RESET',
+            'event',
+            _event_id,
+            'event_config',
+            _event_id,
+            jsonb_build_object('override', _old_override),
+            NULL,
+            jsonb_build_object('domain', _domain)
+        );
+    END IF;
+
+    SELECT public.get_event_config(_event_id) INTO _merged_config;
+    RETURN _merged_config;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_event_config_permissions(_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _org_id uuid;
+    _role text;
+    _result jsonb;
+    _domain text;
+BEGIN
+    SELECT org_id INTO _org_id FROM public.events WHERE id = _event_id;
+    IF NOT FOUND THEN RETURN NULL; END IF;
+
+    SELECT role INTO _role
+    FROM public.org_members
+    WHERE org_id = _org_id AND user_id = auth.uid();
+
+    IF _role IS NULL THEN RETURN NULL; END IF;
+
+    _result := jsonb_build_object('role', _role);
+
+    FOREACH _domain IN ARRAY public.config_domains()
+    LOOP
+        _result := _result || jsonb_build_object('can_edit_' || _domain, public.can_edit_config_domain(_role, _domain));
+    END LOOP;
+
+    RETURN _result;
+END;
+$$;
+
+-- ===========================================================================
+-- 3. TRIGGER: validate_event_settings (setting_value)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F007 behalve: de kolom heet setting_value (zie de
+-- hotfix 20250127220000); met NEW.settings faalde elke participants rij.
+
+CREATE OR REPLACE FUNCTION validate_event_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Domain-specific validation
+  CASE NEW.domain
+    WHEN 'participants' THEN
+      PERFORM validate_participants_settings(NEW.setting_value);
+    WHEN 'tickets' THEN
+      PERFORM validate_tickets_settings(NEW.setting_value);
+    WHEN 'scanning' THEN
+      PERFORM validate_scanning_settings(NEW.setting_value);
+    WHEN 'communication' THEN
+      -- Communication validation (existing)
+      NULL;
+    ELSE
+      -- No specific validation for other domains
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ===========================================================================
+-- 4. TRIGGER: prevent_answer_mutation (zelfbediening)
+-- ===========================================================================
+-- Antwoorden blijven append-only, behalve binnen de transactie van
+-- update_self_service_registration: die zet coloss.self_service_edit
+-- (set_config, transaction-local) en logt elke wijziging in audit_log.
+
+CREATE OR REPLACE FUNCTION public.prevent_answer_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_setting('coloss.self_service_edit', true) = 'on' THEN
+        RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+    END IF;
+
+    IF (TG_OP = 'UPDATE') THEN
+        RAISE EXCEPTION 'Answers are immutable (UPDATE blocked)'
+            USING ERRCODE = '42501'; -- insufficient_privilege
+    END IF;
+
+    IF (TG_OP = 'DELETE') THEN
+        RAISE EXCEPTION 'Answers are immutable (DELETE blocked)'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.prevent_answer_mutation() IS
+  'Registration answers are append-only. F037: except within update_self_service_registration (coloss.self_service_edit).';
+
+-- ===========================================================================
+-- 5. HELPERS: self_service_registration_ids / self_service_state
+-- ===========================================================================
+-- Toegang: met het public token van een bestelling alle registraties van
+-- die bestelling, anders (ingelogd) de registraties van de eigen deelnemer.
+
+CREATE OR REPLACE FUNCTION public.self_service_registration_ids(_event_id UUID, _public_token TEXT)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id
+  FROM registrations r
+  JOIN participants p ON p.id = r.participant_id
+  LEFT JOIN order_items oi ON oi.id = r.order_item_id
+  LEFT JOIN orders o ON o.id = oi.order_id
+  WHERE r.event_id = _event_id
+    AND r.deleted_at IS NULL
+    AND r.status NOT IN ('cancelled', 'transferred')
+    AND CASE
+      WHEN _public_token IS NOT NULL
+        THEN o.public_token_hash = encode(extensions.digest(_public_token, 'sha256'), 'hex')
+      ELSE auth.uid() IS NOT NULL AND p.user_id = auth.uid()
+    END;
+$$;
+
+COMMENT ON FUNCTION public.self_service_registration_ids(UUID, TEXT) IS
+  'F037: System: registrations of an event the caller may edit (order public token, or own participant when logged in).';
+
+REVOKE ALL ON FUNCTION public.self_service_registration_ids(UUID, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.self_service_registration_ids(UUID, TEXT) TO service_role;
+
+-- Effectieve zelfbedieningsinstellingen van een event; locked_reason is
+-- gezet zodra wijzigen niet (meer) mag
+CREATE OR REPLACE FUNCTION public.self_service_state(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+  v_start_time TIMESTAMPTZ;
+  v_enabled BOOLEAN;
+  v_cutoff_at TIMESTAMPTZ;
+BEGIN
+  SELECT start_time INTO v_start_time FROM events WHERE id = _event_id;
+
+  v_settings := public.resolve_event_setting(_event_id, 'participants');
+  v_enabled := COALESCE((v_settings->>'self_service_enabled')::BOOLEAN, false);
+  v_cutoff_at := v_start_time
+    - COALESCE((v_settings->>'self_service_cutoff_hours')::NUMERIC, 48) * INTERVAL '1 hour';
+
+  RETURN jsonb_build_object(
+    'enabled', v_enabled,
+    'cutoff_at', v_cutoff_at,
+    'fields', COALESCE((
+      SELECT jsonb_agg(f)
+      FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(v_settings->'self_service_fields') = 'array'
+          THEN v_settings->'self_service_fields' ELSE '[]'::jsonb END
+      ) f
+      WHERE f = ANY (public.self_service_profile_fields())
+    ), '[]'::jsonb),
+    'answers', COALESCE((v_settings->>'self_service_answers')::BOOLEAN, true),
+    'locked_reason', CASE
+      WHEN NOT v_enabled THEN 'SELF_SERVICE_DISABLED'
+      WHEN v_cutoff_at IS NOT NULL AND NOW() >= v_cutoff_at THEN 'CUTOFF_PASSED'
+    END
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.self_service_state(UUID) IS
+  'F037: System: effective participants self-service settings of an event with the cutoff moment and lock reason.';
+
+REVOKE ALL ON FUNCTION public.self_service_state(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.self_service_state(UUID) TO service_role;
+
+-- ===========================================================================
+-- 6. RPC: get_self_service_registrations (public)
+-- ===========================================================================
+-- Pagina /e/:slug/manage (?token=) en de phone app. Slugs zijn uniek per
+-- org; bij dubbele slugs wint het event met een eigen registratie (F022).
+-- Antwoorden per ticket (F036); registraties zonder tickets (teamleden,
+-- oude inschrijvingen) hebben één set zonder ticket_instance_id.
+
+CREATE OR REPLACE FUNCTION public.get_self_service_registrations(
+  _event_slug TEXT,
+  _public_token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event RECORD;
+  v_registrations JSONB;
+BEGIN
+  IF _public_token IS NULL AND auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT e.id, e.name, e.slug, e.start_time, o.name AS org_name
+  INTO v_event
+  FROM events e
+  JOIN orgs o ON o.id = e.org_id
+  WHERE e.slug = _event_slug
+    AND e.status <> 'draft'
+    AND e.deleted_at IS NULL
+  ORDER BY EXISTS (SELECT 1 FROM public.self_service_registration_ids(e.id, _public_token)) DESC,
+           e.start_time DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'id', r.id,
+    'ticket_type_id', r.ticket_type_id,
+    'ticket_name', tt.name,
+    'status', r.status,
+    'participant', jsonb_build_object(
+      'email', p.email,
+      'first_name', p.first_name,
+      'last_name', p.last_name,
+      'phone', p.phone,
+      'birth_date', p.birth_date,
+      'gender', p.gender,
+      'address', p.address,
+      'city', p.city,
+      'country', p.country
+    ),
+    'answer_sets', COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object(
+          'ticket_instance_id', ti.id,
+          'ticket_type_id', ti.ticket_type_id,
+          'answers', COALESCE((
+            SELECT jsonb_object_agg(a.question_id, a.answer_value)
+            FROM registration_answers a
+            WHERE a.registration_id = r.id AND a.ticket_instance_id = ti.id
+          ), '{}'::jsonb)
+        ) ORDER BY ti.sequence_no, ti.created_at)
+        FROM ticket_instances ti
+        WHERE ti.order_item_id = r.order_item_id
+          AND ti.status <> 'void'
+          AND ti.deleted_at IS NULL
+      ),
+      jsonb_build_array(jsonb_build_object(
+        'ticket_instance_id', NULL,
+        'ticket_type_id', r.ticket_type_id,
+        'answers', COALESCE((
+          SELECT jsonb_object_agg(a.question_id, a.answer_value)
+          FROM registration_answers a
+          WHERE a.registration_id = r.id AND a.ticket_instance_id IS NULL
+        ), '{}'::jsonb)
+      ))
+    )
+  ) ORDER BY tt.name, r.created_at)
+  INTO v_registrations
+  FROM registrations r
+  JOIN participants p ON p.id = r.participant_id
+  LEFT JOIN ticket_types tt ON tt.id = r.ticket_type_id
+  WHERE r.id IN (SELECT public.self_service_registration_ids(v_event.id, _public_token));
+
+  IF v_registrations IS NULL THEN
+    RETURN jsonb_build_object('error', 'NOT_REGISTERED');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'event', jsonb_build_object(
+      'id', v_event.id,
+      'name', v_event.name,
+      'slug', v_event.slug,
+      'start_time', v_event.start_time,
+      'org_name', v_event.org_name
+    ),
+    'self_service', public.self_service_state(v_event.id),
+    'registrations', v_registrations,
+    'questions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', q.id,
+        'ticket_type_id', q.ticket_type_id,
+        'question_type', q.question_type,
+        'label', q.label,
+        'description', q.description,
+        'options', q.options,
+        'is_required', q.is_required,
+        'is_medical', q.is_medical,
+        'validation', q.validation,
+        'show_if', q.show_if,
+        'sort_order', q.sort_order
+      ) ORDER BY q.sort_order, q.created_at)
+      FROM registration_questions q
+      WHERE q.event_id = v_event.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_self_service_registrations(TEXT, TEXT) IS
+  'F037: Public: own registrations of an event (participant details, answers per ticket, questions) with the self-service state; order public token or login.';
+
+GRANT EXECUTE ON FUNCTION public.get_self_service_registrations(TEXT, TEXT) TO anon, authenticated;
+
+-- ===========================================================================
+-- 7. RPC: update_self_service_registration (public)
+-- ===========================================================================
+-- _profile: alleen velden uit participants.self_service_fields. Deelnemers
+-- zijn org-overstijgend (uniek op e-mail): een nieuwe naam geldt dus ook
+-- voor andere inschrijvingen van dezelfde persoon. E-mail is niet aanpasbaar.
+-- _answers: patch op de antwoorden van één ticket (null = antwoord wissen);
+-- de hele set wordt opnieuw gevalideerd zoals bij de checkout, zodat
+-- show-if vervolgvragen meeschuiven. Alleen echte wijzigingen worden
+-- opgeslagen en gelogd.
+
+CREATE OR REPLACE FUNCTION public.update_self_service_registration(
+  _registration_id UUID,
+  _profile JSONB DEFAULT NULL,
+  _answers JSONB DEFAULT NULL,
+  _ticket_instance_id UUID DEFAULT NULL,
+  _public_token TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reg RECORD;
+  v_state JSONB;
+  v_participant JSONB;
+  v_key TEXT;
+  v_value JSONB;
+  v_text TEXT;
+  v_date DATE;
+  v_invalid BOOLEAN;
+  v_ticket_type_id UUID;
+  v_current JSONB;
+  v_result JSONB;
+  v_clean JSONB;
+  v_before_profile JSONB := '{}'::jsonb;
+  v_after_profile JSONB := '{}'::jsonb;
+  v_before_answers JSONB := '{}'::jsonb;
+  v_after_answers JSONB := '{}'::jsonb;
+BEGIN
+  IF _public_token IS NULL AND auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT r.id, r.event_id, r.participant_id, r.ticket_type_id, r.order_item_id, e.org_id
+  INTO v_reg
+  FROM registrations r
+  JOIN events e ON e.id = r.event_id
+  WHERE r.id = _registration_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'REGISTRATION_NOT_FOUND');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.self_service_registration_ids(v_reg.event_id, _public_token) s
+    WHERE s = _registration_id
+  ) THEN
+    RETURN jsonb_build_object('error', 'REGISTRATION_NOT_FOUND');
+  END IF;
+
+  v_state := public.self_service_state(v_reg.event_id);
+
+  IF v_state->>'locked_reason' IS NOT NULL THEN
+    RETURN jsonb_build_object('error', v_state->>'locked_reason', 'cutoff_at', v_state->'cutoff_at');
+  END IF;
+
+  -- Deelnemergegevens
+  IF _profile IS NOT NULL AND jsonb_typeof(_profile) <> 'object' THEN
+    RETURN jsonb_build_object('error', 'INVALID_FIELD');
+  END IF;
+
+  SELECT to_jsonb(p) INTO v_participant FROM participants p WHERE p.id = v_reg.participant_id;
+
+  FOR v_key, v_value IN SELECT * FROM jsonb_each(COALESCE(_profile, '{}'::jsonb))
+  LOOP
+    IF NOT (v_state->'fields' ? v_key) THEN
+      RETURN jsonb_build_object('error', 'FIELD_NOT_EDITABLE', 'field', v_key);
+    END IF;
+
+    v_invalid := jsonb_typeof(v_value) NOT IN ('string', 'null');
+    v_text := NULLIF(trim(v_value #>> '{}'), '');
+
+    IF NOT v_invalid THEN
+      CASE v_key
+        WHEN 'first_name', 'last_name' THEN
+          v_invalid := v_text IS NULL OR length(v_text) > 100;
+        WHEN 'phone' THEN
+          v_invalid := v_text IS NOT NULL AND v_text !~ '^\+?[0-9 ()-]{6,20}$';
+        WHEN 'birth_date' THEN
+          IF v_text IS NOT NULL THEN
+            BEGIN
+              v_date := v_text::DATE;
+            EXCEPTION WHEN others THEN
+              v_date := NULL;
+            END;
+            v_invalid := v_date IS NULL OR v_date < DATE '1900-01-01' OR v_date > CURRENT_DATE;
+            v_text := v_date::TEXT;
+          END IF;
+        WHEN 'gender' THEN
+          v_invalid := v_text IS NOT NULL AND v_text NOT IN ('M', 'F', 'X', 'O');
+        WHEN 'country' THEN
+          v_invalid := v_text IS NOT NULL AND v_text !~ '^[A-Za-z]{2}$';
+          v_text := upper(v_text);
+        ELSE
+          v_invalid := v_text IS NOT NULL AND length(v_text) > 200;
+      END CASE;
+    END IF;
+
+    IF v_invalid THEN
+      RETURN jsonb_build_object('error', 'INVALID_FIELD', 'field', v_key);
+    END IF;
+
+    IF (v_participant->>v_key) IS DISTINCT FROM v_text THEN
+      v_before_profile := v_before_profile || jsonb_build_object(v_key, v_participant->v_key);
+      v_after_profile := v_after_profile || jsonb_build_object(v_key, v_text);
+    END IF;
+  END LOOP;
+
+  -- Registratieantwoorden van één ticket
+  v_ticket_type_id := v_reg.ticket_type_id;
+
+  IF _answers IS NOT NULL THEN
+    IF NOT (v_state->>'answers')::BOOLEAN THEN
+      RETURN jsonb_build_object('error', 'FIELD_NOT_EDITABLE', 'field', 'answers');
+    END IF;
+
+    IF jsonb_typeof(_answers) <> 'object' THEN
+      RETURN jsonb_build_object('error', 'INVALID_ANSWER', 'reason', 'INVALID_TYPE');
+    END IF;
+
+    IF _ticket_instance_id IS NOT NULL THEN
+      SELECT ti.ticket_type_id INTO v_ticket_type_id
+      FROM ticket_instances ti
+      WHERE ti.id = _ticket_instance_id
+        AND ti.order_item_id = v_reg.order_item_id
+        AND ti.status <> 'void'
+        AND ti.deleted_at IS NULL;
+
+      IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'TICKET_NOT_FOUND');
+      END IF;
+    END IF;
+
+    SELECT COALESCE(jsonb_object_agg(a.question_id::TEXT, a.answer_value), '{}'::jsonb)
+    INTO v_current
+    FROM registration_answers a
+    WHERE a.registration_id = v_reg.id
+      AND a.ticket_instance_id IS NOT DISTINCT FROM _ticket_instance_id;
+
+    v_result := public.validate_registration_answers(
+      v_reg.event_id, v_ticket_type_id, jsonb_strip_nulls(v_current || _answers)
+    );
+
+    IF v_result ? 'error' THEN
+      RETURN v_result;
+    END IF;
+
+    v_clean := v_result->'answers';
+
+    SELECT COALESCE(jsonb_object_agg(k, v_current->k), '{}'::jsonb),
+           COALESCE(jsonb_object_agg(k, v_clean->k), '{}'::jsonb)
+    INTO v_before_answers, v_after_answers
+    FROM (
+      SELECT jsonb_object_keys(v_current)
+      UNION
+      SELECT jsonb_object_keys(v_clean)
+    ) keys(k)
+    WHERE (v_current->k) IS DISTINCT FROM (v_clean->k);
+  END IF;
+
+  IF v_after_profile = '{}'::jsonb AND v_after_answers = '{}'::jsonb THEN
+    RETURN jsonb_build_object('status', 'OK', 'changed', false);
+  END IF;
+
+  IF v_after_profile <> '{}'::jsonb THEN
+    UPDATE participants
+    SET first_name = CASE WHEN v_after_profile ? 'first_name' THEN v_after_profile->>'first_name' ELSE first_name END,
+        last_name = CASE WHEN v_after_profile ? 'last_name' THEN v_after_profile->>'last_name' ELSE last_name END,
+        phone = CASE WHEN v_after_profile ? 'phone' THEN v_after_profile->>'phone' ELSE phone END,
+        birth_date = CASE WHEN v_after_profile ? 'birth_date' THEN (v_after_profile->>'birth_date')::DATE ELSE birth_date END,
+        gender = CASE WHEN v_after_profile ? 'gender' THEN (v_after_profile->>'gender')::public.gender_type ELSE gender END,
+        address = CASE WHEN v_after_profile ? 'address' THEN v_after_profile->>'address' ELSE address END,
+        city = CASE WHEN v_after_profile ? 'city' THEN v_after_profile->>'city' ELSE city END,
+        country = CASE WHEN v_after_profile ? 'country' THEN v_after_profile->>'country' ELSE country END,
+        updated_at = NOW()
+    WHERE id = v_reg.participant_id;
+  END IF;
+
+  IF v_after_answers <> '{}'::jsonb THEN
+    PERFORM set_config('coloss.self_service_edit', 'on', true);
+
+    DELETE FROM registration_answers a
+    WHERE a.registration_id = v_reg.id
+      AND a.ticket_instance_id IS NOT DISTINCT FROM _ticket_instance_id
+      AND v_after_answers ? a.question_id::TEXT
+      AND NOT v_clean ? a.question_id::TEXT;
+
+    UPDATE registration_answers a
+    SET answer_value = v_clean->(a.question_id::TEXT),
+        updated_at = NOW()
+    WHERE a.registration_id = v_reg.id
+      AND a.ticket_instance_id IS NOT DISTINCT FROM _ticket_instance_id
+      AND v_after_answers ? a.question_id::TEXT
+      AND v_clean ? a.question_id::TEXT;
+
+    INSERT INTO registration_answers (registration_id, question_id, answer_value, ticket_instance_id)
+    SELECT v_reg.id, k::UUID, v_clean->k, _ticket_instance_id
+    FROM jsonb_object_keys(v_after_answers) k
+    WHERE v_clean ? k
+      AND NOT v_current ? k;
+
+    PERFORM set_config('coloss.self_service_edit', 'off', true);
+  END IF;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, before_state, after_state, metadata)
+  VALUES (
+    v_reg.org_id,
+    auth.uid(),
+    'PARTICIPANT_SELF_EDIT',
+    'registration',
+    v_reg.id,
+    jsonb_build_object('profile', v_before_profile, 'answers', v_before_answers),
+    jsonb_build_object('profile', v_after_profile, 'answers', v_after_answers),
+    jsonb_build_object(
+      'event_id', v_reg.event_id,
+      'participant_id', v_reg.participant_id,
+      'ticket_type_id', v_ticket_type_id,
+      'ticket_instance_id', _ticket_instance_id,
+      'via', CASE WHEN _public_token IS NOT NULL THEN 'token' ELSE 'login' END
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'changed', true,
+    'fields', (SELECT jsonb_agg(k) FROM jsonb_object_keys(v_after_profile || v_after_answers) k)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.update_self_service_registration(UUID, JSONB, JSONB, UUID, TEXT) IS
+  'F037: Public: participant edits own details and answers until the self-service cutoff (order public token or login); audited as PARTICIPANT_SELF_EDIT.';
+
+GRANT EXECUTE ON FUNCTION public.update_self_service_registration(UUID, JSONB, JSONB, UUID, TEXT) TO anon, authenticated;
+
+-- ===========================================================================
+-- 8. RPC: get_self_service_changes (org members)
+-- ===========================================================================
+-- Wijzigingen van deelnemers per tickettype voor TicketDetailModal, nieuwste
+-- eerst. Medische antwoorden alleen zichtbaar voor admin/owner.
+
+CREATE OR REPLACE FUNCTION public.get_self_service_changes(
+  _ticket_type_id UUID,
+  _limit INTEGER DEFAULT 100
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_can_see_medical BOOLEAN;
+BEGIN
+  SELECT e.org_id INTO v_org_id
+  FROM ticket_types tt
+  JOIN events e ON e.id = tt.event_id
+  WHERE tt.id = _ticket_type_id;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'TICKET_TYPE_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  v_can_see_medical := public.has_role(v_org_id, 'admin') OR public.has_role(v_org_id, 'owner');
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'changes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', al.id,
+        'registration_id', al.entity_id,
+        'ticket_instance_id', al.metadata->'ticket_instance_id',
+        'participant_name', trim(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, '')),
+        'participant_email', p.email,
+        'via', al.metadata->>'via',
+        'created_at', al.created_at,
+        'fields', (
+          SELECT COALESCE(jsonb_agg(f.field ORDER BY f.sort_key), '[]'::jsonb)
+          FROM (
+            SELECT 0 AS sort_key, jsonb_build_object(
+              'kind', 'profile',
+              'field', k,
+              'label', NULL,
+              'before', al.before_state->'profile'->k,
+              'after', al.after_state->'profile'->k,
+              'hidden', false
+            ) AS field
+            FROM jsonb_object_keys(COALESCE(al.after_state->'profile', '{}'::jsonb)) k
+            UNION ALL
+            SELECT 1 + COALESCE(q.sort_order, 0), jsonb_build_object(
+              'kind', 'answer',
+              'field', k,
+              'label', q.label,
+              'before', CASE WHEN q.is_medical AND NOT v_can_see_medical THEN NULL ELSE al.before_state->'answers'->k END,
+              'after', CASE WHEN q.is_medical AND NOT v_can_see_medical THEN NULL ELSE al.after_state->'answers'->k END,
+              'hidden', COALESCE(q.is_medical AND NOT v_can_see_medical, false)
+            )
+            FROM jsonb_object_keys(COALESCE(al.after_state->'answers', '{}'::jsonb)) k
+            LEFT JOIN registration_questions q ON q.id = k::UUID
+          ) f
+        )
+      ) ORDER BY al.created_at DESC)
+      FROM (
+        SELECT *
+        FROM audit_log
+        WHERE org_id = v_org_id
+          AND action = 'PARTICIPANT_SELF_EDIT'
+          AND entity_type = 'registration'
+          AND metadata->>'ticket_type_id' = _ticket_type_id::TEXT
+        ORDER BY created_at DESC
+        LIMIT LEAST(GREATEST(COALESCE(_limit, 100), 1), 500)
+      ) al
+      LEFT JOIN participants p ON p.id = (al.metadata->>'participant_id')::UUID
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_self_service_changes(UUID, INTEGER) IS
+  'F037: Participant self-service changes (PARTICIPANT_SELF_EDIT) for a ticket type with before/after per field, for org members.';
+
+GRANT EXECUTE ON FUNCTION public.get_self_service_changes(UUID, INTEGER) TO authenticated;
+
+-- ===========================================================================
+-- VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT ('participants' = ANY (public.config_domains())) THEN
+    RAISE EXCEPTION 'F037: participants not in config_domains';
+  END IF;
+
+  IF NOT (public.get_default_settings('participants') ? 'self_service_cutoff_hours') THEN
+    RAISE EXCEPTION 'F037: participants self-service defaults not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_self_service_registrations') THEN
+    RAISE EXCEPTION 'F037: get_self_service_registrations not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'update_self_service_registration') THEN
+    RAISE EXCEPTION 'F037: update_self_service_registration not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_self_service_changes') THEN
+    RAISE EXCEPTION 'F037: get_self_service_changes not created';
+  END IF;
+
+  RAISE NOTICE 'F037: Participant self-service created successfully';
+END $$;
@@ -0,0 +1,1504 @@
+-- ===========================================================================
+-- F038: Bib Numbers
+-- Migration: 20250130090000_f038_bib_numbers.sql
+--
+-- Purpose:
+-- - Startnummers per ticket: nummerreeksen per event, tickettype of
+--   tijdslot (bib_number_ranges) met een toewijzingsmodus:
+--   sequential (bij betaling), alphabetical (batch vóór het event) of manual
+-- - Nummers worden atomair gereserveerd (lock op de reeks); na een refund
+--   komt een nummer alleen terug in de reeks als reuse_released aan staat
+-- - Startnummer in registrations_list_v / export_registrations_csv,
+--   scan_ticket, get_offline_scan_snapshot en get_ticket_pdf_data
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLE: bib_number_ranges
+-- ===========================================================================
+-- Eén reeks per scope: het hele event (beide NULL), een tickettype of een
+-- tijdslot (ticket_type_id is dan het tickettype van het slot). Een ticket
+-- valt onder de meest specifieke reeks: slot > tickettype > event.
+-- Reeksen binnen een event overlappen niet, zodat een nummer per event uniek
+-- is. next_number is de teller voor reeksen zonder hergebruik.
+
+CREATE TABLE IF NOT EXISTS bib_number_ranges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  ticket_type_id UUID REFERENCES ticket_types(id) ON DELETE CASCADE,
+  time_slot_id UUID REFERENCES ticket_time_slots(id) ON DELETE CASCADE,
+  range_start INTEGER NOT NULL CHECK (range_start >= 1),
+  range_end INTEGER NOT NULL,
+  assignment_mode TEXT NOT NULL DEFAULT 'sequential'
+    CHECK (assignment_mode IN ('sequential', 'alphabetical', 'manual')),
+  reuse_released BOOLEAN NOT NULL DEFAULT false,
+  next_number INTEGER NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT bib_number_ranges_bounds CHECK (range_end >= range_start),
+  CONSTRAINT bib_number_ranges_slot_has_type CHECK (time_slot_id IS NULL OR ticket_type_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bib_number_ranges_scope
+  ON bib_number_ranges(
+    event_id,
+    COALESCE(ticket_type_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(time_slot_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  );
+
+COMMENT ON TABLE bib_number_ranges IS
+  'F038: Bib number ranges per event, ticket type or time slot with assignment mode (sequential/alphabetical/manual).';
+COMMENT ON COLUMN bib_number_ranges.next_number IS
+  'F038: Next candidate number for ranges without reuse_released; only moves forward.';
+
+CREATE TRIGGER handle_updated_at_bib_number_ranges
+  BEFORE UPDATE ON bib_number_ranges
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+ALTER TABLE bib_number_ranges ENABLE ROW LEVEL SECURITY;
+
+-- Schrijven alleen via upsert/delete RPCs (validatie + audit)
+CREATE POLICY "Org members can view bib_number_ranges"
+  ON bib_number_ranges
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = bib_number_ranges.event_id
+      AND public.is_org_member(e.org_id)
+  ));
+
+-- ===========================================================================
+-- 2. COLUMN: ticket_instances.bib_number
+-- ===========================================================================
+-- Het startnummer hoort bij het ticket (niet bij de registratie): een
+-- overgedragen ticket houdt zijn nummer. Een void ticket houdt zijn nummer
+-- als historie; de unieke index geldt alleen voor geldige tickets.
+-- registrations.bib_number (handmatig, van vóór F038) blijft de fallback.
+
+ALTER TABLE public.ticket_instances
+  ADD COLUMN IF NOT EXISTS bib_number INTEGER CHECK (bib_number >= 1);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_instances_event_bib
+  ON public.ticket_instances(event_id, bib_number)
+  WHERE bib_number IS NOT NULL AND status <> 'void' AND deleted_at IS NULL;
+
+COMMENT ON COLUMN public.ticket_instances.bib_number IS
+  'F038: Bib (race) number, unique per event among valid tickets; assigned from bib_number_ranges or manually.';
+
+-- ===========================================================================
+-- 3. FUNCTIONS: bib_range_for_ticket / next_bib_number (intern)
+-- ===========================================================================
+-- next_bib_number is de enige plek die nummers uitdeelt. De reeks wordt met
+-- FOR UPDATE gelockt, zodat gelijktijdige betalingen nooit hetzelfde nummer
+-- krijgen.
+-- - reuse_released: laagste vrije nummer; nummers van void tickets tellen
+--   als vrij
+-- - anders: eerste nummer vanaf next_number dat door geen enkel ticket
+--   (ook void) gebruikt wordt; de teller schuift door
+-- NULL = reeks vol.
+
+CREATE OR REPLACE FUNCTION public.bib_range_for_ticket(_ticket_instance_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT br.id
+  FROM ticket_instances ti
+  JOIN bib_number_ranges br ON br.event_id = ti.event_id
+  WHERE ti.id = _ticket_instance_id
+    AND (br.ticket_type_id IS NULL OR br.ticket_type_id = ti.ticket_type_id)
+    AND (br.time_slot_id IS NULL OR br.time_slot_id = ti.time_slot_id)
+  ORDER BY (br.time_slot_id IS NOT NULL) DESC, (br.ticket_type_id IS NOT NULL) DESC
+  LIMIT 1;
+$$;
+
+COMMENT ON FUNCTION public.bib_range_for_ticket(UUID) IS
+  'F038: System: most specific bib number range of a ticket (time slot > ticket type > event).';
+
+REVOKE ALL ON FUNCTION public.bib_range_for_ticket(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.bib_range_for_ticket(UUID) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.next_bib_number(_range_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_range bib_number_ranges%ROWTYPE;
+  v_number INTEGER;
+BEGIN
+  SELECT * INTO v_range FROM bib_number_ranges WHERE id = _range_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_range.reuse_released THEN
+    SELECT n INTO v_number
+    FROM generate_series(v_range.range_start, v_range.range_end) n
+    WHERE NOT EXISTS (
+      SELECT 1 FROM ticket_instances ti
+      WHERE ti.event_id = v_range.event_id
+        AND ti.bib_number = n
+        AND ti.status <> 'void'
+        AND ti.deleted_at IS NULL
+    )
+    ORDER BY n
+    LIMIT 1;
+  ELSE
+    SELECT n INTO v_number
+    FROM generate_series(GREATEST(v_range.next_number, v_range.range_start), v_range.range_end) n
+    WHERE NOT EXISTS (
+      SELECT 1 FROM ticket_instances ti
+      WHERE ti.event_id = v_range.event_id
+        AND ti.bib_number = n
+    )
+    ORDER BY n
+    LIMIT 1;
+
+    IF v_number IS NOT NULL THEN
+      UPDATE bib_number_ranges SET next_number = v_number + 1 WHERE id = _range_id;
+    END IF;
+  END IF;
+
+  RETURN v_number;
+END;
+$$;
+
+COMMENT ON FUNCTION public.next_bib_number(UUID) IS
+  'F038: System: reserve the next free number of a bib range (row lock); NULL when the range is full.';
+
+REVOKE ALL ON FUNCTION public.next_bib_number(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.next_bib_number(UUID) TO service_role;
+
+-- ===========================================================================
+-- 4. TRIGGER: assign_bib_number_on_issue
+-- ===========================================================================
+-- Tickets worden bij betaling uitgegeven (webhook of issue-tickets). Na de
+-- BEFORE trigger van F018 staat time_slot_id vast, dus AFTER INSERT kiest de
+-- juiste reeks. Alleen sequential reeksen delen direct uit. Fouten (of een
+-- volle reeks) mogen het uitgeven niet blokkeren.
+
+CREATE OR REPLACE FUNCTION public.assign_bib_number_on_issue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_range_id UUID;
+  v_number INTEGER;
+BEGIN
+  v_range_id := public.bib_range_for_ticket(NEW.id);
+
+  IF v_range_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM bib_number_ranges WHERE id = v_range_id AND assignment_mode = 'sequential'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  v_number := public.next_bib_number(v_range_id);
+
+  IF v_number IS NULL THEN
+    RAISE WARNING 'F038: bib range % is full, ticket % has no bib number', v_range_id, NEW.id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE ticket_instances SET bib_number = v_number WHERE id = NEW.id;
+
+  RETURN NEW;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'F038: assigning bib number failed for ticket %: %', NEW.id, SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.assign_bib_number_on_issue() IS
+  'F038: System: give newly issued tickets the next number of their sequential bib range.';
+
+DROP TRIGGER IF EXISTS assign_bib_number_on_issue_trigger ON ticket_instances;
+CREATE TRIGGER assign_bib_number_on_issue_trigger
+  AFTER INSERT ON ticket_instances
+  FOR EACH ROW
+  WHEN (NEW.bib_number IS NULL AND NEW.status = 'issued')
+  EXECUTE FUNCTION assign_bib_number_on_issue();
+
+-- ===========================================================================
+-- 5. RPC: get_bib_overview
+-- ===========================================================================
+-- Reeksen met aantallen voor de startnummerpagina; tickets zonder nummer
+-- tellen per reeks en voor tickets buiten elke reeks.
+
+CREATE OR REPLACE FUNCTION public.can_manage_bib_numbers(_event_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = _event_id
+      AND (public.has_role(e.org_id, 'admin') OR public.has_role(e.org_id, 'owner'))
+  );
+$$;
+
+COMMENT ON FUNCTION public.can_manage_bib_numbers(UUID) IS
+  'F038: True if the current user is admin/owner of the event org.';
+
+GRANT EXECUTE ON FUNCTION public.can_manage_bib_numbers(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_bib_overview(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id AND deleted_at IS NULL;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'can_edit', public.can_manage_bib_numbers(_event_id),
+    'ticket_types', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', tt.id, 'name', tt.name) ORDER BY tt.sort_order, tt.name)
+      FROM ticket_types tt
+      WHERE tt.event_id = _event_id AND tt.deleted_at IS NULL
+    ), '[]'::jsonb),
+    'time_slots', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', ts.id,
+        'ticket_type_id', ts.ticket_type_id,
+        'label', ts.label,
+        'slot_time', ts.slot_time,
+        'slot_date', ts.slot_date
+      ) ORDER BY ts.sort_order, ts.slot_date, ts.slot_time)
+      FROM ticket_time_slots ts
+      JOIN ticket_types tt ON tt.id = ts.ticket_type_id
+      WHERE tt.event_id = _event_id AND tt.deleted_at IS NULL AND ts.deleted_at IS NULL
+    ), '[]'::jsonb),
+    'ranges', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', br.id,
+        'ticket_type_id', br.ticket_type_id,
+        'time_slot_id', br.time_slot_id,
+        'range_start', br.range_start,
+        'range_end', br.range_end,
+        'assignment_mode', br.assignment_mode,
+        'reuse_released', br.reuse_released,
+        'next_number', br.next_number,
+        'assigned_count', c.assigned_count,
+        'unassigned_count', c.unassigned_count
+      ) ORDER BY br.range_start)
+      FROM bib_number_ranges br
+      CROSS JOIN LATERAL (
+        SELECT
+          COUNT(*) FILTER (WHERE ti.bib_number IS NOT NULL) AS assigned_count,
+          COUNT(*) FILTER (WHERE ti.bib_number IS NULL) AS unassigned_count
+        FROM ticket_instances ti
+        WHERE ti.event_id = _event_id
+          AND ti.status <> 'void'
+          AND ti.deleted_at IS NULL
+          AND public.bib_range_for_ticket(ti.id) = br.id
+      ) c
+      WHERE br.event_id = _event_id
+    ), '[]'::jsonb),
+    'outside_ranges_count', (
+      SELECT COUNT(*)
+      FROM ticket_instances ti
+      WHERE ti.event_id = _event_id
+        AND ti.status <> 'void'
+        AND ti.deleted_at IS NULL
+        AND public.bib_range_for_ticket(ti.id) IS NULL
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_bib_overview(UUID) IS
+  'F038: Bib number ranges of an event with assigned/unassigned ticket counts, ticket types and time slots, for org members.';
+
+GRANT EXECUTE ON FUNCTION public.get_bib_overview(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 6. RPC: upsert_bib_range / delete_bib_range
+-- ===========================================================================
+-- Een tijdslot bepaalt zelf het tickettype. Bij het inkorten van een reeks
+-- blijven uitgedeelde nummers staan; next_number schuift alleen vooruit.
+-- Verwijderen laat uitgedeelde nummers op de tickets staan.
+
+CREATE OR REPLACE FUNCTION public.upsert_bib_range(
+  _event_id UUID,
+  _range_start INTEGER,
+  _range_end INTEGER,
+  _assignment_mode TEXT DEFAULT 'sequential',
+  _ticket_type_id UUID DEFAULT NULL,
+  _time_slot_id UUID DEFAULT NULL,
+  _reuse_released BOOLEAN DEFAULT false,
+  _id UUID DEFAULT NULL  -- Pass existing ID to update
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_org_id UUID;
+  v_existing bib_number_ranges%ROWTYPE;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id AND deleted_at IS NULL;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.can_manage_bib_numbers(_event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _id IS NOT NULL THEN
+    SELECT * INTO v_existing FROM bib_number_ranges WHERE id = _id AND event_id = _event_id;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('error', 'RANGE_NOT_FOUND');
+    END IF;
+  END IF;
+
+  IF _assignment_mode IS NULL OR _assignment_mode NOT IN ('sequential', 'alphabetical', 'manual') THEN
+    RETURN jsonb_build_object('error', 'INVALID_MODE');
+  END IF;
+
+  IF _range_start IS NULL OR _range_end IS NULL
+     OR _range_start < 1 OR _range_end < _range_start
+     OR _range_end - _range_start >= 100000 THEN
+    RETURN jsonb_build_object('error', 'INVALID_RANGE');
+  END IF;
+
+  IF _time_slot_id IS NOT NULL THEN
+    SELECT ts.ticket_type_id INTO _ticket_type_id
+    FROM ticket_time_slots ts
+    JOIN ticket_types tt ON tt.id = ts.ticket_type_id
+    WHERE ts.id = _time_slot_id AND tt.event_id = _event_id AND ts.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('error', 'TIME_SLOT_NOT_FOUND');
+    END IF;
+  END IF;
+
+  IF _ticket_type_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM ticket_types WHERE id = _ticket_type_id AND event_id = _event_id
+  ) THEN
+    RETURN jsonb_build_object('error', 'TICKET_TYPE_NOT_FOUND');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bib_number_ranges br
+    WHERE br.event_id = _event_id
+      AND br.id IS DISTINCT FROM _id
+      AND br.range_start <= _range_end
+      AND br.range_end >= _range_start
+  ) THEN
+    RETURN jsonb_build_object('error', 'RANGE_OVERLAP');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bib_number_ranges br
+    WHERE br.event_id = _event_id
+      AND br.id IS DISTINCT FROM _id
+      AND br.ticket_type_id IS NOT DISTINCT FROM _ticket_type_id
+      AND br.time_slot_id IS NOT DISTINCT FROM _time_slot_id
+  ) THEN
+    RETURN jsonb_build_object('error', 'SCOPE_EXISTS');
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO bib_number_ranges (
+      event_id, ticket_type_id, time_slot_id, range_start, range_end,
+      assignment_mode, reuse_released, next_number, created_by
+    )
+    VALUES (
+      _event_id,
+      _ticket_type_id,
+      _time_slot_id,
+      _range_start,
+      _range_end,
+      _assignment_mode,
+      COALESCE(_reuse_released, false),
+      _range_start,
+      auth.uid()
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE bib_number_ranges SET
+      ticket_type_id = _ticket_type_id,
+      time_slot_id = _time_slot_id,
+      range_start = _range_start,
+      range_end = _range_end,
+      assignment_mode = _assignment_mode,
+      reuse_released = COALESCE(_reuse_released, false),
+      next_number = GREATEST(v_existing.next_number, _range_start)
+    WHERE id = _id
+    RETURNING id INTO v_id;
+  END IF;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_org_id,
+    auth.uid(),
+    CASE WHEN _id IS NULL THEN 'BIB_RANGE_CREATED' ELSE 'BIB_RANGE_UPDATED' END,
+    'bib_number_range',
+    v_id,
+    jsonb_build_object(
+      'event_id', _event_id,
+      'range_start', _range_start,
+      'range_end', _range_end,
+      'assignment_mode', _assignment_mode,
+      'ticket_type_id', _ticket_type_id,
+      'time_slot_id', _time_slot_id
+    )
+  );
+
+  RETURN jsonb_build_object('status', 'OK', 'range_id', v_id);
+END;
+$$;
+
+COMMENT ON FUNCTION public.upsert_bib_range(UUID, INTEGER, INTEGER, TEXT, UUID, UUID, BOOLEAN, UUID) IS
+  'F038: Create or update a non-overlapping bib number range for an event, ticket type or time slot (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.upsert_bib_range(UUID, INTEGER, INTEGER, TEXT, UUID, UUID, BOOLEAN, UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.delete_bib_range(_range_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_range bib_number_ranges%ROWTYPE;
+BEGIN
+  SELECT * INTO v_range FROM bib_number_ranges WHERE id = _range_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'RANGE_NOT_FOUND');
+  END IF;
+
+  IF NOT public.can_manage_bib_numbers(v_range.event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  DELETE FROM bib_number_ranges WHERE id = _range_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  SELECT e.org_id, auth.uid(), 'BIB_RANGE_DELETED', 'bib_number_range', _range_id,
+         jsonb_build_object('event_id', v_range.event_id, 'range_start', v_range.range_start, 'range_end', v_range.range_end)
+  FROM events e WHERE e.id = v_range.event_id;
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.delete_bib_range(UUID) IS
+  'F038: Delete a bib number range; numbers already on tickets are kept (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.delete_bib_range(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 7. RPC: assign_bib_numbers
+-- ===========================================================================
+-- Batchtoewijzing voor alle geldige tickets van een reeks zonder nummer:
+-- - alphabetical: op achternaam, voornaam van de houder (transfer >
+--   deelnemer > teamlid > registratie van de orderregel)
+-- - sequential: op uitgiftemoment (tickets van vóór het aanmaken van de
+--   reeks)
+-- _reassign = true haalt eerst alle nummers van de reeks weg en begint
+-- opnieuw bij range_start (bijv. na late inschrijvingen, vóór het drukken).
+-- Zonder hergebruik blijven nummers van void tickets ook dan overgeslagen.
+
+CREATE OR REPLACE FUNCTION public.assign_bib_numbers(
+  _range_id UUID,
+  _reassign BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_range bib_number_ranges%ROWTYPE;
+  v_ticket RECORD;
+  v_number INTEGER;
+  v_assigned INTEGER := 0;
+  v_unassigned INTEGER := 0;
+BEGIN
+  -- Lock op de reeks voor de hele batch
+  SELECT * INTO v_range FROM bib_number_ranges WHERE id = _range_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'RANGE_NOT_FOUND');
+  END IF;
+
+  IF NOT public.can_manage_bib_numbers(v_range.event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF v_range.assignment_mode = 'manual' THEN
+    RETURN jsonb_build_object('error', 'INVALID_MODE');
+  END IF;
+
+  IF COALESCE(_reassign, false) THEN
+    UPDATE ticket_instances ti
+    SET bib_number = NULL
+    WHERE ti.event_id = v_range.event_id
+      AND ti.status <> 'void'
+      AND ti.deleted_at IS NULL
+      AND ti.bib_number IS NOT NULL
+      AND public.bib_range_for_ticket(ti.id) = _range_id;
+
+    UPDATE bib_number_ranges SET next_number = range_start WHERE id = _range_id;
+  END IF;
+
+  FOR v_ticket IN
+    SELECT ti.id
+    FROM ticket_instances ti
+    LEFT JOIN LATERAL (
+      SELECT t.to_participant_id
+      FROM ticket_transfers t
+      WHERE t.ticket_instance_id = ti.id
+        AND t.status = 'accepted'
+        AND t.to_participant_id IS NOT NULL
+      ORDER BY t.accepted_at DESC
+      LIMIT 1
+    ) tr ON true
+    LEFT JOIN team_members tm ON tm.ticket_instance_id = ti.id
+    LEFT JOIN LATERAL (
+      SELECT r.participant_id
+      FROM registrations r
+      WHERE r.order_item_id = ti.order_item_id
+        AND r.deleted_at IS NULL
+      ORDER BY r.created_at
+      LIMIT 1
+    ) reg ON true
+    LEFT JOIN participants p ON p.id = COALESCE(
+      tr.to_participant_id, ti.participant_id, tm.participant_id, reg.participant_id
+    )
+    WHERE ti.event_id = v_range.event_id
+      AND ti.status <> 'void'
+      AND ti.deleted_at IS NULL
+      AND ti.bib_number IS NULL
+      AND public.bib_range_for_ticket(ti.id) = _range_id
+    ORDER BY
+      CASE WHEN v_range.assignment_mode = 'alphabetical' THEN lower(p.last_name) END NULLS LAST,
+      CASE WHEN v_range.assignment_mode = 'alphabetical' THEN lower(p.first_name) END NULLS LAST,
+      ti.created_at,
+      ti.id
+  LOOP
+    v_number := public.next_bib_number(_range_id);
+
+    IF v_number IS NULL THEN
+      v_unassigned := v_unassigned + 1;
+      CONTINUE;
+    END IF;
+
+    UPDATE ticket_instances SET bib_number = v_number WHERE id = v_ticket.id;
+    v_assigned := v_assigned + 1;
+  END LOOP;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  SELECT e.org_id, auth.uid(), 'BIB_NUMBERS_ASSIGNED', 'bib_number_range', _range_id,
+         jsonb_build_object(
+           'event_id', v_range.event_id,
+           'assignment_mode', v_range.assignment_mode,
+           'reassign', COALESCE(_reassign, false),
+           'assigned', v_assigned,
+           'unassigned', v_unassigned
+         )
+  FROM events e WHERE e.id = v_range.event_id;
+
+  RETURN jsonb_build_object('status', 'OK', 'assigned', v_assigned, 'unassigned', v_unassigned);
+END;
+$$;
+
+COMMENT ON FUNCTION public.assign_bib_numbers(UUID, BOOLEAN) IS
+  'F038: Batch-assign bib numbers to tickets of a range without one (alphabetical by holder or by issue time), optionally from scratch (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.assign_bib_numbers(UUID, BOOLEAN) TO authenticated;
+
+-- ===========================================================================
+-- 8. RPC: set_ticket_bib_number
+-- ===========================================================================
+-- Handmatig nummer (of NULL om het te wissen), ook buiten reeksen. Een
+-- nummer van een void ticket in een reeks zonder hergebruik blijft
+-- uitgesloten.
+
+CREATE OR REPLACE FUNCTION public.set_ticket_bib_number(
+  _ticket_instance_id UUID,
+  _bib_number INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket RECORD;
+BEGIN
+  SELECT ti.id, ti.event_id, ti.status, ti.bib_number, e.org_id
+  INTO v_ticket
+  FROM ticket_instances ti
+  JOIN events e ON e.id = ti.event_id
+  WHERE ti.id = _ticket_instance_id AND ti.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TICKET_NOT_FOUND');
+  END IF;
+
+  IF NOT public.can_manage_bib_numbers(v_ticket.event_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF v_ticket.status = 'void' THEN
+    RETURN jsonb_build_object('error', 'TICKET_VOID');
+  END IF;
+
+  IF _bib_number IS NOT NULL AND _bib_number < 1 THEN
+    RETURN jsonb_build_object('error', 'INVALID_BIB_NUMBER');
+  END IF;
+
+  IF _bib_number IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM ticket_instances ti
+      WHERE ti.event_id = v_ticket.event_id
+        AND ti.bib_number = _bib_number
+        AND ti.id <> _ticket_instance_id
+        AND ti.status <> 'void'
+        AND ti.deleted_at IS NULL
+    ) THEN
+      RETURN jsonb_build_object('error', 'BIB_TAKEN');
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM ticket_instances ti
+      JOIN bib_number_ranges br ON br.event_id = ti.event_id
+        AND ti.bib_number BETWEEN br.range_start AND br.range_end
+      WHERE ti.event_id = v_ticket.event_id
+        AND ti.bib_number = _bib_number
+        AND ti.id <> _ticket_instance_id
+        AND ti.status = 'void'
+        AND NOT br.reuse_released
+    ) THEN
+      RETURN jsonb_build_object('error', 'BIB_RETIRED');
+    END IF;
+  END IF;
+
+  BEGIN
+    UPDATE ticket_instances SET bib_number = _bib_number WHERE id = _ticket_instance_id;
+  EXCEPTION WHEN unique_violation THEN
+    RETURN jsonb_build_object('error', 'BIB_TAKEN');
+  END;
+
+  INSERT INTO audit_log (
+    org_id, actor_user_id, action, entity_type, entity_id, before_state, after_state
+  ) VALUES (
+    v_ticket.org_id,
+    auth.uid(),
+    'BIB_NUMBER_SET',
+    'ticket_instance',
+    _ticket_instance_id,
+    jsonb_build_object('bib_number', v_ticket.bib_number),
+    jsonb_build_object('bib_number', _bib_number)
+  );
+
+  RETURN jsonb_build_object('status', 'OK', 'bib_number', _bib_number);
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_ticket_bib_number(UUID, INTEGER) IS
+  'F038: Manually set or clear the bib number of a ticket, unique per event (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.set_ticket_bib_number(UUID, INTEGER) TO authenticated;
+
+-- ===========================================================================
+-- 9. VIEW: registrations_list_v / RPC: export_registrations_csv (bib_number)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F017 behalve:
+-- - bib_number komt van het ticket; registrations.bib_number blijft de
+--   fallback voor registraties zonder ticketnummer
+
+CREATE OR REPLACE VIEW registrations_list_v AS
+SELECT
+  r.id,
+  r.event_id,
+  r.participant_id,
+  r.status as registration_status,
+  r.ticket_type_id,
+  r.order_item_id,
+  COALESCE(ti.bib_number::TEXT, r.bib_number) as bib_number,
+  r.created_at,
+  r.updated_at,
+  -- Participant data
+  p.email,
+  p.first_name,
+  p.last_name,
+  p.phone,
+  p.birth_date,
+  p.gender,
+  p.country,
+  -- Ticket Type
+  tt.name as ticket_type_name,
+  tt.price as ticket_type_price,
+  -- Order via order_item (of via het team)
+  COALESCE(oi.order_id, t.order_id) as order_id,
+  o.status as order_status,
+  o.total_amount as order_total,
+  COALESCE(o.discount_amount, 0) as discount_amount,
+  CASE
+    WHEN o.status = 'paid' THEN 'paid'
+    WHEN o.status = 'refunded' THEN 'refunded'
+    WHEN o.status = 'cancelled' THEN 'cancelled'
+    ELSE 'unpaid'
+  END as payment_status,
+  COALESCE(o.discount_amount > 0, false) as has_discount,
+  -- Ticket Instance
+  ti.id as ticket_instance_id,
+  ti.qr_code,
+  ti.status as ticket_status,
+  ti.checked_in_at,
+  CASE WHEN ti.id IS NOT NULL THEN 'assigned' ELSE 'unassigned' END as assignment_status,
+  -- Event org_id for RLS
+  e.org_id,
+  -- Team
+  t.id as team_id,
+  t.name as team_name,
+  tm.role as team_role
+FROM registrations r
+JOIN participants p ON p.id = r.participant_id
+JOIN events e ON e.id = r.event_id
+LEFT JOIN ticket_types tt ON tt.id = r.ticket_type_id
+LEFT JOIN team_members tm ON tm.registration_id = r.id
+LEFT JOIN teams t ON t.id = tm.team_id
+LEFT JOIN order_items oi ON oi.id = r.order_item_id
+LEFT JOIN orders o ON o.id = COALESCE(oi.order_id, t.order_id)
+LEFT JOIN ticket_instances ti ON ti.deleted_at IS NULL
+  AND CASE
+    WHEN tm.id IS NOT NULL THEN ti.id = tm.ticket_instance_id
+    ELSE ti.order_item_id = r.order_item_id
+  END
+WHERE r.deleted_at IS NULL;
+
+ALTER VIEW registrations_list_v SET (security_invoker = true);
+
+-- Ongewijzigd t.o.v. F032 behalve:
+-- - kolom bib_number na last_name; zoeken kan ook op startnummer
+
+CREATE OR REPLACE FUNCTION export_registrations_csv(
+  _event_id UUID,
+  _filters JSONB DEFAULT '{}'
+)
+RETURNS TABLE (csv_row TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_role TEXT;
+  v_max_rows INTEGER;
+  v_segment_definition JSONB;
+BEGIN
+  -- 1. Verify org membership + role
+  SELECT e.org_id INTO v_org_id FROM events e WHERE e.id = _event_id;
+
+  SELECT om.role INTO v_role
+  FROM org_members om
+  WHERE om.org_id = v_org_id AND om.user_id = auth.uid();
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: not an org member';
+  END IF;
+
+  IF v_role NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: admin role required for export';
+  END IF;
+
+  -- Segment filter (F032)
+  IF (_filters->>'segment_id') IS NOT NULL THEN
+    SELECT s.definition INTO v_segment_definition
+    FROM participant_segments s
+    WHERE s.id = (_filters->>'segment_id')::uuid AND s.event_id = _event_id;
+
+    IF v_segment_definition IS NULL THEN
+      RAISE EXCEPTION 'SEGMENT_NOT_FOUND: segment does not belong to this event';
+    END IF;
+  END IF;
+
+  -- 2. Get max rows from config (default 10000)
+  v_max_rows := 10000;
+
+  -- 3. Return CSV header
+  RETURN QUERY SELECT 'email,first_name,last_name,bib_number,ticket_type,registration_status,payment_status,assignment_status,has_discount,created_at'::text;
+
+  -- 4. Return data rows
+  RETURN QUERY
+  SELECT
+    format('%s,%s,%s,%s,%s,%s,%s,%s,%s,%s',
+      COALESCE(quote_literal(rl.email), ''),
+      COALESCE(quote_literal(rl.first_name), ''),
+      COALESCE(quote_literal(rl.last_name), ''),
+      COALESCE(quote_literal(rl.bib_number), ''),
+      COALESCE(quote_literal(rl.ticket_type_name), ''),
+      COALESCE(rl.registration_status::text, ''),
+      COALESCE(rl.payment_status, ''),
+      COALESCE(rl.assignment_status, ''),
+      COALESCE(rl.has_discount::text, 'false'),
+      COALESCE(to_char(rl.created_at, 'YYYY-MM-DD HH24:MI:SS'), '')
+    )
+  FROM registrations_list_v rl
+  WHERE rl.event_id = _event_id
+    AND ((_filters->>'ticket_type_id') IS NULL
+         OR rl.ticket_type_id = (_filters->>'ticket_type_id')::uuid)
+    AND ((_filters->>'registration_status') IS NULL
+         OR rl.registration_status::text = (_filters->>'registration_status'))
+    AND ((_filters->>'payment_status') IS NULL
+         OR rl.payment_status = (_filters->>'payment_status'))
+    AND ((_filters->>'search') IS NULL
+         OR rl.email ILIKE '%' || (_filters->>'search') || '%'
+         OR rl.bib_number = (_filters->>'search'))
+    AND (v_segment_definition IS NULL OR rl.id IN (
+         SELECT m.registration_id
+         FROM public.get_segment_registrations(_event_id, v_segment_definition) m))
+  ORDER BY rl.created_at DESC
+  LIMIT v_max_rows;
+END;
+$$;
+
+COMMENT ON FUNCTION export_registrations_csv IS
+  'Exports registrations as CSV rows (F032: optional segment_id filter, F038: bib_number column). Requires admin role.';
+
+-- ===========================================================================
+-- 10. RPC: scan_ticket / get_offline_scan_snapshot (bib_number)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F018 behalve:
+-- - ticket.bib_number zodat de scanner het startnummer kan controleren
+
+CREATE OR REPLACE FUNCTION public.scan_ticket(
+  _event_id UUID,
+  _token TEXT,
+  _device_id TEXT DEFAULT NULL,
+  _ip_address INET DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket_id UUID;
+  v_ticket_type_id UUID;
+  v_ticket_status TEXT;
+  v_ticket RECORD;
+  v_token_hash TEXT;
+  v_org_id UUID;
+  v_settings JSONB;
+  v_rate_limit_per_minute INT;
+  v_rate_limit_per_device INT;
+  v_require_device_id BOOLEAN;
+  v_pii_level TEXT;
+  v_user_count INT;
+  v_device_count INT;
+  v_result TEXT;
+  v_participant_name TEXT;
+  v_participant_email TEXT;
+  v_found_via_fallback BOOLEAN := FALSE;
+  v_team RECORD;
+  v_team_info JSONB;
+  v_time_slot_info JSONB;
+BEGIN
+  -- Hash the token
+  v_token_hash := encode(
+    extensions.digest(_token::bytea, 'sha256'::text),
+    'hex'
+  );
+
+  -- STRATEGY 1: Find ticket by token_hash (fast, indexed lookup)
+  SELECT
+    ti.id,
+    ti.ticket_type_id,
+    ti.event_id,
+    ti.status,
+    ti.order_id,
+    ti.time_slot_id,
+    ti.bib_number,
+    e.org_id
+  INTO v_ticket
+  FROM ticket_instances ti
+  JOIN events e ON e.id = ti.event_id
+  WHERE ti.token_hash = v_token_hash
+    AND ti.event_id = _event_id
+  FOR UPDATE SKIP LOCKED;
+
+  -- STRATEGY 2: Fallback to plaintext qr_code for legacy tickets
+  IF NOT FOUND THEN
+    SELECT
+      ti.id,
+      ti.ticket_type_id,
+      ti.event_id,
+      ti.status,
+      ti.order_id,
+      ti.time_slot_id,
+      ti.bib_number,
+      e.org_id
+    INTO v_ticket
+    FROM ticket_instances ti
+    JOIN events e ON e.id = ti.event_id
+    WHERE ti.qr_code = _token
+      AND ti.event_id = _event_id
+      AND ti.token_hash IS NULL  -- Only legacy tickets
+    FOR UPDATE SKIP LOCKED;
+
+    IF FOUND THEN
+      -- Auto-fix: Update token_hash for future scans
+      UPDATE ticket_instances
+      SET token_hash = v_token_hash
+      WHERE id = v_ticket.id;
+
+      v_found_via_fallback := TRUE;
+      RAISE NOTICE 'Legacy ticket % auto-fixed with token_hash', v_ticket.id;
+    END IF;
+  END IF;
+
+  -- Still not found? Token is invalid
+  IF NOT FOUND THEN
+    -- Log failed scan
+    INSERT INTO ticket_scans (
+      event_id, scanner_user_id, device_id, ip_address, user_agent,
+      scan_result, reason_code
+    ) VALUES (
+      _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+      'INVALID', 'TOKEN_NOT_FOUND'
+    );
+
+    RETURN jsonb_build_object(
+      'result', 'INVALID',
+      'message', 'Invalid ticket token'
+    );
+  END IF;
+
+  v_ticket_id := v_ticket.id;
+  v_org_id := v_ticket.org_id;
+
+  -- Auth check
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED', 'message', 'Authentication required');
+  END IF;
+
+  -- Check org membership (scanner permission)
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED', 'message', 'Must be org member to scan tickets');
+  END IF;
+
+  -- Get scanning settings
+  SELECT setting_value INTO v_settings
+  FROM event_settings
+  WHERE event_id = _event_id AND domain = 'scanning';
+
+  IF v_settings IS NULL THEN
+    v_settings := (SELECT get_default_settings()->'scanning');
+  END IF;
+
+  -- Check if scanning enabled
+  IF (v_settings->>'enabled')::boolean = false THEN
+    RETURN jsonb_build_object('error', 'SCANNING_DISABLED', 'message', 'Scanning is disabled for this event');
+  END IF;
+
+  -- Get rate limits
+  v_rate_limit_per_minute := COALESCE((v_settings->'rate_limit'->>'per_minute')::integer, 60);
+  v_rate_limit_per_device := COALESCE((v_settings->'rate_limit'->>'per_device_per_minute')::integer, 30);
+  v_require_device_id := COALESCE((v_settings->>'require_device_id')::boolean, false);
+  v_pii_level := COALESCE(v_settings->'response'->>'pii_level', 'masked');
+
+  -- Check device_id requirement
+  IF v_require_device_id AND _device_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'DEVICE_ID_REQUIRED', 'message', 'Device ID is required for scanning');
+  END IF;
+
+  -- Rate limiting (per user)
+  SELECT COUNT(*) INTO v_user_count
+  FROM ticket_scans
+  WHERE scanner_user_id = auth.uid()
+    AND event_id = _event_id
+    AND scanned_at > NOW() - INTERVAL '1 minute';
+
+  IF v_user_count >= v_rate_limit_per_minute THEN
+    INSERT INTO ticket_scans (
+      ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+      scan_result, reason_code
+    ) VALUES (
+      v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+      'RATE_LIMIT_EXCEEDED', 'USER_RATE_LIMIT'
+    );
+
+    RETURN jsonb_build_object(
+      'result', 'RATE_LIMIT_EXCEEDED',
+      'message', 'Too many scans. Please wait.'
+    );
+  END IF;
+
+  -- Rate limiting (per device)
+  IF _device_id IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_device_count
+    FROM ticket_scans
+    WHERE device_id = _device_id
+      AND event_id = _event_id
+      AND scanned_at > NOW() - INTERVAL '1 minute';
+
+    IF v_device_count >= v_rate_limit_per_device THEN
+      INSERT INTO ticket_scans (
+        ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+        scan_result, reason_code
+      ) VALUES (
+        v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+        'RATE_LIMIT_EXCEEDED', 'DEVICE_RATE_LIMIT'
+      );
+
+      RETURN jsonb_build_object(
+        'result', 'RATE_LIMIT_EXCEEDED',
+        'message', 'Device scan limit exceeded.'
+      );
+    END IF;
+  END IF;
+
+  -- Check ticket status
+  v_result := CASE v_ticket.status
+    WHEN 'issued' THEN 'VALID'
+    WHEN 'checked_in' THEN 'ALREADY_USED'
+    WHEN 'cancelled' THEN 'CANCELLED'
+    WHEN 'refunded' THEN 'REFUNDED'
+    ELSE 'INVALID'
+  END;
+
+  -- Get participant info (for response)
+  SELECT o.customer_name, o.email
+  INTO v_participant_name, v_participant_email
+  FROM orders o
+  WHERE o.id = v_ticket.order_id;
+
+  -- Team ticket: teamlid (indien gekoppeld) i.p.v. de besteller
+  SELECT
+    t.name,
+    t.slots,
+    tm.role,
+    p.first_name || ' ' || p.last_name AS member_name,
+    p.email AS member_email,
+    (SELECT COUNT(*) FROM team_members x WHERE x.team_id = t.id) AS member_count
+  INTO v_team
+  FROM teams t
+  LEFT JOIN team_members tm ON tm.team_id = t.id AND tm.ticket_instance_id = v_ticket_id
+  LEFT JOIN participants p ON p.id = tm.participant_id
+  WHERE t.order_id = v_ticket.order_id
+    AND t.ticket_type_id = v_ticket.ticket_type_id
+    AND t.status <> 'cancelled';
+
+  IF FOUND THEN
+    IF v_team.role IS NOT NULL THEN
+      v_participant_name := v_team.member_name;
+      v_participant_email := v_team.member_email;
+    END IF;
+
+    v_team_info := jsonb_build_object(
+      'name', v_team.name,
+      'role', v_team.role,
+      'member_count', v_team.member_count,
+      'slots', v_team.slots
+    );
+  END IF;
+
+  -- Time slot (wave) van het ticket
+  IF v_ticket.time_slot_id IS NOT NULL THEN
+    SELECT jsonb_build_object(
+      'id', ts.id,
+      'label', ts.label,
+      'slot_time', ts.slot_time,
+      'slot_date', ts.slot_date
+    )
+    INTO v_time_slot_info
+    FROM ticket_time_slots ts
+    WHERE ts.id = v_ticket.time_slot_id;
+  END IF;
+
+  -- Apply PII masking
+  IF v_pii_level = 'masked' THEN
+    v_participant_name := mask_participant_name(v_participant_name);
+    v_participant_email := mask_email(v_participant_email);
+  ELSIF v_pii_level = 'none' THEN
+    v_participant_name := NULL;
+    v_participant_email := NULL;
+  END IF;
+
+  -- Atomic update if valid
+  IF v_result = 'VALID' THEN
+    UPDATE ticket_instances
+    SET status = 'checked_in',
+        checked_in_at = NOW()
+    WHERE id = v_ticket_id;
+  END IF;
+
+  -- Log scan
+  INSERT INTO ticket_scans (
+    ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+    scan_result, reason_code
+  ) VALUES (
+    v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+    v_result, CASE WHEN v_found_via_fallback THEN 'LEGACY_TICKET_AUTO_FIXED' ELSE NULL END
+  );
+
+  -- Get ticket type name
+  SELECT tt.name INTO v_ticket_type_id
+  FROM ticket_types tt
+  WHERE tt.id = v_ticket.ticket_type_id;
+
+  -- Return result
+  RETURN jsonb_build_object(
+    'result', v_result,
+    'ticket', jsonb_build_object(
+      'id', v_ticket_id,
+      'type_name', v_ticket_type_id,
+      'participant_name', v_participant_name,
+      'participant_email', v_participant_email,
+      'checked_in_at', CASE WHEN v_result = 'VALID' THEN NOW() ELSE NULL END,
+      'team', v_team_info,
+      'time_slot', v_time_slot_info,
+      'bib_number', v_ticket.bib_number
+    ),
+    'message', CASE
+      WHEN v_result = 'ALREADY_USED' THEN 'Ticket already scanned'
+      WHEN v_result = 'CANCELLED' THEN 'Ticket has been cancelled'
+      WHEN v_result = 'REFUNDED' THEN 'Ticket has been refunded'
+      WHEN v_found_via_fallback THEN 'Legacy ticket (auto-fixed)'
+      ELSE NULL
+    END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error
+    INSERT INTO ticket_scans (
+      ticket_id, event_id, scanner_user_id, device_id, ip_address, user_agent,
+      scan_result, reason_code
+    ) VALUES (
+      v_ticket_id, _event_id, auth.uid(), _device_id, _ip_address, _user_agent,
+      'ERROR', SQLERRM
+    );
+
+    RETURN jsonb_build_object('error', 'ERROR', 'message', SQLERRM);
+END;
+$$;
+
+COMMENT ON FUNCTION public.scan_ticket IS
+  'F007: Professional ticket scanning with fallback for legacy tickets. F017: includes team membership. F018: includes time slot. F038: includes bib number.';
+
+-- Ongewijzigd t.o.v. F019 behalve:
+-- - bib_number per ticket (geen PII)
+
+CREATE OR REPLACE FUNCTION public.get_offline_scan_snapshot(
+  _event_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_settings JSONB;
+  v_tickets JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT org_id INTO v_org_id
+  FROM events
+  WHERE id = _event_id
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  SELECT setting_value INTO v_settings
+  FROM event_settings
+  WHERE event_id = _event_id AND domain = 'scanning';
+
+  IF v_settings IS NULL THEN
+    v_settings := (SELECT get_default_settings()->'scanning');
+  END IF;
+
+  IF (v_settings->>'enabled')::boolean = false THEN
+    RETURN jsonb_build_object('error', 'SCANNING_DISABLED');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'token_hash', COALESCE(
+      ti.token_hash,
+      encode(extensions.digest(ti.qr_code::bytea, 'sha256'::text), 'hex')
+    ),
+    'ticket_id', ti.id,
+    'status', ti.status,
+    'type_name', tt.name,
+    'checked_in_at', ti.checked_in_at,
+    'bib_number', ti.bib_number,
+    'time_slot', CASE WHEN ts.id IS NOT NULL THEN jsonb_build_object(
+      'id', ts.id,
+      'label', ts.label,
+      'slot_time', ts.slot_time,
+      'slot_date', ts.slot_date
+    ) END
+  )), '[]'::jsonb)
+  INTO v_tickets
+  FROM ticket_instances ti
+  JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+  LEFT JOIN ticket_time_slots ts ON ts.id = ti.time_slot_id
+  WHERE ti.event_id = _event_id
+    AND (ti.token_hash IS NOT NULL OR ti.qr_code IS NOT NULL);
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'event_id', _event_id,
+    'generated_at', NOW(),
+    'tickets', v_tickets
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_offline_scan_snapshot(UUID) IS
+  'F019: Hashed ticket tokens + status for offline validation by scanners (org members, no PII). F038: includes bib number.';
+
+GRANT EXECUTE ON FUNCTION public.get_offline_scan_snapshot(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 11. RPC: get_ticket_pdf_data (bib_number)
+-- ===========================================================================
+-- Ongewijzigd t.o.v. F026 behalve:
+-- - bib_number per ticket voor de PDF
+
+CREATE OR REPLACE FUNCTION public.get_ticket_pdf_data(
+  _order_id UUID DEFAULT NULL,
+  _ticket_instance_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_event RECORD;
+  v_ticket RECORD;
+  v_ticket_pdf JSONB;
+  v_banner JSONB;
+  v_participant RECORD;
+  v_tickets JSONB := '[]'::jsonb;
+BEGIN
+  IF (_order_id IS NULL) = (_ticket_instance_id IS NULL) THEN
+    RETURN jsonb_build_object('error', 'ORDER_OR_TICKET_REQUIRED');
+  END IF;
+
+  IF _ticket_instance_id IS NOT NULL THEN
+    SELECT order_id INTO _order_id
+    FROM ticket_instances
+    WHERE id = _ticket_instance_id AND deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('error', 'TICKET_NOT_FOUND');
+    END IF;
+  END IF;
+
+  SELECT o.id, o.event_id, o.user_id, o.email, o.status
+  INTO v_order
+  FROM orders o
+  WHERE o.id = _order_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND');
+  END IF;
+
+  SELECT e.id, e.org_id, e.name, e.slug, e.start_time, e.end_time, e.location_name,
+         org.name AS org_name
+  INTO v_event
+  FROM events e
+  JOIN orgs org ON org.id = e.org_id
+  WHERE e.id = v_order.event_id;
+
+  FOR v_ticket IN
+    SELECT
+      ti.id, ti.qr_code, ti.status, ti.owner_user_id, ti.participant_id, ti.bib_number,
+      tt.name AS ticket_name,
+      ts.label AS slot_label, ts.slot_time, ts.slot_date,
+      tr.to_participant_id AS transfer_participant_id
+    FROM ticket_instances ti
+    JOIN ticket_types tt ON tt.id = ti.ticket_type_id
+    LEFT JOIN ticket_time_slots ts ON ts.id = ti.time_slot_id
+    LEFT JOIN LATERAL (
+      SELECT t.to_participant_id
+      FROM ticket_transfers t
+      WHERE t.ticket_instance_id = ti.id
+        AND t.status = 'accepted'
+        AND t.to_participant_id IS NOT NULL
+      ORDER BY t.accepted_at DESC
+      LIMIT 1
+    ) tr ON true
+    WHERE ti.order_id = _order_id
+      AND ti.deleted_at IS NULL
+      AND (_ticket_instance_id IS NULL OR ti.id = _ticket_instance_id)
+    ORDER BY tt.name, ti.id
+  LOOP
+    -- Order-PDF: overgedragen en ongeldige tickets horen niet meer bij de koper
+    CONTINUE WHEN _ticket_instance_id IS NULL
+      AND (v_ticket.transfer_participant_id IS NOT NULL OR v_ticket.status = 'void');
+
+    SELECT p.* INTO v_participant
+    FROM participants p
+    WHERE p.id = COALESCE(
+      v_ticket.transfer_participant_id,
+      v_ticket.participant_id,
+      (SELECT id FROM participants
+       WHERE user_id = v_ticket.owner_user_id AND v_ticket.owner_user_id IS NOT NULL
+       ORDER BY created_at DESC
+       LIMIT 1)
+    );
+
+    v_tickets := v_tickets || jsonb_build_array(jsonb_build_object(
+      'id', v_ticket.id,
+      'qr_code', v_ticket.qr_code,
+      'status', v_ticket.status,
+      'owner_user_id', v_ticket.owner_user_id,
+      'name', v_ticket.ticket_name,
+      'bib_number', v_ticket.bib_number,
+      'time_slot', CASE WHEN v_ticket.slot_time IS NOT NULL THEN jsonb_build_object(
+        'label', v_ticket.slot_label,
+        'slot_time', v_ticket.slot_time,
+        'slot_date', v_ticket.slot_date
+      ) END,
+      'transferred', v_ticket.transfer_participant_id IS NOT NULL,
+      'holder', CASE WHEN v_participant.id IS NOT NULL THEN
+        public.sanitize_ticket_data(v_event.id, jsonb_strip_nulls(jsonb_build_object(
+          'name', NULLIF(trim(v_participant.first_name || ' ' || v_participant.last_name), ''),
+          'email', v_participant.email,
+          'birthdate', v_participant.birth_date,
+          'gender', v_participant.gender,
+          'phone', v_participant.phone,
+          'address', NULLIF(concat_ws(', ', v_participant.address, v_participant.city), '')
+        )))
+        ELSE '{}'::jsonb END
+    ));
+  END LOOP;
+
+  IF _ticket_instance_id IS NOT NULL AND jsonb_array_length(v_tickets) = 0 THEN
+    RETURN jsonb_build_object('error', 'TICKET_NOT_FOUND');
+  END IF;
+
+  -- Banner: alleen als het storage object bestaat
+  v_ticket_pdf := public.resolve_event_setting(v_event.id, 'ticket_pdf');
+  IF COALESCE(v_ticket_pdf->>'banner_image_id', '') <> '' THEN
+    SELECT jsonb_build_object(
+      'bucket_id', so.bucket_id,
+      'path', so.name,
+      'mimetype', so.metadata->>'mimetype'
+    ) INTO v_banner
+    FROM storage.objects so
+    WHERE so.id = (v_ticket_pdf->>'banner_image_id')::UUID;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'order', jsonb_build_object(
+      'id', v_order.id,
+      'user_id', v_order.user_id,
+      'email', v_order.email,
+      'status', v_order.status
+    ),
+    'event', jsonb_build_object(
+      'id', v_event.id,
+      'org_id', v_event.org_id,
+      'name', v_event.name,
+      'slug', v_event.slug,
+      'start_time', v_event.start_time,
+      'end_time', v_event.end_time,
+      'location_name', v_event.location_name,
+      'org_name', v_event.org_name
+    ),
+    'tickets', v_tickets,
+    'banner', v_banner,
+    'available_from', NULLIF(v_ticket_pdf->>'available_from', ''),
+    'tickets_available', public.are_tickets_available(v_event.id)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_ticket_pdf_data(UUID, UUID) IS
+  'F026: System: event, banner and privacy-filtered ticket data for the ticket PDF (one ticket or a whole order). F038: includes bib number.';
+
+REVOKE ALL ON FUNCTION public.get_ticket_pdf_data(UUID, UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_ticket_pdf_data(UUID, UUID) TO service_role;
+-- ===========================================================================
+-- VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'bib_number_ranges'
+  ) THEN
+    RAISE EXCEPTION 'F038: bib_number_ranges not created';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ticket_instances' AND column_name = 'bib_number'
+  ) THEN
+    RAISE EXCEPTION 'F038: ticket_instances.bib_number not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'assign_bib_number_on_issue_trigger') THEN
+    RAISE EXCEPTION 'F038: assign_bib_number_on_issue_trigger not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'next_bib_number') THEN
+    RAISE EXCEPTION 'F038: next_bib_number not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'assign_bib_numbers') THEN
+    RAISE EXCEPTION 'F038: assign_bib_numbers not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'set_ticket_bib_number') THEN
+    RAISE EXCEPTION 'F038: set_ticket_bib_number not created';
+  END IF;
+
+  RAISE NOTICE 'F038: Bib numbers created successfully';
+END $$;
@@ -0,0 +1,871 @@
+-- ===========================================================================
+-- F039: Race Results
+-- Migration: 20250130100000_f039_race_results.sql
+--
+-- Purpose:
+-- - Uitslagen van de chiptiming importeren (CSV of IOF XML 3.0, in de
+--   browser omgezet naar rijen) en koppelen aan tickets via ticket-id of
+--   startnummer (F038)
+-- - Klassementen per categorie: overall, geslacht, leeftijdscategorie en
+--   wave (ticket_time_slots)
+-- - Gepubliceerde uitslag openbaar met zoeken (get_public_race_results) en
+--   eigen uitslag voor deelnemers in de phone app (get_my_race_results)
+-- ===========================================================================
+
+-- ===========================================================================
+-- 1. TABLES: race_result_imports / race_results
+-- ===========================================================================
+-- Elke import is een volledige uitslag; hooguit één import per event is
+-- gepubliceerd (published_at). Een nieuwe import vervangt zo de vorige
+-- zonder dat de oude meteen weg is.
+--
+-- Een rij zonder match (onbekend startnummer) blijft in de uitslag met de
+-- naam uit het bestand. Bij een match zijn naam, geslacht en geboortedatum
+-- van de deelnemer leidend. Categorie = kolom uit het bestand, anders de
+-- naam van het tickettype. Ranking tijd = netto tijd, anders bruto tijd.
+
+CREATE TABLE IF NOT EXISTS race_result_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  source_format TEXT NOT NULL CHECK (source_format IN ('csv', 'iof_xml')),
+  file_name TEXT,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  published_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_race_result_imports_published
+  ON race_result_imports(event_id)
+  WHERE published_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS race_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id UUID NOT NULL REFERENCES race_result_imports(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+
+  -- Koppeling (NULL = geen match)
+  ticket_instance_id UUID REFERENCES ticket_instances(id) ON DELETE SET NULL,
+  participant_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+  ticket_type_id UUID REFERENCES ticket_types(id) ON DELETE SET NULL,
+  time_slot_id UUID REFERENCES ticket_time_slots(id) ON DELETE SET NULL,
+
+  bib_number INTEGER,
+  first_name TEXT,
+  last_name TEXT,
+  club TEXT,
+  gender TEXT CHECK (gender IN ('M', 'F', 'X')),
+  age_group TEXT,
+  category TEXT,
+
+  status TEXT NOT NULL CHECK (status IN ('finished', 'dnf', 'dns', 'dsq')),
+  net_time_ms INTEGER CHECK (net_time_ms >= 0),
+  gun_time_ms INTEGER CHECK (gun_time_ms >= 0),
+
+  -- Berekend door rank_race_results
+  overall_rank INTEGER,
+  gender_rank INTEGER,
+  age_group_rank INTEGER,
+  wave_rank INTEGER,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_race_results_import ON race_results(import_id, category, overall_rank);
+CREATE INDEX IF NOT EXISTS idx_race_results_ticket ON race_results(ticket_instance_id) WHERE ticket_instance_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_race_results_participant ON race_results(participant_id) WHERE participant_id IS NOT NULL;
+
+COMMENT ON TABLE race_result_imports IS
+  'F039: Imported timing results (CSV / IOF XML) per event; at most one published import per event.';
+COMMENT ON TABLE race_results IS
+  'F039: Result rows of an import, matched to tickets by ticket id or bib number, with overall/gender/age group/wave ranks.';
+
+CREATE TRIGGER handle_updated_at_race_result_imports
+  BEFORE UPDATE ON race_result_imports
+  FOR EACH ROW
+  EXECUTE FUNCTION extensions.moddatetime(updated_at);
+
+ALTER TABLE race_result_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE race_results ENABLE ROW LEVEL SECURITY;
+
+-- Schrijven alleen via RPCs; publiek lezen via get_public_race_results
+CREATE POLICY "Org members can view race_result_imports"
+  ON race_result_imports
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = race_result_imports.event_id
+      AND public.is_org_member(e.org_id)
+  ));
+
+CREATE POLICY "Org members can view race_results"
+  ON race_results
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = race_results.event_id
+      AND public.is_org_member(e.org_id)
+  ));
+
+-- ===========================================================================
+-- 2. FUNCTIONS: ticket_holder_participant_id / result_age_group (intern)
+-- ===========================================================================
+-- Houder van een ticket zoals bij startnummers (F038): geaccepteerde
+-- transfer > deelnemer van het ticket > teamlid > registratie van de
+-- orderregel. Leeftijdscategorieën in blokken van tien jaar op de
+-- leeftijd op de eventdag.
+
+CREATE OR REPLACE FUNCTION public.ticket_holder_participant_id(_ticket_instance_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT t.to_participant_id
+     FROM ticket_transfers t
+     WHERE t.ticket_instance_id = ti.id
+       AND t.status = 'accepted'
+       AND t.to_participant_id IS NOT NULL
+     ORDER BY t.accepted_at DESC
+     LIMIT 1),
+    ti.participant_id,
+    (SELECT tm.participant_id FROM team_members tm WHERE tm.ticket_instance_id = ti.id LIMIT 1),
+    (SELECT r.participant_id
+     FROM registrations r
+     WHERE r.order_item_id = ti.order_item_id AND r.deleted_at IS NULL
+     ORDER BY r.created_at
+     LIMIT 1)
+  )
+  FROM ticket_instances ti
+  WHERE ti.id = _ticket_instance_id;
+$$;
+
+COMMENT ON FUNCTION public.ticket_holder_participant_id(UUID) IS
+  'F039: System: participant holding a ticket (accepted transfer > ticket participant > team member > order item registration).';
+
+REVOKE ALL ON FUNCTION public.ticket_holder_participant_id(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.ticket_holder_participant_id(UUID) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.result_age_group(_age INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _age IS NULL OR _age < 0 OR _age > 120 THEN NULL
+    WHEN _age < 20 THEN 'U20'
+    WHEN _age >= 70 THEN '70+'
+    ELSE (_age / 10 * 10)::TEXT || '-' || (_age / 10 * 10 + 9)::TEXT
+  END;
+$$;
+
+COMMENT ON FUNCTION public.result_age_group(INTEGER) IS
+  'F039: Age group label for results: U20, 20-29 ... 60-69, 70+.';
+
+-- ===========================================================================
+-- 3. FUNCTION: rank_race_results (intern)
+-- ===========================================================================
+-- Alleen finishers met een tijd krijgen een plaats; gelijke tijden delen
+-- de plaats (RANK). Geslacht-, leeftijds- en waveklassement gelden binnen
+-- de categorie; leeftijdscategorie per geslacht (bijv. M 40-49).
+
+CREATE OR REPLACE FUNCTION public.rank_race_results(_import_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE race_results
+  SET overall_rank = NULL, gender_rank = NULL, age_group_rank = NULL, wave_rank = NULL
+  WHERE import_id = _import_id;
+
+  WITH ranked AS (
+    SELECT
+      rr.id,
+      RANK() OVER (PARTITION BY rr.category ORDER BY rr.ranking_time) AS overall_rank,
+      RANK() OVER (PARTITION BY rr.category, rr.gender ORDER BY rr.ranking_time) AS gender_rank,
+      RANK() OVER (PARTITION BY rr.category, rr.gender, rr.age_group ORDER BY rr.ranking_time) AS age_group_rank,
+      RANK() OVER (PARTITION BY rr.category, rr.time_slot_id ORDER BY rr.ranking_time) AS wave_rank
+    FROM (
+      SELECT r.*, COALESCE(r.net_time_ms, r.gun_time_ms) AS ranking_time
+      FROM race_results r
+      WHERE r.import_id = _import_id
+        AND r.status = 'finished'
+        AND COALESCE(r.net_time_ms, r.gun_time_ms) IS NOT NULL
+    ) rr
+  )
+  UPDATE race_results r SET
+    overall_rank = ranked.overall_rank,
+    gender_rank = CASE WHEN r.gender IS NOT NULL THEN ranked.gender_rank END,
+    age_group_rank = CASE WHEN r.gender IS NOT NULL AND r.age_group IS NOT NULL THEN ranked.age_group_rank END,
+    wave_rank = CASE WHEN r.time_slot_id IS NOT NULL THEN ranked.wave_rank END
+  FROM ranked
+  WHERE r.id = ranked.id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.rank_race_results(UUID) IS
+  'F039: System: compute overall, gender, age group and wave ranks of an import (per category).';
+
+REVOKE ALL ON FUNCTION public.rank_race_results(UUID) FROM public;
+GRANT EXECUTE ON FUNCTION public.rank_race_results(UUID) TO service_role;
+
+-- ===========================================================================
+-- 4. RPC: import_race_results
+-- ===========================================================================
+-- _rows is een array van objecten (het bestand is al in de browser
+-- geparsed): { bib, ticket_instance_id, first_name, last_name, club,
+-- gender, birth_date, birth_year, category, status, net_time_ms,
+-- gun_time_ms }. Alles of niets: een ongeldige rij of een ticket dat twee
+-- keer voorkomt breekt de import af met het rijnummer (1 = eerste rij).
+
+CREATE OR REPLACE FUNCTION public.import_race_results(
+  _event_id UUID,
+  _source_format TEXT,
+  _rows JSONB,
+  _file_name TEXT DEFAULT NULL,
+  _publish BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event RECORD;
+  v_import_id UUID;
+  v_row JSONB;
+  v_index INTEGER := 0;
+  v_ticket_id UUID;
+  v_ticket_type_id UUID;
+  v_time_slot_id UUID;
+  v_ticket_bib INTEGER;
+  v_participant participants%ROWTYPE;
+  v_bib INTEGER;
+  v_gender TEXT;
+  v_age INTEGER;
+  v_status TEXT;
+  v_net_time INTEGER;
+  v_gun_time INTEGER;
+  v_matched INTEGER := 0;
+  v_unmatched JSONB := '[]'::jsonb;
+BEGIN
+  SELECT e.id, e.org_id, e.start_time INTO v_event
+  FROM events e
+  WHERE e.id = _event_id AND e.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT (public.has_role(v_event.org_id, 'admin') OR public.has_role(v_event.org_id, 'owner')) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF _source_format IS NULL OR _source_format NOT IN ('csv', 'iof_xml') THEN
+    RETURN jsonb_build_object('error', 'INVALID_FORMAT');
+  END IF;
+
+  IF jsonb_typeof(_rows) IS DISTINCT FROM 'array' OR jsonb_array_length(_rows) = 0 THEN
+    RETURN jsonb_build_object('error', 'NO_ROWS');
+  END IF;
+
+  IF jsonb_array_length(_rows) > 20000 THEN
+    RETURN jsonb_build_object('error', 'TOO_MANY_ROWS');
+  END IF;
+
+  INSERT INTO race_result_imports (event_id, source_format, file_name, created_by)
+  VALUES (_event_id, _source_format, NULLIF(trim(_file_name), ''), auth.uid())
+  RETURNING id INTO v_import_id;
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(_rows)
+  LOOP
+    v_index := v_index + 1;
+    v_ticket_id := NULL;
+    v_ticket_type_id := NULL;
+    v_time_slot_id := NULL;
+    v_ticket_bib := NULL;
+    v_participant := NULL;
+
+    BEGIN
+      IF jsonb_typeof(v_row) <> 'object' THEN
+        RAISE EXCEPTION 'row is not an object';
+      END IF;
+
+      v_bib := NULLIF(trim(v_row->>'bib'), '')::INTEGER;
+      v_net_time := (v_row->>'net_time_ms')::NUMERIC::INTEGER;
+      v_gun_time := (v_row->>'gun_time_ms')::NUMERIC::INTEGER;
+      v_status := lower(COALESCE(NULLIF(trim(v_row->>'status'), ''), 'finished'));
+
+      IF v_status NOT IN ('finished', 'dnf', 'dns', 'dsq') THEN
+        RAISE EXCEPTION 'invalid status %', v_status;
+      END IF;
+
+      IF v_net_time < 0 OR v_gun_time < 0 THEN
+        RAISE EXCEPTION 'negative time';
+      END IF;
+
+      -- Match: ticket-id, anders startnummer
+      IF COALESCE(v_row->>'ticket_instance_id', '') <> '' THEN
+        SELECT ti.id, ti.ticket_type_id, ti.time_slot_id, ti.bib_number
+        INTO v_ticket_id, v_ticket_type_id, v_time_slot_id, v_ticket_bib
+        FROM ticket_instances ti
+        WHERE ti.id = (v_row->>'ticket_instance_id')::UUID
+          AND ti.event_id = _event_id
+          AND ti.deleted_at IS NULL;
+      ELSIF v_bib IS NOT NULL THEN
+        SELECT ti.id, ti.ticket_type_id, ti.time_slot_id, ti.bib_number
+        INTO v_ticket_id, v_ticket_type_id, v_time_slot_id, v_ticket_bib
+        FROM ticket_instances ti
+        WHERE ti.event_id = _event_id
+          AND ti.bib_number = v_bib
+          AND ti.status <> 'void'
+          AND ti.deleted_at IS NULL;
+      END IF;
+
+      IF v_ticket_id IS NOT NULL THEN
+        SELECT p.* INTO v_participant
+        FROM participants p
+        WHERE p.id = public.ticket_holder_participant_id(v_ticket_id);
+      END IF;
+
+      v_gender := CASE upper(left(COALESCE(NULLIF(v_participant.gender::TEXT, ''), trim(v_row->>'gender')), 1))
+        WHEN 'M' THEN 'M'
+        WHEN 'F' THEN 'F'
+        WHEN 'V' THEN 'F'
+        WHEN 'W' THEN 'F'
+        WHEN 'X' THEN 'X'
+        ELSE NULL
+      END;
+
+      v_age := COALESCE(
+        date_part('year', age(v_event.start_time::DATE, v_participant.birth_date))::INTEGER,
+        date_part('year', age(v_event.start_time::DATE, NULLIF(v_row->>'birth_date', '')::DATE))::INTEGER,
+        date_part('year', v_event.start_time)::INTEGER - NULLIF(v_row->>'birth_year', '')::INTEGER
+      );
+
+      INSERT INTO race_results (
+        import_id, event_id, row_number,
+        ticket_instance_id, participant_id, ticket_type_id, time_slot_id,
+        bib_number, first_name, last_name, club, gender, age_group, category,
+        status, net_time_ms, gun_time_ms
+      ) VALUES (
+        v_import_id,
+        _event_id,
+        v_index,
+        v_ticket_id,
+        v_participant.id,
+        v_ticket_type_id,
+        v_time_slot_id,
+        COALESCE(v_bib, v_ticket_bib),
+        COALESCE(NULLIF(trim(v_participant.first_name), ''), NULLIF(trim(v_row->>'first_name'), '')),
+        COALESCE(NULLIF(trim(v_participant.last_name), ''), NULLIF(trim(v_row->>'last_name'), '')),
+        NULLIF(trim(v_row->>'club'), ''),
+        v_gender,
+        public.result_age_group(v_age),
+        COALESCE(
+          NULLIF(trim(v_row->>'category'), ''),
+          (SELECT tt.name FROM ticket_types tt WHERE tt.id = v_ticket_type_id)
+        ),
+        v_status,
+        v_net_time,
+        v_gun_time
+      );
+    EXCEPTION WHEN others THEN
+      -- Hele import terugdraaien: de import-rij is in dezelfde transactie aangemaakt
+      DELETE FROM race_result_imports WHERE id = v_import_id;
+      RETURN jsonb_build_object('error', 'INVALID_ROW', 'row', v_index, 'message', SQLERRM);
+    END;
+
+    IF v_ticket_id IS NOT NULL THEN
+      v_matched := v_matched + 1;
+    ELSE
+      v_unmatched := v_unmatched || jsonb_build_array(jsonb_build_object(
+        'row', v_index,
+        'bib', v_row->>'bib',
+        'name', NULLIF(trim(concat_ws(' ', v_row->>'first_name', v_row->>'last_name')), '')
+      ));
+    END IF;
+  END LOOP;
+
+  -- Een ticket mag maar één keer in de uitslag staan
+  SELECT MIN(r.row_number) INTO v_index
+  FROM race_results r
+  WHERE r.import_id = v_import_id
+    AND r.ticket_instance_id IN (
+      SELECT x.ticket_instance_id FROM race_results x
+      WHERE x.import_id = v_import_id AND x.ticket_instance_id IS NOT NULL
+      GROUP BY x.ticket_instance_id
+      HAVING COUNT(*) > 1
+    );
+
+  IF v_index IS NOT NULL THEN
+    DELETE FROM race_result_imports WHERE id = v_import_id;
+    RETURN jsonb_build_object('error', 'DUPLICATE_TICKET', 'row', v_index);
+  END IF;
+
+  PERFORM public.rank_race_results(v_import_id);
+
+  UPDATE race_result_imports
+  SET row_count = jsonb_array_length(_rows),
+      matched_count = v_matched
+  WHERE id = v_import_id;
+
+  IF COALESCE(_publish, false) THEN
+    UPDATE race_result_imports SET published_at = NULL
+    WHERE event_id = _event_id AND published_at IS NOT NULL;
+
+    UPDATE race_result_imports SET published_at = NOW() WHERE id = v_import_id;
+  END IF;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_event.org_id,
+    auth.uid(),
+    'RACE_RESULTS_IMPORTED',
+    'race_result_import',
+    v_import_id,
+    jsonb_build_object(
+      'event_id', _event_id,
+      'source_format', _source_format,
+      'file_name', _file_name,
+      'row_count', jsonb_array_length(_rows),
+      'matched_count', v_matched,
+      'published', COALESCE(_publish, false)
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'import_id', v_import_id,
+    'row_count', jsonb_array_length(_rows),
+    'matched_count', v_matched,
+    'unmatched', v_unmatched
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.import_race_results(UUID, TEXT, JSONB, TEXT, BOOLEAN) IS
+  'F039: Import parsed timing results, match them to tickets by ticket id or bib number and compute rankings (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.import_race_results(UUID, TEXT, JSONB, TEXT, BOOLEAN) TO authenticated;
+
+-- ===========================================================================
+-- 5. RPC: publish_race_results / delete_race_result_import
+-- ===========================================================================
+
+CREATE OR REPLACE FUNCTION public.publish_race_results(
+  _import_id UUID,
+  _published BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_import RECORD;
+BEGIN
+  SELECT i.id, i.event_id, e.org_id INTO v_import
+  FROM race_result_imports i
+  JOIN events e ON e.id = i.event_id
+  WHERE i.id = _import_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'IMPORT_NOT_FOUND');
+  END IF;
+
+  IF NOT (public.has_role(v_import.org_id, 'admin') OR public.has_role(v_import.org_id, 'owner')) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  UPDATE race_result_imports SET published_at = NULL
+  WHERE event_id = v_import.event_id AND published_at IS NOT NULL;
+
+  IF COALESCE(_published, true) THEN
+    UPDATE race_result_imports SET published_at = NOW() WHERE id = _import_id;
+  END IF;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_import.org_id,
+    auth.uid(),
+    CASE WHEN COALESCE(_published, true) THEN 'RACE_RESULTS_PUBLISHED' ELSE 'RACE_RESULTS_UNPUBLISHED' END,
+    'race_result_import',
+    _import_id,
+    jsonb_build_object('event_id', v_import.event_id)
+  );
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.publish_race_results(UUID, BOOLEAN) IS
+  'F039: Publish an import as the public results of its event (replacing the previous one) or unpublish it (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.publish_race_results(UUID, BOOLEAN) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.delete_race_result_import(_import_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_import RECORD;
+BEGIN
+  SELECT i.id, i.event_id, i.file_name, i.published_at, e.org_id INTO v_import
+  FROM race_result_imports i
+  JOIN events e ON e.id = i.event_id
+  WHERE i.id = _import_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'IMPORT_NOT_FOUND');
+  END IF;
+
+  IF NOT (public.has_role(v_import.org_id, 'admin') OR public.has_role(v_import.org_id, 'owner')) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  IF v_import.published_at IS NOT NULL THEN
+    RETURN jsonb_build_object('error', 'IMPORT_PUBLISHED');
+  END IF;
+
+  DELETE FROM race_result_imports WHERE id = _import_id;
+
+  INSERT INTO audit_log (org_id, actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_import.org_id,
+    auth.uid(),
+    'RACE_RESULTS_DELETED',
+    'race_result_import',
+    _import_id,
+    jsonb_build_object('event_id', v_import.event_id, 'file_name', v_import.file_name)
+  );
+
+  RETURN jsonb_build_object('status', 'OK');
+END;
+$$;
+
+COMMENT ON FUNCTION public.delete_race_result_import(UUID) IS
+  'F039: Delete an unpublished results import (admin/owner).';
+
+GRANT EXECUTE ON FUNCTION public.delete_race_result_import(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 6. RPC: get_race_results_admin
+-- ===========================================================================
+-- Imports met aantallen per categorie en de rijen zonder match, zodat de
+-- organisator ontbrekende startnummers kan nakijken.
+
+CREATE OR REPLACE FUNCTION public.get_race_results_admin(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  SELECT org_id INTO v_org_id FROM events WHERE id = _event_id AND deleted_at IS NULL;
+
+  IF v_org_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  IF NOT public.is_org_member(v_org_id) THEN
+    RETURN jsonb_build_object('error', 'UNAUTHORIZED');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'can_edit', public.has_role(v_org_id, 'admin') OR public.has_role(v_org_id, 'owner'),
+    'imports', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', i.id,
+        'source_format', i.source_format,
+        'file_name', i.file_name,
+        'row_count', i.row_count,
+        'matched_count', i.matched_count,
+        'published_at', i.published_at,
+        'created_at', i.created_at,
+        'categories', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'name', c.category,
+            'results', c.results,
+            'finishers', c.finishers
+          ) ORDER BY c.category NULLS LAST)
+          FROM (
+            SELECT r.category, COUNT(*) AS results, COUNT(r.overall_rank) AS finishers
+            FROM race_results r
+            WHERE r.import_id = i.id
+            GROUP BY r.category
+          ) c
+        ), '[]'::jsonb),
+        'unmatched', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'row', u.row_number,
+            'bib', u.bib_number,
+            'name', NULLIF(trim(concat_ws(' ', u.first_name, u.last_name)), ''),
+            'category', u.category
+          ) ORDER BY u.row_number)
+          FROM (
+            SELECT r.* FROM race_results r
+            WHERE r.import_id = i.id AND r.ticket_instance_id IS NULL
+            ORDER BY r.row_number
+            LIMIT 200
+          ) u
+        ), '[]'::jsonb)
+      ) ORDER BY i.created_at DESC)
+      FROM race_result_imports i
+      WHERE i.event_id = _event_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_race_results_admin(UUID) IS
+  'F039: Results imports of an event with per-category counts and unmatched rows, for org members.';
+
+GRANT EXECUTE ON FUNCTION public.get_race_results_admin(UUID) TO authenticated;
+
+-- ===========================================================================
+-- 7. RPC: get_public_race_results
+-- ===========================================================================
+-- Gepubliceerde uitslag van een published of closed event. Zoeken op naam,
+-- club of startnummer; zonder zoekterm de gekozen (of eerste) categorie.
+-- Geen contactgegevens of geboortedata, alleen wat op een uitslag hoort.
+
+CREATE OR REPLACE FUNCTION public.get_public_race_results(
+  _event_slug TEXT,
+  _category TEXT DEFAULT NULL,
+  _search TEXT DEFAULT NULL,
+  _page INTEGER DEFAULT 1,
+  _page_size INTEGER DEFAULT 100
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event RECORD;
+  v_import RECORD;
+  v_search TEXT := NULLIF(lower(trim(COALESCE(_search, ''))), '');
+  v_category TEXT := NULLIF(trim(COALESCE(_category, '')), '');
+  v_page_size INTEGER := LEAST(GREATEST(COALESCE(_page_size, 100), 1), 500);
+  v_page INTEGER := GREATEST(COALESCE(_page, 1), 1);
+  v_total INTEGER;
+  v_results JSONB;
+BEGIN
+  SELECT e.id, e.slug, e.name INTO v_event
+  FROM events e
+  WHERE e.slug = _event_slug
+    AND e.status IN ('published', 'closed')
+    AND e.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'EVENT_NOT_FOUND');
+  END IF;
+
+  SELECT i.id, i.published_at INTO v_import
+  FROM race_result_imports i
+  WHERE i.event_id = v_event.id AND i.published_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'RESULTS_NOT_PUBLISHED');
+  END IF;
+
+  IF v_search IS NULL AND v_category IS NULL THEN
+    SELECT r.category INTO v_category
+    FROM race_results r
+    WHERE r.import_id = v_import.id
+    GROUP BY r.category
+    ORDER BY r.category NULLS LAST
+    LIMIT 1;
+  END IF;
+
+  SELECT COUNT(*),
+    jsonb_agg(jsonb_build_object(
+      'id', x.id,
+      'bib_number', x.bib_number,
+      'name', NULLIF(trim(concat_ws(' ', x.first_name, x.last_name)), ''),
+      'club', x.club,
+      'gender', x.gender,
+      'age_group', x.age_group,
+      'category', x.category,
+      'wave', x.wave,
+      'status', x.status,
+      'net_time_ms', x.net_time_ms,
+      'gun_time_ms', x.gun_time_ms,
+      'overall_rank', x.overall_rank,
+      'gender_rank', x.gender_rank,
+      'age_group_rank', x.age_group_rank,
+      'wave_rank', x.wave_rank
+    ) ORDER BY x.category NULLS LAST, x.overall_rank NULLS LAST, x.status, x.last_name, x.first_name)
+    FILTER (WHERE x.position > (v_page - 1) * v_page_size AND x.position <= v_page * v_page_size)
+  INTO v_total, v_results
+  FROM (
+    SELECT r.*, ts.label AS wave,
+      ROW_NUMBER() OVER (
+        ORDER BY r.category NULLS LAST, r.overall_rank NULLS LAST, r.status, r.last_name, r.first_name, r.row_number
+      ) AS position
+    FROM race_results r
+    LEFT JOIN ticket_time_slots ts ON ts.id = r.time_slot_id
+    WHERE r.import_id = v_import.id
+      AND (v_search IS NOT NULL OR r.category IS NOT DISTINCT FROM v_category)
+      AND (v_search IS NULL
+           OR lower(concat_ws(' ', r.first_name, r.last_name)) LIKE '%' || v_search || '%'
+           OR lower(COALESCE(r.club, '')) LIKE '%' || v_search || '%'
+           OR r.bib_number::TEXT = v_search)
+  ) x;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'event', jsonb_build_object('id', v_event.id, 'slug', v_event.slug, 'name', v_event.name),
+    'published_at', v_import.published_at,
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', c.category,
+        'results', c.results,
+        'finishers', c.finishers
+      ) ORDER BY c.category NULLS LAST)
+      FROM (
+        SELECT r.category, COUNT(*) AS results, COUNT(r.overall_rank) AS finishers
+        FROM race_results r
+        WHERE r.import_id = v_import.id
+        GROUP BY r.category
+      ) c
+    ), '[]'::jsonb),
+    'category', CASE WHEN v_search IS NULL THEN v_category END,
+    'search', v_search,
+    'total', COALESCE(v_total, 0),
+    'page', v_page,
+    'pages', CEIL(COALESCE(v_total, 0)::NUMERIC / v_page_size),
+    'results', COALESCE(v_results, '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_public_race_results(TEXT, TEXT, TEXT, INTEGER, INTEGER) IS
+  'F039: Public: published results of an event per category or by search (name, club, bib), paginated.';
+
+GRANT EXECUTE ON FUNCTION public.get_public_race_results(TEXT, TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+-- ===========================================================================
+-- 8. RPC: get_my_race_results (phone app)
+-- ===========================================================================
+-- Eigen uitslagen uit gepubliceerde imports: via de deelnemer (user_id) of
+-- als eigenaar van het ticket. Met het aantal finishers per klassement,
+-- zodat de app "12 / 340" kan tonen.
+
+CREATE OR REPLACE FUNCTION public.get_my_race_results()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('error', 'NOT_AUTHENTICATED');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'OK',
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'event_id', r.event_id,
+        'ticket_instance_id', r.ticket_instance_id,
+        'ticket_type_id', r.ticket_type_id,
+        'bib_number', r.bib_number,
+        'category', r.category,
+        'gender', r.gender,
+        'age_group', r.age_group,
+        'wave', ts.label,
+        'status', r.status,
+        'net_time_ms', r.net_time_ms,
+        'gun_time_ms', r.gun_time_ms,
+        'overall_rank', r.overall_rank,
+        'gender_rank', r.gender_rank,
+        'age_group_rank', r.age_group_rank,
+        'wave_rank', r.wave_rank,
+        'overall_count', (
+          SELECT COUNT(*) FROM race_results x
+          WHERE x.import_id = r.import_id AND x.category IS NOT DISTINCT FROM r.category
+            AND x.overall_rank IS NOT NULL
+        ),
+        'gender_count', (
+          SELECT COUNT(*) FROM race_results x
+          WHERE x.import_id = r.import_id AND x.category IS NOT DISTINCT FROM r.category
+            AND x.gender = r.gender AND x.gender_rank IS NOT NULL
+        ),
+        'age_group_count', (
+          SELECT COUNT(*) FROM race_results x
+          WHERE x.import_id = r.import_id AND x.category IS NOT DISTINCT FROM r.category
+            AND x.gender = r.gender AND x.age_group = r.age_group AND x.age_group_rank IS NOT NULL
+        )
+      ) ORDER BY i.published_at DESC)
+      FROM race_results r
+      JOIN race_result_imports i ON i.id = r.import_id AND i.published_at IS NOT NULL
+      LEFT JOIN ticket_time_slots ts ON ts.id = r.time_slot_id
+      LEFT JOIN participants p ON p.id = r.participant_id
+      LEFT JOIN ticket_instances ti ON ti.id = r.ticket_instance_id
+      WHERE p.user_id = auth.uid() OR ti.owner_user_id = auth.uid()
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_my_race_results() IS
+  'F039: Published results of the current user (as participant or ticket owner) with ranks and ranking sizes.';
+
+GRANT EXECUTE ON FUNCTION public.get_my_race_results() TO authenticated;
+
+-- ===========================================================================
+-- VERIFICATION
+-- ===========================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'race_result_imports'
+  ) THEN
+    RAISE EXCEPTION 'F039: race_result_imports not created';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'race_results'
+  ) THEN
+    RAISE EXCEPTION 'F039: race_results not created';
+  END IF;
+
+  IF public.result_age_group(44) <> '40-49' OR public.result_age_group(17) <> 'U20' THEN
+    RAISE EXCEPTION 'F039: result_age_group returns wrong groups';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'import_race_results') THEN
+    RAISE EXCEPTION 'F039: import_race_results not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_public_race_results') THEN
+    RAISE EXCEPTION 'F039: get_public_race_results not created';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_my_race_results') THEN
+    RAISE EXCEPTION 'F039: get_my_race_results not created';
+  END IF;
+
+  RAISE NOTICE 'F039: Race results created successfully';
+END $$;
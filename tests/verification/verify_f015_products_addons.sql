@@ -0,0 +1,122 @@
+-- =============================================================================
+-- Verification Script: F015 Products & Add-ons
+-- Purpose: Verify product catalogue, stock checks and pick list fulfillment
+--
+-- Run this after applying migrations to verify:
+-- 1. Tables + order_items columns exist
+-- 2. RLS is enabled
+-- 3. Functions + trigger exist
+-- 4. order_items line type constraint
+-- 5. Functional: stock check, pricing, pick list (replace YOUR_EVENT_ID_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Tables and columns exist
+-- =============================================================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.tables
+                   WHERE table_schema = 'public' AND table_name = 'products') THEN
+        RAISE EXCEPTION 'FAILED: products table does not exist';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.tables
+                   WHERE table_schema = 'public' AND table_name = 'product_variants') THEN
+        RAISE EXCEPTION 'FAILED: product_variants table does not exist';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.tables
+                   WHERE table_schema = 'public' AND table_name = 'order_pick_list_items') THEN
+        RAISE EXCEPTION 'FAILED: order_pick_list_items table does not exist';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                   WHERE table_schema = 'public' AND table_name = 'order_items'
+                     AND column_name = 'product_variant_id') THEN
+        RAISE EXCEPTION 'FAILED: order_items.product_variant_id does not exist';
+    END IF;
+    RAISE NOTICE 'CHECK 1 PASSED: Tables and columns exist';
+END $$;
+
+-- =============================================================================
+-- CHECK 2: RLS enabled
+-- =============================================================================
+SELECT tablename, rowsecurity
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename IN ('products', 'product_variants', 'order_pick_list_items');
+-- Expected: rowsecurity = true for all 3
+
+-- =============================================================================
+-- CHECK 3: Functions and trigger exist
+-- =============================================================================
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'get_product_availability',
+    'validate_checkout_capacity',
+    'calculate_order_pricing',
+    'create_order_pick_list',
+    'fulfill_order',
+    'get_event_pick_list'
+);
+-- Expected: 6 rows
+
+SELECT tgname
+FROM pg_trigger
+WHERE tgname = 'create_pick_list_on_order_paid_trigger';
+-- Expected: 1 row
+
+-- =============================================================================
+-- CHECK 4: order_items cannot be both ticket and product
+-- =============================================================================
+SELECT conname, pg_get_constraintdef(oid)
+FROM pg_constraint
+WHERE conname = 'order_items_line_type_check';
+-- Expected: 1 row
+
+-- =============================================================================
+-- CHECK 5: Functional (run manually with a published event)
+-- =============================================================================
+
+-- 5a. Create a product with two variants (stock 1 each)
+-- INSERT INTO products (event_id, name, category, price, status)
+-- VALUES ('YOUR_EVENT_ID_HERE', 'Event T-shirt', 'merchandise', 20.00, 'published')
+-- RETURNING id;
+--
+-- INSERT INTO product_variants (product_id, name, stock_total, price_adjustment) VALUES
+--   ('YOUR_PRODUCT_ID_HERE', 'M', 1, 0),
+--   ('YOUR_PRODUCT_ID_HERE', 'XL', 1, 2.50);
+
+-- 5b. Public availability
+-- SELECT get_product_availability('YOUR_EVENT_ID_HERE');
+-- Expected: products[0].variants with M = 20.00 and XL = 22.50, available_count = 1
+
+-- 5c. Checkout validation: variant is required
+-- SELECT validate_checkout_capacity('YOUR_EVENT_ID_HERE',
+--   '[{"product_id": "YOUR_PRODUCT_ID_HERE", "quantity": 1}]'::jsonb);
+-- Expected: valid = false, reason = 'Variant required, ...'
+
+-- 5d. Checkout validation: stock exceeded
+-- SELECT validate_checkout_capacity('YOUR_EVENT_ID_HERE',
+--   '[{"product_id": "YOUR_PRODUCT_ID_HERE", "product_variant_id": "YOUR_VARIANT_ID_HERE", "quantity": 2}]'::jsonb);
+-- Expected: valid = false, reason = 'Insufficient stock'
+
+-- 5e. Mixed order: ticket + product line
+-- SELECT validate_checkout_capacity('YOUR_EVENT_ID_HERE',
+--   '[{"ticket_type_id": "YOUR_TICKET_TYPE_ID_HERE", "quantity": 1},
+--     {"product_id": "YOUR_PRODUCT_ID_HERE", "product_variant_id": "YOUR_VARIANT_ID_HERE", "quantity": 1}]'::jsonb);
+-- Expected: valid = true, details contain line_type 'ticket' and 'product',
+--           total_price = ticket price + variant price
+
+-- 5f. Pick list after payment
+-- UPDATE orders SET status = 'paid' WHERE id = 'YOUR_ORDER_ID_HERE';
+-- SELECT * FROM order_pick_list_items WHERE order_id = 'YOUR_ORDER_ID_HERE';
+-- Expected: 1 row per product line, status = 'pending'
+--
+-- SELECT count(*) FROM ticket_instances ti
+-- JOIN order_items oi ON oi.id = ti.order_item_id
+-- WHERE oi.order_id = 'YOUR_ORDER_ID_HERE' AND oi.product_id IS NOT NULL;
+-- Expected: 0 (products never become ticket instances)
+
+-- 5g. fulfill_order is idempotent for pick list rows
+-- SELECT * FROM fulfill_order('YOUR_ORDER_ID_HERE');
+-- SELECT count(*) FROM order_pick_list_items WHERE order_id = 'YOUR_ORDER_ID_HERE';
+-- Expected: same count as after 5f
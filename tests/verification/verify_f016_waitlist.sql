@@ -0,0 +1,114 @@
+-- =============================================================================
+-- Verification Script: F016 Waitlist
+-- Purpose: Verify waitlist queue, offers, held capacity and accept/expire flow
+--
+-- Run this after applying migrations to verify:
+-- 1. Tables exist
+-- 2. RLS is enabled
+-- 3. Functions + trigger exist
+-- 4. validate_checkout_capacity has the waitlist offer parameter (single overload)
+-- 5. Functional: join, offer, hold, accept, expire (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Tables exist
+-- =============================================================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.tables
+                   WHERE table_schema = 'public' AND table_name = 'waitlist_entries') THEN
+        RAISE EXCEPTION 'FAILED: waitlist_entries table does not exist';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.tables
+                   WHERE table_schema = 'public' AND table_name = 'waitlist_offers') THEN
+        RAISE EXCEPTION 'FAILED: waitlist_offers table does not exist';
+    END IF;
+    RAISE NOTICE 'CHECK 1 PASSED: Tables exist';
+END $$;
+
+-- =============================================================================
+-- CHECK 2: RLS enabled
+-- =============================================================================
+SELECT tablename, rowsecurity
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename IN ('waitlist_entries', 'waitlist_offers');
+-- Expected: rowsecurity = true for both
+
+-- =============================================================================
+-- CHECK 3: Functions and trigger exist
+-- =============================================================================
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'get_ticket_type_free_capacity',
+    'join_waitlist',
+    'process_waitlist',
+    'expire_waitlist_offers',
+    'get_waitlist_offer',
+    'accept_waitlist_offer'
+);
+-- Expected: 6 rows
+
+SELECT tgname
+FROM pg_trigger
+WHERE tgname = 'process_waitlist_on_capacity_increase_trigger';
+-- Expected: 1 row
+
+-- =============================================================================
+-- CHECK 4: validate_checkout_capacity has exactly one overload
+-- =============================================================================
+SELECT proname, pg_get_function_identity_arguments(oid)
+FROM pg_proc
+WHERE proname = 'validate_checkout_capacity';
+-- Expected: 1 row: _event_id uuid, _items jsonb, _waitlist_offer_id uuid
+
+-- =============================================================================
+-- CHECK 5: Functional (run manually with a published event, waitlist enabled)
+-- =============================================================================
+
+-- 5a. Enable waitlist and sell out a ticket type (capacity 1, one paid order)
+-- SELECT set_event_config('YOUR_EVENT_ID_HERE', 'waitlist', '{"enabled": true}'::jsonb);
+-- SELECT is_waitlist_enabled('YOUR_EVENT_ID_HERE');
+-- Expected: true
+--
+-- SELECT get_ticket_type_free_capacity('YOUR_TICKET_TYPE_ID_HERE');
+-- Expected: 0
+
+-- 5b. Join the waitlist
+-- SELECT join_waitlist('YOUR_TICKET_TYPE_ID_HERE', 'wacht@example.com', 'Wachtende', 1);
+-- Expected: status = 'OK', position = 1
+--
+-- SELECT join_waitlist('YOUR_TICKET_TYPE_ID_HERE', 'WACHT@example.com', NULL, 1);
+-- Expected: error = 'ALREADY_ON_WAITLIST'
+
+-- 5c. Free capacity via a cancelled order → offer + email
+-- UPDATE orders SET status = 'pending', created_at = NOW() - INTERVAL '2 hours'
+-- WHERE id = 'YOUR_ORDER_ID_HERE';
+-- SELECT cleanup_stale_pending_orders();
+-- SELECT status, expires_at FROM waitlist_offers WHERE ticket_type_id = 'YOUR_TICKET_TYPE_ID_HERE';
+-- Expected: 1 row, status = 'pending', expires_at ≈ now + 24h
+--
+-- SELECT subject, idempotency_key FROM email_outbox WHERE idempotency_key LIKE 'waitlist_offer:%';
+-- Expected: 1 row ('Er is een plek vrij: ...')
+
+-- 5d. Held capacity blocks regular buyers, but not the offer holder
+-- SELECT validate_checkout_capacity('YOUR_EVENT_ID_HERE',
+--   '[{"ticket_type_id": "YOUR_TICKET_TYPE_ID_HERE", "quantity": 1}]'::jsonb);
+-- Expected: valid = false, held_count = 1
+--
+-- SELECT validate_checkout_capacity('YOUR_EVENT_ID_HERE',
+--   '[{"ticket_type_id": "YOUR_TICKET_TYPE_ID_HERE", "quantity": 1}]'::jsonb,
+--   'YOUR_OFFER_ID_HERE');
+-- Expected: valid = true
+
+-- 5e. Accept (normally done by create-order-public)
+-- SELECT accept_waitlist_offer('YOUR_OFFER_ID_HERE', 'YOUR_NEW_ORDER_ID_HERE');
+-- SELECT status FROM waitlist_entries WHERE email = 'wacht@example.com';
+-- Expected: success = true, entry status = 'converted'
+
+-- 5f. Expiry passes the place on
+-- UPDATE waitlist_offers SET expires_at = NOW() - INTERVAL '1 minute' WHERE id = 'YOUR_OFFER_ID_HERE';
+-- SELECT expire_waitlist_offers();
+-- Expected: 1, offer status = 'expired', entry status = 'expired',
+--           next waiting entry (if any) has a new pending offer
@@ -0,0 +1,130 @@
+-- =============================================================================
+-- Verification Script: F017 Team Registration
+-- Purpose: Verify teams, invite/join flow, completeness and scan team info
+--
+-- Run this after applying migrations to verify:
+-- 1. Tables exist
+-- 2. RLS is enabled
+-- 3. Functions + triggers exist (trigger order after registration sync)
+-- 4. registrations_list_v has team columns
+-- 5. Functional: create, activate, join, completeness (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Tables exist
+-- =============================================================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.tables
+                   WHERE table_schema = 'public' AND table_name = 'teams') THEN
+        RAISE EXCEPTION 'FAILED: teams table does not exist';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.tables
+                   WHERE table_schema = 'public' AND table_name = 'team_members') THEN
+        RAISE EXCEPTION 'FAILED: team_members table does not exist';
+    END IF;
+    RAISE NOTICE 'CHECK 1 PASSED: Tables exist';
+END $$;
+
+-- =============================================================================
+-- CHECK 2: RLS enabled
+-- =============================================================================
+SELECT tablename, rowsecurity
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename IN ('teams', 'team_members');
+-- Expected: rowsecurity = true for both
+
+-- =============================================================================
+-- CHECK 3: Functions and triggers exist
+-- =============================================================================
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'get_team_completeness',
+    'create_team_for_order',
+    'assign_team_tickets',
+    'get_team_invite',
+    'join_team',
+    'get_event_teams',
+    'check_team_completeness'
+);
+-- Expected: 7 rows
+
+-- Triggers on orders fire alphabetically: the team trigger must come after
+-- the registration sync (the captain registration must exist)
+SELECT tgname
+FROM pg_trigger
+WHERE tgrelid = 'public.orders'::regclass
+  AND tgname IN ('sync_registration_on_order_paid_trigger', 'team_activation_on_order_paid_trigger')
+ORDER BY tgname;
+-- Expected: sync_registration_on_order_paid_trigger, team_activation_on_order_paid_trigger
+
+SELECT tgname
+FROM pg_trigger
+WHERE tgname = 'assign_team_tickets_on_issue_trigger';
+-- Expected: 1 row
+
+-- =============================================================================
+-- CHECK 4: registrations_list_v team columns
+-- =============================================================================
+SELECT column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND table_name = 'registrations_list_v'
+  AND column_name IN ('team_id', 'team_name', 'team_role');
+-- Expected: 3 rows
+
+-- =============================================================================
+-- CHECK 5: Functional (run manually with a published event)
+-- =============================================================================
+
+-- 5a. Team config on a ticket type (team of 2-4, captain required)
+-- SELECT upsert_ticket_team_config('YOUR_TICKET_TYPE_ID_HERE', true, 2, 4, false, true);
+
+-- 5b. Team size is checked against the config (order with 5 tickets)
+-- SELECT create_team_for_order('YOUR_ORDER_ID_HERE', 'YOUR_TICKET_TYPE_ID_HERE', 'De Snelle Jongens');
+-- Expected: error = 'TEAM_TOO_LARGE'
+--
+-- Order with 3 tickets:
+-- SELECT create_team_for_order('YOUR_ORDER_ID_HERE', 'YOUR_TICKET_TYPE_ID_HERE', 'De Snelle Jongens');
+-- Expected: status = 'OK', invite_code (8 chars), slots = 3; team status = 'pending'
+
+-- 5c. Invite is not usable before payment
+-- SELECT get_team_invite('YOUR_INVITE_CODE_HERE');
+-- Expected: error = 'TEAM_NOT_ACTIVE'
+
+-- 5d. Payment activates the team, captain becomes member, invite email queued
+-- UPDATE orders SET status = 'paid' WHERE id = 'YOUR_ORDER_ID_HERE';
+-- SELECT status FROM teams WHERE invite_code = 'YOUR_INVITE_CODE_HERE';
+-- SELECT role FROM team_members tm JOIN teams t ON t.id = tm.team_id WHERE t.invite_code = 'YOUR_INVITE_CODE_HERE';
+-- SELECT subject FROM email_outbox WHERE idempotency_key LIKE 'team_invite:%';
+-- Expected: 'active', 1 row 'captain', 1 email ('Nodig je team uit: ...')
+
+-- 5e. Member joins with own answers and gets a ticket from the team order
+-- SELECT join_team('YOUR_INVITE_CODE_HERE', 'lid@example.com', 'Sam', 'Lid', '{}'::jsonb);
+-- Expected: status = 'OK', member_count = 2
+--
+-- SELECT join_team('YOUR_INVITE_CODE_HERE', 'LID@example.com', 'Sam', 'Lid', '{}'::jsonb);
+-- Expected: error = 'ALREADY_IN_TEAM'
+--
+-- SELECT tm.ticket_instance_id, ti.participant_id = tm.participant_id AS linked
+-- FROM team_members tm JOIN ticket_instances ti ON ti.id = tm.ticket_instance_id
+-- WHERE tm.registration_id = 'YOUR_REGISTRATION_ID_HERE';
+-- Expected: 1 row, linked = true
+
+-- 5f. Completeness
+-- SELECT get_team_completeness('YOUR_TEAM_ID_HERE');
+-- Expected: is_complete = true (2 members, min 2, captain present)
+--
+-- DELETE FROM team_members WHERE team_id = 'YOUR_TEAM_ID_HERE' AND role = 'captain';
+-- SELECT get_team_completeness('YOUR_TEAM_ID_HERE');
+-- Expected: is_complete = false, issues = ["TOO_FEW_MEMBERS", "NO_CAPTAIN"]
+
+-- 5g. Reminder before the event (event starts within 7 days)
+-- SELECT check_team_completeness('YOUR_EVENT_ID_HERE', 7);
+-- Expected: 1 (incomplete team), email with idempotency_key 'team_incomplete:<team_id>:<date>'
+
+-- 5h. Scan shows team membership
+-- SELECT scan_ticket('YOUR_EVENT_ID_HERE', 'YOUR_MEMBER_TICKET_TOKEN_HERE');
+-- Expected: ticket.team = { name: 'De Snelle Jongens', role: 'member', member_count, slots: 3 }
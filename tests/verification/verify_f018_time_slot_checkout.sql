@@ -0,0 +1,103 @@
+-- =============================================================================
+-- Verification Script: F018 Time Slot (Wave) Checkout
+-- Purpose: Verify slot selection, slot capacity and slot on tickets / scans
+--
+-- Run this after applying migrations to verify:
+-- 1. time_slot_id columns exist
+-- 2. Functions + triggers exist
+-- 3. my_tickets_view has time slot columns
+-- 4. Functional: checkout with slot, slot full, ticket + scan (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Columns exist
+-- =============================================================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                   WHERE table_schema = 'public' AND table_name = 'order_items'
+                     AND column_name = 'time_slot_id') THEN
+        RAISE EXCEPTION 'FAILED: order_items.time_slot_id does not exist';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                   WHERE table_schema = 'public' AND table_name = 'ticket_instances'
+                     AND column_name = 'time_slot_id') THEN
+        RAISE EXCEPTION 'FAILED: ticket_instances.time_slot_id does not exist';
+    END IF;
+    RAISE NOTICE 'CHECK 1 PASSED: Columns exist';
+END $$;
+
+-- =============================================================================
+-- CHECK 2: Functions and triggers exist
+-- =============================================================================
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'get_time_slot_free_capacity',
+    'enforce_time_slot_capacity',
+    'set_ticket_time_slot'
+);
+-- Expected: 3 rows
+
+SELECT tgname
+FROM pg_trigger
+WHERE tgname IN ('enforce_time_slot_capacity_trigger', 'set_ticket_time_slot_trigger');
+-- Expected: 2 rows
+
+-- =============================================================================
+-- CHECK 3: my_tickets_view time slot columns
+-- =============================================================================
+SELECT column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND table_name = 'my_tickets_view'
+  AND column_name IN ('time_slot_id', 'time_slot_label', 'time_slot_time', 'time_slot_date');
+-- Expected: 4 rows
+
+-- =============================================================================
+-- CHECK 4: Functional (run manually with a published event)
+-- =============================================================================
+
+-- 4a. Two waves on a ticket type, wave A holds 2 runners
+-- SELECT upsert_ticket_time_slot('YOUR_TICKET_TYPE_ID_HERE', '08:00', NULL, 'Wave A', 2, 0);
+-- SELECT upsert_ticket_time_slot('YOUR_TICKET_TYPE_ID_HERE', '08:30', NULL, 'Wave B', NULL, 1);
+
+-- 4b. Slot is required for ticket types with slots
+-- SELECT validate_checkout_capacity('YOUR_EVENT_ID_HERE',
+--   '[{"ticket_type_id": "YOUR_TICKET_TYPE_ID_HERE", "quantity": 1}]'::jsonb);
+-- Expected: valid = false, reason = 'Time slot required'
+
+-- 4c. Slot capacity is checked
+-- SELECT validate_checkout_capacity('YOUR_EVENT_ID_HERE',
+--   '[{"ticket_type_id": "YOUR_TICKET_TYPE_ID_HERE", "time_slot_id": "YOUR_WAVE_A_ID_HERE", "quantity": 3}]'::jsonb);
+-- Expected: valid = false, reason = 'Insufficient time slot capacity', available = 2
+--
+-- SELECT validate_checkout_capacity('YOUR_EVENT_ID_HERE',
+--   '[{"ticket_type_id": "YOUR_TICKET_TYPE_ID_HERE", "time_slot_id": "YOUR_WAVE_A_ID_HERE", "quantity": 2}]'::jsonb);
+-- Expected: valid = true, details[0].time_slot_id = wave A, time_slot_label = 'Wave A'
+
+-- 4d. Insert guard: a full wave rejects order items (wave A already has 2 in a pending order)
+-- INSERT INTO order_items (order_id, ticket_type_id, time_slot_id, quantity, unit_price, total_price)
+-- VALUES ('YOUR_PENDING_ORDER_ID_HERE', 'YOUR_TICKET_TYPE_ID_HERE', 'YOUR_WAVE_A_ID_HERE', 1, 0, 0);
+-- Expected: ERROR 'SLOT_FULL'
+--
+-- Slot of another ticket type:
+-- INSERT INTO order_items (order_id, ticket_type_id, time_slot_id, quantity, unit_price, total_price)
+-- VALUES ('YOUR_PENDING_ORDER_ID_HERE', 'YOUR_OTHER_TICKET_TYPE_ID_HERE', 'YOUR_WAVE_A_ID_HERE', 1, 0, 0);
+-- Expected: ERROR 'INVALID_TIME_SLOT'
+
+-- 4e. Availability shows the wave as full
+-- SELECT t->'time_slots'
+-- FROM jsonb_array_elements(get_ticket_availability('YOUR_EVENT_ID_HERE')->'ticket_types') t;
+-- Expected: Wave A is_sold_out = true, available_count = 0; Wave B available_count = null
+
+-- 4f. Tickets inherit the slot after payment
+-- UPDATE orders SET status = 'paid' WHERE id = 'YOUR_ORDER_ID_HERE';
+-- SELECT ti.time_slot_id = oi.time_slot_id AS inherited
+-- FROM ticket_instances ti JOIN order_items oi ON oi.id = ti.order_item_id
+-- WHERE ti.order_id = 'YOUR_ORDER_ID_HERE';
+-- Expected: inherited = true for every ticket
+
+-- 4g. Scan shows the wave
+-- SELECT scan_ticket('YOUR_EVENT_ID_HERE', 'YOUR_TICKET_TOKEN_HERE');
+-- Expected: ticket.time_slot = { label: 'Wave A', slot_time: '08:00:00', ... }
@@ -0,0 +1,63 @@
+-- =============================================================================
+-- Verification Script: F020 Finance Reports
+-- Purpose: Verify finance report totals, VAT and export role restrictions
+--
+-- Run this after applying migrations to verify:
+-- 1. Functions exist
+-- 2. Internal line helper is not callable by clients
+-- 3. Functional: report, VAT, refunds, export (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Functions exist
+-- =============================================================================
+SELECT proname
+FROM pg_proc
+WHERE proname IN ('finance_report_lines', 'get_finance_report', 'get_finance_export');
+-- Expected: 3 rows
+
+-- =============================================================================
+-- CHECK 2: finance_report_lines is internal
+-- =============================================================================
+DO $$
+BEGIN
+    IF has_function_privilege('authenticated', 'public.finance_report_lines(uuid, date, date)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute finance_report_lines';
+    END IF;
+    RAISE NOTICE 'CHECK 2 PASSED: finance_report_lines is internal';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually as an org member)
+-- =============================================================================
+
+-- 3a. Report for the current year (owner, admin or finance)
+-- SELECT get_finance_report('YOUR_ORG_ID_HERE', '2025-01-01', '2025-12-31');
+-- Expected: status = 'OK', totals.net_revenue = gross_sales - discounts - refunds
+
+-- 3b. VAT follows the payments.vat_rate setting
+-- Paid order of 121.00 on an event with vat_rate 21:
+-- Expected: by_event[].vat = 21.00, vat_rate = 21
+-- After setting an event override of 9%:
+-- SELECT set_event_config('YOUR_EVENT_ID_HERE', 'payments', '{"vat_rate": 9}'::jsonb);
+-- Expected: by_event[].vat_rate = 9
+
+-- 3c. Refund booked in the period it was paid out
+-- SELECT get_finance_report('YOUR_ORG_ID_HERE', 'YOUR_REFUND_DATE_HERE', 'YOUR_REFUND_DATE_HERE');
+-- Expected: totals.refunds = refund amount, gross_sales only for orders of that day
+
+-- 3d. Invalid range
+-- SELECT get_finance_report('YOUR_ORG_ID_HERE', '2025-12-31', '2025-01-01');
+-- Expected: error = 'INVALID_DATE_RANGE'
+
+-- 3e. Export restricted to owner/finance
+-- As admin or support:
+-- SELECT get_finance_export('YOUR_ORG_ID_HERE');
+-- Expected: error = 'UNAUTHORIZED'
+--
+-- As owner or finance:
+-- SELECT jsonb_array_length(get_finance_export('YOUR_ORG_ID_HERE')->'rows');
+-- Expected: one row per order line (sale) plus one per refunded order line
+--
+-- SELECT action FROM audit_log WHERE org_id = 'YOUR_ORG_ID_HERE' AND action = 'FINANCE_EXPORT';
+-- Expected: one row per export
@@ -0,0 +1,70 @@
+-- =============================================================================
+-- Verification Script: F021 Org Settings Inheritance
+-- Purpose: Verify org-level defaults, per-field sources, clear and push actions
+--
+-- Run this after applying migrations to verify:
+-- 1. Functions exist
+-- 2. RBAC helper matches set_event_config rules
+-- 3. Functional: org config, inheritance, clear override, push (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Functions exist
+-- =============================================================================
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'config_domains', 'can_edit_config_domain', 'get_org_config',
+    'get_org_config_permissions', 'set_org_config', 'reset_org_config_domain',
+    'get_event_config_sources', 'clear_event_config_override',
+    'get_org_config_overrides', 'push_org_config_to_events'
+);
+-- Expected: 10 rows
+
+-- =============================================================================
+-- CHECK 2: can_edit_config_domain
+-- =============================================================================
+DO $$
+BEGIN
+    IF NOT public.can_edit_config_domain('finance', 'payments') THEN
+        RAISE EXCEPTION 'FAILED: finance should edit payments';
+    END IF;
+    IF public.can_edit_config_domain('support', 'governance') THEN
+        RAISE EXCEPTION 'FAILED: support should not edit governance';
+    END IF;
+    IF public.can_edit_config_domain('owner', 'unknown_domain') THEN
+        RAISE EXCEPTION 'FAILED: unknown domain should not be editable';
+    END IF;
+    RAISE NOTICE 'CHECK 2 PASSED: can_edit_config_domain matches event RBAC';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually as an org member)
+-- =============================================================================
+
+-- 3a. Org default is inherited by events without override
+-- SELECT set_org_config('YOUR_ORG_ID_HERE', 'payments', '{"vat_rate": 6}');
+-- SELECT get_event_config('YOUR_EVENT_ID_HERE')->'payments'->>'vat_rate';
+-- Expected: 6
+
+-- 3b. Sources show the layers separately
+-- SELECT set_event_config('YOUR_EVENT_ID_HERE', 'payments', '{"vat_rate": 21}');
+-- SELECT get_event_config_sources('YOUR_EVENT_ID_HERE')->'payments';
+-- Expected: org.vat_rate = 6, event.vat_rate = 21
+
+-- 3c. Org overview lists the deviating event
+-- SELECT get_org_config_overrides('YOUR_ORG_ID_HERE')->'payments';
+-- Expected: [{ event_id: YOUR_EVENT_ID_HERE, keys: ["vat_rate"] }]
+
+-- 3d. Clearing the override restores inheritance
+-- SELECT clear_event_config_override('YOUR_EVENT_ID_HERE', 'payments', 'vat_rate')->'payments'->>'vat_rate';
+-- Expected: 6, and no event_settings row left for payments
+
+-- 3e. Push removes overrides for all events of the org
+-- SELECT set_event_config('YOUR_EVENT_ID_HERE', 'payments', '{"vat_rate": 21}');
+-- SELECT push_org_config_to_events('YOUR_ORG_ID_HERE', 'payments');
+-- Expected: status = 'OK', events_updated >= 1
+
+-- 3f. Role without edit rights (e.g. support on payments)
+-- SELECT push_org_config_to_events('YOUR_ORG_ID_HERE', 'payments');
+-- Expected: { "error": "PERMISSION_DENIED" }
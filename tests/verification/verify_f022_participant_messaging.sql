@@ -0,0 +1,82 @@
+-- =============================================================================
+-- Verification Script: F022 Participant Messaging
+-- Purpose: Verify threads, RLS isolation, unread counts and reply emails
+--
+-- Run this after applying migrations to verify:
+-- 1. Tables, functions and realtime publication exist
+-- 2. RLS is enabled and thread_viewer_role is internal
+-- 3. Functional: start thread, reply, unread, RLS (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Tables and functions exist
+-- =============================================================================
+SELECT tablename
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename IN ('message_threads', 'thread_messages');
+-- Expected: 2 rows
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'thread_viewer_role', 'get_my_event_threads', 'start_message_thread',
+    'mark_thread_read', 'get_thread', 'post_thread_message',
+    'get_event_threads', 'set_thread_status', 'get_org_unread_message_count'
+);
+-- Expected: 9 rows
+
+SELECT tablename
+FROM pg_publication_tables
+WHERE pubname = 'supabase_realtime'
+  AND tablename IN ('message_threads', 'thread_messages');
+-- Expected: 2 rows (on Supabase)
+
+-- =============================================================================
+-- CHECK 2: RLS enabled, helper internal
+-- =============================================================================
+DO $$
+BEGIN
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE oid = 'public.message_threads'::regclass) THEN
+        RAISE EXCEPTION 'FAILED: RLS not enabled on message_threads';
+    END IF;
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE oid = 'public.thread_messages'::regclass) THEN
+        RAISE EXCEPTION 'FAILED: RLS not enabled on thread_messages';
+    END IF;
+    IF has_function_privilege('authenticated', 'public.thread_viewer_role(uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute thread_viewer_role';
+    END IF;
+    RAISE NOTICE 'CHECK 2 PASSED: RLS enabled, thread_viewer_role is internal';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. As a registered participant: start a thread
+-- SELECT start_message_thread('YOUR_EVENT_ID_HERE', 'Parkeren', 'Waar kan ik parkeren?');
+-- Expected: status = 'OK', thread_id
+
+-- 3b. As a user without registration
+-- SELECT start_message_thread('YOUR_EVENT_ID_HERE', 'Vraag', 'Test');
+-- Expected: { "error": "NOT_REGISTERED" }
+
+-- 3c. As org owner/admin/support: inbox shows the unread thread
+-- SELECT get_event_threads('YOUR_EVENT_ID_HERE');
+-- Expected: threads[0].unread_count = 1
+-- SELECT get_org_unread_message_count('YOUR_ORG_ID_HERE');
+-- Expected: unread_messages >= 1
+
+-- 3d. Organizer reply queues an email
+-- SELECT post_thread_message('YOUR_THREAD_ID_HERE', 'Achter de hal, P2.');
+-- SELECT to_email, subject FROM email_outbox WHERE idempotency_key LIKE 'thread_reply:%' ORDER BY created_at DESC LIMIT 1;
+-- Expected: participant email, subject 'Nieuw antwoord: Parkeren'
+
+-- 3e. RLS: another participant cannot see the thread
+-- SELECT count(*) FROM message_threads WHERE id = 'YOUR_THREAD_ID_HERE';
+-- Expected: 0 (as other participant), 1 (as owner of the thread)
+
+-- 3f. Closed thread: participant cannot post
+-- SELECT set_thread_status('YOUR_THREAD_ID_HERE', 'closed');  -- as organizer
+-- SELECT post_thread_message('YOUR_THREAD_ID_HERE', 'Nog een vraag');  -- as participant
+-- Expected: { "error": "THREAD_CLOSED" }
@@ -0,0 +1,88 @@
+-- =============================================================================
+-- Verification Script: F023 Event FAQ
+-- Purpose: Verify FAQ tables, i18n, public search and the confirmation email block
+--
+-- Run this after applying migrations to verify:
+-- 1. Tables and functions exist
+-- 2. RLS is enabled and render_event_faq_html is internal
+-- 3. Functional: CRUD, ordering, translations, search, email (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Tables and functions exist
+-- =============================================================================
+SELECT tablename
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename IN ('event_faq_categories', 'event_faqs', 'event_faq_i18n', 'event_faq_category_i18n');
+-- Expected: 4 rows
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'can_manage_event_faq', 'get_event_faq_admin', 'upsert_event_faq_category',
+    'delete_event_faq_category', 'upsert_event_faq', 'delete_event_faq',
+    'reorder_event_faq', 'upsert_event_faq_i18n', 'upsert_event_faq_category_i18n',
+    'get_public_event_faq', 'render_event_faq_html'
+);
+-- Expected: 11 rows
+
+-- =============================================================================
+-- CHECK 2: RLS enabled, email renderer internal
+-- =============================================================================
+DO $$
+BEGIN
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE oid = 'public.event_faqs'::regclass) THEN
+        RAISE EXCEPTION 'FAILED: RLS not enabled on event_faqs';
+    END IF;
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE oid = 'public.event_faq_i18n'::regclass) THEN
+        RAISE EXCEPTION 'FAILED: RLS not enabled on event_faq_i18n';
+    END IF;
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE oid = 'public.event_faq_categories'::regclass) THEN
+        RAISE EXCEPTION 'FAILED: RLS not enabled on event_faq_categories';
+    END IF;
+    IF has_function_privilege('authenticated', 'public.render_event_faq_html(uuid, text)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute render_event_faq_html';
+    END IF;
+    RAISE NOTICE 'CHECK 2 PASSED: RLS enabled, render_event_faq_html is internal';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. As org admin: category + published question with translation
+-- SELECT upsert_event_faq_category('YOUR_EVENT_ID_HERE', 'Praktisch');
+-- SELECT upsert_event_faq('YOUR_EVENT_ID_HERE', 'Waar kan ik parkeren?', 'Bij P2 achter de hal.',
+--        'YOUR_CATEGORY_ID_HERE', 'published', true);
+-- SELECT upsert_event_faq_i18n('YOUR_FAQ_ID_HERE', 'en', 'Where can I park?', 'At P2 behind the hall.');
+-- Expected: status = 'OK' for all three
+
+-- 3b. As support/viewer member
+-- SELECT upsert_event_faq('YOUR_EVENT_ID_HERE', 'Vraag', 'Antwoord');
+-- Expected: { "error": "UNAUTHORIZED" }
+
+-- 3c. Public (anon): localized with fallback, search
+-- SELECT get_public_event_faq('YOUR_EVENT_SLUG_HERE', 'en');
+-- Expected: question 'Where can I park?', available_locales = ["en"]
+-- SELECT get_public_event_faq('YOUR_EVENT_SLUG_HERE', 'fr', 'parkeren');
+-- Expected: Dutch question (fallback), 1 match
+-- SELECT get_public_event_faq('YOUR_EVENT_SLUG_HERE', NULL, 'xyz');
+-- Expected: categories = [], total_count unchanged
+
+-- 3d. Draft questions are not public
+-- SELECT upsert_event_faq('YOUR_EVENT_ID_HERE', 'Concept', 'Nog niet klaar', NULL, 'draft');
+-- SELECT count(*) FROM event_faqs WHERE status = 'draft';  -- as anon
+-- Expected: 0
+
+-- 3e. Ordering: array position = sort_order
+-- SELECT reorder_event_faq('YOUR_EVENT_ID_HERE', NULL, ARRAY['YOUR_FAQ_ID_2_HERE', 'YOUR_FAQ_ID_HERE']::uuid[]);
+-- SELECT id, sort_order FROM event_faqs WHERE event_id = 'YOUR_EVENT_ID_HERE' ORDER BY sort_order;
+-- Expected: FAQ 2 first
+
+-- 3f. Confirmation email contains the FAQ block (service role)
+-- SELECT render_event_faq_html('YOUR_EVENT_ID_HERE', 'en');
+-- Expected: '<h3>Veelgestelde vragen</h3><p><strong>Where can I park?</strong>...'
+-- UPDATE orders SET status = 'paid' WHERE id = 'YOUR_ORDER_ID_HERE';
+-- SELECT html_body FROM email_outbox WHERE idempotency_key = 'order_confirmation_YOUR_ORDER_ID_HERE';
+-- Expected: body contains 'Veelgestelde vragen'
@@ -0,0 +1,104 @@
+-- =============================================================================
+-- Verification Script: F024 Fundraising
+-- Purpose: Verify checkout charity choice, participation queue and tightened RLS
+--
+-- Run this after applying migrations to verify:
+-- 1. Tables, columns and functions exist
+-- 2. RLS is tightened and worker RPCs are internal
+-- 3. Functional: checkout choice, participation, page creation (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Tables, columns and functions exist
+-- =============================================================================
+SELECT tablename
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename IN (
+    'fundraising_charities', 'fundraising_event_settings', 'fundraising_event_charities',
+    'fundraising_ticket_overrides', 'fundraising_participations', 'fundraising_order_choices'
+);
+-- Expected: 6 rows
+
+SELECT column_name
+FROM information_schema.columns
+WHERE table_name = 'fundraising_participations'
+  AND column_name IN ('attempt_count', 'next_attempt_at', 'last_error', 'provider', 'site_origin');
+-- Expected: 5 rows
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'resolve_fundraising_mode', 'get_public_fundraising_config', 'validate_fundraising_choice',
+    'create_fundraising_participation', 'claim_fundraising_jobs', 'complete_fundraising_page',
+    'fail_fundraising_page'
+);
+-- Expected: 7 rows
+
+-- =============================================================================
+-- CHECK 2: RLS tightened, worker RPCs internal
+-- =============================================================================
+DO $$
+BEGIN
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE oid = 'public.fundraising_order_choices'::regclass) THEN
+        RAISE EXCEPTION 'FAILED: RLS not enabled on fundraising_order_choices';
+    END IF;
+    IF EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE tablename = 'fundraising_participations'
+          AND policyname = 'Public can view fundraising participations'
+    ) THEN
+        RAISE EXCEPTION 'FAILED: fundraising_participations still publicly readable';
+    END IF;
+    IF has_function_privilege('authenticated', 'public.claim_fundraising_jobs(integer)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute claim_fundraising_jobs';
+    END IF;
+    IF has_function_privilege('anon', 'public.validate_fundraising_choice(uuid, uuid[], uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: anon can execute validate_fundraising_choice';
+    END IF;
+    RAISE NOTICE 'CHECK 2 PASSED: RLS tightened, worker RPCs are internal';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Setup as org admin: charity + optional mode
+-- INSERT INTO fundraising_charities (org_id, name, external_id) VALUES ('YOUR_ORG_ID_HERE', 'KWF', 'kwf');
+-- INSERT INTO fundraising_event_settings (event_id, mode) VALUES ('YOUR_EVENT_ID_HERE', 'optional');
+-- INSERT INTO fundraising_event_charities (event_id, charity_id, is_default)
+--   VALUES ('YOUR_EVENT_ID_HERE', 'YOUR_CHARITY_ID_HERE', true);
+-- SELECT get_public_fundraising_config('YOUR_EVENT_ID_HERE');  -- as anon
+-- Expected: mode = 'optional', 1 charity
+
+-- 3b. Checkout validation (service role)
+-- SELECT validate_fundraising_choice('YOUR_EVENT_ID_HERE', ARRAY['YOUR_TICKET_TYPE_ID_HERE']::uuid[], NULL);
+-- Expected: status = 'OK', charity_id = null
+-- INSERT INTO fundraising_ticket_overrides (ticket_type_id, mode) VALUES ('YOUR_TICKET_TYPE_ID_HERE', 'required');
+-- SELECT validate_fundraising_choice('YOUR_EVENT_ID_HERE', ARRAY['YOUR_TICKET_TYPE_ID_HERE']::uuid[], NULL);
+-- Expected: { "error": "FUNDRAISING_CHARITY_REQUIRED" }
+
+-- 3c. Paid order with a choice → pending participation
+-- INSERT INTO fundraising_order_choices (order_id, charity_id) VALUES ('YOUR_ORDER_ID_HERE', 'YOUR_CHARITY_ID_HERE');
+-- UPDATE orders SET status = 'paid' WHERE id = 'YOUR_ORDER_ID_HERE';
+-- SELECT status FROM fundraising_participations fp
+--   JOIN registrations r ON r.id = fp.registration_id
+--   JOIN order_items oi ON oi.id = r.order_item_id
+--   WHERE oi.order_id = 'YOUR_ORDER_ID_HERE';
+-- Expected: 'pending'
+
+-- 3d. Worker (service role): claim, fail with backoff, complete
+-- SELECT claim_fundraising_jobs(10);
+-- Expected: jobs contains the participation, status = 'processing'
+-- SELECT fail_fundraising_page('YOUR_PARTICIPATION_ID_HERE', 'partner down');
+-- Expected: participation_status = 'pending', next_attempt_at ≈ now() + 1 minute
+-- UPDATE fundraising_participations SET status = 'processing' WHERE id = 'YOUR_PARTICIPATION_ID_HERE';
+-- SELECT complete_fundraising_page('YOUR_PARTICIPATION_ID_HERE', 'mock', 'mock_1', 'https://fundraising.mock.local/p/kwf/mock_1');
+-- SELECT status FROM email_outbox WHERE idempotency_key = 'fundraising_page:YOUR_PARTICIPATION_ID_HERE';
+-- Expected: participation 'active', email queued
+
+-- 3e. Failures never block the order: remove all charities, required ticket
+-- DELETE FROM fundraising_event_charities WHERE event_id = 'YOUR_EVENT_ID_HERE';
+-- UPDATE orders SET status = 'paid' WHERE id = 'YOUR_ORDER_ID_2_HERE';
+-- Expected: WARNING 'F024: registration ... requires fundraising but event ... has no charity',
+--           registrations created, no participation
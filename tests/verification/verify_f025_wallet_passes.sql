@@ -0,0 +1,71 @@
+-- =============================================================================
+-- Verification Script: F025 Wallet Passes
+-- Purpose: Verify wallet pass tables, pass data (branding/privacy) and transfer refresh
+--
+-- Run this after applying migrations to verify:
+-- 1. Tables and functions exist
+-- 2. Tables are service-role only, RPCs internal
+-- 3. Functional: pass data, privacy flags, version bump (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Tables and functions exist
+-- =============================================================================
+SELECT tablename
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename IN ('wallet_passes', 'wallet_pass_devices');
+-- Expected: 2 rows
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN ('resolve_event_setting', 'get_wallet_pass_data', 'touch_wallet_pass');
+-- Expected: 3 rows
+
+-- =============================================================================
+-- CHECK 2: Service-role only
+-- =============================================================================
+DO $$
+BEGIN
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE oid = 'public.wallet_passes'::regclass) THEN
+        RAISE EXCEPTION 'FAILED: RLS not enabled on wallet_passes';
+    END IF;
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE oid = 'public.wallet_pass_devices'::regclass) THEN
+        RAISE EXCEPTION 'FAILED: RLS not enabled on wallet_pass_devices';
+    END IF;
+    IF EXISTS (SELECT 1 FROM pg_policies WHERE tablename IN ('wallet_passes', 'wallet_pass_devices')) THEN
+        RAISE EXCEPTION 'FAILED: wallet tables should have no policies';
+    END IF;
+    IF has_function_privilege('authenticated', 'public.get_wallet_pass_data(uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute get_wallet_pass_data';
+    END IF;
+    RAISE NOTICE 'CHECK 2 PASSED: wallet tables and RPCs are service-role only';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually, service role)
+-- =============================================================================
+
+-- 3a. Pass data with default privacy (only name)
+-- SELECT get_wallet_pass_data('YOUR_TICKET_INSTANCE_ID_HERE');
+-- Expected: holder = { "name": "..." }, branding.primary_color = '#4F46E5', pass = null
+
+-- 3b. Privacy flags: email on, name off
+-- SELECT set_event_setting('YOUR_EVENT_ID_HERE', 'ticket_privacy', '{"show": {"name": false, "email": true}}');
+-- SELECT get_wallet_pass_data('YOUR_TICKET_INSTANCE_ID_HERE')->'holder';
+-- Expected: { "email": "..." }
+
+-- 3c. No pass issued yet: touch is a no-op
+-- SELECT touch_wallet_pass('YOUR_TICKET_INSTANCE_ID_HERE');
+-- Expected: issued = false
+
+-- 3d. After issuing (wallet-pass edge function) + device registration
+-- INSERT INTO wallet_passes (ticket_instance_id, apple_issued_at) VALUES ('YOUR_TICKET_INSTANCE_ID_HERE', now());
+-- INSERT INTO wallet_pass_devices (device_library_identifier, pass_type_identifier, ticket_instance_id, push_token)
+--   VALUES ('device-1', 'pass.com.example.tickets', 'YOUR_TICKET_INSTANCE_ID_HERE', 'push-token-1');
+-- SELECT touch_wallet_pass('YOUR_TICKET_INSTANCE_ID_HERE');
+-- Expected: pass_version = 2, apple_devices = [{ push_token: 'push-token-1', ... }]
+
+-- 3e. After accept-transfer the holder is the recipient
+-- SELECT get_wallet_pass_data('YOUR_TICKET_INSTANCE_ID_HERE')->'ticket'->>'transferred';
+-- Expected: 'true', holder.name = recipient
@@ -0,0 +1,69 @@
+-- =============================================================================
+-- Verification Script: F026 Ticket PDFs
+-- Purpose: Verify PDF data (banner/privacy), available_from and email attachments
+--
+-- Run this after applying migrations to verify:
+-- 1. Column, trigger and functions exist
+-- 2. RPC is service-role only; available_from is enforced
+-- 3. Functional: PDF data, privacy, confirmation attachment (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Column, trigger and functions exist
+-- =============================================================================
+SELECT column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND table_name = 'email_outbox'
+  AND column_name = 'attachments';
+-- Expected: 1 row
+
+SELECT tgname
+FROM pg_trigger
+WHERE tgname = 'attach_ticket_pdf_to_confirmation';
+-- Expected: 1 row
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN ('get_ticket_pdf_data', 'attach_ticket_pdf_to_confirmation', 'are_tickets_available');
+-- Expected: 3 rows
+
+-- =============================================================================
+-- CHECK 2: Service-role only + argument validation
+-- =============================================================================
+DO $$
+BEGIN
+    IF has_function_privilege('authenticated', 'public.get_ticket_pdf_data(uuid, uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute get_ticket_pdf_data';
+    END IF;
+    IF public.get_ticket_pdf_data(NULL, NULL)->>'error' <> 'ORDER_OR_TICKET_REQUIRED' THEN
+        RAISE EXCEPTION 'FAILED: get_ticket_pdf_data accepts no target';
+    END IF;
+    IF public.get_ticket_pdf_data(gen_random_uuid(), NULL)->>'error' <> 'ORDER_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown order not rejected';
+    END IF;
+    RAISE NOTICE 'CHECK 2 PASSED: get_ticket_pdf_data is service-role only and validates input';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually, service role)
+-- =============================================================================
+
+-- 3a. available_from in the future blocks delivery
+-- INSERT INTO event_settings (event_id, domain, setting_value)
+--   VALUES ('YOUR_EVENT_ID_HERE', 'ticket_pdf', '{"available_from": "2099-01-01T00:00:00Z"}')
+--   ON CONFLICT (event_id, domain) DO UPDATE SET setting_value = EXCLUDED.setting_value;
+-- SELECT are_tickets_available('YOUR_EVENT_ID_HERE');
+-- Expected: false (ticket-pdf returns 403 TICKETS_NOT_AVAILABLE)
+
+-- 3b. Order PDF data with default privacy
+-- SELECT get_ticket_pdf_data(_order_id => 'YOUR_ORDER_ID_HERE');
+-- Expected: tickets[].holder = { "name": "..." } only, banner = null or { bucket_id, path }
+
+-- 3c. Transferred ticket is not in the buyer's order PDF
+-- SELECT jsonb_array_length(get_ticket_pdf_data(_order_id => 'YOUR_ORDER_ID_HERE')->'tickets');
+-- Expected: number of tickets minus accepted transfers / void tickets
+
+-- 3d. Order confirmation gets the PDF attachment
+-- SELECT attachments FROM email_outbox WHERE idempotency_key = 'order_confirmation_YOUR_ORDER_ID_HERE';
+-- Expected: [{"type": "ticket_pdf", "order_id": "YOUR_ORDER_ID_HERE"}]
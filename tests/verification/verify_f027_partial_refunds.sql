@@ -0,0 +1,78 @@
+-- =============================================================================
+-- Verification Script: F027 Partial Ticket Refunds
+-- Purpose: Verify ticket-level refunds, voiding, capacity release and ledger
+--
+-- Run this after applying migrations to verify:
+-- 1. Columns, indexes and functions exist
+-- 2. Internal RPCs are service-role only; input is validated
+-- 3. Functional: refund selected tickets end-to-end (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Columns, indexes and functions exist
+-- =============================================================================
+SELECT table_name, column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND (
+    (table_name = 'order_items' AND column_name = 'refunded_quantity')
+    OR (table_name = 'ticket_instances' AND column_name IN ('voided_at', 'voided_reason'))
+  );
+-- Expected: 3 rows
+
+SELECT indexname
+FROM pg_indexes
+WHERE indexname IN ('idx_refund_items_refund_ticket', 'idx_refund_items_refund_order_item');
+-- Expected: 2 rows
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN ('get_order_item_net_amounts', 'calculate_ticket_refund', 'preview_ticket_refund');
+-- Expected: 3 rows
+
+-- =============================================================================
+-- CHECK 2: Service-role only + argument validation
+-- =============================================================================
+DO $$
+BEGIN
+    IF has_function_privilege('authenticated', 'public.calculate_ticket_refund(uuid, uuid[])', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute calculate_ticket_refund';
+    END IF;
+    IF has_function_privilege('authenticated', 'public.get_order_item_net_amounts(uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute get_order_item_net_amounts';
+    END IF;
+    IF public.calculate_ticket_refund(gen_random_uuid(), ARRAY[gen_random_uuid()])->>'error' <> 'ORDER_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown order not rejected';
+    END IF;
+    IF EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'refund_items_refund_id_order_item_id_key') THEN
+        RAISE EXCEPTION 'FAILED: refund_items still unique per order item';
+    END IF;
+    RAISE NOTICE 'CHECK 2 PASSED: ticket refund RPCs are service-role only and validate input';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually, service role)
+-- =============================================================================
+
+-- 3a. Amount per ticket (net after discounts)
+-- SELECT calculate_ticket_refund('YOUR_ORDER_ID_HERE', ARRAY['YOUR_TICKET_INSTANCE_ID_HERE']::UUID[]);
+-- Expected: { status: OK, amount_cents, items: [{ ticket_instance_id, order_item_id, amount_cents }] }
+
+-- 3b. All tickets of a line together = net amount of the line
+-- SELECT order_item_id, ROUND(net_amount * 100) FROM get_order_item_net_amounts('YOUR_ORDER_ID_HERE');
+-- Expected: equals the sum of amount_cents of all tickets of that order item
+
+-- 3c. Completed ticket refund voids exactly those tickets
+-- (create-refund with ticket_instance_ids, then the Mollie webhook)
+-- SELECT handle_refund_webhook('YOUR_MOLLIE_REFUND_ID_HERE', 'refunded');
+-- SELECT id, status, voided_reason FROM ticket_instances WHERE order_id = 'YOUR_ORDER_ID_HERE';
+-- Expected: only the selected tickets are 'void'; order stays 'paid' while valid tickets remain
+
+-- 3d. Capacity released
+-- SELECT refunded_quantity FROM order_items WHERE order_id = 'YOUR_ORDER_ID_HERE';
+-- SELECT get_ticket_type_free_capacity('YOUR_TICKET_TYPE_ID_HERE');
+-- Expected: refunded_quantity = refunded tickets; free capacity increased by the same number
+
+-- 3e. Ledger (as org owner/admin)
+-- SELECT get_order_refund_summary('YOUR_ORDER_ID_HERE');
+-- Expected: tickets[] with refund_status, refunds[].items per ticket
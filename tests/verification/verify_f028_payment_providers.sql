@@ -0,0 +1,81 @@
+-- =============================================================================
+-- Verification Script: F028 Payment Providers
+-- Purpose: Verify payment profiles, provider selection per event and the
+--          provider-agnostic payment webhook RPC
+--
+-- Run this after applying migrations to verify:
+-- 1. Table, columns and functions exist
+-- 2. Provider check, RLS and service-role only resolution
+-- 3. Functional: fake provider checkout end-to-end (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Table, columns and functions exist
+-- =============================================================================
+SELECT table_name, column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND (
+    (table_name = 'payment_profiles' AND column_name IN ('provider', 'secret_name', 'is_active'))
+    OR (table_name = 'payments' AND column_name = 'payment_profile_id')
+  );
+-- Expected: 4 rows
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN ('get_event_payment_profile', 'handle_payment_webhook');
+-- Expected: 2 rows
+
+-- =============================================================================
+-- CHECK 2: Provider check, RLS + service-role only resolution
+-- =============================================================================
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'payments_provider_check'
+          AND pg_get_constraintdef(oid) LIKE '%stripe%'
+          AND pg_get_constraintdef(oid) LIKE '%fake%'
+    ) THEN
+        RAISE EXCEPTION 'FAILED: payments_provider_check does not allow stripe/fake';
+    END IF;
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE relname = 'payment_profiles') THEN
+        RAISE EXCEPTION 'FAILED: RLS not enabled on payment_profiles';
+    END IF;
+    IF has_function_privilege('authenticated', 'public.get_event_payment_profile(uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute get_event_payment_profile';
+    END IF;
+    IF public.get_event_payment_profile(gen_random_uuid())->>'error' <> 'EVENT_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown event not rejected';
+    END IF;
+    RAISE NOTICE 'CHECK 2 PASSED: payment profiles are protected and resolved by service role only';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually, service role)
+-- =============================================================================
+
+-- 3a. Fake profile for an event
+-- INSERT INTO payment_profiles (org_id, name, provider)
+-- VALUES ('YOUR_ORG_ID_HERE', 'Test', 'fake') RETURNING id;
+-- SELECT set_event_setting('YOUR_EVENT_ID_HERE', 'payments', '{"payment_profile_id": "YOUR_PROFILE_ID_HERE"}');
+-- SELECT get_event_payment_profile('YOUR_EVENT_ID_HERE');
+-- Expected: { status: OK, provider: fake, profile_id: YOUR_PROFILE_ID_HERE }
+
+-- 3b. Inactive profile is never silently replaced
+-- UPDATE payment_profiles SET is_active = false WHERE id = 'YOUR_PROFILE_ID_HERE';
+-- SELECT get_event_payment_profile('YOUR_EVENT_ID_HERE');
+-- Expected: { error: PAYMENT_PROFILE_NOT_FOUND }
+
+-- 3c. Checkout with the fake provider (SIMULATE_PAYMENTS_ENABLED=true)
+-- create-order-public → payment.provider = 'fake', payment_id = fake_tr_<order_id>
+-- POST /functions/v1/payment-webhook?provider=fake&profile=YOUR_PROFILE_ID_HERE
+--   { "id": "fake_tr_YOUR_ORDER_ID_HERE", "status": "paid" }
+-- SELECT status FROM orders WHERE id = 'YOUR_ORDER_ID_HERE';
+-- SELECT provider, status, payment_profile_id FROM payments WHERE order_id = 'YOUR_ORDER_ID_HERE';
+-- Expected: order 'paid', payment 'fake' / 'paid' with the profile id, tickets issued
+
+-- 3d. Provider 'canceled' maps to payments_status_check
+-- SELECT handle_payment_webhook('YOUR_ORDER_ID_HERE', 'YOUR_PROVIDER_PAYMENT_ID_HERE', 'canceled', 0, 'EUR');
+-- SELECT status FROM payments WHERE provider_payment_id = 'YOUR_PROVIDER_PAYMENT_ID_HERE';
+-- Expected: 'cancelled'
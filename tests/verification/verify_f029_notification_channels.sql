@@ -0,0 +1,91 @@
+-- =============================================================================
+-- Verification Script: F029 Notification Channels
+-- Purpose: Verify SMS/push outbox, opt-ins, local deliveries and
+--          multi-channel campaigns
+--
+-- Run this after applying migrations to verify:
+-- 1. Tables, columns and functions exist
+-- 2. RLS, service-role only RPCs and opt-in requirement
+-- 3. Functional: campaign over email + sms with the local adapter (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Tables, columns and functions exist
+-- =============================================================================
+SELECT tablename
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename IN ('participant_channel_optins', 'push_subscriptions', 'notification_outbox', 'notification_local_deliveries');
+-- Expected: 4 rows
+
+SELECT table_name, column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND (
+    (table_name = 'message_batches' AND column_name IN ('channels', 'sms_body', 'push_title', 'push_body', 'push_url'))
+    OR (table_name = 'message_batch_items' AND column_name IN ('channel', 'notification_id'))
+  );
+-- Expected: 7 rows
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'is_channel_deliverable', 'queue_notification', 'set_notification_optin',
+    'register_push_subscription', 'claim_notifications', 'complete_notification',
+    'fail_notification', 'dispatch_message_batches'
+);
+-- Expected: 8 rows
+
+-- =============================================================================
+-- CHECK 2: RLS, service-role only RPCs + opt-in requirement
+-- =============================================================================
+DO $$
+BEGIN
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE relname = 'notification_outbox') THEN
+        RAISE EXCEPTION 'FAILED: RLS not enabled on notification_outbox';
+    END IF;
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE relname = 'participant_channel_optins') THEN
+        RAISE EXCEPTION 'FAILED: RLS not enabled on participant_channel_optins';
+    END IF;
+    IF has_function_privilege('authenticated', 'public.dispatch_message_batches(integer)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute dispatch_message_batches';
+    END IF;
+    IF has_function_privilege('authenticated', 'public.claim_notifications(integer)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute claim_notifications';
+    END IF;
+    IF public.is_channel_deliverable(gen_random_uuid(), gen_random_uuid(), 'sms', 'marketing') THEN
+        RAISE EXCEPTION 'FAILED: unknown participant reachable via sms';
+    END IF;
+    RAISE NOTICE 'CHECK 2 PASSED: notification outbox is protected and sms/push require an opt-in';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Opt-in as the participant (authenticated, own participant)
+-- SELECT set_notification_optin('YOUR_PARTICIPANT_ID_HERE', 'sms', true);
+-- UPDATE participants SET phone = '+31612345678' WHERE id = 'YOUR_PARTICIPANT_ID_HERE';
+-- SELECT is_channel_deliverable('YOUR_PARTICIPANT_ID_HERE', 'YOUR_ORG_ID_HERE', 'sms', 'marketing');
+-- Expected: true (false without opt-in or with a non-E.164 phone number)
+
+-- 3b. Campaign on email + sms (EMAIL_ADAPTER=local, SMS_ADAPTER=local)
+-- POST /functions/v1/bulk-email
+--   { "event_id": "YOUR_EVENT_ID_HERE", "name": "Startvertraging",
+--     "channels": ["email", "sms"], "subject": "Start 30 min later",
+--     "html_body": "<p>De start is 30 minuten later.</p>",
+--     "sms_body": "De start is 30 minuten later.",
+--     "recipient_filter": { "type": "custom", "participant_ids": ["YOUR_PARTICIPANT_ID_HERE"] } }
+-- Expected: recipients_per_channel { email: 1, sms: 1 }
+
+-- 3c. Process the outbox (service role)
+-- POST /functions/v1/process-outbox
+-- SELECT channel, status FROM message_batch_items WHERE batch_id = 'YOUR_BATCH_ID_HERE';
+-- SELECT channel, status, adapter FROM notification_outbox WHERE batch_id = 'YOUR_BATCH_ID_HERE';
+-- SELECT channel, recipient, body FROM notification_local_deliveries ORDER BY created_at DESC LIMIT 2;
+-- Expected: both items 'queued', sms notification 'sent' via 'local',
+--           one email and one sms row in notification_local_deliveries
+
+-- 3d. Opt-out skips the participant in the next campaign
+-- SELECT set_notification_optin('YOUR_PARTICIPANT_ID_HERE', 'sms', false);
+-- Expected: bulk-email with channels ["sms"] → NO_RECIPIENTS
@@ -0,0 +1,101 @@
+-- =============================================================================
+-- Verification Script: F030 Message Template Engine
+-- Purpose: Verify merge variables, conditional blocks, locale fallback,
+--          validation and preview of message templates
+--
+-- Run this after applying migrations to verify:
+-- 1. Table, columns and functions exist
+-- 2. Rendering, escaping and validation
+-- 3. Functional: template editor, preview and campaign (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Table, columns and functions exist
+-- =============================================================================
+SELECT key, value_type
+FROM message_template_variables
+WHERE key IN ('first_name', 'ticket_type', 'time_slot', 'order_link');
+-- Expected: 4 rows
+
+SELECT table_name, column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND (
+    (table_name = 'message_templates' AND column_name = 'default_locale')
+    OR (table_name = 'message_batches' AND column_name = 'site_origin')
+  );
+-- Expected: 2 rows
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'render_template_text', 'validate_template_content', 'pick_template_locale',
+    'get_template_variables', 'render_message_template', 'upsert_message_template',
+    'preview_message_template'
+);
+-- Expected: 7 rows
+
+-- =============================================================================
+-- CHECK 2: Rendering, escaping and validation
+-- =============================================================================
+DO $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    -- Nested blocks + else
+    IF public.render_template_text(
+        '{{#if a}}A{{#if b}}B{{else}}!B{{/if}}{{else}}!A{{/if}}',
+        '{"a": "1", "b": ""}'::jsonb
+    ) <> 'A!B' THEN
+        RAISE EXCEPTION 'FAILED: nested conditional blocks';
+    END IF;
+
+    -- HTML escaping only for html, values are never parsed as template
+    IF public.render_template_text('<p>{{first_name}}</p>', '{"first_name": "<b>{{email}}</b>"}'::jsonb, true)
+        <> '<p>&lt;b&gt;{{email}}&lt;/b&gt;</p>' THEN
+        RAISE EXCEPTION 'FAILED: html escaping / single pass substitution';
+    END IF;
+
+    -- Locale fallback: requested → default → nl
+    IF public.pick_template_locale('{"nl": "Hoi", "en": "Hi"}'::jsonb, 'fr', 'en') <> 'Hi' THEN
+        RAISE EXCEPTION 'FAILED: locale fallback to default_locale';
+    END IF;
+
+    v_result := public.validate_template_content('{"subject": {"nl": "{{first_nam}}", "xx": "Hi"}, "html_body": "{{#if time_slot}}open"}'::jsonb);
+    IF (v_result->>'valid')::BOOLEAN
+        OR NOT (v_result->'unknown_variables') ? 'first_nam'
+        OR jsonb_array_length(v_result->'errors') < 2 THEN
+        RAISE EXCEPTION 'FAILED: validation did not report unknown variable, invalid locale and unclosed block: %', v_result;
+    END IF;
+
+    IF has_function_privilege('authenticated', 'public.get_template_variables(uuid, uuid, text)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute get_template_variables';
+    END IF;
+
+    RAISE NOTICE 'CHECK 2 PASSED: templates render, escape and validate correctly';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Save a template with an unknown variable (admin/owner)
+-- SELECT upsert_message_template('YOUR_ORG_ID_HERE', 'Start', '{"nl": "Start {{event_name}}"}',
+--   '{"nl": "<p>Hoi {{voornaam}}</p>"}');
+-- Expected: { error: INVALID_TEMPLATE, validation: { unknown_variables: ["voornaam"] } }
+
+-- 3b. Preview with a participant of the event (org member)
+-- SELECT preview_message_template('YOUR_EVENT_ID_HERE',
+--   '{"subject": {"nl": "Start {{event_name}}"}, "html_body": {"nl": "<p>Hoi {{first_name}}{{#if time_slot}}, wave {{time_slot}}{{/if}}</p>"}}', 'nl');
+-- Expected: rendered.html_body with the first registered participant, sample_participant set
+
+-- 3c. Campaign with the template (bulk-email)
+-- POST /functions/v1/bulk-email { "event_id": "YOUR_EVENT_ID_HERE", "name": "Start",
+--   "template_id": "YOUR_TEMPLATE_ID_HERE", "recipient_filter": { "type": "all" } }
+-- POST /functions/v1/process-outbox
+-- SELECT to_email, subject, html_body FROM email_outbox WHERE batch_id = 'YOUR_BATCH_ID_HERE';
+-- Expected: one rendered email per participant, in the locale of their latest order
+
+-- 3d. Campaign with an unknown variable fails before queueing
+-- POST /functions/v1/bulk-email { ..., "subject": "Hoi {{voornaam}}", "html_body": "<p>x</p>" }
+-- Expected: 400 UNKNOWN_TEMPLATE_VARIABLE, no message_batches row
@@ -0,0 +1,96 @@
+-- =============================================================================
+-- Verification Script: F031 Campaign Scheduler
+-- Purpose: Verify campaign triggers, send windows, per-org throttling and
+--          pause/resume/cancel of message batches
+--
+-- Run this after applying migrations to verify:
+-- 1. Columns and functions exist
+-- 2. Send window, rate limits and permissions
+-- 3. Functional: triggered campaigns, throttling and cancel (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Columns and functions exist
+-- =============================================================================
+SELECT column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND table_name = 'message_batches'
+  AND column_name IN (
+    'trigger_type', 'trigger_offset_minutes', 'send_window_start',
+    'send_window_end', 'send_window_timezone', 'paused_at', 'cancelled_at'
+  );
+-- Expected: 7 rows
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'is_within_send_window', 'get_org_email_rate_limits', 'get_message_batch_run_at',
+    'get_campaign_recipients', 'refresh_message_batch_progress', 'claim_outbox_emails',
+    'get_event_campaigns', 'pause_message_batch', 'resume_message_batch', 'cancel_message_batch'
+);
+-- Expected: 10 rows
+
+-- =============================================================================
+-- CHECK 2: Send window, rate limits and permissions
+-- =============================================================================
+DO $$
+BEGIN
+    -- Window within a day: start inclusive, end exclusive
+    IF NOT public.is_within_send_window('09:00', '21:00', 'Europe/Amsterdam', '2025-06-01 07:00:00+00')
+        OR public.is_within_send_window('09:00', '21:00', 'Europe/Amsterdam', '2025-06-01 19:00:00+00') THEN
+        RAISE EXCEPTION 'FAILED: send window in Europe/Amsterdam (CEST)';
+    END IF;
+
+    -- No window = always
+    IF NOT public.is_within_send_window(NULL, NULL, 'Europe/Amsterdam') THEN
+        RAISE EXCEPTION 'FAILED: missing send window should allow sending';
+    END IF;
+
+    -- System defaults when the org has no communication settings
+    IF (public.get_org_email_rate_limits(gen_random_uuid())->>'emails_per_minute')::INTEGER <> 100 THEN
+        RAISE EXCEPTION 'FAILED: default emails_per_minute';
+    END IF;
+
+    IF has_function_privilege('authenticated', 'public.claim_outbox_emails(integer)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute claim_outbox_emails';
+    END IF;
+
+    IF has_function_privilege('authenticated', 'public.refresh_message_batch_progress(uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute refresh_message_batch_progress';
+    END IF;
+
+    RAISE NOTICE 'CHECK 2 PASSED: send windows, rate limits and permissions are correct';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Campaign 7 days before the event start, only between 09:00 and 21:00
+-- POST /functions/v1/bulk-email { "event_id": "YOUR_EVENT_ID_HERE", "name": "Nog een week",
+--   "subject": "Nog 7 dagen tot {{event_name}}", "html_body": "<p>Hoi {{first_name}}</p>",
+--   "recipient_filter": { "type": "all" }, "trigger_type": "event_start",
+--   "trigger_offset_minutes": -10080, "send_window": { "start": "09:00", "end": "21:00" } }
+-- SELECT get_message_batch_run_at('YOUR_BATCH_ID_HERE');
+-- Expected: events.start_time - 7 days; no message_batch_items until then
+
+-- 3b. Check-in trigger: one message per participant, 60 minutes after check-in
+-- POST /functions/v1/bulk-email { ..., "trigger_type": "check_in", "trigger_offset_minutes": 60 }
+-- Check in a ticket, wait an hour, POST /functions/v1/process-outbox
+-- SELECT participant_id, status FROM message_batch_items WHERE batch_id = 'YOUR_BATCH_ID_HERE';
+-- Expected: one item per checked-in participant and channel; batch stays 'sending' until after the event
+
+-- 3c. Throttling: set the org limit low and queue a larger campaign
+-- SELECT set_org_config('YOUR_ORG_ID_HERE', 'communication', '{"rate_limits": {"emails_per_minute": 5, "emails_per_hour": 100}}');
+-- POST /functions/v1/process-outbox
+-- Expected: at most 5 marketing emails per run, response.deferred_count > 0;
+--           transactional emails of the org are still sent
+
+-- 3d. Pause, resume and cancel (admin/owner)
+-- SELECT pause_message_batch('YOUR_BATCH_ID_HERE');
+-- POST /functions/v1/process-outbox
+-- Expected: no emails of this batch claimed
+-- SELECT resume_message_batch('YOUR_BATCH_ID_HERE');
+-- SELECT cancel_message_batch('YOUR_BATCH_ID_HERE');
+-- Expected: { status: OK, emails_cancelled: <unsent emails> }, batch status 'cancelled'
@@ -0,0 +1,118 @@
+-- =============================================================================
+-- Verification Script: F032 Participant Segments
+-- Purpose: Verify saved segments, definition validation, live preview and the
+--          segment filter in campaigns, participant list and export
+--
+-- Run this after applying migrations to verify:
+-- 1. Table and functions exist
+-- 2. Validation and permissions
+-- 3. Functional: build, preview and use a segment (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Table and functions exist
+-- =============================================================================
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+  AND table_name = 'participant_segments';
+-- Expected: 1 row
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'validate_segment_definition', 'segment_condition_matches', 'get_segment_registrations',
+    'get_segment_members', 'preview_participant_segment', 'get_event_segments',
+    'upsert_participant_segment', 'delete_participant_segment'
+);
+-- Expected: 8 rows
+
+-- =============================================================================
+-- CHECK 2: Validation and permissions
+-- =============================================================================
+DO $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    -- Onbekende match en voorwaarde
+    v_result := public.validate_segment_definition(
+        gen_random_uuid(),
+        '{"match": "some", "conditions": [{"type": "unknown"}]}'::jsonb
+    );
+    IF (v_result->>'valid')::BOOLEAN OR jsonb_array_length(v_result->'errors') <> 2 THEN
+        RAISE EXCEPTION 'FAILED: invalid match/type accepted: %', v_result;
+    END IF;
+
+    -- Ids die niet bij het event horen
+    v_result := public.validate_segment_definition(
+        gen_random_uuid(),
+        jsonb_build_object('match', 'all', 'conditions', jsonb_build_array(
+            jsonb_build_object('type', 'ticket_type', 'ticket_type_ids', jsonb_build_array(gen_random_uuid()))
+        ))
+    );
+    IF v_result->'errors'->0->>'error' <> 'UNKNOWN_REFERENCE' THEN
+        RAISE EXCEPTION 'FAILED: foreign ticket type accepted: %', v_result;
+    END IF;
+
+    -- Waarden per type
+    v_result := public.validate_segment_definition(
+        gen_random_uuid(),
+        '{"match": "any", "conditions": [
+            {"type": "order_status", "statuses": ["paid", "bogus"]},
+            {"type": "check_in", "checked_in": "yes"},
+            {"type": "purchased_within_days", "days": 0},
+            {"type": "transfer_received", "received": true}
+        ]}'::jsonb
+    );
+    IF jsonb_array_length(v_result->'errors') <> 3 THEN
+        RAISE EXCEPTION 'FAILED: condition values not validated: %', v_result;
+    END IF;
+
+    -- Antwoorden: meerkeuze en hoofdletters
+    IF NOT public.registration_answer_matches('["Vegan", "Glutenvrij"]'::jsonb, 'equals', 'vegan')
+        OR public.registration_answer_matches('""'::jsonb, 'is_set', NULL) THEN
+        RAISE EXCEPTION 'FAILED: registration_answer_matches';
+    END IF;
+
+    IF has_function_privilege('authenticated', 'public.get_segment_members(uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute get_segment_members';
+    END IF;
+
+    IF has_function_privilege('authenticated', 'public.get_segment_registrations(uuid, jsonb)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute get_segment_registrations';
+    END IF;
+
+    RAISE NOTICE 'CHECK 2 PASSED: segment validation and permissions are correct';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Live telling: betaald, tickettype 10 km, nog niet ingecheckt
+-- SELECT preview_participant_segment('YOUR_EVENT_ID_HERE', '{"match": "all", "conditions": [
+--   {"type": "order_status", "statuses": ["paid"]},
+--   {"type": "ticket_type", "ticket_type_ids": ["YOUR_TICKET_TYPE_ID_HERE"]},
+--   {"type": "check_in", "checked_in": false}]}');
+-- Expected: { status: OK, participant_count, registration_count, sample: [max 5] }
+
+-- 3b. Opslaan (admin/owner) en hergebruiken
+-- SELECT upsert_participant_segment('YOUR_EVENT_ID_HERE', 'Betaald, niet ingecheckt', '<definition uit 3a>');
+-- SELECT get_event_segments('YOUR_EVENT_ID_HERE');
+-- Expected: segment met participant_count gelijk aan 3a; audit_log action SEGMENT_CREATED
+
+-- 3c. Campagne naar een segment
+-- POST /functions/v1/bulk-email { "event_id": "YOUR_EVENT_ID_HERE", "name": "Check-in herinnering",
+--   "subject": "Tot morgen!", "html_body": "<p>Hoi {{first_name}}</p>",
+--   "recipient_filter": { "type": "segment", "segment_id": "YOUR_SEGMENT_ID_HERE" } }
+-- Expected: total_recipients = participant_count (minus niet bereikbare adressen);
+--           een segment van een ander event geeft SEGMENT_NOT_FOUND
+
+-- 3d. Deelnemerslijst en export
+-- SELECT get_registrations_list('YOUR_EVENT_ID_HERE', '{"segment_id": "YOUR_SEGMENT_ID_HERE"}');
+-- SELECT * FROM export_registrations_csv('YOUR_EVENT_ID_HERE', '{"segment_id": "YOUR_SEGMENT_ID_HERE"}');
+-- Expected: alleen registraties uit het segment (total = registration_count uit 3a)
+
+-- 3e. Verwijderen terwijl een campagne het segment nog gebruikt
+-- SELECT delete_participant_segment('YOUR_SEGMENT_ID_HERE');
+-- Expected: { error: SEGMENT_IN_USE } zolang de campagne van 3c niet afgerond/geannuleerd is
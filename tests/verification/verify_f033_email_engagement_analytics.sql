@@ -0,0 +1,116 @@
+-- =============================================================================
+-- Verification Script: F033 Email Engagement Analytics
+-- Purpose: Verify open/click tracking, tracked links, campaign analytics and the
+--          org-wide suppression of hard-bounced addresses
+--
+-- Run this after applying migrations to verify:
+-- 1. Columns, tables and functions exist
+-- 2. Permissions and suppression logic
+-- 3. Functional: send a campaign, click a link, read analytics (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Columns, tables and functions exist
+-- =============================================================================
+SELECT table_name, column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND (
+    (table_name = 'email_outbox' AND column_name IN ('opened_at', 'clicked_at'))
+    OR (table_name = 'email_bounces' AND column_name IN ('cleared_at', 'cleared_by'))
+  );
+-- Expected: 4 rows
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+  AND table_name IN ('email_tracked_links', 'email_link_clicks');
+-- Expected: 2 rows
+
+SELECT proname
+FROM pg_proc
+WHERE proname IN (
+    'register_tracked_links', 'record_link_click', 'clear_email_suppression',
+    'get_campaign_analytics'
+);
+-- Expected: 4 rows
+
+-- =============================================================================
+-- CHECK 2: Permissions and suppression logic
+-- =============================================================================
+DO $$
+DECLARE
+    v_org_id UUID;
+    v_result JSONB;
+BEGIN
+    IF has_function_privilege('authenticated', 'public.register_tracked_links(uuid, text[])', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute register_tracked_links';
+    END IF;
+
+    IF has_function_privilege('authenticated', 'public.record_link_click(uuid, uuid, text)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute record_link_click';
+    END IF;
+
+    -- Onbekende link: geen redirect doel
+    v_result := public.record_link_click(gen_random_uuid(), NULL, NULL);
+    IF v_result->>'error' <> 'LINK_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown link resolved: %', v_result;
+    END IF;
+
+    -- Zonder login geen analytics
+    v_result := public.get_campaign_analytics(gen_random_uuid());
+    IF v_result->>'error' IS NULL THEN
+        RAISE EXCEPTION 'FAILED: analytics without batch/membership: %', v_result;
+    END IF;
+
+    -- Hard bounce onderdrukt het adres binnen de org, ook transactioneel
+    SELECT id INTO v_org_id FROM orgs LIMIT 1;
+    IF v_org_id IS NOT NULL THEN
+        INSERT INTO email_bounces (org_id, email, bounce_type)
+        VALUES (v_org_id, 'f033-verify@example.com', 'hard');
+
+        IF public.is_email_deliverable('F033-verify@example.com', v_org_id, 'transactional') THEN
+            RAISE EXCEPTION 'FAILED: hard-bounced address still deliverable';
+        END IF;
+
+        UPDATE email_bounces SET cleared_at = NOW()
+        WHERE email = 'f033-verify@example.com';
+
+        IF NOT public.is_email_deliverable('f033-verify@example.com', v_org_id, 'transactional') THEN
+            RAISE EXCEPTION 'FAILED: cleared suppression still blocks the address';
+        END IF;
+
+        DELETE FROM email_bounces WHERE email = 'f033-verify@example.com';
+    END IF;
+
+    RAISE NOTICE 'CHECK 2 PASSED: tracking permissions and hard bounce suppression are correct';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Campagne met een link versturen
+-- POST /functions/v1/bulk-email { "event_id": "YOUR_EVENT_ID_HERE", "name": "Route info",
+--   "subject": "De route", "html_body": "<p><a href=\"https://example.com/route\">Route</a></p>",
+--   "recipient_filter": { "type": "all" } }
+-- Na process-outbox:
+-- SELECT url FROM email_tracked_links WHERE batch_id = 'YOUR_BATCH_ID_HERE';
+-- Expected: 1 row (https://example.com/route); de verzonden html bevat /track-link?l=...&e=...&s=...
+
+-- 3b. Link klikken (uit de ontvangen email)
+-- GET /functions/v1/track-link?l=YOUR_LINK_ID_HERE&e=YOUR_EMAIL_ID_HERE&s=YOUR_SIGNATURE_HERE
+-- Expected: 302 naar https://example.com/route; email_link_clicks bevat de click,
+--           email_outbox.clicked_at is gezet. Met een aangepaste e= of s=: wel redirect, geen click
+
+-- 3c. Resend webhooks email.opened / email.clicked
+-- Expected: email_outbox.opened_at gezet, event 'opened' in email_outbox_events; status blijft ongewijzigd
+
+-- 3d. Analytics (org member)
+-- SELECT get_campaign_analytics('YOUR_BATCH_ID_HERE');
+-- Expected: { status: OK, totals, rates, links: [{ url, clicks, unique_clicks }], bucket: hour, timeline }
+
+-- 3e. Hard bounce opheffen (admin/owner)
+-- SELECT clear_email_suppression('YOUR_ORG_ID_HERE', 'YOUR_BOUNCED_EMAIL_HERE');
+-- Expected: { status: OK, bounces_cleared: 1 }; audit_log action EMAIL_SUPPRESSION_CLEARED;
+--           een tweede keer geeft NOT_SUPPRESSED
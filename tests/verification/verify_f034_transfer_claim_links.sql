@@ -0,0 +1,114 @@
+-- =============================================================================
+-- Verification Script: F034 Transfer Claim Links
+-- Purpose: Verify claim emails, token-based accept/reject, reminders, expiry
+--          and sender notifications for ticket transfers
+--
+-- Run this after applying migrations to verify:
+-- 1. Columns, tables, functions and trigger exist
+-- 2. Permissions and token checks (token stays the same for a transfer)
+-- 3. Functional: transfer to a recipient without account (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Columns, tables, functions and trigger exist
+-- =============================================================================
+SELECT column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND table_name = 'ticket_transfers'
+  AND column_name IN ('site_origin', 'reminder_sent_at');
+-- Expected: 2 rows
+
+SELECT COUNT(*) FROM public.transfer_claim_secret;
+-- Expected: 1
+
+SELECT proname, pg_get_function_identity_arguments(oid) AS args
+FROM pg_proc
+WHERE proname IN (
+    'transfer_claim_token', 'queue_transfer_claim_email', 'create_ticket_transfer', 'get_transfer_claim',
+    'accept_ticket_transfer', 'reject_ticket_transfer', 'notify_transfer_sender',
+    'process_transfer_notifications'
+);
+-- Expected: 9 rows (accept_ticket_transfer with and without _token)
+
+SELECT tgname
+FROM pg_trigger
+WHERE tgname = 'notify_transfer_sender';
+-- Expected: 1 row
+
+-- =============================================================================
+-- CHECK 2: Permissions and token checks
+-- =============================================================================
+DO $$
+DECLARE
+    v_result JSONB;
+    v_transfer_id UUID := gen_random_uuid();
+BEGIN
+    IF has_function_privilege('authenticated', 'public.transfer_claim_token(uuid)', 'EXECUTE')
+       OR has_table_privilege('authenticated', 'public.transfer_claim_secret', 'SELECT') THEN
+        RAISE EXCEPTION 'FAILED: clients can derive transfer claim tokens';
+    END IF;
+
+    IF public.transfer_claim_token(v_transfer_id) IS DISTINCT FROM public.transfer_claim_token(v_transfer_id)
+       OR public.transfer_claim_token(v_transfer_id) = public.transfer_claim_token(gen_random_uuid()) THEN
+        RAISE EXCEPTION 'FAILED: transfer_claim_token is not stable per transfer';
+    END IF;
+
+    IF has_function_privilege('authenticated', 'public.create_ticket_transfer(uuid, uuid, text, text)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute create_ticket_transfer';
+    END IF;
+
+    IF has_function_privilege('anon', 'public.accept_ticket_transfer(uuid, text)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: anon can execute accept_ticket_transfer';
+    END IF;
+
+    IF NOT has_function_privilege('anon', 'public.reject_ticket_transfer(uuid, text)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: anon cannot reject with a claim link';
+    END IF;
+
+    v_result := public.get_transfer_claim(gen_random_uuid(), 'not-a-token');
+    IF v_result->>'error' <> 'TRANSFER_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown transfer resolved: %', v_result;
+    END IF;
+
+    v_result := public.create_ticket_transfer(gen_random_uuid(), gen_random_uuid(), 'geen-email');
+    IF v_result->>'error' <> 'INVALID_EMAIL' THEN
+        RAISE EXCEPTION 'FAILED: invalid recipient email accepted: %', v_result;
+    END IF;
+
+    RAISE NOTICE 'CHECK 2 PASSED: transfer claim permissions and token checks are correct';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Transfer starten (ingelogd als eigenaar van het ticket)
+-- POST /functions/v1/initiate-transfer { "ticket_id": "YOUR_TICKET_INSTANCE_ID_HERE", "to_email": "nieuw@example.com" }
+-- Expected: { success: true, transfer_id, expires_at (transfer_expiry_hours), email_queued: true }
+-- SELECT subject, html_body FROM email_outbox WHERE idempotency_key = 'transfer_claim:YOUR_TRANSFER_ID_HERE';
+-- Expected: 1 row met een link naar /transfer/<transfer_id>/<token>
+
+-- 3b. Claim pagina zonder account
+-- Open de link, vul naam + wachtwoord in → account aangemaakt en ticket geaccepteerd
+-- SELECT status, to_participant_id FROM ticket_transfers WHERE id = 'YOUR_TRANSFER_ID_HERE';
+-- Expected: accepted, deelnemer met user_id van het nieuwe account;
+--           email_outbox bevat 'transfer_outcome:YOUR_TRANSFER_ID_HERE' voor de afzender
+
+-- 3c. Herinnering en verlopen (zet expires_at dichtbij)
+-- UPDATE ticket_transfers SET expires_at = NOW() + INTERVAL '1 hour' WHERE id = 'YOUR_PENDING_TRANSFER_ID_HERE';
+-- SELECT process_transfer_notifications();
+-- Expected: { reminders: 1 }; mail 'transfer_reminder:...' met dezelfde link als in 3a
+-- SELECT transfer_token_hash = encode(extensions.digest(transfer_claim_token(id), 'sha256'), 'hex')
+-- FROM ticket_transfers WHERE id = 'YOUR_PENDING_TRANSFER_ID_HERE';
+-- Expected: true (hash niet vervangen door de herinnering)
+-- SELECT get_transfer_claim('YOUR_PENDING_TRANSFER_ID_HERE', 'YOUR_TOKEN_FROM_3A_HERE');
+-- Expected: status pending, geen INVALID_TOKEN: de link uit de eerste mail en de
+--           bevestigingslink na aanmelden (signUpForTransfer) blijven werken
+-- UPDATE ticket_transfers SET expires_at = NOW() - INTERVAL '1 minute' WHERE id = 'YOUR_PENDING_TRANSFER_ID_HERE';
+-- SELECT process_transfer_notifications();
+-- Expected: { expired: 1 }; afzender krijgt 'transfer_outcome:...' (verlopen)
+
+-- 3d. Weigeren zonder account
+-- SELECT reject_ticket_transfer('YOUR_TRANSFER_ID_HERE', 'YOUR_TOKEN_HERE');
+-- Expected: { status: OK }; status rejected (geen trigger fout meer), afzender krijgt bericht
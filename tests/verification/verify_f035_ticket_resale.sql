@@ -0,0 +1,146 @@
+-- =============================================================================
+-- Verification Script: F035 Ticket Resale
+-- Purpose: Verify organizer-controlled resale: listings with price cap,
+--          checkout reservation, ticket hand-over and seller payouts
+--
+-- Run this after applying migrations to verify:
+-- 1. Table, columns, functions and trigger exist
+-- 2. Settings defaults, permissions and token checks
+-- 3. Functional: list, buy and pay out a ticket (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Table, columns, functions and trigger exist
+-- =============================================================================
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+  AND table_name = 'ticket_resale_listings';
+-- Expected: 1 row
+
+SELECT table_name, column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND ((table_name = 'orders' AND column_name = 'resale_listing_id')
+    OR (table_name = 'ticket_resale_listings' AND column_name IN ('payout_refund_id', 'payout_failed_at', 'payout_error', 'reserved_until', 'buyer_order_id')));
+-- Expected: 6 rows
+
+SELECT proname, pg_get_function_identity_arguments(oid) AS args
+FROM pg_proc
+WHERE proname IN (
+    'resale_holder_order_id', 'get_resale_quote', 'get_order_resale',
+    'create_resale_listing', 'cancel_resale_listing', 'get_public_resale_listings',
+    'reserve_resale_listing', 'complete_ticket_resale', 'handle_resale_order_status',
+    'mark_resale_payout_failed', 'retry_resale_payout'
+);
+-- Expected: 11 rows
+
+SELECT tgname
+FROM pg_trigger
+WHERE tgname IN ('handle_resale_order_status', 'ticket_resale_listings_updated_at');
+-- Expected: 2 rows
+
+-- =============================================================================
+-- CHECK 2: Settings defaults, permissions and token checks
+-- =============================================================================
+DO $$
+DECLARE
+    v_defaults JSONB;
+    v_result JSONB;
+BEGIN
+    v_defaults := public.get_default_settings('transfers');
+    IF (v_defaults->>'resale_enabled')::BOOLEAN IS DISTINCT FROM false
+       OR (v_defaults->>'resale_max_price_pct')::INTEGER <> 100
+       OR (v_defaults->>'resale_fee_pct')::INTEGER <> 5 THEN
+        RAISE EXCEPTION 'FAILED: unexpected resale defaults: %', v_defaults;
+    END IF;
+
+    IF has_function_privilege('anon', 'public.reserve_resale_listing(uuid, uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: anon can execute reserve_resale_listing';
+    END IF;
+
+    IF has_function_privilege('authenticated', 'public.complete_ticket_resale(uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute complete_ticket_resale';
+    END IF;
+
+    IF has_function_privilege('authenticated', 'public.mark_resale_payout_failed(uuid, text)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: authenticated can execute mark_resale_payout_failed';
+    END IF;
+
+    IF NOT has_function_privilege('anon', 'public.get_public_resale_listings(uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: anon cannot read public resale listings';
+    END IF;
+
+    v_result := public.create_resale_listing('not-a-token', gen_random_uuid(), 1000);
+    IF v_result->>'error' <> 'ORDER_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: listing created with unknown token: %', v_result;
+    END IF;
+
+    v_result := public.cancel_resale_listing(gen_random_uuid(), 'not-a-token');
+    IF v_result->>'error' <> 'LISTING_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown listing cancelled: %', v_result;
+    END IF;
+
+    v_result := public.retry_resale_payout(gen_random_uuid());
+    IF v_result->>'error' <> 'LISTING_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: payout retried for unknown listing: %', v_result;
+    END IF;
+
+    v_result := public.get_public_resale_listings(gen_random_uuid());
+    IF v_result->>'error' <> 'EVENT_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: listings returned for unknown event: %', v_result;
+    END IF;
+
+    RAISE NOTICE 'CHECK 2 PASSED: resale defaults, permissions and token checks are correct';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Doorverkoop aanzetten (org admin)
+-- SELECT set_event_setting('YOUR_EVENT_ID_HERE', 'transfers',
+--     '{"resale_enabled": true, "resale_max_price_pct": 90, "resale_fee_pct": 5}'::jsonb);
+
+-- 3b. Ticket aanbieden vanaf de bevestigingspagina (public token van de betaalde order)
+-- SELECT create_resale_listing('YOUR_PUBLIC_TOKEN_HERE', 'YOUR_TICKET_INSTANCE_ID_HERE', 999999);
+-- Expected: { error: PRICE_ABOVE_CAP, max_price_cents }
+-- SELECT create_resale_listing('YOUR_PUBLIC_TOKEN_HERE', 'YOUR_TICKET_INSTANCE_ID_HERE', 2000);
+-- Expected: { status: OK, listing_id, fee_cents: 100, payout_cents: 1900 }
+
+-- 3c. Kopen (ingelogd als ander account)
+-- POST /functions/v1/create-order-public { "event_id": "YOUR_EVENT_ID_HERE", "resale_listing_id": "YOUR_LISTING_ID_HERE", "items": [], "email": "koper@example.com" }
+-- Expected: { order_id, public_token, checkout_url }
+-- SELECT status, reserved_until, buyer_order_id FROM ticket_resale_listings WHERE id = 'YOUR_LISTING_ID_HERE';
+-- Expected: reserved, ~30 minuten vooruit; een tweede koper krijgt LISTING_NOT_AVAILABLE
+
+-- 3d. Na betaling (order → paid)
+-- SELECT status, transfer_id FROM ticket_resale_listings WHERE id = 'YOUR_LISTING_ID_HERE';
+-- Expected: sold; ticket_instances heeft een nieuwe qr_code en hoort bij de deelnemer van de koper
+-- SELECT token_hash = encode(extensions.digest(qr_code, 'sha256'), 'hex') FROM ticket_instances WHERE id = 'YOUR_TICKET_INSTANCE_ID_HERE';
+-- Expected: true; scan_ticket('YOUR_EVENT_ID_HERE', <nieuwe qr_code>) vindt het ticket
+-- SELECT idempotency_key FROM email_outbox WHERE idempotency_key LIKE 'resale_%:YOUR_LISTING_ID_HERE';
+-- Expected: 2 rows (resale_sold + resale_bought)
+
+-- 3e. Uitbetaling verkoper (process-outbox)
+-- POST /functions/v1/process-outbox
+-- Expected: resale_payouts: 1
+-- SELECT r.amount_cents, r.status FROM ticket_resale_listings l JOIN refunds r ON r.id = l.payout_refund_id
+-- WHERE l.id = 'YOUR_LISTING_ID_HERE';
+-- Expected: amount_cents = payout_cents; het oorspronkelijke ticket van de verkoper blijft buiten de refund_items
+
+-- 3f. Geweigerde uitbetaling (verkoper intussen volledig terugbetaald)
+-- POST /functions/v1/process-outbox
+-- Expected: resale_payouts_failed: 1
+-- SELECT payout_failed_at IS NOT NULL, payout_error FROM ticket_resale_listings WHERE id = 'YOUR_LISTING_ID_HERE';
+-- Expected: true, ALREADY_REFUNDED; volgende runs slaan de aanbieding over, nieuwere uitbetalingen gaan door
+-- SELECT retry_resale_payout('YOUR_LISTING_ID_HERE');
+-- Expected: { status: OK }; de aanbieding staat weer in de wachtrij
+
+-- 3g. Financiële boeking (als org owner)
+-- SELECT line_type, gross, refund, quantity, order_item_id FROM finance_report_lines('YOUR_ORG_ID_HERE')
+-- WHERE order_id IN ('YOUR_BUYER_ORDER_ID_HERE', 'YOUR_SELLER_ORDER_ID_HERE') ORDER BY booked_at;
+-- Expected: resale regel met gross = prijs van de aanbieding en order_item_id NULL; resale_payout regel
+--           met refund = payout_cents; geen refund regels op de tickets van de verkoper
+-- SELECT get_finance_report('YOUR_ORG_ID_HERE')->'totals';
+-- Expected: resale_payouts = payout_cents, niet meegeteld in refunds
@@ -0,0 +1,136 @@
+-- =============================================================================
+-- Verification Script: F036 Registration Question Builder
+-- Purpose: Verify the question builder: validation and show-if rules,
+--          per-ticket checkout answers and private file uploads
+--
+-- Run this after applying migrations to verify:
+-- 1. Columns, table, bucket, functions and trigger exist
+-- 2. Show-if evaluation, permissions and admin checks
+-- 3. Functional: build questions, check out two tickets (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Columns, table, bucket, functions and trigger exist
+-- =============================================================================
+SELECT table_name, column_name
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND ((table_name = 'registration_questions' AND column_name IN ('validation', 'show_if', 'updated_at'))
+    OR (table_name = 'registration_answers' AND column_name = 'ticket_instance_id'));
+-- Expected: 4 rows
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+  AND table_name = 'order_attendee_answers';
+-- Expected: 1 row
+
+SELECT id, public, file_size_limit
+FROM storage.buckets
+WHERE id = 'registration-uploads';
+-- Expected: 1 row (public = false, 10485760)
+
+SELECT proname, pg_get_function_identity_arguments(oid) AS args
+FROM pg_proc
+WHERE proname IN (
+    'registration_question_visible', 'validate_registration_answers',
+    'can_manage_registration_questions', 'get_registration_questions_admin',
+    'upsert_registration_question', 'delete_registration_question',
+    'reorder_registration_questions', 'store_attendee_answers_on_issue'
+);
+-- Expected: 8 rows
+
+SELECT tgname
+FROM pg_trigger
+WHERE tgname IN ('store_attendee_answers_on_issue_trigger', 'registration_questions_updated_at');
+-- Expected: 2 rows
+
+-- =============================================================================
+-- CHECK 2: Show-if evaluation, permissions and admin checks
+-- =============================================================================
+DO $$
+DECLARE
+    v_question_id TEXT := gen_random_uuid()::TEXT;
+    v_result JSONB;
+BEGIN
+    IF NOT public.registration_question_visible(NULL, '{}'::jsonb) THEN
+        RAISE EXCEPTION 'FAILED: question without show_if is hidden';
+    END IF;
+
+    IF NOT public.registration_question_visible(
+        jsonb_build_object('question_id', v_question_id, 'operator', 'equals', 'value', 'Ja'),
+        jsonb_build_object(v_question_id, 'ja')
+    ) THEN
+        RAISE EXCEPTION 'FAILED: equals is not case-insensitive';
+    END IF;
+
+    IF public.registration_question_visible(
+        jsonb_build_object('question_id', v_question_id, 'operator', 'is_set'),
+        '{}'::jsonb
+    ) THEN
+        RAISE EXCEPTION 'FAILED: is_set matched a missing answer';
+    END IF;
+
+    IF NOT public.registration_question_visible(
+        jsonb_build_object('question_id', v_question_id, 'operator', 'not_equals', 'value', 'Ja'),
+        '{}'::jsonb
+    ) THEN
+        RAISE EXCEPTION 'FAILED: not_equals should match a missing answer';
+    END IF;
+
+    IF has_function_privilege('anon', 'public.validate_registration_answers(uuid, uuid, jsonb)', 'EXECUTE')
+       OR has_function_privilege('authenticated', 'public.validate_registration_answers(uuid, uuid, jsonb)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: validate_registration_answers is callable by clients';
+    END IF;
+
+    v_result := public.upsert_registration_question(gen_random_uuid(), 'text', 'Club');
+    IF v_result->>'error' <> 'EVENT_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: question created for unknown event: %', v_result;
+    END IF;
+
+    v_result := public.delete_registration_question(gen_random_uuid());
+    IF v_result->>'error' <> 'QUESTION_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown question deleted: %', v_result;
+    END IF;
+
+    RAISE NOTICE 'CHECK 2 PASSED: show-if evaluation, permissions and admin checks are correct';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Vragen aanmaken (org admin)
+-- SELECT upsert_registration_question('YOUR_EVENT_ID_HERE', 'select', 'Lid van een club?',
+--     _options => '["Ja", "Nee"]'::jsonb, _is_required => true);
+-- SELECT upsert_registration_question('YOUR_EVENT_ID_HERE', 'text', 'Licentienummer',
+--     _validation => '{"pattern": "^[0-9]{6}$"}'::jsonb, _is_required => true,
+--     _show_if => '{"question_id": "YOUR_CLUB_QUESTION_ID_HERE", "operator": "equals", "value": "Ja"}'::jsonb);
+-- SELECT upsert_registration_question('YOUR_EVENT_ID_HERE', 'file', 'Medisch attest',
+--     _ticket_type_id => 'YOUR_TICKET_TYPE_ID_HERE', _is_medical => true, _validation => '{"max_size_mb": 5}'::jsonb);
+-- Expected: { status: OK, question_id } (3x)
+
+-- 3b. Volgorde: de licentievraag mag niet vóór de clubvraag
+-- SELECT reorder_registration_questions('YOUR_EVENT_ID_HERE',
+--     ARRAY['YOUR_LICENSE_QUESTION_ID_HERE', 'YOUR_CLUB_QUESTION_ID_HERE']::uuid[]);
+-- Expected: { error: CONDITION_ORDER }
+
+-- 3c. Checkout met 2 tickets: per ticket eigen antwoorden
+-- POST /functions/v1/create-order-public { "event_id": "YOUR_EVENT_ID_HERE", "email": "groep@example.com",
+--   "items": [{ "ticket_type_id": "YOUR_TICKET_TYPE_ID_HERE", "quantity": 2, "attendees": [
+--     { "answers": { "YOUR_CLUB_QUESTION_ID_HERE": "Ja", "YOUR_LICENSE_QUESTION_ID_HERE": "12AB" } },
+--     { "answers": { "YOUR_CLUB_QUESTION_ID_HERE": "Nee" } } ] }] }
+-- Expected: 400 INVALID_ANSWER (details.position = 0, reason = PATTERN); met "123456" → order_id
+-- SELECT sequence_no, answers FROM order_attendee_answers a
+-- JOIN order_items oi ON oi.id = a.order_item_id WHERE oi.order_id = 'YOUR_ORDER_ID_HERE';
+-- Expected: 2 rows; het tweede ticket heeft geen licentienummer
+
+-- 3d. Na betaling: antwoorden per ticket
+-- SELECT ra.ticket_instance_id, q.label, ra.answer_value
+-- FROM registration_answers ra JOIN registration_questions q ON q.id = ra.question_id
+-- JOIN ticket_instances ti ON ti.id = ra.ticket_instance_id WHERE ti.order_id = 'YOUR_ORDER_ID_HERE';
+-- Expected: 3 rows, verdeeld over de twee tickets
+
+-- 3e. Beantwoorde vragen blijven staan
+-- SELECT delete_registration_question('YOUR_CLUB_QUESTION_ID_HERE');
+-- Expected: { error: QUESTION_HAS_ANSWERS }
@@ -0,0 +1,120 @@
+-- =============================================================================
+-- Verification Script: F037 Participant Self-Service
+-- Purpose: Verify that participants can edit their own details and answers
+--          until the cutoff, and that every change is logged
+--
+-- Run this after applying migrations to verify:
+-- 1. Settings domain, functions and grants exist
+-- 2. Defaults, validation, permissions and error codes
+-- 3. Functional: edit via token and login, cutoff, organizer view (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Settings domain, functions and grants exist
+-- =============================================================================
+SELECT 'participants' = ANY (public.config_domains()) AS participants_is_config_domain;
+-- Expected: true
+
+SELECT public.get_default_settings('participants');
+-- Expected: { self_service_enabled: false, self_service_cutoff_hours: 48,
+--             self_service_fields: [first_name, last_name, phone], self_service_answers: true }
+
+SELECT proname, pg_get_function_identity_arguments(oid) AS args
+FROM pg_proc
+WHERE proname IN (
+    'self_service_profile_fields', 'self_service_registration_ids', 'self_service_state',
+    'get_self_service_registrations', 'update_self_service_registration', 'get_self_service_changes'
+);
+-- Expected: 6 rows
+
+-- =============================================================================
+-- CHECK 2: Validation, permissions and error codes
+-- =============================================================================
+DO $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    PERFORM public.validate_setting_domain('participants', jsonb_build_object(
+        'self_service_enabled', true,
+        'self_service_cutoff_hours', 24,
+        'self_service_fields', jsonb_build_array('first_name', 'city')
+    ));
+
+    BEGIN
+        PERFORM public.validate_setting_domain('participants', jsonb_build_object(
+            'self_service_fields', jsonb_build_array('email')
+        ));
+        RAISE EXCEPTION 'FAILED: email accepted as self-service field';
+    EXCEPTION WHEN others THEN
+        IF SQLERRM LIKE 'FAILED:%' THEN RAISE; END IF;
+    END;
+
+    BEGIN
+        PERFORM public.validate_setting_domain('participants', jsonb_build_object(
+            'self_service_cutoff_hours', 1000
+        ));
+        RAISE EXCEPTION 'FAILED: cutoff of 1000 hours accepted';
+    EXCEPTION WHEN others THEN
+        IF SQLERRM LIKE 'FAILED:%' THEN RAISE; END IF;
+    END;
+
+    IF has_function_privilege('anon', 'public.self_service_state(uuid)', 'EXECUTE')
+       OR has_function_privilege('authenticated', 'public.self_service_registration_ids(uuid, text)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: internal self-service functions are callable by clients';
+    END IF;
+
+    IF NOT has_function_privilege('anon', 'public.update_self_service_registration(uuid, jsonb, jsonb, uuid, text)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: update_self_service_registration not callable with a token';
+    END IF;
+
+    v_result := public.get_self_service_registrations('does-not-exist-' || gen_random_uuid(), 'token');
+    IF v_result->>'error' <> 'EVENT_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown event returned: %', v_result;
+    END IF;
+
+    v_result := public.update_self_service_registration(gen_random_uuid(), _public_token => 'token');
+    IF v_result->>'error' <> 'REGISTRATION_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown registration returned: %', v_result;
+    END IF;
+
+    RAISE NOTICE 'CHECK 2 PASSED: validation, permissions and error codes are correct';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Zelfbediening aanzetten (org admin)
+-- SELECT set_event_config('YOUR_EVENT_ID_HERE', 'participants',
+--     '{"self_service_enabled": true, "self_service_cutoff_hours": 24,
+--       "self_service_fields": ["first_name", "last_name", "phone", "city"]}'::jsonb);
+-- Expected: config met participants.self_service_enabled = true
+
+-- 3b. Gegevens ophalen via het token uit de bevestigingsmail
+-- SELECT get_self_service_registrations('YOUR_EVENT_SLUG_HERE', 'YOUR_PUBLIC_TOKEN_HERE');
+-- Expected: { status: OK, self_service: { locked_reason: null, cutoff_at }, registrations: [...], questions: [...] }
+
+-- 3c. Gegevens en een antwoord aanpassen
+-- SELECT update_self_service_registration('YOUR_REGISTRATION_ID_HERE',
+--     _profile => '{"phone": "+31 6 12345678"}'::jsonb,
+--     _answers => '{"YOUR_QUESTION_ID_HERE": "Ja"}'::jsonb,
+--     _ticket_instance_id => 'YOUR_TICKET_INSTANCE_ID_HERE',
+--     _public_token => 'YOUR_PUBLIC_TOKEN_HERE');
+-- Expected: { status: OK, changed: true, fields: [phone, YOUR_QUESTION_ID_HERE] }
+-- SELECT action, before_state, after_state, metadata FROM audit_log
+-- WHERE entity_id = 'YOUR_REGISTRATION_ID_HERE' AND action = 'PARTICIPANT_SELF_EDIT';
+-- Expected: 1 row met oude en nieuwe waarden, metadata.via = token
+
+-- 3d. Niet-aanpasbaar veld
+-- SELECT update_self_service_registration('YOUR_REGISTRATION_ID_HERE',
+--     _profile => '{"birth_date": "1990-01-01"}'::jsonb, _public_token => 'YOUR_PUBLIC_TOKEN_HERE');
+-- Expected: { error: FIELD_NOT_EDITABLE, field: birth_date }
+
+-- 3e. Na de deadline
+-- SELECT set_event_config('YOUR_EVENT_ID_HERE', 'participants', '{"self_service_cutoff_hours": 720}'::jsonb);
+-- (event start binnen 30 dagen) en herhaal 3c
+-- Expected: { error: CUTOFF_PASSED, cutoff_at }
+
+-- 3f. Organisator: wijzigingen per tickettype
+-- SELECT get_self_service_changes('YOUR_TICKET_TYPE_ID_HERE');
+-- Expected: changes[0].fields met before/after; medische antwoorden hidden = true voor support
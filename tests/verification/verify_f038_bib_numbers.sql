@@ -0,0 +1,113 @@
+-- =============================================================================
+-- Verification Script: F038 Bib Numbers
+-- Purpose: Verify bib number ranges, atomic assignment (sequential on issue,
+--          alphabetical batch, manual) and bibs in PDF / scan / export
+--
+-- Run this after applying migrations to verify:
+-- 1. Table, column, trigger, functions and grants exist
+-- 2. Constraints, permissions and error codes
+-- 3. Functional: ranges, assignment, refunds and reuse (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Table, column, trigger and functions exist
+-- =============================================================================
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'bib_number_ranges'
+ORDER BY ordinal_position;
+-- Expected: id, event_id, ticket_type_id, time_slot_id, range_start, range_end,
+--           assignment_mode, reuse_released, next_number, created_by, created_at, updated_at
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'ticket_instances' AND column_name = 'bib_number';
+-- Expected: 1 row (integer)
+
+SELECT tgname FROM pg_trigger WHERE tgname = 'assign_bib_number_on_issue_trigger';
+-- Expected: 1 row
+
+SELECT proname, pg_get_function_identity_arguments(oid) AS args
+FROM pg_proc
+WHERE proname IN (
+    'bib_range_for_ticket', 'next_bib_number', 'assign_bib_number_on_issue', 'can_manage_bib_numbers',
+    'get_bib_overview', 'upsert_bib_range', 'delete_bib_range', 'assign_bib_numbers', 'set_ticket_bib_number'
+);
+-- Expected: 9 rows
+
+-- =============================================================================
+-- CHECK 2: Constraints, permissions and error codes
+-- =============================================================================
+DO $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    IF has_function_privilege('authenticated', 'public.next_bib_number(uuid)', 'EXECUTE')
+       OR has_function_privilege('anon', 'public.bib_range_for_ticket(uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: internal bib functions are callable by clients';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_indexes
+        WHERE indexname = 'idx_ticket_instances_event_bib'
+          AND indexdef LIKE '%UNIQUE%'
+    ) THEN
+        RAISE EXCEPTION 'FAILED: bib numbers are not unique per event';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'registrations_list_v' AND column_name = 'bib_number'
+    ) THEN
+        RAISE EXCEPTION 'FAILED: registrations_list_v has no bib_number';
+    END IF;
+
+    v_result := public.upsert_bib_range(gen_random_uuid(), 1, 100);
+    IF v_result->>'error' <> 'EVENT_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown event returned: %', v_result;
+    END IF;
+
+    v_result := public.assign_bib_numbers(gen_random_uuid());
+    IF v_result->>'error' <> 'RANGE_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown range returned: %', v_result;
+    END IF;
+
+    v_result := public.set_ticket_bib_number(gen_random_uuid(), 1);
+    IF v_result->>'error' <> 'TICKET_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown ticket returned: %', v_result;
+    END IF;
+
+    RAISE NOTICE 'CHECK 2 PASSED: constraints, permissions and error codes are correct';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Reeks per tickettype, op volgorde bij betaling (org admin)
+-- SELECT upsert_bib_range('YOUR_EVENT_ID_HERE', 1, 500, 'sequential', 'YOUR_TICKET_TYPE_ID_HERE');
+-- Expected: { status: OK, range_id }
+-- SELECT upsert_bib_range('YOUR_EVENT_ID_HERE', 400, 600, 'sequential');
+-- Expected: { error: RANGE_OVERLAP }
+
+-- 3b. Betaling afronden (webhook / issue-tickets) en nummers bekijken
+-- SELECT id, bib_number FROM ticket_instances WHERE order_id = 'YOUR_ORDER_ID_HERE';
+-- Expected: opeenvolgende nummers vanaf 1
+
+-- 3c. Refund: zonder reuse_released blijft het nummer uitgesloten
+-- UPDATE ticket_instances SET status = 'void' WHERE id = 'YOUR_TICKET_INSTANCE_ID_HERE';
+-- SELECT set_ticket_bib_number('YOUR_OTHER_TICKET_INSTANCE_ID_HERE', <nummer van het void ticket>);
+-- Expected: { error: BIB_RETIRED }; met reuse_released = true krijgt het volgende ticket dit nummer
+
+-- 3d. Alfabetische batch vóór het event
+-- SELECT upsert_bib_range('YOUR_EVENT_ID_HERE', 1000, 1999, 'alphabetical', 'YOUR_OTHER_TICKET_TYPE_ID_HERE');
+-- SELECT assign_bib_numbers('YOUR_RANGE_ID_HERE');
+-- Expected: { status: OK, assigned, unassigned: 0 }, nummers op achternaam
+-- SELECT assign_bib_numbers('YOUR_RANGE_ID_HERE', true);
+-- Expected: alle nummers opnieuw vanaf 1000
+
+-- 3e. Startnummer in scan, PDF en export
+-- SELECT scan_ticket('YOUR_EVENT_ID_HERE', 'YOUR_QR_TOKEN_HERE')->'ticket'->'bib_number';
+-- SELECT get_ticket_pdf_data(_ticket_instance_id => 'YOUR_TICKET_INSTANCE_ID_HERE')->'tickets'->0->'bib_number';
+-- SELECT * FROM export_registrations_csv('YOUR_EVENT_ID_HERE') LIMIT 2;
+-- Expected: nummer in alle drie; CSV header bevat bib_number
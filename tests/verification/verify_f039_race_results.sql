@@ -0,0 +1,108 @@
+-- =============================================================================
+-- Verification Script: F039 Race Results
+-- Purpose: Verify results import (CSV / IOF XML rows), matching on ticket or
+--          bib, rankings (overall, gender, age group, wave), publishing and
+--          the public / participant results RPCs
+--
+-- Run this after applying migrations to verify:
+-- 1. Tables, functions and grants exist
+-- 2. Permissions and error codes
+-- 3. Functional: import, ranks, publish and lookups (replace YOUR_*_HERE)
+-- =============================================================================
+
+-- =============================================================================
+-- CHECK 1: Tables and functions exist
+-- =============================================================================
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'race_result_imports'
+ORDER BY ordinal_position;
+-- Expected: id, event_id, source_format, file_name, row_count, matched_count,
+--           published_at, created_by, created_at, updated_at
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'race_results'
+ORDER BY ordinal_position;
+-- Expected: o.a. import_id, ticket_instance_id, bib_number, gender, age_group, category,
+--           status, net_time_ms, gun_time_ms, overall_rank, gender_rank, age_group_rank, wave_rank
+
+SELECT proname, pg_get_function_identity_arguments(oid) AS args
+FROM pg_proc
+WHERE proname IN (
+    'ticket_holder_participant_id', 'result_age_group', 'rank_race_results', 'import_race_results',
+    'publish_race_results', 'delete_race_result_import', 'get_race_results_admin',
+    'get_public_race_results', 'get_my_race_results'
+);
+-- Expected: 9 rows
+
+-- =============================================================================
+-- CHECK 2: Permissions and error codes
+-- =============================================================================
+DO $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    IF has_function_privilege('authenticated', 'public.rank_race_results(uuid)', 'EXECUTE')
+       OR has_function_privilege('anon', 'public.ticket_holder_participant_id(uuid)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: internal result functions are callable by clients';
+    END IF;
+
+    IF NOT has_function_privilege('anon', 'public.get_public_race_results(text, text, text, integer, integer)', 'EXECUTE') THEN
+        RAISE EXCEPTION 'FAILED: public results are not readable by anon';
+    END IF;
+
+    IF public.result_age_group(19) <> 'U20' OR public.result_age_group(34) <> '30-39'
+       OR public.result_age_group(75) <> '70+' THEN
+        RAISE EXCEPTION 'FAILED: result_age_group returns wrong groups';
+    END IF;
+
+    v_result := public.import_race_results(gen_random_uuid(), 'csv', '[{"bib": "1"}]'::jsonb);
+    IF v_result->>'error' <> 'EVENT_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown event returned: %', v_result;
+    END IF;
+
+    v_result := public.publish_race_results(gen_random_uuid());
+    IF v_result->>'error' <> 'IMPORT_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown import returned: %', v_result;
+    END IF;
+
+    v_result := public.get_public_race_results('does-not-exist-' || gen_random_uuid());
+    IF v_result->>'error' <> 'EVENT_NOT_FOUND' THEN
+        RAISE EXCEPTION 'FAILED: unknown event slug returned: %', v_result;
+    END IF;
+
+    RAISE NOTICE 'CHECK 2 PASSED: permissions and error codes are correct';
+END $$;
+
+-- =============================================================================
+-- CHECK 3: Functional (run manually)
+-- =============================================================================
+
+-- 3a. Import (org admin); rij 2 heeft een onbekend startnummer
+-- SELECT import_race_results('YOUR_EVENT_ID_HERE', 'csv', '[
+--   {"bib": "YOUR_BIB_HERE", "category": "10 km", "status": "finished", "net_time_ms": 2400000},
+--   {"bib": "99999", "first_name": "Onbekend", "category": "10 km", "status": "finished", "net_time_ms": 2500000},
+--   {"ticket_instance_id": "YOUR_TICKET_INSTANCE_ID_HERE", "category": "10 km", "status": "dnf"}
+-- ]'::jsonb, 'uitslag.csv');
+-- Expected: { status: OK, row_count: 3, matched_count: 2, unmatched: [{ row: 2, bib: "99999" }] }
+
+-- 3b. Klassementen
+-- SELECT bib_number, status, overall_rank, gender_rank, age_group_rank, wave_rank
+-- FROM race_results WHERE import_id = 'YOUR_IMPORT_ID_HERE' ORDER BY overall_rank NULLS LAST;
+-- Expected: finishers 1, 2; DNF zonder rangen
+
+-- 3c. Publiek pas na publiceren
+-- SELECT get_public_race_results('YOUR_EVENT_SLUG_HERE');
+-- Expected: { error: RESULTS_NOT_PUBLISHED }
+-- SELECT publish_race_results('YOUR_IMPORT_ID_HERE');
+-- SELECT get_public_race_results('YOUR_EVENT_SLUG_HERE', _search => 'YOUR_BIB_HERE');
+-- Expected: één resultaat; geen e-mail of geboortedatum in de output
+
+-- 3d. Verwijderen van een gepubliceerde import
+-- SELECT delete_race_result_import('YOUR_IMPORT_ID_HERE');
+-- Expected: { error: IMPORT_PUBLISHED }
+
+-- 3e. Eigen uitslag (als de ticketeigenaar ingelogd)
+-- SELECT get_my_race_results();
+-- Expected: resultaat met overall_rank en overall_count voor het eigen ticket
@@ -19,17 +19,23 @@ import { EventCreate } from './pages/EventCreate'
 import {
   EventDetail,
   EventOverview,
-  EventProducts,
 } from './pages/EventDetail'
+import { EventProducts } from './pages/EventProducts'
 import { EventSettings } from './pages/EventSettings'
 import { EventCommunication } from './pages/EventCommunication'
 import { EventMessaging } from './pages/EventMessaging'
 import { EventFaqAdmin } from './pages/EventFaqAdmin'
+import { EventQuestions } from './pages/EventQuestions'
+import { EventBibs } from './pages/EventBibs'
+import { EventResults } from './pages/EventResults'
 import { EventTickets } from './pages/EventTickets'
 import { EventOrders } from './pages/EventOrders'
 import { EventParticipants } from './pages/EventParticipants'
 import { PublicEventCheckout } from './pages/public/PublicEventCheckout'
 import { PublicConfirm } from './pages/public/PublicConfirm'
+import { PublicTeamJoin } from './pages/public/PublicTeamJoin'
+import { PublicTransferClaim } from './pages/public/PublicTransferClaim'
+import { PublicManageRegistration } from './pages/public/PublicManageRegistration'
 import { PublicEvents } from './pages/public/PublicEvents'
 import { PublicEventDetail } from './pages/public/PublicEventDetail'
 import { ParticipantChat } from './pages/ParticipantChat'
@@ -49,6 +55,8 @@ import { EventRoute } from './pages/public/EventRoute'
 import { EventInvitations } from './pages/EventInvitations'
 import { PublicInvite } from './pages/public/PublicInvite'
 import { TeamPage } from './pages/TeamPage'
+import { FinancePage } from './pages/FinancePage'
+import { OrgSettingsPage } from './pages/OrgSettingsPage'
 
 function App() {
   return (
@@ -63,10 +71,15 @@ function App() {
           <Route path="/auth/callback" element={<AuthCallback />} />
           <Route path="/e/:eventSlug" element={<PublicEventCheckout />} />
           <Route path="/e/:eventSlug/confirm" element={<PublicConfirm />} />
+          <Route path="/e/:eventSlug/team/:code" element={<PublicTeamJoin />} />
+          <Route path="/e/:eventSlug/manage" element={<PublicManageRegistration />} />
           <Route path="/e/:eventSlug/chat" element={<ParticipantChat />} />
           <Route path="/e/:eventSlug/faq" element={<PublicFaq />} />
           <Route path="/e/:eventSlug/route" element={<EventRoute />} />
 
+          {/* Ticket transfer claim link (mail) */}
+          <Route path="/transfer/:transferId/:token" element={<PublicTransferClaim />} />
+
           {/* Public Invite */}
           <Route path="/invite/:code" element={<PublicInvite />} />
 
@@ -108,14 +121,17 @@ function App() {
                 <Route path="communication" element={<EventCommunication />} />
                 <Route path="messaging" element={<EventMessaging />} />
                 <Route path="faq" element={<EventFaqAdmin />} />
+                <Route path="questions" element={<EventQuestions />} />
+                <Route path="bibs" element={<EventBibs />} />
+                <Route path="results" element={<EventResults />} />
                 <Route path="invitations" element={<EventInvitations />} />
                 <Route path="settings" element={<EventSettings />} />
               </Route>
 
               {/* Org-level routes */}
               <Route path="team" element={<TeamPage />} />
-              <Route path="finance" element={<div className="p-4 text-gray-500">Finance Dashboard - Coming soon</div>} />
-              <Route path="settings" element={<div className="p-4 text-gray-500">Organisatie Instellingen - Coming soon</div>} />
+              <Route path="finance" element={<FinancePage />} />
+              <Route path="settings" element={<OrgSettingsPage />} />
             </Route>
           </Route>
         </Routes>
@@ -0,0 +1,190 @@
+/**
+ * CampaignAnalyticsPanel Component
+ *
+ * Engagement van een campagne, uitgeklapt onder de campagne in
+ * CampaignProgressPanel: rates (afgeleverd, bounced, klachten, geopend,
+ * geklikt), clicks per link via de track-link redirect en een tijdlijn per
+ * uur of per dag.
+ */
+
+import { useEffect, useState } from 'react'
+import { ExternalLink, Loader2 } from 'lucide-react'
+import { clsx } from 'clsx'
+import {
+    getCampaignAnalytics,
+    type CampaignAnalytics,
+    type CampaignTimelineBucket
+} from '../data/campaigns'
+
+type TimelineSeries = 'delivered' | 'opened' | 'clicked' | 'bounced'
+
+const SERIES: { key: TimelineSeries; label: string; className: string }[] = [
+    { key: 'delivered', label: 'Afgeleverd', className: 'bg-indigo-400' },
+    { key: 'opened', label: 'Geopend', className: 'bg-green-400' },
+    { key: 'clicked', label: 'Geklikt', className: 'bg-yellow-400' },
+    { key: 'bounced', label: 'Bounced', className: 'bg-red-400' },
+]
+
+function formatRate(value: number | null): string {
+    return value === null ? '-' : `${value.toLocaleString('nl-NL')}%`
+}
+
+function formatBucket(value: string, bucket: 'hour' | 'day'): string {
+    return new Date(value).toLocaleString('nl-NL', bucket === 'hour'
+        ? { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }
+        : { day: 'numeric', month: 'short' })
+}
+
+function RateCard({ label, rate, count, warning }: {
+    label: string
+    rate: number | null
+    count: number
+    warning?: boolean
+}) {
+    return (
+        <div className="rounded-md border border-gray-200 p-3">
+            <p className="text-xs text-gray-500">{label}</p>
+            <p className={clsx('text-lg font-semibold', warning ? 'text-red-700' : 'text-gray-900')}>
+                {formatRate(rate)}
+            </p>
+            <p className="text-xs text-gray-500">{count}</p>
+        </div>
+    )
+}
+
+function TimelineChart({ timeline, bucket }: { timeline: CampaignTimelineBucket[]; bucket: 'hour' | 'day' }) {
+    const max = Math.max(1, ...timeline.flatMap(t => SERIES.map(s => t[s.key])))
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-end gap-1 h-32 overflow-x-auto">
+                {timeline.map(t => (
+                    <div
+                        key={t.bucket_start}
+                        className="flex items-end gap-px h-full min-w-[16px]"
+                        title={`${formatBucket(t.bucket_start, bucket)}: ${SERIES.map(s => `${s.label.toLowerCase()} ${t[s.key]}`).join(', ')}`}
+                    >
+                        {SERIES.map(s => (
+                            <div
+                                key={s.key}
+                                className={clsx('w-1 rounded-t', s.className)}
+                                style={{ height: `${(t[s.key] / max) * 100}%` }}
+                            />
+                        ))}
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500">
+                <span>{formatBucket(timeline[0].bucket_start, bucket)}</span>
+                {timeline.length > 1 && <span>{formatBucket(timeline[timeline.length - 1].bucket_start, bucket)}</span>}
+            </div>
+            <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+                {SERIES.map(s => (
+                    <span key={s.key} className="inline-flex items-center gap-1">
+                        <span className={clsx('inline-block h-2 w-2 rounded-full', s.className)} />
+                        {s.label}
+                    </span>
+                ))}
+                <span className="text-gray-400">per {bucket === 'hour' ? 'uur' : 'dag'}</span>
+            </div>
+        </div>
+    )
+}
+
+export function CampaignAnalyticsPanel({ batchId }: { batchId: string }) {
+    const [analytics, setAnalytics] = useState<CampaignAnalytics | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        async function load() {
+            const { data, error: loadError } = await getCampaignAnalytics(batchId)
+            if (loadError) {
+                setError(loadError.message)
+            } else {
+                setAnalytics(data)
+            }
+            setLoading(false)
+        }
+
+        load()
+    }, [batchId])
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    if (error || !analytics) {
+        return <p className="text-sm text-red-700">{error ?? 'Analytics niet beschikbaar.'}</p>
+    }
+
+    const { totals, rates } = analytics
+
+    if (totals.sent === 0) {
+        return <p className="text-sm text-gray-500">Nog geen emails verzonden voor deze campagne.</p>
+    }
+
+    return (
+        <div className="space-y-4 rounded-md bg-gray-50 p-4">
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+                <RateCard label="Afgeleverd" rate={rates.delivery_rate} count={totals.delivered} />
+                <RateCard label="Bounced" rate={rates.bounce_rate} count={totals.bounced} warning={(rates.bounce_rate ?? 0) >= 5} />
+                <RateCard label="Spamklachten" rate={rates.complaint_rate} count={totals.complained} warning={(rates.complaint_rate ?? 0) >= 0.1} />
+                <RateCard label="Geopend" rate={rates.open_rate} count={totals.opened} />
+                <RateCard label="Geklikt" rate={rates.click_rate} count={totals.clicked} />
+            </div>
+            <p className="text-xs text-gray-500">
+                Percentages van afgeleverde emails (bounces: van verzonden). Opens zijn een indicatie: niet elke
+                mailapp meldt ze, sommige openen automatisch. Hard bounces worden voor de hele organisatie uitgesloten.
+                {rates.click_to_open_rate !== null && ` Click-to-open: ${formatRate(rates.click_to_open_rate)}.`}
+            </p>
+
+            {analytics.timeline.length > 0 && (
+                <div>
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">Tijdlijn</h4>
+                    <TimelineChart timeline={analytics.timeline} bucket={analytics.bucket} />
+                </div>
+            )}
+
+            <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Clicks per link</h4>
+                {analytics.links.length === 0 ? (
+                    <p className="text-sm text-gray-500">Geen links in deze campagne.</p>
+                ) : (
+                    <table className="min-w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-500">
+                                <th className="py-1 pr-4 font-medium">Link</th>
+                                <th className="py-1 pr-4 font-medium text-right">Clicks</th>
+                                <th className="py-1 font-medium text-right">Unieke ontvangers</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {analytics.links.map(link => (
+                                <tr key={link.link_id}>
+                                    <td className="py-1 pr-4 max-w-xs truncate">
+                                        <a
+                                            href={link.url}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            className="inline-flex items-center gap-1 text-indigo-600 hover:underline"
+                                        >
+                                            <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                                            <span className="truncate">{link.url}</span>
+                                        </a>
+                                    </td>
+                                    <td className="py-1 pr-4 text-right">{link.clicks}</td>
+                                    <td className="py-1 text-right">{link.unique_clicks}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,276 @@
+/**
+ * CampaignProgressPanel Component
+ *
+ * Overzicht van de campagnes van een event op de communicatiepagina: trigger
+ * (vast tijdstip, t.o.v. de start of na check-in), verzendvenster en
+ * voortgang per campagne. Lopende campagnes kunnen gepauzeerd, hervat en
+ * geannuleerd worden; de lijst ververst zolang er iets loopt. Per campagne
+ * kan de engagement (CampaignAnalyticsPanel) uitgeklapt worden.
+ */
+
+import { useEffect, useState } from 'react'
+import { Ban, BarChart3, Loader2, Pause, Play, RefreshCw } from 'lucide-react'
+import { clsx } from 'clsx'
+import { CampaignAnalyticsPanel } from './CampaignAnalyticsPanel'
+import {
+    cancelCampaign,
+    listEventCampaigns,
+    pauseCampaign,
+    resumeCampaign,
+    type Campaign,
+    type CampaignStatus
+} from '../data/campaigns'
+
+const REFRESH_INTERVAL_MS = 30000
+
+const ACTIVE_STATUSES: CampaignStatus[] = ['queued', 'processing', 'sending']
+
+const STATUS_LABELS: Record<CampaignStatus, { label: string; className: string }> = {
+    draft: { label: 'Concept', className: 'bg-gray-100 text-gray-700' },
+    queued: { label: 'Gepland', className: 'bg-blue-100 text-blue-800' },
+    processing: { label: 'Verwerken', className: 'bg-blue-100 text-blue-800' },
+    sending: { label: 'Verzenden', className: 'bg-indigo-100 text-indigo-800' },
+    completed: { label: 'Afgerond', className: 'bg-green-100 text-green-800' },
+    paused: { label: 'Gepauzeerd', className: 'bg-yellow-100 text-yellow-800' },
+    cancelled: { label: 'Geannuleerd', className: 'bg-gray-100 text-gray-700' },
+    failed: { label: 'Mislukt', className: 'bg-red-100 text-red-800' },
+}
+
+// Foutcodes van pause/resume/cancel_message_batch → tekst
+const CAMPAIGN_ERRORS: Record<string, string> = {
+    UNAUTHORIZED: 'Alleen owners en admins kunnen campagnes beheren.',
+    BATCH_NOT_FOUND: 'Deze campagne bestaat niet meer.',
+    INVALID_STATUS: 'Deze actie kan niet in de huidige status van de campagne.',
+}
+
+function formatOffset(minutes: number): string {
+    const abs = Math.abs(minutes)
+    if (abs === 0) return 'direct'
+    if (abs % 1440 === 0) return `${abs / 1440} ${abs === 1440 ? 'dag' : 'dagen'}`
+    if (abs % 60 === 0) return `${abs / 60} uur`
+    return `${abs} min`
+}
+
+function describeTrigger(campaign: Campaign): string {
+    const offset = campaign.trigger_offset_minutes
+    if (campaign.trigger_type === 'event_start') {
+        if (offset === 0) return 'Bij de start van het event'
+        return `${formatOffset(offset)} ${offset < 0 ? 'voor' : 'na'} de start van het event`
+    }
+    if (campaign.trigger_type === 'check_in') {
+        return offset === 0 ? 'Direct na check-in' : `${formatOffset(offset)} na check-in`
+    }
+    return 'Vast tijdstip'
+}
+
+function formatDateTime(value: string | null): string {
+    if (!value) return '-'
+    return new Date(value).toLocaleString('nl-NL', {
+        day: 'numeric',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+export function CampaignProgressPanel({ eventId }: { eventId: string }) {
+    const [campaigns, setCampaigns] = useState<Campaign[]>([])
+    const [loading, setLoading] = useState(true)
+    const [busyId, setBusyId] = useState<string | null>(null)
+    const [analyticsId, setAnalyticsId] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [reloadKey, setReloadKey] = useState(0)
+
+    useEffect(() => {
+        async function load() {
+            const { data, error: loadError } = await listEventCampaigns(eventId)
+            if (loadError) {
+                setError(CAMPAIGN_ERRORS[loadError.message] || loadError.message)
+            } else {
+                setCampaigns(data)
+            }
+            setLoading(false)
+        }
+
+        load()
+    }, [eventId, reloadKey])
+
+    const reload = () => setReloadKey(k => k + 1)
+
+    // Verversen zolang er een campagne loopt
+    const hasActive = campaigns.some(c => ACTIVE_STATUSES.includes(c.status))
+    useEffect(() => {
+        if (!hasActive) return
+        const timer = setInterval(() => setReloadKey(k => k + 1), REFRESH_INTERVAL_MS)
+        return () => clearInterval(timer)
+    }, [hasActive])
+
+    const runAction = async (campaign: Campaign, action: 'pause' | 'resume' | 'cancel') => {
+        if (action === 'cancel' && !confirm(`Campagne "${campaign.name}" annuleren? Berichten die nog niet verzonden zijn worden niet meer verstuurd.`)) {
+            return
+        }
+
+        setBusyId(campaign.id)
+        setError(null)
+
+        const { error: actionError } = action === 'pause'
+            ? await pauseCampaign(campaign.id)
+            : action === 'resume'
+                ? await resumeCampaign(campaign.id)
+                : await cancelCampaign(campaign.id)
+
+        if (actionError) {
+            setError(CAMPAIGN_ERRORS[actionError.message] || actionError.message)
+        }
+
+        setBusyId(null)
+        reload()
+    }
+
+    if (loading) {
+        return (
+            <div className="bg-white shadow sm:rounded-lg p-6 flex justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    return (
+        <div className="bg-white shadow sm:rounded-lg">
+            <div className="p-6 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h3 className="text-lg font-medium text-gray-900 mb-2">📬 Campagnes</h3>
+                        <p className="text-sm text-gray-500">
+                            Geplande en lopende campagnes. Verzending wordt per organisatie begrensd op de
+                            ingestelde rate limits en alleen binnen het verzendvenster van de campagne.
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={reload}
+                        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                        Verversen
+                    </button>
+                </div>
+
+                {error && (
+                    <div className="bg-red-50 border-l-4 border-red-400 p-4 text-red-700 text-sm">{error}</div>
+                )}
+
+                {campaigns.length === 0 ? (
+                    <p className="text-sm text-gray-500">Nog geen campagnes voor dit event.</p>
+                ) : (
+                    <ul className="divide-y divide-gray-200">
+                        {campaigns.map(campaign => {
+                            const status = STATUS_LABELS[campaign.status]
+                            const done = campaign.sent_count + campaign.failed_count + campaign.bounced_count + campaign.skipped_count
+                            const percentage = campaign.total_recipients > 0
+                                ? Math.round((done / campaign.total_recipients) * 100)
+                                : 0
+                            const busy = busyId === campaign.id
+                            const canPause = ACTIVE_STATUSES.includes(campaign.status)
+                            const canCancel = canPause || campaign.status === 'paused'
+
+                            return (
+                                <li key={campaign.id} className="py-4 space-y-2">
+                                    <div className="flex items-start justify-between gap-4">
+                                        <div>
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-sm font-medium text-gray-900">{campaign.name}</span>
+                                                <span className={clsx('px-2 py-0.5 rounded-full text-xs font-medium', status.className)}>
+                                                    {status.label}
+                                                </span>
+                                            </div>
+                                            <p className="text-xs text-gray-500 mt-1">
+                                                {describeTrigger(campaign)}
+                                                {campaign.trigger_type !== 'check_in' && ` · ${formatDateTime(campaign.run_at)}`}
+                                                {' · '}{campaign.channels.join(', ')}
+                                                {campaign.send_window_start && campaign.send_window_end && (
+                                                    ` · venster ${campaign.send_window_start}-${campaign.send_window_end}`
+                                                )}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            {busy && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+                                            {campaign.sent_count > 0 && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setAnalyticsId(analyticsId === campaign.id ? null : campaign.id)}
+                                                    className={clsx(
+                                                        'inline-flex items-center px-2 py-1 border rounded-md text-xs hover:bg-gray-50',
+                                                        analyticsId === campaign.id ? 'border-indigo-300 text-indigo-700' : 'border-gray-300 text-gray-700'
+                                                    )}
+                                                >
+                                                    <BarChart3 className="h-3 w-3 mr-1" />
+                                                    Analytics
+                                                </button>
+                                            )}
+                                            {canPause && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => runAction(campaign, 'pause')}
+                                                    disabled={busy}
+                                                    className="inline-flex items-center px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                                >
+                                                    <Pause className="h-3 w-3 mr-1" />
+                                                    Pauzeren
+                                                </button>
+                                            )}
+                                            {campaign.status === 'paused' && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => runAction(campaign, 'resume')}
+                                                    disabled={busy}
+                                                    className="inline-flex items-center px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                                >
+                                                    <Play className="h-3 w-3 mr-1" />
+                                                    Hervatten
+                                                </button>
+                                            )}
+                                            {canCancel && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => runAction(campaign, 'cancel')}
+                                                    disabled={busy}
+                                                    className="inline-flex items-center px-2 py-1 border border-red-300 rounded-md text-xs text-red-700 hover:bg-red-50 disabled:opacity-50"
+                                                >
+                                                    <Ban className="h-3 w-3 mr-1" />
+                                                    Annuleren
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+
+                                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                                        <div
+                                            className={clsx(
+                                                'h-full',
+                                                campaign.status === 'paused' ? 'bg-yellow-400' : 'bg-indigo-500'
+                                            )}
+                                            style={{ width: `${Math.min(percentage, 100)}%` }}
+                                        />
+                                    </div>
+
+                                    <p className="text-xs text-gray-500">
+                                        {campaign.sent_count} verzonden
+                                        {campaign.delivered_count > 0 && ` · ${campaign.delivered_count} afgeleverd`}
+                                        {campaign.failed_count + campaign.bounced_count > 0 && ` · ${campaign.failed_count + campaign.bounced_count} mislukt`}
+                                        {campaign.skipped_count > 0 && ` · ${campaign.skipped_count} overgeslagen`}
+                                        {campaign.pending_count > 0 && ` · ${campaign.pending_count} wachtend`}
+                                        {' · '}{campaign.total_recipients} ontvangers
+                                        {campaign.completed_at && ` · afgerond ${formatDateTime(campaign.completed_at)}`}
+                                    </p>
+
+                                    {analyticsId === campaign.id && <CampaignAnalyticsPanel batchId={campaign.id} />}
+                                </li>
+                            )
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,197 @@
+/**
+ * EventTeamsPanel Component
+ *
+ * Teams-weergave op de deelnemerspagina van een event.
+ * Toont per team de captain, leden, bezette plekken en of het team
+ * compleet is volgens de teamconfiguratie van het tickettype.
+ */
+
+import { useEffect, useState } from 'react'
+import { Users, Crown, CheckCircle, AlertTriangle, Loader2, X, Copy } from 'lucide-react'
+import { clsx } from 'clsx'
+import { getEventTeams, removeTeamMember, type EventTeam, type EventTeamMember, type TeamIssue } from '../data/event_teams'
+
+const STATUS_LABELS: Record<EventTeam['status'], { label: string; className: string }> = {
+    pending: { label: 'Wacht op betaling', className: 'bg-yellow-100 text-yellow-800' },
+    active: { label: 'Actief', className: 'bg-green-100 text-green-800' },
+    cancelled: { label: 'Geannuleerd', className: 'bg-red-100 text-red-800' },
+}
+
+const ISSUE_LABELS: Record<TeamIssue, string> = {
+    TOO_FEW_MEMBERS: 'Te weinig leden',
+    TOO_MANY_MEMBERS: 'Te veel leden',
+    NO_CAPTAIN: 'Geen captain',
+}
+
+export function EventTeamsPanel({ eventId, eventSlug }: { eventId: string; eventSlug: string }) {
+    const [teams, setTeams] = useState<EventTeam[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [removing, setRemoving] = useState<string | null>(null)
+    const [reloadKey, setReloadKey] = useState(0)
+
+    useEffect(() => {
+        async function fetchTeams() {
+            const { data, error: fetchError } = await getEventTeams(eventId)
+
+            if (fetchError) {
+                setError(fetchError.message)
+            } else {
+                setTeams(data || [])
+            }
+
+            setLoading(false)
+        }
+
+        fetchTeams()
+    }, [eventId, reloadKey])
+
+    const handleRemove = async (team: EventTeam, member: EventTeamMember) => {
+        if (!confirm(`${member.first_name} ${member.last_name} uit team ${team.name} verwijderen?`)) return
+
+        setRemoving(member.id)
+        const { error: removeError } = await removeTeamMember(member.id)
+
+        if (removeError) {
+            setError(removeError.message)
+        } else {
+            setReloadKey(k => k + 1)
+        }
+
+        setRemoving(null)
+    }
+
+    const copyInviteLink = (team: EventTeam) => {
+        navigator.clipboard.writeText(`${window.location.origin}/e/${eventSlug}/team/${team.invite_code}`)
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-32">
+                <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    const activeTeams = teams.filter(t => t.status === 'active')
+    const incompleteCount = activeTeams.filter(t => !t.completeness.is_complete).length
+
+    return (
+        <div>
+            <p className="mb-4 text-sm text-gray-500">
+                {activeTeams.length} actieve team{activeTeams.length !== 1 ? 's' : ''}
+                {incompleteCount > 0 && ` · ${incompleteCount} nog niet compleet`}
+            </p>
+
+            {error && (
+                <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+                    <p className="text-sm text-red-800">{error}</p>
+                    <button onClick={() => setError(null)} className="text-sm text-red-600 underline">Sluiten</button>
+                </div>
+            )}
+
+            {teams.length === 0 ? (
+                <div className="text-center py-12 bg-gray-50 rounded-lg">
+                    <Users className="mx-auto h-12 w-12 text-gray-400" />
+                    <h3 className="mt-2 text-sm font-medium text-gray-900">Geen teams</h3>
+                    <p className="mt-1 text-sm text-gray-500">
+                        Teams worden aangemaakt in de checkout bij tickets met een teamconfiguratie.
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {teams.map(team => {
+                        const status = STATUS_LABELS[team.status]
+                        const { completeness } = team
+
+                        return (
+                            <div
+                                key={team.id}
+                                className={clsx('bg-white shadow rounded-lg', team.status === 'cancelled' && 'opacity-50')}
+                            >
+                                <div className="px-4 py-3 border-b border-gray-200 flex items-start justify-between">
+                                    <div>
+                                        <div className="flex items-center gap-2">
+                                            <h4 className="font-medium text-gray-900">{team.name}</h4>
+                                            <span className={clsx('inline-flex items-center px-2 py-0.5 rounded text-xs font-medium', status.className)}>
+                                                {status.label}
+                                            </span>
+                                            {team.status === 'active' && (
+                                                completeness.is_complete ? (
+                                                    <span className="inline-flex items-center text-xs text-green-700">
+                                                        <CheckCircle className="mr-1 h-3 w-3" /> Compleet
+                                                    </span>
+                                                ) : (
+                                                    <span className="inline-flex items-center text-xs text-yellow-700">
+                                                        <AlertTriangle className="mr-1 h-3 w-3" />
+                                                        {completeness.issues.map(issue => ISSUE_LABELS[issue]).join(', ')}
+                                                    </span>
+                                                )
+                                            )}
+                                        </div>
+                                        <p className="text-sm text-gray-500">
+                                            {team.ticket_name} · {completeness.member_count}/{completeness.slots} plekken bezet
+                                            · teamgrootte {completeness.min_size}–{completeness.max_size}
+                                            {completeness.allow_incomplete_teams && ' (onvolledig toegestaan)'}
+                                        </p>
+                                    </div>
+                                    {team.status === 'active' && (
+                                        <button
+                                            onClick={() => copyInviteLink(team)}
+                                            className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+                                            title="Kopieer uitnodigingslink"
+                                        >
+                                            <Copy className="mr-1 h-4 w-4" />
+                                            <span className="font-mono">{team.invite_code}</span>
+                                        </button>
+                                    )}
+                                </div>
+
+                                {team.members.length === 0 ? (
+                                    <p className="px-4 py-3 text-sm text-gray-500">
+                                        Nog geen leden ({team.captain_email})
+                                    </p>
+                                ) : (
+                                    <ul className="divide-y divide-gray-100">
+                                        {team.members.map(member => (
+                                            <li key={member.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                                                <div className="flex items-center">
+                                                    {member.role === 'captain' ? (
+                                                        <Crown className="mr-2 h-4 w-4 text-yellow-500" />
+                                                    ) : (
+                                                        <Users className="mr-2 h-4 w-4 text-gray-300" />
+                                                    )}
+                                                    <span className="font-medium text-gray-900">
+                                                        {member.first_name} {member.last_name}
+                                                    </span>
+                                                    <span className="ml-2 text-gray-500">{member.email}</span>
+                                                </div>
+                                                <div className="flex items-center gap-3">
+                                                    <span className="text-xs text-gray-500">
+                                                        {member.checked_in_at
+                                                            ? `Ingecheckt ${new Date(member.checked_in_at).toLocaleTimeString('nl-NL', { hour: '2-digit', minute: '2-digit' })}`
+                                                            : member.ticket_instance_id ? 'Ticket' : 'Nog geen ticket'}
+                                                    </span>
+                                                    {team.status === 'active' && (
+                                                        <button
+                                                            onClick={() => handleRemove(team, member)}
+                                                            disabled={removing === member.id}
+                                                            className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                                                            title="Uit team verwijderen"
+                                                        >
+                                                            <X className="h-4 w-4" />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
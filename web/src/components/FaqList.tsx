@@ -0,0 +1,44 @@
+/**
+ * FaqList
+ *
+ * Publieke FAQ als uitklapbare vragen per categorie. Gedeeld door de
+ * FAQ-pagina (PublicFaq) en het FAQ-blok op PublicEventDetail.
+ */
+
+import { ChevronDown } from 'lucide-react'
+import type { PublicFaqCategory } from '../data/faq'
+
+interface FaqListProps {
+    categories: PublicFaqCategory[]
+    /** Kop voor vragen zonder categorie; alleen getoond naast andere categorieën */
+    uncategorizedLabel: string
+}
+
+export function FaqList({ categories, uncategorizedLabel }: FaqListProps) {
+    const showHeadings = categories.length > 1 || categories.some(c => c.id !== null)
+
+    return (
+        <div className="space-y-6">
+            {categories.map(category => (
+                <section key={category.id ?? 'uncategorized'}>
+                    {showHeadings && (
+                        <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                            {category.name ?? uncategorizedLabel}
+                        </h2>
+                    )}
+                    <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+                        {category.faqs.map(faq => (
+                            <details key={faq.id} className="group">
+                                <summary className="flex items-center justify-between gap-4 px-4 py-3 cursor-pointer list-none text-sm font-medium text-gray-900 hover:bg-gray-50">
+                                    {faq.question}
+                                    <ChevronDown className="h-4 w-4 flex-shrink-0 text-gray-400 transition-transform group-open:rotate-180" />
+                                </summary>
+                                <p className="px-4 pb-4 text-sm text-gray-600 whitespace-pre-wrap">{faq.answer}</p>
+                            </details>
+                        ))}
+                    </div>
+                </section>
+            ))}
+        </div>
+    )
+}
@@ -1,8 +1,9 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react'
 import { Link, useParams, useLocation, Outlet } from 'react-router-dom'
-import { Calendar, Settings, Users, CreditCard, LayoutDashboard } from 'lucide-react'
+import { Calendar, Settings, Users, CreditCard, LayoutDashboard, MessageSquare } from 'lucide-react'
 import { clsx } from 'clsx'
 import { supabase } from '../lib/supabase'
+import { getOrgUnreadMessageCount, subscribeToMessages } from '../data/messaging'
 import type { Organization } from '../types/supabase'
 
 /**
@@ -23,6 +24,7 @@ export function Layout({ children }: { children?: React.ReactNode }) {
     const [org, setOrg] = useState<Organization | null>(null)
     const [state, setState] = useState<LayoutState>('loading')
     const [errorMessage, setErrorMessage] = useState<string | null>(null)
+    const [unreadMessages, setUnreadMessages] = useState(0)
 
     // Guards
     const fetchRequestId = useRef(0)
@@ -211,6 +213,29 @@ export function Layout({ children }: { children?: React.ReactNode }) {
         }
     }, [orgSlug]) // Only re-run when orgSlug changes
 
+    /**
+     * Unread participant messages (all events of the org).
+     * Recounted live on new messages and read markers.
+     */
+    const orgId = org?.id
+    useEffect(() => {
+        if (!orgId) return
+        let cancelled = false
+
+        const loadUnread = async () => {
+            const { data } = await getOrgUnreadMessageCount(orgId)
+            if (!cancelled && data) setUnreadMessages(data.unread_messages)
+        }
+
+        loadUnread()
+        const unsubscribe = subscribeToMessages(`org-unread-${orgId}`, loadUnread)
+
+        return () => {
+            cancelled = true
+            unsubscribe()
+        }
+    }, [orgId])
+
     /**
      * Bootstrap handler - creates org via Edge Function.
      */
@@ -444,6 +469,18 @@ export function Layout({ children }: { children?: React.ReactNode }) {
                 <header className="h-16 bg-white border-b border-gray-200 px-8 flex items-center justify-between">
                     <h1 className="text-lg font-medium text-gray-900">{org.name}</h1>
                     <div className="flex items-center space-x-4">
+                        <Link
+                            to={`/org/${orgSlug}/events`}
+                            title="Ongelezen berichten van deelnemers"
+                            className="relative p-2 text-gray-500 hover:text-gray-700"
+                        >
+                            <MessageSquare className="h-5 w-5" />
+                            {unreadMessages > 0 && (
+                                <span className="absolute -top-0.5 -right-0.5 inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-medium">
+                                    {unreadMessages > 99 ? '99+' : unreadMessages}
+                                </span>
+                            )}
+                        </Link>
                         <div className="h-8 w-8 rounded-full bg-gray-200" />
                     </div>
                 </header>
@@ -0,0 +1,444 @@
+/**
+ * MessageTemplateEditor Component
+ *
+ * Beheer van email templates van de organisatie, op de communicatiepagina
+ * van een event. Per taal een onderwerp, HTML en tekstversie met merge
+ * variabelen en conditionele blokken. De preview rendert live met een
+ * deelnemer van dit event (of voorbeeldwaarden als er nog geen zijn) en
+ * toont onbekende variabelen voordat er iets opgeslagen of verstuurd wordt.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { AlertTriangle, Eye, Loader2, Plus, Save } from 'lucide-react'
+import { clsx } from 'clsx'
+import {
+    listMessageTemplates,
+    listTemplateVariables,
+    previewMessageTemplate,
+    upsertMessageTemplate,
+    type LocalizedText,
+    type MessageTemplate,
+    type TemplatePreview,
+    type TemplateValidation,
+    type TemplateVariable
+} from '../data/message_templates'
+
+const LOCALES = ['nl', 'en', 'fr', 'de']
+const PREVIEW_DEBOUNCE_MS = 400
+
+// Foutcodes van upsert_message_template → tekst
+const TEMPLATE_ERRORS: Record<string, string> = {
+    UNAUTHORIZED: 'Alleen owners en admins kunnen templates beheren.',
+    INVALID_NAME: 'Vul een naam in (max. 100 tekens).',
+    INVALID_LOCALE: 'Ongeldige taal.',
+    INVALID_CONTENT: 'Onderwerp en inhoud zijn verplicht.',
+    DEFAULT_LOCALE_MISSING: 'Vul onderwerp en inhoud in voor de standaardtaal.',
+    INVALID_TEMPLATE: 'Het template bevat fouten, zie hieronder.',
+    SYSTEM_TEMPLATE_READ_ONLY: 'Systeemtemplates kunnen niet aangepast worden.',
+    TEMPLATE_NOT_FOUND: 'Dit template bestaat niet meer.',
+    NAME_TAKEN: 'Er bestaat al een template met deze naam.',
+}
+
+interface Draft {
+    id?: string
+    name: string
+    description: string
+    default_locale: string
+    subject: LocalizedText
+    html_body: LocalizedText
+    text_body: LocalizedText
+    is_active: boolean
+}
+
+const EMPTY_DRAFT: Draft = {
+    name: '',
+    description: '',
+    default_locale: 'nl',
+    subject: {},
+    html_body: {},
+    text_body: {},
+    is_active: true,
+}
+
+/** Lege varianten weglaten: een taal zonder inhoud valt terug op de standaardtaal */
+function compact(value: LocalizedText): LocalizedText {
+    return Object.fromEntries(Object.entries(value).filter(([, text]) => text.trim() !== ''))
+}
+
+function toDraft(template: MessageTemplate): Draft {
+    return {
+        id: template.id,
+        name: template.name,
+        description: template.description ?? '',
+        default_locale: template.default_locale,
+        subject: { ...template.subject },
+        html_body: { ...template.html_body },
+        text_body: { ...(template.text_body ?? {}) },
+        is_active: template.is_active,
+    }
+}
+
+function ValidationList({ validation }: { validation: TemplateValidation }) {
+    if (validation.valid) return null
+
+    return (
+        <div className="rounded-md bg-yellow-50 border border-yellow-200 p-3 text-sm text-yellow-800 space-y-1">
+            {validation.unknown_variables.length > 0 && (
+                <p className="flex items-center gap-1">
+                    <AlertTriangle className="h-4 w-4" />
+                    Onbekende variabelen: {validation.unknown_variables.map(v => `{{${v}}}`).join(', ')}
+                </p>
+            )}
+            {validation.errors.map((e, i) => (
+                <p key={i}>
+                    {e.field}{e.locale ? ` (${e.locale})` : ''}: {e.error.replace(/^TEMPLATE_SYNTAX: /, '')}
+                </p>
+            ))}
+        </div>
+    )
+}
+
+export function MessageTemplateEditor({ orgId, eventId }: { orgId: string; eventId: string }) {
+    const [templates, setTemplates] = useState<MessageTemplate[]>([])
+    const [variables, setVariables] = useState<TemplateVariable[]>([])
+    const [loading, setLoading] = useState(true)
+    const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT)
+    const [locale, setLocale] = useState('nl')
+    const [preview, setPreview] = useState<TemplatePreview | null>(null)
+    const [previewLoading, setPreviewLoading] = useState(false)
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [saveValidation, setSaveValidation] = useState<TemplateValidation | null>(null)
+    const [success, setSuccess] = useState<string | null>(null)
+    const [reloadKey, setReloadKey] = useState(0)
+
+    const htmlRef = useRef<HTMLTextAreaElement>(null)
+
+    useEffect(() => {
+        async function load() {
+            const [templatesResult, variablesResult] = await Promise.all([
+                listMessageTemplates(orgId),
+                listTemplateVariables()
+            ])
+
+            if (templatesResult.error || variablesResult.error) {
+                setError((templatesResult.error || variablesResult.error)!.message)
+            } else {
+                setTemplates(templatesResult.data)
+                setVariables(variablesResult.data)
+            }
+            setLoading(false)
+        }
+
+        load()
+    }, [orgId, reloadKey])
+
+    // Live preview (debounced) bij elke wijziging van inhoud of taal
+    useEffect(() => {
+        let cancelled = false
+        const timer = setTimeout(async () => {
+            setPreviewLoading(true)
+            const { data, error: previewError } = await previewMessageTemplate(eventId, {
+                subject: draft.subject,
+                html_body: draft.html_body,
+                text_body: compact(draft.text_body),
+                default_locale: draft.default_locale
+            }, locale)
+
+            if (cancelled) return
+            if (previewError) {
+                setPreview(null)
+            } else {
+                setPreview(data)
+            }
+            setPreviewLoading(false)
+        }, PREVIEW_DEBOUNCE_MS)
+
+        return () => {
+            cancelled = true
+            clearTimeout(timer)
+        }
+    }, [eventId, draft.subject, draft.html_body, draft.text_body, draft.default_locale, locale])
+
+    const readOnly = draft.id !== undefined
+        && templates.find(t => t.id === draft.id)?.template_type === 'system'
+
+    const setField = (field: 'subject' | 'html_body' | 'text_body', value: string) => {
+        setDraft(d => ({ ...d, [field]: { ...d[field], [locale]: value } }))
+    }
+
+    // Variabele invoegen op de cursorpositie in de HTML
+    const insertVariable = (key: string) => {
+        const tag = `{{${key}}}`
+        const textarea = htmlRef.current
+        const current = draft.html_body[locale] ?? ''
+        const start = textarea?.selectionStart ?? current.length
+        const end = textarea?.selectionEnd ?? current.length
+        setField('html_body', current.slice(0, start) + tag + current.slice(end))
+        requestAnimationFrame(() => {
+            textarea?.focus()
+            textarea?.setSelectionRange(start + tag.length, start + tag.length)
+        })
+    }
+
+    const selectTemplate = (id: string) => {
+        const template = templates.find(t => t.id === id)
+        setDraft(template ? toDraft(template) : EMPTY_DRAFT)
+        setLocale(template?.default_locale ?? 'nl')
+        setError(null)
+        setSaveValidation(null)
+    }
+
+    const handleSave = async () => {
+        setSaving(true)
+        setError(null)
+        setSaveValidation(null)
+        setSuccess(null)
+
+        const textBody = compact(draft.text_body)
+        const { data, error: saveError, validation } = await upsertMessageTemplate(orgId, {
+            id: draft.id,
+            name: draft.name,
+            description: draft.description.trim() || null,
+            subject: compact(draft.subject),
+            html_body: compact(draft.html_body),
+            text_body: Object.keys(textBody).length > 0 ? textBody : null,
+            default_locale: draft.default_locale,
+            is_active: draft.is_active
+        })
+
+        if (saveError) {
+            setError(TEMPLATE_ERRORS[saveError.message] || saveError.message)
+            setSaveValidation(validation ?? null)
+        } else if (data) {
+            setDraft(d => ({ ...d, id: data.template_id }))
+            setSuccess('Template opgeslagen!')
+            setTimeout(() => setSuccess(null), 3000)
+            setReloadKey(k => k + 1)
+        }
+
+        setSaving(false)
+    }
+
+    if (loading) {
+        return (
+            <div className="bg-white shadow sm:rounded-lg p-6 flex justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    const validation = saveValidation ?? preview?.validation ?? null
+
+    return (
+        <div className="bg-white shadow sm:rounded-lg">
+            <div className="p-6 space-y-6">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h3 className="text-lg font-medium text-gray-900 mb-2">📝 Email Templates</h3>
+                        <p className="text-sm text-gray-500">
+                            Templates met variabelen en een versie per taal, te gebruiken voor campagnes.
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={draft.id ?? ''}
+                            onChange={e => selectTemplate(e.target.value)}
+                            className="border-gray-300 rounded-md text-sm"
+                        >
+                            <option value="">Nieuw template</option>
+                            {templates.map(t => (
+                                <option key={t.id} value={t.id}>
+                                    {t.name}{t.is_active ? '' : ' (inactief)'}
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            onClick={() => selectTemplate('')}
+                            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Nieuw
+                        </button>
+                    </div>
+                </div>
+
+                {error && (
+                    <div className="bg-red-50 border-l-4 border-red-400 p-4 text-red-700 text-sm">{error}</div>
+                )}
+
+                {success && (
+                    <div className="bg-green-50 border-l-4 border-green-400 p-4 text-green-700 text-sm">{success}</div>
+                )}
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-6">
+                    <div className="sm:col-span-3">
+                        <label className="block text-sm font-medium text-gray-700">Naam</label>
+                        <input
+                            type="text"
+                            value={draft.name}
+                            onChange={e => setDraft(d => ({ ...d, name: e.target.value }))}
+                            disabled={readOnly || saving}
+                            placeholder="Bijv: Startinformatie"
+                            className="mt-1 block w-full border-gray-300 rounded-md disabled:bg-gray-100"
+                        />
+                    </div>
+                    <div className="sm:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700">Standaardtaal</label>
+                        <select
+                            value={draft.default_locale}
+                            onChange={e => setDraft(d => ({ ...d, default_locale: e.target.value }))}
+                            disabled={readOnly || saving}
+                            className="mt-1 block w-full border-gray-300 rounded-md disabled:bg-gray-100"
+                        >
+                            {LOCALES.map(l => <option key={l} value={l}>{l.toUpperCase()}</option>)}
+                        </select>
+                    </div>
+                    <div className="sm:col-span-1 flex items-end">
+                        <label className="inline-flex items-center text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={draft.is_active}
+                                onChange={e => setDraft(d => ({ ...d, is_active: e.target.checked }))}
+                                disabled={readOnly || saving}
+                                className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                            />
+                            Actief
+                        </label>
+                    </div>
+                </div>
+
+                {/* Taal tabs */}
+                <div className="border-b border-gray-200 flex gap-4">
+                    {LOCALES.map(l => (
+                        <button
+                            key={l}
+                            type="button"
+                            onClick={() => setLocale(l)}
+                            className={clsx(
+                                'pb-2 text-sm font-medium border-b-2',
+                                locale === l
+                                    ? 'border-indigo-500 text-indigo-600'
+                                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                            )}
+                        >
+                            {l.toUpperCase()}
+                            {l === draft.default_locale && ' (standaard)'}
+                            {l !== draft.default_locale && !draft.html_body[l] && (
+                                <span className="ml-1 text-xs text-gray-400">leeg</span>
+                            )}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                    {/* Editor */}
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Onderwerp</label>
+                            <input
+                                type="text"
+                                value={draft.subject[locale] ?? ''}
+                                onChange={e => setField('subject', e.target.value)}
+                                disabled={readOnly || saving}
+                                placeholder="Je startinformatie voor {{event_name}}"
+                                className="mt-1 block w-full border-gray-300 rounded-md disabled:bg-gray-100"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">HTML</label>
+                            <textarea
+                                ref={htmlRef}
+                                rows={10}
+                                value={draft.html_body[locale] ?? ''}
+                                onChange={e => setField('html_body', e.target.value)}
+                                disabled={readOnly || saving}
+                                placeholder={'<p>Hoi {{first_name}},</p>\n{{#if time_slot}}<p>Je start in {{time_slot}}.</p>{{/if}}'}
+                                className="mt-1 block w-full border-gray-300 rounded-md font-mono text-sm disabled:bg-gray-100"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Tekstversie (optioneel)</label>
+                            <textarea
+                                rows={4}
+                                value={draft.text_body[locale] ?? ''}
+                                onChange={e => setField('text_body', e.target.value)}
+                                disabled={readOnly || saving}
+                                className="mt-1 block w-full border-gray-300 rounded-md font-mono text-sm disabled:bg-gray-100"
+                            />
+                        </div>
+                        <div>
+                            <p className="text-sm font-medium text-gray-700 mb-2">Variabelen</p>
+                            <div className="flex flex-wrap gap-2">
+                                {variables.map(v => (
+                                    <button
+                                        key={v.key}
+                                        type="button"
+                                        title={`${v.description} (bv. ${v.sample_value})`}
+                                        onClick={() => insertVariable(v.key)}
+                                        disabled={readOnly || saving}
+                                        className="px-2 py-1 rounded bg-gray-100 text-xs font-mono text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 disabled:opacity-50"
+                                    >
+                                        {`{{${v.key}}}`}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="mt-2 text-xs text-gray-500">
+                                Conditioneel: <code>{'{{#if time_slot}}...{{else}}...{{/if}}'}</code>
+                            </p>
+                        </div>
+                    </div>
+
+                    {/* Preview */}
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <p className="text-sm font-medium text-gray-700 flex items-center gap-1">
+                                <Eye className="h-4 w-4" />
+                                Preview ({locale.toUpperCase()})
+                                {previewLoading && <Loader2 className="h-3 w-3 animate-spin text-gray-400" />}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                                {preview?.sample_participant
+                                    ? `Voorbeeld: ${preview.sample_participant.name}`
+                                    : 'Voorbeeldwaarden (nog geen deelnemers)'}
+                            </p>
+                        </div>
+
+                        {validation && <ValidationList validation={validation} />}
+
+                        <div className="border border-gray-200 rounded-md">
+                            <div className="px-3 py-2 border-b border-gray-200 text-sm">
+                                <span className="text-gray-500">Onderwerp: </span>
+                                <span className="font-medium text-gray-900">{preview?.rendered.subject || '—'}</span>
+                            </div>
+                            <iframe
+                                title="Email preview"
+                                sandbox=""
+                                srcDoc={preview?.rendered.html_body ?? ''}
+                                className="w-full h-80 bg-white"
+                            />
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {!readOnly && (
+                <div className="bg-gray-50 px-6 py-4 flex justify-end rounded-b-lg">
+                    <button
+                        type="button"
+                        onClick={handleSave}
+                        disabled={saving}
+                        className={clsx(
+                            "inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500",
+                            saving ? "bg-indigo-400 cursor-not-allowed" : "bg-indigo-600 hover:bg-indigo-700"
+                        )}
+                    >
+                        <Save className="h-4 w-4 mr-2" />
+                        {saving ? 'Opslaan...' : 'Template Opslaan'}
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,313 @@
+/**
+ * Order Refund Dialog
+ *
+ * Features:
+ * - Tickets van de order met checkbox (alleen geldige, nog niet terugbetaalde)
+ * - Bedrag per selectie via preview_ticket_refund (netto na korting)
+ * - Terugbetalen per ticket of de hele order (create-refund)
+ * - Refund ledger van de order (get_order_refund_summary)
+ */
+
+import { useEffect, useState } from 'react'
+import { X, Loader2, RotateCcw } from 'lucide-react'
+import { clsx } from 'clsx'
+import {
+    getOrderRefundSummary,
+    previewTicketRefund,
+    createRefund,
+} from '../data/refunds'
+import type { OrderRefundSummary, RefundStatus, TicketRefundPreview } from '../data/refunds'
+
+interface OrderRefundDialogProps {
+    orderId: string
+    email: string
+    onClose: () => void
+    onRefunded?: () => void
+}
+
+const REFUND_STATUS_LABELS: Record<RefundStatus, { label: string; className: string }> = {
+    pending: { label: 'Aangemaakt', className: 'bg-yellow-100 text-yellow-800' },
+    queued: { label: 'In wachtrij', className: 'bg-yellow-100 text-yellow-800' },
+    processing: { label: 'In behandeling', className: 'bg-yellow-100 text-yellow-800' },
+    refunded: { label: 'Terugbetaald', className: 'bg-purple-100 text-purple-800' },
+    failed: { label: 'Mislukt', className: 'bg-red-100 text-red-800' },
+    canceled: { label: 'Geannuleerd', className: 'bg-gray-100 text-gray-800' },
+}
+
+function formatCents(cents: number): string {
+    return `€${(cents / 100).toFixed(2)}`
+}
+
+export function OrderRefundDialog({ orderId, email, onClose, onRefunded }: OrderRefundDialogProps) {
+    const [summary, setSummary] = useState<OrderRefundSummary | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [selected, setSelected] = useState<string[]>([])
+    const [preview, setPreview] = useState<TicketRefundPreview | null>(null)
+    const [reason, setReason] = useState('')
+    const [submitting, setSubmitting] = useState(false)
+    const [reloadKey, setReloadKey] = useState(0)
+
+    // Load refund summary
+    useEffect(() => {
+        let cancelled = false
+
+        async function load() {
+            const { data, error: loadError } = await getOrderRefundSummary(orderId)
+            if (cancelled) return
+
+            if (loadError) {
+                setError(loadError.message)
+            } else {
+                setSummary(data)
+            }
+            setLoading(false)
+        }
+
+        load()
+        return () => { cancelled = true }
+    }, [orderId, reloadKey])
+
+    // Bedrag voor de selectie
+    useEffect(() => {
+        let cancelled = false
+
+        async function loadPreview() {
+            if (selected.length === 0) return
+
+            const { data, error: previewError } = await previewTicketRefund(orderId, selected)
+            if (cancelled) return
+
+            if (previewError) {
+                setPreview(null)
+                setError(previewError.message)
+            } else {
+                setPreview(data)
+            }
+        }
+
+        loadPreview()
+        return () => { cancelled = true }
+    }, [orderId, selected])
+
+    function toggleTicket(ticketId: string) {
+        setError(null)
+        setSelected(prev => prev.includes(ticketId)
+            ? prev.filter(id => id !== ticketId)
+            : [...prev, ticketId])
+    }
+
+    // Preview van een eerdere selectie niet tonen
+    const selectionPreview = selected.length > 0 ? preview : null
+
+    async function handleRefund(wholeOrder: boolean) {
+        if (!summary) return
+
+        const amount = wholeOrder ? summary.refundable_cents : selectionPreview?.amount_cents ?? 0
+        const what = wholeOrder ? 'de hele order' : `${selected.length} ticket(s)`
+        if (!confirm(`${formatCents(amount)} terugbetalen voor ${what}? Tickets worden ongeldig zodra de betaalprovider de terugbetaling bevestigt.`)) {
+            return
+        }
+
+        setSubmitting(true)
+        setError(null)
+
+        const { error: refundError } = await createRefund({
+            orderId,
+            ticketInstanceIds: wholeOrder ? undefined : selected,
+            reason: reason.trim(),
+        })
+
+        if (refundError) {
+            setError(refundError.message)
+        } else {
+            setSelected([])
+            setReason('')
+            setReloadKey(key => key + 1)
+            onRefunded?.()
+        }
+
+        setSubmitting(false)
+    }
+
+    return (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b">
+                    <div>
+                        <h3 className="text-lg font-medium text-gray-900">Terugbetalen</h3>
+                        <p className="text-sm text-gray-500">{email} · {orderId.slice(0, 8)}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                <div className="px-6 py-4 overflow-y-auto flex-1">
+                    {error && (
+                        <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+                            <p className="text-sm text-red-800">{error}</p>
+                        </div>
+                    )}
+
+                    {loading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+                        </div>
+                    ) : summary && (
+                        <>
+                            {/* Bedragen */}
+                            <dl className="grid grid-cols-3 gap-4 mb-6 text-sm">
+                                <div>
+                                    <dt className="text-gray-500">Betaald</dt>
+                                    <dd className="font-medium text-gray-900">{formatCents(summary.total_paid_cents)}</dd>
+                                </div>
+                                <div>
+                                    <dt className="text-gray-500">Terugbetaald</dt>
+                                    <dd className="font-medium text-gray-900">
+                                        {formatCents(summary.total_refunded_cents)}
+                                        {summary.pending_refunds_cents > 0 && (
+                                            <span className="text-yellow-700"> (+{formatCents(summary.pending_refunds_cents)} lopend)</span>
+                                        )}
+                                    </dd>
+                                </div>
+                                <div>
+                                    <dt className="text-gray-500">Nog terug te betalen</dt>
+                                    <dd className="font-medium text-gray-900">{formatCents(summary.refundable_cents)}</dd>
+                                </div>
+                            </dl>
+
+                            {/* Tickets */}
+                            <h4 className="text-sm font-medium text-gray-900 mb-2">Tickets</h4>
+                            {summary.tickets.length === 0 ? (
+                                <p className="text-sm text-gray-500 mb-6">Deze order heeft geen tickets.</p>
+                            ) : (
+                                <ul className="divide-y divide-gray-200 border rounded-md mb-4">
+                                    {summary.tickets.map(ticket => (
+                                        <li key={ticket.id} className="flex items-center px-3 py-2 text-sm">
+                                            <input
+                                                type="checkbox"
+                                                checked={selected.includes(ticket.id)}
+                                                disabled={!ticket.can_refund || submitting}
+                                                onChange={() => toggleTicket(ticket.id)}
+                                                className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-3"
+                                            />
+                                            <div className="flex-1">
+                                                <div className="font-medium text-gray-900">
+                                                    {ticket.ticket_name || 'Ticket'}
+                                                    {ticket.time_slot_label && (
+                                                        <span className="text-gray-500 font-normal"> · {ticket.time_slot_label}</span>
+                                                    )}
+                                                </div>
+                                                <div className="text-xs text-gray-500">
+                                                    {ticket.participant_name || 'Geen deelnemer'} · {ticket.id.slice(0, 8)}
+                                                </div>
+                                            </div>
+                                            {ticket.refund_status ? (
+                                                <span className={clsx('px-2 py-0.5 rounded-full text-xs font-medium', REFUND_STATUS_LABELS[ticket.refund_status].className)}>
+                                                    {REFUND_STATUS_LABELS[ticket.refund_status].label}
+                                                </span>
+                                            ) : ticket.status === 'void' ? (
+                                                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">Ongeldig</span>
+                                            ) : ticket.status === 'checked_in' ? (
+                                                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">Ingecheckt</span>
+                                            ) : null}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+
+                            {summary.can_refund && (
+                                <div className="mb-6">
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Reden (optioneel)</label>
+                                    <input
+                                        type="text"
+                                        value={reason}
+                                        onChange={e => setReason(e.target.value)}
+                                        disabled={submitting}
+                                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                                        placeholder="Bijv. deelnemer geblesseerd"
+                                    />
+                                </div>
+                            )}
+
+                            {/* Ledger */}
+                            <h4 className="text-sm font-medium text-gray-900 mb-2">Terugbetalingen</h4>
+                            {summary.refunds.length === 0 ? (
+                                <p className="text-sm text-gray-500">Nog geen terugbetalingen.</p>
+                            ) : (
+                                <ul className="divide-y divide-gray-200 border rounded-md">
+                                    {summary.refunds.map(refund => (
+                                        <li key={refund.id} className="px-3 py-2 text-sm">
+                                            <div className="flex items-center justify-between">
+                                                <div>
+                                                    <span className="font-medium text-gray-900">{formatCents(refund.amount_cents)}</span>
+                                                    <span className="text-gray-500">
+                                                        {' · '}
+                                                        {refund.items.some(item => item.ticket_instance_id)
+                                                            ? `${refund.items.length} ticket(s)`
+                                                            : refund.is_full_refund ? 'Hele order' : 'Bedrag'}
+                                                        {' · '}
+                                                        {new Date(refund.created_at).toLocaleDateString('nl-NL', {
+                                                            day: 'numeric',
+                                                            month: 'short',
+                                                            year: 'numeric'
+                                                        })}
+                                                    </span>
+                                                </div>
+                                                <span className={clsx('px-2 py-0.5 rounded-full text-xs font-medium', REFUND_STATUS_LABELS[refund.status].className)}>
+                                                    {REFUND_STATUS_LABELS[refund.status].label}
+                                                </span>
+                                            </div>
+                                            {refund.reason && <p className="text-xs text-gray-500 mt-1">{refund.reason}</p>}
+                                            {refund.items.length > 0 && (
+                                                <ul className="mt-1 text-xs text-gray-500">
+                                                    {refund.items.map(item => (
+                                                        <li key={item.ticket_instance_id ?? item.order_item_id}>
+                                                            {item.ticket_name || 'Ticket'}
+                                                            {item.ticket_instance_id && ` (${item.ticket_instance_id.slice(0, 8)})`}
+                                                            {' – '}
+                                                            {formatCents(item.amount_cents)}
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                {/* Footer */}
+                {summary?.can_refund && (
+                    <div className="flex items-center justify-end gap-3 px-6 py-4 border-t bg-gray-50 rounded-b-lg">
+                        <button
+                            onClick={() => handleRefund(true)}
+                            disabled={submitting}
+                            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                        >
+                            Hele order ({formatCents(summary.refundable_cents)})
+                        </button>
+                        <button
+                            onClick={() => handleRefund(false)}
+                            disabled={submitting || !selectionPreview}
+                            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                            {submitting ? (
+                                <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                            ) : (
+                                <RotateCcw className="mr-2 h-4 w-4" />
+                            )}
+                            {selectionPreview
+                                ? `${selected.length} ticket(s) terugbetalen (${formatCents(selectionPreview.amount_cents)})`
+                                : 'Selecteer tickets'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
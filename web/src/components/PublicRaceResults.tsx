@@ -0,0 +1,206 @@
+/**
+ * PublicRaceResults Component
+ *
+ * Gepubliceerde uitslag op de publieke event pagina: per categorie of via
+ * zoeken op naam, club of startnummer, 100 regels per pagina. Rendert niets
+ * zolang er geen uitslag gepubliceerd is.
+ */
+
+import { useEffect, useState } from 'react'
+import { Trophy, Search, Loader2, ChevronLeft, ChevronRight } from 'lucide-react'
+import {
+    formatResultTime,
+    getPublicRaceResults,
+    type PublicRaceResult,
+    type PublicRaceResults as PublicRaceResultsData
+} from '../data/race_results'
+
+const STATUS_LABELS: Record<string, string> = {
+    dnf: 'DNF',
+    dns: 'DNS',
+    dsq: 'DSQ',
+}
+
+function rankCell(result: PublicRaceResult, rank: number | null): string {
+    if (result.status !== 'finished') return STATUS_LABELS[result.status] ?? ''
+    return rank != null ? String(rank) : '–'
+}
+
+export function PublicRaceResults({ eventSlug }: { eventSlug: string }) {
+    const [results, setResults] = useState<PublicRaceResultsData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [category, setCategory] = useState<string | null>(null)
+    const [searchInput, setSearchInput] = useState('')
+    const [search, setSearch] = useState('')
+    const [page, setPage] = useState(1)
+
+    useEffect(() => {
+        let cancelled = false
+
+        async function load() {
+            setLoading(true)
+            const { data } = await getPublicRaceResults(eventSlug, { category, search, page })
+            if (cancelled) return
+            setResults(data)
+            setLoading(false)
+        }
+
+        load()
+
+        return () => {
+            cancelled = true
+        }
+    }, [eventSlug, category, search, page])
+
+    // Geen (gepubliceerde) uitslag: sectie niet tonen
+    if (!results) {
+        return null
+    }
+
+    const hasWaves = results.results.some(r => r.wave)
+    const hasGunTime = results.results.some(r => r.net_time_ms != null && r.gun_time_ms != null)
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault()
+        setPage(1)
+        setSearch(searchInput.trim())
+    }
+
+    const selectCategory = (name: string | null) => {
+        setSearchInput('')
+        setSearch('')
+        setPage(1)
+        setCategory(name)
+    }
+
+    return (
+        <section className="mt-12">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                    <Trophy className="h-5 w-5 mr-2 text-indigo-600" />
+                    Results
+                </h2>
+                <form onSubmit={handleSearch} className="relative sm:w-72">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <input
+                        type="search"
+                        value={searchInput}
+                        onChange={e => setSearchInput(e.target.value)}
+                        placeholder="Search by name, club or bib"
+                        className="w-full pl-9 rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                </form>
+            </div>
+
+            {results.categories.length > 1 && (
+                <div className="mb-4 flex flex-wrap gap-2">
+                    {results.categories.map(c => {
+                        const active = !results.search && results.category === c.name
+                        return (
+                            <button
+                                key={c.name ?? ''}
+                                onClick={() => selectCategory(c.name)}
+                                className={`px-3 py-1 text-sm rounded-full border ${
+                                    active
+                                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                                }`}
+                            >
+                                {c.name ?? 'Other'} <span className="opacity-70">({c.finishers})</span>
+                            </button>
+                        )
+                    })}
+                </div>
+            )}
+
+            {results.search && (
+                <p className="mb-2 text-sm text-gray-500">
+                    {results.total} results for “{results.search}”
+                </p>
+            )}
+
+            <div className="bg-white rounded-lg shadow overflow-x-auto relative">
+                {loading && (
+                    <div className="absolute inset-0 bg-white/60 flex items-center justify-center">
+                        <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+                    </div>
+                )}
+                {results.results.length === 0 ? (
+                    <p className="p-6 text-center text-sm text-gray-500">No results found</p>
+                ) : (
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">
+                            <tr>
+                                <th className="px-3 py-2">#</th>
+                                <th className="px-3 py-2">Bib</th>
+                                <th className="px-3 py-2">Name</th>
+                                <th className="px-3 py-2 hidden sm:table-cell">Club</th>
+                                {results.search && <th className="px-3 py-2">Category</th>}
+                                <th className="px-3 py-2 hidden md:table-cell">Gender</th>
+                                <th className="px-3 py-2 hidden md:table-cell">Age group</th>
+                                {hasWaves && <th className="px-3 py-2 hidden lg:table-cell">Wave</th>}
+                                <th className="px-3 py-2 text-right">Time</th>
+                                {hasGunTime && <th className="px-3 py-2 text-right hidden sm:table-cell">Gun time</th>}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {results.results.map(result => (
+                                <tr key={result.id}>
+                                    <td className="px-3 py-2 font-medium text-gray-900 tabular-nums">
+                                        {rankCell(result, result.overall_rank)}
+                                    </td>
+                                    <td className="px-3 py-2 text-gray-500 tabular-nums">{result.bib_number ?? ''}</td>
+                                    <td className="px-3 py-2 text-gray-900">{result.name ?? ''}</td>
+                                    <td className="px-3 py-2 text-gray-500 hidden sm:table-cell">{result.club ?? ''}</td>
+                                    {results.search && <td className="px-3 py-2 text-gray-500">{result.category ?? ''}</td>}
+                                    <td className="px-3 py-2 text-gray-500 hidden md:table-cell tabular-nums">
+                                        {result.gender ?? ''}
+                                        {result.gender_rank != null && ` (${result.gender_rank})`}
+                                    </td>
+                                    <td className="px-3 py-2 text-gray-500 hidden md:table-cell tabular-nums">
+                                        {result.age_group ?? ''}
+                                        {result.age_group_rank != null && ` (${result.age_group_rank})`}
+                                    </td>
+                                    {hasWaves && (
+                                        <td className="px-3 py-2 text-gray-500 hidden lg:table-cell tabular-nums">
+                                            {result.wave ?? ''}
+                                            {result.wave_rank != null && ` (${result.wave_rank})`}
+                                        </td>
+                                    )}
+                                    <td className="px-3 py-2 text-right text-gray-900 tabular-nums">
+                                        {result.status === 'finished' ? formatResultTime(result.net_time_ms ?? result.gun_time_ms) : ''}
+                                    </td>
+                                    {hasGunTime && (
+                                        <td className="px-3 py-2 text-right text-gray-500 hidden sm:table-cell tabular-nums">
+                                            {result.status === 'finished' ? formatResultTime(result.gun_time_ms) : ''}
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {results.pages > 1 && (
+                <div className="mt-3 flex items-center justify-end gap-2 text-sm text-gray-600">
+                    <button
+                        onClick={() => setPage(p => p - 1)}
+                        disabled={page <= 1}
+                        className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-30"
+                    >
+                        <ChevronLeft className="h-4 w-4" />
+                    </button>
+                    Page {results.page} of {results.pages}
+                    <button
+                        onClick={() => setPage(p => p + 1)}
+                        disabled={page >= results.pages}
+                        className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-30"
+                    >
+                        <ChevronRight className="h-4 w-4" />
+                    </button>
+                </div>
+            )}
+        </section>
+    )
+}
@@ -0,0 +1,146 @@
+/**
+ * QrCameraScanner Component
+ *
+ * Continu QR scannen met de (achter)camera via getUserMedia + jsQR.
+ * Dezelfde code wordt binnen de cooldown niet opnieuw gemeld, zodat een
+ * ticket dat voor de camera blijft hangen niet steeds opnieuw gescand wordt.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import jsQR from 'jsqr'
+import { CameraOff, Loader2 } from 'lucide-react'
+import { clsx } from 'clsx'
+
+const SCAN_INTERVAL_MS = 150
+const SAME_CODE_COOLDOWN_MS = 3000
+
+interface QrCameraScannerProps {
+    onDetect: (code: string) => void
+    paused?: boolean
+    /** Randkleur als visuele feedback op het laatste scanresultaat */
+    flash?: 'success' | 'warning' | 'error' | null
+}
+
+export function QrCameraScanner({ onDetect, paused = false, flash = null }: QrCameraScannerProps) {
+    const videoRef = useRef<HTMLVideoElement>(null)
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+    const lastCodeRef = useRef<{ code: string; at: number } | null>(null)
+    const onDetectRef = useRef(onDetect)
+    const pausedRef = useRef(paused)
+    const [status, setStatus] = useState<'starting' | 'running' | 'error'>('starting')
+    const [cameraError, setCameraError] = useState<string | null>(null)
+
+    useEffect(() => {
+        onDetectRef.current = onDetect
+        pausedRef.current = paused
+    }, [onDetect, paused])
+
+    useEffect(() => {
+        let stream: MediaStream | null = null
+        let timer: ReturnType<typeof setTimeout> | null = null
+        let stopped = false
+
+        const tick = () => {
+            const video = videoRef.current
+            const canvas = canvasRef.current
+
+            if (!stopped && video && canvas && !pausedRef.current && video.readyState === video.HAVE_ENOUGH_DATA) {
+                canvas.width = video.videoWidth
+                canvas.height = video.videoHeight
+                const context = canvas.getContext('2d', { willReadFrequently: true })
+
+                if (context) {
+                    context.drawImage(video, 0, 0, canvas.width, canvas.height)
+                    const image = context.getImageData(0, 0, canvas.width, canvas.height)
+                    const qr = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' })
+
+                    if (qr?.data) {
+                        const now = Date.now()
+                        const last = lastCodeRef.current
+                        if (!last || last.code !== qr.data || now - last.at > SAME_CODE_COOLDOWN_MS) {
+                            lastCodeRef.current = { code: qr.data, at: now }
+                            onDetectRef.current(qr.data)
+                        }
+                    }
+                }
+            }
+
+            if (!stopped) {
+                timer = setTimeout(tick, SCAN_INTERVAL_MS)
+            }
+        }
+
+        async function startCamera() {
+            if (!navigator.mediaDevices?.getUserMedia) {
+                setCameraError('Deze browser ondersteunt geen camera (HTTPS vereist)')
+                setStatus('error')
+                return
+            }
+
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({
+                    video: { facingMode: 'environment' },
+                    audio: false
+                })
+
+                if (stopped || !videoRef.current) {
+                    stream.getTracks().forEach(track => track.stop())
+                    return
+                }
+
+                videoRef.current.srcObject = stream
+                await videoRef.current.play()
+                setStatus('running')
+                tick()
+            } catch (err) {
+                console.error('[QrCameraScanner] Camera error:', err)
+                setCameraError(err instanceof DOMException && err.name === 'NotAllowedError'
+                    ? 'Geen toegang tot de camera. Sta cameragebruik toe in je browser.'
+                    : 'Camera kon niet gestart worden')
+                setStatus('error')
+            }
+        }
+
+        startCamera()
+
+        return () => {
+            stopped = true
+            if (timer) clearTimeout(timer)
+            stream?.getTracks().forEach(track => track.stop())
+        }
+    }, [])
+
+    if (status === 'error') {
+        return (
+            <div className="flex flex-col items-center justify-center h-64 bg-gray-100 rounded-lg text-center px-4">
+                <CameraOff className="h-10 w-10 text-gray-400" />
+                <p className="mt-2 text-sm text-gray-600">{cameraError}</p>
+            </div>
+        )
+    }
+
+    return (
+        <div
+            className={clsx(
+                'relative overflow-hidden rounded-lg bg-black border-8 transition-colors',
+                flash === 'success' && 'border-green-500',
+                flash === 'warning' && 'border-yellow-400',
+                flash === 'error' && 'border-red-500',
+                !flash && 'border-transparent'
+            )}
+        >
+            <video ref={videoRef} className="w-full h-64 object-cover" muted playsInline />
+            <canvas ref={canvasRef} className="hidden" />
+            {status === 'starting' && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                    <Loader2 className="h-8 w-8 animate-spin text-white" />
+                </div>
+            )}
+            {paused && status === 'running' && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+                    <Loader2 className="h-8 w-8 animate-spin text-white" />
+                </div>
+            )}
+        </div>
+    )
+}
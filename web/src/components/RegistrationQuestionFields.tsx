@@ -0,0 +1,265 @@
+/**
+ * RegistrationQuestionFields Component
+ *
+ * Formuliervelden voor registratievragen (checkout per ticket en
+ * teamaanmelding). Vragen met een show-if regel verschijnen pas als het
+ * eerdere antwoord matcht; bestanden gaan direct naar de private bucket
+ * registration-uploads en het antwoord is de verwijzing daarnaar.
+ */
+
+import { useState } from 'react'
+import { Loader2, Paperclip, X } from 'lucide-react'
+import {
+    ALLOWED_UPLOAD_TYPES,
+    ANSWER_ERRORS,
+    isQuestionVisible,
+    uploadRegistrationFile,
+    type AnswerErrorReason,
+    type FileAnswer,
+    type RegistrationAnswers,
+    type RegistrationQuestion,
+} from '../data/registration_questions'
+
+export function RegistrationQuestionFields({ eventId, questions, answers, errors = {}, onChange }: {
+    eventId: string
+    questions: RegistrationQuestion[]
+    answers: RegistrationAnswers
+    errors?: Record<string, AnswerErrorReason>
+    onChange: (answers: RegistrationAnswers) => void
+}) {
+    // Zichtbaarheid in volgorde: een verborgen vraag telt niet mee voor latere regels
+    const shownAnswers: RegistrationAnswers = {}
+    const shown = questions.filter(question => {
+        if (!isQuestionVisible(question, shownAnswers)) return false
+        shownAnswers[question.id] = answers[question.id]
+        return true
+    })
+
+    return (
+        <>
+            {shown.map(question => (
+                <div key={question.id}>
+                    <QuestionField
+                        eventId={eventId}
+                        question={question}
+                        value={answers[question.id]}
+                        onChange={(value) => onChange({ ...answers, [question.id]: value })}
+                    />
+                    {errors[question.id] && (
+                        <p className="mt-1 text-xs text-red-600">{ANSWER_ERRORS[errors[question.id]]}</p>
+                    )}
+                </div>
+            ))}
+        </>
+    )
+}
+
+/**
+ * Eén registratievraag (registration_questions.question_type)
+ */
+function QuestionField({ eventId, question, value, onChange }: {
+    eventId: string
+    question: RegistrationQuestion
+    value: unknown
+    onChange: (value: unknown) => void
+}) {
+    const inputClass = 'w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500'
+    const rules = question.validation || {}
+
+    const label = (
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+            {question.label} {question.is_required && <span className="text-red-500">*</span>}
+        </label>
+    )
+
+    const description = question.description && (
+        <p className="mt-1 text-xs text-gray-500">{question.description}</p>
+    )
+
+    switch (question.question_type) {
+        case 'textarea':
+            return (
+                <div>
+                    {label}
+                    <textarea
+                        value={(value as string) ?? ''}
+                        onChange={(e) => onChange(e.target.value)}
+                        required={question.is_required}
+                        maxLength={rules.max_length}
+                        rows={3}
+                        className={inputClass}
+                    />
+                    {description}
+                </div>
+            )
+        case 'number':
+            return (
+                <div>
+                    {label}
+                    <input
+                        type="number"
+                        value={(value as number | undefined) ?? ''}
+                        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+                        required={question.is_required}
+                        min={rules.min}
+                        max={rules.max}
+                        className={inputClass}
+                    />
+                    {description}
+                </div>
+            )
+        case 'date':
+            return (
+                <div>
+                    {label}
+                    <input
+                        type="date"
+                        value={(value as string) ?? ''}
+                        onChange={(e) => onChange(e.target.value)}
+                        required={question.is_required}
+                        min={rules.min_date}
+                        max={rules.max_date}
+                        className={inputClass}
+                    />
+                    {description}
+                </div>
+            )
+        case 'select':
+            return (
+                <div>
+                    {label}
+                    <select
+                        value={(value as string) ?? ''}
+                        onChange={(e) => onChange(e.target.value)}
+                        required={question.is_required}
+                        className={inputClass}
+                    >
+                        <option value="">Kies...</option>
+                        {(question.options || []).map(option => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
+                    {description}
+                </div>
+            )
+        case 'checkbox':
+            return (
+                <div>
+                    <label className="flex items-center text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={value === true}
+                            onChange={(e) => onChange(e.target.checked || null)}
+                            required={question.is_required}
+                            className="mr-2 rounded border-gray-300 text-indigo-600"
+                        />
+                        {question.label} {question.is_required && <span className="text-red-500 ml-1">*</span>}
+                    </label>
+                    {description}
+                </div>
+            )
+        case 'file':
+            return (
+                <div>
+                    {label}
+                    <FileField
+                        eventId={eventId}
+                        maxSizeMb={rules.max_size_mb ?? 10}
+                        value={(value as FileAnswer | null | undefined) ?? null}
+                        onChange={onChange}
+                    />
+                    {description}
+                </div>
+            )
+        default:
+            return (
+                <div>
+                    {label}
+                    <input
+                        type="text"
+                        value={(value as string) ?? ''}
+                        onChange={(e) => onChange(e.target.value)}
+                        required={question.is_required}
+                        maxLength={rules.max_length}
+                        className={inputClass}
+                    />
+                    {description}
+                </div>
+            )
+    }
+}
+
+/**
+ * Upload direct bij het kiezen; verwijderen wist alleen het antwoord
+ */
+function FileField({ eventId, maxSizeMb, value, onChange }: {
+    eventId: string
+    maxSizeMb: number
+    value: FileAnswer | null
+    onChange: (value: FileAnswer | null) => void
+}) {
+    const [uploading, setUploading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return
+        setError(null)
+
+        if (!ALLOWED_UPLOAD_TYPES.includes(file.type)) {
+            setError('Alleen PDF of een afbeelding (JPG, PNG, WEBP, HEIC).')
+            return
+        }
+
+        if (file.size > maxSizeMb * 1024 * 1024) {
+            setError(`Maximaal ${maxSizeMb} MB.`)
+            return
+        }
+
+        setUploading(true)
+        const { data, error: uploadError } = await uploadRegistrationFile(eventId, file)
+
+        if (uploadError || !data) {
+            setError('Uploaden is mislukt. Probeer het opnieuw.')
+        } else {
+            onChange(data)
+        }
+
+        setUploading(false)
+    }
+
+    if (value) {
+        return (
+            <div className="flex items-center justify-between px-3 py-2 border border-gray-200 rounded-md text-sm">
+                <span className="flex items-center text-gray-700 truncate">
+                    <Paperclip className="mr-2 h-4 w-4 text-gray-400 flex-shrink-0" />
+                    {value.name}
+                </span>
+                <button
+                    type="button"
+                    onClick={() => onChange(null)}
+                    className="ml-2 text-gray-400 hover:text-red-600"
+                    title="Bestand verwijderen"
+                >
+                    <X className="h-4 w-4" />
+                </button>
+            </div>
+        )
+    }
+
+    return (
+        <div>
+            <label className="flex items-center justify-center px-3 py-2 border border-dashed border-gray-300 rounded-md text-sm text-gray-600 cursor-pointer hover:bg-gray-50">
+                {uploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Paperclip className="mr-2 h-4 w-4" />}
+                {uploading ? 'Uploaden...' : `Kies een bestand (max ${maxSizeMb} MB)`}
+                <input
+                    type="file"
+                    accept={ALLOWED_UPLOAD_TYPES.join(',')}
+                    disabled={uploading}
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                    className="sr-only"
+                />
+            </label>
+            {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+        </div>
+    )
+}
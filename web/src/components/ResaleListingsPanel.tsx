@@ -0,0 +1,247 @@
+/**
+ * ResaleListingsPanel Component
+ *
+ * Doorverkoop-overzicht onder de transfers van een event.
+ * Toont aanbiedingen met prijs, servicekosten en uitbetaling aan de
+ * verkoper, en laat admins een open aanbieding intrekken. Uitbetalingen
+ * lopen automatisch via process-outbox; een geweigerde uitbetaling staat
+ * hier met de reden en kan na oplossen opnieuw in de wachtrij.
+ */
+
+import { useEffect, useState } from 'react'
+import { Repeat, X, RotateCcw } from 'lucide-react'
+import { clsx } from 'clsx'
+import {
+    listResaleListings,
+    cancelResaleListing,
+    retryResalePayout,
+    PAYOUT_ERRORS,
+    type ResaleListing
+} from '../data/resale'
+
+const STATUS_LABELS: Record<ResaleListing['status'], { label: string; className: string }> = {
+    active: { label: 'Aangeboden', className: 'bg-yellow-100 text-yellow-800' },
+    reserved: { label: 'Gereserveerd', className: 'bg-blue-100 text-blue-800' },
+    sold: { label: 'Verkocht', className: 'bg-green-100 text-green-800' },
+    cancelled: { label: 'Ingetrokken', className: 'bg-gray-100 text-gray-800' },
+}
+
+const PAYOUT_LABELS: Record<string, string> = {
+    pending: 'gestart',
+    queued: 'gestart',
+    processing: 'wordt uitbetaald',
+    refunded: 'uitbetaald',
+    failed: 'mislukt',
+}
+
+function formatCents(cents: number): string {
+    return `€${(cents / 100).toFixed(2)}`
+}
+
+export function ResaleListingsPanel({ eventId, canManage }: { eventId: string; canManage: boolean }) {
+    const [listings, setListings] = useState<ResaleListing[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [cancelling, setCancelling] = useState<string | null>(null)
+    const [retrying, setRetrying] = useState<string | null>(null)
+    const [reloadKey, setReloadKey] = useState(0)
+
+    useEffect(() => {
+        async function fetchListings() {
+            const { data, error: fetchError } = await listResaleListings(eventId)
+
+            if (fetchError) {
+                setError(fetchError.message)
+            } else {
+                setListings(data || [])
+            }
+
+            setLoading(false)
+        }
+
+        fetchListings()
+    }, [eventId, reloadKey])
+
+    const handleCancel = async (listing: ResaleListing) => {
+        if (!confirm(`Aanbieding van ${listing.seller_email} intrekken?`)) return
+
+        setCancelling(listing.id)
+        const { error: cancelError } = await cancelResaleListing(listing.id)
+
+        if (cancelError) {
+            setError(cancelError.message === 'LISTING_RESERVED'
+                ? 'Er is een koper aan het betalen; intrekken kan na afloop van de reservering.'
+                : cancelError.message)
+        } else {
+            setReloadKey(k => k + 1)
+        }
+
+        setCancelling(null)
+    }
+
+    const handleRetryPayout = async (listing: ResaleListing) => {
+        if (!confirm(`Uitbetaling aan ${listing.seller_email} opnieuw proberen? Los eerst de oorzaak op.`)) return
+
+        setRetrying(listing.id)
+        const { error: retryError } = await retryResalePayout(listing.id)
+
+        if (retryError) {
+            setError(retryError.message)
+        } else {
+            setReloadKey(k => k + 1)
+        }
+
+        setRetrying(null)
+    }
+
+    // Niets tonen zolang er nooit iets aangeboden is
+    if (loading || (listings.length === 0 && !error)) {
+        return null
+    }
+
+    const sold = listings.filter(l => l.status === 'sold')
+    const openCount = listings.filter(l => l.status === 'active' || l.status === 'reserved').length
+    const feesCents = sold.reduce((sum, l) => sum + l.fee_cents, 0)
+    const failedPayouts = sold.filter(l => !l.payout_refund && l.payout_failed_at).length
+
+    return (
+        <div className="mt-8">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                        <Repeat className="mr-2 h-5 w-5 text-gray-400" />
+                        Doorverkoop
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                        {openCount} aangeboden · {sold.length} verkocht · {formatCents(feesCents)} servicekosten.
+                        Verkopers worden automatisch uitbetaald op hun oorspronkelijke betaling.
+                    </p>
+                </div>
+            </div>
+
+            {failedPayouts > 0 && (
+                <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+                    <p className="text-sm text-red-800">
+                        {failedPayouts} {failedPayouts === 1 ? 'uitbetaling is' : 'uitbetalingen zijn'} geweigerd en
+                        worden niet automatisch opnieuw geprobeerd. Betaal de verkoper handmatig of los de oorzaak op
+                        en zet de uitbetaling terug in de wachtrij.
+                    </p>
+                </div>
+            )}
+
+            {error && (
+                <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+                    <p className="text-sm text-red-800">{error}</p>
+                    <button onClick={() => setError(null)} className="text-sm text-red-600 underline">Sluiten</button>
+                </div>
+            )}
+
+            <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-300">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">Ticket</th>
+                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Verkoper</th>
+                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Prijs</th>
+                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
+                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Uitbetaling</th>
+                            <th className="relative py-3.5 pl-3 pr-4"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 bg-white">
+                        {listings.map(listing => {
+                            const status = STATUS_LABELS[listing.status]
+                            const reservationActive = listing.status === 'reserved'
+                                && listing.reserved_until !== null
+                                && new Date(listing.reserved_until) > new Date()
+
+                            return (
+                                <tr key={listing.id} className={clsx(listing.status === 'cancelled' && 'opacity-50')}>
+                                    <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm">
+                                        <div className="font-medium text-gray-900">
+                                            {listing.ticket_instances?.ticket_types?.name || '—'}
+                                        </div>
+                                        <div className="text-gray-400 text-xs font-mono">
+                                            {listing.ticket_instances?.qr_code?.substring(0, 8)}
+                                        </div>
+                                    </td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                                        <div className="text-gray-900">{listing.seller_email}</div>
+                                        <div className="text-gray-400 text-xs">
+                                            {new Date(listing.created_at).toLocaleString('nl-NL')}
+                                        </div>
+                                    </td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                                        <div className="text-gray-900">{formatCents(listing.price_cents)}</div>
+                                        <div className="text-gray-500 text-xs">
+                                            nominaal {formatCents(listing.face_value_cents)} · fee {formatCents(listing.fee_cents)}
+                                        </div>
+                                    </td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                                        <span className={clsx('inline-flex items-center px-2 py-0.5 rounded text-xs font-medium', status.className)}>
+                                            {status.label}
+                                        </span>
+                                        {reservationActive && (
+                                            <div className="text-gray-500 text-xs mt-1">
+                                                tot {new Date(listing.reserved_until as string).toLocaleString('nl-NL')}
+                                            </div>
+                                        )}
+                                        {listing.status === 'sold' && listing.buyer_order && (
+                                            <div className="text-gray-500 text-xs mt-1">{listing.buyer_order.email}</div>
+                                        )}
+                                    </td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                                        {listing.status === 'sold' ? (
+                                            <>
+                                                {formatCents(listing.payout_refund?.amount_cents ?? listing.payout_cents)}
+                                                <div className={clsx(
+                                                    'text-xs',
+                                                    listing.payout_refund?.status === 'failed' || (!listing.payout_refund && listing.payout_failed_at)
+                                                        ? 'text-red-600'
+                                                        : 'text-gray-500'
+                                                )}>
+                                                    {listing.payout_refund
+                                                        ? PAYOUT_LABELS[listing.payout_refund.status] ?? listing.payout_refund.status
+                                                        : listing.payout_failed_at
+                                                            ? 'geweigerd'
+                                                            : 'in wachtrij'}
+                                                </div>
+                                                {!listing.payout_refund && listing.payout_error && (
+                                                    <div className="text-xs text-red-600 whitespace-normal max-w-xs">
+                                                        {PAYOUT_ERRORS[listing.payout_error] ?? listing.payout_error}
+                                                    </div>
+                                                )}
+                                            </>
+                                        ) : '—'}
+                                    </td>
+                                    <td className="whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm">
+                                        {canManage && listing.status === 'sold' && !listing.payout_refund && listing.payout_failed_at && (
+                                            <button
+                                                onClick={() => handleRetryPayout(listing)}
+                                                disabled={retrying === listing.id}
+                                                className="text-gray-400 hover:text-indigo-600 disabled:opacity-50"
+                                                title="Uitbetaling opnieuw proberen"
+                                            >
+                                                <RotateCcw className="h-4 w-4" />
+                                            </button>
+                                        )}
+                                        {canManage && (listing.status === 'active' || (listing.status === 'reserved' && !reservationActive)) && (
+                                            <button
+                                                onClick={() => handleCancel(listing)}
+                                                disabled={cancelling === listing.id}
+                                                className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                                                title="Aanbieding intrekken"
+                                            >
+                                                <X className="h-4 w-4" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            )
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    )
+}
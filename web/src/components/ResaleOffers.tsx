@@ -0,0 +1,170 @@
+/**
+ * ResaleOffers Component
+ *
+ * Doorverkochte tickets op de publieke event pagina. Kopen kan alleen
+ * ingelogd: het ticket komt op naam van het account. Na het kopen is de
+ * aanbieding 30 minuten gereserveerd terwijl de koper betaalt.
+ */
+
+import { useEffect, useState } from 'react'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import { Repeat, Loader2 } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { getPublicResaleListings, buyResaleListing, type PublicResaleListing } from '../data/resale'
+
+// Foutcodes → tekst
+const BUY_ERRORS: Record<string, string> = {
+    LOGIN_REQUIRED: 'Log in om een doorverkocht ticket te kopen.',
+    LISTING_NOT_FOUND: 'Dit ticket wordt niet meer aangeboden.',
+    LISTING_NOT_AVAILABLE: 'Iemand anders is dit ticket aan het kopen of heeft het al gekocht.',
+    SELF_PURCHASE: 'Je kunt je eigen ticket niet kopen.',
+    RESALE_DISABLED: 'Doorverkoop is gesloten.',
+    EVENT_STARTED: 'Het evenement is begonnen.',
+}
+
+function formatCents(cents: number): string {
+    return `€${(cents / 100).toFixed(2)}`
+}
+
+export function ResaleOffers({ eventId, eventSlug }: { eventId: string; eventSlug: string }) {
+    const navigate = useNavigate()
+    const location = useLocation()
+    const [listings, setListings] = useState<PublicResaleListing[]>([])
+    const [userEmail, setUserEmail] = useState<string | null>(null)
+    const [selected, setSelected] = useState<string | null>(null)
+    const [email, setEmail] = useState('')
+    const [name, setName] = useState('')
+    const [submitting, setSubmitting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [reloadKey, setReloadKey] = useState(0)
+
+    useEffect(() => {
+        async function fetchListings() {
+            const { data } = await getPublicResaleListings(eventId)
+            setListings(data || [])
+
+            const { data: { user } } = await supabase.auth.getUser()
+            setUserEmail(user?.email ?? null)
+            setEmail(current => current || user?.email || '')
+        }
+
+        fetchListings()
+    }, [eventId, reloadKey])
+
+    if (listings.length === 0) {
+        return null
+    }
+
+    const handleBuy = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!selected) return
+
+        setSubmitting(true)
+        setError(null)
+
+        const { data, error: buyError } = await buyResaleListing({
+            eventId,
+            listingId: selected,
+            email,
+            purchaserName: name,
+        })
+
+        if (buyError || !data) {
+            setError(BUY_ERRORS[buyError?.message || ''] || 'Kopen is mislukt')
+            setSubmitting(false)
+            setReloadKey(k => k + 1)
+            return
+        }
+
+        if (data.checkout_url) {
+            window.location.href = data.checkout_url
+        } else {
+            navigate(`/e/${eventSlug}/confirm?token=${data.public_token}`)
+        }
+    }
+
+    return (
+        <div className="mt-8 bg-white shadow rounded-lg p-6">
+            <h2 className="text-xl font-bold text-gray-900 flex items-center">
+                <Repeat className="mr-2 h-5 w-5 text-indigo-600" />
+                Doorverkochte tickets
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+                Tickets van andere deelnemers, via de organisator en nooit boven de maximumprijs.
+                Na betaling staat het ticket op jouw naam met een nieuwe QR-code.
+            </p>
+
+            {error && (
+                <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3">
+                    <p className="text-sm text-red-800">{error}</p>
+                </div>
+            )}
+
+            <ul className="mt-4 divide-y divide-gray-200">
+                {listings.map(listing => (
+                    <li key={listing.id} className="py-4">
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <p className="font-medium text-gray-900">{listing.ticket_name}</p>
+                                {listing.slot_label && <p className="text-sm text-gray-500">{listing.slot_label}</p>}
+                            </div>
+                            <div className="flex items-center gap-4">
+                                <div className="text-right">
+                                    <p className="font-semibold text-gray-900">{formatCents(listing.price_cents)}</p>
+                                    {listing.price_cents < listing.face_value_cents && (
+                                        <p className="text-xs text-gray-400 line-through">{formatCents(listing.face_value_cents)}</p>
+                                    )}
+                                </div>
+                                {userEmail ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => setSelected(selected === listing.id ? null : listing.id)}
+                                        className="px-3 py-1.5 border border-indigo-600 rounded-md text-sm font-medium text-indigo-600 hover:bg-indigo-50"
+                                    >
+                                        Kopen
+                                    </button>
+                                ) : (
+                                    <Link
+                                        to="/login"
+                                        state={{ from: location }}
+                                        className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                                    >
+                                        Inloggen om te kopen
+                                    </Link>
+                                )}
+                            </div>
+                        </div>
+
+                        {selected === listing.id && (
+                            <form onSubmit={handleBuy} className="mt-3 space-y-2 max-w-sm">
+                                <input
+                                    type="email"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    placeholder="jouw@email.nl"
+                                    required
+                                    className="w-full text-sm border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                                <input
+                                    type="text"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    placeholder="Naam (optioneel)"
+                                    className="w-full text-sm border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={submitting || !email}
+                                    className="inline-flex items-center px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                                >
+                                    {submitting && <Loader2 className="animate-spin mr-1 h-4 w-4" />}
+                                    Afrekenen ({formatCents(listing.price_cents)})
+                                </button>
+                            </form>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    )
+}
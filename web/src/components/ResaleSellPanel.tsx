@@ -0,0 +1,237 @@
+/**
+ * ResaleSellPanel Component
+ *
+ * Doorverkoop op de bevestigingspagina van een bestelling (public token).
+ * De koper biedt tickets aan tot het prijsplafond van de organisator, ziet
+ * wat hij na servicekosten terugkrijgt en kan een aanbieding intrekken
+ * zolang er geen koper aan het betalen is. Verkochte tickets tonen de
+ * status van de uitbetaling.
+ */
+
+import { useEffect, useState } from 'react'
+import { Repeat, Loader2, X } from 'lucide-react'
+import { clsx } from 'clsx'
+import {
+    getOrderResale,
+    createResaleListing,
+    cancelResaleListing,
+    type OrderResale,
+    type OrderResaleTicket,
+} from '../data/resale'
+
+// Foutcodes → tekst
+const RESALE_ERRORS: Record<string, string> = {
+    EVENT_STARTED: 'Het evenement is begonnen, doorverkopen kan niet meer.',
+    INVALID_TICKET_STATUS: 'Dit ticket is niet meer geldig of al gebruikt.',
+    NOT_PAID_BY_HOLDER: 'Dit ticket is aan je overgedragen en kan niet doorverkocht worden.',
+    NOT_RESALABLE: 'Dit ticket kan niet doorverkocht worden.',
+    TICKET_ALREADY_REFUNDED: 'Dit ticket is terugbetaald.',
+    TICKET_ALREADY_VOID: 'Dit ticket is niet meer geldig.',
+    TRANSFER_PENDING: 'Er loopt een overdracht voor dit ticket.',
+    ALREADY_LISTED: 'Dit ticket wordt al aangeboden.',
+    PRICE_ABOVE_CAP: 'De prijs is hoger dan toegestaan.',
+    INVALID_PRICE: 'Vul een geldige prijs in.',
+    LISTING_RESERVED: 'Er is een koper aan het betalen. Probeer het later opnieuw.',
+    LISTING_SOLD: 'Dit ticket is al verkocht.',
+}
+
+const PAYOUT_LABELS: Record<string, { label: string; className: string }> = {
+    pending: { label: 'Uitbetaling gestart', className: 'bg-yellow-100 text-yellow-800' },
+    queued: { label: 'Uitbetaling gestart', className: 'bg-yellow-100 text-yellow-800' },
+    processing: { label: 'Wordt uitbetaald', className: 'bg-blue-100 text-blue-800' },
+    refunded: { label: 'Uitbetaald', className: 'bg-green-100 text-green-800' },
+    failed: { label: 'Uitbetaling mislukt', className: 'bg-red-100 text-red-800' },
+}
+
+function formatCents(cents: number): string {
+    return `€${(cents / 100).toFixed(2)}`
+}
+
+export function ResaleSellPanel({ publicToken }: { publicToken: string }) {
+    const [resale, setResale] = useState<OrderResale | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [busy, setBusy] = useState<string | null>(null)
+    const [prices, setPrices] = useState<Record<string, string>>({})
+    const [reloadKey, setReloadKey] = useState(0)
+
+    useEffect(() => {
+        async function fetchResale() {
+            const { data, error: fetchError } = await getOrderResale(publicToken)
+
+            if (fetchError) {
+                console.error('[ResaleSellPanel] Error:', fetchError)
+            } else {
+                setResale(data)
+            }
+        }
+
+        fetchResale()
+    }, [publicToken, reloadKey])
+
+    // Niets tonen als doorverkoop uit staat en er nooit iets verkocht is
+    if (!resale || (!resale.resale_enabled && resale.sold.length === 0)) {
+        return null
+    }
+
+    const feeCents = (priceCents: number) => Math.round(priceCents * resale.fee_pct / 100)
+
+    const handleList = async (ticket: OrderResaleTicket) => {
+        const priceCents = Math.round(Number((prices[ticket.ticket_instance_id] ?? '').replace(',', '.')) * 100)
+
+        setBusy(ticket.ticket_instance_id)
+        setError(null)
+
+        const { error: listError } = await createResaleListing(publicToken, ticket.ticket_instance_id, priceCents)
+
+        if (listError) {
+            setError(RESALE_ERRORS[listError.message] || 'Aanbieden is mislukt')
+        } else {
+            setReloadKey(k => k + 1)
+        }
+
+        setBusy(null)
+    }
+
+    const handleCancel = async (ticket: OrderResaleTicket) => {
+        if (!ticket.listing) return
+        if (!confirm('Aanbieding intrekken?')) return
+
+        setBusy(ticket.ticket_instance_id)
+        setError(null)
+
+        const { error: cancelError } = await cancelResaleListing(ticket.listing.id, publicToken)
+
+        if (cancelError) {
+            setError(RESALE_ERRORS[cancelError.message] || 'Intrekken is mislukt')
+        } else {
+            setReloadKey(k => k + 1)
+        }
+
+        setBusy(null)
+    }
+
+    return (
+        <div className="mt-6 bg-white shadow rounded-lg overflow-hidden">
+            <div className="px-6 py-5 border-b border-gray-200">
+                <h4 className="text-sm font-medium text-gray-900 flex items-center">
+                    <Repeat className="mr-2 h-4 w-4" />
+                    Ticket doorverkopen
+                </h4>
+                {resale.resale_enabled && (
+                    <p className="mt-1 text-sm text-gray-500">
+                        Kun je niet? Bied je ticket aan via de organisator, voor maximaal {resale.max_price_pct}% van
+                        de ticketprijs. Na verkoop krijg je de prijs
+                        {resale.fee_pct > 0 && ` min ${resale.fee_pct}% servicekosten`} teruggestort en is je
+                        ticket niet meer geldig.
+                    </p>
+                )}
+            </div>
+
+            {error && (
+                <div className="mx-6 mt-4 bg-red-50 border border-red-200 rounded-md p-3">
+                    <p className="text-sm text-red-800">{error}</p>
+                </div>
+            )}
+
+            {resale.resale_enabled && resale.tickets.length > 0 && (
+                <div className="px-6 py-5 space-y-4">
+                    {resale.tickets.map(ticket => {
+                        const listing = ticket.listing
+                        const priceInput = prices[ticket.ticket_instance_id]
+                            ?? (ticket.max_price_cents !== null ? (ticket.max_price_cents / 100).toFixed(2) : '')
+                        const priceCents = Math.round(Number(priceInput.replace(',', '.')) * 100)
+
+                        return (
+                            <div key={ticket.ticket_instance_id} className="p-4 bg-gray-50 rounded-md border border-gray-200">
+                                <div className="flex items-start justify-between">
+                                    <div>
+                                        <p className="text-sm font-medium text-gray-900">{ticket.ticket_name}</p>
+                                        {ticket.slot_label && <p className="text-xs text-gray-500">{ticket.slot_label}</p>}
+                                    </div>
+                                    {listing && (
+                                        <span className={clsx(
+                                            'inline-flex items-center px-2 py-0.5 rounded text-xs font-medium',
+                                            listing.status === 'reserved' ? 'bg-blue-100 text-blue-800' : 'bg-yellow-100 text-yellow-800'
+                                        )}>
+                                            {listing.status === 'reserved' ? 'Koper is aan het betalen' : 'Aangeboden'}
+                                        </span>
+                                    )}
+                                </div>
+
+                                {listing ? (
+                                    <div className="mt-2 flex items-center justify-between text-sm">
+                                        <span className="text-gray-600">
+                                            Voor {formatCents(listing.price_cents)} · je ontvangt {formatCents(listing.payout_cents)}
+                                        </span>
+                                        {listing.status === 'active' && (
+                                            <button
+                                                onClick={() => handleCancel(ticket)}
+                                                disabled={busy === ticket.ticket_instance_id}
+                                                className="inline-flex items-center text-gray-500 hover:text-red-600 disabled:opacity-50"
+                                            >
+                                                <X className="mr-1 h-4 w-4" />
+                                                Intrekken
+                                            </button>
+                                        )}
+                                    </div>
+                                ) : ticket.unavailable_reason ? (
+                                    <p className="mt-2 text-sm text-gray-500">
+                                        {RESALE_ERRORS[ticket.unavailable_reason] || 'Dit ticket kan niet doorverkocht worden.'}
+                                    </p>
+                                ) : (
+                                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                                        <span className="text-sm text-gray-500">€</span>
+                                        <input
+                                            type="text"
+                                            inputMode="decimal"
+                                            value={priceInput}
+                                            onChange={(e) => setPrices(p => ({ ...p, [ticket.ticket_instance_id]: e.target.value }))}
+                                            className="w-24 text-sm border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                        <button
+                                            onClick={() => handleList(ticket)}
+                                            disabled={busy === ticket.ticket_instance_id || !(priceCents > 0)}
+                                            className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                                        >
+                                            {busy === ticket.ticket_instance_id && <Loader2 className="animate-spin mr-1 h-4 w-4" />}
+                                            Aanbieden
+                                        </button>
+                                        <span className="w-full text-xs text-gray-500">
+                                            Maximaal {formatCents(ticket.max_price_cents ?? 0)}
+                                            {priceCents > 0 && ` · je ontvangt ${formatCents(Math.min(
+                                                priceCents - feeCents(priceCents),
+                                                ticket.seller_paid_cents ?? 0
+                                            ))}`}
+                                        </span>
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            )}
+
+            {resale.sold.length > 0 && (
+                <div className="px-6 py-5 border-t border-gray-200">
+                    <h5 className="text-sm font-medium text-gray-900 mb-3">Verkocht</h5>
+                    <ul className="space-y-2">
+                        {resale.sold.map(sale => {
+                            const payout = PAYOUT_LABELS[sale.payout_status ?? 'pending'] ?? PAYOUT_LABELS.pending
+
+                            return (
+                                <li key={sale.listing_id} className="flex items-center justify-between text-sm">
+                                    <span className="text-gray-700">
+                                        {sale.ticket_name} · {formatCents(sale.price_cents)} → {formatCents(sale.payout_cents)}
+                                    </span>
+                                    <span className={clsx('inline-flex items-center px-2 py-0.5 rounded text-xs font-medium', payout.className)}>
+                                        {payout.label}
+                                    </span>
+                                </li>
+                            )
+                        })}
+                    </ul>
+                </div>
+            )}
+        </div>
+    )
+}
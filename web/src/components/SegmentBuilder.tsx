@@ -0,0 +1,580 @@
+/**
+ * SegmentBuilder Component
+ *
+ * Opgeslagen deelnemerssegmenten van een event, op de communicatiepagina.
+ * Een segment combineert voorwaarden (alle of een van) op tickettype,
+ * tijdslot, antwoorden, orderstatus, check-in, korting, transfer en
+ * aankoopdatum. Het aantal deelnemers wordt live geteld tijdens het bouwen;
+ * opgeslagen segmenten zijn te kiezen als ontvangers van een campagne en als
+ * filter op de deelnemerslijst en de export.
+ */
+
+import { useEffect, useState } from 'react'
+import { Filter, Loader2, Plus, Save, Trash2, Users, X } from 'lucide-react'
+import { clsx } from 'clsx'
+import {
+    deleteSegment,
+    getSegmentOptions,
+    listEventSegments,
+    previewSegment,
+    upsertSegment,
+    type AnswerOperator,
+    type OrderStatus,
+    type ParticipantSegment,
+    type RegistrationStatus,
+    type SegmentCondition,
+    type SegmentConditionType,
+    type SegmentDefinition,
+    type SegmentOptions,
+    type SegmentPreview,
+    type SegmentValidationError
+} from '../data/segments'
+
+const PREVIEW_DEBOUNCE_MS = 400
+const MAX_CONDITIONS = 20
+
+const CONDITION_LABELS: Record<SegmentConditionType, string> = {
+    ticket_type: 'Tickettype',
+    time_slot: 'Tijdslot',
+    registration_answer: 'Antwoord op vraag',
+    order_status: 'Orderstatus',
+    registration_status: 'Registratiestatus',
+    check_in: 'Check-in',
+    discount_code: 'Korting gebruikt',
+    transfer_received: 'Ticket overgedragen gekregen',
+    purchased_within_days: 'Gekocht in de laatste dagen',
+}
+
+const ORDER_STATUSES: { value: OrderStatus; label: string }[] = [
+    { value: 'paid', label: 'Betaald' },
+    { value: 'pending', label: 'Open' },
+    { value: 'failed', label: 'Mislukt' },
+    { value: 'cancelled', label: 'Geannuleerd' },
+    { value: 'refunded', label: 'Terugbetaald' },
+]
+
+const REGISTRATION_STATUSES: { value: RegistrationStatus; label: string }[] = [
+    { value: 'confirmed', label: 'Bevestigd' },
+    { value: 'pending', label: 'In behandeling' },
+    { value: 'pending_payment', label: 'Wacht op betaling' },
+    { value: 'waitlist', label: 'Wachtlijst' },
+    { value: 'cancelled', label: 'Geannuleerd' },
+    { value: 'transferred', label: 'Overgedragen' },
+]
+
+const OPERATORS: { value: AnswerOperator; label: string }[] = [
+    { value: 'equals', label: 'is gelijk aan' },
+    { value: 'not_equals', label: 'is niet gelijk aan' },
+    { value: 'contains', label: 'bevat' },
+    { value: 'is_set', label: 'is ingevuld' },
+    { value: 'is_not_set', label: 'is niet ingevuld' },
+]
+
+// Foutcodes van upsert/delete_participant_segment → tekst
+const SEGMENT_ERRORS: Record<string, string> = {
+    UNAUTHORIZED: 'Alleen owners en admins kunnen segmenten beheren.',
+    INVALID_NAME: 'Vul een naam in (max. 100 tekens).',
+    INVALID_SEGMENT: 'Het segment bevat onvolledige voorwaarden, zie hieronder.',
+    NAME_TAKEN: 'Er bestaat al een segment met deze naam.',
+    SEGMENT_NOT_FOUND: 'Dit segment bestaat niet meer.',
+    SEGMENT_IN_USE: 'Dit segment wordt gebruikt door een campagne die nog niet afgerond is.',
+}
+
+// Validatiefouten per voorwaarde (validate_segment_definition) → tekst
+const CONDITION_ERRORS: Record<string, string> = {
+    INVALID_IDS: 'Kies minstens een optie.',
+    UNKNOWN_REFERENCE: 'Een gekozen optie hoort niet (meer) bij dit event.',
+    INVALID_OPERATOR: 'Kies een vergelijking.',
+    VALUE_REQUIRED: 'Vul een waarde in.',
+    INVALID_STATUSES: 'Kies minstens een status.',
+    INVALID_VALUE: 'Kies ja of nee.',
+    INVALID_DAYS: 'Vul een aantal dagen tussen 1 en 3650 in.',
+    UNKNOWN_CONDITION_TYPE: 'Onbekende voorwaarde.',
+    TOO_MANY_CONDITIONS: `Maximaal ${MAX_CONDITIONS} voorwaarden.`,
+}
+
+const EMPTY_DEFINITION: SegmentDefinition = { match: 'all', conditions: [] }
+
+function newCondition(type: SegmentConditionType): SegmentCondition {
+    switch (type) {
+        case 'ticket_type': return { type, ticket_type_ids: [] }
+        case 'time_slot': return { type, time_slot_ids: [] }
+        case 'registration_answer': return { type, question_id: '', operator: 'equals', value: '' }
+        case 'order_status': return { type, statuses: ['paid'] }
+        case 'registration_status': return { type, statuses: ['confirmed'] }
+        case 'check_in': return { type, checked_in: true }
+        case 'discount_code': return { type, discount_ids: [] }
+        case 'transfer_received': return { type, received: true }
+        case 'purchased_within_days': return { type, days: 7 }
+    }
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+    return values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+}
+
+/** Meerkeuze als aan/uit-knoppen */
+function ToggleList<T extends string>({ items, selected, onChange }: {
+    items: { value: T; label: string }[]
+    selected: T[]
+    onChange: (values: T[]) => void
+}) {
+    if (items.length === 0) {
+        return <p className="text-xs text-gray-500">Geen opties voor dit event.</p>
+    }
+
+    return (
+        <div className="flex flex-wrap gap-1">
+            {items.map(item => (
+                <button
+                    key={item.value}
+                    type="button"
+                    onClick={() => onChange(toggle(selected, item.value))}
+                    className={clsx(
+                        'px-2 py-1 rounded-full text-xs border',
+                        selected.includes(item.value)
+                            ? 'bg-indigo-600 border-indigo-600 text-white'
+                            : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    )}
+                >
+                    {item.label}
+                </button>
+            ))}
+        </div>
+    )
+}
+
+function ConditionEditor({ condition, options, onChange }: {
+    condition: SegmentCondition
+    options: SegmentOptions
+    onChange: (condition: SegmentCondition) => void
+}) {
+    switch (condition.type) {
+        case 'ticket_type':
+            return (
+                <ToggleList
+                    items={options.ticket_types.map(t => ({ value: t.id, label: t.name }))}
+                    selected={condition.ticket_type_ids}
+                    onChange={ids => onChange({ ...condition, ticket_type_ids: ids })}
+                />
+            )
+        case 'time_slot':
+            return (
+                <ToggleList
+                    items={options.time_slots.map(s => ({
+                        value: s.id,
+                        label: `${options.ticket_types.find(t => t.id === s.ticket_type_id)?.name ?? ''} · ${s.label || s.slot_time.slice(0, 5)}`
+                    }))}
+                    selected={condition.time_slot_ids}
+                    onChange={ids => onChange({ ...condition, time_slot_ids: ids })}
+                />
+            )
+        case 'registration_answer': {
+            const needsValue = !['is_set', 'is_not_set'].includes(condition.operator)
+            return (
+                <div className="flex flex-wrap gap-2">
+                    <select
+                        value={condition.question_id}
+                        onChange={e => onChange({ ...condition, question_id: e.target.value })}
+                        className="border-gray-300 rounded-md text-sm"
+                    >
+                        <option value="">Kies een vraag</option>
+                        {options.questions.map(q => <option key={q.id} value={q.id}>{q.label}</option>)}
+                    </select>
+                    <select
+                        value={condition.operator}
+                        onChange={e => onChange({ ...condition, operator: e.target.value as AnswerOperator })}
+                        className="border-gray-300 rounded-md text-sm"
+                    >
+                        {OPERATORS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                    {needsValue && (
+                        <input
+                            type="text"
+                            value={condition.value ?? ''}
+                            onChange={e => onChange({ ...condition, value: e.target.value })}
+                            placeholder="Waarde"
+                            className="border-gray-300 rounded-md text-sm"
+                        />
+                    )}
+                </div>
+            )
+        }
+        case 'order_status':
+            return (
+                <ToggleList
+                    items={ORDER_STATUSES}
+                    selected={condition.statuses}
+                    onChange={statuses => onChange({ ...condition, statuses })}
+                />
+            )
+        case 'registration_status':
+            return (
+                <ToggleList
+                    items={REGISTRATION_STATUSES}
+                    selected={condition.statuses}
+                    onChange={statuses => onChange({ ...condition, statuses })}
+                />
+            )
+        case 'check_in':
+            return (
+                <select
+                    value={condition.checked_in ? 'yes' : 'no'}
+                    onChange={e => onChange({ ...condition, checked_in: e.target.value === 'yes' })}
+                    className="border-gray-300 rounded-md text-sm"
+                >
+                    <option value="yes">Ingecheckt</option>
+                    <option value="no">Niet ingecheckt</option>
+                </select>
+            )
+        case 'discount_code':
+            return (
+                <div className="space-y-1">
+                    <ToggleList
+                        items={options.discounts.map(d => ({ value: d.id, label: d.name }))}
+                        selected={condition.discount_ids}
+                        onChange={ids => onChange({ ...condition, discount_ids: ids })}
+                    />
+                    {condition.discount_ids.length === 0 && (
+                        <p className="text-xs text-gray-500">Geen keuze = elke korting.</p>
+                    )}
+                </div>
+            )
+        case 'transfer_received':
+            return (
+                <select
+                    value={condition.received ? 'yes' : 'no'}
+                    onChange={e => onChange({ ...condition, received: e.target.value === 'yes' })}
+                    className="border-gray-300 rounded-md text-sm"
+                >
+                    <option value="yes">Wel via een overdracht ontvangen</option>
+                    <option value="no">Niet via een overdracht ontvangen</option>
+                </select>
+            )
+        case 'purchased_within_days':
+            return (
+                <div className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                        type="number"
+                        min={1}
+                        max={3650}
+                        value={condition.days}
+                        onChange={e => onChange({ ...condition, days: parseInt(e.target.value, 10) || 0 })}
+                        className="w-24 border-gray-300 rounded-md text-sm"
+                    />
+                    dagen
+                </div>
+            )
+    }
+}
+
+export function SegmentBuilder({ eventId }: { eventId: string }) {
+    const [segments, setSegments] = useState<ParticipantSegment[]>([])
+    const [options, setOptions] = useState<SegmentOptions | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [segmentId, setSegmentId] = useState<string | undefined>(undefined)
+    const [name, setName] = useState('')
+    const [description, setDescription] = useState('')
+    const [definition, setDefinition] = useState<SegmentDefinition>(EMPTY_DEFINITION)
+    const [preview, setPreview] = useState<SegmentPreview | null>(null)
+    const [previewErrors, setPreviewErrors] = useState<SegmentValidationError[]>([])
+    const [previewLoading, setPreviewLoading] = useState(false)
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [success, setSuccess] = useState<string | null>(null)
+    const [reloadKey, setReloadKey] = useState(0)
+
+    useEffect(() => {
+        async function load() {
+            const [segmentsResult, optionsResult] = await Promise.all([
+                listEventSegments(eventId),
+                getSegmentOptions(eventId)
+            ])
+
+            if (segmentsResult.error || optionsResult.error) {
+                setError((segmentsResult.error || optionsResult.error)!.message)
+            } else {
+                setSegments(segmentsResult.data)
+                setOptions(optionsResult.data)
+            }
+            setLoading(false)
+        }
+
+        load()
+    }, [eventId, reloadKey])
+
+    // Live telling (debounced) bij elke wijziging van de voorwaarden
+    useEffect(() => {
+        let cancelled = false
+        const timer = setTimeout(async () => {
+            setPreviewLoading(true)
+            const { data, validationErrors, error: previewError } = await previewSegment(eventId, definition)
+
+            if (cancelled) return
+            setPreview(previewError ? null : data)
+            setPreviewErrors(validationErrors)
+            setPreviewLoading(false)
+        }, PREVIEW_DEBOUNCE_MS)
+
+        return () => {
+            cancelled = true
+            clearTimeout(timer)
+        }
+    }, [eventId, definition])
+
+    const selectSegment = (id: string) => {
+        const segment = segments.find(s => s.id === id)
+        setSegmentId(segment?.id)
+        setName(segment?.name ?? '')
+        setDescription(segment?.description ?? '')
+        setDefinition(segment?.definition ?? EMPTY_DEFINITION)
+        setError(null)
+    }
+
+    const updateCondition = (index: number, condition: SegmentCondition) => {
+        setDefinition(d => ({ ...d, conditions: d.conditions.map((c, i) => (i === index ? condition : c)) }))
+    }
+
+    const addCondition = (type: SegmentConditionType) => {
+        setDefinition(d => ({ ...d, conditions: [...d.conditions, newCondition(type)] }))
+    }
+
+    const removeCondition = (index: number) => {
+        setDefinition(d => ({ ...d, conditions: d.conditions.filter((_, i) => i !== index) }))
+    }
+
+    const handleSave = async () => {
+        setSaving(true)
+        setError(null)
+        setSuccess(null)
+
+        const { data, validationErrors, error: saveError } = await upsertSegment(eventId, {
+            id: segmentId,
+            name,
+            description: description.trim() || null,
+            definition
+        })
+
+        if (saveError) {
+            setError(SEGMENT_ERRORS[saveError.message] || saveError.message)
+            setPreviewErrors(validationErrors)
+        } else if (data) {
+            setSegmentId(data.id)
+            setSuccess('Segment opgeslagen!')
+            setTimeout(() => setSuccess(null), 3000)
+            setReloadKey(k => k + 1)
+        }
+
+        setSaving(false)
+    }
+
+    const handleDelete = async () => {
+        if (!segmentId || !confirm(`Segment "${name}" verwijderen?`)) return
+
+        setSaving(true)
+        setError(null)
+
+        const { error: deleteError } = await deleteSegment(segmentId)
+
+        if (deleteError) {
+            setError(SEGMENT_ERRORS[deleteError.message] || deleteError.message)
+        } else {
+            selectSegment('')
+            setReloadKey(k => k + 1)
+        }
+
+        setSaving(false)
+    }
+
+    if (loading || !options) {
+        return (
+            <div className="bg-white shadow sm:rounded-lg p-6 flex justify-center">
+                {error
+                    ? <p className="text-sm text-red-700">{error}</p>
+                    : <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />}
+            </div>
+        )
+    }
+
+    const definitionErrors = previewErrors.filter(e => e.index === null)
+
+    return (
+        <div className="bg-white shadow sm:rounded-lg">
+            <div className="p-6 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h3 className="text-lg font-medium text-gray-900 mb-2">🎯 Segmenten</h3>
+                        <p className="text-sm text-gray-500">
+                            Combineer voorwaarden tot een doelgroep. Segmenten zijn dynamisch: bij elke campagne
+                            of export worden de deelnemers opnieuw bepaald.
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={segmentId ?? ''}
+                            onChange={e => selectSegment(e.target.value)}
+                            className="border-gray-300 rounded-md text-sm"
+                        >
+                            <option value="">Nieuw segment</option>
+                            {segments.map(s => (
+                                <option key={s.id} value={s.id}>
+                                    {s.name} ({s.participant_count})
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            onClick={() => selectSegment('')}
+                            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Nieuw
+                        </button>
+                    </div>
+                </div>
+
+                {error && (
+                    <div className="bg-red-50 border-l-4 border-red-400 p-4 text-red-700 text-sm">{error}</div>
+                )}
+
+                {success && (
+                    <div className="bg-green-50 border-l-4 border-green-400 p-4 text-green-700 text-sm">{success}</div>
+                )}
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-6">
+                    <div className="sm:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700">Naam</label>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            disabled={saving}
+                            placeholder="Bijv: 10 km, nog niet ingecheckt"
+                            className="mt-1 block w-full border-gray-300 rounded-md disabled:bg-gray-100"
+                        />
+                    </div>
+                    <div className="sm:col-span-4">
+                        <label className="block text-sm font-medium text-gray-700">Omschrijving</label>
+                        <input
+                            type="text"
+                            value={description}
+                            onChange={e => setDescription(e.target.value)}
+                            disabled={saving}
+                            className="mt-1 block w-full border-gray-300 rounded-md disabled:bg-gray-100"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-2 text-sm text-gray-700">
+                    <Filter className="h-4 w-4 text-gray-400" />
+                    Deelnemers die voldoen aan
+                    <select
+                        value={definition.match}
+                        onChange={e => setDefinition(d => ({ ...d, match: e.target.value as 'all' | 'any' }))}
+                        className="border-gray-300 rounded-md text-sm"
+                    >
+                        <option value="all">alle</option>
+                        <option value="any">een van</option>
+                    </select>
+                    de voorwaarden
+                </div>
+
+                {definition.conditions.length === 0 && (
+                    <p className="text-sm text-gray-500">Zonder voorwaarden bevat het segment alle registraties van het event.</p>
+                )}
+
+                <ul className="space-y-2">
+                    {definition.conditions.map((condition, index) => {
+                        const conditionErrors = previewErrors.filter(e => e.index === index)
+                        return (
+                            <li
+                                key={index}
+                                className={clsx(
+                                    'rounded-md border p-3 space-y-2',
+                                    conditionErrors.length > 0 ? 'border-yellow-300 bg-yellow-50' : 'border-gray-200'
+                                )}
+                            >
+                                <div className="flex items-center justify-between">
+                                    <span className="text-sm font-medium text-gray-900">{CONDITION_LABELS[condition.type]}</span>
+                                    <button
+                                        type="button"
+                                        onClick={() => removeCondition(index)}
+                                        className="text-gray-400 hover:text-gray-600"
+                                        title="Voorwaarde verwijderen"
+                                    >
+                                        <X className="h-4 w-4" />
+                                    </button>
+                                </div>
+                                <ConditionEditor
+                                    condition={condition}
+                                    options={options}
+                                    onChange={c => updateCondition(index, c)}
+                                />
+                                {conditionErrors.map((e, i) => (
+                                    <p key={i} className="text-xs text-yellow-800">{CONDITION_ERRORS[e.error] || e.error}</p>
+                                ))}
+                            </li>
+                        )
+                    })}
+                </ul>
+
+                {definitionErrors.map((e, i) => (
+                    <p key={i} className="text-xs text-yellow-800">{CONDITION_ERRORS[e.error] || e.error}</p>
+                ))}
+
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                    <select
+                        value=""
+                        onChange={e => e.target.value && addCondition(e.target.value as SegmentConditionType)}
+                        disabled={definition.conditions.length >= MAX_CONDITIONS}
+                        className="border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+                    >
+                        <option value="">+ Voorwaarde toevoegen</option>
+                        {(Object.keys(CONDITION_LABELS) as SegmentConditionType[]).map(type => (
+                            <option key={type} value={type}>{CONDITION_LABELS[type]}</option>
+                        ))}
+                    </select>
+
+                    <div className="flex items-center gap-2 text-sm text-gray-700">
+                        {previewLoading
+                            ? <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                            : <Users className="h-4 w-4 text-gray-400" />}
+                        {preview
+                            ? <span><strong>{preview.participant_count}</strong> deelnemers ({preview.registration_count} registraties)</span>
+                            : <span className="text-gray-500">Nog geen telling</span>}
+                    </div>
+                </div>
+
+                {preview && preview.sample.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                        Bijv: {preview.sample.map(p => [p.first_name, p.last_name].filter(Boolean).join(' ') || p.email).join(', ')}
+                        {preview.participant_count > preview.sample.length && ', ...'}
+                    </p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                    {segmentId && (
+                        <button
+                            type="button"
+                            onClick={handleDelete}
+                            disabled={saving}
+                            className="inline-flex items-center px-4 py-2 border border-red-300 rounded-md text-sm text-red-700 hover:bg-red-50 disabled:opacity-50"
+                        >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Verwijderen
+                        </button>
+                    )}
+                    <button
+                        type="button"
+                        onClick={handleSave}
+                        disabled={saving || !name.trim()}
+                        className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                        {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                        Opslaan
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
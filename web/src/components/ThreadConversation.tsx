@@ -0,0 +1,125 @@
+/**
+ * ThreadConversation
+ *
+ * Berichten van één thread + antwoordveld. Gedeeld door de inbox van de
+ * organisator (EventMessaging) en de chat van de deelnemer (ParticipantChat).
+ * Eigen berichten (kant van de viewer) staan rechts.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { Loader2, Send, Lock } from 'lucide-react'
+import { clsx } from 'clsx'
+import type { ThreadDetail } from '../data/messaging'
+
+// Foutcodes van post_thread_message → tekst
+const POST_ERRORS: Record<string, string> = {
+    THREAD_CLOSED: 'Dit gesprek is gesloten door de organisatie.',
+    INVALID_BODY: 'Een bericht mag niet leeg zijn (max. 5000 tekens).',
+    UNAUTHORIZED: 'Je hebt geen rechten om in dit gesprek te reageren.',
+}
+
+function formatMessageTime(value: string): string {
+    return new Date(value).toLocaleString('nl-NL', {
+        day: 'numeric',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+interface ThreadConversationProps {
+    detail: ThreadDetail
+    /** Geeft de error code terug, of null bij succes */
+    onSend: (body: string) => Promise<string | null>
+}
+
+export function ThreadConversation({ detail, onSend }: ThreadConversationProps) {
+    const [body, setBody] = useState('')
+    const [sending, setSending] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const bottomRef = useRef<HTMLDivElement>(null)
+
+    const { viewer, thread, messages } = detail
+    const canReply = viewer === 'organizer' || (viewer === 'participant' && thread.status === 'open')
+
+    useEffect(() => {
+        bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
+    }, [messages.length])
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!body.trim()) return
+
+        setSending(true)
+        setError(null)
+        const errorCode = await onSend(body)
+        if (errorCode) {
+            setError(POST_ERRORS[errorCode] || 'Versturen mislukt, probeer het opnieuw.')
+        } else {
+            setBody('')
+        }
+        setSending(false)
+    }
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                {messages.map(message => {
+                    const own = message.sender_type === viewer
+                        || (viewer === 'viewer' && message.sender_type === 'organizer')
+                    return (
+                        <div key={message.id} className={clsx('flex', own ? 'justify-end' : 'justify-start')}>
+                            <div className={clsx(
+                                'max-w-[80%] rounded-lg px-4 py-2',
+                                own ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-900'
+                            )}>
+                                <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>
+                                <p className={clsx('mt-1 text-xs', own ? 'text-indigo-200' : 'text-gray-500')}>
+                                    {message.sender_name} · {formatMessageTime(message.created_at)}
+                                </p>
+                            </div>
+                        </div>
+                    )
+                })}
+                <div ref={bottomRef} />
+            </div>
+
+            {canReply ? (
+                <form onSubmit={handleSubmit} className="border-t border-gray-200 p-4">
+                    {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+                    <div className="flex items-end gap-2">
+                        <textarea
+                            value={body}
+                            onChange={e => setBody(e.target.value)}
+                            onKeyDown={e => {
+                                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit(e)
+                            }}
+                            rows={3}
+                            maxLength={5000}
+                            placeholder={viewer === 'organizer' ? 'Antwoord aan de deelnemer...' : 'Typ je bericht...'}
+                            className="flex-1 rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        />
+                        <button
+                            type="submit"
+                            disabled={sending || !body.trim()}
+                            className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                            {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                            <span className="ml-2">Verstuur</span>
+                        </button>
+                    </div>
+                    {viewer === 'organizer' && (
+                        <p className="mt-2 text-xs text-gray-500">De deelnemer ontvangt je antwoord ook per e-mail.</p>
+                    )}
+                </form>
+            ) : (
+                <div className="border-t border-gray-200 p-4 flex items-center text-sm text-gray-500">
+                    <Lock className="h-4 w-4 mr-2" />
+                    {viewer === 'viewer'
+                        ? 'Alleen owners, admins en support kunnen antwoorden.'
+                        : 'Dit gesprek is gesloten. Start een nieuw gesprek als je nog een vraag hebt.'}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -2,13 +2,14 @@
  * Ticket Detail Modal - Uitgebreide configuratie
  *
  * Features:
- * - Tabs: Basis, Details, i18n, Tijdslots, Teams
+ * - Tabs: Basis, Details, i18n, Tijdslots, Teams, Wijzigingen
  * - Alle nieuwe F005 velden
  * - Real-time opslaan per sectie
+ * - Wijzigingen die deelnemers zelf deden (F037), oud en nieuw naast elkaar
  */
 
 import { useEffect, useState } from 'react'
-import { X, Loader2, Save, Plus, Trash2, Globe, Clock, Users } from 'lucide-react'
+import { X, Loader2, Save, Plus, Trash2, Globe, Clock, Users, History, EyeOff } from 'lucide-react'
 import { clsx } from 'clsx'
 import {
     getTicketTypeFull,
@@ -18,6 +19,8 @@ import {
     deleteTimeSlot,
     upsertTeamConfig,
 } from '../data/tickets'
+import { getSelfServiceChanges, SELF_SERVICE_FIELDS, type SelfServiceChange } from '../data/self_service'
+import type { FileAnswer } from '../data/registration_questions'
 
 interface TicketDetailModalProps {
     ticketId: string
@@ -25,7 +28,7 @@ interface TicketDetailModalProps {
     onSaved?: () => void
 }
 
-type Tab = 'basis' | 'details' | 'i18n' | 'slots' | 'teams'
+type Tab = 'basis' | 'details' | 'i18n' | 'slots' | 'teams' | 'changes'
 
 export function TicketDetailModal({ ticketId, onClose, onSaved }: TicketDetailModalProps) {
     const [activeTab, setActiveTab] = useState<Tab>('basis')
@@ -88,6 +91,7 @@ export function TicketDetailModal({ ticketId, onClose, onSaved }: TicketDetailMo
         { id: 'i18n' as Tab, label: 'Vertalingen', icon: Globe },
         { id: 'slots' as Tab, label: 'Tijdslots', icon: Clock },
         { id: 'teams' as Tab, label: 'Teams', icon: Users },
+        { id: 'changes' as Tab, label: 'Wijzigingen', icon: History },
     ]
 
     return (
@@ -207,6 +211,8 @@ export function TicketDetailModal({ ticketId, onClose, onSaved }: TicketDetailMo
                             saving={saving}
                         />
                     )}
+
+                    {activeTab === 'changes' && <ChangesTab ticketId={ticketId} />}
                 </div>
 
                 {/* Error display */}
@@ -817,3 +823,93 @@ function TeamsTab({ teamConfig, onSave, saving }: TeamsTabProps) {
         </div>
     )
 }
+
+// ============================================================
+// CHANGES TAB
+// ============================================================
+
+interface ChangesTabProps {
+    ticketId: string
+}
+
+function ChangesTab({ ticketId }: ChangesTabProps) {
+    const [changes, setChanges] = useState<SelfServiceChange[] | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        let cancelled = false
+
+        getSelfServiceChanges(ticketId).then(({ data, error: loadError }) => {
+            if (cancelled) return
+            if (loadError) setError(loadError.message)
+            else setChanges(data)
+        })
+
+        return () => { cancelled = true }
+    }, [ticketId])
+
+    if (error) {
+        return <div className="text-center py-8 text-red-600 text-sm">{error}</div>
+    }
+
+    if (!changes) {
+        return (
+            <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-500">Gegevens en antwoorden die deelnemers zelf hebben aangepast</p>
+
+            {changes.length === 0 ? (
+                <div className="text-center py-8 text-gray-500 text-sm">Nog geen wijzigingen door deelnemers</div>
+            ) : (
+                <div className="space-y-3">
+                    {changes.map(change => (
+                        <div key={change.id} className="p-3 bg-gray-50 rounded-md border border-gray-200">
+                            <div className="flex items-center justify-between">
+                                <div className="text-sm">
+                                    <span className="font-medium">{change.participant_name}</span>
+                                    {change.participant_email && <span className="text-gray-500"> · {change.participant_email}</span>}
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                    {new Date(change.created_at).toLocaleString('nl-NL')} · {change.via === 'token' ? 'via bevestigingslink' : 'ingelogd'}
+                                </div>
+                            </div>
+                            <ul className="mt-2 space-y-1">
+                                {change.fields.map(field => (
+                                    <li key={`${field.kind}-${field.field}`} className="text-sm flex flex-wrap items-center gap-2">
+                                        <span className="text-gray-600">
+                                            {field.label ?? SELF_SERVICE_FIELDS.find(f => f.key === field.field)?.label ?? field.field}:
+                                        </span>
+                                        {field.hidden ? (
+                                            <span className="inline-flex items-center gap-1 text-xs text-gray-500">
+                                                <EyeOff className="h-3 w-3" /> Medisch, alleen zichtbaar voor beheerders
+                                            </span>
+                                        ) : (
+                                            <>
+                                                <span className="px-1.5 rounded bg-red-50 text-red-700 line-through">{formatChangeValue(field.before)}</span>
+                                                <span className="text-gray-400">→</span>
+                                                <span className="px-1.5 rounded bg-green-50 text-green-700 font-medium">{formatChangeValue(field.after)}</span>
+                                            </>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
+function formatChangeValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') return '—'
+    if (typeof value === 'boolean') return value ? 'Ja' : 'Nee'
+    if (typeof value === 'object') return (value as FileAnswer).name ?? JSON.stringify(value)
+    return String(value)
+}
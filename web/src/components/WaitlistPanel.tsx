@@ -0,0 +1,162 @@
+/**
+ * WaitlistPanel Component
+ *
+ * Wachtlijst-overzicht onder de tickets van een event.
+ * Toont de rij per tickettype in volgorde van aanmelding, lopende
+ * aanbiedingen met verloopdatum en laat wachtenden afmelden.
+ * Aanbiedingen worden automatisch verstuurd zodra er capaciteit vrijkomt.
+ */
+
+import { useEffect, useState } from 'react'
+import { ListOrdered, X } from 'lucide-react'
+import { clsx } from 'clsx'
+import { listWaitlistEntries, cancelWaitlistEntry, type WaitlistEntry } from '../data/waitlist'
+
+const STATUS_LABELS: Record<WaitlistEntry['status'], { label: string; className: string }> = {
+    waiting: { label: 'Wacht', className: 'bg-yellow-100 text-yellow-800' },
+    offered: { label: 'Aanbod verstuurd', className: 'bg-blue-100 text-blue-800' },
+    converted: { label: 'Besteld', className: 'bg-green-100 text-green-800' },
+    expired: { label: 'Verlopen', className: 'bg-gray-100 text-gray-800' },
+    cancelled: { label: 'Afgemeld', className: 'bg-red-100 text-red-800' },
+}
+
+export function WaitlistPanel({ eventId }: { eventId: string }) {
+    const [entries, setEntries] = useState<WaitlistEntry[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [cancelling, setCancelling] = useState<string | null>(null)
+    const [reloadKey, setReloadKey] = useState(0)
+
+    useEffect(() => {
+        async function fetchEntries() {
+            const { data, error: fetchError } = await listWaitlistEntries(eventId)
+
+            if (fetchError) {
+                setError(fetchError.message)
+            } else {
+                setEntries(data || [])
+            }
+
+            setLoading(false)
+        }
+
+        fetchEntries()
+    }, [eventId, reloadKey])
+
+    const handleCancel = async (entry: WaitlistEntry) => {
+        if (!confirm(`${entry.email} van de wachtlijst halen?`)) return
+
+        setCancelling(entry.id)
+        const { error: cancelError } = await cancelWaitlistEntry(entry.id)
+
+        if (cancelError) {
+            setError(cancelError.message)
+        } else {
+            setReloadKey(k => k + 1)
+        }
+
+        setCancelling(null)
+    }
+
+    // Niets tonen zolang er nooit iemand op de wachtlijst stond
+    if (loading || (entries.length === 0 && !error)) {
+        return null
+    }
+
+    // Plek in de rij per tickettype (alleen wachtenden)
+    const positions: Record<string, number> = {}
+    const counters: Record<string, number> = {}
+    for (const entry of entries) {
+        if (entry.status !== 'waiting') continue
+        counters[entry.ticket_type_id] = (counters[entry.ticket_type_id] || 0) + 1
+        positions[entry.id] = counters[entry.ticket_type_id]
+    }
+
+    const waitingCount = entries.filter(e => e.status === 'waiting').length
+    const offeredCount = entries.filter(e => e.status === 'offered').length
+
+    return (
+        <div className="mt-8">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                        <ListOrdered className="mr-2 h-5 w-5 text-gray-400" />
+                        Wachtlijst
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                        {waitingCount} wachtend · {offeredCount} met lopend aanbod. Vrijgekomen plekken worden automatisch aangeboden.
+                    </p>
+                </div>
+            </div>
+
+            {error && (
+                <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+                    <p className="text-sm text-red-800">{error}</p>
+                    <button onClick={() => setError(null)} className="text-sm text-red-600 underline">Sluiten</button>
+                </div>
+            )}
+
+            <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-300">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">#</th>
+                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Persoon</th>
+                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Ticket</th>
+                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Aantal</th>
+                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
+                            <th className="relative py-3.5 pl-3 pr-4"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 bg-white">
+                        {entries.map(entry => {
+                            const status = STATUS_LABELS[entry.status]
+                            const pendingOffer = entry.waitlist_offers.find(o => o.status === 'pending')
+
+                            return (
+                                <tr key={entry.id} className={clsx(['expired', 'cancelled'].includes(entry.status) && 'opacity-50')}>
+                                    <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-500">
+                                        {positions[entry.id] ?? '—'}
+                                    </td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                                        <div className="font-medium text-gray-900">{entry.name || entry.email}</div>
+                                        {entry.name && <div className="text-gray-500">{entry.email}</div>}
+                                        <div className="text-gray-400 text-xs">
+                                            {new Date(entry.created_at).toLocaleString('nl-NL')}
+                                        </div>
+                                    </td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                                        {entry.ticket_types?.name || '—'}
+                                    </td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{entry.quantity}</td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                                        <span className={clsx('inline-flex items-center px-2 py-0.5 rounded text-xs font-medium', status.className)}>
+                                            {status.label}
+                                        </span>
+                                        {pendingOffer && (
+                                            <div className="text-gray-500 text-xs mt-1">
+                                                tot {new Date(pendingOffer.expires_at).toLocaleString('nl-NL')}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm">
+                                        {entry.status === 'waiting' && (
+                                            <button
+                                                onClick={() => handleCancel(entry)}
+                                                disabled={cancelling === entry.id}
+                                                className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                                                title="Van wachtlijst halen"
+                                            >
+                                                <X className="h-4 w-4" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            )
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    )
+}
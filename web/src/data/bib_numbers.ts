@@ -0,0 +1,225 @@
+/**
+ * Bib Numbers Data Access Layer
+ *
+ * Startnummers per ticket uit nummerreeksen (bib_number_ranges) per event,
+ * tickettype of tijdslot. Modus sequential deelt bij betaling uit,
+ * alphabetical in een batch vóór het event, manual alleen met de hand.
+ * Nummers van terugbetaalde tickets komen alleen terug als de reeks
+ * reuse_released heeft.
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type BibAssignmentMode = 'sequential' | 'alphabetical' | 'manual'
+
+export const BIB_MODE_LABELS: Record<BibAssignmentMode, string> = {
+    sequential: 'Op volgorde bij betaling',
+    alphabetical: 'Alfabetisch vóór het event',
+    manual: 'Handmatig',
+}
+
+export interface BibRange {
+    id: string
+    ticket_type_id: string | null
+    time_slot_id: string | null
+    range_start: number
+    range_end: number
+    assignment_mode: BibAssignmentMode
+    reuse_released: boolean
+    next_number: number
+    assigned_count: number
+    unassigned_count: number
+}
+
+export interface BibTimeSlot {
+    id: string
+    ticket_type_id: string
+    label: string | null
+    slot_time: string
+    slot_date: string | null
+}
+
+export interface BibOverview {
+    can_edit: boolean
+    ticket_types: { id: string; name: string }[]
+    time_slots: BibTimeSlot[]
+    ranges: BibRange[]
+    /** Geldige tickets waarvoor geen reeks geldt */
+    outside_ranges_count: number
+}
+
+export interface BibRangeInput {
+    id?: string
+    ticket_type_id: string | null
+    time_slot_id: string | null
+    range_start: number
+    range_end: number
+    assignment_mode: BibAssignmentMode
+    reuse_released: boolean
+}
+
+// Foutcodes van de startnummer-RPCs → tekst
+export const BIB_ERRORS: Record<string, string> = {
+    UNAUTHORIZED: 'Alleen admins en owners kunnen startnummers beheren.',
+    EVENT_NOT_FOUND: 'Event niet gevonden.',
+    RANGE_NOT_FOUND: 'Deze reeks bestaat niet (meer).',
+    INVALID_MODE: 'Deze reeks wordt handmatig toegewezen.',
+    INVALID_RANGE: 'Ongeldige reeks: het eerste nummer moet ≥ 1 zijn en niet groter dan het laatste (max. 100.000 nummers).',
+    TICKET_TYPE_NOT_FOUND: 'Tickettype niet gevonden.',
+    TIME_SLOT_NOT_FOUND: 'Tijdslot niet gevonden.',
+    RANGE_OVERLAP: 'Deze reeks overlapt met een andere reeks van dit event.',
+    SCOPE_EXISTS: 'Er bestaat al een reeks voor dit tickettype/tijdslot.',
+    TICKET_NOT_FOUND: 'Ticket niet gevonden.',
+    TICKET_VOID: 'Dit ticket is ongeldig gemaakt.',
+    INVALID_BIB_NUMBER: 'Een startnummer is een getal vanaf 1.',
+    BIB_TAKEN: 'Dit startnummer is al in gebruik.',
+    BIB_RETIRED: 'Dit startnummer hoorde bij een terugbetaald ticket en wordt niet hergebruikt.',
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * Reeksen met aantallen, tickettypes en tijdsloten van een event
+ * Gebruikt RPC: get_bib_overview
+ */
+export async function getBibOverview(eventId: string): Promise<{
+    data: BibOverview | null
+    error: Error | null
+}> {
+    console.log('[bib_numbers] getBibOverview:', { eventId })
+
+    const { data, error } = await supabase.rpc('get_bib_overview', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[bib_numbers] getBibOverview error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as BibOverview, error: null }
+}
+
+// ============================================================
+// MUTATIONS
+// ============================================================
+
+/**
+ * Reeks aanmaken of bijwerken
+ * Gebruikt RPC: upsert_bib_range
+ */
+export async function upsertBibRange(eventId: string, input: BibRangeInput): Promise<{
+    data: { range_id: string } | null
+    error: Error | null
+}> {
+    console.log('[bib_numbers] upsertBibRange:', { eventId, id: input.id, mode: input.assignment_mode })
+
+    const { data, error } = await supabase.rpc('upsert_bib_range', {
+        _event_id: eventId,
+        _range_start: input.range_start,
+        _range_end: input.range_end,
+        _assignment_mode: input.assignment_mode,
+        _ticket_type_id: input.ticket_type_id,
+        _time_slot_id: input.time_slot_id,
+        _reuse_released: input.reuse_released,
+        _id: input.id ?? null
+    })
+
+    if (error) {
+        console.error('[bib_numbers] upsertBibRange error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: { range_id: data.range_id }, error: null }
+}
+
+/**
+ * Reeks verwijderen; uitgedeelde nummers blijven op de tickets staan
+ * Gebruikt RPC: delete_bib_range
+ */
+export async function deleteBibRange(rangeId: string): Promise<{ error: Error | null }> {
+    console.log('[bib_numbers] deleteBibRange:', { rangeId })
+
+    const { data, error } = await supabase.rpc('delete_bib_range', {
+        _range_id: rangeId
+    })
+
+    if (error) {
+        console.error('[bib_numbers] deleteBibRange error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Nummers uitdelen aan tickets van een reeks zonder nummer
+ * (alfabetisch of op uitgiftemoment); reassign begint opnieuw bij het eerste nummer
+ * Gebruikt RPC: assign_bib_numbers
+ */
+export async function assignBibNumbers(rangeId: string, reassign = false): Promise<{
+    data: { assigned: number; unassigned: number } | null
+    error: Error | null
+}> {
+    console.log('[bib_numbers] assignBibNumbers:', { rangeId, reassign })
+
+    const { data, error } = await supabase.rpc('assign_bib_numbers', {
+        _range_id: rangeId,
+        _reassign: reassign
+    })
+
+    if (error) {
+        console.error('[bib_numbers] assignBibNumbers error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: { assigned: data.assigned, unassigned: data.unassigned }, error: null }
+}
+
+/**
+ * Startnummer van één ticket zetten of wissen (null)
+ * Gebruikt RPC: set_ticket_bib_number
+ */
+export async function setTicketBibNumber(ticketInstanceId: string, bibNumber: number | null): Promise<{
+    error: Error | null
+}> {
+    console.log('[bib_numbers] setTicketBibNumber:', { ticketInstanceId, bibNumber })
+
+    const { data, error } = await supabase.rpc('set_ticket_bib_number', {
+        _ticket_instance_id: ticketInstanceId,
+        _bib_number: bibNumber
+    })
+
+    if (error) {
+        console.error('[bib_numbers] setTicketBibNumber error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
@@ -0,0 +1,243 @@
+/**
+ * Campaigns Data Access Layer
+ *
+ * Campagnes (message_batches) van een event met hun trigger (vast tijdstip,
+ * t.o.v. de start van het event of na check-in), verzendvenster en
+ * voortgang. Aanmaken gaat via de bulk-email edge function; pauzeren,
+ * hervatten en annuleren via RPCs (admin/owner). Engagement (afgeleverd,
+ * geopend, geklikt) komt uit de Resend webhook en de track-link redirect.
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type CampaignStatus =
+    | 'draft'
+    | 'queued'
+    | 'processing'
+    | 'sending'
+    | 'completed'
+    | 'paused'
+    | 'cancelled'
+    | 'failed'
+
+export type CampaignTrigger = 'scheduled' | 'event_start' | 'check_in'
+
+export interface Campaign {
+    id: string
+    name: string
+    status: CampaignStatus
+    channels: ('email' | 'sms' | 'push')[]
+    trigger_type: CampaignTrigger
+    trigger_offset_minutes: number
+    /** Moment waarop de campagne vrijgegeven wordt (check-in: direct) */
+    run_at: string | null
+    send_window_start: string | null
+    send_window_end: string | null
+    send_window_timezone: string
+    total_recipients: number
+    pending_count: number
+    /** Niet bereikbaar (uitgeschreven, geen opt-in) of geannuleerd */
+    skipped_count: number
+    queued_count: number
+    sent_count: number
+    delivered_count: number
+    failed_count: number
+    bounced_count: number
+    created_at: string
+    started_at: string | null
+    paused_at: string | null
+    completed_at: string | null
+    cancelled_at: string | null
+}
+
+export interface CampaignAnalyticsTotals {
+    sent: number
+    delivered: number
+    bounced: number
+    complained: number
+    opened: number
+    clicked: number
+}
+
+/** Percentages; null zolang de noemer 0 is */
+export interface CampaignAnalyticsRates {
+    delivery_rate: number | null
+    bounce_rate: number | null
+    complaint_rate: number | null
+    open_rate: number | null
+    click_rate: number | null
+    click_to_open_rate: number | null
+}
+
+export interface CampaignLinkStats {
+    link_id: string
+    url: string
+    clicks: number
+    unique_clicks: number
+}
+
+export interface CampaignTimelineBucket {
+    bucket_start: string
+    delivered: number
+    opened: number
+    clicked: number
+    bounced: number
+    complained: number
+}
+
+export interface CampaignAnalytics {
+    totals: CampaignAnalyticsTotals
+    rates: CampaignAnalyticsRates
+    links: CampaignLinkStats[]
+    /** Tijdlijn per uur, per dag als de campagne langer dan 72 uur loopt */
+    bucket: 'hour' | 'day'
+    timeline: CampaignTimelineBucket[]
+}
+
+export interface CancelCampaignResult {
+    items_skipped: number
+    emails_cancelled: number
+    notifications_cancelled: number
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * Campagnes van een event, nieuwste eerst
+ * Gebruikt RPC: get_event_campaigns
+ */
+export async function listEventCampaigns(eventId: string): Promise<{
+    data: Campaign[]
+    error: Error | null
+}> {
+    const { data, error } = await supabase.rpc('get_event_campaigns', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[campaigns] listEventCampaigns error:', error)
+        return { data: [], error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: [], error: new Error(data.error) }
+    }
+
+    return { data: (data?.campaigns ?? []) as Campaign[], error: null }
+}
+
+/**
+ * Engagement van een campagne: rates, clicks per link en tijdlijn
+ * Gebruikt RPC: get_campaign_analytics
+ */
+export async function getCampaignAnalytics(batchId: string): Promise<{
+    data: CampaignAnalytics | null
+    error: Error | null
+}> {
+    const { data, error } = await supabase.rpc('get_campaign_analytics', {
+        _batch_id: batchId
+    })
+
+    if (error) {
+        console.error('[campaigns] getCampaignAnalytics error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return {
+        data: {
+            totals: data.totals,
+            rates: data.rates,
+            links: data.links ?? [],
+            bucket: data.bucket,
+            timeline: data.timeline ?? []
+        },
+        error: null
+    }
+}
+
+// ============================================================
+// MUTATIONS
+// ============================================================
+
+/**
+ * Campagne pauzeren: al gequeuede berichten blijven staan tot hervatten
+ * Gebruikt RPC: pause_message_batch
+ */
+export async function pauseCampaign(batchId: string): Promise<{ error: Error | null }> {
+    console.log('[campaigns] pauseCampaign:', { batchId })
+
+    const { data, error } = await supabase.rpc('pause_message_batch', { _batch_id: batchId })
+
+    if (error) {
+        console.error('[campaigns] pauseCampaign error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Gepauzeerde campagne hervatten
+ * Gebruikt RPC: resume_message_batch
+ */
+export async function resumeCampaign(batchId: string): Promise<{ error: Error | null }> {
+    console.log('[campaigns] resumeCampaign:', { batchId })
+
+    const { data, error } = await supabase.rpc('resume_message_batch', { _batch_id: batchId })
+
+    if (error) {
+        console.error('[campaigns] resumeCampaign error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Campagne annuleren: niet verzonden berichten worden geannuleerd
+ * Gebruikt RPC: cancel_message_batch
+ */
+export async function cancelCampaign(batchId: string): Promise<{
+    data: CancelCampaignResult | null
+    error: Error | null
+}> {
+    console.log('[campaigns] cancelCampaign:', { batchId })
+
+    const { data, error } = await supabase.rpc('cancel_message_batch', { _batch_id: batchId })
+
+    if (error) {
+        console.error('[campaigns] cancelCampaign error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return {
+        data: {
+            items_skipped: data.items_skipped,
+            emails_cancelled: data.emails_cancelled,
+            notifications_cancelled: data.notifications_cancelled
+        },
+        error: null
+    }
+}
@@ -0,0 +1,245 @@
+/**
+ * Event Teams Data Access Layer
+ *
+ * Team-/estafette-inschrijvingen op basis van ticket_team_config (niet te
+ * verwarren met team.ts: de medewerkers van een organisatie).
+ * De captain maakt het team aan in de checkout; teamleden melden zich aan
+ * via de uitnodigingscode met hun eigen gegevens en registratievragen.
+ */
+
+import { supabase } from '../lib/supabase'
+import type { RegistrationQuestion } from './registration_questions'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type TeamStatus = 'pending' | 'active' | 'cancelled'
+export type TeamRole = 'captain' | 'member'
+export type TeamIssue = 'TOO_FEW_MEMBERS' | 'TOO_MANY_MEMBERS' | 'NO_CAPTAIN'
+
+/** Teamconfiguratie van een tickettype (publiek leesbaar) */
+export interface TicketTeamConfig {
+    ticket_type_id: string
+    team_required: boolean
+    team_min_size: number
+    team_max_size: number
+    allow_incomplete_teams: boolean
+    captain_required: boolean
+}
+
+/** Registratievraag op de aanmeldpagina (incl. validatie en show-if) */
+export type TeamQuestion = RegistrationQuestion
+
+/** Resultaat van get_team_invite */
+export interface TeamInvite {
+    team: {
+        id: string
+        name: string
+        event_id: string
+        event_name: string
+        event_slug: string
+        event_start: string | null
+        ticket_name: string
+        captain_name: string | null
+        member_count: number
+        slots: number
+        is_full: boolean
+        registration_closed: boolean
+    }
+    questions: TeamQuestion[]
+}
+
+/** Resultaat van join_team */
+export interface JoinTeamResult {
+    team_member_id: string
+    registration_id: string
+    team_name: string
+    member_count: number
+    slots: number
+}
+
+/** Volledigheid t.o.v. ticket_team_config (get_team_completeness) */
+export interface TeamCompleteness {
+    is_complete: boolean
+    issues: TeamIssue[]
+    member_count: number
+    slots: number
+    has_captain: boolean
+    min_size: number
+    max_size: number
+    allow_incomplete_teams: boolean
+    captain_required: boolean
+}
+
+export interface EventTeamMember {
+    id: string
+    role: TeamRole
+    registration_id: string
+    participant_id: string
+    first_name: string
+    last_name: string
+    email: string
+    ticket_instance_id: string | null
+    checked_in_at: string | null
+    joined_at: string
+}
+
+/** Team in het organisator overzicht (get_event_teams) */
+export interface EventTeam {
+    id: string
+    name: string
+    status: TeamStatus
+    ticket_type_id: string
+    ticket_name: string
+    invite_code: string
+    captain_email: string
+    order_id: string | null
+    created_at: string
+    completeness: TeamCompleteness
+    members: EventTeamMember[]
+}
+
+// ============================================================
+// PUBLIC
+// ============================================================
+
+/**
+ * Haal de teamconfiguratie op voor een set tickettypes (checkout)
+ */
+export async function getTeamConfigs(ticketTypeIds: string[]): Promise<{
+    data: TicketTeamConfig[] | null
+    error: Error | null
+}> {
+    console.log('[event_teams] getTeamConfigs:', { count: ticketTypeIds.length })
+
+    if (ticketTypeIds.length === 0) {
+        return { data: [], error: null }
+    }
+
+    const { data, error } = await supabase
+        .from('ticket_team_config')
+        .select('ticket_type_id, team_required, team_min_size, team_max_size, allow_incomplete_teams, captain_required')
+        .in('ticket_type_id', ticketTypeIds)
+
+    if (error) {
+        console.error('[event_teams] getTeamConfigs error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    return { data: data as TicketTeamConfig[], error: null }
+}
+
+/**
+ * Haal een teamuitnodiging op via de code uit de link
+ * Gebruikt RPC: get_team_invite
+ * Error message is de RPC error code (TEAM_NOT_FOUND, TEAM_NOT_ACTIVE)
+ */
+export async function getTeamInvite(code: string): Promise<{
+    data: TeamInvite | null
+    error: Error | null
+}> {
+    console.log('[event_teams] getTeamInvite:', { code })
+
+    const { data, error } = await supabase.rpc('get_team_invite', {
+        _code: code
+    })
+
+    if (error) {
+        console.error('[event_teams] getTeamInvite error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as TeamInvite, error: null }
+}
+
+/**
+ * Meld je aan als teamlid
+ * Gebruikt RPC: join_team
+ * Error message is de RPC error code (bv. TEAM_FULL, ALREADY_IN_TEAM, MISSING_REQUIRED_ANSWER)
+ */
+export async function joinTeam(
+    code: string,
+    participant: { email: string; firstName: string; lastName: string },
+    answers: Record<string, unknown>
+): Promise<{
+    data: JoinTeamResult | null
+    error: Error | null
+}> {
+    console.log('[event_teams] joinTeam:', { code, email: participant.email })
+
+    const { data, error } = await supabase.rpc('join_team', {
+        _code: code,
+        _email: participant.email,
+        _first_name: participant.firstName,
+        _last_name: participant.lastName,
+        _answers: answers,
+    })
+
+    if (error) {
+        console.error('[event_teams] joinTeam error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as JoinTeamResult, error: null }
+}
+
+// ============================================================
+// ORGANIZER
+// ============================================================
+
+/**
+ * Haal alle teams van een event op, met leden en volledigheid
+ * Gebruikt RPC: get_event_teams
+ */
+export async function getEventTeams(eventId: string): Promise<{
+    data: EventTeam[] | null
+    error: Error | null
+}> {
+    console.log('[event_teams] getEventTeams:', { eventId })
+
+    const { data, error } = await supabase.rpc('get_event_teams', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[event_teams] getEventTeams error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: (data?.teams || []) as EventTeam[], error: null }
+}
+
+/**
+ * Verwijder een lid uit een team (registratie blijft bestaan)
+ */
+export async function removeTeamMember(memberId: string): Promise<{
+    success: boolean
+    error: Error | null
+}> {
+    console.log('[event_teams] removeTeamMember:', { memberId })
+
+    const { error } = await supabase
+        .from('team_members')
+        .delete()
+        .eq('id', memberId)
+
+    if (error) {
+        console.error('[event_teams] removeTeamMember error:', error)
+        return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+}
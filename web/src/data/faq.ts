@@ -0,0 +1,336 @@
+/**
+ * FAQ Data Access Layer
+ *
+ * Veelgestelde vragen per event: categorieën, volgorde, draft/published en
+ * vertalingen (zelfde vorm als ticket_type_i18n). Beheer gaat via RPCs voor
+ * owners/admins; de publieke FAQ (met zoeken) via get_public_event_faq.
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type FaqStatus = 'draft' | 'published'
+
+export interface FaqTranslation {
+    question: string
+    answer: string
+}
+
+export interface FaqCategory {
+    id: string
+    name: string
+    sort_order: number
+    /** Vertaalde namen per locale */
+    i18n: Record<string, { name: string }>
+}
+
+export interface FaqItem {
+    id: string
+    category_id: string | null
+    question: string
+    answer: string
+    sort_order: number
+    status: FaqStatus
+    include_in_email: boolean
+    updated_at: string
+    /** Vertalingen per locale */
+    i18n: Record<string, FaqTranslation>
+}
+
+export interface EventFaqAdminData {
+    can_edit: boolean
+    categories: FaqCategory[]
+    faqs: FaqItem[]
+}
+
+export interface FaqItemInput {
+    id?: string
+    category_id: string | null
+    question: string
+    answer: string
+    status: FaqStatus
+    include_in_email: boolean
+}
+
+/** Publieke FAQ, gegroepeerd per categorie (id null = zonder categorie) */
+export interface PublicFaqCategory {
+    id: string | null
+    name: string | null
+    faqs: { id: string; question: string; answer: string }[]
+}
+
+export interface PublicEventFaq {
+    event: {
+        id: string
+        slug: string
+        name: string
+        org_name: string
+    }
+    locale: string | null
+    available_locales: string[]
+    /** Aantal published vragen zonder zoekfilter */
+    total_count: number
+    categories: PublicFaqCategory[]
+}
+
+// ============================================================
+// ADMIN
+// ============================================================
+
+/**
+ * Alle categorieën en vragen van een event (incl. drafts en vertalingen)
+ * Gebruikt RPC: get_event_faq_admin
+ */
+export async function getEventFaqAdmin(eventId: string): Promise<{
+    data: EventFaqAdminData | null
+    error: Error | null
+}> {
+    console.log('[faq] getEventFaqAdmin:', { eventId })
+
+    const { data, error } = await supabase.rpc('get_event_faq_admin', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[faq] getEventFaqAdmin error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as EventFaqAdminData, error: null }
+}
+
+/**
+ * Vraag aanmaken (achteraan) of bijwerken
+ * Gebruikt RPC: upsert_event_faq
+ */
+export async function upsertEventFaq(eventId: string, input: FaqItemInput): Promise<{
+    data: { faq_id: string } | null
+    error: Error | null
+}> {
+    console.log('[faq] upsertEventFaq:', { eventId, id: input.id, status: input.status })
+
+    const { data, error } = await supabase.rpc('upsert_event_faq', {
+        _event_id: eventId,
+        _question: input.question,
+        _answer: input.answer,
+        _category_id: input.category_id,
+        _status: input.status,
+        _include_in_email: input.include_in_email,
+        _id: input.id ?? null
+    })
+
+    if (error) {
+        console.error('[faq] upsertEventFaq error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: { faq_id: data.faq_id }, error: null }
+}
+
+/**
+ * Vraag verwijderen (incl. vertalingen)
+ * Gebruikt RPC: delete_event_faq
+ */
+export async function deleteEventFaq(faqId: string): Promise<{ error: Error | null }> {
+    console.log('[faq] deleteEventFaq:', { faqId })
+
+    const { data, error } = await supabase.rpc('delete_event_faq', {
+        _faq_id: faqId
+    })
+
+    if (error) {
+        console.error('[faq] deleteEventFaq error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Categorie aanmaken (achteraan) of hernoemen
+ * Gebruikt RPC: upsert_event_faq_category
+ */
+export async function upsertFaqCategory(eventId: string, name: string, id?: string): Promise<{
+    data: { category_id: string } | null
+    error: Error | null
+}> {
+    console.log('[faq] upsertFaqCategory:', { eventId, name, id })
+
+    const { data, error } = await supabase.rpc('upsert_event_faq_category', {
+        _event_id: eventId,
+        _name: name,
+        _id: id ?? null
+    })
+
+    if (error) {
+        console.error('[faq] upsertFaqCategory error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: { category_id: data.category_id }, error: null }
+}
+
+/**
+ * Categorie verwijderen; de vragen erin worden "zonder categorie"
+ * Gebruikt RPC: delete_event_faq_category
+ */
+export async function deleteFaqCategory(categoryId: string): Promise<{ error: Error | null }> {
+    console.log('[faq] deleteFaqCategory:', { categoryId })
+
+    const { data, error } = await supabase.rpc('delete_event_faq_category', {
+        _category_id: categoryId
+    })
+
+    if (error) {
+        console.error('[faq] deleteFaqCategory error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Volgorde opslaan: arraypositie = sort_order
+ * Gebruikt RPC: reorder_event_faq
+ */
+export async function reorderEventFaq(eventId: string, order: {
+    categoryIds?: string[]
+    faqIds?: string[]
+}): Promise<{ error: Error | null }> {
+    console.log('[faq] reorderEventFaq:', { eventId })
+
+    const { data, error } = await supabase.rpc('reorder_event_faq', {
+        _event_id: eventId,
+        _category_ids: order.categoryIds ?? null,
+        _faq_ids: order.faqIds ?? null
+    })
+
+    if (error) {
+        console.error('[faq] reorderEventFaq error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Vertaling van een vraag opslaan; leeg laten verwijdert de vertaling
+ * Gebruikt RPC: upsert_event_faq_i18n
+ */
+export async function upsertFaqTranslation(
+    faqId: string,
+    locale: string,
+    translation: FaqTranslation
+): Promise<{ error: Error | null }> {
+    console.log('[faq] upsertFaqTranslation:', { faqId, locale })
+
+    const { data, error } = await supabase.rpc('upsert_event_faq_i18n', {
+        _faq_id: faqId,
+        _locale: locale,
+        _question: translation.question,
+        _answer: translation.answer
+    })
+
+    if (error) {
+        console.error('[faq] upsertFaqTranslation error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Vertaalde categorienaam opslaan; leeg laten verwijdert de vertaling
+ * Gebruikt RPC: upsert_event_faq_category_i18n
+ */
+export async function upsertFaqCategoryTranslation(
+    categoryId: string,
+    locale: string,
+    name: string
+): Promise<{ error: Error | null }> {
+    console.log('[faq] upsertFaqCategoryTranslation:', { categoryId, locale })
+
+    const { data, error } = await supabase.rpc('upsert_event_faq_category_i18n', {
+        _category_id: categoryId,
+        _locale: locale,
+        _name: name
+    })
+
+    if (error) {
+        console.error('[faq] upsertFaqCategoryTranslation error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+// ============================================================
+// PUBLIC
+// ============================================================
+
+/**
+ * Published FAQ van een published event, vertaald met terugval op de
+ * standaardtaal; search filtert op vraag en antwoord
+ * Gebruikt RPC: get_public_event_faq
+ */
+export async function getPublicEventFaq(
+    eventSlug: string,
+    options: { locale?: string | null; search?: string } = {}
+): Promise<{
+    data: PublicEventFaq | null
+    error: Error | null
+}> {
+    console.log('[faq] getPublicEventFaq:', { eventSlug, ...options })
+
+    const { data, error } = await supabase.rpc('get_public_event_faq', {
+        _event_slug: eventSlug,
+        _locale: options.locale ?? null,
+        _search: options.search || null
+    })
+
+    if (error) {
+        console.error('[faq] getPublicEventFaq error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as PublicEventFaq, error: null }
+}
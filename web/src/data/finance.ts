@@ -0,0 +1,156 @@
+/**
+ * Finance Data Access Layer
+ *
+ * Org-brede financiële rapportage: bruto omzet, kortingen, terugbetalingen,
+ * netto omzet en btw per event en tickettype (get_finance_report), plus de
+ * regels voor de boekhoudexport (get_finance_export, alleen owner/finance).
+ * Bedragen zijn in euro's, incl. btw.
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** Periode filter, datums als YYYY-MM-DD (inclusief); null = geen grens */
+export interface FinancePeriod {
+    from: string | null
+    to: string | null
+}
+
+export interface FinanceTotals {
+    gross_sales: number
+    discounts: number
+    refunds: number
+    /** Uitbetalingen aan verkopers van doorverkochte tickets (niet in refunds) */
+    resale_payouts: number
+    net_revenue: number
+    vat: number
+    order_count: number
+}
+
+export interface FinanceEventRow {
+    event_id: string
+    event_name: string
+    vat_rate: number
+    gross_sales: number
+    discounts: number
+    refunds: number
+    resale_payouts: number
+    net_revenue: number
+    vat: number
+    order_count: number
+}
+
+/** Tickettype of product (item_name); ticket_type_id is null voor producten */
+export interface FinanceTicketTypeRow {
+    event_id: string
+    event_name: string
+    ticket_type_id: string | null
+    item_name: string
+    quantity_sold: number
+    quantity_refunded: number
+    gross_sales: number
+    discounts: number
+    refunds: number
+    resale_payouts: number
+    net_revenue: number
+    vat: number
+}
+
+export interface FinanceProviderRow {
+    provider: string
+    payment_count: number
+    amount: number
+}
+
+export interface FinanceReport {
+    period: FinancePeriod
+    currency: string
+    can_export: boolean
+    totals: FinanceTotals
+    by_event: FinanceEventRow[]
+    by_ticket_type: FinanceTicketTypeRow[]
+    by_provider: FinanceProviderRow[]
+}
+
+/**
+ * Eén boeking per orderregel: verkoop, terugbetaling, doorverkoop (betaling
+ * van de koper) of uitbetaling aan de verkoper van een doorverkocht ticket
+ */
+export interface FinanceExportRow {
+    booked_at: string
+    line_type: 'sale' | 'refund' | 'resale' | 'resale_payout'
+    order_id: string
+    event_name: string
+    item_name: string
+    quantity: number
+    gross: number
+    discount: number
+    refund: number
+    net_revenue: number
+    vat_rate: number
+    vat: number
+}
+
+// ============================================================
+// REPORTS
+// ============================================================
+
+/**
+ * Financieel overzicht van de organisatie voor een periode
+ * Gebruikt RPC: get_finance_report
+ * Error message is de RPC error code (bv. UNAUTHORIZED, INVALID_DATE_RANGE)
+ */
+export async function getFinanceReport(orgId: string, period: FinancePeriod): Promise<{
+    data: FinanceReport | null
+    error: Error | null
+}> {
+    console.log('[finance] getFinanceReport:', { orgId, ...period })
+
+    const { data, error } = await supabase.rpc('get_finance_report', {
+        _org_id: orgId,
+        _from: period.from,
+        _to: period.to
+    })
+
+    if (error) {
+        console.error('[finance] getFinanceReport error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as FinanceReport, error: null }
+}
+
+/**
+ * Boekingsregels voor de export (owner/finance, wordt geaudit)
+ * Gebruikt RPC: get_finance_export
+ */
+export async function getFinanceExport(orgId: string, period: FinancePeriod): Promise<{
+    data: FinanceExportRow[] | null
+    error: Error | null
+}> {
+    console.log('[finance] getFinanceExport:', { orgId, ...period })
+
+    const { data, error } = await supabase.rpc('get_finance_export', {
+        _org_id: orgId,
+        _from: period.from,
+        _to: period.to
+    })
+
+    if (error) {
+        console.error('[finance] getFinanceExport error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data.rows as FinanceExportRow[], error: null }
+}
@@ -0,0 +1,103 @@
+/**
+ * Fundraising Data Access Layer
+ *
+ * Sidecar rond de checkout (zie docs/ARCHITECT_FUNDRAISING.md): per event
+ * een modus (disabled/optional/required), kiesbare goede doelen en
+ * overrides per tickettype. De actiepagina bij de externe partner wordt
+ * na de inschrijving async aangemaakt (process-fundraising).
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type FundraisingMode = 'disabled' | 'optional' | 'required'
+
+export interface FundraisingCharity {
+    id: string
+    name: string
+    description: string | null
+    logo_url: string | null
+    is_default: boolean
+}
+
+export interface FundraisingTicketOverride {
+    ticket_type_id: string
+    mode: FundraisingMode
+    forced_charity_id: string | null
+}
+
+export interface PublicFundraisingConfig {
+    mode: FundraisingMode
+    title: string | null
+    description: string | null
+    allow_charity_selection: boolean
+    charities: FundraisingCharity[]
+    ticket_overrides: FundraisingTicketOverride[]
+}
+
+// Strengste modus wint (zelfde volgorde als de enum in de database)
+const MODE_RANK: Record<FundraisingMode, number> = {
+    disabled: 0,
+    optional: 1,
+    required: 2,
+}
+
+// ============================================================
+// PUBLIC
+// ============================================================
+
+/**
+ * Fundraising configuratie voor de checkout van een published event
+ */
+export async function getPublicFundraisingConfig(eventId: string): Promise<{
+    data: PublicFundraisingConfig | null
+    error: Error | null
+}> {
+    console.log('[fundraising] getPublicFundraisingConfig:', { eventId })
+
+    const { data, error } = await supabase.rpc('get_public_fundraising_config', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[fundraising] getPublicFundraisingConfig error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as PublicFundraisingConfig, error: null }
+}
+
+/**
+ * Effectieve modus + vast doel voor de gekozen tickettypes
+ *
+ * Spiegelt resolve_fundraising_mode: een override gaat voor de eventmodus,
+ * de strengste modus van de selectie wint.
+ */
+export function resolveFundraisingMode(
+    config: PublicFundraisingConfig,
+    ticketTypeIds: string[]
+): { mode: FundraisingMode; forcedCharityId: string | null } {
+    let mode: FundraisingMode = ticketTypeIds.length > 0 ? 'disabled' : config.mode
+    let forcedCharityId: string | null = null
+
+    for (const ticketTypeId of ticketTypeIds) {
+        const override = config.ticket_overrides.find(o => o.ticket_type_id === ticketTypeId)
+        const ticketMode = override?.mode ?? config.mode
+
+        if (MODE_RANK[ticketMode] > MODE_RANK[mode]) {
+            mode = ticketMode
+        }
+        if (!forcedCharityId && override?.mode === 'required' && override.forced_charity_id) {
+            forcedCharityId = override.forced_charity_id
+        }
+    }
+
+    return { mode, forcedCharityId }
+}
@@ -0,0 +1,190 @@
+/**
+ * Message Templates Data Access Layer
+ *
+ * Email templates per organisatie met merge variabelen ({{first_name}},
+ * {{ticket_type}}, {{time_slot}}, {{order_link}}, ...), conditionele blokken
+ * ({{#if time_slot}}...{{else}}...{{/if}}) en een variant per taal.
+ * Opslaan en preview gaan via RPCs; de catalogus van toegestane variabelen
+ * staat in message_template_variables.
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** Waarde per locale, bv. { nl: '...', en: '...' } */
+export type LocalizedText = Record<string, string>
+
+export interface TemplateVariable {
+    key: string
+    value_type: 'text' | 'email' | 'date' | 'time' | 'url'
+    description: string
+    sample_value: string
+}
+
+export interface MessageTemplate {
+    id: string
+    name: string
+    description: string | null
+    subject: LocalizedText
+    html_body: LocalizedText
+    text_body: LocalizedText | null
+    default_locale: string
+    template_type: 'system' | 'custom'
+    is_active: boolean
+    updated_at: string
+}
+
+export interface MessageTemplateInput {
+    id?: string
+    name: string
+    description: string | null
+    subject: LocalizedText
+    html_body: LocalizedText
+    text_body: LocalizedText | null
+    default_locale: string
+    is_active: boolean
+}
+
+export interface TemplateValidation {
+    valid: boolean
+    variables: string[]
+    unknown_variables: string[]
+    errors: { field: string; locale: string | null; error: string }[]
+}
+
+export interface TemplatePreview {
+    locale: string
+    rendered: {
+        subject?: string | null
+        html_body?: string | null
+        text_body?: string | null
+    }
+    sample_participant: { id: string; name: string } | null
+    variables: Record<string, string>
+    validation: TemplateValidation
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * Catalogus van toegestane variabelen
+ */
+export async function listTemplateVariables(): Promise<{
+    data: TemplateVariable[]
+    error: Error | null
+}> {
+    const { data, error } = await supabase
+        .from('message_template_variables')
+        .select('key, value_type, description, sample_value')
+        .order('sort_order')
+
+    if (error) {
+        console.error('[message_templates] listTemplateVariables error:', error)
+        return { data: [], error: new Error(error.message) }
+    }
+
+    return { data: (data ?? []) as TemplateVariable[], error: null }
+}
+
+/**
+ * Templates van een organisatie (RLS: org members)
+ */
+export async function listMessageTemplates(orgId: string): Promise<{
+    data: MessageTemplate[]
+    error: Error | null
+}> {
+    console.log('[message_templates] listMessageTemplates:', { orgId })
+
+    const { data, error } = await supabase
+        .from('message_templates')
+        .select('id, name, description, subject, html_body, text_body, default_locale, template_type, is_active, updated_at')
+        .eq('org_id', orgId)
+        .order('name')
+
+    if (error) {
+        console.error('[message_templates] listMessageTemplates error:', error)
+        return { data: [], error: new Error(error.message) }
+    }
+
+    return { data: (data ?? []) as MessageTemplate[], error: null }
+}
+
+// ============================================================
+// MUTATIONS
+// ============================================================
+
+/**
+ * Template aanmaken of bijwerken (admin/owner)
+ * Gebruikt RPC: upsert_message_template
+ */
+export async function upsertMessageTemplate(orgId: string, input: MessageTemplateInput): Promise<{
+    data: { template_id: string } | null
+    error: Error | null
+    /** Alleen bij INVALID_TEMPLATE */
+    validation?: TemplateValidation
+}> {
+    console.log('[message_templates] upsertMessageTemplate:', { orgId, id: input.id, name: input.name })
+
+    const { data, error } = await supabase.rpc('upsert_message_template', {
+        _org_id: orgId,
+        _name: input.name,
+        _subject: input.subject,
+        _html_body: input.html_body,
+        _text_body: input.text_body,
+        _description: input.description,
+        _default_locale: input.default_locale,
+        _is_active: input.is_active,
+        _id: input.id ?? null
+    })
+
+    if (error) {
+        console.error('[message_templates] upsertMessageTemplate error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error), validation: data.validation }
+    }
+
+    return { data: { template_id: data.template_id }, error: null }
+}
+
+/**
+ * Preview van (niet opgeslagen) content met een voorbeeld deelnemer
+ * Gebruikt RPC: preview_message_template
+ */
+export async function previewMessageTemplate(
+    eventId: string,
+    content: {
+        subject: LocalizedText
+        html_body: LocalizedText
+        text_body: LocalizedText | null
+        default_locale: string
+    },
+    locale: string,
+    participantId?: string
+): Promise<{ data: TemplatePreview | null; error: Error | null }> {
+    const { data, error } = await supabase.rpc('preview_message_template', {
+        _event_id: eventId,
+        _content: content,
+        _locale: locale,
+        _participant_id: participantId ?? null,
+        _site_origin: window.location.origin
+    })
+
+    if (error) {
+        console.error('[message_templates] previewMessageTemplate error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as TemplatePreview, error: null }
+}
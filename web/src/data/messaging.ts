@@ -0,0 +1,331 @@
+/**
+ * Messaging Data Access Layer
+ *
+ * Gesprekken tussen een ingeschreven deelnemer en het organisatieteam
+ * van een event. Deelnemers zien alleen hun eigen threads (RLS); berichten
+ * plaatsen gaat via RPCs. Nieuwe berichten komen live binnen via Supabase
+ * realtime channels; antwoorden van de organisatie worden ook gemaild.
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ThreadStatus = 'open' | 'closed'
+export type SenderType = 'participant' | 'organizer'
+
+/** Kant van de huidige gebruiker; viewer = org member zonder antwoordrecht */
+export type ThreadViewer = SenderType | 'viewer'
+
+/** Thread in de lijst van de deelnemer (get_my_event_threads) */
+export interface MyThreadSummary {
+    id: string
+    subject: string
+    status: ThreadStatus
+    last_message_at: string
+    unread_count: number
+    last_message_preview: string | null
+}
+
+export interface MyEventThreads {
+    event: {
+        id: string
+        slug: string
+        name: string
+        start_time: string
+        org_name: string
+    }
+    can_start_thread: boolean
+    threads: MyThreadSummary[]
+}
+
+/** Thread in de inbox van de organisator (get_event_threads) */
+export interface EventThreadSummary {
+    id: string
+    subject: string
+    status: ThreadStatus
+    participant_id: string
+    participant_name: string
+    participant_email: string
+    created_at: string
+    last_message_at: string
+    message_count: number
+    unread_count: number
+    last_message_preview: string | null
+    last_sender_type: SenderType | null
+}
+
+export interface EventThreads {
+    can_reply: boolean
+    threads: EventThreadSummary[]
+}
+
+export interface ThreadMessage {
+    id: string
+    sender_type: SenderType
+    sender_name: string
+    body: string
+    created_at: string
+}
+
+export interface ThreadDetail {
+    viewer: ThreadViewer
+    thread: {
+        id: string
+        event_id: string
+        subject: string
+        status: ThreadStatus
+        created_at: string
+        last_message_at: string
+        participant_name: string
+        participant_email: string | null
+    }
+    messages: ThreadMessage[]
+}
+
+export interface UnreadMessageCount {
+    unread_messages: number
+    unread_threads: number
+}
+
+// ============================================================
+// PARTICIPANT
+// ============================================================
+
+/**
+ * Threads van de ingelogde gebruiker voor een event
+ * Gebruikt RPC: get_my_event_threads
+ * Error message is de RPC error code (bv. NOT_AUTHENTICATED, EVENT_NOT_FOUND)
+ */
+export async function getMyEventThreads(eventSlug: string): Promise<{
+    data: MyEventThreads | null
+    error: Error | null
+}> {
+    console.log('[messaging] getMyEventThreads:', { eventSlug })
+
+    const { data, error } = await supabase.rpc('get_my_event_threads', {
+        _event_slug: eventSlug
+    })
+
+    if (error) {
+        console.error('[messaging] getMyEventThreads error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as MyEventThreads, error: null }
+}
+
+/**
+ * Nieuwe thread starten (alleen met inschrijving voor het event)
+ * Gebruikt RPC: start_message_thread
+ */
+export async function startMessageThread(eventId: string, subject: string, body: string): Promise<{
+    data: { thread_id: string } | null
+    error: Error | null
+}> {
+    console.log('[messaging] startMessageThread:', { eventId, subject })
+
+    const { data, error } = await supabase.rpc('start_message_thread', {
+        _event_id: eventId,
+        _subject: subject,
+        _body: body,
+        _site_origin: window.location.origin
+    })
+
+    if (error) {
+        console.error('[messaging] startMessageThread error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: { thread_id: data.thread_id }, error: null }
+}
+
+// ============================================================
+// THREADS (beide kanten)
+// ============================================================
+
+/**
+ * Thread met berichten; markeert de thread als gelezen voor de eigen kant
+ * Gebruikt RPC: get_thread
+ */
+export async function getThread(threadId: string): Promise<{
+    data: ThreadDetail | null
+    error: Error | null
+}> {
+    console.log('[messaging] getThread:', { threadId })
+
+    const { data, error } = await supabase.rpc('get_thread', {
+        _thread_id: threadId
+    })
+
+    if (error) {
+        console.error('[messaging] getThread error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as ThreadDetail, error: null }
+}
+
+/**
+ * Bericht plaatsen als deelnemer of organisator
+ * Gebruikt RPC: post_thread_message
+ */
+export async function postThreadMessage(threadId: string, body: string): Promise<{
+    data: { message_id: string } | null
+    error: Error | null
+}> {
+    console.log('[messaging] postThreadMessage:', { threadId })
+
+    const { data, error } = await supabase.rpc('post_thread_message', {
+        _thread_id: threadId,
+        _body: body
+    })
+
+    if (error) {
+        console.error('[messaging] postThreadMessage error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: { message_id: data.message_id }, error: null }
+}
+
+// ============================================================
+// ORGANIZER
+// ============================================================
+
+/**
+ * Inbox van een event
+ * Gebruikt RPC: get_event_threads
+ */
+export async function getEventThreads(eventId: string, status?: ThreadStatus): Promise<{
+    data: EventThreads | null
+    error: Error | null
+}> {
+    console.log('[messaging] getEventThreads:', { eventId, status })
+
+    const { data, error } = await supabase.rpc('get_event_threads', {
+        _event_id: eventId,
+        _status: status ?? null
+    })
+
+    if (error) {
+        console.error('[messaging] getEventThreads error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as EventThreads, error: null }
+}
+
+/**
+ * Thread sluiten of heropenen (owner/admin/support)
+ * Gebruikt RPC: set_thread_status
+ */
+export async function setThreadStatus(threadId: string, status: ThreadStatus): Promise<{ error: Error | null }> {
+    console.log('[messaging] setThreadStatus:', { threadId, status })
+
+    const { data, error } = await supabase.rpc('set_thread_status', {
+        _thread_id: threadId,
+        _status: status
+    })
+
+    if (error) {
+        console.error('[messaging] setThreadStatus error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Ongelezen deelnemersberichten over alle events van de org
+ * Gebruikt RPC: get_org_unread_message_count
+ */
+export async function getOrgUnreadMessageCount(orgId: string): Promise<{
+    data: UnreadMessageCount | null
+    error: Error | null
+}> {
+    const { data, error } = await supabase.rpc('get_org_unread_message_count', {
+        _org_id: orgId
+    })
+
+    if (error) {
+        console.error('[messaging] getOrgUnreadMessageCount error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as UnreadMessageCount, error: null }
+}
+
+// ============================================================
+// REALTIME
+// ============================================================
+
+/**
+ * Luister naar nieuwe berichten en thread updates (status, leesmarkeringen).
+ * RLS bepaalt welke rijen binnenkomen. Met threadId alleen nieuwe berichten
+ * van die thread: getThread markeert als gelezen, dus luisteren naar thread
+ * updates zou daar een lus geven.
+ * Geeft een unsubscribe functie terug (voor useEffect cleanup).
+ */
+export function subscribeToMessages(
+    channelName: string,
+    onChange: () => void,
+    threadId?: string
+): () => void {
+    let channel = supabase
+        .channel(channelName)
+        .on(
+            'postgres_changes',
+            {
+                event: 'INSERT',
+                schema: 'public',
+                table: 'thread_messages',
+                ...(threadId ? { filter: `thread_id=eq.${threadId}` } : {})
+            },
+            () => onChange()
+        )
+
+    if (!threadId) {
+        channel = channel.on(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'message_threads' },
+            () => onChange()
+        )
+    }
+
+    channel.subscribe()
+
+    return () => {
+        supabase.removeChannel(channel)
+    }
+}
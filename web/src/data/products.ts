@@ -0,0 +1,403 @@
+/**
+ * Products Data Access Layer
+ *
+ * Database operaties voor add-on producten (merchandise, parkeren, medailles),
+ * hun varianten (maten) en de picklijst van betaalde productregels.
+ * Gebruikt de singleton Supabase client met RLS.
+ */
+
+import { supabase } from '../lib/supabase'
+import type { Product, ProductVariant } from '../types/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** Payload voor het aanmaken van een product */
+export interface CreateProductPayload {
+    name: string
+    description?: string | null
+    category?: Product['category']
+    price: number              // In de valuta (bijv. EUR), niet cents
+    stock_total?: number | null // null = onbeperkt
+    max_per_order?: number | null
+}
+
+/** Payload voor het updaten van een product */
+export interface UpdateProductPayload {
+    name?: string
+    description?: string | null
+    category?: Product['category']
+    price?: number
+    stock_total?: number | null
+    max_per_order?: number | null
+    sort_order?: number
+}
+
+/** Payload voor een variant (insert als id ontbreekt, anders update) */
+export interface VariantPayload {
+    id?: string
+    name: string
+    sku?: string | null
+    price_adjustment?: number
+    stock_total?: number | null
+    sort_order?: number
+}
+
+/** Status type */
+export type ProductStatus = Product['status']
+
+/** Picklijst: totalen per product/variant */
+export interface PickListSummaryRow {
+    product_id: string
+    product_name: string
+    product_variant_id: string | null
+    variant_name: string | null
+    total_quantity: number
+    picked_quantity: number
+    pending_quantity: number
+}
+
+/** Picklijst: regel per order */
+export interface PickListLine {
+    id: string
+    order_id: string
+    order_email: string
+    purchaser_name: string | null
+    product_id: string
+    product_name: string
+    product_variant_id: string | null
+    variant_name: string | null
+    quantity: number
+    status: 'pending' | 'picked' | 'cancelled'
+    picked_at: string | null
+    created_at: string
+}
+
+/** Publieke productinfo voor de checkout (get_product_availability) */
+export interface AvailableProduct {
+    id: string
+    name: string
+    description: string | null
+    category: Product['category']
+    image_url: string | null
+    price: number
+    vat_percentage: number
+    max_per_order: number | null
+    stock_total: number | null
+    available_count: number | null
+    is_sold_out: boolean
+    variants: {
+        id: string
+        name: string
+        price: number
+        stock_total: number | null
+        available_count: number | null
+        is_sold_out: boolean
+    }[]
+}
+
+// ============================================================
+// CRUD OPERATIONS
+// ============================================================
+
+/**
+ * Haal alle producten (met actieve varianten) op voor een event
+ * Gesorteerd op sort_order dan created_at
+ */
+export async function listProducts(eventId: string): Promise<{
+    data: Product[] | null
+    error: Error | null
+}> {
+    console.log('[products] listProducts:', { eventId })
+
+    const { data, error } = await supabase
+        .from('products')
+        .select('*, product_variants(*)')
+        .eq('event_id', eventId)
+        .is('deleted_at', null)
+        .is('product_variants.deleted_at', null)
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true })
+
+    if (error) {
+        console.error('[products] listProducts error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    // Varianten sorteren (embedded order is niet gegarandeerd)
+    const products = (data as Product[]).map(p => ({
+        ...p,
+        product_variants: [...(p.product_variants || [])].sort((a, b) => a.sort_order - b.sort_order),
+    }))
+
+    return { data: products, error: null }
+}
+
+/**
+ * Maak een nieuw product aan
+ * Nieuwe producten starten altijd als draft
+ */
+export async function createProduct(eventId: string, payload: CreateProductPayload): Promise<{
+    data: Product | null
+    error: Error | null
+}> {
+    console.log('[products] createProduct:', { eventId, payload })
+
+    // Bepaal sort_order: hoogste + 1
+    const { data: existing } = await supabase
+        .from('products')
+        .select('sort_order')
+        .eq('event_id', eventId)
+        .is('deleted_at', null)
+        .order('sort_order', { ascending: false })
+        .limit(1)
+
+    const nextSortOrder = existing && existing[0]
+        ? (existing[0].sort_order || 0) + 1
+        : 0
+
+    const { data, error } = await supabase
+        .from('products')
+        .insert({
+            event_id: eventId,
+            name: payload.name,
+            description: payload.description ?? null,
+            category: payload.category ?? 'merchandise',
+            price: payload.price,
+            stock_total: payload.stock_total ?? null,
+            max_per_order: payload.max_per_order ?? null,
+            status: 'draft',
+            sort_order: nextSortOrder,
+        })
+        .select()
+        .single()
+
+    if (error) {
+        console.error('[products] createProduct error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    return { data: data as Product, error: null }
+}
+
+/**
+ * Update een bestaand product
+ */
+export async function updateProduct(productId: string, payload: UpdateProductPayload): Promise<{
+    data: Product | null
+    error: Error | null
+}> {
+    console.log('[products] updateProduct:', { productId, payload })
+
+    const { data, error } = await supabase
+        .from('products')
+        .update(payload)
+        .eq('id', productId)
+        .is('deleted_at', null)
+        .select()
+        .single()
+
+    if (error) {
+        console.error('[products] updateProduct error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    return { data: data as Product, error: null }
+}
+
+/**
+ * Wijzig de status van een product
+ */
+export async function setProductStatus(productId: string, status: ProductStatus): Promise<{
+    data: Product | null
+    error: Error | null
+}> {
+    console.log('[products] setProductStatus:', { productId, status })
+
+    const { data, error } = await supabase
+        .from('products')
+        .update({ status })
+        .eq('id', productId)
+        .is('deleted_at', null)
+        .select()
+        .single()
+
+    if (error) {
+        console.error('[products] setProductStatus error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    return { data: data as Product, error: null }
+}
+
+/**
+ * Soft delete: zet deleted_at timestamp
+ */
+export async function softDeleteProduct(productId: string): Promise<{
+    success: boolean
+    error: Error | null
+}> {
+    console.log('[products] softDeleteProduct:', { productId })
+
+    const { error } = await supabase
+        .from('products')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', productId)
+        .is('deleted_at', null)
+
+    if (error) {
+        console.error('[products] softDeleteProduct error:', error)
+        return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+}
+
+// ============================================================
+// VARIANTS
+// ============================================================
+
+/**
+ * Insert of update een variant van een product
+ */
+export async function upsertVariant(productId: string, payload: VariantPayload): Promise<{
+    data: ProductVariant | null
+    error: Error | null
+}> {
+    console.log('[products] upsertVariant:', { productId, payload })
+
+    const values = {
+        product_id: productId,
+        name: payload.name,
+        sku: payload.sku ?? null,
+        price_adjustment: payload.price_adjustment ?? 0,
+        stock_total: payload.stock_total ?? null,
+        sort_order: payload.sort_order ?? 0,
+    }
+
+    const query = payload.id
+        ? supabase.from('product_variants').update(values).eq('id', payload.id)
+        : supabase.from('product_variants').insert(values)
+
+    const { data, error } = await query.select().single()
+
+    if (error) {
+        console.error('[products] upsertVariant error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    return { data: data as ProductVariant, error: null }
+}
+
+/**
+ * Soft delete van een variant
+ * Verkochte regels blijven gekoppeld; de variant is alleen niet meer te koop.
+ */
+export async function softDeleteVariant(variantId: string): Promise<{
+    success: boolean
+    error: Error | null
+}> {
+    console.log('[products] softDeleteVariant:', { variantId })
+
+    const { error } = await supabase
+        .from('product_variants')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', variantId)
+        .is('deleted_at', null)
+
+    if (error) {
+        console.error('[products] softDeleteVariant error:', error)
+        return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+}
+
+// ============================================================
+// PICK LIST
+// ============================================================
+
+/**
+ * Haal de picklijst op voor een event
+ * Gebruikt RPC: get_event_pick_list
+ */
+export async function getEventPickList(eventId: string): Promise<{
+    data: { summary: PickListSummaryRow[]; lines: PickListLine[] } | null
+    error: Error | null
+}> {
+    console.log('[products] getEventPickList:', { eventId })
+
+    const { data, error } = await supabase.rpc('get_event_pick_list', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[products] getEventPickList error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: { summary: data.summary, lines: data.lines }, error: null }
+}
+
+/**
+ * Markeer een picklijst-regel als gepickt (of zet terug naar pending)
+ */
+export async function setPickListItemStatus(itemId: string, status: PickListLine['status']): Promise<{
+    success: boolean
+    error: Error | null
+}> {
+    console.log('[products] setPickListItemStatus:', { itemId, status })
+
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const { error } = await supabase
+        .from('order_pick_list_items')
+        .update({
+            status,
+            picked_at: status === 'picked' ? new Date().toISOString() : null,
+            picked_by: status === 'picked' ? user?.id ?? null : null,
+        })
+        .eq('id', itemId)
+
+    if (error) {
+        console.error('[products] setPickListItemStatus error:', error)
+        return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+}
+
+// ============================================================
+// PUBLIC
+// ============================================================
+
+/**
+ * Haal gepubliceerde producten + resterende voorraad op voor de checkout
+ * Gebruikt RPC: get_product_availability
+ */
+export async function getProductAvailability(eventId: string): Promise<{
+    data: AvailableProduct[] | null
+    error: Error | null
+}> {
+    console.log('[products] getProductAvailability:', { eventId })
+
+    const { data, error } = await supabase.rpc('get_product_availability', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[products] getProductAvailability error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: (data?.products || []) as AvailableProduct[], error: null }
+}
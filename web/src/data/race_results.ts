@@ -0,0 +1,268 @@
+/**
+ * Race Results Data Access Layer
+ *
+ * Uitslagen van de chiptiming: import (CSV of IOF XML, geparsed in
+ * lib/raceResults), koppeling aan tickets via ticket-id of startnummer,
+ * klassementen per categorie (overall, geslacht, leeftijd, wave) en de
+ * gepubliceerde uitslag op de publieke eventpagina.
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ResultStatus = 'finished' | 'dnf' | 'dns' | 'dsq'
+export type ResultSourceFormat = 'csv' | 'iof_xml'
+
+/** Eén rij zoals import_race_results hem verwacht */
+export interface ResultImportRow {
+    bib?: string
+    ticket_instance_id?: string
+    first_name?: string
+    last_name?: string
+    club?: string
+    gender?: string
+    birth_date?: string
+    birth_year?: number
+    category?: string
+    status: ResultStatus
+    net_time_ms?: number | null
+    gun_time_ms?: number | null
+}
+
+export interface ResultCategoryCount {
+    name: string | null
+    results: number
+    finishers: number
+}
+
+export interface ResultImport {
+    id: string
+    source_format: ResultSourceFormat
+    file_name: string | null
+    row_count: number
+    matched_count: number
+    published_at: string | null
+    created_at: string
+    categories: ResultCategoryCount[]
+    unmatched: { row: number; bib: number | null; name: string | null; category: string | null }[]
+}
+
+export interface RaceResultsAdminData {
+    can_edit: boolean
+    imports: ResultImport[]
+}
+
+export interface ImportSummary {
+    import_id: string
+    row_count: number
+    matched_count: number
+    unmatched: { row: number; bib: string | null; name: string | null }[]
+}
+
+export interface PublicRaceResult {
+    id: string
+    bib_number: number | null
+    name: string | null
+    club: string | null
+    gender: 'M' | 'F' | 'X' | null
+    age_group: string | null
+    category: string | null
+    wave: string | null
+    status: ResultStatus
+    net_time_ms: number | null
+    gun_time_ms: number | null
+    overall_rank: number | null
+    gender_rank: number | null
+    age_group_rank: number | null
+    wave_rank: number | null
+}
+
+export interface PublicRaceResults {
+    event: { id: string; slug: string; name: string }
+    published_at: string
+    categories: ResultCategoryCount[]
+    /** Getoonde categorie; null bij zoeken */
+    category: string | null
+    search: string | null
+    total: number
+    page: number
+    pages: number
+    results: PublicRaceResult[]
+}
+
+// Foutcodes van de uitslag-RPCs → tekst
+export const RESULT_ERRORS: Record<string, string> = {
+    UNAUTHORIZED: 'Alleen admins en owners kunnen uitslagen beheren.',
+    EVENT_NOT_FOUND: 'Event niet gevonden.',
+    INVALID_FORMAT: 'Onbekend bestandsformaat.',
+    NO_ROWS: 'Het bestand bevat geen uitslagen.',
+    TOO_MANY_ROWS: 'Maximaal 20.000 regels per import.',
+    INVALID_ROW: 'Een regel in het bestand is ongeldig.',
+    DUPLICATE_TICKET: 'Een ticket komt meer dan één keer in het bestand voor.',
+    IMPORT_NOT_FOUND: 'Deze import bestaat niet (meer).',
+    IMPORT_PUBLISHED: 'Haal de uitslag eerst offline voordat je hem verwijdert.',
+}
+
+/** 3725000 → "1:02:05", 754300 → "12:34" (tienden alleen als ze er zijn) */
+export function formatResultTime(ms: number | null | undefined): string {
+    if (ms == null) return '–'
+    const totalSeconds = Math.floor(ms / 1000)
+    const hours = Math.floor(totalSeconds / 3600)
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+    const seconds = totalSeconds % 60
+    const tenths = Math.floor((ms % 1000) / 100)
+    const pad = (n: number) => String(n).padStart(2, '0')
+    const base = hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`
+    return tenths > 0 ? `${base}.${tenths}` : base
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * Imports van een event met aantallen en rijen zonder match
+ * Gebruikt RPC: get_race_results_admin
+ */
+export async function getRaceResultsAdmin(eventId: string): Promise<{
+    data: RaceResultsAdminData | null
+    error: Error | null
+}> {
+    console.log('[race_results] getRaceResultsAdmin:', { eventId })
+
+    const { data, error } = await supabase.rpc('get_race_results_admin', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[race_results] getRaceResultsAdmin error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as RaceResultsAdminData, error: null }
+}
+
+/**
+ * Gepubliceerde uitslag per categorie of via zoeken (naam, club, startnummer)
+ * Gebruikt RPC: get_public_race_results
+ */
+export async function getPublicRaceResults(
+    eventSlug: string,
+    options: { category?: string | null; search?: string; page?: number } = {}
+): Promise<{
+    data: PublicRaceResults | null
+    error: Error | null
+}> {
+    console.log('[race_results] getPublicRaceResults:', { eventSlug, ...options })
+
+    const { data, error } = await supabase.rpc('get_public_race_results', {
+        _event_slug: eventSlug,
+        _category: options.category ?? null,
+        _search: options.search || null,
+        _page: options.page ?? 1
+    })
+
+    if (error) {
+        console.error('[race_results] getPublicRaceResults error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as PublicRaceResults, error: null }
+}
+
+// ============================================================
+// MUTATIONS
+// ============================================================
+
+/**
+ * Geparste uitslag importeren, koppelen en rangschikken
+ * Gebruikt RPC: import_race_results
+ */
+export async function importRaceResults(
+    eventId: string,
+    input: { format: ResultSourceFormat; fileName: string; rows: ResultImportRow[]; publish: boolean }
+): Promise<{
+    data: ImportSummary | null
+    error: Error | null
+    /** Regelnummer bij INVALID_ROW / DUPLICATE_TICKET */
+    row?: number
+}> {
+    console.log('[race_results] importRaceResults:', { eventId, format: input.format, rows: input.rows.length })
+
+    const { data, error } = await supabase.rpc('import_race_results', {
+        _event_id: eventId,
+        _source_format: input.format,
+        _rows: input.rows,
+        _file_name: input.fileName,
+        _publish: input.publish
+    })
+
+    if (error) {
+        console.error('[race_results] importRaceResults error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error), row: data.row }
+    }
+
+    return { data: data as ImportSummary, error: null }
+}
+
+/**
+ * Import publiceren (vervangt de huidige publieke uitslag) of offline halen
+ * Gebruikt RPC: publish_race_results
+ */
+export async function publishRaceResults(importId: string, published: boolean): Promise<{ error: Error | null }> {
+    console.log('[race_results] publishRaceResults:', { importId, published })
+
+    const { data, error } = await supabase.rpc('publish_race_results', {
+        _import_id: importId,
+        _published: published
+    })
+
+    if (error) {
+        console.error('[race_results] publishRaceResults error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Niet-gepubliceerde import verwijderen
+ * Gebruikt RPC: delete_race_result_import
+ */
+export async function deleteRaceResultImport(importId: string): Promise<{ error: Error | null }> {
+    console.log('[race_results] deleteRaceResultImport:', { importId })
+
+    const { data, error } = await supabase.rpc('delete_race_result_import', {
+        _import_id: importId
+    })
+
+    if (error) {
+        console.error('[race_results] deleteRaceResultImport error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
@@ -0,0 +1,161 @@
+/**
+ * Refunds Data Access Layer
+ *
+ * Refund overzicht per order (get_order_refund_summary: bedragen, tickets
+ * en ledger) en terugbetalen per ticket of de hele order via create-refund.
+ * Tickets worden pas void als de betaalprovider de refund bevestigt (webhook →
+ * void_tickets_for_refund).
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type RefundStatus = 'pending' | 'queued' | 'processing' | 'refunded' | 'failed' | 'canceled'
+
+export interface RefundTicket {
+    id: string
+    order_item_id: string | null
+    ticket_type_id: string
+    ticket_name: string | null
+    time_slot_label: string | null
+    participant_name: string | null
+    status: 'issued' | 'void' | 'checked_in'
+    voided_at: string | null
+    refund_id: string | null
+    refund_status: RefundStatus | null
+    can_refund: boolean
+}
+
+export interface RefundLedgerItem {
+    ticket_instance_id: string | null
+    order_item_id: string
+    ticket_name: string | null
+    quantity: number
+    amount_cents: number
+}
+
+export interface RefundLedgerEntry {
+    id: string
+    amount_cents: number
+    status: RefundStatus
+    reason: string | null
+    is_full_refund: boolean
+    tickets_voided: boolean
+    created_at: string
+    refunded_at: string | null
+    mollie_refund_id: string | null
+    items: RefundLedgerItem[]
+}
+
+export interface OrderRefundSummary {
+    order_id: string
+    order_status: string
+    total_paid_cents: number
+    total_refunded_cents: number
+    pending_refunds_cents: number
+    refundable_cents: number
+    can_refund: boolean
+    refunds: RefundLedgerEntry[]
+    tickets: RefundTicket[]
+}
+
+export interface TicketRefundPreview {
+    amount_cents: number
+    remaining_refundable_cents: number
+    is_full_refund: boolean
+    items: { ticket_instance_id: string; order_item_id: string; amount_cents: number }[]
+}
+
+// ============================================================
+// ADMIN
+// ============================================================
+
+/**
+ * Refund overzicht van een order (owner/admin)
+ */
+export async function getOrderRefundSummary(orderId: string): Promise<{
+    data: OrderRefundSummary | null
+    error: Error | null
+}> {
+    console.log('[refunds] getOrderRefundSummary:', { orderId })
+
+    const { data, error } = await supabase.rpc('get_order_refund_summary', {
+        _order_id: orderId
+    })
+
+    if (error) {
+        console.error('[refunds] getOrderRefundSummary error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as OrderRefundSummary, error: null }
+}
+
+/**
+ * Bedrag voor de geselecteerde tickets, zonder refund aan te maken
+ */
+export async function previewTicketRefund(orderId: string, ticketInstanceIds: string[]): Promise<{
+    data: TicketRefundPreview | null
+    error: Error | null
+}> {
+    console.log('[refunds] previewTicketRefund:', { orderId, tickets: ticketInstanceIds.length })
+
+    const { data, error } = await supabase.rpc('preview_ticket_refund', {
+        _order_id: orderId,
+        _ticket_instance_ids: ticketInstanceIds
+    })
+
+    if (error) {
+        console.error('[refunds] previewTicketRefund error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as TicketRefundPreview, error: null }
+}
+
+/**
+ * Refund aanmaken: geselecteerde tickets of (zonder tickets) het resterende
+ * bedrag van de hele order
+ */
+export async function createRefund(input: {
+    orderId: string
+    ticketInstanceIds?: string[]
+    reason?: string
+}): Promise<{
+    data: { id: string; status: string; amount_cents: number; is_full_refund: boolean } | null
+    error: Error | null
+}> {
+    console.log('[refunds] createRefund:', {
+        orderId: input.orderId,
+        tickets: input.ticketInstanceIds?.length ?? 'all'
+    })
+
+    const { data, error } = await supabase.functions.invoke('create-refund', {
+        body: {
+            order_id: input.orderId,
+            ticket_instance_ids: input.ticketInstanceIds,
+            reason: input.reason || undefined,
+            idempotency_key: crypto.randomUUID(),
+        }
+    })
+
+    if (error) {
+        // Foutcode uit de response body (bv. TICKET_ALREADY_REFUNDED)
+        const body = await error.context?.json?.().catch(() => null)
+        console.error('[refunds] createRefund error:', body ?? error)
+        return { data: null, error: new Error(body?.error || error.message) }
+    }
+
+    return { data: data.refund, error: null }
+}
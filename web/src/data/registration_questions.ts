@@ -0,0 +1,408 @@
+/**
+ * Registration Questions Data Access Layer
+ *
+ * Registratievragen per event of tickettype: vragenbouwer (RPCs voor
+ * owners/admins), validatieregels, show-if regels op eerdere antwoorden en
+ * bestandsuploads naar de private bucket registration-uploads. De server
+ * valideert opnieuw met validate_registration_answers; de helpers hier
+ * geven dezelfde uitkomst vooraf in het formulier.
+ */
+
+import { supabase } from '../lib/supabase'
+import type { AnswerOperator } from './segments'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type QuestionType = 'text' | 'textarea' | 'number' | 'select' | 'checkbox' | 'date' | 'file'
+
+/** Regels per vraagtype; alleen de sleutels van het type worden bewaard */
+export interface QuestionValidation {
+    min?: number
+    max?: number
+    min_length?: number
+    max_length?: number
+    pattern?: string
+    min_date?: string
+    max_date?: string
+    max_size_mb?: number
+}
+
+/** Toon de vraag alleen als het antwoord op een eerdere vraag matcht */
+export interface QuestionShowIf {
+    question_id: string
+    operator: AnswerOperator
+    value?: string
+}
+
+/** Vraag zoals het formulier hem nodig heeft (checkout, teamaanmelding) */
+export interface RegistrationQuestion {
+    id: string
+    ticket_type_id?: string | null
+    question_type: QuestionType
+    label: string
+    description: string | null
+    options: string[] | null
+    is_required: boolean
+    validation: QuestionValidation
+    show_if: QuestionShowIf | null
+}
+
+export interface AdminRegistrationQuestion extends RegistrationQuestion {
+    ticket_type_id: string | null
+    is_medical: boolean
+    sort_order: number
+    answer_count: number
+}
+
+export interface RegistrationQuestionsAdminData {
+    can_edit: boolean
+    ticket_types: { id: string; name: string }[]
+    questions: AdminRegistrationQuestion[]
+}
+
+export interface RegistrationQuestionInput {
+    id?: string
+    ticket_type_id: string | null
+    question_type: QuestionType
+    label: string
+    description: string | null
+    options: string[] | null
+    is_required: boolean
+    is_medical: boolean
+    validation: QuestionValidation
+    show_if: QuestionShowIf | null
+}
+
+/** Bestandsantwoord: verwijzing naar het object in registration-uploads */
+export interface FileAnswer {
+    path: string
+    name: string
+    size: number
+    mime_type: string
+}
+
+/** { "<question_id>": <waarde> } */
+export type RegistrationAnswers = Record<string, unknown>
+
+/** Foutcodes van validate_registration_answers (reason bij INVALID_ANSWER) */
+export type AnswerErrorReason =
+    | 'REQUIRED'
+    | 'INVALID_TYPE'
+    | 'MIN_LENGTH'
+    | 'MAX_LENGTH'
+    | 'PATTERN'
+    | 'MIN'
+    | 'MAX'
+    | 'MIN_DATE'
+    | 'MAX_DATE'
+    | 'INVALID_OPTION'
+    | 'INVALID_FILE'
+    | 'FILE_TOO_LARGE'
+
+export const REGISTRATION_UPLOAD_BUCKET = 'registration-uploads'
+
+export const ALLOWED_UPLOAD_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic']
+
+// Foutcodes van validateAnswers / validate_registration_answers → tekst
+export const ANSWER_ERRORS: Record<AnswerErrorReason, string> = {
+    REQUIRED: 'Dit veld is verplicht.',
+    INVALID_TYPE: 'Ongeldige waarde.',
+    MIN_LENGTH: 'Dit antwoord is te kort.',
+    MAX_LENGTH: 'Dit antwoord is te lang.',
+    PATTERN: 'Dit antwoord heeft niet het juiste formaat.',
+    MIN: 'Deze waarde is te laag.',
+    MAX: 'Deze waarde is te hoog.',
+    MIN_DATE: 'Deze datum is te vroeg.',
+    MAX_DATE: 'Deze datum is te laat.',
+    INVALID_OPTION: 'Kies een van de opties.',
+    INVALID_FILE: 'Upload het bestand opnieuw.',
+    FILE_TOO_LARGE: 'Dit bestand is te groot.',
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function answerText(answer: unknown): string {
+    if (answer === null || answer === undefined) return ''
+    if (Array.isArray(answer)) return answer.map(String).join(', ')
+    if (typeof answer === 'object') return (answer as FileAnswer).path ?? ''
+    return String(answer)
+}
+
+/**
+ * Zelfde logica als registration_question_visible / registration_answer_matches
+ */
+export function isQuestionVisible(question: RegistrationQuestion, answers: RegistrationAnswers): boolean {
+    const rule = question.show_if
+    if (!rule) return true
+
+    const text = answerText(answers[rule.question_id])
+    const value = rule.value ?? ''
+
+    switch (rule.operator) {
+        case 'equals':
+            return text !== '' && text.toLowerCase() === value.toLowerCase()
+        case 'not_equals':
+            return !(text !== '' && text.toLowerCase() === value.toLowerCase())
+        case 'contains':
+            return text !== '' && text.toLowerCase().includes(value.toLowerCase())
+        case 'is_set':
+            return text !== ''
+        case 'is_not_set':
+            return text === ''
+    }
+}
+
+/**
+ * Antwoorden controleren zoals validate_registration_answers
+ * (zonder de bestandscontrole in storage). Geeft fouten per vraag terug.
+ */
+export function validateAnswers(
+    questions: RegistrationQuestion[],
+    answers: RegistrationAnswers
+): Record<string, AnswerErrorReason> {
+    const errors: Record<string, AnswerErrorReason> = {}
+    const visibleAnswers: RegistrationAnswers = {}
+
+    for (const question of questions) {
+        if (!isQuestionVisible(question, visibleAnswers)) continue
+
+        const answer = answers[question.id]
+        const text = answerText(answer).trim()
+        const rules = question.validation || {}
+
+        if (text === '' || answer === false) {
+            if (question.is_required) errors[question.id] = 'REQUIRED'
+            continue
+        }
+
+        let reason: AnswerErrorReason | null = null
+
+        switch (question.question_type) {
+            case 'text':
+            case 'textarea':
+                if (text.length < (rules.min_length ?? 0)) reason = 'MIN_LENGTH'
+                else if (text.length > (rules.max_length ?? 5000)) reason = 'MAX_LENGTH'
+                else if (rules.pattern && !new RegExp(rules.pattern).test(String(answer))) reason = 'PATTERN'
+                break
+            case 'number':
+                if (typeof answer !== 'number' || Number.isNaN(answer)) reason = 'INVALID_TYPE'
+                else if (rules.min !== undefined && answer < rules.min) reason = 'MIN'
+                else if (rules.max !== undefined && answer > rules.max) reason = 'MAX'
+                break
+            case 'date':
+                // ISO-datums (YYYY-MM-DD) zijn als tekst te vergelijken
+                if (rules.min_date && text < rules.min_date) reason = 'MIN_DATE'
+                else if (rules.max_date && text > rules.max_date) reason = 'MAX_DATE'
+                break
+            case 'select':
+                if (!(question.options || []).includes(text)) reason = 'INVALID_OPTION'
+                break
+            case 'file':
+                if ((answer as FileAnswer).size > (rules.max_size_mb ?? 10) * 1024 * 1024) reason = 'FILE_TOO_LARGE'
+                break
+        }
+
+        if (reason) {
+            errors[question.id] = reason
+        } else {
+            visibleAnswers[question.id] = answer
+        }
+    }
+
+    return errors
+}
+
+/**
+ * Alleen de antwoorden op zichtbare vragen (verborgen antwoorden vervallen)
+ */
+export function visibleAnswers(questions: RegistrationQuestion[], answers: RegistrationAnswers): RegistrationAnswers {
+    const result: RegistrationAnswers = {}
+
+    for (const question of questions) {
+        if (!isQuestionVisible(question, result)) continue
+        const answer = answers[question.id]
+        if (answer !== undefined && answer !== null && answer !== '') {
+            result[question.id] = answer
+        }
+    }
+
+    return result
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * Vragen voor de checkout (alle tickettypes van het event)
+ * Filter per ticket met questionsForTicketType
+ */
+export async function getCheckoutQuestions(eventId: string): Promise<{
+    data: RegistrationQuestion[] | null
+    error: Error | null
+}> {
+    console.log('[registration_questions] getCheckoutQuestions:', { eventId })
+
+    const { data, error } = await supabase
+        .from('registration_questions')
+        .select('id, ticket_type_id, question_type, label, description, options, is_required, validation, show_if')
+        .eq('event_id', eventId)
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true })
+
+    if (error) {
+        console.error('[registration_questions] getCheckoutQuestions error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    return { data: (data || []) as RegistrationQuestion[], error: null }
+}
+
+export function questionsForTicketType(questions: RegistrationQuestion[], ticketTypeId: string): RegistrationQuestion[] {
+    return questions.filter(q => !q.ticket_type_id || q.ticket_type_id === ticketTypeId)
+}
+
+/**
+ * Alle vragen van een event met aantallen antwoorden en tickettypes
+ * Gebruikt RPC: get_registration_questions_admin
+ */
+export async function getRegistrationQuestionsAdmin(eventId: string): Promise<{
+    data: RegistrationQuestionsAdminData | null
+    error: Error | null
+}> {
+    console.log('[registration_questions] getRegistrationQuestionsAdmin:', { eventId })
+
+    const { data, error } = await supabase.rpc('get_registration_questions_admin', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[registration_questions] getRegistrationQuestionsAdmin error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as RegistrationQuestionsAdminData, error: null }
+}
+
+// ============================================================
+// MUTATIONS
+// ============================================================
+
+/**
+ * Vraag aanmaken (achteraan) of bijwerken
+ * Gebruikt RPC: upsert_registration_question
+ */
+export async function upsertRegistrationQuestion(eventId: string, input: RegistrationQuestionInput): Promise<{
+    data: { question_id: string } | null
+    error: Error | null
+}> {
+    console.log('[registration_questions] upsertRegistrationQuestion:', { eventId, id: input.id, type: input.question_type })
+
+    const { data, error } = await supabase.rpc('upsert_registration_question', {
+        _event_id: eventId,
+        _question_type: input.question_type,
+        _label: input.label,
+        _description: input.description,
+        _options: input.options,
+        _ticket_type_id: input.ticket_type_id,
+        _is_required: input.is_required,
+        _is_medical: input.is_medical,
+        _validation: input.validation,
+        _show_if: input.show_if,
+        _id: input.id ?? null
+    })
+
+    if (error) {
+        console.error('[registration_questions] upsertRegistrationQuestion error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: { question_id: data.question_id }, error: null }
+}
+
+/**
+ * Vraag verwijderen (alleen zonder antwoorden en zonder afhankelijke vragen)
+ * Gebruikt RPC: delete_registration_question
+ */
+export async function deleteRegistrationQuestion(questionId: string): Promise<{ error: Error | null }> {
+    console.log('[registration_questions] deleteRegistrationQuestion:', { questionId })
+
+    const { data, error } = await supabase.rpc('delete_registration_question', {
+        _question_id: questionId
+    })
+
+    if (error) {
+        console.error('[registration_questions] deleteRegistrationQuestion error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Volgorde opslaan: arraypositie = sort_order
+ * Gebruikt RPC: reorder_registration_questions
+ */
+export async function reorderRegistrationQuestions(eventId: string, questionIds: string[]): Promise<{ error: Error | null }> {
+    console.log('[registration_questions] reorderRegistrationQuestions:', { eventId })
+
+    const { data, error } = await supabase.rpc('reorder_registration_questions', {
+        _event_id: eventId,
+        _question_ids: questionIds
+    })
+
+    if (error) {
+        console.error('[registration_questions] reorderRegistrationQuestions error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Bestand uploaden naar registration-uploads/<event_id>/<random>/<naam>
+ * Het resultaat is het antwoord voor een file-vraag.
+ */
+export async function uploadRegistrationFile(eventId: string, file: File): Promise<{
+    data: FileAnswer | null
+    error: Error | null
+}> {
+    console.log('[registration_questions] uploadRegistrationFile:', { eventId, name: file.name, size: file.size })
+
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_')
+    const path = `${eventId}/${crypto.randomUUID()}/${safeName}`
+
+    const { error } = await supabase.storage
+        .from(REGISTRATION_UPLOAD_BUCKET)
+        .upload(path, file, { contentType: file.type, upsert: false })
+
+    if (error) {
+        console.error('[registration_questions] uploadRegistrationFile error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    return {
+        data: { path, name: file.name, size: file.size, mime_type: file.type },
+        error: null
+    }
+}
@@ -0,0 +1,314 @@
+/**
+ * Ticket Resale Data Access Layer
+ *
+ * Doorverkoop via de organisator (transfers settings: resale_enabled,
+ * resale_max_price_pct, resale_fee_pct). De verkoper biedt een ticket aan
+ * vanaf de bevestigingspagina van zijn bestelling (public token); kopers
+ * zien de aanbiedingen op de event pagina en rekenen ingelogd af via
+ * create-order-public. Na betaling gaat het ticket naar de koper en krijgt
+ * de verkoper de prijs min de servicekosten teruggestort.
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ResaleListingStatus = 'active' | 'reserved' | 'sold' | 'cancelled'
+
+/** Beschikbare aanbieding (get_public_resale_listings) */
+export interface PublicResaleListing {
+    id: string
+    ticket_type_id: string
+    ticket_name: string
+    slot_label: string | null
+    price_cents: number
+    face_value_cents: number
+    listed_at: string
+}
+
+/** Ticket van een bestelling met doorverkoop gegevens (get_order_resale) */
+export interface OrderResaleTicket {
+    ticket_instance_id: string
+    ticket_name: string
+    slot_label: string | null
+    face_value_cents: number | null
+    max_price_cents: number | null
+    seller_paid_cents: number | null
+    /** Foutcode waarom het ticket niet aangeboden kan worden, bv. EVENT_STARTED */
+    unavailable_reason: string | null
+    listing: {
+        id: string
+        status: 'active' | 'reserved'
+        price_cents: number
+        fee_cents: number
+        payout_cents: number
+        created_at: string
+    } | null
+}
+
+export interface OrderResaleSale {
+    listing_id: string
+    ticket_name: string
+    price_cents: number
+    fee_cents: number
+    payout_cents: number
+    sold_at: string
+    /** Status van de uitbetaling (refunds.status), null = nog niet gestart */
+    payout_status: string | null
+}
+
+export interface OrderResale {
+    resale_enabled: boolean
+    max_price_pct: number
+    fee_pct: number
+    tickets: OrderResaleTicket[]
+    sold: OrderResaleSale[]
+}
+
+/** Aanbieding in het organisator overzicht */
+export interface ResaleListing {
+    id: string
+    status: ResaleListingStatus
+    seller_email: string
+    price_cents: number
+    face_value_cents: number
+    fee_cents: number
+    payout_cents: number
+    reserved_until: string | null
+    sold_at: string | null
+    cancelled_at: string | null
+    created_at: string
+    ticket_instances: {
+        qr_code: string
+        ticket_types: { name: string } | null
+    } | null
+    buyer_order: { email: string } | null
+    payout_refund: { status: string; amount_cents: number } | null
+    /** Gezet als create-refund de uitbetaling weigerde; de wachtrij slaat hem dan over */
+    payout_failed_at: string | null
+    payout_error: string | null
+}
+
+// Foutcodes van create-refund bij een geweigerde uitbetaling → tekst
+export const PAYOUT_ERRORS: Record<string, string> = {
+    ALREADY_REFUNDED: 'De betaling van de verkoper is al volledig terugbetaald.',
+    ORDER_NOT_PAID: 'De order van de verkoper is niet (meer) betaald.',
+    ORDER_NOT_FOUND: 'De order van de verkoper bestaat niet meer.',
+    NO_PAYMENT: 'Geen betaling bij de betaalprovider gevonden om op terug te storten.',
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * Beschikbare aanbiedingen van een gepubliceerd event
+ * Gebruikt RPC: get_public_resale_listings
+ */
+export async function getPublicResaleListings(eventId: string): Promise<{
+    data: PublicResaleListing[] | null
+    error: Error | null
+}> {
+    console.log('[resale] getPublicResaleListings:', { eventId })
+
+    const { data, error } = await supabase.rpc('get_public_resale_listings', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[resale] getPublicResaleListings error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: (data.listings || []) as PublicResaleListing[], error: null }
+}
+
+/**
+ * Doorverkoop gegevens van een bestelling (bevestigingspagina)
+ * Gebruikt RPC: get_order_resale
+ */
+export async function getOrderResale(publicToken: string): Promise<{
+    data: OrderResale | null
+    error: Error | null
+}> {
+    console.log('[resale] getOrderResale:', { token: publicToken.slice(0, 8) + '...' })
+
+    const { data, error } = await supabase.rpc('get_order_resale', {
+        _public_token: publicToken
+    })
+
+    if (error) {
+        console.error('[resale] getOrderResale error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as OrderResale, error: null }
+}
+
+/**
+ * Alle aanbiedingen van een event (organisator)
+ * RLS: org members
+ */
+export async function listResaleListings(eventId: string): Promise<{
+    data: ResaleListing[] | null
+    error: Error | null
+}> {
+    console.log('[resale] listResaleListings:', { eventId })
+
+    const { data, error } = await supabase
+        .from('ticket_resale_listings')
+        .select(`
+            id, status, seller_email, price_cents, face_value_cents, fee_cents, payout_cents,
+            reserved_until, sold_at, cancelled_at, created_at, payout_failed_at, payout_error,
+            ticket_instances(qr_code, ticket_types(name)),
+            buyer_order:buyer_order_id(email),
+            payout_refund:payout_refund_id(status, amount_cents)
+        `)
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: false })
+
+    if (error) {
+        console.error('[resale] listResaleListings error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    return { data: data as unknown as ResaleListing[], error: null }
+}
+
+// ============================================================
+// MUTATIONS
+// ============================================================
+
+/**
+ * Ticket aanbieden voor doorverkoop
+ * Gebruikt RPC: create_resale_listing(_public_token, _ticket_instance_id, _price_cents)
+ * Error message is de RPC error code (bv. PRICE_ABOVE_CAP, ALREADY_LISTED, EVENT_STARTED)
+ */
+export async function createResaleListing(
+    publicToken: string,
+    ticketInstanceId: string,
+    priceCents: number
+): Promise<{
+    data: { listing_id: string; fee_cents: number; payout_cents: number } | null
+    error: Error | null
+}> {
+    console.log('[resale] createResaleListing:', { ticketInstanceId, priceCents })
+
+    const { data, error } = await supabase.rpc('create_resale_listing', {
+        _public_token: publicToken,
+        _ticket_instance_id: ticketInstanceId,
+        _price_cents: priceCents
+    })
+
+    if (error) {
+        console.error('[resale] createResaleListing error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data, error: null }
+}
+
+/**
+ * Aanbieding intrekken: verkoper met public token, of org admin (zonder token)
+ * Gebruikt RPC: cancel_resale_listing(_listing_id, _public_token)
+ * Error message is de RPC error code (LISTING_SOLD, LISTING_RESERVED, FORBIDDEN)
+ */
+export async function cancelResaleListing(listingId: string, publicToken?: string): Promise<{
+    error: Error | null
+}> {
+    console.log('[resale] cancelResaleListing:', { listingId })
+
+    const { data, error } = await supabase.rpc('cancel_resale_listing', {
+        _listing_id: listingId,
+        _public_token: publicToken ?? null
+    })
+
+    if (error) {
+        console.error('[resale] cancelResaleListing error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Mislukte uitbetaling opnieuw in de wachtrij zetten (org admin)
+ * Gebruikt RPC: retry_resale_payout(_listing_id)
+ * Error message is de RPC error code (FORBIDDEN, PAYOUT_NOT_FAILED)
+ */
+export async function retryResalePayout(listingId: string): Promise<{ error: Error | null }> {
+    console.log('[resale] retryResalePayout:', { listingId })
+
+    const { data, error } = await supabase.rpc('retry_resale_payout', {
+        _listing_id: listingId
+    })
+
+    if (error) {
+        console.error('[resale] retryResalePayout error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Doorverkocht ticket kopen (ingelogd)
+ * Maakt een order via create-order-public en reserveert de aanbieding
+ * 30 minuten; checkout_url is de betaalpagina van de provider.
+ * Error message is de foutcode (LOGIN_REQUIRED, LISTING_NOT_AVAILABLE, SELF_PURCHASE)
+ */
+export async function buyResaleListing(input: {
+    eventId: string
+    listingId: string
+    email: string
+    purchaserName?: string
+}): Promise<{
+    data: { public_token: string; checkout_url: string | null } | null
+    error: Error | null
+}> {
+    console.log('[resale] buyResaleListing:', { listingId: input.listingId })
+
+    const { data, error } = await supabase.functions.invoke('create-order-public', {
+        body: {
+            event_id: input.eventId,
+            resale_listing_id: input.listingId,
+            items: [],
+            email: input.email,
+            purchaser_name: input.purchaserName || null,
+        }
+    })
+
+    if (error) {
+        // Foutcode uit de response body (bv. LISTING_NOT_AVAILABLE)
+        const body = await error.context?.json?.().catch(() => null)
+        console.error('[resale] buyResaleListing error:', body ?? error)
+        return { data: null, error: new Error(body?.code || error.message) }
+    }
+
+    return {
+        data: { public_token: data.public_token, checkout_url: data.checkout_url ?? null },
+        error: null
+    }
+}
@@ -0,0 +1,219 @@
+/**
+ * Scanning Data Access Layer
+ *
+ * Ticketscans bij de ingang (scan_ticket) en de offline modus van de
+ * scanner: vooraf gehashte tokens ophalen (get_offline_scan_snapshot) en
+ * offline scans na reconnect naast de ticket_scans log leggen
+ * (resolve_offline_scan).
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** VALID, INVALID, ALREADY_USED, CANCELLED, REFUNDED, RATE_LIMIT_EXCEEDED of ERROR (client) */
+export type ScanResultCode = string
+
+export interface ScanResult {
+    result: ScanResultCode
+    message?: string
+    ticket?: {
+        id: string
+        type_name: string
+        participant_name: string | null
+        participant_email: string | null
+        checked_in_at: string | null
+        team?: {
+            name: string
+            role: 'captain' | 'member' | null  // null = nog niet aan een teamlid gekoppeld
+            member_count: number
+            slots: number
+        } | null
+        time_slot?: ScanTimeSlot | null
+        bib_number?: number | null
+    }
+}
+
+export interface ScanTimeSlot {
+    id: string
+    label: string | null
+    slot_time: string
+    slot_date: string | null
+}
+
+export interface ScanStats {
+    total_scans: number
+    valid_scans: number
+    invalid_scans: number
+    checked_in_tickets: number
+    check_in_percentage: number
+}
+
+/** Ticket in de offline lijst (alleen hash + status, geen PII) */
+export interface OfflineTicket {
+    token_hash: string
+    ticket_id: string
+    status: string
+    type_name: string
+    checked_in_at: string | null
+    time_slot: ScanTimeSlot | null
+    /** Ontbreekt in snapshots van vóór de startnummers */
+    bib_number?: number | null
+}
+
+export interface OfflineScanSnapshot {
+    event_id: string
+    generated_at: string
+    tickets: OfflineTicket[]
+}
+
+export type OfflineResolution = 'SYNCED' | 'OFFLINE_FIRST' | 'DUPLICATE_ENTRY' | 'CONSISTENT'
+
+/** Resultaat van resolve_offline_scan */
+export interface OfflineScanResolution {
+    ticket_id: string
+    resolution: OfflineResolution
+    recorded_scan: {
+        scanned_at: string
+        device_id: string | null
+        checked_in_at: string  // werkelijk check-in moment (incl. eerder gesynchroniseerde offline scans)
+    }
+}
+
+// ============================================================
+// SCANNING
+// ============================================================
+
+/**
+ * Scan een ticket token
+ * Gebruikt RPC: scan_ticket
+ * Een RPC error (UNAUTHORIZED, SCANNING_DISABLED) komt terug als result ERROR;
+ * error is alleen gezet als het request zelf mislukt (bv. geen netwerk).
+ */
+export async function scanTicket(eventId: string, token: string, deviceId: string): Promise<{
+    data: ScanResult | null
+    error: Error | null
+}> {
+    console.log('[scanning] scanTicket:', { eventId, deviceId })
+
+    const { data, error } = await supabase.rpc('scan_ticket', {
+        _event_id: eventId,
+        _token: token,
+        _device_id: deviceId,
+        _ip_address: null,  // Server-side extraction would be better
+        _user_agent: navigator.userAgent
+    })
+
+    if (error) {
+        console.error('[scanning] scanTicket error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return {
+            data: { result: 'ERROR', message: data.error + (data.message ? ': ' + data.message : '') },
+            error: null
+        }
+    }
+
+    if (!data?.result) {
+        console.error('[scanning] scanTicket unexpected response:', data)
+        return { data: { result: 'ERROR', message: 'Unexpected response from server' }, error: null }
+    }
+
+    return { data: data as ScanResult, error: null }
+}
+
+/**
+ * Scanstatistieken van het afgelopen uur
+ * Gebruikt RPC: get_scan_stats
+ */
+export async function getScanStats(eventId: string): Promise<{
+    data: ScanStats | null
+    error: Error | null
+}> {
+    const { data, error } = await supabase.rpc('get_scan_stats', {
+        _event_id: eventId,
+        _time_window_minutes: 60
+    })
+
+    if (error) {
+        console.error('[scanning] getScanStats error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as ScanStats, error: null }
+}
+
+// ============================================================
+// OFFLINE
+// ============================================================
+
+/**
+ * Haal de gehashte tokens van een event op voor offline validatie
+ * Gebruikt RPC: get_offline_scan_snapshot
+ */
+export async function getOfflineScanSnapshot(eventId: string): Promise<{
+    data: OfflineScanSnapshot | null
+    error: Error | null
+}> {
+    console.log('[scanning] getOfflineScanSnapshot:', { eventId })
+
+    const { data, error } = await supabase.rpc('get_offline_scan_snapshot', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[scanning] getOfflineScanSnapshot error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as OfflineScanSnapshot, error: null }
+}
+
+/**
+ * Leg een opnieuw verstuurde offline scan naast de ticket_scans log
+ * Gebruikt RPC: resolve_offline_scan
+ * Error message is de RPC error code (bv. NOT_CHECKED_IN, NO_RECORDED_CHECKIN)
+ */
+export async function resolveOfflineScan(
+    eventId: string,
+    ticketId: string,
+    deviceId: string,
+    scannedAt: string,
+    localResult: 'VALID' | 'ALREADY_USED'
+): Promise<{
+    data: OfflineScanResolution | null
+    error: Error | null
+}> {
+    console.log('[scanning] resolveOfflineScan:', { eventId, ticketId, localResult })
+
+    const { data, error } = await supabase.rpc('resolve_offline_scan', {
+        _event_id: eventId,
+        _ticket_id: ticketId,
+        _device_id: deviceId,
+        _scanned_at: scannedAt,
+        _local_result: localResult
+    })
+
+    if (error) {
+        console.error('[scanning] resolveOfflineScan error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as OfflineScanResolution, error: null }
+}
@@ -0,0 +1,274 @@
+/**
+ * Participant Segments Data Access Layer
+ *
+ * Opgeslagen segmenten van een event: een combinatie van voorwaarden (alle /
+ * een van) die bij elk gebruik opnieuw geevalueerd wordt. Segmenten worden
+ * gebruikt als ontvangers van campagnes (recipient_filter type 'segment') en
+ * als filter op de deelnemerslijst en de CSV export (segment_id).
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type AnswerOperator = 'equals' | 'not_equals' | 'contains' | 'is_set' | 'is_not_set'
+
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'cancelled' | 'refunded'
+
+export type RegistrationStatus =
+    | 'draft'
+    | 'pending'
+    | 'pending_payment'
+    | 'confirmed'
+    | 'waitlist'
+    | 'cancelled'
+    | 'transferred'
+
+export type SegmentCondition =
+    | { type: 'ticket_type'; ticket_type_ids: string[] }
+    | { type: 'time_slot'; time_slot_ids: string[] }
+    | { type: 'registration_answer'; question_id: string; operator: AnswerOperator; value?: string }
+    | { type: 'order_status'; statuses: OrderStatus[] }
+    | { type: 'registration_status'; statuses: RegistrationStatus[] }
+    | { type: 'check_in'; checked_in: boolean }
+    /** Leeg = elke korting */
+    | { type: 'discount_code'; discount_ids: string[] }
+    | { type: 'transfer_received'; received: boolean }
+    | { type: 'purchased_within_days'; days: number }
+
+export type SegmentConditionType = SegmentCondition['type']
+
+export interface SegmentDefinition {
+    match: 'all' | 'any'
+    conditions: SegmentCondition[]
+}
+
+export interface ParticipantSegment {
+    id: string
+    name: string
+    description: string | null
+    definition: SegmentDefinition
+    /** Actueel aantal deelnemers (bij ophalen berekend) */
+    participant_count: number
+    created_at: string
+    updated_at: string
+}
+
+export interface SegmentInput {
+    id?: string
+    name: string
+    description?: string | null
+    definition: SegmentDefinition
+}
+
+export interface SegmentValidationError {
+    /** Index van de voorwaarde, null = de definitie zelf */
+    index: number | null
+    error: string
+}
+
+export interface SegmentPreview {
+    participant_count: number
+    registration_count: number
+    sample: { participant_id: string; email: string; first_name: string | null; last_name: string | null }[]
+}
+
+/** Keuzes voor de voorwaarden in de builder */
+export interface SegmentOptions {
+    ticket_types: { id: string; name: string }[]
+    time_slots: { id: string; ticket_type_id: string; slot_time: string; label: string | null }[]
+    questions: { id: string; label: string; question_type: string; options: unknown }[]
+    discounts: { id: string; name: string }[]
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * Opgeslagen segmenten van een event met actueel aantal deelnemers
+ * Gebruikt RPC: get_event_segments
+ */
+export async function listEventSegments(eventId: string): Promise<{
+    data: ParticipantSegment[]
+    error: Error | null
+}> {
+    const { data, error } = await supabase.rpc('get_event_segments', {
+        _event_id: eventId
+    })
+
+    if (error) {
+        console.error('[segments] listEventSegments error:', error)
+        return { data: [], error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: [], error: new Error(data.error) }
+    }
+
+    return { data: (data?.segments ?? []) as ParticipantSegment[], error: null }
+}
+
+/**
+ * Live telling van een (nog niet opgeslagen) definitie
+ * Gebruikt RPC: preview_participant_segment
+ */
+export async function previewSegment(eventId: string, definition: SegmentDefinition): Promise<{
+    data: SegmentPreview | null
+    validationErrors: SegmentValidationError[]
+    error: Error | null
+}> {
+    const { data, error } = await supabase.rpc('preview_participant_segment', {
+        _event_id: eventId,
+        _definition: definition
+    })
+
+    if (error) {
+        console.error('[segments] previewSegment error:', error)
+        return { data: null, validationErrors: [], error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return {
+            data: null,
+            validationErrors: data.validation?.errors ?? [],
+            error: new Error(data.error)
+        }
+    }
+
+    return {
+        data: {
+            participant_count: data.participant_count,
+            registration_count: data.registration_count,
+            sample: data.sample ?? []
+        },
+        validationErrors: [],
+        error: null
+    }
+}
+
+/**
+ * Tickettypes, tijdsloten, registratievragen en kortingen van het event
+ */
+export async function getSegmentOptions(eventId: string): Promise<{
+    data: SegmentOptions
+    error: Error | null
+}> {
+    const empty: SegmentOptions = { ticket_types: [], time_slots: [], questions: [], discounts: [] }
+
+    const [ticketTypes, questions, discounts] = await Promise.all([
+        supabase
+            .from('ticket_types')
+            .select('id, name')
+            .eq('event_id', eventId)
+            .is('deleted_at', null)
+            .order('sort_order'),
+        supabase
+            .from('registration_questions')
+            .select('id, label, question_type, options')
+            .eq('event_id', eventId)
+            .order('sort_order'),
+        supabase
+            .from('discounts')
+            .select('id, name')
+            .eq('event_id', eventId)
+            .order('name')
+    ])
+
+    const failed = ticketTypes.error || questions.error || discounts.error
+    if (failed) {
+        console.error('[segments] getSegmentOptions error:', failed)
+        return { data: empty, error: new Error(failed.message) }
+    }
+
+    const ticketTypeIds = (ticketTypes.data ?? []).map(t => t.id)
+    let timeSlots: SegmentOptions['time_slots'] = []
+
+    if (ticketTypeIds.length > 0) {
+        const { data, error } = await supabase
+            .from('ticket_time_slots')
+            .select('id, ticket_type_id, slot_time, label')
+            .in('ticket_type_id', ticketTypeIds)
+            .is('deleted_at', null)
+            .order('slot_time')
+
+        if (error) {
+            console.error('[segments] getSegmentOptions error:', error)
+            return { data: empty, error: new Error(error.message) }
+        }
+
+        timeSlots = data ?? []
+    }
+
+    return {
+        data: {
+            ticket_types: ticketTypes.data ?? [],
+            time_slots: timeSlots,
+            questions: questions.data ?? [],
+            discounts: discounts.data ?? []
+        },
+        error: null
+    }
+}
+
+// ============================================================
+// MUTATIONS
+// ============================================================
+
+/**
+ * Segment aanmaken of bijwerken (admin/owner)
+ * Gebruikt RPC: upsert_participant_segment
+ */
+export async function upsertSegment(eventId: string, input: SegmentInput): Promise<{
+    data: { id: string } | null
+    validationErrors: SegmentValidationError[]
+    error: Error | null
+}> {
+    console.log('[segments] upsertSegment:', { eventId, id: input.id })
+
+    const { data, error } = await supabase.rpc('upsert_participant_segment', {
+        _event_id: eventId,
+        _name: input.name,
+        _definition: input.definition,
+        _description: input.description ?? null,
+        _segment_id: input.id ?? null
+    })
+
+    if (error) {
+        console.error('[segments] upsertSegment error:', error)
+        return { data: null, validationErrors: [], error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return {
+            data: null,
+            validationErrors: data.validation?.errors ?? [],
+            error: new Error(data.error)
+        }
+    }
+
+    return { data: { id: data.segment_id }, validationErrors: [], error: null }
+}
+
+/**
+ * Segment verwijderen (niet zolang een lopende campagne het gebruikt)
+ * Gebruikt RPC: delete_participant_segment
+ */
+export async function deleteSegment(segmentId: string): Promise<{ error: Error | null }> {
+    console.log('[segments] deleteSegment:', { segmentId })
+
+    const { data, error } = await supabase.rpc('delete_participant_segment', { _segment_id: segmentId })
+
+    if (error) {
+        console.error('[segments] deleteSegment error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
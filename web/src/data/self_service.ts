@@ -0,0 +1,226 @@
+/**
+ * Participant Self-Service Data Access Layer
+ *
+ * Deelnemers passen zelf hun gegevens en registratieantwoorden aan tot de
+ * deadline uit het participants domein (self_service_enabled,
+ * self_service_cutoff_hours, self_service_fields, self_service_answers).
+ * Toegang via het public token van de bestelling of ingelogd. Elke wijziging
+ * staat in audit_log (PARTICIPANT_SELF_EDIT); organisatoren zien ze per
+ * tickettype in TicketDetailModal.
+ */
+
+import { supabase } from '../lib/supabase'
+import type { RegistrationAnswers, RegistrationQuestion } from './registration_questions'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** Velden van participants die in self_service_fields mogen staan */
+export type SelfServiceField =
+    | 'first_name'
+    | 'last_name'
+    | 'phone'
+    | 'birth_date'
+    | 'gender'
+    | 'address'
+    | 'city'
+    | 'country'
+
+export const SELF_SERVICE_FIELDS: { key: SelfServiceField; label: string }[] = [
+    { key: 'first_name', label: 'Voornaam' },
+    { key: 'last_name', label: 'Achternaam' },
+    { key: 'phone', label: 'Telefoonnummer' },
+    { key: 'birth_date', label: 'Geboortedatum' },
+    { key: 'gender', label: 'Geslacht' },
+    { key: 'address', label: 'Adres' },
+    { key: 'city', label: 'Woonplaats' },
+    { key: 'country', label: 'Land' },
+]
+
+export const GENDER_OPTIONS: { value: string; label: string }[] = [
+    { value: 'M', label: 'Man' },
+    { value: 'F', label: 'Vrouw' },
+    { value: 'X', label: 'X' },
+    { value: 'O', label: 'Anders' },
+]
+
+/** Effectieve instellingen van het event (self_service_state) */
+export interface SelfServiceState {
+    enabled: boolean
+    cutoff_at: string | null
+    fields: SelfServiceField[]
+    answers: boolean
+    /** Gezet als wijzigen niet (meer) mag */
+    locked_reason: 'SELF_SERVICE_DISABLED' | 'CUTOFF_PASSED' | null
+}
+
+export type SelfServiceProfile = Record<SelfServiceField, string | null> & { email: string }
+
+/** Antwoorden van één ticket; zonder ticket_instance_id bij registraties zonder tickets */
+export interface SelfServiceAnswerSet {
+    ticket_instance_id: string | null
+    ticket_type_id: string | null
+    answers: RegistrationAnswers
+}
+
+export interface SelfServiceRegistration {
+    id: string
+    ticket_type_id: string | null
+    ticket_name: string | null
+    status: string
+    participant: SelfServiceProfile
+    answer_sets: SelfServiceAnswerSet[]
+}
+
+export interface SelfServiceData {
+    event: {
+        id: string
+        name: string
+        slug: string
+        start_time: string | null
+        org_name: string
+    }
+    self_service: SelfServiceState
+    registrations: SelfServiceRegistration[]
+    questions: (RegistrationQuestion & { is_medical: boolean })[]
+}
+
+export interface SelfServiceUpdate {
+    profile?: Partial<Record<SelfServiceField, string | null>>
+    answers?: RegistrationAnswers
+    ticketInstanceId?: string | null
+    publicToken?: string | null
+}
+
+/** Eén gewijzigd veld; answer = registratievraag (field is dan de question_id) */
+export interface SelfServiceChangeField {
+    kind: 'profile' | 'answer'
+    field: string
+    label: string | null
+    before: unknown
+    after: unknown
+    /** Medisch antwoord, waarden alleen zichtbaar voor admin/owner */
+    hidden: boolean
+}
+
+export interface SelfServiceChange {
+    id: string
+    registration_id: string
+    ticket_instance_id: string | null
+    participant_name: string
+    participant_email: string | null
+    via: 'token' | 'login'
+    created_at: string
+    fields: SelfServiceChangeField[]
+}
+
+// Foutcodes van get_self_service_registrations / update_self_service_registration → tekst
+export const SELF_SERVICE_ERRORS: Record<string, string> = {
+    NOT_AUTHENTICATED: 'Log in of gebruik de link uit je bevestigingsmail.',
+    EVENT_NOT_FOUND: 'Dit evenement bestaat niet (meer).',
+    NOT_REGISTERED: 'We vonden geen inschrijving bij deze link of dit account.',
+    REGISTRATION_NOT_FOUND: 'Deze inschrijving is niet (meer) beschikbaar.',
+    TICKET_NOT_FOUND: 'Dit ticket hoort niet bij je inschrijving.',
+    SELF_SERVICE_DISABLED: 'De organisatie staat het zelf aanpassen van gegevens niet toe.',
+    CUTOFF_PASSED: 'Aanpassen kan niet meer; neem contact op met de organisatie.',
+    FIELD_NOT_EDITABLE: 'Dit veld kun je niet zelf aanpassen.',
+    INVALID_FIELD: 'Controleer je gegevens.',
+    MISSING_REQUIRED_ANSWER: 'Vul alle verplichte vragen in.',
+    INVALID_ANSWER: 'Controleer je antwoorden.',
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * Eigen registraties van een event met de zelfbedieningsinstellingen
+ * Gebruikt RPC: get_self_service_registrations
+ */
+export async function getSelfServiceRegistrations(eventSlug: string, publicToken?: string | null): Promise<{
+    data: SelfServiceData | null
+    error: Error | null
+}> {
+    console.log('[self_service] getSelfServiceRegistrations:', { eventSlug, viaToken: !!publicToken })
+
+    const { data, error } = await supabase.rpc('get_self_service_registrations', {
+        _event_slug: eventSlug,
+        _public_token: publicToken || null
+    })
+
+    if (error) {
+        console.error('[self_service] getSelfServiceRegistrations error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as SelfServiceData, error: null }
+}
+
+/**
+ * Wijzigingen van deelnemers voor een tickettype (nieuwste eerst)
+ * Gebruikt RPC: get_self_service_changes
+ */
+export async function getSelfServiceChanges(ticketTypeId: string): Promise<{
+    data: SelfServiceChange[] | null
+    error: Error | null
+}> {
+    console.log('[self_service] getSelfServiceChanges:', { ticketTypeId })
+
+    const { data, error } = await supabase.rpc('get_self_service_changes', {
+        _ticket_type_id: ticketTypeId
+    })
+
+    if (error) {
+        console.error('[self_service] getSelfServiceChanges error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: (data.changes || []) as SelfServiceChange[], error: null }
+}
+
+// ============================================================
+// MUTATIONS
+// ============================================================
+
+/**
+ * Gegevens en/of antwoorden van één ticket bijwerken
+ * Gebruikt RPC: update_self_service_registration
+ */
+export async function updateSelfServiceRegistration(registrationId: string, update: SelfServiceUpdate): Promise<{
+    data: { changed: boolean; fields: string[] } | null
+    error: Error | null
+}> {
+    console.log('[self_service] updateSelfServiceRegistration:', {
+        registrationId,
+        fields: Object.keys(update.profile || {}),
+        answers: update.answers ? Object.keys(update.answers).length : 0
+    })
+
+    const { data, error } = await supabase.rpc('update_self_service_registration', {
+        _registration_id: registrationId,
+        _profile: update.profile ?? null,
+        _answers: update.answers ?? null,
+        _ticket_instance_id: update.ticketInstanceId ?? null,
+        _public_token: update.publicToken || null
+    })
+
+    if (error) {
+        console.error('[self_service] updateSelfServiceRegistration error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: { changed: data.changed, fields: data.fields || [] }, error: null }
+}
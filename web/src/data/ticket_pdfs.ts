@@ -0,0 +1,55 @@
+/**
+ * Ticket PDF Data Access Layer
+ *
+ * Download van de ticket PDF (banner, QR, tijdslot, deelnemervelden volgens
+ * ticket_privacy). Gerenderd door edge functions; vóór ticket_pdf.available_from
+ * weigert de server (TICKETS_NOT_AVAILABLE).
+ *
+ * Directe fetch i.p.v. functions.invoke: die leest application/pdf als tekst.
+ */
+
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`
+
+// ============================================================
+// PUBLIC
+// ============================================================
+
+/**
+ * PDF met alle tickets van een order, via de public token (get-order-public)
+ */
+export async function downloadOrderTicketPdf(publicToken: string): Promise<{
+    data: Blob | null
+    error: Error | null
+}> {
+    console.log('[ticket_pdfs] downloadOrderTicketPdf:', { token: publicToken.slice(0, 8) + '...' })
+
+    const response = await fetch(`${FUNCTIONS_URL}/get-order-public`, {
+        method: 'POST',
+        headers: {
+            'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ public_token: publicToken, format: 'pdf' }),
+    })
+
+    if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        console.error('[ticket_pdfs] downloadOrderTicketPdf error:', body)
+        return { data: null, error: new Error(body?.code || 'PDF_DOWNLOAD_FAILED') }
+    }
+
+    return { data: await response.blob(), error: null }
+}
+
+/**
+ * Start een browser download voor een PDF blob
+ */
+export function saveTicketPdf(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
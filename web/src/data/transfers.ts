@@ -0,0 +1,162 @@
+/**
+ * Ticket Transfers Data Access Layer
+ *
+ * Claim flow voor de ontvanger van een tickettransfer. De afzender start de
+ * transfer via de initiate-transfer edge function; de ontvanger krijgt een
+ * mail met een link naar /transfer/:transferId/:token. Het token is het
+ * bewijs dat je de mail hebt: bekijken en weigeren kan zonder account,
+ * accepteren vereist een (nieuw of bestaand) account.
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type TransferStatus = 'pending' | 'accepted' | 'rejected' | 'cancelled' | 'expired'
+
+/** Resultaat van get_transfer_claim */
+export interface TransferClaim {
+    id: string
+    /** 'expired' zodra expires_at voorbij is, ook als de transfer nog pending is */
+    status: TransferStatus
+    to_email: string
+    expires_at: string
+    sender_name: string | null
+    event_name: string
+    event_slug: string
+    event_start: string | null
+    location_name: string | null
+    ticket_name: string
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * Transfer gegevens voor de claim pagina
+ * Gebruikt RPC: get_transfer_claim
+ * Error message is de RPC error code (TRANSFER_NOT_FOUND, INVALID_TOKEN)
+ */
+export async function getTransferClaim(transferId: string, token: string): Promise<{
+    data: TransferClaim | null
+    error: Error | null
+}> {
+    console.log('[transfers] getTransferClaim:', { transferId })
+
+    const { data, error } = await supabase.rpc('get_transfer_claim', {
+        _transfer_id: transferId,
+        _token: token
+    })
+
+    if (error) {
+        console.error('[transfers] getTransferClaim error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data.transfer as TransferClaim, error: null }
+}
+
+// ============================================================
+// MUTATIONS
+// ============================================================
+
+/**
+ * Accepteer een transfer met het token uit de mail (ingelogd)
+ * Gebruikt RPC: accept_ticket_transfer(_transfer_id, _token)
+ * Error message is de RPC error code (bv. TRANSFER_EXPIRED, TRANSFER_NOT_PENDING, SELF_TRANSFER)
+ */
+export async function acceptTransfer(transferId: string, token: string): Promise<{
+    error: Error | null
+}> {
+    console.log('[transfers] acceptTransfer:', { transferId })
+
+    const { data, error } = await supabase.rpc('accept_ticket_transfer', {
+        _transfer_id: transferId,
+        _token: token
+    })
+
+    if (error) {
+        console.error('[transfers] acceptTransfer error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Weiger een transfer met het token uit de mail (account niet nodig)
+ * Gebruikt RPC: reject_ticket_transfer(_transfer_id, _token)
+ */
+export async function rejectTransfer(transferId: string, token: string): Promise<{
+    error: Error | null
+}> {
+    console.log('[transfers] rejectTransfer:', { transferId })
+
+    const { data, error } = await supabase.rpc('reject_ticket_transfer', {
+        _transfer_id: transferId,
+        _token: token
+    })
+
+    if (error) {
+        console.error('[transfers] rejectTransfer error:', error)
+        return { error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { error: new Error(data.error) }
+    }
+
+    return { error: null }
+}
+
+/**
+ * Account aanmaken vanuit de claim flow
+ * Het e-mailadres is dat van de transfer; na bevestigen komt de ontvanger
+ * terug op de claim pagina (emailRedirectTo). Zonder verplichte bevestiging
+ * is er direct een sessie (signedIn).
+ */
+export async function signUpForTransfer(
+    claim: TransferClaim,
+    token: string,
+    account: { firstName: string; lastName: string; password: string }
+): Promise<{
+    data: { signedIn: boolean } | null
+    error: Error | null
+}> {
+    console.log('[transfers] signUpForTransfer:', { transferId: claim.id })
+
+    const { data, error } = await supabase.auth.signUp({
+        email: claim.to_email,
+        password: account.password,
+        options: {
+            emailRedirectTo: `${window.location.origin}/transfer/${claim.id}/${token}`,
+            data: {
+                first_name: account.firstName,
+                last_name: account.lastName,
+            },
+        },
+    })
+
+    if (error) {
+        console.error('[transfers] signUpForTransfer error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    // Bestaand account: Supabase geeft een user zonder identities terug
+    if (data.user?.identities?.length === 0) {
+        return { data: null, error: new Error('ACCOUNT_EXISTS') }
+    }
+
+    return { data: { signedIn: data.session !== null }, error: null }
+}
@@ -0,0 +1,177 @@
+/**
+ * Waitlist Data Access Layer
+ *
+ * Wachtlijst voor uitverkochte tickettypes: aanmelden vanuit de publieke
+ * checkout, een aanbod ophalen via het token uit de e-mail en het overzicht
+ * voor organisatoren. Aanbiedingen zelf worden server-side gemaakt
+ * (process_waitlist) wanneer er capaciteit vrijkomt.
+ */
+
+import { supabase } from '../lib/supabase'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type WaitlistEntryStatus = 'waiting' | 'offered' | 'converted' | 'expired' | 'cancelled'
+export type WaitlistOfferStatus = 'pending' | 'accepted' | 'expired' | 'cancelled'
+
+/** Wachtlijst-inschrijving (organisator overzicht) */
+export interface WaitlistEntry {
+    id: string
+    event_id: string
+    ticket_type_id: string
+    email: string
+    name: string | null
+    quantity: number
+    status: WaitlistEntryStatus
+    created_at: string
+    ticket_types: { name: string } | null
+    waitlist_offers: {
+        id: string
+        status: WaitlistOfferStatus
+        expires_at: string
+        order_id: string | null
+        created_at: string
+    }[]
+}
+
+/** Resultaat van join_waitlist */
+export interface JoinWaitlistResult {
+    entry_id: string
+    ticket_type_id: string
+    ticket_name: string
+    position: number
+}
+
+/** Publiek aanbod voor de gereserveerde checkout (get_waitlist_offer) */
+export interface WaitlistOffer {
+    id: string
+    event_id: string
+    event_slug: string
+    ticket_type_id: string
+    ticket_name: string
+    price: number
+    currency: string
+    quantity: number
+    email: string
+    name: string | null
+    expires_at: string
+}
+
+// ============================================================
+// PUBLIC
+// ============================================================
+
+/**
+ * Meld je aan voor de wachtlijst van een uitverkocht tickettype
+ * Gebruikt RPC: join_waitlist
+ * Error message is de RPC error code (bv. ALREADY_ON_WAITLIST, NOT_SOLD_OUT)
+ */
+export async function joinWaitlist(
+    ticketTypeId: string,
+    email: string,
+    name?: string | null,
+    quantity = 1
+): Promise<{
+    data: JoinWaitlistResult | null
+    error: Error | null
+}> {
+    console.log('[waitlist] joinWaitlist:', { ticketTypeId, email, quantity })
+
+    const { data, error } = await supabase.rpc('join_waitlist', {
+        _ticket_type_id: ticketTypeId,
+        _email: email,
+        _name: name || null,
+        _quantity: quantity,
+    })
+
+    if (error) {
+        console.error('[waitlist] joinWaitlist error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data as JoinWaitlistResult, error: null }
+}
+
+/**
+ * Haal een lopend aanbod op via het token uit de aanbod-mail
+ * Gebruikt RPC: get_waitlist_offer
+ * Error message is de RPC error code (OFFER_NOT_FOUND, OFFER_EXPIRED, OFFER_ALREADY_USED, OFFER_CANCELLED)
+ */
+export async function getWaitlistOffer(token: string): Promise<{
+    data: WaitlistOffer | null
+    error: Error | null
+}> {
+    console.log('[waitlist] getWaitlistOffer')
+
+    const { data, error } = await supabase.rpc('get_waitlist_offer', {
+        _token: token
+    })
+
+    if (error) {
+        console.error('[waitlist] getWaitlistOffer error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    if (data?.error) {
+        return { data: null, error: new Error(data.error) }
+    }
+
+    return { data: data.offer as WaitlistOffer, error: null }
+}
+
+// ============================================================
+// ORGANIZER
+// ============================================================
+
+/**
+ * Haal de wachtlijst van een event op (oudste eerst = volgorde in de rij)
+ */
+export async function listWaitlistEntries(eventId: string): Promise<{
+    data: WaitlistEntry[] | null
+    error: Error | null
+}> {
+    console.log('[waitlist] listWaitlistEntries:', { eventId })
+
+    const { data, error } = await supabase
+        .from('waitlist_entries')
+        .select('id, event_id, ticket_type_id, email, name, quantity, status, created_at, ticket_types(name), waitlist_offers(id, status, expires_at, order_id, created_at)')
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: true })
+
+    if (error) {
+        console.error('[waitlist] listWaitlistEntries error:', error)
+        return { data: null, error: new Error(error.message) }
+    }
+
+    return { data: data as unknown as WaitlistEntry[], error: null }
+}
+
+/**
+ * Haal iemand van de wachtlijst af
+ * Alleen wachtende inschrijvingen; een lopend aanbod verloopt vanzelf.
+ */
+export async function cancelWaitlistEntry(entryId: string): Promise<{
+    success: boolean
+    error: Error | null
+}> {
+    console.log('[waitlist] cancelWaitlistEntry:', { entryId })
+
+    const { error } = await supabase
+        .from('waitlist_entries')
+        .update({ status: 'cancelled' })
+        .eq('id', entryId)
+        .eq('status', 'waiting')
+
+    if (error) {
+        console.error('[waitlist] cancelWaitlistEntry error:', error)
+        return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+}
@@ -0,0 +1,73 @@
+/**
+ * Finance Export Utilities
+ *
+ * Zet de boekingsregels van get_finance_export om naar CSV of XLSX voor
+ * de boekhouding. CSV gebruikt ; als scheidingsteken en . als decimaal
+ * teken, met een UTF-8 BOM zodat Excel accenten correct inleest.
+ */
+
+import writeXlsxFile from 'write-excel-file/browser'
+import type { FinanceExportRow, FinancePeriod } from '../data/finance'
+
+const LINE_TYPE_LABELS: Record<FinanceExportRow['line_type'], string> = {
+    sale: 'Verkoop',
+    refund: 'Terugbetaling',
+    resale: 'Doorverkoop',
+    resale_payout: 'Uitbetaling doorverkoop',
+}
+
+const COLUMNS: { header: string; value: (row: FinanceExportRow) => string | number }[] = [
+    { header: 'Datum', value: row => row.booked_at.slice(0, 10) },
+    { header: 'Soort', value: row => LINE_TYPE_LABELS[row.line_type] },
+    { header: 'Order ID', value: row => row.order_id },
+    { header: 'Event', value: row => row.event_name },
+    { header: 'Omschrijving', value: row => row.item_name },
+    { header: 'Aantal', value: row => row.quantity },
+    { header: 'Bruto', value: row => row.gross },
+    { header: 'Korting', value: row => row.discount },
+    { header: 'Terugbetaald', value: row => row.refund },
+    { header: 'Netto incl. btw', value: row => row.net_revenue },
+    { header: 'Btw %', value: row => row.vat_rate },
+    { header: 'Btw', value: row => row.vat },
+    { header: 'Netto excl. btw', value: row => round2(row.net_revenue - row.vat) },
+]
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100
+}
+
+function csvCell(value: string | number): string {
+    const text = String(value)
+    return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function financeExportFileName(period: FinancePeriod, extension: 'csv' | 'xlsx'): string {
+    const range = [period.from ?? 'begin', period.to ?? new Date().toISOString().split('T')[0]].join('_')
+    return `financien-${range}.${extension}`
+}
+
+export function downloadFinanceCsv(rows: FinanceExportRow[], period: FinancePeriod): void {
+    const lines = [
+        COLUMNS.map(column => csvCell(column.header)).join(';'),
+        ...rows.map(row => COLUMNS.map(column => csvCell(column.value(row))).join(';')),
+    ]
+
+    const blob = new Blob(['\uFEFF' + lines.join('\n')], { type: 'text/csv;charset=utf-8;' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = financeExportFileName(period, 'csv')
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+}
+
+export async function downloadFinanceXlsx(rows: FinanceExportRow[], period: FinancePeriod): Promise<void> {
+    const sheetData = [
+        COLUMNS.map(column => ({ value: column.header, fontWeight: 'bold' as const })),
+        ...rows.map(row => COLUMNS.map(column => ({ value: column.value(row) }))),
+    ]
+
+    await writeXlsxFile(sheetData, { sheet: 'Financien' }).toFile(financeExportFileName(period, 'xlsx'))
+}
@@ -0,0 +1,225 @@
+/**
+ * Offline Scan Utilities
+ *
+ * Offline modus van de scanner: de gehashte tokens van het event worden
+ * in localStorage bewaard, scans worden lokaal gevalideerd als het netwerk
+ * wegvalt en in een wachtrij gezet. Bij reconnect gaan ze opnieuw naar
+ * scan_ticket en wordt het resultaat via resolve_offline_scan naast de
+ * ticket_scans log gelegd.
+ */
+
+import {
+    scanTicket,
+    resolveOfflineScan,
+    type ScanResult,
+    type OfflineScanSnapshot,
+    type OfflineScanResolution,
+} from '../data/scanning'
+
+export interface QueuedScan {
+    id: string
+    token: string
+    scanned_at: string
+    local_result: string
+    ticket_id: string | null
+}
+
+export interface SyncResult {
+    synced: number
+    remaining: number
+    conflicts: OfflineScanResolution[]
+    stoppedBy: 'NETWORK' | 'RATE_LIMIT' | null
+}
+
+const DEVICE_ID_KEY = 'coloss_scanner_device_id'
+const snapshotKey = (eventId: string) => `coloss_scan_snapshot_${eventId}`
+const queueKey = (eventId: string) => `coloss_scan_queue_${eventId}`
+
+/**
+ * Vast device ID per browser, zodat ticket_scans scans per apparaat kan
+ * onderscheiden (nodig voor het oplossen van offline conflicten)
+ */
+export function getScannerDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+    if (!deviceId) {
+        deviceId = `web-${crypto.randomUUID()}`
+        localStorage.setItem(DEVICE_ID_KEY, deviceId)
+    }
+    return deviceId
+}
+
+/**
+ * SHA-256 → hex, zelfde hash als ticket_instances.token_hash
+ */
+export async function hashToken(token: string): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+    return Array.from(new Uint8Array(hashBuffer))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('')
+}
+
+/**
+ * Request mislukt zonder antwoord van de server (geen netwerk)
+ */
+export function isNetworkError(error: Error): boolean {
+    return !navigator.onLine || /failed to fetch|network|load failed/i.test(error.message)
+}
+
+// ============================================================
+// STORAGE
+// ============================================================
+
+export function loadSnapshot(eventId: string): OfflineScanSnapshot | null {
+    const raw = localStorage.getItem(snapshotKey(eventId))
+    return raw ? JSON.parse(raw) as OfflineScanSnapshot : null
+}
+
+export function saveSnapshot(eventId: string, snapshot: OfflineScanSnapshot): void {
+    localStorage.setItem(snapshotKey(eventId), JSON.stringify(snapshot))
+}
+
+export function loadQueue(eventId: string): QueuedScan[] {
+    const raw = localStorage.getItem(queueKey(eventId))
+    return raw ? JSON.parse(raw) as QueuedScan[] : []
+}
+
+function saveQueue(eventId: string, queue: QueuedScan[]): void {
+    localStorage.setItem(queueKey(eventId), JSON.stringify(queue))
+}
+
+/**
+ * Verse snapshot van de server + lokale offline check-ins die nog in de
+ * wachtrij staan (die kent de server nog niet)
+ */
+export function mergeSnapshot(eventId: string, snapshot: OfflineScanSnapshot): OfflineScanSnapshot {
+    const pending = loadQueue(eventId).filter(scan => scan.local_result === 'VALID')
+    const merged = {
+        ...snapshot,
+        tickets: snapshot.tickets.map(ticket => {
+            const scan = pending.find(s => s.ticket_id === ticket.ticket_id)
+            return scan && ticket.status === 'issued'
+                ? { ...ticket, status: 'checked_in', checked_in_at: scan.scanned_at }
+                : ticket
+        }),
+    }
+    saveSnapshot(eventId, merged)
+    return merged
+}
+
+/**
+ * Online check-in ook in de offline lijst verwerken
+ */
+export function markCheckedIn(eventId: string, ticketId: string, checkedInAt: string): void {
+    const snapshot = loadSnapshot(eventId)
+    if (!snapshot) return
+
+    saveSnapshot(eventId, {
+        ...snapshot,
+        tickets: snapshot.tickets.map(ticket =>
+            ticket.ticket_id === ticketId ? { ...ticket, status: 'checked_in', checked_in_at: checkedInAt } : ticket
+        ),
+    })
+}
+
+// ============================================================
+// OFFLINE VALIDATION
+// ============================================================
+
+/**
+ * Valideer een token tegen de offline lijst en zet de scan in de wachtrij.
+ * Zelfde resultaatcodes als scan_ticket; deelnemersgegevens zijn offline
+ * niet beschikbaar.
+ */
+export async function scanOffline(eventId: string, token: string): Promise<ScanResult> {
+    const snapshot = loadSnapshot(eventId)
+    if (!snapshot) {
+        return { result: 'ERROR', message: 'Geen netwerk en geen offline lijst gedownload' }
+    }
+
+    const tokenHash = await hashToken(token)
+    const ticket = snapshot.tickets.find(t => t.token_hash === tokenHash)
+    const scannedAt = new Date().toISOString()
+
+    const result = !ticket ? 'INVALID'
+        : ticket.status === 'issued' ? 'VALID'
+        : ticket.status === 'checked_in' ? 'ALREADY_USED'
+        : ticket.status === 'cancelled' ? 'CANCELLED'
+        : ticket.status === 'refunded' ? 'REFUNDED'
+        : 'INVALID'
+
+    saveQueue(eventId, [
+        ...loadQueue(eventId),
+        {
+            id: crypto.randomUUID(),
+            token,
+            scanned_at: scannedAt,
+            local_result: result,
+            ticket_id: ticket?.ticket_id ?? null,
+        },
+    ])
+
+    if (ticket && result === 'VALID') {
+        markCheckedIn(eventId, ticket.ticket_id, scannedAt)
+    }
+
+    return {
+        result,
+        message: 'Offline gescand, wordt gesynchroniseerd bij verbinding',
+        ticket: ticket ? {
+            id: ticket.ticket_id,
+            type_name: ticket.type_name,
+            participant_name: null,
+            participant_email: null,
+            checked_in_at: result === 'VALID' ? scannedAt : ticket.checked_in_at,
+            time_slot: ticket.time_slot,
+            bib_number: ticket.bib_number ?? null,
+        } : undefined,
+    }
+}
+
+// ============================================================
+// SYNC
+// ============================================================
+
+/**
+ * Verstuur de wachtrij opnieuw naar scan_ticket, in volgorde van scannen.
+ * Stopt bij netwerkfouten of rate limiting; de rest blijft in de wachtrij.
+ * Dubbele toegang (OFFLINE_FIRST, DUPLICATE_ENTRY) komt terug in conflicts.
+ */
+export async function syncOfflineScans(eventId: string, deviceId: string): Promise<SyncResult> {
+    const queue = loadQueue(eventId)
+    const conflicts: OfflineScanResolution[] = []
+    let synced = 0
+
+    for (const scan of queue) {
+        const { data, error } = await scanTicket(eventId, scan.token, deviceId)
+
+        if (error && isNetworkError(error)) {
+            return { synced, remaining: loadQueue(eventId).length, conflicts, stoppedBy: 'NETWORK' }
+        }
+        if (data?.result === 'RATE_LIMIT_EXCEEDED') {
+            return { synced, remaining: loadQueue(eventId).length, conflicts, stoppedBy: 'RATE_LIMIT' }
+        }
+
+        const ticketId = data?.ticket?.id
+        if (data && ticketId && (data.result === 'VALID' || data.result === 'ALREADY_USED')
+            && (scan.local_result === 'VALID' || scan.local_result === 'ALREADY_USED')) {
+            const { data: resolution, error: resolveError } = await resolveOfflineScan(
+                eventId, ticketId, deviceId, scan.scanned_at, scan.local_result
+            )
+
+            if (resolveError && isNetworkError(resolveError)) {
+                return { synced, remaining: loadQueue(eventId).length, conflicts, stoppedBy: 'NETWORK' }
+            }
+            if (resolution && (resolution.resolution === 'OFFLINE_FIRST' || resolution.resolution === 'DUPLICATE_ENTRY')) {
+                conflicts.push(resolution)
+            }
+        }
+
+        synced++
+        // Opnieuw inlezen: tijdens het synchroniseren kunnen nieuwe offline scans bijkomen
+        saveQueue(eventId, loadQueue(eventId).filter(s => s.id !== scan.id))
+    }
+
+    return { synced, remaining: loadQueue(eventId).length, conflicts, stoppedBy: null }
+}
@@ -0,0 +1,290 @@
+/**
+ * Race Results Import Utilities
+ *
+ * Leest een uitslagbestand van de tijdwaarneming in de browser in en zet
+ * het om naar rijen voor import_race_results. CSV accepteert ; of , als
+ * scheidingsteken en Nederlandse of Engelse kolomnamen; XML moet een IOF 3.0
+ * ResultList zijn (Class → PersonResult). Tijden gaan als milliseconden mee.
+ */
+
+import type { ResultImportRow, ResultSourceFormat, ResultStatus } from '../data/race_results'
+
+export interface ParsedResults {
+    format: ResultSourceFormat
+    rows: ResultImportRow[]
+    /** Regels die zijn overgeslagen, met regelnummer uit het bestand */
+    errors: { line: number; message: string }[]
+}
+
+type CsvField = 'bib' | 'ticket_instance_id' | 'first_name' | 'last_name' | 'name' | 'club' | 'gender'
+    | 'birth_date' | 'birth_year' | 'category' | 'status' | 'net_time' | 'gun_time'
+
+const CSV_HEADERS: Record<string, CsvField> = {
+    bib: 'bib',
+    bib_number: 'bib',
+    startnummer: 'bib',
+    startnr: 'bib',
+    nr: 'bib',
+    ticket_id: 'ticket_instance_id',
+    ticket_instance_id: 'ticket_instance_id',
+    first_name: 'first_name',
+    voornaam: 'first_name',
+    last_name: 'last_name',
+    achternaam: 'last_name',
+    surname: 'last_name',
+    name: 'name',
+    naam: 'name',
+    club: 'club',
+    team: 'club',
+    vereniging: 'club',
+    gender: 'gender',
+    sex: 'gender',
+    geslacht: 'gender',
+    birth_date: 'birth_date',
+    geboortedatum: 'birth_date',
+    birth_year: 'birth_year',
+    yob: 'birth_year',
+    geboortejaar: 'birth_year',
+    category: 'category',
+    categorie: 'category',
+    class: 'category',
+    klasse: 'category',
+    afstand: 'category',
+    distance: 'category',
+    status: 'status',
+    net_time: 'net_time',
+    time: 'net_time',
+    tijd: 'net_time',
+    nettotijd: 'net_time',
+    chip_time: 'net_time',
+    gun_time: 'gun_time',
+    brutotijd: 'gun_time',
+}
+
+const STATUS_ALIASES: Record<string, ResultStatus> = {
+    ok: 'finished',
+    finished: 'finished',
+    finish: 'finished',
+    dnf: 'dnf',
+    dns: 'dns',
+    dsq: 'dsq',
+    dq: 'dsq',
+}
+
+const IOF_STATUS: Record<string, ResultStatus> = {
+    OK: 'finished',
+    Finished: 'finished',
+    DidNotFinish: 'dnf',
+    MissingPunch: 'dnf',
+    OverTime: 'dnf',
+    DidNotStart: 'dns',
+    Disqualified: 'dsq',
+}
+
+/**
+ * "1:02:05.3", "42:17" of "3725.3" (seconden) → milliseconden;
+ * null bij een lege of onleesbare tijd
+ */
+export function parseResultTime(value: string): number | null {
+    const text = value.trim().replace(',', '.')
+    if (!text) return null
+    if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(text)) return null
+
+    const parts = text.split(':')
+    let seconds = 0
+    for (const part of parts) {
+        seconds = seconds * 60 + Number(part)
+    }
+    return Math.round(seconds * 1000)
+}
+
+/** "15-03-1985" of "15/3/1985" → "1985-03-15"; ISO-datums blijven ongewijzigd */
+function normalizeBirthDate(value: string): string {
+    const match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/)
+    if (!match) return value
+    return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`
+}
+
+/** Eén CSV-regel splitsen, met ondersteuning voor "…" en "" als escape */
+function splitCsvLine(line: string, delimiter: string): string[] {
+    const fields: string[] = []
+    let current = ''
+    let quoted = false
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i]
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"'
+                i++
+            } else if (char === '"') {
+                quoted = false
+            } else {
+                current += char
+            }
+        } else if (char === '"') {
+            quoted = true
+        } else if (char === delimiter) {
+            fields.push(current)
+            current = ''
+        } else {
+            current += char
+        }
+    }
+    fields.push(current)
+    return fields.map(field => field.trim())
+}
+
+/**
+ * CSV met kopregel inlezen. Minimaal een startnummer of ticket-id en een
+ * tijd of status per regel; lege regels worden overgeslagen.
+ */
+export function parseResultsCsv(text: string): ParsedResults {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+    const headerLine = lines[0] ?? ''
+    const delimiter = headerLine.split(';').length >= headerLine.split(',').length ? ';' : ','
+    const columns = splitCsvLine(headerLine, delimiter)
+        .map(header => CSV_HEADERS[header.toLowerCase().replace(/[\s.-]+/g, '_')])
+
+    const result: ParsedResults = { format: 'csv', rows: [], errors: [] }
+
+    if (!columns.includes('bib') && !columns.includes('ticket_instance_id')) {
+        result.errors.push({ line: 1, message: 'Geen kolom voor startnummer of ticket-id gevonden.' })
+        return result
+    }
+
+    for (let index = 1; index < lines.length; index++) {
+        if (!lines[index].trim()) continue
+
+        const values: Partial<Record<CsvField, string>> = {}
+        splitCsvLine(lines[index], delimiter).forEach((value, column) => {
+            const field = columns[column]
+            if (field && value) values[field] = value
+        })
+
+        if (!values.bib && !values.ticket_instance_id) {
+            result.errors.push({ line: index + 1, message: 'Geen startnummer of ticket-id.' })
+            continue
+        }
+        if (values.bib && !/^\d+$/.test(values.bib)) {
+            result.errors.push({ line: index + 1, message: `Ongeldig startnummer "${values.bib}".` })
+            continue
+        }
+
+        const netTime = values.net_time ? parseResultTime(values.net_time) : null
+        const gunTime = values.gun_time ? parseResultTime(values.gun_time) : null
+        if ((values.net_time && netTime == null) || (values.gun_time && gunTime == null)) {
+            result.errors.push({ line: index + 1, message: 'Ongeldige tijd.' })
+            continue
+        }
+
+        let status: ResultStatus | undefined = values.status
+            ? STATUS_ALIASES[values.status.toLowerCase()]
+            : (netTime ?? gunTime) != null ? 'finished' : 'dnf'
+        if (!status) {
+            result.errors.push({ line: index + 1, message: `Onbekende status "${values.status}".` })
+            continue
+        }
+        if (status === 'finished' && (netTime ?? gunTime) == null) status = 'dnf'
+
+        let firstName = values.first_name
+        let lastName = values.last_name
+        if (values.name && !firstName && !lastName) {
+            const space = values.name.indexOf(' ')
+            firstName = space > 0 ? values.name.slice(0, space) : undefined
+            lastName = space > 0 ? values.name.slice(space + 1) : values.name
+        }
+
+        result.rows.push({
+            bib: values.bib,
+            ticket_instance_id: values.ticket_instance_id,
+            first_name: firstName,
+            last_name: lastName,
+            club: values.club,
+            gender: values.gender,
+            birth_date: values.birth_date && normalizeBirthDate(values.birth_date),
+            birth_year: values.birth_year ? Number(values.birth_year) || undefined : undefined,
+            category: values.category,
+            status,
+            net_time_ms: netTime,
+            gun_time_ms: gunTime,
+        })
+    }
+
+    return result
+}
+
+/** Direct kind-element op naam (IOF-bestanden nesten Name op meerdere niveaus) */
+function child(parent: Element | null | undefined, name: string): Element | undefined {
+    if (!parent) return undefined
+    return Array.from(parent.children).find(element => element.localName === name)
+}
+
+function childText(parent: Element | null | undefined, name: string): string | undefined {
+    return child(parent, name)?.textContent?.trim() || undefined
+}
+
+/**
+ * IOF XML 3.0 ResultList inlezen; de klasse wordt de categorie, de
+ * BibNumber de koppeling met het ticket
+ */
+export function parseIofXml(text: string): ParsedResults {
+    const result: ParsedResults = { format: 'iof_xml', rows: [], errors: [] }
+    const doc = new DOMParser().parseFromString(text, 'application/xml')
+
+    if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'ResultList') {
+        result.errors.push({ line: 1, message: 'Geen geldige IOF XML ResultList.' })
+        return result
+    }
+
+    let position = 0
+    for (const classResult of Array.from(doc.documentElement.children)) {
+        if (classResult.localName !== 'ClassResult') continue
+        const category = childText(child(classResult, 'Class'), 'Name')
+
+        for (const personResult of Array.from(classResult.children)) {
+            if (personResult.localName !== 'PersonResult') continue
+            position++
+
+            const person = child(personResult, 'Person')
+            const name = child(person, 'Name')
+            const entry = child(personResult, 'Result')
+            const bib = childText(entry, 'BibNumber')
+
+            if (!bib || !/^\d+$/.test(bib)) {
+                result.errors.push({ line: position, message: 'Resultaat zonder (geldig) BibNumber.' })
+                continue
+            }
+
+            const seconds = childText(entry, 'Time')
+            const time = seconds ? parseResultTime(seconds) : null
+            const statusCode = childText(entry, 'Status') ?? (time != null ? 'OK' : 'DidNotFinish')
+            let status = IOF_STATUS[statusCode] ?? 'dnf'
+            if (status === 'finished' && time == null) status = 'dnf'
+
+            result.rows.push({
+                bib,
+                first_name: childText(name, 'Given'),
+                last_name: childText(name, 'Family'),
+                club: childText(child(personResult, 'Organisation'), 'Name'),
+                gender: person?.getAttribute('sex') ?? undefined,
+                birth_date: childText(person, 'BirthDate'),
+                category,
+                status,
+                net_time_ms: time,
+            })
+        }
+    }
+
+    if (position === 0) {
+        result.errors.push({ line: 1, message: 'Het bestand bevat geen PersonResult-regels.' })
+    }
+
+    return result
+}
+
+/** Bestand lezen en op extensie het juiste formaat kiezen */
+export async function readResultsFile(file: File): Promise<ParsedResults> {
+    const text = await file.text()
+    return file.name.toLowerCase().endsWith('.xml') ? parseIofXml(text) : parseResultsCsv(text)
+}
@@ -0,0 +1,422 @@
+/**
+ * EventBibs Page
+ *
+ * Startnummerreeksen van een event.
+ * Features:
+ * - Reeksen per event, tickettype of tijdslot (de meest specifieke geldt)
+ * - Modus: op volgorde bij betaling, alfabetisch vóór het event of handmatig
+ * - Hergebruik van nummers van terugbetaalde tickets per reeks
+ * - Batchtoewijzing (ook opnieuw vanaf het eerste nummer)
+ * - Aantallen toegewezen / zonder nummer per reeks
+ */
+
+import { useEffect, useState } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import { Loader2, Plus, Pencil, Trash2, Hash, X, ListOrdered, RotateCcw, AlertTriangle } from 'lucide-react'
+import type { AppEvent, Organization } from '../types/supabase'
+import {
+    assignBibNumbers,
+    deleteBibRange,
+    getBibOverview,
+    upsertBibRange,
+    BIB_ERRORS,
+    BIB_MODE_LABELS,
+    type BibAssignmentMode,
+    type BibOverview,
+    type BibRange,
+    type BibRangeInput,
+    type BibTimeSlot
+} from '../data/bib_numbers'
+
+interface EventDetailContext {
+    event: AppEvent
+    org: Organization
+    refreshEvent: () => void
+}
+
+function errorText(code: string | undefined): string {
+    return (code && BIB_ERRORS[code]) || 'Opslaan mislukt, probeer het opnieuw.'
+}
+
+function slotLabel(slot: BibTimeSlot): string {
+    return slot.label || [slot.slot_date, slot.slot_time.slice(0, 5)].filter(Boolean).join(' ')
+}
+
+export function EventBibs() {
+    const { event } = useOutletContext<EventDetailContext>()
+
+    const [overview, setOverview] = useState<BibOverview | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [notice, setNotice] = useState<string | null>(null)
+    const [editing, setEditing] = useState<BibRange | 'new' | null>(null)
+    const [busyRangeId, setBusyRangeId] = useState<string | null>(null)
+
+    // Versie-teller: ophogen na een eigen actie laadt opnieuw
+    const [version, setVersion] = useState(0)
+    const reload = () => setVersion(v => v + 1)
+
+    const eventId = event?.id
+
+    useEffect(() => {
+        if (!eventId) return
+        let cancelled = false
+
+        async function load() {
+            const { data, error: fetchError } = await getBibOverview(eventId!)
+            if (cancelled) return
+            if (fetchError) {
+                setError(errorText(fetchError.message))
+            } else {
+                setOverview(data)
+            }
+            setLoading(false)
+        }
+
+        load()
+
+        return () => {
+            cancelled = true
+        }
+    }, [eventId, version])
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    const ranges = overview?.ranges ?? []
+    const ticketTypes = overview?.ticket_types ?? []
+    const timeSlots = overview?.time_slots ?? []
+    const canEdit = overview?.can_edit ?? false
+
+    const scopeLabel = (range: BibRange) => {
+        if (range.time_slot_id) {
+            const slot = timeSlots.find(s => s.id === range.time_slot_id)
+            const type = ticketTypes.find(t => t.id === range.ticket_type_id)
+            return `${type?.name ?? 'Onbekend ticket'} · ${slot ? slotLabel(slot) : 'onbekend tijdslot'}`
+        }
+        if (range.ticket_type_id) {
+            return ticketTypes.find(t => t.id === range.ticket_type_id)?.name ?? 'Onbekend ticket'
+        }
+        return 'Alle tickets'
+    }
+
+    const handleDelete = async (range: BibRange) => {
+        if (!confirm(`Reeks ${range.range_start}–${range.range_end} verwijderen? Uitgedeelde nummers blijven staan.`)) return
+        setError(null)
+        setNotice(null)
+        const { error: deleteError } = await deleteBibRange(range.id)
+        if (deleteError) {
+            setError(errorText(deleteError.message))
+        }
+        reload()
+    }
+
+    const handleAssign = async (range: BibRange, reassign: boolean) => {
+        if (reassign && !confirm(
+            `Alle ${range.assigned_count} nummers van deze reeks opnieuw toewijzen? Gedrukte startnummers kloppen daarna niet meer.`
+        )) return
+
+        setBusyRangeId(range.id)
+        setError(null)
+        setNotice(null)
+        const { data, error: assignError } = await assignBibNumbers(range.id, reassign)
+        setBusyRangeId(null)
+
+        if (assignError) {
+            setError(errorText(assignError.message))
+        } else if (data) {
+            setNotice(data.unassigned > 0
+                ? `${data.assigned} nummers toegewezen; ${data.unassigned} tickets kregen geen nummer omdat de reeks vol is.`
+                : `${data.assigned} nummers toegewezen.`)
+        }
+        reload()
+    }
+
+    return (
+        <div>
+            <div className="mb-6 flex items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Startnummers</h1>
+                    <p className="text-sm text-gray-500">
+                        Nummerreeksen per event, tickettype of tijdslot. Een ticket krijgt een nummer uit de meest
+                        specifieke reeks; nummers staan op de ticket-PDF, bij het scannen en in de export.
+                    </p>
+                </div>
+                {canEdit && (
+                    <button
+                        onClick={() => setEditing('new')}
+                        className="flex-shrink-0 inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                    >
+                        <Plus className="h-4 w-4 mr-1.5" />
+                        Nieuwe reeks
+                    </button>
+                )}
+            </div>
+
+            {error && (
+                <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">{error}</div>
+            )}
+            {notice && (
+                <div className="mb-4 rounded-md bg-green-50 border border-green-200 p-3 text-sm text-green-700">{notice}</div>
+            )}
+
+            {editing && (
+                <RangeForm
+                    key={editing === 'new' ? 'new' : editing.id}
+                    eventId={event.id}
+                    range={editing === 'new' ? null : editing}
+                    ticketTypes={ticketTypes}
+                    timeSlots={timeSlots}
+                    onClose={() => setEditing(null)}
+                    onSaved={() => {
+                        setEditing(null)
+                        reload()
+                    }}
+                />
+            )}
+
+            {(overview?.outside_ranges_count ?? 0) > 0 && ranges.length > 0 && (
+                <div className="mb-4 flex items-center rounded-md bg-amber-50 border border-amber-200 p-3 text-sm text-amber-800">
+                    <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                    {overview!.outside_ranges_count} tickets vallen buiten alle reeksen en krijgen geen startnummer.
+                </div>
+            )}
+
+            {ranges.length === 0 ? (
+                <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-sm text-gray-500">
+                    <Hash className="h-10 w-10 mx-auto text-gray-300 mb-2" />
+                    Nog geen startnummerreeksen
+                </div>
+            ) : (
+                <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+                    {ranges.map(range => {
+                        const size = range.range_end - range.range_start + 1
+                        const busy = busyRangeId === range.id
+
+                        return (
+                            <li key={range.id} className="px-4 py-3 flex items-start gap-3">
+                                <div className="flex-1 min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-sm font-semibold text-gray-900 tabular-nums">
+                                            {range.range_start}–{range.range_end}
+                                        </span>
+                                        <span className="text-sm text-gray-700 truncate">{scopeLabel(range)}</span>
+                                        <span className="flex-shrink-0 text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                                            {BIB_MODE_LABELS[range.assignment_mode]}
+                                        </span>
+                                        {range.reuse_released && (
+                                            <span className="flex-shrink-0 text-xs px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700">
+                                                Hergebruik na refund
+                                            </span>
+                                        )}
+                                    </div>
+                                    <p className="mt-0.5 text-xs text-gray-500">
+                                        {range.assigned_count} van {size} toegewezen
+                                        {range.unassigned_count > 0 && ` · ${range.unassigned_count} tickets zonder nummer`}
+                                    </p>
+                                </div>
+                                {canEdit && (
+                                    <div className="flex items-center gap-1 flex-shrink-0">
+                                        {range.assignment_mode !== 'manual' && range.unassigned_count > 0 && (
+                                            <button
+                                                onClick={() => handleAssign(range, false)}
+                                                disabled={busy}
+                                                className="inline-flex items-center px-2.5 py-1.5 text-xs font-medium rounded-md text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50"
+                                            >
+                                                {busy ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <ListOrdered className="h-3.5 w-3.5 mr-1" />}
+                                                {range.assignment_mode === 'alphabetical' ? 'Alfabetisch toewijzen' : 'Toewijzen'}
+                                            </button>
+                                        )}
+                                        {range.assignment_mode === 'alphabetical' && range.assigned_count > 0 && (
+                                            <button
+                                                onClick={() => handleAssign(range, true)}
+                                                disabled={busy}
+                                                title="Opnieuw toewijzen vanaf het eerste nummer"
+                                                className="p-1.5 text-gray-400 hover:text-indigo-600 disabled:opacity-30"
+                                            >
+                                                <RotateCcw className="h-4 w-4" />
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => setEditing(range)}
+                                            className="p-1.5 text-gray-400 hover:text-indigo-600"
+                                        >
+                                            <Pencil className="h-4 w-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(range)}
+                                            className="p-1.5 text-gray-400 hover:text-red-600"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                )}
+                            </li>
+                        )
+                    })}
+                </ul>
+            )}
+
+            <p className="mt-3 text-xs text-gray-400">
+                Handmatige nummers zet je per deelnemer in Deelnemers. Zonder hergebruik blijft het nummer van een
+                terugbetaald ticket ongebruikt.
+            </p>
+        </div>
+    )
+}
+
+// ============================================================
+// RANGE FORM
+// ============================================================
+
+interface RangeFormProps {
+    eventId: string
+    range: BibRange | null
+    ticketTypes: { id: string; name: string }[]
+    timeSlots: BibTimeSlot[]
+    onClose: () => void
+    onSaved: () => void
+}
+
+function RangeForm({ eventId, range, ticketTypes, timeSlots, onClose, onSaved }: RangeFormProps) {
+    const [values, setValues] = useState<BibRangeInput>({
+        id: range?.id,
+        ticket_type_id: range?.ticket_type_id ?? null,
+        time_slot_id: range?.time_slot_id ?? null,
+        range_start: range?.range_start ?? 1,
+        range_end: range?.range_end ?? 999,
+        assignment_mode: range?.assignment_mode ?? 'sequential',
+        reuse_released: range?.reuse_released ?? false
+    })
+    const [saving, setSaving] = useState(false)
+    const [formError, setFormError] = useState<string | null>(null)
+
+    const update = (patch: Partial<BibRangeInput>) => setValues(prev => ({ ...prev, ...patch }))
+    const slots = timeSlots.filter(s => s.ticket_type_id === values.ticket_type_id)
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSaving(true)
+        setFormError(null)
+
+        const { error } = await upsertBibRange(eventId, values)
+
+        setSaving(false)
+        if (error) {
+            setFormError(errorText(error.message))
+            return
+        }
+
+        onSaved()
+    }
+
+    const inputClass = 'mt-1 block w-full rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500'
+
+    return (
+        <form onSubmit={handleSubmit} className="mb-6 bg-white rounded-lg border border-indigo-200 shadow-sm p-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">{range ? 'Reeks bewerken' : 'Nieuwe reeks'}</h2>
+                <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-700">
+                    <X className="h-5 w-5" />
+                </button>
+            </div>
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Eerste nummer</label>
+                    <input
+                        type="number"
+                        min={1}
+                        value={values.range_start}
+                        onChange={e => update({ range_start: Number(e.target.value) })}
+                        required
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Laatste nummer</label>
+                    <input
+                        type="number"
+                        min={1}
+                        value={values.range_end}
+                        onChange={e => update({ range_end: Number(e.target.value) })}
+                        required
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Tickettype</label>
+                    <select
+                        value={values.ticket_type_id ?? ''}
+                        onChange={e => update({ ticket_type_id: e.target.value || null, time_slot_id: null })}
+                        className={inputClass}
+                    >
+                        <option value="">Alle tickets</option>
+                        {ticketTypes.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Tijdslot</label>
+                    <select
+                        value={values.time_slot_id ?? ''}
+                        onChange={e => update({ time_slot_id: e.target.value || null })}
+                        disabled={slots.length === 0}
+                        className={inputClass}
+                    >
+                        <option value="">Alle tijdsloten</option>
+                        {slots.map(s => <option key={s.id} value={s.id}>{slotLabel(s)}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Toewijzing</label>
+                    <select
+                        value={values.assignment_mode}
+                        onChange={e => update({ assignment_mode: e.target.value as BibAssignmentMode })}
+                        className={inputClass}
+                    >
+                        {(Object.keys(BIB_MODE_LABELS) as BibAssignmentMode[]).map(mode => (
+                            <option key={mode} value={mode}>{BIB_MODE_LABELS[mode]}</option>
+                        ))}
+                    </select>
+                </div>
+                <label className="flex items-center gap-2 sm:mt-6 text-sm text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={values.reuse_released}
+                        onChange={e => update({ reuse_released: e.target.checked })}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Nummers van terugbetaalde tickets hergebruiken
+                </label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                    Annuleren
+                </button>
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Opslaan
+                </button>
+            </div>
+        </form>
+    )
+}
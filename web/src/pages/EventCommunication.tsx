@@ -4,6 +4,9 @@ import { useForm } from 'react-hook-form'
 import { supabase } from '../lib/supabase'
 import { clsx } from 'clsx'
 import type { AppEvent } from '../types/supabase'
+import { MessageTemplateEditor } from '../components/MessageTemplateEditor'
+import { CampaignProgressPanel } from '../components/CampaignProgressPanel'
+import { SegmentBuilder } from '../components/SegmentBuilder'
 
 type EventDetailContext = {
     event: AppEvent
@@ -361,6 +364,18 @@ export function EventCommunication() {
                     </button>
                 </div>
             </form>
+
+            <div className="mt-8">
+                <CampaignProgressPanel eventId={event.id} />
+            </div>
+
+            <div className="mt-8">
+                <SegmentBuilder eventId={event.id} />
+            </div>
+
+            <div className="mt-8">
+                <MessageTemplateEditor orgId={event.org_id} eventId={event.id} />
+            </div>
         </div>
     )
 }
@@ -14,7 +14,7 @@ import {
     ArrowLeft, Loader2, Trash2, CheckCircle, XCircle,
     LayoutDashboard, Ticket, ShoppingCart, Users, Route, Package,
     MessageSquare, Mail, HelpCircle, Settings, ChevronDown, CalendarDays, UserPlus,
-    CreditCard, Building2
+    CreditCard, Building2, ClipboardList, Hash, Trophy
 } from 'lucide-react'
 import { clsx } from 'clsx'
 import { useOrgSafe } from '../hooks/useOrg'
@@ -147,6 +147,9 @@ export function EventDetail() {
         { name: 'Bestellingen', href: 'orders', icon: ShoppingCart },
         { name: 'Deelnemers', href: 'participants', icon: Users },
         { name: 'Uitnodigingen', href: 'invitations', icon: UserPlus },
+        { name: 'Vragen', href: 'questions', icon: ClipboardList },
+        { name: 'Startnummers', href: 'bibs', icon: Hash },
+        { name: 'Uitslagen', href: 'results', icon: Trophy },
         { name: 'Route', href: 'route', icon: Route },
         { name: 'Producten', href: 'products', icon: Package },
         { name: 'Communicatie', href: 'communication', icon: MessageSquare },
@@ -411,15 +414,7 @@ export function EventOverview() {
 }
 
 // Note: EventTickets is now in its own file: src/pages/EventTickets.tsx
-
-export function EventProducts() {
-    return (
-        <div className="text-center py-12">
-            <h3 className="text-lg font-medium text-gray-900 mb-2">Producten</h3>
-            <p className="text-gray-500">Coming soon: merchandise, add-ons, extra's.</p>
-        </div>
-    )
-}
+// Note: EventProducts is now in its own file: src/pages/EventProducts.tsx
 
 export function EventSettings() {
     return (
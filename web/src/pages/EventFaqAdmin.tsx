@@ -0,0 +1,659 @@
+/**
+ * EventFaqAdmin Page
+ *
+ * Beheer van de veelgestelde vragen van een event.
+ * Features:
+ * - Categorieën aanmaken, hernoemen, vertalen, verwijderen en ordenen
+ * - Vragen aanmaken/bewerken met draft/published status
+ * - Vertalingen per taal (standaardtaal = Nederlands)
+ * - Volgorde binnen een categorie aanpassen
+ * - Vragen markeren voor de orderbevestiging
+ */
+
+import { useEffect, useState } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import {
+    Loader2, Plus, Pencil, Trash2, ChevronUp, ChevronDown, Mail, ExternalLink, HelpCircle, X, Check
+} from 'lucide-react'
+import { clsx } from 'clsx'
+import type { AppEvent, Organization } from '../types/supabase'
+import {
+    deleteEventFaq,
+    deleteFaqCategory,
+    getEventFaqAdmin,
+    reorderEventFaq,
+    upsertEventFaq,
+    upsertFaqCategory,
+    upsertFaqCategoryTranslation,
+    upsertFaqTranslation,
+    type EventFaqAdminData,
+    type FaqCategory,
+    type FaqItem,
+    type FaqItemInput,
+    type FaqTranslation
+} from '../data/faq'
+
+interface EventDetailContext {
+    event: AppEvent
+    org: Organization
+    refreshEvent: () => void
+}
+
+// Talen naast de standaardtaal (Nederlands)
+const TRANSLATION_LOCALES = ['en', 'fr', 'de']
+
+// Foutcodes van de FAQ RPCs → tekst
+const FAQ_ERRORS: Record<string, string> = {
+    UNAUTHORIZED: 'Alleen owners en admins kunnen de FAQ beheren.',
+    INVALID_QUESTION: 'Vul een vraag in (max. 300 tekens).',
+    INVALID_ANSWER: 'Vul een antwoord in (max. 5000 tekens).',
+    INVALID_NAME: 'Vul een categorienaam in (max. 100 tekens).',
+    CATEGORY_NOT_FOUND: 'Deze categorie bestaat niet meer.',
+    FAQ_NOT_FOUND: 'Deze vraag bestaat niet meer.',
+}
+
+function errorText(code: string | undefined): string {
+    return (code && FAQ_ERRORS[code]) || 'Opslaan mislukt, probeer het opnieuw.'
+}
+
+/** Wissel twee posities in een kopie van de array */
+function swap<T>(items: T[], a: number, b: number): T[] {
+    const next = [...items]
+    ;[next[a], next[b]] = [next[b], next[a]]
+    return next
+}
+
+export function EventFaqAdmin() {
+    const { event } = useOutletContext<EventDetailContext>()
+
+    const [faqData, setFaqData] = useState<EventFaqAdminData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [editing, setEditing] = useState<FaqItem | 'new' | null>(null)
+    const [newCategory, setNewCategory] = useState('')
+
+    // Versie-teller: ophogen na een eigen actie laadt opnieuw
+    const [version, setVersion] = useState(0)
+    const reload = () => setVersion(v => v + 1)
+
+    const eventId = event?.id
+
+    useEffect(() => {
+        if (!eventId) return
+        let cancelled = false
+
+        async function load() {
+            const { data, error: fetchError } = await getEventFaqAdmin(eventId!)
+            if (cancelled) return
+            if (fetchError) {
+                setError(errorText(fetchError.message))
+            } else {
+                setFaqData(data)
+            }
+            setLoading(false)
+        }
+
+        load()
+
+        return () => {
+            cancelled = true
+        }
+    }, [eventId, version])
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    const categories = faqData?.categories ?? []
+    const faqs = faqData?.faqs ?? []
+    const canEdit = faqData?.can_edit ?? false
+
+    // Groepen in publieke volgorde: eerst zonder categorie, dan per categorie
+    const groups: { category: FaqCategory | null; items: FaqItem[] }[] = [
+        { category: null, items: faqs.filter(f => f.category_id === null) },
+        ...categories.map(category => ({
+            category,
+            items: faqs.filter(f => f.category_id === category.id)
+        }))
+    ]
+
+    const runAction = async (action: () => Promise<{ error: Error | null }>) => {
+        setError(null)
+        const { error: actionError } = await action()
+        if (actionError) {
+            setError(errorText(actionError.message))
+        }
+        reload()
+    }
+
+    const handleMoveFaq = (item: FaqItem, direction: -1 | 1) => {
+        const siblings = faqs.filter(f => f.category_id === item.category_id)
+        const index = siblings.findIndex(f => f.id === item.id)
+        const neighbour = siblings[index + direction]
+        if (!neighbour) return
+
+        const order = swap(
+            faqs.map(f => f.id),
+            faqs.findIndex(f => f.id === item.id),
+            faqs.findIndex(f => f.id === neighbour.id)
+        )
+        runAction(() => reorderEventFaq(event.id, { faqIds: order }))
+    }
+
+    const handleMoveCategory = (index: number, direction: -1 | 1) => {
+        if (!categories[index + direction]) return
+        const order = swap(categories.map(c => c.id), index, index + direction)
+        runAction(() => reorderEventFaq(event.id, { categoryIds: order }))
+    }
+
+    const handleDeleteFaq = (item: FaqItem) => {
+        if (!confirm(`Vraag "${item.question}" verwijderen?`)) return
+        runAction(() => deleteEventFaq(item.id))
+    }
+
+    const handleDeleteCategory = (category: FaqCategory) => {
+        if (!confirm(`Categorie "${category.name}" verwijderen? De vragen erin blijven bestaan zonder categorie.`)) return
+        runAction(() => deleteFaqCategory(category.id))
+    }
+
+    const handleAddCategory = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!newCategory.trim()) return
+        await runAction(() => upsertFaqCategory(event.id, newCategory))
+        setNewCategory('')
+    }
+
+    return (
+        <div>
+            <div className="mb-6 flex items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">FAQ</h1>
+                    <p className="text-sm text-gray-500">
+                        Veelgestelde vragen op <span className="font-mono">/e/{event.slug}/faq</span>, op de eventpagina
+                        en (indien aangevinkt) in de orderbevestiging.
+                    </p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                    <a
+                        href={`/e/${event.slug}/faq`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                    >
+                        <ExternalLink className="h-4 w-4 mr-1.5" />
+                        Bekijken
+                    </a>
+                    {canEdit && (
+                        <button
+                            onClick={() => setEditing('new')}
+                            className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                            <Plus className="h-4 w-4 mr-1.5" />
+                            Nieuwe vraag
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {error && (
+                <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">{error}</div>
+            )}
+
+            {editing && (
+                <FaqItemForm
+                    key={editing === 'new' ? 'new' : editing.id}
+                    eventId={event.id}
+                    item={editing === 'new' ? null : editing}
+                    categories={categories}
+                    onClose={() => setEditing(null)}
+                    onSaved={() => {
+                        setEditing(null)
+                        reload()
+                    }}
+                />
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Questions */}
+                <div className="lg:col-span-2 space-y-6">
+                    {faqs.length === 0 ? (
+                        <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-sm text-gray-500">
+                            <HelpCircle className="h-10 w-10 mx-auto text-gray-300 mb-2" />
+                            Nog geen vragen
+                        </div>
+                    ) : groups.filter(g => g.items.length > 0 || g.category).map(group => (
+                        <section key={group.category?.id ?? 'uncategorized'}>
+                            <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                                {group.category?.name ?? 'Zonder categorie'}
+                            </h2>
+                            {group.items.length === 0 ? (
+                                <p className="text-sm text-gray-400 italic">Geen vragen in deze categorie</p>
+                            ) : (
+                                <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+                                    {group.items.map((item, index) => (
+                                        <li key={item.id} className="px-4 py-3 flex items-start gap-3">
+                                            {canEdit && (
+                                                <div className="flex flex-col">
+                                                    <button
+                                                        onClick={() => handleMoveFaq(item, -1)}
+                                                        disabled={index === 0}
+                                                        className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                                                    >
+                                                        <ChevronUp className="h-4 w-4" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleMoveFaq(item, 1)}
+                                                        disabled={index === group.items.length - 1}
+                                                        className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                                                    >
+                                                        <ChevronDown className="h-4 w-4" />
+                                                    </button>
+                                                </div>
+                                            )}
+                                            <div className="flex-1 min-w-0">
+                                                <div className="flex items-center gap-2">
+                                                    <span className="text-sm font-medium text-gray-900 truncate">{item.question}</span>
+                                                    <span className={clsx(
+                                                        'flex-shrink-0 text-xs px-2 py-0.5 rounded-full',
+                                                        item.status === 'published'
+                                                            ? 'bg-green-100 text-green-800'
+                                                            : 'bg-yellow-100 text-yellow-800'
+                                                    )}>
+                                                        {item.status === 'published' ? 'Gepubliceerd' : 'Concept'}
+                                                    </span>
+                                                    {item.include_in_email && (
+                                                        <span title="In orderbevestiging">
+                                                            <Mail className="h-4 w-4 flex-shrink-0 text-indigo-500" />
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                <p className="mt-0.5 text-sm text-gray-500 line-clamp-2">{item.answer}</p>
+                                                {Object.keys(item.i18n).length > 0 && (
+                                                    <p className="mt-1 text-xs text-gray-400">
+                                                        Vertaald: {Object.keys(item.i18n).map(l => l.toUpperCase()).join(', ')}
+                                                    </p>
+                                                )}
+                                            </div>
+                                            {canEdit && (
+                                                <div className="flex gap-1 flex-shrink-0">
+                                                    <button
+                                                        onClick={() => setEditing(item)}
+                                                        className="p-1.5 text-gray-400 hover:text-indigo-600"
+                                                    >
+                                                        <Pencil className="h-4 w-4" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleDeleteFaq(item)}
+                                                        className="p-1.5 text-gray-400 hover:text-red-600"
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </button>
+                                                </div>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </section>
+                    ))}
+                </div>
+
+                {/* Categories */}
+                <div>
+                    <div className="bg-white rounded-lg border border-gray-200">
+                        <div className="px-4 py-3 border-b border-gray-200">
+                            <h2 className="text-sm font-semibold text-gray-900">Categorieën</h2>
+                        </div>
+                        {categories.length === 0 ? (
+                            <p className="px-4 py-3 text-sm text-gray-500">Nog geen categorieën</p>
+                        ) : (
+                            <ul className="divide-y divide-gray-100">
+                                {categories.map((category, index) => (
+                                    <CategoryRow
+                                        key={category.id}
+                                        eventId={event.id}
+                                        category={category}
+                                        canEdit={canEdit}
+                                        isFirst={index === 0}
+                                        isLast={index === categories.length - 1}
+                                        onMove={direction => handleMoveCategory(index, direction)}
+                                        onDelete={() => handleDeleteCategory(category)}
+                                        onSaved={reload}
+                                        onError={code => setError(errorText(code))}
+                                    />
+                                ))}
+                            </ul>
+                        )}
+                        {canEdit && (
+                            <form onSubmit={handleAddCategory} className="px-4 py-3 border-t border-gray-200 flex gap-2">
+                                <input
+                                    type="text"
+                                    value={newCategory}
+                                    onChange={e => setNewCategory(e.target.value)}
+                                    maxLength={100}
+                                    placeholder="Nieuwe categorie"
+                                    className="flex-1 min-w-0 rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={!newCategory.trim()}
+                                    className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                                >
+                                    <Plus className="h-4 w-4" />
+                                </button>
+                            </form>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
+
+// ============================================================
+// CATEGORY ROW
+// ============================================================
+
+interface CategoryRowProps {
+    eventId: string
+    category: FaqCategory
+    canEdit: boolean
+    isFirst: boolean
+    isLast: boolean
+    onMove: (direction: -1 | 1) => void
+    onDelete: () => void
+    onSaved: () => void
+    onError: (code: string) => void
+}
+
+function CategoryRow({ eventId, category, canEdit, isFirst, isLast, onMove, onDelete, onSaved, onError }: CategoryRowProps) {
+    const [editing, setEditing] = useState(false)
+    const [saving, setSaving] = useState(false)
+    const [name, setName] = useState(category.name)
+    const [translations, setTranslations] = useState<Record<string, string>>(() =>
+        Object.fromEntries(TRANSLATION_LOCALES.map(l => [l, category.i18n[l]?.name ?? '']))
+    )
+
+    const handleSave = async () => {
+        setSaving(true)
+        const { error } = await upsertFaqCategory(eventId, name, category.id)
+        if (error) {
+            setSaving(false)
+            onError(error.message)
+            return
+        }
+
+        for (const locale of TRANSLATION_LOCALES) {
+            if (translations[locale] === (category.i18n[locale]?.name ?? '')) continue
+            const { error: i18nError } = await upsertFaqCategoryTranslation(category.id, locale, translations[locale])
+            if (i18nError) {
+                setSaving(false)
+                onError(i18nError.message)
+                return
+            }
+        }
+
+        setSaving(false)
+        setEditing(false)
+        onSaved()
+    }
+
+    if (editing) {
+        return (
+            <li className="px-4 py-3 space-y-2">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    maxLength={100}
+                    className="block w-full rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+                {TRANSLATION_LOCALES.map(locale => (
+                    <div key={locale} className="flex items-center gap-2">
+                        <span className="w-6 text-xs font-medium text-gray-500">{locale.toUpperCase()}</span>
+                        <input
+                            type="text"
+                            value={translations[locale]}
+                            onChange={e => setTranslations(prev => ({ ...prev, [locale]: e.target.value }))}
+                            maxLength={100}
+                            placeholder={name}
+                            className="flex-1 min-w-0 rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        />
+                    </div>
+                ))}
+                <div className="flex justify-end gap-1">
+                    <button onClick={() => setEditing(false)} className="p-1.5 text-gray-400 hover:text-gray-700">
+                        <X className="h-4 w-4" />
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={saving || !name.trim()}
+                        className="p-1.5 text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                    >
+                        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                    </button>
+                </div>
+            </li>
+        )
+    }
+
+    return (
+        <li className="px-4 py-2 flex items-center gap-2">
+            {canEdit && (
+                <div className="flex flex-col">
+                    <button onClick={() => onMove(-1)} disabled={isFirst} className="text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                        <ChevronUp className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => onMove(1)} disabled={isLast} className="text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                        <ChevronDown className="h-4 w-4" />
+                    </button>
+                </div>
+            )}
+            <span className="flex-1 min-w-0 text-sm text-gray-900 truncate">{category.name}</span>
+            {canEdit && (
+                <>
+                    <button onClick={() => setEditing(true)} className="p-1.5 text-gray-400 hover:text-indigo-600">
+                        <Pencil className="h-4 w-4" />
+                    </button>
+                    <button onClick={onDelete} className="p-1.5 text-gray-400 hover:text-red-600">
+                        <Trash2 className="h-4 w-4" />
+                    </button>
+                </>
+            )}
+        </li>
+    )
+}
+
+// ============================================================
+// FAQ ITEM FORM
+// ============================================================
+
+interface FaqItemFormProps {
+    eventId: string
+    item: FaqItem | null
+    categories: FaqCategory[]
+    onClose: () => void
+    onSaved: () => void
+}
+
+function FaqItemForm({ eventId, item, categories, onClose, onSaved }: FaqItemFormProps) {
+    const [values, setValues] = useState<FaqItemInput>({
+        id: item?.id,
+        category_id: item?.category_id ?? null,
+        question: item?.question ?? '',
+        answer: item?.answer ?? '',
+        status: item?.status ?? 'draft',
+        include_in_email: item?.include_in_email ?? false
+    })
+    const [translations, setTranslations] = useState<Record<string, FaqTranslation>>(() =>
+        Object.fromEntries(TRANSLATION_LOCALES.map(l => [l, item?.i18n[l] ?? { question: '', answer: '' }]))
+    )
+    const [locale, setLocale] = useState<string | null>(null)
+    const [saving, setSaving] = useState(false)
+    const [formError, setFormError] = useState<string | null>(null)
+
+    const update = (patch: Partial<FaqItemInput>) => setValues(prev => ({ ...prev, ...patch }))
+
+    const updateTranslation = (patch: Partial<FaqTranslation>) => {
+        if (!locale) return
+        setTranslations(prev => ({ ...prev, [locale]: { ...prev[locale], ...patch } }))
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSaving(true)
+        setFormError(null)
+
+        const { data, error } = await upsertEventFaq(eventId, values)
+        if (error || !data) {
+            setSaving(false)
+            setFormError(errorText(error?.message))
+            return
+        }
+
+        // Alleen gewijzigde vertalingen opslaan (leeg = verwijderen)
+        for (const l of TRANSLATION_LOCALES) {
+            const original = item?.i18n[l] ?? { question: '', answer: '' }
+            const current = translations[l]
+            if (current.question === original.question && current.answer === original.answer) continue
+
+            const { error: i18nError } = await upsertFaqTranslation(data.faq_id, l, current)
+            if (i18nError) {
+                // Basisvraag is opgeslagen; verder bewerken gaat dan als bestaande vraag
+                update({ id: data.faq_id })
+                setLocale(l)
+                setSaving(false)
+                setFormError(`${l.toUpperCase()}: ${errorText(i18nError.message)}`)
+                return
+            }
+        }
+
+        setSaving(false)
+        onSaved()
+    }
+
+    const current = locale
+        ? translations[locale]
+        : { question: values.question, answer: values.answer }
+
+    return (
+        <form onSubmit={handleSubmit} className="mb-6 bg-white rounded-lg border border-indigo-200 shadow-sm p-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">{item ? 'Vraag bewerken' : 'Nieuwe vraag'}</h2>
+                <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-700">
+                    <X className="h-5 w-5" />
+                </button>
+            </div>
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+            <div className="flex space-x-2">
+                {[null, ...TRANSLATION_LOCALES].map(l => (
+                    <button
+                        key={l ?? 'default'}
+                        type="button"
+                        onClick={() => setLocale(l)}
+                        className={clsx(
+                            'px-3 py-1 text-sm font-medium rounded-md',
+                            locale === l
+                                ? 'bg-indigo-600 text-white'
+                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        )}
+                    >
+                        {l ? l.toUpperCase() : 'NL (standaard)'}
+                    </button>
+                ))}
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700">Vraag</label>
+                <input
+                    type="text"
+                    value={current.question}
+                    onChange={e => locale ? updateTranslation({ question: e.target.value }) : update({ question: e.target.value })}
+                    maxLength={300}
+                    required={!locale}
+                    placeholder={locale ? values.question : undefined}
+                    className="mt-1 block w-full rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700">Antwoord</label>
+                <textarea
+                    value={current.answer}
+                    onChange={e => locale ? updateTranslation({ answer: e.target.value }) : update({ answer: e.target.value })}
+                    rows={5}
+                    maxLength={5000}
+                    required={!locale}
+                    placeholder={locale ? values.answer : undefined}
+                    className="mt-1 block w-full rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+                {locale && (
+                    <p className="mt-1 text-xs text-gray-500">
+                        Leeg laten toont de Nederlandse tekst voor deze taal.
+                    </p>
+                )}
+            </div>
+
+            {!locale && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Categorie</label>
+                        <select
+                            value={values.category_id ?? ''}
+                            onChange={e => update({ category_id: e.target.value || null })}
+                            className="mt-1 block w-full rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        >
+                            <option value="">Zonder categorie</option>
+                            {categories.map(category => (
+                                <option key={category.id} value={category.id}>{category.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Status</label>
+                        <select
+                            value={values.status}
+                            onChange={e => update({ status: e.target.value as FaqItemInput['status'] })}
+                            className="mt-1 block w-full rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        >
+                            <option value="draft">Concept</option>
+                            <option value="published">Gepubliceerd</option>
+                        </select>
+                    </div>
+                    <label className="flex items-center gap-2 sm:mt-6 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={values.include_in_email}
+                            onChange={e => update({ include_in_email: e.target.checked })}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        In orderbevestiging
+                    </label>
+                </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                    Annuleren
+                </button>
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Opslaan
+                </button>
+            </div>
+        </form>
+    )
+}
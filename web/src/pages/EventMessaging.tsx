@@ -0,0 +1,256 @@
+/**
+ * EventMessaging Page
+ *
+ * Inbox van de organisator voor vragen van deelnemers.
+ * Features:
+ * - Threads per event met ongelezen tellers (open/gesloten filter)
+ * - Gesprek lezen en beantwoorden (antwoord wordt ook gemaild)
+ * - Thread sluiten / heropenen
+ * - Live updates via Supabase realtime
+ */
+
+import { useEffect, useState } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import { Loader2, Inbox, MessageSquare, CheckCircle, RotateCcw } from 'lucide-react'
+import { clsx } from 'clsx'
+import type { AppEvent, Organization } from '../types/supabase'
+import { ThreadConversation } from '../components/ThreadConversation'
+import {
+    getEventThreads,
+    getThread,
+    postThreadMessage,
+    setThreadStatus,
+    subscribeToMessages,
+    type EventThreads,
+    type ThreadDetail,
+    type ThreadStatus
+} from '../data/messaging'
+
+interface EventDetailContext {
+    event: AppEvent
+    org: Organization
+    refreshEvent: () => void
+}
+
+type StatusFilter = ThreadStatus | 'all'
+
+function formatRelative(value: string): string {
+    const date = new Date(value)
+    const sameDay = date.toDateString() === new Date().toDateString()
+    return sameDay
+        ? date.toLocaleTimeString('nl-NL', { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleDateString('nl-NL', { day: 'numeric', month: 'short' })
+}
+
+export function EventMessaging() {
+    const { event } = useOutletContext<EventDetailContext>()
+
+    const [inbox, setInbox] = useState<EventThreads | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [filter, setFilter] = useState<StatusFilter>('open')
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+    const [detail, setDetail] = useState<ThreadDetail | null>(null)
+    const [updatingStatus, setUpdatingStatus] = useState(false)
+
+    // Versie-tellers: ophogen na een eigen actie laadt opnieuw (ook zonder realtime)
+    const [inboxVersion, setInboxVersion] = useState(0)
+    const [threadVersion, setThreadVersion] = useState(0)
+
+    const eventId = event?.id
+
+    useEffect(() => {
+        if (!eventId) return
+        let cancelled = false
+
+        async function loadInbox() {
+            const { data, error: fetchError } = await getEventThreads(eventId!, filter === 'all' ? undefined : filter)
+            if (cancelled) return
+            if (fetchError) {
+                setError(fetchError.message)
+            } else {
+                setInbox(data)
+                setError(null)
+            }
+            setLoading(false)
+        }
+
+        loadInbox()
+        const unsubscribe = subscribeToMessages(`event-inbox-${eventId}`, loadInbox)
+
+        return () => {
+            cancelled = true
+            unsubscribe()
+        }
+    }, [eventId, filter, inboxVersion])
+
+    useEffect(() => {
+        if (!selectedId) return
+        let cancelled = false
+
+        async function loadThread() {
+            const { data } = await getThread(selectedId!)
+            if (!cancelled && data) setDetail(data)
+        }
+
+        loadThread()
+        const unsubscribe = subscribeToMessages(`thread-${selectedId}`, loadThread, selectedId)
+
+        return () => {
+            cancelled = true
+            unsubscribe()
+        }
+    }, [selectedId, threadVersion])
+
+    const reload = () => {
+        setInboxVersion(v => v + 1)
+        setThreadVersion(v => v + 1)
+    }
+
+    const handleSend = async (body: string): Promise<string | null> => {
+        if (!selectedId) return null
+        const { error: postError } = await postThreadMessage(selectedId, body)
+        if (postError) return postError.message
+        reload()
+        return null
+    }
+
+    const handleToggleStatus = async () => {
+        if (!detail) return
+        setUpdatingStatus(true)
+        const next: ThreadStatus = detail.thread.status === 'open' ? 'closed' : 'open'
+        const { error: statusError } = await setThreadStatus(detail.thread.id, next)
+        if (statusError) {
+            setError(statusError.message)
+        } else {
+            reload()
+        }
+        setUpdatingStatus(false)
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    const threads = inbox?.threads ?? []
+    const activeDetail = detail && detail.thread.id === selectedId ? detail : null
+
+    return (
+        <div>
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-900">Berichten</h1>
+                <p className="text-sm text-gray-500">
+                    Vragen van deelnemers via <span className="font-mono">/e/{event.slug}/chat</span>
+                </p>
+            </div>
+
+            {error && (
+                <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="bg-white rounded-lg border border-gray-200 flex h-[70vh] overflow-hidden">
+                {/* Thread list */}
+                <div className="w-80 border-r border-gray-200 flex flex-col">
+                    <div className="flex border-b border-gray-200">
+                        {(['open', 'closed', 'all'] as StatusFilter[]).map(f => (
+                            <button
+                                key={f}
+                                onClick={() => setFilter(f)}
+                                className={clsx(
+                                    'flex-1 py-2 text-sm font-medium border-b-2',
+                                    filter === f
+                                        ? 'border-indigo-500 text-indigo-600'
+                                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                                )}
+                            >
+                                {f === 'open' ? 'Open' : f === 'closed' ? 'Gesloten' : 'Alle'}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+                        {threads.length === 0 ? (
+                            <div className="p-8 text-center text-sm text-gray-500">
+                                <Inbox className="h-8 w-8 mx-auto text-gray-300 mb-2" />
+                                Geen gesprekken
+                            </div>
+                        ) : threads.map(thread => (
+                            <button
+                                key={thread.id}
+                                onClick={() => setSelectedId(thread.id)}
+                                className={clsx(
+                                    'w-full text-left px-4 py-3 hover:bg-gray-50',
+                                    selectedId === thread.id && 'bg-indigo-50'
+                                )}
+                            >
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className={clsx('text-sm truncate', thread.unread_count > 0 ? 'font-semibold text-gray-900' : 'text-gray-700')}>
+                                        {thread.participant_name}
+                                    </span>
+                                    <span className="text-xs text-gray-400 flex-shrink-0">{formatRelative(thread.last_message_at)}</span>
+                                </div>
+                                <div className="flex items-center justify-between gap-2 mt-0.5">
+                                    <span className="text-sm text-gray-600 truncate">{thread.subject}</span>
+                                    {thread.unread_count > 0 && (
+                                        <span className="flex-shrink-0 inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1.5 rounded-full bg-indigo-600 text-white text-xs font-medium">
+                                            {thread.unread_count}
+                                        </span>
+                                    )}
+                                </div>
+                                {thread.last_message_preview && (
+                                    <p className="mt-0.5 text-xs text-gray-400 truncate">
+                                        {thread.last_sender_type === 'organizer' && 'Jij: '}{thread.last_message_preview}
+                                    </p>
+                                )}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Conversation */}
+                <div className="flex-1 flex flex-col min-w-0">
+                    {activeDetail ? (
+                        <>
+                            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between gap-4">
+                                <div className="min-w-0">
+                                    <h2 className="text-sm font-semibold text-gray-900 truncate">{activeDetail.thread.subject}</h2>
+                                    <p className="text-xs text-gray-500 truncate">
+                                        {activeDetail.thread.participant_name}
+                                        {activeDetail.thread.participant_email && ` · ${activeDetail.thread.participant_email}`}
+                                    </p>
+                                </div>
+                                {activeDetail.viewer === 'organizer' && (
+                                    <button
+                                        onClick={handleToggleStatus}
+                                        disabled={updatingStatus}
+                                        className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                    >
+                                        {activeDetail.thread.status === 'open' ? (
+                                            <><CheckCircle className="h-4 w-4 mr-1.5" />Sluiten</>
+                                        ) : (
+                                            <><RotateCcw className="h-4 w-4 mr-1.5" />Heropenen</>
+                                        )}
+                                    </button>
+                                )}
+                            </div>
+                            <div className="flex-1 min-h-0">
+                                <ThreadConversation detail={activeDetail} onSend={handleSend} />
+                            </div>
+                        </>
+                    ) : (
+                        <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+                            <div className="text-center">
+                                <MessageSquare className="h-10 w-10 mx-auto text-gray-300 mb-2" />
+                                Selecteer een gesprek
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -6,14 +6,16 @@
  * - Lijst met alle orders voor dit event
  * - Status badges (pending/paid/failed/cancelled/refunded)
  * - Totaalbedrag en datum
+ * - Terugbetalen per ticket of hele order + refund ledger (OrderRefundDialog)
  * - Test knop: "Simuleer gratis bestelling" voor org members
  */
 
 import { useEffect, useState } from 'react'
 import { useOutletContext } from 'react-router-dom'
-import { ShoppingCart, Plus, Loader2, CheckCircle, XCircle, Clock } from 'lucide-react'
+import { ShoppingCart, Plus, Loader2, CheckCircle, XCircle, Clock, RotateCcw } from 'lucide-react'
 import { clsx } from 'clsx'
 import { supabase } from '../lib/supabase'
+import { OrderRefundDialog } from '../components/OrderRefundDialog'
 import type { AppEvent, Organization } from '../types/supabase'
 
 // Context type van EventDetail
@@ -42,6 +44,8 @@ export function EventOrders() {
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [simulating, setSimulating] = useState(false)
+    const [refundOrder, setRefundOrder] = useState<Order | null>(null)
+    const [reloadKey, setReloadKey] = useState(0)
 
     // Fetch orders
     useEffect(() => {
@@ -68,7 +72,7 @@ export function EventOrders() {
         }
 
         fetchOrders()
-    }, [event?.id])
+    }, [event?.id, reloadKey])
 
     // Simulate free order (test functie)
     const handleSimulateFreeOrder = async () => {
@@ -208,6 +212,7 @@ export function EventOrders() {
                                 <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Totaal</th>
                                 <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
                                 <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Datum</th>
+                                <th className="px-3 py-3.5"><span className="sr-only">Acties</span></th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-gray-200 bg-white">
@@ -236,12 +241,32 @@ export function EventOrders() {
                                             minute: '2-digit'
                                         })}
                                     </td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm text-right">
+                                        {(order.status === 'paid' || order.status === 'refunded') && order.total_amount > 0 && (
+                                            <button
+                                                onClick={() => setRefundOrder(order)}
+                                                className="inline-flex items-center text-indigo-600 hover:text-indigo-900"
+                                            >
+                                                <RotateCcw className="mr-1 h-4 w-4" />
+                                                {order.status === 'paid' ? 'Terugbetalen' : 'Terugbetalingen'}
+                                            </button>
+                                        )}
+                                    </td>
                                 </tr>
                             ))}
                         </tbody>
                     </table>
                 </div>
             )}
+
+            {refundOrder && (
+                <OrderRefundDialog
+                    orderId={refundOrder.id}
+                    email={refundOrder.email}
+                    onClose={() => setRefundOrder(null)}
+                    onRefunded={() => setReloadKey(key => key + 1)}
+                />
+            )}
         </div>
     )
 }
@@ -4,10 +4,12 @@
  * Deelnemers/Registraties tab voor event organisators.
  * Features:
  * - Gefilterde lijst met registraties (Atleta-style)
- * - Filters: ticket type, status, payment, assignment
+ * - Filters: ticket type, status, payment, assignment, opgeslagen segment
  * - Search by email/name
  * - CSV export
+ * - Startnummer per ticket handmatig aanpassen
  * - Pagination
+ * - Teams-weergave (team/estafette inschrijvingen + volledigheid)
  */
 
 import { useEffect, useState, useCallback } from 'react'
@@ -23,10 +25,14 @@ import {
     Filter,
     ChevronLeft,
     ChevronRight,
-    Loader2
+    Loader2,
+    Pencil
 } from 'lucide-react'
 import { clsx } from 'clsx'
 import { supabase } from '../lib/supabase'
+import { EventTeamsPanel } from '../components/EventTeamsPanel'
+import { listEventSegments, type ParticipantSegment } from '../data/segments'
+import { setTicketBibNumber, BIB_ERRORS } from '../data/bib_numbers'
 import type { AppEvent, Organization } from '../types/supabase'
 
 // Context type from EventDetail
@@ -66,6 +72,10 @@ interface RegistrationRow {
     ticket_status: string | null
     checked_in_at: string | null
     assignment_status: string
+    // Team
+    team_id: string | null
+    team_name: string | null
+    team_role: 'captain' | 'member' | null
 }
 
 interface TicketType {
@@ -78,6 +88,7 @@ interface Filters {
     registration_status?: string
     payment_status?: string
     assignment_status?: string
+    segment_id?: string
     search?: string
 }
 
@@ -96,10 +107,12 @@ export function EventParticipants() {
     // Data state
     const [registrations, setRegistrations] = useState<RegistrationRow[]>([])
     const [ticketTypes, setTicketTypes] = useState<TicketType[]>([])
+    const [segments, setSegments] = useState<ParticipantSegment[]>([])
     const [total, setTotal] = useState(0)
     const [pages, setPages] = useState(0)
 
     // UI state
+    const [view, setView] = useState<'registrations' | 'teams'>('registrations')
     const [loading, setLoading] = useState(true)
     const [exporting, setExporting] = useState(false)
     const [error, setError] = useState<string | null>(null)
@@ -121,6 +134,9 @@ export function EventParticipants() {
                 .is('deleted_at', null)
                 .order('sort_order')
             setTicketTypes(data || [])
+
+            const { data: segmentData } = await listEventSegments(event.id)
+            setSegments(segmentData)
         }
         fetchTicketTypes()
     }, [event?.id])
@@ -272,260 +288,316 @@ export function EventParticipants() {
                 </div>
             </div>
 
-            {/* Stats Cards */}
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 mb-6">
-                <StatCard
-                    icon={<Users className="h-5 w-5 text-gray-400" />}
-                    label="Totaal"
-                    value={total}
-                />
-                <StatCard
-                    icon={<CheckCircle className="h-5 w-5 text-green-400" />}
-                    label="Betaald"
-                    value={paidCount}
-                />
-                <StatCard
-                    icon={<Circle className="h-5 w-5 text-blue-400" />}
-                    label="Toegewezen"
-                    value={assignedCount}
-                />
-                <StatCard
-                    icon={<XCircle className="h-5 w-5 text-yellow-400" />}
-                    label="Niet toegewezen"
-                    value={total - assignedCount}
-                />
-            </div>
-
-            {/* Filters */}
-            <div className="bg-gray-50 rounded-lg p-4 mb-6">
-                <div className="flex items-center mb-3">
-                    <Filter className="h-4 w-4 text-gray-500 mr-2" />
-                    <span className="text-sm font-medium text-gray-700">Filters</span>
-                </div>
-                <div className="grid grid-cols-1 gap-4 sm:grid-cols-5">
-                    {/* Search */}
-                    <div className="relative">
-                        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                        <input
-                            type="text"
-                            placeholder="Zoek op email/naam..."
-                            value={searchInput}
-                            onChange={(e) => setSearchInput(e.target.value)}
-                            className="pl-9 w-full rounded-md border-gray-300 text-sm"
-                        />
-                    </div>
-
-                    {/* Ticket Type Filter */}
-                    <select
-                        value={filters.ticket_type_id || ''}
-                        onChange={(e) => handleFilterChange('ticket_type_id', e.target.value)}
-                        className="rounded-md border-gray-300 text-sm"
-                    >
-                        <option value="">Alle tickets</option>
-                        {ticketTypes.map(tt => (
-                            <option key={tt.id} value={tt.id}>{tt.name}</option>
-                        ))}
-                    </select>
-
-                    {/* Registration Status Filter */}
-                    <select
-                        value={filters.registration_status || ''}
-                        onChange={(e) => handleFilterChange('registration_status', e.target.value)}
-                        className="rounded-md border-gray-300 text-sm"
-                    >
-                        <option value="">Alle statussen</option>
-                        <option value="confirmed">Bevestigd</option>
-                        <option value="pending">In afwachting</option>
-                        <option value="cancelled">Geannuleerd</option>
-                        <option value="waitlist">Wachtlijst</option>
-                    </select>
-
-                    {/* Payment Status Filter */}
-                    <select
-                        value={filters.payment_status || ''}
-                        onChange={(e) => handleFilterChange('payment_status', e.target.value)}
-                        className="rounded-md border-gray-300 text-sm"
-                    >
-                        <option value="">Alle betalingen</option>
-                        <option value="paid">Betaald</option>
-                        <option value="unpaid">Niet betaald</option>
-                        <option value="refunded">Terugbetaald</option>
-                    </select>
-
-                    {/* Assignment Status Filter */}
-                    <select
-                        value={filters.assignment_status || ''}
-                        onChange={(e) => handleFilterChange('assignment_status', e.target.value)}
-                        className="rounded-md border-gray-300 text-sm"
-                    >
-                        <option value="">Alle toewijzingen</option>
-                        <option value="assigned">Toegewezen</option>
-                        <option value="unassigned">Niet toegewezen</option>
-                    </select>
-                </div>
-
-                {/* Active filters indicator */}
-                {Object.values(filters).some(v => v) && (
-                    <div className="mt-3 flex items-center">
-                        <span className="text-xs text-gray-500 mr-2">
-                            Filters actief
-                        </span>
+            {/* View toggle */}
+            <div className="mb-6 border-b border-gray-200">
+                <nav className="-mb-px flex space-x-6">
+                    {([
+                        { key: 'registrations', label: 'Registraties' },
+                        { key: 'teams', label: 'Teams' },
+                    ] as const).map(tab => (
                         <button
-                            onClick={() => {
-                                setFilters({})
-                                setSearchInput('')
-                                setPage(1)
-                            }}
-                            className="text-xs text-indigo-600 hover:text-indigo-800"
+                            key={tab.key}
+                            onClick={() => setView(tab.key)}
+                            className={clsx(
+                                'whitespace-nowrap border-b-2 py-2 px-1 text-sm font-medium',
+                                view === tab.key
+                                    ? 'border-indigo-500 text-indigo-600'
+                                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                            )}
                         >
-                            Wis alle filters
+                            {tab.label}
                         </button>
-                    </div>
-                )}
+                    ))}
+                </nav>
             </div>
 
-            {/* Error */}
-            {error && (
-                <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
-                    <p className="text-sm text-red-800">{error}</p>
-                    <button onClick={() => setError(null)} className="text-sm text-red-600 underline">
-                        Sluiten
-                    </button>
-                </div>
-            )}
-
-            {/* Loading */}
-            {loading ? (
-                <div className="flex items-center justify-center h-32">
-                    <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
-                </div>
-            ) : registrations.length === 0 ? (
-                /* Empty State */
-                <div className="text-center py-12 bg-gray-50 rounded-lg">
-                    <Users className="mx-auto h-12 w-12 text-gray-400" />
-                    <h3 className="mt-2 text-sm font-medium text-gray-900">Geen registraties</h3>
-                    <p className="mt-1 text-sm text-gray-500">
-                        {Object.values(filters).some(v => v)
-                            ? 'Geen registraties gevonden met deze filters.'
-                            : 'Er zijn nog geen registraties voor dit event.'
-                        }
-                    </p>
-                </div>
+            {view === 'teams' ? (
+                <EventTeamsPanel eventId={event.id} eventSlug={event.slug} />
             ) : (
                 <>
-                    {/* Table */}
-                    <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 rounded-lg">
-                        <table className="min-w-full divide-y divide-gray-300">
-                            <thead className="bg-gray-50">
-                                <tr>
-                                    <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
-                                        Deelnemer
-                                    </th>
-                                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                                        Ticket
-                                    </th>
-                                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                                        Status
-                                    </th>
-                                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                                        Betaling
-                                    </th>
-                                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                                        Toewijzing
-                                    </th>
-                                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                                        Datum
-                                    </th>
-                                </tr>
-                            </thead>
-                            <tbody className="divide-y divide-gray-200 bg-white">
-                                {registrations.map((reg) => (
-                                    <tr key={reg.id} className="hover:bg-gray-50">
-                                        <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm">
-                                            <div className="font-medium text-gray-900">
-                                                {reg.first_name} {reg.last_name}
-                                            </div>
-                                            <div className="text-gray-500">{reg.email}</div>
-                                        </td>
-                                        <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
-                                            {reg.ticket_type_name || '–'}
-                                            {reg.has_discount && (
-                                                <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
-                                                    Korting
-                                                </span>
-                                            )}
-                                        </td>
-                                        <td className="whitespace-nowrap px-3 py-4 text-sm">
-                                            <StatusBadge status={reg.registration_status} />
-                                        </td>
-                                        <td className="whitespace-nowrap px-3 py-4 text-sm">
-                                            <PaymentBadge status={reg.payment_status} />
-                                        </td>
-                                        <td className="whitespace-nowrap px-3 py-4 text-sm">
-                                            <AssignmentBadge status={reg.assignment_status} />
-                                        </td>
-                                        <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
-                                            {new Date(reg.created_at).toLocaleDateString('nl-NL', {
-                                                day: 'numeric',
-                                                month: 'short',
-                                                year: 'numeric'
-                                            })}
-                                        </td>
-                                    </tr>
-                                ))}
-                            </tbody>
-                        </table>
+                    {/* Stats Cards */}
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 mb-6">
+                        <StatCard
+                            icon={<Users className="h-5 w-5 text-gray-400" />}
+                            label="Totaal"
+                            value={total}
+                        />
+                        <StatCard
+                            icon={<CheckCircle className="h-5 w-5 text-green-400" />}
+                            label="Betaald"
+                            value={paidCount}
+                        />
+                        <StatCard
+                            icon={<Circle className="h-5 w-5 text-blue-400" />}
+                            label="Toegewezen"
+                            value={assignedCount}
+                        />
+                        <StatCard
+                            icon={<XCircle className="h-5 w-5 text-yellow-400" />}
+                            label="Niet toegewezen"
+                            value={total - assignedCount}
+                        />
                     </div>
 
-                    {/* Pagination */}
-                    {pages > 1 && (
-                        <div className="flex items-center justify-between border-t border-gray-200 bg-white px-4 py-3 sm:px-6 mt-4 rounded-lg">
-                            <div className="flex flex-1 justify-between sm:hidden">
-                                <button
-                                    onClick={() => setPage(p => Math.max(1, p - 1))}
-                                    disabled={page === 1}
-                                    className="relative inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
-                                >
-                                    Vorige
-                                </button>
+                    {/* Filters */}
+                    <div className="bg-gray-50 rounded-lg p-4 mb-6">
+                        <div className="flex items-center mb-3">
+                            <Filter className="h-4 w-4 text-gray-500 mr-2" />
+                            <span className="text-sm font-medium text-gray-700">Filters</span>
+                        </div>
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-6">
+                            {/* Search */}
+                            <div className="relative">
+                                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                                <input
+                                    type="text"
+                                    placeholder="Zoek op email/naam..."
+                                    value={searchInput}
+                                    onChange={(e) => setSearchInput(e.target.value)}
+                                    className="pl-9 w-full rounded-md border-gray-300 text-sm"
+                                />
+                            </div>
+
+                            {/* Ticket Type Filter */}
+                            <select
+                                value={filters.ticket_type_id || ''}
+                                onChange={(e) => handleFilterChange('ticket_type_id', e.target.value)}
+                                className="rounded-md border-gray-300 text-sm"
+                            >
+                                <option value="">Alle tickets</option>
+                                {ticketTypes.map(tt => (
+                                    <option key={tt.id} value={tt.id}>{tt.name}</option>
+                                ))}
+                            </select>
+
+                            {/* Registration Status Filter */}
+                            <select
+                                value={filters.registration_status || ''}
+                                onChange={(e) => handleFilterChange('registration_status', e.target.value)}
+                                className="rounded-md border-gray-300 text-sm"
+                            >
+                                <option value="">Alle statussen</option>
+                                <option value="confirmed">Bevestigd</option>
+                                <option value="pending">In afwachting</option>
+                                <option value="cancelled">Geannuleerd</option>
+                                <option value="waitlist">Wachtlijst</option>
+                            </select>
+
+                            {/* Payment Status Filter */}
+                            <select
+                                value={filters.payment_status || ''}
+                                onChange={(e) => handleFilterChange('payment_status', e.target.value)}
+                                className="rounded-md border-gray-300 text-sm"
+                            >
+                                <option value="">Alle betalingen</option>
+                                <option value="paid">Betaald</option>
+                                <option value="unpaid">Niet betaald</option>
+                                <option value="refunded">Terugbetaald</option>
+                            </select>
+
+                            {/* Assignment Status Filter */}
+                            <select
+                                value={filters.assignment_status || ''}
+                                onChange={(e) => handleFilterChange('assignment_status', e.target.value)}
+                                className="rounded-md border-gray-300 text-sm"
+                            >
+                                <option value="">Alle toewijzingen</option>
+                                <option value="assigned">Toegewezen</option>
+                                <option value="unassigned">Niet toegewezen</option>
+                            </select>
+
+                            {/* Segment Filter (ook voor de export) */}
+                            <select
+                                value={filters.segment_id || ''}
+                                onChange={(e) => handleFilterChange('segment_id', e.target.value)}
+                                className="rounded-md border-gray-300 text-sm"
+                            >
+                                <option value="">Alle segmenten</option>
+                                {segments.map(s => (
+                                    <option key={s.id} value={s.id}>{s.name}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {/* Active filters indicator */}
+                        {Object.values(filters).some(v => v) && (
+                            <div className="mt-3 flex items-center">
+                                <span className="text-xs text-gray-500 mr-2">
+                                    Filters actief
+                                </span>
                                 <button
-                                    onClick={() => setPage(p => Math.min(pages, p + 1))}
-                                    disabled={page === pages}
-                                    className="relative ml-3 inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                    onClick={() => {
+                                        setFilters({})
+                                        setSearchInput('')
+                                        setPage(1)
+                                    }}
+                                    className="text-xs text-indigo-600 hover:text-indigo-800"
                                 >
-                                    Volgende
+                                    Wis alle filters
                                 </button>
                             </div>
-                            <div className="hidden sm:flex sm:flex-1 sm:items-center sm:justify-between">
-                                <div>
-                                    <p className="text-sm text-gray-700">
-                                        Toont <span className="font-medium">{(page - 1) * pageSize + 1}</span> tot{' '}
-                                        <span className="font-medium">{Math.min(page * pageSize, total)}</span> van{' '}
-                                        <span className="font-medium">{total}</span> resultaten
-                                    </p>
-                                </div>
-                                <div className="flex items-center space-x-2">
-                                    <button
-                                        onClick={() => setPage(p => Math.max(1, p - 1))}
-                                        disabled={page === 1}
-                                        className="relative inline-flex items-center rounded-md border border-gray-300 bg-white p-2 text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
-                                    >
-                                        <ChevronLeft className="h-5 w-5" />
-                                    </button>
-                                    <span className="text-sm text-gray-700">
-                                        Pagina {page} van {pages}
-                                    </span>
-                                    <button
-                                        onClick={() => setPage(p => Math.min(pages, p + 1))}
-                                        disabled={page === pages}
-                                        className="relative inline-flex items-center rounded-md border border-gray-300 bg-white p-2 text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
-                                    >
-                                        <ChevronRight className="h-5 w-5" />
-                                    </button>
-                                </div>
-                            </div>
+                        )}
+                    </div>
+
+                    {/* Error */}
+                    {error && (
+                        <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+                            <p className="text-sm text-red-800">{error}</p>
+                            <button onClick={() => setError(null)} className="text-sm text-red-600 underline">
+                                Sluiten
+                            </button>
                         </div>
                     )}
+
+                    {/* Loading */}
+                    {loading ? (
+                        <div className="flex items-center justify-center h-32">
+                            <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+                        </div>
+                    ) : registrations.length === 0 ? (
+                        /* Empty State */
+                        <div className="text-center py-12 bg-gray-50 rounded-lg">
+                            <Users className="mx-auto h-12 w-12 text-gray-400" />
+                            <h3 className="mt-2 text-sm font-medium text-gray-900">Geen registraties</h3>
+                            <p className="mt-1 text-sm text-gray-500">
+                                {Object.values(filters).some(v => v)
+                                    ? 'Geen registraties gevonden met deze filters.'
+                                    : 'Er zijn nog geen registraties voor dit event.'
+                                }
+                            </p>
+                        </div>
+                    ) : (
+                        <>
+                            {/* Table */}
+                            <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+                                <table className="min-w-full divide-y divide-gray-300">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
+                                                Deelnemer
+                                            </th>
+                                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                                                Startnr.
+                                            </th>
+                                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                                                Ticket
+                                            </th>
+                                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                                                Status
+                                            </th>
+                                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                                                Betaling
+                                            </th>
+                                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                                                Toewijzing
+                                            </th>
+                                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                                                Datum
+                                            </th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-200 bg-white">
+                                        {registrations.map((reg) => (
+                                            <tr key={reg.id} className="hover:bg-gray-50">
+                                                <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm">
+                                                    <div className="font-medium text-gray-900">
+                                                        {reg.first_name} {reg.last_name}
+                                                    </div>
+                                                    <div className="text-gray-500">{reg.email}</div>
+                                                </td>
+                                                <td className="whitespace-nowrap px-3 py-4 text-sm">
+                                                    <BibCell
+                                                        registration={reg}
+                                                        onSaved={fetchRegistrations}
+                                                        onError={setError}
+                                                    />
+                                                </td>
+                                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                                                    {reg.ticket_type_name || '–'}
+                                                    {reg.team_name && (
+                                                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-800">
+                                                            {reg.team_role === 'captain' ? 'Captain · ' : ''}{reg.team_name}
+                                                        </span>
+                                                    )}
+                                                    {reg.has_discount && (
+                                                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                                                            Korting
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td className="whitespace-nowrap px-3 py-4 text-sm">
+                                                    <StatusBadge status={reg.registration_status} />
+                                                </td>
+                                                <td className="whitespace-nowrap px-3 py-4 text-sm">
+                                                    <PaymentBadge status={reg.payment_status} />
+                                                </td>
+                                                <td className="whitespace-nowrap px-3 py-4 text-sm">
+                                                    <AssignmentBadge status={reg.assignment_status} />
+                                                </td>
+                                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                                                    {new Date(reg.created_at).toLocaleDateString('nl-NL', {
+                                                        day: 'numeric',
+                                                        month: 'short',
+                                                        year: 'numeric'
+                                                    })}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            {/* Pagination */}
+                            {pages > 1 && (
+                                <div className="flex items-center justify-between border-t border-gray-200 bg-white px-4 py-3 sm:px-6 mt-4 rounded-lg">
+                                    <div className="flex flex-1 justify-between sm:hidden">
+                                        <button
+                                            onClick={() => setPage(p => Math.max(1, p - 1))}
+                                            disabled={page === 1}
+                                            className="relative inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                        >
+                                            Vorige
+                                        </button>
+                                        <button
+                                            onClick={() => setPage(p => Math.min(pages, p + 1))}
+                                            disabled={page === pages}
+                                            className="relative ml-3 inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                        >
+                                            Volgende
+                                        </button>
+                                    </div>
+                                    <div className="hidden sm:flex sm:flex-1 sm:items-center sm:justify-between">
+                                        <div>
+                                            <p className="text-sm text-gray-700">
+                                                Toont <span className="font-medium">{(page - 1) * pageSize + 1}</span> tot{' '}
+                                                <span className="font-medium">{Math.min(page * pageSize, total)}</span> van{' '}
+                                                <span className="font-medium">{total}</span> resultaten
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center space-x-2">
+                                            <button
+                                                onClick={() => setPage(p => Math.max(1, p - 1))}
+                                                disabled={page === 1}
+                                                className="relative inline-flex items-center rounded-md border border-gray-300 bg-white p-2 text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
+                                            >
+                                                <ChevronLeft className="h-5 w-5" />
+                                            </button>
+                                            <span className="text-sm text-gray-700">
+                                                Pagina {page} van {pages}
+                                            </span>
+                                            <button
+                                                onClick={() => setPage(p => Math.min(pages, p + 1))}
+                                                disabled={page === pages}
+                                                className="relative inline-flex items-center rounded-md border border-gray-300 bg-white p-2 text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
+                                            >
+                                                <ChevronRight className="h-5 w-5" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+                        </>
+                    )}
                 </>
             )}
         </div>
@@ -549,6 +621,80 @@ function StatCard({ icon, label, value }: { icon: React.ReactNode; label: string
     )
 }
 
+// Startnummer met inline bewerken (handmatige toewijzing per ticket)
+function BibCell({ registration, onSaved, onError }: {
+    registration: RegistrationRow
+    onSaved: () => void
+    onError: (message: string | null) => void
+}) {
+    const [editing, setEditing] = useState(false)
+    const [value, setValue] = useState(registration.bib_number ?? '')
+    const [saving, setSaving] = useState(false)
+
+    if (!registration.ticket_instance_id) {
+        return <span className="text-gray-400">{registration.bib_number || '–'}</span>
+    }
+
+    const handleSave = async () => {
+        const trimmed = value.trim()
+        const bibNumber = trimmed === '' ? null : Number(trimmed)
+        if (bibNumber !== null && (!Number.isInteger(bibNumber) || bibNumber < 1)) {
+            onError(BIB_ERRORS.INVALID_BIB_NUMBER)
+            return
+        }
+
+        setSaving(true)
+        onError(null)
+        const { error } = await setTicketBibNumber(registration.ticket_instance_id!, bibNumber)
+        setSaving(false)
+
+        if (error) {
+            onError(BIB_ERRORS[error.message] || error.message)
+            return
+        }
+
+        setEditing(false)
+        onSaved()
+    }
+
+    if (editing) {
+        return (
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault()
+                    handleSave()
+                }}
+                className="flex items-center gap-1"
+            >
+                <input
+                    type="number"
+                    min={1}
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditing(false)}
+                    autoFocus
+                    className="w-20 rounded-md border-gray-300 text-sm py-1 focus:border-indigo-500 focus:ring-indigo-500"
+                />
+                {saving && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+            </form>
+        )
+    }
+
+    return (
+        <button
+            onClick={() => {
+                setValue(registration.bib_number ?? '')
+                setEditing(true)
+            }}
+            className="group inline-flex items-center gap-1 font-medium text-gray-900 tabular-nums"
+            title="Startnummer aanpassen"
+        >
+            {registration.bib_number || <span className="text-gray-400 font-normal">–</span>}
+            <Pencil className="h-3.5 w-3.5 text-gray-300 group-hover:text-indigo-600" />
+        </button>
+    )
+}
+
 // Status Badge
 function StatusBadge({ status }: { status: string }) {
     const config: Record<string, { bg: string; text: string; label: string }> = {
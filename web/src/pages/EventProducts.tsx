@@ -0,0 +1,791 @@
+/**
+ * EventProducts Page
+ *
+ * Producten tab binnen event detail (add-ons naast tickets).
+ * Features:
+ * - Catalogus: producten met varianten (maten) en voorraad
+ * - Modal voor product create/edit incl. varianten
+ * - Status toggle en delete
+ * - Picklijst: betaalde productregels, af te vinken bij uitgifte
+ */
+
+import { useEffect, useState } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import { Plus, ShoppingBag, Loader2, Trash2, CheckCircle, XCircle, Edit2, ClipboardList, Square, CheckSquare } from 'lucide-react'
+import { clsx } from 'clsx'
+import {
+    listProducts,
+    createProduct,
+    updateProduct,
+    setProductStatus,
+    softDeleteProduct,
+    upsertVariant,
+    softDeleteVariant,
+    getEventPickList,
+    setPickListItemStatus,
+    type CreateProductPayload,
+    type ProductStatus,
+    type PickListSummaryRow,
+    type PickListLine,
+} from '../data/products'
+import { formatPrice } from '../data/tickets'
+import type { Product, AppEvent, Organization } from '../types/supabase'
+
+// Context type van EventDetail
+interface EventContext {
+    event: AppEvent
+    org: Organization
+    refreshEvent: () => void
+}
+
+const CATEGORY_LABELS: Record<Product['category'], string> = {
+    merchandise: 'Merchandise',
+    parking: 'Parkeren',
+    medal: 'Medaille',
+    other: 'Overig',
+}
+
+export function EventProducts() {
+    const { event } = useOutletContext<EventContext>()
+
+    const [tab, setTab] = useState<'catalog' | 'picklist'>('catalog')
+    const [products, setProducts] = useState<Product[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+
+    // Modal state
+    const [showModal, setShowModal] = useState(false)
+    const [editingProduct, setEditingProduct] = useState<Product | null>(null)
+    const [actionLoading, setActionLoading] = useState<string | null>(null) // productId or 'save'
+    const [reloadKey, setReloadKey] = useState(0)
+
+    // Fetch products
+    useEffect(() => {
+        async function fetchProducts() {
+            const { data, error: fetchError } = await listProducts(event.id)
+
+            if (fetchError) {
+                console.error('[EventProducts] Error:', fetchError)
+                setError(fetchError.message)
+            } else {
+                setProducts(data || [])
+            }
+
+            setLoading(false)
+        }
+
+        fetchProducts()
+    }, [event.id, reloadKey])
+
+    const handleCreate = () => {
+        setEditingProduct(null)
+        setShowModal(true)
+    }
+
+    const handleEdit = (product: Product) => {
+        setEditingProduct(product)
+        setShowModal(true)
+    }
+
+    // Toggle status
+    const handleToggleStatus = async (product: Product) => {
+        const newStatus: ProductStatus = product.status === 'published' ? 'draft' : 'published'
+
+        setActionLoading(product.id)
+
+        const { data, error: updateError } = await setProductStatus(product.id, newStatus)
+
+        if (updateError) {
+            setError(updateError.message)
+        } else if (data) {
+            setProducts(prev => prev.map(p => p.id === product.id ? { ...p, status: data.status } : p))
+        }
+
+        setActionLoading(null)
+    }
+
+    // Delete product
+    const handleDelete = async (product: Product) => {
+        if (!confirm(`Weet je zeker dat je "${product.name}" wilt verwijderen?`)) return
+
+        setActionLoading(product.id)
+
+        const { success, error: deleteError } = await softDeleteProduct(product.id)
+
+        if (deleteError) {
+            setError(deleteError.message)
+        } else if (success) {
+            setProducts(prev => prev.filter(p => p.id !== product.id))
+        }
+
+        setActionLoading(null)
+    }
+
+    // Save product + variants
+    const handleFormSubmit = async (payload: CreateProductPayload, variants: VariantDraft[]) => {
+        setActionLoading('save')
+
+        const { data: saved, error: saveError } = editingProduct
+            ? await updateProduct(editingProduct.id, payload)
+            : await createProduct(event.id, payload)
+
+        if (saveError || !saved) {
+            setError(saveError?.message || 'Opslaan mislukt')
+            setActionLoading(null)
+            return
+        }
+
+        // Verwijderde varianten soft deleten
+        const keptIds = new Set(variants.filter(v => v.id).map(v => v.id))
+        for (const existing of editingProduct?.product_variants || []) {
+            if (!keptIds.has(existing.id)) {
+                const { error: delError } = await softDeleteVariant(existing.id)
+                if (delError) setError(delError.message)
+            }
+        }
+
+        // Varianten opslaan (volgorde = sort_order)
+        for (const [index, variant] of variants.entries()) {
+            const { error: variantError } = await upsertVariant(saved.id, {
+                id: variant.id,
+                name: variant.name,
+                price_adjustment: variant.price_adjustment,
+                stock_total: variant.stock_total,
+                sort_order: index,
+            })
+            if (variantError) setError(variantError.message)
+        }
+
+        setReloadKey(k => k + 1)
+        setShowModal(false)
+        setActionLoading(null)
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+            </div>
+        )
+    }
+
+    return (
+        <div>
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+                <div>
+                    <h3 className="text-lg font-medium text-gray-900">Producten</h3>
+                    <p className="text-sm text-gray-500">Merchandise, parkeren en andere extra's naast tickets.</p>
+                </div>
+                {tab === 'catalog' && (
+                    <button
+                        onClick={handleCreate}
+                        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700"
+                    >
+                        <Plus className="mr-2 h-4 w-4" />
+                        Product toevoegen
+                    </button>
+                )}
+            </div>
+
+            {/* Tabs */}
+            <div className="border-b border-gray-200 mb-6">
+                <nav className="-mb-px flex space-x-6">
+                    {([
+                        { key: 'catalog', label: 'Catalogus', icon: ShoppingBag },
+                        { key: 'picklist', label: 'Picklijst', icon: ClipboardList },
+                    ] as const).map(({ key, label, icon: Icon }) => (
+                        <button
+                            key={key}
+                            onClick={() => setTab(key)}
+                            className={clsx(
+                                'inline-flex items-center pb-3 px-1 border-b-2 text-sm font-medium',
+                                tab === key
+                                    ? 'border-indigo-500 text-indigo-600'
+                                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                            )}
+                        >
+                            <Icon className="mr-2 h-4 w-4" />
+                            {label}
+                        </button>
+                    ))}
+                </nav>
+            </div>
+
+            {/* Error */}
+            {error && (
+                <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+                    <p className="text-sm text-red-800">{error}</p>
+                    <button onClick={() => setError(null)} className="text-sm text-red-600 underline">Sluiten</button>
+                </div>
+            )}
+
+            {tab === 'picklist' ? (
+                <PickList eventId={event.id} onError={setError} />
+            ) : products.length === 0 ? (
+                // Empty State
+                <div className="text-center py-12 bg-gray-50 rounded-lg">
+                    <ShoppingBag className="mx-auto h-12 w-12 text-gray-400" />
+                    <h3 className="mt-2 text-sm font-medium text-gray-900">Geen producten</h3>
+                    <p className="mt-1 text-sm text-gray-500">Voeg bijvoorbeeld een t-shirt, parkeerkaart of medaille toe.</p>
+                    <div className="mt-6">
+                        <button
+                            onClick={handleCreate}
+                            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                            <Plus className="-ml-1 mr-2 h-5 w-5" />
+                            Product toevoegen
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                // Product Table
+                <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+                    <table className="min-w-full divide-y divide-gray-300">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">Naam</th>
+                                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Categorie</th>
+                                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Prijs</th>
+                                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Varianten / voorraad</th>
+                                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
+                                <th className="relative py-3.5 pl-3 pr-4"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 bg-white">
+                            {products.map((product) => (
+                                <tr key={product.id} className="hover:bg-gray-50">
+                                    <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm">
+                                        <div className="font-medium text-gray-900">{product.name}</div>
+                                        {product.description && (
+                                            <div className="text-gray-500 truncate max-w-xs">{product.description}</div>
+                                        )}
+                                    </td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                                        {CATEGORY_LABELS[product.category]}
+                                    </td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                                        {product.price === 0 ? (
+                                            <span className="text-green-600 font-medium">Gratis</span>
+                                        ) : (
+                                            formatPrice(product.price)
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-4 text-sm text-gray-500">
+                                        {product.product_variants && product.product_variants.length > 0 ? (
+                                            <div className="flex flex-wrap gap-1">
+                                                {product.product_variants.map(v => (
+                                                    <span key={v.id} className="inline-flex items-center px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-700">
+                                                        {v.name}: {v.stock_total ?? '∞'}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        ) : product.stock_total === null ? (
+                                            <span className="text-gray-400">Onbeperkt</span>
+                                        ) : (
+                                            product.stock_total
+                                        )}
+                                    </td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                                        <StatusBadge status={product.status} />
+                                    </td>
+                                    <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium">
+                                        <div className="flex items-center justify-end space-x-2">
+                                            <button
+                                                onClick={() => handleToggleStatus(product)}
+                                                disabled={actionLoading === product.id}
+                                                className={clsx(
+                                                    'p-1 rounded',
+                                                    product.status === 'published'
+                                                        ? 'text-yellow-600 hover:bg-yellow-50'
+                                                        : 'text-green-600 hover:bg-green-50',
+                                                    'disabled:opacity-50'
+                                                )}
+                                                title={product.status === 'published' ? 'Zet naar concept' : 'Publiceer'}
+                                            >
+                                                {actionLoading === product.id ? (
+                                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                                ) : product.status === 'published' ? (
+                                                    <XCircle className="h-4 w-4" />
+                                                ) : (
+                                                    <CheckCircle className="h-4 w-4" />
+                                                )}
+                                            </button>
+                                            <button
+                                                onClick={() => handleEdit(product)}
+                                                className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-indigo-50"
+                                                title="Bewerken"
+                                            >
+                                                <Edit2 className="h-4 w-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(product)}
+                                                disabled={actionLoading === product.id}
+                                                className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-50"
+                                                title="Verwijderen"
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Create/Edit Modal */}
+            {showModal && (
+                <ProductModal
+                    product={editingProduct}
+                    loading={actionLoading === 'save'}
+                    onSubmit={handleFormSubmit}
+                    onClose={() => setShowModal(false)}
+                />
+            )}
+        </div>
+    )
+}
+
+/**
+ * Status Badge Component
+ */
+function StatusBadge({ status }: { status: string }) {
+    const config = {
+        draft: { bg: 'bg-yellow-100', text: 'text-yellow-800', label: 'Concept' },
+        published: { bg: 'bg-green-100', text: 'text-green-800', label: 'Gepubliceerd' },
+        closed: { bg: 'bg-gray-100', text: 'text-gray-800', label: 'Gesloten' },
+    }
+
+    const { bg, text, label } = config[status as keyof typeof config] || config.draft
+
+    return (
+        <span className={clsx('inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium', bg, text)}>
+            {label}
+        </span>
+    )
+}
+
+/**
+ * Picklijst: totalen per product/variant + regels per order
+ */
+function PickList({ eventId, onError }: { eventId: string; onError: (message: string) => void }) {
+    const [summary, setSummary] = useState<PickListSummaryRow[]>([])
+    const [lines, setLines] = useState<PickListLine[]>([])
+    const [loading, setLoading] = useState(true)
+    const [updating, setUpdating] = useState<string | null>(null)
+    const [reloadKey, setReloadKey] = useState(0)
+
+    useEffect(() => {
+        async function fetchPickList() {
+            const { data, error } = await getEventPickList(eventId)
+
+            if (error) {
+                onError(error.message)
+            } else if (data) {
+                setSummary(data.summary)
+                setLines(data.lines)
+            }
+
+            setLoading(false)
+        }
+
+        fetchPickList()
+    }, [eventId, onError, reloadKey])
+
+    const handleToggle = async (line: PickListLine) => {
+        const newStatus = line.status === 'picked' ? 'pending' : 'picked'
+        setUpdating(line.id)
+
+        const { error } = await setPickListItemStatus(line.id, newStatus)
+
+        if (error) {
+            onError(error.message)
+        } else {
+            setReloadKey(k => k + 1)
+        }
+
+        setUpdating(null)
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+            </div>
+        )
+    }
+
+    if (lines.length === 0) {
+        return (
+            <div className="text-center py-12 bg-gray-50 rounded-lg">
+                <ClipboardList className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">Nog niets te picken</h3>
+                <p className="mt-1 text-sm text-gray-500">Betaalde productbestellingen verschijnen hier.</p>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Totalen */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {summary.map(row => (
+                    <div key={`${row.product_id}-${row.product_variant_id ?? 'none'}`} className="bg-white shadow rounded-lg p-4">
+                        <p className="text-sm font-medium text-gray-900">
+                            {row.product_name}{row.variant_name ? ` — ${row.variant_name}` : ''}
+                        </p>
+                        <p className="mt-1 text-2xl font-semibold text-gray-900">{row.total_quantity}</p>
+                        <p className="text-xs text-gray-500">
+                            {row.picked_quantity} gepickt · {row.pending_quantity} open
+                        </p>
+                    </div>
+                ))}
+            </div>
+
+            {/* Regels */}
+            <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-300">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">Koper</th>
+                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Product</th>
+                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Aantal</th>
+                            <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Gepickt</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 bg-white">
+                        {lines.map(line => (
+                            <tr key={line.id} className={clsx(line.status === 'cancelled' && 'opacity-50')}>
+                                <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm">
+                                    <div className="font-medium text-gray-900">{line.purchaser_name || line.order_email}</div>
+                                    <div className="text-gray-500 text-xs font-mono">#{line.order_id.slice(0, 8)}</div>
+                                </td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                                    {line.product_name}
+                                    {line.variant_name && <span className="text-gray-500"> — {line.variant_name}</span>}
+                                </td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{line.quantity}</td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm">
+                                    <button
+                                        onClick={() => handleToggle(line)}
+                                        disabled={updating === line.id || line.status === 'cancelled'}
+                                        className="p-1 rounded text-gray-500 hover:text-indigo-600 disabled:opacity-50"
+                                        title={line.status === 'picked' ? 'Markeer als open' : 'Markeer als gepickt'}
+                                    >
+                                        {updating === line.id ? (
+                                            <Loader2 className="h-5 w-5 animate-spin" />
+                                        ) : line.status === 'picked' ? (
+                                            <CheckSquare className="h-5 w-5 text-green-600" />
+                                        ) : (
+                                            <Square className="h-5 w-5" />
+                                        )}
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    )
+}
+
+/**
+ * Product Create/Edit Modal (incl. varianten)
+ */
+interface VariantDraft {
+    id?: string
+    name: string
+    price_adjustment: number
+    stock_total: number | null
+}
+
+interface ProductModalProps {
+    product: Product | null
+    loading: boolean
+    onSubmit: (payload: CreateProductPayload, variants: VariantDraft[]) => void
+    onClose: () => void
+}
+
+function ProductModal({ product, loading, onSubmit, onClose }: ProductModalProps) {
+    const isEdit = !!product
+
+    const [name, setName] = useState(product?.name || '')
+    const [description, setDescription] = useState(product?.description || '')
+    const [category, setCategory] = useState<Product['category']>(product?.category || 'merchandise')
+    const [price, setPrice] = useState(product?.price?.toString() || '0')
+    const [stock, setStock] = useState(product?.stock_total?.toString() || '')
+    const [maxPerOrder, setMaxPerOrder] = useState(product?.max_per_order?.toString() || '')
+    const [variants, setVariants] = useState<{ id?: string; name: string; priceAdjustment: string; stock: string }[]>(
+        (product?.product_variants || []).map(v => ({
+            id: v.id,
+            name: v.name,
+            priceAdjustment: v.price_adjustment.toString(),
+            stock: v.stock_total?.toString() || '',
+        }))
+    )
+    const [formError, setFormError] = useState<string | null>(null)
+
+    const updateVariant = (index: number, field: 'name' | 'priceAdjustment' | 'stock', value: string) => {
+        setVariants(prev => prev.map((v, i) => i === index ? { ...v, [field]: value } : v))
+    }
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault()
+        setFormError(null)
+
+        // Validation
+        if (!name.trim()) {
+            setFormError('Naam is verplicht')
+            return
+        }
+
+        const priceNum = parseFloat(price)
+        if (isNaN(priceNum) || priceNum < 0) {
+            setFormError('Prijs moet 0 of hoger zijn')
+            return
+        }
+
+        const stockNum = stock.trim() === '' ? null : parseInt(stock, 10)
+        if (stockNum !== null && (isNaN(stockNum) || stockNum < 0)) {
+            setFormError('Voorraad moet leeg (onbeperkt) of 0 en hoger zijn')
+            return
+        }
+
+        const maxNum = maxPerOrder.trim() === '' ? null : parseInt(maxPerOrder, 10)
+        if (maxNum !== null && (isNaN(maxNum) || maxNum < 1)) {
+            setFormError('Max per bestelling moet leeg of minimaal 1 zijn')
+            return
+        }
+
+        const variantDrafts: VariantDraft[] = []
+        const seen = new Set<string>()
+        for (const v of variants) {
+            if (!v.name.trim()) {
+                setFormError('Elke variant heeft een naam nodig')
+                return
+            }
+            if (seen.has(v.name.trim().toLowerCase())) {
+                setFormError(`Variant "${v.name.trim()}" bestaat al`)
+                return
+            }
+            seen.add(v.name.trim().toLowerCase())
+
+            const adjustment = v.priceAdjustment.trim() === '' ? 0 : parseFloat(v.priceAdjustment)
+            const variantStock = v.stock.trim() === '' ? null : parseInt(v.stock, 10)
+            if (isNaN(adjustment) || (variantStock !== null && (isNaN(variantStock) || variantStock < 0))) {
+                setFormError(`Ongeldige prijs of voorraad bij variant "${v.name.trim()}"`)
+                return
+            }
+
+            variantDrafts.push({
+                id: v.id,
+                name: v.name.trim(),
+                price_adjustment: adjustment,
+                stock_total: variantStock,
+            })
+        }
+
+        onSubmit({
+            name: name.trim(),
+            description: description.trim() || null,
+            category,
+            price: priceNum,
+            // Met varianten telt alleen de voorraad per variant
+            stock_total: variantDrafts.length > 0 ? null : stockNum,
+            max_per_order: maxNum,
+        }, variantDrafts)
+    }
+
+    const inputClass = 'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm'
+
+    return (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+                <form onSubmit={handleSubmit}>
+                    <div className="px-6 py-4 border-b border-gray-200">
+                        <h3 className="text-lg font-medium text-gray-900">
+                            {isEdit ? 'Product bewerken' : 'Nieuw product'}
+                        </h3>
+                    </div>
+
+                    <div className="px-6 py-4 space-y-4">
+                        {/* Naam */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">
+                                Naam <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="text"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="Bijv. Event T-shirt, Parkeerkaart, Finisher medaille"
+                                className={inputClass}
+                                required
+                            />
+                        </div>
+
+                        {/* Beschrijving */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Beschrijving</label>
+                            <textarea
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                                rows={2}
+                                className={inputClass}
+                            />
+                        </div>
+
+                        {/* Categorie + Prijs */}
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Categorie</label>
+                                <select
+                                    value={category}
+                                    onChange={(e) => setCategory(e.target.value as Product['category'])}
+                                    className={inputClass}
+                                >
+                                    {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                                        <option key={value} value={value}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Prijs (EUR)</label>
+                                <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={price}
+                                    onChange={(e) => setPrice(e.target.value)}
+                                    className={inputClass}
+                                />
+                            </div>
+                        </div>
+
+                        {/* Voorraad + Max */}
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Voorraad</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={stock}
+                                    onChange={(e) => setStock(e.target.value)}
+                                    disabled={variants.length > 0}
+                                    placeholder={variants.length > 0 ? 'Per variant' : 'Onbeperkt'}
+                                    className={clsx(inputClass, 'disabled:bg-gray-100')}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Max per bestelling</label>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={maxPerOrder}
+                                    onChange={(e) => setMaxPerOrder(e.target.value)}
+                                    placeholder="Geen limiet"
+                                    className={inputClass}
+                                />
+                            </div>
+                        </div>
+
+                        {/* Varianten */}
+                        <div>
+                            <div className="flex items-center justify-between">
+                                <label className="block text-sm font-medium text-gray-700">Varianten</label>
+                                <button
+                                    type="button"
+                                    onClick={() => setVariants(prev => [...prev, { name: '', priceAdjustment: '0', stock: '' }])}
+                                    className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+                                >
+                                    <Plus className="mr-1 h-4 w-4" />
+                                    Variant
+                                </button>
+                            </div>
+                            <p className="mt-1 text-xs text-gray-500">
+                                Bijv. maten S/M/L. Met varianten wordt de voorraad per variant bijgehouden.
+                            </p>
+                            {variants.length > 0 && (
+                                <div className="mt-2 space-y-2">
+                                    <div className="grid grid-cols-12 gap-2 text-xs text-gray-500">
+                                        <span className="col-span-5">Naam</span>
+                                        <span className="col-span-3">Meerprijs</span>
+                                        <span className="col-span-3">Voorraad</span>
+                                    </div>
+                                    {variants.map((v, index) => (
+                                        <div key={v.id ?? `new-${index}`} className="grid grid-cols-12 gap-2 items-center">
+                                            <input
+                                                type="text"
+                                                value={v.name}
+                                                onChange={(e) => updateVariant(index, 'name', e.target.value)}
+                                                placeholder="M"
+                                                className="col-span-5 border-gray-300 rounded-md shadow-sm sm:text-sm"
+                                            />
+                                            <input
+                                                type="number"
+                                                step="0.01"
+                                                value={v.priceAdjustment}
+                                                onChange={(e) => updateVariant(index, 'priceAdjustment', e.target.value)}
+                                                className="col-span-3 border-gray-300 rounded-md shadow-sm sm:text-sm"
+                                            />
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                value={v.stock}
+                                                onChange={(e) => updateVariant(index, 'stock', e.target.value)}
+                                                placeholder="∞"
+                                                className="col-span-3 border-gray-300 rounded-md shadow-sm sm:text-sm"
+                                            />
+                                            <button
+                                                type="button"
+                                                onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}
+                                                className="col-span-1 p-1 rounded text-gray-400 hover:text-red-600"
+                                                title="Variant verwijderen"
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Error */}
+                        {formError && (
+                            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                                <p className="text-sm text-red-800">{formError}</p>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="px-6 py-4 bg-gray-50 flex justify-end space-x-3 rounded-b-lg">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                            Annuleren
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                            {loading ? (
+                                <>
+                                    <Loader2 className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                                    Opslaan...
+                                </>
+                            ) : (
+                                isEdit ? 'Opslaan' : 'Toevoegen'
+                            )}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,653 @@
+/**
+ * EventQuestions Page
+ *
+ * Vragenbouwer voor de registratievragen van een event.
+ * Features:
+ * - Vragen aanmaken/bewerken per event of per tickettype
+ * - Validatieregels per type (min/max, lengte, regex, datumbereik, bestandsgrootte)
+ * - Show-if regels op het antwoord van een eerdere vraag
+ * - Volgorde aanpassen (een show-if vraag blijft na zijn bronvraag)
+ * - Voorbeeld van het formulier per tickettype
+ */
+
+import { useEffect, useState } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import {
+    Loader2, Plus, Pencil, Trash2, ChevronUp, ChevronDown, ClipboardList, X, GitBranch, Lock
+} from 'lucide-react'
+import type { AppEvent, Organization } from '../types/supabase'
+import type { AnswerOperator } from '../data/segments'
+import {
+    deleteRegistrationQuestion,
+    getRegistrationQuestionsAdmin,
+    questionsForTicketType,
+    reorderRegistrationQuestions,
+    upsertRegistrationQuestion,
+    validateAnswers,
+    type AdminRegistrationQuestion,
+    type AnswerErrorReason,
+    type QuestionType,
+    type RegistrationAnswers,
+    type RegistrationQuestionInput,
+    type RegistrationQuestionsAdminData
+} from '../data/registration_questions'
+import { RegistrationQuestionFields } from '../components/RegistrationQuestionFields'
+
+interface EventDetailContext {
+    event: AppEvent
+    org: Organization
+    refreshEvent: () => void
+}
+
+const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+    { value: 'text', label: 'Korte tekst' },
+    { value: 'textarea', label: 'Lange tekst' },
+    { value: 'number', label: 'Getal' },
+    { value: 'select', label: 'Keuzelijst' },
+    { value: 'checkbox', label: 'Vinkje' },
+    { value: 'date', label: 'Datum' },
+    { value: 'file', label: 'Bestand' },
+]
+
+// Zelfde labels als de segmentvoorwaarden
+const OPERATORS: { value: AnswerOperator; label: string }[] = [
+    { value: 'equals', label: 'is gelijk aan' },
+    { value: 'not_equals', label: 'is niet gelijk aan' },
+    { value: 'contains', label: 'bevat' },
+    { value: 'is_set', label: 'is ingevuld' },
+    { value: 'is_not_set', label: 'is niet ingevuld' },
+]
+
+// Foutcodes van de vragen-RPCs → tekst
+const QUESTION_ERRORS: Record<string, string> = {
+    UNAUTHORIZED: 'Alleen owners en admins kunnen registratievragen beheren.',
+    INVALID_TYPE: 'Kies een vraagtype.',
+    INVALID_LABEL: 'Vul een vraag in (max. 300 tekens).',
+    INVALID_OPTIONS: 'Een keuzelijst heeft minstens één optie nodig.',
+    INVALID_VALIDATION: 'Controleer de validatieregels (minimum niet boven maximum, geldige regex, bestand max. 10 MB).',
+    INVALID_CONDITION: 'De show-if regel moet naar een eerdere vraag voor hetzelfde ticket wijzen en een waarde hebben.',
+    TICKET_TYPE_NOT_FOUND: 'Dit tickettype bestaat niet meer.',
+    QUESTION_NOT_FOUND: 'Deze vraag bestaat niet meer.',
+    QUESTION_HAS_ANSWERS: 'Deze vraag is al beantwoord; verwijderen of het type wijzigen kan niet meer.',
+    QUESTION_IN_USE: 'Andere vragen hebben een show-if regel op deze vraag.',
+    CONDITION_ORDER: 'Een vraag met een show-if regel moet na zijn bronvraag blijven.',
+}
+
+function errorText(code: string | undefined): string {
+    return (code && QUESTION_ERRORS[code]) || 'Opslaan mislukt, probeer het opnieuw.'
+}
+
+/** Wissel twee posities in een kopie van de array */
+function swap<T>(items: T[], a: number, b: number): T[] {
+    const next = [...items]
+    ;[next[a], next[b]] = [next[b], next[a]]
+    return next
+}
+
+function typeLabel(type: QuestionType): string {
+    return QUESTION_TYPES.find(t => t.value === type)?.label ?? type
+}
+
+export function EventQuestions() {
+    const { event } = useOutletContext<EventDetailContext>()
+
+    const [questionData, setQuestionData] = useState<RegistrationQuestionsAdminData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [editing, setEditing] = useState<AdminRegistrationQuestion | 'new' | null>(null)
+
+    // Versie-teller: ophogen na een eigen actie laadt opnieuw
+    const [version, setVersion] = useState(0)
+    const reload = () => setVersion(v => v + 1)
+
+    const eventId = event?.id
+
+    useEffect(() => {
+        if (!eventId) return
+        let cancelled = false
+
+        async function load() {
+            const { data, error: fetchError } = await getRegistrationQuestionsAdmin(eventId!)
+            if (cancelled) return
+            if (fetchError) {
+                setError(errorText(fetchError.message))
+            } else {
+                setQuestionData(data)
+            }
+            setLoading(false)
+        }
+
+        load()
+
+        return () => {
+            cancelled = true
+        }
+    }, [eventId, version])
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    const questions = questionData?.questions ?? []
+    const ticketTypes = questionData?.ticket_types ?? []
+    const canEdit = questionData?.can_edit ?? false
+
+    const ticketName = (ticketTypeId: string | null) =>
+        ticketTypeId ? ticketTypes.find(t => t.id === ticketTypeId)?.name ?? 'Onbekend ticket' : 'Alle tickets'
+
+    const runAction = async (action: () => Promise<{ error: Error | null }>) => {
+        setError(null)
+        const { error: actionError } = await action()
+        if (actionError) {
+            setError(errorText(actionError.message))
+        }
+        reload()
+    }
+
+    const handleMove = (index: number, direction: -1 | 1) => {
+        if (!questions[index + direction]) return
+        const order = swap(questions.map(q => q.id), index, index + direction)
+        runAction(() => reorderRegistrationQuestions(event.id, order))
+    }
+
+    const handleDelete = (question: AdminRegistrationQuestion) => {
+        if (!confirm(`Vraag "${question.label}" verwijderen?`)) return
+        runAction(() => deleteRegistrationQuestion(question.id))
+    }
+
+    return (
+        <div>
+            <div className="mb-6 flex items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Registratievragen</h1>
+                    <p className="text-sm text-gray-500">
+                        Elke deelnemer beantwoordt deze vragen per ticket in de checkout; teamleden bij hun aanmelding.
+                        Bestanden worden privé opgeslagen.
+                    </p>
+                </div>
+                {canEdit && (
+                    <button
+                        onClick={() => setEditing('new')}
+                        className="flex-shrink-0 inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                    >
+                        <Plus className="h-4 w-4 mr-1.5" />
+                        Nieuwe vraag
+                    </button>
+                )}
+            </div>
+
+            {error && (
+                <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">{error}</div>
+            )}
+
+            {editing && (
+                <QuestionForm
+                    key={editing === 'new' ? 'new' : editing.id}
+                    eventId={event.id}
+                    question={editing === 'new' ? null : editing}
+                    questions={questions}
+                    ticketTypes={ticketTypes}
+                    onClose={() => setEditing(null)}
+                    onSaved={() => {
+                        setEditing(null)
+                        reload()
+                    }}
+                />
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Questions */}
+                <div className="lg:col-span-2">
+                    {questions.length === 0 ? (
+                        <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-sm text-gray-500">
+                            <ClipboardList className="h-10 w-10 mx-auto text-gray-300 mb-2" />
+                            Nog geen registratievragen
+                        </div>
+                    ) : (
+                        <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+                            {questions.map((question, index) => {
+                                const source = question.show_if
+                                    ? questions.find(q => q.id === question.show_if!.question_id)
+                                    : null
+
+                                return (
+                                    <li key={question.id} className="px-4 py-3 flex items-start gap-3">
+                                        {canEdit && (
+                                            <div className="flex flex-col">
+                                                <button
+                                                    onClick={() => handleMove(index, -1)}
+                                                    disabled={index === 0}
+                                                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                                                >
+                                                    <ChevronUp className="h-4 w-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleMove(index, 1)}
+                                                    disabled={index === questions.length - 1}
+                                                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                                                >
+                                                    <ChevronDown className="h-4 w-4" />
+                                                </button>
+                                            </div>
+                                        )}
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-sm font-medium text-gray-900 truncate">
+                                                    {question.label}
+                                                    {question.is_required && <span className="text-red-500 ml-0.5">*</span>}
+                                                </span>
+                                                <span className="flex-shrink-0 text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                                                    {typeLabel(question.question_type)}
+                                                </span>
+                                                {question.is_medical && (
+                                                    <span title="Medisch: alleen zichtbaar voor owner/admin/support">
+                                                        <Lock className="h-4 w-4 flex-shrink-0 text-amber-500" />
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <p className="mt-0.5 text-xs text-gray-500">
+                                                {ticketName(question.ticket_type_id)}
+                                                {' · '}
+                                                {question.answer_count} {question.answer_count === 1 ? 'antwoord' : 'antwoorden'}
+                                            </p>
+                                            {question.show_if && (
+                                                <p className="mt-1 flex items-center text-xs text-indigo-600">
+                                                    <GitBranch className="h-3.5 w-3.5 mr-1" />
+                                                    Alleen als "{source?.label ?? 'onbekende vraag'}"{' '}
+                                                    {OPERATORS.find(o => o.value === question.show_if!.operator)?.label}
+                                                    {question.show_if.value !== undefined && ` "${question.show_if.value}"`}
+                                                </p>
+                                            )}
+                                        </div>
+                                        {canEdit && (
+                                            <div className="flex gap-1 flex-shrink-0">
+                                                <button
+                                                    onClick={() => setEditing(question)}
+                                                    className="p-1.5 text-gray-400 hover:text-indigo-600"
+                                                >
+                                                    <Pencil className="h-4 w-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDelete(question)}
+                                                    disabled={question.answer_count > 0}
+                                                    title={question.answer_count > 0 ? 'Al beantwoord' : undefined}
+                                                    className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </button>
+                                            </div>
+                                        )}
+                                    </li>
+                                )
+                            })}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Preview */}
+                <FormPreview eventId={event.id} questions={questions} ticketTypes={ticketTypes} />
+            </div>
+        </div>
+    )
+}
+
+// ============================================================
+// PREVIEW
+// ============================================================
+
+function FormPreview({ eventId, questions, ticketTypes }: {
+    eventId: string
+    questions: AdminRegistrationQuestion[]
+    ticketTypes: { id: string; name: string }[]
+}) {
+    const [ticketTypeId, setTicketTypeId] = useState(ticketTypes[0]?.id ?? '')
+    const [answers, setAnswers] = useState<RegistrationAnswers>({})
+    const [errors, setErrors] = useState<Record<string, AnswerErrorReason>>({})
+
+    const previewQuestions = questionsForTicketType(questions, ticketTypeId)
+
+    return (
+        <div>
+            <div className="bg-white rounded-lg border border-gray-200">
+                <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between gap-2">
+                    <h2 className="text-sm font-semibold text-gray-900">Voorbeeld</h2>
+                    <select
+                        value={ticketTypeId}
+                        onChange={e => {
+                            setTicketTypeId(e.target.value)
+                            setErrors({})
+                        }}
+                        className="rounded-md border-gray-300 text-xs focus:border-indigo-500 focus:ring-indigo-500"
+                    >
+                        {ticketTypes.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                </div>
+                {previewQuestions.length === 0 ? (
+                    <p className="px-4 py-3 text-sm text-gray-500">Geen vragen voor dit ticket</p>
+                ) : (
+                    <div className="px-4 py-3 space-y-4">
+                        <RegistrationQuestionFields
+                            eventId={eventId}
+                            questions={previewQuestions}
+                            answers={answers}
+                            errors={errors}
+                            onChange={setAnswers}
+                        />
+                        <div className="flex justify-end gap-2">
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    setAnswers({})
+                                    setErrors({})
+                                }}
+                                className="px-3 py-1.5 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                            >
+                                Leegmaken
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setErrors(validateAnswers(previewQuestions, answers))}
+                                className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                            >
+                                Controleren
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+            <p className="mt-2 text-xs text-gray-400">
+                Uploads in het voorbeeld worden echt opgeslagen; gebruik een testbestand.
+            </p>
+        </div>
+    )
+}
+
+// ============================================================
+// QUESTION FORM
+// ============================================================
+
+interface QuestionFormProps {
+    eventId: string
+    question: AdminRegistrationQuestion | null
+    questions: AdminRegistrationQuestion[]
+    ticketTypes: { id: string; name: string }[]
+    onClose: () => void
+    onSaved: () => void
+}
+
+function QuestionForm({ eventId, question, questions, ticketTypes, onClose, onSaved }: QuestionFormProps) {
+    const [values, setValues] = useState<RegistrationQuestionInput>({
+        id: question?.id,
+        ticket_type_id: question?.ticket_type_id ?? null,
+        question_type: question?.question_type ?? 'text',
+        label: question?.label ?? '',
+        description: question?.description ?? null,
+        options: question?.options ?? null,
+        is_required: question?.is_required ?? false,
+        is_medical: question?.is_medical ?? false,
+        validation: question?.validation ?? {},
+        show_if: question?.show_if ?? null
+    })
+    const [optionsText, setOptionsText] = useState((question?.options ?? []).join('\n'))
+    const [saving, setSaving] = useState(false)
+    const [formError, setFormError] = useState<string | null>(null)
+
+    const update = (patch: Partial<RegistrationQuestionInput>) => setValues(prev => ({ ...prev, ...patch }))
+    const updateRule = (key: keyof RegistrationQuestionInput['validation'], raw: string, numeric: boolean) => {
+        const next = { ...values.validation }
+        if (raw.trim() === '') {
+            delete next[key]
+        } else {
+            ;(next as Record<string, unknown>)[key] = numeric ? Number(raw) : raw
+        }
+        update({ validation: next })
+    }
+
+    // Bronvragen: eerder in de volgorde en geldig voor hetzelfde ticket
+    const position = question ? questions.findIndex(q => q.id === question.id) : questions.length
+    const sources = questions.slice(0, position).filter(q =>
+        q.ticket_type_id === null || q.ticket_type_id === values.ticket_type_id
+    )
+    const source = sources.find(q => q.id === values.show_if?.question_id)
+    const needsValue = values.show_if && !['is_set', 'is_not_set'].includes(values.show_if.operator)
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSaving(true)
+        setFormError(null)
+
+        const options = optionsText.split('\n').map(o => o.trim()).filter(Boolean)
+        const { error } = await upsertRegistrationQuestion(eventId, {
+            ...values,
+            options: values.question_type === 'select' ? options : null,
+            show_if: values.show_if && { ...values.show_if, value: needsValue ? values.show_if.value : undefined }
+        })
+
+        setSaving(false)
+        if (error) {
+            setFormError(errorText(error.message))
+            return
+        }
+
+        onSaved()
+    }
+
+    const inputClass = 'mt-1 block w-full rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500'
+    const rules = values.validation
+
+    const ruleInput = (key: keyof RegistrationQuestionInput['validation'], label: string, type: 'number' | 'text' | 'date') => (
+        <div>
+            <label className="block text-xs font-medium text-gray-600">{label}</label>
+            <input
+                type={type}
+                value={(rules[key] as string | number | undefined) ?? ''}
+                onChange={e => updateRule(key, e.target.value, type === 'number')}
+                className={inputClass}
+            />
+        </div>
+    )
+
+    return (
+        <form onSubmit={handleSubmit} className="mb-6 bg-white rounded-lg border border-indigo-200 shadow-sm p-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">{question ? 'Vraag bewerken' : 'Nieuwe vraag'}</h2>
+                <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-700">
+                    <X className="h-5 w-5" />
+                </button>
+            </div>
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700">Vraag</label>
+                    <input
+                        type="text"
+                        value={values.label}
+                        onChange={e => update({ label: e.target.value })}
+                        maxLength={300}
+                        required
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Type</label>
+                    <select
+                        value={values.question_type}
+                        onChange={e => update({ question_type: e.target.value as QuestionType, validation: {} })}
+                        disabled={(question?.answer_count ?? 0) > 0}
+                        className={inputClass}
+                    >
+                        {QUESTION_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700">Toelichting</label>
+                <input
+                    type="text"
+                    value={values.description ?? ''}
+                    onChange={e => update({ description: e.target.value || null })}
+                    className={inputClass}
+                />
+            </div>
+
+            {values.question_type === 'select' && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Opties (één per regel)</label>
+                    <textarea
+                        value={optionsText}
+                        onChange={e => setOptionsText(e.target.value)}
+                        rows={4}
+                        className={inputClass}
+                    />
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Geldt voor</label>
+                    <select
+                        value={values.ticket_type_id ?? ''}
+                        onChange={e => update({ ticket_type_id: e.target.value || null })}
+                        className={inputClass}
+                    >
+                        <option value="">Alle tickets</option>
+                        {ticketTypes.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                </div>
+                <label className="flex items-center gap-2 sm:mt-6 text-sm text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={values.is_required}
+                        onChange={e => update({ is_required: e.target.checked })}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Verplicht
+                </label>
+                <label className="flex items-center gap-2 sm:mt-6 text-sm text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={values.is_medical}
+                        onChange={e => update({ is_medical: e.target.checked })}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Medisch (beperkt zichtbaar)
+                </label>
+            </div>
+
+            {/* Validatieregels per type */}
+            {['text', 'textarea', 'number', 'date', 'file'].includes(values.question_type) && (
+                <fieldset className="rounded-md border border-gray-200 p-4">
+                    <legend className="px-1 text-sm font-medium text-gray-700">Validatie</legend>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        {(values.question_type === 'text' || values.question_type === 'textarea') && (
+                            <>
+                                {ruleInput('min_length', 'Min. tekens', 'number')}
+                                {ruleInput('max_length', 'Max. tekens', 'number')}
+                                {values.question_type === 'text' && ruleInput('pattern', 'Regex (bv. ^[0-9]{4}$)', 'text')}
+                            </>
+                        )}
+                        {values.question_type === 'number' && (
+                            <>
+                                {ruleInput('min', 'Minimum', 'number')}
+                                {ruleInput('max', 'Maximum', 'number')}
+                            </>
+                        )}
+                        {values.question_type === 'date' && (
+                            <>
+                                {ruleInput('min_date', 'Vanaf', 'date')}
+                                {ruleInput('max_date', 'Tot en met', 'date')}
+                            </>
+                        )}
+                        {values.question_type === 'file' && ruleInput('max_size_mb', 'Max. grootte (MB, max 10)', 'number')}
+                    </div>
+                </fieldset>
+            )}
+
+            {/* Show-if */}
+            <fieldset className="rounded-md border border-gray-200 p-4">
+                <legend className="px-1 text-sm font-medium text-gray-700">Tonen als</legend>
+                {sources.length === 0 ? (
+                    <p className="text-sm text-gray-500">Er zijn geen eerdere vragen voor dit ticket; de vraag wordt altijd getoond.</p>
+                ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <select
+                            value={values.show_if?.question_id ?? ''}
+                            onChange={e => update({
+                                show_if: e.target.value
+                                    ? { question_id: e.target.value, operator: values.show_if?.operator ?? 'equals', value: '' }
+                                    : null
+                            })}
+                            className={inputClass}
+                        >
+                            <option value="">Altijd tonen</option>
+                            {sources.map(q => <option key={q.id} value={q.id}>{q.label}</option>)}
+                        </select>
+                        {values.show_if && (
+                            <select
+                                value={values.show_if.operator}
+                                onChange={e => update({ show_if: { ...values.show_if!, operator: e.target.value as AnswerOperator } })}
+                                className={inputClass}
+                            >
+                                {OPERATORS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                            </select>
+                        )}
+                        {values.show_if && needsValue && (
+                            source?.question_type === 'select' ? (
+                                <select
+                                    value={values.show_if.value ?? ''}
+                                    onChange={e => update({ show_if: { ...values.show_if!, value: e.target.value } })}
+                                    className={inputClass}
+                                >
+                                    <option value="">Kies...</option>
+                                    {(source.options || []).map(o => <option key={o} value={o}>{o}</option>)}
+                                </select>
+                            ) : source?.question_type === 'checkbox' ? (
+                                <select
+                                    value={values.show_if.value ?? ''}
+                                    onChange={e => update({ show_if: { ...values.show_if!, value: e.target.value } })}
+                                    className={inputClass}
+                                >
+                                    <option value="">Kies...</option>
+                                    <option value="true">Aangevinkt</option>
+                                </select>
+                            ) : (
+                                <input
+                                    type="text"
+                                    value={values.show_if.value ?? ''}
+                                    onChange={e => update({ show_if: { ...values.show_if!, value: e.target.value } })}
+                                    placeholder="Waarde"
+                                    className={inputClass}
+                                />
+                            )
+                        )}
+                    </div>
+                )}
+            </fieldset>
+
+            <div className="flex justify-end gap-2">
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                    Annuleren
+                </button>
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Opslaan
+                </button>
+            </div>
+        </form>
+    )
+}
@@ -0,0 +1,436 @@
+/**
+ * EventResults Page
+ *
+ * Uitslagen van de tijdwaarneming.
+ * Features:
+ * - Import van CSV of IOF XML met voorbeeld en overgeslagen regels
+ * - Koppeling aan tickets via ticket-id of startnummer
+ * - Klassementen overall, per geslacht, leeftijdscategorie en wave
+ * - Publiceren / offline halen; één gepubliceerde uitslag per event
+ * - Regels zonder match per import
+ */
+
+import { useEffect, useState } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import { Loader2, Upload, FileText, Trophy, Trash2, Eye, EyeOff, X, AlertTriangle } from 'lucide-react'
+import type { AppEvent, Organization } from '../types/supabase'
+import {
+    deleteRaceResultImport,
+    formatResultTime,
+    getRaceResultsAdmin,
+    importRaceResults,
+    publishRaceResults,
+    RESULT_ERRORS,
+    type RaceResultsAdminData,
+    type ResultImport
+} from '../data/race_results'
+import { readResultsFile, type ParsedResults } from '../lib/raceResults'
+
+interface EventDetailContext {
+    event: AppEvent
+    org: Organization
+    refreshEvent: () => void
+}
+
+const STATUS_LABELS: Record<string, string> = {
+    finished: 'Gefinisht',
+    dnf: 'DNF',
+    dns: 'DNS',
+    dsq: 'DSQ',
+}
+
+function errorText(code: string | undefined): string {
+    return (code && RESULT_ERRORS[code]) || 'Opslaan mislukt, probeer het opnieuw.'
+}
+
+export function EventResults() {
+    const { event } = useOutletContext<EventDetailContext>()
+
+    const [overview, setOverview] = useState<RaceResultsAdminData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [notice, setNotice] = useState<string | null>(null)
+    const [busyImportId, setBusyImportId] = useState<string | null>(null)
+
+    // Versie-teller: ophogen na een eigen actie laadt opnieuw
+    const [version, setVersion] = useState(0)
+    const reload = () => setVersion(v => v + 1)
+
+    const eventId = event?.id
+
+    useEffect(() => {
+        if (!eventId) return
+        let cancelled = false
+
+        async function load() {
+            const { data, error: fetchError } = await getRaceResultsAdmin(eventId!)
+            if (cancelled) return
+            if (fetchError) {
+                setError(errorText(fetchError.message))
+            } else {
+                setOverview(data)
+            }
+            setLoading(false)
+        }
+
+        load()
+
+        return () => {
+            cancelled = true
+        }
+    }, [eventId, version])
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    const imports = overview?.imports ?? []
+    const canEdit = overview?.can_edit ?? false
+
+    const handlePublish = async (item: ResultImport, published: boolean) => {
+        if (published && imports.some(i => i.published_at && i.id !== item.id)
+            && !confirm('Deze import vervangt de huidige gepubliceerde uitslag. Doorgaan?')) return
+
+        setBusyImportId(item.id)
+        setError(null)
+        setNotice(null)
+        const { error: publishError } = await publishRaceResults(item.id, published)
+        setBusyImportId(null)
+
+        if (publishError) {
+            setError(errorText(publishError.message))
+        } else {
+            setNotice(published ? 'Uitslag gepubliceerd op de eventpagina.' : 'Uitslag offline gehaald.')
+        }
+        reload()
+    }
+
+    const handleDelete = async (item: ResultImport) => {
+        if (!confirm(`Import ${item.file_name ?? ''} met ${item.row_count} regels verwijderen?`)) return
+        setError(null)
+        setNotice(null)
+        const { error: deleteError } = await deleteRaceResultImport(item.id)
+        if (deleteError) {
+            setError(errorText(deleteError.message))
+        }
+        reload()
+    }
+
+    return (
+        <div>
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-900">Uitslagen</h1>
+                <p className="text-sm text-gray-500">
+                    Importeer de uitslag van de tijdwaarneming als CSV of IOF XML. Regels worden via ticket-id of
+                    startnummer aan deelnemers gekoppeld; deelnemers zien hun eigen uitslag in de app.
+                </p>
+            </div>
+
+            {error && (
+                <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">{error}</div>
+            )}
+            {notice && (
+                <div className="mb-4 rounded-md bg-green-50 border border-green-200 p-3 text-sm text-green-700">{notice}</div>
+            )}
+
+            {canEdit && (
+                <ImportForm
+                    eventId={event.id}
+                    onImported={message => {
+                        setError(null)
+                        setNotice(message)
+                        reload()
+                    }}
+                />
+            )}
+
+            {imports.length === 0 ? (
+                <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-sm text-gray-500">
+                    <Trophy className="h-10 w-10 mx-auto text-gray-300 mb-2" />
+                    Nog geen uitslagen geïmporteerd
+                </div>
+            ) : (
+                <ul className="space-y-4">
+                    {imports.map(item => {
+                        const busy = busyImportId === item.id
+                        const unmatchedCount = item.row_count - item.matched_count
+
+                        return (
+                            <li key={item.id} className="bg-white rounded-lg border border-gray-200 p-4">
+                                <div className="flex items-start gap-3">
+                                    <FileText className="h-5 w-5 text-gray-400 flex-shrink-0 mt-0.5" />
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-sm font-semibold text-gray-900 truncate">
+                                                {item.file_name ?? 'Import'}
+                                            </span>
+                                            <span className="flex-shrink-0 text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                                                {item.source_format === 'iof_xml' ? 'IOF XML' : 'CSV'}
+                                            </span>
+                                            {item.published_at && (
+                                                <span className="flex-shrink-0 text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+                                                    Gepubliceerd
+                                                </span>
+                                            )}
+                                        </div>
+                                        <p className="mt-0.5 text-xs text-gray-500">
+                                            {new Date(item.created_at).toLocaleString('nl-NL')} · {item.row_count} regels
+                                            · {item.matched_count} gekoppeld
+                                            {unmatchedCount > 0 && ` · ${unmatchedCount} zonder ticket`}
+                                        </p>
+                                        <div className="mt-2 flex flex-wrap gap-2">
+                                            {item.categories.map(category => (
+                                                <span
+                                                    key={category.name ?? ''}
+                                                    className="text-xs px-2 py-0.5 rounded bg-indigo-50 text-indigo-700"
+                                                >
+                                                    {category.name ?? 'Zonder categorie'}: {category.finishers} / {category.results} gefinisht
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    {canEdit && (
+                                        <div className="flex items-center gap-1 flex-shrink-0">
+                                            <button
+                                                onClick={() => handlePublish(item, !item.published_at)}
+                                                disabled={busy}
+                                                className="inline-flex items-center px-2.5 py-1.5 text-xs font-medium rounded-md text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50"
+                                            >
+                                                {busy ? (
+                                                    <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                                                ) : item.published_at ? (
+                                                    <EyeOff className="h-3.5 w-3.5 mr-1" />
+                                                ) : (
+                                                    <Eye className="h-3.5 w-3.5 mr-1" />
+                                                )}
+                                                {item.published_at ? 'Offline halen' : 'Publiceren'}
+                                            </button>
+                                            {!item.published_at && (
+                                                <button
+                                                    onClick={() => handleDelete(item)}
+                                                    className="p-1.5 text-gray-400 hover:text-red-600"
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+
+                                {item.unmatched.length > 0 && (
+                                    <details className="mt-3 ml-8">
+                                        <summary className="text-xs text-amber-700 cursor-pointer">
+                                            {unmatchedCount} regels zonder gekoppeld ticket
+                                            {unmatchedCount > item.unmatched.length && ` (eerste ${item.unmatched.length})`}
+                                        </summary>
+                                        <table className="mt-2 text-xs text-gray-700">
+                                            <thead>
+                                                <tr className="text-left text-gray-500">
+                                                    <th className="pr-4 font-medium">Regel</th>
+                                                    <th className="pr-4 font-medium">Startnr.</th>
+                                                    <th className="pr-4 font-medium">Naam</th>
+                                                    <th className="font-medium">Categorie</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {item.unmatched.map(row => (
+                                                    <tr key={row.row}>
+                                                        <td className="pr-4 tabular-nums">{row.row}</td>
+                                                        <td className="pr-4 tabular-nums">{row.bib ?? '–'}</td>
+                                                        <td className="pr-4">{row.name ?? '–'}</td>
+                                                        <td>{row.category ?? '–'}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </details>
+                                )}
+                            </li>
+                        )
+                    })}
+                </ul>
+            )}
+
+            <p className="mt-3 text-xs text-gray-400">
+                Per event staat hooguit één uitslag online; een nieuwe import publiceren vervangt de vorige.
+                Regels zonder gekoppeld ticket staan wel in de uitslag, maar zijn niet zichtbaar in de app.
+            </p>
+        </div>
+    )
+}
+
+// ============================================================
+// IMPORT FORM
+// ============================================================
+
+interface ImportFormProps {
+    eventId: string
+    onImported: (message: string) => void
+}
+
+function ImportForm({ eventId, onImported }: ImportFormProps) {
+    const [file, setFile] = useState<File | null>(null)
+    const [parsed, setParsed] = useState<ParsedResults | null>(null)
+    const [publish, setPublish] = useState(false)
+    const [saving, setSaving] = useState(false)
+    const [formError, setFormError] = useState<string | null>(null)
+
+    const reset = () => {
+        setFile(null)
+        setParsed(null)
+        setPublish(false)
+        setFormError(null)
+    }
+
+    const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0]
+        e.target.value = ''
+        if (!selected) return
+
+        setFormError(null)
+        if (selected.size > 10 * 1024 * 1024) {
+            setFormError('Bestand mag maximaal 10 MB zijn.')
+            return
+        }
+
+        setFile(selected)
+        setParsed(await readResultsFile(selected))
+    }
+
+    const handleImport = async () => {
+        if (!file || !parsed || parsed.rows.length === 0) return
+        setSaving(true)
+        setFormError(null)
+
+        const { data, error, row } = await importRaceResults(eventId, {
+            format: parsed.format,
+            fileName: file.name,
+            rows: parsed.rows,
+            publish
+        })
+
+        setSaving(false)
+        if (error) {
+            setFormError(row ? `${errorText(error.message)} (regel ${row})` : errorText(error.message))
+            return
+        }
+
+        reset()
+        onImported(data && data.matched_count < data.row_count
+            ? `${data.row_count} uitslagen geïmporteerd; ${data.row_count - data.matched_count} regels konden niet aan een ticket worden gekoppeld.`
+            : `${data?.row_count ?? 0} uitslagen geïmporteerd.`)
+    }
+
+    const preview = parsed?.rows.slice(0, 5) ?? []
+
+    return (
+        <div className="mb-6 bg-white rounded-lg border border-gray-200 p-6">
+            {!parsed ? (
+                <div className="text-center">
+                    <Upload className="mx-auto h-10 w-10 text-gray-400" />
+                    <label className="mt-3 inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                        <FileText className="h-4 w-4 mr-2" />
+                        Selecteer uitslagbestand
+                        <input type="file" accept=".csv,.xml" onChange={handleFileSelect} className="sr-only" />
+                    </label>
+                    <p className="mt-3 text-xs text-gray-500">
+                        CSV met kolommen als startnummer, naam, geslacht, geboortejaar, categorie, tijd en status,
+                        of een IOF XML 3.0 ResultList. Max 10 MB.
+                    </p>
+                    {formError && <p className="mt-3 text-sm text-red-600">{formError}</p>}
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                        <h2 className="text-lg font-semibold text-gray-900">{file?.name}</h2>
+                        <button type="button" onClick={reset} className="text-gray-400 hover:text-gray-700">
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+                    <p className="text-sm text-gray-700">
+                        {parsed.rows.length} uitslagen gelezen ({parsed.format === 'iof_xml' ? 'IOF XML' : 'CSV'})
+                    </p>
+
+                    {parsed.errors.length > 0 && (
+                        <div className="rounded-md bg-amber-50 border border-amber-200 p-3 text-sm text-amber-800">
+                            <div className="flex items-center font-medium">
+                                <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                                {parsed.errors.length} regels overgeslagen
+                            </div>
+                            <ul className="mt-1 ml-6 list-disc text-xs">
+                                {parsed.errors.slice(0, 10).map(err => (
+                                    <li key={err.line}>Regel {err.line}: {err.message}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {preview.length > 0 && (
+                        <table className="min-w-full text-xs text-gray-700">
+                            <thead>
+                                <tr className="text-left text-gray-500 border-b border-gray-100">
+                                    <th className="py-1 pr-4 font-medium">Startnr.</th>
+                                    <th className="py-1 pr-4 font-medium">Naam</th>
+                                    <th className="py-1 pr-4 font-medium">Categorie</th>
+                                    <th className="py-1 pr-4 font-medium">Status</th>
+                                    <th className="py-1 font-medium">Tijd</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {preview.map((row, index) => (
+                                    <tr key={index}>
+                                        <td className="py-1 pr-4 tabular-nums">{row.bib ?? '–'}</td>
+                                        <td className="py-1 pr-4">
+                                            {[row.first_name, row.last_name].filter(Boolean).join(' ') || '–'}
+                                        </td>
+                                        <td className="py-1 pr-4">{row.category ?? '–'}</td>
+                                        <td className="py-1 pr-4">{STATUS_LABELS[row.status]}</td>
+                                        <td className="py-1 tabular-nums">
+                                            {formatResultTime(row.net_time_ms ?? row.gun_time_ms)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={publish}
+                            onChange={e => setPublish(e.target.checked)}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Direct publiceren op de eventpagina
+                    </label>
+
+                    <div className="flex justify-end gap-2">
+                        <button
+                            type="button"
+                            onClick={reset}
+                            className="px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50"
+                        >
+                            Annuleren
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleImport}
+                            disabled={saving || parsed.rows.length === 0}
+                            className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Importeren
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
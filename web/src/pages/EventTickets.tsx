@@ -7,6 +7,7 @@
  * - Empty state met CTA "Ticket toevoegen"
  * - Modal voor ticket create/edit
  * - Status toggle en delete
+ * - Wachtlijst-overzicht (F016)
  */
 
 import { useEffect, useState, useCallback } from 'react'
@@ -26,6 +27,7 @@ import {
 } from '../data/tickets'
 import type { TicketType, AppEvent, Organization } from '../types/supabase'
 import { TicketDetailModal } from '../components/TicketDetailModal'
+import { WaitlistPanel } from '../components/WaitlistPanel'
 
 // Context type van EventDetail
 interface EventContext {
@@ -235,6 +237,9 @@ export function EventTickets() {
                 </div>
             )}
 
+            {/* Wachtlijst */}
+            <WaitlistPanel eventId={event.id} />
+
             {/* Create/Edit Modal */}
             {showModal && (
                 <TicketModal
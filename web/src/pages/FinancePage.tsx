@@ -0,0 +1,359 @@
+/**
+ * FinancePage
+ *
+ * Financieel dashboard voor organisaties.
+ * Features:
+ * - Bruto omzet, kortingen, terugbetalingen, netto omzet en btw
+ * - Uitsplitsing per event en per tickettype/product
+ * - Ontvangen betalingen per provider
+ * - CSV/XLSX export voor de boekhouding (owner/finance)
+ */
+
+import { useEffect, useState } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import {
+    Loader2, Download, FileSpreadsheet, TrendingUp, TrendingDown, Percent, Wallet, Receipt, Tag, Repeat
+} from 'lucide-react'
+import { clsx } from 'clsx'
+import type { Organization } from '../types/supabase'
+import { formatPrice } from '../data/tickets'
+import {
+    getFinanceReport,
+    getFinanceExport,
+    type FinancePeriod,
+    type FinanceReport,
+} from '../data/finance'
+import { downloadFinanceCsv, downloadFinanceXlsx } from '../lib/financeExport'
+
+interface LayoutContext {
+    org: Organization
+}
+
+function defaultPeriod(): FinancePeriod {
+    const today = new Date().toISOString().split('T')[0]
+    return { from: `${today.slice(0, 4)}-01-01`, to: today }
+}
+
+export function FinancePage() {
+    const context = useOutletContext<LayoutContext>()
+    const org = context?.org
+
+    const [period, setPeriod] = useState<FinancePeriod>(defaultPeriod)
+    const [report, setReport] = useState<FinanceReport | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [exporting, setExporting] = useState<'csv' | 'xlsx' | null>(null)
+
+    useEffect(() => {
+        async function fetchReport() {
+            if (!org) return
+
+            setLoading(true)
+            setError(null)
+
+            const { data, error: fetchError } = await getFinanceReport(org.id, period)
+
+            if (fetchError) {
+                setError(
+                    fetchError.message === 'UNAUTHORIZED' ? 'Geen toegang tot financiële gegevens' :
+                    fetchError.message === 'INVALID_DATE_RANGE' ? 'De einddatum ligt voor de begindatum' :
+                    fetchError.message
+                )
+                setReport(null)
+            } else {
+                setReport(data)
+            }
+
+            setLoading(false)
+        }
+        fetchReport()
+    }, [org, period])
+
+    const handleExport = async (format: 'csv' | 'xlsx') => {
+        if (!org) return
+
+        setExporting(format)
+        setError(null)
+
+        const { data, error: exportError } = await getFinanceExport(org.id, period)
+
+        if (exportError || !data) {
+            setError(exportError?.message === 'UNAUTHORIZED'
+                ? 'Alleen eigenaar en finance kunnen exporteren'
+                : exportError?.message || 'Export mislukt')
+        } else if (format === 'csv') {
+            downloadFinanceCsv(data, period)
+        } else {
+            await downloadFinanceXlsx(data, period)
+        }
+
+        setExporting(null)
+    }
+
+    if (!org) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    const totals = report?.totals
+    const hasResalePayouts = (totals?.resale_payouts ?? 0) > 0
+
+    return (
+        <div className="max-w-6xl">
+            {/* Header */}
+            <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Financiën</h1>
+                    <p className="text-sm text-gray-500">
+                        Omzet, kortingen, terugbetalingen en btw van al je events
+                    </p>
+                </div>
+
+                <div className="flex flex-wrap items-end gap-3">
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500">Van</label>
+                        <input
+                            type="date"
+                            value={period.from ?? ''}
+                            onChange={(e) => setPeriod(prev => ({ ...prev, from: e.target.value || null }))}
+                            className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500">Tot en met</label>
+                        <input
+                            type="date"
+                            value={period.to ?? ''}
+                            onChange={(e) => setPeriod(prev => ({ ...prev, to: e.target.value || null }))}
+                            className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                    </div>
+
+                    {report?.can_export && (
+                        <>
+                            <button
+                                onClick={() => handleExport('csv')}
+                                disabled={exporting !== null}
+                                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                            >
+                                {exporting === 'csv'
+                                    ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                                    : <Download className="mr-1.5 h-4 w-4" />}
+                                CSV
+                            </button>
+                            <button
+                                onClick={() => handleExport('xlsx')}
+                                disabled={exporting !== null}
+                                className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                                {exporting === 'xlsx'
+                                    ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                                    : <FileSpreadsheet className="mr-1.5 h-4 w-4" />}
+                                Excel
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {error && (
+                <div className="mb-6 p-3 bg-red-50 text-red-700 text-sm rounded-md">
+                    {error}
+                </div>
+            )}
+
+            {loading ? (
+                <div className="flex items-center justify-center h-64">
+                    <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+                </div>
+            ) : report && totals && (
+                <>
+                    {/* KPI cards */}
+                    <div className={clsx(
+                        'grid grid-cols-2 md:grid-cols-3 gap-4 mb-6',
+                        hasResalePayouts ? 'lg:grid-cols-7' : 'lg:grid-cols-6'
+                    )}>
+                        <KpiCard label="Bruto omzet" value={formatPrice(totals.gross_sales)} icon={TrendingUp} />
+                        <KpiCard label="Kortingen" value={formatPrice(-totals.discounts)} icon={Tag} negative />
+                        <KpiCard label="Terugbetaald" value={formatPrice(-totals.refunds)} icon={TrendingDown} negative />
+                        {hasResalePayouts && (
+                            <KpiCard label="Doorverkoop uitbetaald" value={formatPrice(-totals.resale_payouts)} icon={Repeat} negative />
+                        )}
+                        <KpiCard label="Netto omzet" value={formatPrice(totals.net_revenue)} icon={Wallet} highlight />
+                        <KpiCard label="Btw" value={formatPrice(totals.vat)} icon={Percent} />
+                        <KpiCard label="Netto excl. btw" value={formatPrice(totals.net_revenue - totals.vat)} icon={Receipt} />
+                    </div>
+
+                    {/* Per event */}
+                    <Section title="Per event" subtitle={`${totals.order_count} betaalde orders`}>
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <Th>Event</Th>
+                                    <Th right>Orders</Th>
+                                    <Th right>Bruto</Th>
+                                    <Th right>Kortingen</Th>
+                                    <Th right>Terugbetaald</Th>
+                                    {hasResalePayouts && <Th right>Uitbetaald doorverkoop</Th>}
+                                    <Th right>Netto</Th>
+                                    <Th right>Btw</Th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {report.by_event.map(row => (
+                                    <tr key={row.event_id}>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.event_name}</td>
+                                        <Td>{row.order_count}</Td>
+                                        <Td>{formatPrice(row.gross_sales)}</Td>
+                                        <Td>{formatPrice(row.discounts)}</Td>
+                                        <Td>{formatPrice(row.refunds)}</Td>
+                                        {hasResalePayouts && <Td>{formatPrice(row.resale_payouts)}</Td>}
+                                        <Td bold>{formatPrice(row.net_revenue)}</Td>
+                                        <Td>{formatPrice(row.vat)} <span className="text-gray-400">({row.vat_rate}%)</span></Td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {report.by_event.length === 0 && <EmptyRow />}
+                    </Section>
+
+                    {/* Per ticket type */}
+                    <Section title="Per tickettype">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <Th>Tickettype</Th>
+                                    <Th>Event</Th>
+                                    <Th right>Verkocht</Th>
+                                    <Th right>Bruto</Th>
+                                    <Th right>Kortingen</Th>
+                                    <Th right>Terugbetaald</Th>
+                                    {hasResalePayouts && <Th right>Uitbetaald doorverkoop</Th>}
+                                    <Th right>Netto</Th>
+                                    <Th right>Btw</Th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {report.by_ticket_type.map(row => (
+                                    <tr key={`${row.event_id}-${row.ticket_type_id ?? row.item_name}`}>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.item_name}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.event_name}</td>
+                                        <Td>
+                                            {row.quantity_sold}
+                                            {row.quantity_refunded > 0 && (
+                                                <span className="text-red-500"> (-{row.quantity_refunded})</span>
+                                            )}
+                                        </Td>
+                                        <Td>{formatPrice(row.gross_sales)}</Td>
+                                        <Td>{formatPrice(row.discounts)}</Td>
+                                        <Td>{formatPrice(row.refunds)}</Td>
+                                        {hasResalePayouts && <Td>{formatPrice(row.resale_payouts)}</Td>}
+                                        <Td bold>{formatPrice(row.net_revenue)}</Td>
+                                        <Td>{formatPrice(row.vat)}</Td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {report.by_ticket_type.length === 0 && <EmptyRow />}
+                    </Section>
+
+                    {/* Per provider */}
+                    <Section title="Ontvangen per betaalprovider" subtitle="Betaalde orders, vóór terugbetalingen">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <Th>Provider</Th>
+                                    <Th right>Betalingen</Th>
+                                    <Th right>Bedrag</Th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {report.by_provider.map(row => (
+                                    <tr key={row.provider}>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 capitalize">{row.provider}</td>
+                                        <Td>{row.payment_count}</Td>
+                                        <Td bold>{formatPrice(row.amount)}</Td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {report.by_provider.length === 0 && <EmptyRow />}
+                    </Section>
+                </>
+            )}
+        </div>
+    )
+}
+
+// KPI Card Component
+function KpiCard({ label, value, icon: Icon, negative, highlight }: {
+    label: string
+    value: string
+    icon: typeof Wallet
+    negative?: boolean
+    highlight?: boolean
+}) {
+    return (
+        <div className={clsx(
+            'rounded-lg border p-4',
+            highlight ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-gray-200'
+        )}>
+            <div className="flex items-center text-xs font-medium text-gray-500">
+                <Icon className="mr-1.5 h-4 w-4" />
+                {label}
+            </div>
+            <p className={clsx(
+                'mt-2 text-lg font-semibold',
+                negative ? 'text-red-600' : highlight ? 'text-indigo-700' : 'text-gray-900'
+            )}>
+                {value}
+            </p>
+        </div>
+    )
+}
+
+// Section Component
+function Section({ title, subtitle, children }: { title: string; subtitle?: string; children: React.ReactNode }) {
+    return (
+        <div className="bg-white rounded-lg border border-gray-200 overflow-hidden mb-6">
+            <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">{title}</h2>
+                {subtitle && <p className="text-sm text-gray-500">{subtitle}</p>}
+            </div>
+            <div className="overflow-x-auto">{children}</div>
+        </div>
+    )
+}
+
+function Th({ children, right }: { children: React.ReactNode; right?: boolean }) {
+    return (
+        <th className={clsx(
+            'px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider',
+            right ? 'text-right' : 'text-left'
+        )}>
+            {children}
+        </th>
+    )
+}
+
+function Td({ children, bold }: { children: React.ReactNode; bold?: boolean }) {
+    return (
+        <td className={clsx(
+            'px-6 py-4 whitespace-nowrap text-sm text-right',
+            bold ? 'font-medium text-gray-900' : 'text-gray-500'
+        )}>
+            {children}
+        </td>
+    )
+}
+
+function EmptyRow() {
+    return (
+        <div className="text-center py-8 text-gray-500 text-sm">
+            Geen gegevens in deze periode
+        </div>
+    )
+}
@@ -0,0 +1,30 @@
+/**
+ * OrgSettingsPage
+ *
+ * Organisatie-brede standaardinstellingen.
+ * Features:
+ * - Dezelfde domeinformulieren als de event settings
+ * - Waarden gelden voor alle events tenzij een event ze overschrijft
+ * - Overzicht van afwijkende events + "Push naar alle events"
+ */
+
+import { useOutletContext } from 'react-router-dom'
+import type { Organization } from '../types/supabase'
+import { Settings } from './events/Settings'
+
+export function OrgSettingsPage() {
+    const { org } = useOutletContext<{ org: Organization }>()
+
+    return (
+        <div className="max-w-5xl">
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-900">Instellingen</h1>
+                <p className="text-sm text-gray-500">
+                    Standaardinstellingen voor alle events van {org.name}. Events erven deze waarden tenzij ze die zelf overschrijven.
+                </p>
+            </div>
+
+            <Settings orgId={org.id} />
+        </div>
+    )
+}
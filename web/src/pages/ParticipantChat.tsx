@@ -0,0 +1,314 @@
+/**
+ * ParticipantChat Page
+ *
+ * Berichten tussen deelnemer en organisatie.
+ * Route: /e/:eventSlug/chat (?thread=<id> opent een gesprek, bv. vanuit de mail)
+ *
+ * Vereist een login; alleen deelnemers met een inschrijving kunnen een
+ * nieuw gesprek starten. Antwoorden komen live binnen en per e-mail.
+ */
+
+import { useEffect, useState } from 'react'
+import { Link, Navigate, useLocation, useParams, useSearchParams } from 'react-router-dom'
+import { Loader2, XCircle, Plus, ArrowLeft, MessageSquare } from 'lucide-react'
+import { clsx } from 'clsx'
+import { useAuth } from '../contexts/AuthContext'
+import { ThreadConversation } from '../components/ThreadConversation'
+import {
+    getMyEventThreads,
+    getThread,
+    postThreadMessage,
+    startMessageThread,
+    subscribeToMessages,
+    type MyEventThreads,
+    type ThreadDetail
+} from '../data/messaging'
+
+// Foutcodes van get_my_event_threads / start_message_thread → tekst
+const CHAT_ERRORS: Record<string, string> = {
+    EVENT_NOT_FOUND: 'Dit evenement bestaat niet (meer).',
+    NOT_REGISTERED: 'Alleen ingeschreven deelnemers kunnen de organisatie een bericht sturen.',
+    INVALID_SUBJECT: 'Vul een onderwerp in (max. 200 tekens).',
+    INVALID_BODY: 'Vul een bericht in (max. 5000 tekens).',
+}
+
+export function ParticipantChat() {
+    const { eventSlug } = useParams<{ eventSlug: string }>()
+    const [searchParams, setSearchParams] = useSearchParams()
+    const location = useLocation()
+    const { session, loading: authLoading } = useAuth()
+
+    const [overview, setOverview] = useState<MyEventThreads | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [detail, setDetail] = useState<ThreadDetail | null>(null)
+
+    const [composing, setComposing] = useState(false)
+    const [subject, setSubject] = useState('')
+    const [body, setBody] = useState('')
+    const [formError, setFormError] = useState<string | null>(null)
+    const [starting, setStarting] = useState(false)
+
+    const selectedId = searchParams.get('thread')
+    const userId = session?.user.id
+
+    // Versie-tellers: ophogen na een eigen actie laadt opnieuw (ook zonder realtime)
+    const [overviewVersion, setOverviewVersion] = useState(0)
+    const [threadVersion, setThreadVersion] = useState(0)
+
+    useEffect(() => {
+        if (!eventSlug || !userId) return
+        let cancelled = false
+
+        async function loadOverview() {
+            const { data, error: fetchError } = await getMyEventThreads(eventSlug!)
+            if (cancelled) return
+            if (fetchError) {
+                setError(CHAT_ERRORS[fetchError.message] || 'Er ging iets mis bij het ophalen van je berichten')
+            } else {
+                setOverview(data)
+            }
+            setLoading(false)
+        }
+
+        loadOverview()
+        const unsubscribe = subscribeToMessages(`my-threads-${userId}`, loadOverview)
+
+        return () => {
+            cancelled = true
+            unsubscribe()
+        }
+    }, [eventSlug, userId, overviewVersion])
+
+    useEffect(() => {
+        if (!selectedId || !userId) return
+        let cancelled = false
+
+        async function loadThread() {
+            const { data } = await getThread(selectedId!)
+            if (!cancelled) setDetail(data)
+        }
+
+        loadThread()
+        const unsubscribe = subscribeToMessages(`thread-${selectedId}`, loadThread, selectedId)
+
+        return () => {
+            cancelled = true
+            unsubscribe()
+        }
+    }, [selectedId, userId, threadVersion])
+
+    const selectThread = (threadId: string | null) => {
+        setComposing(false)
+        setSearchParams(threadId ? { thread: threadId } : {})
+    }
+
+    const handleStart = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!overview) return
+
+        setStarting(true)
+        setFormError(null)
+        const { data, error: startError } = await startMessageThread(overview.event.id, subject, body)
+        setStarting(false)
+
+        if (startError || !data) {
+            setFormError(CHAT_ERRORS[startError?.message || ''] || 'Versturen mislukt, probeer het opnieuw.')
+            return
+        }
+
+        setSubject('')
+        setBody('')
+        setOverviewVersion(v => v + 1)
+        selectThread(data.thread_id)
+    }
+
+    const handleSend = async (text: string): Promise<string | null> => {
+        if (!selectedId) return null
+        const { error: postError } = await postThreadMessage(selectedId, text)
+        if (postError) return postError.message
+        setOverviewVersion(v => v + 1)
+        setThreadVersion(v => v + 1)
+        return null
+    }
+
+    if (authLoading) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <Loader2 className="h-12 w-12 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    if (!session) {
+        return <Navigate to="/login" state={{ from: location }} replace />
+    }
+
+    if (loading) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <Loader2 className="h-12 w-12 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    if (error || !overview) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+                <div className="max-w-md w-full text-center">
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+                        <XCircle className="h-16 w-16 text-red-500 mx-auto" />
+                        <h1 className="mt-4 text-xl font-semibold text-gray-900">Berichten niet beschikbaar</h1>
+                        <p className="mt-2 text-gray-600">{error}</p>
+                        <Link
+                            to="/events"
+                            className="mt-6 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                            Bekijk evenementen
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        )
+    }
+
+    const { event, threads, can_start_thread } = overview
+    const activeDetail = detail && detail.thread.id === selectedId ? detail : null
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8 px-4">
+            <div className="max-w-3xl mx-auto">
+                <div className="mb-6">
+                    <p className="text-sm text-gray-500">{event.org_name}</p>
+                    <h1 className="text-2xl font-bold text-gray-900">Berichten · {event.name}</h1>
+                </div>
+
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                    {selectedId ? (
+                        <div className="flex flex-col h-[70vh]">
+                            <div className="px-4 py-3 border-b border-gray-200 flex items-center gap-3">
+                                <button onClick={() => selectThread(null)} className="text-gray-500 hover:text-gray-700">
+                                    <ArrowLeft className="h-5 w-5" />
+                                </button>
+                                <h2 className="text-sm font-semibold text-gray-900 truncate">
+                                    {activeDetail?.thread.subject ?? 'Gesprek'}
+                                </h2>
+                                {activeDetail?.thread.status === 'closed' && (
+                                    <span className="ml-auto text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">Gesloten</span>
+                                )}
+                            </div>
+                            <div className="flex-1 min-h-0">
+                                {activeDetail ? (
+                                    <ThreadConversation detail={activeDetail} onSend={handleSend} />
+                                ) : (
+                                    <div className="flex items-center justify-center h-full">
+                                        <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    ) : composing ? (
+                        <form onSubmit={handleStart} className="p-6 space-y-4">
+                            <h2 className="text-lg font-semibold text-gray-900">Nieuwe vraag aan de organisatie</h2>
+                            {formError && <p className="text-sm text-red-600">{formError}</p>}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Onderwerp</label>
+                                <input
+                                    type="text"
+                                    value={subject}
+                                    onChange={e => setSubject(e.target.value)}
+                                    maxLength={200}
+                                    required
+                                    className="mt-1 block w-full rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Bericht</label>
+                                <textarea
+                                    value={body}
+                                    onChange={e => setBody(e.target.value)}
+                                    rows={5}
+                                    maxLength={5000}
+                                    required
+                                    className="mt-1 block w-full rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                                />
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <button
+                                    type="button"
+                                    onClick={() => setComposing(false)}
+                                    className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                                >
+                                    Annuleren
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={starting}
+                                    className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                                >
+                                    {starting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                    Versturen
+                                </button>
+                            </div>
+                        </form>
+                    ) : (
+                        <>
+                            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+                                <h2 className="text-sm font-semibold text-gray-900">Je gesprekken</h2>
+                                {can_start_thread && (
+                                    <button
+                                        onClick={() => setComposing(true)}
+                                        className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                                    >
+                                        <Plus className="h-4 w-4 mr-1" />
+                                        Nieuwe vraag
+                                    </button>
+                                )}
+                            </div>
+
+                            {!can_start_thread && (
+                                <p className="px-4 py-3 text-sm text-gray-500 bg-gray-50 border-b border-gray-200">
+                                    {CHAT_ERRORS.NOT_REGISTERED}
+                                </p>
+                            )}
+
+                            {threads.length === 0 ? (
+                                <div className="p-10 text-center text-sm text-gray-500">
+                                    <MessageSquare className="h-10 w-10 mx-auto text-gray-300 mb-2" />
+                                    Nog geen gesprekken
+                                </div>
+                            ) : (
+                                <ul className="divide-y divide-gray-100">
+                                    {threads.map(thread => (
+                                        <li key={thread.id}>
+                                            <button
+                                                onClick={() => selectThread(thread.id)}
+                                                className="w-full text-left px-4 py-3 hover:bg-gray-50"
+                                            >
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <span className={clsx('text-sm truncate', thread.unread_count > 0 ? 'font-semibold text-gray-900' : 'text-gray-700')}>
+                                                        {thread.subject}
+                                                    </span>
+                                                    {thread.unread_count > 0 ? (
+                                                        <span className="flex-shrink-0 inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1.5 rounded-full bg-indigo-600 text-white text-xs font-medium">
+                                                            {thread.unread_count}
+                                                        </span>
+                                                    ) : thread.status === 'closed' && (
+                                                        <span className="flex-shrink-0 text-xs text-gray-400">Gesloten</span>
+                                                    )}
+                                                </div>
+                                                {thread.last_message_preview && (
+                                                    <p className="mt-0.5 text-xs text-gray-500 truncate">{thread.last_message_preview}</p>
+                                                )}
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,154 @@
+/**
+ * PublicFaq Page
+ *
+ * Veelgestelde vragen van een event, met zoeken en taalkeuze.
+ * Route: /e/:eventSlug/faq (?lang=en toont de vertaling, met terugval
+ * op de standaardtaal)
+ */
+
+import { useEffect, useState } from 'react'
+import { Link, useParams, useSearchParams } from 'react-router-dom'
+import { Loader2, XCircle, Search, HelpCircle, MessageSquare } from 'lucide-react'
+import { clsx } from 'clsx'
+import { FaqList } from '../components/FaqList'
+import { getPublicEventFaq, type PublicEventFaq } from '../data/faq'
+
+// Foutcodes van get_public_event_faq → tekst
+const FAQ_ERRORS: Record<string, string> = {
+    EVENT_NOT_FOUND: 'Dit evenement bestaat niet (meer).',
+}
+
+export function PublicFaq() {
+    const { eventSlug } = useParams<{ eventSlug: string }>()
+    const [searchParams, setSearchParams] = useSearchParams()
+    const locale = searchParams.get('lang')
+
+    const [faq, setFaq] = useState<PublicEventFaq | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [search, setSearch] = useState('')
+
+    useEffect(() => {
+        if (!eventSlug) return
+        let cancelled = false
+
+        // Kleine vertraging zodat niet elke toetsaanslag een request wordt
+        const timer = setTimeout(async () => {
+            const { data, error: fetchError } = await getPublicEventFaq(eventSlug, { locale, search })
+            if (cancelled) return
+            if (fetchError) {
+                setError(FAQ_ERRORS[fetchError.message] || 'Er ging iets mis bij het ophalen van de FAQ')
+            } else {
+                setFaq(data)
+                setError(null)
+            }
+            setLoading(false)
+        }, search ? 250 : 0)
+
+        return () => {
+            cancelled = true
+            clearTimeout(timer)
+        }
+    }, [eventSlug, locale, search])
+
+    const selectLocale = (value: string | null) => {
+        setSearchParams(value ? { lang: value } : {})
+    }
+
+    if (loading) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <Loader2 className="h-12 w-12 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    if (error || !faq) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+                <div className="max-w-md w-full text-center">
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+                        <XCircle className="h-16 w-16 text-red-500 mx-auto" />
+                        <h1 className="mt-4 text-xl font-semibold text-gray-900">FAQ niet beschikbaar</h1>
+                        <p className="mt-2 text-gray-600">{error}</p>
+                        <Link
+                            to="/events"
+                            className="mt-6 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                            Bekijk evenementen
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        )
+    }
+
+    const { event, categories, available_locales, total_count } = faq
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8 px-4">
+            <div className="max-w-3xl mx-auto">
+                <div className="mb-6 flex items-start justify-between gap-4">
+                    <div>
+                        <p className="text-sm text-gray-500">{event.org_name}</p>
+                        <h1 className="text-2xl font-bold text-gray-900">Veelgestelde vragen · {event.name}</h1>
+                    </div>
+                    {available_locales.length > 0 && (
+                        <div className="flex space-x-1 flex-shrink-0">
+                            {[null, ...available_locales].map(l => (
+                                <button
+                                    key={l ?? 'default'}
+                                    onClick={() => selectLocale(l)}
+                                    className={clsx(
+                                        'px-2 py-1 text-xs font-medium rounded-md',
+                                        locale === l
+                                            ? 'bg-indigo-600 text-white'
+                                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                    )}
+                                >
+                                    {l ? l.toUpperCase() : 'NL'}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {total_count === 0 ? (
+                    <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-sm text-gray-500">
+                        <HelpCircle className="h-10 w-10 mx-auto text-gray-300 mb-2" />
+                        Er zijn nog geen veelgestelde vragen voor dit evenement.
+                    </div>
+                ) : (
+                    <>
+                        <div className="relative mb-6">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                            <input
+                                type="search"
+                                value={search}
+                                onChange={e => setSearch(e.target.value)}
+                                placeholder="Zoek in de veelgestelde vragen..."
+                                className="block w-full pl-9 rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                            />
+                        </div>
+
+                        {categories.length === 0 ? (
+                            <p className="py-10 text-center text-sm text-gray-500">
+                                Geen vragen gevonden voor "{search}".
+                            </p>
+                        ) : (
+                            <FaqList categories={categories} uncategorizedLabel="Algemeen" />
+                        )}
+                    </>
+                )}
+
+                <div className="mt-8 text-center text-sm text-gray-500">
+                    Staat je vraag er niet bij?{' '}
+                    <Link to={`/e/${event.slug}/chat`} className="inline-flex items-center text-indigo-600 hover:text-indigo-500">
+                        <MessageSquare className="h-4 w-4 mr-1" />
+                        Stel je vraag aan de organisatie
+                    </Link>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -1,51 +1,97 @@
 /**
  * ScanPage - F007 Ticket Scanning
  *
- * Manual token input voor ticket check-in.
+ * Camera scan (continu) of manual token input voor ticket check-in.
  * Gebruikt de scan_ticket RPC (F007 S1).
+ *
+ * Offline modus (F019): de gehashte tokens van het event worden vooraf
+ * gedownload; valt het netwerk weg, dan wordt lokaal gevalideerd en komt
+ * de scan in een wachtrij die bij reconnect opnieuw naar scan_ticket gaat.
  */
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useParams, Link } from 'react-router-dom'
-import { QrCode, CheckCircle, XCircle, ArrowLeft, Loader2, AlertTriangle, Clock, BarChart3 } from 'lucide-react'
+import {
+    QrCode, CheckCircle, XCircle, ArrowLeft, Loader2, AlertTriangle, Clock, BarChart3,
+    Camera, Keyboard, Wifi, WifiOff, RefreshCw, Download
+} from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { clsx } from 'clsx'
-
-interface ScanResult {
-    result: string  // VALID, INVALID, ALREADY_USED, etc.
-    message?: string
-    ticket?: {
-        id: string
-        type_name: string
-        participant_name: string | null
-        participant_email: string | null
-        checked_in_at: string
-    }
-}
-
-interface ScanStats {
-    total_scans: number
-    valid_scans: number
-    invalid_scans: number
-    checked_in_tickets: number
-    check_in_percentage: number
-}
+import { QrCameraScanner } from '../components/QrCameraScanner'
+import {
+    scanTicket,
+    getScanStats,
+    getOfflineScanSnapshot,
+    type ScanResult,
+    type ScanStats,
+    type OfflineScanResolution,
+    type OfflineScanSnapshot,
+} from '../data/scanning'
+import {
+    getScannerDeviceId,
+    isNetworkError,
+    loadQueue,
+    loadSnapshot,
+    mergeSnapshot,
+    markCheckedIn,
+    scanOffline,
+    syncOfflineScans,
+} from '../lib/offlineScan'
+
+type FeedbackTone = 'success' | 'warning' | 'error'
+
+const FLASH_DURATION_MS = 1200
+const RATE_LIMIT_RETRY_MS = 10000
+const OFFLINE_RETRY_MS = 15000
 
 export function ScanPage() {
     const { eventSlug } = useParams<{ eventSlug: string }>()
     const [event, setEvent] = useState<{ id: string, name: string } | null>(null)
     const [loading, setLoading] = useState(true)
+    const [mode, setMode] = useState<'camera' | 'manual'>('camera')
     const [tokenInput, setTokenInput] = useState('')
     const [scanResult, setScanResult] = useState<ScanResult | null>(null)
     const [processing, setProcessing] = useState(false)
     const [stats, setStats] = useState<ScanStats | null>(null)
+    const [flash, setFlash] = useState<FeedbackTone | null>(null)
+    const [deviceId] = useState(() => getScannerDeviceId())
+
+    // Offline state
+    const [online, setOnline] = useState(() => navigator.onLine)
+    const [snapshotInfo, setSnapshotInfo] = useState<{ generatedAt: string, count: number } | null>(null)
+    const [downloading, setDownloading] = useState(false)
+    const [queueCount, setQueueCount] = useState(0)
+    const [syncing, setSyncing] = useState(false)
+    const [syncDelay, setSyncDelay] = useState(0)
+    const [conflicts, setConflicts] = useState<OfflineScanResolution[]>([])
+
+    // Load scan statistics
+    async function loadStats(eventId: string) {
+        const { data } = await getScanStats(eventId)
+        if (data) {
+            setStats(data)
+        }
+    }
+
+    // Download hashed tokens for offline validation
+    async function refreshSnapshot(eventId: string) {
+        setDownloading(true)
+        const { data, error } = await getOfflineScanSnapshot(eventId)
+
+        if (data) {
+            setSnapshotInfo(describeSnapshot(mergeSnapshot(eventId, data)))
+        } else if (error && isNetworkError(error)) {
+            setOnline(false)
+        }
+        setDownloading(false)
+    }
 
     // Fetch event ID from slug
     useEffect(() => {
         async function fetchEvent() {
             if (!eventSlug) return
 
-            const { data, error } = await supabase
+            const { data } = await supabase
                 .from('events')
                 .select('id, name')
                 .eq('slug', eventSlug)
@@ -53,83 +99,117 @@ export function ScanPage() {
 
             if (data) {
                 setEvent(data)
+                setSnapshotInfo(describeSnapshot(loadSnapshot(data.id)))
+                setQueueCount(loadQueue(data.id).length)
                 loadStats(data.id)
+                if (navigator.onLine) {
+                    refreshSnapshot(data.id)
+                }
             }
             setLoading(false)
         }
         fetchEvent()
     }, [eventSlug])
 
-    // Load scan statistics
-    async function loadStats(eventId: string) {
-        const { data, error } = await supabase.rpc('get_scan_stats', {
-            _event_id: eventId,
-            _time_window_minutes: 60
-        })
+    // Browser online/offline events
+    useEffect(() => {
+        const handleOnline = () => setOnline(true)
+        const handleOffline = () => setOnline(false)
+
+        window.addEventListener('online', handleOnline)
+        window.addEventListener('offline', handleOffline)
+        return () => {
+            window.removeEventListener('online', handleOnline)
+            window.removeEventListener('offline', handleOffline)
+        }
+    }, [])
 
-        if (data && !data.error) {
-            setStats(data)
+    const syncQueue = useCallback(async (eventId: string) => {
+        setSyncing(true)
+        const result = await syncOfflineScans(eventId, deviceId)
+
+        setQueueCount(result.remaining)
+        setOnline(result.stoppedBy !== 'NETWORK')
+        setSyncDelay(result.stoppedBy === 'RATE_LIMIT' ? RATE_LIMIT_RETRY_MS : 0)
+        if (result.conflicts.length > 0) {
+            setConflicts(prev => [...result.conflicts, ...prev])
+        }
+        if (result.synced > 0) {
+            loadStats(eventId)
         }
+        setSyncing(false)
+    }, [deviceId])
+
+    // Wachtrij versturen zodra er verbinding is; zonder verbinding periodiek opnieuw proberen
+    useEffect(() => {
+        if (!event || queueCount === 0 || syncing) return
+
+        const timer = setTimeout(() => {
+            if (navigator.onLine) {
+                syncQueue(event.id)
+            }
+        }, online ? syncDelay : OFFLINE_RETRY_MS)
+
+        return () => clearTimeout(timer)
+    }, [event, queueCount, syncing, online, syncDelay, syncQueue])
+
+    const showFeedback = (result: string) => {
+        const tone: FeedbackTone = result === 'VALID'
+            ? 'success'
+            : result === 'ALREADY_USED'
+            ? 'warning'
+            : 'error'
+
+        playFeedbackSound(tone)
+        navigator.vibrate?.(tone === 'success' ? 100 : [100, 80, 100])
+        setFlash(tone)
+        setTimeout(() => setFlash(null), FLASH_DURATION_MS)
     }
 
-    const handleScan = async (e: React.FormEvent) => {
-        e.preventDefault()
-        if (!tokenInput.trim() || !event) return
+    const processToken = async (token: string) => {
+        if (!token || !event || processing) return
 
         setProcessing(true)
         setScanResult(null)
 
-        try {
-            // Call scan_ticket RPC
-            const { data, error } = await supabase.rpc('scan_ticket', {
-                _event_id: event.id,
-                _token: tokenInput.trim(),
-                _device_id: `web-${navigator.userAgent.slice(0, 20)}`,
-                _ip_address: null,  // Server-side extraction would be better
-                _user_agent: navigator.userAgent
-            })
-
-            if (error) {
+        let result: ScanResult
+
+        if (online) {
+            const { data, error } = await scanTicket(event.id, token, deviceId)
+
+            if (error && isNetworkError(error)) {
+                // Netwerk weggevallen: lokaal valideren en in de wachtrij zetten
+                setOnline(false)
+                result = await scanOffline(event.id, token)
+            } else if (error || !data) {
                 console.error('Scan error:', error)
-                setScanResult({
-                    result: 'ERROR',
-                    message: error.message
-                })
-            } else if (data.error) {
-                // RPC returned real error (UNAUTHORIZED, SCANNING_DISABLED, etc.)
-                setScanResult({
-                    result: 'ERROR',
-                    message: data.error + (data.message ? ': ' + data.message : '')
-                })
-            } else if (data.result) {
-                // Scan result (VALID, INVALID, ALREADY_USED, etc.)
-                setScanResult(data)
-
-                // Clear input on successful scan
-                if (data.result === 'VALID') {
-                    setTokenInput('')
+                result = { result: 'ERROR', message: error?.message || 'Unknown error' }
+            } else {
+                result = data
+                if (data.result === 'VALID' && data.ticket) {
+                    markCheckedIn(event.id, data.ticket.id, data.ticket.checked_in_at || new Date().toISOString())
                 }
-
-                // Reload stats
                 loadStats(event.id)
-            } else {
-                // Unexpected response format
-                console.error('Unexpected response:', data)
-                setScanResult({
-                    result: 'ERROR',
-                    message: 'Unexpected response from server'
-                })
             }
+        } else {
+            result = await scanOffline(event.id, token)
+        }
 
-        } catch (err: any) {
-            console.error('Scan exception:', err)
-            setScanResult({
-                result: 'ERROR',
-                message: err.message || 'Unknown error'
-            })
-        } finally {
-            setProcessing(false)
+        setScanResult(result)
+        setQueueCount(loadQueue(event.id).length)
+        showFeedback(result.result)
+
+        // Clear input on successful scan
+        if (result.result === 'VALID') {
+            setTokenInput('')
         }
+
+        setProcessing(false)
+    }
+
+    const handleScan = async (e: React.FormEvent) => {
+        e.preventDefault()
+        await processToken(tokenInput.trim())
     }
 
     if (loading) {
@@ -169,59 +249,80 @@ export function ScanPage() {
                         <h1 className="text-2xl font-bold text-gray-900">Ticket Scannen</h1>
                     </div>
 
-                    <div>
-                        <h2 className="text-lg font-medium text-gray-900">{event.name}</h2>
-                        <p className="text-sm text-gray-500 mt-1">
-                            Voer ticket token in (camera scan komt later)
-                        </p>
+                    <div className="flex items-start justify-between gap-4">
+                        <div>
+                            <h2 className="text-lg font-medium text-gray-900">{event.name}</h2>
+                            <p className="text-sm text-gray-500 mt-1">
+                                {mode === 'camera' ? 'Houd de QR code voor de camera' : 'Voer ticket token in'}
+                            </p>
+                        </div>
+                        <span
+                            className={clsx(
+                                'inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium',
+                                online ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'
+                            )}
+                        >
+                            {online ? <Wifi className="h-3.5 w-3.5 mr-1" /> : <WifiOff className="h-3.5 w-3.5 mr-1" />}
+                            {online ? 'Online' : 'Offline'}
+                            {queueCount > 0 && ` · ${queueCount} in wachtrij`}
+                        </span>
                     </div>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    {/* Left: Scan Form */}
+                    {/* Left: Scanner */}
                     <div className="md:col-span-2">
                         <div className="bg-white rounded-lg shadow-sm p-6">
-                            <form onSubmit={handleScan} className="space-y-4">
-                                <div>
-                                    <label htmlFor="token" className="block text-sm font-medium text-gray-700 mb-2">
-                                        Ticket Token
-                                    </label>
-                                    <div className="relative">
-                                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                                            <QrCode className="h-5 w-5 text-gray-400" />
+                            <div className="flex rounded-md bg-gray-100 p-1 mb-4">
+                                <ModeButton active={mode === 'camera'} onClick={() => setMode('camera')} icon={Camera} label="Camera" />
+                                <ModeButton active={mode === 'manual'} onClick={() => setMode('manual')} icon={Keyboard} label="Handmatig" />
+                            </div>
+
+                            {mode === 'camera' ? (
+                                <QrCameraScanner onDetect={processToken} paused={processing} flash={flash} />
+                            ) : (
+                                <form onSubmit={handleScan} className="space-y-4">
+                                    <div>
+                                        <label htmlFor="token" className="block text-sm font-medium text-gray-700 mb-2">
+                                            Ticket Token
+                                        </label>
+                                        <div className="relative">
+                                            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                                                <QrCode className="h-5 w-5 text-gray-400" />
+                                            </div>
+                                            <input
+                                                type="text"
+                                                name="token"
+                                                id="token"
+                                                className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                                                placeholder="Plak token hier..."
+                                                value={tokenInput}
+                                                onChange={(e) => setTokenInput(e.target.value)}
+                                                disabled={processing}
+                                                autoFocus
+                                            />
                                         </div>
-                                        <input
-                                            type="text"
-                                            name="token"
-                                            id="token"
-                                            className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                                            placeholder="Plak token hier..."
-                                            value={tokenInput}
-                                            onChange={(e) => setTokenInput(e.target.value)}
-                                            disabled={processing}
-                                            autoFocus
-                                        />
                                     </div>
-                                </div>
 
-                                <button
-                                    type="submit"
-                                    disabled={processing || !tokenInput.trim()}
-                                    className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                                >
-                                    {processing ? (
-                                        <>
-                                            <Loader2 className="animate-spin h-5 w-5 mr-2" />
-                                            Scannen...
-                                        </>
-                                    ) : (
-                                        <>
-                                            <QrCode className="h-5 w-5 mr-2" />
-                                            Scan Ticket
-                                        </>
-                                    )}
-                                </button>
-                            </form>
+                                    <button
+                                        type="submit"
+                                        disabled={processing || !tokenInput.trim()}
+                                        className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {processing ? (
+                                            <>
+                                                <Loader2 className="animate-spin h-5 w-5 mr-2" />
+                                                Scannen...
+                                            </>
+                                        ) : (
+                                            <>
+                                                <QrCode className="h-5 w-5 mr-2" />
+                                                Scan Ticket
+                                            </>
+                                        )}
+                                    </button>
+                                </form>
+                            )}
 
                             {/* Result Display */}
                             {scanResult && (
@@ -232,8 +333,8 @@ export function ScanPage() {
                         </div>
                     </div>
 
-                    {/* Right: Stats */}
-                    <div className="md:col-span-1">
+                    {/* Right: Stats + Offline */}
+                    <div className="md:col-span-1 space-y-4">
                         <div className="bg-white rounded-lg shadow-sm p-6">
                             <div className="flex items-center mb-4">
                                 <BarChart3 className="h-5 w-5 text-indigo-600 mr-2" />
@@ -261,6 +362,68 @@ export function ScanPage() {
                                 Ververs
                             </button>
                         </div>
+
+                        <div className="bg-white rounded-lg shadow-sm p-6">
+                            <div className="flex items-center mb-4">
+                                <Download className="h-5 w-5 text-indigo-600 mr-2" />
+                                <h3 className="text-sm font-medium text-gray-900">Offline modus</h3>
+                            </div>
+
+                            {snapshotInfo ? (
+                                <div className="space-y-3">
+                                    <StatItem label="Tickets offline" value={snapshotInfo.count} />
+                                    <StatItem
+                                        label="Bijgewerkt"
+                                        value={new Date(snapshotInfo.generatedAt).toLocaleTimeString('nl-NL', { hour: '2-digit', minute: '2-digit' })}
+                                    />
+                                    <StatItem label="In wachtrij" value={queueCount} />
+                                </div>
+                            ) : (
+                                <p className="text-sm text-gray-500">Nog geen offline lijst gedownload</p>
+                            )}
+
+                            <button
+                                onClick={() => refreshSnapshot(event.id)}
+                                disabled={!online || downloading}
+                                className="mt-4 w-full inline-flex justify-center items-center text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                            >
+                                <RefreshCw className={clsx('h-4 w-4 mr-1', downloading && 'animate-spin')} />
+                                Offline-lijst vernieuwen
+                            </button>
+
+                            {queueCount > 0 && (
+                                <button
+                                    onClick={() => syncQueue(event.id)}
+                                    disabled={syncing}
+                                    className="mt-2 w-full inline-flex justify-center items-center text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                                >
+                                    {syncing && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                                    Nu synchroniseren
+                                </button>
+                            )}
+
+                            {conflicts.length > 0 && (
+                                <div className="mt-4 pt-4 border-t border-gray-100">
+                                    <p className="text-sm font-medium text-red-700 flex items-center">
+                                        <AlertTriangle className="h-4 w-4 mr-1" />
+                                        Dubbele toegang ({conflicts.length})
+                                    </p>
+                                    <ul className="mt-2 space-y-2">
+                                        {conflicts.map((conflict, index) => (
+                                            <li key={`${conflict.ticket_id}-${index}`} className="text-xs text-gray-600">
+                                                <span className="font-mono">{conflict.ticket_id.slice(0, 8)}</span>
+                                                {' · '}
+                                                {conflict.resolution === 'OFFLINE_FIRST'
+                                                    ? 'offline eerder binnengelaten dan'
+                                                    : 'offline opnieuw binnengelaten na'}
+                                                {' scan om '}
+                                                {new Date(conflict.recorded_scan.checked_in_at).toLocaleTimeString('nl-NL')}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
                     </div>
                 </div>
             </div>
@@ -268,6 +431,28 @@ export function ScanPage() {
     )
 }
 
+// Mode Toggle Button Component
+function ModeButton({ active, onClick, icon: Icon, label }: {
+    active: boolean
+    onClick: () => void
+    icon: typeof Camera
+    label: string
+}) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            className={clsx(
+                'flex-1 inline-flex justify-center items-center py-2 text-sm font-medium rounded',
+                active ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            )}
+        >
+            <Icon className="h-4 w-4 mr-2" />
+            {label}
+        </button>
+    )
+}
+
 // Result Card Component
 function ScanResultCard({ result }: { result: ScanResult }) {
     const isSuccess = result.result === 'VALID'
@@ -328,6 +513,19 @@ function ScanResultCard({ result }: { result: ScanResult }) {
                             <p className="text-sm text-gray-700">
                                 <span className="font-medium">Type:</span> {result.ticket.type_name}
                             </p>
+                            {result.ticket.bib_number != null && (
+                                <p className="text-sm text-gray-700">
+                                    <span className="font-medium">Startnummer:</span>{' '}
+                                    <span className="text-base font-semibold tabular-nums">{result.ticket.bib_number}</span>
+                                </p>
+                            )}
+                            {result.ticket.time_slot && (
+                                <p className="inline-flex items-center px-2 py-1 rounded bg-indigo-100 text-indigo-800 text-base font-semibold">
+                                    <Clock className="mr-1 h-4 w-4" />
+                                    Startvak: {result.ticket.time_slot.label || 'Start'} · {result.ticket.time_slot.slot_time.slice(0, 5)}
+                                    {result.ticket.time_slot.slot_date && ` (${new Date(result.ticket.time_slot.slot_date).toLocaleDateString('nl-NL')})`}
+                                </p>
+                            )}
                             {result.ticket.participant_name && (
                                 <p className="text-sm text-gray-700">
                                     <span className="font-medium">Deelnemer:</span> {result.ticket.participant_name}
@@ -338,6 +536,16 @@ function ScanResultCard({ result }: { result: ScanResult }) {
                                     <span className="font-medium">Email:</span> {result.ticket.participant_email}
                                 </p>
                             )}
+                            {result.ticket.team && (
+                                <p className="text-sm text-gray-700">
+                                    <span className="font-medium">Team:</span> {result.ticket.team.name}
+                                    {result.ticket.team.role === 'captain' && ' (captain)'}
+                                    {!result.ticket.team.role && ' (plek nog niet toegewezen)'}
+                                    <span className="text-gray-500">
+                                        {' '}· {result.ticket.team.member_count}/{result.ticket.team.slots} leden
+                                    </span>
+                                </p>
+                            )}
                             {result.ticket.checked_in_at && (
                                 <p className="text-sm text-gray-700">
                                     <span className="font-medium">Tijd:</span>{' '}
@@ -387,3 +595,35 @@ function getResultLabel(result: string): string {
     }
     return labels[result] || result
 }
+
+// Helper: Summary of the offline token list
+function describeSnapshot(snapshot: OfflineScanSnapshot | null): { generatedAt: string, count: number } | null {
+    return snapshot ? { generatedAt: snapshot.generated_at, count: snapshot.tickets.length } : null
+}
+
+// Helper: Audible feedback (hoge piep = geldig, dubbele piep = reeds gescand, lage toon = fout)
+let audioContext: AudioContext | null = null
+
+function playFeedbackSound(tone: FeedbackTone) {
+    try {
+        audioContext ??= new AudioContext()
+        const beeps = tone === 'success'
+            ? [{ frequency: 1200, start: 0, duration: 0.15 }]
+            : tone === 'warning'
+            ? [{ frequency: 800, start: 0, duration: 0.12 }, { frequency: 800, start: 0.2, duration: 0.12 }]
+            : [{ frequency: 300, start: 0, duration: 0.4 }]
+
+        for (const beep of beeps) {
+            const oscillator = audioContext.createOscillator()
+            const gain = audioContext.createGain()
+            oscillator.frequency.value = beep.frequency
+            gain.gain.value = 0.2
+            oscillator.connect(gain)
+            gain.connect(audioContext.destination)
+            oscillator.start(audioContext.currentTime + beep.start)
+            oscillator.stop(audioContext.currentTime + beep.start + beep.duration)
+        }
+    } catch (err) {
+        console.warn('Audio feedback unavailable:', err)
+    }
+}
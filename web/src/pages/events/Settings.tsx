@@ -3,6 +3,7 @@ import { useForm } from 'react-hook-form'
 import { useSearchParams } from 'react-router-dom'
 import { supabase } from '../../lib/supabase'
 import { clsx } from 'clsx'
+import { SELF_SERVICE_FIELDS, type SelfServiceField } from '../../data/self_service'
 
 // --- Types ---
 
@@ -19,6 +20,10 @@ type TransferSettings = {
     transfers_enabled: boolean
     transfer_expiry_hours: number
     cancel_roles: string[]
+    // Doorverkoop via de organisator (F035)
+    resale_enabled: boolean
+    resale_max_price_pct: number
+    resale_fee_pct: number
 }
 
 type CommunicationSettings = {
@@ -121,6 +126,14 @@ type TicketPrivacySettings = {
     }
 }
 
+// Zelfbediening van deelnemers (F037)
+type ParticipantSettings = {
+    self_service_enabled: boolean
+    self_service_cutoff_hours: number
+    self_service_fields: SelfServiceField[]
+    self_service_answers: boolean
+}
+
 type EffectiveSettings = {
     payments: PaymentSettings
     transfers: TransferSettings
@@ -134,6 +147,7 @@ type EffectiveSettings = {
     interest_list: InterestListSettings
     ticket_pdf: TicketPdfSettings
     ticket_privacy: TicketPrivacySettings
+    participants: ParticipantSettings
 }
 
 type Permissions = {
@@ -150,8 +164,31 @@ type Permissions = {
     can_edit_interest_list: boolean
     can_edit_ticket_pdf: boolean
     can_edit_ticket_privacy: boolean
+    can_edit_participants: boolean
+}
+
+type SettingsDomain = keyof EffectiveSettings
+
+type SettingsValues = Record<string, unknown>
+
+// Ruwe lagen per domein (get_event_config_sources)
+type DomainSources = {
+    defaults: SettingsValues
+    org: SettingsValues
+    event: SettingsValues
+}
+
+type ConfigSources = Partial<Record<SettingsDomain, DomainSources>>
+
+// Events die org waarden overschrijven (get_org_config_overrides)
+type EventOverride = {
+    event_id: string
+    event_name: string
+    keys: string[]
 }
 
+type OrgOverrides = Partial<Record<SettingsDomain, EventOverride[]>>
+
 // --- Toast Component ---
 
 type ToastType = 'success' | 'error' | 'info'
@@ -199,14 +236,144 @@ function normalizeConfig(data: any): EffectiveSettings | null {
     return null
 }
 
+function isPlainObject(value: unknown): value is SettingsValues {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Zelfde semantiek als jsonb_deep_merge: objecten recursief, de rest vervangen
+function mergeDeep(base: SettingsValues, patch: SettingsValues): SettingsValues {
+    const result: SettingsValues = { ...base }
+    for (const [key, value] of Object.entries(patch)) {
+        const current = result[key]
+        result[key] = isPlainObject(current) && isPlainObject(value) ? mergeDeep(current, value) : value
+    }
+    return result
+}
+
+// Formulieren leveren getallen soms als string; "21" en 21 gelden als gelijk
+function sameValue(a: unknown, b: unknown): boolean {
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+        return [...keys].every(key => sameValue(a[key], b[key]))
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, i) => sameValue(item, b[i]))
+    }
+    if (a === null || a === undefined || b === null || b === undefined) {
+        return (a ?? null) === (b ?? null)
+    }
+    if (typeof a === 'object' || typeof b === 'object') return false
+    return String(a) === String(b)
+}
+
+function formatSettingValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '—'
+    const text = typeof value === 'string' ? value : JSON.stringify(value)
+    return text.length > 48 ? `${text.slice(0, 45)}...` : text
+}
+
+// --- Config Source Panel ---
+
+function ConfigSourcePanel({ sources, overrides, canEdit, saving, onClear, onPush }: {
+    sources?: DomainSources
+    overrides?: EventOverride[]
+    canEdit: boolean
+    saving: boolean
+    onClear: (key: string) => void
+    onPush: () => void
+}) {
+    // Org scope: welke events wijken af van de org standaard
+    if (overrides) {
+        return (
+            <details className="rounded-md border border-gray-200 bg-gray-50 text-sm">
+                <summary className="cursor-pointer px-4 py-2 text-gray-600">
+                    {overrides.length === 0
+                        ? 'Alle events gebruiken deze standaardwaarden'
+                        : `${overrides.length} event${overrides.length === 1 ? '' : 's'} met eigen waarden`}
+                </summary>
+                <div className="px-4 pb-4 space-y-3">
+                    {overrides.length > 0 && (
+                        <ul className="divide-y divide-gray-200">
+                            {overrides.map(o => (
+                                <li key={o.event_id} className="py-2 flex justify-between gap-4">
+                                    <span className="font-medium text-gray-700">{o.event_name}</span>
+                                    <span className="text-xs font-mono text-gray-500 text-right">{o.keys.join(', ')}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {canEdit && overrides.length > 0 && (
+                        <button type="button" onClick={onPush} disabled={saving} className="px-3 py-1.5 text-sm border border-indigo-300 text-indigo-700 rounded-md hover:bg-indigo-50 disabled:opacity-50">
+                            Push naar alle events
+                        </button>
+                    )}
+                </div>
+            </details>
+        )
+    }
+
+    if (!sources) return null
+
+    // Event scope: per veld de herkomst van de waarde
+    const keys = [...new Set([
+        ...Object.keys(sources.defaults),
+        ...Object.keys(sources.org),
+        ...Object.keys(sources.event)
+    ])].sort()
+    const overriddenCount = keys.filter(key => key in sources.event).length
+
+    return (
+        <details className="rounded-md border border-gray-200 bg-gray-50 text-sm">
+            <summary className="cursor-pointer px-4 py-2 text-gray-600">
+                {overriddenCount === 0
+                    ? 'Alle waarden overgenomen van de organisatie'
+                    : `${overriddenCount} veld${overriddenCount === 1 ? '' : 'en'} overschreven op dit event`}
+            </summary>
+            <table className="mx-4 mb-4 w-[calc(100%-2rem)] text-left">
+                <tbody className="divide-y divide-gray-200">
+                    {keys.map(key => {
+                        const source = key in sources.event ? 'event' : key in sources.org ? 'org' : 'defaults'
+                        const inherited = key in sources.org ? sources.org[key] : sources.defaults[key]
+                        return (
+                            <tr key={key}>
+                                <td className="py-1.5 pr-4 font-mono text-xs text-gray-700">{key}</td>
+                                <td className="py-1.5 pr-4">
+                                    <span className={clsx(
+                                        'inline-flex px-2 py-0.5 rounded-full text-xs font-medium',
+                                        source === 'event' && 'bg-amber-100 text-amber-800',
+                                        source === 'org' && 'bg-indigo-100 text-indigo-700',
+                                        source === 'defaults' && 'bg-gray-200 text-gray-600'
+                                    )}>
+                                        {source === 'event' ? 'Event override' : source === 'org' ? 'Organisatie' : 'Standaard'}
+                                    </span>
+                                </td>
+                                <td className="py-1.5 pr-4 text-xs text-gray-500">
+                                    {source === 'event' && <>Geërfd: {formatSettingValue(inherited)}</>}
+                                </td>
+                                <td className="py-1.5 text-right">
+                                    {source === 'event' && canEdit && (
+                                        <button type="button" onClick={() => onClear(key)} disabled={saving} className="text-xs text-indigo-600 hover:text-indigo-800 disabled:opacity-50">
+                                            Wissen
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        )
+                    })}
+                </tbody>
+            </table>
+        </details>
+    )
+}
+
 // --- Debug Panel ---
 
-function DebugPanel({ data, permissions, eventId }: { data: any; permissions: Permissions | null; eventId: string }) {
+function DebugPanel({ data, permissions, eventId, orgId }: { data: any; permissions: Permissions | null; eventId?: string; orgId?: string }) {
     return (
         <details className="mt-8 p-4 bg-gray-100 rounded text-xs font-mono border border-gray-300">
             <summary className="cursor-pointer font-bold">Debug Info</summary>
             <div className="mt-2 space-y-1">
-                <div>EventID: {eventId}</div>
+                {eventId ? <div>EventID: {eventId}</div> : <div>OrgID: {orgId}</div>}
                 <div>Role: {permissions?.role || 'unknown'}</div>
                 <div>Permissions: {JSON.stringify(permissions)}</div>
                 <pre className="mt-2 overflow-auto max-h-48">{JSON.stringify(data, null, 2)}</pre>
@@ -267,9 +434,13 @@ function LocaleTabs({ activeLocale, onChange }: { activeLocale: string; onChange
 
 // --- Main Component ---
 
-type TabName = 'governance' | 'content' | 'branding' | 'waitlist' | 'tickets' | 'payments' | 'transfers' | 'communication'
+type TabName = 'governance' | 'content' | 'branding' | 'waitlist' | 'tickets' | 'payments' | 'transfers' | 'participants' | 'communication'
 
-export function Settings({ eventId }: { eventId: string }) {
+/**
+ * Settings editor for one event (eventId) or for the org-wide defaults (orgId).
+ * Events inherit system defaults -> org settings -> event overrides.
+ */
+export function Settings({ eventId, orgId }: { eventId?: string; orgId?: string }) {
     const [searchParams] = useSearchParams()
     const showDebug = searchParams.get('debug') === '1'
 
@@ -279,6 +450,8 @@ export function Settings({ eventId }: { eventId: string }) {
     const [saving, setSaving] = useState(false)
     const [config, setConfig] = useState<EffectiveSettings | null>(null)
     const [permissions, setPermissions] = useState<Permissions | null>(null)
+    const [sources, setSources] = useState<ConfigSources | null>(null)
+    const [overrides, setOverrides] = useState<OrgOverrides | null>(null)
     const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
 
     // Forms
@@ -294,17 +467,36 @@ export function Settings({ eventId }: { eventId: string }) {
     const interestListForm = useForm<InterestListSettings>()
     const ticketPdfForm = useForm<TicketPdfSettings>()
     const ticketPrivacyForm = useForm<TicketPrivacySettings>()
+    const participantsForm = useForm<ParticipantSettings>()
 
     const legalMode = legalForm.watch('mode')
 
+    // Herkomst per veld (event) of afwijkende events (org)
+    const fetchInheritance = useCallback(async () => {
+        if (eventId) {
+            const { data, error } = await supabase.rpc('get_event_config_sources', { _event_id: eventId })
+            if (error) throw error
+            setSources(data as ConfigSources)
+        } else if (orgId) {
+            const { data, error } = await supabase.rpc('get_org_config_overrides', { _org_id: orgId })
+            if (error) throw error
+            setOverrides(data as OrgOverrides)
+        }
+    }, [eventId, orgId])
+
     const fetchConfig = useCallback(async () => {
-        if (!eventId) return
+        if (!eventId && !orgId) return
         setLoading(true)
         try {
-            const [configRes, permRes] = await Promise.all([
-                supabase.rpc('get_event_config', { _event_id: eventId }),
-                supabase.rpc('get_event_config_permissions', { _event_id: eventId })
-            ])
+            const [configRes, permRes] = await Promise.all(eventId
+                ? [
+                    supabase.rpc('get_event_config', { _event_id: eventId }),
+                    supabase.rpc('get_event_config_permissions', { _event_id: eventId })
+                ]
+                : [
+                    supabase.rpc('get_org_config', { _org_id: orgId }),
+                    supabase.rpc('get_org_config_permissions', { _org_id: orgId })
+                ])
 
             if (configRes.error) throw configRes.error
             if (permRes.error) throw permRes.error
@@ -327,6 +519,9 @@ export function Settings({ eventId }: { eventId: string }) {
             interestListForm.reset(normalized.interest_list)
             ticketPdfForm.reset(normalized.ticket_pdf)
             ticketPrivacyForm.reset(normalized.ticket_privacy)
+            participantsForm.reset(normalized.participants)
+
+            await fetchInheritance()
 
         } catch (err: any) {
             console.error('[Settings] Fetch error:', err)
@@ -334,50 +529,73 @@ export function Settings({ eventId }: { eventId: string }) {
         } finally {
             setLoading(false)
         }
-    }, [eventId])
+    }, [eventId, orgId, fetchInheritance])
 
     useEffect(() => {
         fetchConfig()
     }, [fetchConfig])
 
-    const handleSave = async (domain: string, patch: any) => {
+    const applyDomainConfig = (domain: string, data: unknown) => {
+        const normalized = normalizeConfig(data)
+        if (!normalized) return
+
+        setConfig(normalized)
+        if (domain === 'payments') paymentsForm.reset(normalized.payments)
+        if (domain === 'transfers') transfersForm.reset(normalized.transfers)
+        if (domain === 'communication') commsForm.reset(normalized.communication)
+        if (domain === 'governance') governanceForm.reset(normalized.governance)
+        if (domain === 'legal') legalForm.reset(normalized.legal)
+        if (domain === 'basic_info') basicInfoForm.reset(normalized.basic_info)
+        if (domain === 'content_communication') contentCommForm.reset(normalized.content_communication)
+        if (domain === 'branding') brandingForm.reset(normalized.branding)
+        if (domain === 'waitlist') waitlistForm.reset(normalized.waitlist)
+        if (domain === 'interest_list') interestListForm.reset(normalized.interest_list)
+        if (domain === 'ticket_pdf') ticketPdfForm.reset(normalized.ticket_pdf)
+        if (domain === 'ticket_privacy') ticketPrivacyForm.reset(normalized.ticket_privacy)
+        if (domain === 'participants') participantsForm.reset(normalized.participants)
+    }
+
+    const handleSave = async (domain: SettingsDomain, patch: any) => {
         setSaving(true)
         try {
             if (domain === 'payments' && patch.vat_rate !== undefined) {
                 patch.vat_rate = Number(patch.vat_rate)
             }
-            if (domain === 'transfers' && patch.transfer_expiry_hours !== undefined) {
-                patch.transfer_expiry_hours = Number(patch.transfer_expiry_hours)
+            if (domain === 'transfers') {
+                for (const key of ['transfer_expiry_hours', 'resale_max_price_pct', 'resale_fee_pct']) {
+                    if (patch[key] !== undefined) patch[key] = Number(patch[key])
+                }
+            }
+            if (domain === 'participants' && patch.self_service_cutoff_hours !== undefined) {
+                patch.self_service_cutoff_hours = Number(patch.self_service_cutoff_hours)
             }
             // Filter out empty strings from extra_recipients
             if (domain === 'content_communication' && patch.extra_recipients) {
                 patch.extra_recipients = patch.extra_recipients.filter((email: string) => email && email.trim() !== '')
             }
 
-            const { data, error } = await supabase.rpc('set_event_config', {
-                _event_id: eventId,
-                _domain: domain,
-                _patch: patch
-            })
+            // Event: alleen velden opslaan die afwijken van de geërfde waarde,
+            // anders wordt elke org waarde bij opslaan een event override
+            const domainSources = eventId ? sources?.[domain] : undefined
+            if (domainSources) {
+                const inherited = mergeDeep(domainSources.defaults, domainSources.org)
+                patch = Object.fromEntries(Object.entries(patch).filter(([key, value]) =>
+                    key in domainSources.event || !sameValue(value, inherited[key])
+                ))
+                if (Object.keys(patch).length === 0) {
+                    setToast({ message: 'Geen wijzigingen ten opzichte van de organisatie-instellingen', type: 'info' })
+                    return
+                }
+            }
+
+            const { data, error } = eventId
+                ? await supabase.rpc('set_event_config', { _event_id: eventId, _domain: domain, _patch: patch })
+                : await supabase.rpc('set_org_config', { _org_id: orgId, _domain: domain, _patch: patch })
 
             if (error) throw error
 
-            const normalized = normalizeConfig(data)
-            if (normalized) {
-                setConfig(normalized)
-                if (domain === 'payments') paymentsForm.reset(normalized.payments)
-                if (domain === 'transfers') transfersForm.reset(normalized.transfers)
-                if (domain === 'communication') commsForm.reset(normalized.communication)
-                if (domain === 'governance') governanceForm.reset(normalized.governance)
-                if (domain === 'legal') legalForm.reset(normalized.legal)
-                if (domain === 'basic_info') basicInfoForm.reset(normalized.basic_info)
-                if (domain === 'content_communication') contentCommForm.reset(normalized.content_communication)
-                if (domain === 'branding') brandingForm.reset(normalized.branding)
-                if (domain === 'waitlist') waitlistForm.reset(normalized.waitlist)
-                if (domain === 'interest_list') interestListForm.reset(normalized.interest_list)
-                if (domain === 'ticket_pdf') ticketPdfForm.reset(normalized.ticket_pdf)
-                if (domain === 'ticket_privacy') ticketPrivacyForm.reset(normalized.ticket_privacy)
-            }
+            applyDomainConfig(domain, data)
+            await fetchInheritance()
 
             setToast({ message: `${domain.replace('_', ' ')} settings saved`, type: 'success' })
 
@@ -389,34 +607,19 @@ export function Settings({ eventId }: { eventId: string }) {
         }
     }
 
-    const handleReset = async (domain: string) => {
+    const handleReset = async (domain: SettingsDomain) => {
         if (!confirm(`Reset ${domain.replace('_', ' ')} settings to defaults?`)) return
 
         setSaving(true)
         try {
-            const { data, error } = await supabase.rpc('reset_event_config_domain', {
-                _event_id: eventId,
-                _domain: domain
-            })
+            const { data, error } = eventId
+                ? await supabase.rpc('reset_event_config_domain', { _event_id: eventId, _domain: domain })
+                : await supabase.rpc('reset_org_config_domain', { _org_id: orgId, _domain: domain })
 
             if (error) throw error
 
-            const normalized = normalizeConfig(data)
-            if (normalized) {
-                setConfig(normalized)
-                if (domain === 'payments') paymentsForm.reset(normalized.payments)
-                if (domain === 'transfers') transfersForm.reset(normalized.transfers)
-                if (domain === 'communication') commsForm.reset(normalized.communication)
-                if (domain === 'governance') governanceForm.reset(normalized.governance)
-                if (domain === 'legal') legalForm.reset(normalized.legal)
-                if (domain === 'basic_info') basicInfoForm.reset(normalized.basic_info)
-                if (domain === 'content_communication') contentCommForm.reset(normalized.content_communication)
-                if (domain === 'branding') brandingForm.reset(normalized.branding)
-                if (domain === 'waitlist') waitlistForm.reset(normalized.waitlist)
-                if (domain === 'interest_list') interestListForm.reset(normalized.interest_list)
-                if (domain === 'ticket_pdf') ticketPdfForm.reset(normalized.ticket_pdf)
-                if (domain === 'ticket_privacy') ticketPrivacyForm.reset(normalized.ticket_privacy)
-            }
+            applyDomainConfig(domain, data)
+            await fetchInheritance()
 
             setToast({ message: `${domain.replace('_', ' ')} settings reset`, type: 'info' })
 
@@ -428,6 +631,69 @@ export function Settings({ eventId }: { eventId: string }) {
         }
     }
 
+    const handleClearOverride = async (domain: SettingsDomain, key: string) => {
+        if (!eventId) return
+
+        setSaving(true)
+        try {
+            const { data, error } = await supabase.rpc('clear_event_config_override', {
+                _event_id: eventId,
+                _domain: domain,
+                _key: key
+            })
+
+            if (error) throw error
+
+            applyDomainConfig(domain, data)
+            await fetchInheritance()
+
+            setToast({ message: `${key} volgt weer de organisatie-instelling`, type: 'info' })
+
+        } catch (err) {
+            console.error('[Settings] Clear override error:', err)
+            setToast({ message: (err as { message?: string }).message || 'Failed to clear override', type: 'error' })
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handlePush = async (domain: SettingsDomain) => {
+        if (!orgId) return
+        if (!confirm(`Eigen ${domain.replace('_', ' ')} instellingen van alle events wissen, zodat ze de organisatie-instellingen gebruiken?`)) return
+
+        setSaving(true)
+        try {
+            const { data, error } = await supabase.rpc('push_org_config_to_events', {
+                _org_id: orgId,
+                _domain: domain
+            })
+
+            if (error) throw error
+            if (data?.error) throw new Error(data.error)
+
+            await fetchInheritance()
+
+            setToast({ message: `${data.events_updated} event(s) bijgewerkt`, type: 'success' })
+
+        } catch (err) {
+            console.error('[Settings] Push error:', err)
+            setToast({ message: (err as { message?: string }).message || 'Failed to push settings', type: 'error' })
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const sourcePanel = (domain: SettingsDomain, canEdit: boolean) => (
+        <ConfigSourcePanel
+            sources={sources?.[domain]}
+            overrides={orgId ? overrides?.[domain] ?? [] : undefined}
+            canEdit={canEdit}
+            saving={saving}
+            onClear={key => handleClearOverride(domain, key)}
+            onPush={() => handlePush(domain)}
+        />
+    )
+
     const canEditPayments = permissions?.can_edit_payments ?? false
     const canEditTransfers = permissions?.can_edit_transfers ?? false
     const canEditCommunication = permissions?.can_edit_communication ?? false
@@ -440,6 +706,7 @@ export function Settings({ eventId }: { eventId: string }) {
     const canEditInterestList = permissions?.can_edit_interest_list ?? false
     const canEditTicketPdf = permissions?.can_edit_ticket_pdf ?? false
     const canEditTicketPrivacy = permissions?.can_edit_ticket_privacy ?? false
+    const canEditParticipants = permissions?.can_edit_participants ?? false
 
     if (loading) {
         return (
@@ -486,6 +753,9 @@ export function Settings({ eventId }: { eventId: string }) {
                     <TabButton active={activeTab === 'transfers'} onClick={() => setActiveTab('transfers')}>
                         Transfers
                     </TabButton>
+                    <TabButton active={activeTab === 'participants'} onClick={() => setActiveTab('participants')}>
+                        Deelnemers
+                    </TabButton>
                     <TabButton active={activeTab === 'communication'} onClick={() => setActiveTab('communication')}>
                         Communication
                     </TabButton>
@@ -497,6 +767,7 @@ export function Settings({ eventId }: { eventId: string }) {
                 {activeTab === 'governance' && (
                     <div className="space-y-8">
                         <form onSubmit={governanceForm.handleSubmit(d => handleSave('governance', d))} className="space-y-6">
+                            {sourcePanel('governance', canEditGovernance)}
                             <div>
                                 <h3 className="text-lg font-medium text-gray-900 mb-4">Event Visibility</h3>
                                 <div className="flex items-start">
@@ -531,6 +802,7 @@ export function Settings({ eventId }: { eventId: string }) {
                         <hr className="border-gray-200" />
 
                         <form onSubmit={legalForm.handleSubmit(d => handleSave('legal', d))} className="space-y-6">
+                            {sourcePanel('legal', canEditLegal)}
                             <div>
                                 <h3 className="text-lg font-medium text-gray-900 mb-4">Voorwaarden (Terms)</h3>
                                 <div className="space-y-4">
@@ -596,6 +868,7 @@ export function Settings({ eventId }: { eventId: string }) {
                     <div className="space-y-8">
                         {/* Basic Info Section */}
                         <form onSubmit={basicInfoForm.handleSubmit(d => handleSave('basic_info', d))} className="space-y-6">
+                            {sourcePanel('basic_info', canEditBasicInfo)}
                             <div>
                                 <h3 className="text-lg font-medium text-gray-900 mb-4">Event Informatie</h3>
                                 <LocaleTabs activeLocale={activeLocale} onChange={setActiveLocale} />
@@ -659,6 +932,7 @@ export function Settings({ eventId }: { eventId: string }) {
 
                         {/* Content Communication Section */}
                         <form onSubmit={contentCommForm.handleSubmit(d => handleSave('content_communication', d))} className="space-y-6">
+                            {sourcePanel('content_communication', canEditContentComm)}
                             <div>
                                 <h3 className="text-lg font-medium text-gray-900 mb-4">Checkout & E-mail Content</h3>
                                 <LocaleTabs activeLocale={activeLocale} onChange={setActiveLocale} />
@@ -733,6 +1007,7 @@ export function Settings({ eventId }: { eventId: string }) {
                 {/* --- PAYMENTS TAB --- */}
                 {activeTab === 'payments' && (
                     <form onSubmit={paymentsForm.handleSubmit(d => handleSave('payments', d))} className="space-y-6">
+                        {sourcePanel('payments', canEditPayments)}
                         <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
                             <div className="sm:col-span-4">
                                 <label className="block text-sm font-medium text-gray-700">Payment Profile ID</label>
@@ -767,6 +1042,7 @@ export function Settings({ eventId }: { eventId: string }) {
                 {/* --- TRANSFERS TAB --- */}
                 {activeTab === 'transfers' && (
                     <form onSubmit={transfersForm.handleSubmit(d => handleSave('transfers', d))} className="space-y-6">
+                        {sourcePanel('transfers', canEditTransfers)}
                         <div className="space-y-4">
                             <div className="flex items-start">
                                 <input id="transfers_enabled" type="checkbox" {...transfersForm.register('transfers_enabled')} disabled={!canEditTransfers || saving} className="h-4 w-4 text-indigo-600 border-gray-300 rounded" />
@@ -779,6 +1055,23 @@ export function Settings({ eventId }: { eventId: string }) {
                                 <label className="block text-sm font-medium text-gray-700">Transfer Expiry (Hours)</label>
                                 <input type="number" {...transfersForm.register('transfer_expiry_hours')} disabled={!canEditTransfers || saving} className="mt-1 block w-32 border-gray-300 rounded-md disabled:bg-gray-100" />
                             </div>
+                            <div className="flex items-start">
+                                <input id="resale_enabled" type="checkbox" {...transfersForm.register('resale_enabled')} disabled={!canEditTransfers || saving} className="h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                                <div className="ml-3 text-sm">
+                                    <label htmlFor="resale_enabled" className="font-medium text-gray-700">Enable Resale</label>
+                                    <p className="text-gray-500">Let buyers resell tickets through the event page. Sellers are refunded the sale price minus the fee.</p>
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Max Resale Price (% of face value)</label>
+                                    <input type="number" min={1} max={100} {...transfersForm.register('resale_max_price_pct')} disabled={!canEditTransfers || saving} className="mt-1 block w-32 border-gray-300 rounded-md disabled:bg-gray-100" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Resale Fee (% of sale price)</label>
+                                    <input type="number" min={0} max={50} step="0.5" {...transfersForm.register('resale_fee_pct')} disabled={!canEditTransfers || saving} className="mt-1 block w-32 border-gray-300 rounded-md disabled:bg-gray-100" />
+                                </div>
+                            </div>
                         </div>
                         <div className="flex justify-between items-center">
                             <button type="button" onClick={() => handleReset('transfers')} disabled={!canEditTransfers || saving} className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50">
@@ -793,9 +1086,58 @@ export function Settings({ eventId }: { eventId: string }) {
                     </form>
                 )}
 
+                {/* --- PARTICIPANTS TAB --- */}
+                {activeTab === 'participants' && (
+                    <form onSubmit={participantsForm.handleSubmit(d => handleSave('participants', d))} className="space-y-6">
+                        {sourcePanel('participants', canEditParticipants)}
+                        <div className="space-y-4">
+                            <div className="flex items-start">
+                                <input id="self_service_enabled" type="checkbox" {...participantsForm.register('self_service_enabled')} disabled={!canEditParticipants || saving} className="h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                                <div className="ml-3 text-sm">
+                                    <label htmlFor="self_service_enabled" className="font-medium text-gray-700">Zelf gegevens aanpassen</label>
+                                    <p className="text-gray-500">Deelnemers passen via de link in hun bevestiging of de app zelf hun gegevens aan. Elke wijziging is zichtbaar bij het tickettype.</p>
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Deadline (uren vóór de start)</label>
+                                <input type="number" min={0} max={720} {...participantsForm.register('self_service_cutoff_hours')} disabled={!canEditParticipants || saving} className="mt-1 block w-32 border-gray-300 rounded-md disabled:bg-gray-100" />
+                            </div>
+                            <div>
+                                <span className="block text-sm font-medium text-gray-700 mb-2">Aanpasbare velden</span>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {SELF_SERVICE_FIELDS.map(({ key, label }) => (
+                                        <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+                                            <input type="checkbox" value={key} {...participantsForm.register('self_service_fields')} disabled={!canEditParticipants || saving} className="h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                                            {label}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="flex items-start">
+                                <input id="self_service_answers" type="checkbox" {...participantsForm.register('self_service_answers')} disabled={!canEditParticipants || saving} className="h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                                <div className="ml-3 text-sm">
+                                    <label htmlFor="self_service_answers" className="font-medium text-gray-700">Registratieantwoorden aanpassen</label>
+                                    <p className="text-gray-500">Ook de antwoorden op de registratievragen mogen tot de deadline gewijzigd worden.</p>
+                                </div>
+                            </div>
+                        </div>
+                        <div className="flex justify-between items-center">
+                            <button type="button" onClick={() => handleReset('participants')} disabled={!canEditParticipants || saving} className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50">
+                                Reset to defaults
+                            </button>
+                            {canEditParticipants && (
+                                <button type="submit" disabled={saving} className="px-4 py-2 bg-indigo-600 text-white rounded-md disabled:opacity-50">
+                                    {saving ? 'Saving...' : 'Save Participants'}
+                                </button>
+                            )}
+                        </div>
+                    </form>
+                )}
+
                 {/* --- COMMUNICATION TAB --- */}
                 {activeTab === 'communication' && (
                     <form onSubmit={commsForm.handleSubmit(d => handleSave('communication', d))} className="space-y-8">
+                        {sourcePanel('communication', canEditCommunication)}
                         {/* Legacy Settings */}
                         <div>
                             <h3 className="text-lg font-medium text-gray-900 mb-4">Basis Communicatie</h3>
@@ -1058,6 +1400,7 @@ export function Settings({ eventId }: { eventId: string }) {
                 {/* --- BRANDING TAB (NEW Sprint 3) --- */}
                 {activeTab === 'branding' && (
                     <form onSubmit={brandingForm.handleSubmit(d => handleSave('branding', d))} className="space-y-6">
+                        {sourcePanel('branding', canEditBranding)}
                         <div>
                             <h3 className="text-lg font-medium text-gray-900 mb-4">Event Branding</h3>
                             <p className="text-sm text-gray-500 mb-6">
@@ -1149,6 +1492,7 @@ export function Settings({ eventId }: { eventId: string }) {
                     <div className="space-y-12">
                         {/* Waitlist Section */}
                         <form onSubmit={waitlistForm.handleSubmit(d => handleSave('waitlist', d))} className="space-y-6">
+                            {sourcePanel('waitlist', canEditWaitlist)}
                             <div>
                                 <h3 className="text-lg font-medium text-gray-900 mb-4">Wachtlijst</h3>
                                 <p className="text-sm text-gray-500 mb-6">
@@ -1188,6 +1532,7 @@ export function Settings({ eventId }: { eventId: string }) {
 
                         {/* Interest List Section */}
                         <form onSubmit={interestListForm.handleSubmit(d => handleSave('interest_list', d))} className="space-y-6">
+                            {sourcePanel('interest_list', canEditInterestList)}
                             <div>
                                 <h3 className="text-lg font-medium text-gray-900 mb-4">Interesselijst</h3>
                                 <p className="text-sm text-gray-500 mb-6">
@@ -1230,6 +1575,7 @@ export function Settings({ eventId }: { eventId: string }) {
                     <div className="space-y-12">
                         {/* Ticket PDF Section */}
                         <form onSubmit={ticketPdfForm.handleSubmit(d => handleSave('ticket_pdf', d))} className="space-y-6">
+                            {sourcePanel('ticket_pdf', canEditTicketPdf)}
                             <div>
                                 <h3 className="text-lg font-medium text-gray-900 mb-4">Ticket PDF Instellingen</h3>
                                 <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
@@ -1288,6 +1634,7 @@ export function Settings({ eventId }: { eventId: string }) {
 
                         {/* Ticket Privacy Section */}
                         <form onSubmit={ticketPrivacyForm.handleSubmit(d => handleSave('ticket_privacy', d))} className="space-y-6">
+                            {sourcePanel('ticket_privacy', canEditTicketPrivacy)}
                             <div>
                                 <h3 className="text-lg font-medium text-gray-900 mb-4">Ticket Privacy</h3>
                                 <p className="text-sm text-gray-500 mb-4">
@@ -1339,7 +1686,7 @@ export function Settings({ eventId }: { eventId: string }) {
                     </div>
                 )}
 
-                {showDebug && <DebugPanel data={config} permissions={permissions} eventId={eventId} />}
+                {showDebug && <DebugPanel data={config} permissions={permissions} eventId={eventId} orgId={orgId} />}
             </div>
         </div >
     )
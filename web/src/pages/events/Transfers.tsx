@@ -3,6 +3,7 @@ import { useParams } from 'react-router-dom'
 import { supabase } from '../../lib/supabase'
 import { StatusBadge } from '../../components/StatusBadge'
 import { DataTable } from '../../components/DataTable'
+import { ResaleListingsPanel } from '../../components/ResaleListingsPanel'
 
 interface Transfer {
     id: string
@@ -475,6 +476,13 @@ export default function Transfers() {
                 />
             )}
 
+            {eventId && (
+                <ResaleListingsPanel
+                    eventId={eventId}
+                    canManage={role !== null && ['owner', 'admin'].includes(role)}
+                />
+            )}
+
             {/* Detail Modal */}
             {selectedTransfer && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
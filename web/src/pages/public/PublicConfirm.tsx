@@ -7,14 +7,19 @@
  * Features:
  * - Load order via get-order-public Edge Function
  * - Show order details + ticket instances
+ * - Download ticket PDF (from ticket_pdf.available_from)
+ * - Resell tickets via the organizer (ResaleSellPanel, when resale is enabled)
+ * - Link to /e/:eventSlug/manage to edit participant details and answers
  * - No authentication required
  */
 
 import { useEffect, useState } from 'react'
 import { useParams, useSearchParams, Link, useLocation } from 'react-router-dom'
-import { CheckCircle, Loader2, Calendar, MapPin, Ticket, Mail } from 'lucide-react'
+import { CheckCircle, Loader2, Calendar, MapPin, Ticket, Mail, FileDown, UserPen } from 'lucide-react'
 import { supabase } from '../../lib/supabase'
 import { QRCodeSVG } from 'qrcode.react'
+import { downloadOrderTicketPdf, saveTicketPdf } from '../../data/ticket_pdfs'
+import { ResaleSellPanel } from '../../components/ResaleSellPanel'
 
 interface OrderData {
     order: {
@@ -45,6 +50,7 @@ interface OrderData {
         status: string
         ticket_name: string
     }> | null
+    tickets_available: boolean
 }
 
 export function PublicConfirm() {
@@ -55,6 +61,8 @@ export function PublicConfirm() {
     const [orderData, setOrderData] = useState<OrderData | null>(null)
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
+    const [pdfLoading, setPdfLoading] = useState(false)
+    const [pdfError, setPdfError] = useState<string | null>(null)
 
     // Check for state passed from checkout
     const location = useLocation()
@@ -159,6 +167,23 @@ export function PublicConfirm() {
 
     const isPaid = orderData.order.status === 'paid'
 
+    async function handleDownloadPdf() {
+        if (!token || !orderData) return
+        setPdfLoading(true)
+        setPdfError(null)
+
+        const { data, error: downloadError } = await downloadOrderTicketPdf(token)
+        if (downloadError || !data) {
+            setPdfError(downloadError?.message === 'TICKETS_NOT_AVAILABLE'
+                ? 'Je tickets zijn nog niet beschikbaar.'
+                : 'Kon de PDF niet downloaden.')
+        } else {
+            saveTicketPdf(data, `tickets-${orderData.event.slug}-${orderData.order.id.slice(0, 8)}.pdf`)
+        }
+
+        setPdfLoading(false)
+    }
+
     return (
         <div className="min-h-screen bg-gray-50">
             {/* Success Header */}
@@ -294,6 +319,21 @@ export function PublicConfirm() {
                                     </div>
                                 ))}
                             </div>
+                            {orderData.tickets_available && (
+                                <div className="mt-4">
+                                    <button
+                                        onClick={handleDownloadPdf}
+                                        disabled={pdfLoading}
+                                        className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                                    >
+                                        {pdfLoading
+                                            ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                            : <FileDown className="mr-2 h-4 w-4" />}
+                                        Download tickets (PDF)
+                                    </button>
+                                    {pdfError && <p className="mt-2 text-sm text-red-600">{pdfError}</p>}
+                                </div>
+                            )}
                             <p className="mt-4 text-sm text-gray-500">
                                 💡 Je ontvangt je tickets ook per email. Bewaar deze goed!
                             </p>
@@ -301,6 +341,21 @@ export function PublicConfirm() {
                     )}
                 </div>
 
+                {isPaid && token && <ResaleSellPanel publicToken={token} />}
+
+                {isPaid && token && (
+                    <div className="mt-6 bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex items-center justify-between gap-4">
+                        <p className="text-sm text-gray-600">Gegevens of antwoorden aanpassen?</p>
+                        <Link
+                            to={`/e/${orderData.event.slug}/manage?token=${encodeURIComponent(token)}`}
+                            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md text-indigo-700 bg-indigo-50 hover:bg-indigo-100"
+                        >
+                            <UserPen className="h-4 w-4" />
+                            Inschrijving beheren
+                        </Link>
+                    </div>
+                )}
+
                 {/* Actions */}
                 <div className="mt-6 text-center">
                     <Link
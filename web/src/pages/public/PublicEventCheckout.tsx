@@ -8,6 +8,14 @@
  * - Toon event details
  * - Lijst published tickets met real-time availability
  * - Sold out states + max per participant limits
+ * - Extra's (add-on producten met varianten) naast tickets
+ * - Wachtlijst aanmelding bij uitverkochte tickets
+ * - Gereserveerde checkout via wachtlijst-aanbod (?offer=<token>)
+ * - Teamtickets: captain geeft een teamnaam op en koopt de plekken van het team
+ * - Startvak (wave) kiezen bij tickettypes met time slots, volle waves zijn uitgeschakeld
+ * - Fundraising: goed doel kiezen (optioneel of verplicht, per event of tickettype)
+ * - Doorverkochte tickets kopen (ingelogd), als de organisator doorverkoop toestaat
+ * - Registratievragen per ticket: elke deelnemer in een groepsbestelling vult eigen gegevens in
  * - Checkout form (email + optionele naam)
  * - Pre-checkout validation via RPC
  * - Call create-order-public Edge Function
@@ -15,11 +23,38 @@
  */
 
 import { useEffect, useState } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
-import { Calendar, MapPin, Ticket, Loader2, ShoppingCart, AlertCircle } from 'lucide-react'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
+import { Calendar, MapPin, Ticket, Loader2, ShoppingCart, AlertCircle, ShoppingBag, Clock, ListPlus, Users, Heart } from 'lucide-react'
 import { getPublicEventBySlug } from '../../data/public_events'
+import { getProductAvailability, type AvailableProduct } from '../../data/products'
+import { joinWaitlist, getWaitlistOffer, type WaitlistOffer } from '../../data/waitlist'
+import { getTeamConfigs, type TicketTeamConfig } from '../../data/event_teams'
+import { getPublicFundraisingConfig, resolveFundraisingMode, type PublicFundraisingConfig } from '../../data/fundraising'
+import {
+    getCheckoutQuestions,
+    questionsForTicketType,
+    validateAnswers,
+    visibleAnswers,
+    type AnswerErrorReason,
+    type RegistrationAnswers,
+    type RegistrationQuestion
+} from '../../data/registration_questions'
+import { ResaleOffers } from '../../components/ResaleOffers'
+import { RegistrationQuestionFields } from '../../components/RegistrationQuestionFields'
 import { supabase } from '../../lib/supabase'
 
+// Start time slot (wave) with availability from RPC
+interface TicketTimeSlot {
+    id: string
+    slot_time: string
+    slot_date: string | null
+    label: string | null
+    capacity: number | null
+    available_count: number | null  // null = onbeperkt
+    is_sold_out: boolean
+    sort_order: number
+}
+
 // Ticket type with availability info from RPC
 interface TicketWithAvailability {
     id: string
@@ -41,7 +76,7 @@ interface TicketWithAvailability {
     sales_end: string | null
     on_sale: boolean
     sort_order: number | null
-    time_slots: any[]
+    time_slots: TicketTimeSlot[]
 }
 
 // Validation error from RPC
@@ -56,8 +91,18 @@ interface ValidationError {
     sales_end?: string
 }
 
+// Wachtlijst-aanbod foutcodes → tekst
+const OFFER_ERRORS: Record<string, string> = {
+    OFFER_NOT_FOUND: 'Deze wachtlijst-link is ongeldig.',
+    OFFER_EXPIRED: 'Dit aanbod is verlopen. De plek is doorgegeven aan de volgende op de wachtlijst.',
+    OFFER_ALREADY_USED: 'Dit aanbod is al gebruikt voor een bestelling.',
+    OFFER_CANCELLED: 'Dit aanbod is ingetrokken.',
+}
+
 export function PublicEventCheckout() {
     const { eventSlug } = useParams<{ eventSlug: string }>()
+    const [searchParams] = useSearchParams()
+    const offerToken = searchParams.get('offer')
     const navigate = useNavigate()
 
     const [loading, setLoading] = useState(true)
@@ -66,11 +111,28 @@ export function PublicEventCheckout() {
     const [event, setEvent] = useState<any>(null)
     const [tickets, setTickets] = useState<TicketWithAvailability[]>([])
     const [quantities, setQuantities] = useState<Record<string, number>>({})
+    const [products, setProducts] = useState<AvailableProduct[]>([])
+    // Key: `${productId}:${variantId}` (variantId leeg voor producten zonder varianten)
+    const [productQuantities, setProductQuantities] = useState<Record<string, number>>({})
     const [email, setEmail] = useState('')
     const [name, setName] = useState('')
     const [submitting, setSubmitting] = useState(false)
     const [validating, setValidating] = useState(false)
     const [showCheckout, setShowCheckout] = useState(false)
+    const [waitlistEnabled, setWaitlistEnabled] = useState(false)
+    const [offer, setOffer] = useState<WaitlistOffer | null>(null)
+    const [offerError, setOfferError] = useState<string | null>(null)
+    const [teamConfigs, setTeamConfigs] = useState<Record<string, TicketTeamConfig>>({})
+    const [teamName, setTeamName] = useState('')
+    // Key: ticket_type_id → gekozen time_slot_id
+    const [selectedSlots, setSelectedSlots] = useState<Record<string, string>>({})
+    const [fundraisingConfig, setFundraisingConfig] = useState<PublicFundraisingConfig | null>(null)
+    const [fundraisingOptIn, setFundraisingOptIn] = useState(false)
+    const [charityId, setCharityId] = useState('')
+    const [questions, setQuestions] = useState<RegistrationQuestion[]>([])
+    // Key: ticket_type_id → antwoorden per ticket (index = positie)
+    const [attendeeAnswers, setAttendeeAnswers] = useState<Record<string, RegistrationAnswers[]>>({})
+    const [attendeeErrors, setAttendeeErrors] = useState<Record<string, Record<string, AnswerErrorReason>[]>>({})
 
     useEffect(() => {
         async function fetchEvent() {
@@ -109,24 +171,70 @@ export function PublicEventCheckout() {
                 console.error('[PublicEvent] Availability RPC error:', availabilityData.error)
                 setError('Kon tickets niet ophalen')
             } else {
-                setTickets(availabilityData?.ticket_types || [])
+                const ticketTypes: TicketWithAvailability[] = availabilityData?.ticket_types || []
+                setTickets(ticketTypes)
+                setWaitlistEnabled(availabilityData?.waitlist_enabled ?? false)
+
+                // Teamconfiguratie per tickettype (voor teamnaam + teamgrootte)
+                const { data: configData } = await getTeamConfigs(ticketTypes.map(t => t.id))
+                setTeamConfigs(Object.fromEntries((configData || []).map(c => [c.ticket_type_id, c])))
+            }
+
+            // Wachtlijst-aanbod: tickets + email liggen vast
+            if (offerToken) {
+                const { data: offerData, error: offerFetchError } = await getWaitlistOffer(offerToken)
+                if (offerFetchError || !offerData || offerData.event_id !== eventData.id) {
+                    setOfferError(OFFER_ERRORS[offerFetchError?.message || ''] || OFFER_ERRORS.OFFER_NOT_FOUND)
+                } else {
+                    setOffer(offerData)
+                    setQuantities({ [offerData.ticket_type_id]: offerData.quantity })
+                    setEmail(offerData.email)
+                    setName(offerData.name || '')
+                }
+            }
+
+            // Fundraising (non-fatal: zonder config geen goed-doel stap)
+            const { data: fundraisingData, error: fundraisingError } = await getPublicFundraisingConfig(eventData.id)
+            if (fundraisingError) {
+                console.error('[PublicEvent] Fundraising config error:', fundraisingError)
+            } else if (fundraisingData) {
+                setFundraisingConfig(fundraisingData)
+                setCharityId(fundraisingData.charities.find(c => c.is_default)?.id || '')
+            }
+
+            // Registratievragen (non-fatal: zonder vragen geen deelnemersgegevens)
+            const { data: questionData, error: questionError } = await getCheckoutQuestions(eventData.id)
+            if (questionError) {
+                console.error('[PublicEvent] Registration questions error:', questionError)
+            } else {
+                setQuestions(questionData || [])
+            }
+
+            // Fetch add-on products (non-fatal: checkout werkt ook zonder)
+            const { data: productData, error: productError } = await getProductAvailability(eventData.id)
+            if (productError) {
+                console.error('[PublicEvent] Product availability error:', productError)
+            } else {
+                setProducts(productData || [])
             }
 
             setLoading(false)
         }
 
         fetchEvent()
-    }, [eventSlug])
+    }, [eventSlug, offerToken])
+
+    // Tickets uit een wachtlijst-aanbod zijn gereserveerd, ook al is het type uitverkocht
+    const isOfferTicket = (ticket: TicketWithAvailability): boolean => {
+        return offer?.ticket_type_id === ticket.id
+    }
 
     const handleQuantityChange = (ticketId: string, delta: number) => {
         const ticket = tickets.find(t => t.id === ticketId)
         if (!ticket) return
 
         // Calculate max allowed quantity
-        const maxAllowed = Math.min(
-            ticket.available_count,
-            ticket.max_per_participant ?? 99
-        )
+        const maxAllowed = getMaxQuantity(ticket)
 
         setQuantities(prev => {
             const current = prev[ticketId] || 0
@@ -140,19 +248,38 @@ export function PublicEventCheckout() {
 
     // Get max quantity for a ticket
     const getMaxQuantity = (ticket: TicketWithAvailability): number => {
+        const slot = ticket.time_slots.find(s => s.id === selectedSlots[ticket.id])
         return Math.min(
-            ticket.available_count,
-            ticket.max_per_participant ?? 99
+            isOfferTicket(ticket) && offer ? offer.quantity : ticket.available_count,
+            ticket.max_per_participant ?? 99,
+            teamConfigs[ticket.id]?.team_max_size ?? 99,
+            slot?.available_count ?? 99
         )
     }
 
+    // Kies een wave; het aantal wordt begrensd op de vrije plekken in die wave
+    const handleSlotChange = (ticket: TicketWithAvailability, slot: TicketTimeSlot) => {
+        setSelectedSlots(prev => ({ ...prev, [ticket.id]: slot.id }))
+        if (slot.available_count !== null) {
+            setQuantities(prev => ({
+                ...prev,
+                [ticket.id]: Math.min(prev[ticket.id] || 0, slot.available_count as number)
+            }))
+        }
+        setValidationErrors([])
+    }
+
     // Check if ticket can be selected
     const isTicketDisabled = (ticket: TicketWithAvailability): boolean => {
+        if (isOfferTicket(ticket)) return !ticket.on_sale
         return ticket.is_sold_out || !ticket.on_sale
     }
 
     // Get status badge for ticket
     const getTicketStatusBadge = (ticket: TicketWithAvailability): { text: string; className: string } | null => {
+        if (isOfferTicket(ticket)) {
+            return { text: 'Voor jou gereserveerd', className: 'bg-green-100 text-green-800' }
+        }
         if (ticket.is_sold_out) {
             return { text: 'Uitverkocht', className: 'bg-red-100 text-red-800' }
         }
@@ -174,12 +301,89 @@ export function PublicEventCheckout() {
         return `${ticket.distance_value} ${ticket.distance_unit || 'km'}`
     }
 
+    // Product lines: één regel per product, of per variant als het product varianten heeft
+    const productLines = products.flatMap(product =>
+        product.variants.length > 0
+            ? product.variants.map(variant => ({
+                key: `${product.id}:${variant.id}`,
+                productId: product.id,
+                variantId: variant.id as string | null,
+                label: variant.name,
+                price: variant.price,
+                available: variant.available_count,
+                soldOut: variant.is_sold_out,
+                maxPerOrder: product.max_per_order,
+            }))
+            : [{
+                key: `${product.id}:`,
+                productId: product.id,
+                variantId: null as string | null,
+                label: null as string | null,
+                price: product.price,
+                available: product.available_count,
+                soldOut: product.is_sold_out,
+                maxPerOrder: product.max_per_order,
+            }]
+    )
+
+    const handleProductQuantityChange = (key: string, delta: number) => {
+        const line = productLines.find(l => l.key === key)
+        if (!line) return
+
+        const maxAllowed = Math.min(line.available ?? 99, line.maxPerOrder ?? 99)
+
+        setProductQuantities(prev => {
+            const current = prev[key] || 0
+            const newQty = Math.max(0, Math.min(maxAllowed, current + delta))
+            return { ...prev, [key]: newQty }
+        })
+    }
+
     const totalItems = Object.values(quantities).reduce((sum, qty) => sum + qty, 0)
+    const totalProductItems = Object.values(productQuantities).reduce((sum, qty) => sum + qty, 0)
     const totalPrice = tickets.reduce((sum, ticket) => {
         const qty = quantities[ticket.id] || 0
         return sum + (ticket.price * qty)
+    }, 0) + productLines.reduce((sum, line) => {
+        const qty = productQuantities[line.key] || 0
+        return sum + (line.price * qty)
     }, 0)
 
+    // Geselecteerde tickettypes met teamconfiguratie (één team per bestelling)
+    const selectedTeamTickets = tickets.filter(t => (quantities[t.id] || 0) > 0 && teamConfigs[t.id])
+    const teamTicket = selectedTeamTickets.length === 1 ? selectedTeamTickets[0] : null
+    const teamConfig = teamTicket ? teamConfigs[teamTicket.id] : null
+
+    // Fundraising voor de geselecteerde tickets: override per tickettype gaat voor
+    const fundraising = fundraisingConfig
+        ? resolveFundraisingMode(fundraisingConfig, tickets.filter(t => (quantities[t.id] || 0) > 0).map(t => t.id))
+        : null
+    const fundraisingMode = fundraising?.mode ?? 'disabled'
+    const defaultCharity = fundraisingConfig?.charities.find(c => c.is_default) ?? fundraisingConfig?.charities[0] ?? null
+    const forcedCharity = fundraising?.forcedCharityId
+        ? fundraisingConfig?.charities.find(c => c.id === fundraising.forcedCharityId) ?? null
+        : null
+    const joinsFundraising = fundraisingMode === 'required' || (fundraisingMode === 'optional' && fundraisingOptIn)
+    const canChooseCharity = !fundraising?.forcedCharityId && (fundraisingConfig?.allow_charity_selection ?? false)
+    const chosenCharityId = !joinsFundraising
+        ? null
+        : fundraising?.forcedCharityId ?? (canChooseCharity ? charityId || null : defaultCharity?.id ?? null)
+
+    // Tickets met registratievragen; een teamticket niet (teamleden vullen zelf in via de teamlink)
+    const attendeeTickets = tickets.filter(t =>
+        (quantities[t.id] || 0) > 0
+        && !(teamTicket?.id === t.id && teamName.trim())
+        && questionsForTicketType(questions, t.id).length > 0
+    )
+
+    const updateAttendeeAnswers = (ticketId: string, index: number, answers: RegistrationAnswers) => {
+        setAttendeeAnswers(prev => {
+            const next = [...(prev[ticketId] || [])]
+            next[index] = answers
+            return { ...prev, [ticketId]: next }
+        })
+    }
+
     // Validate order before checkout
     const validateOrder = async (): Promise<boolean> => {
         if (!event) return false
@@ -256,33 +460,103 @@ export function PublicEventCheckout() {
             return
         }
 
+        const missingSlot = tickets.find(t =>
+            (quantities[t.id] || 0) > 0 && t.time_slots.length > 0 && !selectedSlots[t.id]
+        )
+        if (missingSlot) {
+            setError(`Kies een startvak voor ${missingSlot.name}`)
+            return
+        }
+
+        if (selectedTeamTickets.length > 1) {
+            setError('Bestel per team apart: kies één teamticket per bestelling')
+            return
+        }
+
+        if (teamTicket && teamConfig) {
+            const teamQty = quantities[teamTicket.id] || 0
+            if (teamConfig.team_required && !teamName.trim()) {
+                setError('Vul een teamnaam in')
+                return
+            }
+            if (teamName.trim() && teamQty < teamConfig.team_min_size && !teamConfig.allow_incomplete_teams) {
+                setError(`Een team bestaat uit minimaal ${teamConfig.team_min_size} personen`)
+                return
+            }
+        }
+
+        if (joinsFundraising && canChooseCharity && !chosenCharityId) {
+            setError('Kies een goed doel')
+            return
+        }
+
+        const answerErrors = Object.fromEntries(attendeeTickets.map(t => [
+            t.id,
+            Array.from({ length: quantities[t.id] || 0 }, (_, i) =>
+                validateAnswers(questionsForTicketType(questions, t.id), attendeeAnswers[t.id]?.[i] || {}))
+        ]))
+        setAttendeeErrors(answerErrors)
+        if (Object.values(answerErrors).some(list => list.some(errors => Object.keys(errors).length > 0))) {
+            setError('Controleer de deelnemersgegevens')
+            return
+        }
+
         setSubmitting(true)
         setError(null)
         setValidationErrors([])
 
         try {
-            // Pre-validate order
-            const isValid = await validateOrder()
+            // Pre-validate order (niet bij een wachtlijst-aanbod: die plekken
+            // zijn vastgehouden en tellen publiek als uitverkocht)
+            const isValid = offer ? true : await validateOrder()
             if (!isValid) {
                 setSubmitting(false)
                 return
             }
 
-            // Build items array
-            const items = Object.entries(quantities)
+            // Build items array (tickets + add-on products)
+            const items: Record<string, unknown>[] = Object.entries(quantities)
                 .filter(([_, qty]) => qty > 0)
                 .map(([ticketId, qty]) => ({
                     ticket_type_id: ticketId,
-                    quantity: qty
+                    time_slot_id: selectedSlots[ticketId] || undefined,
+                    quantity: qty,
+                    attendees: attendeeTickets.some(t => t.id === ticketId)
+                        ? Array.from({ length: qty }, (_, i) => ({
+                            answers: visibleAnswers(
+                                questionsForTicketType(questions, ticketId),
+                                attendeeAnswers[ticketId]?.[i] || {}
+                            )
+                        }))
+                        : undefined
                 }))
 
+            for (const line of productLines) {
+                const qty = productQuantities[line.key] || 0
+                if (qty > 0) {
+                    items.push({
+                        product_id: line.productId,
+                        product_variant_id: line.variantId,
+                        quantity: qty
+                    })
+                }
+            }
+
             // Call Edge Function
             const { data, error: createError } = await supabase.functions.invoke('create-order-public', {
                 body: {
+                    event_id: event.id,
                     event_slug: eventSlug,
                     items,
                     email,
                     purchaser_name: name || null,
+                    waitlist_offer_token: offer ? offerToken : undefined,
+                    team: teamTicket && teamName.trim()
+                        ? { ticket_type_id: teamTicket.id, name: teamName.trim() }
+                        : undefined,
+                    fundraising: fundraisingMode !== 'disabled'
+                        ? { charity_id: chosenCharityId }
+                        : undefined,
                 }
             })
 
@@ -359,6 +633,34 @@ export function PublicEventCheckout() {
             </div>
 
             <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+                {/* Wachtlijst-aanbod */}
+                {offer && (
+                    <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4 flex items-start">
+                        <Clock className="h-5 w-5 text-green-600 mt-0.5 mr-3 flex-shrink-0" />
+                        <div className="text-sm text-green-800">
+                            <p className="font-medium">
+                                Er is een plek voor je vrijgekomen: {offer.quantity}× {offer.ticket_name}
+                            </p>
+                            <p>
+                                We houden je ticket(s) vast tot{' '}
+                                {new Date(offer.expires_at).toLocaleString('nl-NL', {
+                                    day: 'numeric',
+                                    month: 'long',
+                                    hour: '2-digit',
+                                    minute: '2-digit'
+                                })}
+                                . Rond je bestelling voor die tijd af.
+                            </p>
+                        </div>
+                    </div>
+                )}
+                {offerError && (
+                    <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start">
+                        <AlertCircle className="h-5 w-5 text-yellow-600 mt-0.5 mr-3 flex-shrink-0" />
+                        <p className="text-sm text-yellow-800">{offerError}</p>
+                    </div>
+                )}
+
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                     {/* Tickets */}
                     <div className="lg:col-span-2">
@@ -398,6 +700,12 @@ export function PublicEventCheckout() {
                                                                 {ticket.ticket_category}
                                                             </span>
                                                         )}
+                                                        {teamConfigs[ticket.id] && (
+                                                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-800">
+                                                                <Users className="mr-1 h-3 w-3" />
+                                                                Team {teamConfigs[ticket.id].team_min_size}–{teamConfigs[ticket.id].team_max_size}
+                                                            </span>
+                                                        )}
                                                         {statusBadge && (
                                                             <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${statusBadge.className}`}>
                                                                 {statusBadge.text}
@@ -426,6 +734,42 @@ export function PublicEventCheckout() {
                                                             `€${ticket.price.toFixed(2)}`
                                                         )}
                                                     </p>
+
+                                                    {/* Startvak (wave) */}
+                                                    {!disabled && currentQty > 0 && ticket.time_slots.length > 0 && (
+                                                        <div className="mt-3">
+                                                            <p className="text-sm font-medium text-gray-700 mb-2">
+                                                                Kies je startvak <span className="text-red-500">*</span>
+                                                            </p>
+                                                            <div className="flex flex-wrap gap-2">
+                                                                {ticket.time_slots.map(slot => (
+                                                                    <button
+                                                                        key={slot.id}
+                                                                        type="button"
+                                                                        onClick={() => handleSlotChange(ticket, slot)}
+                                                                        disabled={slot.is_sold_out}
+                                                                        className={`px-3 py-1.5 rounded-md border text-sm disabled:opacity-40 disabled:cursor-not-allowed ${selectedSlots[ticket.id] === slot.id
+                                                                            ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                                                                            : 'border-gray-300 text-gray-700 hover:border-indigo-500'
+                                                                            }`}
+                                                                    >
+                                                                        <Clock className="inline mr-1 h-3 w-3" />
+                                                                        {formatTimeSlot(slot)}
+                                                                        <span className="ml-1 text-xs text-gray-500">
+                                                                            {slot.is_sold_out
+                                                                                ? 'vol'
+                                                                                : slot.available_count !== null && `nog ${slot.available_count}`}
+                                                                        </span>
+                                                                    </button>
+                                                                ))}
+                                                            </div>
+                                                        </div>
+                                                    )}
+
+                                                    {/* Wachtlijst bij uitverkocht */}
+                                                    {ticket.is_sold_out && ticket.on_sale && waitlistEnabled && !isOfferTicket(ticket) && (
+                                                        <WaitlistJoinForm ticket={ticket} />
+                                                    )}
                                                 </div>
 
                                                 {/* Quantity selector */}
@@ -454,6 +798,117 @@ export function PublicEventCheckout() {
                                 })}
                             </div>
                         )}
+
+                        {/* Add-on products */}
+                        {products.length > 0 && (
+                            <>
+                                <h2 className="text-xl font-semibold text-gray-900 mt-8 mb-4">Extra's</h2>
+                                <div className="space-y-4">
+                                    {products.map(product => (
+                                        <div key={product.id} className="bg-white rounded-lg shadow p-6">
+                                            <div className="flex items-center gap-2">
+                                                <ShoppingBag className="h-5 w-5 text-gray-400" />
+                                                <h3 className="text-lg font-medium text-gray-900">{product.name}</h3>
+                                            </div>
+                                            {product.description && (
+                                                <p className="mt-1 text-sm text-gray-500">{product.description}</p>
+                                            )}
+                                            {product.max_per_order && (
+                                                <p className="mt-1 text-xs text-gray-400">Max {product.max_per_order} per bestelling</p>
+                                            )}
+
+                                            <div className="mt-3 divide-y divide-gray-100">
+                                                {productLines.filter(line => line.productId === product.id).map(line => {
+                                                    const currentQty = productQuantities[line.key] || 0
+                                                    const maxQty = Math.min(line.available ?? 99, line.maxPerOrder ?? 99)
+
+                                                    return (
+                                                        <div
+                                                            key={line.key}
+                                                            className={`flex items-center justify-between py-2 ${line.soldOut ? 'opacity-60' : ''}`}
+                                                        >
+                                                            <div className="text-sm">
+                                                                {line.label && (
+                                                                    <span className="font-medium text-gray-900 mr-2">{line.label}</span>
+                                                                )}
+                                                                <span className="font-bold text-indigo-600">
+                                                                    {line.price === 0 ? 'Gratis' : `€${line.price.toFixed(2)}`}
+                                                                </span>
+                                                                {line.soldOut && (
+                                                                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
+                                                                        Uitverkocht
+                                                                    </span>
+                                                                )}
+                                                            </div>
+
+                                                            {/* Quantity selector */}
+                                                            <div className="flex items-center space-x-3">
+                                                                <button
+                                                                    onClick={() => handleProductQuantityChange(line.key, -1)}
+                                                                    disabled={line.soldOut || currentQty === 0}
+                                                                    className="w-8 h-8 rounded-full border-2 border-gray-300 flex items-center justify-center hover:border-indigo-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                                                                >
+                                                                    −
+                                                                </button>
+                                                                <span className="w-8 text-center font-medium">
+                                                                    {currentQty}
+                                                                </span>
+                                                                <button
+                                                                    onClick={() => handleProductQuantityChange(line.key, 1)}
+                                                                    disabled={line.soldOut || currentQty >= maxQty}
+                                                                    className="w-8 h-8 rounded-full border-2 border-indigo-600 bg-indigo-600 text-white flex items-center justify-center hover:bg-indigo-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                                                                >
+                                                                    +
+                                                                </button>
+                                                            </div>
+                                                        </div>
+                                                    )
+                                                })}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+
+                        {/* Deelnemersgegevens per ticket */}
+                        {showCheckout && attendeeTickets.length > 0 && (
+                            <>
+                                <h2 className="text-xl font-semibold text-gray-900 mt-8 mb-1 flex items-center">
+                                    <Users className="mr-2 h-5 w-5 text-indigo-600" />
+                                    Deelnemersgegevens
+                                </h2>
+                                <p className="text-sm text-gray-500 mb-4">
+                                    Vul per ticket de gegevens van de deelnemer in.
+                                </p>
+                                <div className="space-y-4">
+                                    {attendeeTickets.flatMap(ticket =>
+                                        Array.from({ length: quantities[ticket.id] || 0 }, (_, index) => (
+                                            <div key={`${ticket.id}:${index}`} className="bg-white rounded-lg shadow p-6 space-y-4">
+                                                <h3 className="font-semibold text-gray-900">
+                                                    {ticket.name}
+                                                    {(quantities[ticket.id] || 0) > 1 && (
+                                                        <span className="ml-2 text-sm font-normal text-gray-500">
+                                                            deelnemer {index + 1}
+                                                        </span>
+                                                    )}
+                                                </h3>
+                                                <RegistrationQuestionFields
+                                                    eventId={event.id}
+                                                    questions={questionsForTicketType(questions, ticket.id)}
+                                                    answers={attendeeAnswers[ticket.id]?.[index] || {}}
+                                                    errors={attendeeErrors[ticket.id]?.[index]}
+                                                    onChange={(answers) => updateAttendeeAnswers(ticket.id, index, answers)}
+                                                />
+                                            </div>
+                                        ))
+                                    )}
+                                </div>
+                            </>
+                        )}
+
+                        {/* Doorverkochte tickets */}
+                        {event && eventSlug && <ResaleOffers eventId={event.id} eventSlug={eventSlug} />}
                     </div>
 
                     {/* Checkout Sidebar */}
@@ -466,6 +921,12 @@ export function PublicEventCheckout() {
                                     <span className="text-gray-600">Tickets:</span>
                                     <span className="font-medium">{totalItems}</span>
                                 </div>
+                                {totalProductItems > 0 && (
+                                    <div className="flex justify-between">
+                                        <span className="text-gray-600">Extra's:</span>
+                                        <span className="font-medium">{totalProductItems}</span>
+                                    </div>
+                                )}
                                 <div className="flex justify-between text-lg font-bold">
                                     <span>Totaal:</span>
                                     <span className="text-indigo-600">
@@ -495,8 +956,12 @@ export function PublicEventCheckout() {
                                             onChange={(e) => setEmail(e.target.value)}
                                             placeholder="jouw@email.nl"
                                             required
-                                            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                            readOnly={!!offer}
+                                            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 read-only:bg-gray-50"
                                         />
+                                        {offer && (
+                                            <p className="mt-1 text-xs text-gray-500">Het aanbod is gekoppeld aan dit e-mailadres.</p>
+                                        )}
                                     </div>
 
                                     <div>
@@ -512,6 +977,99 @@ export function PublicEventCheckout() {
                                         />
                                     </div>
 
+                                    {teamTicket && teamConfig && (
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                                Teamnaam {teamConfig.team_required
+                                                    ? <span className="text-red-500">*</span>
+                                                    : '(optioneel)'}
+                                            </label>
+                                            <input
+                                                type="text"
+                                                value={teamName}
+                                                onChange={(e) => setTeamName(e.target.value)}
+                                                placeholder="Naam van je team"
+                                                maxLength={100}
+                                                required={teamConfig.team_required}
+                                                className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                            />
+                                            <p className="mt-1 text-xs text-gray-500">
+                                                Je bestelt {quantities[teamTicket.id]} plek(ken) voor een team van{' '}
+                                                {teamConfig.team_min_size}–{teamConfig.team_max_size} personen en bent zelf captain.
+                                                Na betaling ontvang je een uitnodigingslink voor je teamgenoten.
+                                            </p>
+                                        </div>
+                                    )}
+
+                                    {fundraisingConfig && fundraisingMode !== 'disabled' && (
+                                        <div className="border border-gray-200 rounded-md p-3">
+                                            <p className="flex items-center text-sm font-medium text-gray-900">
+                                                <Heart className="mr-2 h-4 w-4 text-rose-500" />
+                                                {fundraisingConfig.title || 'Loop voor een goed doel'}
+                                                {fundraisingMode === 'required' && <span className="ml-1 text-red-500">*</span>}
+                                            </p>
+                                            {fundraisingConfig.description && (
+                                                <p className="mt-1 text-xs text-gray-500">{fundraisingConfig.description}</p>
+                                            )}
+
+                                            {fundraisingMode === 'optional' && (
+                                                <label className="mt-3 flex items-center text-sm text-gray-700">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={fundraisingOptIn}
+                                                        onChange={(e) => setFundraisingOptIn(e.target.checked)}
+                                                        className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                                    />
+                                                    Ja, ik zamel geld in met een eigen actiepagina
+                                                </label>
+                                            )}
+
+                                            {joinsFundraising && (
+                                                canChooseCharity ? (
+                                                    <div className="mt-3 space-y-2">
+                                                        {fundraisingConfig.charities.map(charity => (
+                                                            <label
+                                                                key={charity.id}
+                                                                className="flex items-start p-2 rounded-md border border-gray-200 cursor-pointer hover:bg-gray-50"
+                                                            >
+                                                                <input
+                                                                    type="radio"
+                                                                    name="charity"
+                                                                    value={charity.id}
+                                                                    checked={charityId === charity.id}
+                                                                    onChange={() => setCharityId(charity.id)}
+                                                                    className="mt-0.5 mr-2 text-indigo-600 focus:ring-indigo-500"
+                                                                />
+                                                                {charity.logo_url && (
+                                                                    <img src={charity.logo_url} alt="" className="mr-2 h-8 w-8 rounded object-contain" />
+                                                                )}
+                                                                <span>
+                                                                    <span className="block text-sm font-medium text-gray-900">{charity.name}</span>
+                                                                    {charity.description && (
+                                                                        <span className="block text-xs text-gray-500">{charity.description}</span>
+                                                                    )}
+                                                                </span>
+                                                            </label>
+                                                        ))}
+                                                    </div>
+                                                ) : (
+                                                    <p className="mt-3 text-sm text-gray-700">
+                                                        Je zamelt in voor{' '}
+                                                        <span className="font-medium">
+                                                            {(forcedCharity ?? defaultCharity)?.name ?? 'het goede doel van dit ticket'}
+                                                        </span>
+                                                    </p>
+                                                )
+                                            )}
+
+                                            {joinsFundraising && (
+                                                <p className="mt-2 text-xs text-gray-500">
+                                                    Na je inschrijving ontvang je per deelnemer een link naar je actiepagina.
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
+
                                     {/* Validation errors */}
                                     {validationErrors.length > 0 && (
                                         <div className="bg-red-50 border border-red-200 rounded-md p-3">
@@ -555,3 +1113,116 @@ export function PublicEventCheckout() {
         </div>
     )
 }
+
+/**
+ * Wave-label: "Wave A · 08:30" of alleen de starttijd
+ */
+function formatTimeSlot(slot: TicketTimeSlot): string {
+    const time = slot.slot_time.slice(0, 5)
+    const date = slot.slot_date
+        ? new Date(slot.slot_date).toLocaleDateString('nl-NL', { day: 'numeric', month: 'short' }) + ' '
+        : ''
+    return slot.label ? `${slot.label} · ${date}${time}` : `${date}${time}`
+}
+
+// Wachtlijst foutcodes → tekst
+const WAITLIST_ERRORS: Record<string, string> = {
+    ALREADY_ON_WAITLIST: 'Je staat al op de wachtlijst voor dit ticket.',
+    NOT_SOLD_OUT: 'Er zijn weer tickets beschikbaar. Ververs de pagina om te bestellen.',
+    WAITLIST_DISABLED: 'De wachtlijst is gesloten.',
+    INVALID_EMAIL: 'Vul een geldig e-mailadres in.',
+    EXCEEDS_MAX_PER_PARTICIPANT: 'Je vraagt meer tickets dan per bestelling is toegestaan.',
+}
+
+/**
+ * Aanmelden voor de wachtlijst van één uitverkocht tickettype
+ */
+function WaitlistJoinForm({ ticket }: { ticket: TicketWithAvailability }) {
+    const [open, setOpen] = useState(false)
+    const [email, setEmail] = useState('')
+    const [name, setName] = useState('')
+    const [quantity, setQuantity] = useState(1)
+    const [submitting, setSubmitting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [position, setPosition] = useState<number | null>(null)
+
+    const maxQuantity = Math.min(ticket.max_per_participant ?? 10, 10)
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSubmitting(true)
+        setError(null)
+
+        const { data, error: joinError } = await joinWaitlist(ticket.id, email, name, quantity)
+
+        if (joinError || !data) {
+            setError(WAITLIST_ERRORS[joinError?.message || ''] || 'Aanmelden voor de wachtlijst is mislukt')
+        } else {
+            setPosition(data.position)
+        }
+
+        setSubmitting(false)
+    }
+
+    if (position !== null) {
+        return (
+            <p className="mt-3 text-sm text-green-700">
+                Je staat op de wachtlijst (plek {position}). Komt er een ticket vrij, dan ontvang je een e-mail.
+            </p>
+        )
+    }
+
+    if (!open) {
+        return (
+            <button
+                type="button"
+                onClick={() => setOpen(true)}
+                className="mt-3 inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800"
+            >
+                <ListPlus className="mr-1 h-4 w-4" />
+                Zet me op de wachtlijst
+            </button>
+        )
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="mt-3 space-y-2 max-w-sm">
+            <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="jouw@email.nl"
+                required
+                className="w-full text-sm border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Naam (optioneel)"
+                className="w-full text-sm border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <div className="flex items-center gap-2">
+                <label className="text-sm text-gray-600">Aantal</label>
+                <select
+                    value={quantity}
+                    onChange={(e) => setQuantity(Number(e.target.value))}
+                    className="text-sm border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                    {Array.from({ length: maxQuantity }, (_, i) => i + 1).map(n => (
+                        <option key={n} value={n}>{n}</option>
+                    ))}
+                </select>
+                <button
+                    type="submit"
+                    disabled={submitting || !email}
+                    className="ml-auto inline-flex items-center px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                    {submitting && <Loader2 className="animate-spin mr-1 h-4 w-4" />}
+                    Aanmelden
+                </button>
+            </div>
+            {error && <p className="text-sm text-red-700">{error}</p>}
+        </form>
+    )
+}
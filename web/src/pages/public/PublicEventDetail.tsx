@@ -2,6 +2,9 @@ import { useState, useEffect } from 'react'
 import { useParams, Link } from 'react-router-dom'
 import { supabase } from '../../lib/supabase'
 import { MapPin, Calendar, Mail, ArrowLeft, Loader2, Ticket, AlertCircle } from 'lucide-react'
+import { FaqList } from '../../components/FaqList'
+import { PublicRaceResults } from '../../components/PublicRaceResults'
+import { getPublicEventFaq, type PublicEventFaq } from '../../data/faq'
 
 interface TicketType {
     id: string
@@ -46,6 +49,7 @@ export function PublicEventDetail() {
     const [ticketTypes, setTicketTypes] = useState<TicketType[]>([])
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
+    const [faq, setFaq] = useState<PublicEventFaq | null>(null)
 
     useEffect(() => {
         if (slug) {
@@ -53,6 +57,22 @@ export function PublicEventDetail() {
         }
     }, [slug])
 
+    useEffect(() => {
+        if (!slug) return
+        let cancelled = false
+
+        async function loadFaq() {
+            const { data } = await getPublicEventFaq(slug!)
+            if (!cancelled) setFaq(data)
+        }
+
+        loadFaq()
+
+        return () => {
+            cancelled = true
+        }
+    }, [slug])
+
     async function fetchEventDetail() {
         setLoading(true)
         setError(null)
@@ -188,6 +208,22 @@ export function PublicEventDetail() {
                             )}
                         </div>
 
+                        {/* FAQ */}
+                        {faq && faq.total_count > 0 && (
+                            <div className="mt-8">
+                                <div className="flex items-center justify-between mb-4">
+                                    <h2 className="text-lg font-semibold text-gray-900">Frequently asked questions</h2>
+                                    <Link
+                                        to={`/e/${event.slug}/faq`}
+                                        className="text-sm text-indigo-600 hover:text-indigo-500"
+                                    >
+                                        Search all questions
+                                    </Link>
+                                </div>
+                                <FaqList categories={faq.categories} uncategorizedLabel="General" />
+                            </div>
+                        )}
+
                         {/* Contact */}
                         {event.support_email && (
                             <div className="mt-8 p-4 bg-gray-100 rounded-lg">
@@ -288,6 +324,9 @@ export function PublicEventDetail() {
                         </div>
                     </div>
                 </div>
+
+                {/* Results */}
+                <PublicRaceResults eventSlug={event.slug} />
             </div>
         </div>
     )
@@ -0,0 +1,426 @@
+/**
+ * PublicManageRegistration Page
+ *
+ * Deelnemer past zelf gegevens en registratieantwoorden aan.
+ * Route: /e/:eventSlug/manage?token=xxx (token uit de bevestigingsmail)
+ *
+ * Zonder token is een login nodig (alle inschrijvingen van het account).
+ * Welke velden aanpasbaar zijn en tot wanneer bepaalt het participants
+ * domein van het event; na de deadline is alles alleen-lezen.
+ */
+
+import { useEffect, useState } from 'react'
+import { Link, Navigate, useLocation, useParams, useSearchParams } from 'react-router-dom'
+import { CheckCircle, Clock, Loader2, Lock, UserPen, XCircle } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import { RegistrationQuestionFields } from '../../components/RegistrationQuestionFields'
+import {
+    questionsForTicketType,
+    validateAnswers,
+    visibleAnswers,
+    type AnswerErrorReason,
+    type FileAnswer,
+    type RegistrationAnswers,
+    type RegistrationQuestion,
+} from '../../data/registration_questions'
+import {
+    GENDER_OPTIONS,
+    SELF_SERVICE_ERRORS,
+    SELF_SERVICE_FIELDS,
+    getSelfServiceRegistrations,
+    updateSelfServiceRegistration,
+    type SelfServiceAnswerSet,
+    type SelfServiceData,
+    type SelfServiceField,
+    type SelfServiceRegistration,
+} from '../../data/self_service'
+
+export function PublicManageRegistration() {
+    const { eventSlug } = useParams<{ eventSlug: string }>()
+    const [searchParams] = useSearchParams()
+    const location = useLocation()
+    const { session, loading: authLoading } = useAuth()
+    const token = searchParams.get('token')
+
+    const [data, setData] = useState<SelfServiceData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [version, setVersion] = useState(0)
+
+    const userId = session?.user.id
+
+    useEffect(() => {
+        if (!eventSlug) return
+        if (!token && !userId) return
+        let cancelled = false
+
+        async function load() {
+            const { data: result, error: fetchError } = await getSelfServiceRegistrations(eventSlug!, token)
+            if (cancelled) return
+            if (fetchError) {
+                setError(SELF_SERVICE_ERRORS[fetchError.message] || 'Er ging iets mis bij het ophalen van je inschrijving')
+            } else {
+                setData(result)
+            }
+            setLoading(false)
+        }
+
+        load()
+        return () => { cancelled = true }
+    }, [eventSlug, token, userId, version])
+
+    if (!token && authLoading) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <Loader2 className="h-12 w-12 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    if (!token && !session) {
+        return <Navigate to="/login" state={{ from: location }} replace />
+    }
+
+    if (loading) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <Loader2 className="h-12 w-12 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    if (error || !data) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+                <div className="max-w-md w-full text-center">
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+                        <XCircle className="h-16 w-16 text-red-500 mx-auto" />
+                        <h1 className="mt-4 text-xl font-semibold text-gray-900">Inschrijving niet beschikbaar</h1>
+                        <p className="mt-2 text-gray-600">{error}</p>
+                        <Link
+                            to={`/e/${eventSlug}`}
+                            className="mt-6 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                            Terug naar evenement
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        )
+    }
+
+    const { event, self_service: state, registrations, questions } = data
+    const locked = state.locked_reason !== null
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8 px-4">
+            <div className="max-w-2xl mx-auto space-y-6">
+                <div>
+                    <p className="text-sm text-gray-500">{event.org_name}</p>
+                    <h1 className="text-2xl font-bold text-gray-900">Mijn inschrijving · {event.name}</h1>
+                </div>
+
+                {locked ? (
+                    <div className="bg-gray-100 border border-gray-200 rounded-lg p-4 flex items-start gap-3">
+                        <Lock className="h-5 w-5 text-gray-500 mt-0.5" />
+                        <p className="text-sm text-gray-700">{SELF_SERVICE_ERRORS[state.locked_reason!]}</p>
+                    </div>
+                ) : state.cutoff_at && (
+                    <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 flex items-start gap-3">
+                        <Clock className="h-5 w-5 text-indigo-600 mt-0.5" />
+                        <p className="text-sm text-indigo-900">
+                            Je kunt je gegevens aanpassen tot{' '}
+                            <strong>
+                                {new Date(state.cutoff_at).toLocaleString('nl-NL', {
+                                    weekday: 'long',
+                                    day: 'numeric',
+                                    month: 'long',
+                                    hour: '2-digit',
+                                    minute: '2-digit'
+                                })}
+                            </strong>.
+                        </p>
+                    </div>
+                )}
+
+                {registrations.map(registration => (
+                    <RegistrationCard
+                        key={registration.id}
+                        eventId={event.id}
+                        registration={registration}
+                        questions={questions}
+                        editableFields={locked ? [] : state.fields}
+                        answersEditable={!locked && state.answers}
+                        publicToken={token}
+                        onSaved={() => setVersion(v => v + 1)}
+                    />
+                ))}
+
+                <div className="text-center">
+                    <Link
+                        to={`/e/${event.slug}`}
+                        className="text-indigo-600 hover:text-indigo-500 text-sm font-medium"
+                    >
+                        ← Terug naar evenement
+                    </Link>
+                </div>
+            </div>
+        </div>
+    )
+}
+
+function RegistrationCard({ eventId, registration, questions, editableFields, answersEditable, publicToken, onSaved }: {
+    eventId: string
+    registration: SelfServiceRegistration
+    questions: RegistrationQuestion[]
+    editableFields: SelfServiceField[]
+    answersEditable: boolean
+    publicToken: string | null
+    onSaved: () => void
+}) {
+    const { participant } = registration
+    const [profile, setProfile] = useState<Partial<Record<SelfServiceField, string>>>(() =>
+        Object.fromEntries(editableFields.map(field => [field, participant[field] ?? '']))
+    )
+    const [saving, setSaving] = useState(false)
+    const [saved, setSaved] = useState(false)
+    const [formError, setFormError] = useState<string | null>(null)
+
+    const readOnlyFields = SELF_SERVICE_FIELDS.filter(f => !editableFields.includes(f.key) && participant[f.key])
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSaving(true)
+        setSaved(false)
+        setFormError(null)
+
+        const { error: saveError } = await updateSelfServiceRegistration(registration.id, {
+            profile: Object.fromEntries(
+                Object.entries(profile).map(([field, value]) => [field, value.trim() || null])
+            ),
+            publicToken
+        })
+        setSaving(false)
+
+        if (saveError) {
+            setFormError(SELF_SERVICE_ERRORS[saveError.message] || 'Opslaan mislukt, probeer het opnieuw.')
+            return
+        }
+
+        setSaved(true)
+        onSaved()
+    }
+
+    return (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                <div>
+                    <h2 className="text-lg font-semibold text-gray-900">
+                        {participant.first_name} {participant.last_name}
+                    </h2>
+                    <p className="text-sm text-gray-500">{participant.email}</p>
+                </div>
+                {registration.ticket_name && (
+                    <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">{registration.ticket_name}</span>
+                )}
+            </div>
+
+            <div className="p-6 space-y-6">
+                {editableFields.length > 0 && (
+                    <form onSubmit={handleSave} className="space-y-4">
+                        <h3 className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                            <UserPen className="h-4 w-4 text-gray-400" />
+                            Persoonsgegevens
+                        </h3>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            {SELF_SERVICE_FIELDS.filter(f => editableFields.includes(f.key)).map(({ key, label }) => (
+                                <div key={key}>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                                    {key === 'gender' ? (
+                                        <select
+                                            value={profile.gender ?? ''}
+                                            onChange={(e) => setProfile({ ...profile, gender: e.target.value })}
+                                            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        >
+                                            <option value="">-</option>
+                                            {GENDER_OPTIONS.map(option => (
+                                                <option key={option.value} value={option.value}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <input
+                                            type={key === 'birth_date' ? 'date' : key === 'phone' ? 'tel' : 'text'}
+                                            value={profile[key] ?? ''}
+                                            onChange={(e) => setProfile({ ...profile, [key]: e.target.value })}
+                                            required={key === 'first_name' || key === 'last_name'}
+                                            maxLength={key === 'country' ? 2 : undefined}
+                                            placeholder={key === 'country' ? 'NL' : undefined}
+                                            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+
+                        {formError && (
+                            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                                <p className="text-sm text-red-800">{formError}</p>
+                            </div>
+                        )}
+
+                        <div className="flex items-center justify-end gap-3">
+                            {saved && (
+                                <span className="text-sm text-green-700 flex items-center gap-1">
+                                    <CheckCircle className="h-4 w-4" /> Opgeslagen
+                                </span>
+                            )}
+                            <button
+                                type="submit"
+                                disabled={saving}
+                                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                                {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                                Gegevens opslaan
+                            </button>
+                        </div>
+                    </form>
+                )}
+
+                {readOnlyFields.length > 0 && (
+                    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                        {readOnlyFields.map(({ key, label }) => (
+                            <div key={key}>
+                                <dt className="text-gray-500">{label}</dt>
+                                <dd className="text-gray-900">{participant[key]}</dd>
+                            </div>
+                        ))}
+                    </dl>
+                )}
+
+                {registration.answer_sets.map((set, index) => (
+                    <AnswerSetForm
+                        key={set.ticket_instance_id ?? index}
+                        eventId={eventId}
+                        registrationId={registration.id}
+                        answerSet={set}
+                        title={registration.answer_sets.length > 1 ? `Vragen · ticket ${index + 1}` : 'Vragen'}
+                        questions={questionsForTicketType(questions, set.ticket_type_id ?? registration.ticket_type_id ?? '')}
+                        editable={answersEditable}
+                        publicToken={publicToken}
+                        onSaved={onSaved}
+                    />
+                ))}
+            </div>
+        </div>
+    )
+}
+
+function AnswerSetForm({ eventId, registrationId, answerSet, title, questions, editable, publicToken, onSaved }: {
+    eventId: string
+    registrationId: string
+    answerSet: SelfServiceAnswerSet
+    title: string
+    questions: RegistrationQuestion[]
+    editable: boolean
+    publicToken: string | null
+    onSaved: () => void
+}) {
+    const [answers, setAnswers] = useState<RegistrationAnswers>(answerSet.answers)
+    const [answerErrors, setAnswerErrors] = useState<Record<string, AnswerErrorReason>>({})
+    const [saving, setSaving] = useState(false)
+    const [saved, setSaved] = useState(false)
+    const [formError, setFormError] = useState<string | null>(null)
+
+    if (questions.length === 0) return null
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSaved(false)
+        setFormError(null)
+
+        const errors = validateAnswers(questions, answers)
+        setAnswerErrors(errors)
+        if (Object.keys(errors).length > 0) return
+
+        // Patch: zichtbare antwoorden, vervallen antwoorden worden gewist (null)
+        const patch: RegistrationAnswers = visibleAnswers(questions, answers)
+        for (const questionId of Object.keys(answerSet.answers)) {
+            if (!(questionId in patch)) patch[questionId] = null
+        }
+
+        setSaving(true)
+        const { error: saveError } = await updateSelfServiceRegistration(registrationId, {
+            answers: patch,
+            ticketInstanceId: answerSet.ticket_instance_id,
+            publicToken
+        })
+        setSaving(false)
+
+        if (saveError) {
+            setFormError(SELF_SERVICE_ERRORS[saveError.message] || 'Opslaan mislukt, probeer het opnieuw.')
+            return
+        }
+
+        setSaved(true)
+        onSaved()
+    }
+
+    if (!editable) {
+        const shown = visibleAnswers(questions, answerSet.answers)
+        return (
+            <div className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-900">{title}</h3>
+                <dl className="space-y-2 text-sm">
+                    {questions.filter(q => q.id in shown).map(question => (
+                        <div key={question.id}>
+                            <dt className="text-gray-500">{question.label}</dt>
+                            <dd className="text-gray-900">{formatAnswer(shown[question.id])}</dd>
+                        </div>
+                    ))}
+                </dl>
+            </div>
+        )
+    }
+
+    return (
+        <form onSubmit={handleSave} className="space-y-4 border-t border-gray-100 pt-6">
+            <h3 className="text-sm font-medium text-gray-900">{title}</h3>
+
+            <RegistrationQuestionFields
+                eventId={eventId}
+                questions={questions}
+                answers={answers}
+                errors={answerErrors}
+                onChange={setAnswers}
+            />
+
+            {formError && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                    <p className="text-sm text-red-800">{formError}</p>
+                </div>
+            )}
+
+            <div className="flex items-center justify-end gap-3">
+                {saved && (
+                    <span className="text-sm text-green-700 flex items-center gap-1">
+                        <CheckCircle className="h-4 w-4" /> Opgeslagen
+                    </span>
+                )}
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                    {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Antwoorden opslaan
+                </button>
+            </div>
+        </form>
+    )
+}
+
+function formatAnswer(answer: unknown): string {
+    if (answer === true) return 'Ja'
+    if (answer && typeof answer === 'object') return (answer as FileAnswer).name
+    return String(answer)
+}
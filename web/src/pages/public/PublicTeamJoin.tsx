@@ -0,0 +1,258 @@
+/**
+ * PublicTeamJoin Page
+ *
+ * Aanmelden als teamlid via de uitnodigingslink van de captain.
+ * Route: /e/:eventSlug/team/:code
+ *
+ * Het teamlid vult eigen gegevens en de registratievragen van het
+ * teamtickettype in en krijgt één van de tickets uit de teamorder.
+ */
+
+import { useEffect, useState } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { Loader2, CheckCircle, XCircle, Calendar, Users } from 'lucide-react'
+import { getTeamInvite, joinTeam, type TeamInvite } from '../../data/event_teams'
+import { validateAnswers, visibleAnswers, type AnswerErrorReason } from '../../data/registration_questions'
+import { RegistrationQuestionFields } from '../../components/RegistrationQuestionFields'
+
+// Foutcodes van get_team_invite / join_team → tekst
+const TEAM_ERRORS: Record<string, string> = {
+    TEAM_NOT_FOUND: 'Deze teamlink bestaat niet.',
+    TEAM_NOT_ACTIVE: 'Dit team is (nog) niet actief. De bestelling van de captain is niet betaald of geannuleerd.',
+    REGISTRATION_CLOSED: 'Het evenement is al begonnen; aanmelden is niet meer mogelijk.',
+    TEAM_FULL: 'Alle plekken in dit team zijn al bezet.',
+    ALREADY_IN_TEAM: 'Je zit al in een team voor dit evenement.',
+    ALREADY_REGISTERED: 'Je bent al ingeschreven voor dit ticket.',
+    INVALID_EMAIL: 'Vul een geldig e-mailadres in.',
+    MISSING_NAME: 'Vul je voor- en achternaam in.',
+    MISSING_REQUIRED_ANSWER: 'Beantwoord alle verplichte vragen.',
+    INVALID_ANSWER: 'Controleer je antwoorden.',
+}
+
+export function PublicTeamJoin() {
+    const { code } = useParams<{ eventSlug: string; code: string }>()
+
+    const [invite, setInvite] = useState<TeamInvite | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [formError, setFormError] = useState<string | null>(null)
+    const [submitting, setSubmitting] = useState(false)
+    const [joined, setJoined] = useState(false)
+
+    const [email, setEmail] = useState('')
+    const [firstName, setFirstName] = useState('')
+    const [lastName, setLastName] = useState('')
+    const [answers, setAnswers] = useState<Record<string, unknown>>({})
+    const [answerErrors, setAnswerErrors] = useState<Record<string, AnswerErrorReason>>({})
+
+    useEffect(() => {
+        async function fetchInvite() {
+            if (!code) {
+                setError(TEAM_ERRORS.TEAM_NOT_FOUND)
+                setLoading(false)
+                return
+            }
+
+            const { data, error: fetchError } = await getTeamInvite(code)
+
+            if (fetchError || !data) {
+                setError(TEAM_ERRORS[fetchError?.message || ''] || 'Er ging iets mis bij het ophalen van het team')
+            } else {
+                setInvite(data)
+            }
+
+            setLoading(false)
+        }
+
+        fetchInvite()
+    }, [code])
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!code || !invite) return
+
+        const errors = validateAnswers(invite.questions, answers)
+        setAnswerErrors(errors)
+        if (Object.keys(errors).length > 0) {
+            setFormError(TEAM_ERRORS.INVALID_ANSWER)
+            return
+        }
+
+        setSubmitting(true)
+        setFormError(null)
+
+        const { error: joinError } = await joinTeam(
+            code,
+            { email, firstName, lastName },
+            visibleAnswers(invite.questions, answers)
+        )
+
+        if (joinError) {
+            setFormError(TEAM_ERRORS[joinError.message] || 'Aanmelden is mislukt')
+        } else {
+            setJoined(true)
+        }
+
+        setSubmitting(false)
+    }
+
+    if (loading) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <Loader2 className="h-12 w-12 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    if (error || !invite) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+                <div className="max-w-md w-full text-center">
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+                        <XCircle className="h-16 w-16 text-red-500 mx-auto" />
+                        <h1 className="mt-4 text-xl font-semibold text-gray-900">Ongeldige teamlink</h1>
+                        <p className="mt-2 text-gray-600">{error}</p>
+                        <Link
+                            to="/events"
+                            className="mt-6 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                            Bekijk evenementen
+                        </Link>
+                    </div>
+                </div>
+            </div>
+        )
+    }
+
+    const { team, questions } = invite
+
+    if (joined) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+                <div className="max-w-md w-full text-center">
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+                        <CheckCircle className="h-16 w-16 text-green-500 mx-auto" />
+                        <h1 className="mt-4 text-xl font-semibold text-gray-900">Je zit in team {team.name}!</h1>
+                        <p className="mt-2 text-gray-600">
+                            Je bent ingeschreven voor {team.event_name}. Je ontvangt een bevestiging per e-mail.
+                        </p>
+                    </div>
+                </div>
+            </div>
+        )
+    }
+
+    const closed = team.is_full || team.registration_closed
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-12 px-4">
+            <div className="max-w-lg mx-auto">
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                    {/* Header */}
+                    <div className="bg-indigo-600 px-6 py-8 text-center">
+                        <p className="text-indigo-200 text-sm">Uitnodiging voor team</p>
+                        <h1 className="text-2xl font-bold text-white">{team.name}</h1>
+                        {team.captain_name && (
+                            <p className="mt-1 text-indigo-200 text-sm">Captain: {team.captain_name}</p>
+                        )}
+                    </div>
+
+                    <div className="p-6">
+                        <div className="flex items-center p-4 bg-gray-50 rounded-lg">
+                            <Calendar className="h-6 w-6 text-indigo-600 flex-shrink-0" />
+                            <div className="ml-4">
+                                <p className="font-medium text-gray-900">{team.event_name}</p>
+                                <p className="text-sm text-gray-500">
+                                    {team.ticket_name}
+                                    {team.event_start && ` · ${new Date(team.event_start).toLocaleDateString('nl-NL', {
+                                        day: 'numeric',
+                                        month: 'long',
+                                        year: 'numeric'
+                                    })}`}
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="mt-4 flex items-center p-4 bg-gray-50 rounded-lg">
+                            <Users className="h-6 w-6 text-green-600 flex-shrink-0" />
+                            <p className="ml-4 text-sm text-gray-700">
+                                {team.member_count} van {team.slots} plekken bezet
+                            </p>
+                        </div>
+
+                        {closed ? (
+                            <p className="mt-6 text-center text-gray-600">
+                                {team.registration_closed ? TEAM_ERRORS.REGISTRATION_CLOSED : TEAM_ERRORS.TEAM_FULL}
+                            </p>
+                        ) : (
+                            <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Voornaam <span className="text-red-500">*</span>
+                                        </label>
+                                        <input
+                                            type="text"
+                                            value={firstName}
+                                            onChange={(e) => setFirstName(e.target.value)}
+                                            required
+                                            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Achternaam <span className="text-red-500">*</span>
+                                        </label>
+                                        <input
+                                            type="text"
+                                            value={lastName}
+                                            onChange={(e) => setLastName(e.target.value)}
+                                            required
+                                            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Email <span className="text-red-500">*</span>
+                                    </label>
+                                    <input
+                                        type="email"
+                                        value={email}
+                                        onChange={(e) => setEmail(e.target.value)}
+                                        placeholder="jouw@email.nl"
+                                        required
+                                        className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                    />
+                                </div>
+
+                                <RegistrationQuestionFields
+                                    eventId={team.event_id}
+                                    questions={questions}
+                                    answers={answers}
+                                    errors={answerErrors}
+                                    onChange={setAnswers}
+                                />
+
+                                {formError && (
+                                    <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                                        <p className="text-sm text-red-800">{formError}</p>
+                                    </div>
+                                )}
+
+                                <button
+                                    type="submit"
+                                    disabled={submitting}
+                                    className="w-full flex items-center justify-center px-4 py-3 border border-transparent text-base font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                                >
+                                    {submitting ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Aanmelden voor het team'}
+                                </button>
+                            </form>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,380 @@
+/**
+ * PublicTransferClaim Page
+ *
+ * Claim pagina voor de ontvanger van een tickettransfer (link uit de mail).
+ * Route: /transfer/:transferId/:token
+ *
+ * Ingelogd: direct accepteren of weigeren. Zonder account maakt de
+ * ontvanger hier een account aan met het adres van de transfer en wordt
+ * het ticket meteen geaccepteerd; moet het adres eerst bevestigd worden,
+ * dan brengt de bevestigingslink de ontvanger terug naar deze pagina.
+ */
+
+import { useEffect, useState } from 'react'
+import { Link, useLocation, useParams } from 'react-router-dom'
+import { Calendar, CheckCircle, Gift, Loader2, XCircle } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import {
+    acceptTransfer,
+    getTransferClaim,
+    rejectTransfer,
+    signUpForTransfer,
+    type TransferClaim
+} from '../../data/transfers'
+
+// Foutcodes van de transfer RPCs → tekst
+const TRANSFER_ERRORS: Record<string, string> = {
+    TRANSFER_NOT_FOUND: 'Deze transfer bestaat niet.',
+    INVALID_TOKEN: 'Deze link is ongeldig. Controleer of je de volledige link uit de e-mail hebt gebruikt.',
+    TRANSFER_EXPIRED: 'Deze transfer is verlopen. Vraag de afzender om het ticket opnieuw over te dragen.',
+    TRANSFER_NOT_PENDING: 'Deze transfer is al afgehandeld.',
+    SELF_TRANSFER: 'Je kunt je eigen ticket niet accepteren. Log in met het account van de ontvanger.',
+    ACCOUNT_EXISTS: 'Er bestaat al een account met dit e-mailadres. Log in om het ticket te accepteren.',
+}
+
+const STATUS_MESSAGES: Record<Exclude<TransferClaim['status'], 'pending'>, string> = {
+    accepted: 'Dit ticket is al geaccepteerd.',
+    rejected: 'Dit ticket is geweigerd.',
+    cancelled: 'De afzender heeft deze transfer ingetrokken.',
+    expired: TRANSFER_ERRORS.TRANSFER_EXPIRED,
+}
+
+function formatDateTime(value: string): string {
+    return new Date(value).toLocaleString('nl-NL', {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+export function PublicTransferClaim() {
+    const { transferId, token } = useParams<{ transferId: string; token: string }>()
+    const location = useLocation()
+    const { session, loading: authLoading } = useAuth()
+
+    const [claim, setClaim] = useState<TransferClaim | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [formError, setFormError] = useState<string | null>(null)
+    const [busy, setBusy] = useState(false)
+    const [outcome, setOutcome] = useState<'accepted' | 'rejected' | 'confirm_email' | null>(null)
+
+    const [firstName, setFirstName] = useState('')
+    const [lastName, setLastName] = useState('')
+    const [password, setPassword] = useState('')
+
+    useEffect(() => {
+        async function fetchClaim() {
+            if (!transferId || !token) {
+                setError(TRANSFER_ERRORS.TRANSFER_NOT_FOUND)
+                setLoading(false)
+                return
+            }
+
+            const { data, error: fetchError } = await getTransferClaim(transferId, token)
+
+            if (fetchError || !data) {
+                setError(TRANSFER_ERRORS[fetchError?.message || ''] || 'Er ging iets mis bij het ophalen van de transfer')
+            } else {
+                setClaim(data)
+            }
+
+            setLoading(false)
+        }
+
+        fetchClaim()
+    }, [transferId, token])
+
+    const handleAccept = async () => {
+        if (!claim || !token) return
+
+        setBusy(true)
+        setFormError(null)
+        const { error: acceptError } = await acceptTransfer(claim.id, token)
+        setBusy(false)
+
+        if (acceptError) {
+            setFormError(TRANSFER_ERRORS[acceptError.message] || 'Accepteren is mislukt')
+        } else {
+            setOutcome('accepted')
+        }
+    }
+
+    const handleReject = async () => {
+        if (!claim || !token) return
+        if (!confirm('Weet je zeker dat je dit ticket wilt weigeren?')) return
+
+        setBusy(true)
+        setFormError(null)
+        const { error: rejectError } = await rejectTransfer(claim.id, token)
+        setBusy(false)
+
+        if (rejectError) {
+            setFormError(TRANSFER_ERRORS[rejectError.message] || 'Weigeren is mislukt')
+        } else {
+            setOutcome('rejected')
+        }
+    }
+
+    const handleSignUp = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!claim || !token) return
+
+        if (password.length < 6) {
+            setFormError('Je wachtwoord moet minimaal 6 tekens hebben.')
+            return
+        }
+
+        setBusy(true)
+        setFormError(null)
+        const { data, error: signUpError } = await signUpForTransfer(claim, token, { firstName, lastName, password })
+
+        if (signUpError || !data) {
+            setBusy(false)
+            setFormError(TRANSFER_ERRORS[signUpError?.message || ''] || signUpError?.message || 'Account aanmaken is mislukt')
+            return
+        }
+
+        if (!data.signedIn) {
+            setBusy(false)
+            setOutcome('confirm_email')
+            return
+        }
+
+        // Direct ingelogd: in dezelfde flow accepteren
+        const { error: acceptError } = await acceptTransfer(claim.id, token)
+        setBusy(false)
+
+        if (acceptError) {
+            setFormError(TRANSFER_ERRORS[acceptError.message] || 'Accepteren is mislukt')
+        } else {
+            setOutcome('accepted')
+        }
+    }
+
+    if (loading || authLoading) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <Loader2 className="h-12 w-12 animate-spin text-indigo-600" />
+            </div>
+        )
+    }
+
+    if (error || !claim) {
+        return (
+            <ResultCard
+                icon={<XCircle className="h-16 w-16 text-red-500 mx-auto" />}
+                title="Ongeldige transferlink"
+                text={error ?? TRANSFER_ERRORS.TRANSFER_NOT_FOUND}
+            />
+        )
+    }
+
+    if (outcome === 'accepted') {
+        return (
+            <ResultCard
+                icon={<CheckCircle className="h-16 w-16 text-green-500 mx-auto" />}
+                title="Ticket geaccepteerd!"
+                text={`Het ticket ${claim.ticket_name} voor ${claim.event_name} staat nu op jouw naam. ${claim.sender_name ?? 'De afzender'} krijgt hiervan bericht.`}
+            />
+        )
+    }
+
+    if (outcome === 'rejected') {
+        return (
+            <ResultCard
+                icon={<XCircle className="h-16 w-16 text-gray-400 mx-auto" />}
+                title="Ticket geweigerd"
+                text={`${claim.sender_name ?? 'De afzender'} krijgt bericht dat je het ticket niet aanneemt.`}
+            />
+        )
+    }
+
+    if (outcome === 'confirm_email') {
+        return (
+            <ResultCard
+                icon={<CheckCircle className="h-16 w-16 text-indigo-500 mx-auto" />}
+                title="Bevestig je e-mailadres"
+                text={`We hebben een bevestigingslink gestuurd naar ${claim.to_email}. Via die link kom je terug op deze pagina om het ticket te accepteren (tot ${formatDateTime(claim.expires_at)}).`}
+            />
+        )
+    }
+
+    if (claim.status !== 'pending') {
+        return (
+            <ResultCard
+                icon={<XCircle className="h-16 w-16 text-gray-400 mx-auto" />}
+                title={claim.event_name}
+                text={STATUS_MESSAGES[claim.status]}
+            />
+        )
+    }
+
+    const inputClass = 'w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500'
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-12 px-4">
+            <div className="max-w-lg mx-auto">
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                    {/* Header */}
+                    <div className="bg-indigo-600 px-6 py-8 text-center">
+                        <Gift className="h-10 w-10 text-white mx-auto" />
+                        <p className="mt-2 text-indigo-200 text-sm">
+                            {claim.sender_name ?? 'Iemand'} stuurt je een ticket
+                        </p>
+                        <h1 className="text-2xl font-bold text-white">{claim.event_name}</h1>
+                    </div>
+
+                    <div className="p-6">
+                        <div className="flex items-center p-4 bg-gray-50 rounded-lg">
+                            <Calendar className="h-6 w-6 text-indigo-600 flex-shrink-0" />
+                            <div className="ml-4">
+                                <p className="font-medium text-gray-900">{claim.ticket_name}</p>
+                                <p className="text-sm text-gray-500">
+                                    {claim.event_start && formatDateTime(claim.event_start)}
+                                    {claim.location_name && ` · ${claim.location_name}`}
+                                </p>
+                            </div>
+                        </div>
+
+                        <p className="mt-4 text-sm text-gray-600">
+                            Accepteer het ticket voor {formatDateTime(claim.expires_at)}. Daarna blijft het ticket
+                            van de afzender.
+                        </p>
+
+                        {formError && (
+                            <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3">
+                                <p className="text-sm text-red-800">{formError}</p>
+                            </div>
+                        )}
+
+                        {session ? (
+                            <div className="mt-6 space-y-3">
+                                <p className="text-sm text-gray-600">
+                                    Ingelogd als <span className="font-medium">{session.user.email}</span>
+                                    {session.user.email?.toLowerCase() !== claim.to_email && (
+                                        <> (de transfer is verstuurd naar {claim.to_email})</>
+                                    )}
+                                </p>
+                                <button
+                                    type="button"
+                                    onClick={handleAccept}
+                                    disabled={busy}
+                                    className="w-full flex items-center justify-center px-4 py-3 border border-transparent text-base font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                                >
+                                    {busy ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Ticket accepteren'}
+                                </button>
+                            </div>
+                        ) : (
+                            <form onSubmit={handleSignUp} className="mt-6 space-y-4">
+                                <p className="text-sm font-medium text-gray-900">
+                                    Maak een account aan om het ticket te accepteren
+                                </p>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Voornaam <span className="text-red-500">*</span>
+                                        </label>
+                                        <input
+                                            type="text"
+                                            value={firstName}
+                                            onChange={(e) => setFirstName(e.target.value)}
+                                            required
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Achternaam <span className="text-red-500">*</span>
+                                        </label>
+                                        <input
+                                            type="text"
+                                            value={lastName}
+                                            onChange={(e) => setLastName(e.target.value)}
+                                            required
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                                    <input
+                                        type="email"
+                                        value={claim.to_email}
+                                        disabled
+                                        className={`${inputClass} bg-gray-50 text-gray-500`}
+                                    />
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Wachtwoord <span className="text-red-500">*</span>
+                                    </label>
+                                    <input
+                                        type="password"
+                                        value={password}
+                                        onChange={(e) => setPassword(e.target.value)}
+                                        autoComplete="new-password"
+                                        required
+                                        className={inputClass}
+                                    />
+                                </div>
+
+                                <button
+                                    type="submit"
+                                    disabled={busy}
+                                    className="w-full flex items-center justify-center px-4 py-3 border border-transparent text-base font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                                >
+                                    {busy ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Account aanmaken en accepteren'}
+                                </button>
+
+                                <p className="text-center text-sm text-gray-600">
+                                    Al een account?{' '}
+                                    <Link
+                                        to="/login"
+                                        state={{ from: location }}
+                                        className="font-medium text-indigo-600 hover:text-indigo-500"
+                                    >
+                                        Inloggen
+                                    </Link>
+                                </p>
+                            </form>
+                        )}
+
+                        <button
+                            type="button"
+                            onClick={handleReject}
+                            disabled={busy}
+                            className="mt-4 w-full px-4 py-2 text-sm text-gray-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                            Ticket weigeren
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
+
+function ResultCard({ icon, title, text }: { icon: React.ReactNode; title: string; text: string }) {
+    return (
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+            <div className="max-w-md w-full text-center">
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+                    {icon}
+                    <h1 className="mt-4 text-xl font-semibold text-gray-900">{title}</h1>
+                    <p className="mt-2 text-gray-600">{text}</p>
+                    <Link
+                        to="/events"
+                        className="mt-6 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                    >
+                        Bekijk evenementen
+                    </Link>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -54,3 +54,42 @@ export interface TicketType {
     updated_at: string
     deleted_at: string | null
 }
+
+/**
+ * Product: Add-on dat naast tickets verkocht wordt
+ * (bijv. t-shirt, parkeerkaart, medaille)
+ */
+export interface Product {
+    id: string
+    event_id: string
+    name: string
+    description: string | null
+    category: 'merchandise' | 'parking' | 'medal' | 'other'
+    image_url: string | null
+    price: number
+    vat_percentage: number
+    stock_total: number | null   // null = onbeperkt
+    max_per_order: number | null
+    status: 'draft' | 'published' | 'closed'
+    sort_order: number
+    created_at: string
+    updated_at: string
+    deleted_at: string | null
+    product_variants?: ProductVariant[]
+}
+
+/**
+ * ProductVariant: Variant van een product met eigen voorraad (bijv. maat M)
+ */
+export interface ProductVariant {
+    id: string
+    product_id: string
+    name: string
+    sku: string | null
+    price_adjustment: number
+    stock_total: number | null   // null = onbeperkt
+    sort_order: number
+    created_at: string
+    updated_at: string
+    deleted_at: string | null
+}